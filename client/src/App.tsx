@@ -17,6 +17,8 @@ import { OfflineBanner } from "@/components/ui/offline-banner";
 import { GlobalTrialBanner } from "@/components/global-trial-banner";
 import { TrialLoginModal } from "@/components/trial-login-modal";
 import { captureUtmParams } from "@/lib/utm";
+import { connectRealtime } from "@/lib/realtime";
+import { startOfflineSync } from "@/lib/offline-sync";
 
 // Eagerly loaded (critical path)
 import NotFound from "@/pages/not-found";
@@ -84,17 +86,21 @@ const ResetPasswordPage = lazyWithRetry(() => import("@/pages/reset-password"));
 const CustomerPortal = lazyWithRetry(() => import("@/pages/portal/index"));
 const PortalInvoice = lazyWithRetry(() => import("@/pages/portal/invoice"));
 const PortalQuote = lazyWithRetry(() => import("@/pages/portal/quote"));
+const PortalAccount = lazyWithRetry(() => import("@/pages/portal/account"));
 const PublicBooking = lazyWithRetry(() => import("@/pages/book/[slug]"));
 const ManageAppointment = lazyWithRetry(() => import("@/pages/book/manage"));
 const ManageReservation = lazyWithRetry(() => import("@/pages/book/manage-reservation"));
+const WaitlistPage = lazyWithRetry(() => import("@/pages/book/waitlist"));
 const CustomerTrackPage = lazyWithRetry(() => import("@/pages/track/[token]"));
 const DispatchPage = lazyWithRetry(() => import("@/pages/dispatch/index"));
+const InboxPage = lazyWithRetry(() => import("@/pages/inbox/index"));
 // Admin pages
 const AdminDashboard = lazyWithRetry(() => import("@/pages/admin/index"));
 const PhoneManagement = lazyWithRetry(() => import("@/pages/admin/phone-management"));
 const SocialMediaAdmin = lazyWithRetry(() => import("@/pages/admin/social-media"));
 // Staff pages
 const StaffDashboard = lazyWithRetry(() => import("@/pages/staff/dashboard"));
+const StaffJobDetail = lazyWithRetry(() => import("@/pages/staff/job"));
 const StaffJoin = lazyWithRetry(() => import("@/pages/staff/join"));
 const PricingPage = lazyWithRetry(() => import("@/pages/pricing"));
 // Vertical landing pages — `/for/<vertical>` (SEO + targeted ad campaigns)
@@ -190,6 +196,7 @@ function Router() {
         <ProtectedRoute path="/google-business-profile" component={GoogleBusinessProfilePage} />
         <ProtectedRoute path="/dispatch" component={DispatchPage} />
         <ProtectedRoute path="/sms-campaigns" component={SmsCampaigns} />
+        <ProtectedRoute path="/inbox" component={InboxPage} />
         <ProtectedRoute path="/settings" component={Settings} />
         <ProtectedRoute path="/settings/calendar" component={CalendarSettings} />
         <ProtectedRoute path="/settings/pwa-installation" component={PWAInstallationGuide} />
@@ -201,6 +208,7 @@ function Router() {
 
         {/* Staff routes */}
         <ProtectedRoute path="/staff/dashboard" component={StaffDashboard} />
+        <ProtectedRoute path="/staff/jobs/:id" component={StaffJobDetail} />
 
         {/* Public routes */}
         <Route path="/staff/join/:code" component={StaffJoin} />
@@ -211,8 +219,11 @@ function Router() {
         <Route path="/portal" component={CustomerPortal} />
         <Route path="/portal/invoice/:token" component={PortalInvoice} />
         <Route path="/portal/quote/:token" component={PortalQuote} />
+        <Route path="/portal/account/:slug" component={PortalAccount} />
         <Route path="/book/:slug/manage-reservation/:token" component={ManageReservation} />
         <Route path="/book/:slug/manage/:token" component={ManageAppointment} />
+        <Route path="/book/:slug/waitlist/:token" component={WaitlistPage} />
+        <Route path="/book/:slug/waitlist" component={WaitlistPage} />
         <Route path="/track/:token" component={CustomerTrackPage} />
         <Route path="/book/:slug" component={PublicBooking} />
         <Route path="/pricing" component={PricingPage} />
@@ -246,6 +257,26 @@ function CapacitorInit() {
   return null;
 }
 
+// Live change events for the signed-in business (see lib/realtime)
+function RealtimeSync() {
+  const { user } = useAuth();
+  React.useEffect(() => {
+    if (!user?.businessId) return;
+    return connectRealtime(queryClient);
+  }, [user?.businessId]);
+  return null;
+}
+
+// Cached jobs and queued changes for working without signal (see lib/offline-sync)
+function OfflineSync() {
+  const { user } = useAuth();
+  React.useEffect(() => {
+    if (!user?.id) return;
+    return startOfflineSync(queryClient, user.id);
+  }, [user?.id]);
+  return null;
+}
+
 function ImpersonationBanner() {
   const { user } = useAuth();
   const imp = (user as any)?.impersonating;
@@ -293,6 +324,8 @@ function App() {
               <SupportChat />
               <OfflineBanner />
               <CapacitorInit />
+              <RealtimeSync />
+              <OfflineSync />
               <ImpersonationBanner />
               <GlobalTrialBanner />
               <TrialLoginModal />
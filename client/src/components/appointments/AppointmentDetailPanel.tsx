@@ -27,10 +27,13 @@ import {
   User,
   Globe,
   Bot,
+  DoorOpen,
 } from "lucide-react";
 import { getStaffColor, getStatusColors } from "@/lib/scheduling-utils";
 import type { AppointmentData, StaffData } from "./appointmentHelpers";
 import { formatFullDate } from "./appointmentHelpers";
+import { AppointmentFees } from "./AppointmentFees";
+import { CustomFieldsCard } from "@/components/custom-fields/CustomFieldInputs";
 
 // ─── Status badge helper ─────────────────────────────────────────────
 function getStatusBadge(status: string) {
@@ -141,6 +144,16 @@ export function AppointmentDetailPanel({
             </div>
           </div>
         )}
+
+        {appointment.resource && (
+          <div className="flex items-center gap-3">
+            <DoorOpen className="h-4 w-4 text-gray-400 flex-shrink-0" />
+            <div>
+              <div className="text-sm font-medium">{appointment.resource.name}</div>
+              <div className="text-xs text-gray-500">{appointment.resource.resourceType}</div>
+            </div>
+          </div>
+        )}
       </div>
 
       <Separator />
@@ -271,6 +284,15 @@ export function AppointmentDetailPanel({
         </div>
       </div>
 
+      <AppointmentFees appointmentId={appointment.id} status={appointment.status} />
+
+      <CustomFieldsCard
+        entityType="appointment"
+        values={appointment.customFields}
+        endpoint={`/api/appointments/${appointment.id}`}
+        invalidateKeys={[["/api/appointments"], [`/api/appointments/${appointment.id}`]]}
+      />
+
       <Separator />
 
       {/* View full details */}
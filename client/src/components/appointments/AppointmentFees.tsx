@@ -0,0 +1,134 @@
+import { useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/api";
+import { formatCurrency } from "@/lib/utils";
+import { CreditCard, Loader2 } from "lucide-react";
+
+interface AppointmentFee {
+  id: number;
+  type: "late_cancel" | "no_show";
+  amount: string;
+  status: "pending" | "charged" | "failed" | "waived";
+  failureReason: string | null;
+  chargedAt: string | null;
+}
+
+interface FeesResponse {
+  fees: AppointmentFee[];
+  card: { brand: string | null; last4: string | null } | null;
+}
+
+const FEE_LABELS: Record<AppointmentFee["type"], string> = {
+  late_cancel: "Late cancellation fee",
+  no_show: "No-show fee",
+};
+
+const FEE_STATUS_COLORS: Record<AppointmentFee["status"], string> = {
+  pending: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400",
+  charged: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400",
+  failed: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400",
+  waived: "bg-gray-100 text-gray-600 dark:bg-gray-800/30 dark:text-gray-400",
+};
+
+/**
+ * Late-cancel / no-show fees recorded against an appointment, with one-click
+ * charge / waive for owners and managers. Renders nothing when there are none.
+ */
+export function AppointmentFees({ appointmentId, status }: { appointmentId: number; status?: string }) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const feesKey = [`/api/appointments/${appointmentId}/fees`];
+  const canResolve = user?.role === "owner" || user?.role === "manager";
+
+  const { data, refetch } = useQuery<FeesResponse>({
+    queryKey: feesKey,
+    enabled: appointmentId > 0,
+  });
+
+  // Marking a no-show records the fee server-side — pick it up
+  useEffect(() => {
+    if (appointmentId > 0) refetch();
+  }, [status]);
+
+  const resolveMutation = useMutation({
+    mutationFn: ({ feeId, action }: { feeId: number; action: "charge" | "waive" }) =>
+      apiRequest("POST", `/api/appointments/${appointmentId}/fees/${feeId}/${action}`),
+    onSuccess: (fee: AppointmentFee, { action }) => {
+      queryClient.invalidateQueries({ queryKey: feesKey });
+      toast({
+        title: action === "charge" ? "Fee charged" : "Fee waived",
+        description: action === "charge"
+          ? `${formatCurrency(parseFloat(fee.amount))} charged. A receipt was emailed to the customer.`
+          : "The customer will not be charged.",
+      });
+    },
+    onError: (error: any) => {
+      queryClient.invalidateQueries({ queryKey: feesKey });
+      toast({
+        title: "Could not update fee",
+        description: error?.message?.replace(/^\d+:\s*/, "") || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!data || data.fees.length === 0) return null;
+
+  const cardLabel = data.card?.last4
+    ? `${data.card.brand ? data.card.brand.charAt(0).toUpperCase() + data.card.brand.slice(1) : "Card"} ending ${data.card.last4}`
+    : "No card on file";
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium flex items-center gap-1.5">
+          <CreditCard className="h-3.5 w-3.5 text-muted-foreground" />
+          Cancellation Fees
+        </h4>
+        <span className="text-xs text-muted-foreground">{cardLabel}</span>
+      </div>
+      {data.fees.map((fee) => {
+        const isOpen = fee.status === "pending" || fee.status === "failed";
+        const isBusy = resolveMutation.isPending && resolveMutation.variables?.feeId === fee.id;
+        return (
+          <div key={fee.id} className="rounded-md border p-3 space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-sm">
+                {FEE_LABELS[fee.type]} · <span className="font-medium">{formatCurrency(parseFloat(fee.amount))}</span>
+              </span>
+              <Badge className={`text-[10px] ${FEE_STATUS_COLORS[fee.status]}`}>{fee.status}</Badge>
+            </div>
+            {fee.status === "failed" && fee.failureReason && (
+              <p className="text-xs text-red-600">{fee.failureReason}</p>
+            )}
+            {isOpen && canResolve && (
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  onClick={() => resolveMutation.mutate({ feeId: fee.id, action: "charge" })}
+                  disabled={isBusy || !data.card}
+                >
+                  {isBusy && resolveMutation.variables?.action === "charge" && <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" />}
+                  {fee.status === "failed" ? "Retry Charge" : "Charge"}
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => resolveMutation.mutate({ feeId: fee.id, action: "waive" })}
+                  disabled={isBusy}
+                >
+                  Waive
+                </Button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -40,6 +40,7 @@ import {
 } from "@/components/ui/popover";
 import { cn, formatDate } from "@/lib/utils";
 import { CalendarIcon, Clock } from "lucide-react";
+import type { ResourceData } from "./appointmentHelpers";
 
 // Time slots for appointment selection
 const TIME_SLOTS = [
@@ -66,6 +67,7 @@ const appointmentSchema = z.object({
   customerId: z.string().min(1, "Customer is required"),
   staffId: z.string().optional(),
   serviceId: z.string().optional(),
+  resourceId: z.string().optional(),
   date: z.date({
     required_error: "Date is required",
   }),
@@ -76,6 +78,9 @@ const appointmentSchema = z.object({
 
 type AppointmentFormData = z.infer<typeof appointmentSchema>;
 
+// Select value for "let the server pick a free resource"
+const ANY_RESOURCE = "any";
+
 interface AppointmentFormProps {
   appointment?: any; // Use the Appointment type from schema.ts
   isEdit?: boolean;
@@ -103,6 +108,10 @@ export function AppointmentForm({ appointment, isEdit = false }: AppointmentForm
     queryKey: ['/api/services', { businessId }],
   });
 
+  const { data: resources = [] } = useQuery<ResourceData[]>({
+    queryKey: ['/api/resources'],
+  });
+
   // Parse appointment date and time for edit mode
   const getInitialDate = () => {
     if (isEdit && appointment?.startDate) {
@@ -128,6 +137,7 @@ export function AppointmentForm({ appointment, isEdit = false }: AppointmentForm
       customerId: appointment?.customerId?.toString() || "",
       staffId: appointment?.staffId?.toString() || "",
       serviceId: appointment?.serviceId?.toString() || "",
+      resourceId: appointment?.resourceId?.toString() || ANY_RESOURCE,
       date: getInitialDate(),
       startTime: getInitialStartTime(),
       status: appointment?.status || "scheduled",
@@ -148,6 +158,7 @@ export function AppointmentForm({ appointment, isEdit = false }: AppointmentForm
         customerId: appointment.customerId?.toString() || "",
         staffId: appointment.staffId?.toString() || "",
         serviceId: appointment.serviceId?.toString() || "",
+        resourceId: appointment.resourceId?.toString() || ANY_RESOURCE,
         date: startDate,
         startTime,
         status: appointment.status || "scheduled",
@@ -171,6 +182,11 @@ export function AppointmentForm({ appointment, isEdit = false }: AppointmentForm
     }
   };
 
+  // Rooms/chairs/lifts the selected service can use — empty hides the picker
+  const resourceOptions = selectedService?.requiredResourceType
+    ? resources.filter((r) => r.resourceType === selectedService.requiredResourceType && r.active !== false)
+    : [];
+
   // Convert form data to API format
   const prepareDataForSubmission = (data: AppointmentFormData) => {
     // Create Date objects for start and end times
@@ -187,6 +203,10 @@ export function AppointmentForm({ appointment, isEdit = false }: AppointmentForm
       customerId: parseInt(data.customerId),
       staffId: data.staffId ? parseInt(data.staffId) : null,
       serviceId: data.serviceId ? parseInt(data.serviceId) : null,
+      // null lets the server assign the first free resource
+      ...(resourceOptions.length > 0 && {
+        resourceId: data.resourceId && data.resourceId !== ANY_RESOURCE ? parseInt(data.resourceId) : null,
+      }),
       startDate: startDate.toISOString(),
       endDate: endDate.toISOString(),
       status: data.status,
@@ -359,6 +379,40 @@ export function AppointmentForm({ appointment, isEdit = false }: AppointmentForm
                 )}
               />
 
+              {resourceOptions.length > 0 && (
+                <FormField
+                  control={form.control}
+                  name="resourceId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{selectedService.requiredResourceType}</FormLabel>
+                      <Select
+                        onValueChange={field.onChange}
+                        value={field.value}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value={ANY_RESOURCE}>Any free {selectedService.requiredResourceType.toLowerCase()}</SelectItem>
+                          {resourceOptions.map((resource) => (
+                            <SelectItem
+                              key={resource.id}
+                              value={resource.id.toString()}
+                            >
+                              {resource.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
               <FormField
                 control={form.control}
                 name="staffId"
@@ -0,0 +1,270 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/api";
+import { formatPhoneNumber } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowDown, ArrowUp, Clock, ClipboardList, Loader2, Plus, Settings, X } from "lucide-react";
+import type { AppointmentWaitlistEntryData, StaffData } from "./appointmentHelpers";
+
+interface AppointmentWaitlistData {
+  enabled: boolean;
+  holdMinutes: number;
+  entries: AppointmentWaitlistEntryData[];
+}
+
+interface ServiceOption {
+  id: number;
+  name: string;
+}
+
+const ANY = "any";
+
+function toDateInput(date: Date): string {
+  return date.toLocaleDateString("en-CA");
+}
+
+function formatWindowDate(date: string): string {
+  return new Date(`${date}T12:00:00`).toLocaleDateString("en-US", { month: "short", day: "numeric" });
+}
+
+function emptyForm() {
+  const today = new Date();
+  return {
+    name: "",
+    phone: "",
+    serviceId: ANY,
+    staffId: ANY,
+    windowStart: toDateInput(today),
+    windowEnd: toDateInput(new Date(today.getTime() + 14 * 86_400_000)),
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════
+// APPOINTMENT WAITLIST -- customers waiting for a cancellation to open up
+// ═══════════════════════════════════════════════════════════════════════
+export function AppointmentWaitlistPanel({ businessId, staffMembers }: { businessId?: number; staffMembers: StaffData[] }) {
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState(emptyForm);
+
+  // Offers are accepted and expire by SMS in the background — keep the list fresh
+  const { data, isLoading } = useQuery<AppointmentWaitlistData>({
+    queryKey: ["/api/appointment-waitlist"],
+    refetchInterval: 60000,
+  });
+
+  const { data: services = [] } = useQuery<ServiceOption[]>({
+    queryKey: ["/api/services", { businessId }],
+    enabled: !!businessId,
+  });
+
+  const onError = (error: any) => {
+    toast({
+      title: "Waitlist not updated",
+      description: error?.message?.replace(/^\d+:\s*/, "") || "Please try again.",
+      variant: "destructive",
+    });
+  };
+
+  const onSuccess = () => queryClient.invalidateQueries({ queryKey: ["/api/appointment-waitlist"] });
+
+  const addMutation = useMutation({
+    mutationFn: (body: Record<string, unknown>) => apiRequest("POST", "/api/appointment-waitlist", body),
+    onSuccess: () => {
+      onSuccess();
+      setForm(emptyForm());
+      toast({ title: "Added to waitlist", description: "We'll text them when a matching slot opens up." });
+    },
+    onError,
+  });
+
+  const priorityMutation = useMutation({
+    mutationFn: ({ id, priority }: { id: number; priority: number }) =>
+      apiRequest("PATCH", `/api/appointment-waitlist/${id}`, { priority }),
+    onSuccess,
+    onError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/appointment-waitlist/${id}`),
+    onSuccess,
+    onError,
+  });
+
+  if (isLoading || !data) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!data.enabled) {
+    return (
+      <div className="py-12 text-center space-y-3">
+        <ClipboardList className="h-8 w-8 mx-auto text-muted-foreground" />
+        <p className="text-sm text-muted-foreground">
+          Turn on the waitlist to text waiting customers automatically when an appointment is cancelled.
+        </p>
+        <Button variant="outline" size="sm" onClick={() => navigate("/settings?tab=booking")}>
+          <Settings className="h-4 w-4 mr-2" />
+          Set Up Waitlist
+        </Button>
+      </div>
+    );
+  }
+
+  const serviceName = (id: number | null) => (id ? services.find((s) => s.id === id)?.name || "Service" : "Any service");
+  const staffName = (id: number | null) => (id ? staffMembers.find((s) => s.id === id)?.firstName || "Staff" : "Anyone");
+
+  const handleAdd = () => {
+    const phone = form.phone.replace(/[^\d+]/g, "");
+    if (!form.name.trim() || phone.length < 10) {
+      toast({ title: "Name and mobile required", description: "Openings are offered by text.", variant: "destructive" });
+      return;
+    }
+    addMutation.mutate({
+      name: form.name.trim(),
+      phone,
+      serviceId: form.serviceId === ANY ? null : parseInt(form.serviceId),
+      staffId: form.staffId === ANY ? null : parseInt(form.staffId),
+      windowStart: form.windowStart,
+      windowEnd: form.windowEnd,
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        When an appointment is cancelled, the slot is texted to the first matching customer and held for{" "}
+        {data.holdMinutes} minutes. The first to reply YES gets it.
+      </p>
+
+      {/* Add a customer */}
+      <div className="rounded-lg border p-3 space-y-2">
+        <div className="grid grid-cols-2 gap-2">
+          <Input value={form.name} placeholder="Customer name" onChange={(e) => setForm({ ...form, name: e.target.value })} />
+          <Input
+            type="tel"
+            value={form.phone}
+            placeholder="(555) 123-4567"
+            onChange={(e) => setForm({ ...form, phone: e.target.value })}
+          />
+          <Select value={form.serviceId} onValueChange={(serviceId) => setForm({ ...form, serviceId })}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any service</SelectItem>
+              {services.map((s) => (
+                <SelectItem key={s.id} value={String(s.id)}>{s.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={form.staffId} onValueChange={(staffId) => setForm({ ...form, staffId })}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Anyone</SelectItem>
+              {staffMembers.map((s) => (
+                <SelectItem key={s.id} value={String(s.id)}>{s.firstName} {s.lastName}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="space-y-1">
+            <label className="text-xs font-medium">From</label>
+            <Input type="date" value={form.windowStart} onChange={(e) => setForm({ ...form, windowStart: e.target.value })} />
+          </div>
+          <div className="space-y-1">
+            <label className="text-xs font-medium">To</label>
+            <Input type="date" value={form.windowEnd} onChange={(e) => setForm({ ...form, windowEnd: e.target.value })} />
+          </div>
+        </div>
+        <Button onClick={handleAdd} disabled={addMutation.isPending} className="w-full" size="sm">
+          {addMutation.isPending ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Plus className="h-4 w-4 mr-1" />}
+          Add to Waitlist
+        </Button>
+      </div>
+
+      {/* Queue */}
+      <h4 className="text-sm font-semibold">
+        {data.entries.length} {data.entries.length === 1 ? "customer" : "customers"} waiting
+      </h4>
+      {data.entries.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-8 border rounded-lg border-dashed">
+          Nobody is waiting. Customers you add here or who join from your booking page get first dibs on cancellations.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {data.entries.map((entry) => (
+            <div
+              key={entry.id}
+              className={`rounded-lg border p-3 ${entry.offer ? "border-amber-300 bg-amber-50/50" : ""}`}
+            >
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <span className="font-medium truncate">{entry.customerName || "Customer"}</span>
+                    {entry.priority > 0 && (
+                      <Badge variant="outline" className="text-[10px]">Priority {entry.priority}</Badge>
+                    )}
+                    {entry.source === "online" && <Badge variant="outline" className="text-[10px]">Online</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {serviceName(entry.serviceId)} · {staffName(entry.staffId)} ·{" "}
+                    {formatWindowDate(entry.windowStart)} – {formatWindowDate(entry.windowEnd)}
+                  </p>
+                  {entry.customerPhone && (
+                    <p className="text-xs text-muted-foreground">{formatPhoneNumber(entry.customerPhone)}</p>
+                  )}
+                  {entry.offer && (
+                    <p className="text-xs text-amber-800 flex items-center gap-1 mt-1">
+                      <Clock className="h-3 w-3" />
+                      Holding{" "}
+                      {new Date(entry.offer.startDate).toLocaleString("en-US", {
+                        weekday: "short", month: "short", day: "numeric", hour: "numeric", minute: "2-digit",
+                      })}{" "}
+                      until {new Date(entry.offer.expiresAt).toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" })}
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-center">
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    title="Raise priority"
+                    onClick={() => priorityMutation.mutate({ id: entry.id, priority: Math.min(100, entry.priority + 1) })}
+                    disabled={priorityMutation.isPending}
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    title="Lower priority"
+                    onClick={() => priorityMutation.mutate({ id: entry.id, priority: Math.max(0, entry.priority - 1) })}
+                    disabled={priorityMutation.isPending || entry.priority === 0}
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    title="Remove"
+                    onClick={() => removeMutation.mutate(entry.id)}
+                    disabled={removeMutation.isPending && removeMutation.variables === entry.id}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,281 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/api";
+import { formatPhoneNumber } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, Ban, Loader2, UserPlus, Users, X } from "lucide-react";
+import type { ClassAttendeeData, ClassSessionData } from "./appointmentHelpers";
+
+interface RosterData {
+  booked: ClassAttendeeData[];
+  waitlisted: ClassAttendeeData[];
+}
+
+interface CustomerOption {
+  id: number;
+  firstName: string;
+  lastName: string;
+}
+
+function formatSessionTime(startDate: string): string {
+  return new Date(startDate).toLocaleString("en-US", { weekday: "short", month: "short", day: "numeric", hour: "numeric", minute: "2-digit" });
+}
+
+function attendeeName(attendee: ClassAttendeeData): string {
+  return attendee.customer ? `${attendee.customer.firstName} ${attendee.customer.lastName}`.trim() : "Unknown customer";
+}
+
+// ═══════════════════════════════════════════════════════════════════════
+// CLASSES -- this week's sessions, rosters, waitlists and check-in
+// ═══════════════════════════════════════════════════════════════════════
+export function ClassesPanel({ businessId }: { businessId?: number }) {
+  const [sessionId, setSessionId] = useState<number | null>(null);
+
+  const { data: sessions = [], isLoading } = useQuery<ClassSessionData[]>({
+    queryKey: ["/api/class-sessions", { days: 7 }],
+    enabled: !!businessId,
+    refetchInterval: 60000,
+  });
+
+  if (sessionId) {
+    const session = sessions.find((s) => s.id === sessionId);
+    return <ClassRoster businessId={businessId} sessionId={sessionId} session={session} onBack={() => setSessionId(null)} />;
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (sessions.length === 0) {
+    return (
+      <div className="py-12 text-center space-y-3">
+        <Users className="h-8 w-8 mx-auto text-muted-foreground" />
+        <p className="text-sm text-muted-foreground">
+          No classes in the next 7 days. Add a weekly timetable under Settings → Business.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {sessions.map((session) => (
+        <button
+          key={session.id}
+          type="button"
+          className="w-full flex items-center justify-between gap-2 rounded-lg border p-3 text-left hover:border-primary/30"
+          onClick={() => setSessionId(session.id)}
+        >
+          <div className="min-w-0">
+            <p className="font-medium">{session.serviceName}</p>
+            <p className="text-xs text-muted-foreground">
+              {formatSessionTime(session.startDate)}
+              {session.staffName && ` · ${session.staffName}`}
+            </p>
+          </div>
+          <div className="text-right text-sm">
+            <p className="font-medium">{session.bookedCount}/{session.capacity}</p>
+            {session.waitlistCount > 0 && (
+              <p className="text-xs text-muted-foreground">{session.waitlistCount} waiting</p>
+            )}
+          </div>
+        </button>
+      ))}
+    </div>
+  );
+}
+
+function ClassRoster({
+  businessId,
+  sessionId,
+  session,
+  onBack,
+}: {
+  businessId?: number;
+  sessionId: number;
+  session: ClassSessionData | undefined;
+  onBack: () => void;
+}) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [customerId, setCustomerId] = useState("");
+
+  const rosterKey = [`/api/class-sessions/${sessionId}/roster`];
+  const { data: roster, isLoading } = useQuery<RosterData>({ queryKey: rosterKey });
+
+  const { data: customers = [] } = useQuery<CustomerOption[]>({
+    queryKey: ["/api/customers", { businessId }],
+    enabled: !!businessId,
+  });
+
+  const onError = (error: any) => {
+    toast({
+      title: "Roster not updated",
+      description: error?.message?.replace(/^\d+:\s*/, "") || "Please try again.",
+      variant: "destructive",
+    });
+  };
+
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: rosterKey });
+    queryClient.invalidateQueries({ queryKey: ["/api/class-sessions"] });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("POST", `/api/class-sessions/${sessionId}/attendees`, { customerId: id }),
+    onSuccess: () => {
+      onSuccess();
+      setCustomerId("");
+    },
+    onError,
+  });
+
+  const checkInMutation = useMutation({
+    mutationFn: ({ id, checkedIn }: { id: number; checkedIn: boolean }) =>
+      apiRequest("POST", `/api/class-bookings/${id}/check-in`, { checkedIn }),
+    onSuccess,
+    onError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("POST", `/api/class-bookings/${id}/cancel`),
+    onSuccess,
+    onError,
+  });
+
+  const cancelSessionMutation = useMutation({
+    mutationFn: () => apiRequest("POST", `/api/class-sessions/${sessionId}/cancel`),
+    onSuccess: () => {
+      onSuccess();
+      toast({ title: "Class cancelled", description: "Everyone on the roster has been notified." });
+      onBack();
+    },
+    onError,
+  });
+
+  const onRoster = new Set([...(roster?.booked || []), ...(roster?.waitlisted || [])].map((a) => a.customerId));
+  const checkedInCount = roster?.booked.filter((a) => a.checkedInAt).length || 0;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <Button variant="ghost" size="sm" onClick={onBack}>
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          All classes
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => {
+            if (confirm("Cancel this class? Everyone booked or waiting will be notified.")) cancelSessionMutation.mutate();
+          }}
+          disabled={cancelSessionMutation.isPending}
+        >
+          <Ban className="h-4 w-4 mr-1" />
+          Cancel class
+        </Button>
+      </div>
+
+      {session && (
+        <div>
+          <p className="font-medium">{session.serviceName}</p>
+          <p className="text-sm text-muted-foreground">
+            {formatSessionTime(session.startDate)}
+            {session.staffName && ` · ${session.staffName}`}
+          </p>
+        </div>
+      )}
+
+      {isLoading || !roster ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <>
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="text-sm font-medium">
+                Booked ({roster.booked.length}{session ? `/${session.capacity}` : ""})
+              </h4>
+              {roster.booked.length > 0 && (
+                <span className="text-xs text-muted-foreground">{checkedInCount} checked in</span>
+              )}
+            </div>
+            {roster.booked.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Nobody booked yet.</p>
+            ) : (
+              <div className="space-y-1">
+                {roster.booked.map((attendee) => (
+                  <div key={attendee.id} className="flex items-center justify-between gap-2 rounded-md border px-3 py-2">
+                    <label className="flex items-center gap-2 text-sm cursor-pointer min-w-0">
+                      <Checkbox
+                        checked={!!attendee.checkedInAt}
+                        onCheckedChange={(checked) => checkInMutation.mutate({ id: attendee.id, checkedIn: checked === true })}
+                        aria-label="Checked in"
+                      />
+                      <span className="truncate">{attendeeName(attendee)}</span>
+                      {attendee.customer?.phone && (
+                        <span className="text-xs text-muted-foreground">{formatPhoneNumber(attendee.customer.phone)}</span>
+                      )}
+                    </label>
+                    <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => removeMutation.mutate(attendee.id)}>
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {roster.waitlisted.length > 0 && (
+            <div>
+              <h4 className="text-sm font-medium mb-2">Waitlist ({roster.waitlisted.length})</h4>
+              <div className="space-y-1">
+                {roster.waitlisted.map((attendee) => (
+                  <div key={attendee.id} className="flex items-center justify-between gap-2 rounded-md border px-3 py-2">
+                    <span className="flex items-center gap-2 text-sm min-w-0">
+                      <Badge variant="secondary">#{attendee.waitlistPosition}</Badge>
+                      <span className="truncate">{attendeeName(attendee)}</span>
+                    </span>
+                    <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => removeMutation.mutate(attendee.id)}>
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="flex gap-2 pt-2 border-t">
+            <Select value={customerId} onValueChange={setCustomerId}>
+              <SelectTrigger className="flex-1">
+                <SelectValue placeholder="Add a customer" />
+              </SelectTrigger>
+              <SelectContent>
+                {customers.filter((c) => !onRoster.has(c.id)).map((c) => (
+                  <SelectItem key={c.id} value={String(c.id)}>
+                    {c.firstName} {c.lastName}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              onClick={() => addMutation.mutate(parseInt(customerId))}
+              disabled={!customerId || addMutation.isPending}
+            >
+              {addMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <UserPlus className="h-4 w-4" />}
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,258 @@
+import { useState, type DragEvent } from "react";
+import { useLocation } from "wouter";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/api";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Armchair, CheckCircle2, GripVertical, Loader2, Settings, Users } from "lucide-react";
+import type { ReservationData, RestaurantTableData } from "./appointmentHelpers";
+import { getCustomerName } from "./appointmentHelpers";
+
+interface FloorData {
+  date: string;
+  tables: RestaurantTableData[];
+  reservations: ReservationData[];
+}
+
+// Statuses still on the floor — cleared / cancelled / no-show parties are done
+const ACTIVE_STATUSES = ["confirmed", "seated"];
+
+function toDateKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+}
+
+function formatSlot(time: string): string {
+  const [h, m] = time.split(":").map(Number);
+  return `${h % 12 || 12}:${String(m).padStart(2, "0")} ${h >= 12 ? "PM" : "AM"}`;
+}
+
+// ═══════════════════════════════════════════════════════════════════════
+// FLOOR PLAN VIEW -- Host stand: tables, seating and drag reassignment
+// ═══════════════════════════════════════════════════════════════════════
+export function FloorPlanView({
+  selectedDate,
+  onClickReservation,
+  onStatusChange,
+}: {
+  selectedDate: Date;
+  onClickReservation: (reservation: ReservationData) => void;
+  onStatusChange: (id: number, status: string) => void;
+}) {
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [dragReservationId, setDragReservationId] = useState<number | null>(null);
+  const [dropTableId, setDropTableId] = useState<number | null>(null);
+  const date = toDateKey(selectedDate);
+
+  const { data, isLoading } = useQuery<FloorData>({
+    queryKey: ["/api/restaurant-floor", { date }],
+  });
+
+  const moveMutation = useMutation({
+    mutationFn: ({ id, tableIds }: { id: number; tableIds: number[] }) =>
+      apiRequest("PUT", `/api/restaurant-reservations/${id}/tables`, { tableIds }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/restaurant-floor"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/restaurant-reservations"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Couldn't move reservation",
+        description: error?.message?.replace(/^\d+:\s*/, "") || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading || !data) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (data.tables.length === 0) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center space-y-3">
+          <Armchair className="h-8 w-8 mx-auto text-muted-foreground" />
+          <p className="text-sm text-muted-foreground">
+            Add your tables to assign reservations and manage seating from here.
+          </p>
+          <Button variant="outline" size="sm" onClick={() => navigate("/settings?tab=integrations")}>
+            <Settings className="h-4 w-4 mr-2" />
+            Set Up Tables
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const tableNames = new Map(data.tables.map((t) => [t.id, t.name]));
+  const active = data.reservations
+    .filter((r) => ACTIVE_STATUSES.includes(r.status))
+    .sort((a, b) => a.reservationTime.localeCompare(b.reservationTime));
+  const unassigned = active.filter((r) => !(r.tableIds || []).some((id) => tableNames.has(id)));
+
+  // Tables grouped by section, keeping the configured order
+  const sections = new Map<string, RestaurantTableData[]>();
+  for (const table of data.tables) {
+    const key = table.section || "Main";
+    sections.set(key, [...(sections.get(key) || []), table]);
+  }
+
+  const handleDrop = (tableId: number) => {
+    const id = dragReservationId;
+    setDragReservationId(null);
+    setDropTableId(null);
+    if (id === null) return;
+    const reservation = active.find((r) => r.id === id);
+    if (!reservation || (reservation.tableIds || []).includes(tableId)) return;
+    moveMutation.mutate({ id, tableIds: [tableId] });
+  };
+
+  const tableProps = (tableId: number) => ({
+    onDragOver: (e: DragEvent) => {
+      e.preventDefault();
+      setDropTableId(tableId);
+    },
+    onDragLeave: () => setDropTableId((current) => (current === tableId ? null : current)),
+    onDrop: (e: DragEvent) => {
+      e.preventDefault();
+      handleDrop(tableId);
+    },
+  });
+
+  const renderReservation = (reservation: ReservationData, tableId?: number) => {
+    const combinedWith = (reservation.tableIds || [])
+      .filter((id) => id !== tableId && tableNames.has(id))
+      .map((id) => tableNames.get(id));
+    const seated = reservation.status === "seated";
+    return (
+      <div
+        key={reservation.id}
+        draggable={!moveMutation.isPending}
+        onDragStart={(e: DragEvent) => {
+          e.dataTransfer.effectAllowed = "move";
+          setDragReservationId(reservation.id);
+        }}
+        onDragEnd={() => {
+          setDragReservationId(null);
+          setDropTableId(null);
+        }}
+        onClick={() => onClickReservation(reservation)}
+        className={`rounded-md border p-2 text-xs cursor-grab bg-background ${
+          seated ? "border-green-300 bg-green-50" : ""
+        }`}
+      >
+        <div className="flex items-center justify-between gap-1">
+          <div className="flex items-center gap-1 font-medium min-w-0">
+            <GripVertical className="h-3 w-3 text-muted-foreground flex-none" />
+            <span className="truncate">{getCustomerName(reservation.customer)}</span>
+          </div>
+          <span className="whitespace-nowrap">{formatSlot(reservation.reservationTime)}</span>
+        </div>
+        <div className="flex items-center justify-between gap-1 mt-1">
+          <span className="flex items-center gap-1 text-muted-foreground">
+            <Users className="h-3 w-3" />
+            {reservation.partySize}
+            {combinedWith.length > 0 && ` · with ${combinedWith.join(", ")}`}
+          </span>
+          {seated ? (
+            <Button
+              size="sm"
+              variant="outline"
+              className="h-6 px-2 text-xs"
+              onClick={(e) => {
+                e.stopPropagation();
+                onStatusChange(reservation.id, "completed");
+              }}
+            >
+              <CheckCircle2 className="h-3 w-3 mr-1" />
+              Clear
+            </Button>
+          ) : (
+            <Button
+              size="sm"
+              className="h-6 px-2 text-xs bg-green-600 hover:bg-green-700 text-white"
+              onClick={(e) => {
+                e.stopPropagation();
+                onStatusChange(reservation.id, "seated");
+              }}
+            >
+              <Armchair className="h-3 w-3 mr-1" />
+              Seat
+            </Button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex flex-col lg:flex-row gap-4">
+      {/* Reservations without a table */}
+      <Card className="lg:w-64 flex-none">
+        <CardContent className="p-3 space-y-2">
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-semibold">Unassigned</h4>
+            <Badge variant="secondary">{unassigned.length}</Badge>
+          </div>
+          {unassigned.length === 0 ? (
+            <p className="text-xs text-muted-foreground text-center py-4">Every party has a table.</p>
+          ) : (
+            unassigned.map((r) => renderReservation(r))
+          )}
+          {moveMutation.isPending && (
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              <Loader2 className="h-3 w-3 animate-spin" />
+              Moving...
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Floor, one block per section */}
+      <div className="flex-1 space-y-4">
+        {Array.from(sections.entries()).map(([section, tables]) => (
+          <div key={section} className="space-y-2">
+            <h4 className="text-sm font-semibold text-muted-foreground uppercase tracking-wider">{section}</h4>
+            <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-3">
+              {tables.map((table) => {
+                const parties = active.filter((r) => (r.tableIds || []).includes(table.id));
+                const occupied = parties.some((r) => r.status === "seated");
+                return (
+                  <div
+                    key={table.id}
+                    {...tableProps(table.id)}
+                    className={`border p-3 space-y-2 min-h-[96px] ${
+                      table.shape === "round" ? "rounded-3xl" : "rounded-lg"
+                    } ${occupied ? "border-green-400 bg-green-50/40" : "bg-muted/30"} ${
+                      dropTableId === table.id ? "ring-2 ring-primary" : ""
+                    }`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="font-semibold">{table.name}</span>
+                      <span className="text-xs text-muted-foreground">
+                        {table.capacity} seats{table.combineGroup ? ` · ${table.combineGroup}` : ""}
+                      </span>
+                    </div>
+                    {parties.length === 0 ? (
+                      <p className="text-xs text-muted-foreground">Open all day</p>
+                    ) : (
+                      parties.map((r) => renderReservation(r, table.id))
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
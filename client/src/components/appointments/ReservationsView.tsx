@@ -52,6 +52,11 @@ import {
   getStartOfDay,
   getStartOfWeek,
 } from "./appointmentHelpers";
+import { FloorPlanView } from "./FloorPlanView";
+import { WaitlistView } from "./WaitlistView";
+
+// The floor plan is a day view of tables rather than of time; the waitlist is live, not dated
+type ReservationViewMode = ViewMode | "floor" | "waitlist";
 
 // ─── Reservation Status Helpers ──────────────────────────────────────
 function getReservationStatusBadge(status: string) {
@@ -92,7 +97,7 @@ export function ReservationsView({ businessId }: { businessId?: number }) {
   const [, navigate] = useLocation();
   const isMobile = useIsMobile();
   const [selectedDate, setSelectedDate] = useState<Date>(new Date());
-  const [viewMode, setViewMode] = useState<ViewMode>("week");
+  const [viewMode, setViewMode] = useState<ReservationViewMode>("week");
   const [selectedReservation, setSelectedReservation] = useState<ReservationData | null>(null);
   const [detailOpen, setDetailOpen] = useState(false);
   const queryClient = useQueryClient();
@@ -129,6 +134,7 @@ export function ReservationsView({ businessId }: { businessId?: number }) {
       apiRequest("PUT", `/api/restaurant-reservations/${id}`, { status }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/restaurant-reservations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/restaurant-floor"] });
       toast({ title: "Status Updated", description: "Reservation status has been updated." });
     },
     onError: () => {
@@ -212,7 +218,7 @@ export function ReservationsView({ businessId }: { businessId?: number }) {
             Enlarge
           </Button>
           <div className="inline-flex rounded-lg border bg-muted p-0.5">
-            {(["week", "day", "month"] as ViewMode[]).map((mode) => (
+            {(["week", "day", "month", "floor", "waitlist"] as ReservationViewMode[]).map((mode) => (
               <button
                 key={mode}
                 onClick={() => setViewMode(mode)}
@@ -266,6 +272,14 @@ export function ReservationsView({ businessId }: { businessId?: number }) {
                 onClickReservation={onClickReservation}
               />
             ))}
+          {viewMode === "floor" && (
+            <FloorPlanView
+              selectedDate={selectedDate}
+              onClickReservation={onClickReservation}
+              onStatusChange={onStatusChange}
+            />
+          )}
+          {viewMode === "waitlist" && <WaitlistView />}
           {viewMode === "day" && (
             <ReservationDayView
               selectedDate={selectedDate}
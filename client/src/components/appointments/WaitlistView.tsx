@@ -0,0 +1,277 @@
+import { useEffect, useState } from "react";
+import { useLocation } from "wouter";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/api";
+import { formatPhoneNumber } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent } from "@/components/ui/card";
+import { Armchair, BellRing, ClipboardList, Loader2, Plus, Settings, UserX, Users, X } from "lucide-react";
+import type { WaitlistEntryData } from "./appointmentHelpers";
+
+interface WaitlistData {
+  enabled: boolean;
+  minutesPerParty: number;
+  entries: WaitlistEntryData[];
+}
+
+type WaitlistAction = "notify" | "seat" | "remove";
+
+const SOURCE_LABELS: Record<string, string> = {
+  host: "Host",
+  phone: "Phone",
+  online: "QR",
+};
+
+function minutesSince(timestamp: string, now: number): number {
+  return Math.max(0, Math.floor((now - new Date(timestamp).getTime()) / 60000));
+}
+
+// ═══════════════════════════════════════════════════════════════════════
+// WAITLIST VIEW -- Host stand: walk-in queue, paging and seating
+// ═══════════════════════════════════════════════════════════════════════
+export function WaitlistView() {
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [now, setNow] = useState(Date.now());
+  const [form, setForm] = useState({ name: "", phone: "", partySize: "2", quote: "" });
+
+  // Guests reply by SMS and join from the QR page — keep the list fresh
+  const { data, isLoading } = useQuery<WaitlistData>({
+    queryKey: ["/api/waitlist"],
+    refetchInterval: 30000,
+  });
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const onError = (error: any) => {
+    toast({
+      title: "Waitlist not updated",
+      description: error?.message?.replace(/^\d+:\s*/, "") || "Please try again.",
+      variant: "destructive",
+    });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: (body: Record<string, unknown>) => apiRequest("POST", "/api/waitlist", body),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/waitlist"] });
+      setForm({ name: "", phone: "", partySize: "2", quote: "" });
+      toast({ title: "Added to waitlist", description: "The guest was texted their place in line." });
+    },
+    onError,
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: ({ id, action, status }: { id: number; action: WaitlistAction; status?: string }) =>
+      apiRequest("POST", `/api/waitlist/${id}/${action}`, status ? { status } : undefined),
+    onSuccess: (_entry, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/waitlist"] });
+      if (action === "seat") {
+        queryClient.invalidateQueries({ queryKey: ["/api/restaurant-floor"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/restaurant-reservations"] });
+      }
+      if (action === "notify") toast({ title: "Guest paged", description: "They were texted that their table is ready." });
+    },
+    onError,
+  });
+
+  if (isLoading || !data) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!data.enabled) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center space-y-3">
+          <ClipboardList className="h-8 w-8 mx-auto text-muted-foreground" />
+          <p className="text-sm text-muted-foreground">
+            Turn on the walk-in waitlist to quote waits and text guests when their table is ready.
+          </p>
+          <Button variant="outline" size="sm" onClick={() => navigate("/settings?tab=reservations")}>
+            <Settings className="h-4 w-4 mr-2" />
+            Set Up Waitlist
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const suggestedQuote = data.entries.length * data.minutesPerParty;
+
+  const handleAdd = () => {
+    const phone = form.phone.replace(/[^\d+]/g, "");
+    if (!form.name.trim() || phone.length < 10) {
+      toast({ title: "Name and phone required", description: "We text the guest when their table is ready.", variant: "destructive" });
+      return;
+    }
+    addMutation.mutate({
+      name: form.name.trim(),
+      phone,
+      partySize: parseInt(form.partySize) || 1,
+      quotedWaitMinutes: form.quote ? parseInt(form.quote) : null,
+    });
+  };
+
+  const isBusy = (id: number, action: WaitlistAction) =>
+    actionMutation.isPending && actionMutation.variables?.id === id && actionMutation.variables?.action === action;
+
+  return (
+    <div className="space-y-4">
+      {/* Add a walk-in */}
+      <Card>
+        <CardContent className="p-3">
+          <div className="grid grid-cols-2 md:grid-cols-[2fr_2fr_1fr_1fr_auto] gap-2 items-end">
+            <div className="space-y-1 col-span-2 md:col-span-1">
+              <label className="text-xs font-medium">Name</label>
+              <Input value={form.name} placeholder="Guest name" onChange={(e) => setForm({ ...form, name: e.target.value })} />
+            </div>
+            <div className="space-y-1 col-span-2 md:col-span-1">
+              <label className="text-xs font-medium">Mobile</label>
+              <Input
+                type="tel"
+                value={form.phone}
+                placeholder="(555) 123-4567"
+                onChange={(e) => setForm({ ...form, phone: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <label className="text-xs font-medium">Party</label>
+              <Input
+                type="number"
+                min="1"
+                max="50"
+                value={form.partySize}
+                onChange={(e) => setForm({ ...form, partySize: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <label className="text-xs font-medium">Quote (min)</label>
+              <Input
+                type="number"
+                min="0"
+                value={form.quote}
+                placeholder={String(suggestedQuote)}
+                onChange={(e) => setForm({ ...form, quote: e.target.value })}
+              />
+            </div>
+            <Button onClick={handleAdd} disabled={addMutation.isPending} className="col-span-2 md:col-span-1">
+              {addMutation.isPending ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Plus className="h-4 w-4 mr-1" />}
+              Add
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Queue */}
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold">
+          {data.entries.length} {data.entries.length === 1 ? "party" : "parties"} waiting
+        </h4>
+        <span className="text-xs text-muted-foreground">Next quote ~{suggestedQuote} min</span>
+      </div>
+      {data.entries.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-8 border rounded-lg border-dashed">
+          Nobody is waiting. Walk-ins you add here, callers and guests scanning your QR code join the line.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {data.entries.map((entry) => {
+            const waited = minutesSince(entry.createdAt, now);
+            const overQuote = entry.quotedWaitMinutes !== null && waited > entry.quotedWaitMinutes;
+            const paged = entry.status === "notified";
+            return (
+              <div
+                key={entry.id}
+                className={`flex flex-col sm:flex-row sm:items-center justify-between gap-2 rounded-lg border p-3 ${
+                  paged ? "border-amber-300 bg-amber-50/50" : ""
+                }`}
+              >
+                <div className="flex items-center gap-3 min-w-0">
+                  <span className="text-lg font-semibold text-muted-foreground w-8 text-center">{entry.position}</span>
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="font-medium truncate">{entry.name}</span>
+                      <span className="flex items-center gap-1 text-sm text-muted-foreground">
+                        <Users className="h-3 w-3" />
+                        {entry.partySize}
+                      </span>
+                      <Badge variant="outline" className="text-[10px]">
+                        {SOURCE_LABELS[entry.source || "host"] || entry.source}
+                      </Badge>
+                      {paged && (
+                        <Badge className="text-[10px] bg-amber-100 text-amber-800">
+                          {entry.confirmedAt
+                            ? "On the way"
+                            : `Paged ${minutesSince(entry.notifiedAt || entry.createdAt, now)} min ago`}
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {formatPhoneNumber(entry.phone)} · waited{" "}
+                      <span className={overQuote ? "text-red-600 font-medium" : ""}>{waited} min</span>
+                      {entry.quotedWaitMinutes !== null && ` of ${entry.quotedWaitMinutes} quoted`}
+                      {entry.notes && ` · ${entry.notes}`}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-1 self-end sm:self-auto">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => actionMutation.mutate({ id: entry.id, action: "notify" })}
+                    disabled={isBusy(entry.id, "notify")}
+                  >
+                    {isBusy(entry.id, "notify") ? (
+                      <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />
+                    ) : (
+                      <BellRing className="h-3.5 w-3.5 mr-1" />
+                    )}
+                    {paged ? "Page Again" : "Table Ready"}
+                  </Button>
+                  <Button
+                    size="sm"
+                    className="bg-green-600 hover:bg-green-700 text-white"
+                    onClick={() => actionMutation.mutate({ id: entry.id, action: "seat" })}
+                    disabled={isBusy(entry.id, "seat")}
+                  >
+                    <Armchair className="h-3.5 w-3.5 mr-1" />
+                    Seat
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    title="No-show"
+                    onClick={() => actionMutation.mutate({ id: entry.id, action: "remove", status: "no_show" })}
+                    disabled={isBusy(entry.id, "remove")}
+                  >
+                    <UserX className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    title="Remove"
+                    onClick={() => actionMutation.mutate({ id: entry.id, action: "remove", status: "cancelled" })}
+                    disabled={isBusy(entry.id, "remove")}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -37,6 +37,12 @@ export interface AppointmentData {
     price?: string;
     duration?: number;
   };
+  resource?: {
+    id: number;
+    name: string;
+    resourceType: string;
+  } | null;
+  customFields?: Record<string, string | number | boolean> | null;
 }
 
 export interface ReservationData {
@@ -49,6 +55,9 @@ export interface ReservationData {
   status: string;
   specialRequests?: string;
   source?: string;
+  tableIds?: number[];
+  seatedAt?: string | null;
+  clearedAt?: string | null;
   customer?: {
     id: number;
     firstName: string;
@@ -58,6 +67,109 @@ export interface ReservationData {
   };
 }
 
+export interface RestaurantTableData {
+  id: number;
+  name: string;
+  minCapacity: number | null;
+  capacity: number;
+  section: string | null;
+  combineGroup: string | null;
+  shape: string | null;
+  active: boolean | null;
+  sortOrder: number | null;
+}
+
+export interface ResourceData {
+  id: number;
+  name: string;
+  resourceType: string;
+  capacity: number;
+  active: boolean | null;
+  sortOrder: number | null;
+}
+
+export interface ServiceAddonData {
+  id: number;
+  serviceId: number;
+  name: string;
+  price: string | null;
+  durationMinutes: number;
+  active: boolean | null;
+  sortOrder: number | null;
+}
+
+export interface ClassScheduleData {
+  id: number;
+  serviceId: number;
+  staffId: number | null;
+  dayOfWeek: string;
+  startTime: string;
+  capacity: number | null;
+  startsOn: string | null;
+  endsOn: string | null;
+  active: boolean | null;
+}
+
+export interface ClassSessionData {
+  id: number;
+  serviceId: number;
+  scheduleId: number | null;
+  staffId: number | null;
+  startDate: string;
+  endDate: string;
+  capacity: number;
+  status: string;
+  serviceName: string;
+  staffName: string | null;
+  bookedCount: number;
+  waitlistCount: number;
+  spotsLeft: number;
+}
+
+export interface ClassAttendeeData {
+  id: number;
+  sessionId: number;
+  customerId: number;
+  status: string;
+  source: string;
+  checkedInAt: string | null;
+  waitlistPosition: number | null;
+  customer: { id: number; firstName: string; lastName: string; phone: string | null; email: string | null } | null;
+}
+
+export interface WaitlistEntryData {
+  id: number;
+  name: string;
+  phone: string;
+  partySize: number;
+  quotedWaitMinutes: number | null;
+  status: string;
+  source: string | null;
+  notes: string | null;
+  notifiedAt: string | null;
+  confirmedAt: string | null;
+  createdAt: string;
+  position: number;
+}
+
+export interface AppointmentWaitlistEntryData {
+  id: number;
+  customerId: number;
+  customerName: string;
+  customerPhone: string | null;
+  serviceId: number | null;
+  staffId: number | null;
+  windowStart: string;
+  windowEnd: string;
+  priority: number;
+  status: string;
+  source: string | null;
+  notes: string | null;
+  createdAt: string;
+  /** The cancelled slot this customer is currently holding */
+  offer: { startDate: string; expiresAt: string } | null;
+}
+
 // ─── Layout Constants ────────────────────────────────────────────────
 export const DEFAULT_HOUR_START = 8;
 export const DEFAULT_HOUR_END = 18;
@@ -35,19 +35,64 @@ import {
   X,
   Download,
   Zap,
+  Mail,
+  ClipboardList,
+  Tag,
+  Webhook,
+  GitBranch,
+  History,
 } from "lucide-react";
 
 // ── Types ──
 
+type StepType = "wait" | "send_sms" | "send_email" | "create_task_for_owner" | "add_tag" | "webhook" | "if";
+
+type ConditionType = "tag_present" | "invoice_unpaid" | "replied_to_last_sms" | "membership_active" | "context_equals";
+
+interface WorkflowCondition {
+  type: ConditionType;
+  tag?: string;
+  key?: string;
+  value?: string | number | boolean;
+  negate?: boolean;
+}
+
 interface WorkflowStep {
-  type: "wait" | "send_sms";
+  type: StepType;
   config: {
     delayMinutes?: number;
     messageType?: string;
     messagePrompt?: string;
+    subject?: string;
+    body?: string;
+    title?: string;
+    details?: string;
+    tag?: string;
+    url?: string;
+    condition?: WorkflowCondition;
+    then?: WorkflowStep[];
+    else?: WorkflowStep[];
   };
 }
 
+interface WorkflowBranchRecord {
+  path: string;
+  condition: ConditionType;
+  result: boolean;
+  branch: "then" | "else";
+  evaluatedAt: string;
+}
+
+interface WorkflowRunData {
+  id: number;
+  customerId: number;
+  status: string;
+  cancelReason: string | null;
+  context: { branches?: WorkflowBranchRecord[] } | null;
+  startedAt: string;
+  completedAt: string | null;
+}
+
 interface WorkflowData {
   id: number;
   businessId: number;
@@ -92,6 +137,24 @@ const MESSAGE_TYPES: Record<string, string> = {
   WIN_BACK: "Win-Back Message",
 };
 
+const STEP_TYPES: Record<StepType, string> = {
+  wait: "Wait",
+  send_sms: "Send SMS",
+  send_email: "Send Email",
+  create_task_for_owner: "Create Task for Owner",
+  add_tag: "Add Tag",
+  webhook: "Call Webhook",
+  if: "If / Else",
+};
+
+const CONDITION_TYPES: Record<ConditionType, string> = {
+  tag_present: "Customer has tag",
+  invoice_unpaid: "Invoice is still unpaid",
+  replied_to_last_sms: "Customer replied to last SMS",
+  membership_active: "Customer has active membership",
+  context_equals: "Run context value equals",
+};
+
 const STATUS_VARIANTS: Record<string, "secondary" | "success" | "warning"> = {
   draft: "secondary",
   active: "success",
@@ -121,6 +184,101 @@ function formatDelayLabel(minutes: number): string {
   return `${value} ${unit}`;
 }
 
+function defaultStep(type: StepType): WorkflowStep {
+  switch (type) {
+    case "wait":
+      return { type, config: { delayMinutes: 60 } };
+    case "send_sms":
+      return { type, config: { messageType: "FOLLOW_UP_THANK_YOU" } };
+    case "send_email":
+      return { type, config: { subject: "A note from {businessName}", body: "Hi {firstName},\n\n" } };
+    case "create_task_for_owner":
+      return { type, config: { title: "Follow up with {customerName}" } };
+    case "add_tag":
+      return { type, config: { tag: "" } };
+    case "webhook":
+      return { type, config: { url: "https://" } };
+    case "if":
+      return { type, config: { condition: { type: "invoice_unpaid" }, then: [], else: [] } };
+  }
+}
+
+function StepIcon({ type, className }: { type: StepType; className?: string }) {
+  switch (type) {
+    case "wait":
+      return <Clock className={className} />;
+    case "send_sms":
+      return <MessageSquare className={className} />;
+    case "send_email":
+      return <Mail className={className} />;
+    case "create_task_for_owner":
+      return <ClipboardList className={className} />;
+    case "add_tag":
+      return <Tag className={className} />;
+    case "webhook":
+      return <Webhook className={className} />;
+    case "if":
+      return <GitBranch className={className} />;
+  }
+}
+
+function describeCondition(condition?: WorkflowCondition): string {
+  if (!condition) return "condition";
+  let label = CONDITION_TYPES[condition.type] || condition.type;
+  if (condition.type === "tag_present" && condition.tag) label = `Customer has tag "${condition.tag}"`;
+  if (condition.type === "context_equals" && condition.key) label = `${condition.key} = ${String(condition.value ?? "")}`;
+  return condition.negate ? `NOT (${label})` : label;
+}
+
+function describeStep(step: WorkflowStep): string {
+  switch (step.type) {
+    case "wait":
+      return `Wait ${formatDelayLabel(step.config.delayMinutes || 0)}`;
+    case "send_sms":
+      return MESSAGE_TYPES[step.config.messageType || ""] || step.config.messageType || "SMS";
+    case "send_email":
+      return `Email: ${step.config.subject || "(no subject)"}`;
+    case "create_task_for_owner":
+      return `Task: ${step.config.title || "(untitled)"}`;
+    case "add_tag":
+      return `Tag "${step.config.tag || ""}"`;
+    case "webhook":
+      return "Call webhook";
+    case "if":
+      return `If ${describeCondition(step.config.condition)}`;
+  }
+}
+
+/** Flatten a step tree into indented preview lines. */
+function flattenSteps(steps: WorkflowStep[], depth = 0, prefix = ""): { label: string; type: StepType; depth: number; number: string }[] {
+  const lines: { label: string; type: StepType; depth: number; number: string }[] = [];
+  steps.forEach((step, i) => {
+    const number = `${prefix}${i + 1}`;
+    lines.push({ label: describeStep(step), type: step.type, depth, number });
+    if (step.type === "if") {
+      const thenSteps = step.config.then || [];
+      const elseSteps = step.config.else || [];
+      lines.push({ label: "Then", type: "if", depth: depth + 1, number: "" });
+      lines.push(...flattenSteps(thenSteps, depth + 2, `${number}.`));
+      if (elseSteps.length > 0) {
+        lines.push({ label: "Else", type: "if", depth: depth + 1, number: "" });
+        lines.push(...flattenSteps(elseSteps, depth + 2, `${number}.`));
+      }
+    }
+  });
+  return lines;
+}
+
+function countSteps(steps: WorkflowStep[], predicate: (s: WorkflowStep) => boolean): number {
+  return steps.reduce((total, step) => {
+    let count = predicate(step) ? 1 : 0;
+    if (step.type === "if") {
+      count += countSteps(step.config.then || [], predicate) + countSteps(step.config.else || [], predicate);
+    }
+    return total + count;
+  }, 0);
+}
+
 // ── Template Install Dialog ──
 
 function TemplateInstallDialog({
@@ -185,7 +343,7 @@ function TemplateInstallDialog({
                           {TRIGGER_EVENTS[template.triggerEvent] || template.triggerEvent}
                         </Badge>
                         <span className="text-xs text-muted-foreground">
-                          {template.steps.length} steps
+                          {countSteps(template.steps, () => true)} steps
                         </span>
                       </div>
                     </div>
@@ -218,16 +376,86 @@ function TemplateInstallDialog({
   );
 }
 
+// ── Condition Editor ──
+
+function ConditionEditor({
+  condition,
+  onChange,
+}: {
+  condition: WorkflowCondition;
+  onChange: (updated: WorkflowCondition) => void;
+}) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <Select
+          value={condition.negate ? "not" : "is"}
+          onValueChange={(v) => onChange({ ...condition, negate: v === "not" })}
+        >
+          <SelectTrigger className="w-20 h-8 text-sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="is">If</SelectItem>
+            <SelectItem value="not">If not</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select
+          value={condition.type}
+          onValueChange={(type: ConditionType) => onChange({ type, negate: condition.negate })}
+        >
+          <SelectTrigger className="flex-1 h-8 text-sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(CONDITION_TYPES).map(([key, label]) => (
+              <SelectItem key={key} value={key}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {condition.type === "tag_present" && (
+        <Input
+          className="h-8 text-sm"
+          placeholder="Tag, e.g. VIP"
+          value={condition.tag || ""}
+          onChange={(e) => onChange({ ...condition, tag: e.target.value })}
+        />
+      )}
+      {condition.type === "context_equals" && (
+        <div className="flex items-center gap-2">
+          <Input
+            className="h-8 text-sm"
+            placeholder="Key, e.g. triggerReferenceType"
+            value={condition.key || ""}
+            onChange={(e) => onChange({ ...condition, key: e.target.value })}
+          />
+          <Input
+            className="h-8 text-sm"
+            placeholder="Value"
+            value={condition.value === undefined ? "" : String(condition.value)}
+            onChange={(e) => onChange({ ...condition, value: e.target.value })}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
 // ── Step Editor Row ──
 
 function StepEditorRow({
   step,
-  index,
+  label,
+  depth,
   onChange,
   onRemove,
 }: {
   step: WorkflowStep;
-  index: number;
+  label: string;
+  depth: number;
   onChange: (updated: WorkflowStep) => void;
   onRemove: () => void;
 }) {
@@ -235,35 +463,26 @@ function StepEditorRow({
 
   return (
     <div className="flex items-start gap-3 p-3 rounded-lg border border-border bg-muted/30">
-      <div className="flex items-center justify-center w-6 h-6 rounded-full bg-primary/10 text-primary text-xs font-bold shrink-0 mt-1">
-        {index + 1}
+      <div className="flex items-center justify-center min-w-6 h-6 px-1 rounded-full bg-primary/10 text-primary text-xs font-bold shrink-0 mt-1">
+        {label}
       </div>
 
-      <div className="flex-1 space-y-2">
+      <div className="flex-1 min-w-0 space-y-2">
         <Select
           value={step.type}
-          onValueChange={(value: "wait" | "send_sms") => {
-            if (value === "wait") {
-              onChange({ type: "wait", config: { delayMinutes: 60 } });
-            } else {
-              onChange({ type: "send_sms", config: { messageType: "FOLLOW_UP_THANK_YOU" } });
-            }
-          }}
+          onValueChange={(value: StepType) => onChange(defaultStep(value))}
         >
           <SelectTrigger className="w-full h-8 text-sm">
             <SelectValue />
           </SelectTrigger>
           <SelectContent>
-            <SelectItem value="wait">
-              <span className="flex items-center gap-1.5">
-                <Clock className="h-3.5 w-3.5" /> Wait
-              </span>
-            </SelectItem>
-            <SelectItem value="send_sms">
-              <span className="flex items-center gap-1.5">
-                <MessageSquare className="h-3.5 w-3.5" /> Send SMS
-              </span>
-            </SelectItem>
+            {(Object.keys(STEP_TYPES) as StepType[]).map((type) => (
+              <SelectItem key={type} value={type}>
+                <span className="flex items-center gap-1.5">
+                  <StepIcon type={type} className="h-3.5 w-3.5" /> {STEP_TYPES[type]}
+                </span>
+              </SelectItem>
+            ))}
           </SelectContent>
         </Select>
 
@@ -325,6 +544,86 @@ function StepEditorRow({
             </SelectContent>
           </Select>
         )}
+
+        {step.type === "send_email" && (
+          <>
+            <Input
+              className="h-8 text-sm"
+              placeholder="Subject"
+              value={step.config.subject || ""}
+              onChange={(e) => onChange({ ...step, config: { ...step.config, subject: e.target.value } })}
+            />
+            <Textarea
+              className="text-sm"
+              rows={3}
+              placeholder="Use {firstName}, {customerName}, {businessName}, {businessPhone}"
+              value={step.config.body || ""}
+              onChange={(e) => onChange({ ...step, config: { ...step.config, body: e.target.value } })}
+            />
+          </>
+        )}
+
+        {step.type === "create_task_for_owner" && (
+          <>
+            <Input
+              className="h-8 text-sm"
+              placeholder="Task title, e.g. Call {customerName}"
+              value={step.config.title || ""}
+              onChange={(e) => onChange({ ...step, config: { ...step.config, title: e.target.value } })}
+            />
+            <Input
+              className="h-8 text-sm"
+              placeholder="Details (optional)"
+              value={step.config.details || ""}
+              onChange={(e) => onChange({ ...step, config: { ...step.config, details: e.target.value } })}
+            />
+          </>
+        )}
+
+        {step.type === "add_tag" && (
+          <Input
+            className="h-8 text-sm"
+            placeholder="Tag, e.g. Collections"
+            value={step.config.tag || ""}
+            onChange={(e) => onChange({ ...step, config: { tag: e.target.value } })}
+          />
+        )}
+
+        {step.type === "webhook" && (
+          <Input
+            className="h-8 text-sm"
+            placeholder="https://hooks.example.com/..."
+            value={step.config.url || ""}
+            onChange={(e) => onChange({ ...step, config: { url: e.target.value } })}
+          />
+        )}
+
+        {step.type === "if" && (
+          <>
+            <ConditionEditor
+              condition={step.config.condition || { type: "invoice_unpaid" }}
+              onChange={(condition) => onChange({ ...step, config: { ...step.config, condition } })}
+            />
+            <div className="space-y-1.5 border-l-2 border-green-500/40 pl-3">
+              <span className="text-xs font-medium text-muted-foreground">Then</span>
+              <StepListEditor
+                steps={step.config.then || []}
+                depth={depth + 1}
+                labelPrefix={`${label}.`}
+                onChange={(then) => onChange({ ...step, config: { ...step.config, then } })}
+              />
+            </div>
+            <div className="space-y-1.5 border-l-2 border-amber-500/40 pl-3">
+              <span className="text-xs font-medium text-muted-foreground">Else</span>
+              <StepListEditor
+                steps={step.config.else || []}
+                depth={depth + 1}
+                labelPrefix={`${label}.`}
+                onChange={(elseSteps) => onChange({ ...step, config: { ...step.config, else: elseSteps } })}
+              />
+            </div>
+          </>
+        )}
       </div>
 
       <Button
@@ -339,6 +638,122 @@ function StepEditorRow({
   );
 }
 
+// ── Step List Editor (recursive — `if` steps nest their own lists) ──
+
+const MAX_BRANCH_DEPTH = 3;
+
+function StepListEditor({
+  steps,
+  depth,
+  labelPrefix,
+  onChange,
+}: {
+  steps: WorkflowStep[];
+  depth: number;
+  labelPrefix: string;
+  onChange: (steps: WorkflowStep[]) => void;
+}) {
+  return (
+    <div className="space-y-2">
+      {steps.map((step, i) => (
+        <StepEditorRow
+          key={i}
+          step={step}
+          label={`${labelPrefix}${i + 1}`}
+          depth={depth}
+          onChange={(updated) => {
+            // Cap nesting so the editor stays usable on small screens
+            if (updated.type === "if" && depth >= MAX_BRANCH_DEPTH) return;
+            onChange(steps.map((s, idx) => (idx === i ? updated : s)));
+          }}
+          onRemove={() => onChange(steps.filter((_, idx) => idx !== i))}
+        />
+      ))}
+      <Button
+        variant="outline"
+        size="sm"
+        className="w-full"
+        onClick={() => onChange([...steps, defaultStep("wait")])}
+      >
+        <Plus className="h-3.5 w-3.5 mr-1" />
+        Add Step
+      </Button>
+    </div>
+  );
+}
+
+// ── Run History Dialog ──
+
+function RunHistoryDialog({
+  workflow,
+  onClose,
+}: {
+  workflow: WorkflowData | null;
+  onClose: () => void;
+}) {
+  const { data: runs = [], isLoading } = useQuery<WorkflowRunData[]>({
+    queryKey: [`/api/workflows/${workflow?.id}/runs`],
+    enabled: !!workflow,
+  });
+
+  return (
+    <Dialog open={!!workflow} onOpenChange={(o) => !o && onClose()}>
+      <DialogContent className="sm:max-w-xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Run History
+          </DialogTitle>
+          <DialogDescription>
+            Recent runs of "{workflow?.name}" and the branch each customer took.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center h-32">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : runs.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No runs yet.</p>
+        ) : (
+          <div className="space-y-2 mt-2">
+            {runs.map((run) => {
+              const branches = run.context?.branches || [];
+              return (
+                <div key={run.id} className="rounded-lg border border-border p-3 space-y-1.5">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm font-medium">Customer #{run.customerId}</span>
+                    <Badge variant="outline" className="capitalize text-xs">
+                      {run.status}
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Started {new Date(run.startedAt).toLocaleString()}
+                    {run.cancelReason ? ` · ${run.cancelReason.replace(/_/g, " ")}` : ""}
+                  </p>
+                  {branches.length > 0 && (
+                    <div className="space-y-0.5">
+                      {branches.map((b, i) => (
+                        <div key={i} className="text-xs flex items-center gap-1.5">
+                          <GitBranch className="h-3 w-3 text-muted-foreground" />
+                          <span>{CONDITION_TYPES[b.condition] || b.condition}</span>
+                          <span className={b.branch === "then" ? "text-green-600" : "text-amber-600"}>
+                            → {b.branch}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
 // ── Workflow Editor Dialog ──
 
 function WorkflowEditorDialog({
@@ -393,23 +808,11 @@ function WorkflowEditorDialog({
     },
   });
 
-  const handleStepChange = (index: number, updated: WorkflowStep) => {
-    setSteps((prev) => prev.map((s, i) => (i === index ? updated : s)));
-  };
-
-  const handleRemoveStep = (index: number) => {
-    setSteps((prev) => prev.filter((_, i) => i !== index));
-  };
-
-  const handleAddStep = () => {
-    setSteps((prev) => [...prev, { type: "wait", config: { delayMinutes: 60 } }]);
-  };
-
   const canSave = name.trim().length > 0 && steps.length > 0;
 
   return (
     <Dialog open={open} onOpenChange={(o) => !o && onClose()}>
-      <DialogContent className="sm:max-w-xl max-h-[85vh] overflow-y-auto">
+      <DialogContent className="sm:max-w-2xl max-h-[85vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Workflow className="h-5 w-5" />
@@ -464,26 +867,7 @@ function WorkflowEditorDialog({
           {/* Steps */}
           <div className="space-y-1.5">
             <label className="text-sm font-medium">Steps</label>
-            <div className="space-y-2">
-              {steps.map((step, i) => (
-                <StepEditorRow
-                  key={i}
-                  step={step}
-                  index={i}
-                  onChange={(updated) => handleStepChange(i, updated)}
-                  onRemove={() => handleRemoveStep(i)}
-                />
-              ))}
-            </div>
-            <Button
-              variant="outline"
-              size="sm"
-              className="w-full mt-2"
-              onClick={handleAddStep}
-            >
-              <Plus className="h-3.5 w-3.5 mr-1" />
-              Add Step
-            </Button>
+            <StepListEditor steps={steps} depth={0} labelPrefix="" onChange={setSteps} />
           </div>
 
           {/* Save */}
@@ -509,18 +893,22 @@ function WorkflowCard({
   onDelete,
   onActivate,
   onPause,
+  onHistory,
   isActioning,
 }: {
   workflow: WorkflowData;
   onEdit: () => void;
+  onHistory: () => void;
   onDelete: () => void;
   onActivate: () => void;
   onPause: () => void;
   isActioning: boolean;
 }) {
   const steps = (workflow.steps || []) as WorkflowStep[];
-  const smsSteps = steps.filter((s) => s.type === "send_sms").length;
-  const waitSteps = steps.filter((s) => s.type === "wait").length;
+  const smsSteps = countSteps(steps, (s) => s.type === "send_sms" || s.type === "send_email");
+  const waitSteps = countSteps(steps, (s) => s.type === "wait");
+  const branchSteps = countSteps(steps, (s) => s.type === "if");
+  const previewLines = flattenSteps(steps);
 
   return (
     <Card className="border-border bg-card">
@@ -554,28 +942,33 @@ function WorkflowCard({
             <Clock className="h-3 w-3" />
             {waitSteps} delay{waitSteps !== 1 ? "s" : ""}
           </span>
+          {branchSteps > 0 && (
+            <span className="text-xs text-muted-foreground flex items-center gap-1">
+              <GitBranch className="h-3 w-3" />
+              {branchSteps} branch{branchSteps !== 1 ? "es" : ""}
+            </span>
+          )}
         </div>
 
         {/* Step preview */}
         <div className="text-xs text-muted-foreground bg-muted/50 rounded-md p-2 space-y-1">
-          {steps.slice(0, 4).map((step, i) => (
-            <div key={i} className="flex items-center gap-1.5">
-              <span className="text-primary font-medium">{i + 1}.</span>
-              {step.type === "wait" ? (
-                <span className="flex items-center gap-1">
-                  <Clock className="h-3 w-3" />
-                  Wait {formatDelayLabel(step.config.delayMinutes || 0)}
-                </span>
+          {previewLines.slice(0, 6).map((line, i) => (
+            <div key={i} className="flex items-center gap-1.5" style={{ paddingLeft: `${line.depth * 0.75}rem` }}>
+              {line.number ? (
+                <>
+                  <span className="text-primary font-medium">{line.number}.</span>
+                  <span className="flex items-center gap-1 truncate">
+                    <StepIcon type={line.type} className="h-3 w-3 shrink-0" />
+                    {line.label}
+                  </span>
+                </>
               ) : (
-                <span className="flex items-center gap-1">
-                  <MessageSquare className="h-3 w-3" />
-                  {MESSAGE_TYPES[step.config.messageType || ""] || step.config.messageType || "SMS"}
-                </span>
+                <span className="italic">{line.label}</span>
               )}
             </div>
           ))}
-          {steps.length > 4 && (
-            <div className="text-muted-foreground/60">+{steps.length - 4} more steps</div>
+          {previewLines.length > 6 && (
+            <div className="text-muted-foreground/60">+{previewLines.length - 6} more</div>
           )}
         </div>
 
@@ -585,6 +978,10 @@ function WorkflowCard({
             <Edit className="h-3 w-3" />
             Edit
           </Button>
+          <Button variant="outline" size="sm" className="h-7 text-xs gap-1" onClick={onHistory}>
+            <History className="h-3 w-3" />
+            History
+          </Button>
           {workflow.status === "active" ? (
             <Button
               variant="outline"
@@ -633,6 +1030,7 @@ export function WorkflowsTab() {
   const [editorOpen, setEditorOpen] = useState(false);
   const [editingWorkflow, setEditingWorkflow] = useState<WorkflowData | null>(null);
   const [actioningId, setActioningId] = useState<number | null>(null);
+  const [historyWorkflow, setHistoryWorkflow] = useState<WorkflowData | null>(null);
 
   const { data: workflows = [], isLoading } = useQuery<WorkflowData[]>({
     queryKey: ["/api/workflows"],
@@ -769,6 +1167,7 @@ export function WorkflowsTab() {
               onDelete={() => deleteMutation.mutate(wf.id)}
               onActivate={() => activateMutation.mutate(wf.id)}
               onPause={() => pauseMutation.mutate(wf.id)}
+              onHistory={() => setHistoryWorkflow(wf)}
               isActioning={actioningId === wf.id}
             />
           ))}
@@ -777,6 +1176,7 @@ export function WorkflowsTab() {
 
       {/* Dialogs */}
       <TemplateInstallDialog open={showTemplates} onClose={() => setShowTemplates(false)} />
+      <RunHistoryDialog workflow={historyWorkflow} onClose={() => setHistoryWorkflow(null)} />
       <WorkflowEditorDialog
         open={editorOpen}
         workflow={editingWorkflow}
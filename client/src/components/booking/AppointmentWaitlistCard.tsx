@@ -0,0 +1,109 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { CheckCircle, ClipboardList, Loader2 } from "lucide-react";
+
+interface AppointmentWaitlistCardProps {
+  slug: string;
+  serviceId: number | null;
+  staffId: number | null;
+  selectedDate: Date;
+  holdMinutes: number;
+}
+
+function toDateInput(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+// ========================================
+// APPOINTMENT WAITLIST (no times available)
+// ========================================
+
+export function AppointmentWaitlistCard({ slug, serviceId, staffId, selectedDate, holdMinutes }: AppointmentWaitlistCardProps) {
+  const { toast } = useToast();
+  const [form, setForm] = useState({
+    name: "",
+    phone: "",
+    windowStart: toDateInput(selectedDate),
+    windowEnd: toDateInput(new Date(selectedDate.getTime() + 7 * 86_400_000)),
+  });
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [joined, setJoined] = useState(false);
+
+  const handleJoin = async () => {
+    const phone = form.phone.replace(/[^\d+]/g, "");
+    if (!form.name.trim() || phone.length < 10) {
+      toast({ title: "Name and mobile number required", description: "We'll text you when a time opens up.", variant: "destructive" });
+      return;
+    }
+    try {
+      setIsSubmitting(true);
+      const res = await fetch(`/api/book/${slug}/appointment-waitlist`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: form.name.trim(), phone, serviceId, staffId, windowStart: form.windowStart, windowEnd: form.windowEnd }),
+      });
+      const d = await res.json();
+      if (!res.ok) throw new Error(d.error || "Failed to join the waitlist");
+      setJoined(true);
+    } catch (err: any) {
+      toast({ title: "Couldn't join", description: err.message, variant: "destructive" });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (joined) {
+    return (
+      <Card>
+        <CardContent className="py-6 text-center space-y-2">
+          <CheckCircle className="h-8 w-8 text-green-600 mx-auto" />
+          <p className="font-medium">You're on the waitlist</p>
+          <p className="text-sm text-muted-foreground">
+            If a time opens up we'll text you and hold it for {holdMinutes} minutes. Just reply YES to book it.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <ClipboardList className="h-4 w-4" />
+          Join the Waitlist
+        </CardTitle>
+        <CardDescription>No time that works? We'll text you if something opens up between these dates.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="grid sm:grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label className="text-sm">Name</Label>
+            <Input value={form.name} placeholder="Your name" onChange={(e) => setForm({ ...form, name: e.target.value })} />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-sm">Mobile number</Label>
+            <Input type="tel" value={form.phone} placeholder="(555) 123-4567" onChange={(e) => setForm({ ...form, phone: e.target.value })} />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-sm">From</Label>
+            <Input type="date" value={form.windowStart} onChange={(e) => setForm({ ...form, windowStart: e.target.value })} />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-sm">To</Label>
+            <Input type="date" value={form.windowEnd} onChange={(e) => setForm({ ...form, windowEnd: e.target.value })} />
+          </div>
+        </div>
+        <Button className="w-full" onClick={handleJoin} disabled={isSubmitting}>
+          {isSubmitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ClipboardList className="mr-2 h-4 w-4" />}
+          Join the Waitlist
+        </Button>
+        <p className="text-xs text-muted-foreground text-center">Msg & data rates may apply.</p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -5,8 +5,10 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Loader2, Clock, Calendar as CalendarIcon, User, ArrowLeft } from "lucide-react";
 import { formatCurrency } from "@/lib/utils";
-import type { ServiceInfo, StaffInfo, CustomerInfo } from "./bookingHelpers";
+import type { Ref } from "react";
+import type { ServiceInfo, StaffInfo, CustomerInfo, CancellationPolicyInfo } from "./bookingHelpers";
 import { formatTime12, formatPhoneNumber } from "./bookingHelpers";
+import { CancellationPolicyCard, type CardOnFileHandle } from "./CancellationPolicyCard";
 
 // ========================================
 // APPOINTMENT DETAILS STEP (Step 3)
@@ -23,9 +25,15 @@ interface BookingDetailsStepProps {
   notes: string;
   formErrors: Record<string, string>;
   isSubmitting: boolean;
+  slug: string;
+  cancellationPolicy?: CancellationPolicyInfo | null;
+  policyAccepted: boolean;
+  cardRef: Ref<CardOnFileHandle>;
   onCustomerInfoChange: (info: CustomerInfo) => void;
   onSmsOptInChange: (checked: boolean) => void;
-  onNotesChange: (notes: string) => void;
+  /** Omitted for class seats, which carry no notes */
+  onNotesChange?: (notes: string) => void;
+  onPolicyAcceptedChange: (checked: boolean) => void;
   onClearError: (field: string) => void;
   onBack: () => void;
   onSubmit: () => void;
@@ -42,9 +50,14 @@ export function BookingDetailsStep({
   notes,
   formErrors,
   isSubmitting,
+  slug,
+  cancellationPolicy,
+  policyAccepted,
+  cardRef,
   onCustomerInfoChange,
   onSmsOptInChange,
   onNotesChange,
+  onPolicyAcceptedChange,
   onClearError,
   onBack,
   onSubmit,
@@ -182,16 +195,18 @@ export function BookingDetailsStep({
             <p className="text-xs text-red-600 mt-1">{formErrors.phone}</p>
           )}
         </div>
-        <div>
-          <Label htmlFor="notes">Notes (Optional)</Label>
-          <Textarea
-            id="notes"
-            value={notes}
-            onChange={(e) => onNotesChange(e.target.value)}
-            placeholder="Any special requests or information..."
-            rows={3}
-          />
-        </div>
+        {onNotesChange && (
+          <div>
+            <Label htmlFor="notes">Notes (Optional)</Label>
+            <Textarea
+              id="notes"
+              value={notes}
+              onChange={(e) => onNotesChange(e.target.value)}
+              placeholder="Any special requests or information..."
+              rows={3}
+            />
+          </div>
+        )}
 
         <SmsOptInCheckbox
           id="smsOptIn"
@@ -200,6 +215,20 @@ export function BookingDetailsStep({
           type="appointment"
         />
 
+        {cancellationPolicy && (
+          <CancellationPolicyCard
+            ref={cardRef}
+            slug={slug}
+            policy={cancellationPolicy}
+            accepted={policyAccepted}
+            error={formErrors.policy}
+            onAcceptedChange={(checked) => {
+              onPolicyAcceptedChange(checked);
+              if (formErrors.policy) onClearError("policy");
+            }}
+          />
+        )}
+
         <div className="flex justify-between pt-4">
           <Button variant="outline" onClick={onBack}>
             <ArrowLeft className="mr-2 h-4 w-4" /> Back
@@ -208,6 +237,7 @@ export function BookingDetailsStep({
             onClick={onSubmit}
             disabled={
               isSubmitting ||
+              (!!cancellationPolicy && !policyAccepted) ||
               !customerInfo.firstName ||
               !customerInfo.lastName ||
               !customerInfo.email ||
@@ -1,3 +1,4 @@
+import { Link, useParams } from "wouter";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -33,6 +34,7 @@ export function BookingLandingPage({
   isReservationMode,
   onStartBooking,
 }: BookingLandingPageProps) {
+  const { slug } = useParams<{ slug: string }>();
   const businessLocation = [
     bookingData.business.address,
     bookingData.business.city,
@@ -328,6 +330,14 @@ export function BookingLandingPage({
             <CalendarIcon className="mr-2 h-5 w-5" />
             {isReservationMode ? "Make a Reservation" : "Book an Appointment"}
           </Button>
+          {!isReservationMode && slug && (
+            <p className="mt-3 text-sm text-muted-foreground">
+              Already a customer?{" "}
+              <Link href={`/portal/account/${slug}`} className="text-primary hover:underline">
+                Sign in to your account
+              </Link>
+            </p>
+          )}
         </div>
 
         <PoweredByFooter />
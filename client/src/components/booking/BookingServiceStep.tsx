@@ -2,7 +2,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
-import { CheckCircle, Clock, User, ArrowLeft, ArrowRight } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { CheckCircle, Clock, User, Users, ArrowLeft, ArrowRight, Plus } from "lucide-react";
 import { formatCurrency } from "@/lib/utils";
 import type { ServiceInfo, StaffInfo } from "./bookingHelpers";
 import { canStaffDoService } from "./bookingHelpers";
@@ -12,9 +13,13 @@ interface BookingServiceStepProps {
   staff: StaffInfo[];
   staffServices?: Record<string, number[]>;
   selectedService: number | null;
+  extraServiceIds: number[];
+  selectedAddonIds: number[];
   selectedStaff: number | null;
   isEmbed: boolean;
   onSelectService: (serviceId: number) => void;
+  onToggleExtraService: (serviceId: number) => void;
+  onToggleAddon: (addonId: number) => void;
   onSelectStaff: (staffId: number | null) => void;
   onBack: () => void;
   onNext: () => void;
@@ -25,16 +30,25 @@ export function BookingServiceStep({
   staff,
   staffServices,
   selectedService,
+  extraServiceIds,
+  selectedAddonIds,
   selectedStaff,
   isEmbed,
   onSelectService,
+  onToggleExtraService,
+  onToggleAddon,
   onSelectStaff,
   onBack,
   onNext,
 }: BookingServiceStepProps) {
+  const selectedIds = selectedService ? [selectedService, ...extraServiceIds] : [];
+  // One staff preference covers the whole booking, so they must offer every service in it
   const filteredStaff = staff.filter((s) =>
-    canStaffDoService(staffServices, s.id, selectedService)
+    selectedIds.every((id) => canStaffDoService(staffServices, s.id, id))
   );
+  // Classes are booked by the seat in a fixed session — no extras, no staff pick
+  const isClassSelected = !!services.find((s) => s.id === selectedService)?.classCapacity;
+  const extraCandidates = isClassSelected ? [] : services.filter((s) => s.id !== selectedService && !s.classCapacity);
 
   return (
     <Card>
@@ -64,10 +78,20 @@ export function BookingServiceStep({
                 {service.description && (
                   <p className="text-sm text-muted-foreground mt-1">{service.description}</p>
                 )}
-                {service.duration && (
-                  <div className="flex items-center gap-1 mt-2 text-xs text-muted-foreground">
-                    <Clock className="h-3 w-3" />
-                    <span>{service.duration} min</span>
+                {(service.duration || service.classCapacity) && (
+                  <div className="flex items-center gap-3 mt-2 text-xs text-muted-foreground">
+                    {service.duration && (
+                      <span className="flex items-center gap-1">
+                        <Clock className="h-3 w-3" />
+                        {service.duration} min
+                      </span>
+                    )}
+                    {service.classCapacity && (
+                      <span className="flex items-center gap-1">
+                        <Users className="h-3 w-3" />
+                        Group class · up to {service.classCapacity}
+                      </span>
+                    )}
                   </div>
                 )}
               </div>
@@ -81,10 +105,42 @@ export function BookingServiceStep({
                 )}
               </div>
             </div>
+            {selectedIds.includes(service.id) && <AddonOptions service={service} selectedAddonIds={selectedAddonIds} onToggleAddon={onToggleAddon} />}
           </div>
         ))}
 
-        {filteredStaff.length > 1 && (
+        {selectedService && extraCandidates.length > 0 && (
+          <div className="mt-6 pt-4 border-t">
+            <Label className="text-sm font-medium mb-1 block">Add Another Service (Optional)</Label>
+            <p className="text-xs text-muted-foreground mb-3">Extra services are done right after, in the order you add them.</p>
+            <div className="space-y-2">
+              {extraCandidates.map((service) => {
+                const added = extraServiceIds.includes(service.id);
+                return (
+                  <div
+                    key={service.id}
+                    className={`p-3 border rounded-lg cursor-pointer transition-all ${
+                      added ? "border-primary bg-primary/5" : "border-border hover:border-primary/30"
+                    }`}
+                    onClick={() => onToggleExtraService(service.id)}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="flex items-center gap-2">
+                        {added ? <CheckCircle className="h-4 w-4 text-primary" /> : <Plus className="h-4 w-4 text-muted-foreground" />}
+                        <span className="text-sm font-medium">{service.name}</span>
+                        {service.duration && <span className="text-xs text-muted-foreground">{service.duration} min</span>}
+                      </div>
+                      {service.price ? <span className="text-sm">{formatCurrency(service.price)}</span> : null}
+                    </div>
+                    {added && <AddonOptions service={service} selectedAddonIds={selectedAddonIds} onToggleAddon={onToggleAddon} />}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {!isClassSelected && filteredStaff.length > 1 && (
           <div className="mt-6 pt-4 border-t">
             <Label className="text-sm font-medium mb-3 block">Staff Preference (Optional)</Label>
             <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
@@ -153,3 +209,35 @@ export function BookingServiceStep({
     </Card>
   );
 }
+
+function AddonOptions({
+  service,
+  selectedAddonIds,
+  onToggleAddon,
+}: {
+  service: ServiceInfo;
+  selectedAddonIds: number[];
+  onToggleAddon: (addonId: number) => void;
+}) {
+  if (!service.addons || service.addons.length === 0) return null;
+  return (
+    <div className="mt-3 pt-3 border-t space-y-2" onClick={(e) => e.stopPropagation()}>
+      <p className="text-xs font-medium text-muted-foreground">Add-ons</p>
+      {service.addons.map((addon) => (
+        <label key={addon.id} className="flex items-center justify-between gap-2 text-sm cursor-pointer">
+          <span className="flex items-center gap-2">
+            <Checkbox
+              checked={selectedAddonIds.includes(addon.id)}
+              onCheckedChange={() => onToggleAddon(addon.id)}
+            />
+            {addon.name}
+            {addon.durationMinutes > 0 && (
+              <span className="text-xs text-muted-foreground">+{addon.durationMinutes} min</span>
+            )}
+          </span>
+          {addon.price > 0 && <span className="text-muted-foreground">+{formatCurrency(addon.price)}</span>}
+        </label>
+      ))}
+    </div>
+  );
+}
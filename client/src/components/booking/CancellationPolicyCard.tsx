@@ -0,0 +1,125 @@
+import { forwardRef, useImperativeHandle, useMemo, useRef } from "react";
+import { loadStripe, type Stripe } from "@stripe/stripe-js";
+import { CardElement, Elements, useElements, useStripe } from "@stripe/react-stripe-js";
+import { Label } from "@/components/ui/label";
+import { ShieldCheck } from "lucide-react";
+import type { CancellationPolicyInfo, CustomerInfo } from "./bookingHelpers";
+
+// ========================================
+// CANCELLATION POLICY + CARD ON FILE
+// ========================================
+
+/** Imperative handle the booking page uses to save the card right before submitting */
+export interface CardOnFileHandle {
+  /** Confirms a SetupIntent for the entered card; resolves to its id or throws with a customer-facing message */
+  collect: (customer: CustomerInfo) => Promise<string>;
+}
+
+// One Stripe.js instance per connected account — loadStripe must not run on every render
+const stripeByAccount = new Map<string, Promise<Stripe | null>>();
+
+function getConnectedStripe(stripeAccountId: string) {
+  let stripePromise = stripeByAccount.get(stripeAccountId);
+  if (!stripePromise) {
+    stripePromise = loadStripe(import.meta.env.VITE_STRIPE_PUBLIC_KEY, { stripeAccount: stripeAccountId });
+    stripeByAccount.set(stripeAccountId, stripePromise);
+  }
+  return stripePromise;
+}
+
+interface CancellationPolicyCardProps {
+  slug: string;
+  policy: CancellationPolicyInfo;
+  accepted: boolean;
+  error?: string;
+  onAcceptedChange: (checked: boolean) => void;
+}
+
+export const CancellationPolicyCard = forwardRef<CardOnFileHandle, CancellationPolicyCardProps>(
+  function CancellationPolicyCard({ slug, policy, accepted, error, onAcceptedChange }, ref) {
+    const stripePromise = useMemo(
+      () => (policy.cardRequired && policy.stripeAccountId ? getConnectedStripe(policy.stripeAccountId) : null),
+      [policy.cardRequired, policy.stripeAccountId],
+    );
+
+    return (
+      <div className="rounded-lg border p-4 space-y-3">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <ShieldCheck className="h-4 w-4 text-muted-foreground" />
+          Cancellation Policy
+        </div>
+        <p className="text-sm text-muted-foreground whitespace-pre-line">{policy.text}</p>
+
+        {stripePromise && (
+          <Elements stripe={stripePromise}>
+            <CardField ref={ref} slug={slug} />
+          </Elements>
+        )}
+
+        <div className="flex items-start space-x-2">
+          <input
+            type="checkbox"
+            id="policyAccepted"
+            checked={accepted}
+            onChange={(e) => onAcceptedChange(e.target.checked)}
+            className="mt-1 h-4 w-4 rounded border-gray-300"
+          />
+          <label htmlFor="policyAccepted" className="text-sm text-muted-foreground">
+            I agree to the cancellation policy
+            {policy.cardRequired ? " and authorize the business to charge my card for any fees it describes." : "."}
+          </label>
+        </div>
+        {error && <p className="text-xs text-red-600">{error}</p>}
+      </div>
+    );
+  },
+);
+
+const CardField = forwardRef<CardOnFileHandle, { slug: string }>(function CardField({ slug }, ref) {
+  const stripe = useStripe();
+  const elements = useElements();
+  // The SetupIntent outlives a failed booking attempt — reuse it on retry
+  const confirmedSetupIntent = useRef<string | null>(null);
+
+  useImperativeHandle(ref, () => ({
+    collect: async (customer) => {
+      if (confirmedSetupIntent.current) return confirmedSetupIntent.current;
+      const card = elements?.getElement(CardElement);
+      if (!stripe || !card) throw new Error("Card form is still loading. Please try again.");
+
+      const res = await fetch(`/api/book/${slug}/card-setup`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(customer),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to save card");
+
+      const { error, setupIntent } = await stripe.confirmCardSetup(data.clientSecret, {
+        payment_method: {
+          card,
+          billing_details: {
+            name: `${customer.firstName} ${customer.lastName}`.trim(),
+            email: customer.email,
+            phone: customer.phone,
+          },
+        },
+      });
+      if (error || !setupIntent) throw new Error(error?.message || "Your card could not be saved");
+      confirmedSetupIntent.current = setupIntent.id;
+      return setupIntent.id;
+    },
+  }), [stripe, elements, slug]);
+
+  return (
+    <div className="space-y-1.5">
+      <Label>Card on file *</Label>
+      <div className="rounded-md border px-3 py-2.5 bg-background">
+        <CardElement options={{ hidePostalCode: false, style: { base: { fontSize: "14px" } } }} />
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Your card is not charged now. It is only used for fees under this policy.
+      </p>
+    </div>
+  );
+});
@@ -0,0 +1,178 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft, ArrowRight, CheckCircle, ClipboardList, Loader2, Users } from "lucide-react";
+import type { BusinessInfo, ClassSessionInfo } from "./bookingHelpers";
+import { formatTime12 } from "./bookingHelpers";
+
+// ========================================
+// CLASS SESSION STEP (Step 2 for group classes)
+// ========================================
+
+interface ClassSessionStepProps {
+  slug: string;
+  serviceId: number;
+  selectedSession: ClassSessionInfo | null;
+  onSelectSession: (session: ClassSessionInfo) => void;
+  onTimezoneAbbr: (abbr: string) => void;
+  onBack: () => void;
+  onNext: () => void;
+}
+
+function formatSessionDay(date: string): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString("en-US", { weekday: "long", month: "short", day: "numeric" });
+}
+
+export function ClassSessionStep({
+  slug,
+  serviceId,
+  selectedSession,
+  onSelectSession,
+  onTimezoneAbbr,
+  onBack,
+  onNext,
+}: ClassSessionStepProps) {
+  const { toast } = useToast();
+  const [sessions, setSessions] = useState<ClassSessionInfo[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        setIsLoading(true);
+        const res = await fetch(`/api/book/${slug}/classes?serviceId=${serviceId}&days=28`);
+        const d = await res.json();
+        if (!res.ok) throw new Error(d.error || "Failed to load classes");
+        if (cancelled) return;
+        setSessions(d.sessions || []);
+        if (d.timezoneAbbr) onTimezoneAbbr(d.timezoneAbbr);
+      } catch (err: any) {
+        if (!cancelled) toast({ title: "Error", description: err.message, variant: "destructive" });
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [slug, serviceId]);
+
+  const days = Array.from(new Set(sessions.map((s) => s.date)));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Choose a Class</CardTitle>
+        <CardDescription>Pick a session — full classes have a waitlist</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : sessions.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8 border rounded-lg border-dashed">
+            No upcoming sessions are scheduled. Please check back soon.
+          </p>
+        ) : (
+          days.map((day) => (
+            <div key={day}>
+              <h4 className="text-sm font-medium text-muted-foreground mb-2">{formatSessionDay(day)}</h4>
+              <div className="space-y-2">
+                {sessions.filter((s) => s.date === day).map((session) => {
+                  const selected = selectedSession?.id === session.id;
+                  const full = session.spotsLeft === 0;
+                  return (
+                    <div
+                      key={session.id}
+                      className={`flex items-center justify-between gap-2 p-3 border rounded-lg cursor-pointer transition-all ${
+                        selected ? "border-primary bg-primary/5 ring-1 ring-primary/20" : "border-border hover:border-primary/30"
+                      }`}
+                      onClick={() => onSelectSession(session)}
+                    >
+                      <div className="flex items-center gap-2">
+                        {selected && <CheckCircle className="h-4 w-4 text-primary" />}
+                        <span className="font-medium">{formatTime12(session.time)}</span>
+                        {session.staffName && <span className="text-sm text-muted-foreground">with {session.staffName}</span>}
+                      </div>
+                      {full ? (
+                        <Badge variant="secondary" className="text-xs">
+                          Full{session.waitlistCount > 0 ? ` · ${session.waitlistCount} waiting` : ""}
+                        </Badge>
+                      ) : (
+                        <span className="flex items-center gap-1 text-sm text-muted-foreground">
+                          <Users className="h-3 w-3" />
+                          {session.spotsLeft} {session.spotsLeft === 1 ? "spot" : "spots"} left
+                        </span>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          ))
+        )}
+
+        {selectedSession?.spotsLeft === 0 && (
+          <p className="text-sm text-muted-foreground flex items-start gap-2">
+            <ClipboardList className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            This class is full. Continue to join the waitlist — we'll text you if a spot opens up.
+          </p>
+        )}
+
+        <div className="flex justify-between pt-4">
+          <Button variant="outline" onClick={onBack}>
+            <ArrowLeft className="mr-2 h-4 w-4" /> Back
+          </Button>
+          <Button onClick={onNext} disabled={!selectedSession}>
+            Continue <ArrowRight className="ml-2 h-4 w-4" />
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+// ========================================
+// CLASS CONFIRMATION
+// ========================================
+
+interface ClassBookingConfirmationProps {
+  business: BusinessInfo;
+  confirmationData: { booking: { id: number; status: string }; waitlistPosition: number | null; message: string };
+  serviceName: string | undefined;
+  isEmbed: boolean;
+}
+
+export function ClassBookingConfirmation({ business, confirmationData, serviceName, isEmbed }: ClassBookingConfirmationProps) {
+  const waitlisted = confirmationData.booking.status === "waitlisted";
+  return (
+    <div className={`max-w-lg mx-auto ${isEmbed ? "" : "pt-4"}`}>
+      <Card>
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-4 w-16 h-16 rounded-full bg-green-100 dark:bg-green-900/30 flex items-center justify-center">
+            {waitlisted ? (
+              <ClipboardList className="h-10 w-10 text-green-600 dark:text-green-400" />
+            ) : (
+              <CheckCircle className="h-10 w-10 text-green-600 dark:text-green-400" />
+            )}
+          </div>
+          <CardTitle className="text-2xl">
+            {waitlisted ? `You're #${confirmationData.waitlistPosition} on the Waitlist` : "You're Booked!"}
+          </CardTitle>
+          <CardDescription className="text-base">
+            {serviceName} · Booking reference: <strong>#{confirmationData.booking.id}</strong>
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4 text-center">
+          <p className="text-sm">{confirmationData.message}</p>
+          <p className="text-sm text-muted-foreground">
+            Need to cancel? Call {business.name}{business.phone ? ` at ${business.phone}` : ""}.
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -31,6 +31,16 @@ export interface ServiceInfo {
   description: string | null;
   price: number | null;
   duration: number | null;
+  addons?: ServiceAddonInfo[];
+  /** Set for group classes — seats per session */
+  classCapacity?: number | null;
+}
+
+export interface ServiceAddonInfo {
+  id: number;
+  name: string;
+  price: number;
+  durationMinutes: number;
 }
 
 export interface StaffInfo {
@@ -54,6 +64,21 @@ export interface ReservationSlot {
   remainingSeats: number;
 }
 
+export interface ClassSessionInfo {
+  id: number;
+  serviceId: number;
+  serviceName: string;
+  staffName: string | null;
+  startDate: string;
+  endDate: string;
+  /** Business-local YYYY-MM-DD and HH:MM */
+  date: string;
+  time: string;
+  capacity: number;
+  spotsLeft: number;
+  waitlistCount: number;
+}
+
 export interface BusinessHourInfo {
   day: string;
   open: string | null;
@@ -75,6 +100,19 @@ export interface BookingData {
     leadTimeHours: number;
     maxDaysAhead: number;
   } | null;
+  cancellationPolicy?: CancellationPolicyInfo | null;
+  /** Customers can wait for a cancellation when no time works */
+  appointmentWaitlist?: { enabled: boolean; holdMinutes: number } | null;
+}
+
+export interface CancellationPolicyInfo {
+  windowHours: number;
+  lateCancelFee: number;
+  noShowFee: number;
+  text: string;
+  /** Card must be saved (on the business's Stripe account) to book */
+  cardRequired: boolean;
+  stripeAccountId: string | null;
 }
 
 export interface CustomerInfo {
@@ -174,6 +212,40 @@ export function canStaffDoService(
 }
 
 /** Check if a calendar date should be disabled for appointment booking */
+/**
+ * The chosen services and add-ons rolled into one summary — combined name,
+ * total minutes and total price — for the details and confirmation steps.
+ */
+export function combineServiceSelection(
+  services: ServiceInfo[],
+  serviceIds: number[],
+  addonIds: number[]
+): ServiceInfo | undefined {
+  const picked = serviceIds
+    .map((id) => services.find((s) => s.id === id))
+    .filter((s): s is ServiceInfo => !!s);
+  if (picked.length === 0) return undefined;
+
+  let duration = 0;
+  let price = 0;
+  let priced = false;
+  const names = picked.map((service) => {
+    const addons = (service.addons || []).filter((a) => addonIds.includes(a.id));
+    duration += (service.duration || 60) + addons.reduce((sum, a) => sum + a.durationMinutes, 0);
+    // Prices arrive as numeric strings from the API
+    price += Number(service.price || 0) + addons.reduce((sum, a) => sum + Number(a.price), 0);
+    priced = priced || Number(service.price) > 0 || addons.some((a) => Number(a.price) > 0);
+    return addons.length > 0 ? `${service.name} (${addons.map((a) => a.name).join(", ")})` : service.name;
+  });
+
+  return {
+    ...picked[0],
+    name: names.join(" + "),
+    duration,
+    price: priced ? Math.round(price * 100) / 100 : null,
+  };
+}
+
 export function isDateDisabled(date: Date, bookingData: BookingData): boolean {
   const now = new Date();
   const leadTimeHours = bookingData.business.bookingLeadTimeHours || 24;
@@ -0,0 +1,183 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ListPlus, Loader2 } from "lucide-react";
+import { apiRequest } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { CustomFieldDefinition, CustomFieldValue } from "@shared/schema";
+
+export type CustomFieldEntityType = "customer" | "job" | "appointment";
+
+/** Form state: what the user typed, keyed by field key. "" or null clears the field. */
+export type CustomFieldDraft = Record<string, CustomFieldValue | null>;
+
+const NO_CHOICE = "__none__";
+
+export function customFieldsQueryKey(entityType: CustomFieldEntityType) {
+  return [`/api/custom-fields?entityType=${entityType}`];
+}
+
+/** Active custom fields for one kind of record, in display order */
+export function useCustomFieldDefinitions(entityType: CustomFieldEntityType) {
+  const { data = [], isLoading } = useQuery<CustomFieldDefinition[]>({
+    queryKey: customFieldsQueryKey(entityType),
+  });
+  return { definitions: data.filter((def) => def.active !== false), isLoading };
+}
+
+/** Only the keys the user changed, so untouched fields aren't rewritten */
+export function changedCustomFields(
+  original: Record<string, CustomFieldValue> | null | undefined,
+  draft: CustomFieldDraft,
+): CustomFieldDraft {
+  const changes: CustomFieldDraft = {};
+  for (const [key, value] of Object.entries(draft)) {
+    const before = original?.[key] ?? null;
+    const after = value === "" ? null : value;
+    if (String(before ?? "") !== String(after ?? "")) changes[key] = after;
+  }
+  return changes;
+}
+
+interface CustomFieldInputsProps {
+  definitions: CustomFieldDefinition[];
+  values: CustomFieldDraft;
+  onChange: (key: string, value: CustomFieldValue | null) => void;
+  disabled?: boolean;
+}
+
+export function CustomFieldInputs({ definitions, values, onChange, disabled }: CustomFieldInputsProps) {
+  if (definitions.length === 0) return null;
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {definitions.map((def) => {
+        const id = `custom-field-${def.key}`;
+        const value = values[def.key];
+        return (
+          <div key={def.id} className="space-y-2" data-testid={id}>
+            <Label htmlFor={id}>{def.label}</Label>
+            {def.fieldType === "select" ? (
+              <Select
+                value={typeof value === "string" && value ? value : NO_CHOICE}
+                onValueChange={(choice) => onChange(def.key, choice === NO_CHOICE ? null : choice)}
+                disabled={disabled}
+              >
+                <SelectTrigger id={id}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_CHOICE}>—</SelectItem>
+                  {(def.options || []).map((option) => (
+                    <SelectItem key={option} value={option}>{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : def.fieldType === "boolean" ? (
+              <Select
+                value={value === true ? "yes" : value === false ? "no" : NO_CHOICE}
+                onValueChange={(choice) => onChange(def.key, choice === NO_CHOICE ? null : choice === "yes")}
+                disabled={disabled}
+              >
+                <SelectTrigger id={id}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_CHOICE}>—</SelectItem>
+                  <SelectItem value="yes">Yes</SelectItem>
+                  <SelectItem value="no">No</SelectItem>
+                </SelectContent>
+              </Select>
+            ) : (
+              <Input
+                id={id}
+                type={def.fieldType === "number" ? "number" : def.fieldType === "date" ? "date" : "text"}
+                step={def.fieldType === "number" ? "any" : undefined}
+                value={value === null || value === undefined ? "" : String(value)}
+                onChange={(e) => onChange(def.key, e.target.value)}
+                disabled={disabled}
+              />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+interface CustomFieldsCardProps {
+  entityType: CustomFieldEntityType;
+  values: Record<string, CustomFieldValue> | null | undefined;
+  /** PUT endpoint of the record, e.g. /api/jobs/12 */
+  endpoint: string;
+  /** Query keys to refresh after saving */
+  invalidateKeys: unknown[][];
+}
+
+/** Card for editing a saved record's custom fields; hidden when none are defined */
+export function CustomFieldsCard({ entityType, values, endpoint, invalidateKeys }: CustomFieldsCardProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { definitions } = useCustomFieldDefinitions(entityType);
+  // What's saved — follows the record, and the save response in case the
+  // parent keeps showing an older copy (e.g. a detail sheet)
+  const [saved, setSaved] = useState(values);
+  const [draft, setDraft] = useState<CustomFieldDraft>({});
+
+  useEffect(() => {
+    setSaved(values);
+    setDraft({ ...(values || {}) });
+  }, [values]);
+
+  const changes = changedCustomFields(saved, draft);
+  const dirty = Object.keys(changes).length > 0;
+
+  const saveMutation = useMutation({
+    mutationFn: () => apiRequest("PUT", endpoint, { customFields: changes }),
+    onSuccess: (updated: { customFields?: Record<string, CustomFieldValue> | null }) => {
+      setSaved(updated?.customFields);
+      setDraft({ ...(updated?.customFields || {}) });
+      invalidateKeys.forEach((queryKey) => queryClient.invalidateQueries({ queryKey }));
+      toast({ title: "Saved" });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Could not save fields", description: err.message, variant: "destructive" });
+    },
+  });
+
+  if (definitions.length === 0) return null;
+
+  return (
+    <Card data-testid={`custom-fields-card-${entityType}`}>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <ListPlus className="h-4 w-4 text-muted-foreground" />
+          Additional Details
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <CustomFieldInputs
+          definitions={definitions}
+          values={draft}
+          onChange={(key, value) => setDraft((prev) => ({ ...prev, [key]: value }))}
+          disabled={saveMutation.isPending}
+        />
+        {dirty && (
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" size="sm" onClick={() => setDraft({ ...(saved || {}) })} disabled={saveMutation.isPending}>
+              Cancel
+            </Button>
+            <Button size="sm" onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+              {saveMutation.isPending && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+              Save
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
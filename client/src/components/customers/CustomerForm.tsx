@@ -23,6 +23,12 @@ import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Switch } from "@/components/ui/switch";
 import { Separator } from "@/components/ui/separator";
+import {
+  CustomFieldInputs,
+  changedCustomFields,
+  useCustomFieldDefinitions,
+  type CustomFieldDraft,
+} from "@/components/custom-fields/CustomFieldInputs";
 
 const customerSchema = z.object({
   businessId: z.number(),
@@ -55,6 +61,8 @@ export function CustomerForm({ customer, isEdit = false, onSuccess }: CustomerFo
   const [isSubmitting, setIsSubmitting] = useState(false);
   const { user } = useAuth();
   const businessId = user?.businessId ?? undefined;
+  const { definitions: customFieldDefinitions } = useCustomFieldDefinitions("customer");
+  const [customFields, setCustomFields] = useState<CustomFieldDraft>({ ...(customer?.customFields || {}) });
 
   const form = useForm<CustomerFormData>({
     resolver: zodResolver(customerSchema),
@@ -87,10 +95,10 @@ export function CustomerForm({ customer, isEdit = false, onSuccess }: CustomerFo
       });
       navigate("/customers");
     },
-    onError: (error) => {
+    onError: (error: Error) => {
       toast({
         title: "Error",
-        description: "Failed to create customer. Please try again.",
+        description: error.message || "Failed to create customer. Please try again.",
         variant: "destructive",
       });
       console.error("Error creating customer:", error);
@@ -119,10 +127,10 @@ export function CustomerForm({ customer, isEdit = false, onSuccess }: CustomerFo
         navigate("/customers");
       }
     },
-    onError: (error) => {
+    onError: (error: Error) => {
       toast({
         title: "Error",
-        description: "Failed to update customer. Please try again.",
+        description: error.message || "Failed to update customer. Please try again.",
         variant: "destructive",
       });
       console.error("Error updating customer:", error);
@@ -141,6 +149,10 @@ export function CustomerForm({ customer, isEdit = false, onSuccess }: CustomerFo
       if (data.marketingOptIn && !customer?.marketingOptIn) {
         submitData.marketingOptInDate = new Date().toISOString();
       }
+      const customFieldChanges = changedCustomFields(customer?.customFields, customFields);
+      if (Object.keys(customFieldChanges).length > 0) {
+        submitData.customFields = customFieldChanges;
+      }
       if (isEdit) {
         await updateMutation.mutateAsync(submitData);
       } else {
@@ -323,6 +335,19 @@ export function CustomerForm({ customer, isEdit = false, onSuccess }: CustomerFo
                 </FormItem>
               )}
             />
+            {customFieldDefinitions.length > 0 && (
+              <>
+                <Separator />
+                <div className="space-y-4">
+                  <h3 className="text-sm font-medium">Additional Details</h3>
+                  <CustomFieldInputs
+                    definitions={customFieldDefinitions}
+                    values={customFields}
+                    onChange={(key, value) => setCustomFields((prev) => ({ ...prev, [key]: value }))}
+                  />
+                </div>
+              </>
+            )}
             <Separator />
             <div className="space-y-4">
               <h3 className="text-sm font-medium">SMS Preferences</h3>
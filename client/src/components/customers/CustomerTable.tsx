@@ -27,6 +27,7 @@ import { SkeletonTable } from "@/components/ui/skeleton-loader";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/api";
 import { useToast } from "@/hooks/use-toast";
+import { useCustomFieldDefinitions } from "@/components/custom-fields/CustomFieldInputs";
 
 import {
   AlertDialog,
@@ -116,6 +117,10 @@ export function CustomerTable({ businessId }: { businessId?: number | null }) {
   const [sortField, setSortField] = useState<SortField>("created_at");
   const [sortDir, setSortDir] = useState<SortDir>("desc");
   const [showArchived, setShowArchived] = useState(false);
+  const { definitions: customFieldDefs } = useCustomFieldDefinitions("customer");
+  const [fieldFilterKey, setFieldFilterKey] = useState("");
+  const [fieldFilterValue, setFieldFilterValue] = useState("");
+  const [debouncedFieldFilterValue, setDebouncedFieldFilterValue] = useState("");
   const debounceRef = useRef<ReturnType<typeof setTimeout>>();
 
   // Debounce search input
@@ -123,18 +128,24 @@ export function CustomerTable({ businessId }: { businessId?: number | null }) {
     if (debounceRef.current) clearTimeout(debounceRef.current);
     debounceRef.current = setTimeout(() => {
       setDebouncedSearch(search);
+      setDebouncedFieldFilterValue(fieldFilterValue);
     }, 400);
     return () => {
       if (debounceRef.current) clearTimeout(debounceRef.current);
     };
-  }, [search]);
+  }, [search, fieldFilterValue]);
+
+  const fieldFilter = fieldFilterKey && debouncedFieldFilterValue.trim()
+    ? { key: fieldFilterKey, value: debouncedFieldFilterValue.trim() }
+    : null;
 
   const { data: customers = [], isLoading } = useQuery<any[]>({
-    queryKey: ['/api/customers/enriched', { businessId, search: debouncedSearch, archived: showArchived }],
+    queryKey: ['/api/customers/enriched', { businessId, search: debouncedSearch, archived: showArchived, fieldFilter }],
     queryFn: async () => {
       const params = new URLSearchParams();
       if (debouncedSearch) params.set('search', debouncedSearch);
       if (showArchived) params.set('archived', 'true');
+      if (fieldFilter) params.set(`cf_${fieldFilter.key}`, fieldFilter.value);
       const res = await fetch(`/api/customers/enriched?${params.toString()}`, { credentials: 'include' });
       if (!res.ok) throw new Error('Failed to fetch customers');
       return res.json();
@@ -535,6 +546,32 @@ export function CustomerTable({ businessId }: { businessId?: number | null }) {
             )}
           </button>
         ))}
+        {customFieldDefs.length > 0 && (
+          <div className="ml-auto flex items-center gap-1.5">
+            <span>Field:</span>
+            <select
+              className="rounded border border-input bg-background px-1.5 py-0.5 text-xs"
+              value={fieldFilterKey}
+              onChange={(e) => {
+                setFieldFilterKey(e.target.value);
+                setFieldFilterValue("");
+              }}
+            >
+              <option value="">Any</option>
+              {customFieldDefs.map(def => (
+                <option key={def.key} value={def.key}>{def.label}</option>
+              ))}
+            </select>
+            {fieldFilterKey && (
+              <Input
+                value={fieldFilterValue}
+                onChange={(e) => setFieldFilterValue(e.target.value)}
+                placeholder="Value"
+                className="h-6 w-32 text-xs"
+              />
+            )}
+          </div>
+        )}
       </div>
 
       {isLoading ? (
@@ -7,6 +7,7 @@ import { useQuery } from "@tanstack/react-query";
 import { formatTime, formatDate } from "@/lib/utils";
 import { Skeleton } from "@/components/ui/skeleton-loader";
 import { Link } from "wouter";
+import { useLiveRefetchInterval } from "@/lib/realtime";
 
 interface ScheduleCardProps {
   businessId?: number | null;
@@ -14,6 +15,7 @@ interface ScheduleCardProps {
 
 export function ScheduleCard({ businessId }: ScheduleCardProps) {
   const [currentDate, setCurrentDate] = useState(new Date());
+  const pollInterval = useLiveRefetchInterval(10000);
 
   // Create proper ISO date strings for API filtering
   const getStartOfDay = (date: Date) => {
@@ -35,7 +37,7 @@ export function ScheduleCard({ businessId }: ScheduleCardProps) {
       endDate: getEndOfDay(currentDate)
     }],
     enabled: !!businessId,
-    refetchInterval: 10000,
+    refetchInterval: pollInterval,
     staleTime: 5000,
   });
 
@@ -0,0 +1,383 @@
+import { useState, type DragEvent } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { AlertCircle, Car, Clock, GripVertical, Loader2, MapPinOff, RotateCcw, Route, Save, Wand2 } from "lucide-react";
+
+interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+interface PlanJob {
+  jobId: number;
+  title: string;
+  customerName: string;
+  status: string | null;
+  location: LatLng | null;
+  durationMinutes: number;
+}
+
+interface RouteStop {
+  jobId: number;
+  title: string;
+  customerName: string;
+  status: string | null;
+  location: LatLng | null;
+  order: number;
+  driveMinutes: number | null;
+  driveKm: number | null;
+  arrival: string;
+  departure: string;
+  waitMinutes: number;
+  durationMinutes: number;
+  overtime: boolean;
+}
+
+interface TechRoute {
+  staffId: number;
+  name: string;
+  isOff: boolean;
+  shiftStart: string;
+  shiftEnd: string;
+  startSource: "gps" | "first_stop";
+  stops: RouteStop[];
+  totalDriveMinutes: number;
+  totalDriveKm: number;
+  finish: string;
+  overtimeMinutes: number;
+}
+
+interface DayPlan {
+  date: string;
+  provider: string;
+  routes: TechRoute[];
+  unassigned: PlanJob[];
+}
+
+interface PlanAssignment {
+  staffId: number | null;
+  jobIds: number[];
+  optimize?: boolean;
+}
+
+function todayString() {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}-${String(now.getDate()).padStart(2, "0")}`;
+}
+
+function formatClock(clock: string) {
+  const [hours, minutes] = clock.split(":").map(Number);
+  const suffix = hours % 24 >= 12 ? "PM" : "AM";
+  return `${hours % 12 === 0 ? 12 : hours % 12}:${String(minutes).padStart(2, "0")} ${suffix}`;
+}
+
+function currentAssignments(plan: DayPlan): PlanAssignment[] {
+  return [
+    { staffId: null, jobIds: plan.unassigned.map((job) => job.jobId) },
+    ...plan.routes.map((route) => ({ staffId: route.staffId, jobIds: route.stops.map((stop) => stop.jobId) })),
+  ];
+}
+
+/** Current assignments of a plan, with one job moved in front of another (or to the end). */
+function moveInAssignments(
+  plan: DayPlan,
+  jobId: number,
+  toStaffId: number | null,
+  beforeJobId: number | null,
+): PlanAssignment[] {
+  const assignments = currentAssignments(plan);
+  for (const assignment of assignments) {
+    assignment.jobIds = assignment.jobIds.filter((id) => id !== jobId);
+  }
+  const target = assignments.find((assignment) => assignment.staffId === toStaffId);
+  if (target) {
+    const index = beforeJobId !== null ? target.jobIds.indexOf(beforeJobId) : -1;
+    target.jobIds.splice(index >= 0 ? index : target.jobIds.length, 0, jobId);
+  }
+  return assignments;
+}
+
+/**
+ * Day planner — proposed stop order and ETAs per tech for one day. Jobs can
+ * be dragged between techs (or back to Unassigned); every change is sent to
+ * the server to recompute drive times, and nothing is saved until "Apply".
+ */
+export function DayPlanner() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [date, setDate] = useState(todayString);
+  const [draft, setDraft] = useState<DayPlan | null>(null);
+  const [dragJobId, setDragJobId] = useState<number | null>(null);
+  const [dropTarget, setDropTarget] = useState<number | "unassigned" | null>(null);
+
+  const { data, isLoading, error, refetch, isFetching } = useQuery<DayPlan>({
+    queryKey: ["/api/dispatch/plan", date],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/dispatch/plan?date=${date}`);
+      return res.json();
+    },
+    retry: false,
+  });
+
+  const plan = draft ?? data;
+
+  const previewMutation = useMutation({
+    mutationFn: async (assignments: PlanAssignment[]) => {
+      const res = await apiRequest("POST", "/api/dispatch/plan/preview", { date, assignments });
+      return res.json() as Promise<DayPlan>;
+    },
+    onSuccess: (next) => setDraft(next),
+    onError: (err: any) => {
+      toast({ title: "Could not update route", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: async (assignments: PlanAssignment[]) => {
+      const res = await apiRequest("POST", "/api/dispatch/plan/apply", { date, assignments });
+      return res.json() as Promise<DayPlan>;
+    },
+    onSuccess: (saved) => {
+      setDraft(null);
+      queryClient.setQueryData(["/api/dispatch/plan", date], saved);
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
+      toast({ title: "Plan applied", description: "Techs and stop order saved to the day's jobs." });
+    },
+    onError: (err: any) => {
+      toast({ title: "Could not apply plan", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const busy = previewMutation.isPending || applyMutation.isPending;
+
+  const handleDrop = (toStaffId: number | null, beforeJobId: number | null) => {
+    const jobId = dragJobId;
+    setDragJobId(null);
+    setDropTarget(null);
+    if (!plan || jobId === null || jobId === beforeJobId) return;
+    previewMutation.mutate(moveInAssignments(plan, jobId, toStaffId, beforeJobId));
+  };
+
+  const optimizeTech = (staffId: number) => {
+    if (!plan) return;
+    previewMutation.mutate(currentAssignments(plan).map((assignment) =>
+      assignment.staffId === staffId ? { ...assignment, optimize: true } : assignment,
+    ));
+  };
+
+  const changeDate = (next: string) => {
+    setDraft(null);
+    setDate(next);
+  };
+
+  const columnProps = (key: number | "unassigned", staffId: number | null) => ({
+    onDragOver: (e: DragEvent) => {
+      e.preventDefault();
+      setDropTarget(key);
+    },
+    onDragLeave: () => setDropTarget((current) => (current === key ? null : current)),
+    onDrop: (e: DragEvent) => {
+      e.preventDefault();
+      handleDrop(staffId, null);
+    },
+  });
+
+  const cardProps = (jobId: number, staffId: number | null) => ({
+    draggable: !busy,
+    onDragStart: (e: DragEvent) => {
+      e.dataTransfer.effectAllowed = "move";
+      setDragJobId(jobId);
+    },
+    onDragEnd: () => {
+      setDragJobId(null);
+      setDropTarget(null);
+    },
+    onDrop: (e: DragEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      handleDrop(staffId, jobId);
+    },
+  });
+
+  return (
+    <div className="flex flex-col gap-3 flex-1 min-h-0">
+      <div className="flex items-center justify-between flex-wrap gap-2">
+        <div className="flex items-center gap-2">
+          <Input
+            type="date"
+            value={date}
+            onChange={(e) => e.target.value && changeDate(e.target.value)}
+            className="w-44"
+          />
+          {(isFetching || previewMutation.isPending) && (
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          )}
+          {draft && <Badge variant="secondary">Unsaved changes</Badge>}
+        </div>
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => { setDraft(null); refetch(); }}
+            disabled={busy}
+          >
+            <RotateCcw className="mr-1.5 h-4 w-4" />
+            Re-plan
+          </Button>
+          <Button
+            size="sm"
+            onClick={() => plan && applyMutation.mutate(currentAssignments(plan))}
+            disabled={!plan || busy}
+          >
+            {applyMutation.isPending ? <Loader2 className="mr-1.5 h-4 w-4 animate-spin" /> : <Save className="mr-1.5 h-4 w-4" />}
+            Apply plan
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <Card className="border-amber-200 bg-amber-50">
+          <CardContent className="p-3 flex items-center gap-2">
+            <AlertCircle className="h-4 w-4 text-amber-600 flex-none" />
+            <p className="text-sm text-amber-900">{(error as Error).message || "Could not load the day plan."}</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {isLoading || !plan ? (
+        !error && (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        )
+      ) : (
+        <div className="flex-1 flex gap-3 overflow-x-auto pb-2 min-h-0">
+          {/* Unassigned pool */}
+          <Card
+            className={`w-72 flex-none flex flex-col ${dropTarget === "unassigned" ? "ring-2 ring-primary" : ""}`}
+            {...columnProps("unassigned", null)}
+          >
+            <CardHeader className="py-3">
+              <CardTitle className="text-base">Unassigned</CardTitle>
+              <p className="text-xs text-muted-foreground">
+                {plan.unassigned.length} job{plan.unassigned.length === 1 ? "" : "s"}
+              </p>
+            </CardHeader>
+            <CardContent className="space-y-2 px-3 pb-3 overflow-y-auto">
+              {plan.unassigned.length === 0 && (
+                <p className="text-xs text-muted-foreground text-center py-4">Every job has a tech.</p>
+              )}
+              {plan.unassigned.map((job) => (
+                <div
+                  key={job.jobId}
+                  className="rounded-md border bg-background p-2 text-sm cursor-grab"
+                  {...cardProps(job.jobId, null)}
+                >
+                  <div className="flex items-center gap-1 font-medium">
+                    <GripVertical className="h-3 w-3 text-muted-foreground flex-none" />
+                    <span className="truncate">{job.title}</span>
+                  </div>
+                  <div className="text-xs text-muted-foreground truncate">{job.customerName}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {job.durationMinutes} min
+                    {!job.location && " · no location"}
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          {/* One column per tech */}
+          {plan.routes.map((route) => (
+            <Card
+              key={route.staffId}
+              className={`w-80 flex-none flex flex-col ${dropTarget === route.staffId ? "ring-2 ring-primary" : ""}`}
+              {...columnProps(route.staffId, route.staffId)}
+            >
+              <CardHeader className="py-3 space-y-1">
+                <div className="flex items-center justify-between gap-2">
+                  <CardTitle className="text-base truncate">{route.name}</CardTitle>
+                  {route.stops.length > 1 && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-7 px-2"
+                      onClick={() => optimizeTech(route.staffId)}
+                      disabled={busy}
+                      title="Re-optimize stop order"
+                    >
+                      <Wand2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+                <div className="flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+                  <Clock className="h-3 w-3" />
+                  {formatClock(route.shiftStart)}–{formatClock(route.shiftEnd)}
+                  {route.isOff && <Badge variant="outline" className="ml-1">Off today</Badge>}
+                </div>
+                {route.stops.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+                    <Car className="h-3 w-3" />
+                    {route.totalDriveMinutes} min · {route.totalDriveKm} km · done {formatClock(route.finish)}
+                    {route.overtimeMinutes > 0 && (
+                      <Badge variant="destructive" className="ml-1">+{route.overtimeMinutes} min over</Badge>
+                    )}
+                  </div>
+                )}
+                {route.stops.length > 0 && route.startSource === "first_stop" && (
+                  <p className="text-xs text-muted-foreground">No recent GPS — route starts at the first stop.</p>
+                )}
+              </CardHeader>
+              <CardContent className="space-y-2 px-3 pb-3 overflow-y-auto">
+                {route.stops.length === 0 && (
+                  <p className="text-xs text-muted-foreground text-center py-4">Drop jobs here.</p>
+                )}
+                {route.stops.map((stop) => (
+                  <div key={stop.jobId}>
+                    {stop.driveMinutes !== null && stop.driveMinutes > 0 && (
+                      <div className="flex items-center gap-1 pl-2 pb-1 text-xs text-muted-foreground">
+                        <Route className="h-3 w-3" />
+                        {stop.driveMinutes} min · {stop.driveKm} km
+                      </div>
+                    )}
+                    <div
+                      className={`rounded-md border bg-background p-2 text-sm cursor-grab ${
+                        stop.overtime ? "border-red-300 bg-red-50" : ""
+                      }`}
+                      {...cardProps(stop.jobId, route.staffId)}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <div className="flex items-center gap-1 font-medium min-w-0">
+                          <GripVertical className="h-3 w-3 text-muted-foreground flex-none" />
+                          <span className="text-muted-foreground">{stop.order}.</span>
+                          <span className="truncate">{stop.title}</span>
+                        </div>
+                        <span className="text-xs font-medium whitespace-nowrap">{formatClock(stop.arrival)}</span>
+                      </div>
+                      <div className="text-xs text-muted-foreground truncate">{stop.customerName}</div>
+                      <div className="flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+                        {stop.durationMinutes} min on site · leaves {formatClock(stop.departure)}
+                        {stop.waitMinutes > 0 && ` · waits ${stop.waitMinutes} min`}
+                      </div>
+                      {!stop.location && (
+                        <div className="flex items-center gap-1 text-xs text-amber-700">
+                          <MapPinOff className="h-3 w-3" />
+                          No location — drive time not counted
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
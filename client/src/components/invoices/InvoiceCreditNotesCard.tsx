@@ -0,0 +1,323 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency, formatDate } from "@/lib/utils";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Download, FileMinus, Plus, Trash2, XCircle } from "lucide-react";
+
+interface CreditNote {
+  id: number;
+  creditNoteNumber: string;
+  total: string;
+  reason: string | null;
+  status: "issued" | "void";
+  createdAt: string;
+  items: Array<{ id: number; description: string; quantity: number; unitPrice: string; amount: string }>;
+}
+
+interface InvoiceItem {
+  id: number;
+  description: string;
+  quantity: number;
+  unitPrice: string | number;
+}
+
+interface CreditLine {
+  invoiceItemId: number | null;
+  description: string;
+  quantity: string;
+  unitPrice: string;
+}
+
+/**
+ * Credit notes issued against an invoice, with a dialog to issue a new one.
+ * Lines are entered as positive amounts; the server stores them negative.
+ */
+export function InvoiceCreditNotesCard({
+  invoiceId,
+  invoiceItems,
+  canIssue,
+}: {
+  invoiceId: number;
+  invoiceItems: InvoiceItem[];
+  canIssue: boolean;
+}) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const notesKey = ["/api/invoices", invoiceId, "credit-notes"];
+
+  const [open, setOpen] = useState(false);
+  const [lines, setLines] = useState<CreditLine[]>([]);
+  const [tax, setTax] = useState("");
+  const [reason, setReason] = useState("");
+  const [voidTarget, setVoidTarget] = useState<CreditNote | null>(null);
+
+  const { data: notes } = useQuery<CreditNote[]>({
+    queryKey: notesKey,
+    queryFn: async () => {
+      const res = await fetch(`/api/invoices/${invoiceId}/credit-notes`);
+      if (!res.ok) throw new Error("Failed to fetch credit notes");
+      return res.json();
+    },
+    enabled: !!invoiceId,
+  });
+
+  const refreshInvoice = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/invoices", invoiceId] });
+  };
+
+  const lineTotal = (line: CreditLine) => (parseFloat(line.quantity) || 0) * (parseFloat(line.unitPrice) || 0);
+  const creditTotal = lines.reduce((sum, line) => sum + lineTotal(line), 0) + (parseFloat(tax) || 0);
+
+  const issueMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/invoices/${invoiceId}/credit-notes`, {
+        reason: reason || null,
+        tax: parseFloat(tax) || 0,
+        items: lines.map((line) => ({
+          invoiceItemId: line.invoiceItemId,
+          description: line.description,
+          quantity: parseInt(line.quantity) || 1,
+          unitPrice: parseFloat(line.unitPrice),
+        })),
+      });
+      return res.json();
+    },
+    onSuccess: (data) => {
+      refreshInvoice();
+      setOpen(false);
+      toast({ title: "Credit note issued", description: `${data.creditNoteNumber} applied to this invoice` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const voidMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("POST", `/api/credit-notes/${id}/void`);
+      return res.json();
+    },
+    onSuccess: () => {
+      refreshInvoice();
+      setVoidTarget(null);
+      toast({ title: "Credit note voided", description: "The invoice balance has been restored" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openIssue = () => {
+    setLines(
+      invoiceItems.length > 0
+        ? invoiceItems.map((item) => ({
+            invoiceItemId: item.id,
+            description: item.description,
+            quantity: String(item.quantity || 1),
+            unitPrice: String(item.unitPrice),
+          }))
+        : [{ invoiceItemId: null, description: "", quantity: "1", unitPrice: "" }],
+    );
+    setTax("");
+    setReason("");
+    setOpen(true);
+  };
+
+  const updateLine = (index: number, patch: Partial<CreditLine>) => {
+    setLines((prev) => prev.map((line, i) => (i === index ? { ...line, ...patch } : line)));
+  };
+
+  const linesValid = lines.length > 0 && lines.every((line) => line.description.trim() && lineTotal(line) > 0);
+
+  if (!canIssue && (!notes || notes.length === 0)) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center">
+          <FileMinus className="mr-2 h-5 w-5" />
+          Credit Notes
+        </CardTitle>
+        {canIssue && (
+          <Button size="sm" variant="outline" onClick={openIssue}>
+            <Plus className="h-4 w-4 mr-2" />
+            Issue Credit Note
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {!notes || notes.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No credit notes issued.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Number</TableHead>
+                <TableHead>Date</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {notes.map((note) => (
+                <TableRow key={note.id}>
+                  <TableCell className="font-medium">{note.creditNoteNumber}</TableCell>
+                  <TableCell>{formatDate(note.createdAt)}</TableCell>
+                  <TableCell className="text-muted-foreground">{note.reason || "—"}</TableCell>
+                  <TableCell>
+                    {note.status === "void"
+                      ? <Badge variant="outline">Void</Badge>
+                      : <Badge className="bg-purple-500 hover:bg-purple-600">Issued</Badge>}
+                  </TableCell>
+                  <TableCell className="text-right font-medium">{formatCurrency(parseFloat(note.total))}</TableCell>
+                  <TableCell className="text-right">
+                    <Button size="sm" variant="ghost" asChild>
+                      <a href={`/api/credit-notes/${note.id}/pdf`} aria-label={`Download ${note.creditNoteNumber}`}>
+                        <Download className="h-4 w-4" />
+                      </a>
+                    </Button>
+                    {note.status === "issued" && (
+                      <Button size="sm" variant="ghost" onClick={() => setVoidTarget(note)}>
+                        <XCircle className="h-4 w-4 mr-1" />
+                        Void
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      {/* Issue Credit Note Dialog */}
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Issue Credit Note</DialogTitle>
+            <DialogDescription>
+              Enter the amounts to credit. The credit note gets its own number and reduces the balance on this invoice.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            {lines.map((line, index) => (
+              <div key={index} className="grid grid-cols-12 gap-2 items-end">
+                <div className="col-span-6 space-y-1">
+                  {index === 0 && <Label>Description</Label>}
+                  <Input value={line.description} onChange={(e) => updateLine(index, { description: e.target.value })} />
+                </div>
+                <div className="col-span-2 space-y-1">
+                  {index === 0 && <Label>Qty</Label>}
+                  <Input
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={line.quantity}
+                    onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                  />
+                </div>
+                <div className="col-span-3 space-y-1">
+                  {index === 0 && <Label>Unit Credit</Label>}
+                  <Input
+                    type="number"
+                    min="0.01"
+                    step="0.01"
+                    value={line.unitPrice}
+                    onChange={(e) => updateLine(index, { unitPrice: e.target.value })}
+                  />
+                </div>
+                <div className="col-span-1">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setLines((prev) => prev.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setLines((prev) => [...prev, { invoiceItemId: null, description: "", quantity: "1", unitPrice: "" }])}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Line
+            </Button>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="credit-tax">Tax credited</Label>
+                <Input id="credit-tax" type="number" min="0" step="0.01" value={tax} onChange={(e) => setTax(e.target.value)} />
+              </div>
+              <div className="flex items-end justify-end text-lg font-semibold">
+                Credit total: {formatCurrency(creditTotal)}
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="credit-reason">Reason</Label>
+              <Textarea id="credit-reason" rows={2} value={reason} onChange={(e) => setReason(e.target.value)} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+            <Button onClick={() => issueMutation.mutate()} disabled={issueMutation.isPending || !linesValid}>
+              {issueMutation.isPending ? "Issuing..." : "Issue Credit Note"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Void Credit Note Dialog */}
+      <Dialog open={!!voidTarget} onOpenChange={(isOpen) => !isOpen && setVoidTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Void Credit Note</DialogTitle>
+            <DialogDescription>
+              Voiding {voidTarget?.creditNoteNumber} adds its amount back to the invoice balance. The credit note
+              keeps its number and stays on record.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setVoidTarget(null)}>Cancel</Button>
+            <Button
+              variant="destructive"
+              onClick={() => voidTarget && voidMutation.mutate(voidTarget.id)}
+              disabled={voidMutation.isPending}
+            >
+              {voidMutation.isPending ? "Voiding..." : "Void Credit Note"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -11,6 +11,7 @@ import { useLocation } from "wouter";
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -60,6 +61,7 @@ const invoiceSchema = z.object({
     required_error: "Due date is required",
   }),
   status: z.string().min(1, "Status is required"),
+  minimumPaymentAmount: z.string().optional(),
   items: z.array(invoiceItemSchema).min(1, "At least one item is required"),
 });
 
@@ -138,6 +140,7 @@ export function InvoiceForm({ invoice, isEdit = false }: InvoiceFormProps) {
         ? new Date(invoice.dueDate) 
         : new Date(Date.now() + 14 * 24 * 60 * 60 * 1000), // 14 days from now
       status: invoice?.status || "pending",
+      minimumPaymentAmount: invoice?.minimumPaymentAmount ?? "",
       items: generateDefaultItems(),
     },
   });
@@ -227,6 +230,8 @@ export function InvoiceForm({ invoice, isEdit = false }: InvoiceFormProps) {
       ...data,
       customerId: parseInt(data.customerId),
       jobId: data.jobId && data.jobId !== "0" ? parseInt(data.jobId) : null,
+      // Blank = customer must pay the full balance online
+      minimumPaymentAmount: data.minimumPaymentAmount ? parseFloat(data.minimumPaymentAmount) : null,
     };
     
     const itemsData = data.items.map(item => ({
@@ -482,6 +487,24 @@ export function InvoiceForm({ invoice, isEdit = false }: InvoiceFormProps) {
                   </FormItem>
                 )}
               />
+
+              {/* Minimum online payment */}
+              <FormField
+                control={form.control}
+                name="minimumPaymentAmount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Minimum Online Payment</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.01" min="0" placeholder="Full balance" {...field} />
+                    </FormControl>
+                    <FormDescription>
+                      Let customers pay part of the invoice online, down to this amount. Leave blank to require the full balance.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
             </div>
             
             {/* Invoice Items */}
@@ -0,0 +1,315 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency, formatDate } from "@/lib/utils";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Plus, RotateCcw, Receipt } from "lucide-react";
+
+interface LedgerPayment {
+  id: number;
+  amount: string;
+  refundedAmount: string | null;
+  method: "stripe" | "cash" | "check" | "manual";
+  status: "succeeded" | "partially_refunded" | "refunded";
+  isDeposit: boolean | null;
+  reference: string | null;
+  notes: string | null;
+  paidAt: string;
+}
+
+interface LedgerResponse {
+  amountPaid: number;
+  balanceDue: number;
+  payments: LedgerPayment[];
+}
+
+const METHOD_LABELS: Record<LedgerPayment["method"], string> = {
+  stripe: "Card (Stripe)",
+  cash: "Cash",
+  check: "Check",
+  manual: "Other",
+};
+
+const refundable = (p: LedgerPayment) =>
+  Math.round((parseFloat(p.amount) - parseFloat(p.refundedAmount || "0")) * 100) / 100;
+
+/**
+ * Payment history for an invoice — every payment and deposit applied to it,
+ * with dialogs to record an offline payment or refund an existing one.
+ */
+export function InvoicePaymentsCard({ invoiceId }: { invoiceId: number }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const ledgerKey = ["/api/invoices", invoiceId, "payments"];
+
+  const [recordOpen, setRecordOpen] = useState(false);
+  const [amount, setAmount] = useState("");
+  const [method, setMethod] = useState<"cash" | "check" | "manual">("cash");
+  const [reference, setReference] = useState("");
+  const [notes, setNotes] = useState("");
+
+  const [refundTarget, setRefundTarget] = useState<LedgerPayment | null>(null);
+  const [refundAmount, setRefundAmount] = useState("");
+  const [refundReason, setRefundReason] = useState("");
+
+  const { data: ledger } = useQuery<LedgerResponse>({
+    queryKey: ledgerKey,
+    queryFn: async () => {
+      const res = await fetch(`/api/invoices/${invoiceId}/payments`);
+      if (!res.ok) throw new Error("Failed to fetch payments");
+      return res.json();
+    },
+    enabled: !!invoiceId,
+  });
+
+  const refreshInvoice = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/invoices", invoiceId] });
+  };
+
+  const recordMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/invoices/${invoiceId}/payments`, {
+        amount: parseFloat(amount),
+        method,
+        reference: reference || null,
+        notes: notes || null,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      refreshInvoice();
+      setRecordOpen(false);
+      toast({ title: "Payment recorded", description: `${formatCurrency(parseFloat(amount))} applied to this invoice` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const refundMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/invoices/${invoiceId}/payments/${refundTarget!.id}/refund`, {
+        amount: parseFloat(refundAmount),
+        reason: refundReason || null,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      refreshInvoice();
+      setRefundTarget(null);
+      toast({ title: "Refund recorded", description: `${formatCurrency(parseFloat(refundAmount))} refunded` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Refund failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openRecord = () => {
+    setAmount(ledger ? ledger.balanceDue.toFixed(2) : "");
+    setMethod("cash");
+    setReference("");
+    setNotes("");
+    setRecordOpen(true);
+  };
+
+  const openRefund = (payment: LedgerPayment) => {
+    setRefundTarget(payment);
+    setRefundAmount(refundable(payment).toFixed(2));
+    setRefundReason("");
+  };
+
+  const statusBadge = (payment: LedgerPayment) => {
+    if (payment.status === "refunded") return <Badge variant="destructive">Refunded</Badge>;
+    if (payment.status === "partially_refunded") {
+      return <Badge variant="outline">Refunded {formatCurrency(parseFloat(payment.refundedAmount || "0"))}</Badge>;
+    }
+    return <Badge className="bg-green-500 hover:bg-green-600">Received</Badge>;
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center">
+          <Receipt className="mr-2 h-5 w-5" />
+          Payments
+        </CardTitle>
+        {ledger && ledger.balanceDue > 0 && (
+          <Button size="sm" variant="outline" onClick={openRecord}>
+            <Plus className="h-4 w-4 mr-2" />
+            Record Payment
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {!ledger || ledger.payments.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No payments recorded yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Method</TableHead>
+                <TableHead>Reference</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {ledger.payments.map((payment) => (
+                <TableRow key={payment.id}>
+                  <TableCell>{formatDate(payment.paidAt)}</TableCell>
+                  <TableCell>
+                    {METHOD_LABELS[payment.method] || payment.method}
+                    {payment.isDeposit && <span className="text-muted-foreground"> · deposit</span>}
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">{payment.reference || "—"}</TableCell>
+                  <TableCell>{statusBadge(payment)}</TableCell>
+                  <TableCell className="text-right font-medium">{formatCurrency(parseFloat(payment.amount))}</TableCell>
+                  <TableCell className="text-right">
+                    {refundable(payment) > 0 && (
+                      <Button size="sm" variant="ghost" onClick={() => openRefund(payment)}>
+                        <RotateCcw className="h-4 w-4 mr-1" />
+                        Refund
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      {/* Record Payment Dialog */}
+      <Dialog open={recordOpen} onOpenChange={setRecordOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Record Payment</DialogTitle>
+            <DialogDescription>
+              Record cash, check or other offline payments. Card payments are recorded automatically.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="payment-amount">Amount</Label>
+                <Input
+                  id="payment-amount"
+                  type="number"
+                  step="0.01"
+                  min="0.01"
+                  max={ledger?.balanceDue}
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Method</Label>
+                <Select value={method} onValueChange={(v) => setMethod(v as typeof method)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="cash">Cash</SelectItem>
+                    <SelectItem value="check">Check</SelectItem>
+                    <SelectItem value="manual">Other</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="payment-reference">{method === "check" ? "Check number" : "Reference"}</Label>
+              <Input id="payment-reference" value={reference} onChange={(e) => setReference(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="payment-notes">Notes</Label>
+              <Textarea id="payment-notes" rows={2} value={notes} onChange={(e) => setNotes(e.target.value)} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRecordOpen(false)}>Cancel</Button>
+            <Button
+              onClick={() => recordMutation.mutate()}
+              disabled={recordMutation.isPending || !(parseFloat(amount) > 0)}
+            >
+              {recordMutation.isPending ? "Saving..." : "Record Payment"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Refund Dialog */}
+      <Dialog open={!!refundTarget} onOpenChange={(open) => !open && setRefundTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Refund Payment</DialogTitle>
+            <DialogDescription>
+              {refundTarget?.method === "stripe"
+                ? "The refund is sent back to the customer's card through Stripe."
+                : "This records the refund only — return the money to the customer yourself."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label htmlFor="refund-amount">Amount</Label>
+              <Input
+                id="refund-amount"
+                type="number"
+                step="0.01"
+                min="0.01"
+                max={refundTarget ? refundable(refundTarget) : undefined}
+                value={refundAmount}
+                onChange={(e) => setRefundAmount(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="refund-reason">Reason</Label>
+              <Textarea id="refund-reason" rows={2} value={refundReason} onChange={(e) => setRefundReason(e.target.value)} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRefundTarget(null)}>Cancel</Button>
+            <Button
+              variant="destructive"
+              onClick={() => refundMutation.mutate()}
+              disabled={refundMutation.isPending || !(parseFloat(refundAmount) > 0)}
+            >
+              {refundMutation.isPending ? "Refunding..." : "Refund"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,341 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { JobForm, JobFormAnswer, JobFormField } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { SignaturePad } from "@/components/quotes/SignaturePad";
+import { useToast } from "@/hooks/use-toast";
+import { takeJobPhoto } from "@/lib/capacitor-camera";
+import { isLocalPhotoUrl, jobFormsQueryKey, localPhotoUrl, sendJobChange } from "@/lib/offline-sync";
+import { AlertTriangle, Camera, CheckCircle, ClipboardCheck, Loader2 } from "lucide-react";
+
+type Answers = Record<string, JobFormAnswer | null>;
+
+function isAnswered(field: JobFormField, value: JobFormAnswer | null | undefined): boolean {
+  if (value === undefined || value === null) return false;
+  if (field.type === "checkbox") return value === true;
+  if (field.type === "reading") return typeof value === "number";
+  if (field.type === "text" || field.type === "select") return typeof value === "string" && value.trim() !== "";
+  if (field.type === "photo") return typeof value === "object" && "url" in value && !!value.url;
+  return typeof value === "object" && "image" in value && !!value.image;
+}
+
+function isOutOfRange(field: JobFormField, value: JobFormAnswer | null | undefined): boolean {
+  if (field.type !== "reading" || typeof value !== "number") return false;
+  return (field.min != null && value < field.min) || (field.max != null && value > field.max);
+}
+
+/**
+ * Checklists attached to a job from the business's form templates. Techs
+ * save as they go and submit when done; forms marked "Required" must be
+ * submitted before the job can be completed. Read-only once the job closes.
+ * Answers and photos taken without signal are saved on the device and sync
+ * later (lib/offline-sync).
+ */
+export function JobChecklists({ jobId, jobStatus }: { jobId: number; jobStatus?: string | null }) {
+  const { data: forms = [], isLoading } = useQuery<JobForm[]>({ queryKey: jobFormsQueryKey(jobId) });
+  const locked = jobStatus === "completed" || jobStatus === "cancelled";
+
+  if (isLoading) {
+    return <div className="flex justify-center py-8"><Loader2 className="h-5 w-5 animate-spin text-muted-foreground" /></div>;
+  }
+  if (forms.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground py-6 text-center">
+        No checklists for this job. Owners can add form templates in Settings.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {forms.map(form => (
+        <ChecklistCard key={form.id} jobId={jobId} form={form} locked={locked} />
+      ))}
+    </div>
+  );
+}
+
+function ChecklistCard({ jobId, form, locked }: { jobId: number; form: JobForm; locked: boolean }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [answers, setAnswers] = useState<Answers>(form.answers || {});
+  const [dirty, setDirty] = useState(false);
+  const [uploadingField, setUploadingField] = useState<string | null>(null);
+  const submitted = form.status === "submitted";
+
+  // Pick up saves from another device unless we're mid-edit
+  useEffect(() => {
+    if (!dirty) setAnswers(form.answers || {});
+  }, [form.answers, dirty]);
+
+  const setAnswer = (fieldId: string, value: JobFormAnswer | null) => {
+    setAnswers(prev => ({ ...prev, [fieldId]: value }));
+    setDirty(true);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (submit: boolean) => {
+      // Signatures on file are kept server-side; only send newly drawn ones.
+      // Photos still on the device are set by their own queued upload.
+      const payload: Answers = { ...answers };
+      for (const field of form.fields) {
+        const value = payload[field.id];
+        if (field.type === "signature" && value && typeof value === "object" && "image" in value && (value.signedAt || !value.image)) {
+          delete payload[field.id];
+        }
+        if (field.type === "photo" && value && typeof value === "object" && "url" in value && isLocalPhotoUrl(value.url)) {
+          delete payload[field.id];
+        }
+      }
+      return sendJobChange(
+        { kind: "form-save", jobId, formId: form.id, answers: payload, submit },
+        { baseUpdatedAt: form.updatedAt },
+      );
+    },
+    networkMode: "always",
+    onSuccess: (result, submit) => {
+      setDirty(false);
+      if (result.queued) {
+        toast({ title: "Saved on this device", description: "It'll sync when you're back online." });
+        return;
+      }
+      const saved = result.data as JobForm & { outOfRange: string[] };
+      queryClient.invalidateQueries({ queryKey: jobFormsQueryKey(jobId) });
+      toast({
+        title: submit ? `${form.name} submitted` : "Checklist saved",
+        description: saved.outOfRange.length > 0 ? `Out of range: ${saved.outOfRange.join("; ")}` : undefined,
+      });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Could not save checklist", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const uploadPhoto = async (field: JobFormField) => {
+    try {
+      const captured = await takeJobPhoto();
+      if (!captured) return;
+      setUploadingField(field.id);
+      // Uploads and saves the answer in one go, or queues both without signal
+      const result = await sendJobChange({
+        kind: "form-photo", jobId, formId: form.id, fieldId: field.id, blob: captured.blob, filename: captured.filename,
+      });
+      const saved = result.queued ? null : (result.data as JobForm);
+      const photo = saved ? saved.answers?.[field.id] : { url: localPhotoUrl(captured.blob) };
+      // Already saved (or queued) on its own — don't mark the form dirty for it
+      setAnswers(prev => ({ ...prev, [field.id]: photo ?? null }));
+      if (saved) queryClient.invalidateQueries({ queryKey: jobFormsQueryKey(jobId) });
+    } catch (err: any) {
+      toast({ title: "Photo upload failed", description: err?.message, variant: "destructive" });
+    } finally {
+      setUploadingField(null);
+    }
+  };
+
+  const missing = form.fields.filter(field => field.required && !isAnswered(field, answers[field.id]));
+  const disabled = locked || saveMutation.isPending;
+
+  return (
+    <Card data-testid={`job-checklist-${form.id}`}>
+      <CardHeader className="pb-3 flex flex-row items-center justify-between gap-2">
+        <CardTitle className="text-base flex items-center gap-2">
+          <ClipboardCheck className="h-4 w-4" />
+          {form.name}
+        </CardTitle>
+        <div className="flex gap-2">
+          {form.requiredForCompletion && !submitted && <Badge variant="outline">Required to complete</Badge>}
+          {submitted ? (
+            <Badge className="bg-green-600 hover:bg-green-600"><CheckCircle className="h-3 w-3 mr-1" />Submitted</Badge>
+          ) : (
+            <Badge variant="secondary">In progress</Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {form.fields.map(field => {
+          const value = answers[field.id];
+          const label = (
+            <Label htmlFor={`form-${form.id}-${field.id}`} className="text-sm">
+              {field.label}
+              {field.required && <span className="text-red-500 ml-0.5">*</span>}
+            </Label>
+          );
+
+          switch (field.type) {
+            case "checkbox":
+              return (
+                <div key={field.id} className="flex items-center gap-3">
+                  <Checkbox
+                    id={`form-${form.id}-${field.id}`}
+                    checked={value === true}
+                    disabled={disabled}
+                    onCheckedChange={checked => setAnswer(field.id, checked === true)}
+                    className="h-5 w-5"
+                  />
+                  {label}
+                </div>
+              );
+            case "reading":
+              return (
+                <div key={field.id} className="space-y-1">
+                  {label}
+                  <div className="flex items-center gap-2">
+                    <Input
+                      id={`form-${form.id}-${field.id}`}
+                      type="number"
+                      inputMode="decimal"
+                      step="any"
+                      className={`max-w-[160px] ${isOutOfRange(field, value) ? "border-red-500" : ""}`}
+                      value={typeof value === "number" ? value : ""}
+                      disabled={disabled}
+                      onChange={e => setAnswer(field.id, e.target.value === "" ? null : Number(e.target.value))}
+                    />
+                    {field.unit && <span className="text-sm text-muted-foreground">{field.unit}</span>}
+                  </div>
+                  {isOutOfRange(field, value) && (
+                    <p className="text-xs text-red-600 flex items-center gap-1">
+                      <AlertTriangle className="h-3 w-3" />
+                      Outside the expected {field.min ?? "…"}–{field.max ?? "…"} {field.unit || ""}
+                    </p>
+                  )}
+                </div>
+              );
+            case "text":
+              return (
+                <div key={field.id} className="space-y-1">
+                  {label}
+                  <Textarea
+                    id={`form-${form.id}-${field.id}`}
+                    rows={2}
+                    value={typeof value === "string" ? value : ""}
+                    disabled={disabled}
+                    onChange={e => setAnswer(field.id, e.target.value)}
+                  />
+                </div>
+              );
+            case "select":
+              return (
+                <div key={field.id} className="space-y-1">
+                  {label}
+                  <Select
+                    value={typeof value === "string" ? value : undefined}
+                    onValueChange={option => setAnswer(field.id, option)}
+                    disabled={disabled}
+                  >
+                    <SelectTrigger id={`form-${form.id}-${field.id}`} className="max-w-xs">
+                      <SelectValue placeholder="Choose…" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(field.options || []).map(option => (
+                        <SelectItem key={option} value={option}>{option}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              );
+            case "photo": {
+              const url = value && typeof value === "object" && "url" in value ? value.url : null;
+              return (
+                <div key={field.id} className="space-y-1">
+                  {label}
+                  <div className="flex items-center gap-3">
+                    {url && <img src={url} alt={field.label} className="h-16 w-16 rounded object-cover border" />}
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="outline"
+                      disabled={disabled || uploadingField === field.id}
+                      onClick={() => uploadPhoto(field)}
+                    >
+                      {uploadingField === field.id
+                        ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        : <Camera className="h-4 w-4 mr-2" />}
+                      {url ? "Retake" : "Add photo"}
+                    </Button>
+                  </div>
+                </div>
+              );
+            }
+            case "signature": {
+              const signature = value && typeof value === "object" && "image" in value ? value : null;
+              return (
+                <div key={field.id} className="space-y-2">
+                  {label}
+                  {signature?.signedAt ? (
+                    <div className="space-y-1">
+                      <img src={signature.image} alt="Signature" className="h-20 rounded border bg-white" />
+                      <p className="text-xs text-muted-foreground">
+                        {signature.signerName ? `Signed by ${signature.signerName}` : "Signed"}
+                        {" · "}{new Date(signature.signedAt).toLocaleString()}
+                      </p>
+                      {!locked && (
+                        <Button type="button" size="sm" variant="ghost" onClick={() => setAnswer(field.id, null)}>
+                          Sign again
+                        </Button>
+                      )}
+                    </div>
+                  ) : (
+                    <>
+                      <Input
+                        placeholder="Signer's name"
+                        className="max-w-xs"
+                        value={signature?.signerName || ""}
+                        disabled={disabled}
+                        onChange={e => setAnswer(field.id, { image: signature?.image || "", signerName: e.target.value, signedAt: "" })}
+                      />
+                      <SignaturePad
+                        disabled={disabled}
+                        height={140}
+                        onChange={image => setAnswer(
+                          field.id,
+                          image ? { image, signerName: signature?.signerName ?? null, signedAt: "" } : null,
+                        )}
+                      />
+                    </>
+                  )}
+                </div>
+              );
+            }
+          }
+        })}
+
+        {!locked && (
+          <div className="flex flex-wrap items-center justify-end gap-2 pt-2 border-t">
+            {missing.length > 0 && (
+              <span className="text-xs text-muted-foreground mr-auto">
+                {missing.length} required {missing.length === 1 ? "field" : "fields"} left
+              </span>
+            )}
+            {!submitted && (
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                disabled={disabled || !dirty}
+                onClick={() => saveMutation.mutate(false)}
+              >
+                Save
+              </Button>
+            )}
+            <Button
+              type="button"
+              size="sm"
+              disabled={disabled || missing.length > 0 || (submitted && !dirty)}
+              onClick={() => saveMutation.mutate(true)}
+            >
+              {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {submitted ? "Save changes" : "Submit"}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
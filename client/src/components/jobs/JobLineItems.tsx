@@ -1,7 +1,7 @@
 import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/api";
+import { jobLineItemsQueryKey, newTempLineItemId, sendJobChange, type SendResult } from "@/lib/offline-sync";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import {
@@ -31,7 +31,7 @@ import {
 import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Plus, Trash2, Edit2, DollarSign, Package, Wrench, Clock } from "lucide-react";
+import { Plus, Trash2, Edit2, DollarSign, Package, Wrench, Clock, CloudOff } from "lucide-react";
 
 interface JobLineItem {
   id: number;
@@ -43,6 +43,7 @@ interface JobLineItem {
   amount: number;
   taxable: boolean;
   createdAt: string;
+  updatedAt?: string | null;
 }
 
 interface JobLineItemsProps {
@@ -74,17 +75,28 @@ export function JobLineItems({ jobId, readOnly = false }: JobLineItemsProps) {
 
   // Fetch line items
   const { data: lineItems = [], isLoading } = useQuery<JobLineItem[]>({
-    queryKey: [`/api/jobs/${jobId}/line-items`],
+    queryKey: jobLineItemsQueryKey(jobId),
     enabled: !!jobId,
   });
 
+  // Changes go through the offline queue — without signal they're saved on
+  // the device and shown right away
+  const onSaved = (result: SendResult, description: string) => {
+    if (result.queued) {
+      toast({ title: "Saved on this device", description: "It'll sync when you're back online." });
+      return;
+    }
+    queryClient.invalidateQueries({ queryKey: jobLineItemsQueryKey(jobId) });
+    toast({ title: "Success", description });
+  };
+
   // Create mutation
   const createMutation = useMutation({
     mutationFn: (data: typeof formData) =>
-      apiRequest("POST", `/api/jobs/${jobId}/line-items`, data),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: [`/api/jobs/${jobId}/line-items`] });
-      toast({ title: "Success", description: "Line item added" });
+      sendJobChange({ kind: "line-item-create", jobId, tempId: newTempLineItemId(), data }),
+    networkMode: "always",
+    onSuccess: (result) => {
+      onSaved(result, "Line item added");
       resetForm();
       setIsDialogOpen(false);
     },
@@ -95,11 +107,11 @@ export function JobLineItems({ jobId, readOnly = false }: JobLineItemsProps) {
 
   // Update mutation
   const updateMutation = useMutation({
-    mutationFn: (data: typeof formData & { id: number }) =>
-      apiRequest("PUT", `/api/jobs/${jobId}/line-items/${data.id}`, data),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: [`/api/jobs/${jobId}/line-items`] });
-      toast({ title: "Success", description: "Line item updated" });
+    mutationFn: ({ item, data }: { item: JobLineItem; data: typeof formData }) =>
+      sendJobChange({ kind: "line-item-update", jobId, lineItemId: item.id, data }, { baseUpdatedAt: item.updatedAt }),
+    networkMode: "always",
+    onSuccess: (result) => {
+      onSaved(result, "Line item updated");
       resetForm();
       setIsDialogOpen(false);
     },
@@ -110,12 +122,10 @@ export function JobLineItems({ jobId, readOnly = false }: JobLineItemsProps) {
 
   // Delete mutation
   const deleteMutation = useMutation({
-    mutationFn: (id: number) =>
-      apiRequest("DELETE", `/api/jobs/${jobId}/line-items/${id}`),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: [`/api/jobs/${jobId}/line-items`] });
-      toast({ title: "Success", description: "Line item removed" });
-    },
+    mutationFn: (item: JobLineItem) =>
+      sendJobChange({ kind: "line-item-delete", jobId, lineItemId: item.id }, { baseUpdatedAt: item.updatedAt }),
+    networkMode: "always",
+    onSuccess: (result) => onSaved(result, "Line item removed"),
     onError: () => {
       toast({ title: "Error", description: "Failed to remove line item", variant: "destructive" });
     },
@@ -159,15 +169,15 @@ export function JobLineItems({ jobId, readOnly = false }: JobLineItemsProps) {
     }
 
     if (editingItem) {
-      updateMutation.mutate({ ...formData, id: editingItem.id });
+      updateMutation.mutate({ item: editingItem, data: formData });
     } else {
       createMutation.mutate(formData);
     }
   };
 
-  const handleDelete = (id: number) => {
+  const handleDelete = (item: JobLineItem) => {
     if (confirm("Are you sure you want to remove this line item?")) {
-      deleteMutation.mutate(id);
+      deleteMutation.mutate(item);
     }
   };
 
@@ -187,11 +197,11 @@ export function JobLineItems({ jobId, readOnly = false }: JobLineItemsProps) {
     return null;
   };
 
-  // Calculate totals
-  const subtotal = lineItems.reduce((sum, item) => sum + (item.amount || 0), 0);
+  // Calculate totals (amounts arrive as numeric strings)
+  const subtotal = lineItems.reduce((sum, item) => sum + (Number(item.amount) || 0), 0);
   const taxableAmount = lineItems
     .filter(item => item.taxable)
-    .reduce((sum, item) => sum + (item.amount || 0), 0);
+    .reduce((sum, item) => sum + (Number(item.amount) || 0), 0);
   const estimatedTax = taxableAmount * 0.08; // 8% estimate
 
   return (
@@ -344,7 +354,15 @@ export function JobLineItems({ jobId, readOnly = false }: JobLineItemsProps) {
                         {item.type}
                       </div>
                     </TableCell>
-                    <TableCell>{item.description}</TableCell>
+                    <TableCell>
+                      {item.description}
+                      {item.id < 0 && (
+                        <span className="ml-2 inline-flex items-center gap-1 text-xs text-muted-foreground">
+                          <CloudOff className="h-3 w-3" />
+                          Not synced
+                        </span>
+                      )}
+                    </TableCell>
                     <TableCell className="text-right">{item.quantity}</TableCell>
                     <TableCell className="text-right">{formatCurrency(item.unitPrice)}</TableCell>
                     <TableCell className="text-right font-medium">
@@ -366,7 +384,7 @@ export function JobLineItems({ jobId, readOnly = false }: JobLineItemsProps) {
                           <Button
                             variant="ghost"
                             size="icon"
-                            onClick={() => handleDelete(item.id)}
+                            onClick={() => handleDelete(item)}
                           >
                             <Trash2 className="h-4 w-4 text-red-500" />
                           </Button>
@@ -3,13 +3,17 @@ import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent } from '@/components/ui/dialog';
-import { Camera, Image as ImageIcon, Loader2, X } from 'lucide-react';
+import { Camera, CloudOff, Image as ImageIcon, Loader2, X } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { takeJobPhoto } from '@/lib/capacitor-camera';
+import { isLocalPhotoUrl, sendJobChange } from '@/lib/offline-sync';
+
+// The server stores { url, takenAt }; older jobs may hold bare URLs
+type JobPhoto = string | { url: string; caption?: string; takenAt?: string };
 
 interface JobPhotoUploaderProps {
   jobId: number;
-  photos?: string[] | null;
+  photos?: JobPhoto[] | null;
 }
 
 /**
@@ -18,7 +22,8 @@ interface JobPhotoUploaderProps {
  * - "Add Photo" → opens device camera (or photo library) via Capacitor on
  *   native, falls back to file picker on web.
  * - POST to /api/jobs/:id/photos as multipart/form-data (server endpoint
- *   already exists at server/routes/jobRoutes.ts).
+ *   already exists at server/routes/jobRoutes.ts). Without signal the photo
+ *   is kept on the device and uploads once back online (lib/offline-sync).
  * - Photos grid renders existing job.photos with click-to-enlarge.
  *
  * Designed for technicians in the field — large tap targets, clear states.
@@ -29,28 +34,20 @@ export function JobPhotoUploader({ jobId, photos }: JobPhotoUploaderProps) {
   const [enlargedUrl, setEnlargedUrl] = useState<string | null>(null);
 
   const uploadMutation = useMutation({
-    mutationFn: async (photo: { blob: Blob; filename: string }) => {
-      const form = new FormData();
-      form.append('photo', photo.blob, photo.filename);
-
-      // Use raw fetch — apiRequest serializes JSON which breaks multipart.
-      const csrfToken = document.cookie.match(/(?:^|; )csrf-token=([^;]*)/)?.[1];
-      const headers: Record<string, string> = {};
-      if (csrfToken) headers['X-CSRF-Token'] = decodeURIComponent(csrfToken);
-
-      const res = await fetch(`/api/jobs/${jobId}/photos`, {
-        method: 'POST',
-        headers,
-        credentials: 'include',
-        body: form,
-      });
-      if (!res.ok) {
-        const text = await res.text().catch(() => '');
-        throw new Error(text || `Upload failed (${res.status})`);
+    mutationFn: (photo: { blob: Blob; filename: string }) =>
+      sendJobChange({
+        kind: 'job-photo',
+        jobId,
+        blob: photo.blob,
+        filename: photo.filename,
+        takenAt: new Date().toISOString(),
+      }),
+    networkMode: 'always',
+    onSuccess: (result) => {
+      if (result.queued) {
+        toast({ title: 'Photo saved on this device', description: "It'll upload when you're back online." });
+        return;
       }
-      return res.json() as Promise<{ photoUrl: string; totalPhotos: number }>;
-    },
-    onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/jobs', jobId] });
       toast({ title: 'Photo uploaded', description: 'Saved to job record.' });
     },
@@ -77,7 +74,9 @@ export function JobPhotoUploader({ jobId, photos }: JobPhotoUploaderProps) {
     }
   };
 
-  const list = Array.isArray(photos) ? photos : [];
+  const list = (Array.isArray(photos) ? photos : [])
+    .map(photo => (typeof photo === 'string' ? photo : photo?.url))
+    .filter((url): url is string => !!url);
 
   return (
     <Card>
@@ -122,7 +121,7 @@ export function JobPhotoUploader({ jobId, photos }: JobPhotoUploaderProps) {
                 key={`${url}-${i}`}
                 type="button"
                 onClick={() => setEnlargedUrl(url)}
-                className="aspect-square overflow-hidden rounded-md border bg-muted hover:opacity-80 transition-opacity"
+                className="relative aspect-square overflow-hidden rounded-md border bg-muted hover:opacity-80 transition-opacity"
                 data-testid={`job-photo-thumb-${i}`}
               >
                 <img
@@ -131,6 +130,11 @@ export function JobPhotoUploader({ jobId, photos }: JobPhotoUploaderProps) {
                   className="h-full w-full object-cover"
                   loading="lazy"
                 />
+                {isLocalPhotoUrl(url) && (
+                  <span className="absolute bottom-1 right-1 rounded-full bg-black/60 p-1 text-white" title="Not uploaded yet">
+                    <CloudOff className="h-3 w-3" />
+                  </span>
+                )}
               </button>
             ))}
           </div>
@@ -0,0 +1,85 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { AlertTriangle, CloudOff, Loader2, RefreshCw } from "lucide-react";
+import {
+  describeOfflineChange,
+  discardOfflineChange,
+  flushOfflineQueue,
+  keepOfflineChange,
+  useOfflineSync,
+} from "@/lib/offline-sync";
+
+interface OfflineSyncPanelProps {
+  /** Only show changes for this job */
+  jobId?: number;
+}
+
+/**
+ * Job changes saved on the device that haven't reached the server yet.
+ * Conflicts (someone else edited the record since) and refused changes wait
+ * here for the tech to keep or discard them. Self-hides when nothing is queued.
+ */
+export function OfflineSyncPanel({ jobId }: OfflineSyncPanelProps) {
+  const { online, syncing, changes } = useOfflineSync();
+  const relevant = jobId ? changes.filter(change => change.mutation.jobId === jobId) : changes;
+  if (relevant.length === 0) return null;
+
+  const pending = relevant.filter(change => change.status === "pending");
+  const needsAttention = relevant.filter(change => change.status !== "pending");
+
+  return (
+    <Card className={needsAttention.length > 0 ? "border-amber-300" : undefined} data-testid="offline-sync-panel">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2 text-base">
+            <CloudOff className="h-4 w-4" />
+            Saved on this device
+          </CardTitle>
+          {syncing ? (
+            <span className="flex items-center gap-1 text-xs text-muted-foreground">
+              <Loader2 className="h-3 w-3 animate-spin" /> Syncing…
+            </span>
+          ) : online && pending.length > 0 ? (
+            <Button variant="outline" size="sm" onClick={() => void flushOfflineQueue()}>
+              <RefreshCw className="h-3.5 w-3.5 mr-1" /> Sync now
+            </Button>
+          ) : null}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {pending.length > 0 && (
+          <p className="text-sm text-muted-foreground">
+            {pending.length} {pending.length === 1 ? "change is" : "changes are"} waiting to sync
+            {online ? "." : " — they'll go through when you're back online."}
+          </p>
+        )}
+        {needsAttention.map(change => (
+          <div key={change.id} className="rounded-md border bg-amber-50 p-3 space-y-2">
+            <div className="flex items-start justify-between gap-2">
+              <div className="text-sm">
+                <div className="font-medium">{describeOfflineChange(change.mutation)}</div>
+                <div className="text-xs text-muted-foreground">
+                  Job #{change.mutation.jobId} · {new Date(change.queuedAt).toLocaleString()}
+                </div>
+              </div>
+              <Badge variant="outline" className="border-amber-300 text-amber-800 shrink-0">
+                <AlertTriangle className="h-3 w-3 mr-1" />
+                {change.status === "conflict" ? "Changed by someone else" : "Not saved"}
+              </Badge>
+            </div>
+            {change.error && <p className="text-xs text-amber-900">{change.error}</p>}
+            <div className="flex gap-2">
+              <Button size="sm" onClick={() => keepOfflineChange(change.id)}>
+                {change.status === "conflict" ? "Keep mine" : "Try again"}
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => discardOfflineChange(change.id)}>
+                Discard
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
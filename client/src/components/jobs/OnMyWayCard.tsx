@@ -8,13 +8,16 @@ import {
 import { Label } from '@/components/ui/label';
 import { Car, CheckCircle2, Loader2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { apiRequest } from '@/lib/api';
+import { sendJobChange, type SendResult } from '@/lib/offline-sync';
 
 interface OnMyWayCardProps {
   jobId: number;
   status: string | null | undefined;
   enRouteAt?: string | Date | null;
   etaMinutes?: number | null;
+  departedAt?: string | Date | null;
+  /** The job's updatedAt — status changes made offline are checked against it */
+  updatedAt?: string | Date | null;
 }
 
 const ETA_OPTIONS = [15, 30, 45, 60];
@@ -27,23 +30,35 @@ const ETA_OPTIONS = [15, 30, 45, 60];
  *   stamps enRouteAt, queues the ETA SMS to the customer.
  *
  * - When status === 'en_route': shows ETA summary + "I've Arrived" button
- *   which transitions to in_progress (existing flow).
+ *   which transitions to in_progress (existing flow). With GPS tracking on,
+ *   the geofence usually does this on its own.
  *
- * - Hidden for any other status — once the job is in_progress, completed,
+ * - When status === 'in_progress' and the geofence saw the tech leave the
+ *   site (departedAt set): prompts to mark the job complete.
+ *
+ * - Hidden for any other status — once the job is in progress, completed,
  *   etc., dispatch is no longer relevant.
+ *
+ * Without signal the change is queued on the device (lib/offline-sync) and
+ * the customer is texted once it syncs.
  */
-export function OnMyWayCard({ jobId, status, enRouteAt, etaMinutes }: OnMyWayCardProps) {
+export function OnMyWayCard({ jobId, status, enRouteAt, etaMinutes, departedAt, updatedAt }: OnMyWayCardProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [dialogOpen, setDialogOpen] = useState(false);
   const [selectedEta, setSelectedEta] = useState<number>(30);
 
   const updateMutation = useMutation({
-    mutationFn: async (payload: Record<string, unknown>) => {
-      const res = await apiRequest('PUT', `/api/jobs/${jobId}`, payload);
-      return res.json();
-    },
-    onSuccess: (_data, variables) => {
+    mutationFn: (payload: Record<string, unknown>): Promise<SendResult> =>
+      sendJobChange({ kind: 'job-update', jobId, data: payload }, { baseUpdatedAt: updatedAt }),
+    // Runs offline too — the change is queued instead of paused
+    networkMode: 'always',
+    onSuccess: (result, variables) => {
+      setDialogOpen(false);
+      if (result.queued) {
+        toast({ title: 'Saved on this device', description: "It'll sync when you're back online." });
+        return;
+      }
       queryClient.invalidateQueries({ queryKey: ['/api/jobs', jobId] });
       if ((variables as any).status === 'en_route') {
         toast({
@@ -52,8 +67,9 @@ export function OnMyWayCard({ jobId, status, enRouteAt, etaMinutes }: OnMyWayCar
         });
       } else if ((variables as any).status === 'in_progress') {
         toast({ title: 'Marked as arrived', description: 'Job started.' });
+      } else if ((variables as any).status === 'completed') {
+        toast({ title: 'Job completed' });
       }
-      setDialogOpen(false);
     },
     onError: (err: Error) => {
       toast({
@@ -65,6 +81,36 @@ export function OnMyWayCard({ jobId, status, enRouteAt, etaMinutes }: OnMyWayCar
   });
 
   if (status === 'completed' || status === 'cancelled') return null;
+
+  if (status === 'in_progress' && departedAt) {
+    const leftLabel = new Date(departedAt)
+      .toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true });
+    return (
+      <Card className="border-blue-200 bg-blue-50/40">
+        <CardContent className="p-4 flex items-center justify-between flex-wrap gap-2">
+          <div>
+            <p className="font-medium text-sm">Looks like you left the job site</p>
+            <p className="text-xs text-muted-foreground">
+              Departed around {leftLabel}. Finished with this job?
+            </p>
+          </div>
+          <Button
+            onClick={() => updateMutation.mutate({ status: 'completed' })}
+            disabled={updateMutation.isPending}
+            data-testid="job-complete-after-departure"
+          >
+            {updateMutation.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <CheckCircle2 className="mr-2 h-4 w-4" />
+            )}
+            Mark Complete
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
   if (status !== 'pending' && status !== 'en_route') return null;
 
   if (status === 'pending') {
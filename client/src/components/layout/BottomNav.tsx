@@ -11,6 +11,7 @@ import {
   Phone,
   Settings,
   LogOut,
+  MessageSquare,
 } from "lucide-react";
 import { useAuth } from "@/hooks/use-auth";
 import { useQuery } from "@tanstack/react-query";
@@ -49,6 +50,7 @@ export function BottomNav() {
   ];
 
   const moreItems = [
+    { path: "/inbox", label: "Inbox", icon: MessageSquare },
     { path: "/customers", label: "Customers", icon: Users },
     { path: "/receptionist", label: "AI Receptionist", icon: Phone },
     { path: "/settings", label: "Settings", icon: Settings },
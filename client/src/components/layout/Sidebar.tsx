@@ -22,6 +22,7 @@ import {
   MapPin,
   HelpCircle,
   Truck,
+  MessageSquare,
 } from "lucide-react";
 import { useSidebar } from "@/context/SidebarContext";
 import { useAuth } from "@/hooks/use-auth";
@@ -33,6 +34,7 @@ import { isJobCategory } from "@shared/industry-categories";
 
 const allNavItems = [
   { path: "/", label: "Dashboard", icon: Home },
+  { path: "/inbox", label: "Inbox", icon: MessageSquare },
   { path: "/customers", label: "Customers", icon: Users, hideForRoles: ['staff'] as string[] },
   { path: "/appointments", label: "Appointments", icon: Calendar, labelForIndustry: { restaurant: "Reservations" } as Record<string, string>, hideForJobCategory: true, hideForRoles: ['staff'] as string[] },
   { path: "/jobs", label: "Jobs", icon: Briefcase, hideForIndustries: ['restaurant'], jobCategoryIcon: Calendar, jobCategoryLabel: "Schedule", hideForRoles: ['staff'] as string[] },
@@ -98,6 +100,13 @@ export function Sidebar() {
     enabled: !!user?.businessId,
   });
 
+  // Unread customer texts, shown as a badge on Inbox
+  const { data: inboxUnread } = useQuery<{ count: number }>({
+    queryKey: ['/api/sms-inbox/unread-count'],
+    enabled: !!user?.businessId,
+    refetchInterval: 30000,
+  });
+
   // Filter nav items based on business industry and user role
   const businessIndustry = business?.industry?.toLowerCase() || '';
   const isJobBiz = isJobCategory(business?.industry);
@@ -214,6 +223,11 @@ export function Sidebar() {
                 <span className="md:hidden lg:inline flex-1">
                   {(isJobBiz && (item as any).jobCategoryLabel) ? (item as any).jobCategoryLabel : ((item as any).labelForIndustry?.[businessIndustry] || item.label)}
                 </span>
+                {item.path === "/inbox" && !!inboxUnread?.count && (
+                  <span className="md:hidden lg:inline-flex items-center justify-center min-w-5 h-5 px-1.5 mr-1 rounded-full bg-red-500 text-white text-xs font-semibold">
+                    {inboxUnread.count > 99 ? "99+" : inboxUnread.count}
+                  </span>
+                )}
                 {isActive && (
                   <ChevronRight className="h-4 w-4 md:hidden lg:block text-black" />
                 )}
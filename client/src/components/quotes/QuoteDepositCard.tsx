@@ -0,0 +1,208 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency, formatDate } from "@/lib/utils";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Separator } from "@/components/ui/separator";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Plus, Wallet } from "lucide-react";
+
+interface DepositPayment {
+  id: number;
+  amount: string;
+  refundedAmount: string | null;
+  method: "stripe" | "cash" | "check" | "manual";
+  paidAt: string;
+}
+
+interface DepositResponse {
+  depositAmount: number | null;
+  depositOutstanding: number;
+  payments: DepositPayment[];
+}
+
+const METHOD_LABELS: Record<DepositPayment["method"], string> = {
+  stripe: "Card",
+  cash: "Cash",
+  check: "Check",
+  manual: "Other",
+};
+
+/**
+ * Required deposit on a quote — how much was asked for, what has come in,
+ * and a dialog to record a deposit taken offline.
+ */
+export function QuoteDepositCard({ quoteId }: { quoteId: number }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [open, setOpen] = useState(false);
+  const [amount, setAmount] = useState("");
+  const [method, setMethod] = useState<"cash" | "check" | "manual">("cash");
+  const [reference, setReference] = useState("");
+  const [notes, setNotes] = useState("");
+
+  const { data } = useQuery<DepositResponse>({
+    queryKey: ["/api/quotes", quoteId, "payments"],
+    queryFn: async () => {
+      const res = await fetch(`/api/quotes/${quoteId}/payments`);
+      if (!res.ok) throw new Error("Failed to fetch deposits");
+      return res.json();
+    },
+    enabled: !!quoteId,
+  });
+
+  const recordMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/quotes/${quoteId}/deposit`, {
+        amount: parseFloat(amount),
+        method,
+        reference: reference || null,
+        notes: notes || null,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/quotes", quoteId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+      setOpen(false);
+      toast({ title: "Deposit recorded", description: `${formatCurrency(parseFloat(amount))} received` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (!data || (!data.depositAmount && data.payments.length === 0)) {
+    return null;
+  }
+
+  const collected = data.payments.reduce(
+    (sum, p) => sum + parseFloat(p.amount) - parseFloat(p.refundedAmount || "0"),
+    0,
+  );
+
+  const openRecord = () => {
+    setAmount(data.depositOutstanding > 0 ? data.depositOutstanding.toFixed(2) : "");
+    setMethod("cash");
+    setReference("");
+    setNotes("");
+    setOpen(true);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center">
+          <Wallet className="mr-2 h-5 w-5" />
+          Deposit
+        </CardTitle>
+        {data.depositOutstanding > 0 && (
+          <Button size="sm" variant="outline" onClick={openRecord}>
+            <Plus className="h-4 w-4 mr-2" />
+            Record
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-2">
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Required:</span>
+            <span className="font-medium">{formatCurrency(data.depositAmount || 0)}</span>
+          </div>
+          <Separator />
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Collected:</span>
+            <span className="font-medium">{formatCurrency(collected)}</span>
+          </div>
+          <Separator />
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Outstanding:</span>
+            <span className="font-medium">{formatCurrency(data.depositOutstanding)}</span>
+          </div>
+          {data.payments.map((payment) => (
+            <div key={payment.id} className="flex justify-between text-sm text-muted-foreground">
+              <span>{formatDate(payment.paidAt)} · {METHOD_LABELS[payment.method] || payment.method}</span>
+              <span>{formatCurrency(parseFloat(payment.amount))}</span>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Record Deposit</DialogTitle>
+            <DialogDescription>
+              Record a deposit taken by cash, check or other means. It is applied to the invoice when the quote is converted.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="deposit-amount">Amount</Label>
+                <Input
+                  id="deposit-amount"
+                  type="number"
+                  step="0.01"
+                  min="0.01"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Method</Label>
+                <Select value={method} onValueChange={(v) => setMethod(v as typeof method)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="cash">Cash</SelectItem>
+                    <SelectItem value="check">Check</SelectItem>
+                    <SelectItem value="manual">Other</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="deposit-reference">{method === "check" ? "Check number" : "Reference"}</Label>
+              <Input id="deposit-reference" value={reference} onChange={(e) => setReference(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="deposit-notes">Notes</Label>
+              <Textarea id="deposit-notes" rows={2} value={notes} onChange={(e) => setNotes(e.target.value)} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+            <Button
+              onClick={() => recordMutation.mutate()}
+              disabled={recordMutation.isPending || !(parseFloat(amount) > 0)}
+            >
+              {recordMutation.isPending ? "Saving..." : "Record Deposit"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
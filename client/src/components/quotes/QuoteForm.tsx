@@ -8,6 +8,7 @@ import { useAuth } from "@/hooks/use-auth";
 import { apiRequest } from "@/lib/queryClient";
 import { useLocation } from "wouter";
 import { CreateCustomerDialog } from "@/components/customers/CreateCustomerDialog";
+import { QuoteOptionsEditor, emptyQuoteOption, optionSubtotal } from "@/components/quotes/QuoteOptionsEditor";
 
 import {
   Form,
@@ -44,6 +45,7 @@ import { cn, formatCurrency, formatDate, generateInvoiceNumber } from "@/lib/uti
 import { CalendarIcon, Plus, Trash } from "lucide-react";
 import { Separator } from "@/components/ui/separator";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
 
 const quoteItemSchema = z.object({
   description: z.string().min(1, "Description is required"),
@@ -51,11 +53,21 @@ const quoteItemSchema = z.object({
   unitPrice: z.coerce.number().min(0, "Unit price cannot be negative"),
 });
 
+const quoteOptionSchema = z.object({
+  name: z.string().min(1, "Option name is required"),
+  description: z.string().optional().nullable(),
+  isRecommended: z.boolean().optional(),
+  items: z.array(quoteItemSchema).min(1, "Each option needs at least one item"),
+});
+
 const quoteSchema = z.object({
   customerId: z.number().min(1, "Customer is required"),
   jobId: z.number().optional().nullable(),
   quoteNumber: z.string().min(1, "Quote number is required"),
-  items: z.array(quoteItemSchema).min(1, "At least one item is required"),
+  items: z.array(quoteItemSchema),
+  // Good/better/best — when on, `options` replaces the flat item list
+  useOptions: z.boolean().default(false),
+  options: z.array(quoteOptionSchema).optional(),
   validUntil: z.union([z.string(), z.date(), z.null()]).optional().transform(val => {
     // Handle null/undefined
     if (val === null || val === undefined) {
@@ -83,6 +95,7 @@ const quoteSchema = z.object({
     return null;
   }),
   notes: z.string().optional().nullable(),
+  depositAmount: z.coerce.number().min(0, "Deposit cannot be negative").optional().nullable(),
 });
 
 type QuoteFormValues = z.infer<typeof quoteSchema>;
@@ -201,9 +214,18 @@ export function QuoteForm({ defaultValues, quoteId }: QuoteFormProps) {
     },
   });
 
-  // Update form schema to allow initial 0 customerId for the form
+  // Update form schema to allow initial 0 customerId for the form, and
+  // require either a flat item list or at least two options
   const formSchema = quoteSchema.extend({
     customerId: z.number().gte(0, "Customer is required"),
+  }).superRefine((data, ctx) => {
+    if (data.useOptions) {
+      if ((data.options?.length || 0) < 2) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["options"], message: "Offer at least two options" });
+      }
+    } else if (data.items.length === 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["items"], message: "At least one item is required" });
+    }
   });
   
   const form = useForm<QuoteFormValues>({
@@ -212,11 +234,14 @@ export function QuoteForm({ defaultValues, quoteId }: QuoteFormProps) {
       customerId: defaultValues?.customerId || 0,
       jobId: defaultValues?.jobId || null,
       quoteNumber: defaultValues?.quoteNumber || `QUO-${Date.now()}`,
-      items: defaultValues?.items || [
+      items: defaultValues?.items?.length ? defaultValues.items : [
         { description: "", quantity: 1, unitPrice: 0 },
       ],
+      useOptions: defaultValues?.useOptions || false,
+      options: defaultValues?.options?.length ? defaultValues.options : [emptyQuoteOption(0), emptyQuoteOption(1), emptyQuoteOption(2)],
       validUntil: defaultValues?.validUntil || new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0], // 30 days from now as YYYY-MM-DD
       notes: defaultValues?.notes || "",
+      depositAmount: defaultValues?.depositAmount ?? null,
     },
   });
 
@@ -234,6 +259,7 @@ export function QuoteForm({ defaultValues, quoteId }: QuoteFormProps) {
 
   // Watch for changes in items for real-time calculation
   const watchedItems = form.watch("items");
+  const useOptions = form.watch("useOptions");
   
   // Listen for changes to individual form fields for better reactivity
   const watchAllFields = form.watch();
@@ -247,15 +273,21 @@ export function QuoteForm({ defaultValues, quoteId }: QuoteFormProps) {
     // Calculate subtotal from items
     const calculateTotal = () => {
       let subtotal = 0;
-      
-      // Process each item
-      for (const item of items) {
-        // Ensure we're working with numbers by using parseFloat
-        const quantity = typeof item.quantity === 'number' ? item.quantity : parseFloat(item.quantity as any) || 0;
-        const unitPrice = typeof item.unitPrice === 'number' ? item.unitPrice : parseFloat(item.unitPrice as any) || 0;
-        
-        // Add to subtotal
-        subtotal += quantity * unitPrice;
+
+      if (useOptions) {
+        // The quote shows the recommended option's price until the customer picks
+        const options = form.getValues("options") || [];
+        subtotal = optionSubtotal(options.find((option) => option.isRecommended) ?? options[0]);
+      } else {
+        // Process each item
+        for (const item of items) {
+          // Ensure we're working with numbers by using parseFloat
+          const quantity = typeof item.quantity === 'number' ? item.quantity : parseFloat(item.quantity as any) || 0;
+          const unitPrice = typeof item.unitPrice === 'number' ? item.unitPrice : parseFloat(item.unitPrice as any) || 0;
+
+          // Add to subtotal
+          subtotal += quantity * unitPrice;
+        }
       }
       
       const tax = subtotal * 0.0; // No tax by default for quotes
@@ -315,11 +347,19 @@ export function QuoteForm({ defaultValues, quoteId }: QuoteFormProps) {
       }
     }
     
+    const { useOptions: submitOptions, options, ...quoteFields } = data;
+
     // Make sure to use the real-time calculated totals
     const submitData = {
-      ...data,
+      ...quoteFields,
       validUntil,
-      items: itemsWithAmount,
+      items: submitOptions ? [] : itemsWithAmount,
+      options: submitOptions
+        ? (options || []).map((option) => ({
+            ...option,
+            items: option.items.map((item) => ({ ...item, amount: item.quantity * item.unitPrice })),
+          }))
+        : undefined,
       amount: summary.subtotal,
       tax: summary.tax,
       total: summary.total,
@@ -513,10 +553,29 @@ export function QuoteForm({ defaultValues, quoteId }: QuoteFormProps) {
           </Card>
 
           <Card>
-            <CardHeader>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
               <CardTitle>Quote Items</CardTitle>
+              <FormField
+                control={form.control}
+                name="useOptions"
+                render={({ field }) => (
+                  <FormItem className="flex items-center gap-2 space-y-0">
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} disabled={isPending} />
+                    </FormControl>
+                    <FormLabel className="font-normal">Offer options</FormLabel>
+                  </FormItem>
+                )}
+              />
             </CardHeader>
             <CardContent className="space-y-4">
+              {useOptions ? (
+                <p className="text-sm text-muted-foreground">
+                  The customer chooses one of the options below (e.g., repair vs. replace). Only the chosen
+                  option is converted to a job or invoice. The total shown is the recommended option.
+                </p>
+              ) : (
+              <>
               {fields.map((field, index) => (
                 <div key={field.id} className="space-y-2">
                   <div className="flex justify-between items-center">
@@ -600,6 +659,8 @@ export function QuoteForm({ defaultValues, quoteId }: QuoteFormProps) {
                 <Plus className="h-4 w-4 mr-2" />
                 Add Item
               </Button>
+              </>
+              )}
             </CardContent>
             <CardFooter className="flex flex-col items-end">
               <div className="space-y-1 text-right">
@@ -617,11 +678,51 @@ export function QuoteForm({ defaultValues, quoteId }: QuoteFormProps) {
           </Card>
         </div>
 
+        {useOptions && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Options</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <QuoteOptionsEditor form={form} disabled={isPending} />
+              {form.formState.errors.options?.message && (
+                <p className="text-sm font-medium text-destructive mt-2">
+                  {String(form.formState.errors.options.message)}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
         <Card>
           <CardHeader>
             <CardTitle>Additional Information</CardTitle>
           </CardHeader>
-          <CardContent>
+          <CardContent className="space-y-4">
+            <FormField
+              control={form.control}
+              name="depositAmount"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Required Deposit</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      placeholder="No deposit"
+                      {...field}
+                      value={field.value ?? ""}
+                      disabled={isPending}
+                    />
+                  </FormControl>
+                  <FormDescription>
+                    Collected through the quote link and applied to the invoice when the quote is converted
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
             <FormField
               control={form.control}
               name="notes"
@@ -0,0 +1,241 @@
+import { useFieldArray, type UseFormReturn } from "react-hook-form";
+import { formatCurrency } from "@/lib/utils";
+import {
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Plus, Star, Trash } from "lucide-react";
+
+export interface QuoteOptionFormValue {
+  name: string;
+  description?: string | null;
+  isRecommended?: boolean;
+  items: Array<{ description: string; quantity: number; unitPrice: number }>;
+}
+
+const DEFAULT_OPTION_NAMES = ["Good", "Better", "Best", "Option 4", "Option 5"];
+
+export const emptyQuoteOption = (index: number): QuoteOptionFormValue => ({
+  name: DEFAULT_OPTION_NAMES[index] ?? `Option ${index + 1}`,
+  description: "",
+  isRecommended: index === 1,
+  items: [{ description: "", quantity: 1, unitPrice: 0 }],
+});
+
+export const optionSubtotal = (option: QuoteOptionFormValue | undefined): number =>
+  (option?.items || []).reduce((sum, item) => {
+    const quantity = typeof item.quantity === "number" ? item.quantity : parseFloat(item.quantity as any) || 0;
+    const unitPrice = typeof item.unitPrice === "number" ? item.unitPrice : parseFloat(item.unitPrice as any) || 0;
+    return sum + quantity * unitPrice;
+  }, 0);
+
+function QuoteOptionCard({
+  form,
+  index,
+  disabled,
+  canRemove,
+  onRemove,
+}: {
+  form: UseFormReturn<any>;
+  index: number;
+  disabled: boolean;
+  canRemove: boolean;
+  onRemove: () => void;
+}) {
+  const { fields, append, remove } = useFieldArray({
+    control: form.control,
+    name: `options.${index}.items`,
+  });
+  const option: QuoteOptionFormValue | undefined = form.watch(`options.${index}`);
+
+  // Only one option carries the recommended flag
+  const setRecommended = (checked: boolean) => {
+    const options: QuoteOptionFormValue[] = form.getValues("options") || [];
+    options.forEach((_, i) => {
+      form.setValue(`options.${i}.isRecommended`, checked && i === index, { shouldDirty: true });
+    });
+  };
+
+  return (
+    <Card className={option?.isRecommended ? "border-primary" : undefined}>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          Option {index + 1}
+          {option?.isRecommended && (
+            <Badge className="gap-1">
+              <Star className="h-3 w-3" />
+              Recommended
+            </Badge>
+          )}
+        </CardTitle>
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Switch
+              checked={!!option?.isRecommended}
+              onCheckedChange={setRecommended}
+              disabled={disabled}
+            />
+            Recommended
+          </label>
+          {canRemove && (
+            <Button type="button" variant="ghost" size="sm" onClick={onRemove} disabled={disabled}>
+              <Trash className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <FormField
+          control={form.control}
+          name={`options.${index}.name`}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Option Name</FormLabel>
+              <FormControl>
+                <Input {...field} placeholder="e.g., Repair, Replace" disabled={disabled} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name={`options.${index}.description`}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Description (Optional)</FormLabel>
+              <FormControl>
+                <Textarea
+                  {...field}
+                  value={field.value || ""}
+                  rows={2}
+                  placeholder="What's included, warranty, efficiency..."
+                  disabled={disabled}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {fields.map((field, itemIndex) => (
+          <div key={field.id} className="grid grid-cols-12 gap-2 items-end">
+            <FormField
+              control={form.control}
+              name={`options.${index}.items.${itemIndex}.description`}
+              render={({ field }) => (
+                <FormItem className="col-span-6">
+                  {itemIndex === 0 && <FormLabel>Description</FormLabel>}
+                  <FormControl>
+                    <Input {...field} disabled={disabled} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name={`options.${index}.items.${itemIndex}.quantity`}
+              render={({ field }) => (
+                <FormItem className="col-span-2">
+                  {itemIndex === 0 && <FormLabel>Qty</FormLabel>}
+                  <FormControl>
+                    <Input {...field} type="number" min="1" step="1" disabled={disabled} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name={`options.${index}.items.${itemIndex}.unitPrice`}
+              render={({ field }) => (
+                <FormItem className="col-span-3">
+                  {itemIndex === 0 && <FormLabel>Unit Price</FormLabel>}
+                  <FormControl>
+                    <Input {...field} type="number" min="0" step="0.01" disabled={disabled} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="col-span-1">
+              {fields.length > 1 && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => remove(itemIndex)}
+                  disabled={disabled}
+                >
+                  <Trash className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+        ))}
+
+        <div className="flex items-center justify-between">
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => append({ description: "", quantity: 1, unitPrice: 0 })}
+            disabled={disabled}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Item
+          </Button>
+          <span className="font-semibold">{formatCurrency(optionSubtotal(option))}</span>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Good/better/best editor for QuoteForm. Each option has its own line items;
+ * the customer picks one on the quote portal.
+ */
+export function QuoteOptionsEditor({ form, disabled }: { form: UseFormReturn<any>; disabled: boolean }) {
+  const { fields, append, remove } = useFieldArray({
+    control: form.control,
+    name: "options",
+  });
+
+  return (
+    <div className="space-y-4">
+      {fields.map((field, index) => (
+        <QuoteOptionCard
+          key={field.id}
+          form={form}
+          index={index}
+          disabled={disabled}
+          canRemove={fields.length > 2}
+          onRemove={() => remove(index)}
+        />
+      ))}
+      {fields.length < 5 && (
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => append({ ...emptyQuoteOption(fields.length), isRecommended: false })}
+          disabled={disabled}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Option
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/utils";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { CheckCircle, Star } from "lucide-react";
+
+interface QuoteOption {
+  id: number;
+  name: string;
+  description: string | null;
+  amount: string;
+  tax: string | null;
+  total: string;
+  isRecommended: boolean | null;
+  items: Array<{ id: number; description: string; quantity: number; unitPrice: string; amount: string }>;
+}
+
+/**
+ * Good/better/best options on the quote detail page. The owner can record
+ * the customer's pick here when it was made outside the portal.
+ */
+export function QuoteOptionsList({
+  quoteId,
+  options,
+  selectedOptionId,
+  canSelect,
+}: {
+  quoteId: number;
+  options: QuoteOption[];
+  selectedOptionId: number | null;
+  canSelect: boolean;
+}) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const selectMutation = useMutation({
+    mutationFn: async (optionId: number) => {
+      const res = await apiRequest("POST", `/api/quotes/${quoteId}/select-option`, { optionId });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/quotes"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/quotes", quoteId] });
+      toast({ title: "Option selected", description: "The quote total now reflects the chosen option" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="space-y-4">
+      {options.map((option) => {
+        const isChosen = option.id === selectedOptionId;
+        return (
+          <Card key={option.id} className={isChosen ? "border-green-500" : undefined}>
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+              <div>
+                <CardTitle className="flex items-center gap-2">
+                  {option.name}
+                  {option.isRecommended && (
+                    <Badge variant="outline" className="gap-1">
+                      <Star className="h-3 w-3" />
+                      Recommended
+                    </Badge>
+                  )}
+                  {isChosen && <Badge className="bg-green-500 hover:bg-green-600">Chosen</Badge>}
+                </CardTitle>
+                {option.description && <CardDescription className="mt-1">{option.description}</CardDescription>}
+              </div>
+              {canSelect && !isChosen && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => selectMutation.mutate(option.id)}
+                  disabled={selectMutation.isPending}
+                >
+                  <CheckCircle className="h-4 w-4 mr-2" />
+                  Mark as Chosen
+                </Button>
+              )}
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Description</TableHead>
+                    <TableHead className="text-right">Quantity</TableHead>
+                    <TableHead className="text-right">Unit Price</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {option.items.map((item) => (
+                    <TableRow key={item.id}>
+                      <TableCell>{item.description}</TableCell>
+                      <TableCell className="text-right">{item.quantity}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(parseFloat(item.unitPrice))}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(parseFloat(item.amount))}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+                <TableFooter>
+                  {parseFloat(option.tax || "0") > 0 && (
+                    <TableRow>
+                      <TableCell colSpan={3} className="text-right font-medium">Tax</TableCell>
+                      <TableCell className="text-right">{formatCurrency(parseFloat(option.tax || "0"))}</TableCell>
+                    </TableRow>
+                  )}
+                  <TableRow>
+                    <TableCell colSpan={3} className="text-right font-bold">Total</TableCell>
+                    <TableCell className="text-right font-bold">{formatCurrency(parseFloat(option.total))}</TableCell>
+                  </TableRow>
+                </TableFooter>
+              </Table>
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
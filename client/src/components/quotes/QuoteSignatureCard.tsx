@@ -0,0 +1,78 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Download, PenLine } from "lucide-react";
+
+interface QuoteSignature {
+  id: number;
+  signerName: string;
+  signatureImage: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  signedAt: string;
+  contentHash: string;
+  emailedAt: string | null;
+}
+
+/**
+ * The customer's e-signature from accepting on the portal, with the audit
+ * details and a link to the signed PDF. Renders nothing for unsigned quotes.
+ */
+export function QuoteSignatureCard({ quoteId }: { quoteId: number }) {
+  const { data: signature } = useQuery<QuoteSignature | null>({
+    queryKey: ["/api/quotes", quoteId, "signature"],
+    queryFn: async () => {
+      const res = await fetch(`/api/quotes/${quoteId}/signature`);
+      if (res.status === 404) return null;
+      if (!res.ok) throw new Error("Failed to fetch signature");
+      return res.json();
+    },
+    enabled: !!quoteId,
+  });
+
+  if (!signature) return null;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center">
+          <PenLine className="mr-2 h-5 w-5" />
+          Signed by {signature.signerName}
+        </CardTitle>
+        <Button variant="outline" size="sm" asChild>
+          <a href={`/api/quotes/${quoteId}/signed-pdf`}>
+            <Download className="h-4 w-4 mr-2" />
+            Signed PDF
+          </a>
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <img
+          src={signature.signatureImage}
+          alt={`Signature of ${signature.signerName}`}
+          className="h-20 w-auto rounded border bg-white p-2"
+        />
+        <dl className="grid grid-cols-[auto,1fr] gap-x-4 gap-y-1 text-sm">
+          <dt className="text-muted-foreground">Signed</dt>
+          <dd>{new Date(signature.signedAt).toLocaleString()}</dd>
+          {signature.ipAddress && (
+            <>
+              <dt className="text-muted-foreground">IP address</dt>
+              <dd>{signature.ipAddress}</dd>
+            </>
+          )}
+          {signature.userAgent && (
+            <>
+              <dt className="text-muted-foreground">Device</dt>
+              <dd className="break-all">{signature.userAgent}</dd>
+            </>
+          )}
+          <dt className="text-muted-foreground">Emailed</dt>
+          <dd>{signature.emailedAt ? new Date(signature.emailedAt).toLocaleString() : "Not yet"}</dd>
+          <dt className="text-muted-foreground">Hash</dt>
+          <dd className="font-mono text-xs break-all">{signature.contentHash}</dd>
+        </dl>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,114 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Eraser } from "lucide-react";
+
+/**
+ * Draw-to-sign canvas. Works with mouse, pen and touch via pointer events and
+ * reports the signature as a PNG data URL (null while the pad is empty).
+ */
+export function SignaturePad({
+  onChange,
+  disabled,
+  height = 160,
+}: {
+  onChange: (dataUrl: string | null) => void;
+  disabled?: boolean;
+  height?: number;
+}) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawingRef = useRef(false);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+  const hasInkRef = useRef(false);
+  const [isEmpty, setIsEmpty] = useState(true);
+
+  // Match the backing store to the rendered size so strokes aren't blurry
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ratio = window.devicePixelRatio || 1;
+    // offsetWidth ignores the dialog's open animation transform
+    canvas.width = canvas.offsetWidth * ratio;
+    canvas.height = height * ratio;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+    ctx.scale(ratio, ratio);
+    ctx.lineWidth = 2;
+    ctx.lineCap = "round";
+    ctx.lineJoin = "round";
+    ctx.strokeStyle = "#111827";
+  }, [height]);
+
+  const pointFromEvent = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    drawingRef.current = true;
+    lastPointRef.current = pointFromEvent(event);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current || !lastPointRef.current) return;
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!ctx) return;
+    const point = pointFromEvent(event);
+    ctx.beginPath();
+    ctx.moveTo(lastPointRef.current.x, lastPointRef.current.y);
+    ctx.lineTo(point.x, point.y);
+    ctx.stroke();
+    lastPointRef.current = point;
+    if (!hasInkRef.current) {
+      hasInkRef.current = true;
+      setIsEmpty(false);
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (!drawingRef.current) return;
+    drawingRef.current = false;
+    lastPointRef.current = null;
+    if (hasInkRef.current && canvasRef.current) {
+      onChange(canvasRef.current.toDataURL("image/png"));
+    }
+  };
+
+  const clear = () => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    hasInkRef.current = false;
+    setIsEmpty(true);
+    onChange(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="relative rounded-md border border-dashed bg-white">
+        <canvas
+          ref={canvasRef}
+          style={{ height, touchAction: "none" }}
+          className="w-full cursor-crosshair"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerLeave={handlePointerUp}
+        />
+        {isEmpty && (
+          <span className="pointer-events-none absolute inset-0 flex items-center justify-center text-sm text-muted-foreground">
+            Sign here
+          </span>
+        )}
+      </div>
+      <div className="flex justify-end">
+        <Button type="button" variant="ghost" size="sm" onClick={clear} disabled={disabled || isEmpty}>
+          <Eraser className="h-4 w-4 mr-2" />
+          Clear
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -37,6 +37,7 @@ import {
   Send,
   Phone,
 } from "lucide-react";
+import { DEFAULT_LANGUAGE, SUPPORTED_LANGUAGES } from "@shared/languages";
 
 interface KnowledgeBaseProps {
   businessId?: number;
@@ -48,6 +49,7 @@ interface KnowledgeEntry {
   question: string;
   answer: string;
   category: string | null;
+  translations: Record<string, { question: string; answer: string }> | null;
   source: string;
   isApproved: boolean;
   priority: number;
@@ -87,6 +89,9 @@ const CATEGORY_LABELS: Record<string, string> = {
   general: "General",
 };
 
+// Languages an entry can be translated into for callers who switch languages
+const TRANSLATION_LANGUAGES = SUPPORTED_LANGUAGES.filter((l) => l.code !== DEFAULT_LANGUAGE);
+
 const SOURCE_LABELS: Record<string, string> = {
   website: "Website",
   owner: "Manual",
@@ -107,6 +112,7 @@ export function KnowledgeBase({ businessId }: KnowledgeBaseProps) {
   const [editingId, setEditingId] = useState<number | null>(null);
   const [editQuestion, setEditQuestion] = useState("");
   const [editAnswer, setEditAnswer] = useState("");
+  const [editTranslations, setEditTranslations] = useState<Record<string, { question: string; answer: string }>>({});
 
   // State for answering unanswered questions
   const [answeringId, setAnsweringId] = useState<number | null>(null);
@@ -228,7 +234,12 @@ export function KnowledgeBase({ businessId }: KnowledgeBaseProps) {
 
   // Update knowledge entry
   const updateMutation = useMutation({
-    mutationFn: async ({ id, ...data }: { id: number; question?: string; answer?: string }) => {
+    mutationFn: async ({ id, ...data }: {
+      id: number;
+      question?: string;
+      answer?: string;
+      translations?: Record<string, { question: string; answer: string }>;
+    }) => {
       return await apiRequest("PUT", `/api/knowledge/${id}`, data);
     },
     onSuccess: () => {
@@ -291,11 +302,12 @@ export function KnowledgeBase({ businessId }: KnowledgeBaseProps) {
     setEditingId(entry.id);
     setEditQuestion(entry.question);
     setEditAnswer(entry.answer);
+    setEditTranslations(entry.translations || {});
   };
 
   const handleSaveEdit = () => {
     if (!editingId || !editQuestion || !editAnswer) return;
-    updateMutation.mutate({ id: editingId, question: editQuestion, answer: editAnswer });
+    updateMutation.mutate({ id: editingId, question: editQuestion, answer: editAnswer, translations: editTranslations });
   };
 
   return (
@@ -690,6 +702,29 @@ export function KnowledgeBase({ businessId }: KnowledgeBaseProps) {
                         rows={2}
                         className="text-sm"
                       />
+                      {TRANSLATION_LANGUAGES.map((language) => {
+                        const translation = editTranslations[language.code] || { question: "", answer: "" };
+                        const setTranslation = (patch: Partial<typeof translation>) =>
+                          setEditTranslations({ ...editTranslations, [language.code]: { ...translation, ...patch } });
+                        return (
+                          <div key={language.code} className="space-y-2 pl-3 border-l-2">
+                            <p className="text-xs font-medium text-gray-500">{language.nativeName} (optional)</p>
+                            <Input
+                              value={translation.question}
+                              placeholder={`Question in ${language.name}`}
+                              onChange={(e) => setTranslation({ question: e.target.value })}
+                              className="text-sm"
+                            />
+                            <Textarea
+                              value={translation.answer}
+                              placeholder={`Answer in ${language.name}`}
+                              onChange={(e) => setTranslation({ answer: e.target.value })}
+                              rows={2}
+                              className="text-sm"
+                            />
+                          </div>
+                        );
+                      })}
                       <div className="flex gap-2">
                         <Button size="sm" onClick={handleSaveEdit} disabled={updateMutation.isPending} className="gap-1">
                           {updateMutation.isPending ? <Loader2 className="h-3 w-3 animate-spin" /> : <Check className="h-3 w-3" />}
@@ -705,6 +740,11 @@ export function KnowledgeBase({ businessId }: KnowledgeBaseProps) {
                       <div className="flex-1 min-w-0">
                         <p className="font-medium text-sm">Q: {entry.question}</p>
                         <p className="text-sm text-gray-600 mt-1">A: {entry.answer}</p>
+                        {TRANSLATION_LANGUAGES.filter((l) => entry.translations?.[l.code]).map((l) => (
+                          <p key={l.code} className="text-xs text-gray-500 mt-1">
+                            {l.nativeName}: {entry.translations![l.code].question}
+                          </p>
+                        ))}
                         <div className="flex items-center gap-2 mt-2">
                           <Badge variant="outline" className="text-xs">
                             {CATEGORY_LABELS[entry.category || "general"] || entry.category}
@@ -36,6 +36,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Plus, X, AlertTriangle, Volume2, VolumeX, Loader2, Sparkles } from "lucide-react";
+import { SUPPORTED_LANGUAGES } from "@shared/languages";
 
 /** Available voices for AI receptionist (ElevenLabs, Cartesia Sonic-3, OpenAI via Retell AI) */
 const VOICE_OPTIONS = [
@@ -91,6 +92,12 @@ const receptionistConfigSchema = z.object({
   aiInsightsEnabled: z.boolean().default(false),
   maxCallLengthMinutes: z.number().min(1, "Max call length must be at least 1 minute").max(60, "Max call length cannot exceed 60 minutes"),
   transferPhoneNumbers: z.array(z.string()).optional(),
+  language: z.string().default("en"),
+  autoDetectLanguage: z.boolean().default(false),
+  localizedMessages: z.record(z.object({
+    greeting: z.string().optional(),
+    afterHoursMessage: z.string().optional(),
+  })).optional(),
 });
 
 type ReceptionistConfigFormData = z.infer<typeof receptionistConfigSchema>;
@@ -205,7 +212,10 @@ export function ReceptionistConfig({ businessId }: { businessId?: number | null
         transcriptionEnabled: true,
         aiInsightsEnabled: false,
         maxCallLengthMinutes: 15,
-        transferPhoneNumbers: []
+        transferPhoneNumbers: [],
+        language: "en",
+        autoDetectLanguage: false,
+        localizedMessages: {},
       };
     }
 
@@ -221,7 +231,10 @@ export function ReceptionistConfig({ businessId }: { businessId?: number | null
       transcriptionEnabled: config.transcriptionEnabled,
       aiInsightsEnabled: config.aiInsightsEnabled ?? false,
       maxCallLengthMinutes: config.maxCallLengthMinutes || 15,
-      transferPhoneNumbers: config.transferPhoneNumbers || []
+      transferPhoneNumbers: config.transferPhoneNumbers || [],
+      language: config.language || "en",
+      autoDetectLanguage: config.autoDetectLanguage ?? false,
+      localizedMessages: config.localizedMessages || {},
     };
   };
 
@@ -335,6 +348,12 @@ export function ReceptionistConfig({ businessId }: { businessId?: number | null
     }
   };
 
+  // Languages the receptionist may switch into need their own greeting and after-hours wording
+  const primaryLanguage = form.watch("language");
+  const otherLanguages = form.watch("autoDetectLanguage")
+    ? SUPPORTED_LANGUAGES.filter((l) => l.code !== primaryLanguage)
+    : [];
+
   if (isLoading) {
     return (
       <Card>
@@ -467,6 +486,90 @@ export function ReceptionistConfig({ businessId }: { businessId?: number | null
                 </FormItem>
               )}
             />
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <FormField
+                control={form.control}
+                name="language"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="flex items-center gap-1.5">Language <HelpTooltip content="The language your AI answers the phone in. Your greeting and after hours message above should be written in it." /></FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select a language" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {SUPPORTED_LANGUAGES.map((language) => (
+                          <SelectItem key={language.code} value={language.code}>
+                            {language.nativeName}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>
+                      The language callers are greeted in
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="autoDetectLanguage"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                    <div className="space-y-0.5">
+                      <FormLabel className="text-base">Switch Languages Automatically</FormLabel>
+                      <FormDescription>
+                        Answer in the caller's language when they speak another one we support
+                      </FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {otherLanguages.map((language) => (
+              <div key={language.code} className="space-y-4 rounded-lg border p-4">
+                <p className="text-sm font-medium">{language.nativeName} ({language.name})</p>
+                <FormField
+                  control={form.control}
+                  name={`localizedMessages.${language.code}.greeting`}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Greeting</FormLabel>
+                      <FormControl>
+                        <Textarea className="min-h-[60px]" {...field} value={field.value || ""} />
+                      </FormControl>
+                      <FormDescription>
+                        Said when the AI switches to {language.name}. Leave blank to translate your main greeting.
+                      </FormDescription>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name={`localizedMessages.${language.code}.afterHoursMessage`}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>After Hours Message</FormLabel>
+                      <FormControl>
+                        <Textarea className="min-h-[60px]" {...field} value={field.value || ""} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+              </div>
+            ))}
             
             <FormField
               control={form.control}
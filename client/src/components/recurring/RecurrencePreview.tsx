@@ -0,0 +1,85 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useDebounce } from "@/hooks/use-debounce";
+import { CalendarDays, Loader2 } from "lucide-react";
+
+export interface RecurrenceRuleInput {
+  rrule?: string;
+  frequency: string;
+  interval?: number;
+  dayOfWeek?: number;
+  dayOfMonth?: number;
+  startDate: string;
+  endDate?: string;
+  exdates?: string[];
+}
+
+interface PreviewResponse {
+  rrule: string;
+  ruleText: string;
+  dates: string[];
+}
+
+const PREVIEW_COUNT = 8;
+
+function formatDay(day: string) {
+  return new Date(`${day}T00:00:00`).toLocaleDateString(undefined, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+/**
+ * The next dates a recurrence rule will generate, fetched from the server so
+ * the preview expands exactly like the scheduler does.
+ */
+export function RecurrencePreview({ rule }: { rule: RecurrenceRuleInput }) {
+  // Debounce the serialized rule — the parent builds a new object every render
+  const debouncedKey = useDebounce(JSON.stringify(rule), 400);
+  const debouncedRule = useMemo(() => JSON.parse(debouncedKey) as RecurrenceRuleInput, [debouncedKey]);
+  const canPreview = !!debouncedRule.startDate && (debouncedRule.frequency !== "custom" || !!debouncedRule.rrule);
+
+  const { data, error, isFetching } = useQuery<PreviewResponse>({
+    queryKey: ["/api/recurring-schedules/preview", debouncedRule],
+    queryFn: async () => {
+      const res = await apiRequest("POST", "/api/recurring-schedules/preview", {
+        ...debouncedRule,
+        count: PREVIEW_COUNT,
+      });
+      return res.json();
+    },
+    enabled: canPreview,
+    retry: false,
+  });
+
+  if (!canPreview) return null;
+
+  return (
+    <div className="rounded-lg border bg-muted/40 p-4 space-y-2">
+      <div className="flex items-center gap-2 text-sm font-medium">
+        <CalendarDays className="h-4 w-4 text-muted-foreground" />
+        Next {PREVIEW_COUNT} dates
+        {isFetching && <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" />}
+      </div>
+      {error ? (
+        <p className="text-sm text-red-600">{(error as Error).message}</p>
+      ) : data ? (
+        <>
+          <p className="text-sm text-muted-foreground">Repeats {data.ruleText}</p>
+          {data.dates.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No upcoming dates for this rule.</p>
+          ) : (
+            <ul className="grid gap-1 text-sm sm:grid-cols-2">
+              {data.dates.map((day) => (
+                <li key={day}>{formatDay(day)}</li>
+              ))}
+            </ul>
+          )}
+        </>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,227 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { CalendarX, Loader2, MoveRight, RotateCcw, Scissors } from "lucide-react";
+
+interface Occurrence {
+  occurrenceDate: string;
+  date: string;
+  jobTitle: string;
+  isOverridden: boolean;
+  generated: boolean;
+}
+
+interface OccurrencesResponse {
+  rrule: string;
+  ruleText: string;
+  exdates: string[];
+  occurrences: Occurrence[];
+}
+
+type EditScope = "this" | "following";
+
+interface RecurringOccurrencesDialogProps {
+  scheduleId: number | null;
+  onClose: () => void;
+}
+
+function formatDay(day: string) {
+  return new Date(`${day}T00:00:00`).toLocaleDateString(undefined, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+/**
+ * Upcoming occurrences of a recurring schedule. Each one can be skipped or
+ * moved on its own, or the series can be moved or ended from that date on.
+ */
+export function RecurringOccurrencesDialog({ scheduleId, onClose }: RecurringOccurrencesDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [moving, setMoving] = useState<string | null>(null);
+  const [moveDate, setMoveDate] = useState("");
+  const [moveScope, setMoveScope] = useState<EditScope>("this");
+
+  const { data, isLoading } = useQuery<OccurrencesResponse>({
+    queryKey: ["/api/recurring-schedules", scheduleId, "occurrences"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/recurring-schedules/${scheduleId}/occurrences?count=12`);
+      return res.json();
+    },
+    enabled: scheduleId !== null,
+  });
+
+  const editMutation = useMutation({
+    mutationFn: async ({ date, body }: { date: string; body: Record<string, unknown> }) => {
+      return apiRequest("PATCH", `/api/recurring-schedules/${scheduleId}/occurrences/${date}`, body);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/recurring-schedules"] });
+      setMoving(null);
+      toast({ title: "Schedule updated", variant: "default" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to update occurrence", variant: "destructive" });
+    },
+  });
+
+  const startMove = (occurrence: Occurrence) => {
+    setMoving(occurrence.occurrenceDate);
+    setMoveDate(occurrence.date);
+    setMoveScope("this");
+  };
+
+  return (
+    <Dialog open={scheduleId !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Upcoming Occurrences</DialogTitle>
+          {data && <DialogDescription>Repeats {data.ruleText}</DialogDescription>}
+        </DialogHeader>
+
+        {isLoading || !data ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {data.occurrences.length === 0 && (
+              <p className="text-sm text-muted-foreground">No upcoming occurrences.</p>
+            )}
+            <ul className="divide-y">
+              {data.occurrences.map((occurrence) => (
+                <li key={occurrence.occurrenceDate} className="py-3 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <div>
+                      <div className="font-medium">{formatDay(occurrence.date)}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {occurrence.jobTitle}
+                        {occurrence.date !== occurrence.occurrenceDate &&
+                          ` · moved from ${formatDay(occurrence.occurrenceDate)}`}
+                      </div>
+                    </div>
+                    {occurrence.generated ? (
+                      <Badge variant="secondary">Job created</Badge>
+                    ) : (
+                      <div className="flex gap-1">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => startMove(occurrence)}
+                          disabled={editMutation.isPending}
+                        >
+                          <MoveRight className="h-4 w-4 mr-1" />
+                          Move
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => editMutation.mutate({
+                            date: occurrence.occurrenceDate,
+                            body: { scope: "this", skip: true },
+                          })}
+                          disabled={editMutation.isPending}
+                        >
+                          <CalendarX className="h-4 w-4 mr-1" />
+                          Skip
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="text-red-600"
+                          onClick={() => editMutation.mutate({
+                            date: occurrence.occurrenceDate,
+                            body: { scope: "following", skip: true },
+                          })}
+                          disabled={editMutation.isPending}
+                        >
+                          <Scissors className="h-4 w-4 mr-1" />
+                          End here
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+
+                  {moving === occurrence.occurrenceDate && (
+                    <div className="flex flex-wrap items-center gap-2 rounded-md bg-muted/50 p-2">
+                      <Input
+                        type="date"
+                        value={moveDate}
+                        onChange={(e) => setMoveDate(e.target.value)}
+                        className="w-44"
+                      />
+                      <Select value={moveScope} onValueChange={(v) => setMoveScope(v as EditScope)}>
+                        <SelectTrigger className="w-52">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="this">This occurrence only</SelectItem>
+                          <SelectItem value="following">This and all following</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        size="sm"
+                        onClick={() => editMutation.mutate({
+                          date: occurrence.occurrenceDate,
+                          body: { scope: moveScope, date: moveDate },
+                        })}
+                        disabled={!moveDate || editMutation.isPending}
+                      >
+                        Save
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => setMoving(null)}>
+                        Cancel
+                      </Button>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+
+            {data.exdates.length > 0 && (
+              <div className="space-y-2">
+                <div className="text-sm font-medium">Skipped</div>
+                <div className="flex flex-wrap gap-2">
+                  {data.exdates.map((day) => (
+                    <Badge key={day} variant="outline" className="gap-1">
+                      {formatDay(day)}
+                      <button
+                        type="button"
+                        onClick={() => editMutation.mutate({ date: day, body: { scope: "this", skip: false } })}
+                        aria-label={`Restore ${day}`}
+                        disabled={editMutation.isPending}
+                      >
+                        <RotateCcw className="h-3 w-3" />
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
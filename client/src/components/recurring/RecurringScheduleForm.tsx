@@ -16,7 +16,9 @@ import { Switch } from "@/components/ui/switch";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
-import { Plus, Trash2 } from "lucide-react";
+import { Plus, Trash2, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { RecurrencePreview } from "./RecurrencePreview";
 
 interface RecurringScheduleFormProps {
   schedule?: any;
@@ -38,6 +40,7 @@ const frequencyOptions = [
   { value: "monthly", label: "Monthly" },
   { value: "quarterly", label: "Quarterly" },
   { value: "yearly", label: "Yearly" },
+  { value: "custom", label: "Custom (RRULE)" },
 ];
 
 const dayOfWeekOptions = [
@@ -56,7 +59,10 @@ export function RecurringScheduleForm({ schedule, onSuccess, onCancel }: Recurri
   const { user } = useAuth();
   const businessId = user?.businessId ?? undefined;
 
-  const [frequency, setFrequency] = useState(schedule?.frequency || "monthly");
+  const [frequency, setFrequency] = useState(schedule?.rrule ? "custom" : schedule?.frequency || "monthly");
+  const [rrule, setRrule] = useState<string>(schedule?.rrule || "");
+  const [exdates, setExdates] = useState<string[]>(schedule?.exdates || []);
+  const [newExdate, setNewExdate] = useState("");
   const [autoCreateInvoice, setAutoCreateInvoice] = useState(schedule?.autoCreateInvoice ?? true);
   const [lineItems, setLineItems] = useState<LineItem[]>(
     schedule?.items || [{ description: "", quantity: 1, unitPrice: 0, amount: 0 }]
@@ -68,7 +74,7 @@ export function RecurringScheduleForm({ schedule, onSuccess, onCancel }: Recurri
       customerId: schedule?.customerId?.toString() || "",
       serviceId: schedule?.serviceId?.toString() || "",
       staffId: schedule?.staffId?.toString() || "",
-      frequency: schedule?.frequency || "monthly",
+      frequency: schedule?.rrule ? "custom" : schedule?.frequency || "monthly",
       interval: schedule?.interval || 1,
       dayOfWeek: schedule?.dayOfWeek?.toString() || "",
       dayOfMonth: schedule?.dayOfMonth || 1,
@@ -120,6 +126,13 @@ export function RecurringScheduleForm({ schedule, onSuccess, onCancel }: Recurri
     setLineItems([...lineItems, { description: "", quantity: 1, unitPrice: 0, amount: 0 }]);
   };
 
+  const addExdate = () => {
+    if (newExdate && !exdates.includes(newExdate)) {
+      setExdates([...exdates, newExdate].sort());
+    }
+    setNewExdate("");
+  };
+
   const removeLineItem = (index: number) => {
     if (lineItems.length > 1) {
       setLineItems(lineItems.filter((_, i) => i !== index));
@@ -154,6 +167,11 @@ export function RecurringScheduleForm({ schedule, onSuccess, onCancel }: Recurri
   const onSubmit = (data: any) => {
     const { subtotal, tax, total } = calculateTotals();
 
+    if (data.frequency === "custom" && !rrule.trim()) {
+      toast({ title: "Enter a recurrence rule", variant: "destructive" });
+      return;
+    }
+
     const payload = {
       businessId,
       customerId: parseInt(data.customerId),
@@ -161,6 +179,8 @@ export function RecurringScheduleForm({ schedule, onSuccess, onCancel }: Recurri
       staffId: data.staffId ? parseInt(data.staffId) : undefined,
       name: data.name,
       frequency: data.frequency,
+      rrule: data.frequency === "custom" ? rrule.trim() : null,
+      exdates,
       interval: parseInt(data.interval) || 1,
       dayOfWeek: data.dayOfWeek ? parseInt(data.dayOfWeek) : undefined,
       dayOfMonth: data.dayOfMonth ? parseInt(data.dayOfMonth) : undefined,
@@ -181,6 +201,19 @@ export function RecurringScheduleForm({ schedule, onSuccess, onCancel }: Recurri
 
   const { subtotal, tax, total } = calculateTotals();
 
+  const dayOfWeekValue = watch("dayOfWeek");
+  const dayOfMonthValue = watch("dayOfMonth");
+  const previewRule = {
+    frequency,
+    rrule: frequency === "custom" ? rrule.trim() : undefined,
+    interval: parseInt(String(watch("interval"))) || 1,
+    dayOfWeek: dayOfWeekValue ? parseInt(dayOfWeekValue) : undefined,
+    dayOfMonth: dayOfMonthValue ? parseInt(String(dayOfMonthValue)) : undefined,
+    startDate: watch("startDate"),
+    endDate: watch("endDate") || undefined,
+    exdates,
+  };
+
   return (
     <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
       {/* Basic Info */}
@@ -341,6 +374,58 @@ export function RecurringScheduleForm({ schedule, onSuccess, onCancel }: Recurri
             />
           </div>
         </div>
+
+        {frequency === "custom" && (
+          <div className="space-y-2">
+            <Label htmlFor="rrule">Recurrence Rule *</Label>
+            <Input
+              id="rrule"
+              placeholder="FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH"
+              value={rrule}
+              onChange={(e) => setRrule(e.target.value)}
+              className="font-mono"
+            />
+            <p className="text-xs text-muted-foreground">
+              An iCalendar RRULE. Examples: <code>FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH</code> (every other
+              Tuesday and Thursday), <code>FREQ=MONTHLY;BYDAY=-1FR</code> (last Friday of the month).
+            </p>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="newExdate">Skip Dates</Label>
+          <div className="flex gap-2">
+            <Input
+              id="newExdate"
+              type="date"
+              value={newExdate}
+              onChange={(e) => setNewExdate(e.target.value)}
+              className="w-48"
+            />
+            <Button type="button" variant="outline" size="sm" onClick={addExdate} disabled={!newExdate}>
+              <Plus className="h-4 w-4 mr-1" />
+              Skip
+            </Button>
+          </div>
+          {exdates.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {exdates.map((day) => (
+                <Badge key={day} variant="secondary" className="gap-1">
+                  {day}
+                  <button
+                    type="button"
+                    onClick={() => setExdates(exdates.filter((d) => d !== day))}
+                    aria-label={`Remove ${day}`}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <RecurrencePreview rule={previewRule} />
       </div>
 
       {/* Job Details */}
@@ -11,6 +11,8 @@ import HeartlandIntegration from "@/components/heartland/HeartlandIntegration";
 import OrderHistory from "./OrderHistory";
 import { PosIntegrationCard } from "./PosIntegrationCard";
 import { ReservationPlatformCard } from "./ReservationPlatformCard";
+import { TableSettings } from "./TableSettings";
+import { WaitlistSettings } from "./WaitlistSettings";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel } from "@/components/ui/form";
 import { Switch } from "@/components/ui/switch";
@@ -18,7 +20,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
-import { UtensilsCrossed, CreditCard, CalendarCheck, Store, BookOpen, Truck, ShoppingBag, ExternalLink, Copy, Check } from "lucide-react";
+import { UtensilsCrossed, CreditCard, CalendarCheck, Store, BookOpen, Truck, ShoppingBag, ExternalLink, Copy, Check, Plus, Trash2 } from "lucide-react";
 
 interface RestaurantSettingsProps {
   businessId: number;
@@ -283,6 +285,7 @@ export function ReservationSettings({ businessId, business }: { businessId: numb
   const [slotDuration, setSlotDuration] = useState("90");
   const [leadTime, setLeadTime] = useState("2");
   const [bookingWindow, setBookingWindow] = useState("30");
+  const [turnTimes, setTurnTimes] = useState<{ maxPartySize: string; minutes: string }[]>([]);
 
   useEffect(() => {
     if (business) {
@@ -292,6 +295,10 @@ export function ReservationSettings({ businessId, business }: { businessId: numb
       setSlotDuration(String(business.reservationSlotDurationMinutes ?? 90));
       setLeadTime(String(business.reservationLeadTimeHours ?? 2));
       setBookingWindow(String(business.reservationMaxDaysAhead ?? 30));
+      setTurnTimes((business.reservationTurnTimes || []).map((t: { maxPartySize: number; minutes: number }) => ({
+        maxPartySize: String(t.maxPartySize),
+        minutes: String(t.minutes),
+      })));
     }
   }, [business]);
 
@@ -323,9 +330,19 @@ export function ReservationSettings({ businessId, business }: { businessId: numb
       reservationSlotDurationMinutes: parseInt(slotDuration),
       reservationLeadTimeHours: parseInt(leadTime),
       reservationMaxDaysAhead: parseInt(bookingWindow),
+      reservationTurnTimes: turnTimes.length > 0
+        ? turnTimes
+            .map((t) => ({ maxPartySize: parseInt(t.maxPartySize), minutes: parseInt(t.minutes) }))
+            .filter((t) => t.maxPartySize > 0)
+            .sort((a, b) => a.maxPartySize - b.maxPartySize)
+        : null,
     });
   };
 
+  const updateTurnTime = (index: number, field: "maxPartySize" | "minutes", value: string) => {
+    setTurnTimes((prev) => prev.map((t, i) => (i === index ? { ...t, [field]: value } : t)));
+  };
+
   const bookingUrl = business?.bookingSlug
     ? `${window.location.origin}/book/${business.bookingSlug}`
     : null;
@@ -423,7 +440,7 @@ export function ReservationSettings({ businessId, business }: { businessId: numb
                     value={capacityPerSlot}
                     onChange={(e) => setCapacityPerSlot(e.target.value)}
                   />
-                  <p className="text-xs text-muted-foreground">Total seats available per time slot</p>
+                  <p className="text-xs text-muted-foreground">Total seats per time slot — only used until you add tables</p>
                 </div>
 
                 {/* Reservation Duration */}
@@ -440,7 +457,7 @@ export function ReservationSettings({ businessId, business }: { businessId: numb
                       <SelectItem value="120">2 hours</SelectItem>
                     </SelectContent>
                   </Select>
-                  <p className="text-xs text-muted-foreground">How long each reservation occupies a table</p>
+                  <p className="text-xs text-muted-foreground">How long a party holds its table, unless a turn time below applies</p>
                 </div>
 
                 {/* Minimum Notice */}
@@ -480,6 +497,57 @@ export function ReservationSettings({ businessId, business }: { businessId: numb
                   <p className="text-xs text-muted-foreground">How far into the future customers can reserve</p>
                 </div>
               </div>
+
+              {/* Turn Times */}
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm font-medium">Turn Times by Party Size</p>
+                    <p className="text-xs text-muted-foreground">
+                      Larger parties usually stay longer. Parties above every row use the reservation duration.
+                    </p>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setTurnTimes((prev) => [...prev, { maxPartySize: "2", minutes: "60" }])}
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add
+                  </Button>
+                </div>
+                {turnTimes.map((turnTime, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <span className="text-sm text-muted-foreground whitespace-nowrap">Up to</span>
+                    <Input
+                      type="number"
+                      min="1"
+                      max="50"
+                      className="w-20"
+                      value={turnTime.maxPartySize}
+                      onChange={(e) => updateTurnTime(index, "maxPartySize", e.target.value)}
+                    />
+                    <span className="text-sm text-muted-foreground whitespace-nowrap">guests hold a table for</span>
+                    <Select value={turnTime.minutes} onValueChange={(v) => updateTurnTime(index, "minutes", v)}>
+                      <SelectTrigger className="w-32">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {[45, 60, 75, 90, 105, 120, 150, 180].map((m) => (
+                          <SelectItem key={m} value={String(m)}>{m} minutes</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setTurnTimes((prev) => prev.filter((_, i) => i !== index))}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
             </>
           )}
 
@@ -494,6 +562,10 @@ export function ReservationSettings({ businessId, business }: { businessId: numb
         </CardContent>
       </Card>
 
+      {reservationEnabled && <TableSettings />}
+
+      <WaitlistSettings business={business} />
+
       {/* External Platform Integrations (Coming Soon) */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
         <ReservationPlatformCard
@@ -0,0 +1,263 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/api";
+import type { RestaurantTableData } from "@/components/appointments/appointmentHelpers";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Armchair, Link2, Loader2, Pencil, Plus, Trash2, X } from "lucide-react";
+
+interface TableForm {
+  name: string;
+  capacity: string;
+  minCapacity: string;
+  section: string;
+  combineGroup: string;
+  shape: string;
+}
+
+const EMPTY_FORM: TableForm = { name: "", capacity: "4", minCapacity: "1", section: "", combineGroup: "", shape: "square" };
+
+function toForm(table: RestaurantTableData): TableForm {
+  return {
+    name: table.name,
+    capacity: String(table.capacity),
+    minCapacity: String(table.minCapacity ?? 1),
+    section: table.section || "",
+    combineGroup: table.combineGroup || "",
+    shape: table.shape || "square",
+  };
+}
+
+/**
+ * Floor plan tables used for automatic table assignment. With no active
+ * tables, reservations fall back to the per-slot cover capacity.
+ */
+export function TableSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<TableForm>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<number | null>(null);
+
+  const { data: tables = [], isLoading } = useQuery<RestaurantTableData[]>({
+    queryKey: ["/api/restaurant-tables"],
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/restaurant-tables"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/restaurant-floor"] });
+  };
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error?.message?.replace(/^\d+:\s*/, "") || "Failed to save table.",
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (data: Record<string, unknown>) =>
+      editingId
+        ? apiRequest("PUT", `/api/restaurant-tables/${editingId}`, data)
+        : apiRequest("POST", "/api/restaurant-tables", { ...data, sortOrder: tables.length }),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: editingId ? "Table Updated" : "Table Added" });
+      setForm(EMPTY_FORM);
+      setEditingId(null);
+    },
+    onError,
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: ({ id, active }: { id: number; active: boolean }) =>
+      apiRequest("PUT", `/api/restaurant-tables/${id}`, { active }),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/restaurant-tables/${id}`),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Table Removed" });
+    },
+    onError,
+  });
+
+  const handleSave = () => {
+    if (!form.name.trim()) {
+      toast({ title: "Name required", description: "Give the table a name like T1 or Patio 4.", variant: "destructive" });
+      return;
+    }
+    saveMutation.mutate({
+      name: form.name.trim(),
+      capacity: parseInt(form.capacity) || 1,
+      minCapacity: parseInt(form.minCapacity) || 1,
+      section: form.section.trim() || null,
+      combineGroup: form.combineGroup.trim() || null,
+      shape: form.shape,
+    });
+  };
+
+  const startEdit = (table: RestaurantTableData) => {
+    setEditingId(table.id);
+    setForm(toForm(table));
+  };
+
+  const cancelEdit = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const activeSeats = tables.filter((t) => t.active !== false).reduce((sum, t) => sum + t.capacity, 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Armchair className="h-5 w-5 text-muted-foreground" />
+          Tables
+        </CardTitle>
+        <CardDescription>
+          Reservations are assigned to a real table that fits the party. Tables with the same combine group
+          can be pushed together for larger parties.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Add / edit form */}
+        <div className="grid grid-cols-2 md:grid-cols-6 gap-2 items-end">
+          <div className="space-y-1 col-span-2 md:col-span-1">
+            <label className="text-xs font-medium">Name</label>
+            <Input value={form.name} placeholder="T1" onChange={(e) => setForm({ ...form, name: e.target.value })} />
+          </div>
+          <div className="space-y-1">
+            <label className="text-xs font-medium">Seats</label>
+            <Input
+              type="number"
+              min="1"
+              max="50"
+              value={form.capacity}
+              onChange={(e) => setForm({ ...form, capacity: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <label className="text-xs font-medium">Min party</label>
+            <Input
+              type="number"
+              min="1"
+              max="50"
+              value={form.minCapacity}
+              onChange={(e) => setForm({ ...form, minCapacity: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <label className="text-xs font-medium">Section</label>
+            <Input value={form.section} placeholder="Main" onChange={(e) => setForm({ ...form, section: e.target.value })} />
+          </div>
+          <div className="space-y-1">
+            <label className="text-xs font-medium">Combine group</label>
+            <Input
+              value={form.combineGroup}
+              placeholder="Optional"
+              onChange={(e) => setForm({ ...form, combineGroup: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <label className="text-xs font-medium">Shape</label>
+            <Select value={form.shape} onValueChange={(shape) => setForm({ ...form, shape })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="square">Square</SelectItem>
+                <SelectItem value="round">Round</SelectItem>
+                <SelectItem value="booth">Booth</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button size="sm" onClick={handleSave} disabled={saveMutation.isPending}>
+            {saveMutation.isPending ? (
+              <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+            ) : editingId ? (
+              <Pencil className="h-4 w-4 mr-1" />
+            ) : (
+              <Plus className="h-4 w-4 mr-1" />
+            )}
+            {editingId ? "Update Table" : "Add Table"}
+          </Button>
+          {editingId && (
+            <Button size="sm" variant="ghost" onClick={cancelEdit}>
+              <X className="h-4 w-4 mr-1" />
+              Cancel
+            </Button>
+          )}
+        </div>
+
+        {/* Table list */}
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : tables.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6 border rounded-lg border-dashed">
+            No tables yet — reservations use the capacity per time slot until you add some.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            <p className="text-xs text-muted-foreground">
+              {tables.filter((t) => t.active !== false).length} active tables · {activeSeats} seats
+            </p>
+            {tables.map((table) => (
+              <div
+                key={table.id}
+                className={`flex items-center justify-between gap-2 rounded-lg border p-3 ${
+                  editingId === table.id ? "ring-2 ring-primary" : ""
+                } ${table.active === false ? "opacity-60" : ""}`}
+              >
+                <div className="flex items-center gap-3 min-w-0">
+                  <span className="font-medium">{table.name}</span>
+                  <span className="text-sm text-muted-foreground">
+                    {(table.minCapacity ?? 1) > 1 ? `${table.minCapacity}–${table.capacity}` : table.capacity} seats
+                  </span>
+                  {table.section && <Badge variant="outline">{table.section}</Badge>}
+                  {table.combineGroup && (
+                    <Badge variant="secondary" className="gap-1">
+                      <Link2 className="h-3 w-3" />
+                      {table.combineGroup}
+                    </Badge>
+                  )}
+                </div>
+                <div className="flex items-center gap-1">
+                  <Switch
+                    checked={table.active !== false}
+                    onCheckedChange={(active) => toggleMutation.mutate({ id: table.id, active })}
+                    aria-label="Active"
+                  />
+                  <Button variant="ghost" size="icon" onClick={() => startEdit(table)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => deleteMutation.mutate(table.id)}
+                    disabled={deleteMutation.isPending}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
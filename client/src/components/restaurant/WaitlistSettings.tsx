@@ -0,0 +1,139 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/api";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ClipboardList, Download, ExternalLink, Loader2 } from "lucide-react";
+
+interface WaitlistQr {
+  url: string;
+  qrCode: string;
+}
+
+/**
+ * Walk-in waitlist: on/off, the minutes quoted per party ahead, and the QR
+ * code guests scan to join from the door.
+ */
+export function WaitlistSettings({ business }: { business: any }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [enabled, setEnabled] = useState(false);
+  const [minutesPerParty, setMinutesPerParty] = useState("10");
+
+  useEffect(() => {
+    if (business) {
+      setEnabled(business.waitlistEnabled ?? false);
+      setMinutesPerParty(String(business.waitlistMinutesPerParty ?? 10));
+    }
+  }, [business]);
+
+  const { data: qr, isLoading: qrLoading } = useQuery<WaitlistQr>({
+    queryKey: ["/api/waitlist/qr"],
+    enabled: !!business?.waitlistEnabled && !!business?.bookingSlug,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: (data: Record<string, unknown>) => apiRequest("PATCH", "/api/booking-settings", data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/business"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/waitlist"] });
+      toast({ title: "Waitlist Settings Saved" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error?.message?.replace(/^\d+:\s*/, "") || "Failed to save waitlist settings.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardList className="h-5 w-5 text-muted-foreground" />
+          Walk-in Waitlist
+        </CardTitle>
+        <CardDescription>
+          Quote waits from a real queue. Guests join from the host stand, by calling the AI receptionist or by
+          scanning a QR code, and get a text when their table is ready.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between rounded-lg border p-4">
+          <div className="space-y-0.5">
+            <p className="text-base font-medium">Enable Waitlist</p>
+            <p className="text-sm text-muted-foreground">Manage the line from the Waitlist tab on Reservations</p>
+          </div>
+          <Switch checked={enabled} onCheckedChange={setEnabled} />
+        </div>
+
+        {enabled && (
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Quoted Wait per Party</label>
+            <Select value={minutesPerParty} onValueChange={setMinutesPerParty}>
+              <SelectTrigger className="md:w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {[5, 10, 15, 20, 30].map((m) => (
+                  <SelectItem key={m} value={String(m)}>{m} minutes</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              A new party is quoted this for every party ahead of them. Hosts can override the quote.
+            </p>
+          </div>
+        )}
+
+        {business?.waitlistEnabled && (
+          !business?.bookingSlug ? (
+            <p className="text-sm text-muted-foreground">Set up your booking page URL to get a waitlist QR code.</p>
+          ) : qrLoading || !qr ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <div className="flex flex-col sm:flex-row items-center gap-4 rounded-lg border p-4">
+              <img src={qr.qrCode} alt="Waitlist QR code" className="h-36 w-36 rounded border bg-white" />
+              <div className="space-y-2 min-w-0">
+                <p className="text-sm font-medium">Print this at the door</p>
+                <code className="block text-xs bg-muted px-2 py-1 rounded truncate">{qr.url}</code>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" asChild>
+                    <a href={qr.qrCode} download="waitlist-qr.png">
+                      <Download className="h-4 w-4 mr-1" />
+                      Download
+                    </a>
+                  </Button>
+                  <Button variant="outline" size="sm" asChild>
+                    <a href={qr.url} target="_blank" rel="noopener noreferrer">
+                      <ExternalLink className="h-4 w-4 mr-1" />
+                      Open
+                    </a>
+                  </Button>
+                </div>
+              </div>
+            </div>
+          )
+        )}
+
+        <Button
+          onClick={() => saveMutation.mutate({
+            waitlistEnabled: enabled,
+            waitlistMinutesPerParty: parseInt(minutesPerParty),
+          })}
+          disabled={saveMutation.isPending}
+          className="w-full"
+        >
+          {saveMutation.isPending ? "Saving..." : "Save Waitlist Settings"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,98 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/api";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+const HOLD_OPTIONS = [5, 10, 15, 30, 60];
+
+/**
+ * Appointment waitlist: on/off and how long a cancelled slot is held for each
+ * waitlisted customer before it's offered to the next one.
+ */
+export default function AppointmentWaitlistSettings({ business }: { business: any }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [enabled, setEnabled] = useState(false);
+  const [holdMinutes, setHoldMinutes] = useState("15");
+
+  useEffect(() => {
+    if (business) {
+      setEnabled(business.appointmentWaitlistEnabled ?? false);
+      setHoldMinutes(String(business.appointmentWaitlistHoldMinutes ?? 15));
+    }
+  }, [business]);
+
+  const saveMutation = useMutation({
+    mutationFn: (data: Record<string, unknown>) => apiRequest("PATCH", "/api/booking-settings", data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/business"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/appointment-waitlist"] });
+      toast({ title: "Waitlist Settings Saved" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error?.message?.replace(/^\d+:\s*/, "") || "Failed to save waitlist settings.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Cancellation Waitlist</CardTitle>
+        <CardDescription>
+          Refill cancelled appointments automatically. Waiting customers are texted the open slot one at a time,
+          and the first to reply YES is booked.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between rounded-lg border p-4">
+          <div className="space-y-0.5">
+            <p className="text-base font-medium">Enable Waitlist</p>
+            <p className="text-sm text-muted-foreground">
+              Customers can join from your booking page when no time works, or you can add them from Appointments
+            </p>
+          </div>
+          <Switch checked={enabled} onCheckedChange={setEnabled} />
+        </div>
+
+        {enabled && (
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Hold Each Offer For</label>
+            <Select value={holdMinutes} onValueChange={setHoldMinutes}>
+              <SelectTrigger className="md:w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {HOLD_OPTIONS.map((m) => (
+                  <SelectItem key={m} value={String(m)}>{m} minutes</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              While a customer is deciding, the slot is hidden from your booking page. If they don't answer in time,
+              the next customer in line gets it.
+            </p>
+          </div>
+        )}
+
+        <Button
+          onClick={() => saveMutation.mutate({
+            appointmentWaitlistEnabled: enabled,
+            appointmentWaitlistHoldMinutes: parseInt(holdMinutes),
+          })}
+          disabled={saveMutation.isPending}
+          className="w-full"
+        >
+          {saveMutation.isPending ? "Saving..." : "Save Waitlist Settings"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -42,6 +42,8 @@ import {
   Loader2,
   Code,
 } from "lucide-react";
+import CancellationPolicySettings from "./CancellationPolicySettings";
+import AppointmentWaitlistSettings from "./AppointmentWaitlistSettings";
 
 // Booking Settings Schema
 const bookingSettingsSchema = z.object({
@@ -553,6 +555,12 @@ export default function BookingSettings({ business }: BookingSettingsProps) {
           </Form>
         </CardContent>
       </Card>
+
+      {/* Late-cancel / no-show fees */}
+      <CancellationPolicySettings business={business} />
+
+      {/* Cancellation waitlist (appointments only) */}
+      {business?.industry !== "restaurant" && <AppointmentWaitlistSettings business={business} />}
     </div>
   );
 }
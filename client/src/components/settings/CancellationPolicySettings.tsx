@@ -0,0 +1,264 @@
+import { useEffect } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AlertCircle, Loader2 } from "lucide-react";
+
+// "" = use the industry default window
+const WINDOW_OPTIONS = ["", "2", "4", "12", "24", "48", "72"];
+
+const cancellationPolicySchema = z.object({
+  cancellationFeeEnabled: z.boolean(),
+  lateCancelWindowHours: z.string(),
+  lateCancelFee: z.coerce.number().min(0, "Fee can't be negative").max(10000),
+  noShowFee: z.coerce.number().min(0, "Fee can't be negative").max(10000),
+  cancellationFeeAutoCharge: z.boolean(),
+  cancellationPolicyText: z.string().max(2000),
+});
+
+type CancellationPolicyFormData = z.infer<typeof cancellationPolicySchema>;
+
+function toFormValues(business: any): CancellationPolicyFormData {
+  return {
+    cancellationFeeEnabled: business?.cancellationFeeEnabled || false,
+    lateCancelWindowHours: business?.lateCancelWindowHours ? String(business.lateCancelWindowHours) : "",
+    lateCancelFee: parseFloat(business?.lateCancelFee ?? "0") || 0,
+    noShowFee: parseFloat(business?.noShowFee ?? "0") || 0,
+    cancellationFeeAutoCharge: business?.cancellationFeeAutoCharge || false,
+    cancellationPolicyText: business?.cancellationPolicyText || "",
+  };
+}
+
+export default function CancellationPolicySettings({ business }: { business: any }) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const stripeConnected = business?.stripeConnectStatus === "active";
+
+  const form = useForm<CancellationPolicyFormData>({
+    resolver: zodResolver(cancellationPolicySchema),
+    defaultValues: toFormValues(business),
+  });
+
+  useEffect(() => {
+    if (business) form.reset(toFormValues(business));
+  }, [business]);
+
+  const updatePolicyMutation = useMutation({
+    mutationFn: async (data: CancellationPolicyFormData) => {
+      const res = await fetch("/api/booking-settings", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...data,
+          lateCancelWindowHours: data.lateCancelWindowHours ? parseInt(data.lateCancelWindowHours) : null,
+          cancellationPolicyText: data.cancellationPolicyText.trim() || null,
+        }),
+        credentials: "include",
+      });
+      const responseData = await res.json();
+      if (!res.ok) {
+        throw new Error(responseData.error || "Failed to update cancellation policy");
+      }
+      return responseData;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/business"] });
+      toast({
+        title: "Settings Saved",
+        description: "Your cancellation policy has been updated.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error?.message || "Failed to update cancellation policy",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const enabled = form.watch("cancellationFeeEnabled");
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Cancellation &amp; No-Show Fees</CardTitle>
+        <CardDescription>
+          Show a cancellation policy at booking and charge a fee for late cancellations and no-shows
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => updatePolicyMutation.mutate(data))} className="space-y-6">
+            <FormField
+              control={form.control}
+              name="cancellationFeeEnabled"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-lg border p-4">
+                  <div className="space-y-0.5">
+                    <FormLabel className="text-base">Enforce Cancellation Policy</FormLabel>
+                    <FormDescription>
+                      Customers must accept the policy to book online
+                    </FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            {enabled && !stripeConnected && (
+              <div className="flex items-start gap-2 rounded-md bg-amber-50 dark:bg-amber-900/20 p-3 text-sm text-amber-800 dark:text-amber-300">
+                <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                <span>
+                  Connect Stripe under Payments to collect a card at booking. Until then the policy is shown
+                  and accepted, but fees can't be charged.
+                </span>
+              </div>
+            )}
+
+            {enabled && (
+              <>
+                <FormField
+                  control={form.control}
+                  name="lateCancelWindowHours"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Late Cancellation Window</FormLabel>
+                      <Select value={field.value || "default"} onValueChange={(v) => field.onChange(v === "default" ? "" : v)}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {WINDOW_OPTIONS.map((hours) => (
+                            <SelectItem key={hours || "default"} value={hours || "default"}>
+                              {hours ? `${hours} hours before` : "Industry default"}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>
+                        Cancelling inside this window incurs the late cancellation fee
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="lateCancelFee"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Late Cancellation Fee ($)</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={0} step="0.01" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="noShowFee"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>No-Show Fee ($)</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={0} step="0.01" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="cancellationFeeAutoCharge"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center justify-between rounded-lg border p-4">
+                      <div className="space-y-0.5">
+                        <FormLabel className="text-base">Charge Automatically</FormLabel>
+                        <FormDescription>
+                          Charge the card on file as soon as a fee applies. When off, fees wait on the
+                          appointment for you to charge or waive.
+                        </FormDescription>
+                      </div>
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} disabled={!stripeConnected} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="cancellationPolicyText"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Policy Text (Optional)</FormLabel>
+                      <FormControl>
+                        <Textarea
+                          {...field}
+                          rows={3}
+                          placeholder="Leave blank to generate the policy from the window and fees above"
+                        />
+                      </FormControl>
+                      <FormDescription>Shown to customers on the booking page</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </>
+            )}
+
+            <Button type="submit" disabled={updatePolicyMutation.isPending}>
+              {updatePolicyMutation.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                "Save Cancellation Policy"
+              )}
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
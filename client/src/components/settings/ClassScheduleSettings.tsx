@@ -0,0 +1,299 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/api";
+import type { ClassScheduleData, StaffData } from "@/components/appointments/appointmentHelpers";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CalendarClock, Loader2, Pencil, Plus, Trash2, X } from "lucide-react";
+
+interface ServiceOption {
+  id: number;
+  name: string;
+  classCapacity?: number | null;
+}
+
+interface ScheduleForm {
+  serviceId: string;
+  staffId: string;
+  dayOfWeek: string;
+  startTime: string;
+  capacity: string;
+}
+
+const DAYS = ["monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday"];
+const ANY = "any";
+const EMPTY_FORM: ScheduleForm = { serviceId: "", staffId: ANY, dayOfWeek: "monday", startTime: "09:00", capacity: "" };
+
+function toForm(schedule: ClassScheduleData): ScheduleForm {
+  return {
+    serviceId: String(schedule.serviceId),
+    staffId: schedule.staffId ? String(schedule.staffId) : ANY,
+    dayOfWeek: schedule.dayOfWeek,
+    startTime: schedule.startTime,
+    capacity: schedule.capacity ? String(schedule.capacity) : "",
+  };
+}
+
+function formatStartTime(time: string): string {
+  const [h, m] = time.split(":").map(Number);
+  return new Date(2000, 0, 1, h, m).toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" });
+}
+
+/**
+ * Weekly timetable for group classes ("Spin, Saturdays 9:00"). Sessions are
+ * created from it automatically as customers and staff look ahead.
+ */
+export function ClassScheduleSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<ScheduleForm>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<number | null>(null);
+
+  const { data: services = [] } = useQuery<ServiceOption[]>({
+    queryKey: ["/api/services"],
+  });
+  const classServices = services.filter((s) => !!s.classCapacity);
+
+  const { data: staff = [] } = useQuery<StaffData[]>({
+    queryKey: ["/api/staff"],
+  });
+
+  const { data: schedules = [], isLoading } = useQuery<ClassScheduleData[]>({
+    queryKey: ["/api/class-schedules"],
+    enabled: classServices.length > 0,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/class-schedules"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/class-sessions"] });
+  };
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error?.message?.replace(/^\d+:\s*/, "") || "Failed to save class time.",
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (data: Record<string, unknown>) =>
+      editingId
+        ? apiRequest("PUT", `/api/class-schedules/${editingId}`, data)
+        : apiRequest("POST", "/api/class-schedules", data),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: editingId ? "Class Time Updated" : "Class Time Added" });
+      setForm(EMPTY_FORM);
+      setEditingId(null);
+    },
+    onError,
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: ({ id, active }: { id: number; active: boolean }) =>
+      apiRequest("PUT", `/api/class-schedules/${id}`, { active }),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/class-schedules/${id}`),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Class Time Removed" });
+    },
+    onError,
+  });
+
+  // Classes are a per-service opt-in; nothing to schedule until one exists
+  if (classServices.length === 0) return null;
+
+  const handleSave = () => {
+    if (!form.serviceId || !/^\d{2}:\d{2}$/.test(form.startTime)) {
+      toast({ title: "Class and start time required", variant: "destructive" });
+      return;
+    }
+    saveMutation.mutate({
+      serviceId: parseInt(form.serviceId),
+      staffId: form.staffId === ANY ? null : parseInt(form.staffId),
+      dayOfWeek: form.dayOfWeek,
+      startTime: form.startTime,
+      capacity: form.capacity ? parseInt(form.capacity) : null,
+    });
+  };
+
+  const startEdit = (schedule: ClassScheduleData) => {
+    setEditingId(schedule.id);
+    setForm(toForm(schedule));
+  };
+
+  const cancelEdit = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const serviceFor = (id: number) => services.find((s) => s.id === id);
+  const staffName = (id: number | null) => (id ? staff.find((s) => s.id === id)?.firstName : null);
+  const sorted = [...schedules].sort((a, b) =>
+    DAYS.indexOf(a.dayOfWeek) - DAYS.indexOf(b.dayOfWeek) || a.startTime.localeCompare(b.startTime)
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarClock className="h-5 w-5 text-muted-foreground" />
+          Class Timetable
+        </CardTitle>
+        <CardDescription>
+          Weekly times for your group classes. Customers book seats online or by phone; full classes fill a waitlist
+          that moves up automatically when someone cancels.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Add / edit form */}
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-2 items-end">
+          <div className="space-y-1 col-span-2 md:col-span-1">
+            <label className="text-xs font-medium">Class</label>
+            <Select value={form.serviceId} onValueChange={(serviceId) => setForm({ ...form, serviceId })}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose class" />
+              </SelectTrigger>
+              <SelectContent>
+                {classServices.map((service) => (
+                  <SelectItem key={service.id} value={String(service.id)}>
+                    {service.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <label className="text-xs font-medium">Day</label>
+            <Select value={form.dayOfWeek} onValueChange={(dayOfWeek) => setForm({ ...form, dayOfWeek })}>
+              <SelectTrigger className="capitalize">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DAYS.map((day) => (
+                  <SelectItem key={day} value={day} className="capitalize">
+                    {day}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <label className="text-xs font-medium">Starts</label>
+            <Input type="time" value={form.startTime} onChange={(e) => setForm({ ...form, startTime: e.target.value })} />
+          </div>
+          <div className="space-y-1">
+            <label className="text-xs font-medium">Instructor</label>
+            <Select value={form.staffId} onValueChange={(staffId) => setForm({ ...form, staffId })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Not set</SelectItem>
+                {staff.map((member) => (
+                  <SelectItem key={member.id} value={String(member.id)}>
+                    {member.firstName} {member.lastName}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <label className="text-xs font-medium">Spots</label>
+            <Input
+              type="number"
+              min="1"
+              max="500"
+              value={form.capacity}
+              placeholder={String(serviceFor(parseInt(form.serviceId))?.classCapacity ?? "")}
+              onChange={(e) => setForm({ ...form, capacity: e.target.value })}
+            />
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button size="sm" onClick={handleSave} disabled={saveMutation.isPending}>
+            {saveMutation.isPending ? (
+              <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+            ) : editingId ? (
+              <Pencil className="h-4 w-4 mr-1" />
+            ) : (
+              <Plus className="h-4 w-4 mr-1" />
+            )}
+            {editingId ? "Update Class Time" : "Add Class Time"}
+          </Button>
+          {editingId && (
+            <Button size="sm" variant="ghost" onClick={cancelEdit}>
+              <X className="h-4 w-4 mr-1" />
+              Cancel
+            </Button>
+          )}
+        </div>
+
+        {/* Timetable */}
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : sorted.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6 border rounded-lg border-dashed">
+            No class times yet — add one to open it for booking.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {sorted.map((schedule) => {
+              const service = serviceFor(schedule.serviceId);
+              const instructor = staffName(schedule.staffId);
+              return (
+                <div
+                  key={schedule.id}
+                  className={`flex items-center justify-between gap-2 rounded-lg border p-3 ${
+                    editingId === schedule.id ? "ring-2 ring-primary" : ""
+                  } ${schedule.active === false ? "opacity-60" : ""}`}
+                >
+                  <div className="flex items-center gap-3 min-w-0">
+                    <span className="font-medium capitalize">{schedule.dayOfWeek}</span>
+                    <span className="text-sm">{formatStartTime(schedule.startTime)}</span>
+                    <Badge variant="outline">{service?.name || "Unknown class"}</Badge>
+                    <span className="text-sm text-muted-foreground">
+                      {schedule.capacity ?? service?.classCapacity} spots
+                      {instructor && ` · ${instructor}`}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <Switch
+                      checked={schedule.active !== false}
+                      onCheckedChange={(active) => toggleMutation.mutate({ id: schedule.id, active })}
+                      aria-label="Active"
+                    />
+                    <Button variant="ghost" size="icon" onClick={() => startEdit(schedule)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => deleteMutation.mutate(schedule.id)}
+                      disabled={deleteMutation.isPending}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
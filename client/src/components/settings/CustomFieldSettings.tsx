@@ -0,0 +1,291 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type { CustomFieldDefinition } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/api";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ListPlus, Loader2, Pencil, Plus, Trash2, X } from "lucide-react";
+import type { CustomFieldEntityType } from "@/components/custom-fields/CustomFieldInputs";
+
+type FieldType = "text" | "number" | "date" | "select" | "boolean";
+
+interface FieldForm {
+  label: string;
+  fieldType: FieldType;
+  options: string;
+  askOnCalls: boolean;
+}
+
+const ENTITY_TABS: Array<{ value: CustomFieldEntityType; label: string; example: string }> = [
+  { value: "customer", label: "Customers", example: "Gate code, Dog's name, Square footage" },
+  { value: "job", label: "Jobs", example: "Insurance claim #, Permit number" },
+  { value: "appointment", label: "Appointments", example: "Room preference, Referral source" },
+];
+
+const FIELD_TYPES: Array<{ value: FieldType; label: string }> = [
+  { value: "text", label: "Text" },
+  { value: "number", label: "Number" },
+  { value: "date", label: "Date" },
+  { value: "select", label: "Choice" },
+  { value: "boolean", label: "Yes / No" },
+];
+
+const EMPTY_FORM: FieldForm = { label: "", fieldType: "text", options: "", askOnCalls: false };
+
+function parseOptions(options: string): string[] {
+  return options.split(",").map((option) => option.trim()).filter(Boolean);
+}
+
+/**
+ * Extra fields the owner adds to customers, jobs and appointments. They show
+ * on each record's page, in CSV exports and imports, as customer list and
+ * campaign filters, and customer fields can be collected by the AI
+ * receptionist on calls.
+ */
+export function CustomFieldSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [entityType, setEntityType] = useState<CustomFieldEntityType>("customer");
+  const [form, setForm] = useState<FieldForm | null>(null);
+  const [editing, setEditing] = useState<CustomFieldDefinition | null>(null);
+
+  const { data: allFields = [], isLoading } = useQuery<CustomFieldDefinition[]>({
+    queryKey: ["/api/custom-fields"],
+  });
+  const fields = allFields.filter((field) => field.entityType === entityType);
+
+  // Also refreshes the per-entity lists the record pages use
+  const invalidate = () =>
+    queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/custom-fields") });
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error?.message?.replace(/^\d+:\s*/, "") || "Failed to save field.",
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (data: FieldForm) => {
+      const payload = {
+        label: data.label.trim(),
+        options: data.fieldType === "select" ? parseOptions(data.options) : undefined,
+        askOnCalls: entityType === "customer" ? data.askOnCalls : false,
+      };
+      return editing
+        ? apiRequest("PUT", `/api/custom-fields/${editing.id}`, payload)
+        : apiRequest("POST", "/api/custom-fields", { ...payload, entityType, fieldType: data.fieldType });
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: editing ? "Field Updated" : "Field Added" });
+      setForm(null);
+      setEditing(null);
+    },
+    onError,
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: ({ id, active }: { id: number; active: boolean }) =>
+      apiRequest("PUT", `/api/custom-fields/${id}`, { active }),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/custom-fields/${id}`),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Field Removed" });
+    },
+    onError,
+  });
+
+  const handleSave = () => {
+    if (!form) return;
+    if (!form.label.trim()) {
+      toast({ title: "Give the field a label", variant: "destructive" });
+      return;
+    }
+    if (form.fieldType === "select" && parseOptions(form.options).length === 0) {
+      toast({ title: "Choice fields need at least one option", variant: "destructive" });
+      return;
+    }
+    saveMutation.mutate(form);
+  };
+
+  const startEdit = (field: CustomFieldDefinition) => {
+    setEditing(field);
+    setForm({
+      label: field.label,
+      fieldType: field.fieldType as FieldType,
+      options: (field.options || []).join(", "),
+      askOnCalls: !!field.askOnCalls,
+    });
+  };
+
+  const cancelEdit = () => {
+    setEditing(null);
+    setForm(null);
+  };
+
+  const tab = ENTITY_TABS.find((t) => t.value === entityType)!;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ListPlus className="h-5 w-5 text-muted-foreground" />
+          Custom Fields
+        </CardTitle>
+        <CardDescription>
+          Add the details your team keeps track of — they show on each record, in exports and imports, and can be
+          used to filter customers and campaign audiences.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Tabs
+          value={entityType}
+          onValueChange={(value) => {
+            cancelEdit();
+            setEntityType(value as CustomFieldEntityType);
+          }}
+        >
+          <TabsList>
+            {ENTITY_TABS.map((t) => (
+              <TabsTrigger key={t.value} value={t.value}>{t.label}</TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        {!form && (
+          <Button size="sm" onClick={() => setForm({ ...EMPTY_FORM })}>
+            <Plus className="h-4 w-4 mr-1" />
+            New Field
+          </Button>
+        )}
+
+        {/* Editor */}
+        {form && (
+          <div className="rounded-lg border p-4 space-y-4">
+            <div className="grid gap-2 md:grid-cols-2">
+              <div className="space-y-1">
+                <label className="text-xs font-medium">Label</label>
+                <Input value={form.label} placeholder={tab.example.split(", ")[0]} onChange={(e) => setForm({ ...form, label: e.target.value })} />
+              </div>
+              <div className="space-y-1">
+                <label className="text-xs font-medium">Type</label>
+                <Select
+                  value={form.fieldType}
+                  onValueChange={(fieldType) => setForm({ ...form, fieldType: fieldType as FieldType })}
+                  disabled={!!editing}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {FIELD_TYPES.map((type) => (
+                      <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {editing && <p className="text-xs text-muted-foreground">The type can't change once values are saved.</p>}
+              </div>
+            </div>
+
+            {form.fieldType === "select" && (
+              <div className="space-y-1">
+                <label className="text-xs font-medium">Options</label>
+                <Input
+                  placeholder="Comma separated — Small, Medium, Large"
+                  value={form.options}
+                  onChange={(e) => setForm({ ...form, options: e.target.value })}
+                />
+              </div>
+            )}
+
+            {entityType === "customer" && (
+              <label className="flex items-center gap-2 text-sm">
+                <Switch checked={form.askOnCalls} onCheckedChange={(askOnCalls) => setForm({ ...form, askOnCalls })} />
+                AI receptionist asks callers for this when it's missing
+              </label>
+            )}
+
+            <div className="flex gap-2">
+              <Button size="sm" onClick={handleSave} disabled={saveMutation.isPending}>
+                {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                {editing ? "Update Field" : "Save Field"}
+              </Button>
+              <Button size="sm" variant="ghost" onClick={cancelEdit}>
+                <X className="h-4 w-4 mr-1" />
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* Fields */}
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : fields.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6 border rounded-lg border-dashed">
+            No {tab.label.toLowerCase()} fields yet — e.g. {tab.example}.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {fields.map((field) => (
+              <div
+                key={field.id}
+                className={`flex items-center justify-between gap-2 rounded-lg border p-3 ${
+                  editing?.id === field.id ? "ring-2 ring-primary" : ""
+                } ${field.active === false ? "opacity-60" : ""}`}
+              >
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{field.label}</span>
+                    <Badge variant="outline">{FIELD_TYPES.find((type) => type.value === field.fieldType)?.label || field.fieldType}</Badge>
+                    {field.askOnCalls && <Badge variant="secondary">Asked on calls</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground truncate">
+                    Column key <code>{field.key}</code>
+                    {field.fieldType === "select" && field.options?.length ? ` · ${field.options.join(", ")}` : ""}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1">
+                  <Switch
+                    checked={field.active !== false}
+                    onCheckedChange={(active) => toggleMutation.mutate({ id: field.id, active })}
+                    aria-label="Active"
+                  />
+                  <Button variant="ghost" size="icon" onClick={() => startEdit(field)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => {
+                      if (confirm(`Delete "${field.label}"? Saved values are hidden, and come back if you re-add the field.`)) {
+                        deleteMutation.mutate(field.id);
+                      }
+                    }}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -5,8 +5,9 @@
  *   1. Master toggle (gpsTrackingEnabled)
  *   2. Retention slider (1h–maxRetentionHours from plan tier)
  *   3. Customer share toggle + default TTL
- *   4. Disclosure editor (with version bump + "Reset to default" + warning)
- *   5. Tech consent table (per-tech status + revoke)
+ *   4. Job-site geofence (auto arrival / departure thresholds)
+ *   5. Disclosure editor (with version bump + "Reset to default" + warning)
+ *   6. Tech consent table (per-tech status + revoke)
  *
  * Gated server-side via requireGpsPlanForSettings. If the API returns 402/403,
  * we show a clean upgrade nudge instead of the panel.
@@ -44,6 +45,10 @@ interface GpsSettingsResponse {
     gpsCustomerShareEnabled: boolean;
     gpsCustomerShareMode: 'auto' | 'manual' | 'off';
     gpsCustomerShareDefaultMinutes: number;
+    gpsGeofenceEnabled: boolean;
+    gpsArrivalRadiusMeters: number;
+    gpsDepartureRadiusMeters: number;
+    gpsGeofenceConfirmPings: number;
   };
   planTier: string | null;
   maxRetentionHours: number;
@@ -69,6 +74,28 @@ const SHARE_TTL_OPTIONS = [
   { value: 1440, label: '24 hours' },
 ];
 
+const ARRIVAL_RADIUS_OPTIONS = [
+  { value: 50, label: '50 m' },
+  { value: 100, label: '100 m' },
+  { value: 150, label: '150 m (default)' },
+  { value: 250, label: '250 m' },
+  { value: 400, label: '400 m' },
+];
+
+const DEPARTURE_RADIUS_OPTIONS = [
+  { value: 150, label: '150 m' },
+  { value: 300, label: '300 m (default)' },
+  { value: 500, label: '500 m' },
+  { value: 800, label: '800 m' },
+];
+
+const CONFIRM_PING_OPTIONS = [
+  { value: 1, label: '1 update (fastest)' },
+  { value: 2, label: '2 updates (default)' },
+  { value: 3, label: '3 updates' },
+  { value: 5, label: '5 updates (most cautious)' },
+];
+
 export default function GpsTrackingSettings() {
   const { toast } = useToast();
   const qc = useQueryClient();
@@ -367,6 +394,106 @@ export default function GpsTrackingSettings() {
             </CardContent>
           </Card>
 
+          {/* Geofence */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Job Site Arrival &amp; Departure</CardTitle>
+              <CardDescription>
+                Moves an en-route job to in progress when the tech reaches the customer's address,
+                and asks them to complete it once they drive away. Arrival and departure times are
+                saved on the job for timesheets.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label className="text-base">Automatic job status</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Only applies to jobs with a mapped customer location.
+                  </p>
+                </div>
+                <Switch
+                  checked={settings.gpsGeofenceEnabled}
+                  onCheckedChange={(v) => updateSettings.mutate({ gpsGeofenceEnabled: v })}
+                  disabled={updateSettings.isPending}
+                  data-testid="gps-geofence-toggle"
+                />
+              </div>
+
+              {settings.gpsGeofenceEnabled && (
+                <>
+                  <div className="flex items-center justify-between">
+                    <Label>Arrived within</Label>
+                    <Select
+                      value={String(settings.gpsArrivalRadiusMeters)}
+                      onValueChange={(v) => updateSettings.mutate({ gpsArrivalRadiusMeters: parseInt(v, 10) })}
+                    >
+                      <SelectTrigger className="w-[200px]" data-testid="gps-arrival-radius">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ARRIVAL_RADIUS_OPTIONS.map(o => (
+                          <SelectItem
+                            key={o.value}
+                            value={String(o.value)}
+                            disabled={o.value > settings.gpsDepartureRadiusMeters}
+                          >
+                            {o.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="flex items-center justify-between">
+                    <Label>Departed beyond</Label>
+                    <Select
+                      value={String(settings.gpsDepartureRadiusMeters)}
+                      onValueChange={(v) => updateSettings.mutate({ gpsDepartureRadiusMeters: parseInt(v, 10) })}
+                    >
+                      <SelectTrigger className="w-[200px]" data-testid="gps-departure-radius">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {DEPARTURE_RADIUS_OPTIONS.map(o => (
+                          <SelectItem
+                            key={o.value}
+                            value={String(o.value)}
+                            disabled={o.value < settings.gpsArrivalRadiusMeters}
+                          >
+                            {o.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="flex items-center justify-between">
+                    <Label>Confirm after</Label>
+                    <Select
+                      value={String(settings.gpsGeofenceConfirmPings)}
+                      onValueChange={(v) => updateSettings.mutate({ gpsGeofenceConfirmPings: parseInt(v, 10) })}
+                    >
+                      <SelectTrigger className="w-[200px]" data-testid="gps-geofence-confirm">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {CONFIRM_PING_OPTIONS.map(o => (
+                          <SelectItem key={o.value} value={String(o.value)}>{o.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    The departure distance is wider than arrival so GPS drift at the curb doesn't
+                    count as leaving. Requiring more location updates avoids false triggers from
+                    drive-bys, at the cost of a slower status change.
+                  </p>
+                </>
+              )}
+            </CardContent>
+          </Card>
+
           {/* Disclosure */}
           <Card>
             <CardHeader>
@@ -0,0 +1,382 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type { JobFormField, JobFormTemplate } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/api";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowDown, ArrowUp, ClipboardList, Loader2, Pencil, Plus, Sparkles, Trash2, X } from "lucide-react";
+
+interface ServiceOption {
+  id: number;
+  name: string;
+}
+
+interface TemplateForm {
+  name: string;
+  description: string;
+  serviceIds: number[];
+  requiredForCompletion: boolean;
+  fields: JobFormField[];
+}
+
+const FIELD_TYPES: Array<{ value: JobFormField["type"]; label: string }> = [
+  { value: "checkbox", label: "Checkbox" },
+  { value: "reading", label: "Reading" },
+  { value: "text", label: "Text" },
+  { value: "select", label: "Choice" },
+  { value: "photo", label: "Photo" },
+  { value: "signature", label: "Signature" },
+];
+
+const EMPTY_FORM: TemplateForm = { name: "", description: "", serviceIds: [], requiredForCompletion: true, fields: [] };
+
+function newField(): JobFormField {
+  return { id: `f_${Math.random().toString(36).slice(2, 10)}`, label: "", type: "checkbox", required: false };
+}
+
+function toForm(template: JobFormTemplate): TemplateForm {
+  return {
+    name: template.name,
+    description: template.description || "",
+    serviceIds: template.serviceIds || [],
+    requiredForCompletion: template.requiredForCompletion !== false,
+    fields: template.fields,
+  };
+}
+
+/**
+ * Checklist templates techs fill in on jobs — checkboxes, readings with units,
+ * photos and signatures. Each attaches to jobs for the chosen services (or
+ * every job) and can be required before a job is marked completed.
+ */
+export function JobFormTemplateSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<TemplateForm | null>(null);
+  const [editingId, setEditingId] = useState<number | null>(null);
+
+  const { data: services = [] } = useQuery<ServiceOption[]>({
+    queryKey: ["/api/services"],
+  });
+
+  const { data: templates = [], isLoading } = useQuery<JobFormTemplate[]>({
+    queryKey: ["/api/job-form-templates"],
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["/api/job-form-templates"] });
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error?.message?.replace(/^\d+:\s*/, "") || "Failed to save checklist.",
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (data: TemplateForm) =>
+      editingId
+        ? apiRequest("PUT", `/api/job-form-templates/${editingId}`, data)
+        : apiRequest("POST", "/api/job-form-templates", data),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: editingId ? "Checklist Updated" : "Checklist Added" });
+      setForm(null);
+      setEditingId(null);
+    },
+    onError,
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: ({ id, active }: { id: number; active: boolean }) =>
+      apiRequest("PUT", `/api/job-form-templates/${id}`, { active }),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/job-form-templates/${id}`),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Checklist Removed" });
+    },
+    onError,
+  });
+
+  const startersMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/job-form-templates/starters"),
+    onSuccess: (created: JobFormTemplate[]) => {
+      invalidate();
+      toast({
+        title: created.length > 0 ? `Added ${created.length} starter checklist${created.length === 1 ? "" : "s"}` : "No new starters",
+        description: created.length > 0 ? "Review the fields, then attach them to services." : "Your industry's starters are already added, or there are none yet.",
+      });
+    },
+    onError,
+  });
+
+  const updateField = (index: number, changes: Partial<JobFormField>) => {
+    if (!form) return;
+    setForm({ ...form, fields: form.fields.map((field, i) => (i === index ? { ...field, ...changes } : field)) });
+  };
+
+  const moveField = (index: number, offset: number) => {
+    if (!form) return;
+    const fields = [...form.fields];
+    const [moved] = fields.splice(index, 1);
+    fields.splice(index + offset, 0, moved);
+    setForm({ ...form, fields });
+  };
+
+  const handleSave = () => {
+    if (!form) return;
+    if (!form.name.trim() || form.fields.length === 0 || form.fields.some((field) => !field.label.trim())) {
+      toast({ title: "Name the checklist and every field", variant: "destructive" });
+      return;
+    }
+    if (form.fields.some((field) => field.type === "select" && !field.options?.length)) {
+      toast({ title: "Choice fields need at least one option", variant: "destructive" });
+      return;
+    }
+    saveMutation.mutate(form);
+  };
+
+  const startEdit = (template: JobFormTemplate) => {
+    setEditingId(template.id);
+    setForm(toForm(template));
+  };
+
+  const cancelEdit = () => {
+    setEditingId(null);
+    setForm(null);
+  };
+
+  const scopeLabel = (serviceIds: number[] | null) =>
+    !serviceIds?.length
+      ? "Every job"
+      : serviceIds.map((id) => services.find((s) => s.id === id)?.name).filter(Boolean).join(", ") || "Removed services";
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardList className="h-5 w-5 text-muted-foreground" />
+          Job Checklists
+        </CardTitle>
+        <CardDescription>
+          Forms your techs fill in on site — checkboxes, readings like refrigerant pressure or amp draw, photos and
+          customer signatures. Answers go on the job report and into the briefing for the next visit.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!form && (
+          <div className="flex flex-wrap gap-2">
+            <Button size="sm" onClick={() => setForm({ ...EMPTY_FORM, fields: [newField()] })}>
+              <Plus className="h-4 w-4 mr-1" />
+              New Checklist
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => startersMutation.mutate()} disabled={startersMutation.isPending}>
+              {startersMutation.isPending ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Sparkles className="h-4 w-4 mr-1" />}
+              Add Industry Starters
+            </Button>
+          </div>
+        )}
+
+        {/* Editor */}
+        {form && (
+          <div className="rounded-lg border p-4 space-y-4">
+            <div className="grid gap-2 md:grid-cols-2">
+              <div className="space-y-1">
+                <label className="text-xs font-medium">Name</label>
+                <Input value={form.name} placeholder="AC Maintenance Checklist" onChange={(e) => setForm({ ...form, name: e.target.value })} />
+              </div>
+              <div className="space-y-1">
+                <label className="text-xs font-medium">Description</label>
+                <Input value={form.description} onChange={(e) => setForm({ ...form, description: e.target.value })} />
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <label className="text-xs font-medium">Attach to jobs for</label>
+              <p className="text-xs text-muted-foreground">Leave all unticked to attach to every job.</p>
+              <div className="flex flex-wrap gap-x-4 gap-y-2 pt-1">
+                {services.map((service) => (
+                  <label key={service.id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={form.serviceIds.includes(service.id)}
+                      onCheckedChange={(checked) =>
+                        setForm({
+                          ...form,
+                          serviceIds: checked
+                            ? [...form.serviceIds, service.id]
+                            : form.serviceIds.filter((id) => id !== service.id),
+                        })
+                      }
+                    />
+                    {service.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm">
+              <Switch
+                checked={form.requiredForCompletion}
+                onCheckedChange={(requiredForCompletion) => setForm({ ...form, requiredForCompletion })}
+              />
+              Must be submitted before the job can be completed
+            </label>
+
+            <div className="space-y-2">
+              <label className="text-xs font-medium">Fields</label>
+              {form.fields.map((field, index) => (
+                <div key={field.id} className="rounded-md border p-2 space-y-2">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Input
+                      className="flex-1 min-w-[180px]"
+                      value={field.label}
+                      placeholder="Label, e.g. Suction pressure"
+                      onChange={(e) => updateField(index, { label: e.target.value })}
+                    />
+                    <Select value={field.type} onValueChange={(type) => updateField(index, { type: type as JobFormField["type"] })}>
+                      <SelectTrigger className="w-[130px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {FIELD_TYPES.map((type) => (
+                          <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <label className="flex items-center gap-1 text-xs">
+                      <Checkbox checked={!!field.required} onCheckedChange={(checked) => updateField(index, { required: checked === true })} />
+                      Required
+                    </label>
+                    <Button variant="ghost" size="icon" disabled={index === 0} onClick={() => moveField(index, -1)} aria-label="Move up">
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" disabled={index === form.fields.length - 1} onClick={() => moveField(index, 1)} aria-label="Move down">
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setForm({ ...form, fields: form.fields.filter((_, i) => i !== index) })}
+                      aria-label="Remove field"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  {field.type === "reading" && (
+                    <div className="flex flex-wrap items-center gap-2 text-xs">
+                      <Input className="w-20" placeholder="Unit" value={field.unit || ""} onChange={(e) => updateField(index, { unit: e.target.value || null })} />
+                      <span className="text-muted-foreground">Expected</span>
+                      <Input
+                        className="w-20"
+                        type="number"
+                        placeholder="Min"
+                        value={field.min ?? ""}
+                        onChange={(e) => updateField(index, { min: e.target.value === "" ? null : Number(e.target.value) })}
+                      />
+                      <span className="text-muted-foreground">to</span>
+                      <Input
+                        className="w-20"
+                        type="number"
+                        placeholder="Max"
+                        value={field.max ?? ""}
+                        onChange={(e) => updateField(index, { max: e.target.value === "" ? null : Number(e.target.value) })}
+                      />
+                    </div>
+                  )}
+                  {field.type === "select" && (
+                    <Input
+                      placeholder="Options, comma separated — Good, Fair, Needs repair"
+                      value={(field.options || []).join(", ")}
+                      onChange={(e) =>
+                        updateField(index, { options: e.target.value.split(",").map((option) => option.trim()).filter(Boolean) })
+                      }
+                    />
+                  )}
+                </div>
+              ))}
+              <Button size="sm" variant="outline" onClick={() => setForm({ ...form, fields: [...form.fields, newField()] })}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add Field
+              </Button>
+            </div>
+
+            <div className="flex gap-2">
+              <Button size="sm" onClick={handleSave} disabled={saveMutation.isPending}>
+                {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                {editingId ? "Update Checklist" : "Save Checklist"}
+              </Button>
+              <Button size="sm" variant="ghost" onClick={cancelEdit}>
+                <X className="h-4 w-4 mr-1" />
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* Templates */}
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : templates.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6 border rounded-lg border-dashed">
+            No checklists yet — create one or start from your industry's starters.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {templates.map((template) => (
+              <div
+                key={template.id}
+                className={`flex items-center justify-between gap-2 rounded-lg border p-3 ${
+                  editingId === template.id ? "ring-2 ring-primary" : ""
+                } ${template.active === false ? "opacity-60" : ""}`}
+              >
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{template.name}</span>
+                    {template.requiredForCompletion !== false && <Badge variant="outline">Required</Badge>}
+                  </div>
+                  <p className="text-sm text-muted-foreground truncate">
+                    {template.fields.length} fields · {scopeLabel(template.serviceIds)}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1">
+                  <Switch
+                    checked={template.active !== false}
+                    onCheckedChange={(active) => toggleMutation.mutate({ id: template.id, active })}
+                    aria-label="Active"
+                  />
+                  <Button variant="ghost" size="icon" onClick={() => startEdit(template)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => {
+                      if (confirm(`Delete "${template.name}"? Forms already submitted on jobs are kept.`)) {
+                        deleteMutation.mutate(template.id);
+                      }
+                    }}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
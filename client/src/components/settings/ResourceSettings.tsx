@@ -0,0 +1,227 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/api";
+import type { ResourceData } from "@/components/appointments/appointmentHelpers";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { DoorOpen, Loader2, Pencil, Plus, Trash2, X } from "lucide-react";
+
+interface ResourceForm {
+  name: string;
+  resourceType: string;
+  capacity: string;
+}
+
+const EMPTY_FORM: ResourceForm = { name: "", resourceType: "", capacity: "1" };
+
+function toForm(resource: ResourceData): ResourceForm {
+  return {
+    name: resource.name,
+    resourceType: resource.resourceType,
+    capacity: String(resource.capacity),
+  };
+}
+
+/**
+ * Rooms, chairs, stations and lifts that services book alongside staff. A
+ * service only checks resources once it names a required type and at least
+ * one active resource of that type exists.
+ */
+export function ResourceSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<ResourceForm>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<number | null>(null);
+
+  const { data: resources = [], isLoading } = useQuery<ResourceData[]>({
+    queryKey: ["/api/resources"],
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/resources"] });
+  };
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error?.message?.replace(/^\d+:\s*/, "") || "Failed to save resource.",
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (data: Record<string, unknown>) =>
+      editingId
+        ? apiRequest("PUT", `/api/resources/${editingId}`, data)
+        : apiRequest("POST", "/api/resources", { ...data, sortOrder: resources.length }),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: editingId ? "Resource Updated" : "Resource Added" });
+      setForm(EMPTY_FORM);
+      setEditingId(null);
+    },
+    onError,
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: ({ id, active }: { id: number; active: boolean }) =>
+      apiRequest("PUT", `/api/resources/${id}`, { active }),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/resources/${id}`),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Resource Removed" });
+    },
+    onError,
+  });
+
+  const handleSave = () => {
+    if (!form.name.trim() || !form.resourceType.trim()) {
+      toast({
+        title: "Name and type required",
+        description: "e.g. \"Room 2\" of type \"Treatment room\", or \"Lift A\" of type \"Lift\".",
+        variant: "destructive",
+      });
+      return;
+    }
+    saveMutation.mutate({
+      name: form.name.trim(),
+      resourceType: form.resourceType.trim(),
+      capacity: parseInt(form.capacity) || 1,
+    });
+  };
+
+  const startEdit = (resource: ResourceData) => {
+    setEditingId(resource.id);
+    setForm(toForm(resource));
+  };
+
+  const cancelEdit = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const knownTypes = Array.from(new Set(resources.map((r) => r.resourceType)));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <DoorOpen className="h-5 w-5 text-muted-foreground" />
+          Rooms &amp; Equipment
+        </CardTitle>
+        <CardDescription>
+          Treatment rooms, color stations, lifts — anything a service can't be booked without. Capacity is how
+          many appointments it holds at once.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Add / edit form */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2 items-end">
+          <div className="space-y-1 col-span-2 md:col-span-1">
+            <label className="text-xs font-medium">Name</label>
+            <Input value={form.name} placeholder="Room 1" onChange={(e) => setForm({ ...form, name: e.target.value })} />
+          </div>
+          <div className="space-y-1 col-span-2 md:col-span-2">
+            <label className="text-xs font-medium">Type</label>
+            <Input
+              value={form.resourceType}
+              placeholder="Treatment room"
+              list="resource-types"
+              onChange={(e) => setForm({ ...form, resourceType: e.target.value })}
+            />
+            <datalist id="resource-types">
+              {knownTypes.map((type) => (
+                <option key={type} value={type} />
+              ))}
+            </datalist>
+          </div>
+          <div className="space-y-1">
+            <label className="text-xs font-medium">Capacity</label>
+            <Input
+              type="number"
+              min="1"
+              max="50"
+              value={form.capacity}
+              onChange={(e) => setForm({ ...form, capacity: e.target.value })}
+            />
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button size="sm" onClick={handleSave} disabled={saveMutation.isPending}>
+            {saveMutation.isPending ? (
+              <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+            ) : editingId ? (
+              <Pencil className="h-4 w-4 mr-1" />
+            ) : (
+              <Plus className="h-4 w-4 mr-1" />
+            )}
+            {editingId ? "Update Resource" : "Add Resource"}
+          </Button>
+          {editingId && (
+            <Button size="sm" variant="ghost" onClick={cancelEdit}>
+              <X className="h-4 w-4 mr-1" />
+              Cancel
+            </Button>
+          )}
+        </div>
+
+        {/* Resource list */}
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : resources.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6 border rounded-lg border-dashed">
+            No resources yet — appointments only check staff availability until you add some.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {resources.map((resource) => (
+              <div
+                key={resource.id}
+                className={`flex items-center justify-between gap-2 rounded-lg border p-3 ${
+                  editingId === resource.id ? "ring-2 ring-primary" : ""
+                } ${resource.active === false ? "opacity-60" : ""}`}
+              >
+                <div className="flex items-center gap-3 min-w-0">
+                  <span className="font-medium">{resource.name}</span>
+                  <Badge variant="outline">{resource.resourceType}</Badge>
+                  {resource.capacity > 1 && (
+                    <span className="text-sm text-muted-foreground">{resource.capacity} at once</span>
+                  )}
+                </div>
+                <div className="flex items-center gap-1">
+                  <Switch
+                    checked={resource.active !== false}
+                    onCheckedChange={(active) => toggleMutation.mutate({ id: resource.id, active })}
+                    aria-label="Active"
+                  />
+                  <Button variant="ghost" size="icon" onClick={() => startEdit(resource)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => deleteMutation.mutate(resource.id)}
+                    disabled={deleteMutation.isPending}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,258 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/api";
+import { formatCurrency } from "@/lib/utils";
+import type { ServiceAddonData } from "@/components/appointments/appointmentHelpers";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Pencil, Plus, Sparkles, Trash2, X } from "lucide-react";
+
+interface ServiceOption {
+  id: number;
+  name: string;
+}
+
+interface AddonForm {
+  serviceId: string;
+  name: string;
+  price: string;
+  durationMinutes: string;
+}
+
+const EMPTY_FORM: AddonForm = { serviceId: "", name: "", price: "", durationMinutes: "0" };
+
+function toForm(addon: ServiceAddonData): AddonForm {
+  return {
+    serviceId: String(addon.serviceId),
+    name: addon.name,
+    price: addon.price ?? "",
+    durationMinutes: String(addon.durationMinutes),
+  };
+}
+
+/**
+ * Extras booked on top of a service ("Hot towel" on a beard trim). Each one
+ * adds its price to the bill and its minutes to the appointment.
+ */
+export function ServiceAddonSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<AddonForm>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<number | null>(null);
+
+  const { data: services = [] } = useQuery<ServiceOption[]>({
+    queryKey: ["/api/services"],
+  });
+
+  const { data: addons = [], isLoading } = useQuery<ServiceAddonData[]>({
+    queryKey: ["/api/service-addons"],
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/service-addons"] });
+  };
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error?.message?.replace(/^\d+:\s*/, "") || "Failed to save add-on.",
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (data: Record<string, unknown>) =>
+      editingId
+        ? apiRequest("PUT", `/api/service-addons/${editingId}`, data)
+        : apiRequest("POST", "/api/service-addons", { ...data, sortOrder: addons.length }),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: editingId ? "Add-on Updated" : "Add-on Added" });
+      setForm(EMPTY_FORM);
+      setEditingId(null);
+    },
+    onError,
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: ({ id, active }: { id: number; active: boolean }) =>
+      apiRequest("PUT", `/api/service-addons/${id}`, { active }),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/service-addons/${id}`),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Add-on Removed" });
+    },
+    onError,
+  });
+
+  const handleSave = () => {
+    if (!form.serviceId || !form.name.trim()) {
+      toast({
+        title: "Service and name required",
+        description: "e.g. \"Hot towel\" on \"Beard trim\".",
+        variant: "destructive",
+      });
+      return;
+    }
+    const data: Record<string, unknown> = {
+      name: form.name.trim(),
+      price: form.price || "0",
+      durationMinutes: parseInt(form.durationMinutes) || 0,
+    };
+    if (!editingId) data.serviceId = parseInt(form.serviceId);
+    saveMutation.mutate(data);
+  };
+
+  const startEdit = (addon: ServiceAddonData) => {
+    setEditingId(addon.id);
+    setForm(toForm(addon));
+  };
+
+  const cancelEdit = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const serviceName = (id: number) => services.find((s) => s.id === id)?.name || "Unknown service";
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Sparkles className="h-5 w-5 text-muted-foreground" />
+          Service Add-ons
+        </CardTitle>
+        <CardDescription>
+          Optional extras customers can add to a service when they book online or by phone. Minutes are added to
+          the appointment length.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Add / edit form */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2 items-end">
+          <div className="space-y-1 col-span-2 md:col-span-1">
+            <label className="text-xs font-medium">Service</label>
+            <Select
+              value={form.serviceId}
+              onValueChange={(serviceId) => setForm({ ...form, serviceId })}
+              disabled={!!editingId}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Choose service" />
+              </SelectTrigger>
+              <SelectContent>
+                {services.map((service) => (
+                  <SelectItem key={service.id} value={String(service.id)}>
+                    {service.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1 col-span-2 md:col-span-1">
+            <label className="text-xs font-medium">Name</label>
+            <Input value={form.name} placeholder="Hot towel" onChange={(e) => setForm({ ...form, name: e.target.value })} />
+          </div>
+          <div className="space-y-1">
+            <label className="text-xs font-medium">Price</label>
+            <Input
+              type="number"
+              min="0"
+              step="0.01"
+              value={form.price}
+              placeholder="0.00"
+              onChange={(e) => setForm({ ...form, price: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <label className="text-xs font-medium">Extra minutes</label>
+            <Input
+              type="number"
+              min="0"
+              max="480"
+              value={form.durationMinutes}
+              onChange={(e) => setForm({ ...form, durationMinutes: e.target.value })}
+            />
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button size="sm" onClick={handleSave} disabled={saveMutation.isPending}>
+            {saveMutation.isPending ? (
+              <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+            ) : editingId ? (
+              <Pencil className="h-4 w-4 mr-1" />
+            ) : (
+              <Plus className="h-4 w-4 mr-1" />
+            )}
+            {editingId ? "Update Add-on" : "Add Add-on"}
+          </Button>
+          {editingId && (
+            <Button size="sm" variant="ghost" onClick={cancelEdit}>
+              <X className="h-4 w-4 mr-1" />
+              Cancel
+            </Button>
+          )}
+        </div>
+
+        {/* Add-on list */}
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : addons.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6 border rounded-lg border-dashed">
+            No add-ons yet — customers book each service as it is.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {addons.map((addon) => (
+              <div
+                key={addon.id}
+                className={`flex items-center justify-between gap-2 rounded-lg border p-3 ${
+                  editingId === addon.id ? "ring-2 ring-primary" : ""
+                } ${addon.active === false ? "opacity-60" : ""}`}
+              >
+                <div className="flex items-center gap-3 min-w-0">
+                  <span className="font-medium">{addon.name}</span>
+                  <Badge variant="outline">{serviceName(addon.serviceId)}</Badge>
+                  <span className="text-sm text-muted-foreground">
+                    +{formatCurrency(parseFloat(addon.price || "0"))}
+                    {addon.durationMinutes > 0 && ` · +${addon.durationMinutes} min`}
+                  </span>
+                </div>
+                <div className="flex items-center gap-1">
+                  <Switch
+                    checked={addon.active !== false}
+                    onCheckedChange={(active) => toggleMutation.mutate({ id: addon.id, active })}
+                    aria-label="Active"
+                  />
+                  <Button variant="ghost" size="icon" onClick={() => startEdit(addon)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => deleteMutation.mutate(addon.id)}
+                    disabled={deleteMutation.isPending}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
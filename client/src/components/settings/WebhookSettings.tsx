@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { Fragment, useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
@@ -9,6 +9,13 @@ import { Switch } from "@/components/ui/switch";
 import { Badge } from "@/components/ui/badge";
 import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Dialog,
   DialogContent,
@@ -32,6 +39,8 @@ import {
   ChevronDown,
   ChevronRight,
   Webhook,
+  RotateCcw,
+  AlertTriangle,
 } from "lucide-react";
 
 // ---------------------------------------------------------------------------
@@ -44,16 +53,33 @@ interface WebhookData {
   description?: string;
   events: string[];
   active: boolean;
+  consecutiveFailures?: number;
+  disabledAt?: string | null;
+  disabledReason?: string | null;
 }
 
 interface DeliveryLog {
   id: number;
-  timestamp: string;
+  webhookId: number;
   event: string;
   status: "success" | "failed" | "pending";
-  responseCode?: number;
+  url: string | null;
+  requestBody: unknown;
+  responseCode: number | null;
+  responseBody: string | null;
+  errorMessage: string | null;
+  durationMs: number | null;
+  attempts: number;
+  replayOfId: number | null;
+  createdAt: string;
 }
 
+const REPLAY_WINDOWS = [
+  { value: "24", label: "Last 24 hours" },
+  { value: "168", label: "Last 7 days" },
+  { value: "720", label: "Last 30 days" },
+];
+
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
@@ -90,62 +116,206 @@ function eventColor(event: string) {
   return EVENT_COLORS[Math.abs(hash) % EVENT_COLORS.length];
 }
 
+// ---------------------------------------------------------------------------
+// DeliveryDetail
+// ---------------------------------------------------------------------------
+
+function DeliveryDetail({ delivery }: { delivery: DeliveryLog }) {
+  return (
+    <div className="space-y-2 p-3 bg-muted/30 text-xs">
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-muted-foreground">
+        <span>Attempts: {delivery.attempts}</span>
+        {delivery.url && <span className="font-mono truncate max-w-full">{delivery.url}</span>}
+        {delivery.replayOfId && <span>Replay of #{delivery.replayOfId}</span>}
+      </div>
+      <div>
+        <p className="font-medium mb-1">Request body</p>
+        <pre className="max-h-48 overflow-auto rounded border bg-background p-2 font-mono whitespace-pre-wrap break-all">
+          {JSON.stringify(delivery.requestBody, null, 2)}
+        </pre>
+      </div>
+      <div>
+        <p className="font-medium mb-1">
+          Response{delivery.responseCode ? ` (HTTP ${delivery.responseCode})` : ""}
+        </p>
+        <pre className="max-h-32 overflow-auto rounded border bg-background p-2 font-mono whitespace-pre-wrap break-all">
+          {delivery.errorMessage || delivery.responseBody || "(empty)"}
+        </pre>
+      </div>
+    </div>
+  );
+}
+
 // ---------------------------------------------------------------------------
 // DeliveryLogSection
 // ---------------------------------------------------------------------------
 
-function DeliveryLogSection({ webhookId }: { webhookId: number }) {
+function DeliveryLogSection({ webhookId, webhookActive }: { webhookId: number; webhookActive: boolean }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [statusFilter, setStatusFilter] = useState<"all" | "failed">("all");
+  const [openId, setOpenId] = useState<number | null>(null);
+  const [replayWindow, setReplayWindow] = useState("24");
+
   const { data: deliveries, isLoading } = useQuery<DeliveryLog[]>({
-    queryKey: [`/api/webhooks/${webhookId}/deliveries`],
+    queryKey: ["/api/webhooks/deliveries", { webhookId, status: statusFilter === "all" ? undefined : statusFilter }],
   });
 
-  if (isLoading) {
-    return (
-      <div className="flex justify-center py-4">
-        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
-      </div>
-    );
-  }
+  const refreshLog = () => queryClient.invalidateQueries({ queryKey: ["/api/webhooks/deliveries"] });
 
-  if (!deliveries || deliveries.length === 0) {
-    return (
-      <p className="text-xs text-muted-foreground py-3 text-center">
-        No deliveries recorded yet.
-      </p>
-    );
-  }
+  const replayMutation = useMutation({
+    mutationFn: async (deliveryId: number) => {
+      const res = await apiRequest("POST", `/api/webhooks/deliveries/${deliveryId}/replay`);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Replay queued", description: "The delivery will be re-sent shortly." });
+      refreshLog();
+    },
+    onError: (err: Error) => {
+      toast({ title: "Replay failed", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const replayFailedMutation = useMutation({
+    mutationFn: async (hours: number) => {
+      const to = new Date();
+      const from = new Date(to.getTime() - hours * 60 * 60 * 1000);
+      const res = await apiRequest("POST", `/api/webhooks/${webhookId}/replay-failed`, {
+        from: from.toISOString(),
+        to: to.toISOString(),
+      });
+      return res.json() as Promise<{ replayed: number }>;
+    },
+    onSuccess: (data) => {
+      toast({
+        title: data.replayed > 0 ? "Replay queued" : "Nothing to replay",
+        description: data.replayed > 0
+          ? `${data.replayed} failed ${data.replayed === 1 ? "delivery" : "deliveries"} will be re-sent.`
+          : "No failed deliveries in that window.",
+      });
+      refreshLog();
+    },
+    onError: (err: Error) => {
+      toast({ title: "Replay failed", description: err.message, variant: "destructive" });
+    },
+  });
 
   return (
-    <Table>
-      <TableHeader>
-        <TableRow>
-          <TableHead className="h-8 text-xs">Timestamp</TableHead>
-          <TableHead className="h-8 text-xs">Event</TableHead>
-          <TableHead className="h-8 text-xs">Status</TableHead>
-          <TableHead className="h-8 text-xs">Response</TableHead>
-        </TableRow>
-      </TableHeader>
-      <TableBody>
-        {deliveries.map((d) => (
-          <TableRow key={d.id}>
-            <TableCell className="py-1.5 text-xs text-muted-foreground">
-              {new Date(d.timestamp).toLocaleString()}
-            </TableCell>
-            <TableCell className="py-1.5 text-xs font-mono">
-              {d.event}
-            </TableCell>
-            <TableCell className="py-1.5">
-              <Badge variant="outline" className={`text-xs ${statusColor(d.status)}`}>
-                {d.status}
-              </Badge>
-            </TableCell>
-            <TableCell className="py-1.5 text-xs font-mono text-muted-foreground">
-              {d.responseCode ?? "--"}
-            </TableCell>
-          </TableRow>
-        ))}
-      </TableBody>
-    </Table>
+    <div>
+      <div className="flex flex-wrap items-center gap-2 p-2 border-b bg-muted/20">
+        <Select value={statusFilter} onValueChange={(v) => setStatusFilter(v as "all" | "failed")}>
+          <SelectTrigger className="h-8 w-[130px] text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All deliveries</SelectItem>
+            <SelectItem value="failed">Failed only</SelectItem>
+          </SelectContent>
+        </Select>
+        <div className="flex-1" />
+        <Select value={replayWindow} onValueChange={setReplayWindow}>
+          <SelectTrigger className="h-8 w-[140px] text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {REPLAY_WINDOWS.map((w) => (
+              <SelectItem key={w.value} value={w.value}>{w.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-8 text-xs"
+          disabled={!webhookActive || replayFailedMutation.isPending}
+          title={webhookActive ? undefined : "Turn the webhook back on to replay"}
+          onClick={() => replayFailedMutation.mutate(parseInt(replayWindow, 10))}
+        >
+          {replayFailedMutation.isPending ? (
+            <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" />
+          ) : (
+            <RotateCcw className="h-3.5 w-3.5 mr-1.5" />
+          )}
+          Replay failed
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+        </div>
+      ) : !deliveries || deliveries.length === 0 ? (
+        <p className="text-xs text-muted-foreground py-3 text-center">
+          No deliveries recorded yet.
+        </p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="h-8 text-xs">Timestamp</TableHead>
+              <TableHead className="h-8 text-xs">Event</TableHead>
+              <TableHead className="h-8 text-xs">Status</TableHead>
+              <TableHead className="h-8 text-xs">Response</TableHead>
+              <TableHead className="h-8 text-xs">Latency</TableHead>
+              <TableHead className="h-8 text-xs" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {deliveries.map((d) => (
+              <Fragment key={d.id}>
+                <TableRow
+                  className="cursor-pointer"
+                  onClick={() => setOpenId(openId === d.id ? null : d.id)}
+                >
+                  <TableCell className="py-1.5 text-xs text-muted-foreground">
+                    {new Date(d.createdAt).toLocaleString()}
+                  </TableCell>
+                  <TableCell className="py-1.5 text-xs font-mono">
+                    {d.event}
+                  </TableCell>
+                  <TableCell className="py-1.5">
+                    <Badge variant="outline" className={`text-xs ${statusColor(d.status)}`}>
+                      {d.status}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="py-1.5 text-xs font-mono text-muted-foreground">
+                    {d.responseCode ?? (d.errorMessage ? "error" : "--")}
+                  </TableCell>
+                  <TableCell className="py-1.5 text-xs font-mono text-muted-foreground">
+                    {d.durationMs != null ? `${d.durationMs} ms` : "--"}
+                  </TableCell>
+                  <TableCell className="py-1.5 text-right">
+                    {d.status !== "pending" && d.event !== "test" && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 px-2 text-xs"
+                        disabled={!webhookActive || replayMutation.isPending}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          replayMutation.mutate(d.id);
+                        }}
+                      >
+                        <RotateCcw className="h-3 w-3 mr-1" />
+                        Replay
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+                {openId === d.id && (
+                  <TableRow>
+                    <TableCell colSpan={6} className="p-0">
+                      <DeliveryDetail delivery={d} />
+                    </TableCell>
+                  </TableRow>
+                )}
+              </Fragment>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
   );
 }
 
@@ -195,6 +365,18 @@ function WebhookCard({
           </div>
         </div>
 
+        {/* Auto-disabled notice */}
+        {!webhook.active && webhook.disabledAt && (
+          <div className="flex items-start gap-2 rounded-md border border-red-500/30 bg-red-500/10 p-2.5 text-xs text-red-400">
+            <AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+            <p>
+              Disabled automatically on {new Date(webhook.disabledAt).toLocaleString()}
+              {webhook.disabledReason ? ` — ${webhook.disabledReason}` : ""}. Fix the endpoint, turn it
+              back on, then replay the failed deliveries below.
+            </p>
+          </div>
+        )}
+
         {/* Event badges */}
         {webhook.events.length > 0 && (
           <div className="flex flex-wrap gap-1.5">
@@ -258,7 +440,7 @@ function WebhookCard({
         {/* Expandable delivery log */}
         {expanded && (
           <div className="border rounded-md mt-2 overflow-hidden">
-            <DeliveryLogSection webhookId={webhook.id} />
+            <DeliveryLogSection webhookId={webhook.id} webhookActive={webhook.active} />
           </div>
         )}
       </CardContent>
@@ -473,12 +655,14 @@ export default function WebhookSettings({ businessId }: { businessId: number })
       return res.json();
     },
     onSuccess: () => {
-      toast({ title: "Test sent", description: "A test event has been dispatched." });
-      // Refresh deliveries that may be expanded
-      queryClient.invalidateQueries({ queryKey: ["/api/webhooks"] });
+      toast({ title: "Test sent", description: "Your endpoint accepted the test event." });
     },
-    onError: () => {
-      toast({ title: "Error", description: "Test delivery failed.", variant: "destructive" });
+    onError: (err: Error) => {
+      toast({ title: "Test delivery failed", description: err.message, variant: "destructive" });
+    },
+    onSettled: () => {
+      // Refresh deliveries that may be expanded
+      queryClient.invalidateQueries({ queryKey: ["/api/webhooks/deliveries"] });
     },
   });
 
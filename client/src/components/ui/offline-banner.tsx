@@ -1,12 +1,15 @@
 import { useState, useEffect } from 'react';
 import { WifiOff } from 'lucide-react';
+import { useOfflineSync } from '@/lib/offline-sync';
 
 /**
- * Displays a fixed banner when the device is offline.
+ * Displays a fixed banner when the device is offline, with how many job
+ * changes are saved on the device waiting to sync.
  * Works on both web (navigator.onLine) and native (Capacitor Network plugin).
  */
 export function OfflineBanner() {
   const [isOnline, setIsOnline] = useState(true);
+  const waiting = useOfflineSync().changes.filter(change => change.status === 'pending').length;
 
   useEffect(() => {
     // Try Capacitor Network plugin first
@@ -34,7 +37,12 @@ export function OfflineBanner() {
   return (
     <div className="fixed top-0 left-0 right-0 z-[100] bg-red-600 text-white text-center py-2 text-sm flex items-center justify-center gap-2">
       <WifiOff className="h-4 w-4" />
-      You're offline. Some features may not work.
+      <span>You're offline. Some features may not work.</span>
+      {waiting > 0 && (
+        <span className="font-medium">
+          {waiting} {waiting === 1 ? 'change' : 'changes'} saved on this device.
+        </span>
+      )}
     </div>
   );
 }
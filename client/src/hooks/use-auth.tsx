@@ -233,6 +233,15 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         // Push unregister is best-effort. Never block logout on it.
       }
 
+      // Customer details cached for offline use shouldn't outlive the
+      // session. Queued changes stay and sync at the next sign-in.
+      try {
+        const mod = await import('../lib/offline-sync');
+        await mod.clearOfflineBundle();
+      } catch {
+        // Best-effort as well
+      }
+
       try {
         // Read CSRF token from cookie
         const csrfToken = document.cookie.match(/(?:^|; )csrf-token=([^;]*)/)?.[1];
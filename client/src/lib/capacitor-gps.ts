@@ -17,7 +17,7 @@
  */
 
 import { Capacitor } from '@capacitor/core';
-import { apiRequest } from './queryClient';
+import { apiRequest, queryClient } from './queryClient';
 
 export interface GpsTrackerConfig {
   sessionId: number;
@@ -231,6 +231,12 @@ export async function flushNow(): Promise<{ accepted: number; rejected: number }
       // Drop the pings we sent (whether accepted OR rejected — they were valid attempts)
       queue.splice(0, batch.length);
       await saveQueueToStorage();
+      // Server moved a job on arrival/departure — refresh any open job view
+      if (Array.isArray(json.geofence)) {
+        for (const transition of json.geofence) {
+          queryClient.invalidateQueries({ queryKey: ['/api/jobs', transition.jobId] });
+        }
+      }
       return { accepted: json.accepted ?? 0, rejected: json.rejected ?? 0 };
     } else if (resp.status === 410 || resp.status === 404) {
       // Session ended server-side. Clean up.
@@ -0,0 +1,208 @@
+/**
+ * Offline sync tests — sending straight away when online, queueing without
+ * signal, replaying in order with the version each edit was based on,
+ * folding edits of offline-only line items, and holding conflicts.
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const network = vi.hoisted(() => ({
+  connected: true,
+  listener: null as null | ((status: { connected: boolean }) => void),
+}));
+
+vi.mock('@capacitor/network', () => ({
+  Network: {
+    getStatus: () => Promise.resolve({ connected: network.connected }),
+    addListener: (_event: string, listener: (status: { connected: boolean }) => void) => {
+      network.listener = listener;
+      return Promise.resolve({ remove: () => {} });
+    },
+  },
+}));
+
+const fetchMock = vi.fn();
+
+function reply(status: number, body: unknown = {}) {
+  return Promise.resolve({ status, ok: status >= 200 && status < 300, json: () => Promise.resolve(body) });
+}
+
+function sentBody(call: number) {
+  return JSON.parse(fetchMock.mock.calls[call][1].body);
+}
+
+async function load(connected: boolean) {
+  network.connected = connected;
+  network.listener = null;
+  const { QueryClient } = await import('@tanstack/react-query');
+  const sync = await import('./offline-sync');
+  const queryClient = new QueryClient();
+  queryClient.setQueryData(sync.jobQueryKey(7), { id: 7, status: 'pending', notes: null, updatedAt: '2026-10-19T10:00:00.000Z' });
+  queryClient.setQueryData(sync.jobLineItemsQueryKey(7), []);
+  const stop = sync.startOfflineSync(queryClient, 1);
+  await vi.waitFor(() => expect(network.listener).not.toBeNull());
+  await vi.waitFor(() => expect(sync.getOfflineSyncState().online).toBe(connected));
+  return { sync, queryClient, stop };
+}
+
+function goOnline() {
+  network.connected = true;
+  network.listener!({ connected: true });
+}
+
+beforeEach(() => {
+  vi.resetModules();
+  fetchMock.mockReset();
+  vi.stubGlobal('fetch', fetchMock);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('sendJobChange', () => {
+  it('sends straight away when online', async () => {
+    const { sync, stop } = await load(true);
+    fetchMock.mockReturnValueOnce(reply(200, { id: 7, status: 'en_route' }));
+
+    const result = await sync.sendJobChange({ kind: 'job-update', jobId: 7, data: { status: 'en_route' } }, { baseUpdatedAt: '2026-10-19T10:00:00.000Z' });
+
+    expect(result).toEqual({ queued: false, data: { id: 7, status: 'en_route' } });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('/api/jobs/7');
+    expect(init.method).toBe('PUT');
+    expect(init.headers[sync.OFFLINE_MUTATION_HEADER]).toMatch(/^[A-Za-z0-9_-]{8,64}$/);
+    // Online edits are never checked for conflicts
+    expect(sentBody(0)).toEqual({ status: 'en_route' });
+    stop();
+  });
+
+  it('throws like apiRequest when the server refuses an online change', async () => {
+    const { sync, stop } = await load(true);
+    fetchMock.mockReturnValueOnce(reply(400, { message: 'Invalid status' }));
+
+    await expect(sync.sendJobChange({ kind: 'job-update', jobId: 7, data: { status: 'x' } })).rejects.toThrow('400: Invalid status');
+    expect(sync.getOfflineSyncState().changes).toHaveLength(0);
+    stop();
+  });
+
+  it('queues offline, shows the change, and replays in order once back online', async () => {
+    const { sync, queryClient, stop } = await load(false);
+
+    const first = await sync.sendJobChange({ kind: 'job-update', jobId: 7, data: { status: 'en_route' } }, { baseUpdatedAt: '2026-10-19T10:00:00.000Z' });
+    await sync.sendJobChange({ kind: 'job-update', jobId: 7, data: { notes: 'Gate code 4411' } }, { baseUpdatedAt: '2026-10-19T10:00:00.000Z' });
+
+    expect(first).toEqual({ queued: true });
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(queryClient.getQueryData<any>(sync.jobQueryKey(7))).toMatchObject({ status: 'en_route', notes: 'Gate code 4411' });
+
+    fetchMock
+      .mockReturnValueOnce(reply(200, { id: 7, updatedAt: '2026-10-19T10:05:00.000Z' }))
+      .mockReturnValueOnce(reply(200, { id: 7, updatedAt: '2026-10-19T10:06:00.000Z' }));
+    goOnline();
+    await vi.waitFor(() => expect(sync.getOfflineSyncState().changes).toHaveLength(0));
+
+    expect(sentBody(0)).toEqual({ status: 'en_route', baseUpdatedAt: '2026-10-19T10:00:00.000Z' });
+    // Checked against the version the first replay produced, not flagged as a conflict with it
+    expect(sentBody(1)).toEqual({ notes: 'Gate code 4411', baseUpdatedAt: '2026-10-19T10:05:00.000Z' });
+    const ids = fetchMock.mock.calls.map(([, init]) => init.headers[sync.OFFLINE_MUTATION_HEADER]);
+    expect(new Set(ids).size).toBe(2);
+    stop();
+  });
+
+  it('keeps the base version when a replay does not return a new one', async () => {
+    const { sync, stop } = await load(false);
+    await sync.sendJobChange({ kind: 'voice-notes', jobId: 7, transcript: 'Replaced capacitor' });
+    await sync.sendJobChange({ kind: 'job-update', jobId: 7, data: { status: 'completed' } }, { baseUpdatedAt: '2026-10-19T10:00:00.000Z' });
+
+    fetchMock
+      .mockReturnValueOnce(reply(200, { saved: true }))
+      .mockReturnValueOnce(reply(200, { id: 7 }));
+    goOnline();
+    await vi.waitFor(() => expect(sync.getOfflineSyncState().changes).toHaveLength(0));
+
+    expect(sentBody(1)).toEqual({ status: 'completed', baseUpdatedAt: '2026-10-19T10:00:00.000Z' });
+    stop();
+  });
+
+  it('keeps the queue when the replay cannot get through', async () => {
+    const { sync, stop } = await load(false);
+    await sync.sendJobChange({ kind: 'voice-notes', jobId: 7, transcript: 'Replaced capacitor' });
+
+    fetchMock.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+    goOnline();
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(1));
+    await vi.waitFor(() => expect(sync.getOfflineSyncState().syncing).toBe(false));
+
+    expect(sync.getOfflineSyncState().changes).toMatchObject([{ status: 'pending' }]);
+    stop();
+  });
+});
+
+describe('line items created offline', () => {
+  const item = { type: 'part', description: 'Capacitor', quantity: 1, unitPrice: 42, taxable: true };
+
+  it('folds edits into the queued create and sends one request', async () => {
+    const { sync, queryClient, stop } = await load(false);
+    const tempId = sync.newTempLineItemId();
+    await sync.sendJobChange({ kind: 'line-item-create', jobId: 7, tempId, data: item });
+    await sync.sendJobChange({ kind: 'line-item-update', jobId: 7, lineItemId: tempId, data: { ...item, quantity: 2 } });
+
+    expect(sync.getOfflineSyncState().changes).toHaveLength(1);
+    expect(queryClient.getQueryData<any[]>(sync.jobLineItemsQueryKey(7))).toMatchObject([{ id: tempId, quantity: 2 }]);
+
+    fetchMock.mockReturnValueOnce(reply(201, { id: 90, ...item, quantity: 2, updatedAt: '2026-10-19T10:05:00.000Z' }));
+    goOnline();
+    await vi.waitFor(() => expect(sync.getOfflineSyncState().changes).toHaveLength(0));
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0][0]).toBe('/api/jobs/7/line-items');
+    expect(sentBody(0)).toEqual({ ...item, quantity: 2 });
+    stop();
+  });
+
+  it('drops the create when the item is removed before it syncs', async () => {
+    const { sync, stop } = await load(false);
+    const tempId = sync.newTempLineItemId();
+    await sync.sendJobChange({ kind: 'line-item-create', jobId: 7, tempId, data: item });
+    await sync.sendJobChange({ kind: 'line-item-delete', jobId: 7, lineItemId: tempId });
+
+    expect(sync.getOfflineSyncState().changes).toHaveLength(0);
+    stop();
+  });
+});
+
+describe('conflicts', () => {
+  it('holds a conflict until the tech keeps their version', async () => {
+    const { sync, stop } = await load(false);
+    await sync.sendJobChange({ kind: 'job-update', jobId: 7, data: { notes: 'Mine' } }, { baseUpdatedAt: '2026-10-19T10:00:00.000Z' });
+
+    fetchMock.mockReturnValueOnce(reply(409, { message: 'This job was changed by someone else', conflict: true, current: { id: 7, notes: 'Theirs' } }));
+    goOnline();
+    await vi.waitFor(() => expect(sync.getOfflineSyncState().changes).toMatchObject([{ status: 'conflict' }]));
+    const [conflict] = sync.getOfflineSyncState().changes;
+    expect(conflict.current).toEqual({ id: 7, notes: 'Theirs' });
+
+    fetchMock.mockReturnValueOnce(reply(200, { id: 7, updatedAt: '2026-10-19T10:09:00.000Z' }));
+    sync.keepOfflineChange(conflict.id);
+    await vi.waitFor(() => expect(sync.getOfflineSyncState().changes).toHaveLength(0));
+
+    // Sent again without a base version, under the same mutation id
+    expect(sentBody(1)).toEqual({ notes: 'Mine' });
+    expect(fetchMock.mock.calls[1][1].headers[sync.OFFLINE_MUTATION_HEADER]).toBe(conflict.id);
+    stop();
+  });
+
+  it('drops a discarded change without sending it', async () => {
+    const { sync, stop } = await load(false);
+    await sync.sendJobChange({ kind: 'job-update', jobId: 7, data: { notes: 'Mine' } }, { baseUpdatedAt: '2026-10-19T10:00:00.000Z' });
+
+    fetchMock.mockReturnValueOnce(reply(409, { message: 'Changed', conflict: true, current: {} }));
+    goOnline();
+    await vi.waitFor(() => expect(sync.getOfflineSyncState().changes).toMatchObject([{ status: 'conflict' }]));
+
+    sync.discardOfflineChange(sync.getOfflineSyncState().changes[0].id);
+    expect(sync.getOfflineSyncState().changes).toHaveLength(0);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    stop();
+  });
+});
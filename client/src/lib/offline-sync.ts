@@ -0,0 +1,699 @@
+/**
+ * Offline mode for techs in the field.
+ *
+ * Techs lose signal in basements and out in the country, so the job screens
+ * have to keep working without it:
+ *
+ *   - Today's jobs (customer, equipment, line items, checklists) come down in
+ *     one bundle from GET /api/staff/me/offline-bundle, are kept on the device
+ *     in IndexedDB, and seed the same React Query keys the job screens read.
+ *   - Status changes, notes, photos, line items and checklist answers go
+ *     through sendJobChange(). Online, they're sent straight away. Offline (or
+ *     when the request can't get through), they're queued on the device, shown
+ *     right away, and replayed in order once the connection is back.
+ *   - Every queued change carries an `X-Offline-Mutation-Id` so a replay that
+ *     already landed isn't applied twice, and edits carry the `updatedAt` the
+ *     tech was looking at. If someone changed the record since, the server
+ *     answers 409 and the change waits for the tech to keep it or drop it.
+ *
+ * Falls back to memory-only storage where IndexedDB isn't available.
+ */
+
+import { useSyncExternalStore } from "react";
+import { onlineManager, type QueryClient } from "@tanstack/react-query";
+
+export const OFFLINE_MUTATION_HEADER = "X-Offline-Mutation-Id";
+export const OFFLINE_BUNDLE_QUERY_KEY = ["/api/staff/me/offline-bundle"];
+
+export function jobQueryKey(jobId: number) {
+  return ["/api/jobs", jobId];
+}
+
+export function jobLineItemsQueryKey(jobId: number) {
+  return [`/api/jobs/${jobId}/line-items`];
+}
+
+export function jobFormsQueryKey(jobId: number) {
+  return [`/api/jobs/${jobId}/forms`];
+}
+
+export interface LineItemInput {
+  type: string;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  taxable: boolean;
+}
+
+export type OfflineMutation =
+  | { kind: "job-update"; jobId: number; data: Record<string, unknown> }
+  | { kind: "line-item-create"; jobId: number; tempId: number; data: LineItemInput }
+  | { kind: "line-item-update"; jobId: number; lineItemId: number; data: LineItemInput }
+  | { kind: "line-item-delete"; jobId: number; lineItemId: number }
+  | { kind: "form-save"; jobId: number; formId: number; answers: Record<string, unknown>; submit: boolean }
+  | { kind: "form-photo"; jobId: number; formId: number; fieldId: string; blob: Blob; filename: string }
+  | { kind: "job-photo"; jobId: number; blob: Blob; filename: string; takenAt: string }
+  | { kind: "voice-notes"; jobId: number; transcript: string };
+
+export interface QueuedChange {
+  id: string;
+  queuedAt: string;
+  /** updatedAt of the record when the tech made the change; null skips the conflict check */
+  baseUpdatedAt: string | null;
+  status: "pending" | "conflict" | "failed";
+  error?: string;
+  /** The server's version of the record, when it refused the change as a conflict */
+  current?: unknown;
+  mutation: OfflineMutation;
+}
+
+export interface OfflineBundleJob {
+  id: number;
+  title: string;
+  status: string | null;
+  scheduledDate: string | null;
+  updatedAt: string | null;
+  customer: Record<string, any> | null;
+  equipment: Array<Record<string, any>>;
+  lineItems: Array<Record<string, any>>;
+  forms: Array<Record<string, any>>;
+  [key: string]: unknown;
+}
+
+export interface OfflineBundle {
+  date: string;
+  syncedAt: string;
+  jobs: OfflineBundleJob[];
+}
+
+export type SendResult = { queued: true } | { queued: false; data: any };
+
+// ─── Module state ─────────────────────────────────────────────────────────
+
+let client: QueryClient | null = null;
+let scope = "anon";
+let queue: QueuedChange[] = [];
+let online = typeof navigator === "undefined" ? true : navigator.onLine !== false;
+let syncing = false;
+let inFlightId: string | null = null;
+let nextTempId = -1;
+let idCounter = 0;
+/** Line items created offline that have since synced: placeholder id → server row */
+const syncedTempIds = new Map<number, { id: number; updatedAt: string | null }>();
+
+// ─── Device storage (IndexedDB, memory fallback) ──────────────────────────
+
+const DB_NAME = "sba-offline";
+const STORE_NAME = "kv";
+const memoryStore = new Map<string, unknown>();
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+let writeChain: Promise<void> = Promise.resolve();
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    dbPromise = new Promise(resolve => {
+      if (typeof indexedDB === "undefined") return resolve(null);
+      try {
+        const request = indexedDB.open(DB_NAME, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => resolve(null);
+      } catch {
+        resolve(null);
+      }
+    });
+  }
+  return dbPromise;
+}
+
+async function readValue<T>(key: string): Promise<T | undefined> {
+  const db = await openDb();
+  if (!db) return memoryStore.get(key) as T | undefined;
+  return new Promise(resolve => {
+    const request = db.transaction(STORE_NAME, "readonly").objectStore(STORE_NAME).get(key);
+    request.onsuccess = () => resolve(request.result as T | undefined);
+    request.onerror = () => resolve(undefined);
+  });
+}
+
+function writeValue(key: string, value: unknown): Promise<void> {
+  // Chained so an older snapshot can't land after a newer one
+  writeChain = writeChain.then(async () => {
+    const db = await openDb();
+    if (!db) {
+      if (value === undefined) memoryStore.delete(key);
+      else memoryStore.set(key, value);
+      return;
+    }
+    await new Promise<void>(resolve => {
+      const store = db.transaction(STORE_NAME, "readwrite").objectStore(STORE_NAME);
+      const request = value === undefined ? store.delete(key) : store.put(value, key);
+      request.onsuccess = () => resolve();
+      request.onerror = () => resolve();
+    });
+  });
+  return writeChain;
+}
+
+const queueKey = () => `queue:${scope}`;
+const bundleKey = () => `bundle:${scope}`;
+
+function saveQueue(): Promise<void> {
+  return writeValue(queueKey(), queue);
+}
+
+// ─── Subscribers ──────────────────────────────────────────────────────────
+
+export interface OfflineSyncState {
+  online: boolean;
+  syncing: boolean;
+  changes: QueuedChange[];
+}
+
+let snapshot: OfflineSyncState = { online, syncing, changes: queue };
+const listeners = new Set<() => void>();
+
+function notify() {
+  snapshot = { online, syncing, changes: queue.slice() };
+  listeners.forEach(listener => listener());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** Connection and queue state for banners and the sync panel */
+export function useOfflineSync(): OfflineSyncState {
+  return useSyncExternalStore(subscribe, () => snapshot, () => snapshot);
+}
+
+export function getOfflineSyncState(): OfflineSyncState {
+  return snapshot;
+}
+
+// ─── Start / stop ─────────────────────────────────────────────────────────
+
+/**
+ * Loads the signed-in user's cached jobs and queued changes, and replays the
+ * queue whenever the device comes back online. Returns a cleanup function.
+ */
+export function startOfflineSync(queryClient: QueryClient, userId: number): () => void {
+  client = queryClient;
+  scope = String(userId);
+  let stopped = false;
+  const cleanups: Array<() => void> = [];
+
+  (async () => {
+    const [storedQueue, bundle] = await Promise.all([
+      readValue<QueuedChange[]>(queueKey()),
+      readValue<OfflineBundle>(bundleKey()),
+    ]);
+    if (stopped) return;
+    // Keep anything queued since startup behind what was already waiting
+    const inMemory = new Set(queue.map(change => change.id));
+    queue = [...(Array.isArray(storedQueue) ? storedQueue : []).filter(change => !inMemory.has(change.id)), ...queue];
+    nextTempId = Math.min(nextTempId, ...queue.map(change => tempIdOf(change.mutation) - 1));
+    if (bundle && !queryClient.getQueryData(OFFLINE_BUNDLE_QUERY_KEY)) {
+      seedFromBundle(queryClient, bundle);
+    }
+    queue.filter(change => change.status === "pending").forEach(change => applyOptimistic(change));
+    notify();
+    void flushOfflineQueue();
+  })();
+
+  const handleOnline = () => setOnline(true);
+  const handleOffline = () => setOnline(false);
+  import("@capacitor/network").then(({ Network }) => {
+    if (stopped) return;
+    Network.getStatus().then(status => setOnline(status.connected));
+    const handle = Network.addListener("networkStatusChange", status => setOnline(status.connected));
+    cleanups.push(() => {
+      handle.then(listener => listener.remove()).catch(() => {});
+    });
+  }).catch(() => {
+    // Capacitor not available — use browser events
+    if (stopped) return;
+    setOnline(navigator.onLine !== false);
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    cleanups.push(() => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    });
+  });
+
+  return () => {
+    stopped = true;
+    cleanups.forEach(cleanup => cleanup());
+    client = null;
+  };
+}
+
+function setOnline(value: boolean) {
+  if (online === value) return;
+  online = value;
+  // React Query pauses queries offline instead of failing them
+  onlineManager.setOnline(value);
+  notify();
+  if (value) void flushOfflineQueue();
+}
+
+// ─── Today's jobs bundle ──────────────────────────────────────────────────
+
+/** Query function for OFFLINE_BUNDLE_QUERY_KEY — fetches, caches on the device and seeds job queries */
+export async function fetchOfflineBundle(): Promise<OfflineBundle> {
+  const res = await fetch(OFFLINE_BUNDLE_QUERY_KEY[0], { credentials: "include" });
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}));
+    throw new Error(`${res.status}: ${data.message || res.statusText}`);
+  }
+  const bundle = (await res.json()) as OfflineBundle;
+  await writeValue(bundleKey(), bundle);
+  if (client) {
+    seedFromBundle(client, bundle, false);
+    queue.filter(change => change.status === "pending").forEach(change => applyOptimistic(change));
+  }
+  return bundle;
+}
+
+/** Removes the cached customer details from the device; queued changes are kept */
+export async function clearOfflineBundle(): Promise<void> {
+  await writeValue(bundleKey(), undefined);
+}
+
+function seedFromBundle(queryClient: QueryClient, bundle: OfflineBundle, includeBundle = true) {
+  const updatedAt = new Date(bundle.syncedAt).getTime() || Date.now();
+  if (includeBundle) queryClient.setQueryData(OFFLINE_BUNDLE_QUERY_KEY, bundle, { updatedAt });
+  for (const { equipment, lineItems, forms, ...job } of bundle.jobs) {
+    queryClient.setQueryData(jobQueryKey(job.id), { staff: null, ...job, equipment }, { updatedAt });
+    queryClient.setQueryData(jobLineItemsQueryKey(job.id), lineItems, { updatedAt });
+    queryClient.setQueryData(jobFormsQueryKey(job.id), forms, { updatedAt });
+  }
+}
+
+// ─── Sending changes ──────────────────────────────────────────────────────
+
+/** Placeholder id for a line item created offline, replaced once it syncs */
+export function newTempLineItemId(): number {
+  return nextTempId--;
+}
+
+function newChangeId(): string {
+  const random = typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID().replace(/-/g, "")
+    : Math.random().toString(36).slice(2);
+  return `${Date.now().toString(36)}${(idCounter++).toString(36)}${random}`.slice(0, 40);
+}
+
+/**
+ * Sends a change now if possible, otherwise queues it on the device. Throws
+ * like apiRequest (`"<status>: <message>"`) when the server refuses an
+ * online change.
+ */
+export async function sendJobChange(
+  mutation: OfflineMutation,
+  options: { baseUpdatedAt?: string | Date | null } = {},
+): Promise<SendResult> {
+  const change: QueuedChange = {
+    id: newChangeId(),
+    queuedAt: new Date().toISOString(),
+    baseUpdatedAt: options.baseUpdatedAt ? new Date(options.baseUpdatedAt).toISOString() : null,
+    status: "pending",
+    mutation,
+  };
+  // The screen may still show a placeholder id for an item that has synced
+  if (isTempTarget(mutation)) {
+    const synced = syncedTempIds.get((mutation as { lineItemId: number }).lineItemId);
+    if (synced) {
+      (mutation as { lineItemId: number }).lineItemId = synced.id;
+      change.baseUpdatedAt = synced.updatedAt;
+    }
+  }
+
+  // Send straight away when nothing is waiting ahead of it. Changes to an
+  // item that only exists on the device fold into its queued create instead.
+  if (!isTempTarget(mutation) && online && !queue.some(queued => queued.status === "pending")) {
+    try {
+      const { status, data } = await sendChange(change, false);
+      if (status >= 200 && status < 300) return { queued: false, data };
+      throw new Error(`${status}: ${data?.message || data?.error || "Request failed"}`);
+    } catch (err) {
+      if (!isNetworkError(err)) throw err;
+    }
+  }
+
+  enqueue(change);
+  return { queued: true };
+}
+
+function isTempTarget(mutation: OfflineMutation): boolean {
+  return (mutation.kind === "line-item-update" || mutation.kind === "line-item-delete") && mutation.lineItemId < 0;
+}
+
+function isNetworkError(err: unknown): boolean {
+  // fetch rejects with a TypeError when the request never reached the server
+  return err instanceof TypeError;
+}
+
+function tempIdOf(mutation: OfflineMutation): number {
+  return mutation.kind === "line-item-create" ? mutation.tempId : 0;
+}
+
+function enqueue(change: QueuedChange) {
+  const { mutation } = change;
+  if (isTempTarget(mutation)) {
+    const lineItemId = (mutation as { lineItemId: number }).lineItemId;
+    const create = queue.find(queued =>
+      queued.mutation.kind === "line-item-create" && queued.mutation.tempId === lineItemId && queued.id !== inFlightId);
+    if (create && create.mutation.kind === "line-item-create") {
+      if (mutation.kind === "line-item-update") {
+        create.mutation.data = mutation.data;
+        applyOptimistic(change);
+      } else {
+        queue = queue.filter(queued => queued !== create);
+        applyOptimistic(change);
+      }
+      void saveQueue();
+      notify();
+      return;
+    }
+  }
+
+  queue = [...queue, change];
+  applyOptimistic(change);
+  void saveQueue();
+  notify();
+  if (online) void flushOfflineQueue();
+}
+
+// ─── Replay ───────────────────────────────────────────────────────────────
+
+/**
+ * Replays pending changes in the order they were made. Stops at the first
+ * request that can't get through (no signal, server down, signed out) and
+ * picks up from there next time.
+ */
+export async function flushOfflineQueue(): Promise<void> {
+  if (syncing || !online) return;
+  syncing = true;
+  notify();
+  const touchedJobs = new Set<number>();
+  const attempted = new Set<string>();
+
+  try {
+    for (;;) {
+      const change = queue.find(queued => queued.status === "pending" && !attempted.has(queued.id));
+      if (!change) break;
+      attempted.add(change.id);
+      inFlightId = change.id;
+
+      let result: { status: number; data: any };
+      try {
+        result = await sendChange(change, true);
+      } catch (err) {
+        if (isNetworkError(err)) break;
+        result = { status: 0, data: { message: err instanceof Error ? err.message : "Sync failed" } };
+      } finally {
+        inFlightId = null;
+      }
+
+      const { status, data } = result;
+      touchedJobs.add(change.mutation.jobId);
+      if (status >= 200 && status < 300) {
+        queue = queue.filter(queued => queued.id !== change.id);
+        afterSync(change, data);
+      } else if (status === 409 && data?.conflict) {
+        updateChange(change.id, { status: "conflict", error: data.message, current: data.current });
+      } else if (status === 401 || status === 403 || status >= 500) {
+        // Signed out or the server is struggling — try again later
+        break;
+      } else {
+        updateChange(change.id, { status: "failed", error: data?.message || data?.error || `Sync failed (${status})` });
+      }
+      await saveQueue();
+      notify();
+    }
+  } finally {
+    syncing = false;
+    notify();
+    if (client && touchedJobs.size > 0) {
+      touchedJobs.forEach(jobId => invalidateJob(client!, jobId));
+      client.invalidateQueries({ queryKey: OFFLINE_BUNDLE_QUERY_KEY });
+    }
+  }
+}
+
+function updateChange(id: string, patch: Partial<QueuedChange>) {
+  queue = queue.map(queued => (queued.id === id ? { ...queued, ...patch } : queued));
+}
+
+function recordKeyOf(mutation: OfflineMutation): string | null {
+  switch (mutation.kind) {
+    case "job-update":
+    case "job-photo":
+    case "voice-notes":
+      return `job:${mutation.jobId}`;
+    case "line-item-update":
+    case "line-item-delete":
+      return `line-item:${mutation.lineItemId}`;
+    case "form-save":
+    case "form-photo":
+      return `form:${mutation.formId}`;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Later changes to the same record were made on top of this one, so check
+ * them against the version this write produced rather than flag our own
+ * write as a conflict.
+ */
+function afterSync(change: QueuedChange, data: any) {
+  const { mutation } = change;
+  if (mutation.kind === "line-item-create" && typeof data?.id === "number") {
+    syncedTempIds.set(mutation.tempId, { id: data.id, updatedAt: data.updatedAt ?? null });
+    for (const queued of queue) {
+      const later = queued.mutation;
+      if ((later.kind === "line-item-update" || later.kind === "line-item-delete") && later.lineItemId === mutation.tempId) {
+        later.lineItemId = data.id;
+        queued.baseUpdatedAt = data.updatedAt ?? null;
+      }
+    }
+  }
+  // Without the new version, keep the old base rather than drop the check
+  const key = recordKeyOf(mutation);
+  if (!key || !data?.updatedAt) return;
+  for (const queued of queue) {
+    if (recordKeyOf(queued.mutation) === key) queued.baseUpdatedAt = data.updatedAt;
+  }
+}
+
+/** Keep the tech's version over the server's, or retry a failed change */
+export function keepOfflineChange(id: string): void {
+  const change = queue.find(queued => queued.id === id);
+  if (!change) return;
+  updateChange(id, { status: "pending", baseUpdatedAt: null, error: undefined, current: undefined });
+  applyOptimistic(change);
+  void saveQueue();
+  notify();
+  void flushOfflineQueue();
+}
+
+/** Drop a queued change and go back to what the server has */
+export function discardOfflineChange(id: string): void {
+  const change = queue.find(queued => queued.id === id);
+  if (!change || change.id === inFlightId) return;
+  queue = queue.filter(queued => queued.id !== id);
+  void saveQueue();
+  notify();
+  if (client) invalidateJob(client, change.mutation.jobId);
+}
+
+function invalidateJob(queryClient: QueryClient, jobId: number) {
+  queryClient.invalidateQueries({ queryKey: jobQueryKey(jobId) });
+  queryClient.invalidateQueries({ queryKey: jobLineItemsQueryKey(jobId) });
+  queryClient.invalidateQueries({ queryKey: jobFormsQueryKey(jobId) });
+}
+
+// ─── Requests ─────────────────────────────────────────────────────────────
+
+async function request(method: string, url: string, mutationId: string, body?: unknown): Promise<{ status: number; data: any }> {
+  const headers: Record<string, string> = { [OFFLINE_MUTATION_HEADER]: mutationId };
+  const csrfToken = document.cookie.match(/(?:^|; )csrf-token=([^;]*)/)?.[1];
+  if (csrfToken) headers["X-CSRF-Token"] = decodeURIComponent(csrfToken);
+
+  let payload: BodyInit | undefined;
+  if (body instanceof FormData) {
+    payload = body;
+  } else if (body !== undefined) {
+    headers["Content-Type"] = "application/json";
+    payload = JSON.stringify(body);
+  }
+
+  const res = await fetch(url, { method, headers, credentials: "include", body: payload });
+  const data = res.status === 204 ? null : await res.json().catch(() => null);
+  return { status: res.status, data };
+}
+
+/** Sends one change; queued replays include the base version for the conflict check */
+async function sendChange(change: QueuedChange, replay: boolean): Promise<{ status: number; data: any }> {
+  const { mutation, id } = change;
+  const base = replay && change.baseUpdatedAt ? { baseUpdatedAt: change.baseUpdatedAt } : {};
+  const jobUrl = `/api/jobs/${mutation.jobId}`;
+
+  switch (mutation.kind) {
+    case "job-update":
+      return request("PUT", jobUrl, id, { ...mutation.data, ...base });
+    case "line-item-create":
+      return request("POST", `${jobUrl}/line-items`, id, mutation.data);
+    case "line-item-update":
+      return request("PUT", `${jobUrl}/line-items/${mutation.lineItemId}`, id, { ...mutation.data, ...base });
+    case "line-item-delete":
+      return request("DELETE", `${jobUrl}/line-items/${mutation.lineItemId}`, id, replay && change.baseUpdatedAt ? base : undefined);
+    case "form-save":
+      return request("PUT", `${jobUrl}/forms/${mutation.formId}`, id, { answers: mutation.answers, submit: mutation.submit, ...base });
+    case "form-photo": {
+      const body = new FormData();
+      body.append("photo", mutation.blob, mutation.filename);
+      const upload = await request("POST", `${jobUrl}/forms/${mutation.formId}/photos`, id, body);
+      if (upload.status < 200 || upload.status >= 300) return upload;
+      return request("PUT", `${jobUrl}/forms/${mutation.formId}`, `${id}-a`, {
+        answers: { [mutation.fieldId]: { url: upload.data.url } },
+        ...base,
+      });
+    }
+    case "job-photo": {
+      const body = new FormData();
+      body.append("photo", mutation.blob, mutation.filename);
+      body.append("takenAt", mutation.takenAt);
+      return request("POST", `${jobUrl}/photos`, id, body);
+    }
+    case "voice-notes":
+      return request("POST", `${jobUrl}/voice-notes`, id, { transcript: mutation.transcript });
+  }
+}
+
+// ─── Showing queued changes ───────────────────────────────────────────────
+
+const objectUrls = new WeakMap<Blob, string>();
+
+/** A displayable URL for a photo that's still on the device */
+export function localPhotoUrl(blob: Blob): string {
+  if (typeof URL === "undefined" || typeof URL.createObjectURL !== "function") return "";
+  let url = objectUrls.get(blob);
+  if (!url) {
+    url = URL.createObjectURL(blob);
+    objectUrls.set(blob, url);
+  }
+  return url;
+}
+
+/** True for a photo taken offline that hasn't uploaded yet */
+export function isLocalPhotoUrl(url: string | null | undefined): boolean {
+  return !!url && url.startsWith("blob:");
+}
+
+function applyOptimistic(change: QueuedChange) {
+  if (!client) return;
+  const { mutation } = change;
+  const patchJob = (patch: (job: any) => any) => {
+    client!.setQueryData(jobQueryKey(mutation.jobId), (job: any) => (job ? patch(job) : job));
+    client!.setQueryData(OFFLINE_BUNDLE_QUERY_KEY, (bundle: OfflineBundle | undefined) =>
+      bundle ? { ...bundle, jobs: bundle.jobs.map(job => (job.id === mutation.jobId ? patch(job) : job)) } : bundle);
+  };
+  const patchLineItems = (patch: (items: any[]) => any[]) =>
+    client!.setQueryData(jobLineItemsQueryKey(mutation.jobId), (items: any[] | undefined) => patch(items || []));
+  const patchForm = (formId: number, patch: (form: any) => any) =>
+    client!.setQueryData(jobFormsQueryKey(mutation.jobId), (forms: any[] | undefined) =>
+      forms?.map(form => (form.id === formId ? patch(form) : form)));
+
+  switch (mutation.kind) {
+    case "job-update":
+      patchJob(job => ({ ...job, ...mutation.data }));
+      break;
+    case "voice-notes":
+      patchJob(job => ({ ...job, notes: mutation.transcript }));
+      break;
+    case "job-photo":
+      patchJob(job => ({
+        ...job,
+        photos: [...(Array.isArray(job.photos) ? job.photos : []), { url: localPhotoUrl(mutation.blob), takenAt: mutation.takenAt }],
+      }));
+      break;
+    case "line-item-create":
+      patchLineItems(items => [...items, lineItemFrom(mutation.tempId, mutation.jobId, mutation.data)]);
+      break;
+    case "line-item-update":
+      patchLineItems(items => items.map(item =>
+        item.id === mutation.lineItemId ? { ...item, ...lineItemFrom(item.id, mutation.jobId, mutation.data) } : item));
+      break;
+    case "line-item-delete":
+      patchLineItems(items => items.filter(item => item.id !== mutation.lineItemId));
+      break;
+    case "form-save":
+      patchForm(mutation.formId, form => {
+        const answers = { ...(form.answers || {}) };
+        for (const [fieldId, value] of Object.entries(mutation.answers)) {
+          if (value === null) delete answers[fieldId];
+          else answers[fieldId] = value;
+        }
+        return { ...form, answers, ...(mutation.submit ? { status: "submitted" } : {}) };
+      });
+      break;
+    case "form-photo":
+      patchForm(mutation.formId, form => ({
+        ...form,
+        answers: { ...(form.answers || {}), [mutation.fieldId]: { url: localPhotoUrl(mutation.blob) } },
+      }));
+      break;
+  }
+}
+
+function lineItemFrom(id: number, jobId: number, data: LineItemInput) {
+  const quantity = data.quantity || 1;
+  return {
+    id,
+    jobId,
+    ...data,
+    quantity,
+    unitPrice: String(data.unitPrice),
+    amount: String(quantity * data.unitPrice),
+  };
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  pending: "Scheduled",
+  en_route: "On the way",
+  in_progress: "In progress",
+  waiting_parts: "Waiting on parts",
+  completed: "Completed",
+  cancelled: "Cancelled",
+};
+
+/** One line describing a queued change, for the sync panel */
+export function describeOfflineChange(mutation: OfflineMutation): string {
+  switch (mutation.kind) {
+    case "job-update":
+      if (typeof mutation.data.status === "string") return `Status: ${STATUS_LABELS[mutation.data.status] || mutation.data.status}`;
+      if ("notes" in mutation.data) return "Job notes";
+      return "Job details";
+    case "line-item-create":
+      return `Add line item: ${mutation.data.description}`;
+    case "line-item-update":
+      return `Edit line item: ${mutation.data.description}`;
+    case "line-item-delete":
+      return "Remove line item";
+    case "form-save":
+      return mutation.submit ? "Submit checklist" : "Checklist answers";
+    case "form-photo":
+      return "Checklist photo";
+    case "job-photo":
+      return "Job photo";
+    case "voice-notes":
+      return "Voice notes";
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Real-time event tests — which queries each topic refreshes.
+ */
+import { describe, it, expect, vi } from 'vitest';
+import { QueryClient } from '@tanstack/react-query';
+import { invalidateForTopic, queryMatchesTopic } from './realtime';
+
+describe('queryMatchesTopic', () => {
+  it('matches a prefix and its sub-paths', () => {
+    expect(queryMatchesTopic(['/api/appointments', { businessId: 1 }], 'appointments')).toBe(true);
+    expect(queryMatchesTopic(['/api/appointments/42'], 'appointments')).toBe(true);
+    expect(queryMatchesTopic(['/api/staff/me/appointments', '2026-03-10'], 'appointments')).toBe(true);
+    expect(queryMatchesTopic(['/api/dashboard'], 'invoices')).toBe(true);
+  });
+
+  it('does not match look-alike prefixes or other topics', () => {
+    expect(queryMatchesTopic(['/api/appointments-waitlist'], 'appointments')).toBe(false);
+    expect(queryMatchesTopic(['/api/invoices'], 'jobs')).toBe(false);
+    expect(queryMatchesTopic(['sms-inbox-suggestions', 4, 'in-9'], 'sms_inbox')).toBe(false);
+    expect(queryMatchesTopic([42], 'jobs')).toBe(false);
+  });
+});
+
+describe('invalidateForTopic', () => {
+  it('invalidates only the matching cached queries', async () => {
+    const queryClient = new QueryClient();
+    queryClient.setQueryData(['/api/sms-inbox/threads', { filter: 'all' }], []);
+    queryClient.setQueryData(['/api/sms-inbox/threads/4'], {});
+    queryClient.setQueryData(['/api/invoices'], []);
+    const spy = vi.spyOn(queryClient, 'invalidateQueries');
+
+    await invalidateForTopic(queryClient, 'sms_inbox');
+
+    expect(spy).toHaveBeenCalledTimes(1);
+    expect(queryClient.getQueryState(['/api/sms-inbox/threads', { filter: 'all' }])?.isInvalidated).toBe(true);
+    expect(queryClient.getQueryState(['/api/sms-inbox/threads/4'])?.isInvalidated).toBe(true);
+    expect(queryClient.getQueryState(['/api/invoices'])?.isInvalidated).toBe(false);
+  });
+});
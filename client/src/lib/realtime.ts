@@ -0,0 +1,112 @@
+/**
+ * Real-time change events from GET /api/events (Server-Sent Events).
+ *
+ * The server only says which topic changed for our business. Each topic maps
+ * to the query-key prefixes that show that data, and those queries are
+ * invalidated so React Query refetches whatever is on screen.
+ *
+ * While the stream is up, pages can relax their polling — see
+ * useRealtimeConnected(). The browser reconnects on its own after a drop.
+ */
+
+import { useSyncExternalStore } from "react";
+import type { QueryClient, QueryKey } from "@tanstack/react-query";
+
+export type RealtimeTopic =
+  | "appointments"
+  | "jobs"
+  | "invoices"
+  | "call_logs"
+  | "sms_inbox"
+  | "tech_locations";
+
+/** Query-key prefixes (first key segment) refreshed by each topic */
+export const REALTIME_QUERY_PREFIXES: Record<RealtimeTopic, string[]> = {
+  appointments: ["/api/appointments", "/api/staff/me/appointments", "/api/dashboard", "/api/class-sessions"],
+  jobs: ["/api/jobs", "/api/dispatch/plan", "/api/dashboard"],
+  invoices: ["/api/invoices", "/api/dashboard"],
+  call_logs: ["/api/call-logs", "/api/dashboard"],
+  sms_inbox: ["/api/sms-inbox"],
+  tech_locations: ["gps-active-sessions"],
+};
+
+export function queryMatchesTopic(queryKey: QueryKey, topic: RealtimeTopic): boolean {
+  const head = queryKey[0];
+  if (typeof head !== "string") return false;
+  return REALTIME_QUERY_PREFIXES[topic].some(prefix => head === prefix || head.startsWith(`${prefix}/`));
+}
+
+export function invalidateForTopic(queryClient: QueryClient, topic: RealtimeTopic): Promise<void> {
+  return queryClient.invalidateQueries(
+    { predicate: query => queryMatchesTopic(query.queryKey, topic) },
+    // Let a refetch already in flight finish rather than restarting it
+    { cancelRefetch: false },
+  );
+}
+
+// ── Connection status ────────────────────────────────────────────────────
+
+let connected = false;
+const listeners = new Set<() => void>();
+
+function setConnected(value: boolean) {
+  if (connected === value) return;
+  connected = value;
+  listeners.forEach(listener => listener());
+}
+
+function subscribeStatus(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** True while the event stream is open */
+export function useRealtimeConnected(): boolean {
+  return useSyncExternalStore(subscribeStatus, () => connected, () => false);
+}
+
+/**
+ * Poll slowly while live events are flowing, at the normal rate otherwise.
+ * Live updates cover changes; the slow poll covers anything they can't see.
+ */
+export function useLiveRefetchInterval(intervalMs: number, liveIntervalMs = 60_000): number {
+  return useRealtimeConnected() ? Math.max(intervalMs, liveIntervalMs) : intervalMs;
+}
+
+// ── Stream ───────────────────────────────────────────────────────────────
+
+/** Open the event stream. Returns a function that closes it. */
+export function connectRealtime(queryClient: QueryClient): () => void {
+  if (typeof EventSource === "undefined") return () => {};
+
+  const source = new EventSource("/api/events", { withCredentials: true });
+  let hasConnected = false;
+  source.addEventListener("ready", () => {
+    setConnected(true);
+    // On a reconnect, catch up on anything that changed while we were away
+    if (hasConnected) {
+      Object.keys(REALTIME_QUERY_PREFIXES).forEach(topic => {
+        invalidateForTopic(queryClient, topic as RealtimeTopic).catch(() => {});
+      });
+    }
+    hasConnected = true;
+  });
+  source.addEventListener("change", (event) => {
+    try {
+      const { topic } = JSON.parse((event as MessageEvent).data) as { topic: RealtimeTopic };
+      if (topic in REALTIME_QUERY_PREFIXES) {
+        invalidateForTopic(queryClient, topic).catch(() => {});
+      }
+    } catch {
+      // Ignore malformed events
+    }
+  });
+  source.onerror = () => setConnected(false);
+
+  return () => {
+    source.close();
+    setConnected(false);
+  };
+}
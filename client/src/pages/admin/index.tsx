@@ -7,7 +7,7 @@ import { Badge } from "@/components/ui/badge";
 import { Loader2 } from "lucide-react";
 import {
   BarChart3, Building, Users, DollarSign, Bot, MessageSquare,
-  FileText, PieChart, Server, ScrollText, Activity, Shield, Target,
+  FileText, PieChart, Server, ScrollText, Activity, Shield, Target, Timer,
 } from "lucide-react";
 
 // ── Lazy-loaded tab components ──────────────────────────────────────────
@@ -24,6 +24,7 @@ const SystemTab = lazy(() => import("./tabs/SystemTab"));
 const AuditLogTab = lazy(() => import("./tabs/AuditLogTab"));
 const MonitoringTab = lazy(() => import("./tabs/MonitoringTab"));
 const LeadsTab = lazy(() => import("./tabs/LeadsTab"));
+const SchedulersTab = lazy(() => import("./tabs/SchedulersTab"));
 
 // ── Loading fallback ────────────────────────────────────────────────────
 
@@ -49,6 +50,7 @@ const TAB_CONFIG = [
   { value: "system", label: "System", icon: Server },
   { value: "audit", label: "Audit Log", icon: ScrollText },
   { value: "monitoring", label: "Monitoring", icon: Activity },
+  { value: "schedulers", label: "Schedulers", icon: Timer },
   { value: "leads", label: "Leads", icon: Target },
 ] as const;
 
@@ -64,6 +66,7 @@ const TAB_COMPONENTS: Record<string, React.LazyExoticComponent<React.ComponentTy
   system: SystemTab,
   audit: AuditLogTab,
   monitoring: MonitoringTab,
+  schedulers: SchedulersTab,
   leads: LeadsTab,
 };
 
@@ -0,0 +1,255 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Loader2, RefreshCw, Play, Pause, ChevronDown, ChevronRight,
+} from "lucide-react";
+import { LoadingSpinner, formatRelative } from "../shared";
+import type { ScheduledTaskRunEntry, ScheduledTaskSummary } from "../types";
+
+// ── Helpers ─────────────────────────────────────────────────────────────
+
+const RUN_STATUS_VARIANT: Record<ScheduledTaskRunEntry["status"], "default" | "secondary" | "destructive" | "outline"> = {
+  success: "default",
+  running: "secondary",
+  failed: "destructive",
+  timeout: "destructive",
+};
+
+function formatDuration(ms: number | null): string {
+  if (ms == null) return "—";
+  if (ms < 1000) return `${ms}ms`;
+  if (ms < 60000) return `${(ms / 1000).toFixed(1)}s`;
+  return `${Math.floor(ms / 60000)}m ${Math.round((ms % 60000) / 1000)}s`;
+}
+
+function formatCounts(counts: Record<string, number> | null): string {
+  if (!counts) return "";
+  return Object.entries(counts).map(([k, v]) => `${k}: ${v}`).join(", ");
+}
+
+function formatNext(dateStr: string | null): string {
+  if (!dateStr) return "—";
+  const mins = Math.round((new Date(dateStr).getTime() - Date.now()) / 60000);
+  if (mins < 1) return "any moment";
+  if (mins < 60) return `in ${mins}m`;
+  if (mins < 48 * 60) return `in ${Math.round(mins / 60)}h`;
+  return `in ${Math.round(mins / 1440)}d`;
+}
+
+// ── Run History ─────────────────────────────────────────────────────────
+
+function RunHistory({ taskKey }: { taskKey: string }) {
+  const { data, isLoading } = useQuery<{ runs: ScheduledTaskRunEntry[] }>({
+    queryKey: [`/api/admin/scheduled-tasks/${taskKey}/runs`],
+    refetchInterval: 15000,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 text-muted-foreground text-sm p-4">
+        <Loader2 className="h-4 w-4 animate-spin" /> Loading runs...
+      </div>
+    );
+  }
+
+  const runs = data?.runs || [];
+  if (runs.length === 0) {
+    return <p className="text-sm text-muted-foreground p-4">No runs recorded yet.</p>;
+  }
+
+  return (
+    <div className="border-t max-h-80 overflow-y-auto">
+      <table className="w-full text-sm">
+        <thead className="text-xs text-muted-foreground">
+          <tr className="border-b">
+            <th className="text-left font-medium px-4 py-2">Started</th>
+            <th className="text-left font-medium px-4 py-2">Trigger</th>
+            <th className="text-left font-medium px-4 py-2">Outcome</th>
+            <th className="text-left font-medium px-4 py-2">Duration</th>
+            <th className="text-left font-medium px-4 py-2">Details</th>
+          </tr>
+        </thead>
+        <tbody>
+          {runs.map((run) => (
+            <tr key={run.id} className="border-b last:border-0 align-top">
+              <td className="px-4 py-2 whitespace-nowrap">{new Date(run.startedAt).toLocaleString()}</td>
+              <td className="px-4 py-2 capitalize">{run.trigger}</td>
+              <td className="px-4 py-2">
+                <Badge variant={RUN_STATUS_VARIANT[run.status]} className="capitalize">{run.status}</Badge>
+              </td>
+              <td className="px-4 py-2 whitespace-nowrap">{formatDuration(run.durationMs)}</td>
+              <td className="px-4 py-2 text-muted-foreground">
+                {run.error ? (
+                  <span className="text-red-600 break-all">{run.error}</span>
+                ) : (
+                  formatCounts(run.counts)
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+// ── Task Row ────────────────────────────────────────────────────────────
+
+function TaskRow({ task, isExpanded, onToggle, onRun, onTogglePause, isBusy }: {
+  task: ScheduledTaskSummary;
+  isExpanded: boolean;
+  onToggle: () => void;
+  onRun: () => void;
+  onTogglePause: () => void;
+  isBusy: boolean;
+}) {
+  const lastRun = task.lastRun;
+
+  return (
+    <Card className={lastRun && (lastRun.status === "failed" || lastRun.status === "timeout") ? "border-red-200" : ""}>
+      <div
+        className="flex items-center justify-between gap-4 p-4 cursor-pointer hover:bg-muted/50 transition-colors"
+        onClick={onToggle}
+      >
+        <div className="flex items-center gap-3 min-w-0">
+          {isExpanded ? <ChevronDown className="h-4 w-4 flex-shrink-0" /> : <ChevronRight className="h-4 w-4 flex-shrink-0" />}
+          <div className="min-w-0">
+            <div className="flex items-center gap-2 flex-wrap">
+              <span className="font-mono text-sm font-semibold">{task.key}</span>
+              <span className="text-xs text-muted-foreground">{task.schedule}</span>
+              {task.running && <Badge variant="secondary" className="text-xs">Running</Badge>}
+              {task.paused && <Badge variant="outline" className="text-xs">Paused</Badge>}
+              {!task.active && <Badge variant="outline" className="text-xs">Disabled</Badge>}
+            </div>
+            <p className="text-sm text-muted-foreground truncate">{task.description}</p>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-6 flex-shrink-0">
+          <div className="text-xs text-right hidden md:block">
+            <div>
+              Last:{" "}
+              {lastRun ? (
+                <>
+                  <Badge variant={RUN_STATUS_VARIANT[lastRun.status]} className="text-xs capitalize">{lastRun.status}</Badge>{" "}
+                  {formatRelative(lastRun.startedAt)} · {formatDuration(lastRun.durationMs)}
+                </>
+              ) : (
+                <span className="text-muted-foreground">never</span>
+              )}
+            </div>
+            <div className="text-muted-foreground mt-1">
+              Next: {task.paused ? "paused" : formatNext(task.nextRunAt)}
+            </div>
+          </div>
+          <div className="flex gap-2" onClick={(e) => e.stopPropagation()}>
+            <Button size="sm" variant="outline" onClick={onRun} disabled={isBusy || task.running}>
+              <Play className="h-4 w-4 mr-1" /> Run now
+            </Button>
+            <Button size="sm" variant="outline" onClick={onTogglePause} disabled={isBusy}>
+              {task.paused ? (
+                <><Play className="h-4 w-4 mr-1" /> Resume</>
+              ) : (
+                <><Pause className="h-4 w-4 mr-1" /> Pause</>
+              )}
+            </Button>
+          </div>
+        </div>
+      </div>
+      {isExpanded && <RunHistory taskKey={task.key} />}
+    </Card>
+  );
+}
+
+// ── Schedulers Tab ──────────────────────────────────────────────────────
+
+function SchedulersTab() {
+  const [expandedTask, setExpandedTask] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const { data, isLoading } = useQuery<{ tasks: ScheduledTaskSummary[] }>({
+    queryKey: ["/api/admin/scheduled-tasks"],
+    refetchInterval: 15000,
+  });
+
+  const refresh = (key?: string) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/scheduled-tasks"] });
+    if (key) queryClient.invalidateQueries({ queryKey: [`/api/admin/scheduled-tasks/${key}/runs`] });
+  };
+
+  const runMutation = useMutation({
+    mutationFn: async (key: string) => {
+      const res = await apiRequest("POST", `/api/admin/scheduled-tasks/${key}/run`);
+      return res.json();
+    },
+    onSuccess: (_data, key) => {
+      toast({ title: "Run started", description: `${key} is running. Its outcome will appear in run history.` });
+      refresh(key);
+    },
+    onError: (error: any, key) => {
+      toast({ title: "Could not start run", description: `${key}: ${error.message}`, variant: "destructive" });
+    },
+  });
+
+  const pauseMutation = useMutation({
+    mutationFn: async ({ key, paused }: { key: string; paused: boolean }) => {
+      const res = await apiRequest("POST", `/api/admin/scheduled-tasks/${key}/${paused ? "pause" : "resume"}`);
+      return res.json();
+    },
+    onSuccess: (_data, { key, paused }) => {
+      toast({ title: paused ? "Task paused" : "Task resumed", description: key });
+      refresh();
+    },
+    onError: (error: any, { key }) => {
+      toast({ title: "Update failed", description: `${key}: ${error.message}`, variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return <LoadingSpinner />;
+  }
+
+  const tasks = data?.tasks || [];
+  const failing = tasks.filter(t => t.lastRun && (t.lastRun.status === "failed" || t.lastRun.status === "timeout")).length;
+  const paused = tasks.filter(t => t.paused).length;
+  const busyKey = runMutation.isPending
+    ? runMutation.variables
+    : pauseMutation.isPending ? pauseMutation.variables?.key : undefined;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold">Scheduled Tasks</h3>
+          <p className="text-sm text-muted-foreground">
+            {tasks.length} tasks · {failing} failing · {paused} paused. Pausing applies to every server instance; Run now ignores pause.
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => refresh(expandedTask ?? undefined)}>
+          <RefreshCw className="h-4 w-4 mr-1" /> Refresh
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        {tasks.map((task) => (
+          <TaskRow
+            key={task.key}
+            task={task}
+            isExpanded={expandedTask === task.key}
+            onToggle={() => setExpandedTask(expandedTask === task.key ? null : task.key)}
+            onRun={() => runMutation.mutate(task.key)}
+            onTogglePause={() => pauseMutation.mutate({ key: task.key, paused: !task.paused })}
+            isBusy={busyKey === task.key}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default SchedulersTab;
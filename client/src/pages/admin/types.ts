@@ -277,3 +277,29 @@ export interface HealthCheckEntry {
   errorMessage?: string;
   checkedAt: string;
 }
+
+export interface ScheduledTaskRunEntry {
+  id: number;
+  taskKey: string;
+  trigger: "schedule" | "startup" | "manual";
+  status: "running" | "success" | "failed" | "timeout";
+  startedAt: string;
+  finishedAt: string | null;
+  durationMs: number | null;
+  counts: Record<string, number> | null;
+  error: string | null;
+  triggeredBy: number | null;
+}
+
+export interface ScheduledTaskSummary {
+  key: string;
+  description: string;
+  schedule: string;
+  timeoutMs: number;
+  active: boolean;
+  running: boolean;
+  paused: boolean;
+  pausedAt: string | null;
+  nextRunAt: string | null;
+  lastRun: ScheduledTaskRunEntry | null;
+}
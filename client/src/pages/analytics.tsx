@@ -44,6 +44,7 @@ interface Analytics {
     upcomingAppointments: number;
     appointmentsByStaff: { staffName: string; count: number }[];
     appointmentsByDay: { day: string; count: number }[];
+    waitlist: { cancelledSlots: number; offeredSlots: number; filledSlots: number; fillRate: number };
   };
   calls: {
     totalCalls: number;
@@ -497,6 +498,28 @@ export default function AnalyticsPage() {
                     />
                   </div>
                 )}
+
+                {analytics.appointments.waitlist.cancelledSlots > 0 && (
+                  <div className="mt-6">
+                    <p className="text-sm font-medium mb-3">Waitlist Fill Rate</p>
+                    <div className="grid grid-cols-3 gap-3 text-center">
+                      <div>
+                        <p className="text-xl font-bold text-green-600">{analytics.appointments.waitlist.fillRate}%</p>
+                        <p className="text-xs text-muted-foreground">Refilled</p>
+                      </div>
+                      <div>
+                        <p className="text-xl font-bold">{analytics.appointments.waitlist.filledSlots}</p>
+                        <p className="text-xs text-muted-foreground">
+                          of {analytics.appointments.waitlist.cancelledSlots} cancelled
+                        </p>
+                      </div>
+                      <div>
+                        <p className="text-xl font-bold">{analytics.appointments.waitlist.offeredSlots}</p>
+                        <p className="text-xs text-muted-foreground">Offered to waitlist</p>
+                      </div>
+                    </div>
+                  </div>
+                )}
               </CardContent>
             </Card>
 
@@ -2,6 +2,7 @@ import { useParams, useLocation } from "wouter";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { PageLayout } from "@/components/layout/PageLayout";
 import { AppointmentForm } from "@/components/appointments/AppointmentForm";
+import { AppointmentFees } from "@/components/appointments/AppointmentFees";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/api";
@@ -154,7 +155,10 @@ export default function AppointmentDetail() {
         )}
       </div>
 
-      <div className="max-w-2xl">
+      <div className="max-w-2xl space-y-6">
+        {!isNew && appointment && (
+          <AppointmentFees appointmentId={appointment.id} status={appointment.status} />
+        )}
         <AppointmentForm
           appointment={appointment}
           isEdit={!isNew && !!appointment}
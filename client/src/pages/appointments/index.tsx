@@ -16,6 +16,8 @@ import {
   Maximize2,
   Globe,
   Plus,
+  ClipboardList,
+  Users,
 } from "lucide-react";
 import { useIsMobile } from "@/hooks/use-mobile";
 import { useBusinessHours } from "@/hooks/use-business-hours";
@@ -23,6 +25,8 @@ import { AppointmentForm } from "@/components/appointments/AppointmentForm";
 import { QuickStatsBar } from "@/components/appointments/QuickStatsBar";
 import { StaffFilterPills } from "@/components/appointments/StaffFilterPills";
 import { AppointmentDetailPanel } from "@/components/appointments/AppointmentDetailPanel";
+import { AppointmentWaitlistPanel } from "@/components/appointments/AppointmentWaitlistPanel";
+import { ClassesPanel } from "@/components/appointments/ClassesPanel";
 import {
   Sheet,
   SheetContent,
@@ -97,6 +101,8 @@ function AppointmentsView({ businessId }: { businessId?: number }) {
   const [viewMode, setViewMode] = useState<ViewMode>("week");
   const [sheetOpen, setSheetOpen] = useState(false);
   const [detailSheetOpen, setDetailSheetOpen] = useState(false);
+  const [waitlistOpen, setWaitlistOpen] = useState(false);
+  const [classesOpen, setClassesOpen] = useState(false);
   const [selectedAppointment, setSelectedAppointment] = useState<AppointmentData | null>(null);
   const [prefillDate, setPrefillDate] = useState<Date | null>(null);
   const { toast } = useToast();
@@ -143,6 +149,13 @@ function AppointmentsView({ businessId }: { businessId?: number }) {
     enabled: !!businessId,
   });
 
+  // ─── Group classes (services with a class capacity) ──────────────
+  const { data: services = [] } = useQuery<Array<{ id: number; classCapacity?: number | null }>>({
+    queryKey: ["/api/services", { businessId }],
+    enabled: !!businessId,
+  });
+  const hasClasses = services.some((s) => !!s.classCapacity);
+
   // ─── Sync staff visibility with staff data ───────────────────────
   useEffect(() => {
     const newSet = new Set<number | null>(staffMembers.map((s) => s.id));
@@ -378,6 +391,26 @@ function AppointmentsView({ businessId }: { businessId?: number }) {
           {!isMobile && <p className="text-gray-500 text-sm">Manage your schedule</p>}
         </div>
         <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size={isMobile ? "sm" : "default"}
+            onClick={() => setWaitlistOpen(true)}
+            className="flex items-center"
+          >
+            <ClipboardList className="mr-2 h-4 w-4" />
+            Waitlist
+          </Button>
+          {hasClasses && (
+            <Button
+              variant="outline"
+              size={isMobile ? "sm" : "default"}
+              onClick={() => setClassesOpen(true)}
+              className="flex items-center"
+            >
+              <Users className="mr-2 h-4 w-4" />
+              Classes
+            </Button>
+          )}
           {!isMobile && (
             <>
               <ExportButton endpoint="/api/export/appointments" filename="appointments.csv" />
@@ -540,6 +573,42 @@ function AppointmentsView({ businessId }: { businessId?: number }) {
         </SheetContent>
       </Sheet>
 
+      {/* Appointment Waitlist */}
+      <Sheet open={waitlistOpen} onOpenChange={setWaitlistOpen}>
+        <SheetContent
+          side={isMobile ? "bottom" : "right"}
+          className={isMobile ? "h-[90vh] rounded-t-xl overflow-y-auto" : "w-full sm:max-w-lg overflow-y-auto"}
+        >
+          <SheetHeader>
+            <SheetTitle>Waitlist</SheetTitle>
+            <SheetDescription>
+              Customers waiting for an opening get cancelled slots by text
+            </SheetDescription>
+          </SheetHeader>
+          <div className="mt-6">
+            <AppointmentWaitlistPanel businessId={businessId} staffMembers={staffMembers} />
+          </div>
+        </SheetContent>
+      </Sheet>
+
+      {/* Group Classes */}
+      <Sheet open={classesOpen} onOpenChange={setClassesOpen}>
+        <SheetContent
+          side={isMobile ? "bottom" : "right"}
+          className={isMobile ? "h-[90vh] rounded-t-xl overflow-y-auto" : "w-full sm:max-w-lg overflow-y-auto"}
+        >
+          <SheetHeader>
+            <SheetTitle>Classes</SheetTitle>
+            <SheetDescription>
+              Rosters, waitlists and check-in for the next 7 days
+            </SheetDescription>
+          </SheetHeader>
+          <div className="mt-6">
+            <ClassesPanel businessId={businessId} />
+          </div>
+        </SheetContent>
+      </Sheet>
+
       {/* Appointment Detail Side Panel */}
       <Sheet open={detailSheetOpen} onOpenChange={setDetailSheetOpen}>
         <SheetContent
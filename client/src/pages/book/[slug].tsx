@@ -6,13 +6,16 @@ import { Loader2, AlertTriangle } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { getBrandStyles } from "@/lib/brand-colors";
 import { useTheme } from "next-themes";
-import type { BookingData, CustomerInfo, TimeSlot, ReservationSlot } from "@/components/booking/bookingHelpers";
-import { validateCustomerForm, canStaffDoService } from "@/components/booking/bookingHelpers";
+import type { BookingData, ClassSessionInfo, CustomerInfo, TimeSlot, ReservationSlot } from "@/components/booking/bookingHelpers";
+import { validateCustomerForm, canStaffDoService, combineServiceSelection } from "@/components/booking/bookingHelpers";
 import { BookingLandingPage } from "@/components/booking/BookingLandingPage";
 import { BookingServiceStep } from "@/components/booking/BookingServiceStep";
 import { BookingDateTimeStep, ReservationPartyDateStep, ReservationTimeStep } from "@/components/booking/BookingDateTimeStep";
 import { BookingDetailsStep, ReservationDetailsStep } from "@/components/booking/BookingDetailsStep";
 import { BookingConfirmation } from "@/components/booking/BookingConfirmation";
+import { AppointmentWaitlistCard } from "@/components/booking/AppointmentWaitlistCard";
+import { ClassSessionStep, ClassBookingConfirmation } from "@/components/booking/ClassSessionStep";
+import type { CardOnFileHandle } from "@/components/booking/CancellationPolicyCard";
 import { PoweredByFooter, StepIndicator, BookingFlowHeader } from "@/components/booking/BookingShared";
 
 function PublicBookingInner() {
@@ -35,12 +38,17 @@ function PublicBookingInner() {
   // Multi-step state: 0=landing, 1-3=flow, 4=confirmed
   const [step, setStep] = useState(isEmbed ? 1 : 0);
   const [selectedService, setSelectedService] = useState<number | null>(null);
+  const [extraServiceIds, setExtraServiceIds] = useState<number[]>([]);
+  const [selectedAddonIds, setSelectedAddonIds] = useState<number[]>([]);
   const [selectedStaff, setSelectedStaff] = useState<number | null>(null);
   const [selectedDate, setSelectedDate] = useState<Date | undefined>(undefined);
   const [selectedTime, setSelectedTime] = useState<string | null>(null);
+  const [selectedSession, setSelectedSession] = useState<ClassSessionInfo | null>(null);
   const [customerInfo, setCustomerInfo] = useState<CustomerInfo>({ firstName: "", lastName: "", email: "", phone: "" });
   const [smsOptIn, setSmsOptIn] = useState(false);
   const [notes, setNotes] = useState("");
+  const [policyAccepted, setPolicyAccepted] = useState(false);
+  const cardRef = useRef<CardOnFileHandle>(null);
   const [selectedPartySize, setSelectedPartySize] = useState(2);
   const [specialRequests, setSpecialRequests] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -50,8 +58,11 @@ function PublicBookingInner() {
 
   const isReservationMode = bookingData?.business.industry === "restaurant" && bookingData?.reservation?.enabled;
   const tzLabel = slotsTimezoneAbbr || bookingData?.business.timezoneAbbr || "";
-  const getSelectedService = () => bookingData?.services.find((s) => s.id === selectedService);
+  const selectedServiceIds = selectedService ? [selectedService, ...extraServiceIds] : [];
+  const isMultiService = extraServiceIds.length > 0 || selectedAddonIds.length > 0;
+  const getSelectedService = () => combineServiceSelection(bookingData?.services || [], selectedServiceIds, selectedAddonIds);
   const getSelectedStaff = () => bookingData?.staff.find((s) => s.id === selectedStaff);
+  const isClassMode = !!bookingData?.services.find((s) => s.id === selectedService)?.classCapacity;
 
   // Force light mode on public booking page
   const { setTheme, theme: currentTheme } = useTheme();
@@ -78,8 +89,17 @@ function PublicBookingInner() {
 
   // Fetch business data
   useEffect(() => { fetchBookingData(); }, [slug]);
+  // "Book again" links (customer portal) preselect ?service= and ?staff= and skip the landing page
+  useEffect(() => {
+    if (!bookingData) return;
+    const params = new URLSearchParams(searchString); const serviceId = Number(params.get("service")); const staffId = Number(params.get("staff"));
+    if (!serviceId || !bookingData.services.some((s) => s.id === serviceId)) return;
+    setSelectedService(serviceId);
+    if (staffId && bookingData.staff.some((s) => s.id === staffId) && canStaffDoService(bookingData.staffServices, staffId, serviceId)) setSelectedStaff(staffId);
+    setStep(1);
+  }, [bookingData]);
   // Fetch appointment slots when date/service change
-  useEffect(() => { if (selectedDate && selectedService) fetchTimeSlots(); }, [selectedDate, selectedService, selectedStaff]);
+  useEffect(() => { if (selectedDate && selectedService && !isClassMode) fetchTimeSlots(); }, [selectedDate, selectedService, selectedStaff, extraServiceIds.join(","), selectedAddonIds.join(",")]);
   // Fetch reservation slots when date/party size change
   useEffect(() => { if (isReservationMode && selectedDate && selectedPartySize) fetchReservationSlots(); }, [selectedDate, selectedPartySize, isReservationMode]);
 
@@ -90,7 +110,7 @@ function PublicBookingInner() {
 
   const fetchTimeSlots = async () => {
     if (!selectedDate || !selectedService) return;
-    try { setIsLoadingSlots(true); let url = `/api/book/${slug}/slots?date=${selectedDate.toISOString().split("T")[0]}&serviceId=${selectedService}`; if (selectedStaff) url += `&staffId=${selectedStaff}`; const res = await fetch(url); if (!res.ok) { const d = await res.json(); throw new Error(d.error || "Failed to load time slots"); } const data = await res.json(); setSlots(data.slots || []); if (data.timezoneAbbr) setSlotsTimezoneAbbr(data.timezoneAbbr); setSelectedTime(null); }
+    try { setIsLoadingSlots(true); let url = `/api/book/${slug}/slots?date=${selectedDate.toISOString().split("T")[0]}&serviceId=${selectedService}`; if (isMultiService) url += `&serviceIds=${selectedServiceIds.join(",")}&addonIds=${selectedAddonIds.join(",")}`; if (selectedStaff) url += `&staffId=${selectedStaff}`; const res = await fetch(url); if (!res.ok) { const d = await res.json(); throw new Error(d.error || "Failed to load time slots"); } const data = await res.json(); setSlots(data.slots || []); if (data.timezoneAbbr) setSlotsTimezoneAbbr(data.timezoneAbbr); setSelectedTime(null); }
     catch (err: any) { toast({ title: "Error", description: err.message, variant: "destructive" }); } finally { setIsLoadingSlots(false); }
   };
 
@@ -103,10 +123,28 @@ function PublicBookingInner() {
   const handleSubmit = async () => {
     if (!selectedService || !selectedDate || !selectedTime) return;
     const errors = validateCustomerForm(customerInfo); setFormErrors(errors); if (Object.keys(errors).length > 0) return;
-    try { setIsSubmitting(true); const res = await fetch(`/api/book/${slug}`, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify({ serviceId: selectedService, staffId: selectedStaff, date: selectedDate.toISOString().split("T")[0], time: selectedTime, customer: { ...customerInfo, smsOptIn }, notes }) }); const data = await res.json(); if (!res.ok) throw new Error(data.error || "Failed to create booking"); setConfirmationData(data); setBookingConfirmed(true); setStep(4); }
+    const policy = bookingData?.cancellationPolicy;
+    if (policy && !policyAccepted) { setFormErrors({ policy: "Please accept the cancellation policy" }); return; }
+    // Card is saved first — the booking request only carries the confirmed SetupIntent id
+    try { setIsSubmitting(true); const setupIntentId = policy?.cardRequired && cardRef.current ? await cardRef.current.collect(customerInfo) : undefined; const res = await fetch(`/api/book/${slug}`, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify({ ...(isMultiService ? { services: selectedServiceIds.map((serviceId) => ({ serviceId, addonIds: addonIdsFor(serviceId) })) } : { serviceId: selectedService }), staffId: selectedStaff, date: selectedDate.toISOString().split("T")[0], time: selectedTime, customer: { ...customerInfo, smsOptIn }, notes, policyAccepted: policy ? policyAccepted : undefined, setupIntentId }) }); const data = await res.json(); if (!res.ok) throw new Error(data.error || "Failed to create booking"); setConfirmationData(data); setBookingConfirmed(true); setStep(4); }
+    catch (err: any) { toast({ title: "Error", description: err.message, variant: "destructive" }); } finally { setIsSubmitting(false); }
+  };
+
+  // Group class: books a seat (or a waitlist place) in the chosen session
+  const handleClassSubmit = async () => {
+    if (!selectedSession) return;
+    const errors = validateCustomerForm(customerInfo); setFormErrors(errors); if (Object.keys(errors).length > 0) return;
+    try { setIsSubmitting(true); const res = await fetch(`/api/book/${slug}/classes/${selectedSession.id}`, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify({ customer: { ...customerInfo, smsOptIn } }) }); const data = await res.json(); if (!res.ok) throw new Error(data.error || "Failed to book class"); setConfirmationData(data); setBookingConfirmed(true); setStep(4); }
     catch (err: any) { toast({ title: "Error", description: err.message, variant: "destructive" }); } finally { setIsSubmitting(false); }
   };
 
+  const handleSelectSession = (session: ClassSessionInfo) => {
+    const [year, month, day] = session.date.split("-").map(Number);
+    setSelectedSession(session);
+    setSelectedDate(new Date(year, month - 1, day));
+    setSelectedTime(session.time);
+  };
+
   const handleReservationSubmit = async () => {
     if (!selectedDate || !selectedTime) return;
     const errors = validateCustomerForm(customerInfo); setFormErrors(errors); if (Object.keys(errors).length > 0) return;
@@ -114,11 +152,36 @@ function PublicBookingInner() {
     catch (err: any) { toast({ title: "Error", description: err.message, variant: "destructive" }); } finally { setIsSubmitting(false); }
   };
 
+  const addonIdsFor = (serviceId: number) => {
+    const addons = bookingData?.services.find((s) => s.id === serviceId)?.addons || [];
+    return addons.filter((a) => selectedAddonIds.includes(a.id)).map((a) => a.id);
+  };
+
+  // Keeps add-ons and the staff preference consistent with the chosen services
+  const applyServiceSelection = (ids: number[]) => {
+    const allowedAddons = new Set(ids.flatMap((id) => (bookingData?.services.find((s) => s.id === id)?.addons || []).map((a) => a.id)));
+    setSelectedAddonIds((current) => current.filter((id) => allowedAddons.has(id)));
+    if (selectedStaff && !ids.every((id) => canStaffDoService(bookingData?.staffServices, selectedStaff, id))) setSelectedStaff(null);
+  };
+
   const handleSelectService = (serviceId: number) => {
+    const isClass = !!bookingData?.services.find((s) => s.id === serviceId)?.classCapacity;
+    const extras = isClass ? [] : extraServiceIds.filter((id) => id !== serviceId);
+    // Class sessions fix the date and time, so switching to or from a class starts them over
+    if (serviceId !== selectedService && (isClass || isClassMode)) { setSelectedSession(null); setSelectedDate(undefined); setSelectedTime(null); }
     setSelectedService(serviceId);
-    if (selectedStaff && !canStaffDoService(bookingData?.staffServices, selectedStaff, serviceId)) setSelectedStaff(null);
+    setExtraServiceIds(extras);
+    applyServiceSelection([serviceId, ...extras]);
   };
 
+  const handleToggleExtraService = (serviceId: number) => {
+    const extras = extraServiceIds.includes(serviceId) ? extraServiceIds.filter((id) => id !== serviceId) : [...extraServiceIds, serviceId];
+    setExtraServiceIds(extras);
+    applyServiceSelection(selectedService ? [selectedService, ...extras] : extras);
+  };
+
+  const handleToggleAddon = (addonId: number) => setSelectedAddonIds((current) => current.includes(addonId) ? current.filter((id) => id !== addonId) : [...current, addonId]);
+
   const handleSelectDate = (date: Date | undefined) => { setSelectedDate(date); setSelectedTime(null); };
   const handleSelectPartySize = (size: number) => { setSelectedPartySize(size); setSelectedTime(null); };
   const handleClearError = (field: string) => setFormErrors((e) => ({ ...e, [field]: "" }));
@@ -133,6 +196,7 @@ function PublicBookingInner() {
   if (step === 0 && !bookingConfirmed) return <div ref={containerRef} className="min-h-screen bg-muted/30" style={brandStyles}><BookingLandingPage bookingData={bookingData} isReservationMode={!!isReservationMode} onStartBooking={() => setStep(1)} /></div>;
 
   // Confirmation screen
+  if (bookingConfirmed && confirmationData && isClassMode) return <div ref={containerRef} className={`min-h-screen ${isEmbed ? "bg-transparent py-2 px-1" : "bg-muted/30 py-8 px-4"}`} style={brandStyles}><ClassBookingConfirmation business={bookingData.business} confirmationData={confirmationData} serviceName={getSelectedService()?.name} isEmbed={isEmbed} /><PoweredByFooter /></div>;
   if (bookingConfirmed && confirmationData) return <div ref={containerRef} className={`min-h-screen ${isEmbed ? "bg-transparent py-2 px-1" : "bg-muted/30 py-8 px-4"}`} style={brandStyles}><BookingConfirmation business={bookingData.business} isReservationMode={!!isReservationMode} confirmationData={confirmationData} selectedDate={selectedDate} selectedTime={selectedTime} selectedService={getSelectedService()} selectedStaff={getSelectedStaff()} customerInfo={customerInfo} tzLabel={tzLabel} isEmbed={isEmbed} /><PoweredByFooter /></div>;
 
   // Steps 1-3: Booking flow
@@ -148,9 +212,12 @@ function PublicBookingInner() {
         {isReservationMode && step === 3 && <ReservationDetailsStep selectedPartySize={selectedPartySize} selectedDate={selectedDate} selectedTime={selectedTime} tzLabel={tzLabel} customerInfo={customerInfo} smsOptIn={smsOptIn} specialRequests={specialRequests} formErrors={formErrors} isSubmitting={isSubmitting} onCustomerInfoChange={setCustomerInfo} onSmsOptInChange={setSmsOptIn} onSpecialRequestsChange={setSpecialRequests} onClearError={handleClearError} onBack={() => setStep(2)} onSubmit={handleReservationSubmit} />}
 
         {/* Appointment flow */}
-        {!isReservationMode && step === 1 && <BookingServiceStep services={bookingData.services} staff={bookingData.staff} staffServices={bookingData.staffServices} selectedService={selectedService} selectedStaff={selectedStaff} isEmbed={isEmbed} onSelectService={handleSelectService} onSelectStaff={setSelectedStaff} onBack={() => setStep(0)} onNext={() => setStep(2)} />}
-        {!isReservationMode && step === 2 && <BookingDateTimeStep bookingData={bookingData} selectedDate={selectedDate} selectedTime={selectedTime} slots={slots} isLoadingSlots={isLoadingSlots} tzLabel={tzLabel} onSelectDate={handleSelectDate} onSelectTime={setSelectedTime} onBack={() => setStep(1)} onNext={() => setStep(3)} />}
-        {!isReservationMode && step === 3 && <BookingDetailsStep selectedService={getSelectedService()} selectedStaff={getSelectedStaff()} selectedDate={selectedDate} selectedTime={selectedTime} tzLabel={tzLabel} customerInfo={customerInfo} smsOptIn={smsOptIn} notes={notes} formErrors={formErrors} isSubmitting={isSubmitting} onCustomerInfoChange={setCustomerInfo} onSmsOptInChange={setSmsOptIn} onNotesChange={setNotes} onClearError={handleClearError} onBack={() => setStep(2)} onSubmit={handleSubmit} />}
+        {!isReservationMode && step === 1 && <BookingServiceStep services={bookingData.services} staff={bookingData.staff} staffServices={bookingData.staffServices} selectedService={selectedService} extraServiceIds={extraServiceIds} selectedAddonIds={selectedAddonIds} selectedStaff={selectedStaff} isEmbed={isEmbed} onSelectService={handleSelectService} onToggleExtraService={handleToggleExtraService} onToggleAddon={handleToggleAddon} onSelectStaff={setSelectedStaff} onBack={() => setStep(0)} onNext={() => setStep(2)} />}
+        {!isReservationMode && isClassMode && step === 2 && selectedService && <ClassSessionStep slug={slug} serviceId={selectedService} selectedSession={selectedSession} onSelectSession={handleSelectSession} onTimezoneAbbr={setSlotsTimezoneAbbr} onBack={() => setStep(1)} onNext={() => setStep(3)} />}
+        {!isReservationMode && isClassMode && step === 3 && <BookingDetailsStep selectedService={getSelectedService()} selectedStaff={undefined} selectedDate={selectedDate} selectedTime={selectedTime} tzLabel={tzLabel} customerInfo={customerInfo} smsOptIn={smsOptIn} notes="" formErrors={formErrors} isSubmitting={isSubmitting} slug={slug} cancellationPolicy={null} policyAccepted={false} cardRef={cardRef} onCustomerInfoChange={setCustomerInfo} onSmsOptInChange={setSmsOptIn} onPolicyAcceptedChange={setPolicyAccepted} onClearError={handleClearError} onBack={() => setStep(2)} onSubmit={handleClassSubmit} />}
+        {!isReservationMode && !isClassMode && step === 2 && <BookingDateTimeStep bookingData={bookingData} selectedDate={selectedDate} selectedTime={selectedTime} slots={slots} isLoadingSlots={isLoadingSlots} tzLabel={tzLabel} onSelectDate={handleSelectDate} onSelectTime={setSelectedTime} onBack={() => setStep(1)} onNext={() => setStep(3)} />}
+        {!isReservationMode && !isClassMode && step === 2 && bookingData.appointmentWaitlist?.enabled && selectedDate && !isLoadingSlots && !slots.some((s) => s.available) && <AppointmentWaitlistCard key={selectedDate.toISOString()} slug={slug} serviceId={selectedService} staffId={selectedStaff} selectedDate={selectedDate} holdMinutes={bookingData.appointmentWaitlist.holdMinutes} />}
+        {!isReservationMode && !isClassMode && step === 3 && <BookingDetailsStep selectedService={getSelectedService()} selectedStaff={getSelectedStaff()} selectedDate={selectedDate} selectedTime={selectedTime} tzLabel={tzLabel} customerInfo={customerInfo} smsOptIn={smsOptIn} notes={notes} formErrors={formErrors} isSubmitting={isSubmitting} slug={slug} cancellationPolicy={bookingData.cancellationPolicy} policyAccepted={policyAccepted} cardRef={cardRef} onCustomerInfoChange={setCustomerInfo} onSmsOptInChange={setSmsOptIn} onNotesChange={setNotes} onPolicyAcceptedChange={setPolicyAccepted} onClearError={handleClearError} onBack={() => setStep(2)} onSubmit={handleSubmit} />}
 
         <PoweredByFooter />
       </div>
@@ -33,6 +33,14 @@ interface ManageData {
   service: { id: number | null; name: string; duration: number; price: string | null };
   staff: string | null;
   customer: { firstName: string; lastName: string; email: string; phone: string } | null;
+  /** Present when the customer accepted a cancellation policy at booking */
+  cancellation: {
+    policyText: string;
+    windowHours: number;
+    isLate: boolean;
+    feeApplies: boolean;
+    fee: number;
+  } | null;
   business: {
     name: string;
     phone: string;
@@ -370,6 +378,13 @@ export default function ManageAppointment() {
             {showCancelConfirm && (
               <div className="border border-destructive/20 rounded-lg p-4 bg-destructive/5 space-y-3">
                 <p className="text-sm font-medium">Are you sure you want to cancel this appointment?</p>
+                {data.cancellation?.feeApplies && (
+                  <p className="text-sm text-destructive flex items-start gap-1.5">
+                    <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                    This is within {data.cancellation.windowHours} hours of your appointment, so a{" "}
+                    {formatCurrency(data.cancellation.fee)} late cancellation fee will be charged to your card on file.
+                  </p>
+                )}
                 <p className="text-xs text-muted-foreground">This action cannot be undone.</p>
                 <div className="flex gap-3">
                   <Button variant="outline" size="sm" className="flex-1" onClick={() => setShowCancelConfirm(false)}>
@@ -0,0 +1,338 @@
+import { useState, useEffect } from "react";
+import { useLocation, useParams } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { useTheme } from "next-themes";
+import { getBrandStyles } from "@/lib/brand-colors";
+import {
+  Loader2,
+  AlertTriangle,
+  BellRing,
+  CheckCircle,
+  Clock,
+  MapPin,
+  Phone,
+  Users,
+  XCircle,
+} from "lucide-react";
+
+interface WaitlistBusiness {
+  name: string;
+  phone: string | null;
+  address: string | null;
+  city: string | null;
+  state: string | null;
+  logoUrl: string | null;
+  brandColor: string | null;
+  accentColor: string | null;
+  bookingSlug: string;
+}
+
+interface WaitlistInfo {
+  enabled: boolean;
+  partiesWaiting: number;
+  waitMinutes: number;
+  maxPartySize: number;
+  business: WaitlistBusiness;
+}
+
+interface WaitlistSpot {
+  entry: {
+    name: string;
+    partySize: number;
+    status: string;
+    quotedWaitMinutes: number | null;
+    joinedAt: string;
+    notifiedAt: string | null;
+    confirmedAt: string | null;
+  };
+  position: number | null;
+  partiesAhead: number;
+  business: WaitlistBusiness;
+}
+
+/**
+ * Public walk-in waitlist page (the QR code at the door). Without a token it
+ * shows the current wait and a join form; with one it shows the guest's place
+ * in line and lets them leave.
+ */
+export default function WaitlistPage() {
+  const params = useParams<{ slug: string; token?: string }>();
+  const { slug, token } = params;
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [info, setInfo] = useState<WaitlistInfo | null>(null);
+  const [spot, setSpot] = useState<WaitlistSpot | null>(null);
+  const [form, setForm] = useState({ name: "", phone: "", partySize: "2" });
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Force light mode
+  const { setTheme, theme: currentTheme } = useTheme();
+  useEffect(() => {
+    const previousTheme = currentTheme;
+    setTheme("light");
+    return () => {
+      if (previousTheme && previousTheme !== "light") setTheme(previousTheme);
+    };
+  }, []);
+
+  const fetchData = async (showLoading: boolean) => {
+    try {
+      if (showLoading) setIsLoading(true);
+      const res = await fetch(token ? `/api/book/${slug}/waitlist/${token}` : `/api/book/${slug}/waitlist`);
+      const d = await res.json();
+      if (!res.ok) throw new Error(d.error || "Failed to load waitlist");
+      if (token) setSpot(d);
+      else setInfo(d);
+      setError(null);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // The line moves while the guest waits — refresh their place
+  useEffect(() => {
+    fetchData(true);
+    const timer = setInterval(() => fetchData(false), 30000);
+    return () => clearInterval(timer);
+  }, [slug, token]);
+
+  const handleJoin = async () => {
+    const phone = form.phone.replace(/[^\d+]/g, "");
+    if (!form.name.trim() || phone.length < 10) {
+      toast({ title: "Name and mobile number required", description: "We'll text you when your table is ready.", variant: "destructive" });
+      return;
+    }
+    try {
+      setIsSubmitting(true);
+      const res = await fetch(`/api/book/${slug}/waitlist`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: form.name.trim(), phone, partySize: parseInt(form.partySize) || 1 }),
+      });
+      const d = await res.json();
+      if (!res.ok) throw new Error(d.error || "Failed to join the waitlist");
+      navigate(d.statusUrl);
+    } catch (err: any) {
+      toast({ title: "Couldn't join", description: err.message, variant: "destructive" });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleLeave = async () => {
+    try {
+      setIsSubmitting(true);
+      const res = await fetch(`/api/book/${slug}/waitlist/${token}/leave`, { method: "POST" });
+      const d = await res.json();
+      if (!res.ok) throw new Error(d.error || "Failed to leave the waitlist");
+      toast({ title: "You've left the waitlist", description: d.message });
+      await fetchData(false);
+    } catch (err: any) {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Loading state
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-muted/30 flex items-center justify-center">
+        <Loader2 className="h-10 w-10 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const business = spot?.business || info?.business;
+
+  // Error state
+  if (error || !business) {
+    return (
+      <div className="min-h-screen bg-muted/30 flex items-center justify-center px-4">
+        <Card className="max-w-md w-full">
+          <CardHeader className="text-center">
+            <AlertTriangle className="h-12 w-12 text-amber-500 mx-auto mb-4" />
+            <CardTitle>Waitlist Not Found</CardTitle>
+            <CardDescription>{error || "This link may have expired or is invalid."}</CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  const businessLocation = [business.address, business.city, business.state].filter(Boolean).join(", ");
+
+  const renderSpot = (data: WaitlistSpot) => {
+    const { entry, position, partiesAhead } = data;
+    if (entry.status === "notified") {
+      return (
+        <div className="rounded-lg border border-green-200 bg-green-50 p-4 text-center space-y-1">
+          <BellRing className="h-8 w-8 text-green-600 mx-auto" />
+          <p className="font-semibold text-green-800">Your table is ready!</p>
+          <p className="text-sm text-green-700">
+            {entry.confirmedAt ? "We're holding it for you." : "Please head to the host stand."}
+          </p>
+        </div>
+      );
+    }
+    if (entry.status === "waiting" && position !== null) {
+      return (
+        <div className="bg-muted/50 rounded-lg p-4 text-center space-y-1">
+          <p className="text-sm text-muted-foreground">You're number</p>
+          <p className="text-5xl font-bold">{position}</p>
+          <p className="text-sm text-muted-foreground">
+            {partiesAhead === 0
+              ? "You're next in line"
+              : `${partiesAhead} ${partiesAhead === 1 ? "party" : "parties"} ahead of you`}
+          </p>
+        </div>
+      );
+    }
+    const seated = entry.status === "seated";
+    return (
+      <div className={`rounded-lg border p-3 ${seated ? "border-green-200 bg-green-50" : "border-red-200 bg-red-50"}`}>
+        <p className={`text-sm flex items-center gap-2 ${seated ? "text-green-800" : "text-red-800"}`}>
+          {seated ? <CheckCircle className="h-4 w-4" /> : <XCircle className="h-4 w-4" />}
+          {seated ? "You've been seated. Enjoy your meal!" : "You're no longer on the waitlist."}
+        </p>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-muted/30 py-8 px-4" style={getBrandStyles(business.brandColor)}>
+      <div className="max-w-lg mx-auto space-y-4">
+        <Card className="overflow-hidden">
+          <div className="bg-gradient-to-br from-primary to-primary/80 p-6">
+            <div className="flex items-center gap-4 text-primary-foreground">
+              {business.logoUrl ? (
+                <img src={business.logoUrl} alt={business.name}
+                  className="h-14 w-14 rounded-xl object-contain bg-white/20 backdrop-blur-sm p-2" />
+              ) : (
+                <div className="h-14 w-14 rounded-xl bg-white/20 backdrop-blur-sm flex items-center justify-center">
+                  <span className="text-xl font-bold">{business.name[0]}</span>
+                </div>
+              )}
+              <div>
+                <h1 className="text-xl font-bold">{business.name}</h1>
+                <p className="text-primary-foreground/80 text-sm">Walk-in Waitlist</p>
+              </div>
+            </div>
+          </div>
+
+          <CardContent className="pt-6 space-y-4">
+            {spot ? (
+              <>
+                <div className="flex items-center justify-between">
+                  <span className="font-medium">{spot.entry.name}</span>
+                  <Badge variant="outline" className="gap-1">
+                    <Users className="h-3 w-3" />
+                    Party of {spot.entry.partySize}
+                  </Badge>
+                </div>
+                {renderSpot(spot)}
+                {spot.entry.status === "waiting" && spot.entry.quotedWaitMinutes !== null && (
+                  <p className="text-sm text-muted-foreground flex items-center gap-2">
+                    <Clock className="h-4 w-4" />
+                    Quoted about {spot.entry.quotedWaitMinutes} min when you joined at{" "}
+                    {new Date(spot.entry.joinedAt).toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" })}
+                  </p>
+                )}
+                {(spot.entry.status === "waiting" || spot.entry.status === "notified") && (
+                  <Button variant="outline" className="w-full" onClick={handleLeave} disabled={isSubmitting}>
+                    {isSubmitting ? (
+                      <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Leaving...</>
+                    ) : (
+                      <><XCircle className="mr-2 h-4 w-4" /> Leave the Waitlist</>
+                    )}
+                  </Button>
+                )}
+              </>
+            ) : info && !info.enabled ? (
+              <p className="text-sm text-muted-foreground text-center py-4">
+                The waitlist isn't open right now. Please check with the host.
+              </p>
+            ) : info ? (
+              <>
+                <div className="bg-muted/50 rounded-lg p-4 text-center space-y-1">
+                  <p className="text-sm text-muted-foreground">Current wait</p>
+                  <p className="text-3xl font-bold">
+                    {info.partiesWaiting === 0 ? "No wait" : `~${info.waitMinutes} min`}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {info.partiesWaiting} {info.partiesWaiting === 1 ? "party" : "parties"} waiting
+                  </p>
+                </div>
+                <div className="space-y-3">
+                  <div className="space-y-1">
+                    <label className="text-sm font-medium">Name</label>
+                    <Input value={form.name} placeholder="Your name" onChange={(e) => setForm({ ...form, name: e.target.value })} />
+                  </div>
+                  <div className="space-y-1">
+                    <label className="text-sm font-medium">Mobile number</label>
+                    <Input
+                      type="tel"
+                      value={form.phone}
+                      placeholder="(555) 123-4567"
+                      onChange={(e) => setForm({ ...form, phone: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <label className="text-sm font-medium">Party size</label>
+                    <Input
+                      type="number"
+                      min="1"
+                      max={info.maxPartySize}
+                      value={form.partySize}
+                      onChange={(e) => setForm({ ...form, partySize: e.target.value })}
+                    />
+                  </div>
+                  <Button className="w-full" onClick={handleJoin} disabled={isSubmitting}>
+                    {isSubmitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Users className="mr-2 h-4 w-4" />}
+                    Join the Waitlist
+                  </Button>
+                  <p className="text-xs text-muted-foreground text-center">
+                    We'll text you when your table is ready. Msg & data rates may apply.
+                  </p>
+                </div>
+              </>
+            ) : null}
+
+            {/* Business Info */}
+            <div className="border-t pt-4">
+              <h4 className="font-medium mb-2">{business.name}</h4>
+              {businessLocation && (
+                <p className="text-sm text-muted-foreground flex items-center gap-2">
+                  <MapPin className="h-4 w-4 flex-shrink-0" />{businessLocation}
+                </p>
+              )}
+              {business.phone && (
+                <p className="text-sm text-muted-foreground flex items-center gap-2 mt-1">
+                  <Phone className="h-4 w-4 flex-shrink-0" />
+                  <a href={`tel:${business.phone}`} className="hover:underline">{business.phone}</a>
+                </p>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Powered by */}
+        <div className="text-center">
+          <a href="https://www.smallbizagent.ai" target="_blank" rel="noopener noreferrer"
+            className="inline-flex items-center gap-1.5 text-xs text-muted-foreground hover:text-primary transition-colors">
+            Powered by SmallBizAgent
+          </a>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -8,6 +8,7 @@ import PageTitle from "@/components/PageTitle";
 import { CustomerForm } from "@/components/customers/CustomerForm";
 import EquipmentCard from "@/components/customers/EquipmentCard";
 import MembershipCard from "@/components/customers/MembershipCard";
+import { CustomFieldsCard } from "@/components/custom-fields/CustomFieldInputs";
 import {
   getIndustryConfig,
   tracksCustomerEquipment,
@@ -58,6 +59,7 @@ import {
   Bot,
   Send,
   Receipt,
+  CreditCard,
 } from "lucide-react";
 
 function formatDate(dateStr: string) {
@@ -92,6 +94,7 @@ const typeIcons: Record<string, any> = {
   quote: ClipboardList,
   call: PhoneIncoming,
   sms: MessageSquare,
+  fee: CreditCard,
 };
 
 const typeColors: Record<string, string> = {
@@ -101,6 +104,7 @@ const typeColors: Record<string, string> = {
   quote: "text-orange-500 bg-orange-50 dark:bg-orange-900/20",
   call: "text-blue-500 bg-blue-50 dark:bg-blue-900/20",
   sms: "text-teal-500 bg-teal-50 dark:bg-teal-900/20",
+  fee: "text-rose-500 bg-rose-50 dark:bg-rose-900/20",
 };
 
 const typePaths: Record<string, string> = {
@@ -122,6 +126,9 @@ const statusBadgeColors: Record<string, string> = {
   answered: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400",
   missed: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400",
   sent: "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400",
+  charged: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400",
+  failed: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400",
+  waived: "bg-gray-100 text-gray-600 dark:bg-gray-800/30 dark:text-gray-400",
 };
 
 function StatusBadge({ status }: { status: string | null }) {
@@ -473,6 +480,11 @@ function TimelineEntry({ entry, navigate }: { entry: any; navigate: (path: strin
     }
   }
 
+  if (entry.type === "fee" && entry.summary) {
+    // Decline reason for a failed charge
+    subtitle = entry.summary;
+  }
+
   return (
     <div
       className={`flex items-start gap-3 p-3 rounded-lg transition-colors ${isClickable ? "hover:bg-muted/50 cursor-pointer" : ""}`}
@@ -838,6 +850,14 @@ export default function CustomerDetail() {
             </CardContent>
           </Card>
 
+          {/* Owner-defined fields — hidden until the business adds some */}
+          <CustomFieldsCard
+            entityType="customer"
+            values={customer?.customFields}
+            endpoint={`/api/customers/${customerId}`}
+            invalidateKeys={[[`/api/customers/${customerId}`], ["/api/customers/enriched"]]}
+          />
+
           {/* AI Insights */}
           <InsightsCard insights={insights} isError={insightsError} />
 
@@ -957,6 +977,7 @@ export default function CustomerDetail() {
                             email: Mail,
                             appointment: Calendar,
                             agent: Bot,
+                            fee: CreditCard,
                           };
                           const colorMap: Record<string, string> = {
                             call: "text-blue-500 bg-blue-50 dark:bg-blue-900/20",
@@ -964,6 +985,7 @@ export default function CustomerDetail() {
                             email: "text-purple-500 bg-purple-50 dark:bg-purple-900/20",
                             appointment: "text-indigo-500 bg-indigo-50 dark:bg-indigo-900/20",
                             agent: "text-amber-500 bg-amber-50 dark:bg-amber-900/20",
+                            fee: "text-rose-500 bg-rose-50 dark:bg-rose-900/20",
                           };
                           const Icon = iconMap[item.type] || MessageSquare;
                           const color = colorMap[item.type] || "text-gray-500 bg-gray-50";
@@ -979,7 +1001,7 @@ export default function CustomerDetail() {
                                   <span className="text-sm font-medium truncate">{item.title}</span>
                                   {item.status && (
                                     <Badge className={`text-[10px] ${
-                                      item.status === 'sent' || item.status === 'delivered' || item.status === 'completed' || item.status === 'confirmed'
+                                      item.status === 'sent' || item.status === 'delivered' || item.status === 'completed' || item.status === 'confirmed' || item.status === 'charged'
                                         ? 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400'
                                         : item.status === 'failed'
                                         ? 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400'
@@ -15,6 +15,7 @@ import {
 } from "@/components/ui/dialog";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
+import { useCustomFieldDefinitions } from "@/components/custom-fields/CustomFieldInputs";
 
 interface CsvRow {
   firstName: string;
@@ -23,6 +24,7 @@ interface CsvRow {
   phone: string;
   tags: string;
   notes: string;
+  customFields?: Record<string, string>;
 }
 
 interface ImportResult {
@@ -89,12 +91,16 @@ function autoMapColumn(header: string): string | null {
   return null;
 }
 
+// Custom fields share the column map under "cf:<key>"
+const CUSTOM_FIELD_PREFIX = "cf:";
+
 export default function Customers() {
   const { user } = useAuth();
   const businessId = user?.businessId;
   const queryClient = useQueryClient();
   const { toast } = useToast();
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const { definitions: customFieldDefs } = useCustomFieldDefinitions("customer");
 
   const [importOpen, setImportOpen] = useState(false);
   const [csvHeaders, setCsvHeaders] = useState<string[]>([]);
@@ -176,8 +182,16 @@ export default function Customers() {
         notes: null,
       };
 
+      customFieldDefs.forEach((def) => {
+        newMap[CUSTOM_FIELD_PREFIX + def.key] = null;
+      });
+
       headers.forEach((h, i) => {
-        const mapped = autoMapColumn(h);
+        const normalized = h.toLowerCase().trim();
+        const customField = customFieldDefs.find(
+          (def) => def.key === normalized || def.label.toLowerCase().trim() === normalized
+        );
+        const mapped = customField ? CUSTOM_FIELD_PREFIX + customField.key : autoMapColumn(h);
         if (mapped && newMap[mapped] === null) {
           newMap[mapped] = i;
         }
@@ -202,16 +216,28 @@ export default function Customers() {
       return;
     }
 
+    const customFieldColumns = Object.entries(columnMap).filter(
+      ([field, col]) => field.startsWith(CUSTOM_FIELD_PREFIX) && col !== null
+    );
+
     const customers: CsvRow[] = csvRows
       .filter((row) => row.length > 0 && row.some((cell) => cell.trim()))
-      .map((row) => ({
-        firstName: (columnMap.firstName !== null ? row[columnMap.firstName] : "") || "",
-        lastName: (columnMap.lastName !== null ? row[columnMap.lastName] : "") || "",
-        email: (columnMap.email !== null ? row[columnMap.email] : "") || "",
-        phone: (columnMap.phone !== null ? row[columnMap.phone] : "") || "",
-        tags: (columnMap.tags !== null ? row[columnMap.tags] : "") || "",
-        notes: (columnMap.notes !== null ? row[columnMap.notes] : "") || "",
-      }))
+      .map((row) => {
+        const customFields: Record<string, string> = {};
+        for (const [field, col] of customFieldColumns) {
+          const value = (row[col as number] || "").trim();
+          if (value) customFields[field.slice(CUSTOM_FIELD_PREFIX.length)] = value;
+        }
+        return {
+          firstName: (columnMap.firstName !== null ? row[columnMap.firstName] : "") || "",
+          lastName: (columnMap.lastName !== null ? row[columnMap.lastName] : "") || "",
+          email: (columnMap.email !== null ? row[columnMap.email] : "") || "",
+          phone: (columnMap.phone !== null ? row[columnMap.phone] : "") || "",
+          tags: (columnMap.tags !== null ? row[columnMap.tags] : "") || "",
+          notes: (columnMap.notes !== null ? row[columnMap.notes] : "") || "",
+          ...(Object.keys(customFields).length > 0 ? { customFields } : {}),
+        };
+      })
       .filter((c) => c.firstName.trim() && c.lastName.trim() && c.phone.trim());
 
     if (customers.length === 0) {
@@ -247,6 +273,7 @@ export default function Customers() {
     phone: "Phone *",
     tags: "Tags",
     notes: "Notes",
+    ...Object.fromEntries(customFieldDefs.map((def) => [CUSTOM_FIELD_PREFIX + def.key, def.label])),
   };
 
   return (
@@ -21,6 +21,7 @@ import { CallQualityCard } from "@/components/dashboard/CallQualityCard";
 import { MembershipsCard } from "@/components/dashboard/MembershipsCard";
 import { supportsMembershipPlans as supportsMembershipPlansHelper } from "@shared/industry-config";
 import { SectionErrorBoundary } from "@/components/ui/section-error-boundary";
+import { useLiveRefetchInterval } from "@/lib/realtime";
 
 import {
   CheckSquare,
@@ -111,6 +112,7 @@ export default function Dashboard() {
 
   // Get business ID from authenticated user
   const businessId = user?.businessId;
+  const pollInterval = useLiveRefetchInterval(30000);
 
   // Single batched dashboard query — replaces 8 separate API calls
   const {
@@ -145,7 +147,7 @@ export default function Dashboard() {
   }>({
     queryKey: ['/api/dashboard'],
     enabled: !!businessId,
-    refetchInterval: 30000, // Refresh every 30 seconds (was 10s on 3 individual queries)
+    refetchInterval: pollInterval, // 30s, or 60s while live events refresh it on change
     staleTime: 10000,
   });
 
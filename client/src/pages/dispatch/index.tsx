@@ -4,7 +4,8 @@
  * Role-gated (owner + manager only). Plan-gated server-side (requireGpsPlan).
  * Industry-gated (field-service only, enforced via the eligibility probe).
  *
- * Polls GET /api/gps/sessions/active every 10s. Renders:
+ * Polls GET /api/gps/sessions/active every 10s (every 60s while the live
+ * event stream is up — location pings refetch it immediately). Renders:
  *   - Left rail: list of active sessions with "X seconds ago" + ping count
  *   - Center: Google Map with one marker per tech
  *   - Right rail: selected tech detail (latest ping, job link, breadcrumb toggle)
@@ -13,6 +14,10 @@
  *
  * Breadcrumb playback (scrubber for replaying a session) is deferred to a
  * future PR — this PR ships live-map only.
+ *
+ * The Day Planner tab (components/dispatch/DayPlanner) proposes each tech's
+ * stop order and ETAs for a day from /api/dispatch/plan. It doesn't need
+ * live GPS, so it stays available when the live map is plan-gated.
  */
 
 import { useEffect, useRef, useState } from "react";
@@ -26,6 +31,9 @@ import { Loader2, MapPin, Pause, AlertCircle, ExternalLink, RefreshCw } from "lu
 import { apiRequest } from "@/lib/queryClient";
 import { loadGoogleMapsScript } from "@/lib/google-maps-loader";
 import { ErrorBoundary } from "@/components/ui/error-boundary";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { DayPlanner } from "@/components/dispatch/DayPlanner";
+import { useLiveRefetchInterval } from "@/lib/realtime";
 
 interface ActiveSession {
   sessionId: number;
@@ -71,9 +79,33 @@ interface GateInfo {
 const POLL_INTERVAL_MS = 10_000;
 
 export default function DispatchPage() {
+  const [view, setView] = useState<'live' | 'planner'>('live');
+
   return (
     <ErrorBoundary>
-      <DispatchPageInner />
+      <div className="flex flex-col h-[calc(100vh-4rem)]">
+        <div className="px-4 pt-4">
+          <Tabs value={view} onValueChange={(v) => setView(v as 'live' | 'planner')}>
+            <TabsList>
+              <TabsTrigger value="live">Live Map</TabsTrigger>
+              <TabsTrigger value="planner">Day Planner</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        </div>
+        {view === 'live' ? (
+          <DispatchPageInner />
+        ) : (
+          <div className="flex flex-col flex-1 min-h-0 gap-3 p-4">
+            <div>
+              <h1 className="text-2xl font-bold tracking-tight">Day Planner</h1>
+              <p className="text-sm text-muted-foreground">
+                Optimized stop order and ETAs per tech — drag jobs between techs to reassign
+              </p>
+            </div>
+            <DayPlanner />
+          </div>
+        )}
+      </div>
     </ErrorBoundary>
   );
 }
@@ -87,6 +119,7 @@ function DispatchPageInner() {
   const mapRef = useRef<HTMLDivElement | null>(null);
   const mapInstance = useRef<google.maps.Map | null>(null);
   const markersRef = useRef<Map<number, google.maps.Marker>>(new Map());
+  const pollInterval = useLiveRefetchInterval(POLL_INTERVAL_MS);
 
   // ── Active sessions polling ─────────────────────────────────────────
   // Doubles as our eligibility probe: if the plan/industry/beta gate fires,
@@ -142,7 +175,7 @@ function DispatchPageInner() {
       setGate(null); // Clear any prior gate on successful response
       return (await r.json()) as { sessions: ActiveSession[] };
     },
-    refetchInterval: gate ? false : POLL_INTERVAL_MS, // Stop polling once gated
+    refetchInterval: gate ? false : pollInterval, // Stop polling once gated
     staleTime: 5000,
     retry: false,
   });
@@ -294,7 +327,7 @@ function DispatchPageInner() {
   }
 
   return (
-    <div className="flex flex-col h-[calc(100vh-4rem)] gap-3 p-4">
+    <div className="flex flex-col flex-1 min-h-0 gap-3 p-4">
       {/* Header */}
       <div className="flex items-center justify-between flex-wrap gap-2">
         <div>
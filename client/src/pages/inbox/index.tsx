@@ -0,0 +1,428 @@
+/**
+ * SMS Inbox
+ *
+ * One thread per customer phone, built from inbound texts and every logged
+ * outbound text (agent replies, automated sends, replies from here).
+ *
+ *   - Left: threads, most recent first, with unread counts and filters
+ *   - Right: the conversation, AI-suggested replies and a composer
+ *
+ * Replying takes the thread over from the agents; "Hand back" lets them
+ * answer again. Owners and managers can assign a thread to a staff member;
+ * staff only see threads assigned to them.
+ *
+ * New texts arrive over the live event stream; without it the thread list
+ * polls every 10s and the open conversation every 5s.
+ */
+
+import { useEffect, useRef, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { formatDistanceToNow, format } from "date-fns";
+import { PageLayout } from "@/components/layout/PageLayout";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, MessageSquare, Send, Sparkles, Hand, Bot, ArrowLeft, User } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { useLiveRefetchInterval } from "@/lib/realtime";
+
+// ── Types ────────────────────────────────────────────────────────────────
+
+type InboxFilter = "all" | "unread" | "mine";
+
+interface InboxThread {
+  id: number;
+  customerId: number | null;
+  customerPhone: string;
+  customerName: string | null;
+  assignedStaffId: number | null;
+  assignedStaffName: string | null;
+  unreadCount: number;
+  lastMessageAt: string | null;
+  lastMessagePreview: string | null;
+  lastDirection: "inbound" | "outbound" | null;
+  takenOver: boolean;
+}
+
+interface InboxMessage {
+  id: string;
+  direction: "inbound" | "outbound";
+  body: string;
+  at: string;
+  sentBy: string | null;
+  status: string | null;
+}
+
+interface ThreadDetail {
+  thread: InboxThread & { takenOverAt: string | null };
+  customer: { id: number; firstName: string; lastName: string | null; phone: string; email: string | null } | null;
+  activeAgent: { agentType: string; state: string } | null;
+  lockedBy: string | null;
+  messages: InboxMessage[];
+}
+
+interface StaffMember {
+  id: number;
+  firstName: string;
+  lastName: string | null;
+  active: boolean | null;
+}
+
+const UNASSIGNED = "unassigned";
+
+function threadTitle(thread: Pick<InboxThread, "customerName" | "customerPhone">) {
+  return thread.customerName || thread.customerPhone;
+}
+
+function agentLabel(agentType: string) {
+  return agentType.replace(/_/g, " ");
+}
+
+function senderLabel(message: InboxMessage) {
+  if (message.direction === "inbound") return null;
+  if (message.sentBy === "inbox") return "You";
+  return message.sentBy ? agentLabel(message.sentBy.toLowerCase()) : "Automated";
+}
+
+// ── Thread list ──────────────────────────────────────────────────────────
+
+function ThreadList({ threads, selectedId, onSelect }: {
+  threads: InboxThread[];
+  selectedId: number | null;
+  onSelect: (id: number) => void;
+}) {
+  if (threads.length === 0) {
+    return (
+      <div className="p-8 text-center text-sm text-muted-foreground">
+        <MessageSquare className="h-8 w-8 mx-auto mb-2 opacity-40" />
+        No conversations here yet.
+      </div>
+    );
+  }
+
+  return (
+    <div className="divide-y">
+      {threads.map(thread => (
+        <button
+          key={thread.id}
+          onClick={() => onSelect(thread.id)}
+          className={cn(
+            "w-full text-left px-4 py-3 hover:bg-muted/60 transition-colors",
+            selectedId === thread.id && "bg-muted"
+          )}
+        >
+          <div className="flex items-center justify-between gap-2">
+            <span className={cn("truncate text-sm", thread.unreadCount > 0 ? "font-semibold" : "font-medium")}>
+              {threadTitle(thread)}
+            </span>
+            <span className="text-xs text-muted-foreground shrink-0">
+              {thread.lastMessageAt ? formatDistanceToNow(new Date(thread.lastMessageAt), { addSuffix: true }) : ""}
+            </span>
+          </div>
+          <div className="flex items-center justify-between gap-2 mt-1">
+            <span className="truncate text-xs text-muted-foreground">
+              {thread.lastDirection === "outbound" && "↪ "}
+              {thread.lastMessagePreview}
+            </span>
+            {thread.unreadCount > 0 && (
+              <Badge className="h-5 min-w-5 justify-center px-1.5 bg-red-500 hover:bg-red-500">{thread.unreadCount}</Badge>
+            )}
+          </div>
+          {(thread.takenOver || thread.assignedStaffName) && (
+            <div className="flex gap-1 mt-1.5">
+              {thread.takenOver && <Badge variant="outline" className="text-[10px] py-0">Human</Badge>}
+              {thread.assignedStaffName && (
+                <Badge variant="secondary" className="text-[10px] py-0">{thread.assignedStaffName}</Badge>
+              )}
+            </div>
+          )}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+// ── Conversation ─────────────────────────────────────────────────────────
+
+function Conversation({ threadId, canAssign, onBack }: {
+  threadId: number;
+  canAssign: boolean;
+  onBack: () => void;
+}) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [draft, setDraft] = useState("");
+  const bottomRef = useRef<HTMLDivElement>(null);
+  const threadKey = [`/api/sms-inbox/threads/${threadId}`];
+  const pollInterval = useLiveRefetchInterval(5000);
+
+  const { data, isLoading } = useQuery<ThreadDetail>({
+    queryKey: threadKey,
+    refetchInterval: pollInterval,
+  });
+
+  const lastMessage = data?.messages[data.messages.length - 1];
+  // Keyed by the message being answered (and kept out of the /api/sms-inbox
+  // prefix) so live inbox updates don't re-ask the AI for the same drafts
+  const { data: suggestions, isFetching: suggestionsLoading } = useQuery<{ suggestions: string[] }>({
+    queryKey: ["sms-inbox-suggestions", threadId, lastMessage?.id],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/sms-inbox/threads/${threadId}/suggestions`);
+      return res.json();
+    },
+    enabled: lastMessage?.direction === "inbound",
+    staleTime: Infinity,
+  });
+
+  const { data: staff } = useQuery<StaffMember[]>({
+    queryKey: ["/api/staff"],
+    enabled: canAssign,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: threadKey });
+    queryClient.invalidateQueries({ queryKey: ["/api/sms-inbox/threads"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/sms-inbox/unread-count"] });
+  };
+
+  // Opening a thread reads it
+  const unread = data?.thread.unreadCount ?? 0;
+  useEffect(() => {
+    if (unread > 0) {
+      apiRequest("POST", `/api/sms-inbox/threads/${threadId}/read`).then(refresh).catch(() => {});
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [threadId, unread]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: "end" });
+  }, [data?.messages.length]);
+
+  const onError = (title: string) => (err: Error) => {
+    toast({ title, description: err.message, variant: "destructive" });
+  };
+
+  const replyMutation = useMutation({
+    mutationFn: async (body: string) => {
+      await apiRequest("POST", `/api/sms-inbox/threads/${threadId}/reply`, { body });
+    },
+    onSuccess: () => {
+      setDraft("");
+      refresh();
+    },
+    onError: onError("Message not sent"),
+  });
+
+  const takeoverMutation = useMutation({
+    mutationFn: async (action: "takeover" | "handback") => {
+      await apiRequest("POST", `/api/sms-inbox/threads/${threadId}/${action}`);
+    },
+    onSuccess: (_data, action) => {
+      toast({
+        title: action === "takeover" ? "You're handling this conversation" : "Handed back to your AI agents",
+      });
+      refresh();
+    },
+    onError: onError("Couldn't update conversation"),
+  });
+
+  const assignMutation = useMutation({
+    mutationFn: async (staffId: number | null) => {
+      await apiRequest("PUT", `/api/sms-inbox/threads/${threadId}/assign`, { staffId });
+    },
+    onSuccess: refresh,
+    onError: onError("Couldn't assign conversation"),
+  });
+
+  if (isLoading || !data) {
+    return (
+      <div className="flex-1 flex items-center justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const { thread, customer, activeAgent, messages } = data;
+  const send = () => {
+    const body = draft.trim();
+    if (body) replyMutation.mutate(body);
+  };
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      {/* Header */}
+      <div className="border-b px-4 py-3 flex flex-wrap items-center gap-3">
+        <Button variant="ghost" size="icon" className="lg:hidden -ml-2" onClick={onBack} aria-label="Back to conversations">
+          <ArrowLeft className="h-4 w-4" />
+        </Button>
+        <div className="min-w-0 flex-1">
+          <div className="font-semibold truncate">
+            {customer ? (
+              <Link href={`/customers/${customer.id}`} className="hover:underline">{threadTitle(thread)}</Link>
+            ) : threadTitle(thread)}
+          </div>
+          <div className="text-xs text-muted-foreground flex items-center gap-1.5">
+            {thread.customerPhone}
+            {thread.takenOver ? (
+              <span className="flex items-center gap-1"><User className="h-3 w-3" /> Handled by your team</span>
+            ) : activeAgent ? (
+              <span className="flex items-center gap-1"><Bot className="h-3 w-3" /> {agentLabel(activeAgent.agentType)} agent active</span>
+            ) : null}
+          </div>
+        </div>
+        {canAssign && (
+          <Select
+            value={thread.assignedStaffId ? String(thread.assignedStaffId) : UNASSIGNED}
+            onValueChange={value => assignMutation.mutate(value === UNASSIGNED ? null : parseInt(value))}
+          >
+            <SelectTrigger className="w-40 h-8 text-xs">
+              <SelectValue placeholder="Assign" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+              {(staff || []).filter(s => s.active !== false).map(s => (
+                <SelectItem key={s.id} value={String(s.id)}>{`${s.firstName} ${s.lastName || ""}`.trim()}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        {thread.takenOver ? (
+          <Button size="sm" variant="outline" disabled={takeoverMutation.isPending} onClick={() => takeoverMutation.mutate("handback")}>
+            <Bot className="h-4 w-4 mr-1.5" /> Hand back
+          </Button>
+        ) : (
+          <Button size="sm" variant="outline" disabled={takeoverMutation.isPending} onClick={() => takeoverMutation.mutate("takeover")}>
+            <Hand className="h-4 w-4 mr-1.5" /> Take over
+          </Button>
+        )}
+      </div>
+
+      {/* Messages */}
+      <ScrollArea className="flex-1 min-h-0">
+        <div className="p-4 space-y-3">
+          {messages.map(message => (
+            <div key={message.id} className={cn("flex flex-col max-w-[80%]", message.direction === "outbound" ? "ml-auto items-end" : "items-start")}>
+              <div className={cn(
+                "rounded-2xl px-3.5 py-2 text-sm whitespace-pre-wrap break-words",
+                message.direction === "outbound" ? "bg-primary text-primary-foreground" : "bg-muted"
+              )}>
+                {message.body}
+              </div>
+              <span className="text-[11px] text-muted-foreground mt-0.5 capitalize">
+                {[senderLabel(message), format(new Date(message.at), "MMM d, h:mm a"), message.status === "failed" ? "not delivered" : null]
+                  .filter(Boolean)
+                  .join(" · ")}
+              </span>
+            </div>
+          ))}
+          <div ref={bottomRef} />
+        </div>
+      </ScrollArea>
+
+      {/* Suggestions + composer */}
+      <div className="border-t p-3 space-y-2">
+        {lastMessage?.direction === "inbound" && (suggestionsLoading || (suggestions?.suggestions.length ?? 0) > 0) && (
+          <div className="flex flex-wrap gap-2">
+            <Sparkles className="h-4 w-4 text-muted-foreground mt-1.5" />
+            {suggestionsLoading ? (
+              <span className="text-xs text-muted-foreground mt-1.5">Drafting replies…</span>
+            ) : suggestions!.suggestions.map(suggestion => (
+              <button
+                key={suggestion}
+                onClick={() => setDraft(suggestion)}
+                className="text-left text-xs rounded-full border px-3 py-1.5 hover:bg-muted transition-colors max-w-full"
+              >
+                {suggestion}
+              </button>
+            ))}
+          </div>
+        )}
+        <div className="flex gap-2 items-end">
+          <Textarea
+            value={draft}
+            onChange={e => setDraft(e.target.value)}
+            onKeyDown={e => {
+              if (e.key === "Enter" && !e.shiftKey) {
+                e.preventDefault();
+                send();
+              }
+            }}
+            placeholder={thread.takenOver ? "Type a reply…" : "Type a reply — sending takes over from the AI agents"}
+            maxLength={1600}
+            rows={2}
+            className="resize-none"
+          />
+          <Button onClick={send} disabled={!draft.trim() || replyMutation.isPending} aria-label="Send">
+            {replyMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// ── Page ─────────────────────────────────────────────────────────────────
+
+export default function InboxPage() {
+  const { user } = useAuth();
+  const [filter, setFilter] = useState<InboxFilter>("all");
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const effectiveRole = user?.effectiveRole || (user?.role === "user" ? "owner" : user?.role) || "staff";
+  const canAssign = effectiveRole === "owner" || effectiveRole === "manager" || effectiveRole === "admin";
+  const pollInterval = useLiveRefetchInterval(10000);
+
+  const { data: threads, isLoading } = useQuery<InboxThread[]>({
+    queryKey: ["/api/sms-inbox/threads", { filter }],
+    refetchInterval: pollInterval,
+  });
+
+  return (
+    <PageLayout title="Inbox">
+      <Card className="flex h-[calc(100vh-10rem)] min-h-[480px] overflow-hidden">
+        <div className={cn("w-full lg:w-80 lg:border-r flex-col min-h-0", selectedId ? "hidden lg:flex" : "flex")}>
+          <div className="p-3 border-b">
+            <Tabs value={filter} onValueChange={value => setFilter(value as InboxFilter)}>
+              <TabsList className="w-full">
+                <TabsTrigger value="all" className="flex-1">All</TabsTrigger>
+                <TabsTrigger value="unread" className="flex-1">Unread</TabsTrigger>
+                {canAssign && <TabsTrigger value="mine" className="flex-1">Mine</TabsTrigger>}
+              </TabsList>
+            </Tabs>
+          </div>
+          <ScrollArea className="flex-1 min-h-0">
+            {isLoading ? (
+              <div className="p-8 flex justify-center">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : (
+              <ThreadList threads={threads || []} selectedId={selectedId} onSelect={setSelectedId} />
+            )}
+          </ScrollArea>
+        </div>
+        <div className={cn("flex-1 flex-col min-h-0", selectedId ? "flex" : "hidden lg:flex")}>
+          {selectedId ? (
+            <Conversation key={selectedId} threadId={selectedId} canAssign={canAssign} onBack={() => setSelectedId(null)} />
+          ) : (
+            <div className="flex-1 flex items-center justify-center text-sm text-muted-foreground">
+              Select a conversation
+            </div>
+          )}
+        </div>
+      </Card>
+    </PageLayout>
+  );
+}
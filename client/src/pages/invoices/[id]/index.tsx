@@ -5,6 +5,8 @@ import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { formatCurrency, formatDate } from "@/lib/utils";
 import { PageLayout } from "@/components/layout/PageLayout";
+import { InvoicePaymentsCard } from "@/components/invoices/InvoicePaymentsCard";
+import { InvoiceCreditNotesCard } from "@/components/invoices/InvoiceCreditNotesCard";
 
 import {
   Card,
@@ -15,10 +17,13 @@ import {
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
 import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
 import {
   ArrowLeft,
   Edit,
   Printer,
+  Download,
   FileText,
   MoreHorizontal,
   User,
@@ -29,6 +34,7 @@ import {
   DollarSign,
   MessageSquare,
   Loader2,
+  Ban,
 } from "lucide-react";
 import {
   Table,
@@ -63,6 +69,7 @@ export default function InvoiceDetail() {
   const queryClient = useQueryClient();
   const invoiceId = params?.id ? parseInt(params.id) : 0;
   const [confirmDialog, setConfirmDialog] = useState("");
+  const [voidReason, setVoidReason] = useState("");
 
   const { data: invoice, isLoading } = useQuery({
     queryKey: ["/api/invoices", invoiceId],
@@ -100,6 +107,29 @@ export default function InvoiceDetail() {
     },
   });
 
+  const voidInvoiceMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/invoices/${invoiceId}/void`, { reason: voidReason || null });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/invoices", invoiceId] });
+      setConfirmDialog("");
+      toast({
+        title: "Invoice voided",
+        description: "The invoice is kept on record with a zero balance",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const sendReminderMutation = useMutation({
     mutationFn: async () => {
       const res = await apiRequest("POST", `/api/invoices/${invoiceId}/send-reminder`);
@@ -193,13 +223,23 @@ export default function InvoiceDetail() {
         return <Badge className="bg-green-500 hover:bg-green-600">Paid</Badge>;
       case "pending":
         return <Badge className="bg-yellow-500 hover:bg-yellow-600">Pending</Badge>;
+      case "partially_paid":
+        return <Badge className="bg-blue-500 hover:bg-blue-600">Partially Paid</Badge>;
       case "overdue":
         return <Badge variant="destructive">Overdue</Badge>;
+      case "credited":
+        return <Badge className="bg-purple-500 hover:bg-purple-600">Credited</Badge>;
+      case "void":
+        return <Badge variant="outline" className="text-muted-foreground">Void</Badge>;
       default:
         return <Badge variant="outline">{status}</Badge>;
     }
   };
 
+  // Settled or voided invoices take no more edits, payments or reminders
+  const isOpen = !["paid", "credited", "void"].includes(invoice.status);
+  const canVoid = invoice.status !== "void" && !(parseFloat(invoice.amountPaid || "0") > 0);
+
   const handleMarkPaid = () => {
     updateStatusMutation.mutate({ status: "paid" });
     setConfirmDialog("");
@@ -225,7 +265,7 @@ export default function InvoiceDetail() {
             </div>
           </div>
           <div className="flex space-x-2">
-            {invoice.status !== "paid" && (
+            {isOpen && (
               <Button
                 variant="outline"
                 onClick={() => navigate(`/invoices/${invoiceId}/edit`)}
@@ -244,7 +284,7 @@ export default function InvoiceDetail() {
               </DropdownMenuTrigger>
               <DropdownMenuContent align="end">
                 <DropdownMenuLabel>Invoice Actions</DropdownMenuLabel>
-                {invoice.status !== "paid" && (
+                {isOpen && (
                   <>
                     <DropdownMenuItem onClick={() => setConfirmDialog("markPaid")}>
                       <DollarSign className="h-4 w-4 mr-2" />
@@ -269,11 +309,37 @@ export default function InvoiceDetail() {
                   <Printer className="h-4 w-4 mr-2" />
                   Print Invoice
                 </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => window.open(`/api/invoices/${invoiceId}/pdf`, '_blank')}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Download PDF
+                </DropdownMenuItem>
+                {canVoid && (
+                  <>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem
+                      className="text-red-600"
+                      onClick={() => {
+                        setVoidReason("");
+                        setConfirmDialog("void");
+                      }}
+                    >
+                      <Ban className="h-4 w-4 mr-2" />
+                      Void Invoice
+                    </DropdownMenuItem>
+                  </>
+                )}
               </DropdownMenuContent>
             </DropdownMenu>
           </div>
         </div>
 
+        {invoice.status === "void" && (
+          <div className="rounded-md border border-muted bg-muted/50 p-4 text-sm">
+            <span className="font-medium">Voided{invoice.voidedAt ? ` on ${formatDate(invoice.voidedAt)}` : ""}.</span>
+            {invoice.voidReason && <span className="text-muted-foreground"> {invoice.voidReason}</span>}
+          </div>
+        )}
+
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
           <Card>
             <CardHeader>
@@ -375,12 +441,30 @@ export default function InvoiceDetail() {
                   <span>Total:</span>
                   <span>{formatCurrency(invoice.total)}</span>
                 </div>
-                {invoice.status === "paid" && (
+                {parseFloat(invoice.creditedAmount || "0") > 0 && (
+                  <>
+                    <Separator />
+                    <div className="flex justify-between text-purple-600 font-medium">
+                      <span>Credits:</span>
+                      <span>-{formatCurrency(parseFloat(invoice.creditedAmount))}</span>
+                    </div>
+                  </>
+                )}
+                {(invoice.status === "paid" || parseFloat(invoice.amountPaid || "0") > 0) && (
                   <>
                     <Separator />
                     <div className="flex justify-between text-green-600 font-medium">
                       <span>Amount Paid:</span>
-                      <span>{formatCurrency(invoice.total)}</span>
+                      <span>{formatCurrency(invoice.amountPaid ?? invoice.total)}</span>
+                    </div>
+                  </>
+                )}
+                {isOpen && invoice.balanceDue != null && (
+                  <>
+                    <Separator />
+                    <div className="flex justify-between font-medium">
+                      <span>Balance Due:</span>
+                      <span>{formatCurrency(invoice.balanceDue)}</span>
                     </div>
                   </>
                 )}
@@ -440,6 +524,14 @@ export default function InvoiceDetail() {
           </CardContent>
         </Card>
 
+        <InvoicePaymentsCard invoiceId={invoiceId} />
+
+        <InvoiceCreditNotesCard
+          invoiceId={invoiceId}
+          invoiceItems={invoice.items || []}
+          canIssue={invoice.status !== "void"}
+        />
+
         {invoice.notes && (
           <Card>
             <CardHeader>
@@ -457,7 +549,7 @@ export default function InvoiceDetail() {
             <DialogHeader>
               <DialogTitle>Mark Invoice as Paid</DialogTitle>
               <DialogDescription>
-                Are you sure you want to mark invoice #{invoice.invoiceNumber} as paid? This will update the invoice status and notify the customer.
+                Are you sure you want to mark invoice #{invoice.invoiceNumber} as paid? The remaining balance will be recorded as a manual payment and the customer notified.
               </DialogDescription>
             </DialogHeader>
             <DialogFooter>
@@ -467,6 +559,33 @@ export default function InvoiceDetail() {
           </DialogContent>
         </Dialog>
 
+        {/* Void Invoice Dialog */}
+        <Dialog open={confirmDialog === "void"} onOpenChange={() => setConfirmDialog("")}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Void Invoice</DialogTitle>
+              <DialogDescription>
+                Invoice #{invoice.invoiceNumber} will be marked void and nothing will be owed on it. It keeps its number
+                and stays in your records and exports. This cannot be undone.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-1">
+              <Label htmlFor="void-reason">Reason</Label>
+              <Textarea id="void-reason" rows={2} value={voidReason} onChange={(e) => setVoidReason(e.target.value)} />
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setConfirmDialog("")}>Cancel</Button>
+              <Button
+                variant="destructive"
+                onClick={() => voidInvoiceMutation.mutate()}
+                disabled={voidInvoiceMutation.isPending}
+              >
+                {voidInvoiceMutation.isPending ? "Voiding..." : "Void Invoice"}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
         {/* Send to Customer Dialog */}
         <Dialog open={confirmDialog === "send"} onOpenChange={() => setConfirmDialog("")}>
           <DialogContent className="sm:max-w-md">
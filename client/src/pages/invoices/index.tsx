@@ -104,8 +104,14 @@ export default function Invoices() {
         return <Badge className="bg-green-100 text-green-800 hover:bg-green-100">Paid</Badge>;
       case 'pending':
         return <Badge className="bg-yellow-100 text-yellow-800 hover:bg-yellow-100">Pending</Badge>;
+      case 'partially_paid':
+        return <Badge className="bg-blue-100 text-blue-800 hover:bg-blue-100">Partially Paid</Badge>;
       case 'overdue':
         return <Badge className="bg-red-100 text-red-800 hover:bg-red-100">Overdue</Badge>;
+      case 'credited':
+        return <Badge className="bg-purple-100 text-purple-800 hover:bg-purple-100">Credited</Badge>;
+      case 'void':
+        return <Badge variant="outline" className="text-gray-500">Void</Badge>;
       default:
         return <Badge>{status}</Badge>;
     }
@@ -161,7 +167,7 @@ export default function Invoices() {
       accessorKey: "actions",
       cell: (invoice: any) => (
         <div className="flex items-center space-x-2">
-          {(invoice.status === 'pending' || invoice.status === 'overdue') && (
+          {['pending', 'partially_paid', 'overdue'].includes(invoice.status) && (
             <Button
               variant="default"
               size="sm"
@@ -185,7 +191,7 @@ export default function Invoices() {
               </Button>
             </DropdownMenuTrigger>
             <DropdownMenuContent align="end">
-              {(invoice.status === 'pending' || invoice.status === 'overdue') && (
+              {['pending', 'partially_paid', 'overdue'].includes(invoice.status) && (
                 <DropdownMenuItem
                   onClick={(e) => {
                     e.stopPropagation();
@@ -207,7 +213,7 @@ export default function Invoices() {
               <DropdownMenuItem
                 onClick={(e) => {
                   e.stopPropagation();
-                  window.open(`/invoices/${invoice.id}/print`, '_blank');
+                  window.open(`/api/invoices/${invoice.id}/pdf`, '_blank');
                 }}
               >
                 <Download className="h-4 w-4 mr-2" /> Download PDF
@@ -254,6 +260,7 @@ export default function Invoices() {
         </div>
         <div className="flex items-center gap-2">
           <ExportButton endpoint="/api/export/invoices" filename="invoices.csv" />
+          <ExportButton endpoint="/api/export/credit-notes" filename="credit-notes.csv" label="Export Credit Notes" />
           <Link href="/invoices/create">
             <Button className="flex items-center">
               <PlusCircle className="mr-2 h-4 w-4" />
@@ -278,8 +285,11 @@ export default function Invoices() {
               <SelectContent>
                 <SelectItem value="all">All Invoices</SelectItem>
                 <SelectItem value="pending">Pending</SelectItem>
+                <SelectItem value="partially_paid">Partially Paid</SelectItem>
                 <SelectItem value="paid">Paid</SelectItem>
                 <SelectItem value="overdue">Overdue</SelectItem>
+                <SelectItem value="credited">Credited</SelectItem>
+                <SelectItem value="void">Void</SelectItem>
               </SelectContent>
             </Select>
           </div>
@@ -308,7 +318,7 @@ export default function Invoices() {
                     <div className="mt-1">{getStatusBadge(invoice.status)}</div>
                   </div>
                 </div>
-                {(invoice.status === 'pending' || invoice.status === 'overdue') && (
+                {['pending', 'partially_paid', 'overdue'].includes(invoice.status) && (
                   <div className="mt-3">
                     <Button
                       variant="default"
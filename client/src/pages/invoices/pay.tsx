@@ -93,7 +93,7 @@ function CheckoutForm({ invoice, onSuccess }: {
           disabled={!stripe || isLoading} 
           className="w-full"
         >
-          {isLoading ? "Processing..." : `Pay ${formatCurrency(invoice.total)}`}
+          {isLoading ? "Processing..." : `Pay ${formatCurrency(invoice.balanceDue ?? invoice.total)}`}
         </Button>
       </div>
     </form>
@@ -118,7 +118,8 @@ export default function InvoicePayment() {
   useEffect(() => {
     if (invoice && invoiceId) {
       apiRequest("POST", "/api/create-payment-intent", {
-        amount: invoice.total,
+        // Charge what is still owed — earlier partial payments reduce it
+        amount: invoice.balanceDue ?? invoice.total,
         invoiceId: parseInt(invoiceId)
       })
         .then((data) => {
@@ -190,7 +191,7 @@ export default function InvoicePayment() {
           </CardHeader>
           <CardContent>
             <div className="space-y-2">
-              <p><strong>Amount:</strong> {formatCurrency(invoice.total)}</p>
+              <p><strong>Amount:</strong> {formatCurrency(invoice.balanceDue ?? invoice.total)}</p>
               <p><strong>Invoice Number:</strong> {invoice.invoiceNumber}</p>
               <p><strong>Payment Date:</strong> {formatDate(new Date())}</p>
             </div>
@@ -253,7 +254,7 @@ export default function InvoicePayment() {
               
               <div>
                 <div className="text-sm text-gray-500">Amount Due</div>
-                <div className="text-xl font-bold text-primary">{formatCurrency(invoice.total)}</div>
+                <div className="text-xl font-bold text-primary">{formatCurrency(invoice.balanceDue ?? invoice.total)}</div>
               </div>
             </div>
           </CardContent>
@@ -7,9 +7,11 @@ import { JobForm } from "@/components/jobs/JobForm";
 import { JobLineItems } from "@/components/jobs/JobLineItems";
 import { JobProgressTimeline } from "@/components/jobs/JobProgressTimeline";
 import { JobPhotoUploader } from "@/components/jobs/JobPhotoUploader";
+import { JobChecklists } from "@/components/jobs/JobChecklists";
 import { OnMyWayCard } from "@/components/jobs/OnMyWayCard";
 import { GpsSessionPanel } from "@/components/gps/GpsSessionPanel";
 import TriageCard from "@/components/jobs/TriageCard";
+import { CustomFieldsCard } from "@/components/custom-fields/CustomFieldInputs";
 import JobMemberBadge from "@/components/jobs/JobMemberBadge";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -19,6 +21,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { SkeletonForm } from "@/components/ui/skeleton-loader";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/api";
+import { jobFormsQueryKey, sendJobChange } from "@/lib/offline-sync";
 import {
   ArrowLeft,
   FileText,
@@ -41,8 +44,10 @@ import {
   Loader2,
   Send,
   FileSignature,
+  Download,
 } from "lucide-react";
 import { getBookingFlow } from "@shared/industry-config";
+import type { JobForm as JobFormRecord } from "@shared/schema";
 
 // =================== TYPE DEFINITIONS ===================
 
@@ -258,14 +263,21 @@ function VoiceNotesSection({ jobId, existingNotes }: { jobId: number; existingNo
   const [result, setResult] = useState<VoiceNotesResponse | null>(null);
 
   const processNotesMutation = useMutation({
-    mutationFn: async (text: string) => {
-      return apiRequest("POST", `/api/jobs/${jobId}/voice-notes`, {
-        transcript: text,
-      }) as Promise<VoiceNotesResponse>;
-    },
-    onSuccess: (data) => {
-      setResult(data);
+    mutationFn: (text: string) =>
+      sendJobChange({ kind: "voice-notes", jobId, transcript: text }),
+    // Without signal the notes are queued and processed once they sync
+    networkMode: "always",
+    onSuccess: (sent) => {
       setTranscript("");
+      if (sent.queued) {
+        toast({
+          title: "Saved on this device",
+          description: "Your notes will be processed when you're back online.",
+        });
+        return;
+      }
+      const data = sent.data as VoiceNotesResponse;
+      setResult(data);
       queryClient.invalidateQueries({ queryKey: ["/api/jobs", jobId] });
       toast({
         title: "Notes Processed",
@@ -649,6 +661,13 @@ export default function JobDetail() {
     enabled: !isNew,
   });
 
+  // Checklists attached from the business's form templates — the tab only
+  // shows when the job has some
+  const { data: jobForms = [] } = useQuery<JobFormRecord[]>({
+    queryKey: jobFormsQueryKey(numericJobId),
+    enabled: !isNew && !!numericJobId,
+  });
+
   // Generate invoice mutation
   const generateInvoiceMutation = useMutation({
     mutationFn: () =>
@@ -799,6 +818,10 @@ export default function JobDetail() {
     );
   }
 
+  const pendingRequiredForms = jobForms.filter(
+    (form) => form.requiredForCompletion && form.status !== "submitted",
+  ).length;
+
   const canGenerateInvoice = !isNew && job?.status === "completed";
   const showTimer =
     !isNew &&
@@ -884,6 +907,12 @@ export default function JobDetail() {
                   ? "Generating..."
                   : "Generate"}
               </Button>
+              <Button size="sm" variant="outline" asChild>
+                <a href={`/api/jobs/${jobId}/pdf`} data-testid="job-download-report">
+                  <Download className="h-4 w-4 mr-1" />
+                  Report
+                </a>
+              </Button>
             </div>
           ) : undefined
         }
@@ -933,6 +962,8 @@ export default function JobDetail() {
               status={job?.status}
               enRouteAt={job?.enRouteAt}
               etaMinutes={job?.etaMinutes}
+              departedAt={job?.departedAt}
+              updatedAt={job?.updatedAt}
             />
           )}
 
@@ -981,6 +1012,16 @@ export default function JobDetail() {
             accessNotes={job?.accessNotes}
           />
 
+          {/* Owner-defined job fields — hidden until the business adds some */}
+          {numericJobId && (
+            <CustomFieldsCard
+              entityType="job"
+              values={job?.customFields}
+              endpoint={`/api/jobs/${numericJobId}`}
+              invalidateKeys={[["/api/jobs", numericJobId]]}
+            />
+          )}
+
           {/* GPS Live Dispatch — only renders if business is field-service + Growth+ + gpsTrackingEnabled */}
           {numericJobId && (
             <GpsSessionPanel
@@ -994,10 +1035,20 @@ export default function JobDetail() {
           {/* Job Timer — only when in_progress or waiting_parts */}
           {showTimer && <JobTimer />}
 
-          {/* Tabs: Details, Line Items, Timeline, Photos, Voice Notes */}
+          {/* Tabs: Details, Checklists, Line Items, Timeline, Photos, Voice Notes */}
           <Tabs defaultValue="details">
             <TabsList>
               <TabsTrigger value="details">Details</TabsTrigger>
+              {jobForms.length > 0 && (
+                <TabsTrigger value="checklists" data-testid="job-checklists-tab">
+                  Checklists
+                  {pendingRequiredForms > 0 && (
+                    <span className="ml-1.5 rounded-full bg-amber-500 px-1.5 text-[10px] font-semibold text-white">
+                      {pendingRequiredForms}
+                    </span>
+                  )}
+                </TabsTrigger>
+              )}
               <TabsTrigger value="line-items">Line Items</TabsTrigger>
               <TabsTrigger value="timeline">Timeline</TabsTrigger>
               <TabsTrigger value="photos">Photos</TabsTrigger>
@@ -1008,6 +1059,10 @@ export default function JobDetail() {
               <JobForm job={job} isEdit={true} />
             </TabsContent>
 
+            <TabsContent value="checklists" className="mt-4">
+              {numericJobId && <JobChecklists jobId={numericJobId} jobStatus={job?.status} />}
+            </TabsContent>
+
             <TabsContent value="line-items" className="mt-4">
               {numericJobId && (
                 <JobLineItems
@@ -1025,7 +1080,7 @@ export default function JobDetail() {
               {numericJobId && (
                 <JobPhotoUploader
                   jobId={numericJobId}
-                  photos={Array.isArray(job?.photos) ? (job.photos as string[]) : []}
+                  photos={Array.isArray(job?.photos) ? job.photos : []}
                 />
               )}
             </TabsContent>
@@ -0,0 +1,752 @@
+import { useEffect, useState } from "react";
+import { useLocation, useParams, useSearch } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { formatCurrency, formatDate, formatPhoneNumber } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import {
+  ArrowRight, Calendar, Clock, Download, FileText, KeyRound, Loader2, LogOut,
+  RefreshCw, Settings, User, Wrench
+} from "lucide-react";
+
+// ========================================
+// Types (mirror buildPortalAccount on the server)
+// ========================================
+
+interface PortalAppointment {
+  id: number;
+  startDate: string;
+  endDate: string;
+  status: string;
+  serviceName: string;
+  staffName: string | null;
+  isFuture: boolean;
+  manageToken: string | null;
+  rebookUrl: string | null;
+}
+
+interface PortalAccountData {
+  business: { name: string; phone: string | null; email: string | null; bookingSlug: string | null };
+  customer: {
+    firstName: string;
+    lastName: string;
+    email: string | null;
+    phone: string;
+    address: string | null;
+    city: string | null;
+    state: string | null;
+    zip: string | null;
+    smsOptIn: boolean;
+    marketingOptIn: boolean;
+  };
+  upcoming: PortalAppointment[];
+  past: PortalAppointment[];
+  quotes: { id: number; quoteNumber: string; total: number; validUntil: string | null; status: string; accessToken: string | null }[];
+  invoices: {
+    id: number;
+    invoiceNumber: string;
+    total: number;
+    balanceDue: number | null;
+    status: string;
+    dueDate: string | null;
+    createdAt: string;
+    accessToken: string | null;
+  }[];
+  memberships: {
+    id: number;
+    planName: string;
+    status: string;
+    startDate: string | null;
+    nextBillingDate: string | null;
+    tuneUpsRemaining: number | null;
+    serviceCallsRemaining: number | null;
+  }[];
+  equipment: {
+    id: number;
+    equipmentType: string;
+    make: string | null;
+    model: string | null;
+    location: string | null;
+    installDate: string | null;
+    lastServiceDate: string | null;
+    warrantyExpiry: string | null;
+  }[];
+}
+
+type ProfileForm = Pick<
+  PortalAccountData["customer"],
+  "firstName" | "lastName" | "email" | "address" | "city" | "state" | "zip" | "smsOptIn" | "marketingOptIn"
+>;
+
+// The session token lives per business, so one browser can hold several portals
+const tokenKey = (slug: string) => `portal-token:${slug}`;
+
+class PortalSignedOut extends Error {}
+
+async function portalFetch(token: string, url: string, init: RequestInit = {}): Promise<Response> {
+  const res = await fetch(url, {
+    ...init,
+    headers: { "Content-Type": "application/json", "X-Portal-Token": token, ...(init.headers || {}) },
+  });
+  if (res.status === 401) throw new PortalSignedOut();
+  if (!res.ok) {
+    const d = await res.json().catch(() => ({}));
+    throw new Error(d.message || "Something went wrong");
+  }
+  return res;
+}
+
+function formatDateShort(dateStr: string) {
+  return new Date(dateStr).toLocaleDateString("en-US", { weekday: "short", month: "short", day: "numeric", year: "numeric" });
+}
+
+function formatTime(dateStr: string) {
+  return new Date(dateStr).toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" });
+}
+
+function StatusBadge({ status }: { status: string }) {
+  const styles: Record<string, string> = {
+    paid: "bg-green-100 text-green-800 hover:bg-green-100",
+    confirmed: "bg-green-100 text-green-800 hover:bg-green-100",
+    active: "bg-green-100 text-green-800 hover:bg-green-100",
+    completed: "bg-gray-100 text-gray-800 hover:bg-gray-100",
+    pending: "bg-yellow-100 text-yellow-800 hover:bg-yellow-100",
+    scheduled: "bg-blue-100 text-blue-800 hover:bg-blue-100",
+    overdue: "bg-red-100 text-red-800 hover:bg-red-100",
+    cancelled: "bg-red-100 text-red-800 hover:bg-red-100",
+  };
+  return <Badge className={`capitalize ${styles[status] || ""}`}>{status.replace(/_/g, " ")}</Badge>;
+}
+
+export default function PortalAccount() {
+  const { slug } = useParams<{ slug: string }>();
+  const searchString = useSearch();
+  const linkToken = new URLSearchParams(searchString).get("link");
+  const { toast } = useToast();
+  const [token, setToken] = useState<string | null>(() => localStorage.getItem(tokenKey(slug)));
+  const [linkPending, setLinkPending] = useState(!!linkToken);
+
+  const signIn = (newToken: string) => {
+    localStorage.setItem(tokenKey(slug), newToken);
+    setToken(newToken);
+  };
+
+  const signOut = () => {
+    localStorage.removeItem(tokenKey(slug));
+    setToken(null);
+  };
+
+  // Tap-to-sign-in link from the code message
+  useEffect(() => {
+    if (!linkToken) return;
+    (async () => {
+      try {
+        const res = await fetch(`/api/portal/account/${slug}/verify`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ link: linkToken }),
+        });
+        const d = await res.json();
+        if (!res.ok) throw new Error(d.message || "That sign-in link has expired");
+        signIn(d.token);
+      } catch (err: any) {
+        toast({ title: "Sign-in link expired", description: err.message, variant: "destructive" });
+      } finally {
+        window.history.replaceState(null, "", `/portal/account/${slug}`);
+        setLinkPending(false);
+      }
+    })();
+  }, [slug, linkToken]);
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-12 px-4">
+      <div className="max-w-3xl mx-auto">
+        {linkPending ? (
+          <div className="flex justify-center py-24">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : token ? (
+          <AccountView slug={slug} token={token} onSignedOut={signOut} />
+        ) : (
+          <SignInCard slug={slug} onSignedIn={signIn} />
+        )}
+      </div>
+    </div>
+  );
+}
+
+// ========================================
+// SIGN IN -- contact, then the 6-digit code
+// ========================================
+
+function SignInCard({ slug, onSignedIn }: { slug: string; onSignedIn: (token: string) => void }) {
+  const { toast } = useToast();
+  const [contact, setContact] = useState("");
+  const [code, setCode] = useState("");
+  const [codeSent, setCodeSent] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const post = async (path: string, body: Record<string, string>) => {
+    const res = await fetch(`/api/portal/account/${slug}/${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    const d = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(d.message || (res.status === 400 ? "Please check what you entered" : "Something went wrong"));
+    return d;
+  };
+
+  const handleRequestCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    try {
+      const d = await post("request-code", { contact });
+      setCodeSent(true);
+      toast({ title: "Check your messages", description: d.message });
+    } catch (err: any) {
+      toast({ title: "Couldn't send a code", description: err.message, variant: "destructive" });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    try {
+      const d = await post("verify", { contact, code });
+      onSignedIn(d.token);
+    } catch (err: any) {
+      toast({ title: "Sign-in failed", description: err.message, variant: "destructive" });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="text-center mb-8">
+        <div className="flex items-center justify-center mb-4">
+          <div className="bg-primary/10 p-3 rounded-full">
+            <User className="h-8 w-8 text-primary" />
+          </div>
+        </div>
+        <h1 className="text-3xl font-bold">Your Account</h1>
+        <p className="text-gray-600 mt-2">Appointments, quotes, invoices and more — in one place</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <KeyRound className="mr-2 h-5 w-5" />
+            Sign In
+          </CardTitle>
+          <CardDescription>
+            {codeSent
+              ? `Enter the 6-digit code we sent to ${contact}. It expires in 15 minutes.`
+              : "Enter the mobile number or email address you gave us and we'll send you a sign-in code."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {!codeSent ? (
+            <form onSubmit={handleRequestCode} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="contact">Mobile number or email</Label>
+                <Input
+                  id="contact"
+                  placeholder="(555) 123-4567 or you@email.com"
+                  value={contact}
+                  onChange={(e) => setContact(e.target.value)}
+                  autoComplete="username"
+                  required
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={isLoading || contact.trim().length < 3}>
+                {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ArrowRight className="mr-2 h-4 w-4" />}
+                Send Code
+              </Button>
+            </form>
+          ) : (
+            <form onSubmit={handleVerify} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="code">Sign-in code</Label>
+                <Input
+                  id="code"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  maxLength={6}
+                  placeholder="123456"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value.replace(/\D/g, ""))}
+                  required
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={isLoading || code.length !== 6}>
+                {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <KeyRound className="mr-2 h-4 w-4" />}
+                Sign In
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                className="w-full"
+                onClick={() => {
+                  setCodeSent(false);
+                  setCode("");
+                }}
+              >
+                Use a different number or email
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </>
+  );
+}
+
+// ========================================
+// ACCOUNT
+// ========================================
+
+function AccountView({ slug, token, onSignedOut }: { slug: string; token: string; onSignedOut: () => void }) {
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const accountKey = ["portal-account", slug, token];
+
+  const { data: account, isLoading, error } = useQuery<PortalAccountData>({
+    queryKey: accountKey,
+    queryFn: async () => (await portalFetch(token, "/api/portal/account")).json(),
+    retry: (count, err) => !(err instanceof PortalSignedOut) && count < 2,
+  });
+
+  useEffect(() => {
+    if (error instanceof PortalSignedOut) onSignedOut();
+  }, [error]);
+
+  const signOutMutation = useMutation({
+    mutationFn: () => portalFetch(token, "/api/portal/account/sign-out", { method: "POST" }),
+    onSettled: () => {
+      queryClient.removeQueries({ queryKey: ["portal-account", slug] });
+      onSignedOut();
+    },
+  });
+
+  const downloadPdf = async (invoiceId: number, invoiceNumber: string) => {
+    try {
+      const res = await portalFetch(token, `/api/portal/account/invoices/${invoiceId}/pdf`);
+      const url = URL.createObjectURL(await res.blob());
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `${invoiceNumber}.pdf`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      if (err instanceof PortalSignedOut) return onSignedOut();
+      toast({ title: "Download failed", description: err.message, variant: "destructive" });
+    }
+  };
+
+  if (isLoading || !account) {
+    return (
+      <div className="flex justify-center py-24">
+        {error && !(error instanceof PortalSignedOut) ? (
+          <p className="text-sm text-muted-foreground">{(error as Error).message}</p>
+        ) : (
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        )}
+      </div>
+    );
+  }
+
+  const { business, customer } = account;
+  const openBilling = account.quotes.length + account.invoices.filter((i) => i.status !== "paid").length;
+
+  return (
+    <>
+      {/* Header */}
+      <div className="flex items-start justify-between gap-4 mb-8">
+        <div>
+          <p className="text-sm text-gray-500">{business.name}</p>
+          <h1 className="text-3xl font-bold">Hi, {customer.firstName}</h1>
+        </div>
+        <div className="flex gap-2">
+          {business.bookingSlug && (
+            <Button onClick={() => navigate(`/book/${business.bookingSlug}`)}>
+              <Calendar className="mr-2 h-4 w-4" />
+              Book
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => signOutMutation.mutate()} disabled={signOutMutation.isPending}>
+            <LogOut className="mr-2 h-4 w-4" />
+            Sign Out
+          </Button>
+        </div>
+      </div>
+
+      <Tabs defaultValue="appointments" className="w-full">
+        <TabsList className="grid w-full grid-cols-4">
+          <TabsTrigger value="appointments" className="flex items-center gap-2">
+            <Calendar className="h-4 w-4" />
+            <span className="hidden sm:inline">Appointments</span>
+          </TabsTrigger>
+          <TabsTrigger value="billing" className="flex items-center gap-2">
+            <FileText className="h-4 w-4" />
+            <span className="hidden sm:inline">Billing</span>
+            {openBilling > 0 && <Badge variant="secondary" className="ml-1 text-xs">{openBilling}</Badge>}
+          </TabsTrigger>
+          <TabsTrigger value="plans" className="flex items-center gap-2">
+            <Wrench className="h-4 w-4" />
+            <span className="hidden sm:inline">Plans & Equipment</span>
+          </TabsTrigger>
+          <TabsTrigger value="profile" className="flex items-center gap-2">
+            <Settings className="h-4 w-4" />
+            <span className="hidden sm:inline">Profile</span>
+          </TabsTrigger>
+        </TabsList>
+
+        {/* Appointments */}
+        <TabsContent value="appointments" className="mt-6 space-y-6">
+          <div>
+            <h3 className="text-lg font-semibold mb-3 flex items-center">
+              <Clock className="h-5 w-5 mr-2 text-blue-500" />
+              Upcoming ({account.upcoming.length})
+            </h3>
+            {account.upcoming.length === 0 ? (
+              <p className="text-sm text-gray-500">Nothing booked right now.</p>
+            ) : (
+              <div className="space-y-3">
+                {account.upcoming.map((appt) => (
+                  <Card key={appt.id} className="border-l-4 border-l-blue-500">
+                    <CardContent className="py-4 flex items-start justify-between gap-4">
+                      <div>
+                        <div className="flex items-center gap-3 mb-1">
+                          <span className="font-semibold">{appt.serviceName}</span>
+                          <StatusBadge status={appt.status} />
+                        </div>
+                        <p className="text-sm text-gray-600">
+                          {formatDateShort(appt.startDate)} at {formatTime(appt.startDate)}
+                          {appt.staffName && ` · ${appt.staffName}`}
+                        </p>
+                      </div>
+                      {appt.manageToken && business.bookingSlug && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => navigate(`/book/${business.bookingSlug}/manage/${appt.manageToken}`)}
+                        >
+                          Manage
+                        </Button>
+                      )}
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {account.past.length > 0 && (
+            <div>
+              <h3 className="text-lg font-semibold mb-3">Past Appointments</h3>
+              <div className="space-y-2">
+                {account.past.map((appt) => (
+                  <Card key={appt.id} className="opacity-90">
+                    <CardContent className="py-3 flex items-center justify-between gap-4">
+                      <div>
+                        <div className="flex items-center gap-3">
+                          <span className="font-medium">{appt.serviceName}</span>
+                          <StatusBadge status={appt.status} />
+                        </div>
+                        <p className="text-sm text-gray-500">
+                          {formatDateShort(appt.startDate)}
+                          {appt.staffName && ` · ${appt.staffName}`}
+                        </p>
+                      </div>
+                      {appt.rebookUrl && (
+                        <Button variant="outline" size="sm" onClick={() => navigate(appt.rebookUrl!)}>
+                          <RefreshCw className="mr-1 h-3 w-3" />
+                          Book Again
+                        </Button>
+                      )}
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            </div>
+          )}
+        </TabsContent>
+
+        {/* Quotes & invoices */}
+        <TabsContent value="billing" className="mt-6 space-y-6">
+          {account.quotes.length > 0 && (
+            <div>
+              <h3 className="text-lg font-semibold mb-3">Open Quotes</h3>
+              <div className="space-y-2">
+                {account.quotes.map((quote) => (
+                  <Card key={quote.id}>
+                    <CardContent className="py-3 flex items-center justify-between gap-4">
+                      <div>
+                        <span className="font-medium">{quote.quoteNumber}</span>
+                        {quote.validUntil && (
+                          <p className="text-sm text-gray-500">Valid until {formatDate(new Date(quote.validUntil))}</p>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-4">
+                        <span className="font-semibold">{formatCurrency(Number(quote.total))}</span>
+                        {quote.accessToken && (
+                          <Button size="sm" onClick={() => navigate(`/portal/quote/${quote.accessToken}`)}>
+                            Review
+                          </Button>
+                        )}
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div>
+            <h3 className="text-lg font-semibold mb-3">Invoices & Receipts</h3>
+            {account.invoices.length === 0 ? (
+              <p className="text-sm text-gray-500">No invoices yet.</p>
+            ) : (
+              <div className="space-y-2">
+                {account.invoices.map((invoice) => (
+                  <Card key={invoice.id}>
+                    <CardContent className="py-3 flex items-center justify-between gap-4">
+                      <div>
+                        <div className="flex items-center gap-3">
+                          <span className="font-medium">{invoice.invoiceNumber}</span>
+                          <StatusBadge status={invoice.status} />
+                        </div>
+                        <p className="text-sm text-gray-500">
+                          Issued {formatDate(new Date(invoice.createdAt))}
+                          {invoice.dueDate && invoice.status !== "paid" && ` · Due ${formatDate(new Date(invoice.dueDate))}`}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <span className="font-semibold mr-2">{formatCurrency(Number(invoice.total))}</span>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title={invoice.status === "paid" ? "Download receipt" : "Download invoice"}
+                          onClick={() => downloadPdf(invoice.id, invoice.invoiceNumber)}
+                        >
+                          <Download className="h-4 w-4" />
+                        </Button>
+                        {invoice.status !== "paid" && invoice.accessToken && (
+                          <Button size="sm" onClick={() => navigate(`/portal/invoice/${invoice.accessToken}`)}>
+                            Pay
+                          </Button>
+                        )}
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            )}
+          </div>
+        </TabsContent>
+
+        {/* Memberships & equipment */}
+        <TabsContent value="plans" className="mt-6 space-y-6">
+          <div>
+            <h3 className="text-lg font-semibold mb-3">Memberships</h3>
+            {account.memberships.length === 0 ? (
+              <p className="text-sm text-gray-500">No memberships.</p>
+            ) : (
+              <div className="space-y-2">
+                {account.memberships.map((m) => (
+                  <Card key={m.id}>
+                    <CardContent className="py-3 flex items-center justify-between gap-4">
+                      <div>
+                        <div className="flex items-center gap-3">
+                          <span className="font-medium">{m.planName}</span>
+                          <StatusBadge status={m.status} />
+                        </div>
+                        <p className="text-sm text-gray-500">
+                          {m.nextBillingDate && `Renews ${formatDate(new Date(m.nextBillingDate))}`}
+                        </p>
+                      </div>
+                      <div className="text-right text-sm text-gray-600">
+                        {m.tuneUpsRemaining != null && <p>{m.tuneUpsRemaining} tune-ups left</p>}
+                        {m.serviceCallsRemaining != null && <p>{m.serviceCallsRemaining} service calls left</p>}
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <h3 className="text-lg font-semibold mb-3">Equipment</h3>
+            {account.equipment.length === 0 ? (
+              <p className="text-sm text-gray-500">No equipment on file.</p>
+            ) : (
+              <div className="space-y-2">
+                {account.equipment.map((e) => (
+                  <Card key={e.id}>
+                    <CardContent className="py-3">
+                      <p className="font-medium capitalize">
+                        {[e.make, e.model].filter(Boolean).join(" ") || e.equipmentType.replace(/_/g, " ")}
+                        {e.location && <span className="text-sm font-normal text-gray-500"> · {e.location}</span>}
+                      </p>
+                      <p className="text-sm text-gray-500">
+                        {[
+                          e.installDate && `Installed ${formatDate(new Date(e.installDate))}`,
+                          e.lastServiceDate && `Last serviced ${formatDate(new Date(e.lastServiceDate))}`,
+                          e.warrantyExpiry && `Warranty until ${formatDate(new Date(e.warrantyExpiry))}`,
+                        ].filter(Boolean).join(" · ")}
+                      </p>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            )}
+          </div>
+        </TabsContent>
+
+        {/* Profile */}
+        <TabsContent value="profile" className="mt-6">
+          <ProfileCard
+            token={token}
+            account={account}
+            onSaved={(updated) => queryClient.setQueryData<PortalAccountData>(accountKey, updated)}
+            onSignedOut={onSignedOut}
+          />
+        </TabsContent>
+      </Tabs>
+
+      <p className="mt-12 text-center text-gray-500 text-sm">
+        Questions? Contact {business.name}
+        {business.phone && ` at ${formatPhoneNumber(business.phone)}`}.
+      </p>
+    </>
+  );
+}
+
+function ProfileCard({
+  token,
+  account,
+  onSaved,
+  onSignedOut,
+}: {
+  token: string;
+  account: PortalAccountData;
+  onSaved: (account: PortalAccountData) => void;
+  onSignedOut: () => void;
+}) {
+  const { toast } = useToast();
+  const toForm = (c: PortalAccountData["customer"]): ProfileForm => ({
+    firstName: c.firstName,
+    lastName: c.lastName,
+    email: c.email,
+    address: c.address,
+    city: c.city,
+    state: c.state,
+    zip: c.zip,
+    smsOptIn: c.smsOptIn,
+    marketingOptIn: c.marketingOptIn,
+  });
+  const [form, setForm] = useState<ProfileForm>(() => toForm(account.customer));
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: ProfileForm) =>
+      (await portalFetch(token, "/api/portal/account/profile", {
+        method: "PUT",
+        body: JSON.stringify({ ...data, email: data.email || null }),
+      })).json() as Promise<PortalAccountData>,
+    onSuccess: (updated) => {
+      onSaved(updated);
+      setForm(toForm(updated.customer));
+      toast({ title: "Details saved" });
+    },
+    onError: (err: Error) => {
+      if (err instanceof PortalSignedOut) return onSignedOut();
+      toast({ title: "Couldn't save", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const text = (field: keyof ProfileForm, label: string, type = "text") => (
+    <div className="space-y-2">
+      <Label htmlFor={field}>{label}</Label>
+      <Input
+        id={field}
+        type={type}
+        value={(form[field] as string | null) || ""}
+        onChange={(e) => setForm({ ...form, [field]: e.target.value })}
+      />
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Your Details</CardTitle>
+        <CardDescription>
+          Signed in as {formatPhoneNumber(account.customer.phone)}. To change your phone number, contact {account.business.name}.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            saveMutation.mutate(form);
+          }}
+        >
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {text("firstName", "First name")}
+            {text("lastName", "Last name")}
+          </div>
+          {text("email", "Email", "email")}
+          {text("address", "Address")}
+          <div className="grid grid-cols-3 gap-4">
+            {text("city", "City")}
+            {text("state", "State")}
+            {text("zip", "ZIP")}
+          </div>
+
+          <div className="space-y-3 pt-2 border-t">
+            <div className="flex items-center justify-between gap-4 pt-2">
+              <div>
+                <Label htmlFor="smsOptIn">Appointment texts</Label>
+                <p className="text-xs text-gray-500">Confirmations and reminders by SMS. Reply STOP at any time.</p>
+              </div>
+              <Switch
+                id="smsOptIn"
+                checked={form.smsOptIn}
+                onCheckedChange={(smsOptIn) => setForm({ ...form, smsOptIn })}
+              />
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor="marketingOptIn">Offers and news</Label>
+                <p className="text-xs text-gray-500">Occasional promotions from {account.business.name}.</p>
+              </div>
+              <Switch
+                id="marketingOptIn"
+                checked={form.marketingOptIn}
+                onCheckedChange={(marketingOptIn) => setForm({ ...form, marketingOptIn })}
+              />
+            </div>
+          </div>
+
+          <Button type="submit" disabled={saveMutation.isPending || !form.firstName.trim()}>
+            {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
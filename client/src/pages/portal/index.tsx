@@ -162,6 +162,14 @@ export default function CustomerPortal() {
   };
 
   const totalAppointments = upcomingAppointments.length + pastAppointments.length;
+  // One account link per business found, for the signed-in portal
+  const accountBusinesses = Array.from(
+    new Map(
+      [...upcomingAppointments, ...pastAppointments]
+        .filter((appt) => appt.businessSlug)
+        .map((appt) => [appt.businessSlug!, appt.businessName] as [string, string])
+    ).entries()
+  );
   const totalInvoices = invoices?.length || 0;
 
   return (
@@ -460,6 +468,25 @@ export default function CustomerPortal() {
           </Tabs>
         )}
 
+        {/* Signed-in account, one per business */}
+        {accountBusinesses.length > 0 && (
+          <Card className="mt-8">
+            <CardContent className="py-4 space-y-2">
+              <p className="text-sm text-gray-600">
+                Sign in with a one-time code to see everything in one place, update your details and book again.
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {accountBusinesses.map(([businessSlug, businessName]) => (
+                  <Button key={businessSlug} variant="outline" size="sm" onClick={() => navigate(`/portal/account/${businessSlug}`)}>
+                    <User className="mr-1 h-3 w-3" />
+                    My {businessName} account
+                  </Button>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Help Section */}
         <div className="mt-12 text-center">
           <p className="text-gray-500 text-sm">
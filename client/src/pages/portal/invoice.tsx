@@ -10,6 +10,8 @@ import {
 } from "@stripe/react-stripe-js";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { formatCurrency, formatDate } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
@@ -28,6 +30,10 @@ interface InvoiceData {
   notes: string | null;
   dueDate: string | null;
   createdAt: string;
+  amountPaid?: number;
+  creditedAmount?: number;
+  balanceDue?: number;
+  minimumPayment?: number;
   paymentsEnabled?: boolean;
   customer: {
     firstName: string;
@@ -53,11 +59,11 @@ interface InvoiceData {
 // Payment form component for portal
 function PortalCheckoutForm({
   token,
-  invoice,
+  amount,
   onSuccess
 }: {
   token: string;
-  invoice: InvoiceData;
+  amount: number;
   onSuccess: () => void;
 }) {
   const stripe = useStripe();
@@ -129,7 +135,7 @@ function PortalCheckoutForm({
           className="w-full"
           size="lg"
         >
-          {isLoading ? "Processing..." : `Pay ${formatCurrency(parseFloat(invoice.total))}`}
+          {isLoading ? "Processing..." : `Pay ${formatCurrency(amount)}`}
         </Button>
       </div>
     </form>
@@ -145,6 +151,11 @@ function PortalInvoiceInner() {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [clientSecret, setClientSecret] = useState<string | null>(null);
+  // Amount the customer chose to pay — any value between minimumPayment and balanceDue
+  const [payAmount, setPayAmount] = useState("");
+  const [chargedAmount, setChargedAmount] = useState<number | null>(null);
+  const [amountError, setAmountError] = useState<string | null>(null);
+  const [isStartingPayment, setIsStartingPayment] = useState(false);
   const [paymentStatus, setPaymentStatus] = useState<"idle" | "processing" | "success" | "error">("idle");
   const { toast } = useToast();
 
@@ -156,6 +167,32 @@ function PortalInvoiceInner() {
     }
   }, []);
 
+  // Create a payment intent for the chosen amount
+  const startPayment = (amount: number) => {
+    if (!token) return;
+    setIsStartingPayment(true);
+    setAmountError(null);
+    fetch(`/api/portal/invoice/${token}/pay`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ amount }),
+    })
+      .then(async res => {
+        const data = await res.json().catch(() => ({}));
+        // If response is not ok (e.g. 403 PAYMENT_BLOCKED), don't set clientSecret
+        if (!res.ok) {
+          setAmountError(data.message || "Unable to start payment");
+          return;
+        }
+        if (data?.clientSecret) {
+          setChargedAmount(amount);
+          setClientSecret(data.clientSecret);
+        }
+      })
+      .catch(() => setAmountError("Unable to start payment"))
+      .finally(() => setIsStartingPayment(false));
+  };
+
   // Fetch invoice by token
   useEffect(() => {
     if (!token) return;
@@ -168,26 +205,19 @@ function PortalInvoiceInner() {
         }
         return res.json();
       })
-      .then(data => {
+      .then((data: InvoiceData) => {
         setInvoice(data);
         setIsLoading(false);
 
-        // If invoice is unpaid AND payments are enabled, create payment intent
-        if ((data.status === 'pending' || data.status === 'overdue') && data.paymentsEnabled) {
-          return fetch(`/api/portal/invoice/${token}/pay`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' }
-          });
-        }
-      })
-      .then(res => {
-        if (res && res.ok) return res.json();
-        // If response is not ok (e.g. 403 PAYMENT_BLOCKED), don't set clientSecret
-        return null;
-      })
-      .then(data => {
-        if (data?.clientSecret) {
-          setClientSecret(data.clientSecret);
+        const balance = data.balanceDue ?? parseFloat(data.total);
+        setPayAmount(balance.toFixed(2));
+
+        // If invoice is unpaid AND payments are enabled AND only the full
+        // balance is accepted, create the payment intent straight away
+        const isOpen = ['pending', 'overdue', 'partially_paid'].includes(data.status);
+        const fullBalanceOnly = (data.minimumPayment ?? balance) >= balance;
+        if (isOpen && data.paymentsEnabled && fullBalanceOnly) {
+          startPayment(balance);
         }
       })
       .catch(err => {
@@ -214,8 +244,14 @@ function PortalInvoiceInner() {
         return <Badge className="bg-green-100 text-green-800 hover:bg-green-100">Paid</Badge>;
       case 'pending':
         return <Badge className="bg-yellow-100 text-yellow-800 hover:bg-yellow-100">Pending</Badge>;
+      case 'partially_paid':
+        return <Badge className="bg-blue-100 text-blue-800 hover:bg-blue-100">Partially Paid</Badge>;
       case 'overdue':
         return <Badge className="bg-red-100 text-red-800 hover:bg-red-100">Overdue</Badge>;
+      case 'credited':
+        return <Badge className="bg-purple-100 text-purple-800 hover:bg-purple-100">Credited</Badge>;
+      case 'void':
+        return <Badge variant="outline" className="text-gray-500">Void</Badge>;
       default:
         return <Badge>{status}</Badge>;
     }
@@ -276,7 +312,7 @@ function PortalInvoiceInner() {
               </div>
               <div className="flex justify-between">
                 <span className="text-gray-600">Amount Paid:</span>
-                <span className="font-medium text-green-600">{formatCurrency(parseFloat(invoice.total))}</span>
+                <span className="font-medium text-green-600">{formatCurrency(chargedAmount ?? parseFloat(invoice.total))}</span>
               </div>
               <div className="flex justify-between">
                 <span className="text-gray-600">Payment Date:</span>
@@ -403,6 +439,24 @@ function PortalInvoiceInner() {
                           {formatCurrency(parseFloat(invoice.total))}
                         </td>
                       </tr>
+                      {(invoice.creditedAmount ?? 0) > 0 && (
+                        <tr className="border-t">
+                          <td colSpan={3} className="py-2 text-right text-gray-600">Credits</td>
+                          <td className="py-2 text-right text-purple-600">-{formatCurrency(invoice.creditedAmount!)}</td>
+                        </tr>
+                      )}
+                      {(invoice.amountPaid ?? 0) > 0 && (
+                        <tr className="border-t">
+                          <td colSpan={3} className="py-2 text-right text-gray-600">Payments received</td>
+                          <td className="py-2 text-right text-green-600">-{formatCurrency(invoice.amountPaid!)}</td>
+                        </tr>
+                      )}
+                      {((invoice.amountPaid ?? 0) > 0 || (invoice.creditedAmount ?? 0) > 0) && (
+                        <tr>
+                          <td colSpan={3} className="py-2 text-right font-semibold">Balance Due</td>
+                          <td className="py-2 text-right font-semibold">{formatCurrency(invoice.balanceDue ?? 0)}</td>
+                        </tr>
+                      )}
                     </tfoot>
                   </table>
                 </div>
@@ -430,11 +484,23 @@ function PortalInvoiceInner() {
                 <div className="mb-4 p-4 bg-gray-50 rounded-lg">
                   <div className="text-sm text-gray-600">Amount Due</div>
                   <div className="text-3xl font-bold text-primary">
-                    {formatCurrency(parseFloat(invoice.total))}
+                    {formatCurrency(invoice.balanceDue ?? parseFloat(invoice.total))}
                   </div>
                 </div>
 
-                {invoice.status === 'paid' ? (
+                {invoice.status === 'void' ? (
+                  <div className="text-center p-4 bg-gray-50 rounded-lg">
+                    <AlertCircle className="h-8 w-8 text-gray-400 mx-auto mb-2" />
+                    <p className="text-gray-700 font-medium">This invoice has been voided</p>
+                    <p className="text-gray-500 text-sm mt-1">Nothing is owed on it.</p>
+                  </div>
+                ) : invoice.status === 'credited' ? (
+                  <div className="text-center p-4 bg-purple-50 rounded-lg">
+                    <CheckCircle className="h-8 w-8 text-purple-600 mx-auto mb-2" />
+                    <p className="text-purple-700 font-medium">This invoice has been fully credited</p>
+                    <p className="text-purple-600 text-sm">Nothing is owed on it.</p>
+                  </div>
+                ) : invoice.status === 'paid' ? (
                   <div className="text-center p-4 bg-green-50 rounded-lg">
                     <CheckCircle className="h-8 w-8 text-green-600 mx-auto mb-2" />
                     <p className="text-green-700 font-medium">This invoice has been paid</p>
@@ -458,10 +524,42 @@ function PortalInvoiceInner() {
                   >
                     <PortalCheckoutForm
                       token={token!}
-                      invoice={invoice}
+                      amount={chargedAmount ?? invoice.balanceDue ?? parseFloat(invoice.total)}
                       onSuccess={handlePaymentSuccess}
                     />
                   </Elements>
+                ) : (invoice.minimumPayment ?? 0) < (invoice.balanceDue ?? 0) ? (
+                  <div className="space-y-3">
+                    <div className="space-y-1">
+                      <Label htmlFor="pay-amount">Amount to pay</Label>
+                      <Input
+                        id="pay-amount"
+                        type="number"
+                        inputMode="decimal"
+                        step="0.01"
+                        min={invoice.minimumPayment}
+                        max={invoice.balanceDue}
+                        value={payAmount}
+                        onChange={(e) => setPayAmount(e.target.value)}
+                      />
+                      <p className="text-xs text-gray-500">
+                        Pay any amount from {formatCurrency(invoice.minimumPayment!)} up to {formatCurrency(invoice.balanceDue!)}.
+                      </p>
+                    </div>
+                    {amountError && (
+                      <div className="p-3 bg-red-50 text-red-700 rounded-md text-sm">{amountError}</div>
+                    )}
+                    <Button
+                      className="w-full"
+                      size="lg"
+                      disabled={isStartingPayment || !(parseFloat(payAmount) > 0)}
+                      onClick={() => startPayment(Math.round(parseFloat(payAmount) * 100) / 100)}
+                    >
+                      {isStartingPayment ? "Preparing..." : "Continue to payment"}
+                    </Button>
+                  </div>
+                ) : amountError ? (
+                  <div className="p-3 bg-red-50 text-red-700 rounded-md text-sm">{amountError}</div>
                 ) : (
                   <div className="flex justify-center py-4">
                     <div className="animate-spin w-8 h-8 border-4 border-primary rounded-full border-t-transparent"></div>
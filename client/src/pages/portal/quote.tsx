@@ -1,9 +1,19 @@
 import { useState, useEffect } from "react";
 import { useParams } from "wouter";
+import { loadStripe } from "@stripe/stripe-js";
+import {
+  Elements,
+  PaymentElement,
+  useStripe,
+  useElements,
+} from "@stripe/react-stripe-js";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { SignaturePad } from "@/components/quotes/SignaturePad";
 import { formatCurrency, formatDate } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
 import {
@@ -15,7 +25,10 @@ import {
   Calendar,
   Clock,
   Loader2,
-  AlertTriangle
+  AlertTriangle,
+  CreditCard,
+  Star,
+  Download
 } from "lucide-react";
 import {
   Table,
@@ -35,6 +48,9 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 
+// Load Stripe outside of component to avoid recreating on every render
+const stripePromise = loadStripe(import.meta.env.VITE_STRIPE_PUBLIC_KEY);
+
 interface QuoteData {
   id: number;
   quoteNumber: string;
@@ -45,6 +61,10 @@ interface QuoteData {
   validUntil: string | null;
   notes: string | null;
   createdAt: string;
+  depositAmount?: number | null;
+  depositPaid?: number;
+  depositOutstanding?: number;
+  paymentsEnabled?: boolean;
   customer: {
     firstName: string;
     lastName: string;
@@ -71,6 +91,101 @@ interface QuoteData {
     unitPrice: number;
     amount: number;
   }>;
+  // Good/better/best — empty for quotes with a single item list
+  selectedOptionId?: number | null;
+  options?: Array<{
+    id: number;
+    name: string;
+    description: string | null;
+    amount: number;
+    tax: number;
+    total: number;
+    isRecommended: boolean;
+    monthlyPayment: number | null;
+    items: Array<{
+      id: number;
+      description: string;
+      quantity: number;
+      unitPrice: number;
+      amount: number;
+    }>;
+  }>;
+  // Present once the customer has signed and accepted
+  signature?: {
+    signerName: string;
+    signedAt: string;
+  } | null;
+}
+
+// Card form for the required deposit. The webhook records the payment, so
+// onSuccess only needs to refresh the quote.
+function DepositCheckoutForm({
+  token,
+  amount,
+  onSuccess
+}: {
+  token: string;
+  amount: number;
+  onSuccess: () => void;
+}) {
+  const stripe = useStripe();
+  const elements = useElements();
+  const [isLoading, setIsLoading] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!stripe || !elements) {
+      return;
+    }
+
+    setIsLoading(true);
+    setErrorMessage(null);
+
+    try {
+      const { error } = await stripe.confirmPayment({
+        elements,
+        confirmParams: {
+          return_url: window.location.origin + `/portal/quote/${token}?deposit=success`,
+        },
+        redirect: "if_required",
+      });
+
+      if (error) {
+        setErrorMessage(error.message || "An error occurred");
+      } else {
+        toast({
+          title: "Deposit paid",
+          description: "Thank you! Your deposit has been received.",
+        });
+        onSuccess();
+      }
+    } catch (err: any) {
+      setErrorMessage(err.message || "An error occurred");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <div className="space-y-4">
+        <PaymentElement />
+
+        {errorMessage && (
+          <div className="p-3 bg-red-50 text-red-700 rounded-md text-sm">
+            {errorMessage}
+          </div>
+        )}
+
+        <Button type="submit" disabled={!stripe || isLoading} className="w-full" size="lg">
+          {isLoading ? "Processing..." : `Pay ${formatCurrency(amount)} deposit`}
+        </Button>
+      </div>
+    </form>
+  );
 }
 
 /**
@@ -97,6 +212,12 @@ export default function PortalQuote() {
   const [error, setError] = useState<string | null>(null);
   const [isResponding, setIsResponding] = useState(false);
   const [confirmDialog, setConfirmDialog] = useState<"accept" | "decline" | null>(null);
+  const [depositSecret, setDepositSecret] = useState<string | null>(null);
+  const [depositCharge, setDepositCharge] = useState(0);
+  const [isStartingDeposit, setIsStartingDeposit] = useState(false);
+  const [chosenOptionId, setChosenOptionId] = useState<number | null>(null);
+  const [signerName, setSignerName] = useState("");
+  const [signatureImage, setSignatureImage] = useState<string | null>(null);
 
   useEffect(() => {
     fetchQuote();
@@ -112,6 +233,14 @@ export default function PortalQuote() {
       }
       const data = await res.json();
       setQuote(data);
+      if (data.customer) {
+        setSignerName((current) => current || `${data.customer.firstName} ${data.customer.lastName}`.trim());
+      }
+      // Preselect the customer's earlier pick, else the recommended option
+      if (data.options?.length) {
+        const recommended = data.options.find((option: any) => option.isRecommended);
+        setChosenOptionId(data.selectedOptionId ?? recommended?.id ?? null);
+      }
     } catch (err: any) {
       setError(err.message);
     } finally {
@@ -125,7 +254,11 @@ export default function PortalQuote() {
       const res = await fetch(`/api/portal/quote/${token}/respond`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ response }),
+        body: JSON.stringify(
+          response === "accepted"
+            ? { response, optionId: chosenOptionId, signerName: signerName.trim(), signatureImage }
+            : { response }
+        ),
       });
 
       const data = await res.json();
@@ -153,6 +286,33 @@ export default function PortalQuote() {
     }
   };
 
+  const startDepositPayment = async () => {
+    try {
+      setIsStartingDeposit(true);
+      const res = await fetch(`/api/portal/quote/${token}/deposit`, { method: "POST" });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to start deposit payment");
+      }
+      setDepositSecret(data.clientSecret);
+      setDepositCharge(data.amount);
+    } catch (err: any) {
+      toast({
+        title: "Error",
+        description: err.message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsStartingDeposit(false);
+    }
+  };
+
+  const handleDepositPaid = () => {
+    setDepositSecret(null);
+    // Give the Stripe webhook a moment to record the payment before refreshing
+    setTimeout(fetchQuote, 2000);
+  };
+
   const getStatusBadge = (status: string) => {
     switch (status) {
       case "pending":
@@ -171,6 +331,11 @@ export default function PortalQuote() {
   };
 
   const isExpired = quote?.validUntil && new Date(quote.validUntil) < new Date();
+  const hasOptions = !!quote?.options?.length;
+  const chosenOption = quote?.options?.find((option) => option.id === chosenOptionId);
+  // Price shown in the summary and accept dialog follows the highlighted option
+  const displayTotal = chosenOption ? Number(chosenOption.total) : Number(quote?.total || 0);
+  const canChooseOption = quote?.status === "pending" && !isExpired;
 
   if (isLoading) {
     return (
@@ -324,13 +489,77 @@ export default function PortalQuote() {
               </div>
               <div>
                 <p className="text-sm text-muted-foreground">Total</p>
-                <p className="font-bold text-xl">{formatCurrency(quote.total)}</p>
+                <p className="font-bold text-xl">{formatCurrency(displayTotal)}</p>
               </div>
             </div>
           </CardContent>
         </Card>
 
+        {/* Options — customer picks one */}
+        {hasOptions && (
+          <div className="space-y-3">
+            <div>
+              <h2 className="text-lg font-semibold">
+                {canChooseOption ? "Choose an option" : "Options"}
+              </h2>
+              {canChooseOption && (
+                <p className="text-sm text-muted-foreground">
+                  Select the option that works best for you, then accept the quote below.
+                </p>
+              )}
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {quote.options!.map((option) => {
+                const isChosen = option.id === chosenOptionId;
+                return (
+                  <Card
+                    key={option.id}
+                    role={canChooseOption ? "button" : undefined}
+                    onClick={canChooseOption ? () => setChosenOptionId(option.id) : undefined}
+                    className={`flex flex-col ${isChosen ? "border-2 border-primary" : ""} ${canChooseOption ? "cursor-pointer hover:border-primary/60" : ""}`}
+                  >
+                    <CardHeader className="pb-3">
+                      <div className="flex items-center justify-between gap-2">
+                        <CardTitle className="text-base">{option.name}</CardTitle>
+                        {isChosen && <CheckCircle className="h-5 w-5 text-primary" />}
+                      </div>
+                      {option.isRecommended && (
+                        <Badge variant="outline" className="w-fit gap-1">
+                          <Star className="h-3 w-3" />
+                          Recommended
+                        </Badge>
+                      )}
+                      {option.description && (
+                        <CardDescription>{option.description}</CardDescription>
+                      )}
+                    </CardHeader>
+                    <CardContent className="flex-1 space-y-1 text-sm">
+                      {option.items.map((item) => (
+                        <div key={item.id} className="flex justify-between gap-2">
+                          <span className="text-muted-foreground">
+                            {item.quantity > 1 ? `${item.quantity} × ` : ""}{item.description}
+                          </span>
+                          <span>{formatCurrency(item.amount)}</span>
+                        </div>
+                      ))}
+                    </CardContent>
+                    <CardFooter className="flex flex-col items-start gap-1 border-t pt-4">
+                      <p className="text-2xl font-bold">{formatCurrency(option.total)}</p>
+                      {option.monthlyPayment != null && option.monthlyPayment > 0 && (
+                        <p className="text-sm text-emerald-700 dark:text-emerald-300">
+                          or about ${option.monthlyPayment.toLocaleString()}/mo with financing
+                        </p>
+                      )}
+                    </CardFooter>
+                  </Card>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
         {/* Line Items */}
+        {!hasOptions && (
         <Card>
           <CardHeader>
             <CardTitle className="text-lg">Items & Services</CardTitle>
@@ -374,12 +603,13 @@ export default function PortalQuote() {
             </Table>
           </CardContent>
         </Card>
+        )}
 
         {/* Financing CTA — only when the business has enabled financing */}
-        {quote.business?.financingEnabled && quote.total > 0 && (() => {
+        {quote.business?.financingEnabled && displayTotal > 0 && (() => {
           const apr = quote.business.financingApr != null ? Number(quote.business.financingApr) : 0;
           const term = quote.business.financingTermMonths || 60;
-          const monthly = computeMonthlyPayment(quote.total, apr, term);
+          const monthly = computeMonthlyPayment(displayTotal, apr, term);
           const applyUrl = quote.business.financingApplyUrl;
           // Validate the apply URL — only http/https links, never javascript: or other schemes.
           const isSafeUrl = applyUrl && /^https?:\/\//i.test(applyUrl);
@@ -428,6 +658,45 @@ export default function PortalQuote() {
           );
         })()}
 
+        {/* Required Deposit */}
+        {!!quote.depositAmount && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <CreditCard className="h-5 w-5" />
+                Deposit
+              </CardTitle>
+              <CardDescription>
+                {quote.depositOutstanding
+                  ? `A deposit of ${formatCurrency(quote.depositAmount)} is required to book this work. It will be applied to your final invoice.`
+                  : "Your deposit has been received and will be applied to your final invoice."}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">Paid so far</span>
+                <span className="font-medium">{formatCurrency(quote.depositPaid || 0)}</span>
+              </div>
+              {!!quote.depositOutstanding && quote.paymentsEnabled && !["declined", "expired"].includes(quote.status) && (
+                depositSecret ? (
+                  <Elements stripe={stripePromise} options={{ clientSecret: depositSecret }}>
+                    <DepositCheckoutForm token={token} amount={depositCharge} onSuccess={handleDepositPaid} />
+                  </Elements>
+                ) : (
+                  <Button className="w-full" size="lg" onClick={startDepositPayment} disabled={isStartingDeposit}>
+                    {isStartingDeposit ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <CreditCard className="mr-2 h-4 w-4" />
+                    )}
+                    Pay {formatCurrency(quote.depositOutstanding)} deposit
+                  </Button>
+                )
+              )}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Notes */}
         {quote.notes && (
           <Card>
@@ -449,10 +718,10 @@ export default function PortalQuote() {
                   size="lg"
                   className="bg-green-600 hover:bg-green-700"
                   onClick={() => setConfirmDialog("accept")}
-                  disabled={isResponding}
+                  disabled={isResponding || (hasOptions && !chosenOption)}
                 >
                   <CheckCircle className="mr-2 h-5 w-5" />
-                  Accept Quote
+                  {chosenOption ? `Accept ${chosenOption.name}` : "Accept Quote"}
                 </Button>
                 <Button
                   size="lg"
@@ -466,7 +735,7 @@ export default function PortalQuote() {
                 </Button>
               </div>
               <p className="text-center text-sm text-muted-foreground mt-4">
-                By accepting this quote, you agree to the services and pricing listed above.
+                By signing and accepting this quote, you agree to the services and pricing listed above.
               </p>
             </CardContent>
           </Card>
@@ -483,8 +752,23 @@ export default function PortalQuote() {
                   <p className="text-sm text-green-700 dark:text-green-300">
                     Thank you! The business will be in touch to schedule your service.
                   </p>
+                  {quote.signature && (
+                    <p className="text-xs text-green-700 dark:text-green-300 mt-1">
+                      Signed by {quote.signature.signerName} on {formatDate(quote.signature.signedAt)}
+                    </p>
+                  )}
                 </div>
               </div>
+              {quote.signature && (
+                <div className="flex justify-center mt-4">
+                  <Button variant="outline" size="sm" asChild>
+                    <a href={`/api/portal/quote/${token}/signed-pdf`}>
+                      <Download className="h-4 w-4 mr-2" />
+                      Download Signed Copy
+                    </a>
+                  </Button>
+                </div>
+              )}
             </CardContent>
           </Card>
         )}
@@ -518,10 +802,26 @@ export default function PortalQuote() {
           <DialogHeader>
             <DialogTitle>Accept Quote</DialogTitle>
             <DialogDescription>
-              Are you sure you want to accept this quote for {formatCurrency(quote.total)}?
-              The business will be notified and will contact you to proceed.
+              Sign below to accept {chosenOption ? `the ${chosenOption.name} option` : "this quote"} for {formatCurrency(displayTotal)}.
+              The business will be notified and you'll receive a signed copy by email.
             </DialogDescription>
           </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="signer-name">Full name</Label>
+              <Input
+                id="signer-name"
+                value={signerName}
+                onChange={(e) => setSignerName(e.target.value)}
+                placeholder="Your full name"
+                disabled={isResponding}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Signature</Label>
+              <SignaturePad onChange={setSignatureImage} disabled={isResponding} />
+            </div>
+          </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => setConfirmDialog(null)} disabled={isResponding}>
               Cancel
@@ -529,7 +829,7 @@ export default function PortalQuote() {
             <Button
               className="bg-green-600 hover:bg-green-700"
               onClick={() => handleResponse("accepted")}
-              disabled={isResponding}
+              disabled={isResponding || !signerName.trim() || !signatureImage}
             >
               {isResponding ? (
                 <>
@@ -537,7 +837,7 @@ export default function PortalQuote() {
                   Processing...
                 </>
               ) : (
-                "Accept Quote"
+                "Sign & Accept"
               )}
             </Button>
           </DialogFooter>
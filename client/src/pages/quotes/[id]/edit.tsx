@@ -71,13 +71,25 @@ export default function EditQuote() {
             customerId: quote.customerId,
             jobId: quote.jobId,
             quoteNumber: quote.quoteNumber,
-            items: quote.items.map((item: any) => ({
+            items: quote.options?.length ? [] : quote.items.map((item: any) => ({
               description: item.description,
               quantity: item.quantity,
               unitPrice: item.unitPrice,
             })),
+            useOptions: quote.options?.length > 0,
+            options: quote.options?.map((option: any) => ({
+              name: option.name,
+              description: option.description,
+              isRecommended: !!option.isRecommended,
+              items: option.items.map((item: any) => ({
+                description: item.description,
+                quantity: item.quantity,
+                unitPrice: parseFloat(item.unitPrice),
+              })),
+            })),
             validUntil: quote.validUntil || null,
             notes: quote.notes,
+            depositAmount: quote.depositAmount ? parseFloat(quote.depositAmount) : null,
           }}
           quoteId={quoteId}
         />
@@ -5,6 +5,9 @@ import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { formatCurrency, formatDate } from "@/lib/utils";
 import { PageLayout } from "@/components/layout/PageLayout";
+import { QuoteDepositCard } from "@/components/quotes/QuoteDepositCard";
+import { QuoteOptionsList } from "@/components/quotes/QuoteOptionsList";
+import { QuoteSignatureCard } from "@/components/quotes/QuoteSignatureCard";
 
 import {
   Card,
@@ -346,6 +349,10 @@ export default function QuoteDetail() {
                 <Printer className="h-4 w-4 mr-2" />
                 Print Quote
               </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => window.open(`/api/quotes/${quoteId}/pdf`, '_blank')}>
+                <Download className="h-4 w-4 mr-2" />
+                Download PDF
+              </DropdownMenuItem>
             </DropdownMenuContent>
           </DropdownMenu>
         </div>
@@ -457,6 +464,10 @@ export default function QuoteDetail() {
           </Card>
         )}
 
+        <QuoteSignatureCard quoteId={quoteId} />
+
+        <QuoteDepositCard quoteId={quoteId} />
+
         {quote.convertedToInvoiceId && (
           <Card>
             <CardHeader>
@@ -483,6 +494,24 @@ export default function QuoteDetail() {
         )}
       </div>
 
+      {quote.options?.length > 0 ? (
+        <div className="space-y-2">
+          <div>
+            <h2 className="text-xl font-semibold">Options</h2>
+            <p className="text-sm text-muted-foreground">
+              {quote.selectedOptionId
+                ? "Only the chosen option is converted to a job or invoice."
+                : "The customer picks one option when accepting. The quote total shows the recommended option until then."}
+            </p>
+          </div>
+          <QuoteOptionsList
+            quoteId={quoteId}
+            options={quote.options}
+            selectedOptionId={quote.selectedOptionId}
+            canSelect={["pending", "accepted"].includes(quote.status)}
+          />
+        </div>
+      ) : (
       <Card>
         <CardHeader>
           <CardTitle>Quote Items</CardTitle>
@@ -524,6 +553,7 @@ export default function QuoteDetail() {
           </Table>
         </CardContent>
       </Card>
+      )}
 
       {quote.notes && (
         <Card>
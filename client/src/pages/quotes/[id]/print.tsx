@@ -36,6 +36,10 @@ export default function PrintQuote() {
     );
   }
 
+  // Good/better/best quotes: print the chosen option, or all of them until one is picked
+  const chosenOption = quote.options?.find((option: any) => option.id === quote.selectedOptionId);
+  const optionsToList = quote.options?.length > 0 && !chosenOption ? quote.options : null;
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'accepted': return 'text-green-600';
@@ -139,6 +143,34 @@ export default function PrintQuote() {
           </div>
         </div>
 
+        {/* Options — a chosen option prints like a flat quote; otherwise every option is listed */}
+        {optionsToList && optionsToList.map((option: any) => (
+          <div key={option.id} className="mb-8">
+            <div className="flex justify-between items-baseline mb-2">
+              <h3 className="text-lg font-semibold text-gray-900">
+                {option.name}
+                {option.isRecommended && <span className="ml-2 text-sm font-normal text-gray-500">(Recommended)</span>}
+              </h3>
+              <span className="font-bold text-gray-900">{formatCurrency(option.total)}</span>
+            </div>
+            {option.description && <p className="text-sm text-gray-600 mb-2">{option.description}</p>}
+            <table className="w-full">
+              <tbody>
+                {option.items.map((item: any) => (
+                  <tr key={item.id} className="border-b border-gray-100">
+                    <td className="py-2 text-gray-900">{item.description}</td>
+                    <td className="py-2 text-right text-gray-600">{item.quantity}</td>
+                    <td className="py-2 text-right text-gray-600">{formatCurrency(item.unitPrice)}</td>
+                    <td className="py-2 text-right text-gray-900">{formatCurrency(item.amount)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ))}
+
+        {!optionsToList && (
+        <>
         {/* Line Items */}
         <table className="w-full mb-8">
           <thead>
@@ -150,7 +182,7 @@ export default function PrintQuote() {
             </tr>
           </thead>
           <tbody>
-            {quote.items?.map((item: any, index: number) => (
+            {(chosenOption ? chosenOption.items : quote.items)?.map((item: any, index: number) => (
               <tr key={index} className="border-b border-gray-100">
                 <td className="py-3 text-gray-900">{item.description}</td>
                 <td className="py-3 text-right text-gray-600">{item.quantity}</td>
@@ -180,6 +212,8 @@ export default function PrintQuote() {
             </div>
           </div>
         </div>
+        </>
+        )}
 
         {/* Notes */}
         {quote.notes && (
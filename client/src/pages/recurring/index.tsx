@@ -29,11 +29,13 @@ import {
   DollarSign,
   User,
   Briefcase,
+  CalendarDays,
 } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
 import { RecurringScheduleForm } from "@/components/recurring/RecurringScheduleForm";
+import { RecurringOccurrencesDialog } from "@/components/recurring/RecurringOccurrencesDialog";
 import { Skeleton } from "@/components/ui/skeleton-loader";
 
 interface RecurringSchedule {
@@ -45,6 +47,9 @@ interface RecurringSchedule {
   interval: number;
   dayOfWeek?: number;
   dayOfMonth?: number;
+  rrule?: string | null;
+  ruleText?: string;
+  exdates?: string[];
   startDate: string;
   endDate?: string;
   nextRunDate?: string;
@@ -77,6 +82,7 @@ const frequencyLabels: Record<string, string> = {
   monthly: "Monthly",
   quarterly: "Quarterly",
   yearly: "Yearly",
+  custom: "Custom",
 };
 
 const dayNames = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
@@ -84,6 +90,7 @@ const dayNames = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Frida
 export default function RecurringSchedulesPage() {
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [editingSchedule, setEditingSchedule] = useState<RecurringSchedule | null>(null);
+  const [occurrencesScheduleId, setOccurrencesScheduleId] = useState<number | null>(null);
   const { toast } = useToast();
   const { user } = useAuth();
   const businessId = user?.businessId;
@@ -162,6 +169,10 @@ export default function RecurringSchedulesPage() {
   };
 
   const formatScheduleDetails = (schedule: RecurringSchedule) => {
+    if (schedule.ruleText) {
+      return schedule.ruleText.charAt(0).toUpperCase() + schedule.ruleText.slice(1);
+    }
+
     let details = frequencyLabels[schedule.frequency] || schedule.frequency;
 
     if (schedule.frequency === "weekly" && schedule.dayOfWeek !== undefined) {
@@ -242,6 +253,10 @@ export default function RecurringSchedulesPage() {
                           <Edit className="h-4 w-4 mr-2" />
                           Edit
                         </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => setOccurrencesScheduleId(schedule.id)}>
+                          <CalendarDays className="h-4 w-4 mr-2" />
+                          Occurrences
+                        </DropdownMenuItem>
                         {schedule.status === "active" ? (
                           <DropdownMenuItem onClick={() => pauseMutation.mutate(schedule.id)}>
                             <Pause className="h-4 w-4 mr-2" />
@@ -338,6 +353,11 @@ export default function RecurringSchedulesPage() {
             />
           </DialogContent>
         </Dialog>
+
+        <RecurringOccurrencesDialog
+          scheduleId={occurrencesScheduleId}
+          onClose={() => setOccurrencesScheduleId(null)}
+        />
       </div>
     </PageLayout>
   );
@@ -9,6 +9,12 @@ import { useAuth } from "@/hooks/use-auth";
 import BookingSettings from "@/components/settings/BookingSettings";
 import { StaffScheduleManager } from "@/components/settings/StaffScheduleManager";
 import GpsTrackingSettings from "@/components/settings/GpsTrackingSettings";
+import { ResourceSettings } from "@/components/settings/ResourceSettings";
+import { ServiceAddonSettings } from "@/components/settings/ServiceAddonSettings";
+import { ClassScheduleSettings } from "@/components/settings/ClassScheduleSettings";
+import { JobFormTemplateSettings } from "@/components/settings/JobFormTemplateSettings";
+import { CustomFieldSettings } from "@/components/settings/CustomFieldSettings";
+import type { ResourceData } from "@/components/appointments/appointmentHelpers";
 import {
   Dialog,
   DialogContent,
@@ -61,7 +67,7 @@ import {
   serviceSchema,
   type ServiceFormData,
 } from "./constants";
-import { getIndustryConfig } from "@shared/industry-config";
+import { getIndustryConfig, isJobCategoryConfig } from "@shared/industry-config";
 
 // Lazy-loaded extracted components (self-contained with own data fetching)
 const BookingPageBranding = lazy(() => import("@/components/settings/BookingPageBranding"));
@@ -119,6 +125,13 @@ export default function BusinessSection({ activeTab }: { activeTab: string }) {
     enabled: !!businessId,
   });
 
+  // Resource types offered in the service dialog's "Requires" picker
+  const { data: resources = [] } = useQuery<ResourceData[]>({
+    queryKey: ["/api/resources"],
+    enabled: !!businessId && activeTab === "services",
+  });
+  const resourceTypes = Array.from(new Set(resources.map((r) => r.resourceType)));
+
   // Business Profile Form
   const businessForm = useForm<z.infer<typeof businessProfileSchema>>({
     resolver: zodResolver(businessProfileSchema),
@@ -209,6 +222,8 @@ export default function BusinessSection({ activeTab }: { activeTab: string }) {
       category: null,
       pricingType: "fixed",
       requiresDiagnostic: false,
+      requiredResourceType: null,
+      classCapacity: null,
     },
   });
 
@@ -223,6 +238,8 @@ export default function BusinessSection({ activeTab }: { activeTab: string }) {
         category: editingService.category ?? null,
         pricingType: editingService.pricingType ?? "fixed",
         requiresDiagnostic: editingService.requiresDiagnostic ?? false,
+        requiredResourceType: editingService.requiredResourceType ?? null,
+        classCapacity: editingService.classCapacity ?? null,
       });
     } else {
       serviceForm.reset({
@@ -234,6 +251,8 @@ export default function BusinessSection({ activeTab }: { activeTab: string }) {
         category: null,
         pricingType: "fixed",
         requiresDiagnostic: false,
+        requiredResourceType: null,
+        classCapacity: null,
       });
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -483,6 +502,16 @@ export default function BusinessSection({ activeTab }: { activeTab: string }) {
           </CardContent>
         </Card>
 
+        <ServiceAddonSettings />
+
+        <ResourceSettings />
+
+        <ClassScheduleSettings />
+
+        {isJobCategoryConfig(business?.industry) && <JobFormTemplateSettings />}
+
+        <CustomFieldSettings />
+
         {/* Service Dialog */}
         <Dialog open={serviceDialogOpen} onOpenChange={setServiceDialogOpen}>
           <DialogContent className="sm:max-w-[425px]">
@@ -607,6 +636,60 @@ export default function BusinessSection({ activeTab }: { activeTab: string }) {
                   </div>
                 )}
 
+                {resourceTypes.length > 0 && (
+                  <FormField control={serviceForm.control} name="requiredResourceType" render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Requires</FormLabel>
+                      <Select
+                        onValueChange={(v) => field.onChange(v === "__none__" ? null : v)}
+                        value={field.value ?? "__none__"}
+                      >
+                        <FormControl>
+                          <SelectTrigger data-testid="service-required-resource">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="__none__">Just a staff member</SelectItem>
+                          {resourceTypes.map((type) => (
+                            <SelectItem key={type} value={type}>A free {type.toLowerCase()}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>Only times when one is free are offered for booking.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )} />
+                )}
+
+                <FormField control={serviceForm.control} name="classCapacity" render={({ field }) => (
+                  <FormItem className="rounded-lg border p-3 space-y-2">
+                    <div className="flex items-center justify-between">
+                      <div className="space-y-0.5">
+                        <FormLabel>Group class</FormLabel>
+                        <FormDescription>Many customers book seats in one session</FormDescription>
+                      </div>
+                      <FormControl>
+                        <Switch checked={field.value != null} onCheckedChange={(on) => field.onChange(on ? 10 : null)} />
+                      </FormControl>
+                    </div>
+                    {field.value != null && (
+                      <div className="flex items-center gap-2">
+                        <Input
+                          type="number"
+                          min="1"
+                          max="500"
+                          className="w-24"
+                          value={field.value}
+                          onChange={(e) => field.onChange(e.target.value)}
+                        />
+                        <span className="text-sm text-muted-foreground">spots per session</span>
+                      </div>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )} />
+
                 <FormField control={serviceForm.control} name="active" render={({ field }) => (
                   <FormItem className="flex items-center justify-between rounded-lg border p-3">
                     <div className="space-y-0.5">
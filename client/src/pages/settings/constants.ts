@@ -103,6 +103,10 @@ export const serviceSchema = z.object({
     .enum(["fixed", "diagnostic_required", "quote_required"])
     .optional(),
   requiresDiagnostic: z.boolean().optional(),
+  // Resource type (room, chair, lift) the booking also needs — null = staff only
+  requiredResourceType: z.string().nullable().optional(),
+  // Seats per session for group classes — null = one customer per booking
+  classCapacity: z.coerce.number().int().min(1).max(500).nullable().optional(),
 });
 
 export type ServiceFormData = z.infer<typeof serviceSchema>;
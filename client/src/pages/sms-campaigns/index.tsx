@@ -55,6 +55,7 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Calendar } from "@/components/ui/calendar";
+import { useCustomFieldDefinitions } from "@/components/custom-fields/CustomFieldInputs";
 import {
   Loader2,
   Plus,
@@ -64,6 +65,7 @@ import {
   Play,
   Pause,
   Trash2,
+  X,
   Send,
   Users,
   MessageSquare,
@@ -101,9 +103,10 @@ interface SmsCampaign {
 
 interface AudienceFilter {
   allCustomers: boolean;
-  inactiveDays?: number;
+  inactiveSinceDays?: number;
   tags?: string[];
   minimumVisits?: number;
+  customFields?: Record<string, string>; // custom field key → value to match
 }
 
 interface CampaignMetrics {
@@ -205,6 +208,7 @@ function CreateCampaignDialog({
   const [inactiveDays, setInactiveDays] = useState("");
   const [tags, setTags] = useState("");
   const [minimumVisits, setMinimumVisits] = useState("");
+  const [customFieldFilters, setCustomFieldFilters] = useState<Array<{ key: string; value: string }>>([]);
   const [messagePrompt, setMessagePrompt] = useState("");
   const [scheduledDate, setScheduledDate] = useState<Date | undefined>(undefined);
   const [audiencePreview, setAudiencePreview] = useState<number | null>(null);
@@ -216,6 +220,7 @@ function CreateCampaignDialog({
     setInactiveDays("");
     setTags("");
     setMinimumVisits("");
+    setCustomFieldFilters([]);
     setMessagePrompt("");
     setScheduledDate(undefined);
     setAudiencePreview(null);
@@ -226,12 +231,22 @@ function CreateCampaignDialog({
     onClose();
   };
 
+  const { definitions: customFieldDefs } = useCustomFieldDefinitions("customer");
+
+  const updateCustomFieldFilter = (index: number, change: Partial<{ key: string; value: string }>) => {
+    setCustomFieldFilters((prev) => prev.map((f, i) => (i === index ? { ...f, ...change } : f)));
+  };
+
   const buildAudienceFilter = (): AudienceFilter => {
     const filter: AudienceFilter = { allCustomers };
     if (!allCustomers) {
-      if (inactiveDays) filter.inactiveDays = parseInt(inactiveDays, 10);
+      if (inactiveDays) filter.inactiveSinceDays = parseInt(inactiveDays, 10);
       if (tags.trim()) filter.tags = tags.split(",").map((t) => t.trim()).filter(Boolean);
       if (minimumVisits) filter.minimumVisits = parseInt(minimumVisits, 10);
+      const customFields = Object.fromEntries(
+        customFieldFilters.filter((f) => f.key && f.value.trim()).map((f) => [f.key, f.value.trim()])
+      );
+      if (Object.keys(customFields).length > 0) filter.customFields = customFields;
     }
     return filter;
   };
@@ -239,7 +254,7 @@ function CreateCampaignDialog({
   const previewAudienceMutation = useMutation({
     mutationFn: async () => {
       const res = await apiRequest("POST", "/api/sms-campaigns/preview-audience", {
-        audienceFilter: buildAudienceFilter(),
+        filter: buildAudienceFilter(),
       });
       return res.json();
     },
@@ -256,9 +271,9 @@ function CreateCampaignDialog({
       const res = await apiRequest("POST", "/api/sms-campaigns", {
         name,
         type,
-        audienceFilter: buildAudienceFilter(),
+        audience: buildAudienceFilter(),
         messagePrompt,
-        scheduledAt: scheduledDate ? scheduledDate.toISOString() : null,
+        scheduledFor: scheduledDate ? scheduledDate.toISOString() : undefined,
       });
       return res.json();
     },
@@ -370,6 +385,63 @@ function CreateCampaignDialog({
                     onChange={(e) => setMinimumVisits(e.target.value)}
                   />
                 </div>
+                {customFieldDefs.length > 0 && (
+                  <div className="space-y-2">
+                    <Label className="text-xs">Custom Fields</Label>
+                    {customFieldFilters.map((f, index) => {
+                      const def = customFieldDefs.find((d) => d.key === f.key);
+                      return (
+                        <div key={index} className="flex items-center gap-2">
+                          <Select value={f.key} onValueChange={(key) => updateCustomFieldFilter(index, { key, value: "" })}>
+                            <SelectTrigger className="w-[45%]">
+                              <SelectValue placeholder="Field" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {customFieldDefs.map((d) => (
+                                <SelectItem key={d.key} value={d.key}>{d.label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          {def?.fieldType === "select" || def?.fieldType === "boolean" ? (
+                            <Select value={f.value} onValueChange={(value) => updateCustomFieldFilter(index, { value })}>
+                              <SelectTrigger className="flex-1">
+                                <SelectValue placeholder="Value" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {(def.fieldType === "boolean" ? ["Yes", "No"] : def.options || []).map((option) => (
+                                  <SelectItem key={option} value={option}>{option}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          ) : (
+                            <Input
+                              className="flex-1"
+                              type={def?.fieldType === "number" ? "number" : def?.fieldType === "date" ? "date" : "text"}
+                              placeholder={def?.fieldType === "text" ? "Contains..." : "Value"}
+                              value={f.value}
+                              onChange={(e) => updateCustomFieldFilter(index, { value: e.target.value })}
+                            />
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setCustomFieldFilters((prev) => prev.filter((_, i) => i !== index))}
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      );
+                    })}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setCustomFieldFilters((prev) => [...prev, { key: "", value: "" }])}
+                    >
+                      <Plus className="h-3 w-3 mr-1" />
+                      Add Field Filter
+                    </Button>
+                  </div>
+                )}
               </div>
             )}
 
@@ -6,6 +6,9 @@ import { useToast } from "@/hooks/use-toast";
 import { useLocation } from "wouter";
 import { useBusinessHours } from "@/hooks/use-business-hours";
 import { formatHour, getStatusColors, STATUS_COLORS } from "@/lib/scheduling-utils";
+import { useLiveRefetchInterval } from "@/lib/realtime";
+import { fetchOfflineBundle, OFFLINE_BUNDLE_QUERY_KEY, type OfflineBundle } from "@/lib/offline-sync";
+import { OfflineSyncPanel } from "@/components/jobs/OfflineSyncPanel";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -29,6 +32,8 @@ import {
   CalendarOff,
   Plus,
   X,
+  MapPin,
+  Wrench,
 } from "lucide-react";
 
 interface StaffProfile {
@@ -67,6 +72,15 @@ interface Appointment {
   } | null;
 }
 
+const JOB_STATUS_LABELS: Record<string, string> = {
+  pending: "Scheduled",
+  en_route: "On the way",
+  in_progress: "In progress",
+  waiting_parts: "Waiting on parts",
+  completed: "Completed",
+  cancelled: "Cancelled",
+};
+
 const DAYS_ORDER = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
 
 const HOUR_HEIGHT = 70; // px per hour
@@ -86,6 +100,7 @@ const TIME_OFF_REASONS = ['Vacation', 'Sick', 'Personal', 'Training', 'Holiday',
 
 export default function StaffDashboard() {
   const { user, logoutMutation } = useAuth();
+  const pollInterval = useLiveRefetchInterval(10000);
   const { toast } = useToast();
   const queryClientHook = useQueryClient();
   const [, setLocation] = useLocation();
@@ -146,7 +161,7 @@ export default function StaffDashboard() {
       );
       return res.json();
     },
-    refetchInterval: 10000, // Auto-refresh every 10 seconds
+    refetchInterval: pollInterval, // Every 10s, or 60s while live events refresh it on change
     staleTime: 5000,
   });
 
@@ -165,6 +180,15 @@ export default function StaffDashboard() {
     refetchInterval: 30000,
   });
 
+  // Today's jobs with customer, equipment, line items and checklists — kept on
+  // the device so the job screens work without signal (lib/offline-sync)
+  const { data: jobsBundle, isLoading: jobsLoading } = useQuery<OfflineBundle>({
+    queryKey: OFFLINE_BUNDLE_QUERY_KEY,
+    queryFn: fetchOfflineBundle,
+    refetchInterval: 60000,
+  });
+  const todaysJobs = jobsBundle?.jobs ?? [];
+
   // Fetch time-off entries
   const { data: timeOffEntries = [] } = useQuery<StaffTimeOff[]>({
     queryKey: ["/api/staff/me/time-off"],
@@ -547,6 +571,80 @@ export default function StaffDashboard() {
           </Card>
         </div>
 
+        {/* Job changes saved on the device — self-hides when nothing is queued */}
+        <OfflineSyncPanel />
+
+        {/* Today's Jobs — available offline */}
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="flex items-center gap-2">
+              <Wrench className="h-5 w-5" />
+              Today's Jobs
+            </CardTitle>
+            {jobsBundle?.syncedAt && (
+              <CardDescription>Saved for offline use · updated {formatTime(jobsBundle.syncedAt)}</CardDescription>
+            )}
+          </CardHeader>
+          <CardContent>
+            {jobsLoading ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-6 w-6 animate-spin" />
+              </div>
+            ) : todaysJobs.length === 0 ? (
+              <p className="text-center py-6 text-sm text-muted-foreground">No jobs assigned to you today.</p>
+            ) : (
+              <div className="space-y-2">
+                {todaysJobs.map((job) => {
+                  const customer = job.customer;
+                  const address = customer
+                    ? [customer.address, customer.city, customer.state].filter(Boolean).join(", ")
+                    : "";
+                  return (
+                    <button
+                      key={job.id}
+                      type="button"
+                      onClick={() => setLocation(`/staff/jobs/${job.id}`)}
+                      className="w-full text-left rounded-lg border p-3 hover:bg-muted/50 transition-colors"
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-medium truncate">{job.title}</span>
+                        <Badge variant="outline" className="shrink-0">
+                          {JOB_STATUS_LABELS[job.status || "pending"] || job.status}
+                        </Badge>
+                      </div>
+                      {customer && (
+                        <div className="mt-1 text-sm text-muted-foreground space-y-0.5">
+                          <div className="flex items-center gap-1">
+                            <User className="h-3.5 w-3.5" />
+                            {`${customer.firstName ?? ""} ${customer.lastName ?? ""}`.trim()}
+                            {customer.phone && (
+                              <>
+                                <Phone className="h-3.5 w-3.5 ml-2" />
+                                {customer.phone}
+                              </>
+                            )}
+                          </div>
+                          {address && (
+                            <div className="flex items-center gap-1">
+                              <MapPin className="h-3.5 w-3.5" />
+                              {address}
+                            </div>
+                          )}
+                        </div>
+                      )}
+                      {job.equipment.length > 0 && (
+                        <div className="mt-1 text-xs text-muted-foreground">
+                          {job.equipment.length} {job.equipment.length === 1 ? "piece" : "pieces"} of equipment on file
+                        </div>
+                      )}
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
         {/* Date Navigator + View Controls */}
         <Card>
           <CardHeader className="pb-3">
@@ -0,0 +1,260 @@
+import { useState, useEffect } from "react";
+import { useParams, useLocation } from "wouter";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { JobLineItems } from "@/components/jobs/JobLineItems";
+import { JobPhotoUploader } from "@/components/jobs/JobPhotoUploader";
+import { JobChecklists } from "@/components/jobs/JobChecklists";
+import { OnMyWayCard } from "@/components/jobs/OnMyWayCard";
+import { OfflineSyncPanel } from "@/components/jobs/OfflineSyncPanel";
+import TriageCard from "@/components/jobs/TriageCard";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import {
+  fetchOfflineBundle,
+  jobQueryKey,
+  OFFLINE_BUNDLE_QUERY_KEY,
+  sendJobChange,
+  type OfflineBundle,
+  type SendResult,
+} from "@/lib/offline-sync";
+import { ChevronLeft, CheckCircle2, Loader2, MapPin, Package, Phone, Play, User, Wrench } from "lucide-react";
+
+const STATUS_LABELS: Record<string, string> = {
+  pending: "Scheduled",
+  en_route: "On the way",
+  in_progress: "In progress",
+  waiting_parts: "Waiting on parts",
+  completed: "Completed",
+  cancelled: "Cancelled",
+};
+
+/**
+ * Job screen for techs signed in to the staff portal. Reads from the same
+ * caches the offline bundle seeds, so it opens without signal, and every edit
+ * goes through lib/offline-sync to be queued when it can't be sent.
+ */
+export default function StaffJobDetail() {
+  const params = useParams();
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const jobId = parseInt(params.id ?? "");
+
+  const { data: job, isLoading } = useQuery<any>({
+    queryKey: jobQueryKey(jobId),
+    enabled: !isNaN(jobId),
+  });
+
+  // Equipment only comes down with the bundle
+  const { data: bundle } = useQuery<OfflineBundle>({
+    queryKey: OFFLINE_BUNDLE_QUERY_KEY,
+    queryFn: fetchOfflineBundle,
+  });
+  const bundleJob = bundle?.jobs.find((bundled) => bundled.id === jobId);
+  const customer = job?.customer ?? bundleJob?.customer ?? null;
+  const equipment = bundleJob?.equipment ?? [];
+
+  const [notes, setNotes] = useState("");
+  const [notesDirty, setNotesDirty] = useState(false);
+  useEffect(() => {
+    if (!notesDirty) setNotes(job?.notes ?? "");
+  }, [job?.notes, notesDirty]);
+
+  const updateMutation = useMutation({
+    mutationFn: (data: Record<string, unknown>): Promise<SendResult> =>
+      sendJobChange({ kind: "job-update", jobId, data }, { baseUpdatedAt: job?.updatedAt }),
+    // Runs offline too — the change is queued instead of paused
+    networkMode: "always",
+    onSuccess: (result, data) => {
+      if ("notes" in data) setNotesDirty(false);
+      if (result.queued) {
+        toast({ title: "Saved on this device", description: "It'll sync when you're back online." });
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: jobQueryKey(jobId) });
+      queryClient.invalidateQueries({ queryKey: OFFLINE_BUNDLE_QUERY_KEY });
+      toast({ title: "notes" in data ? "Notes saved" : `Job ${STATUS_LABELS[data.status as string]?.toLowerCase() ?? "updated"}` });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Update failed", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const address = customer
+    ? [customer.address, customer.city, customer.state, customer.zip].filter(Boolean).join(", ")
+    : "";
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-10 bg-black text-white border-b border-neutral-800">
+        <div className="max-w-3xl mx-auto px-4 py-3 flex items-center gap-3">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-neutral-400 hover:text-white"
+            onClick={() => navigate("/staff/dashboard")}
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <div className="min-w-0 flex-1">
+            <h1 className="text-lg font-bold truncate">{job?.title ?? "Job"}</h1>
+            {job?.status && <p className="text-xs text-neutral-400">{STATUS_LABELS[job.status] ?? job.status}</p>}
+          </div>
+        </div>
+      </header>
+
+      <div className="max-w-3xl mx-auto px-4 py-6 space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : !job ? (
+          <div className="text-center py-12 text-muted-foreground">
+            <Wrench className="h-12 w-12 mx-auto mb-3 opacity-50" />
+            <p className="font-medium">Job not available</p>
+            <p className="text-sm">It isn't saved on this device. Open it again once you have signal.</p>
+          </div>
+        ) : (
+          <>
+            <OfflineSyncPanel jobId={jobId} />
+
+            {customer && (
+              <Card>
+                <CardContent className="p-4 space-y-1 text-sm">
+                  <div className="flex items-center gap-2 font-medium">
+                    <User className="h-4 w-4" />
+                    {`${customer.firstName ?? ""} ${customer.lastName ?? ""}`.trim()}
+                  </div>
+                  {customer.phone && (
+                    <a href={`tel:${customer.phone}`} className="flex items-center gap-2 text-primary">
+                      <Phone className="h-4 w-4" />
+                      {customer.phone}
+                    </a>
+                  )}
+                  {address && (
+                    <div className="flex items-center gap-2 text-muted-foreground">
+                      <MapPin className="h-4 w-4" />
+                      {address}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
+            <OnMyWayCard
+              jobId={jobId}
+              status={job.status}
+              enRouteAt={job.enRouteAt}
+              etaMinutes={job.etaMinutes}
+              departedAt={job.departedAt}
+              updatedAt={job.updatedAt}
+            />
+
+            {(job.status === "in_progress" || job.status === "waiting_parts") && (
+              <Card>
+                <CardContent className="p-4 flex flex-wrap gap-2">
+                  {job.status === "in_progress" ? (
+                    <Button
+                      variant="outline"
+                      onClick={() => updateMutation.mutate({ status: "waiting_parts" })}
+                      disabled={updateMutation.isPending}
+                    >
+                      <Package className="mr-2 h-4 w-4" />
+                      Waiting on Parts
+                    </Button>
+                  ) : (
+                    <Button
+                      variant="outline"
+                      onClick={() => updateMutation.mutate({ status: "in_progress" })}
+                      disabled={updateMutation.isPending}
+                    >
+                      <Play className="mr-2 h-4 w-4" />
+                      Resume
+                    </Button>
+                  )}
+                  <Button
+                    onClick={() => updateMutation.mutate({ status: "completed" })}
+                    disabled={updateMutation.isPending}
+                  >
+                    <CheckCircle2 className="mr-2 h-4 w-4" />
+                    Mark Complete
+                  </Button>
+                </CardContent>
+              </Card>
+            )}
+
+            <TriageCard
+              urgency={job.urgency}
+              issueType={job.issueType}
+              symptoms={job.symptoms}
+              accessNotes={job.accessNotes}
+            />
+
+            {equipment.length > 0 && (
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-base">Equipment</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {equipment.map((item) => (
+                    <div key={item.id} className="rounded-md border p-3 text-sm">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-medium">
+                          {[item.make, item.model].filter(Boolean).join(" ") || "Unknown make"}
+                        </span>
+                        <Badge variant="outline" className="capitalize">
+                          {String(item.equipmentType).replace(/_/g, " ")}
+                        </Badge>
+                      </div>
+                      <div className="text-xs text-muted-foreground space-y-0.5 mt-1">
+                        {item.serialNumber && <div>Serial: {item.serialNumber}</div>}
+                        {item.location && <div>Location: {item.location}</div>}
+                        {item.lastServiceDate && <div>Last service: {item.lastServiceDate}</div>}
+                        {item.notes && <div>{item.notes}</div>}
+                      </div>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base">Notes</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                <Textarea
+                  value={notes}
+                  onChange={(e) => {
+                    setNotes(e.target.value);
+                    setNotesDirty(true);
+                  }}
+                  rows={4}
+                  placeholder="Notes for this job"
+                />
+                <div className="flex justify-end">
+                  <Button
+                    size="sm"
+                    onClick={() => updateMutation.mutate({ notes })}
+                    disabled={!notesDirty || updateMutation.isPending}
+                  >
+                    Save Notes
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+
+            <JobChecklists jobId={jobId} jobStatus={job.status} />
+
+            <JobLineItems jobId={jobId} readOnly={job.status === "completed"} />
+
+            <JobPhotoUploader jobId={jobId} photos={Array.isArray(job.photos) ? job.photos : []} />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
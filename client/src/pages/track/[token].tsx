@@ -25,6 +25,8 @@ interface TrackingPayload {
   businessPhone: string | null;
   tech: { firstName: string; lastInitial: string } | null;
   jobStatus: string | null;
+  techArrived?: boolean;
+  arrivedAt?: string | null;
   etaMinutes: number | null;
   latestPing: { lat: number; lng: number; recordedAt: string; isMoving?: boolean } | null;
   sessionStatus: 'active' | 'paused' | 'ended';
@@ -183,12 +185,17 @@ export default function CustomerTrackPage() {
                 <CheckCircle2 className="h-6 w-6 text-green-600" />
                 Service complete
               </span>
-            ) : data.jobStatus === 'in_progress' ? (
+            ) : data.techArrived || data.jobStatus === 'in_progress' ? (
               `${techName} has arrived`
             ) : (
               `${techName} is on the way!`
             )}
           </h1>
+          {!sessionEnded && data.techArrived && data.arrivedAt && (
+            <p className="mt-1 text-sm text-muted-foreground">
+              Arrived at {new Date(data.arrivedAt).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+            </p>
+          )}
           {!sessionEnded && data.etaMinutes != null && data.jobStatus !== 'in_progress' && (
             <p className="mt-1 text-lg text-blue-600 font-semibold">
               ETA: ~{data.etaMinutes} min
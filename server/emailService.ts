@@ -70,6 +70,12 @@ async function initTransporter(): Promise<nodemailer.Transporter> {
   return transporter;
 }
 
+export interface EmailAttachment {
+  filename: string;
+  content: Buffer;
+  contentType?: string;
+}
+
 interface EmailOptions {
   to: string;
   subject: string;
@@ -79,6 +85,7 @@ interface EmailOptions {
   senderName?: string;
   replyTo?: string;
   headers?: Record<string, string>;
+  attachments?: EmailAttachment[];
 }
 
 /**
@@ -99,6 +106,9 @@ export async function sendEmail(options: EmailOptions): Promise<{ messageId: str
         html: options.html || options.text,
         ...(options.replyTo ? { reply_to: options.replyTo } : {}),
         ...(options.headers ? { headers: options.headers } : {}),
+        ...(options.attachments?.length
+          ? { attachments: options.attachments.map(a => ({ filename: a.filename, content: a.content })) }
+          : {}),
       });
 
       if (error) {
@@ -126,6 +136,16 @@ export async function sendEmail(options: EmailOptions): Promise<{ messageId: str
         html: options.html || options.text,
         ...(options.replyTo ? { replyTo: options.replyTo } : {}),
         ...(options.headers ? { headers: options.headers } : {}),
+        ...(options.attachments?.length
+          ? {
+              attachments: options.attachments.map(a => ({
+                content: a.content.toString('base64'),
+                filename: a.filename,
+                type: a.contentType,
+                disposition: 'attachment',
+              })),
+            }
+          : {}),
       });
 
       const messageId = response.headers['x-message-id'] || `sg-${Date.now()}`;
@@ -149,6 +169,9 @@ export async function sendEmail(options: EmailOptions): Promise<{ messageId: str
     html: options.html || undefined,
     ...(options.replyTo ? { replyTo: options.replyTo } : {}),
     ...(options.headers ? { headers: options.headers } : {}),
+    ...(options.attachments?.length
+      ? { attachments: options.attachments.map(a => ({ filename: a.filename, content: a.content, contentType: a.contentType })) }
+      : {}),
   };
 
   try {
@@ -390,7 +413,8 @@ export async function sendInvoiceEmail(
   invoiceNumber: string,
   amount: string,
   dueDate: string,
-  businessPhone: string
+  businessPhone: string,
+  attachments?: EmailAttachment[]
 ): Promise<{ messageId: string; previewUrl?: string }> {
   const subject = `Invoice #${invoiceNumber} from ${businessName}`;
   const text = `Hi ${customerName},\n\nYou have a new invoice from ${businessName}.\n\nInvoice: #${invoiceNumber}\nAmount: ${amount}\nDue Date: ${dueDate}\n\nTo make a payment or if you have questions, please call us at ${businessPhone}.\n\nThank you,\n${businessName}`;
@@ -406,12 +430,13 @@ export async function sendInvoiceEmail(
         <p style="margin: 4px 0;"><strong>Due Date:</strong> ${dueDate}</p>
       </div>
       <p>To make a payment or if you have questions, please call us at <a href="tel:${businessPhone}">${businessPhone}</a>.</p>
+      ${attachments?.length ? '<p style="color: #666; font-size: 14px;">A PDF copy of this invoice is attached.</p>' : ''}
       <hr style="border: none; border-top: 1px solid #eee; margin: 30px 0;" />
       <p style="color: #999; font-size: 12px;">Thank you,<br>${businessName}</p>
     </div>
   `;
 
-  return sendEmail({ to: customerEmail, subject, text, html, senderName: businessName });
+  return sendEmail({ to: customerEmail, subject, text, html, senderName: businessName, attachments });
 }
 
 /**
@@ -424,7 +449,8 @@ export async function sendInvoiceReminderEmail(
   invoiceNumber: string,
   amount: string,
   dueDate: string,
-  businessPhone: string
+  businessPhone: string,
+  attachments?: EmailAttachment[]
 ): Promise<{ messageId: string; previewUrl?: string }> {
   const subject = `Payment Reminder: Invoice #${invoiceNumber} - ${businessName}`;
   const text = `Hi ${customerName},\n\nThis is a friendly reminder that invoice #${invoiceNumber} for ${amount} is due on ${dueDate}.\n\nPlease call us at ${businessPhone} to make a payment.\n\nThank you,\n${businessName}`;
@@ -440,12 +466,13 @@ export async function sendInvoiceReminderEmail(
         <p style="margin: 4px 0;"><strong>Due Date:</strong> ${dueDate}</p>
       </div>
       <p>Please call us at <a href="tel:${businessPhone}">${businessPhone}</a> to make a payment.</p>
+      ${attachments?.length ? '<p style="color: #666; font-size: 14px;">A PDF copy of this invoice is attached.</p>' : ''}
       <hr style="border: none; border-top: 1px solid #eee; margin: 30px 0;" />
       <p style="color: #999; font-size: 12px;">Thank you,<br>${businessName}</p>
     </div>
   `;
 
-  return sendEmail({ to: customerEmail, subject, text, html, senderName: businessName });
+  return sendEmail({ to: customerEmail, subject, text, html, senderName: businessName, attachments });
 }
 
 /**
@@ -479,6 +506,79 @@ export async function sendPaymentConfirmationEmail(
   return sendEmail({ to: customerEmail, subject, text, html, senderName: businessName });
 }
 
+/**
+ * Send a receipt for a late-cancellation or no-show fee charged to the card on file
+ */
+export async function sendCancellationFeeReceiptEmail(
+  customerEmail: string,
+  customerName: string,
+  businessName: string,
+  details: {
+    feeLabel: string; // "Late cancellation fee" | "No-show fee"
+    amount: string;
+    appointmentDate: string;
+    cardDescription: string | null; // e.g. "Visa ending 4242"
+  }
+): Promise<{ messageId: string; previewUrl?: string }> {
+  const subject = `Receipt: ${details.feeLabel} - ${businessName}`;
+  const cardLine = details.cardDescription ? ` to your ${details.cardDescription}` : '';
+  const text = `Hi ${customerName},\n\nPer the cancellation policy you accepted when booking, a ${details.feeLabel.toLowerCase()} of ${details.amount} for your ${details.appointmentDate} appointment has been charged${cardLine}.\n\nQuestions? Just reply to this email.\n${businessName}`;
+
+  const html = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+      <h2 style="color: #333;">Receipt</h2>
+      <p>Hi ${customerName},</p>
+      <p>Per the cancellation policy you accepted when booking, the following fee has been charged${cardLine}.</p>
+      <div style="background: #f8fafc; border-radius: 8px; padding: 16px; margin: 20px 0; border-left: 4px solid #64748b;">
+        <p style="margin: 4px 0;"><strong>${details.feeLabel}:</strong> ${details.amount}</p>
+        <p style="margin: 4px 0;"><strong>Appointment:</strong> ${details.appointmentDate}</p>
+        <p style="margin: 4px 0;"><strong>Status:</strong> Paid</p>
+      </div>
+      <p>Questions? Just reply to this email.</p>
+      <hr style="border: none; border-top: 1px solid #eee; margin: 30px 0;" />
+      <p style="color: #999; font-size: 12px;">Thank you,<br>${businessName}</p>
+    </div>
+  `;
+
+  return sendEmail({ to: customerEmail, subject, text, html, senderName: businessName });
+}
+
+/**
+ * Send a customer portal sign-in code, with a tap-to-sign-in link
+ */
+export async function sendPortalSignInEmail(
+  customerEmail: string,
+  customerName: string,
+  businessName: string,
+  code: string,
+  signInUrl: string,
+  expiresMinutes: number
+): Promise<{ messageId: string; previewUrl?: string }> {
+  const subject = `${code} is your ${businessName} sign-in code`;
+  const text = `Hi ${customerName},\n\nYour code to sign in to your ${businessName} account is:\n\n${code}\n\nOr sign in directly: ${signInUrl}\n\nThis code expires in ${expiresMinutes} minutes. If you didn't ask to sign in, you can ignore this email.\n\n${businessName}`;
+
+  const html = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+      <h2 style="color: #333;">Sign in to your account</h2>
+      <p>Hi ${customerName},</p>
+      <p>Your code to sign in to your ${businessName} account is:</p>
+      <div style="margin: 24px 0; text-align: center;">
+        <div style="display: inline-block; background: #f3f4f6; padding: 16px 32px; font-size: 32px; font-weight: 700; letter-spacing: 8px; border-radius: 8px; font-family: 'Courier New', monospace;">
+          ${code}
+        </div>
+      </div>
+      <div style="text-align: center; margin: 30px 0;">
+        <a href="${signInUrl}" style="background: #000; color: #fff; padding: 12px 32px; border-radius: 6px; text-decoration: none; font-weight: bold; display: inline-block;">Sign In</a>
+      </div>
+      <p style="color: #666; font-size: 14px;">This code expires in ${expiresMinutes} minutes. If you didn't ask to sign in, you can ignore this email.</p>
+      <hr style="border: none; border-top: 1px solid #eee; margin: 30px 0;" />
+      <p style="color: #999; font-size: 12px;">${businessName}</p>
+    </div>
+  `;
+
+  return sendEmail({ to: customerEmail, subject, text, html, senderName: businessName });
+}
+
 /**
  * Send a quote email to a customer with a link to view/accept/decline
  */
@@ -490,7 +590,8 @@ export async function sendQuoteEmail(
   amount: string,
   validUntil: string,
   quoteUrl: string,
-  businessPhone: string
+  businessPhone: string,
+  attachments?: EmailAttachment[]
 ): Promise<{ messageId: string; previewUrl?: string }> {
   const subject = `Quote #${quoteNumber} from ${businessName}`;
   const text = `Hi ${customerName},\n\n${businessName} has prepared a quote for you.\n\nQuote: #${quoteNumber}\nAmount: ${amount}\nValid Until: ${validUntil}\n\nView your quote here: ${quoteUrl}\n\nYou can accept or decline this quote directly from the link above.\n\nIf you have questions, please call us at ${businessPhone}.\n\nThank you,\n${businessName}`;
@@ -508,14 +609,55 @@ export async function sendQuoteEmail(
       <div style="text-align: center; margin: 30px 0;">
         <a href="${quoteUrl}" style="background: #000; color: #fff; padding: 12px 32px; border-radius: 6px; text-decoration: none; font-weight: bold; display: inline-block;">View Quote</a>
       </div>
-      <p style="color: #666; font-size: 14px;">You can accept or decline this quote directly from the link above.</p>
+      <p style="color: #666; font-size: 14px;">You can accept or decline this quote directly from the link above.${attachments?.length ? ' A PDF copy is attached.' : ''}</p>
       <p>If you have questions, please call us at <a href="tel:${businessPhone}">${businessPhone}</a>.</p>
       <hr style="border: none; border-top: 1px solid #eee; margin: 30px 0;" />
       <p style="color: #999; font-size: 12px;">Thank you,<br>${businessName}</p>
     </div>
   `;
 
-  return sendEmail({ to: customerEmail, subject, text, html, senderName: businessName });
+  return sendEmail({ to: customerEmail, subject, text, html, senderName: businessName, attachments });
+}
+
+/**
+ * Send the signed copy of an accepted quote, with the flattened PDF attached.
+ * Goes to both the customer and the business.
+ */
+export async function sendSignedQuoteEmail(
+  recipientEmail: string,
+  recipientName: string,
+  businessName: string,
+  quoteNumber: string,
+  signerName: string,
+  signedAt: string,
+  pdf: Buffer
+): Promise<{ messageId: string; previewUrl?: string }> {
+  const subject = `Signed Quote #${quoteNumber} — ${businessName}`;
+  const text = `Hi ${recipientName},\n\nQuote #${quoteNumber} from ${businessName} was accepted and signed by ${signerName} on ${signedAt}.\n\nA signed copy is attached for your records.\n\nThank you,\n${businessName}`;
+
+  const html = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+      <h2 style="color: #333;">Quote Signed</h2>
+      <p>Hi ${recipientName},</p>
+      <p>Quote <strong>#${quoteNumber}</strong> from ${businessName} was accepted and signed.</p>
+      <div style="background: #f9f9f9; border-radius: 8px; padding: 16px; margin: 20px 0;">
+        <p style="margin: 4px 0;"><strong>Signed by:</strong> ${signerName}</p>
+        <p style="margin: 4px 0;"><strong>Signed on:</strong> ${signedAt}</p>
+      </div>
+      <p style="color: #666; font-size: 14px;">A signed PDF copy is attached for your records.</p>
+      <hr style="border: none; border-top: 1px solid #eee; margin: 30px 0;" />
+      <p style="color: #999; font-size: 12px;">Thank you,<br>${businessName}</p>
+    </div>
+  `;
+
+  return sendEmail({
+    to: recipientEmail,
+    subject,
+    text,
+    html,
+    senderName: businessName,
+    attachments: [{ filename: `quote-${quoteNumber}-signed.pdf`, content: pdf, contentType: 'application/pdf' }],
+  });
 }
 
 /**
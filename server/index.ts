@@ -308,7 +308,8 @@ app.use(cors({
   },
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'X-CSRF-Token'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'X-CSRF-Token', 'X-Offline-Mutation-Id'],
+  exposedHeaders: ['X-Offline-Replayed'],
 }));
 
 // Rate limiting - General API rate limit
@@ -436,6 +437,7 @@ app.use((req, res, next) => {
     '/api/auth/mobile-login',
     '/api/auth/mobile-refresh',
     '/api/gps/public/track/',
+    '/api/portal/account/',
     '/health',
   ];
 
@@ -746,6 +748,17 @@ app.use((req, res, next) => {
         }
       })();
 
+      // Start real-time change events (Postgres LISTEN/NOTIFY → SSE streams).
+      // Fail-soft — events reach this instance's streams only if it can't connect.
+      (async () => {
+        try {
+          const { startRealtimeEventBus } = await import('./services/realtimeEventBus');
+          await startRealtimeEventBus();
+        } catch (err) {
+          console.error('Failed to start realtime event bus (non-fatal):', err);
+        }
+      })();
+
       // Start the reminder scheduler after server is running
       (async () => {
         try {
@@ -789,6 +802,13 @@ app.use((req, res, next) => {
         console.error('Error stopping cache invalidation bus:', err);
       }
 
+      try {
+        const { stopRealtimeEventBus } = await import('./services/realtimeEventBus');
+        await stopRealtimeEventBus();
+      } catch (err) {
+        console.error('Error stopping realtime event bus:', err);
+      }
+
       // Wait for HTTP server to finish in-flight requests
       await new Promise<void>((resolve) => {
         server.close(() => {
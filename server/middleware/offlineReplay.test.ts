@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { EventEmitter } from 'events';
+
+const mockReserveReceipt = vi.fn();
+const mockGetReceipt = vi.fn();
+const mockSaveReceipt = vi.fn();
+const mockReleaseReceipt = vi.fn();
+
+vi.mock('../storage', () => ({
+  storage: {
+    reserveOfflineMutationReceipt: (...args: any[]) => mockReserveReceipt(...args),
+    getOfflineMutationReceipt: (...args: any[]) => mockGetReceipt(...args),
+    saveOfflineMutationReceipt: (...args: any[]) => mockSaveReceipt(...args),
+    releaseOfflineMutationReceipt: (...args: any[]) => mockReleaseReceipt(...args),
+  },
+}));
+
+import { offlineReplay } from './offlineReplay';
+
+// ── Helpers ──
+function mockReq(mutationId?: string, user: any = { id: 1, businessId: 5 }) {
+  return {
+    user,
+    get: (name: string) => (name === 'X-Offline-Mutation-Id' ? mutationId : undefined),
+  } as any;
+}
+function mockRes() {
+  const res: any = new EventEmitter();
+  res.statusCode = 200;
+  res.writableEnded = false;
+  res.status = vi.fn((code: number) => {
+    res.statusCode = code;
+    return res;
+  });
+  res.json = vi.fn(() => {
+    res.writableEnded = true;
+    return res;
+  });
+  res.end = vi.fn(() => {
+    res.writableEnded = true;
+    return res;
+  });
+  res.setHeader = vi.fn();
+  return res;
+}
+const mockNext = vi.fn();
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockReserveReceipt.mockResolvedValue(true);
+  mockGetReceipt.mockResolvedValue(undefined);
+  mockSaveReceipt.mockResolvedValue(undefined);
+  mockReleaseReceipt.mockResolvedValue(undefined);
+});
+
+describe('offlineReplay', () => {
+  it('passes requests without the header straight through', async () => {
+    const res = mockRes();
+    await offlineReplay(mockReq(), res, mockNext);
+    expect(mockNext).toHaveBeenCalled();
+    expect(mockReserveReceipt).not.toHaveBeenCalled();
+  });
+
+  it('rejects malformed mutation ids', async () => {
+    const res = mockRes();
+    await offlineReplay(mockReq('bad id!'), res, mockNext);
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(mockNext).not.toHaveBeenCalled();
+  });
+
+  it('returns the stored response for a repeated mutation', async () => {
+    mockReserveReceipt.mockResolvedValue(false);
+    mockGetReceipt.mockResolvedValue({ statusCode: 201, response: { id: 90 } });
+    const res = mockRes();
+    await offlineReplay(mockReq('abc12345'), res, mockNext);
+
+    expect(mockGetReceipt).toHaveBeenCalledWith(5, 'abc12345');
+    expect(res.setHeader).toHaveBeenCalledWith('X-Offline-Replayed', 'true');
+    expect(res.status).toHaveBeenCalledWith(201);
+    expect(res.json).toHaveBeenCalledWith({ id: 90 });
+    expect(mockNext).not.toHaveBeenCalled();
+  });
+
+  it('asks a duplicate to retry while the first attempt is still running', async () => {
+    mockReserveReceipt.mockResolvedValue(false);
+    mockGetReceipt.mockResolvedValue({ statusCode: 0, response: null });
+    const res = mockRes();
+    await offlineReplay(mockReq('abc12345'), res, mockNext);
+
+    expect(res.status).toHaveBeenCalledWith(503);
+    expect(res.setHeader).toHaveBeenCalledWith('Retry-After', '5');
+    expect(mockNext).not.toHaveBeenCalled();
+  });
+
+  it('stores a receipt for a successful first attempt', async () => {
+    const res = mockRes();
+    await offlineReplay(mockReq('abc12345'), res, mockNext);
+    expect(mockReserveReceipt).toHaveBeenCalledWith(5, 'abc12345');
+    expect(mockNext).toHaveBeenCalled();
+
+    res.status(201).json({ id: 90 });
+    res.emit('finish');
+    expect(mockSaveReceipt).toHaveBeenCalledWith({ businessId: 5, mutationId: 'abc12345', statusCode: 201, response: { id: 90 } });
+  });
+
+  it('does not store conflicts or errors so they can be retried', async () => {
+    const res = mockRes();
+    await offlineReplay(mockReq('abc12345'), res, mockNext);
+
+    res.status(409).json({ conflict: true });
+    res.emit('finish');
+    res.emit('close');
+    expect(mockSaveReceipt).not.toHaveBeenCalled();
+    expect(mockReleaseReceipt).toHaveBeenCalledTimes(1);
+    expect(mockReleaseReceipt).toHaveBeenCalledWith(5, 'abc12345');
+  });
+
+  it('keeps the reservation when the client leaves before the response', async () => {
+    const res = mockRes();
+    await offlineReplay(mockReq('abc12345'), res, mockNext);
+
+    res.emit('close');
+    expect(mockReleaseReceipt).not.toHaveBeenCalled();
+    expect(mockSaveReceipt).not.toHaveBeenCalled();
+  });
+
+  it('fails open when the receipt lookup errors', async () => {
+    mockReserveReceipt.mockRejectedValue(new Error('db down'));
+    const res = mockRes();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    await offlineReplay(mockReq('abc12345'), res, mockNext);
+    expect(mockNext).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Offline replay dedup middleware.
+ *
+ * The tech app queues edits made without signal and replays them when the
+ * device reconnects. A replay can reach the server twice — the first attempt
+ * lands but the response is lost when signal drops again — so each queued
+ * edit carries a stable `X-Offline-Mutation-Id`. The id is reserved before
+ * the request runs and the first successful response is stored against it;
+ * a repeat of the same id gets that stored response back (with
+ * `X-Offline-Replayed: true`) instead of running again, so a line item or
+ * photo isn't added twice. A repeat that arrives while the first is still
+ * running gets a 503 and is retried later.
+ *
+ * Only 2xx responses are kept — a 409 conflict or a validation error drops
+ * the reservation so it can be retried once the tech resolves it. Requests
+ * without the header pass straight through. Fails open if the receipt
+ * lookup errors.
+ *
+ * Use AFTER `isAuthenticated` and before any body parser such as multer.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { storage } from '../storage';
+
+export const OFFLINE_MUTATION_HEADER = 'X-Offline-Mutation-Id';
+
+const MUTATION_ID_PATTERN = /^[A-Za-z0-9_-]{8,64}$/;
+
+export async function offlineReplay(req: Request, res: Response, next: NextFunction) {
+  const mutationId = req.get(OFFLINE_MUTATION_HEADER);
+  const businessId = req.user?.businessId;
+  if (!mutationId || !businessId) return next();
+  if (!MUTATION_ID_PATTERN.test(mutationId)) {
+    return res.status(400).json({ message: 'Invalid offline mutation id' });
+  }
+
+  try {
+    const reserved = await storage.reserveOfflineMutationReceipt(businessId, mutationId);
+    if (!reserved) {
+      const receipt = await storage.getOfflineMutationReceipt(businessId, mutationId);
+      if (receipt && receipt.statusCode >= 200 && receipt.statusCode < 300) {
+        res.setHeader('X-Offline-Replayed', 'true');
+        if (receipt.response === null || receipt.response === undefined) {
+          return res.status(receipt.statusCode).end();
+        }
+        return res.status(receipt.statusCode).json(receipt.response);
+      }
+      res.setHeader('Retry-After', '5');
+      return res.status(503).json({ message: 'This change is still being saved. Try again shortly.' });
+    }
+  } catch (err) {
+    console.error('[offlineReplay] Error checking receipt:', err);
+    return next();
+  }
+
+  let body: unknown = null;
+  const originalJson = res.json.bind(res);
+  res.json = (payload: unknown) => {
+    body = payload;
+    return originalJson(payload);
+  };
+
+  let settled = false;
+  const settle = () => {
+    // Still running after the client went away — the reservation expires on its own
+    if (settled || !res.writableEnded) return;
+    settled = true;
+    if (res.statusCode < 200 || res.statusCode >= 300) {
+      storage.releaseOfflineMutationReceipt(businessId, mutationId)
+        .catch(err => console.error('[offlineReplay] Error releasing receipt:', err));
+      return;
+    }
+    storage.saveOfflineMutationReceipt({ businessId, mutationId, statusCode: res.statusCode, response: body as any })
+      .catch(err => console.error('[offlineReplay] Error saving receipt:', err));
+  };
+  res.on('finish', settle);
+  res.on('close', settle);
+
+  next();
+}
@@ -2574,6 +2574,59 @@ async function runMigrationsInner() {
     // UI per business; the tables themselves are universal.
     await ensureMembershipTables();
 
+    // Payments ledger — partial payments, quote deposits and refunds. Adds
+    // running balance columns to invoices and backfills them from status.
+    await ensurePaymentLedgerTables();
+
+    // Credit notes + invoice voiding — numbered credit documents with their
+    // own sequence, and void columns so invoices are never deleted for undo.
+    await ensureCreditNoteTables();
+
+    // Quote options — good/better/best tiers with their own line items and
+    // the customer's pick recorded on the quote.
+    await ensureQuoteOptionTables();
+
+    // Quote e-signatures — signer, image, IP/UA and a frozen snapshot of
+    // the accepted quote for the signed PDF.
+    await ensureQuoteSignatureTable();
+
+    // Recurrence rules — RFC 5545 RRULE + EXDATEs on recurring schedules,
+    // single-occurrence overrides and the split-series parent link.
+    await ensureRecurrenceRuleColumns();
+
+    // Dispatch day planner — per-tech stop order on jobs.
+    await ensureRoutePlanningColumns();
+
+    // Geofence job transitions — per-business thresholds + job arrival/departure.
+    await ensureGeofenceColumns();
+    await ensureWebhookDeliveryColumns();
+    await ensureCancellationFeeTables();
+    await ensureRestaurantTables();
+    await ensureWaitlistTables();
+    await ensureAppointmentWaitlistTables();
+    await ensureMultilingualColumns();
+    await ensureScheduledTaskTables();
+    await ensureResourceBooking();
+    await ensureMultiServiceAppointments();
+
+    // Group classes: per-seat sessions with rosters and waitlists
+    await ensureGroupClasses();
+
+    // Customer portal: one-time sign-in codes and portal sessions
+    await ensureCustomerPortalTables();
+
+    // SMS inbox: per-phone threads with assignment, unread counts and takeover
+    await ensureSmsInboxThreads();
+
+    // Job forms: owner-defined checklists attached to jobs, gating completion
+    await ensureJobForms();
+
+    // Custom fields: owner-defined fields on customers, jobs and appointments
+    await ensureCustomFields();
+
+    // Offline tech mode: replay receipts and line item updatedAt for conflict checks
+    await ensureOfflineSync();
+
     // Backfill any missing columns on tables that were created from earlier
     // commits without the latest schema (CREATE TABLE IF NOT EXISTS is a no-op
     // when the table exists, even if columns are missing). Triggered by a live
@@ -4245,6 +4298,1270 @@ async function ensureMembershipTables() {
   }
 }
 
+// ──────────────────────────────────────────────────────────────────────────
+// Payments ledger v1
+//
+// Schema lives in shared/schema.ts under payments / paymentRefunds, plus
+// amount_paid / balance_due / minimum_payment_amount on invoices and
+// deposit_amount / deposit_paid_at on quotes.
+//
+// Backfill: invoices already marked paid get amount_paid = total and a zero
+// balance; everything else owes its full total. No synthetic ledger rows are
+// written for historical payments — the ledger starts from this migration.
+// ──────────────────────────────────────────────────────────────────────────
+async function ensurePaymentLedgerTables() {
+  const MIGRATION_NAME = 'payment_ledger_v1';
+  try {
+    const exists = await pool.query(`SELECT 1 FROM migrations WHERE name = $1 LIMIT 1`, [MIGRATION_NAME]);
+    if (exists.rows.length > 0) {
+      console.log('Payment ledger tables already created');
+      return;
+    }
+    console.log('Creating payment ledger tables...');
+
+    await pool.query('BEGIN');
+    try {
+      // ── payments ──
+      await pool.query(`
+        CREATE TABLE IF NOT EXISTS payments (
+          id SERIAL PRIMARY KEY,
+          business_id INTEGER NOT NULL,
+          customer_id INTEGER NOT NULL,
+          invoice_id INTEGER,
+          quote_id INTEGER,
+          amount NUMERIC(12, 2) NOT NULL,
+          refunded_amount NUMERIC(12, 2) DEFAULT 0,
+          method TEXT NOT NULL,
+          status TEXT DEFAULT 'succeeded' NOT NULL,
+          is_deposit BOOLEAN DEFAULT FALSE,
+          stripe_payment_intent_id TEXT,
+          reference TEXT,
+          notes TEXT,
+          recorded_by_user_id INTEGER,
+          paid_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          CONSTRAINT payments_stripe_payment_intent_unique UNIQUE (stripe_payment_intent_id)
+        )
+      `);
+      await pool.query(`CREATE INDEX IF NOT EXISTS payments_business_id_idx ON payments (business_id)`);
+      await pool.query(`CREATE INDEX IF NOT EXISTS payments_invoice_id_idx ON payments (invoice_id)`);
+      await pool.query(`CREATE INDEX IF NOT EXISTS payments_quote_id_idx ON payments (quote_id)`);
+
+      // ── payment_refunds ──
+      await pool.query(`
+        CREATE TABLE IF NOT EXISTS payment_refunds (
+          id SERIAL PRIMARY KEY,
+          business_id INTEGER NOT NULL,
+          payment_id INTEGER NOT NULL,
+          invoice_id INTEGER,
+          amount NUMERIC(12, 2) NOT NULL,
+          reason TEXT,
+          stripe_refund_id TEXT,
+          created_by_user_id INTEGER,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+      await pool.query(`CREATE INDEX IF NOT EXISTS payment_refunds_payment_id_idx ON payment_refunds (payment_id)`);
+
+      // ── invoice running balance ──
+      await pool.query(`ALTER TABLE invoices ADD COLUMN IF NOT EXISTS amount_paid NUMERIC(12, 2) DEFAULT 0`);
+      await pool.query(`ALTER TABLE invoices ADD COLUMN IF NOT EXISTS balance_due NUMERIC(12, 2)`);
+      await pool.query(`ALTER TABLE invoices ADD COLUMN IF NOT EXISTS minimum_payment_amount NUMERIC(12, 2)`);
+      await pool.query(`
+        UPDATE invoices
+        SET amount_paid = CASE WHEN status = 'paid' THEN total ELSE 0 END,
+            balance_due = CASE WHEN status = 'paid' THEN 0 ELSE total END
+        WHERE balance_due IS NULL
+      `);
+
+      // ── quote deposits ──
+      await pool.query(`ALTER TABLE quotes ADD COLUMN IF NOT EXISTS deposit_amount NUMERIC(12, 2)`);
+      await pool.query(`ALTER TABLE quotes ADD COLUMN IF NOT EXISTS deposit_paid_at TIMESTAMP`);
+
+      await pool.query('INSERT INTO migrations (name) VALUES ($1)', [MIGRATION_NAME]);
+      await pool.query('COMMIT');
+      console.log('Payment ledger tables created');
+    } catch (txErr) {
+      await pool.query('ROLLBACK');
+      throw txErr;
+    }
+  } catch (error: any) {
+    console.error('Error creating payment ledger tables:', error?.message || error);
+  }
+}
+
+// ──────────────────────────────────────────────────────────────────────────
+// Credit notes v1
+//
+// Schema lives in shared/schema.ts under creditNotes / creditNoteItems /
+// creditNoteSequences, plus credited_amount / voided_at / void_reason on
+// invoices. No backfill — existing invoices have no credits.
+// ──────────────────────────────────────────────────────────────────────────
+async function ensureCreditNoteTables() {
+  const MIGRATION_NAME = 'credit_notes_v1';
+  try {
+    const exists = await pool.query(`SELECT 1 FROM migrations WHERE name = $1 LIMIT 1`, [MIGRATION_NAME]);
+    if (exists.rows.length > 0) {
+      console.log('Credit note tables already created');
+      return;
+    }
+    console.log('Creating credit note tables...');
+
+    await pool.query('BEGIN');
+    try {
+      // ── credit_notes ──
+      await pool.query(`
+        CREATE TABLE IF NOT EXISTS credit_notes (
+          id SERIAL PRIMARY KEY,
+          business_id INTEGER NOT NULL,
+          customer_id INTEGER NOT NULL,
+          invoice_id INTEGER NOT NULL,
+          credit_note_number TEXT NOT NULL,
+          amount NUMERIC(12, 2) NOT NULL,
+          tax NUMERIC(12, 2) DEFAULT 0,
+          total NUMERIC(12, 2) NOT NULL,
+          reason TEXT,
+          status TEXT DEFAULT 'issued' NOT NULL,
+          created_by_user_id INTEGER,
+          voided_at TIMESTAMP,
+          quickbooks_credit_memo_id TEXT,
+          quickbooks_synced_at TIMESTAMP,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          CONSTRAINT credit_notes_business_number_unique UNIQUE (business_id, credit_note_number)
+        )
+      `);
+      await pool.query(`CREATE INDEX IF NOT EXISTS credit_notes_business_id_idx ON credit_notes (business_id)`);
+      await pool.query(`CREATE INDEX IF NOT EXISTS credit_notes_invoice_id_idx ON credit_notes (invoice_id)`);
+
+      // ── credit_note_items ──
+      await pool.query(`
+        CREATE TABLE IF NOT EXISTS credit_note_items (
+          id SERIAL PRIMARY KEY,
+          credit_note_id INTEGER NOT NULL,
+          invoice_item_id INTEGER,
+          description TEXT NOT NULL,
+          quantity INTEGER DEFAULT 1,
+          unit_price NUMERIC(12, 2) NOT NULL,
+          amount NUMERIC(12, 2) NOT NULL
+        )
+      `);
+      await pool.query(`CREATE INDEX IF NOT EXISTS credit_note_items_credit_note_id_idx ON credit_note_items (credit_note_id)`);
+
+      // ── credit_note_sequences ──
+      await pool.query(`
+        CREATE TABLE IF NOT EXISTS credit_note_sequences (
+          id SERIAL PRIMARY KEY,
+          business_id INTEGER NOT NULL,
+          last_number INTEGER NOT NULL DEFAULT 0
+        )
+      `);
+      await pool.query(`
+        CREATE UNIQUE INDEX IF NOT EXISTS credit_note_sequences_business_id_idx
+        ON credit_note_sequences (business_id)
+      `);
+
+      // ── invoice credit + void columns ──
+      await pool.query(`ALTER TABLE invoices ADD COLUMN IF NOT EXISTS credited_amount NUMERIC(12, 2) DEFAULT 0`);
+      await pool.query(`ALTER TABLE invoices ADD COLUMN IF NOT EXISTS voided_at TIMESTAMP`);
+      await pool.query(`ALTER TABLE invoices ADD COLUMN IF NOT EXISTS void_reason TEXT`);
+
+      await pool.query('INSERT INTO migrations (name) VALUES ($1)', [MIGRATION_NAME]);
+      await pool.query('COMMIT');
+      console.log('Credit note tables created');
+    } catch (txErr) {
+      await pool.query('ROLLBACK');
+      throw txErr;
+    }
+  } catch (error: any) {
+    console.error('Error creating credit note tables:', error?.message || error);
+  }
+}
+
+// ──────────────────────────────────────────────────────────────────────────
+// Quote options v1
+//
+// Schema lives in shared/schema.ts under quoteOptions, plus option_id on
+// quote_items and selected_option_id on quotes. Existing quotes keep their
+// flat item list (option_id NULL) — no backfill.
+// ──────────────────────────────────────────────────────────────────────────
+async function ensureQuoteOptionTables() {
+  const MIGRATION_NAME = 'quote_options_v1';
+  try {
+    const exists = await pool.query(`SELECT 1 FROM migrations WHERE name = $1 LIMIT 1`, [MIGRATION_NAME]);
+    if (exists.rows.length > 0) {
+      console.log('Quote option tables already created');
+      return;
+    }
+    console.log('Creating quote option tables...');
+
+    await pool.query('BEGIN');
+    try {
+      await pool.query(`
+        CREATE TABLE IF NOT EXISTS quote_options (
+          id SERIAL PRIMARY KEY,
+          quote_id INTEGER NOT NULL,
+          name TEXT NOT NULL,
+          description TEXT,
+          amount NUMERIC(12, 2) NOT NULL,
+          tax NUMERIC(12, 2) DEFAULT 0,
+          total NUMERIC(12, 2) NOT NULL,
+          is_recommended BOOLEAN DEFAULT false,
+          sort_order INTEGER DEFAULT 0,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+      await pool.query(`CREATE INDEX IF NOT EXISTS quote_options_quote_id_idx ON quote_options (quote_id)`);
+
+      await pool.query(`ALTER TABLE quote_items ADD COLUMN IF NOT EXISTS option_id INTEGER`);
+      await pool.query(`ALTER TABLE quotes ADD COLUMN IF NOT EXISTS selected_option_id INTEGER`);
+
+      await pool.query('INSERT INTO migrations (name) VALUES ($1)', [MIGRATION_NAME]);
+      await pool.query('COMMIT');
+      console.log('Quote option tables created');
+    } catch (txErr) {
+      await pool.query('ROLLBACK');
+      throw txErr;
+    }
+  } catch (error: any) {
+    console.error('Error creating quote option tables:', error?.message || error);
+  }
+}
+
+// ──────────────────────────────────────────────────────────────────────────
+// Quote signatures v1
+//
+// Schema lives in shared/schema.ts under quoteSignatures. One row per
+// portal acceptance; rows are never updated except to record the PDF copy
+// and email delivery.
+// ──────────────────────────────────────────────────────────────────────────
+async function ensureQuoteSignatureTable() {
+  const MIGRATION_NAME = 'quote_signatures_v1';
+  try {
+    const exists = await pool.query(`SELECT 1 FROM migrations WHERE name = $1 LIMIT 1`, [MIGRATION_NAME]);
+    if (exists.rows.length > 0) {
+      console.log('Quote signature table already created');
+      return;
+    }
+    console.log('Creating quote signature table...');
+
+    await pool.query('BEGIN');
+    try {
+      await pool.query(`
+        CREATE TABLE IF NOT EXISTS quote_signatures (
+          id SERIAL PRIMARY KEY,
+          quote_id INTEGER NOT NULL,
+          business_id INTEGER NOT NULL,
+          option_id INTEGER,
+          signer_name TEXT NOT NULL,
+          signature_image TEXT NOT NULL,
+          ip_address TEXT,
+          user_agent TEXT,
+          signed_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          snapshot JSONB NOT NULL,
+          content_hash TEXT NOT NULL,
+          pdf_url TEXT,
+          emailed_at TIMESTAMP,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          CONSTRAINT quote_signatures_quote_id_unique UNIQUE (quote_id)
+        )
+      `);
+
+      await pool.query('INSERT INTO migrations (name) VALUES ($1)', [MIGRATION_NAME]);
+      await pool.query('COMMIT');
+      console.log('Quote signature table created');
+    } catch (txErr) {
+      await pool.query('ROLLBACK');
+      throw txErr;
+    }
+  } catch (error: any) {
+    console.error('Error creating quote signature table:', error?.message || error);
+  }
+}
+
+// ──────────────────────────────────────────────────────────────────────────
+// Recurrence rules v1
+//
+// Schema lives in shared/schema.ts under recurringSchedules. Existing rows
+// keep rrule NULL and continue to expand from their frequency columns.
+// ──────────────────────────────────────────────────────────────────────────
+async function ensureRecurrenceRuleColumns() {
+  const MIGRATION_NAME = 'recurrence_rules_v1';
+  try {
+    const exists = await pool.query(`SELECT 1 FROM migrations WHERE name = $1 LIMIT 1`, [MIGRATION_NAME]);
+    if (exists.rows.length > 0) {
+      console.log('Recurrence rule columns already created');
+      return;
+    }
+    console.log('Creating recurrence rule columns...');
+
+    await pool.query('BEGIN');
+    try {
+      await pool.query(`ALTER TABLE recurring_schedules ADD COLUMN IF NOT EXISTS rrule TEXT`);
+      await pool.query(`ALTER TABLE recurring_schedules ADD COLUMN IF NOT EXISTS exdates JSONB DEFAULT '[]'::jsonb`);
+      await pool.query(`ALTER TABLE recurring_schedules ADD COLUMN IF NOT EXISTS occurrence_overrides JSONB DEFAULT '{}'::jsonb`);
+      await pool.query(`ALTER TABLE recurring_schedules ADD COLUMN IF NOT EXISTS parent_schedule_id INTEGER`);
+      await pool.query(`
+        CREATE INDEX IF NOT EXISTS recurring_job_history_schedule_date_idx
+        ON recurring_job_history (schedule_id, scheduled_for)
+      `);
+
+      await pool.query('INSERT INTO migrations (name) VALUES ($1)', [MIGRATION_NAME]);
+      await pool.query('COMMIT');
+      console.log('Recurrence rule columns created');
+    } catch (txErr) {
+      await pool.query('ROLLBACK');
+      throw txErr;
+    }
+  } catch (error: any) {
+    console.error('Error creating recurrence rule columns:', error?.message || error);
+  }
+}
+
+// ──────────────────────────────────────────────────────────────────────────
+// Route planning v1
+//
+// jobs.route_order holds a job's position in its tech's route for the
+// scheduled day. Indexed with the lookup the day planner runs.
+// ──────────────────────────────────────────────────────────────────────────
+async function ensureRoutePlanningColumns() {
+  const MIGRATION_NAME = 'route_planning_v1';
+  try {
+    const exists = await pool.query(`SELECT 1 FROM migrations WHERE name = $1 LIMIT 1`, [MIGRATION_NAME]);
+    if (exists.rows.length > 0) {
+      console.log('Route planning columns already created');
+      return;
+    }
+    console.log('Creating route planning columns...');
+
+    await pool.query('BEGIN');
+    try {
+      await pool.query(`ALTER TABLE jobs ADD COLUMN IF NOT EXISTS route_order INTEGER`);
+      await pool.query(`
+        CREATE INDEX IF NOT EXISTS jobs_business_scheduled_date_idx
+        ON jobs (business_id, scheduled_date)
+      `);
+
+      await pool.query('INSERT INTO migrations (name) VALUES ($1)', [MIGRATION_NAME]);
+      await pool.query('COMMIT');
+      console.log('Route planning columns created');
+    } catch (txErr) {
+      await pool.query('ROLLBACK');
+      throw txErr;
+    }
+  } catch (error: any) {
+    console.error('Error creating route planning columns:', error?.message || error);
+  }
+}
+
+// ──────────────────────────────────────────────────────────────────────────
+// Geofence v1
+//
+// Thresholds live on businesses next to the other gps_* settings; arrival and
+// departure stamps live on jobs. Defaults match shared/schema.ts.
+// ──────────────────────────────────────────────────────────────────────────
+async function ensureGeofenceColumns() {
+  const MIGRATION_NAME = 'geofence_v1';
+  try {
+    const exists = await pool.query(`SELECT 1 FROM migrations WHERE name = $1 LIMIT 1`, [MIGRATION_NAME]);
+    if (exists.rows.length > 0) {
+      console.log('Geofence columns already created');
+      return;
+    }
+    console.log('Creating geofence columns...');
+
+    await pool.query('BEGIN');
+    try {
+      await pool.query(`ALTER TABLE businesses ADD COLUMN IF NOT EXISTS gps_geofence_enabled BOOLEAN NOT NULL DEFAULT true`);
+      await pool.query(`ALTER TABLE businesses ADD COLUMN IF NOT EXISTS gps_arrival_radius_meters INTEGER NOT NULL DEFAULT 150`);
+      await pool.query(`ALTER TABLE businesses ADD COLUMN IF NOT EXISTS gps_departure_radius_meters INTEGER NOT NULL DEFAULT 300`);
+      await pool.query(`ALTER TABLE businesses ADD COLUMN IF NOT EXISTS gps_geofence_confirm_pings INTEGER NOT NULL DEFAULT 2`);
+      await pool.query(`ALTER TABLE jobs ADD COLUMN IF NOT EXISTS arrived_at TIMESTAMP`);
+      await pool.query(`ALTER TABLE jobs ADD COLUMN IF NOT EXISTS departed_at TIMESTAMP`);
+
+      await pool.query('INSERT INTO migrations (name) VALUES ($1)', [MIGRATION_NAME]);
+      await pool.query('COMMIT');
+      console.log('Geofence columns created');
+    } catch (txErr) {
+      await pool.query('ROLLBACK');
+      throw txErr;
+    }
+  } catch (error: any) {
+    console.error('Error creating geofence columns:', error?.message || error);
+  }
+}
+
+// ──────────────────────────────────────────────────────────────────────────
+// Webhook delivery log v1
+//
+// Failure tracking for auto-disable on webhooks; latency, error and replay
+// lineage on deliveries, plus an index for the business-wide delivery log.
+// ──────────────────────────────────────────────────────────────────────────
+async function ensureWebhookDeliveryColumns() {
+  const MIGRATION_NAME = 'webhook_delivery_log_v1';
+  try {
+    const exists = await pool.query(`SELECT 1 FROM migrations WHERE name = $1 LIMIT 1`, [MIGRATION_NAME]);
+    if (exists.rows.length > 0) {
+      console.log('Webhook delivery log columns already created');
+      return;
+    }
+    console.log('Creating webhook delivery log columns...');
+
+    await pool.query('BEGIN');
+    try {
+      await pool.query(`ALTER TABLE webhooks ADD COLUMN IF NOT EXISTS consecutive_failures INTEGER NOT NULL DEFAULT 0`);
+      await pool.query(`ALTER TABLE webhooks ADD COLUMN IF NOT EXISTS disabled_at TIMESTAMP`);
+      await pool.query(`ALTER TABLE webhooks ADD COLUMN IF NOT EXISTS disabled_reason TEXT`);
+      await pool.query(`ALTER TABLE webhook_deliveries ADD COLUMN IF NOT EXISTS url TEXT`);
+      await pool.query(`ALTER TABLE webhook_deliveries ADD COLUMN IF NOT EXISTS duration_ms INTEGER`);
+      await pool.query(`ALTER TABLE webhook_deliveries ADD COLUMN IF NOT EXISTS error_message TEXT`);
+      await pool.query(`ALTER TABLE webhook_deliveries ADD COLUMN IF NOT EXISTS replay_of_id INTEGER`);
+      await pool.query(`
+        CREATE INDEX IF NOT EXISTS webhook_deliveries_business_created_idx
+        ON webhook_deliveries (business_id, created_at)
+      `);
+
+      await pool.query('INSERT INTO migrations (name) VALUES ($1)', [MIGRATION_NAME]);
+      await pool.query('COMMIT');
+      console.log('Webhook delivery log columns created');
+    } catch (txErr) {
+      await pool.query('ROLLBACK');
+      throw txErr;
+    }
+  } catch (error: any) {
+    console.error('Error creating webhook delivery log columns:', error?.message || error);
+  }
+}
+
+// ──────────────────────────────────────────────────────────────────────────
+// Cancellation fees v1
+//
+// Late-cancel / no-show policy on businesses, the saved card on customers,
+// policy acceptance on appointments, and the appointment_fees ledger.
+// ──────────────────────────────────────────────────────────────────────────
+async function ensureCancellationFeeTables() {
+  const MIGRATION_NAME = 'cancellation_fees_v1';
+  try {
+    const exists = await pool.query(`SELECT 1 FROM migrations WHERE name = $1 LIMIT 1`, [MIGRATION_NAME]);
+    if (exists.rows.length > 0) {
+      console.log('Cancellation fee tables already created');
+      return;
+    }
+    console.log('Creating cancellation fee tables...');
+
+    await pool.query('BEGIN');
+    try {
+      await pool.query(`ALTER TABLE businesses ADD COLUMN IF NOT EXISTS cancellation_fee_enabled BOOLEAN DEFAULT false`);
+      await pool.query(`ALTER TABLE businesses ADD COLUMN IF NOT EXISTS late_cancel_window_hours INTEGER`);
+      await pool.query(`ALTER TABLE businesses ADD COLUMN IF NOT EXISTS late_cancel_fee NUMERIC(12, 2)`);
+      await pool.query(`ALTER TABLE businesses ADD COLUMN IF NOT EXISTS no_show_fee NUMERIC(12, 2)`);
+      await pool.query(`ALTER TABLE businesses ADD COLUMN IF NOT EXISTS cancellation_fee_auto_charge BOOLEAN DEFAULT false`);
+      await pool.query(`ALTER TABLE businesses ADD COLUMN IF NOT EXISTS cancellation_policy_text TEXT`);
+      await pool.query(`ALTER TABLE customers ADD COLUMN IF NOT EXISTS stripe_payment_method_id TEXT`);
+      await pool.query(`ALTER TABLE customers ADD COLUMN IF NOT EXISTS card_brand TEXT`);
+      await pool.query(`ALTER TABLE customers ADD COLUMN IF NOT EXISTS card_last4 TEXT`);
+      await pool.query(`ALTER TABLE appointments ADD COLUMN IF NOT EXISTS cancellation_policy_accepted_at TIMESTAMP`);
+      await pool.query(`ALTER TABLE appointments ADD COLUMN IF NOT EXISTS cancellation_window_hours INTEGER`);
+      await pool.query(`ALTER TABLE appointments ADD COLUMN IF NOT EXISTS late_cancel_fee NUMERIC(12, 2)`);
+      await pool.query(`ALTER TABLE appointments ADD COLUMN IF NOT EXISTS no_show_fee NUMERIC(12, 2)`);
+
+      await pool.query(`
+        CREATE TABLE IF NOT EXISTS appointment_fees (
+          id SERIAL PRIMARY KEY,
+          business_id INTEGER NOT NULL,
+          appointment_id INTEGER NOT NULL,
+          customer_id INTEGER NOT NULL,
+          type TEXT NOT NULL,
+          amount NUMERIC(12, 2) NOT NULL,
+          status TEXT NOT NULL DEFAULT 'pending',
+          stripe_payment_intent_id TEXT,
+          failure_reason TEXT,
+          charged_at TIMESTAMP,
+          resolved_by_user_id INTEGER,
+          created_at TIMESTAMP DEFAULT NOW(),
+          updated_at TIMESTAMP DEFAULT NOW(),
+          CONSTRAINT appointment_fees_appointment_type_unique UNIQUE (appointment_id, type)
+        )
+      `);
+      await pool.query(`
+        CREATE INDEX IF NOT EXISTS appointment_fees_business_customer_idx
+        ON appointment_fees (business_id, customer_id)
+      `);
+
+      await pool.query('INSERT INTO migrations (name) VALUES ($1)', [MIGRATION_NAME]);
+      await pool.query('COMMIT');
+      console.log('Cancellation fee tables created');
+    } catch (txErr) {
+      await pool.query('ROLLBACK');
+      throw txErr;
+    }
+  } catch (error: any) {
+    console.error('Error creating cancellation fee tables:', error?.message || error);
+  }
+}
+
+// ──────────────────────────────────────────────────────────────────────────
+// Restaurant tables v1
+//
+// Floor plan tables, per-party-size turn times on businesses, and the
+// assigned tables + seated/cleared stamps on reservations.
+// ──────────────────────────────────────────────────────────────────────────
+async function ensureRestaurantTables() {
+  const MIGRATION_NAME = 'restaurant_tables_v1';
+  try {
+    const exists = await pool.query(`SELECT 1 FROM migrations WHERE name = $1 LIMIT 1`, [MIGRATION_NAME]);
+    if (exists.rows.length > 0) {
+      console.log('Restaurant tables already created');
+      return;
+    }
+    console.log('Creating restaurant tables...');
+
+    await pool.query('BEGIN');
+    try {
+      await pool.query(`ALTER TABLE businesses ADD COLUMN IF NOT EXISTS reservation_turn_times JSONB`);
+      await pool.query(`ALTER TABLE restaurant_reservations ADD COLUMN IF NOT EXISTS table_ids JSONB DEFAULT '[]'::jsonb`);
+      await pool.query(`ALTER TABLE restaurant_reservations ADD COLUMN IF NOT EXISTS seated_at TIMESTAMP`);
+      await pool.query(`ALTER TABLE restaurant_reservations ADD COLUMN IF NOT EXISTS cleared_at TIMESTAMP`);
+
+      await pool.query(`
+        CREATE TABLE IF NOT EXISTS restaurant_tables (
+          id SERIAL PRIMARY KEY,
+          business_id INTEGER NOT NULL,
+          name TEXT NOT NULL,
+          min_capacity INTEGER DEFAULT 1,
+          capacity INTEGER NOT NULL,
+          section TEXT,
+          combine_group TEXT,
+          shape TEXT DEFAULT 'square',
+          active BOOLEAN DEFAULT true,
+          sort_order INTEGER DEFAULT 0,
+          created_at TIMESTAMP DEFAULT NOW(),
+          updated_at TIMESTAMP DEFAULT NOW()
+        )
+      `);
+      await pool.query(`
+        CREATE INDEX IF NOT EXISTS restaurant_tables_business_idx
+        ON restaurant_tables (business_id)
+      `);
+
+      await pool.query('INSERT INTO migrations (name) VALUES ($1)', [MIGRATION_NAME]);
+      await pool.query('COMMIT');
+      console.log('Restaurant tables created');
+    } catch (txErr) {
+      await pool.query('ROLLBACK');
+      throw txErr;
+    }
+  } catch (error: any) {
+    console.error('Error creating restaurant tables:', error?.message || error);
+  }
+}
+
+// ──────────────────────────────────────────────────────────────────────────
+// Walk-in waitlist v1
+//
+// Waitlist queue entries plus the per-business enable flag and the minutes
+// quoted per party ahead in line.
+// ──────────────────────────────────────────────────────────────────────────
+async function ensureWaitlistTables() {
+  const MIGRATION_NAME = 'waitlist_entries_v1';
+  try {
+    const exists = await pool.query(`SELECT 1 FROM migrations WHERE name = $1 LIMIT 1`, [MIGRATION_NAME]);
+    if (exists.rows.length > 0) {
+      console.log('Waitlist tables already created');
+      return;
+    }
+    console.log('Creating waitlist tables...');
+
+    await pool.query('BEGIN');
+    try {
+      await pool.query(`ALTER TABLE businesses ADD COLUMN IF NOT EXISTS waitlist_enabled BOOLEAN DEFAULT false`);
+      await pool.query(`ALTER TABLE businesses ADD COLUMN IF NOT EXISTS waitlist_minutes_per_party INTEGER DEFAULT 10`);
+
+      await pool.query(`
+        CREATE TABLE IF NOT EXISTS waitlist_entries (
+          id SERIAL PRIMARY KEY,
+          business_id INTEGER NOT NULL,
+          customer_id INTEGER NOT NULL,
+          name TEXT NOT NULL,
+          phone TEXT NOT NULL,
+          party_size INTEGER NOT NULL,
+          quoted_wait_minutes INTEGER,
+          status TEXT DEFAULT 'waiting',
+          source TEXT DEFAULT 'host',
+          notes TEXT,
+          manage_token TEXT,
+          notified_at TIMESTAMP,
+          confirmed_at TIMESTAMP,
+          seated_at TIMESTAMP,
+          closed_at TIMESTAMP,
+          reservation_id INTEGER,
+          created_at TIMESTAMP DEFAULT NOW(),
+          updated_at TIMESTAMP DEFAULT NOW()
+        )
+      `);
+      await pool.query(`
+        CREATE INDEX IF NOT EXISTS waitlist_entries_business_status_idx
+        ON waitlist_entries (business_id, status)
+      `);
+
+      await pool.query('INSERT INTO migrations (name) VALUES ($1)', [MIGRATION_NAME]);
+      await pool.query('COMMIT');
+      console.log('Waitlist tables created');
+    } catch (txErr) {
+      await pool.query('ROLLBACK');
+      throw txErr;
+    }
+  } catch (error: any) {
+    console.error('Error creating waitlist tables:', error?.message || error);
+  }
+}
+
+// ──────────────────────────────────────────────────────────────────────────
+// Appointment waitlist v1
+//
+// Customers waiting for an opening, the SMS hold offers sent to them when a
+// slot is cancelled, and the per-business enable flag and hold length.
+// ──────────────────────────────────────────────────────────────────────────
+async function ensureAppointmentWaitlistTables() {
+  const MIGRATION_NAME = 'appointment_waitlist_v1';
+  try {
+    const exists = await pool.query(`SELECT 1 FROM migrations WHERE name = $1 LIMIT 1`, [MIGRATION_NAME]);
+    if (exists.rows.length > 0) {
+      console.log('Appointment waitlist tables already created');
+      return;
+    }
+    console.log('Creating appointment waitlist tables...');
+
+    await pool.query('BEGIN');
+    try {
+      await pool.query(`ALTER TABLE businesses ADD COLUMN IF NOT EXISTS appointment_waitlist_enabled BOOLEAN DEFAULT false`);
+      await pool.query(`ALTER TABLE businesses ADD COLUMN IF NOT EXISTS appointment_waitlist_hold_minutes INTEGER DEFAULT 15`);
+
+      await pool.query(`
+        CREATE TABLE IF NOT EXISTS appointment_waitlist_entries (
+          id SERIAL PRIMARY KEY,
+          business_id INTEGER NOT NULL,
+          customer_id INTEGER NOT NULL,
+          service_id INTEGER,
+          staff_id INTEGER,
+          window_start TEXT NOT NULL,
+          window_end TEXT NOT NULL,
+          priority INTEGER NOT NULL DEFAULT 0,
+          status TEXT NOT NULL DEFAULT 'active',
+          source TEXT DEFAULT 'owner',
+          notes TEXT,
+          appointment_id INTEGER,
+          created_at TIMESTAMP DEFAULT NOW(),
+          updated_at TIMESTAMP DEFAULT NOW()
+        )
+      `);
+      await pool.query(`
+        CREATE INDEX IF NOT EXISTS appointment_waitlist_entries_business_status_idx
+        ON appointment_waitlist_entries (business_id, status)
+      `);
+
+      await pool.query(`
+        CREATE TABLE IF NOT EXISTS appointment_slot_offers (
+          id SERIAL PRIMARY KEY,
+          business_id INTEGER NOT NULL,
+          entry_id INTEGER NOT NULL,
+          customer_id INTEGER NOT NULL,
+          cancelled_appointment_id INTEGER NOT NULL,
+          service_id INTEGER,
+          staff_id INTEGER,
+          start_date TIMESTAMP NOT NULL,
+          end_date TIMESTAMP NOT NULL,
+          status TEXT NOT NULL DEFAULT 'pending',
+          expires_at TIMESTAMP NOT NULL,
+          responded_at TIMESTAMP,
+          appointment_id INTEGER,
+          created_at TIMESTAMP DEFAULT NOW()
+        )
+      `);
+      await pool.query(`
+        CREATE INDEX IF NOT EXISTS appointment_slot_offers_business_cancelled_idx
+        ON appointment_slot_offers (business_id, cancelled_appointment_id)
+      `);
+      await pool.query(`
+        CREATE INDEX IF NOT EXISTS appointment_slot_offers_status_expires_idx
+        ON appointment_slot_offers (status, expires_at)
+      `);
+
+      await pool.query('INSERT INTO migrations (name) VALUES ($1)', [MIGRATION_NAME]);
+      await pool.query('COMMIT');
+      console.log('Appointment waitlist tables created');
+    } catch (txErr) {
+      await pool.query('ROLLBACK');
+      throw txErr;
+    }
+  } catch (error: any) {
+    console.error('Error creating appointment waitlist tables:', error?.message || error);
+  }
+}
+
+// ──────────────────────────────────────────────────────────────────────────
+// Multilingual receptionist v1
+//
+// Primary language, auto-switching and localized greeting/after-hours on
+// receptionist_config, translated knowledge answers, and the language each
+// customer last used.
+// ──────────────────────────────────────────────────────────────────────────
+async function ensureMultilingualColumns() {
+  const MIGRATION_NAME = 'multilingual_receptionist_v1';
+  try {
+    const exists = await pool.query(`SELECT 1 FROM migrations WHERE name = $1 LIMIT 1`, [MIGRATION_NAME]);
+    if (exists.rows.length > 0) {
+      console.log('Multilingual columns already created');
+      return;
+    }
+    console.log('Creating multilingual columns...');
+
+    await pool.query('BEGIN');
+    try {
+      await pool.query(`ALTER TABLE receptionist_config ADD COLUMN IF NOT EXISTS language TEXT DEFAULT 'en'`);
+      await pool.query(`ALTER TABLE receptionist_config ADD COLUMN IF NOT EXISTS auto_detect_language BOOLEAN DEFAULT false`);
+      await pool.query(`ALTER TABLE receptionist_config ADD COLUMN IF NOT EXISTS localized_messages JSONB`);
+      await pool.query(`ALTER TABLE business_knowledge ADD COLUMN IF NOT EXISTS translations JSONB`);
+      await pool.query(`ALTER TABLE customers ADD COLUMN IF NOT EXISTS preferred_language TEXT`);
+
+      await pool.query('INSERT INTO migrations (name) VALUES ($1)', [MIGRATION_NAME]);
+      await pool.query('COMMIT');
+      console.log('Multilingual columns created');
+    } catch (txErr) {
+      await pool.query('ROLLBACK');
+      throw txErr;
+    }
+  } catch (error: any) {
+    console.error('Error creating multilingual columns:', error?.message || error);
+  }
+}
+
+// ──────────────────────────────────────────────────────────────────────────
+// Scheduler registry v1
+//
+// Run history for every declared scheduled task, and per-task pause state
+// the admin dashboard can flip without a redeploy.
+// ──────────────────────────────────────────────────────────────────────────
+async function ensureScheduledTaskTables() {
+  const MIGRATION_NAME = 'scheduler_registry_v1';
+  try {
+    const exists = await pool.query(`SELECT 1 FROM migrations WHERE name = $1 LIMIT 1`, [MIGRATION_NAME]);
+    if (exists.rows.length > 0) {
+      console.log('Scheduled task tables already created');
+      return;
+    }
+    console.log('Creating scheduled task tables...');
+
+    await pool.query('BEGIN');
+    try {
+      await pool.query(`
+        CREATE TABLE IF NOT EXISTS scheduled_task_runs (
+          id SERIAL PRIMARY KEY,
+          task_key TEXT NOT NULL,
+          trigger TEXT NOT NULL DEFAULT 'schedule',
+          status TEXT NOT NULL DEFAULT 'running',
+          started_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          finished_at TIMESTAMP,
+          duration_ms INTEGER,
+          counts JSONB,
+          error TEXT,
+          triggered_by INTEGER
+        )
+      `);
+      await pool.query(`
+        CREATE INDEX IF NOT EXISTS scheduled_task_runs_task_started_idx
+        ON scheduled_task_runs (task_key, started_at)
+      `);
+
+      await pool.query(`
+        CREATE TABLE IF NOT EXISTS scheduled_task_settings (
+          task_key TEXT PRIMARY KEY,
+          paused BOOLEAN NOT NULL DEFAULT false,
+          paused_at TIMESTAMP,
+          paused_by INTEGER,
+          updated_at TIMESTAMP DEFAULT NOW()
+        )
+      `);
+
+      await pool.query('INSERT INTO migrations (name) VALUES ($1)', [MIGRATION_NAME]);
+      await pool.query('COMMIT');
+      console.log('Scheduled task tables created');
+    } catch (txErr) {
+      await pool.query('ROLLBACK');
+      throw txErr;
+    }
+  } catch (error: any) {
+    console.error('Error creating scheduled task tables:', error?.message || error);
+  }
+}
+
+// ──────────────────────────────────────────────────────────────────────────
+// Resource booking v1
+//
+// Bookable rooms/chairs/lifts with capacity, the resource type a service
+// needs, and the resource each appointment holds.
+// ──────────────────────────────────────────────────────────────────────────
+async function ensureResourceBooking() {
+  const MIGRATION_NAME = 'resource_booking_v1';
+  try {
+    const exists = await pool.query(`SELECT 1 FROM migrations WHERE name = $1 LIMIT 1`, [MIGRATION_NAME]);
+    if (exists.rows.length > 0) {
+      console.log('Resource booking tables already created');
+      return;
+    }
+    console.log('Creating resource booking tables...');
+
+    await pool.query('BEGIN');
+    try {
+      await pool.query(`
+        CREATE TABLE IF NOT EXISTS resources (
+          id SERIAL PRIMARY KEY,
+          business_id INTEGER NOT NULL,
+          name TEXT NOT NULL,
+          resource_type TEXT NOT NULL,
+          capacity INTEGER NOT NULL DEFAULT 1,
+          active BOOLEAN DEFAULT true,
+          sort_order INTEGER DEFAULT 0,
+          created_at TIMESTAMP DEFAULT NOW(),
+          updated_at TIMESTAMP DEFAULT NOW()
+        )
+      `);
+      await pool.query(`CREATE INDEX IF NOT EXISTS resources_business_idx ON resources (business_id)`);
+
+      await pool.query(`ALTER TABLE services ADD COLUMN IF NOT EXISTS required_resource_type TEXT`);
+      await pool.query(`ALTER TABLE appointments ADD COLUMN IF NOT EXISTS resource_id INTEGER`);
+      await pool.query(`
+        CREATE INDEX IF NOT EXISTS appointments_resource_date_idx
+        ON appointments (resource_id, start_date)
+      `);
+
+      await pool.query('INSERT INTO migrations (name) VALUES ($1)', [MIGRATION_NAME]);
+      await pool.query('COMMIT');
+      console.log('Resource booking tables created');
+    } catch (txErr) {
+      await pool.query('ROLLBACK');
+      throw txErr;
+    }
+  } catch (error: any) {
+    console.error('Error creating resource booking tables:', error?.message || error);
+  }
+}
+
+// ──────────────────────────────────────────────────────────────────────────
+// Multi-service appointments v1
+//
+// Per-service add-ons and the ordered list of services (each with its own
+// staff, minutes and booked add-ons) an appointment carries.
+// ──────────────────────────────────────────────────────────────────────────
+async function ensureMultiServiceAppointments() {
+  const MIGRATION_NAME = 'multi_service_appointments_v1';
+  try {
+    const exists = await pool.query(`SELECT 1 FROM migrations WHERE name = $1 LIMIT 1`, [MIGRATION_NAME]);
+    if (exists.rows.length > 0) {
+      console.log('Multi-service appointment tables already created');
+      return;
+    }
+    console.log('Creating multi-service appointment tables...');
+
+    await pool.query('BEGIN');
+    try {
+      await pool.query(`
+        CREATE TABLE IF NOT EXISTS service_addons (
+          id SERIAL PRIMARY KEY,
+          business_id INTEGER NOT NULL,
+          service_id INTEGER NOT NULL,
+          name TEXT NOT NULL,
+          price NUMERIC(12, 2) DEFAULT 0,
+          duration_minutes INTEGER NOT NULL DEFAULT 0,
+          active BOOLEAN DEFAULT true,
+          sort_order INTEGER DEFAULT 0,
+          created_at TIMESTAMP DEFAULT NOW(),
+          updated_at TIMESTAMP DEFAULT NOW()
+        )
+      `);
+      await pool.query(`CREATE INDEX IF NOT EXISTS service_addons_service_idx ON service_addons (service_id)`);
+
+      await pool.query(`
+        CREATE TABLE IF NOT EXISTS appointment_services (
+          id SERIAL PRIMARY KEY,
+          appointment_id INTEGER NOT NULL,
+          business_id INTEGER NOT NULL,
+          service_id INTEGER NOT NULL,
+          staff_id INTEGER,
+          position INTEGER NOT NULL DEFAULT 0,
+          service_name TEXT NOT NULL,
+          price NUMERIC(12, 2) DEFAULT 0,
+          duration_minutes INTEGER NOT NULL,
+          addons JSONB DEFAULT '[]'::jsonb,
+          created_at TIMESTAMP DEFAULT NOW()
+        )
+      `);
+      await pool.query(`
+        CREATE INDEX IF NOT EXISTS appointment_services_appointment_idx
+        ON appointment_services (appointment_id)
+      `);
+
+      await pool.query('INSERT INTO migrations (name) VALUES ($1)', [MIGRATION_NAME]);
+      await pool.query('COMMIT');
+      console.log('Multi-service appointment tables created');
+    } catch (txErr) {
+      await pool.query('ROLLBACK');
+      throw txErr;
+    }
+  } catch (error: any) {
+    console.error('Error creating multi-service appointment tables:', error?.message || error);
+  }
+}
+
+async function ensureGroupClasses() {
+  const MIGRATION_NAME = 'group_classes_v1';
+  try {
+    const exists = await pool.query(`SELECT 1 FROM migrations WHERE name = $1 LIMIT 1`, [MIGRATION_NAME]);
+    if (exists.rows.length > 0) {
+      console.log('Group class tables already created');
+      return;
+    }
+    console.log('Creating group class tables...');
+
+    await pool.query('BEGIN');
+    try {
+      await pool.query(`ALTER TABLE services ADD COLUMN IF NOT EXISTS class_capacity INTEGER`);
+
+      await pool.query(`
+        CREATE TABLE IF NOT EXISTS class_schedules (
+          id SERIAL PRIMARY KEY,
+          business_id INTEGER NOT NULL,
+          service_id INTEGER NOT NULL,
+          staff_id INTEGER,
+          day_of_week TEXT NOT NULL,
+          start_time TEXT NOT NULL,
+          capacity INTEGER,
+          starts_on TEXT,
+          ends_on TEXT,
+          active BOOLEAN DEFAULT true,
+          created_at TIMESTAMP DEFAULT NOW(),
+          updated_at TIMESTAMP DEFAULT NOW()
+        )
+      `);
+      await pool.query(`CREATE INDEX IF NOT EXISTS class_schedules_business_idx ON class_schedules (business_id)`);
+
+      await pool.query(`
+        CREATE TABLE IF NOT EXISTS class_sessions (
+          id SERIAL PRIMARY KEY,
+          business_id INTEGER NOT NULL,
+          service_id INTEGER NOT NULL,
+          schedule_id INTEGER,
+          staff_id INTEGER,
+          start_date TIMESTAMP NOT NULL,
+          end_date TIMESTAMP NOT NULL,
+          capacity INTEGER NOT NULL,
+          status TEXT NOT NULL DEFAULT 'scheduled',
+          notes TEXT,
+          created_at TIMESTAMP DEFAULT NOW(),
+          updated_at TIMESTAMP DEFAULT NOW(),
+          CONSTRAINT class_sessions_schedule_start_unique UNIQUE (schedule_id, start_date)
+        )
+      `);
+      await pool.query(`
+        CREATE INDEX IF NOT EXISTS class_sessions_business_start_idx
+        ON class_sessions (business_id, start_date)
+      `);
+
+      await pool.query(`
+        CREATE TABLE IF NOT EXISTS class_bookings (
+          id SERIAL PRIMARY KEY,
+          business_id INTEGER NOT NULL,
+          session_id INTEGER NOT NULL,
+          customer_id INTEGER NOT NULL,
+          status TEXT NOT NULL DEFAULT 'booked',
+          source TEXT DEFAULT 'online',
+          checked_in_at TIMESTAMP,
+          promoted_at TIMESTAMP,
+          cancelled_at TIMESTAMP,
+          created_at TIMESTAMP DEFAULT NOW(),
+          updated_at TIMESTAMP DEFAULT NOW()
+        )
+      `);
+      await pool.query(`
+        CREATE INDEX IF NOT EXISTS class_bookings_session_status_idx
+        ON class_bookings (session_id, status)
+      `);
+
+      await pool.query('INSERT INTO migrations (name) VALUES ($1)', [MIGRATION_NAME]);
+      await pool.query('COMMIT');
+      console.log('Group class tables created');
+    } catch (txErr) {
+      await pool.query('ROLLBACK');
+      throw txErr;
+    }
+  } catch (error: any) {
+    console.error('Error creating group class tables:', error?.message || error);
+  }
+}
+
+async function ensureCustomerPortalTables() {
+  const MIGRATION_NAME = 'customer_portal_v1';
+  try {
+    const exists = await pool.query(`SELECT 1 FROM migrations WHERE name = $1 LIMIT 1`, [MIGRATION_NAME]);
+    if (exists.rows.length > 0) {
+      console.log('Customer portal tables already created');
+      return;
+    }
+    console.log('Creating customer portal tables...');
+
+    await pool.query('BEGIN');
+    try {
+      await pool.query(`
+        CREATE TABLE IF NOT EXISTS customer_portal_codes (
+          id SERIAL PRIMARY KEY,
+          business_id INTEGER NOT NULL,
+          customer_id INTEGER NOT NULL,
+          channel TEXT NOT NULL,
+          code_hash TEXT NOT NULL,
+          link_token_hash TEXT NOT NULL,
+          attempts INTEGER NOT NULL DEFAULT 0,
+          expires_at TIMESTAMP NOT NULL,
+          consumed_at TIMESTAMP,
+          created_at TIMESTAMP DEFAULT NOW()
+        )
+      `);
+      await pool.query(`
+        CREATE INDEX IF NOT EXISTS customer_portal_codes_customer_idx
+        ON customer_portal_codes (customer_id, created_at)
+      `);
+      await pool.query(`
+        CREATE INDEX IF NOT EXISTS customer_portal_codes_link_token_idx
+        ON customer_portal_codes (link_token_hash)
+      `);
+
+      await pool.query(`
+        CREATE TABLE IF NOT EXISTS customer_portal_sessions (
+          id SERIAL PRIMARY KEY,
+          business_id INTEGER NOT NULL,
+          customer_id INTEGER NOT NULL,
+          token_hash TEXT NOT NULL,
+          expires_at TIMESTAMP NOT NULL,
+          last_seen_at TIMESTAMP,
+          revoked_at TIMESTAMP,
+          created_at TIMESTAMP DEFAULT NOW(),
+          CONSTRAINT customer_portal_sessions_token_hash_unique UNIQUE (token_hash)
+        )
+      `);
+
+      await pool.query('INSERT INTO migrations (name) VALUES ($1)', [MIGRATION_NAME]);
+      await pool.query('COMMIT');
+      console.log('Customer portal tables created');
+    } catch (txErr) {
+      await pool.query('ROLLBACK');
+      throw txErr;
+    }
+  } catch (error: any) {
+    console.error('Error creating customer portal tables:', error?.message || error);
+  }
+}
+
+async function ensureSmsInboxThreads() {
+  const MIGRATION_NAME = 'sms_inbox_threads_v1';
+  try {
+    const exists = await pool.query(`SELECT 1 FROM migrations WHERE name = $1 LIMIT 1`, [MIGRATION_NAME]);
+    if (exists.rows.length > 0) {
+      console.log('SMS inbox threads table already created');
+      return;
+    }
+    console.log('Creating SMS inbox threads table...');
+
+    await pool.query('BEGIN');
+    try {
+      await pool.query(`
+        CREATE TABLE IF NOT EXISTS sms_inbox_threads (
+          id SERIAL PRIMARY KEY,
+          business_id INTEGER NOT NULL,
+          customer_id INTEGER,
+          customer_phone TEXT NOT NULL,
+          assigned_staff_id INTEGER,
+          taken_over_by_user_id INTEGER,
+          taken_over_at TIMESTAMP,
+          unread_count INTEGER NOT NULL DEFAULT 0,
+          last_read_at TIMESTAMP,
+          last_message_at TIMESTAMP,
+          last_message_preview TEXT,
+          last_direction TEXT,
+          created_at TIMESTAMP DEFAULT NOW(),
+          updated_at TIMESTAMP DEFAULT NOW(),
+          CONSTRAINT sms_inbox_threads_business_phone_unique UNIQUE (business_id, customer_phone)
+        )
+      `);
+      await pool.query(`
+        CREATE INDEX IF NOT EXISTS sms_inbox_threads_business_recent_idx
+        ON sms_inbox_threads (business_id, last_message_at)
+      `);
+      // Thread history is read back by phone
+      await pool.query(`
+        CREATE INDEX IF NOT EXISTS inbound_messages_business_phone_idx
+        ON inbound_messages (business_id, customer_phone)
+      `);
+
+      await pool.query('INSERT INTO migrations (name) VALUES ($1)', [MIGRATION_NAME]);
+      await pool.query('COMMIT');
+      console.log('SMS inbox threads table created');
+    } catch (txErr) {
+      await pool.query('ROLLBACK');
+      throw txErr;
+    }
+  } catch (error: any) {
+    console.error('Error creating SMS inbox threads table:', error?.message || error);
+  }
+}
+
+async function ensureJobForms() {
+  const MIGRATION_NAME = 'job_forms_v1';
+  try {
+    const exists = await pool.query(`SELECT 1 FROM migrations WHERE name = $1 LIMIT 1`, [MIGRATION_NAME]);
+    if (exists.rows.length > 0) {
+      console.log('Job form tables already created');
+      return;
+    }
+    console.log('Creating job form tables...');
+
+    await pool.query('BEGIN');
+    try {
+      await pool.query(`
+        CREATE TABLE IF NOT EXISTS job_form_templates (
+          id SERIAL PRIMARY KEY,
+          business_id INTEGER NOT NULL,
+          name TEXT NOT NULL,
+          description TEXT,
+          service_ids JSONB DEFAULT '[]'::jsonb,
+          fields JSONB NOT NULL DEFAULT '[]'::jsonb,
+          required_for_completion BOOLEAN DEFAULT true,
+          active BOOLEAN DEFAULT true,
+          created_at TIMESTAMP DEFAULT NOW(),
+          updated_at TIMESTAMP DEFAULT NOW()
+        )
+      `);
+      await pool.query(`
+        CREATE INDEX IF NOT EXISTS job_form_templates_business_idx
+        ON job_form_templates (business_id)
+      `);
+      await pool.query(`
+        CREATE TABLE IF NOT EXISTS job_forms (
+          id SERIAL PRIMARY KEY,
+          business_id INTEGER NOT NULL,
+          job_id INTEGER NOT NULL,
+          template_id INTEGER NOT NULL,
+          name TEXT NOT NULL,
+          fields JSONB NOT NULL DEFAULT '[]'::jsonb,
+          required_for_completion BOOLEAN DEFAULT true,
+          answers JSONB DEFAULT '{}'::jsonb,
+          status TEXT NOT NULL DEFAULT 'pending',
+          submitted_at TIMESTAMP,
+          submitted_by_user_id INTEGER,
+          created_at TIMESTAMP DEFAULT NOW(),
+          updated_at TIMESTAMP DEFAULT NOW(),
+          CONSTRAINT job_forms_job_template_unique UNIQUE (job_id, template_id)
+        )
+      `);
+      await pool.query(`
+        CREATE INDEX IF NOT EXISTS job_forms_business_idx
+        ON job_forms (business_id)
+      `);
+
+      await pool.query('INSERT INTO migrations (name) VALUES ($1)', [MIGRATION_NAME]);
+      await pool.query('COMMIT');
+      console.log('Job form tables created');
+    } catch (txErr) {
+      await pool.query('ROLLBACK');
+      throw txErr;
+    }
+  } catch (error: any) {
+    console.error('Error creating job form tables:', error?.message || error);
+  }
+}
+
+async function ensureCustomFields() {
+  const MIGRATION_NAME = 'custom_fields_v1';
+  try {
+    const exists = await pool.query(`SELECT 1 FROM migrations WHERE name = $1 LIMIT 1`, [MIGRATION_NAME]);
+    if (exists.rows.length > 0) {
+      console.log('Custom field tables already created');
+      return;
+    }
+    console.log('Creating custom field tables...');
+
+    await pool.query('BEGIN');
+    try {
+      await pool.query(`
+        CREATE TABLE IF NOT EXISTS custom_field_definitions (
+          id SERIAL PRIMARY KEY,
+          business_id INTEGER NOT NULL,
+          entity_type TEXT NOT NULL,
+          key TEXT NOT NULL,
+          label TEXT NOT NULL,
+          field_type TEXT NOT NULL,
+          options JSONB DEFAULT '[]'::jsonb,
+          ask_on_calls BOOLEAN DEFAULT false,
+          active BOOLEAN DEFAULT true,
+          sort_order INTEGER DEFAULT 0,
+          created_at TIMESTAMP DEFAULT NOW(),
+          updated_at TIMESTAMP DEFAULT NOW(),
+          CONSTRAINT custom_field_definitions_business_entity_key_unique UNIQUE (business_id, entity_type, key)
+        )
+      `);
+      for (const table of ['customers', 'jobs', 'appointments']) {
+        await pool.query(`ALTER TABLE ${table} ADD COLUMN IF NOT EXISTS custom_fields JSONB DEFAULT '{}'::jsonb`);
+      }
+
+      await pool.query('INSERT INTO migrations (name) VALUES ($1)', [MIGRATION_NAME]);
+      await pool.query('COMMIT');
+      console.log('Custom field tables created');
+    } catch (txErr) {
+      await pool.query('ROLLBACK');
+      throw txErr;
+    }
+  } catch (error: any) {
+    console.error('Error creating custom field tables:', error?.message || error);
+  }
+}
+
+async function ensureOfflineSync() {
+  const MIGRATION_NAME = 'offline_sync_v1';
+  try {
+    const exists = await pool.query(`SELECT 1 FROM migrations WHERE name = $1 LIMIT 1`, [MIGRATION_NAME]);
+    if (exists.rows.length > 0) {
+      console.log('Offline sync tables already created');
+      return;
+    }
+    console.log('Creating offline sync tables...');
+
+    await pool.query('BEGIN');
+    try {
+      await pool.query(`
+        CREATE TABLE IF NOT EXISTS offline_mutation_receipts (
+          id SERIAL PRIMARY KEY,
+          business_id INTEGER NOT NULL,
+          mutation_id TEXT NOT NULL,
+          status_code INTEGER NOT NULL,
+          response JSONB,
+          created_at TIMESTAMP DEFAULT NOW(),
+          CONSTRAINT offline_mutation_receipts_business_mutation_unique UNIQUE (business_id, mutation_id)
+        )
+      `);
+      await pool.query(`CREATE INDEX IF NOT EXISTS offline_mutation_receipts_created_idx ON offline_mutation_receipts (created_at)`);
+      await pool.query(`ALTER TABLE job_line_items ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP DEFAULT NOW()`);
+
+      await pool.query('INSERT INTO migrations (name) VALUES ($1)', [MIGRATION_NAME]);
+      await pool.query('COMMIT');
+      console.log('Offline sync tables created');
+    } catch (txErr) {
+      await pool.query('ROLLBACK');
+      throw txErr;
+    }
+  } catch (error: any) {
+    console.error('Error creating offline sync tables:', error?.message || error);
+  }
+}
+
 // ES modules don't have a direct equivalent to require.main === module
 // This file will only be imported, not run directly, so we don't need that check
 
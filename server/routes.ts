@@ -33,6 +33,8 @@ import appointmentRoutes from "./routes/appointmentRoutes";
 import recurringRoutes from "./routes/recurring";
 import bookingRoutes from "./routes/bookingRoutes";
 import embedRoutes from "./routes/embedRoutes";
+import customerPortalRoutes from "./routes/customerPortalRoutes";
+import realtimeRoutes from "./routes/realtimeRoutes";
 import cloverRoutes from "./routes/cloverRoutes";
 import squareRoutes from "./routes/squareRoutes";
 import heartlandRoutes from "./routes/heartlandRoutes";
@@ -43,6 +45,7 @@ import phoneRoutes from './routes/phoneRoutes';
 import locationRoutes from './routes/locationRoutes';
 import exportRoutes from './routes/exportRoutes';
 import jobRoutes from './routes/jobRoutes';
+import dispatchPlanRoutes from './routes/dispatchPlanRoutes';
 import staffRoutes from './routes/staffRoutes';
 import servicesRoutes from './routes/servicesRoutes';
 import businessRoutes from './routes/businessRoutes';
@@ -56,6 +59,9 @@ import leadDiscoveryRoutes from './routes/leadDiscoveryRoutes';
 import reviewRoutes from './routes/reviewRoutes';
 import dashboardRoutes from './routes/dashboardRoutes';
 import reservationRoutes from './routes/reservationRoutes';
+import classRoutes from './routes/classRoutes';
+import jobFormRoutes from './routes/jobFormRoutes';
+import customFieldRoutes from './routes/customFieldRoutes';
 import emailRoutes from './routes/emailRoutes';
 import searchRoutes from './routes/searchRoutes';
 import paymentRoutes from './routes/paymentRoutes';
@@ -191,6 +197,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.use('/api', customerRoutes);
   app.use('/api', membershipRoutes);
 
+  // ── Custom Fields API (owner-defined fields on customers, jobs, appointments) ──
+  app.use('/api', customFieldRoutes);
+
   // ── Staff API ──
   app.use('/api', staffRoutes);
 
@@ -200,9 +209,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // ── Restaurant Reservations API ──
   app.use('/api', reservationRoutes);
 
+  // ── Group Classes API (schedules, sessions, rosters) ──
+  app.use('/api', classRoutes);
+
+  // ── Job Forms API (checklist templates, per-job forms) ──
+  app.use('/api', jobFormRoutes);
+
   // ── Jobs API ──
   app.use('/api/jobs', jobRoutes);
 
+  // ── Dispatch Day Planner ──
+  app.use('/api/dispatch', dispatchPlanRoutes);
+
   // ── Review Requests ──
   app.use('/api', reviewRoutes);
 
@@ -282,13 +300,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
   const smsCampaignRoutes = (await import('./routes/smsCampaignRoutes')).default;
   app.use('/api/sms-campaigns', isAuthenticated, smsCampaignRoutes);
 
+  const smsInboxRoutes = (await import('./routes/smsInboxRoutes')).default;
+  app.use('/api/sms-inbox', isAuthenticated, smsInboxRoutes);
+
   // ── Workflow Builder ──
   const workflowRoutes = (await import('./routes/workflowRoutes')).default;
   app.use('/api/workflows', isAuthenticated, workflowRoutes);
 
+  // ── Real-time change events (SSE, business-scoped) ──
+  app.use('/api', realtimeRoutes);
+
   // ── Public Booking Routes (no auth required for customer-facing pages) ──
   app.use('/api', bookingRoutes);
 
+  // ── Customer Portal Routes (one-time code sign-in, X-Portal-Token auth) ──
+  app.use('/api', customerPortalRoutes);
+
   // ── Embed Widget Routes (public, serves JS for external websites) ──
   app.use('/api', embedRoutes);
 
@@ -15,6 +15,7 @@ import { eq, sql, desc, and, gte, lte, inArray, isNull, or, ilike } from "drizzl
 import { hashPassword } from "../auth";
 import { toMoney } from "../utils/money";
 import { logAudit, getRequestContext } from "../services/auditService";
+import { listTasks, getTaskRuns, runTaskNow, setTaskPaused, ScheduledTaskError } from "../services/schedulerRegistry";
 
 const router = Router();
 
@@ -377,6 +378,85 @@ router.post("/api/admin/dead-letter-jobs/:id/discard", isAdmin, async (req: Requ
   }
 });
 
+/**
+ * GET /api/admin/scheduled-tasks — Every recurring task with its schedule,
+ * pause state, next run and most recent run.
+ */
+router.get("/api/admin/scheduled-tasks", isAdmin, async (req: Request, res: Response) => {
+  try {
+    res.json({ tasks: await listTasks() });
+  } catch (error: any) {
+    console.error("[Admin] Error listing scheduled tasks:", error);
+    res.status(500).json({ error: "Failed to list scheduled tasks" });
+  }
+});
+
+/**
+ * GET /api/admin/scheduled-tasks/:key/runs — Run history for one task,
+ * newest first. Supports ?limit= (default 50, max 200).
+ */
+router.get("/api/admin/scheduled-tasks/:key/runs", isAdmin, async (req: Request, res: Response) => {
+  try {
+    const limit = Math.min(parseInt(String(req.query.limit)) || 50, 200);
+    res.json({ runs: await getTaskRuns(req.params.key, limit) });
+  } catch (error: any) {
+    if (error instanceof ScheduledTaskError) return res.status(error.status).json({ error: error.message });
+    console.error("[Admin] Error listing scheduled task runs:", error);
+    res.status(500).json({ error: "Failed to list scheduled task runs" });
+  }
+});
+
+/**
+ * POST /api/admin/scheduled-tasks/:key/run — Start a run now, even if the
+ * task is paused. Returns 202 once started; the outcome lands in run history.
+ * 409 if it is already running on this or another instance.
+ */
+router.post("/api/admin/scheduled-tasks/:key/run", isAdmin, async (req: Request, res: Response) => {
+  try {
+    const userId = (req.user as any).id;
+    await runTaskNow(req.params.key, userId);
+    logAudit({ userId, action: 'admin_run_scheduled_task', resource: 'scheduled_task', details: { taskKey: req.params.key }, ...getRequestContext(req) });
+    res.status(202).json({ success: true });
+  } catch (error: any) {
+    if (error instanceof ScheduledTaskError) return res.status(error.status).json({ error: error.message });
+    console.error("[Admin] Error running scheduled task:", error);
+    res.status(500).json({ error: "Failed to run scheduled task" });
+  }
+});
+
+/**
+ * POST /api/admin/scheduled-tasks/:key/pause — Stop scheduled runs on every
+ * instance until resumed. Manual runs still work.
+ */
+router.post("/api/admin/scheduled-tasks/:key/pause", isAdmin, async (req: Request, res: Response) => {
+  try {
+    const userId = (req.user as any).id;
+    await setTaskPaused(req.params.key, true, userId);
+    logAudit({ userId, action: 'admin_pause_scheduled_task', resource: 'scheduled_task', details: { taskKey: req.params.key }, ...getRequestContext(req) });
+    res.json({ success: true, paused: true });
+  } catch (error: any) {
+    if (error instanceof ScheduledTaskError) return res.status(error.status).json({ error: error.message });
+    console.error("[Admin] Error pausing scheduled task:", error);
+    res.status(500).json({ error: "Failed to pause scheduled task" });
+  }
+});
+
+/**
+ * POST /api/admin/scheduled-tasks/:key/resume — Resume scheduled runs
+ */
+router.post("/api/admin/scheduled-tasks/:key/resume", isAdmin, async (req: Request, res: Response) => {
+  try {
+    const userId = (req.user as any).id;
+    await setTaskPaused(req.params.key, false, userId);
+    logAudit({ userId, action: 'admin_resume_scheduled_task', resource: 'scheduled_task', details: { taskKey: req.params.key }, ...getRequestContext(req) });
+    res.json({ success: true, paused: false });
+  } catch (error: any) {
+    if (error instanceof ScheduledTaskError) return res.status(error.status).json({ error: error.message });
+    console.error("[Admin] Error resuming scheduled task:", error);
+    res.status(500).json({ error: "Failed to resume scheduled task" });
+  }
+});
+
 /**
  * PATCH /api/admin/businesses/:id/subscription-status — Update a business's subscription status
  */
@@ -6,9 +6,30 @@ import { isAuthenticated, ApiKeyRequest } from "../auth";
 import { dataCache } from "../services/callToolHandlers";
 import { fireEvent } from "../services/webhookService";
 import notificationService from "../services/notificationService";
+import { requireRole } from "../middleware/permissions";
+import { chargeFee, recordFee, waiveFee, type FeeResult } from "../services/cancellationFeeService";
+import {
+  ACTIVE_ENTRY_STATUSES,
+  joinAppointmentWaitlist,
+  removeAppointmentWaitlistEntry,
+  type AppointmentWaitlistResult,
+} from "../services/appointmentWaitlistService";
+import {
+  MAX_SERVICE_LINES,
+  resolveServiceLines,
+  totalDurationMinutes,
+} from "../services/appointmentLineService";
+import { resolveCustomFieldChanges } from "../services/customFieldService";
 
 const router = Router();
 
+// Ordered service list for a multi-service appointment (see appointmentLineService)
+const serviceLinesSchema = z.array(z.object({
+  serviceId: z.number(),
+  staffId: z.number().nullable().optional(),
+  addonIds: z.array(z.number()).optional(),
+})).min(1).max(MAX_SERVICE_LINES);
+
 // Helper to get businessId from authenticated request
 const getBusinessId = (req: Request): number => {
   // If user is authenticated via session, use their businessId
@@ -61,6 +82,7 @@ router.get("/appointments", isAuthenticated, async (req: Request, res: Response)
     }
 
     const appointments = await storage.getAppointments(businessId, params);
+    const serviceLines = await storage.getAppointmentServicesForAppointments(appointments.map(a => a.id));
 
     // Fetch related data for each appointment
     const populatedAppointments = await Promise.all(
@@ -68,12 +90,15 @@ router.get("/appointments", isAuthenticated, async (req: Request, res: Response)
         const customer = await storage.getCustomer(appointment.customerId);
         const staff = appointment.staffId ? await storage.getStaffMember(appointment.staffId) : null;
         const service = appointment.serviceId ? await storage.getService(appointment.serviceId) : null;
+        const resource = appointment.resourceId ? await storage.getResource(appointment.resourceId) : null;
 
         return {
           ...appointment,
           customer,
           staff,
-          service
+          service,
+          resource,
+          services: serviceLines.filter(line => line.appointmentId === appointment.id),
         };
       })
     );
@@ -96,17 +121,21 @@ router.get("/appointments/:id", isAuthenticated, async (req: Request, res: Respo
     }
 
     // Fetch related data in parallel
-    const [customer, staff, service] = await Promise.all([
+    const [customer, staff, service, resource, services] = await Promise.all([
       storage.getCustomer(appointment.customerId),
       appointment.staffId ? storage.getStaffMember(appointment.staffId) : null,
       appointment.serviceId ? storage.getService(appointment.serviceId) : null,
+      appointment.resourceId ? storage.getResource(appointment.resourceId) : null,
+      storage.getAppointmentServices(appointment.id),
     ]);
 
     res.json({
       ...appointment,
       customer,
       staff,
-      service
+      service,
+      resource,
+      services,
     });
   } catch (error) {
     res.status(500).json({ message: "Error fetching appointment" });
@@ -119,10 +148,29 @@ router.post("/appointments", isAuthenticated, async (req: Request, res: Response
     console.log('Creating appointment, businessId:', businessId, 'body:', JSON.stringify(req.body));
     const validatedData = insertAppointmentSchema.parse({ ...req.body, businessId });
     console.log('Validated data:', JSON.stringify(validatedData));
+    if (validatedData.customFields) {
+      const resolved = await resolveCustomFieldChanges(businessId, 'appointment', {}, validatedData.customFields);
+      if (!resolved.ok) {
+        return res.status(400).json({ message: `Invalid ${resolved.invalid.join(', ')}`, fields: resolved.invalid });
+      }
+      validatedData.customFields = resolved.customFields;
+    }
+
+    // Several services in one visit — the list sets the service and the length
+    let lines;
+    if (req.body.services !== undefined) {
+      const resolved = await resolveServiceLines(businessId, serviceLinesSchema.parse(req.body.services));
+      if (!resolved.ok) {
+        return res.status(400).json({ message: resolved.error });
+      }
+      lines = resolved.lines;
+      validatedData.serviceId = lines[0].serviceId;
+      validatedData.endDate = new Date(validatedData.startDate.getTime() + totalDurationMinutes(lines) * 60000);
+    }
 
     // Use transactional booking with double-booking prevention
     const { createAppointmentSafely } = await import('../services/appointmentService');
-    const safeResult = await createAppointmentSafely(validatedData);
+    const safeResult = await createAppointmentSafely(validatedData, { services: lines });
     if (!safeResult.success) {
       return res.status(409).json({ message: safeResult.error || 'Time slot is not available' });
     }
@@ -163,20 +211,43 @@ router.put("/appointments/:id", isAuthenticated, async (req: Request, res: Respo
     }
     const validatedData = insertAppointmentSchema.partial().parse(req.body);
     console.log('Validated update data:', JSON.stringify(validatedData));
+    if (validatedData.customFields) {
+      const resolved = await resolveCustomFieldChanges(existing.businessId, 'appointment', existing.customFields, validatedData.customFields);
+      if (!resolved.ok) {
+        return res.status(400).json({ message: `Invalid ${resolved.invalid.join(', ')}`, fields: resolved.invalid });
+      }
+      validatedData.customFields = resolved.customFields;
+    }
+
+    // Replacing the service list — the first line becomes the appointment's
+    // service and the visit runs as long as the new list
+    let lines;
+    if (req.body.services !== undefined) {
+      const resolved = await resolveServiceLines(existing.businessId, serviceLinesSchema.parse(req.body.services));
+      if (!resolved.ok) {
+        return res.status(400).json({ message: resolved.error });
+      }
+      lines = resolved.lines;
+      validatedData.serviceId = lines[0].serviceId;
+      const startDate = new Date(validatedData.startDate && validatedData.endDate ? validatedData.startDate : existing.startDate);
+      validatedData.startDate = startDate;
+      validatedData.endDate = new Date(startDate.getTime() + totalDurationMinutes(lines) * 60000);
+    }
 
-    // If the time is being changed, use safe transactional update with overlap prevention
+    // If the time, resource or services are being changed, use safe transactional update with overlap prevention
     let appointment;
-    if (validatedData.startDate && validatedData.endDate) {
+    if ((validatedData.startDate && validatedData.endDate) || validatedData.resourceId !== undefined || lines) {
       const { updateAppointmentSafely } = await import('../services/appointmentService');
       const staffIdForCheck = validatedData.staffId ?? existing.staffId;
       const { startDate, endDate, ...otherUpdates } = validatedData;
       const safeResult = await updateAppointmentSafely(
         id,
         existing.businessId,
-        new Date(startDate),
-        new Date(endDate),
+        new Date(startDate && endDate ? startDate : existing.startDate),
+        new Date(startDate && endDate ? endDate : existing.endDate),
         staffIdForCheck,
-        otherUpdates
+        otherUpdates,
+        { services: lines },
       );
       if (!safeResult.success) {
         return res.status(409).json({ message: safeResult.error || 'Time slot is not available' });
@@ -224,6 +295,10 @@ router.put("/appointments/:id", isAuthenticated, async (req: Request, res: Respo
         referenceType: 'appointment',
         referenceId: appointment.id,
       });
+
+      // No-show fee for bookings that accepted the cancellation policy
+      await recordFee(appointment, 'no_show').catch(err =>
+        console.error('Error recording no-show fee:', err));
     }
 
     // Queue cancelled insights recalculation
@@ -285,4 +360,194 @@ router.delete("/appointments/:id", isAuthenticated, async (req: Request, res: Re
   }
 });
 
+// ── Late-cancel / no-show fees ──
+
+router.get("/appointments/:id/fees", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid appointment ID" });
+    }
+    const appointment = await storage.getAppointment(id);
+    if (!appointment || !verifyBusinessOwnership(appointment, req)) {
+      return res.status(404).json({ message: "Appointment not found" });
+    }
+    const [fees, customer] = await Promise.all([
+      storage.getAppointmentFees(appointment.businessId, { appointmentId: id }),
+      storage.getCustomer(appointment.customerId),
+    ]);
+    res.json({
+      fees,
+      card: customer?.stripePaymentMethodId
+        ? { brand: customer.cardBrand, last4: customer.cardLast4 }
+        : null,
+    });
+  } catch (error) {
+    res.status(500).json({ message: "Error fetching appointment fees" });
+  }
+});
+
+const FEE_ERROR_STATUS: Record<Extract<FeeResult, { ok: false }>["reason"], number> = {
+  not_found: 404,
+  not_chargeable: 409,
+  not_connected: 400,
+  no_card: 400,
+  payment_failed: 402,
+};
+
+async function resolveFee(req: Request, res: Response, action: typeof chargeFee | typeof waiveFee) {
+  try {
+    const id = parseInt(req.params.id);
+    const feeId = parseInt(req.params.feeId);
+    if (isNaN(id) || isNaN(feeId)) {
+      return res.status(400).json({ message: "Invalid fee ID" });
+    }
+    const appointment = await storage.getAppointment(id);
+    if (!appointment || !verifyBusinessOwnership(appointment, req)) {
+      return res.status(404).json({ message: "Appointment not found" });
+    }
+    const fee = await storage.getAppointmentFee(feeId, appointment.businessId);
+    if (!fee || fee.appointmentId !== id) {
+      return res.status(404).json({ message: "Fee not found" });
+    }
+
+    const result = await action(feeId, appointment.businessId, req.user!.id);
+    if (!result.ok) {
+      return res.status(FEE_ERROR_STATUS[result.reason]).json({ message: result.message, reason: result.reason });
+    }
+    res.json(result.fee);
+  } catch (error) {
+    console.error('Error resolving appointment fee:', error);
+    res.status(500).json({ message: "Error updating appointment fee" });
+  }
+}
+
+router.post("/appointments/:id/fees/:feeId/charge", isAuthenticated, requireRole("owner", "manager"), (req: Request, res: Response) =>
+  resolveFee(req, res, chargeFee));
+
+router.post("/appointments/:id/fees/:feeId/waive", isAuthenticated, requireRole("owner", "manager"), (req: Request, res: Response) =>
+  resolveFee(req, res, waiveFee));
+
+// ── Appointment waitlist ──
+
+const APPOINTMENT_WAITLIST_ERROR_STATUS: Record<Extract<AppointmentWaitlistResult, { ok: false }>["reason"], number> = {
+  disabled: 400,
+  invalid_window: 400,
+  invalid_choice: 400,
+  already_waiting: 409,
+  not_active: 409,
+};
+
+const dateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid date");
+
+const appointmentWaitlistJoinSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  phone: z.string().regex(/^\+?1?\d{10,15}$/, "Please enter a valid phone number"),
+  serviceId: z.number().int().positive().nullable().optional(),
+  staffId: z.number().int().positive().nullable().optional(),
+  windowStart: dateString,
+  windowEnd: dateString,
+  priority: z.number().int().min(0).max(100).optional(),
+  notes: z.string().max(500).nullable().optional(),
+});
+
+const appointmentWaitlistUpdateSchema = z.object({
+  priority: z.number().int().min(0).max(100).optional(),
+  notes: z.string().max(500).nullable().optional(),
+});
+
+// Customers waiting for an opening, in offer order, with any slot they're holding
+router.get("/appointment-waitlist", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const business = await storage.getBusiness(getBusinessId(req));
+    if (!business) {
+      return res.status(404).json({ message: "Business not found" });
+    }
+    const [entries, pendingOffers] = await Promise.all([
+      storage.getAppointmentWaitlistEntries(business.id, { statuses: ACTIVE_ENTRY_STATUSES }),
+      storage.getAppointmentSlotOffers(business.id, { statuses: ["pending"] }),
+    ]);
+    const customers = await Promise.all(entries.map((entry) => storage.getCustomer(entry.customerId)));
+    res.json({
+      enabled: !!business.appointmentWaitlistEnabled,
+      holdMinutes: business.appointmentWaitlistHoldMinutes || 15,
+      entries: entries.map((entry, index) => {
+        const offer = pendingOffers.find((o) => o.entryId === entry.id);
+        return {
+          ...entry,
+          customerName: [customers[index]?.firstName, customers[index]?.lastName].filter(Boolean).join(" "),
+          customerPhone: customers[index]?.phone || null,
+          offer: offer ? { startDate: offer.startDate, expiresAt: offer.expiresAt } : null,
+        };
+      }),
+    });
+  } catch (error) {
+    res.status(500).json({ message: "Error fetching appointment waitlist" });
+  }
+});
+
+router.post("/appointment-waitlist", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const validatedData = appointmentWaitlistJoinSchema.parse(req.body);
+    const business = await storage.getBusiness(getBusinessId(req));
+    if (!business) {
+      return res.status(404).json({ message: "Business not found" });
+    }
+    const result = await joinAppointmentWaitlist(business, { ...validatedData, source: "owner" });
+    if (!result.ok) {
+      return res.status(APPOINTMENT_WAITLIST_ERROR_STATUS[result.reason]).json({ message: result.message });
+    }
+    res.status(201).json(result.entry);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ errors: error.format() });
+    }
+    res.status(500).json({ message: "Error adding to appointment waitlist" });
+  }
+});
+
+// Reprioritize or annotate an entry
+router.patch("/appointment-waitlist/:id", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid waitlist entry ID" });
+    }
+    const validatedData = appointmentWaitlistUpdateSchema.parse(req.body);
+    const entry = await storage.getAppointmentWaitlistEntry(id);
+    if (!entry || !verifyBusinessOwnership(entry, req)) {
+      return res.status(404).json({ message: "Waitlist entry not found" });
+    }
+    res.json(await storage.updateAppointmentWaitlistEntry(id, validatedData));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ errors: error.format() });
+    }
+    res.status(500).json({ message: "Error updating waitlist entry" });
+  }
+});
+
+router.delete("/appointment-waitlist/:id", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid waitlist entry ID" });
+    }
+    const [entry, business] = await Promise.all([
+      storage.getAppointmentWaitlistEntry(id),
+      storage.getBusiness(getBusinessId(req)),
+    ]);
+    if (!entry || !business || !verifyBusinessOwnership(entry, req)) {
+      return res.status(404).json({ message: "Waitlist entry not found" });
+    }
+    const result = await removeAppointmentWaitlistEntry(business, entry);
+    if (!result.ok) {
+      return res.status(APPOINTMENT_WAITLIST_ERROR_STATUS[result.reason]).json({ message: result.message });
+    }
+    res.json(result.entry);
+  } catch (error) {
+    res.status(500).json({ message: "Error removing waitlist entry" });
+  }
+});
+
 export default router;
@@ -1,14 +1,78 @@
 import { Router } from "express";
-import { storage } from "../storage";
+import rateLimit from "express-rate-limit";
+import { storage, normalizePhone } from "../storage";
 import { z } from "zod";
 import crypto from "crypto";
+import type { Appointment, Business } from "@shared/schema";
 import { fireEvent } from "../services/webhookService";
 import notificationService from "../services/notificationService";
 import { createDateInTimezone, getTimezoneAbbreviation, formatTimeWithTimezone } from "../utils/timezone";
 import { logAndSwallow } from "../utils/safeAsync";
+import {
+  acceptPolicyFields,
+  createCardSetupIntent,
+  describePolicy,
+  getAcceptedTerms,
+  getCancellationPolicy,
+  isLateCancellation,
+  recordFee,
+  saveCardFromSetupIntent,
+} from "../services/cancellationFeeService";
+import { createReservationSafely, getTurnTimeMinutes, loadReservationFloor, updateReservationSafely } from "../services/tableAssignmentService";
+import {
+  estimateWaitMinutes,
+  getActiveWaitlist,
+  getWaitlistPosition,
+  joinWaitlist,
+  removeWaitlistEntry,
+} from "../services/waitlistService";
+import { getHeldSlots, joinAppointmentWaitlist } from "../services/appointmentWaitlistService";
+import { loadResourcePoolForServices, poolHasRoom } from "../services/resourceBookingService";
+import {
+  addServiceLineItemsToJob,
+  buildServiceLine,
+  describeLines,
+  loadAppointmentLines,
+  MAX_SERVICE_LINES,
+  resolveServiceLines,
+  staffBookings,
+  totalDurationMinutes,
+  totalPrice,
+  type ServiceLine,
+} from "../services/appointmentLineService";
+import { bookClassSeat, getClassAvailability, isClassService } from "../services/classService";
 
 const router = Router();
 
+// Policy details safe to show on the public booking page
+function publicCancellationPolicy(business: Business) {
+  const policy = getCancellationPolicy(business);
+  if (!policy) return null;
+  return {
+    windowHours: policy.windowHours,
+    lateCancelFee: policy.lateCancelFee,
+    noShowFee: policy.noShowFee,
+    text: policy.text,
+    cardRequired: policy.cardRequired,
+    stripeAccountId: policy.stripeAccountId,
+  };
+}
+
+// What cancelling right now would cost under the terms accepted at booking —
+// null when no policy was accepted or the business has since turned fees off
+function cancellationTerms(business: Business, appointment: Appointment) {
+  const terms = getAcceptedTerms(appointment);
+  if (!terms || !business.cancellationFeeEnabled) return null;
+  const isLate = isLateCancellation(terms, appointment.startDate);
+  return {
+    policyText: describePolicy(terms),
+    windowHours: terms.windowHours,
+    isLate,
+    feeApplies: isLate && terms.lateCancelFee > 0,
+    fee: terms.lateCancelFee,
+  };
+}
+
 /**
  * @openapi
  * /api/book/{slug}:
@@ -65,6 +129,7 @@ router.get("/book/:slug", async (req, res) => {
     // Get active services for this business
     const allServices = await storage.getServices(business.id);
     const activeServices = allServices.filter(s => s.active);
+    const addons = await storage.getServiceAddons(business.id, { activeOnly: true });
 
     // Get active staff for this business
     const allStaff = await storage.getStaff(business.id);
@@ -112,6 +177,11 @@ router.get("/book/:slug", async (req, res) => {
         description: s.description,
         price: s.price,
         duration: s.duration,
+        // Set for group classes — booked per seat on a session instead of a time slot
+        classCapacity: isClassService(s) ? s.classCapacity : null,
+        addons: addons
+          .filter(a => a.serviceId === s.id)
+          .map(a => ({ id: a.id, name: a.name, price: a.price, durationMinutes: a.durationMinutes })),
       })),
       staff: activeStaff.map(s => ({
         id: s.id,
@@ -124,6 +194,13 @@ router.get("/book/:slug", async (req, res) => {
       businessHours: hours,
       // Staff-service map: staffId → serviceId[] (empty/missing = all services)
       staffServices: staffServicesMap,
+      // Late-cancel / no-show policy the customer must accept (null = none)
+      cancellationPolicy: publicCancellationPolicy(business),
+      // Customers can join the waitlist when no time works (appointments only)
+      appointmentWaitlist: (business.appointmentWaitlistEnabled && business.industry !== 'restaurant') ? {
+        enabled: true,
+        holdMinutes: business.appointmentWaitlistHoldMinutes || 15,
+      } : null,
       // Reservation config (restaurants only)
       reservation: (business.industry === 'restaurant' && business.reservationEnabled) ? {
         enabled: true,
@@ -189,7 +266,7 @@ router.get("/book/:slug", async (req, res) => {
 router.get("/book/:slug/slots", async (req, res) => {
   try {
     const { slug } = req.params;
-    const { date, serviceId, staffId } = req.query;
+    const { date, serviceId, serviceIds, addonIds, staffId } = req.query;
 
     if (!date) {
       return res.status(400).json({ error: "Date is required" });
@@ -238,6 +315,23 @@ router.get("/book/:slug/slots", async (req, res) => {
       }
     }
 
+    // Multi-service selection: serviceIds=1,4,7 (in order) plus any add-ons —
+    // the slot has to fit the whole list back to back
+    const parseIds = (value: unknown) => String(value || '').split(',').map(Number).filter(n => Number.isInteger(n) && n > 0);
+    const selectedServiceIds = serviceIds ? parseIds(serviceIds) : serviceId ? [parseInt(serviceId as string)] : [];
+    const selectedAddonIds = parseIds(addonIds);
+    if (selectedServiceIds.length > 1 || selectedAddonIds.length > 0) {
+      const addons = await storage.getServiceAddons(business.id, { activeOnly: true });
+      const resolved = await resolveServiceLines(business.id, selectedServiceIds.map(id => ({
+        serviceId: id,
+        addonIds: addons.filter(a => a.serviceId === id && selectedAddonIds.includes(a.id)).map(a => a.id),
+      })));
+      if (!resolved.ok) {
+        return res.status(400).json({ error: resolved.error });
+      }
+      serviceDuration = totalDurationMinutes(resolved.lines);
+    }
+
     // Get the day of week in business timezone
     const dayName = requestedDate.toLocaleDateString('en-US', { weekday: 'long', timeZone: businessTimezone }).toLowerCase();
 
@@ -265,10 +359,20 @@ router.get("/book/:slug/slots", async (req, res) => {
     const startOfDay = createDateInTimezone(rYear, rMonth - 1, rDay, 0, 0, businessTimezone);
     const endOfDay = createDateInTimezone(rYear, rMonth - 1, rDay, 23, 59, businessTimezone);
 
-    const existingAppointments = await storage.getAppointments(business.id, {
-      startDate: startOfDay,
-      endDate: endOfDay,
-    });
+    const existingAppointments = [
+      ...await storage.getAppointments(business.id, {
+        startDate: startOfDay,
+        endDate: endOfDay,
+      }),
+      // Cancelled slots currently held for a waitlisted customer
+      ...await getHeldSlots(business, startOfDay, endOfDay),
+    ];
+    const existingLines = await storage.getAppointmentServicesForAppointments(
+      existingAppointments.flatMap(apt => 'id' in apt ? [apt.id] : []),
+    );
+
+    // Rooms/chairs/lifts the services need — null when none does
+    const resourcePool = await loadResourcePoolForServices(business.id, selectedServiceIds, startOfDay, endOfDay);
 
     // Get staff to check availability
     const allStaff = await storage.getStaff(business.id);
@@ -280,14 +384,13 @@ router.get("/book/:slug/slots", async (req, res) => {
       staffToCheck = activeStaff.filter(s => s.id === parseInt(staffId as string));
     }
 
-    // Filter staff by service assignments — only staff who can do this service should count
+    // Filter staff by service assignments — only staff who can do every selected service should count
     // Backward compat: staff with NO assignments can do ALL services
-    if (serviceId) {
-      const parsedServiceId = parseInt(serviceId as string);
+    if (selectedServiceIds.length > 0) {
       const eligibleStaff: typeof staffToCheck = [];
       for (const s of staffToCheck) {
         const assignedServices = await storage.getStaffServices(s.id);
-        if (assignedServices.length === 0 || assignedServices.includes(parsedServiceId)) {
+        if (assignedServices.length === 0 || selectedServiceIds.every(id => assignedServices.includes(id))) {
           eligibleStaff.push(s);
         }
       }
@@ -345,9 +448,8 @@ router.get("/book/:slug/slots", async (req, res) => {
           }
         }
 
-        // Check for conflicting appointments
-        const hasConflict = existingAppointments.some(apt => {
-          if (apt.staffId !== staffMember.id) return false;
+        // Check for conflicting appointments, including lines they do on someone else's booking
+        const hasConflict = staffBookings(existingAppointments, existingLines, staffMember.id).some(apt => {
           if (apt.status === 'cancelled') return false;
 
           const aptStart = new Date(apt.startDate);
@@ -372,9 +474,17 @@ router.get("/book/:slug/slots", async (req, res) => {
       slotDateTime.setHours(hour, min, 0, 0);
       const isInPast = slotDateTime <= minBookingTime;
 
+      // A free stylist is no use when every color station is taken
+      const resourceStart = createDateInTimezone(rYear, rMonth - 1, rDay, hour, min, businessTimezone);
+      const resourceFree = poolHasRoom(
+        resourcePool,
+        resourceStart,
+        new Date(resourceStart.getTime() + serviceDuration * 60 * 1000),
+      );
+
       slots.push({
         time: timeStr,
-        available: !isInPast && availableStaffIds.length > 0,
+        available: !isInPast && availableStaffIds.length > 0 && resourceFree,
         staffAvailable: availableStaffIds,
       });
     }
@@ -445,7 +555,14 @@ router.post("/book/:slug", async (req, res) => {
 
     // Validate request body
     const bookingSchema = z.object({
-      serviceId: z.number(),
+      serviceId: z.number().optional(),
+      addonIds: z.array(z.number()).optional(), // Add-ons on serviceId
+      // Several services in one visit, in order. Replaces serviceId/addonIds when given.
+      services: z.array(z.object({
+        serviceId: z.number(),
+        staffId: z.number().optional(),
+        addonIds: z.array(z.number()).optional(),
+      })).min(1).max(MAX_SERVICE_LINES).optional(),
       staffId: z.number().optional(),
       date: z.string(), // YYYY-MM-DD
       time: z.string(), // HH:MM
@@ -457,7 +574,9 @@ router.post("/book/:slug", async (req, res) => {
         smsOptIn: z.boolean().optional(),
       }),
       notes: z.string().optional(),
-    });
+      policyAccepted: z.boolean().optional(),
+      setupIntentId: z.string().optional(),
+    }).refine(data => data.serviceId || data.services, { message: "A service is required", path: ["serviceId"] });
 
     const validatedData = bookingSchema.parse(req.body);
 
@@ -481,11 +600,30 @@ router.post("/book/:slug", async (req, res) => {
       console.warn(`[Booking] Free plan check failed for business ${business.id}:`, planErr);
     }
 
-    // Get service to determine duration
-    const service = await storage.getService(validatedData.serviceId);
-    if (!service || service.businessId !== business.id) {
-      return res.status(400).json({ error: "Invalid service" });
+    // Resolve the booked service(s) and add-ons — together they set the duration
+    let lines: ServiceLine[];
+    if (validatedData.services || validatedData.addonIds?.length) {
+      const resolved = await resolveServiceLines(business.id, validatedData.services || [{
+        serviceId: validatedData.serviceId,
+        addonIds: validatedData.addonIds,
+      }]);
+      if (!resolved.ok) {
+        return res.status(400).json({ error: resolved.error });
+      }
+      lines = resolved.lines;
+    } else {
+      const service = await storage.getService(validatedData.serviceId!);
+      if (!service || service.businessId !== business.id) {
+        return res.status(400).json({ error: "Invalid service" });
+      }
+      if (isClassService(service)) {
+        return res.status(400).json({ error: `${service.name} is a class. Please choose one of its sessions.` });
+      }
+      lines = [buildServiceLine(service)];
     }
+    const primaryServiceId = lines[0].serviceId;
+    const serviceSummary = describeLines(lines);
+    const durationMinutes = totalDurationMinutes(lines);
 
     // Parse date and time in business timezone
     // CRITICAL: On Railway (UTC server), new Date(year,month,day,hour,min) creates UTC dates.
@@ -495,7 +633,7 @@ router.post("/book/:slug", async (req, res) => {
     const businessTimezone = business.timezone || 'America/New_York';
 
     const startDate = createDateInTimezone(year, month - 1, day, hour, min, businessTimezone);
-    const endDate = new Date(startDate.getTime() + (service.duration || 60) * 60 * 1000);
+    const endDate = new Date(startDate.getTime() + durationMinutes * 60 * 1000);
 
     // Verify the slot is still available
     const now = new Date();
@@ -508,6 +646,16 @@ router.post("/book/:slug", async (req, res) => {
       });
     }
 
+    // Cancellation policy must be accepted (and a card saved, when the
+    // business can charge one) before the booking goes through
+    const cancellationPolicy = getCancellationPolicy(business);
+    if (cancellationPolicy && validatedData.policyAccepted !== true) {
+      return res.status(400).json({ error: "Please accept the cancellation policy to book." });
+    }
+    if (cancellationPolicy?.cardRequired && !validatedData.setupIntentId) {
+      return res.status(400).json({ error: "A card on file is required to book with this business." });
+    }
+
     // Find or create customer
     let customer = await storage.getCustomerByPhone(validatedData.customer.phone, business.id);
 
@@ -551,6 +699,13 @@ router.post("/book/:slug", async (req, res) => {
       }
     }
 
+    if (cancellationPolicy?.cardRequired && validatedData.setupIntentId) {
+      const saved = await saveCardFromSetupIntent(business, customer, validatedData.setupIntentId);
+      if (!saved.ok) {
+        return res.status(400).json({ error: saved.message });
+      }
+    }
+
     // Prevent duplicate bookings — check if this customer already has an active appointment today
     const dayStart = createDateInTimezone(year, month - 1, day, 0, 0, businessTimezone);
     const dayEnd = createDateInTimezone(year, month - 1, day, 23, 59, businessTimezone);
@@ -571,16 +726,21 @@ router.post("/book/:slug", async (req, res) => {
     // Determine staff member
     let staffId = validatedData.staffId;
 
-    // Validate staff-service compatibility if a specific staff was chosen
-    if (staffId) {
-      const staffServiceIds = await storage.getStaffServices(staffId);
-      if (staffServiceIds.length > 0 && !staffServiceIds.includes(validatedData.serviceId)) {
-        const staffMember = await storage.getStaffMember(staffId);
+    // Validate staff-service compatibility — the appointment's staff member covers
+    // every line that doesn't name its own
+    const checks = lines
+      .map(line => ({ line, staffId: line.staffId ?? staffId }))
+      .filter((c): c is { line: ServiceLine; staffId: number } => !!c.staffId);
+    for (const { line, staffId: performerId } of checks) {
+      const staffServiceIds = await storage.getStaffServices(performerId);
+      if (staffServiceIds.length > 0 && !staffServiceIds.includes(line.serviceId)) {
+        const staffMember = await storage.getStaffMember(performerId);
         return res.status(400).json({
-          error: `${staffMember?.firstName || 'That team member'} doesn't perform ${service.name}. Please choose a different staff member.`
+          error: `${staffMember?.firstName || 'That team member'} doesn't perform ${line.serviceName}. Please choose a different staff member.`
         });
       }
     }
+    const sharedServiceIds = lines.filter(line => !line.staffId).map(line => line.serviceId);
 
     if (!staffId) {
       // Auto-assign to an available staff member (who can do this service)
@@ -593,7 +753,7 @@ router.post("/book/:slug", async (req, res) => {
       const eligibleAvailableStaff: typeof availableStaff = [];
       for (const s of availableStaff) {
         const assignedServices = await storage.getStaffServices(s.id);
-        if (assignedServices.length === 0 || assignedServices.includes(validatedData.serviceId)) {
+        if (assignedServices.length === 0 || sharedServiceIds.every(id => assignedServices.includes(id))) {
           eligibleAvailableStaff.push(s);
         }
       }
@@ -608,14 +768,19 @@ router.post("/book/:slug", async (req, res) => {
     // Re-fetch appointments to prevent race condition double-booking
     // (the original fetch may be stale if another request booked in between)
     if (staffId) {
-      const freshAppointments = await storage.getAppointments(business.id, {
-        startDate: dayStart,
-        endDate: dayEnd,
-      });
+      const freshAppointments = [
+        ...await storage.getAppointments(business.id, {
+          startDate: dayStart,
+          endDate: dayEnd,
+        }),
+        ...await getHeldSlots(business, dayStart, dayEnd),
+      ];
+      const freshLines = await storage.getAppointmentServicesForAppointments(
+        freshAppointments.flatMap(apt => 'id' in apt ? [apt.id] : []),
+      );
       const bufferMinutes = business.bookingBufferMinutes || 15;
-      const slotEnd = new Date(startDate.getTime() + (service.duration || 60) * 60 * 1000);
-      const dayAppointments = freshAppointments.filter(apt =>
-        apt.staffId === staffId &&
+      const slotEnd = endDate;
+      const dayAppointments = staffBookings(freshAppointments, freshLines, staffId).filter(apt =>
         apt.status !== 'cancelled'
       );
       const hasConflict = dayAppointments.some(apt => {
@@ -641,14 +806,15 @@ router.post("/book/:slug", async (req, res) => {
       businessId: business.id,
       customerId: customer.id,
       staffId: staffId || null,
-      serviceId: validatedData.serviceId,
+      serviceId: primaryServiceId,
       startDate,
       endDate,
       status: 'scheduled',
       notes: validatedData.notes
         ? `Online booking: ${validatedData.notes}`
         : 'Online booking',
-    });
+      ...(cancellationPolicy ? acceptPolicyFields(cancellationPolicy) : {}),
+    }, { services: lines });
     if (!safeResult.success || !safeResult.appointment) {
       return res.status(409).json({
         error: safeResult.error || "Sorry, that time slot was just booked. Please select a different time.",
@@ -668,7 +834,7 @@ router.post("/book/:slug", async (req, res) => {
     let createdJob: any = null;
     try {
       const customerDisplayName = `${validatedData.customer.firstName} ${validatedData.customer.lastName}`.trim();
-      const jobTitle = customerDisplayName ? `${service.name} - ${customerDisplayName}` : service.name;
+      const jobTitle = customerDisplayName ? `${serviceSummary} - ${customerDisplayName}` : serviceSummary;
 
       createdJob = await storage.createJob({
         businessId: business.id,
@@ -676,12 +842,19 @@ router.post("/book/:slug", async (req, res) => {
         appointmentId: appointment.id,
         staffId: staffId || null,
         title: jobTitle,
-        description: `Service: ${service.name}${validatedData.notes ? `\nNotes: ${validatedData.notes}` : ''}`,
+        description: `Service: ${serviceSummary}${validatedData.notes ? `\nNotes: ${validatedData.notes}` : ''}`,
         scheduledDate: validatedData.date,
         status: 'pending',
         notes: 'Auto-created from online booking',
       });
 
+      // Bill what was booked — the invoice on completion is built from these
+      try {
+        await addServiceLineItemsToJob(createdJob.id, lines);
+      } catch (lineItemErr: any) {
+        console.error('Failed to add service line items to booking job:', { jobId: createdJob.id, error: lineItemErr.message });
+      }
+
       fireEvent(business.id, 'job.created', { job: createdJob }).catch(err =>
         console.error('Webhook fire error (job.created):', err));
     } catch (jobError: any) {
@@ -715,7 +888,8 @@ router.post("/book/:slug", async (req, res) => {
         id: appointment.id,
         startDate: appointment.startDate,
         endDate: appointment.endDate,
-        serviceName: service.name,
+        serviceName: serviceSummary,
+        totalPrice: totalPrice(lines),
       },
       manageUrl,
       manageToken,
@@ -734,6 +908,42 @@ router.post("/book/:slug", async (req, res) => {
   }
 });
 
+// Start saving a card for a booking whose business requires one (public route).
+// The client confirms the SetupIntent with Stripe.js, then passes its id to
+// POST /book/:slug.
+router.post("/book/:slug/card-setup", async (req, res) => {
+  try {
+    const { slug } = req.params;
+
+    const cardSetupSchema = z.object({
+      firstName: z.string().min(1, "First name is required"),
+      lastName: z.string().min(1, "Last name is required"),
+      email: z.string().email("Valid email is required"),
+      phone: z.string().min(1, "Phone number is required").regex(/^\+?1?\d{10,15}$/, "Please enter a valid phone number"),
+    });
+    const validatedData = cardSetupSchema.parse(req.body);
+
+    const business = await storage.getBusinessByBookingSlug(slug);
+    if (!business || !business.bookingEnabled) {
+      return res.status(404).json({ error: "Business not found or booking not available" });
+    }
+    if (!getCancellationPolicy(business)?.cardRequired) {
+      return res.status(400).json({ error: "This business does not collect a card at booking" });
+    }
+
+    const setup = await createCardSetupIntent(business, validatedData);
+    res.json(setup);
+  } catch (error: any) {
+    console.error("Error starting card setup:", error);
+
+    if (error.name === "ZodError") {
+      return res.status(400).json({ error: "Invalid customer details", details: error.errors });
+    }
+
+    res.status(500).json({ error: "Failed to start card setup" });
+  }
+});
+
 // ========================================
 // MANAGE APPOINTMENT (Customer self-service)
 // ========================================
@@ -758,13 +968,11 @@ router.get("/book/:slug/manage/:token", async (req, res) => {
     let serviceName = 'Appointment';
     let serviceDuration = 60;
     let servicePrice: number | string | null = null;
-    if (appointment.serviceId) {
-      const service = await storage.getService(appointment.serviceId);
-      if (service) {
-        serviceName = service.name;
-        serviceDuration = service.duration || 60;
-        servicePrice = service.price;
-      }
+    const lines = await loadAppointmentLines(appointment);
+    if (lines.length > 0) {
+      serviceName = describeLines(lines);
+      serviceDuration = totalDurationMinutes(lines);
+      servicePrice = totalPrice(lines);
     }
 
     let staffName: string | null = null;
@@ -784,6 +992,7 @@ router.get("/book/:slug/manage/:token", async (req, res) => {
       service: { id: appointment.serviceId, name: serviceName, duration: serviceDuration, price: servicePrice },
       staff: staffName,
       customer: customer ? { firstName: customer.firstName, lastName: customer.lastName, email: customer.email, phone: customer.phone } : null,
+      cancellation: cancellationTerms(business, appointment),
       business: {
         name: business.name,
         phone: business.phone,
@@ -827,12 +1036,18 @@ router.post("/book/:slug/manage/:token/cancel", async (req, res) => {
       return res.status(400).json({ error: "This appointment has already been completed and cannot be cancelled." });
     }
 
+    const terms = cancellationTerms(business, appointment);
+
     // Cancel the appointment
     const updated = await storage.updateAppointment(appointment.id, {
       status: 'cancelled',
       notes: (appointment.notes || '') + '\n[Cancelled by customer via self-service]',
     });
 
+    if (terms?.feeApplies) {
+      await recordFee(appointment, 'late_cancel').catch(logAndSwallow('BookingRoutes'));
+    }
+
     // Also cancel linked job if exists
     try {
       const jobs = await storage.getJobs(business.id, { customerId: appointment.customerId });
@@ -845,7 +1060,22 @@ router.post("/book/:slug/manage/:token/cancel", async (req, res) => {
     // Fire webhook
     fireEvent(business.id, 'appointment.cancelled', { appointment: updated }).catch(logAndSwallow('BookingRoutes'));
 
-    res.json({ success: true, message: "Your appointment has been cancelled." });
+    // Dispatch cancellation event (insights recalculation, waitlist offer)
+    import("../services/orchestrationService").then(mod => {
+      mod.dispatchEvent('appointment.cancelled', {
+        businessId: business.id,
+        customerId: appointment.customerId,
+        referenceType: 'appointment',
+        referenceId: appointment.id,
+      }).catch(logAndSwallow('BookingRoutes'));
+    }).catch(logAndSwallow('BookingRoutes'));
+
+    res.json({
+      success: true,
+      message: terms?.feeApplies
+        ? `Your appointment has been cancelled. A $${terms.fee.toFixed(2)} late cancellation fee applies.`
+        : "Your appointment has been cancelled.",
+    });
   } catch (error) {
     console.error("Error cancelling appointment:", error);
     res.status(500).json({ error: "Failed to cancel appointment" });
@@ -885,12 +1115,10 @@ router.post("/book/:slug/manage/:token/reschedule", async (req, res) => {
     const [year, month, day] = date.split('-').map(Number);
     const [hour, min] = time.split(':').map(Number);
 
-    // Get service duration
+    // Get service duration — every booked service and add-on
     let serviceDuration = 60;
-    if (appointment.serviceId) {
-      const service = await storage.getService(appointment.serviceId);
-      if (service?.duration) serviceDuration = service.duration;
-    }
+    const lines = await loadAppointmentLines(appointment);
+    if (lines.length > 0) serviceDuration = totalDurationMinutes(lines);
 
     const newStartDate = createDateInTimezone(year, month - 1, day, hour, min, businessTimezone);
     const newEndDate = new Date(newStartDate.getTime() + serviceDuration * 60 * 1000);
@@ -995,7 +1223,7 @@ router.get("/book/:slug/reservation-slots", async (req, res) => {
     }
 
     const businessTimezone = business.timezone || 'America/New_York';
-    const slotDuration = business.reservationSlotDurationMinutes || 90;
+    const slotDuration = getTurnTimeMinutes(business, partySizeNum);
     const slotInterval = business.bookingSlotIntervalMinutes || 30;
     const leadTimeHours = business.reservationLeadTimeHours || 2;
     const maxDaysAhead = business.reservationMaxDaysAhead || 30;
@@ -1029,6 +1257,7 @@ router.get("/book/:slug/reservation-slots", async (req, res) => {
 
     // Generate time slots
     const slots: { time: string; available: boolean; remainingSeats: number }[] = [];
+    const floor = await loadReservationFloor(business, date as string);
 
     let currentHour = openHour;
     let currentMin = openMin;
@@ -1050,10 +1279,10 @@ router.get("/book/:slug/reservation-slots", async (req, res) => {
       let remainingSeats = 0;
 
       if (slotDateTime > minBookingTime) {
-        // Check capacity
-        const capacity = await storage.getReservationSlotCapacity(business.id, date as string, timeStr, slotDuration);
-        remainingSeats = capacity.remainingSeats;
-        available = remainingSeats >= partySizeNum;
+        // Check tables (or cover capacity when there's no floor plan)
+        const check = await floor.check(timeStr, partySizeNum);
+        remainingSeats = check.remainingSeats;
+        available = check.available;
       }
 
       slots.push({ time: timeStr, available, remainingSeats });
@@ -1131,28 +1360,23 @@ router.post("/book/:slug/reserve", async (req, res) => {
     }
 
     const businessTimezone = business.timezone || 'America/New_York';
-    const slotDuration = business.reservationSlotDurationMinutes || 90;
     const leadTimeHours = business.reservationLeadTimeHours || 2;
 
-    // Parse date/time in business timezone
-    const [year, month, day] = validatedData.date.split('-').map(Number);
-    const [hour, min] = validatedData.time.split(':').map(Number);
-
-    const startDate = createDateInTimezone(year, month - 1, day, hour, min, businessTimezone);
-    const endDate = new Date(startDate.getTime() + slotDuration * 60 * 1000);
+    // Parse date/time in business timezone; the party holds its table for its turn time
+    const floor = await loadReservationFloor(business, validatedData.date);
+    const tableCheck = await floor.check(validatedData.time, validatedData.partySize);
 
     // Verify lead time
     const now = new Date();
     const leadTimeMs = leadTimeHours * 60 * 60 * 1000;
-    if (startDate.getTime() < now.getTime() + leadTimeMs) {
+    if (tableCheck.startDate.getTime() < now.getTime() + leadTimeMs) {
       return res.status(400).json({
         error: `Reservations require at least ${leadTimeHours} hours notice.`
       });
     }
 
-    // Verify capacity is still available (race condition prevention)
-    const capacity = await storage.getReservationSlotCapacity(business.id, validatedData.date, validatedData.time, slotDuration);
-    if (capacity.remainingSeats < validatedData.partySize) {
+    // Verify a table / capacity is still available (race condition prevention)
+    if (!tableCheck.available) {
       return res.status(409).json({
         error: "Sorry, there isn't enough capacity for your party size at this time. Please choose a different time."
       });
@@ -1203,21 +1427,26 @@ router.post("/book/:slug/reserve", async (req, res) => {
       });
     }
 
-    // Create the reservation
+    // Create the reservation — the tables are checked again under the date's lock
     const manageToken = crypto.randomBytes(24).toString('hex');
-    const reservation = await storage.createRestaurantReservation({
+    const created = await createReservationSafely(business, {
       businessId: business.id,
       customerId: customer.id,
       partySize: validatedData.partySize,
       reservationDate: validatedData.date,
       reservationTime: validatedData.time,
-      startDate,
-      endDate,
       status: 'confirmed',
       specialRequests: validatedData.specialRequests || null,
       manageToken,
       source: 'online',
     });
+    if (!created.ok) {
+      return res.status(409).json({
+        error: "Sorry, there isn't enough capacity for your party size at this time. Please choose a different time."
+      });
+    }
+    const { reservation } = created;
+    const { startDate } = reservation;
 
     // Fire webhook event
     fireEvent(business.id, 'reservation.created', { reservation }).catch(err =>
@@ -1388,7 +1617,6 @@ router.post("/book/:slug/manage-reservation/:token/modify", async (req, res) =>
     }
 
     const businessTimezone = business.timezone || 'America/New_York';
-    const slotDuration = business.reservationSlotDurationMinutes || 90;
     const maxPartySize = business.reservationMaxPartySize || 10;
 
     const newPartySize = validatedData.partySize || reservation.partySize;
@@ -1403,35 +1631,26 @@ router.post("/book/:slug/manage-reservation/:token/modify", async (req, res) =>
     const dateOrTimeChanged = validatedData.date || validatedData.time;
     const partySizeChanged = validatedData.partySize && validatedData.partySize !== reservation.partySize;
 
-    let newStartDate = new Date(reservation.startDate);
-    let newEndDate = new Date(reservation.endDate);
-
-    if (dateOrTimeChanged) {
-      const [year, month, day] = newDate.split('-').map(Number);
-      const [hour, min] = newTime.split(':').map(Number);
-      newStartDate = createDateInTimezone(year, month - 1, day, hour, min, businessTimezone);
-      newEndDate = new Date(newStartDate.getTime() + slotDuration * 60 * 1000);
+    // Re-check tables / capacity (excluding this reservation) and the turn time for the new party
+    const tableCheck = (dateOrTimeChanged || partySizeChanged)
+      ? await (await loadReservationFloor(business, newDate)).check(newTime, newPartySize, { excludeReservationId: reservation.id })
+      : null;
 
+    if (dateOrTimeChanged && tableCheck) {
       // Verify lead time
       const now = new Date();
       const leadTimeMs = (business.reservationLeadTimeHours || 2) * 60 * 60 * 1000;
-      if (newStartDate.getTime() < now.getTime() + leadTimeMs) {
+      if (tableCheck.startDate.getTime() < now.getTime() + leadTimeMs) {
         return res.status(400).json({
           error: `Reservations require at least ${business.reservationLeadTimeHours || 2} hours notice.`
         });
       }
     }
 
-    // Verify capacity (exclude current reservation from the count)
-    if (dateOrTimeChanged || partySizeChanged) {
-      const capacity = await storage.getReservationSlotCapacity(business.id, newDate, newTime, slotDuration);
-      // Add back the current reservation's party size since it will be modified
-      const adjustedRemaining = capacity.remainingSeats + reservation.partySize;
-      if (adjustedRemaining < newPartySize) {
-        return res.status(409).json({
-          error: "Sorry, there isn't enough capacity for your updated party size at this time."
-        });
-      }
+    if (tableCheck && !tableCheck.available) {
+      return res.status(409).json({
+        error: "Sorry, there isn't enough capacity for your updated party size at this time."
+      });
     }
 
     const updateData: any = {};
@@ -1439,12 +1658,20 @@ router.post("/book/:slug/manage-reservation/:token/modify", async (req, res) =>
     if (validatedData.date) updateData.reservationDate = validatedData.date;
     if (validatedData.time) updateData.reservationTime = validatedData.time;
     if (validatedData.specialRequests !== undefined) updateData.specialRequests = validatedData.specialRequests;
-    if (dateOrTimeChanged) {
-      updateData.startDate = newStartDate;
-      updateData.endDate = newEndDate;
-    }
 
-    const updated = await storage.updateRestaurantReservation(reservation.id, updateData);
+    // New times and tables are checked again under the date's lock
+    let updated;
+    if (tableCheck) {
+      const moved = await updateReservationSafely(business, reservation, { date: newDate, time: newTime, partySize: newPartySize }, updateData);
+      if (!moved.ok) {
+        return res.status(409).json({
+          error: "Sorry, there isn't enough capacity for your updated party size at this time."
+        });
+      }
+      updated = moved.reservation;
+    } else {
+      updated = await storage.updateRestaurantReservation(reservation.id, updateData);
+    }
 
     fireEvent(business.id, 'reservation.updated', { reservation: updated }).catch(logAndSwallow('BookingRoutes'));
 
@@ -1477,6 +1704,354 @@ router.post("/book/:slug/manage-reservation/:token/modify", async (req, res) =>
   }
 });
 
+// ========================================
+// WAITLIST RATE LIMITS (appointment and walk-in waitlists)
+// ========================================
+
+const WAITLIST_PHONE_PATTERN = /^\+?1?\d{10,15}$/;
+
+// Joining a waitlist texts the number given — per IP, plus per phone at each
+// business so one number can't be flooded from many addresses
+const waitlistJoinLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 10,
+  message: { error: 'Too many waitlist requests, please try again later.' },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+const waitlistPhoneLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 3,
+  keyGenerator: (req) => `waitlist-phone:${req.params.slug}:${normalizePhone(String(req.body?.phone ?? ''))}`,
+  // Requests the route will reject anyway don't use up the number's allowance
+  skip: (req) => !WAITLIST_PHONE_PATTERN.test(String(req.body?.phone ?? '')),
+  message: { error: 'Too many waitlist requests for this phone number, please try again later.' },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// ========================================
+// APPOINTMENT WAITLIST (Public booking page)
+// ========================================
+
+// POST join the waitlist for an opening (public)
+router.post("/book/:slug/appointment-waitlist", waitlistJoinLimiter, waitlistPhoneLimiter, async (req, res) => {
+  try {
+    const joinSchema = z.object({
+      name: z.string().trim().min(1, "Name is required").max(100),
+      phone: z.string().min(1, "Phone number is required").regex(WAITLIST_PHONE_PATTERN, "Please enter a valid phone number"),
+      email: z.string().email().optional().or(z.literal("")),
+      serviceId: z.number().int().positive().nullable().optional(),
+      staffId: z.number().int().positive().nullable().optional(),
+      windowStart: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid date"),
+      windowEnd: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid date"),
+    });
+    const validatedData = joinSchema.parse(req.body);
+
+    const business = await storage.getBusinessByBookingSlug(req.params.slug);
+    if (!business) {
+      return res.status(404).json({ error: "Business not found" });
+    }
+
+    const result = await joinAppointmentWaitlist(business, {
+      ...validatedData,
+      email: validatedData.email || null,
+      source: "online",
+    });
+    if (!result.ok) {
+      return res.status(result.reason === "already_waiting" ? 409 : 400).json({ error: result.message });
+    }
+
+    res.status(201).json({
+      success: true,
+      message: "You're on the waitlist. We'll text you if a time opens up.",
+    });
+  } catch (error: any) {
+    console.error("Error joining appointment waitlist:", error);
+
+    if (error.name === "ZodError") {
+      return res.status(400).json({ error: "Invalid waitlist details", details: error.errors });
+    }
+
+    res.status(500).json({ error: "Failed to join waitlist" });
+  }
+});
+
+// ========================================
+// GROUP CLASSES (Public booking page)
+// ========================================
+
+// GET upcoming class sessions with spots left: ?from=YYYY-MM-DD&days=14&serviceId=
+router.get("/book/:slug/classes", async (req, res) => {
+  try {
+    const business = await storage.getBusinessByBookingSlug(req.params.slug);
+    if (!business || !business.bookingEnabled) {
+      return res.status(404).json({ error: "Business not found or booking not available" });
+    }
+
+    const timezone = business.timezone || 'America/New_York';
+    const fromParam = typeof req.query.from === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(req.query.from)
+      ? req.query.from
+      : new Date().toLocaleDateString('en-CA', { timeZone: timezone });
+    const days = Math.min(Math.max(parseInt(req.query.days as string) || 14, 1), 31);
+    const [year, month, day] = fromParam.split('-').map(Number);
+    // Never list sessions that have already started
+    const from = new Date(Math.max(createDateInTimezone(year, month - 1, day, 0, 0, timezone).getTime(), Date.now()));
+    const to = createDateInTimezone(year, month - 1, day + days - 1, 23, 59, timezone);
+
+    const availability = await getClassAvailability(business, {
+      from,
+      to,
+      serviceId: req.query.serviceId ? parseInt(req.query.serviceId as string) : undefined,
+    });
+
+    res.json({
+      sessions: availability.map(a => ({
+        id: a.session.id,
+        serviceId: a.session.serviceId,
+        serviceName: a.serviceName,
+        staffName: a.staffName,
+        startDate: a.session.startDate,
+        endDate: a.session.endDate,
+        // Local date/time, for display and the confirmation summary
+        date: new Date(a.session.startDate).toLocaleDateString('en-CA', { timeZone: timezone }),
+        time: new Date(a.session.startDate).toLocaleTimeString('en-GB', { timeZone: timezone, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' }),
+        capacity: a.session.capacity,
+        spotsLeft: a.spotsLeft,
+        waitlistCount: a.waitlistCount,
+      })),
+      timezone,
+      timezoneAbbr: getTimezoneAbbreviation(timezone, from),
+    });
+  } catch (error) {
+    console.error("Error fetching class sessions:", error);
+    res.status(500).json({ error: "Failed to fetch classes" });
+  }
+});
+
+// POST book a seat (or join the waitlist when full)
+router.post("/book/:slug/classes/:sessionId", async (req, res) => {
+  try {
+    const sessionId = parseInt(req.params.sessionId);
+    if (isNaN(sessionId)) {
+      return res.status(400).json({ error: "Invalid class" });
+    }
+
+    const classBookingSchema = z.object({
+      customer: z.object({
+        firstName: z.string().min(1, "First name is required"),
+        lastName: z.string().min(1, "Last name is required"),
+        email: z.string().email("Valid email is required"),
+        phone: z.string().min(1, "Phone number is required").regex(/^\+?1?\d{10,15}$/, "Please enter a valid phone number"),
+        smsOptIn: z.boolean().optional(),
+      }),
+    });
+    const validatedData = classBookingSchema.parse(req.body);
+
+    const business = await storage.getBusinessByBookingSlug(req.params.slug);
+    if (!business || !business.bookingEnabled) {
+      return res.status(404).json({ error: "Business not found or booking not available" });
+    }
+    const session = await storage.getClassSession(sessionId);
+    if (!session || session.businessId !== business.id) {
+      return res.status(404).json({ error: "Class not found" });
+    }
+
+    // Find or create customer
+    let customer = await storage.getCustomerByPhone(validatedData.customer.phone, business.id);
+    if (!customer) {
+      customer = await storage.createCustomer({
+        businessId: business.id,
+        firstName: validatedData.customer.firstName,
+        lastName: validatedData.customer.lastName,
+        email: validatedData.customer.email,
+        phone: validatedData.customer.phone,
+        smsOptIn: validatedData.customer.smsOptIn === true,
+        smsOptInDate: validatedData.customer.smsOptIn ? new Date() : undefined,
+        smsOptInMethod: validatedData.customer.smsOptIn ? 'booking_form' : undefined,
+      });
+      // Send TCPA welcome SMS if opted in
+      if (validatedData.customer.smsOptIn === true && customer) {
+        import('../services/notificationService').then(ns => {
+          ns.sendSmsOptInWelcome(customer!.id, business.id).catch(logAndSwallow('BookingRoutes'));
+        }).catch(logAndSwallow('BookingRoutes'));
+      }
+    } else if (validatedData.customer.smsOptIn === true && !customer.smsOptIn) {
+      customer = await storage.updateCustomer(customer.id, {
+        smsOptIn: true,
+        smsOptInDate: new Date(),
+        smsOptInMethod: 'booking_form',
+      });
+    }
+
+    const result = await bookClassSeat(sessionId, customer.id, 'online');
+    if (!result.ok) {
+      return res.status(result.reason === 'not_found' ? 404 : 409).json({ error: result.message });
+    }
+
+    const timezone = business.timezone || 'America/New_York';
+    const when = `${new Date(session.startDate).toLocaleDateString('en-US', { timeZone: timezone, weekday: 'long', month: 'long', day: 'numeric' })} at ${formatTimeWithTimezone(new Date(session.startDate), timezone)}`;
+    const waitlisted = result.booking.status === 'waitlisted';
+
+    res.status(201).json({
+      success: true,
+      booking: { id: result.booking.id, status: result.booking.status },
+      waitlistPosition: result.waitlistPosition,
+      session: { id: session.id, startDate: session.startDate, endDate: session.endDate },
+      message: waitlisted
+        ? `This class is full, so you're #${result.waitlistPosition} on the waitlist for ${when}. We'll text you if a spot opens up.`
+        : `You're booked for ${when}. See you there!`,
+    });
+  } catch (error: any) {
+    console.error("Error booking class:", error);
+
+    if (error.name === "ZodError") {
+      return res.status(400).json({ error: "Invalid booking details", details: error.errors });
+    }
+
+    res.status(500).json({ error: "Failed to book class" });
+  }
+});
+
+// ========================================
+// WALK-IN WAITLIST (Public QR page)
+// ========================================
+
+function publicWaitlistBusiness(business: Business) {
+  return {
+    name: business.name,
+    phone: business.phone,
+    address: business.address,
+    city: business.city,
+    state: business.state,
+    logoUrl: business.logoUrl,
+    brandColor: business.brandColor || null,
+    accentColor: business.accentColor || null,
+    bookingSlug: business.bookingSlug,
+  };
+}
+
+// GET current wait (public)
+router.get("/book/:slug/waitlist", async (req, res) => {
+  try {
+    const business = await storage.getBusinessByBookingSlug(req.params.slug);
+    if (!business) {
+      return res.status(404).json({ error: "Business not found" });
+    }
+
+    const queue = business.waitlistEnabled ? await getActiveWaitlist(business.id) : [];
+    res.json({
+      enabled: !!business.waitlistEnabled,
+      partiesWaiting: queue.length,
+      waitMinutes: estimateWaitMinutes(business, queue.length),
+      maxPartySize: business.reservationMaxPartySize || 10,
+      business: publicWaitlistBusiness(business),
+    });
+  } catch (error) {
+    console.error("Error fetching waitlist:", error);
+    res.status(500).json({ error: "Failed to fetch waitlist" });
+  }
+});
+
+// POST join the waitlist (public)
+router.post("/book/:slug/waitlist", waitlistJoinLimiter, waitlistPhoneLimiter, async (req, res) => {
+  try {
+    const joinSchema = z.object({
+      name: z.string().trim().min(1, "Name is required").max(100),
+      phone: z.string().min(1, "Phone number is required").regex(WAITLIST_PHONE_PATTERN, "Please enter a valid phone number"),
+      partySize: z.number().int().min(1),
+      notes: z.string().max(500).optional(),
+    });
+    const validatedData = joinSchema.parse(req.body);
+
+    const business = await storage.getBusinessByBookingSlug(req.params.slug);
+    if (!business) {
+      return res.status(404).json({ error: "Business not found" });
+    }
+
+    const result = await joinWaitlist(business, { ...validatedData, source: "online" });
+    if (!result.ok) {
+      return res.status(result.reason === "already_waiting" ? 409 : 400).json({ error: result.message });
+    }
+
+    res.status(201).json({
+      success: true,
+      manageToken: result.entry.manageToken,
+      statusUrl: `/book/${business.bookingSlug}/waitlist/${result.entry.manageToken}`,
+    });
+  } catch (error: any) {
+    console.error("Error joining waitlist:", error);
+
+    if (error.name === "ZodError") {
+      return res.status(400).json({ error: "Invalid waitlist details", details: error.errors });
+    }
+
+    res.status(500).json({ error: "Failed to join waitlist" });
+  }
+});
+
+// GET place in line by token (public)
+router.get("/book/:slug/waitlist/:token", async (req, res) => {
+  try {
+    const { slug, token } = req.params;
+
+    const business = await storage.getBusinessByBookingSlug(slug);
+    if (!business) {
+      return res.status(404).json({ error: "Business not found" });
+    }
+
+    const entry = await storage.getWaitlistEntryByManageToken(token);
+    if (!entry || entry.businessId !== business.id) {
+      return res.status(404).json({ error: "Waitlist spot not found. This link may have expired or is invalid." });
+    }
+
+    const { position, partiesAhead } = getWaitlistPosition(entry, await getActiveWaitlist(business.id));
+    res.json({
+      entry: {
+        name: entry.name,
+        partySize: entry.partySize,
+        status: entry.status,
+        quotedWaitMinutes: entry.quotedWaitMinutes,
+        joinedAt: entry.createdAt,
+        notifiedAt: entry.notifiedAt,
+        confirmedAt: entry.confirmedAt,
+      },
+      position,
+      partiesAhead,
+      business: publicWaitlistBusiness(business),
+    });
+  } catch (error) {
+    console.error("Error fetching waitlist spot:", error);
+    res.status(500).json({ error: "Failed to fetch waitlist spot" });
+  }
+});
+
+// POST leave the waitlist (public, requires manage token)
+router.post("/book/:slug/waitlist/:token/leave", async (req, res) => {
+  try {
+    const { slug, token } = req.params;
+
+    const business = await storage.getBusinessByBookingSlug(slug);
+    if (!business) {
+      return res.status(404).json({ error: "Business not found" });
+    }
+
+    const entry = await storage.getWaitlistEntryByManageToken(token);
+    if (!entry || entry.businessId !== business.id) {
+      return res.status(404).json({ error: "Waitlist spot not found" });
+    }
+
+    const result = await removeWaitlistEntry(business, entry, "cancelled");
+    if (!result.ok) {
+      return res.status(400).json({ error: result.message });
+    }
+    res.json({ success: true, message: "You've left the waitlist." });
+  } catch (error) {
+    console.error("Error leaving waitlist:", error);
+    res.status(500).json({ error: "Failed to leave waitlist" });
+  }
+});
+
 // Check if a booking slug is available (authenticated route for business settings)
 router.get("/booking-slug/check", async (req, res) => {
   try {
@@ -1534,6 +2109,23 @@ router.patch("/booking-settings", async (req, res) => {
       reservationMaxCapacityPerSlot: z.number().min(1).max(500).optional(),
       reservationLeadTimeHours: z.number().min(0).max(168).optional(),
       reservationMaxDaysAhead: z.number().min(1).max(365).optional(),
+      reservationTurnTimes: z.array(z.object({
+        maxPartySize: z.number().int().min(1).max(50),
+        minutes: z.number().int().min(15).max(480),
+      })).max(20).nullable().optional(),
+      // Walk-in waitlist
+      waitlistEnabled: z.boolean().optional(),
+      waitlistMinutesPerParty: z.number().int().min(1).max(120).optional(),
+      // Appointment waitlist
+      appointmentWaitlistEnabled: z.boolean().optional(),
+      appointmentWaitlistHoldMinutes: z.number().int().min(5).max(240).optional(),
+      // Late-cancel / no-show fees
+      cancellationFeeEnabled: z.boolean().optional(),
+      lateCancelWindowHours: z.number().int().min(1).max(168).nullable().optional(),
+      lateCancelFee: z.number().min(0).max(10000).transform((fee) => fee.toFixed(2)).optional(),
+      noShowFee: z.number().min(0).max(10000).transform((fee) => fee.toFixed(2)).optional(),
+      cancellationFeeAutoCharge: z.boolean().optional(),
+      cancellationPolicyText: z.string().max(2000).nullable().optional(),
     });
 
     const validatedData = updateSchema.parse(req.body);
@@ -1562,6 +2154,17 @@ router.patch("/booking-settings", async (req, res) => {
       reservationMaxCapacityPerSlot: updatedBusiness.reservationMaxCapacityPerSlot,
       reservationLeadTimeHours: updatedBusiness.reservationLeadTimeHours,
       reservationMaxDaysAhead: updatedBusiness.reservationMaxDaysAhead,
+      reservationTurnTimes: updatedBusiness.reservationTurnTimes,
+      waitlistEnabled: updatedBusiness.waitlistEnabled,
+      waitlistMinutesPerParty: updatedBusiness.waitlistMinutesPerParty,
+      appointmentWaitlistEnabled: updatedBusiness.appointmentWaitlistEnabled,
+      appointmentWaitlistHoldMinutes: updatedBusiness.appointmentWaitlistHoldMinutes,
+      cancellationFeeEnabled: updatedBusiness.cancellationFeeEnabled,
+      lateCancelWindowHours: updatedBusiness.lateCancelWindowHours,
+      lateCancelFee: updatedBusiness.lateCancelFee,
+      noShowFee: updatedBusiness.noShowFee,
+      cancellationFeeAutoCharge: updatedBusiness.cancellationFeeAutoCharge,
+      cancellationPolicyText: updatedBusiness.cancellationPolicyText,
     });
   } catch (error: any) {
     console.error("Error updating booking settings:", error);
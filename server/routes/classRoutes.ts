@@ -0,0 +1,334 @@
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import { storage } from "../storage";
+import { isAuthenticated } from "../auth";
+import { requireRole } from "../middleware/permissions";
+import { insertClassScheduleSchema } from "@shared/schema";
+import { createDateInTimezone } from "../utils/timezone";
+import {
+  ACTIVE_CLASS_BOOKING_STATUSES,
+  DAY_NAMES,
+  bookClassSeat,
+  cancelClassBooking,
+  cancelClassSession,
+  getClassAvailability,
+  getClassWaitlistPosition,
+  isClassService,
+  pruneScheduleSessions,
+  setClassCheckIn,
+  type ClassBookingResult,
+} from "../services/classService";
+
+const router = Router();
+
+// Helper function to get businessId from authenticated user or API key
+const getBusinessId = (req: Request): number => {
+  if (req.isAuthenticated() && req.user?.businessId) {
+    return req.user.businessId;
+  }
+  if ((req as any).apiKeyBusinessId) {
+    return (req as any).apiKeyBusinessId;
+  }
+  return 0;
+};
+
+// Helper to verify resource belongs to user's business
+const verifyBusinessOwnership = (resource: any, req: Request): boolean => {
+  if (!resource) return false;
+  const userBusinessId = getBusinessId(req);
+  return resource.businessId === userBusinessId;
+};
+
+export const CLASS_BOOKING_ERROR_STATUS: Record<Extract<ClassBookingResult, { ok: false }>["reason"], number> = {
+  not_found: 404,
+  not_available: 409,
+  started: 409,
+  already_booked: 409,
+};
+
+const timeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:MM");
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD");
+
+const classScheduleSchema = insertClassScheduleSchema.omit({ businessId: true }).extend({
+  dayOfWeek: z.enum(DAY_NAMES as [string, ...string[]]),
+  startTime: timeSchema,
+  capacity: z.number().int().min(1).max(500).nullable().optional(),
+  startsOn: dateSchema.nullable().optional(),
+  endsOn: dateSchema.nullable().optional(),
+});
+
+/** Confirms the service is one of the business's classes */
+async function loadClassService(serviceId: number, businessId: number) {
+  const service = await storage.getService(serviceId);
+  return service && service.businessId === businessId && isClassService(service) ? service : undefined;
+}
+
+// =================== CLASS SCHEDULES API ===================
+
+router.get("/class-schedules", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const schedules = await storage.getClassSchedules(getBusinessId(req));
+    res.json(schedules);
+  } catch (error) {
+    res.status(500).json({ message: "Error fetching class schedules" });
+  }
+});
+
+router.post("/class-schedules", isAuthenticated, requireRole("owner", "manager"), async (req: Request, res: Response) => {
+  try {
+    const businessId = getBusinessId(req);
+    const validatedData = classScheduleSchema.parse(req.body);
+    if (!(await loadClassService(validatedData.serviceId, businessId))) {
+      return res.status(400).json({ message: "Choose a service with a class capacity" });
+    }
+    const schedule = await storage.createClassSchedule({ ...validatedData, businessId });
+    res.status(201).json(schedule);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ errors: error.format() });
+    }
+    res.status(500).json({ message: "Error creating class schedule" });
+  }
+});
+
+router.put("/class-schedules/:id", isAuthenticated, requireRole("owner", "manager"), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid class schedule ID" });
+    }
+    const existing = await storage.getClassSchedule(id);
+    if (!existing || !verifyBusinessOwnership(existing, req)) {
+      return res.status(404).json({ message: "Class schedule not found" });
+    }
+    const validatedData = classScheduleSchema.partial().parse(req.body);
+    if (validatedData.serviceId && !(await loadClassService(validatedData.serviceId, existing.businessId))) {
+      return res.status(400).json({ message: "Choose a service with a class capacity" });
+    }
+    const schedule = await storage.updateClassSchedule(id, validatedData);
+    // Unbooked future sessions are rebuilt from the new timetable on next read
+    await pruneScheduleSessions(schedule);
+    res.json(schedule);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ errors: error.format() });
+    }
+    res.status(500).json({ message: "Error updating class schedule" });
+  }
+});
+
+router.delete("/class-schedules/:id", isAuthenticated, requireRole("owner", "manager"), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid class schedule ID" });
+    }
+    const existing = await storage.getClassSchedule(id);
+    if (!existing || !verifyBusinessOwnership(existing, req)) {
+      return res.status(404).json({ message: "Class schedule not found" });
+    }
+    await pruneScheduleSessions(existing);
+    await storage.deleteClassSchedule(id, existing.businessId);
+    res.status(204).end();
+  } catch (error) {
+    res.status(500).json({ message: "Error deleting class schedule" });
+  }
+});
+
+// =================== CLASS SESSIONS API ===================
+
+// Sessions with seat counts: ?from=YYYY-MM-DD&days=7&serviceId=
+router.get("/class-sessions", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const business = await storage.getBusiness(getBusinessId(req));
+    if (!business) {
+      return res.status(404).json({ message: "Business not found" });
+    }
+    const timezone = business.timezone || "America/New_York";
+    const fromParam = typeof req.query.from === "string" && /^\d{4}-\d{2}-\d{2}$/.test(req.query.from)
+      ? req.query.from
+      : new Date().toLocaleDateString("en-CA", { timeZone: timezone });
+    const days = Math.min(Math.max(parseInt(req.query.days as string) || 7, 1), 62);
+    const [year, month, day] = fromParam.split("-").map(Number);
+    const from = createDateInTimezone(year, month - 1, day, 0, 0, timezone);
+    const to = createDateInTimezone(year, month - 1, day + days - 1, 23, 59, timezone);
+
+    const availability = await getClassAvailability(business, {
+      from,
+      to,
+      serviceId: req.query.serviceId ? parseInt(req.query.serviceId as string) : undefined,
+    });
+    res.json(availability.map(({ session, ...counts }) => ({ ...session, ...counts })));
+  } catch (error) {
+    res.status(500).json({ message: "Error fetching class sessions" });
+  }
+});
+
+// One-off session outside the weekly timetable
+router.post("/class-sessions", isAuthenticated, requireRole("owner", "manager"), async (req: Request, res: Response) => {
+  try {
+    const validatedData = z.object({
+      serviceId: z.number().int(),
+      staffId: z.number().int().nullable().optional(),
+      date: dateSchema,
+      time: timeSchema,
+      capacity: z.number().int().min(1).max(500).optional(),
+      notes: z.string().max(500).nullable().optional(),
+    }).parse(req.body);
+
+    const business = await storage.getBusiness(getBusinessId(req));
+    if (!business) {
+      return res.status(404).json({ message: "Business not found" });
+    }
+    const service = await loadClassService(validatedData.serviceId, business.id);
+    if (!service) {
+      return res.status(400).json({ message: "Choose a service with a class capacity" });
+    }
+
+    const [year, month, day] = validatedData.date.split("-").map(Number);
+    const [hour, minute] = validatedData.time.split(":").map(Number);
+    const startDate = createDateInTimezone(year, month - 1, day, hour, minute, business.timezone || "America/New_York");
+    const session = await storage.createClassSession({
+      businessId: business.id,
+      serviceId: service.id,
+      scheduleId: null,
+      staffId: validatedData.staffId ?? null,
+      startDate,
+      endDate: new Date(startDate.getTime() + (service.duration || 60) * 60000),
+      capacity: validatedData.capacity || service.classCapacity || 1,
+      status: "scheduled",
+      notes: validatedData.notes ?? null,
+    });
+    res.status(201).json(session);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ errors: error.format() });
+    }
+    res.status(500).json({ message: "Error creating class session" });
+  }
+});
+
+router.post("/class-sessions/:id/cancel", isAuthenticated, requireRole("owner", "manager"), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid class session ID" });
+    }
+    const session = await storage.getClassSession(id);
+    if (!session || !verifyBusinessOwnership(session, req)) {
+      return res.status(404).json({ message: "Class session not found" });
+    }
+    if (session.status === "cancelled") {
+      return res.status(409).json({ message: "This class is already cancelled" });
+    }
+    res.json(await cancelClassSession(session));
+  } catch (error) {
+    res.status(500).json({ message: "Error cancelling class session" });
+  }
+});
+
+// Roster: booked attendees then the waitlist, each in join order
+router.get("/class-sessions/:id/roster", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid class session ID" });
+    }
+    const session = await storage.getClassSession(id);
+    if (!session || !verifyBusinessOwnership(session, req)) {
+      return res.status(404).json({ message: "Class session not found" });
+    }
+    const bookings = await storage.getClassBookings([id], { statuses: ACTIVE_CLASS_BOOKING_STATUSES });
+    const attendees = await Promise.all(bookings.map(async (booking) => {
+      const customer = await storage.getCustomer(booking.customerId);
+      return {
+        ...booking,
+        waitlistPosition: getClassWaitlistPosition(booking, bookings),
+        customer: customer
+          ? { id: customer.id, firstName: customer.firstName, lastName: customer.lastName, phone: customer.phone, email: customer.email }
+          : null,
+      };
+    }));
+    res.json({
+      session,
+      booked: attendees.filter(a => a.status === "booked"),
+      waitlisted: attendees.filter(a => a.status === "waitlisted"),
+    });
+  } catch (error) {
+    res.status(500).json({ message: "Error fetching class roster" });
+  }
+});
+
+// Staff adds an existing customer
+router.post("/class-sessions/:id/attendees", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid class session ID" });
+    }
+    const { customerId } = z.object({ customerId: z.number().int() }).parse(req.body);
+    const [session, customer] = await Promise.all([storage.getClassSession(id), storage.getCustomer(customerId)]);
+    if (!session || !verifyBusinessOwnership(session, req)) {
+      return res.status(404).json({ message: "Class session not found" });
+    }
+    if (!customer || !verifyBusinessOwnership(customer, req)) {
+      return res.status(404).json({ message: "Customer not found" });
+    }
+    const result = await bookClassSeat(id, customerId, "staff");
+    if (!result.ok) {
+      return res.status(CLASS_BOOKING_ERROR_STATUS[result.reason]).json({ message: result.message });
+    }
+    res.status(201).json({ ...result.booking, waitlistPosition: result.waitlistPosition });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ errors: error.format() });
+    }
+    res.status(500).json({ message: "Error adding attendee" });
+  }
+});
+
+// =================== CLASS BOOKINGS API ===================
+
+router.post("/class-bookings/:id/check-in", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid class booking ID" });
+    }
+    const { checkedIn } = z.object({ checkedIn: z.boolean().default(true) }).parse(req.body ?? {});
+    const booking = await storage.getClassBooking(id);
+    if (!booking || !verifyBusinessOwnership(booking, req)) {
+      return res.status(404).json({ message: "Class booking not found" });
+    }
+    if (booking.status !== "booked") {
+      return res.status(409).json({ message: "Only booked attendees can be checked in" });
+    }
+    res.json(await setClassCheckIn(booking, checkedIn));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ errors: error.format() });
+    }
+    res.status(500).json({ message: "Error checking in attendee" });
+  }
+});
+
+router.post("/class-bookings/:id/cancel", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid class booking ID" });
+    }
+    const booking = await storage.getClassBooking(id);
+    if (!booking || !verifyBusinessOwnership(booking, req)) {
+      return res.status(404).json({ message: "Class booking not found" });
+    }
+    if (!ACTIVE_CLASS_BOOKING_STATUSES.includes(booking.status)) {
+      return res.status(409).json({ message: "This booking is already cancelled" });
+    }
+    res.json(await cancelClassBooking(booking));
+  } catch (error) {
+    res.status(500).json({ message: "Error cancelling class booking" });
+  }
+});
+
+export default router;
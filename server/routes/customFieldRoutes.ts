@@ -0,0 +1,144 @@
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import { storage } from "../storage";
+import { isAuthenticated } from "../auth";
+import { requireRole } from "../middleware/permissions";
+import {
+  CUSTOM_FIELD_ENTITY_TYPES,
+  CUSTOM_FIELD_TYPES,
+  customFieldKeyFromLabel,
+} from "../services/customFieldService";
+
+const router = Router();
+
+// Helper function to get businessId from authenticated user or API key
+const getBusinessId = (req: Request): number => {
+  if (req.isAuthenticated() && req.user?.businessId) {
+    return req.user.businessId;
+  }
+  if ((req as any).apiKeyBusinessId) {
+    return (req as any).apiKeyBusinessId;
+  }
+  return 0;
+};
+
+// Helper to verify resource belongs to user's business
+const verifyBusinessOwnership = (resource: any, req: Request): boolean => {
+  if (!resource) return false;
+  const userBusinessId = getBusinessId(req);
+  return resource.businessId === userBusinessId;
+};
+
+const optionsSchema = z.array(z.string().trim().min(1).max(100)).max(50);
+
+// The key and type are fixed once created — stored values are keyed and shaped by them
+const customFieldDefinitionSchema = z.object({
+  entityType: z.enum(CUSTOM_FIELD_ENTITY_TYPES),
+  label: z.string().trim().min(1).max(80),
+  key: z.string().regex(/^[a-z0-9_]{1,60}$/, "Keys are lowercase letters, numbers and _").optional(),
+  fieldType: z.enum(CUSTOM_FIELD_TYPES),
+  options: optionsSchema.optional(),
+  askOnCalls: z.boolean().optional(),
+  active: z.boolean().optional(),
+  sortOrder: z.number().int().optional(),
+}).refine(field => field.fieldType !== "select" || (field.options?.length ?? 0) > 0, {
+  message: "Choice fields need at least one option",
+  path: ["options"],
+});
+
+const updateCustomFieldDefinitionSchema = z.object({
+  label: z.string().trim().min(1).max(80).optional(),
+  options: optionsSchema.optional(),
+  askOnCalls: z.boolean().optional(),
+  active: z.boolean().optional(),
+  sortOrder: z.number().int().optional(),
+});
+
+// =================== CUSTOM FIELD DEFINITIONS API ===================
+
+// ?entityType=customer|job|appointment to narrow the list
+router.get("/custom-fields", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const entityType = typeof req.query.entityType === "string" ? req.query.entityType : undefined;
+    const definitions = await storage.getCustomFieldDefinitions(getBusinessId(req), { entityType });
+    res.json(definitions);
+  } catch (error) {
+    res.status(500).json({ message: "Error fetching custom fields" });
+  }
+});
+
+router.post("/custom-fields", isAuthenticated, requireRole("owner", "manager"), async (req: Request, res: Response) => {
+  try {
+    const validatedData = customFieldDefinitionSchema.parse(req.body);
+    const businessId = getBusinessId(req);
+    const key = validatedData.key || customFieldKeyFromLabel(validatedData.label);
+    if (!key) {
+      return res.status(400).json({ message: "Give the field a label with at least one letter or number" });
+    }
+
+    const existing = await storage.getCustomFieldDefinitions(businessId, { entityType: validatedData.entityType });
+    if (existing.some(def => def.key === key)) {
+      return res.status(409).json({ message: `A ${validatedData.entityType} field with the key "${key}" already exists` });
+    }
+
+    const definition = await storage.createCustomFieldDefinition({
+      ...validatedData,
+      key,
+      options: validatedData.fieldType === "select" ? validatedData.options : [],
+      sortOrder: validatedData.sortOrder ?? existing.length,
+      businessId,
+    });
+    res.status(201).json(definition);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ errors: error.format() });
+    }
+    res.status(500).json({ message: "Error creating custom field" });
+  }
+});
+
+router.put("/custom-fields/:id", isAuthenticated, requireRole("owner", "manager"), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid custom field ID" });
+    }
+    const existing = await storage.getCustomFieldDefinition(id);
+    if (!existing || !verifyBusinessOwnership(existing, req)) {
+      return res.status(404).json({ message: "Custom field not found" });
+    }
+    const validatedData = updateCustomFieldDefinitionSchema.parse(req.body);
+    if (existing.fieldType === "select" && validatedData.options && validatedData.options.length === 0) {
+      return res.status(400).json({ message: "Choice fields need at least one option" });
+    }
+    if (existing.fieldType !== "select") {
+      delete validatedData.options;
+    }
+    const definition = await storage.updateCustomFieldDefinition(id, validatedData);
+    res.json(definition);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ errors: error.format() });
+    }
+    res.status(500).json({ message: "Error updating custom field" });
+  }
+});
+
+router.delete("/custom-fields/:id", isAuthenticated, requireRole("owner", "manager"), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid custom field ID" });
+    }
+    const existing = await storage.getCustomFieldDefinition(id);
+    if (!existing || !verifyBusinessOwnership(existing, req)) {
+      return res.status(404).json({ message: "Custom field not found" });
+    }
+    await storage.deleteCustomFieldDefinition(id, existing.businessId);
+    res.status(204).end();
+  } catch (error) {
+    res.status(500).json({ message: "Error deleting custom field" });
+  }
+});
+
+export default router;
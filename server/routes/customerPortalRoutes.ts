@@ -0,0 +1,216 @@
+import { Router, Request, Response, NextFunction } from "express";
+import rateLimit from "express-rate-limit";
+import { z } from "zod";
+import type { Business, Customer, CustomerPortalSession } from "@shared/schema";
+import { storage } from "../storage";
+import { buildInvoicePdf } from "../services/documentPdfService";
+import {
+  buildPortalAccount,
+  requestPortalCode,
+  resolvePortalSession,
+  revokePortalSession,
+  verifyPortalCode,
+  verifyPortalLink,
+} from "../services/customerPortalService";
+import { logAndSwallow } from "../utils/safeAsync";
+
+const router = Router();
+
+// Public sign-in endpoints — per IP, on top of the per-customer code cap
+const portalSignInLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 10,
+  message: { message: 'Too many sign-in attempts, please try again later.' },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+interface PortalContext {
+  session: CustomerPortalSession;
+  business: Business;
+  customer: Customer;
+}
+
+/**
+ * Resolves the `X-Portal-Token` header to a signed-in customer. The token
+ * never rides in a cookie, so these routes are exempt from the CSRF check.
+ */
+async function requirePortalSession(req: Request, res: Response, next: NextFunction) {
+  try {
+    const token = req.get("x-portal-token") || "";
+    const session = await resolvePortalSession(token);
+    if (!session) {
+      return res.status(401).json({ message: "Please sign in again" });
+    }
+    const [business, customer] = await Promise.all([
+      storage.getBusiness(session.businessId),
+      storage.getCustomer(session.customerId),
+    ]);
+    if (!business || !customer || customer.deletedAt || customer.businessId !== business.id) {
+      return res.status(401).json({ message: "Please sign in again" });
+    }
+    const portal: PortalContext = { session, business, customer };
+    res.locals.portal = portal;
+    next();
+  } catch (error) {
+    console.error("Error resolving portal session:", error);
+    res.status(500).json({ message: "Error loading your account" });
+  }
+}
+
+function portalContext(res: Response): PortalContext {
+  return res.locals.portal as PortalContext;
+}
+
+async function loadPortalBusiness(slug: string) {
+  const business = await storage.getBusinessByBookingSlug(slug);
+  return business && business.bookingEnabled ? business : undefined;
+}
+
+// =================== SIGN-IN ===================
+
+// Sends a one-time code to the phone or email on file. Answers the same
+// whether or not the contact belongs to a customer.
+router.post("/portal/account/:slug/request-code", portalSignInLimiter, async (req: Request, res: Response) => {
+  try {
+    const { contact } = z.object({ contact: z.string().min(3).max(200) }).parse(req.body);
+    const business = await loadPortalBusiness(req.params.slug);
+    if (!business) {
+      return res.status(404).json({ message: "Business not found" });
+    }
+
+    const baseUrl = process.env.APP_URL || `${req.protocol}://${req.get("host")}`;
+    await requestPortalCode(business, contact, baseUrl);
+    res.json({ message: "If that matches your account, we've sent you a sign-in code." });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ errors: error.format() });
+    }
+    console.error("Error sending portal sign-in code:", error);
+    res.status(500).json({ message: "Error sending sign-in code" });
+  }
+});
+
+// Trades a code (with the contact it was sent to) or a sign-in link for a session token
+router.post("/portal/account/:slug/verify", portalSignInLimiter, async (req: Request, res: Response) => {
+  try {
+    const body = z.union([
+      z.object({ contact: z.string().min(3).max(200), code: z.string().regex(/^\s*\d{6}\s*$/, "Enter the 6-digit code") }),
+      z.object({ link: z.string().min(16).max(200) }),
+    ]).parse(req.body);
+    const business = await loadPortalBusiness(req.params.slug);
+    if (!business) {
+      return res.status(404).json({ message: "Business not found" });
+    }
+
+    const result = "link" in body
+      ? await verifyPortalLink(business, body.link)
+      : await verifyPortalCode(business, body.contact, body.code);
+    if (!result.ok) {
+      return res.status(401).json({ message: result.message });
+    }
+    res.json({ token: result.token, expiresAt: result.session.expiresAt });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ errors: error.format() });
+    }
+    console.error("Error verifying portal sign-in:", error);
+    res.status(500).json({ message: "Error signing in" });
+  }
+});
+
+router.post("/portal/account/sign-out", requirePortalSession, async (req: Request, res: Response) => {
+  try {
+    await revokePortalSession(portalContext(res).session);
+    res.status(204).end();
+  } catch (error) {
+    res.status(500).json({ message: "Error signing out" });
+  }
+});
+
+// =================== ACCOUNT ===================
+
+router.get("/portal/account", requirePortalSession, async (req: Request, res: Response) => {
+  try {
+    const { business, customer } = portalContext(res);
+    res.json(await buildPortalAccount(business, customer));
+  } catch (error) {
+    console.error("Error loading portal account:", error);
+    res.status(500).json({ message: "Error loading your account" });
+  }
+});
+
+// Contact details and text preferences. Phone is the sign-in identity and
+// the business's record key, so changing it goes through the business.
+const portalProfileSchema = z.object({
+  firstName: z.string().trim().min(1).max(100).optional(),
+  lastName: z.string().trim().max(100).optional(),
+  email: z.string().trim().email().max(200).nullable().optional(),
+  address: z.string().trim().max(200).nullable().optional(),
+  city: z.string().trim().max(100).nullable().optional(),
+  state: z.string().trim().max(50).nullable().optional(),
+  zip: z.string().trim().max(20).nullable().optional(),
+  smsOptIn: z.boolean().optional(),
+  marketingOptIn: z.boolean().optional(),
+});
+
+router.put("/portal/account/profile", requirePortalSession, async (req: Request, res: Response) => {
+  try {
+    const { business, customer } = portalContext(res);
+    const data = portalProfileSchema.parse(req.body);
+
+    const update: Partial<Customer> = { ...data };
+    const now = new Date();
+    if (data.smsOptIn === true && !customer.smsOptIn) {
+      update.smsOptInDate = now;
+      update.smsOptInMethod = 'customer_portal';
+    }
+    if (data.marketingOptIn === true && !customer.marketingOptIn) {
+      update.marketingOptInDate = now;
+    }
+
+    await storage.updateCustomer(customer.id, update);
+    if (data.smsOptIn === true && !customer.smsOptIn) {
+      import('../services/notificationService').then(ns => {
+        ns.sendSmsOptInWelcome(customer.id, business.id).catch(logAndSwallow('CustomerPortal'));
+      }).catch(logAndSwallow('CustomerPortal'));
+    }
+
+    const updated = await storage.getCustomer(customer.id);
+    res.json(await buildPortalAccount(business, updated!));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ errors: error.format() });
+    }
+    console.error("Error updating portal profile:", error);
+    res.status(500).json({ message: "Error updating your details" });
+  }
+});
+
+// Invoice / receipt PDF for one of the customer's own invoices
+router.get("/portal/account/invoices/:id/pdf", requirePortalSession, async (req: Request, res: Response) => {
+  try {
+    const { business, customer } = portalContext(res);
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid invoice ID" });
+    }
+    const invoice = await storage.getInvoice(id);
+    if (!invoice || invoice.businessId !== business.id || invoice.customerId !== customer.id || invoice.status === 'void') {
+      return res.status(404).json({ message: "Invoice not found" });
+    }
+
+    const rendered = await buildInvoicePdf(id, business.id);
+    if (!rendered) {
+      return res.status(404).json({ message: "Invoice not found" });
+    }
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `attachment; filename="${rendered.filename}"`);
+    res.send(rendered.pdf);
+  } catch (error) {
+    console.error("Error rendering portal invoice PDF:", error);
+    res.status(500).json({ message: "Error rendering receipt" });
+  }
+});
+
+export default router;
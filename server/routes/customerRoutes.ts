@@ -8,6 +8,13 @@ import { isAuthenticated } from "../auth";
 import { logAndSwallow } from '../utils/safeAsync';
 import { toMoney } from '../utils/money';
 import { fireEvent } from '../services/webhookService';
+import {
+  buildCustomFieldSqlFilter,
+  cleanCustomFieldValues,
+  customFieldFiltersFromQuery,
+  mergeCustomFieldValues,
+  resolveCustomFieldChanges,
+} from '../services/customFieldService';
 
 const router = Router();
 
@@ -79,7 +86,7 @@ router.get("/customers/enriched", async (req, res) => {
           customer_id,
           SUM(CASE WHEN status = 'paid' THEN total ELSE 0 END) AS invoice_revenue,
           COUNT(CASE WHEN status = 'paid' THEN 1 END) AS paid_invoice_count,
-          COUNT(CASE WHEN status IN ('pending', 'overdue') THEN 1 END) AS open_invoice_count
+          COUNT(CASE WHEN status IN ('pending', 'partially_paid', 'overdue') THEN 1 END) AS open_invoice_count
         FROM invoices
         WHERE business_id = $1
         GROUP BY customer_id
@@ -128,6 +135,13 @@ router.get("/customers/enriched", async (req, res) => {
       )`;
     }
 
+    // Custom field filters: ?cf_gate_code=1234&cf_dog_name=rex
+    const customFieldFilters = customFieldFiltersFromQuery(req.query);
+    if (Object.keys(customFieldFilters).length > 0) {
+      const definitions = await storage.getCustomFieldDefinitions(businessId, { entityType: 'customer', activeOnly: true });
+      query += buildCustomFieldSqlFilter(definitions, customFieldFilters, params, 'c.custom_fields');
+    }
+
     query += ` ORDER BY c.created_at DESC`;
 
     const result = await pool.query(query, params);
@@ -187,6 +201,7 @@ router.post("/customers/import", async (req, res) => {
         phone: z.string().min(1),
         tags: z.string().optional(),
         notes: z.string().optional(),
+        customFields: z.record(z.string()).optional(), // keyed by custom field key
       })).min(1, "At least one customer is required").max(500, "Maximum 500 customers per import"),
     });
 
@@ -199,6 +214,7 @@ router.post("/customers/import", async (req, res) => {
     }
 
     const rows = parsed.data.customers;
+    const customFieldDefinitions = await storage.getCustomFieldDefinitions(businessId, { entityType: 'customer', activeOnly: true });
     let imported = 0;
     let skipped = 0;
     const errors: Array<{ row: number; reason: string }> = [];
@@ -224,6 +240,13 @@ router.post("/customers/import", async (req, res) => {
           continue;
         }
 
+        const customFields = cleanCustomFieldValues(customFieldDefinitions, row.customFields || {});
+        if (customFields.invalid.length > 0) {
+          errors.push({ row: i + 1, reason: `Invalid ${customFields.invalid.join(", ")}` });
+          skipped++;
+          continue;
+        }
+
         // Check for duplicate phone within this business
         const existing = await storage.getCustomerByPhone(row.phone, businessId);
         if (existing) {
@@ -240,6 +263,7 @@ router.post("/customers/import", async (req, res) => {
           phone: row.phone.trim(),
           notes: row.notes?.trim() || null,
           tags: row.tags?.trim() || null,
+          customFields: mergeCustomFieldValues({}, customFields.values),
         });
 
         imported++;
@@ -338,12 +362,22 @@ router.get("/customers/:id/timeline", async (req, res) => {
       [businessId, customerId, limit]
     );
 
-    const [notifications, agentActivity, smsConvos, callLogs, appointments] = await Promise.all([
+    const feesQuery = pool.query(
+      `SELECT id, type, amount, status, failure_reason, charged_at, created_at
+       FROM appointment_fees
+       WHERE business_id = $1 AND customer_id = $2
+       ORDER BY created_at DESC
+       LIMIT $3`,
+      [businessId, customerId, limit]
+    );
+
+    const [notifications, agentActivity, smsConvos, callLogs, appointments, fees] = await Promise.all([
       notificationsQuery.catch(() => ({ rows: [] })),
       agentActivityQuery.catch(() => ({ rows: [] })),
       smsConversationsQuery.catch(() => ({ rows: [] })),
       callLogsQuery.catch(() => ({ rows: [] })),
       appointmentsQuery.catch(() => ({ rows: [] })),
+      feesQuery.catch(() => ({ rows: [] })),
     ]);
 
     // Build unified timeline
@@ -436,6 +470,18 @@ router.get("/customers/:id/timeline", async (req, res) => {
       });
     }
 
+    // Late-cancel / no-show fee entries
+    for (const f of fees.rows) {
+      timeline.push({
+        type: 'fee',
+        timestamp: f.charged_at || f.created_at,
+        title: `${f.type === 'no_show' ? 'No-show' : 'Late cancellation'} fee: $${toMoney(f.amount).toFixed(2)}`,
+        details: f.status === 'failed' ? f.failure_reason : null,
+        id: f.id,
+        status: f.status,
+      });
+    }
+
     // Sort by timestamp descending, take limit
     timeline.sort((a, b) => {
       const dateA = a.timestamp ? new Date(a.timestamp).getTime() : 0;
@@ -514,11 +560,21 @@ router.post("/customers", async (req, res) => {
       smsOptInMethod: z.string().optional(),
       marketingOptIn: z.boolean().optional(),
       marketingOptInDate: z.string().optional(),
+      customFields: z.record(z.unknown()).optional(), // keyed by custom field key
     });
 
     // Validate the request body
     const validatedData = createCustomerSchema.parse(req.body);
 
+    let customFields = {};
+    if (validatedData.customFields) {
+      const resolved = await resolveCustomFieldChanges(businessId, 'customer', {}, validatedData.customFields);
+      if (!resolved.ok) {
+        return res.status(400).json({ error: `Invalid ${resolved.invalid.join(", ")}`, fields: resolved.invalid });
+      }
+      customFields = resolved.customFields;
+    }
+
     // Create the customer
     const customerData: any = {
       businessId,
@@ -532,6 +588,7 @@ router.post("/customers", async (req, res) => {
       zipcode: validatedData.zipcode || null,
       birthday: validatedData.birthday || null,
       tags: validatedData.tags ? JSON.stringify(validatedData.tags) : null,
+      customFields,
     };
 
     // Add SMS consent fields if provided
@@ -617,6 +674,7 @@ const updateCustomerHandler: import("express").RequestHandler = async (req, res)
       smsOptInMethod: z.string().optional(),
       marketingOptIn: z.boolean().optional(),
       marketingOptInDate: z.string().optional(),
+      customFields: z.record(z.unknown()).optional(), // only the keys being changed; null clears
     });
 
     // Validate the request body
@@ -624,6 +682,13 @@ const updateCustomerHandler: import("express").RequestHandler = async (req, res)
 
     // Build update data with consent timestamps
     const updateData: any = { ...validatedData };
+    if (validatedData.customFields) {
+      const resolved = await resolveCustomFieldChanges(businessId, 'customer', existingCustomer.customFields, validatedData.customFields);
+      if (!resolved.ok) {
+        return res.status(400).json({ error: `Invalid ${resolved.invalid.join(", ")}`, fields: resolved.invalid });
+      }
+      updateData.customFields = resolved.customFields;
+    }
     if (validatedData.tags) {
       updateData.tags = Array.isArray(validatedData.tags)
         ? JSON.stringify(validatedData.tags)
@@ -937,11 +1002,12 @@ router.get("/customers/:id/activity", isAuthenticated, async (req, res) => {
     }
 
     // Fetch all related data in parallel (including call logs, services, staff, and call intelligence)
-    const [customerJobs, customerInvoices, customerAppointments, customerQuotes, allCallLogs, allServices, allStaff] = await Promise.all([
+    const [customerJobs, customerInvoices, customerAppointments, customerQuotes, customerFees, allCallLogs, allServices, allStaff] = await Promise.all([
       storage.getJobs(businessId, { customerId }),
       storage.getInvoices(businessId, { customerId }),
       storage.getAppointments(businessId, { customerId }),
       storage.getAllQuotes(businessId, { customerId }),
+      storage.getAppointmentFees(businessId, { customerId }).catch(() => []),
       storage.getCallLogs(businessId).catch(() => []),
       storage.getServices(businessId).catch(() => []),
       storage.getStaff(businessId).catch(() => []),
@@ -1042,6 +1108,18 @@ router.get("/customers/:id/activity", isAuthenticated, async (req, res) => {
       });
     }
 
+    for (const fee of customerFees) {
+      timeline.push({
+        type: "fee",
+        id: fee.id,
+        title: fee.type === "no_show" ? "No-show fee" : "Late cancellation fee",
+        status: fee.status,
+        date: fee.chargedAt || fee.createdAt,
+        amount: toMoney(fee.amount),
+        summary: fee.status === "failed" ? fee.failureReason : null,
+      });
+    }
+
     for (const call of customerCallLogs) {
       const callStatus = (call as any).status || 'answered';
       const isSms = callStatus === 'sms';
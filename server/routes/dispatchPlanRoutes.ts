@@ -0,0 +1,98 @@
+/**
+ * Dispatch Day Planner Routes
+ *
+ * Mounted at /api/dispatch. Proposes optimized per-tech routes for a day,
+ * recomputes ETAs as a dispatcher drags jobs between techs, and saves the
+ * result onto the jobs. Owner/manager only; businessId always comes from the
+ * session.
+ */
+
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import { isAuthenticated } from "../auth";
+import { requireRole } from "../middleware/permissions";
+import { applyDayPlan, buildDayPlan, type DayPlanResult } from "../services/routePlanningService";
+
+const router = Router();
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD");
+
+const assignmentsSchema = z.array(z.object({
+  staffId: z.number().int().nullable(),
+  jobIds: z.array(z.number().int()).max(200),
+  optimize: z.boolean().optional(),
+})).max(100);
+
+const planRequestSchema = z.object({
+  date: dateSchema,
+  assignments: assignmentsSchema,
+});
+
+function sendPlanResult(res: Response, result: DayPlanResult) {
+  if (!result.ok) {
+    return res.status(result.reason === 'staff_conflict' ? 409 : 400).json({ error: result.message, reason: result.reason });
+  }
+  return res.json(result.plan);
+}
+
+// Proposed plan for a day. ?optimize=false shows the saved order instead.
+router.get("/plan", isAuthenticated, requireRole("owner", "manager"), async (req: Request, res: Response) => {
+  try {
+    const businessId = req.user?.businessId;
+    if (!businessId) {
+      return res.status(400).json({ error: "No business associated with your account" });
+    }
+    const date = dateSchema.safeParse(req.query.date);
+    if (!date.success) {
+      return res.status(400).json({ error: "A date (YYYY-MM-DD) is required" });
+    }
+
+    const result = await buildDayPlan(businessId, date.data, { optimize: req.query.optimize !== "false" });
+    return sendPlanResult(res, result);
+  } catch (error) {
+    console.error("Error building day plan:", error);
+    return res.status(500).json({ error: "Failed to build day plan" });
+  }
+});
+
+// Recompute routes and ETAs for a dispatcher's edited assignments — nothing is saved
+router.post("/plan/preview", isAuthenticated, requireRole("owner", "manager"), async (req: Request, res: Response) => {
+  try {
+    const businessId = req.user?.businessId;
+    if (!businessId) {
+      return res.status(400).json({ error: "No business associated with your account" });
+    }
+    const parsed = planRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid plan", details: parsed.error.errors });
+    }
+
+    const result = await buildDayPlan(businessId, parsed.data.date, { assignments: parsed.data.assignments });
+    return sendPlanResult(res, result);
+  } catch (error) {
+    console.error("Error previewing day plan:", error);
+    return res.status(500).json({ error: "Failed to preview day plan" });
+  }
+});
+
+// Save assignments and stop order onto the day's jobs
+router.post("/plan/apply", isAuthenticated, requireRole("owner", "manager"), async (req: Request, res: Response) => {
+  try {
+    const businessId = req.user?.businessId;
+    if (!businessId) {
+      return res.status(400).json({ error: "No business associated with your account" });
+    }
+    const parsed = planRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid plan", details: parsed.error.errors });
+    }
+
+    const result = await applyDayPlan(businessId, parsed.data.date, parsed.data.assignments);
+    return sendPlanResult(res, result);
+  } catch (error) {
+    console.error("Error applying day plan:", error);
+    return res.status(500).json({ error: "Failed to apply day plan" });
+  }
+});
+
+export default router;
@@ -1,9 +1,11 @@
 /**
  * CSV Export Routes
- * Allows business owners to export their customers, appointments, and invoices as CSV.
+ * Allows business owners to export their customers, appointments, invoices,
+ * credit notes and jobs as CSV.
  */
 import { Router, Request, Response } from "express";
 import { storage } from "../storage";
+import { formatCustomFieldValue, type CustomFieldEntityType } from "../services/customFieldService";
 
 const router = Router();
 
@@ -24,6 +26,16 @@ function buildCsv(headers: string[], rows: string[][]): string {
   return [headerLine, ...dataLines].join("\n");
 }
 
+/** One column per active custom field, appended after the standard columns */
+async function customFieldColumns(businessId: number, entityType: CustomFieldEntityType) {
+  const definitions = await storage.getCustomFieldDefinitions(businessId, { entityType, activeOnly: true });
+  return {
+    headers: definitions.map((def) => def.label),
+    values: (record: { customFields?: Record<string, any> | null }) =>
+      definitions.map((def) => formatCustomFieldValue(def, record.customFields?.[def.key])),
+  };
+}
+
 // ── Export Customers ──
 
 router.get("/export/customers", async (req: Request, res: Response) => {
@@ -32,10 +44,12 @@ router.get("/export/customers", async (req: Request, res: Response) => {
     if (!businessId) return res.status(401).json({ message: "Unauthorized" });
 
     const customers = await storage.getCustomers(businessId);
+    const customFields = await customFieldColumns(businessId, "customer");
 
     const headers = [
       "First Name", "Last Name", "Email", "Phone", "Address", "City",
       "State", "Zip", "Notes", "Birthday", "SMS Opt-In", "Marketing Opt-In", "Created",
+      ...customFields.headers,
     ];
 
     const rows = customers.map((c) => [
@@ -52,6 +66,7 @@ router.get("/export/customers", async (req: Request, res: Response) => {
       c.smsOptIn ? "Yes" : "No",
       c.marketingOptIn ? "Yes" : "No",
       c.createdAt ? new Date(c.createdAt).toISOString().split("T")[0] : "",
+      ...customFields.values(c),
     ]);
 
     const csv = buildCsv(headers, rows);
@@ -93,9 +108,12 @@ router.get("/export/appointments", async (req: Request, res: Response) => {
       services.forEach((s) => serviceMap.set(s.id, s));
     } catch { /* services may not exist */ }
 
+    const customFields = await customFieldColumns(businessId, "appointment");
+
     const headers = [
       "Date", "Start Time", "End Time", "Customer", "Customer Phone", "Customer Email",
       "Service", "Staff", "Status", "Notes", "Created",
+      ...customFields.headers,
     ];
 
     const rows = appointments.map((a) => {
@@ -115,6 +133,7 @@ router.get("/export/appointments", async (req: Request, res: Response) => {
         a.status || "",
         a.notes || "",
         a.createdAt ? new Date(a.createdAt).toISOString().split("T")[0] : "",
+        ...customFields.values(a),
       ];
     });
 
@@ -146,7 +165,7 @@ router.get("/export/invoices", async (req: Request, res: Response) => {
 
     const headers = [
       "Invoice #", "Customer", "Customer Email", "Customer Phone",
-      "Amount", "Tax", "Total", "Status", "Due Date", "Notes", "Created",
+      "Amount", "Tax", "Total", "Credited", "Paid", "Balance Due", "Status", "Due Date", "Notes", "Created",
     ];
 
     const rows = invoices.map((inv) => {
@@ -160,6 +179,9 @@ router.get("/export/invoices", async (req: Request, res: Response) => {
         String(inv.amount || "0"),
         String((inv as any).tax || "0"),
         String(inv.total || "0"),
+        String(inv.creditedAmount || "0"),
+        String(inv.amountPaid || "0"),
+        inv.status === "void" ? "0" : String(inv.balanceDue ?? inv.total ?? "0"),
         inv.status || "",
         inv.dueDate ? new Date(inv.dueDate).toISOString().split("T")[0] : "",
         inv.notes || "",
@@ -179,6 +201,61 @@ router.get("/export/invoices", async (req: Request, res: Response) => {
   }
 });
 
+// ── Export Credit Notes ──
+
+router.get("/export/credit-notes", async (req: Request, res: Response) => {
+  try {
+    const businessId = (req as any).user?.businessId || (req as any).apiKeyBusinessId;
+    if (!businessId) return res.status(401).json({ message: "Unauthorized" });
+
+    const creditNotes = await storage.getCreditNotes(businessId);
+
+    // Fetch invoices + customers for enrichment
+    const invoiceMap = new Map<number, any>();
+    const invoices = await storage.getInvoices(businessId);
+    invoices.forEach((inv) => invoiceMap.set(inv.id, inv));
+
+    const customerMap = new Map<number, any>();
+    const customers = await storage.getCustomers(businessId);
+    customers.forEach((c) => customerMap.set(c.id, c));
+
+    const headers = [
+      "Credit Note #", "Invoice #", "Customer", "Customer Email",
+      "Amount", "Tax", "Total", "Status", "Reason", "Created", "Voided",
+    ];
+
+    // Amounts are exported as stored (negative) so they net against invoices
+    const rows = creditNotes.map((cn) => {
+      const invoice = invoiceMap.get(cn.invoiceId);
+      const customer = customerMap.get(cn.customerId);
+
+      return [
+        cn.creditNoteNumber,
+        invoice?.invoiceNumber || "",
+        customer ? `${customer.firstName} ${customer.lastName}` : "",
+        customer?.email || "",
+        String(cn.amount || "0"),
+        String(cn.tax || "0"),
+        String(cn.total || "0"),
+        cn.status || "",
+        cn.reason || "",
+        cn.createdAt ? new Date(cn.createdAt).toISOString().split("T")[0] : "",
+        cn.voidedAt ? new Date(cn.voidedAt).toISOString().split("T")[0] : "",
+      ];
+    });
+
+    const csv = buildCsv(headers, rows);
+    const filename = `credit-notes-${new Date().toISOString().split("T")[0]}.csv`;
+
+    res.setHeader("Content-Type", "text/csv");
+    res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+    res.send(csv);
+  } catch (error) {
+    console.error("[Export] Credit note export error:", error);
+    res.status(500).json({ message: "Failed to export credit notes" });
+  }
+});
+
 // ── Export Jobs ──
 
 router.get("/export/jobs", async (req: Request, res: Response) => {
@@ -192,9 +269,12 @@ router.get("/export/jobs", async (req: Request, res: Response) => {
     const customers = await storage.getCustomers(businessId);
     customers.forEach((c) => customerMap.set(c.id, c));
 
+    const customFields = await customFieldColumns(businessId, "job");
+
     const headers = [
       "Title", "Customer", "Customer Phone", "Status", "Scheduled Date",
       "Completed Date", "Amount", "Notes", "Address", "Created",
+      ...customFields.headers,
     ];
 
     const rows = jobs.map((j) => {
@@ -211,6 +291,7 @@ router.get("/export/jobs", async (req: Request, res: Response) => {
         j.notes || "",
         (j as any).address || "",
         j.createdAt ? new Date(j.createdAt).toISOString().split("T")[0] : "",
+        ...customFields.values(j),
       ];
     });
 
@@ -17,7 +17,7 @@ import supertest from 'supertest';
 // Use vi.hoisted() so these are available inside vi.mock() factories
 // (which are themselves hoisted above the const declarations).
 
-const { mockStorage, mockDbSelect, mockDbUpdate, mockRequireGpsPlan, mockRequireGpsPlanForSettings } = vi.hoisted(() => {
+const { mockStorage, mockDbSelect, mockDbUpdate, mockRequireGpsPlan, mockRequireGpsPlanForSettings, mockProcessSessionPings } = vi.hoisted(() => {
   return {
     mockStorage: {
       getActiveSessionByStaff: vi.fn(),
@@ -40,6 +40,7 @@ const { mockStorage, mockDbSelect, mockDbUpdate, mockRequireGpsPlan, mockRequire
     mockDbUpdate: vi.fn(),
     mockRequireGpsPlan: vi.fn((_req: any, _res: any, next: any) => next()),
     mockRequireGpsPlanForSettings: vi.fn((_req: any, _res: any, next: any) => next()),
+    mockProcessSessionPings: vi.fn(),
   };
 });
 
@@ -82,6 +83,10 @@ vi.mock('../services/usageService', () => ({
   getUsageInfo: vi.fn().mockResolvedValue({ planTier: 'pro' }),
 }));
 
+vi.mock('../services/geofenceService', () => ({
+  processSessionPings: (...args: any[]) => mockProcessSessionPings(...args),
+}));
+
 vi.mock('../services/auditService', () => ({
   logAudit: vi.fn(),
   getRequestContext: () => ({ ipAddress: '1.1.1.1', userAgent: 'test' }),
@@ -122,6 +127,7 @@ beforeEach(() => {
   // Re-set plan gate to default pass-through behavior after clearAllMocks
   mockRequireGpsPlan.mockImplementation((_req: any, _res: any, next: any) => next());
   mockRequireGpsPlanForSettings.mockImplementation((_req: any, _res: any, next: any) => next());
+  mockProcessSessionPings.mockResolvedValue([]);
 });
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -408,6 +414,31 @@ describe('POST /api/gps/pings', () => {
     expect(mockStorage.createLocationPings).toHaveBeenCalledWith(1, expect.any(Array));
   });
 
+  it('returns geofence transitions evaluated against the pre-batch session', async () => {
+    stubActiveSessionForBiz1();
+    const arrivedAt = new Date();
+    mockProcessSessionPings.mockResolvedValue([
+      { jobId: 99, type: 'arrived', at: arrivedAt, confirmedAt: arrivedAt },
+    ]);
+    const r = await supertest(makeApp())
+      .post('/api/gps/pings')
+      .send({ sessionId: 7, pings: [{ lat: 40, lng: -74, recordedAt: arrivedAt.toISOString() }] });
+    expect(r.status).toBe(200);
+    expect(r.body.geofence).toEqual([expect.objectContaining({ jobId: 99, type: 'arrived' })]);
+    expect(mockProcessSessionPings).toHaveBeenCalledWith(expect.objectContaining({ id: 7, staffId: 5, jobId: 99 }));
+  });
+
+  it('still accepts pings when geofence evaluation fails', async () => {
+    stubActiveSessionForBiz1();
+    mockProcessSessionPings.mockRejectedValue(new Error('db down'));
+    const r = await supertest(makeApp())
+      .post('/api/gps/pings')
+      .send({ sessionId: 7, pings: [{ lat: 40, lng: -74, recordedAt: new Date().toISOString() }] });
+    expect(r.status).toBe(200);
+    expect(r.body.accepted).toBe(1);
+    expect(r.body.geofence).toBeUndefined();
+  });
+
   it('paused session drops pings without 410', async () => {
     mockStorage.getTrackingSession.mockResolvedValue({
       id: 7, businessId: 1, staffId: 5, status: 'paused',
@@ -607,6 +638,34 @@ describe('GET /api/gps/public/track/:token', () => {
     expect(json).not.toContain('+15551234567');  // tech phone
   });
 
+  it('reports the tech as arrived once the job is on site, with no ETA', async () => {
+    const arrivedAt = new Date(Date.now() - 5 * 60000);
+    mockStorage.getTrackingLinkByToken.mockResolvedValue({
+      id: 1, businessId: 1, jobId: 99, sessionId: 7, token: 'longtokenstringhere1234567',
+      expiresAt: new Date(Date.now() + 60000), revokedAt: null,
+    });
+    let call = 0;
+    mockDbSelect.mockImplementation(() => ({
+      from: () => ({
+        where: () => {
+          call++;
+          if (call === 1) return Promise.resolve([{ id: 1, name: 'Joe HVAC', gpsCustomerShareEnabled: true }]);
+          if (call === 2) return Promise.resolve([{ id: 99, businessId: 1, status: 'in_progress', arrivedAt, departedAt: null, customerLocationLat: 40, customerLocationLng: -74 }]);
+          return Promise.resolve([{ firstName: 'Mike', lastName: 'Smith' }]);
+        },
+      }),
+    }));
+    mockStorage.getTrackingSession.mockResolvedValue({ id: 7, businessId: 1, staffId: 5, status: 'active' });
+    mockStorage.getLatestPingByStaff.mockResolvedValue({ lat: '40.0001', lng: '-74.0', recordedAt: new Date(), isMoving: false });
+    mockStorage.incrementTrackingLinkViews.mockResolvedValue(undefined);
+
+    const r = await supertest(makeApp()).get('/api/gps/public/track/longtokenstringhere1234567');
+    expect(r.status).toBe(200);
+    expect(r.body.techArrived).toBe(true);
+    expect(r.body.arrivedAt).toBe(arrivedAt.toISOString());
+    expect(r.body.etaMinutes).toBeNull();
+  });
+
   it('rate-limited (returns 429 after burst)', async () => {
     mockStorage.getTrackingLinkByToken.mockResolvedValue(undefined);
     const app = makeApp();
@@ -644,6 +703,16 @@ describe('PUT /api/gps/settings', () => {
       .send({ gpsCustomerShareDefaultMinutes: 5 });
     expect(r.status).toBe(400);
   });
+
+  it('400 when the departure radius would be inside the saved arrival radius', async () => {
+    stubDbSelect([{ id: 1, gpsArrivalRadiusMeters: 200, gpsDepartureRadiusMeters: 400 }]);
+    const r = await supertest(makeApp())
+      .put('/api/gps/settings')
+      .send({ gpsDepartureRadiusMeters: 150 });
+    expect(r.status).toBe(400);
+    expect(r.body.error).toMatch(/Departure radius/);
+    expect(mockDbUpdate).not.toHaveBeenCalled();
+  });
 });
 
 describe('POST /api/gps/staff/:staffId/revoke-consent', () => {
@@ -37,6 +37,7 @@ import {
   DEFAULT_DISCLOSURE_COPY,
 } from "../services/gpsDisclosureService";
 import { logAudit, getRequestContext } from "../services/auditService";
+import { processSessionPings } from "../services/geofenceService";
 import { getRequestId } from "../utils/requestContext";
 
 // ─── Rate limiters ────────────────────────────────────────────────────────
@@ -526,11 +527,19 @@ export function registerGpsTrackingRoutes(app: Express) {
       const latestRecordedAt = accepted.reduce((max, p) => p.recordedAt > max ? p.recordedAt : max, accepted[0].recordedAt);
       await storage.updateSessionPingMeta(sessionId, businessId, latestRecordedAt, inserted);
 
+      // Geofence: arrival moves en_route → in_progress, departure prompts
+      // completion. Never fails the ingest — pings are already stored.
+      const geofence = await processSessionPings(session).catch((err) => {
+        console.error('[GPS] geofence evaluation error:', err);
+        return [];
+      });
+
       res.json({
         accepted: inserted,
         rejected: rejected.length,
         sessionStillActive: true,
         details: rejected.length > 0 ? rejected : undefined,
+        geofence: geofence.length > 0 ? geofence : undefined,
       });
     } catch (err) {
       console.error('[GPS] /pings error:', err);
@@ -773,8 +782,13 @@ export function registerGpsTrackingRoutes(app: Express) {
 
       // Compute ETA — haversine from latest ping to job's customerLocationLat/Lng,
       // assume 30mph (13.4m/s) average speed if no speed available.
+      // Arrived = geofence (or the tech) stamped arrival and they haven't left
+      const techArrived = job.status === 'in_progress' && !!job.arrivedAt && !job.departedAt;
+
       let etaMinutes: number | null = null;
-      if (latestPing && job.customerLocationLat && job.customerLocationLng) {
+      if (techArrived) {
+        etaMinutes = null;
+      } else if (latestPing && job.customerLocationLat && job.customerLocationLng) {
         const distMeters = haversineMeters(
           latestPing.lat, latestPing.lng,
           job.customerLocationLat, job.customerLocationLng
@@ -797,6 +811,8 @@ export function registerGpsTrackingRoutes(app: Express) {
         businessPhone: business.phone || null,
         tech,
         jobStatus: job.status,
+        techArrived,
+        arrivedAt: techArrived ? job.arrivedAt : null,
         etaMinutes,
         latestPing,
         sessionStatus: session?.status ?? 'ended',
@@ -867,6 +883,10 @@ export function registerGpsTrackingRoutes(app: Express) {
           gpsCustomerShareEnabled: business.gpsCustomerShareEnabled,
           gpsCustomerShareMode: (business as any).gpsCustomerShareMode || 'auto',
           gpsCustomerShareDefaultMinutes: business.gpsCustomerShareDefaultMinutes ?? 240,
+          gpsGeofenceEnabled: business.gpsGeofenceEnabled,
+          gpsArrivalRadiusMeters: business.gpsArrivalRadiusMeters,
+          gpsDepartureRadiusMeters: business.gpsDepartureRadiusMeters,
+          gpsGeofenceConfirmPings: business.gpsGeofenceConfirmPings,
         },
         planTier: usage.planTier || null,
         maxRetentionHours,
@@ -884,10 +904,14 @@ export function registerGpsTrackingRoutes(app: Express) {
     gpsCustomerShareEnabled: z.boolean().optional(),
     gpsCustomerShareMode: z.enum(['auto', 'manual', 'off']).optional(),
     gpsCustomerShareDefaultMinutes: z.number().int().min(15).max(1440).optional(),
+    gpsGeofenceEnabled: z.boolean().optional(),
+    gpsArrivalRadiusMeters: z.number().int().min(25).max(2000).optional(),
+    gpsDepartureRadiusMeters: z.number().int().min(25).max(5000).optional(),
+    gpsGeofenceConfirmPings: z.number().int().min(1).max(10).optional(),
   });
 
   /**
-   * PUT /api/gps/settings — Owner updates GPS config (toggle, retention, share defaults).
+   * PUT /api/gps/settings — Owner updates GPS config (toggle, retention, share defaults, geofence thresholds).
    * Disclosure copy bumps go through a SEPARATE endpoint to make version-bump intent explicit.
    */
   router.put('/settings', isAuthenticated, requireEmailVerified, requireGpsPlanForSettings, async (req, res) => {
@@ -916,12 +940,28 @@ export function registerGpsTrackingRoutes(app: Express) {
       const retentionChanged = parsed.data.gpsRetentionHours !== undefined
         && before?.gpsRetentionHours !== parsed.data.gpsRetentionHours;
 
+      // Departure radius can't be inside the arrival radius — compare against
+      // the saved value for whichever one isn't being changed
+      const arrivalRadius = parsed.data.gpsArrivalRadiusMeters ?? before?.gpsArrivalRadiusMeters ?? 150;
+      const departureRadius = parsed.data.gpsDepartureRadiusMeters ?? before?.gpsDepartureRadiusMeters ?? 300;
+      if (departureRadius < arrivalRadius) {
+        return res.status(400).json({
+          error: 'Departure radius must be at least the arrival radius',
+          arrivalRadiusMeters: arrivalRadius,
+          departureRadiusMeters: departureRadius,
+        });
+      }
+
       const updateFields: any = { updatedAt: new Date() };
       if (parsed.data.gpsTrackingEnabled !== undefined) updateFields.gpsTrackingEnabled = parsed.data.gpsTrackingEnabled;
       if (parsed.data.gpsRetentionHours !== undefined) updateFields.gpsRetentionHours = parsed.data.gpsRetentionHours;
       if (parsed.data.gpsCustomerShareEnabled !== undefined) updateFields.gpsCustomerShareEnabled = parsed.data.gpsCustomerShareEnabled;
       if (parsed.data.gpsCustomerShareMode !== undefined) updateFields.gpsCustomerShareMode = parsed.data.gpsCustomerShareMode;
       if (parsed.data.gpsCustomerShareDefaultMinutes !== undefined) updateFields.gpsCustomerShareDefaultMinutes = parsed.data.gpsCustomerShareDefaultMinutes;
+      if (parsed.data.gpsGeofenceEnabled !== undefined) updateFields.gpsGeofenceEnabled = parsed.data.gpsGeofenceEnabled;
+      if (parsed.data.gpsArrivalRadiusMeters !== undefined) updateFields.gpsArrivalRadiusMeters = parsed.data.gpsArrivalRadiusMeters;
+      if (parsed.data.gpsDepartureRadiusMeters !== undefined) updateFields.gpsDepartureRadiusMeters = parsed.data.gpsDepartureRadiusMeters;
+      if (parsed.data.gpsGeofenceConfirmPings !== undefined) updateFields.gpsGeofenceConfirmPings = parsed.data.gpsGeofenceConfirmPings;
 
       await db.update(businesses).set(updateFields).where(eq(businesses.id, businessId));
 
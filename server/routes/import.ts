@@ -2,6 +2,11 @@ import { Request, Response } from "express";
 import { z } from "zod";
 import { insertCustomerSchema, insertServiceSchema, insertAppointmentSchema } from "@shared/schema";
 import { storage } from "../storage";
+import {
+  cleanCustomFieldValues,
+  customFieldValuesFromColumns,
+  mergeCustomFieldValues,
+} from "../services/customFieldService";
 
 // Base validators for import data
 const customerImportSchema = z.object({
@@ -56,6 +61,9 @@ export async function importCustomers(req: Request, res: Response) {
       failed: 0,
       errors: [] as string[]
     };
+
+    // Extra columns named after a custom field's key or label fill that field
+    const customFieldDefinitions = await storage.getCustomFieldDefinitions(businessId, { entityType: 'customer', activeOnly: true });
     
     // Process each customer record
     for (let i = 0; i < data.length; i++) {
@@ -71,6 +79,13 @@ export async function importCustomers(req: Request, res: Response) {
           results.errors.push(`Row ${i + 1}: Missing last name`);
           continue;
         }
+
+        const customFields = cleanCustomFieldValues(customFieldDefinitions, customFieldValuesFromColumns(customFieldDefinitions, record));
+        if (customFields.invalid.length > 0) {
+          results.failed++;
+          results.errors.push(`Row ${i + 1}: Invalid ${customFields.invalid.join(", ")}`);
+          continue;
+        }
         
         // Create a customer object
         const customer = {
@@ -84,6 +99,7 @@ export async function importCustomers(req: Request, res: Response) {
           state: validRecord.state || null,
           zipCode: validRecord.zipCode || null,
           notes: validRecord.notes || null,
+          customFields: mergeCustomFieldValues({}, customFields.values),
           active: true
         };
         
@@ -234,6 +250,7 @@ export async function importAppointments(req: Request, res: Response) {
     // Get all customers and services for lookup
     const customers = await storage.getCustomers(businessId);
     const services = await storage.getServices(businessId);
+    const customFieldDefinitions = await storage.getCustomFieldDefinitions(businessId, { entityType: 'appointment', activeOnly: true });
     
     // Process each appointment record
     for (let i = 0; i < data.length; i++) {
@@ -249,6 +266,13 @@ export async function importAppointments(req: Request, res: Response) {
           results.errors.push(`Row ${i + 1}: Missing or invalid start date`);
           continue;
         }
+
+        const customFields = cleanCustomFieldValues(customFieldDefinitions, customFieldValuesFromColumns(customFieldDefinitions, record));
+        if (customFields.invalid.length > 0) {
+          results.failed++;
+          results.errors.push(`Row ${i + 1}: Invalid ${customFields.invalid.join(", ")}`);
+          continue;
+        }
         
         // Find or create customer
         let customerId = null;
@@ -348,6 +372,7 @@ export async function importAppointments(req: Request, res: Response) {
           endDate,
           notes: validRecord.notes || null,
           status: validRecord.status || 'scheduled',
+          customFields: mergeCustomFieldValues({}, customFields.values),
           allDay: false,
           recurringAppointmentId: null
         };
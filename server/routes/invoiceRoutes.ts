@@ -10,7 +10,17 @@ import { isAuthenticated, ApiKeyRequest } from "../auth";
 import notificationService from "../services/notificationService";
 import { fireEvent } from "../services/webhookService";
 import { stripeConnectService } from "../services/stripeConnectService";
-import { toMoney, coerceMoneyFields } from "../utils/money";
+import {
+  recordInvoicePayment,
+  refundPayment,
+  recalculateInvoiceBalance,
+  getBalanceDue,
+  getPaymentBounds,
+} from "../services/invoicePaymentService";
+import { issueCreditNote, voidCreditNote, voidInvoice } from "../services/creditNoteService";
+import { logAudit, getRequestContext } from "../services/auditService";
+import { buildCreditNotePdf, buildInvoicePdf } from "../services/documentPdfService";
+import { toMoney, roundMoney, coerceMoneyFields } from "../utils/money";
 
 const router = Router();
 
@@ -37,6 +47,16 @@ const verifyBusinessOwnership = (resource: { businessId: number } | null | undef
   return resource.businessId === userBusinessId;
 };
 
+// Running totals are owned by the payments ledger, never set directly;
+// voiding goes through POST /invoices/:id/void so it lands in the audit log
+const invoiceInputSchema = insertInvoiceSchema.omit({
+  amountPaid: true,
+  balanceDue: true,
+  creditedAmount: true,
+  voidedAt: true,
+  voidReason: true,
+});
+
 // =================== INVOICES API ===================
 router.get("/invoices", isAuthenticated, async (req: Request, res: Response) => {
   try {
@@ -110,10 +130,30 @@ router.get("/invoices/:id", isAuthenticated, async (req: Request, res: Response)
   }
 });
 
+router.get("/invoices/:id/pdf", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid invoice ID" });
+    }
+    const rendered = await buildInvoicePdf(id, getBusinessId(req));
+    if (!rendered) {
+      return res.status(404).json({ message: "Invoice not found" });
+    }
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `attachment; filename="${rendered.filename}"`);
+    res.send(rendered.pdf);
+  } catch (error) {
+    console.error("Error rendering invoice PDF:", error);
+    res.status(500).json({ message: "Error rendering invoice PDF" });
+  }
+});
+
 router.post("/invoices", isAuthenticated, async (req: Request, res: Response) => {
   try {
     const businessId = getBusinessId(req);
-    const validatedData = insertInvoiceSchema.parse(coerceMoneyFields({ ...req.body, businessId }));
+    const validatedData = invoiceInputSchema.parse(coerceMoneyFields({ ...req.body, businessId }));
     const invoice = await storage.createInvoice(validatedData);
 
     // Handle invoice items if provided
@@ -155,8 +195,35 @@ router.put("/invoices/:id", isAuthenticated, async (req: Request, res: Response)
     if (!existing || !verifyBusinessOwnership(existing, req)) {
       return res.status(404).json({ message: "Invoice not found" });
     }
-    const validatedData = insertInvoiceSchema.partial().parse(req.body);
-    const invoice = await storage.updateInvoice(id, validatedData);
+    if (existing.status === 'void') {
+      return res.status(409).json({ message: "Voided invoices cannot be edited" });
+    }
+    const validatedData = invoiceInputSchema.partial().parse(coerceMoneyFields(req.body));
+    if (validatedData.status === 'void') {
+      return res.status(400).json({ message: "Use the void action to void an invoice" });
+    }
+    let invoice = await storage.updateInvoice(id, validatedData);
+
+    // Keep the ledger in step with manual edits: marking paid records the
+    // outstanding balance as a manual payment; a new total re-derives the balance.
+    try {
+      const markedPaid = validatedData.status === 'paid' && existing.status !== 'paid';
+      const outstanding = getBalanceDue(existing);
+      if (markedPaid && outstanding > 0) {
+        const result = await recordInvoicePayment({
+          invoice,
+          amount: outstanding,
+          method: 'manual',
+          notes: 'Marked as paid',
+          recordedByUserId: req.user?.id ?? null,
+        });
+        invoice = result.invoice;
+      } else if (validatedData.total !== undefined) {
+        invoice = (await recalculateInvoiceBalance(id))?.invoice ?? invoice;
+      }
+    } catch (ledgerErr) {
+      console.error(`Error syncing payment ledger for invoice ${id}:`, ledgerErr);
+    }
 
     // Queue payment confirmation + orchestration (reliable retry via pg-boss)
     if (validatedData.status === 'paid' && existing.status !== 'paid') {
@@ -190,6 +257,18 @@ router.delete("/invoices/:id", isAuthenticated, async (req: Request, res: Respon
       return res.status(404).json({ message: "Invoice not found" });
     }
 
+    // Anything with money or credits against it is part of the books —
+    // deleting would orphan ledger rows and leave a hole in the numbering.
+    const hasHistory = toMoney(existing.amountPaid) > 0
+      || toMoney(existing.creditedAmount) > 0
+      || !!existing.voidedAt
+      || ['paid', 'partially_paid', 'credited', 'void'].includes(existing.status || '');
+    if (hasHistory) {
+      return res.status(409).json({
+        message: "This invoice has payments or credits on record. Void it or issue a credit note instead.",
+      });
+    }
+
     // Delete all invoice items first
     const items = await storage.getInvoiceItems(id);
     for (const item of items) {
@@ -198,12 +277,333 @@ router.delete("/invoices/:id", isAuthenticated, async (req: Request, res: Respon
 
     // Then delete the invoice
     await storage.deleteInvoice(id, existing.businessId);
+
+    await logAudit({
+      userId: req.user?.id ?? null,
+      businessId: existing.businessId,
+      action: 'invoice_deleted',
+      resource: 'invoice',
+      resourceId: id,
+      details: { invoiceNumber: existing.invoiceNumber, total: existing.total },
+      ...getRequestContext(req),
+    });
+
     res.status(204).end();
   } catch (error) {
     res.status(500).json({ message: "Error deleting invoice" });
   }
 });
 
+// =================== PAYMENTS LEDGER ===================
+// Payment history for an invoice, newest first, with refunds and running totals
+router.get("/invoices/:id/payments", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid invoice ID" });
+    }
+    const invoice = await storage.getInvoice(id);
+    if (!invoice || !verifyBusinessOwnership(invoice, req)) {
+      return res.status(404).json({ message: "Invoice not found" });
+    }
+
+    const [payments, refunds] = await Promise.all([
+      storage.getPaymentsByInvoice(id, invoice.businessId),
+      storage.getRefundsByInvoice(id, invoice.businessId),
+    ]);
+
+    res.json({
+      amountPaid: toMoney(invoice.amountPaid),
+      balanceDue: getBalanceDue(invoice),
+      payments,
+      refunds,
+    });
+  } catch (error) {
+    console.error("Error fetching invoice payments:", error);
+    res.status(500).json({ message: "Error fetching payments" });
+  }
+});
+
+const recordPaymentSchema = z.object({
+  amount: z.coerce.number().positive(),
+  // Stripe payments only ever arrive through the webhook
+  method: z.enum(["cash", "check", "manual"]),
+  reference: z.string().max(100).optional().nullable(),
+  notes: z.string().max(1000).optional().nullable(),
+  paidAt: z.coerce.date().optional(),
+});
+
+// Record an offline (cash / check / manual) payment against an invoice
+router.post("/invoices/:id/payments", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid invoice ID" });
+    }
+    const invoice = await storage.getInvoice(id);
+    if (!invoice || !verifyBusinessOwnership(invoice, req)) {
+      return res.status(404).json({ message: "Invoice not found" });
+    }
+
+    const data = recordPaymentSchema.parse(req.body);
+    const amount = roundMoney(data.amount);
+    const balanceDue = getBalanceDue(invoice);
+    if (Math.round(amount * 100) > Math.round(balanceDue * 100)) {
+      return res.status(400).json({ message: `Payment exceeds the balance due of $${balanceDue.toFixed(2)}` });
+    }
+
+    const result = await recordInvoicePayment({
+      invoice,
+      amount,
+      method: data.method,
+      reference: data.reference,
+      notes: data.notes,
+      paidAt: data.paidAt,
+      recordedByUserId: req.user?.id ?? null,
+    });
+
+    if (result.becamePaid) {
+      const { enqueue } = await import('../services/jobQueue');
+      await enqueue('send-payment-confirmation', { invoiceId: invoice.id, businessId: invoice.businessId });
+      await enqueue('fire-webhook-event', { businessId: invoice.businessId, event: 'invoice.paid', payload: { invoice: result.invoice } });
+      await enqueue('dispatch-orchestration-event', {
+        eventType: 'invoice.paid',
+        businessId: invoice.businessId,
+        customerId: invoice.customerId || undefined,
+      });
+    }
+
+    res.status(201).json({ payment: result.payment, invoice: result.invoice });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ errors: error.format() });
+    }
+    console.error("Error recording invoice payment:", error);
+    res.status(500).json({ message: "Error recording payment" });
+  }
+});
+
+const refundSchema = z.object({
+  amount: z.coerce.number().positive(),
+  reason: z.string().max(500).optional().nullable(),
+});
+
+// Refund part or all of a payment. Stripe payments are refunded through Connect.
+router.post("/invoices/:id/payments/:paymentId/refund", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const paymentId = parseInt(req.params.paymentId);
+    if (isNaN(id) || isNaN(paymentId)) {
+      return res.status(400).json({ message: "Invalid invoice or payment ID" });
+    }
+    const invoice = await storage.getInvoice(id);
+    if (!invoice || !verifyBusinessOwnership(invoice, req)) {
+      return res.status(404).json({ message: "Invoice not found" });
+    }
+    const payment = await storage.getPayment(paymentId, invoice.businessId);
+    if (!payment || payment.invoiceId !== invoice.id) {
+      return res.status(404).json({ message: "Payment not found" });
+    }
+
+    const data = refundSchema.parse(req.body);
+    const result = await refundPayment({
+      payment,
+      amount: data.amount,
+      reason: data.reason,
+      createdByUserId: req.user?.id ?? null,
+    });
+    if (!result.ok) {
+      return res.status(result.reason === 'payment_not_found' ? 404 : 400).json({ message: result.message });
+    }
+
+    res.json({ payment: result.payment, invoice: result.balance?.invoice ?? invoice });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ errors: error.format() });
+    }
+    console.error("Error refunding payment:", error);
+    // Stripe rejections (already refunded, disputed, etc.) carry a usable message
+    if (error?.type?.startsWith?.('Stripe')) {
+      return res.status(502).json({ message: error.message || "Stripe rejected the refund" });
+    }
+    res.status(500).json({ message: "Error refunding payment" });
+  }
+});
+
+// =================== VOID & CREDIT NOTES ===================
+// Void an invoice instead of deleting it — keeps the number and the record
+router.post("/invoices/:id/void", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid invoice ID" });
+    }
+    const invoice = await storage.getInvoice(id);
+    if (!invoice || !verifyBusinessOwnership(invoice, req)) {
+      return res.status(404).json({ message: "Invoice not found" });
+    }
+
+    const { reason } = z.object({ reason: z.string().max(500).optional().nullable() }).parse(req.body ?? {});
+    const result = await voidInvoice({
+      invoice,
+      reason,
+      actor: { userId: req.user?.id ?? null, ...getRequestContext(req) },
+    });
+    if (!result.ok) {
+      return res.status(409).json({ message: result.message });
+    }
+
+    fireEvent(invoice.businessId, 'invoice.voided', { invoice: result.record })
+      .catch(err => console.error('Webhook fire error:', err));
+
+    res.json(result.record);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ errors: error.format() });
+    }
+    console.error("Error voiding invoice:", error);
+    res.status(500).json({ message: "Error voiding invoice" });
+  }
+});
+
+// Credit notes issued against an invoice, with their line items
+router.get("/invoices/:id/credit-notes", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid invoice ID" });
+    }
+    const invoice = await storage.getInvoice(id);
+    if (!invoice || !verifyBusinessOwnership(invoice, req)) {
+      return res.status(404).json({ message: "Invoice not found" });
+    }
+
+    const notes = await storage.getCreditNotesByInvoice(invoice.id, invoice.businessId);
+    const items = await storage.getCreditNoteItems(notes.map((n) => n.id));
+    res.json(notes.map((note) => ({
+      ...note,
+      items: items.filter((item) => item.creditNoteId === note.id),
+    })));
+  } catch (error) {
+    console.error("Error fetching credit notes:", error);
+    res.status(500).json({ message: "Error fetching credit notes" });
+  }
+});
+
+const creditNoteInputSchema = z.object({
+  reason: z.string().max(1000).optional().nullable(),
+  tax: z.coerce.number().min(0).optional(),
+  items: z.array(z.object({
+    invoiceItemId: z.number().int().optional().nullable(),
+    description: z.string().min(1).max(500),
+    quantity: z.coerce.number().int().positive().default(1),
+    unitPrice: z.coerce.number().positive(), // Amount credited per unit, as a positive number
+  })).min(1),
+});
+
+router.post("/invoices/:id/credit-notes", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid invoice ID" });
+    }
+    const invoice = await storage.getInvoice(id);
+    if (!invoice || !verifyBusinessOwnership(invoice, req)) {
+      return res.status(404).json({ message: "Invoice not found" });
+    }
+
+    const data = creditNoteInputSchema.parse(req.body);
+    const result = await issueCreditNote({
+      invoice,
+      lines: data.items,
+      tax: data.tax,
+      reason: data.reason,
+      actor: { userId: req.user?.id ?? null, ...getRequestContext(req) },
+    });
+    if (!result.ok) {
+      return res.status(result.reason === 'exceeds_invoice' || result.reason === 'invoice_void' ? 409 : 400)
+        .json({ message: result.message });
+    }
+
+    fireEvent(invoice.businessId, 'credit_note.issued', { creditNote: result.creditNote, items: result.items })
+      .catch(err => console.error('Webhook fire error:', err));
+
+    res.status(201).json({
+      ...result.creditNote,
+      items: result.items,
+      invoice: result.balance?.invoice ?? invoice,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ errors: error.format() });
+    }
+    console.error("Error issuing credit note:", error);
+    res.status(500).json({ message: "Error issuing credit note" });
+  }
+});
+
+router.get("/credit-notes", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const businessId = getBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ message: "No business associated with user" });
+    }
+    res.json(await storage.getCreditNotes(businessId));
+  } catch (error) {
+    console.error("Error fetching credit notes:", error);
+    res.status(500).json({ message: "Error fetching credit notes" });
+  }
+});
+
+router.get("/credit-notes/:id/pdf", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid credit note ID" });
+    }
+    const rendered = await buildCreditNotePdf(id, getBusinessId(req));
+    if (!rendered) {
+      return res.status(404).json({ message: "Credit note not found" });
+    }
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `attachment; filename="${rendered.filename}"`);
+    res.send(rendered.pdf);
+  } catch (error) {
+    console.error("Error rendering credit note PDF:", error);
+    res.status(500).json({ message: "Error rendering credit note PDF" });
+  }
+});
+
+router.post("/credit-notes/:id/void", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid credit note ID" });
+    }
+    const creditNote = await storage.getCreditNote(id, getBusinessId(req));
+    if (!creditNote) {
+      return res.status(404).json({ message: "Credit note not found" });
+    }
+
+    const result = await voidCreditNote({
+      creditNote,
+      actor: { userId: req.user?.id ?? null, ...getRequestContext(req) },
+    });
+    if (!result.ok) {
+      return res.status(409).json({ message: result.message });
+    }
+
+    fireEvent(creditNote.businessId, 'credit_note.voided', { creditNote: result.record })
+      .catch(err => console.error('Webhook fire error:', err));
+
+    res.json(result.record);
+  } catch (error) {
+    console.error("Error voiding credit note:", error);
+    res.status(500).json({ message: "Error voiding credit note" });
+  }
+});
+
 // =================== CUSTOMER PORTAL API (Public) ===================
 // Generate access token for an invoice
 router.post("/invoices/:id/generate-link", isAuthenticated, async (req: Request, res: Response) => {
@@ -278,6 +678,7 @@ router.get("/portal/invoice/:token", async (req: Request, res: Response) => {
 
     // Check if business has Stripe Connect active (for payment gating)
     const paymentsEnabled = business?.stripeConnectStatus === 'active';
+    const bounds = getPaymentBounds(invoice);
 
     // Return invoice data (without sensitive business info)
     res.json({
@@ -290,6 +691,10 @@ router.get("/portal/invoice/:token", async (req: Request, res: Response) => {
       status: invoice.status,
       notes: invoice.notes,
       createdAt: invoice.createdAt,
+      amountPaid: toMoney(invoice.amountPaid),
+      creditedAmount: toMoney(invoice.creditedAmount),
+      balanceDue: bounds.maximum,
+      minimumPayment: bounds.minimum,
       paymentsEnabled,
       customer: customer ? {
         firstName: customer.firstName,
@@ -328,15 +733,32 @@ router.post("/portal/invoice/:token/pay", async (req: Request, res: Response) =>
       return res.status(410).json({ message: "This invoice link has expired. Please contact the business for a new link." });
     }
 
-    if (invoice.status === 'paid') {
+    if (invoice.status === 'void') {
+      return res.status(400).json({ message: "This invoice has been voided" });
+    }
+
+    const { minimum, maximum } = getPaymentBounds(invoice);
+    if (invoice.status === 'paid' || maximum <= 0) {
       return res.status(400).json({ message: "Invoice already paid" });
     }
 
+    // Customers may pay any amount between the invoice minimum and the
+    // balance; omitting the amount pays the balance in full.
+    const amount = req.body?.amount !== undefined ? roundMoney(toMoney(req.body.amount)) : maximum;
+    const amountCents = Math.round(amount * 100);
+    if (!Number.isFinite(amount) || amountCents < Math.round(minimum * 100) || amountCents > Math.round(maximum * 100)) {
+      return res.status(400).json({
+        message: minimum === maximum
+          ? `Payment must be $${maximum.toFixed(2)}`
+          : `Payment must be between $${minimum.toFixed(2)} and $${maximum.toFixed(2)}`,
+      });
+    }
+
     const customer = await storage.getCustomer(invoice.customerId);
 
     // Use Stripe Connect service — will REJECT if business has no Connect account
     const result = await stripeConnectService.createPaymentIntentForInvoice({
-      amount: toMoney(invoice.total),
+      amount,
       businessId: invoice.businessId,
       invoiceId: invoice.id,
       invoiceNumber: invoice.invoiceNumber,
@@ -0,0 +1,245 @@
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import multer from "multer";
+import { storage } from "../storage";
+import { isAuthenticated } from "../auth";
+import { requireRole } from "../middleware/permissions";
+import { uploadBufferToS3, isS3Configured } from "../utils/s3Upload";
+import {
+  getJobFormsForJob,
+  installStarterTemplates,
+  jobFormPhotoKey,
+  saveJobFormAnswers,
+  type JobFormSaveResult,
+} from "../services/jobFormService";
+import { hasUpdateConflict, readBaseUpdatedAt } from "../services/offlineSyncService";
+import { offlineReplay } from "../middleware/offlineReplay";
+
+// Photo answers on a form (5MB max, images only), same limits as job photos
+const photoUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 5 * 1024 * 1024 },
+  fileFilter: (_req, file, cb) => {
+    if (file.mimetype.startsWith("image/")) cb(null, true);
+    else cb(new Error("Only image files allowed"));
+  },
+});
+
+const router = Router();
+
+// Helper function to get businessId from authenticated user or API key
+const getBusinessId = (req: Request): number => {
+  if (req.isAuthenticated() && req.user?.businessId) {
+    return req.user.businessId;
+  }
+  if ((req as any).apiKeyBusinessId) {
+    return (req as any).apiKeyBusinessId;
+  }
+  return 0;
+};
+
+// Helper to verify resource belongs to user's business
+const verifyBusinessOwnership = (resource: any, req: Request): boolean => {
+  if (!resource) return false;
+  const userBusinessId = getBusinessId(req);
+  return resource.businessId === userBusinessId;
+};
+
+export const JOB_FORM_ERROR_STATUS: Record<Extract<JobFormSaveResult, { ok: false }>["reason"], number> = {
+  locked: 409,
+  invalid: 400,
+  incomplete: 400,
+};
+
+const jobFormFieldSchema = z.object({
+  id: z.string().regex(/^[a-z0-9_-]{1,60}$/i, "Field ids are letters, numbers, - and _"),
+  label: z.string().trim().min(1).max(200),
+  type: z.enum(["checkbox", "reading", "text", "select", "photo", "signature"]),
+  required: z.boolean().optional(),
+  unit: z.string().max(20).nullable().optional(),
+  min: z.number().nullable().optional(),
+  max: z.number().nullable().optional(),
+  options: z.array(z.string().trim().min(1).max(100)).max(30).nullable().optional(),
+}).refine(field => field.type !== "select" || (field.options?.length ?? 0) > 0, {
+  message: "Choice fields need at least one option",
+  path: ["options"],
+});
+
+const jobFormTemplateSchema = z.object({
+  name: z.string().trim().min(1).max(120),
+  description: z.string().max(500).nullable().optional(),
+  serviceIds: z.array(z.number().int()).max(200).optional(),
+  fields: z.array(jobFormFieldSchema).min(1).max(100)
+    .refine(fields => new Set(fields.map(field => field.id)).size === fields.length, "Field ids must be unique"),
+  requiredForCompletion: z.boolean().optional(),
+  active: z.boolean().optional(),
+});
+
+/** Loads a job of the caller's business, or undefined */
+async function loadJob(req: Request) {
+  const jobId = parseInt(req.params.jobId);
+  if (isNaN(jobId)) return undefined;
+  const job = await storage.getJob(jobId);
+  return verifyBusinessOwnership(job, req) ? job : undefined;
+}
+
+/** Loads a form on the given job, or undefined */
+async function loadJobForm(req: Request, jobId: number) {
+  const formId = parseInt(req.params.formId);
+  if (isNaN(formId)) return undefined;
+  const form = await storage.getJobForm(formId);
+  return form && form.jobId === jobId && verifyBusinessOwnership(form, req) ? form : undefined;
+}
+
+// =================== JOB FORM TEMPLATES API ===================
+
+router.get("/job-form-templates", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const templates = await storage.getJobFormTemplates(getBusinessId(req));
+    res.json(templates);
+  } catch (error) {
+    res.status(500).json({ message: "Error fetching job form templates" });
+  }
+});
+
+router.post("/job-form-templates", isAuthenticated, requireRole("owner", "manager"), async (req: Request, res: Response) => {
+  try {
+    const validatedData = jobFormTemplateSchema.parse(req.body);
+    const template = await storage.createJobFormTemplate({ ...validatedData, businessId: getBusinessId(req) });
+    res.status(201).json(template);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ errors: error.format() });
+    }
+    res.status(500).json({ message: "Error creating job form template" });
+  }
+});
+
+// Adds the starter templates for the business's industry (HVAC, plumbing, electrical)
+router.post("/job-form-templates/starters", isAuthenticated, requireRole("owner", "manager"), async (req: Request, res: Response) => {
+  try {
+    const business = await storage.getBusiness(getBusinessId(req));
+    if (!business) {
+      return res.status(404).json({ message: "Business not found" });
+    }
+    const created = await installStarterTemplates(business.id, business.industry);
+    res.status(201).json(created);
+  } catch (error) {
+    res.status(500).json({ message: "Error adding starter templates" });
+  }
+});
+
+router.put("/job-form-templates/:id", isAuthenticated, requireRole("owner", "manager"), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid job form template ID" });
+    }
+    const existing = await storage.getJobFormTemplate(id);
+    if (!existing || !verifyBusinessOwnership(existing, req)) {
+      return res.status(404).json({ message: "Job form template not found" });
+    }
+    const validatedData = jobFormTemplateSchema.partial().parse(req.body);
+    // Forms already on jobs keep the fields they were attached with
+    const template = await storage.updateJobFormTemplate(id, validatedData);
+    res.json(template);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ errors: error.format() });
+    }
+    res.status(500).json({ message: "Error updating job form template" });
+  }
+});
+
+router.delete("/job-form-templates/:id", isAuthenticated, requireRole("owner", "manager"), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid job form template ID" });
+    }
+    const existing = await storage.getJobFormTemplate(id);
+    if (!existing || !verifyBusinessOwnership(existing, req)) {
+      return res.status(404).json({ message: "Job form template not found" });
+    }
+    await storage.deleteJobFormTemplate(id, existing.businessId);
+    res.status(204).end();
+  } catch (error) {
+    res.status(500).json({ message: "Error deleting job form template" });
+  }
+});
+
+// =================== JOB FORMS API ===================
+
+router.get("/jobs/:jobId/forms", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const job = await loadJob(req);
+    if (!job) {
+      return res.status(404).json({ message: "Job not found" });
+    }
+    res.json(await getJobFormsForJob(job));
+  } catch (error) {
+    res.status(500).json({ message: "Error fetching job forms" });
+  }
+});
+
+// Save answers as the tech goes; { submit: true } to finish the form
+router.put("/jobs/:jobId/forms/:formId", isAuthenticated, offlineReplay, async (req: Request, res: Response) => {
+  try {
+    const validatedData = z.object({
+      answers: z.record(z.unknown()).default({}),
+      submit: z.boolean().optional(),
+    }).parse(req.body);
+
+    const job = await loadJob(req);
+    if (!job) {
+      return res.status(404).json({ message: "Job not found" });
+    }
+    const form = await loadJobForm(req, job.id);
+    if (!form) {
+      return res.status(404).json({ message: "Form not found" });
+    }
+    if (hasUpdateConflict(form.updatedAt, readBaseUpdatedAt(req.body))) {
+      return res.status(409).json({ message: "This checklist was changed by someone else", conflict: true, current: form });
+    }
+
+    const result = await saveJobFormAnswers(job, form, validatedData, req.user?.id ?? null);
+    if (!result.ok) {
+      return res.status(JOB_FORM_ERROR_STATUS[result.reason]).json({ message: result.message, fields: result.fields });
+    }
+    res.json({ ...result.form, outOfRange: result.outOfRange });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ errors: error.format() });
+    }
+    res.status(500).json({ message: "Error saving job form" });
+  }
+});
+
+// Uploads a photo for a form field; the client saves the returned URL as the answer
+router.post("/jobs/:jobId/forms/:formId/photos", isAuthenticated, offlineReplay, photoUpload.single("photo"), async (req: Request, res: Response) => {
+  try {
+    const job = await loadJob(req);
+    if (!job) {
+      return res.status(404).json({ message: "Job not found" });
+    }
+    const form = await loadJobForm(req, job.id);
+    if (!form) {
+      return res.status(404).json({ message: "Form not found" });
+    }
+    if (!req.file) {
+      return res.status(400).json({ message: "No file uploaded" });
+    }
+    if (!isS3Configured()) {
+      return res.status(503).json({ message: "File storage not configured" });
+    }
+
+    const key = jobFormPhotoKey(job.id, form.id, req.file.originalname.split(".").pop() || "jpg");
+    const url = await uploadBufferToS3(req.file.buffer, key, req.file.mimetype);
+    res.status(201).json({ url });
+  } catch (error) {
+    console.error("[JobForms] Photo upload error:", error);
+    res.status(500).json({ message: "Upload failed" });
+  }
+});
+
+export default router;
@@ -12,6 +12,11 @@ import { toMoney, roundMoney } from "../utils/money";
 import { db } from "../db";
 import { sql } from "drizzle-orm";
 import { randomBytes } from "crypto";
+import { getIncompleteRequiredForms } from "../services/jobFormService";
+import { resolveCustomFieldChanges } from "../services/customFieldService";
+import { hasUpdateConflict, readBaseUpdatedAt } from "../services/offlineSyncService";
+import { offlineReplay } from "../middleware/offlineReplay";
+import { publishRealtimeEvent } from "../services/realtimeEventBus";
 
 // Multer for job photo uploads (5MB max, images only)
 const photoUpload = multer({
@@ -156,6 +161,13 @@ router.post("/", isAuthenticated, async (req: Request, res: Response) => {
     try {
       const businessId = getBusinessId(req);
       const validatedData = insertJobSchema.parse({ ...req.body, businessId });
+      if (validatedData.customFields) {
+        const resolved = await resolveCustomFieldChanges(businessId, 'job', {}, validatedData.customFields);
+        if (!resolved.ok) {
+          return res.status(400).json({ message: `Invalid ${resolved.invalid.join(', ')}`, fields: resolved.invalid });
+        }
+        validatedData.customFields = resolved.customFields;
+      }
       const job = await storage.createJob(validatedData);
 
       // Fire webhook event (fire-and-forget)
@@ -211,7 +223,7 @@ router.post("/", isAuthenticated, async (req: Request, res: Response) => {
     }
   });
 
-router.put("/:id", isAuthenticated, async (req: Request, res: Response) => {
+router.put("/:id", isAuthenticated, offlineReplay, async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
@@ -221,7 +233,29 @@ router.put("/:id", isAuthenticated, async (req: Request, res: Response) => {
       if (!existing || !verifyBusinessOwnership(existing, req)) {
         return res.status(404).json({ message: "Job not found" });
       }
+      // Edits queued offline carry the updatedAt they were made against
+      if (hasUpdateConflict(existing.updatedAt, readBaseUpdatedAt(req.body))) {
+        return res.status(409).json({ message: "This job was changed by someone else", conflict: true, current: existing });
+      }
       const validatedData = insertJobSchema.partial().parse(req.body);
+      if (validatedData.customFields) {
+        const resolved = await resolveCustomFieldChanges(existing.businessId, 'job', existing.customFields, validatedData.customFields);
+        if (!resolved.ok) {
+          return res.status(400).json({ message: `Invalid ${resolved.invalid.join(', ')}`, fields: resolved.invalid });
+        }
+        validatedData.customFields = resolved.customFields;
+      }
+
+      // Required checklists have to be submitted before the job can close
+      if (validatedData.status === 'completed' && existing.status !== 'completed') {
+        const incompleteForms = await getIncompleteRequiredForms(existing);
+        if (incompleteForms.length > 0) {
+          return res.status(409).json({
+            message: `Complete ${incompleteForms.map(form => form.name).join(', ')} before marking this job completed`,
+            incompleteForms: incompleteForms.map(form => ({ id: form.id, name: form.name })),
+          });
+        }
+      }
 
       // If the tech is marking the job as en_route, stamp enRouteAt = now
       // server-side so the customer SMS uses an authoritative timestamp.
@@ -230,6 +264,15 @@ router.put("/:id", isAuthenticated, async (req: Request, res: Response) => {
         (validatedData as any).enRouteAt = new Date();
       }
 
+      // Timesheet window — the geofence usually stamps these from GPS; fill
+      // them in when the tech changes status by hand instead.
+      if (validatedData.status === 'in_progress' && existing.status !== 'in_progress' && !existing.arrivedAt) {
+        (validatedData as any).arrivedAt = new Date();
+      }
+      if (validatedData.status === 'completed' && existing.status !== 'completed' && existing.arrivedAt && !existing.departedAt) {
+        (validatedData as any).departedAt = new Date();
+      }
+
       const job = await storage.updateJob(id, validatedData);
 
       // Queue job status SMS notifications (reliable retry via pg-boss)
@@ -397,6 +440,29 @@ router.get("/:id/briefing", isAuthenticated, async (req: Request, res: Response)
     }
   });
 
+  // GET /api/jobs/:id/pdf — branded job completion report with photos and line items
+router.get("/:id/pdf", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const jobId = parseInt(req.params.id);
+      if (isNaN(jobId)) {
+        return res.status(400).json({ error: "Invalid job ID" });
+      }
+
+      const { buildJobReportPdf } = await import("../services/documentPdfService");
+      const rendered = await buildJobReportPdf(jobId, getBusinessId(req));
+      if (!rendered) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="${rendered.filename}"`);
+      res.send(rendered.pdf);
+    } catch (err: any) {
+      console.error("[Jobs] Job report PDF error:", err);
+      res.status(500).json({ error: "Failed to render job report" });
+    }
+  });
+
   // =================== JOB LINE ITEMS API ===================
 router.get("/:jobId/line-items", isAuthenticated, async (req: Request, res: Response) => {
     try {
@@ -416,7 +482,7 @@ router.get("/:jobId/line-items", isAuthenticated, async (req: Request, res: Resp
     }
   });
 
-router.post("/:jobId/line-items", isAuthenticated, async (req: Request, res: Response) => {
+router.post("/:jobId/line-items", isAuthenticated, offlineReplay, async (req: Request, res: Response) => {
     try {
       const jobId = parseInt(req.params.jobId);
       if (isNaN(jobId)) {
@@ -446,7 +512,7 @@ router.post("/:jobId/line-items", isAuthenticated, async (req: Request, res: Res
     }
   });
 
-router.put("/:jobId/line-items/:id", isAuthenticated, async (req: Request, res: Response) => {
+router.put("/:jobId/line-items/:id", isAuthenticated, offlineReplay, async (req: Request, res: Response) => {
     try {
       const jobId = parseInt(req.params.jobId);
       if (isNaN(jobId)) {
@@ -461,6 +527,13 @@ router.put("/:jobId/line-items/:id", isAuthenticated, async (req: Request, res:
       if (isNaN(id)) {
         return res.status(400).json({ message: "Invalid line item ID" });
       }
+      const existing = (await storage.getJobLineItems(jobId)).find(item => item.id === id);
+      if (!existing) {
+        return res.status(404).json({ message: "Line item not found" });
+      }
+      if (hasUpdateConflict(existing.updatedAt, readBaseUpdatedAt(req.body))) {
+        return res.status(409).json({ message: "This line item was changed by someone else", conflict: true, current: existing });
+      }
       const { type, description, quantity, unitPrice, taxable } = req.body;
 
       const amount = (quantity || 1) * unitPrice;
@@ -478,7 +551,7 @@ router.put("/:jobId/line-items/:id", isAuthenticated, async (req: Request, res:
     }
   });
 
-router.delete("/:jobId/line-items/:id", isAuthenticated, async (req: Request, res: Response) => {
+router.delete("/:jobId/line-items/:id", isAuthenticated, offlineReplay, async (req: Request, res: Response) => {
     try {
       const jobId = parseInt(req.params.jobId);
       if (isNaN(jobId)) {
@@ -493,6 +566,13 @@ router.delete("/:jobId/line-items/:id", isAuthenticated, async (req: Request, re
       if (isNaN(id)) {
         return res.status(400).json({ message: "Invalid line item ID" });
       }
+      const existing = (await storage.getJobLineItems(jobId)).find(item => item.id === id);
+      if (!existing) {
+        return res.status(404).json({ message: "Line item not found" });
+      }
+      if (hasUpdateConflict(existing.updatedAt, readBaseUpdatedAt(req.body))) {
+        return res.status(409).json({ message: "This line item was changed by someone else", conflict: true, current: existing });
+      }
       await storage.deleteJobLineItem(id);
       res.status(204).end();
     } catch (error) {
@@ -837,7 +917,7 @@ router.post('/:jobId/send-quote', isAuthenticated, async (req: Request, res: Res
  * and this endpoint parses the raw transcript into structured data:
  * clean notes, parts used, equipment info, follow-up opportunities.
  */
-router.post("/:id/voice-notes", isAuthenticated, async (req: Request, res: Response) => {
+router.post("/:id/voice-notes", isAuthenticated, offlineReplay, async (req: Request, res: Response) => {
   try {
     const jobId = parseInt(req.params.id);
     if (isNaN(jobId)) return res.status(400).json({ error: "Invalid job ID" });
@@ -885,8 +965,9 @@ Return valid JSON only. No markdown, no code fences.`,
       });
 
       // Save the cleaned notes to the job
+      let updatedAt = job.updatedAt;
       if (parsed.notes) {
-        await storage.updateJob(jobId, { notes: parsed.notes });
+        updatedAt = (await storage.updateJob(jobId, { notes: parsed.notes })).updatedAt;
       }
 
       // If parts were identified, auto-add them as line items (best-effort)
@@ -908,14 +989,16 @@ Return valid JSON only. No markdown, no code fences.`,
         }
       }
 
+      // Offline sync checks queued edits to this job against this version
       res.json({
         parsed,
         saved: true,
+        updatedAt,
       });
     } catch (aiErr: any) {
       console.error('[VoiceNotes] AI parsing failed:', aiErr.message);
       // Fallback: save raw transcript as notes if AI fails
-      await storage.updateJob(jobId, { notes: trimmedTranscript });
+      const updated = await storage.updateJob(jobId, { notes: trimmedTranscript });
       res.json({
         parsed: {
           notes: trimmedTranscript,
@@ -928,6 +1011,7 @@ Return valid JSON only. No markdown, no code fences.`,
         },
         saved: true,
         fallback: true,
+        updatedAt: updated.updatedAt,
       });
     }
   } catch (error: any) {
@@ -979,7 +1063,7 @@ router.post("/:id/send-tracking-link", isAuthenticated, async (req: Request, res
 /**
  * POST /api/jobs/:id/photos — Upload a photo to a job (mobile app camera)
  */
-router.post("/api/jobs/:id/photos", isAuthenticated, photoUpload.single("photo"), async (req: Request, res: Response) => {
+router.post("/:id/photos", isAuthenticated, offlineReplay, photoUpload.single("photo"), async (req: Request, res: Response) => {
   try {
     const jobId = parseInt(req.params.id);
     if (isNaN(jobId)) return res.status(400).json({ error: "Invalid job ID" });
@@ -1000,19 +1084,21 @@ router.post("/api/jobs/:id/photos", isAuthenticated, photoUpload.single("photo")
     const key = `job-photos/job-${jobId}-${Date.now()}.${ext}`;
     const photoUrl = await uploadBufferToS3(req.file.buffer, key, req.file.mimetype);
 
-    // Append to existing photos array
-    const existingPhotos: Array<{ url: string; caption?: string; takenAt: string }> =
-      (job as any)?.photos || [];
-    existingPhotos.push({
-      url: photoUrl,
-      takenAt: new Date().toISOString(),
-    });
+    // Photos queued offline upload later — keep when they were actually taken
+    const takenAt = typeof req.body?.takenAt === "string" && !isNaN(Date.parse(req.body.takenAt))
+      ? new Date(req.body.takenAt).toISOString()
+      : new Date().toISOString();
 
-    await db.execute(
-      sql`UPDATE jobs SET photos = ${JSON.stringify(existingPhotos)}::jsonb, updated_at = NOW() WHERE id = ${jobId}`
+    // Append in SQL so photos replayed back to back don't overwrite each other
+    const result = await db.execute(
+      sql`UPDATE jobs SET photos = COALESCE(photos, '[]'::jsonb) || ${JSON.stringify([{ url: photoUrl, takenAt }])}::jsonb, updated_at = NOW()
+          WHERE id = ${jobId} RETURNING jsonb_array_length(photos) AS total, updated_at`
     );
+    const row = result.rows[0] as { total?: number; updated_at?: Date | string } | undefined;
+    const totalPhotos = Number(row?.total ?? 0);
+    publishRealtimeEvent(businessId, 'jobs');
 
-    res.json({ photoUrl, totalPhotos: existingPhotos.length });
+    res.json({ photoUrl, totalPhotos, updatedAt: row?.updated_at ? new Date(row.updated_at).toISOString() : null });
   } catch (error: any) {
     console.error("[Jobs] Photo upload error:", error);
     res.status(500).json({ error: error.message || "Upload failed" });
@@ -2,6 +2,8 @@ import { Router, Request, Response } from "express";
 import { storage } from "../storage";
 import { isAuthenticated } from "../auth";
 import { findInjectionPattern } from "../utils/promptSanitizer";
+import { isSupportedLanguage } from "@shared/languages";
+import type { KnowledgeTranslation } from "@shared/schema";
 
 // Write-time prompt-injection guard for content that flows into the AI
 // receptionist's system prompt. Read-time fencing in knowledgePromptBuilder
@@ -27,6 +29,29 @@ function validateKnowledgeContent(question?: unknown, answer?: unknown): string
   return null;
 }
 
+// Translated Q&A pairs get the same guard. Blank pairs are dropped so clearing
+// both fields in the editor removes the translation.
+function parseKnowledgeTranslations(
+  translations: unknown,
+): { value: Record<string, KnowledgeTranslation> | null; error: string | null } {
+  if (translations === null) return { value: null, error: null };
+  if (typeof translations !== 'object' || Array.isArray(translations)) {
+    return { value: null, error: "Translations must be an object keyed by language." };
+  }
+  const value: Record<string, KnowledgeTranslation> = {};
+  for (const [code, pair] of Object.entries(translations as Record<string, any>)) {
+    if (!isSupportedLanguage(code)) return { value: null, error: `Unsupported language: ${code}` };
+    const question = typeof pair?.question === 'string' ? pair.question.trim() : '';
+    const answer = typeof pair?.answer === 'string' ? pair.answer.trim() : '';
+    if (!question && !answer) continue;
+    if (!question || !answer) return { value: null, error: "Translations need both a question and an answer." };
+    const error = validateKnowledgeContent(question, answer);
+    if (error) return { value: null, error };
+    value[code] = { question, answer };
+  }
+  return { value: Object.keys(value).length > 0 ? value : null, error: null };
+}
+
 const router = Router();
 
 // Helper to get businessId from authenticated request
@@ -152,12 +177,17 @@ router.put("/knowledge/:id", isAuthenticated, async (req: Request, res: Response
     if (!existing || !verifyBusinessOwnership(existing, req)) {
       return res.status(404).json({ message: "Knowledge entry not found" });
     }
-    const { question, answer, category, isApproved, priority } = req.body;
+    const { question, answer, category, isApproved, priority, translations } = req.body;
     const validationError = validateKnowledgeContent(question, answer);
     if (validationError) {
       return res.status(400).json({ message: validationError, code: "KNOWLEDGE_CONTENT_REJECTED" });
     }
+    const parsedTranslations = translations !== undefined ? parseKnowledgeTranslations(translations) : null;
+    if (parsedTranslations?.error) {
+      return res.status(400).json({ message: parsedTranslations.error, code: "KNOWLEDGE_CONTENT_REJECTED" });
+    }
     const updated = await storage.updateBusinessKnowledge(id, {
+      ...(parsedTranslations && { translations: parsedTranslations.value }),
       ...(question !== undefined && { question }),
       ...(answer !== undefined && { answer }),
       ...(category !== undefined && { category }),
@@ -419,8 +419,16 @@ router.post("/customers/:id/send-sms", isAuthenticated, notificationLimiter, asy
       return res.status(400).json({ message: "Customer has no phone number" });
     }
 
-    const { sendSms } = await import("../services/twilioService");
-    await sendSms(customer.phone, message.trim(), undefined, businessId);
+    // Logged to the customer's inbox thread so the conversation stays in one place
+    const { sendHumanSms } = await import("../services/smsInboxService");
+    await sendHumanSms({
+      businessId,
+      to: customer.phone,
+      customerId: customer.id,
+      body: message.trim(),
+      userId: req.user!.id,
+      messageType: 'DIRECT_SMS',
+    });
 
     res.json({ success: true, message: "SMS sent" });
   } catch (error) {
@@ -3,6 +3,7 @@ import rateLimit from "express-rate-limit";
 import { storage } from "../storage";
 import Stripe from "stripe";
 import { stripeConnectService } from "../services/stripeConnectService";
+import { getPaymentBounds, recordStripePaymentIntent } from "../services/invoicePaymentService";
 import { toMoney, roundMoney } from "../utils/money";
 
 // SECURITY: Stripe key is required - no fallback
@@ -64,22 +65,25 @@ router.post("/create-payment-intent", paymentIntentLimiter, async (req: Request,
     }
 
     // SECURITY: Reject already-paid invoices
-    if (invoice.status === 'paid') {
+    const { minimum, maximum } = getPaymentBounds(invoice);
+    if (invoice.status === 'paid' || maximum <= 0) {
       return res.status(400).json({ message: "Invoice is already paid" });
     }
 
-    // SECURITY: Validate amount equals invoice.total exactly (to the cent)
     const requestedAmount = roundMoney(toMoney(amount));
-    const invoiceTotal = roundMoney(toMoney(invoice.total));
 
     if (!Number.isFinite(requestedAmount) || requestedAmount <= 0) {
       return res.status(400).json({ message: "Invalid payment amount" });
     }
 
-    // Use integer cents comparison to avoid floating-point drift
-    if (Math.round(requestedAmount * 100) !== Math.round(invoiceTotal * 100)) {
+    // SECURITY: Amount must sit between the invoice minimum and the balance due.
+    // Use integer cents comparison to avoid floating-point drift.
+    const requestedCents = Math.round(requestedAmount * 100);
+    if (requestedCents < Math.round(minimum * 100) || requestedCents > Math.round(maximum * 100)) {
       return res.status(400).json({
-        message: "Payment amount must match the invoice total exactly",
+        message: minimum === maximum
+          ? "Payment amount must match the balance due exactly"
+          : `Payment amount must be between $${minimum.toFixed(2)} and $${maximum.toFixed(2)}`,
       });
     }
 
@@ -149,31 +153,39 @@ router.post("/stripe-webhook", async (req: Request, res: Response) => {
   switch (event.type) {
     case 'payment_intent.succeeded': {
       const paymentIntent = event.data.object;
-      const invoiceId = parseInt(paymentIntent.metadata?.invoiceId);
+      const isLedgerPayment = !!paymentIntent.metadata?.invoiceId || paymentIntent.metadata?.paymentType === 'deposit';
 
-      // Update invoice status to paid
-      if (invoiceId) {
+      // Record the payment in the ledger — recalculates the invoice balance
+      // and status (partially_paid vs paid). Idempotent on the intent ID.
+      if (isLedgerPayment) {
         try {
-          await storage.updateInvoice(invoiceId, { status: 'paid' });
+          const result = await recordStripePaymentIntent(paymentIntent);
 
-          // Notify business owner of payment (fire-and-forget)
-          const paidInvoice = await storage.getInvoice(invoiceId);
-          if (paidInvoice) {
+          if (result.kind === 'invoice') {
+            const paidInvoice = result.invoice;
+
+            // Notify business owner of payment (fire-and-forget)
             import('../services/ownerNotificationService').then(mod => {
-              mod.notifyOwnerPaymentReceived(invoiceId, paidInvoice.businessId, paymentIntent.amount / 100)
+              mod.notifyOwnerPaymentReceived(paidInvoice.id, paidInvoice.businessId, result.amount)
                 .catch(err => console.error('[OwnerNotify] Payment alert error:', err));
             }).catch(err => console.error('[OwnerNotify] Import error:', err));
 
             // Orchestrator: route invoice.paid to recalculate customer insights (fire-and-forget)
-            import('../services/orchestrationService').then(mod => {
-              mod.dispatchEvent('invoice.paid', {
-                businessId: paidInvoice.businessId,
-                customerId: paidInvoice.customerId || undefined,
-              }).catch(err => console.error('[Orchestrator] Error dispatching invoice.paid:', err));
-            }).catch(err => console.error('[Orchestrator] Import error:', err));
+            if (result.becamePaid) {
+              import('../services/orchestrationService').then(mod => {
+                mod.dispatchEvent('invoice.paid', {
+                  businessId: paidInvoice.businessId,
+                  customerId: paidInvoice.customerId || undefined,
+                }).catch(err => console.error('[Orchestrator] Error dispatching invoice.paid:', err));
+              }).catch(err => console.error('[Orchestrator] Import error:', err));
+            }
+          } else if (result.kind === 'deposit') {
+            console.log(`[Stripe] Deposit of $${result.amount.toFixed(2)} recorded for quote ${result.quote.id}`);
+          } else if (result.kind === 'ignored') {
+            console.warn(`[Stripe] payment_intent.succeeded ${paymentIntent.id} not recorded: ${result.reason}`);
           }
         } catch (error) {
-          console.error('Error updating invoice status:', error);
+          console.error('Error recording payment:', error);
         }
       }
       break;
@@ -13,6 +13,8 @@ import {
   recordPayment,
   createOrUpdateCustomer
 } from '../services/quickbooksService';
+import { syncCreditNoteToQuickBooks } from '../services/creditNoteService';
+import { storage } from '../storage';
 import { isAuthenticated, checkBelongsToBusinessAsync } from '../middleware/auth';
 
 const router = Router();
@@ -198,6 +200,35 @@ router.post('/sync-invoice', isAuthenticated, async (req, res) => {
   }
 });
 
+// Sync credit note to QuickBooks as a CreditMemo — verify ownership.
+// Issued credit notes are queued automatically; this is the manual retry.
+router.post('/sync-credit-note', isAuthenticated, async (req, res) => {
+  try {
+    const businessId = (req.user as any)?.businessId;
+    if (!businessId) {
+      return res.status(400).json({ error: 'No business associated with your account' });
+    }
+
+    const creditNoteId = req.body.creditNoteId;
+    if (!creditNoteId) {
+      return res.status(400).json({ error: 'Credit note ID is required' });
+    }
+
+    // Tenant-scoped lookup — another business's credit note reads as not found
+    const creditNote = await storage.getCreditNote(creditNoteId, businessId);
+    if (!creditNote) {
+      return res.status(404).json({ error: 'Credit note not found' });
+    }
+
+    const result = await syncCreditNoteToQuickBooks(creditNote.id, businessId);
+
+    res.json({ success: true, result });
+  } catch (error) {
+    console.error('Error syncing credit note to QuickBooks:', error);
+    res.status(500).json({ error: 'Failed to sync credit note to QuickBooks' });
+  }
+});
+
 // Record payment in QuickBooks — verify ownership
 router.post('/record-payment', isAuthenticated, async (req, res) => {
   try {
@@ -1,14 +1,63 @@
 import { Router } from "express";
 import { storage } from "../storage";
 import { eq, and, desc, like, ilike, or } from "drizzle-orm";
-import { quotes, quoteItems, insertQuoteSchema, insertQuoteItemSchema } from "@shared/schema";
+import { quotes, quoteItems, insertQuoteSchema, insertQuoteItemSchema, type QuoteItem } from "@shared/schema";
 import { z } from "zod";
 import notificationService from "../services/notificationService";
 import { fireEvent } from "../services/webhookService";
+import { stripeConnectService } from "../services/stripeConnectService";
+import {
+  applyQuoteDepositsToInvoice,
+  getDepositOutstanding,
+  netPaymentAmount,
+  recordQuoteDeposit,
+} from "../services/invoicePaymentService";
+import {
+  clearQuoteOptions,
+  getChosenQuoteItems,
+  getOptionMonthlyPayment,
+  priceQuoteOption,
+  saveQuoteOptions,
+  selectQuoteOption,
+} from "../services/quoteOptionService";
+import {
+  captureQuoteSignature,
+  deliverSignedQuote,
+  renderSignedQuotePdf,
+  validateSignatureInput,
+} from "../services/quoteSignatureService";
+import { getRequestContext } from "../services/auditService";
+import { buildQuotePdf } from "../services/documentPdfService";
+import { toMoney, roundMoney } from "../utils/money";
 import { randomBytes } from "crypto";
 
 const router = Router();
 
+// Optional required deposit on a quote, in dollars. 0/null means no deposit.
+const depositAmountSchema = z.coerce.number().min(0, "Deposit cannot be negative").nullable().optional();
+
+const exceedsQuoteTotal = (deposit: number | null | undefined, total: string | number): boolean =>
+  !!deposit && Math.round(deposit * 100) > Math.round(toMoney(total) * 100);
+
+// Good/better/best options. Sent instead of a flat items list; each option
+// carries its own line items and the server prices it.
+const quoteOptionsSchema = z.array(z.object({
+  name: z.string().min(1, "Option name is required").max(100),
+  description: z.string().max(1000).nullable().optional(),
+  isRecommended: z.boolean().optional(),
+  tax: z.number().min(0, "Tax cannot be negative").optional(),
+  items: z.array(z.object({
+    description: z.string().min(1, "Description is required"),
+    quantity: z.number().min(1, "Quantity must be at least 1"),
+    unitPrice: z.number().min(0, "Unit price cannot be negative"),
+    amount: z.number().optional(),
+  })).min(1, "Each option needs at least one item"),
+})).min(2, "Offer at least two options").max(5, "Offer at most five options").optional();
+
+// A deposit has to fit whichever option the customer picks
+const lowestOptionTotal = (options: z.infer<typeof quoteOptionsSchema>): number | null =>
+  options?.length ? Math.min(...options.map((option) => priceQuoteOption(option).total)) : null;
+
 // ── Quote templates (vertical-specific) ──
 // GET /api/quotes/templates?industry=hvac → list of pre-built templates
 // MUST be registered BEFORE /quotes/:id to avoid Express treating "templates"
@@ -188,17 +237,23 @@ router.post("/quotes", async (req, res) => {
 
     // Define the schema for the request body with a clear validUntil type
     const createQuoteSchema = insertQuoteSchema.extend({
+      depositAmount: depositAmountSchema,
       items: z.array(z.object({
         description: z.string().min(1, "Description is required"),
         quantity: z.number().min(1, "Quantity must be at least 1"),
         unitPrice: z.number().min(0, "Unit price cannot be negative"),
         amount: z.number().optional(),
-      })).min(1, "At least one item is required"),
+      })).default([]),
+      options: quoteOptionsSchema,
     });
 
     // Validate the request body
     const validatedData = createQuoteSchema.parse(req.body);
 
+    if (!validatedData.options?.length && validatedData.items.length === 0) {
+      return res.status(400).json({ error: "At least one item is required" });
+    }
+
     // Create the quote
     const quoteData = {
       businessId,
@@ -210,19 +265,29 @@ router.post("/quotes", async (req, res) => {
       total: validatedData.total,
       validUntil: validatedData.validUntil || null,
       notes: validatedData.notes || null,
+      depositAmount: validatedData.depositAmount ? roundMoney(validatedData.depositAmount).toFixed(2) : null,
     };
 
+    if (exceedsQuoteTotal(validatedData.depositAmount, lowestOptionTotal(validatedData.options) ?? validatedData.total)) {
+      return res.status(400).json({ error: "Deposit cannot exceed the quote total" });
+    }
+
     const newQuote = await storage.createQuote(quoteData);
 
-    // Create the quote items
-    for (const item of validatedData.items) {
-      await storage.createQuoteItem({
-        quoteId: newQuote.id,
-        description: item.description,
-        quantity: item.quantity,
-        unitPrice: String(item.unitPrice),
-        amount: String(item.quantity * item.unitPrice),
-      });
+    if (validatedData.options?.length) {
+      // Options carry their own items; the quote totals follow the recommended one
+      await saveQuoteOptions(newQuote.id, validatedData.options);
+    } else {
+      // Create the quote items
+      for (const item of validatedData.items) {
+        await storage.createQuoteItem({
+          quoteId: newQuote.id,
+          description: item.description,
+          quantity: item.quantity,
+          unitPrice: String(item.unitPrice),
+          amount: String(item.quantity * item.unitPrice),
+        });
+      }
     }
 
     // Fetch the complete quote with items
@@ -272,18 +337,29 @@ router.patch("/quotes/:id", async (req, res) => {
 
     // Define the schema for the request body with a clear validUntil type
     const updateQuoteSchema = insertQuoteSchema.extend({
+      depositAmount: depositAmountSchema,
       items: z.array(z.object({
         id: z.number().optional(), // Existing item ID if updating
         description: z.string().min(1, "Description is required"),
         quantity: z.number().min(1, "Quantity must be at least 1"),
         unitPrice: z.number().min(0, "Unit price cannot be negative"),
         amount: z.number().optional(),
-      })).min(1, "At least one item is required"),
+      })).default([]),
+      options: quoteOptionsSchema,
     });
 
     // Validate the request body
     const validatedData = updateQuoteSchema.parse(req.body);
 
+    if (!validatedData.options?.length && validatedData.items.length === 0) {
+      return res.status(400).json({ error: "At least one item is required" });
+    }
+
+    // Re-saving options clears the pick the customer accepted
+    if (existingQuote.status === "accepted" && (validatedData.options?.length || existingQuote.options?.length)) {
+      return res.status(400).json({ error: "Cannot change the options on a quote the customer has accepted" });
+    }
+
     // Update the quote
     const quoteData = {
       customerId: validatedData.customerId,
@@ -294,22 +370,35 @@ router.patch("/quotes/:id", async (req, res) => {
       total: validatedData.total,
       validUntil: validatedData.validUntil || null,
       notes: validatedData.notes || null,
+      depositAmount: validatedData.depositAmount ? roundMoney(validatedData.depositAmount).toFixed(2) : null,
     };
 
+    if (exceedsQuoteTotal(validatedData.depositAmount, lowestOptionTotal(validatedData.options) ?? validatedData.total)) {
+      return res.status(400).json({ error: "Deposit cannot exceed the quote total" });
+    }
+
     await storage.updateQuote(quoteId, quoteData);
 
-    // Delete existing quote items and create new ones
-    await storage.deleteQuoteItems(quoteId);
+    if (validatedData.options?.length) {
+      // Replaces items and options, and clears any earlier pick
+      await saveQuoteOptions(quoteId, validatedData.options);
+    } else {
+      // Delete existing quote items (and any options) and create new ones
+      await storage.deleteQuoteItems(quoteId);
+      if (existingQuote.options?.length) {
+        await clearQuoteOptions(quoteId);
+      }
 
-    // Create the quote items
-    for (const item of validatedData.items) {
-      await storage.createQuoteItem({
-        quoteId,
-        description: item.description,
-        quantity: item.quantity,
-        unitPrice: String(item.unitPrice),
-        amount: String(item.quantity * item.unitPrice),
-      });
+      // Create the quote items
+      for (const item of validatedData.items) {
+        await storage.createQuoteItem({
+          quoteId,
+          description: item.description,
+          quantity: item.quantity,
+          unitPrice: String(item.unitPrice),
+          amount: String(item.quantity * item.unitPrice),
+        });
+      }
     }
 
     // Fetch the updated quote with items
@@ -404,6 +493,12 @@ router.post("/quotes/:id/convert", async (req, res) => {
       return res.status(400).json({ error: "Quote has already been converted to an invoice" });
     }
 
+    // Only the option the customer chose is billed
+    const chosenItems = getChosenQuoteItems<QuoteItem>(existingQuote, existingQuote.items);
+    if (!chosenItems) {
+      return res.status(400).json({ error: "Select the option the customer chose before converting" });
+    }
+
     // Convert the quote to an invoice
     const dueDate = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000); // Due in 30 days
     const invoiceData = {
@@ -421,7 +516,7 @@ router.post("/quotes/:id/convert", async (req, res) => {
     const newInvoice = await storage.createInvoice(invoiceData);
 
     // Create invoice items from quote items
-    for (const item of existingQuote.items) {
+    for (const item of chosenItems) {
       await storage.createInvoiceItem({
         invoiceId: newInvoice.id,
         description: item.description,
@@ -437,6 +532,9 @@ router.post("/quotes/:id/convert", async (req, res) => {
       convertedToInvoiceId: newInvoice.id,
     });
 
+    // Any deposit already collected on the quote counts toward the invoice
+    await applyQuoteDepositsToInvoice(quoteId, newInvoice.id, businessId);
+
     // Notify customer that their quote has been converted to an invoice
     notificationService.sendQuoteConvertedNotification(newInvoice.id, businessId).catch(err =>
       console.error('Background quote conversion notification error:', err)
@@ -480,13 +578,19 @@ router.post("/quotes/:id/convert-to-job", async (req, res) => {
       return res.status(400).json({ error: "Quote is already linked to a job" });
     }
 
+    // Only the option the customer chose becomes job work
+    const chosenItems = getChosenQuoteItems<QuoteItem>(existingQuote, existingQuote.items || []);
+    if (!chosenItems) {
+      return res.status(400).json({ error: "Select the option the customer chose before converting" });
+    }
+
     // Build job title from quote and customer info
     const customerName = existingQuote.customer
       ? `${existingQuote.customer.firstName} ${existingQuote.customer.lastName || ''}`.trim()
       : 'Customer';
-    const firstItemDesc = existingQuote.items?.[0]?.description || '';
+    const firstItemDesc = chosenItems[0]?.description || '';
     const jobTitle = firstItemDesc
-      ? `${firstItemDesc}${existingQuote.items.length > 1 ? ` (+${existingQuote.items.length - 1} more)` : ''} - ${customerName}`
+      ? `${firstItemDesc}${chosenItems.length > 1 ? ` (+${chosenItems.length - 1} more)` : ''} - ${customerName}`
       : `Quote #${existingQuote.quoteNumber} - ${customerName}`;
 
     // Create the job
@@ -503,7 +607,7 @@ router.post("/quotes/:id/convert-to-job", async (req, res) => {
     });
 
     // Copy quote line items → job line items
-    for (const item of existingQuote.items || []) {
+    for (const item of chosenItems) {
       await storage.createJobLineItem({
         jobId: job.id,
         type: 'service',
@@ -574,6 +678,134 @@ router.post("/quotes/:id/convert-to-job", async (req, res) => {
   }
 });
 
+// Record which option the customer chose (e.g., agreed over the phone)
+router.post("/quotes/:id/select-option", async (req, res) => {
+  try {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    const businessId = req.user.businessId;
+    const quoteId = parseInt(req.params.id);
+
+    if (!businessId) {
+      return res.status(400).json({ error: "No business associated with user" });
+    }
+
+    const existingQuote = await storage.getQuoteById(quoteId, businessId);
+    if (!existingQuote) {
+      return res.status(404).json({ error: "Quote not found" });
+    }
+
+    const { optionId } = z.object({ optionId: z.coerce.number().int().positive() }).parse(req.body);
+
+    const result = await selectQuoteOption(existingQuote, optionId);
+    if (!result.ok) {
+      return res.status(result.reason === "option_not_found" ? 404 : 400).json({ error: result.message });
+    }
+
+    res.json(await storage.getQuoteById(quoteId, businessId));
+  } catch (error: any) {
+    console.error("Error selecting quote option:", error);
+
+    if (error.name === "ZodError") {
+      return res.status(400).json({ error: "Invalid option", details: error.errors });
+    }
+
+    res.status(500).json({ error: "Failed to select quote option" });
+  }
+});
+
+// Signature captured when the customer accepted on the portal (includes IP / user agent)
+router.get("/quotes/:id/signature", async (req, res) => {
+  try {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    const businessId = req.user.businessId;
+    if (!businessId) {
+      return res.status(400).json({ error: "No business associated with user" });
+    }
+
+    const signature = await storage.getQuoteSignature(parseInt(req.params.id), businessId);
+    if (!signature) {
+      return res.status(404).json({ error: "This quote has not been signed" });
+    }
+
+    res.json({
+      id: signature.id,
+      quoteId: signature.quoteId,
+      optionId: signature.optionId,
+      signerName: signature.signerName,
+      signatureImage: signature.signatureImage,
+      ipAddress: signature.ipAddress,
+      userAgent: signature.userAgent,
+      signedAt: signature.signedAt,
+      contentHash: signature.contentHash,
+      pdfUrl: signature.pdfUrl,
+      emailedAt: signature.emailedAt,
+    });
+  } catch (error) {
+    console.error("Error fetching quote signature:", error);
+    res.status(500).json({ error: "Failed to fetch quote signature" });
+  }
+});
+
+// Download a branded PDF of a quote
+router.get("/quotes/:id/pdf", async (req, res) => {
+  try {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    const businessId = req.user.businessId;
+    if (!businessId) {
+      return res.status(400).json({ error: "No business associated with user" });
+    }
+
+    const rendered = await buildQuotePdf(parseInt(req.params.id), businessId);
+    if (!rendered) {
+      return res.status(404).json({ error: "Quote not found" });
+    }
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `attachment; filename="${rendered.filename}"`);
+    res.send(rendered.pdf);
+  } catch (error) {
+    console.error("Error rendering quote PDF:", error);
+    res.status(500).json({ error: "Failed to render quote PDF" });
+  }
+});
+
+// Signed PDF of the accepted quote, rendered from the snapshot taken at signing
+router.get("/quotes/:id/signed-pdf", async (req, res) => {
+  try {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    const businessId = req.user.businessId;
+    if (!businessId) {
+      return res.status(400).json({ error: "No business associated with user" });
+    }
+
+    const signature = await storage.getQuoteSignature(parseInt(req.params.id), businessId);
+    if (!signature) {
+      return res.status(404).json({ error: "This quote has not been signed" });
+    }
+
+    const pdf = await renderSignedQuotePdf(signature);
+    const quoteNumber = (signature.snapshot as { quoteNumber?: string }).quoteNumber || signature.quoteId;
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `attachment; filename="quote-${quoteNumber}-signed.pdf"`);
+    res.send(pdf);
+  } catch (error) {
+    console.error("Error rendering signed quote PDF:", error);
+    res.status(500).json({ error: "Failed to render signed quote PDF" });
+  }
+});
+
 // Delete a quote
 router.delete("/quotes/:id", async (req, res) => {
   try {
@@ -613,6 +845,85 @@ router.delete("/quotes/:id", async (req, res) => {
   }
 });
 
+// Deposits collected on a quote (before and after conversion)
+router.get("/quotes/:id/payments", async (req, res) => {
+  try {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    const businessId = req.user.businessId;
+    const quoteId = parseInt(req.params.id);
+
+    if (!businessId) {
+      return res.status(400).json({ error: "No business associated with user" });
+    }
+
+    const quote = await storage.getQuoteById(quoteId, businessId);
+    if (!quote) {
+      return res.status(404).json({ error: "Quote not found" });
+    }
+
+    const deposits = await storage.getPaymentsByQuote(quoteId, businessId);
+    res.json({
+      depositAmount: quote.depositAmount ? toMoney(quote.depositAmount) : null,
+      depositOutstanding: getDepositOutstanding(quote, deposits),
+      payments: deposits,
+    });
+  } catch (error) {
+    console.error("Error fetching quote payments:", error);
+    res.status(500).json({ error: "Failed to fetch quote payments" });
+  }
+});
+
+// Record an offline (cash / check / manual) deposit against a quote
+router.post("/quotes/:id/deposit", async (req, res) => {
+  try {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    const businessId = req.user.businessId;
+    const quoteId = parseInt(req.params.id);
+
+    if (!businessId) {
+      return res.status(400).json({ error: "No business associated with user" });
+    }
+
+    const quote = await storage.getQuoteById(quoteId, businessId);
+    if (!quote) {
+      return res.status(404).json({ error: "Quote not found" });
+    }
+
+    const depositSchema = z.object({
+      amount: z.coerce.number().positive(),
+      method: z.enum(["cash", "check", "manual"]),
+      reference: z.string().max(100).optional().nullable(),
+      notes: z.string().max(1000).optional().nullable(),
+    });
+    const data = depositSchema.parse(req.body);
+
+    const result = await recordQuoteDeposit({
+      quote,
+      amount: data.amount,
+      method: data.method,
+      reference: data.reference,
+      notes: data.notes,
+      recordedByUserId: req.user.id,
+    });
+
+    res.status(201).json(result);
+  } catch (error: any) {
+    console.error("Error recording quote deposit:", error);
+
+    if (error.name === "ZodError") {
+      return res.status(400).json({ error: "Invalid deposit", details: error.errors });
+    }
+
+    res.status(500).json({ error: "Failed to record deposit" });
+  }
+});
+
 // Generate a shareable link for a quote
 router.post("/quotes/:id/generate-link", async (req, res) => {
   try {
@@ -678,8 +989,25 @@ router.get("/portal/quote/:token", async (req, res) => {
     // Get customer info
     const customer = await storage.getCustomer(quote.customerId);
 
-    // Get quote items
-    const items = await storage.getQuoteItems(quote.id);
+    // Get quote items and any options they are grouped into
+    const [items, options] = await Promise.all([
+      storage.getQuoteItems(quote.id),
+      storage.getQuoteOptions(quote.id),
+    ]);
+    const formatItem = (item: typeof items[number]) => ({
+      id: item.id,
+      description: item.description,
+      quantity: item.quantity,
+      unitPrice: item.unitPrice,
+      amount: item.amount,
+    });
+
+    // Deposit progress — only meaningful when the quote requires one
+    const deposits = quote.depositAmount ? await storage.getPaymentsByQuote(quote.id, quote.businessId) : [];
+
+    const signature = quote.status === "accepted" || quote.status === "converted"
+      ? await storage.getQuoteSignature(quote.id, quote.businessId)
+      : undefined;
 
     res.json({
       id: quote.id,
@@ -691,6 +1019,10 @@ router.get("/portal/quote/:token", async (req, res) => {
       validUntil: quote.validUntil,
       notes: quote.notes,
       createdAt: quote.createdAt,
+      depositAmount: quote.depositAmount ? toMoney(quote.depositAmount) : null,
+      depositPaid: roundMoney(deposits.reduce((sum, p) => sum + netPaymentAmount(p), 0)),
+      depositOutstanding: getDepositOutstanding(quote, deposits),
+      paymentsEnabled: business?.stripeConnectStatus === 'active',
       customer: customer ? {
         firstName: customer.firstName,
         lastName: customer.lastName,
@@ -711,13 +1043,25 @@ router.get("/portal/quote/:token", async (req, res) => {
         financingApplyUrl: business.financingEnabled ? business.financingApplyUrl : null,
         financingDisclaimer: business.financingEnabled ? business.financingDisclaimer : null,
       } : null,
-      items: items.map(item => ({
-        id: item.id,
-        description: item.description,
-        quantity: item.quantity,
-        unitPrice: item.unitPrice,
-        amount: item.amount,
+      // Flat quotes list every item; quotes with options list the chosen
+      // option's items (empty until the customer picks).
+      items: (getChosenQuoteItems(quote, items) ?? []).map(formatItem),
+      selectedOptionId: quote.selectedOptionId,
+      options: options.map(option => ({
+        id: option.id,
+        name: option.name,
+        description: option.description,
+        amount: option.amount,
+        tax: option.tax,
+        total: option.total,
+        isRecommended: option.isRecommended === true,
+        monthlyPayment: getOptionMonthlyPayment(option.total, business),
+        items: items.filter(item => item.optionId === option.id).map(formatItem),
       })),
+      signature: signature ? {
+        signerName: signature.signerName,
+        signedAt: signature.signedAt,
+      } : null,
     });
   } catch (error) {
     console.error("Error fetching quote by token:", error);
@@ -729,12 +1073,20 @@ router.get("/portal/quote/:token", async (req, res) => {
 router.post("/portal/quote/:token/respond", async (req, res) => {
   try {
     const { token } = req.params;
-    const { response } = req.body; // "accepted" or "declined"
+    const { response, optionId } = req.body; // "accepted" or "declined", plus the chosen option if the quote has options
 
     if (!["accepted", "declined"].includes(response)) {
       return res.status(400).json({ error: "Invalid response. Must be 'accepted' or 'declined'" });
     }
 
+    // Accepting requires a typed name and a drawn signature
+    const signatureInput = response === "accepted"
+      ? validateSignatureInput({ signerName: req.body.signerName, signatureImage: req.body.signatureImage })
+      : null;
+    if (signatureInput && !signatureInput.ok) {
+      return res.status(400).json({ error: signatureInput.message });
+    }
+
     // Find the quote by access token
     const quote = await storage.getQuoteByAccessToken(token);
 
@@ -756,9 +1108,47 @@ router.post("/portal/quote/:token/respond", async (req, res) => {
       }
     }
 
-    // Update the quote status
+    // Accepting a quote with options means accepting one of them
+    let respondedQuote = quote;
+    if (response === "accepted") {
+      const options = await storage.getQuoteOptions(quote.id);
+      if (options.length > 0) {
+        const chosenId = parseInt(optionId);
+        if (!chosenId) {
+          return res.status(400).json({ error: "Please choose one of the options" });
+        }
+        const selection = await selectQuoteOption(quote, chosenId);
+        if (!selection.ok) {
+          return res.status(400).json({ error: selection.message });
+        }
+        respondedQuote = selection.quote;
+      }
+    }
+
+    // Record the signature against what is being accepted before the status
+    // changes, so a failed capture never leaves an accepted quote unsigned
+    const { ipAddress, userAgent } = getRequestContext(req);
+    const signature = signatureInput?.ok
+      ? await captureQuoteSignature({
+          quote: respondedQuote,
+          signerName: signatureInput.signerName,
+          signatureImage: signatureInput.signatureImage,
+          ipAddress,
+          userAgent,
+        })
+      : null;
+    if (signatureInput?.ok && !signature) {
+      return res.status(409).json({ error: "This quote has already been accepted" });
+    }
+
     await storage.updateQuoteStatus(quote.id, response);
 
+    if (signature) {
+      deliverSignedQuote(signature).catch(err =>
+        console.error("Error delivering signed quote PDF:", err)
+      );
+    }
+
     res.json({
       success: true,
       message: response === "accepted"
@@ -771,4 +1161,71 @@ router.post("/portal/quote/:token/respond", async (req, res) => {
   }
 });
 
+// Public route to download the signed PDF of an accepted quote (no auth required)
+router.get("/portal/quote/:token/signed-pdf", async (req, res) => {
+  try {
+    const quote = await storage.getQuoteByAccessToken(req.params.token);
+    if (!quote) {
+      return res.status(404).json({ error: "Quote not found" });
+    }
+
+    const signature = await storage.getQuoteSignature(quote.id, quote.businessId);
+    if (!signature) {
+      return res.status(404).json({ error: "This quote has not been signed" });
+    }
+
+    const pdf = await renderSignedQuotePdf(signature);
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `attachment; filename="quote-${quote.quoteNumber}-signed.pdf"`);
+    res.send(pdf);
+  } catch (error) {
+    console.error("Error rendering signed quote PDF:", error);
+    res.status(500).json({ error: "Failed to render signed quote PDF" });
+  }
+});
+
+// Public route to pay a quote's required deposit (no auth required)
+// Uses Stripe Connect destination charges — money goes to business, NOT platform
+router.post("/portal/quote/:token/deposit", async (req, res) => {
+  try {
+    const { token } = req.params;
+
+    const quote = await storage.getQuoteByAccessToken(token);
+    if (!quote) {
+      return res.status(404).json({ error: "Quote not found" });
+    }
+
+    if (["declined", "expired"].includes(quote.status || "")) {
+      return res.status(400).json({ error: `Cannot pay a deposit on a quote that is ${quote.status}` });
+    }
+
+    const deposits = await storage.getPaymentsByQuote(quote.id, quote.businessId);
+    const outstanding = getDepositOutstanding(quote, deposits);
+    if (outstanding <= 0) {
+      return res.status(400).json({ error: "No deposit is due on this quote" });
+    }
+
+    const customer = await storage.getCustomer(quote.customerId);
+
+    const result = await stripeConnectService.createPaymentIntentForQuoteDeposit({
+      amount: outstanding,
+      businessId: quote.businessId,
+      quoteId: quote.id,
+      quoteNumber: quote.quoteNumber,
+      customerName: customer ? `${customer.firstName} ${customer.lastName}` : 'Unknown',
+    });
+
+    res.json({ clientSecret: result.clientSecret, amount: outstanding });
+  } catch (error: any) {
+    console.error("Error creating quote deposit payment:", error);
+    if (error.message?.includes('PAYMENT_BLOCKED')) {
+      return res.status(403).json({
+        error: "Online payments are not available for this business yet. Please contact the business directly.",
+        code: "PAYMENT_BLOCKED"
+      });
+    }
+    res.status(500).json({ error: "Failed to create deposit payment" });
+  }
+});
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,52 @@
+/**
+ * Real-time Event Stream
+ *
+ * GET /api/events — a Server-Sent Events stream of change notifications for
+ * the signed-in user's business (see services/realtimeEventBus). Events only
+ * say which topic changed; the client refetches through the normal,
+ * permission-checked API, so nothing here needs per-role filtering.
+ */
+
+import { Router, Request, Response } from "express";
+import { isAuthenticated } from "../auth";
+import { addRealtimeClient } from "../services/realtimeEventBus";
+
+const router = Router();
+
+// Comment lines keep proxies and load balancers from idling the stream out
+const HEARTBEAT_MS = 25_000;
+
+router.get("/events", isAuthenticated, (req: Request, res: Response) => {
+  const businessId = req.user?.businessId;
+  if (!businessId) {
+    return res.status(400).json({ message: "No business associated with your account" });
+  }
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+
+  // compression() buffers writes; flush so each event leaves immediately
+  const write = (chunk: string) => {
+    res.write(chunk);
+    (res as any).flush?.();
+  };
+  write("retry: 5000\n\n");
+  write(`event: ready\ndata: {}\n\n`);
+
+  const unsubscribe = addRealtimeClient(businessId, {
+    send: (event) => write(`event: change\ndata: ${JSON.stringify({ topic: event.topic })}\n\n`),
+    close: () => res.end(),
+  });
+  const heartbeat = setInterval(() => write(": ping\n\n"), HEARTBEAT_MS);
+
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+});
+
+export default router;
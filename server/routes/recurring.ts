@@ -10,14 +10,32 @@ import {
   customers,
   services,
   staff,
-  Invoice
+  Invoice,
+  RecurringSchedule,
 } from "@shared/schema";
-import { eq, and, lte, gte, isNull, or, desc } from "drizzle-orm";
+import { eq, and, lte, gte, isNull, or, desc, sql } from "drizzle-orm";
 import { z } from "zod";
 import { toMoney } from "../utils/money";
+import { publishRealtimeEvent } from "../services/realtimeEventBus";
+import {
+  describeRRule,
+  expandOccurrences,
+  getScheduleRRule,
+  isDateString,
+  nextPendingOccurrence,
+  normalizeRRule,
+  previewOccurrences,
+  previousDay,
+  rebaseRRule,
+  resolveOccurrence,
+  DEFAULT_PREVIEW_COUNT,
+  type RecurrenceSource,
+} from "../services/recurrenceService";
 
 const router = Router();
 
+const dateStringSchema = z.string().refine(isDateString, "Expected a YYYY-MM-DD date");
+
 // Validation schemas
 const createRecurringScheduleSchema = z.object({
   businessId: z.number(),
@@ -25,7 +43,10 @@ const createRecurringScheduleSchema = z.object({
   serviceId: z.number().optional(),
   staffId: z.number().optional(),
   name: z.string().min(1),
-  frequency: z.enum(["daily", "weekly", "biweekly", "monthly", "quarterly", "yearly"]),
+  frequency: z.enum(["daily", "weekly", "biweekly", "monthly", "quarterly", "yearly", "custom"]).default("custom"),
+  // RFC 5545 RRULE — when present it drives the schedule and frequency is informational
+  rrule: z.string().nullable().optional(),
+  exdates: z.array(dateStringSchema).optional(),
   interval: z.number().min(1).default(1),
   dayOfWeek: z.number().min(0).max(6).optional(),
   dayOfMonth: z.number().min(1).max(31).optional(),
@@ -44,8 +65,57 @@ const createRecurringScheduleSchema = z.object({
     unitPrice: z.number(),
     amount: z.number(),
   })).optional(),
+}).refine((data) => data.rrule || data.frequency !== "custom", {
+  message: "Either a recurrence rule or a frequency is required",
+  path: ["rrule"],
+});
+
+const previewSchema = z.object({
+  rrule: z.string().optional(),
+  frequency: z.enum(["daily", "weekly", "biweekly", "monthly", "quarterly", "yearly", "custom"]).default("custom"),
+  interval: z.number().min(1).optional(),
+  dayOfWeek: z.number().min(0).max(6).optional(),
+  dayOfMonth: z.number().min(1).max(31).optional(),
+  startDate: dateStringSchema,
+  endDate: dateStringSchema.optional(),
+  exdates: z.array(dateStringSchema).optional(),
+  count: z.number().min(1).optional(),
 });
 
+const occurrenceEditSchema = z.object({
+  // "this" edits one occurrence; "following" splits the series at it
+  scope: z.enum(["this", "following"]),
+  skip: z.boolean().optional(),
+  date: dateStringSchema.optional(),
+  staffId: z.number().nullable().optional(),
+  jobTitle: z.string().min(1).optional(),
+  jobDescription: z.string().nullable().optional(),
+  rrule: z.string().optional(),
+});
+
+function todayString(): string {
+  return new Date().toISOString().split("T")[0];
+}
+
+/** Scheduled-for dates already generated for a schedule. */
+async function getGeneratedDates(scheduleId: number): Promise<Set<string>> {
+  const rows = await db
+    .select({ scheduledFor: recurringJobHistory.scheduledFor })
+    .from(recurringJobHistory)
+    .where(eq(recurringJobHistory.scheduleId, scheduleId));
+  return new Set(rows.map((row) => row.scheduledFor));
+}
+
+/**
+ * Normalize an optional RRULE from a request body. Returns undefined when
+ * none was sent, or an error message for a rule that doesn't parse.
+ */
+function parseRequestRRule(rrule: unknown): { rrule?: string; error?: string } {
+  if (rrule === undefined || rrule === null || rrule === "") return {};
+  const result = normalizeRRule(rrule);
+  return result.ok ? { rrule: result.rrule } : { error: result.message };
+}
+
 // Get all recurring schedules for a business
 router.get("/", async (req: Request, res: Response) => {
   try {
@@ -85,6 +155,7 @@ router.get("/", async (req: Request, res: Response) => {
 
         return {
           ...schedule,
+          ruleText: describeRRule(getScheduleRRule(schedule)),
           customer,
           service,
           staff: assignedStaff,
@@ -100,6 +171,48 @@ router.get("/", async (req: Request, res: Response) => {
   }
 });
 
+// Preview the next dates a rule would generate (for the create/edit form)
+router.post("/preview", async (req: Request, res: Response) => {
+  try {
+    if (!(req.user as any)?.businessId) {
+      return res.status(400).json({ error: "No business associated with your account" });
+    }
+    const data = previewSchema.parse(req.body);
+    const parsed = parseRequestRRule(data.rrule);
+    if (parsed.error) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    if (!parsed.rrule && data.frequency === "custom") {
+      return res.status(400).json({ error: "Either a recurrence rule or a frequency is required" });
+    }
+
+    const source: RecurrenceSource = {
+      rrule: parsed.rrule ?? null,
+      frequency: data.frequency,
+      interval: data.interval ?? 1,
+      dayOfWeek: data.dayOfWeek ?? null,
+      dayOfMonth: data.dayOfMonth ?? null,
+      startDate: data.startDate,
+      endDate: data.endDate ?? null,
+      exdates: data.exdates ?? [],
+    };
+    const from = data.startDate > todayString() ? data.startDate : todayString();
+    const rrule = getScheduleRRule(source);
+
+    res.json({
+      rrule,
+      ruleText: describeRRule(rrule),
+      dates: previewOccurrences(source, from, data.count ?? DEFAULT_PREVIEW_COUNT),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    console.error("Error previewing recurring schedule:", error);
+    res.status(500).json({ error: "Failed to preview recurring schedule" });
+  }
+});
+
 // Get a single recurring schedule
 router.get("/:id", async (req: Request, res: Response) => {
   try {
@@ -152,6 +265,7 @@ router.get("/:id", async (req: Request, res: Response) => {
 
     res.json({
       ...schedule,
+      ruleText: describeRRule(getScheduleRRule(schedule)),
       customer,
       service,
       staff: assignedStaff,
@@ -176,14 +290,20 @@ router.post("/", async (req: Request, res: Response) => {
     // Override with session-derived businessId to prevent IDOR
     scheduleData.businessId = sessionBusinessId;
 
-    // Calculate next run date
-    const nextRunDate = calculateNextRunDate(
-      data.startDate,
-      data.frequency,
-      data.interval,
-      data.dayOfWeek,
-      data.dayOfMonth
-    );
+    const parsed = parseRequestRRule(data.rrule);
+    if (parsed.error) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    scheduleData.rrule = parsed.rrule ?? null;
+
+    // First occurrence from today on
+    const nextRunDate = calculateNextRunDate({
+      ...scheduleData,
+      rrule: parsed.rrule ?? null,
+      dayOfWeek: data.dayOfWeek ?? null,
+      dayOfMonth: data.dayOfMonth ?? null,
+      endDate: data.endDate ?? null,
+    });
 
     const [schedule] = await db
       .insert(recurringSchedules)
@@ -192,6 +312,7 @@ router.post("/", async (req: Request, res: Response) => {
         invoiceAmount: scheduleData.invoiceAmount != null ? String(scheduleData.invoiceAmount) : null,
         invoiceTax: scheduleData.invoiceTax != null ? String(scheduleData.invoiceTax) : null,
         nextRunDate,
+        status: nextRunDate ? "active" : "completed",
       })
       .returning();
 
@@ -229,22 +350,35 @@ router.patch("/:id", async (req: Request, res: Response) => {
     const { items, ...updateData } = req.body;
     // Prevent IDOR — don't allow changing businessId
     delete updateData.businessId;
+    // Occurrence edits and series splits go through /:id/occurrences/:date
+    delete updateData.occurrenceOverrides;
+    delete updateData.parentScheduleId;
+
+    if ("rrule" in updateData) {
+      const parsed = parseRequestRRule(updateData.rrule);
+      if (parsed.error) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      updateData.rrule = parsed.rrule ?? null;
+      if (parsed.rrule && !updateData.frequency) updateData.frequency = "custom";
+    }
+    if (updateData.exdates !== undefined && !z.array(dateStringSchema).safeParse(updateData.exdates).success) {
+      return res.status(400).json({ error: "exdates must be a list of YYYY-MM-DD dates" });
+    }
 
     // Recalculate next run date if schedule parameters changed
-    if (updateData.frequency || updateData.interval || updateData.dayOfWeek || updateData.dayOfMonth) {
+    const ruleFields = ["rrule", "exdates", "frequency", "interval", "dayOfWeek", "dayOfMonth", "startDate", "endDate"];
+    if (ruleFields.some((field) => field in updateData)) {
       const [existingSchedule] = await db
         .select()
         .from(recurringSchedules)
-        .where(eq(recurringSchedules.id, id))
+        .where(and(eq(recurringSchedules.id, id), eq(recurringSchedules.businessId, sessionBusinessId)))
         .limit(1);
 
       if (existingSchedule) {
         updateData.nextRunDate = calculateNextRunDate(
-          updateData.startDate || existingSchedule.startDate,
-          updateData.frequency || existingSchedule.frequency,
-          updateData.interval || existingSchedule.interval,
-          updateData.dayOfWeek ?? existingSchedule.dayOfWeek,
-          updateData.dayOfMonth ?? existingSchedule.dayOfMonth
+          { ...existingSchedule, ...updateData },
+          await getGeneratedDates(id)
         );
       }
     }
@@ -379,19 +513,13 @@ router.post("/:id/resume", async (req: Request, res: Response) => {
       return res.status(403).json({ error: "Not authorized" });
     }
 
-    // Calculate next run date from today
-    const nextRunDate = calculateNextRunDate(
-      new Date().toISOString().split("T")[0],
-      existingSchedule.frequency,
-      existingSchedule.interval || 1,
-      existingSchedule.dayOfWeek ?? undefined,
-      existingSchedule.dayOfMonth ?? undefined
-    );
+    // Calculate next run date from today — occurrences missed while paused are skipped
+    const nextRunDate = calculateNextRunDate(existingSchedule, await getGeneratedDates(id));
 
     const [schedule] = await db
       .update(recurringSchedules)
       .set({
-        status: "active",
+        status: nextRunDate ? "active" : "completed",
         nextRunDate,
         updatedAt: new Date()
       })
@@ -424,7 +552,14 @@ router.post("/:id/run", async (req: Request, res: Response) => {
       return res.status(403).json({ error: "Not authorized" });
     }
 
-    const result = await executeRecurringSchedule(id);
+    if (!schedule.nextRunDate) {
+      return res.status(409).json({ error: "This schedule has no upcoming occurrences" });
+    }
+
+    const result = await executeRecurringSchedule(id, schedule.nextRunDate);
+    if (!result) {
+      return res.status(409).json({ error: "This occurrence was already generated" });
+    }
     res.json(result);
   } catch (error) {
     console.error("Error running recurring schedule:", error);
@@ -432,6 +567,211 @@ router.post("/:id/run", async (req: Request, res: Response) => {
   }
 });
 
+// Upcoming occurrences with any single-occurrence edits applied
+router.get("/:id/occurrences", async (req: Request, res: Response) => {
+  try {
+    const sessionBusinessId = (req.user as any)?.businessId;
+    if (!sessionBusinessId) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    const id = parseInt(req.params.id);
+
+    const [schedule] = await db
+      .select()
+      .from(recurringSchedules)
+      .where(and(eq(recurringSchedules.id, id), eq(recurringSchedules.businessId, sessionBusinessId)))
+      .limit(1);
+    if (!schedule) {
+      return res.status(404).json({ error: "Recurring schedule not found" });
+    }
+
+    const count = parseInt(req.query.count as string) || DEFAULT_PREVIEW_COUNT;
+    const today = todayString();
+    const generated = await getGeneratedDates(id);
+    const occurrences = previewOccurrences(schedule, schedule.startDate > today ? schedule.startDate : today, count)
+      .map((day) => ({ ...resolveOccurrence(schedule, day), generated: generated.has(day) }));
+
+    res.json({
+      rrule: getScheduleRRule(schedule),
+      ruleText: describeRRule(getScheduleRRule(schedule)),
+      exdates: schedule.exdates ?? [],
+      occurrences,
+    });
+  } catch (error) {
+    console.error("Error fetching recurring schedule occurrences:", error);
+    res.status(500).json({ error: "Failed to fetch occurrences" });
+  }
+});
+
+/**
+ * Edit one occurrence ("this") or the series from an occurrence on
+ * ("following"). A "this" edit is stored as an EXDATE (skip) or an override
+ * keyed by the original date. A "following" edit ends this schedule the day
+ * before and continues in a new schedule linked by parentScheduleId, so the
+ * generated history of the earlier occurrences is untouched.
+ */
+router.patch("/:id/occurrences/:date", async (req: Request, res: Response) => {
+  try {
+    const sessionBusinessId = (req.user as any)?.businessId;
+    if (!sessionBusinessId) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    const id = parseInt(req.params.id);
+    const occurrenceDate = req.params.date;
+    if (!isDateString(occurrenceDate)) {
+      return res.status(400).json({ error: "Occurrence date must be YYYY-MM-DD" });
+    }
+    const data = occurrenceEditSchema.parse(req.body);
+
+    const [schedule] = await db
+      .select()
+      .from(recurringSchedules)
+      .where(and(eq(recurringSchedules.id, id), eq(recurringSchedules.businessId, sessionBusinessId)))
+      .limit(1);
+    if (!schedule) {
+      return res.status(404).json({ error: "Recurring schedule not found" });
+    }
+
+    const exdates = schedule.exdates ?? [];
+    const isSkipped = exdates.includes(occurrenceDate);
+    const isOccurrence = isSkipped
+      || expandOccurrences(schedule, { from: occurrenceDate, to: occurrenceDate }).length > 0;
+    if (!isOccurrence) {
+      return res.status(404).json({ error: "No occurrence on that date" });
+    }
+
+    const generated = await getGeneratedDates(id);
+
+    if (data.scope === "this") {
+      if (generated.has(occurrenceDate)) {
+        return res.status(409).json({ error: "This occurrence already has a job — edit the job instead" });
+      }
+
+      const overrides = { ...(schedule.occurrenceOverrides ?? {}) };
+      let nextExdates = exdates;
+      if (data.skip) {
+        nextExdates = isSkipped ? exdates : [...exdates, occurrenceDate].sort();
+        delete overrides[occurrenceDate];
+      } else {
+        if (isSkipped) nextExdates = exdates.filter((day) => day !== occurrenceDate);
+        const override = { ...overrides[occurrenceDate] };
+        if (data.date !== undefined) override.date = data.date;
+        if (data.staffId !== undefined) override.staffId = data.staffId;
+        if (data.jobTitle !== undefined) override.jobTitle = data.jobTitle;
+        if (data.jobDescription !== undefined) override.jobDescription = data.jobDescription;
+        if (Object.keys(override).length > 0) overrides[occurrenceDate] = override;
+      }
+
+      const nextRunDate = calculateNextRunDate({ ...schedule, exdates: nextExdates }, generated);
+      const [updated] = await db
+        .update(recurringSchedules)
+        .set({
+          exdates: nextExdates,
+          occurrenceOverrides: overrides,
+          nextRunDate,
+          updatedAt: new Date(),
+        })
+        .where(eq(recurringSchedules.id, id))
+        .returning();
+      return res.json(updated);
+    }
+
+    // scope === "following"
+    const parsed = parseRequestRRule(data.rrule);
+    if (parsed.error) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    if (data.date && data.date < todayString()) {
+      return res.status(400).json({ error: "The new series can't start in the past" });
+    }
+
+    const keepFrom = <T,>(record: Record<string, T>) =>
+      Object.fromEntries(Object.entries(record).filter(([day]) => day >= occurrenceDate));
+    const keepBefore = <T,>(record: Record<string, T>) =>
+      Object.fromEntries(Object.entries(record).filter(([day]) => day < occurrenceDate));
+    const overrides = schedule.occurrenceOverrides ?? {};
+
+    const result = await db.transaction(async (tx) => {
+      const endedSchedule = { ...schedule, endDate: previousDay(occurrenceDate) };
+      const endedNextRun = occurrenceDate <= schedule.startDate
+        ? null
+        : calculateNextRunDate(endedSchedule, generated);
+      const [ended] = await tx
+        .update(recurringSchedules)
+        .set({
+          endDate: endedSchedule.endDate,
+          exdates: exdates.filter((day) => day < occurrenceDate),
+          occurrenceOverrides: keepBefore(overrides),
+          nextRunDate: endedNextRun,
+          status: endedNextRun ? schedule.status : "completed",
+          updatedAt: new Date(),
+        })
+        .where(eq(recurringSchedules.id, id))
+        .returning();
+
+      // Skipping "this and following" just ends the series
+      if (data.skip) return { schedule: ended, continuation: null };
+
+      const continuationSource: RecurrenceSource = {
+        ...schedule,
+        rrule: parsed.rrule ?? rebaseRRule(schedule, occurrenceDate),
+        startDate: data.date ?? occurrenceDate,
+        exdates: exdates.filter((day) => day >= occurrenceDate),
+      };
+      const nextRunDate = calculateNextRunDate(continuationSource);
+      const [continuation] = await tx
+        .insert(recurringSchedules)
+        .values({
+          businessId: schedule.businessId,
+          customerId: schedule.customerId,
+          serviceId: schedule.serviceId,
+          staffId: data.staffId !== undefined ? data.staffId : schedule.staffId,
+          name: schedule.name,
+          frequency: parsed.rrule || schedule.rrule ? "custom" : schedule.frequency,
+          interval: schedule.interval,
+          dayOfWeek: schedule.dayOfWeek,
+          dayOfMonth: schedule.dayOfMonth,
+          rrule: continuationSource.rrule,
+          exdates: continuationSource.exdates,
+          occurrenceOverrides: keepFrom(overrides),
+          parentScheduleId: schedule.id,
+          startDate: continuationSource.startDate,
+          endDate: schedule.endDate,
+          nextRunDate,
+          jobTitle: data.jobTitle ?? schedule.jobTitle,
+          jobDescription: data.jobDescription !== undefined ? data.jobDescription : schedule.jobDescription,
+          estimatedDuration: schedule.estimatedDuration,
+          autoCreateInvoice: schedule.autoCreateInvoice,
+          invoiceAmount: schedule.invoiceAmount,
+          invoiceTax: schedule.invoiceTax,
+          invoiceNotes: schedule.invoiceNotes,
+          status: nextRunDate ? schedule.status : "completed",
+        })
+        .returning();
+
+      const items = await tx
+        .select()
+        .from(recurringScheduleItems)
+        .where(eq(recurringScheduleItems.scheduleId, id));
+      if (items.length > 0) {
+        await tx.insert(recurringScheduleItems).values(
+          items.map(({ id: _itemId, ...item }) => ({ ...item, scheduleId: continuation.id }))
+        );
+      }
+
+      return { schedule: ended, continuation };
+    });
+
+    res.json(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    console.error("Error editing recurring occurrence:", error);
+    res.status(500).json({ error: "Failed to edit occurrence" });
+  }
+});
+
 // Get history for a recurring schedule
 router.get("/:id/history", async (req: Request, res: Response) => {
   try {
@@ -485,233 +825,193 @@ router.get("/:id/history", async (req: Request, res: Response) => {
   }
 });
 
-// Helper function to calculate next run date
+// Next pending occurrence from today on (or from startDate if it's later)
 function calculateNextRunDate(
-  startDate: string,
-  frequency: string,
-  interval: number,
-  dayOfWeek?: number,
-  dayOfMonth?: number
-): string {
-  const start = new Date(startDate);
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-
-  let nextDate = new Date(start);
-  nextDate.setHours(0, 0, 0, 0);
-
-  // If start date is in the past, calculate from today
-  if (nextDate < today) {
-    nextDate = new Date(today);
-  }
-
-  switch (frequency) {
-    case "daily":
-      // Already set to today or start date
-      break;
-
-    case "weekly":
-      if (dayOfWeek !== undefined) {
-        // Find the next occurrence of the specified day
-        while (nextDate.getDay() !== dayOfWeek) {
-          nextDate.setDate(nextDate.getDate() + 1);
-        }
-      }
-      break;
-
-    case "biweekly":
-      if (dayOfWeek !== undefined) {
-        while (nextDate.getDay() !== dayOfWeek) {
-          nextDate.setDate(nextDate.getDate() + 1);
-        }
-      }
-      break;
-
-    case "monthly":
-      if (dayOfMonth !== undefined) {
-        nextDate.setDate(dayOfMonth);
-        if (nextDate < today) {
-          nextDate.setMonth(nextDate.getMonth() + 1);
-        }
-      }
-      break;
-
-    case "quarterly":
-      if (dayOfMonth !== undefined) {
-        nextDate.setDate(dayOfMonth);
-        if (nextDate < today) {
-          nextDate.setMonth(nextDate.getMonth() + 3);
-        }
-      }
-      break;
-
-    case "yearly":
-      if (nextDate < today) {
-        nextDate.setFullYear(nextDate.getFullYear() + 1);
-      }
-      break;
-  }
-
-  return nextDate.toISOString().split("T")[0];
+  schedule: RecurrenceSource,
+  generated: ReadonlySet<string> = new Set()
+): string | null {
+  const today = todayString();
+  return nextPendingOccurrence(schedule, schedule.startDate > today ? schedule.startDate : today, generated);
 }
 
-// Execute a recurring schedule - create job and optionally invoice
-async function executeRecurringSchedule(scheduleId: number) {
-  const [schedule] = await db
-    .select()
-    .from(recurringSchedules)
-    .where(eq(recurringSchedules.id, scheduleId))
-    .limit(1);
-
-  if (!schedule) {
-    throw new Error("Schedule not found");
-  }
-
-  if (schedule.status !== "active") {
-    throw new Error("Schedule is not active");
-  }
-
-  // Create the job
-  const [job] = await db
-    .insert(jobs)
-    .values({
-      businessId: schedule.businessId,
-      customerId: schedule.customerId,
-      staffId: schedule.staffId,
-      title: schedule.jobTitle,
-      description: schedule.jobDescription,
-      scheduledDate: schedule.nextRunDate,
-      status: "pending",
-    })
-    .returning();
-
-  let invoice: Invoice | null = null;
-
-  // Create invoice if auto-create is enabled
-  if (schedule.autoCreateInvoice && schedule.invoiceAmount) {
-    // Get schedule items
-    const items = await db
-      .select()
-      .from(recurringScheduleItems)
-      .where(eq(recurringScheduleItems.scheduleId, scheduleId));
-
-    // Generate sequential invoice number (atomic)
-    const { generateInvoiceNumber } = await import('../utils/invoiceNumber');
-    const invoiceNumber = await generateInvoiceNumber(schedule.businessId);
+/**
+ * Create the job (and invoice) for one occurrence. The schedule row is
+ * locked and recurringJobHistory checked inside the transaction, so the
+ * scheduler and "Run Now" can race without generating an occurrence twice.
+ * Returns null when the occurrence was already generated.
+ */
+async function generateOccurrence(schedule: RecurringSchedule, occurrenceDate: string) {
+  const occurrence = resolveOccurrence(schedule, occurrenceDate);
+
+  const result = await db.transaction(async (tx) => {
+    await tx
+      .select({ id: recurringSchedules.id })
+      .from(recurringSchedules)
+      .where(eq(recurringSchedules.id, schedule.id))
+      .for('update');
 
-    // Calculate due date (30 days from now)
-    const dueDate = new Date();
-    dueDate.setDate(dueDate.getDate() + 30);
+    const [existing] = await tx
+      .select({ id: recurringJobHistory.id })
+      .from(recurringJobHistory)
+      .where(and(
+        eq(recurringJobHistory.scheduleId, schedule.id),
+        eq(recurringJobHistory.scheduledFor, occurrenceDate)
+      ))
+      .limit(1);
+    if (existing) return null;
 
-    [invoice] = await db
-      .insert(invoices)
+    // Create the job
+    const [job] = await tx
+      .insert(jobs)
       .values({
         businessId: schedule.businessId,
         customerId: schedule.customerId,
-        jobId: job.id,
-        invoiceNumber,
-        amount: schedule.invoiceAmount,
-        tax: schedule.invoiceTax || '0',
-        total: String(toMoney(schedule.invoiceAmount) + toMoney(schedule.invoiceTax)),
-        dueDate: dueDate.toISOString().split("T")[0],
+        staffId: occurrence.staffId,
+        title: occurrence.jobTitle,
+        description: occurrence.jobDescription,
+        scheduledDate: occurrence.date,
         status: "pending",
-        notes: schedule.invoiceNotes,
       })
       .returning();
 
-    // Create invoice items
-    if (items.length > 0 && invoice) {
-      await db.insert(invoiceItems).values(
-        items.map((item) => ({
-          invoiceId: invoice!.id,
-          description: item.description,
-          quantity: item.quantity,
-          unitPrice: item.unitPrice,
-          amount: item.amount,
-        }))
-      );
+    let invoice: Invoice | null = null;
+
+    // Create invoice if auto-create is enabled
+    if (schedule.autoCreateInvoice && schedule.invoiceAmount) {
+      // Get schedule items
+      const items = await tx
+        .select()
+        .from(recurringScheduleItems)
+        .where(eq(recurringScheduleItems.scheduleId, schedule.id));
+
+      // Generate sequential invoice number (atomic)
+      const { generateInvoiceNumber } = await import('../utils/invoiceNumber');
+      const invoiceNumber = await generateInvoiceNumber(schedule.businessId);
+
+      // Calculate due date (30 days from now)
+      const dueDate = new Date();
+      dueDate.setDate(dueDate.getDate() + 30);
+
+      [invoice] = await tx
+        .insert(invoices)
+        .values({
+          businessId: schedule.businessId,
+          customerId: schedule.customerId,
+          jobId: job.id,
+          invoiceNumber,
+          amount: schedule.invoiceAmount,
+          tax: schedule.invoiceTax || '0',
+          total: String(toMoney(schedule.invoiceAmount) + toMoney(schedule.invoiceTax)),
+          dueDate: dueDate.toISOString().split("T")[0],
+          status: "pending",
+          notes: schedule.invoiceNotes,
+        })
+        .returning();
+
+      // Create invoice items
+      if (items.length > 0 && invoice) {
+        await tx.insert(invoiceItems).values(
+          items.map((item) => ({
+            invoiceId: invoice!.id,
+            description: item.description,
+            quantity: item.quantity,
+            unitPrice: item.unitPrice,
+            amount: item.amount,
+          }))
+        );
+      }
     }
-  }
 
-  // Record in history
-  await db.insert(recurringJobHistory).values({
-    scheduleId: schedule.id,
-    jobId: job.id,
-    invoiceId: invoice?.id,
-    scheduledFor: schedule.nextRunDate!,
+    // Record in history — keyed by the original occurrence date
+    await tx.insert(recurringJobHistory).values({
+      scheduleId: schedule.id,
+      jobId: job.id,
+      invoiceId: invoice?.id,
+      scheduledFor: occurrenceDate,
+    });
+
+    return { job, invoice };
   });
 
-  // Calculate next run date and update schedule
-  const nextRunDate = calculateNextRunAfterExecution(schedule);
+  // Inserted through tx, not storage, so announce them once committed
+  if (result) {
+    publishRealtimeEvent(schedule.businessId, "jobs");
+    if (result.invoice) publishRealtimeEvent(schedule.businessId, "invoices");
+  }
+  return result;
+}
+
+/** Move nextRunDate to the first occurrence not yet generated, completing the schedule when none are left. */
+async function advanceSchedule(schedule: RecurringSchedule, lastRunDate: string | null, jobsCreated: number) {
+  const generated = await getGeneratedDates(schedule.id);
+  const nextRunDate = nextPendingOccurrence(schedule, schedule.nextRunDate || schedule.startDate, generated);
 
   await db
     .update(recurringSchedules)
     .set({
-      lastRunDate: schedule.nextRunDate,
+      lastRunDate: lastRunDate ?? schedule.lastRunDate,
       nextRunDate,
-      totalJobsCreated: (schedule.totalJobsCreated || 0) + 1,
+      status: nextRunDate ? schedule.status : "completed",
+      totalJobsCreated: (schedule.totalJobsCreated || 0) + jobsCreated,
       updatedAt: new Date(),
     })
-    .where(eq(recurringSchedules.id, scheduleId));
-
-  return { job, invoice };
+    .where(eq(recurringSchedules.id, schedule.id));
 }
 
-// Calculate next run date after an execution
-function calculateNextRunAfterExecution(schedule: any): string {
-  const lastRun = new Date(schedule.nextRunDate);
-  let nextDate = new Date(lastRun);
-
-  switch (schedule.frequency) {
-    case "daily":
-      nextDate.setDate(nextDate.getDate() + (schedule.interval || 1));
-      break;
-
-    case "weekly":
-      nextDate.setDate(nextDate.getDate() + 7 * (schedule.interval || 1));
-      break;
-
-    case "biweekly":
-      nextDate.setDate(nextDate.getDate() + 14);
-      break;
-
-    case "monthly":
-      nextDate.setMonth(nextDate.getMonth() + (schedule.interval || 1));
-      break;
-
-    case "quarterly":
-      nextDate.setMonth(nextDate.getMonth() + 3);
-      break;
+// Execute one occurrence of a recurring schedule - create job and optionally invoice.
+// Returns null when the occurrence was already generated.
+async function executeRecurringSchedule(scheduleId: number, occurrenceDate: string) {
+  const [schedule] = await db
+    .select()
+    .from(recurringSchedules)
+    .where(eq(recurringSchedules.id, scheduleId))
+    .limit(1);
 
-    case "yearly":
-      nextDate.setFullYear(nextDate.getFullYear() + 1);
-      break;
+  if (!schedule) {
+    throw new Error("Schedule not found");
   }
 
-  // Check if we've passed the end date
-  if (schedule.endDate && nextDate > new Date(schedule.endDate)) {
-    // Mark as completed by returning null-like value
-    return schedule.endDate;
+  if (schedule.status !== "active") {
+    throw new Error("Schedule is not active");
   }
 
-  return nextDate.toISOString().split("T")[0];
+  const result = await generateOccurrence(schedule, occurrenceDate);
+  await advanceSchedule(schedule, result ? occurrenceDate : null, result ? 1 : 0);
+  return result;
+}
+
+/**
+ * Original occurrence dates that are due by `today`: every pending date from
+ * nextRunDate up to today, plus occurrences moved onto or before today from
+ * a later original date. Occurrences moved past today wait for their new day.
+ */
+function getDueOccurrences(schedule: RecurringSchedule, today: string, generated: ReadonlySet<string>): string[] {
+  const overrides = schedule.occurrenceOverrides ?? {};
+  const pointer = schedule.nextRunDate || schedule.startDate;
+  const horizon = Object.keys(overrides).reduce((max, day) => (day > max ? day : max), today);
+
+  return expandOccurrences(schedule, { from: pointer, to: horizon })
+    .filter((day) => !generated.has(day) && resolveOccurrence(schedule, day).date <= today);
 }
 
 // Export function for scheduler service to use
 export async function processDueRecurringSchedules() {
-  const today = new Date().toISOString().split("T")[0];
+  const today = todayString();
 
-  // Find all active schedules due today or earlier
+  // Active schedules due today or earlier, plus any with moved occurrences
   const dueSchedules = await db
     .select()
     .from(recurringSchedules)
     .where(
       and(
         eq(recurringSchedules.status, "active"),
-        lte(recurringSchedules.nextRunDate, today),
+        or(
+          lte(recurringSchedules.nextRunDate, today),
+          sql`${recurringSchedules.occurrenceOverrides} <> '{}'::jsonb`
+        ),
         or(
           isNull(recurringSchedules.endDate),
-          gte(recurringSchedules.endDate, new Date().toISOString().split("T")[0])
+          gte(recurringSchedules.endDate, today)
         )
       )
     );
@@ -719,8 +1019,18 @@ export async function processDueRecurringSchedules() {
   const results = [];
   for (const schedule of dueSchedules) {
     try {
-      const result = await executeRecurringSchedule(schedule.id);
-      results.push({ scheduleId: schedule.id, success: true, ...result });
+      const dueDates = getDueOccurrences(schedule, today, await getGeneratedDates(schedule.id));
+      if (dueDates.length === 0) continue;
+
+      let created = 0;
+      for (const occurrenceDate of dueDates) {
+        const result = await generateOccurrence(schedule, occurrenceDate);
+        if (result) {
+          created++;
+          results.push({ scheduleId: schedule.id, occurrenceDate, success: true, ...result });
+        }
+      }
+      await advanceSchedule(schedule, dueDates[dueDates.length - 1], created);
     } catch (error: any) {
       results.push({ scheduleId: schedule.id, success: false, error: error.message });
     }
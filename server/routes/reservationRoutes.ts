@@ -1,6 +1,20 @@
 import { Router, Request, Response } from "express";
+import { z } from "zod";
 import { storage } from "../storage";
 import { isAuthenticated } from "../auth";
+import { requireRole } from "../middleware/permissions";
+import { insertRestaurantTableSchema } from "@shared/schema";
+import { getStatusTimestamps, moveReservationToTables, type MoveResult } from "../services/tableAssignmentService";
+import {
+  getActiveWaitlist,
+  getWaitlistUrl,
+  joinWaitlist,
+  notifyWaitlistEntry,
+  removeWaitlistEntry,
+  seatWaitlistEntry,
+  type WaitlistResult,
+} from "../services/waitlistService";
+import QRCode from "qrcode";
 
 const router = Router();
 
@@ -103,6 +117,10 @@ router.put("/restaurant-reservations/:id", isAuthenticated, async (req: Request,
         updates[field] = req.body[field];
       }
     }
+    // Seating / clearing from the host stand stamps when the table was taken and freed
+    if (updates.status && updates.status !== existing.status) {
+      Object.assign(updates, getStatusTimestamps(updates.status));
+    }
 
     const updated = await storage.updateRestaurantReservation(id, updates);
     const customer = await storage.getCustomer(updated.customerId);
@@ -112,4 +130,255 @@ router.put("/restaurant-reservations/:id", isAuthenticated, async (req: Request,
   }
 });
 
+const MOVE_ERROR_STATUS: Record<Extract<MoveResult, { ok: false }>["reason"], number> = {
+  invalid_table: 400,
+  too_small: 400,
+  not_movable: 400,
+  table_conflict: 409,
+};
+
+// Host drag-and-drop: put a reservation on different table(s)
+router.put("/restaurant-reservations/:id/tables", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid reservation ID" });
+    }
+    const { tableIds } = z.object({ tableIds: z.array(z.number().int()).min(1).max(10) }).parse(req.body);
+
+    const existing = await storage.getRestaurantReservation(id);
+    if (!existing || !verifyBusinessOwnership(existing, req)) {
+      return res.status(404).json({ message: "Reservation not found" });
+    }
+
+    const result = await moveReservationToTables(existing, tableIds);
+    if (!result.ok) {
+      return res.status(MOVE_ERROR_STATUS[result.reason]).json({ message: result.message });
+    }
+    const customer = await storage.getCustomer(result.reservation.customerId);
+    res.json({ ...result.reservation, customer });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ errors: error.format() });
+    }
+    res.status(500).json({ message: "Error moving reservation" });
+  }
+});
+
+// Host view: every table plus the day's reservations
+router.get("/restaurant-floor", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const businessId = getBusinessId(req);
+    const date = req.query.date as string;
+    if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return res.status(400).json({ message: "Date is required (YYYY-MM-DD)" });
+    }
+
+    const [tables, reservations] = await Promise.all([
+      storage.getRestaurantTables(businessId, { activeOnly: true }),
+      storage.getRestaurantReservations(businessId, { date }),
+    ]);
+    const populatedReservations = await Promise.all(
+      reservations.map(async (reservation) => {
+        const customer = await storage.getCustomer(reservation.customerId);
+        return { ...reservation, customer };
+      })
+    );
+
+    res.json({ date, tables, reservations: populatedReservations });
+  } catch (error) {
+    res.status(500).json({ message: "Error fetching floor plan" });
+  }
+});
+
+// =================== RESTAURANT TABLES API ===================
+
+const restaurantTableSchema = insertRestaurantTableSchema.omit({ businessId: true }).extend({
+  name: z.string().trim().min(1).max(50),
+  capacity: z.number().int().min(1).max(50),
+  minCapacity: z.number().int().min(1).max(50).optional(),
+});
+
+router.get("/restaurant-tables", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const tables = await storage.getRestaurantTables(getBusinessId(req));
+    res.json(tables);
+  } catch (error) {
+    res.status(500).json({ message: "Error fetching tables" });
+  }
+});
+
+router.post("/restaurant-tables", isAuthenticated, requireRole("owner", "manager"), async (req: Request, res: Response) => {
+  try {
+    const validatedData = restaurantTableSchema.parse(req.body);
+    if ((validatedData.minCapacity || 1) > validatedData.capacity) {
+      return res.status(400).json({ message: "Minimum party size can't exceed the table's capacity" });
+    }
+    const table = await storage.createRestaurantTable({ ...validatedData, businessId: getBusinessId(req) });
+    res.status(201).json(table);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ errors: error.format() });
+    }
+    res.status(500).json({ message: "Error creating table" });
+  }
+});
+
+router.put("/restaurant-tables/:id", isAuthenticated, requireRole("owner", "manager"), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid table ID" });
+    }
+    const existing = await storage.getRestaurantTable(id);
+    if (!existing || !verifyBusinessOwnership(existing, req)) {
+      return res.status(404).json({ message: "Table not found" });
+    }
+
+    const validatedData = restaurantTableSchema.partial().parse(req.body);
+    const capacity = validatedData.capacity ?? existing.capacity;
+    const minCapacity = validatedData.minCapacity ?? existing.minCapacity ?? 1;
+    if (minCapacity > capacity) {
+      return res.status(400).json({ message: "Minimum party size can't exceed the table's capacity" });
+    }
+    const table = await storage.updateRestaurantTable(id, validatedData);
+    res.json(table);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ errors: error.format() });
+    }
+    res.status(500).json({ message: "Error updating table" });
+  }
+});
+
+// Reservations keep the stale id in tableIds; it simply stops blocking anything
+router.delete("/restaurant-tables/:id", isAuthenticated, requireRole("owner", "manager"), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid table ID" });
+    }
+    const existing = await storage.getRestaurantTable(id);
+    if (!existing || !verifyBusinessOwnership(existing, req)) {
+      return res.status(404).json({ message: "Table not found" });
+    }
+    await storage.deleteRestaurantTable(id);
+    res.status(204).send();
+  } catch (error) {
+    res.status(500).json({ message: "Error deleting table" });
+  }
+});
+
+// =================== WALK-IN WAITLIST API ===================
+
+const WAITLIST_ERROR_STATUS: Record<Extract<WaitlistResult, { ok: false }>["reason"], number> = {
+  disabled: 400,
+  party_too_large: 400,
+  already_waiting: 409,
+  not_active: 409,
+};
+
+const waitlistJoinSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  phone: z.string().regex(/^\+?1?\d{10,15}$/, "Please enter a valid phone number"),
+  partySize: z.number().int().min(1).max(50),
+  quotedWaitMinutes: z.number().int().min(0).max(600).nullable().optional(),
+  notes: z.string().max(500).nullable().optional(),
+});
+
+// The current queue, in line order
+router.get("/waitlist", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const business = await storage.getBusiness(getBusinessId(req));
+    if (!business) {
+      return res.status(404).json({ message: "Business not found" });
+    }
+    const queue = await getActiveWaitlist(business.id);
+    res.json({
+      enabled: !!business.waitlistEnabled,
+      minutesPerParty: business.waitlistMinutesPerParty || 10,
+      entries: queue.map((entry, index) => ({ ...entry, position: index + 1 })),
+    });
+  } catch (error) {
+    res.status(500).json({ message: "Error fetching waitlist" });
+  }
+});
+
+// Printable QR code for the public join page
+router.get("/waitlist/qr", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const business = await storage.getBusiness(getBusinessId(req));
+    const url = business ? getWaitlistUrl(business) : null;
+    if (!url) {
+      return res.status(400).json({ message: "Set up your booking page URL to get a waitlist QR code" });
+    }
+    const qrCode = await QRCode.toDataURL(url, { width: 480, margin: 2 });
+    res.json({ url, qrCode });
+  } catch (error) {
+    res.status(500).json({ message: "Error generating QR code" });
+  }
+});
+
+// Host adds a walk-in
+router.post("/waitlist", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const validatedData = waitlistJoinSchema.parse(req.body);
+    const business = await storage.getBusiness(getBusinessId(req));
+    if (!business) {
+      return res.status(404).json({ message: "Business not found" });
+    }
+    const result = await joinWaitlist(business, { ...validatedData, source: "host" });
+    if (!result.ok) {
+      return res.status(WAITLIST_ERROR_STATUS[result.reason]).json({ message: result.message });
+    }
+    res.status(201).json(result.entry);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ errors: error.format() });
+    }
+    res.status(500).json({ message: "Error adding to waitlist" });
+  }
+});
+
+// Page (notify), seat or remove a party
+router.post("/waitlist/:id/:action", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid waitlist entry ID" });
+    }
+    const { action } = req.params;
+    if (action !== "notify" && action !== "seat" && action !== "remove") {
+      return res.status(404).json({ message: "Unknown waitlist action" });
+    }
+
+    const [entry, business] = await Promise.all([
+      storage.getWaitlistEntry(id),
+      storage.getBusiness(getBusinessId(req)),
+    ]);
+    if (!entry || !business || !verifyBusinessOwnership(entry, req)) {
+      return res.status(404).json({ message: "Waitlist entry not found" });
+    }
+
+    let result: WaitlistResult;
+    if (action === "notify") {
+      result = await notifyWaitlistEntry(business, entry);
+    } else if (action === "seat") {
+      result = await seatWaitlistEntry(business, entry);
+    } else {
+      const { status } = z.object({ status: z.enum(["cancelled", "no_show"]).default("cancelled") }).parse(req.body ?? {});
+      result = await removeWaitlistEntry(business, entry, status);
+    }
+    if (!result.ok) {
+      return res.status(WAITLIST_ERROR_STATUS[result.reason]).json({ message: result.message });
+    }
+    res.json(result.entry);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ errors: error.format() });
+    }
+    res.status(500).json({ message: "Error updating waitlist entry" });
+  }
+});
+
 export default router;
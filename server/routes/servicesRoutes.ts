@@ -1,8 +1,9 @@
 import { Router, Request, Response } from "express";
 import { storage } from "../storage";
-import { insertServiceSchema } from "@shared/schema";
+import { insertServiceSchema, insertServiceAddonSchema, insertResourceSchema } from "@shared/schema";
 import { z } from "zod";
 import { isAuthenticated, checkIsAdmin, checkBelongsToBusiness } from "../auth";
+import { requireRole } from "../middleware/permissions";
 import { dataCache } from "../services/callToolHandlers";
 import retellProvisioningService from "../services/retellProvisioningService";
 import { coerceMoneyFields } from "../utils/money";
@@ -233,4 +234,155 @@ router.delete("/services/:id", isAuthenticated, async (req: Request, res: Respon
   }
 });
 
+// =================== SERVICE ADD-ONS API ===================
+// Extras booked on top of a service — their price and minutes are added to
+// the appointment line (see appointmentLineService).
+
+const serviceAddonSchema = insertServiceAddonSchema.omit({ businessId: true }).extend({
+  name: z.string().trim().min(1).max(80),
+  durationMinutes: z.number().int().min(0).max(480),
+});
+
+router.get("/service-addons", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const serviceId = req.query.serviceId ? parseInt(req.query.serviceId as string) : undefined;
+    const addons = await storage.getServiceAddons(getBusinessId(req), { serviceId });
+    res.json(addons);
+  } catch (error) {
+    res.status(500).json({ message: "Error fetching add-ons" });
+  }
+});
+
+router.post("/service-addons", isAuthenticated, requireRole("owner", "manager"), async (req: Request, res: Response) => {
+  try {
+    const businessId = getBusinessId(req);
+    const validatedData = serviceAddonSchema.parse(coerceMoneyFields(req.body));
+    const service = await storage.getService(validatedData.serviceId);
+    if (!service || service.businessId !== businessId) {
+      return res.status(404).json({ message: "Service not found" });
+    }
+    const addon = await storage.createServiceAddon({ ...validatedData, businessId });
+    retellProvisioningService.debouncedUpdateRetellAgent(businessId);
+    res.status(201).json(addon);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ errors: error.format() });
+    }
+    res.status(500).json({ message: "Error creating add-on" });
+  }
+});
+
+router.put("/service-addons/:id", isAuthenticated, requireRole("owner", "manager"), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid add-on ID" });
+    }
+    const existing = await storage.getServiceAddon(id);
+    if (!existing || !verifyBusinessOwnership(existing, req)) {
+      return res.status(404).json({ message: "Add-on not found" });
+    }
+    // An add-on stays with the service it was created for
+    const validatedData = serviceAddonSchema.omit({ serviceId: true }).partial().parse(coerceMoneyFields(req.body));
+    const addon = await storage.updateServiceAddon(id, validatedData);
+    retellProvisioningService.debouncedUpdateRetellAgent(existing.businessId);
+    res.json(addon);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ errors: error.format() });
+    }
+    res.status(500).json({ message: "Error updating add-on" });
+  }
+});
+
+// Booked appointments keep their snapshot of the add-on
+router.delete("/service-addons/:id", isAuthenticated, requireRole("owner", "manager"), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid add-on ID" });
+    }
+    const existing = await storage.getServiceAddon(id);
+    if (!existing || !verifyBusinessOwnership(existing, req)) {
+      return res.status(404).json({ message: "Add-on not found" });
+    }
+    await storage.deleteServiceAddon(id, existing.businessId);
+    retellProvisioningService.debouncedUpdateRetellAgent(existing.businessId);
+    res.status(204).end();
+  } catch (error) {
+    res.status(500).json({ message: "Error deleting add-on" });
+  }
+});
+
+// =================== BOOKABLE RESOURCES API ===================
+// Rooms, chairs, stations and lifts that services with a requiredResourceType
+// book alongside staff (see resourceBookingService).
+
+const resourceSchema = insertResourceSchema.omit({ businessId: true }).extend({
+  name: z.string().trim().min(1).max(50),
+  resourceType: z.string().trim().min(1).max(50),
+  capacity: z.number().int().min(1).max(50),
+});
+
+router.get("/resources", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const resources = await storage.getResources(getBusinessId(req));
+    res.json(resources);
+  } catch (error) {
+    res.status(500).json({ message: "Error fetching resources" });
+  }
+});
+
+router.post("/resources", isAuthenticated, requireRole("owner", "manager"), async (req: Request, res: Response) => {
+  try {
+    const validatedData = resourceSchema.parse(req.body);
+    const resource = await storage.createResource({ ...validatedData, businessId: getBusinessId(req) });
+    res.status(201).json(resource);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ errors: error.format() });
+    }
+    res.status(500).json({ message: "Error creating resource" });
+  }
+});
+
+router.put("/resources/:id", isAuthenticated, requireRole("owner", "manager"), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid resource ID" });
+    }
+    const existing = await storage.getResource(id);
+    if (!existing || !verifyBusinessOwnership(existing, req)) {
+      return res.status(404).json({ message: "Resource not found" });
+    }
+    const validatedData = resourceSchema.partial().parse(req.body);
+    const resource = await storage.updateResource(id, validatedData);
+    res.json(resource);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ errors: error.format() });
+    }
+    res.status(500).json({ message: "Error updating resource" });
+  }
+});
+
+// Appointments keep the stale resourceId; it simply stops blocking anything
+router.delete("/resources/:id", isAuthenticated, requireRole("owner", "manager"), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid resource ID" });
+    }
+    const existing = await storage.getResource(id);
+    if (!existing || !verifyBusinessOwnership(existing, req)) {
+      return res.status(404).json({ message: "Resource not found" });
+    }
+    await storage.deleteResource(id);
+    res.status(204).end();
+  } catch (error) {
+    res.status(500).json({ message: "Error deleting resource" });
+  }
+});
+
 export default router;
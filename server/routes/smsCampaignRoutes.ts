@@ -21,6 +21,7 @@ const createCampaignSchema = z.object({
     tags: z.array(z.string()).optional(),
     minimumVisits: z.number().int().positive().optional(),
     segment: z.enum(['loyal', 'at_risk', 'new', 'lapsed']).optional(),
+    customFields: z.record(z.string().max(200)).optional(),
   }).optional(),
   steps: z.array(z.object({
     stepNumber: z.number().int().positive(),
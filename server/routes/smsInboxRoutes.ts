@@ -0,0 +1,200 @@
+/**
+ * SMS Inbox Routes
+ *
+ * Mounted at /api/sms-inbox behind isAuthenticated. Threaded two-way texting:
+ * list and read customer threads, reply as a person, take a thread over from
+ * the agents and hand it back. Owners and managers see every thread; staff
+ * see only threads assigned to them.
+ */
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import type { SmsInboxThread } from '@shared/schema';
+import { storage } from '../storage';
+import { getEffectiveRole, requireRole } from '../middleware/permissions';
+import {
+  canViewThread,
+  getThreadDetail,
+  handBackThread,
+  listThreads,
+  markThreadRead,
+  replyToThread,
+  suggestReplies,
+  takeOverThread,
+  type InboxViewer,
+} from '../services/smsInboxService';
+
+const router = Router();
+
+const replySchema = z.object({
+  body: z.string().trim().min(1).max(1600),
+});
+
+const assignSchema = z.object({
+  staffId: z.number().int().positive().nullable(),
+});
+
+async function getViewer(req: Request): Promise<InboxViewer | null> {
+  const userId = req.user!.id;
+  if (getEffectiveRole(req.user) !== 'staff') {
+    return { userId, staffId: null };
+  }
+  const staff = await storage.getStaffMemberByUserId(userId);
+  return staff ? { userId, staffId: staff.id } : null;
+}
+
+/** Resolves :id to a thread the signed-in user may see, or answers 404 */
+async function loadThread(req: Request, res: Response): Promise<{ thread: SmsInboxThread; viewer: InboxViewer } | null> {
+  const businessId = req.user!.businessId;
+  const id = parseInt(req.params.id);
+  if (!businessId || isNaN(id)) {
+    res.status(400).json({ error: 'Invalid thread' });
+    return null;
+  }
+  const [thread, viewer] = await Promise.all([
+    storage.getSmsInboxThread(id, businessId),
+    getViewer(req),
+  ]);
+  if (!thread || !viewer || !canViewThread(thread, viewer)) {
+    res.status(404).json({ error: 'Thread not found' });
+    return null;
+  }
+  return { thread, viewer };
+}
+
+/** GET /api/sms-inbox/threads?filter=all|unread|mine — Most recent first */
+router.get('/threads', async (req: Request, res: Response) => {
+  try {
+    const businessId = req.user!.businessId;
+    if (!businessId) return res.status(400).json({ error: 'No business' });
+    const viewer = await getViewer(req);
+    if (!viewer) return res.json([]);
+
+    const filter = req.query.filter as string | undefined;
+    const threads = await listThreads(businessId, viewer, {
+      unreadOnly: filter === 'unread',
+      mine: filter === 'mine',
+    });
+    res.json(threads);
+  } catch (err) {
+    console.error('[SmsInbox] List error:', err);
+    res.status(500).json({ error: 'Failed to load inbox' });
+  }
+});
+
+/** GET /api/sms-inbox/unread-count — Badge count for the nav */
+router.get('/unread-count', async (req: Request, res: Response) => {
+  try {
+    const businessId = req.user!.businessId;
+    if (!businessId) return res.status(400).json({ error: 'No business' });
+    const viewer = await getViewer(req);
+    if (!viewer) return res.json({ count: 0 });
+
+    const count = await storage.getSmsInboxUnreadCount(businessId, viewer.staffId ?? undefined);
+    res.json({ count });
+  } catch (err) {
+    console.error('[SmsInbox] Unread count error:', err);
+    res.status(500).json({ error: 'Failed to load unread count' });
+  }
+});
+
+/** GET /api/sms-inbox/threads/:id — Thread with merged conversation */
+router.get('/threads/:id', async (req: Request, res: Response) => {
+  try {
+    const loaded = await loadThread(req, res);
+    if (!loaded) return;
+    res.json(await getThreadDetail(loaded.thread));
+  } catch (err) {
+    console.error('[SmsInbox] Thread error:', err);
+    res.status(500).json({ error: 'Failed to load conversation' });
+  }
+});
+
+/** POST /api/sms-inbox/threads/:id/read — Clear the unread count */
+router.post('/threads/:id/read', async (req: Request, res: Response) => {
+  try {
+    const loaded = await loadThread(req, res);
+    if (!loaded) return;
+    res.json(await markThreadRead(loaded.thread));
+  } catch (err) {
+    console.error('[SmsInbox] Mark read error:', err);
+    res.status(500).json({ error: 'Failed to mark as read' });
+  }
+});
+
+/** POST /api/sms-inbox/threads/:id/reply — Send as a person (takes the thread over) */
+router.post('/threads/:id/reply', async (req: Request, res: Response) => {
+  try {
+    const parsed = replySchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: 'Invalid data', details: parsed.error.flatten() });
+    const loaded = await loadThread(req, res);
+    if (!loaded) return;
+
+    res.json(await replyToThread(loaded.thread, parsed.data.body, loaded.viewer.userId));
+  } catch (err) {
+    console.error('[SmsInbox] Reply error:', err);
+    res.status(500).json({ error: 'Failed to send reply' });
+  }
+});
+
+/** PUT /api/sms-inbox/threads/:id/assign — Assign to a staff member, or null to unassign */
+router.put('/threads/:id/assign', requireRole('owner', 'manager'), async (req: Request, res: Response) => {
+  try {
+    const parsed = assignSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: 'Invalid data', details: parsed.error.flatten() });
+    const loaded = await loadThread(req, res);
+    if (!loaded) return;
+
+    const { staffId } = parsed.data;
+    if (staffId !== null) {
+      const member = await storage.getStaffMember(staffId);
+      if (!member || member.businessId !== loaded.thread.businessId) {
+        return res.status(400).json({ error: 'Staff member not found' });
+      }
+    }
+    res.json(await storage.updateSmsInboxThread(loaded.thread.id, loaded.thread.businessId, { assignedStaffId: staffId }));
+  } catch (err) {
+    console.error('[SmsInbox] Assign error:', err);
+    res.status(500).json({ error: 'Failed to assign conversation' });
+  }
+});
+
+/** POST /api/sms-inbox/threads/:id/takeover — Pause the agents for this customer */
+router.post('/threads/:id/takeover', async (req: Request, res: Response) => {
+  try {
+    const loaded = await loadThread(req, res);
+    if (!loaded) return;
+    res.json(await takeOverThread(loaded.thread, loaded.viewer.userId));
+  } catch (err) {
+    console.error('[SmsInbox] Takeover error:', err);
+    res.status(500).json({ error: 'Failed to take over conversation' });
+  }
+});
+
+/** POST /api/sms-inbox/threads/:id/handback — Let the agents answer again */
+router.post('/threads/:id/handback', async (req: Request, res: Response) => {
+  try {
+    const loaded = await loadThread(req, res);
+    if (!loaded) return;
+    res.json(await handBackThread(loaded.thread));
+  } catch (err) {
+    console.error('[SmsInbox] Hand back error:', err);
+    res.status(500).json({ error: 'Failed to hand back conversation' });
+  }
+});
+
+/** GET /api/sms-inbox/threads/:id/suggestions — AI-drafted replies to the last inbound text */
+router.get('/threads/:id/suggestions', async (req: Request, res: Response) => {
+  try {
+    const loaded = await loadThread(req, res);
+    if (!loaded) return;
+    const business = await storage.getBusiness(loaded.thread.businessId);
+    if (!business) return res.status(404).json({ error: 'Business not found' });
+    res.json({ suggestions: await suggestReplies(business, loaded.thread) });
+  } catch (err) {
+    console.error('[SmsInbox] Suggestions error:', err);
+    res.status(500).json({ error: 'Failed to draft replies' });
+  }
+});
+
+export default router;
@@ -5,6 +5,7 @@ import { z } from "zod";
 import { isAuthenticated, hashPassword, validatePassword, ApiKeyRequest } from "../auth";
 import { requireRole } from "../middleware/permissions";
 import { dataCache } from "../services/callToolHandlers";
+import { buildOfflineBundle } from "../services/offlineSyncService";
 
 const router = Router();
 
@@ -192,6 +193,24 @@ router.delete("/staff/me/time-off/:timeOffId", isAuthenticated, async (req: Requ
   }
 });
 
+// Staff portal: today's jobs with customer, equipment, line items and checklists,
+// cached on the device for working without signal — MUST be before /staff/:id
+router.get("/staff/me/offline-bundle", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    if (req.user?.role !== "staff") {
+      return res.status(403).json({ message: "Staff access only" });
+    }
+    const staffMember = await storage.getStaffMemberByUserId(req.user.id);
+    if (!staffMember) {
+      return res.status(404).json({ message: "Staff profile not found" });
+    }
+    res.json(await buildOfflineBundle(staffMember.businessId, staffMember.id));
+  } catch (error) {
+    console.error("Error building offline bundle:", error);
+    res.status(500).json({ message: "Error loading today's jobs" });
+  }
+});
+
 router.get("/staff", isAuthenticated, async (req: Request, res: Response) => {
   try {
     const businessId = getBusinessId(req);
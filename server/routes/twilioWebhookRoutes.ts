@@ -16,6 +16,8 @@ import { storage } from "../storage";
 import twilioService from "../services/twilioService";
 import * as virtualReceptionistService from "../services/virtualReceptionistService";
 import { logAndSwallow } from "../utils/safeAsync";
+import { rememberCustomerLanguage } from "../services/customerLanguageService";
+import { isTakenOver, recordAgentReply, recordInboundSms } from "../services/smsInboxService";
 
 const router = Router();
 
@@ -276,6 +278,28 @@ router.post("/api/twilio/sms", validateTwilioWebhook, async (req: Request, res:
     const customer = await storage.getCustomerByPhone(From, businessId);
     const bodyTrimmed = (Body || '').trim().toUpperCase();
 
+    // Every inbound text lands in the owner's inbox thread, keywords included
+    let inboxThread: Awaited<ReturnType<typeof recordInboundSms>> | undefined;
+    try {
+      inboxThread = await recordInboundSms({ businessId, from: From, body: Body || '', customer, twilioSid: MessageSid });
+    } catch (inboxErr) {
+      console.error('[SMS] Error recording inbox message:', inboxErr);
+    }
+
+    // Keyword and auto-replies go in the thread too, so it shows both sides
+    const replyAndLog = (message: string, agentType: string) => {
+      const twiml = new twilio.twiml.MessagingResponse();
+      twiml.message(message);
+      recordAgentReply({ businessId, to: From, customerId: customer?.id, body: message, agentType }).catch(logAndSwallow('SmsInbox'));
+      res.type('text/xml');
+      return res.send(twiml.toString());
+    };
+
+    // Follow-up texts go out in whatever language the customer writes in
+    if (customer && Body) {
+      rememberCustomerLanguage(customer, Body).catch(logAndSwallow('Routes'));
+    }
+
     // ── HVAC Step 5: Handle quote APPROVE/DECLINE keywords ──
     // Runs BEFORE the STOP / START / CONFIRM blocks because:
     //   - 'YES' otherwise routes to START (re-opt-in)
@@ -306,25 +330,27 @@ router.post("/api/twilio/sms", validateTwilioWebhook, async (req: Request, res:
         try {
           const recentQuoteId = await findMostRecentQuoteForCustomer(customer.id, businessId);
           if (recentQuoteId) {
-            const twiml = new twilio.twiml.MessagingResponse();
+            let reply: string;
             if (isApprove) {
               const { handleQuoteAcceptance } = await import('../services/quoteAcceptanceService');
               const result = await handleQuoteAcceptance(recentQuoteId, businessId);
               if (result.ok) {
                 if (result.quoteAlreadyConverted) {
-                  twiml.message(`Already received your approval — we'll be in touch to schedule. - ${business.name}`);
+                  reply = `Already received your approval — we'll be in touch to schedule. - ${business.name}`;
                 } else {
-                  twiml.message(`Approved! We'll text you to confirm scheduling. - ${business.name}`);
+                  reply = `Approved! We'll text you to confirm scheduling. - ${business.name}`;
                 }
                 console.log(
                   `[SMS] Quote ${recentQuoteId} accepted by customer ${customer.id} → repair job ${result.newJobId}`,
                 );
               } else if (result.reason === 'quote_expired') {
-                twiml.message(`This quote has expired. Please call us to get an updated quote. - ${business.name}`);
+                reply = `This quote has expired. Please call us to get an updated quote. - ${business.name}`;
               } else if (result.reason === 'quote_already_declined') {
-                twiml.message(`This quote was previously declined. Call us if you've changed your mind! - ${business.name}`);
+                reply = `This quote was previously declined. Call us if you've changed your mind! - ${business.name}`;
+              } else if (result.reason === 'quote_option_not_selected') {
+                reply = `This quote has a few options — please pick one using the quote link we sent you. - ${business.name}`;
               } else {
-                twiml.message(`Sorry — we couldn't process your approval. Please call us. - ${business.name}`);
+                reply = `Sorry — we couldn't process your approval. Please call us. - ${business.name}`;
               }
             } else {
               // Decline path — flip status to declined, send polite ack.
@@ -333,13 +359,12 @@ router.post("/api/twilio/sms", validateTwilioWebhook, async (req: Request, res:
               } catch (err) {
                 console.error(`[SMS] Failed to mark quote ${recentQuoteId} declined:`, err);
               }
-              twiml.message(`No problem. Let us know if you change your mind! - ${business.name}`);
+              reply = `No problem. Let us know if you change your mind! - ${business.name}`;
               console.log(
                 `[SMS] Quote ${recentQuoteId} declined by customer ${customer.id}`,
               );
             }
-            res.type('text/xml');
-            return res.send(twiml.toString());
+            return replyAndLog(reply, 'keyword');
           }
           // No recent quote → fall through to STOP / START / CONFIRM / etc.
         } catch (quoteErr) {
@@ -365,10 +390,7 @@ router.post("/api/twilio/sms", validateTwilioWebhook, async (req: Request, res:
           cancelTriggersOnEvent(businessId, customer!.id, 'opted_out').catch(logAndSwallow('Routes'));
         }).catch(logAndSwallow('Routes'));
       }
-      const twiml = new twilio.twiml.MessagingResponse();
-      twiml.message(`You've been unsubscribed from ${business.name} promotional messages. You'll still receive appointment reminders & confirmations. Reply START to re-subscribe to all messages.`);
-      res.type('text/xml');
-      return res.send(twiml.toString());
+      return replyAndLog(`You've been unsubscribed from ${business.name} promotional messages. You'll still receive appointment reminders & confirmations. Reply START to re-subscribe to all messages.`, 'keyword');
     }
 
     // ── Handle START/SUBSCRIBE keywords (re-opt-in) ──
@@ -393,22 +415,24 @@ router.post("/api/twilio/sms", validateTwilioWebhook, async (req: Request, res:
       } catch (suppressionErr) {
         // Non-critical — suppression list is no longer used for STOP
       }
-      const twiml = new twilio.twiml.MessagingResponse();
-      twiml.message(`You're subscribed to ${business.name} updates! Reply STOP to opt out. Msg & data rates may apply.`);
-      res.type('text/xml');
-      return res.send(twiml.toString());
+      return replyAndLog(`You're subscribed to ${business.name} updates! Reply STOP to opt out. Msg & data rates may apply.`, 'keyword');
     }
 
     // ── TCPA: Handle HELP keyword ──
     if (bodyTrimmed === 'HELP') {
-      const twiml = new twilio.twiml.MessagingResponse();
-      twiml.message(
+      console.log(`[SMS] HELP keyword received from ${From} for business ${businessId}`);
+      return replyAndLog(
         `${business.name}: For support, contact us at ${business.phone || 'our business number'} or email ${process.env.SUPPORT_EMAIL || 'support@smallbizagent.ai'}. ` +
-        `Msg frequency varies. Msg & data rates may apply. Reply STOP to opt out.`
+        `Msg frequency varies. Msg & data rates may apply. Reply STOP to opt out.`,
+        'keyword',
       );
-      console.log(`[SMS] HELP keyword received from ${From} for business ${businessId}`);
+    }
+
+    // A person has taken this thread over from the agents — they answer from the
+    // inbox. Opt-out and HELP above still get their required replies.
+    if (inboxThread && isTakenOver(inboxThread)) {
       res.type('text/xml');
-      return res.send(twiml.toString());
+      return res.send('<Response></Response>');
     }
 
     // ── Handle CONFIRM keyword (from appointment reminders) ──
@@ -442,11 +466,8 @@ router.post("/api/twilio/sms", validateTwilioWebhook, async (req: Request, res:
             lastMessageSentAt: new Date(),
             expiresAt: new Date(Date.now() + 15 * 60 * 1000),
           });
-          const twiml = new twilio.twiml.MessagingResponse();
-          twiml.message(`You have ${upcoming.length} upcoming appointments:\n${listText}\nWhich one? Reply 1-${upcoming.length}. - ${business.name}`);
           console.log(`[SMS] CONFIRM: disambiguating ${upcoming.length} appointments for customer ${customer.id}`);
-          res.type('text/xml');
-          return res.send(twiml.toString());
+          return replyAndLog(`You have ${upcoming.length} upcoming appointments:\n${listText}\nWhich one? Reply 1-${upcoming.length}. - ${business.name}`, 'keyword');
         } else if (upcoming.length === 1) {
           const nextApt = upcoming[0];
           await storage.updateAppointment(nextApt.id, { status: 'confirmed' });
@@ -456,16 +477,10 @@ router.post("/api/twilio/sms", validateTwilioWebhook, async (req: Request, res:
           const dateStr = aptDate.toLocaleDateString('en-US', { timeZone: tz, weekday: 'long', month: 'long', day: 'numeric' });
           const timeStr = aptDate.toLocaleTimeString('en-US', { timeZone: tz, hour: 'numeric', minute: '2-digit', hour12: true });
 
-          const twiml = new twilio.twiml.MessagingResponse();
-          twiml.message(`Your appointment on ${dateStr} at ${timeStr} is confirmed! See you then. - ${business.name}`);
           console.log(`[SMS] CONFIRM keyword: confirmed appointment ${nextApt.id} for customer ${customer.id}`);
-          res.type('text/xml');
-          return res.send(twiml.toString());
+          return replyAndLog(`Your appointment on ${dateStr} at ${timeStr} is confirmed! See you then. - ${business.name}`, 'keyword');
         } else {
-          const twiml = new twilio.twiml.MessagingResponse();
-          twiml.message(`Thanks for reaching out! We don't see any upcoming appointments for you. Call us at ${business.twilioPhoneNumber || business.phone || 'our number'} to book. - ${business.name}`);
-          res.type('text/xml');
-          return res.send(twiml.toString());
+          return replyAndLog(`Thanks for reaching out! We don't see any upcoming appointments for you. Call us at ${business.twilioPhoneNumber || business.phone || 'our number'} to book. - ${business.name}`, 'keyword');
         }
       } catch (confirmErr) {
         console.error('[SMS] Error handling CONFIRM:', confirmErr);
@@ -509,11 +524,8 @@ router.post("/api/twilio/sms", validateTwilioWebhook, async (req: Request, res:
             lastMessageSentAt: new Date(),
             expiresAt: new Date(Date.now() + 15 * 60 * 1000),
           });
-          const twiml = new twilio.twiml.MessagingResponse();
-          twiml.message(`Which appointment would you like to cancel?\n${listText}\nReply 1-${upcoming.length}. - ${business.name}`);
           console.log(`[SMS] CANCEL: disambiguating ${upcoming.length} appointments for customer ${customer.id}`);
-          res.type('text/xml');
-          return res.send(twiml.toString());
+          return replyAndLog(`Which appointment would you like to cancel?\n${listText}\nReply 1-${upcoming.length}. - ${business.name}`, 'keyword');
         } else if (upcoming.length === 1) {
           const nextApt = upcoming[0];
           const aptDate = new Date(nextApt.startDate);
@@ -544,16 +556,10 @@ router.post("/api/twilio/sms", validateTwilioWebhook, async (req: Request, res:
             }).catch(err => console.error('[Orchestrator] Error dispatching appointment.cancelled:', err));
           }).catch(err => console.error('[Orchestrator] Import error:', err));
 
-          const twiml = new twilio.twiml.MessagingResponse();
-          twiml.message(`Your appointment on ${dateStr} at ${timeStr} has been cancelled. To rebook, reply RESCHEDULE or call ${business.twilioPhoneNumber || business.phone || 'us'}. - ${business.name}`);
           console.log(`[SMS] CANCEL keyword: cancelled appointment ${nextApt.id} for customer ${customer.id}`);
-          res.type('text/xml');
-          return res.send(twiml.toString());
+          return replyAndLog(`Your appointment on ${dateStr} at ${timeStr} has been cancelled. To rebook, reply RESCHEDULE or call ${business.twilioPhoneNumber || business.phone || 'us'}. - ${business.name}`, 'keyword');
         } else {
-          const twiml = new twilio.twiml.MessagingResponse();
-          twiml.message(`We don't see any upcoming appointments for you to cancel. Call us at ${business.twilioPhoneNumber || business.phone || 'our number'} if you need help. - ${business.name}`);
-          res.type('text/xml');
-          return res.send(twiml.toString());
+          return replyAndLog(`We don't see any upcoming appointments for you to cancel. Call us at ${business.twilioPhoneNumber || business.phone || 'our number'} if you need help. - ${business.name}`, 'keyword');
         }
       } catch (cancelErr) {
         console.error('[SMS] Error handling CANCEL:', cancelErr);
@@ -596,11 +602,8 @@ router.post("/api/twilio/sms", validateTwilioWebhook, async (req: Request, res:
             lastMessageSentAt: new Date(),
             expiresAt: new Date(Date.now() + 15 * 60 * 1000),
           });
-          const twiml = new twilio.twiml.MessagingResponse();
-          twiml.message(`Which appointment would you like to reschedule?\n${listText}\nReply 1-${upcoming.length}. - ${business.name}`);
           console.log(`[SMS] RESCHEDULE: disambiguating ${upcoming.length} appointments for customer ${customer.id}`);
-          res.type('text/xml');
-          return res.send(twiml.toString());
+          return replyAndLog(`Which appointment would you like to reschedule?\n${listText}\nReply 1-${upcoming.length}. - ${business.name}`, 'keyword');
         } else if (upcoming.length === 1) {
           const nextApt = upcoming[0];
           const aptDate = new Date(nextApt.startDate);
@@ -628,21 +631,15 @@ router.post("/api/twilio/sms", validateTwilioWebhook, async (req: Request, res:
             expiresAt: new Date(Date.now() + 15 * 60 * 1000),
           });
 
-          const twiml = new twilio.twiml.MessagingResponse();
-          twiml.message(`Sure! Your current appointment is ${dateStr} at ${timeStr}. What day and time works better for you? - ${business.name}`);
           console.log(`[SMS] RESCHEDULE keyword: created reschedule conversation for appointment ${nextApt.id}, customer ${customer.id}`);
-          res.type('text/xml');
-          return res.send(twiml.toString());
+          return replyAndLog(`Sure! Your current appointment is ${dateStr} at ${timeStr}. What day and time works better for you? - ${business.name}`, 'keyword');
         } else {
           // No upcoming appointment — send booking link
           let bookLink = '';
           if (business.bookingSlug) {
             bookLink = ` Book here: ${appUrl}/book/${business.bookingSlug}`;
           }
-          const twiml = new twilio.twiml.MessagingResponse();
-          twiml.message(`We don't see any upcoming appointments to reschedule.${bookLink} Or call us at ${business.twilioPhoneNumber || business.phone || 'our number'}. - ${business.name}`);
-          res.type('text/xml');
-          return res.send(twiml.toString());
+          return replyAndLog(`We don't see any upcoming appointments to reschedule.${bookLink} Or call us at ${business.twilioPhoneNumber || business.phone || 'our number'}. - ${business.name}`, 'keyword');
         }
       } catch (rescheduleErr) {
         console.error('[SMS] Error handling RESCHEDULE:', rescheduleErr);
@@ -670,10 +667,7 @@ router.post("/api/twilio/sms", validateTwilioWebhook, async (req: Request, res:
       await storage.updateCustomer(customer.id, { birthday });
       console.log(`[SMS] Customer ${customer.id} set birthday to ${birthday} via text`);
 
-      const twiml = new twilio.twiml.MessagingResponse();
-      twiml.message(`Thanks, ${customer.firstName}! We saved your birthday (${month}/${day}). Look out for a special treat from ${business.name}! 🎂`);
-      res.type('text/xml');
-      return res.send(twiml.toString());
+      return replyAndLog(`Thanks, ${customer.firstName}! We saved your birthday (${month}/${day}). Look out for a special treat from ${business.name}! 🎂`, 'keyword');
     }
 
     // Log the SMS as a call log entry with 'sms' status
@@ -702,10 +696,7 @@ router.post("/api/twilio/sms", validateTwilioWebhook, async (req: Request, res:
           sanitizedReply = sanitizedReply.replace(/\s*\((?:Note|Internal|System|Debug|Reminder|Context|Warning|TODO|IMPORTANT)[:\s][^)]*\)/gi, '');
           sanitizedReply = sanitizedReply.replace(/\s*\[(?:Note|Internal|System|Debug|Reminder|Context|Warning|TODO|IMPORTANT)[:\s][^\]]*\]/gi, '');
           sanitizedReply = sanitizedReply.replace(/  +/g, ' ').trim();
-          const agentTwiml = new twilio.twiml.MessagingResponse();
-          agentTwiml.message(sanitizedReply);
-          res.type('text/xml');
-          return res.send(agentTwiml.toString());
+          return replyAndLog(sanitizedReply, activeConversation.agentType);
         }
       }
     } catch (convErr) {
@@ -715,19 +706,13 @@ router.post("/api/twilio/sms", validateTwilioWebhook, async (req: Request, res:
     // TODO: Phase 9 — Claude Managed Agent SMS Intelligence will handle freeform text here
     // For now, fall through to generic auto-reply
 
-    // Generate TwiML response for SMS (generic auto-reply)
-    const twiml = new twilio.twiml.MessagingResponse();
-
-    // Auto-reply with business hours or acknowledgment
+    // Generic auto-reply with business hours or acknowledgment
     const config = await storage.getReceptionistConfig(businessId);
     if (config) {
-      twiml.message(`Thank you for your message! We'll get back to you as soon as possible. ${business.name}`);
+      replyAndLog(`Thank you for your message! We'll get back to you as soon as possible. ${business.name}`, 'auto_reply');
     } else {
-      twiml.message(`Thank you for contacting ${business.name}. We'll respond shortly.`);
+      replyAndLog(`Thank you for contacting ${business.name}. We'll respond shortly.`, 'auto_reply');
     }
-
-    res.type('text/xml');
-    res.send(twiml.toString());
   } catch (error) {
     console.error('Error handling incoming SMS:', error);
     // Return empty response to prevent Twilio retries
@@ -1,13 +1,14 @@
 /**
  * Webhook Management Routes
  *
- * CRUD endpoints for managing webhooks + delivery log viewer.
+ * CRUD endpoints for managing webhooks + delivery log viewer with manual replay.
  * Businesses can register webhook URLs to receive events (compatible with Zapier, Make.com, etc.)
  */
 
 import { Request, Response } from 'express';
 import { isAuthenticatedOrApiKey } from '../auth';
 import * as webhookService from '../services/webhookService';
+import { isAllowedWebhookUrl } from '../utils/urlSafety';
 
 const getBusinessId = (req: Request): number => {
   if (req.isAuthenticated() && req.user?.businessId) {
@@ -33,6 +34,9 @@ export function registerWebhookRoutes(app: any) {
       const sanitized = manualWebhooks.map((w: any) => ({
         ...w,
         secret: w.secret ? '••••••••••' : null,
+        consecutiveFailures: w.consecutive_failures ?? 0,
+        disabledAt: w.disabled_at ?? null,
+        disabledReason: w.disabled_reason ?? null,
       }));
       res.json(sanitized);
     } catch (error: any) {
@@ -48,6 +52,58 @@ export function registerWebhookRoutes(app: any) {
     res.json(webhookService.WEBHOOK_EVENTS);
   });
 
+  /**
+   * GET /api/webhooks/deliveries — Delivery log across all webhooks
+   * Query: webhookId, status, event, from, to (ISO), before (delivery id cursor), limit (max 200)
+   */
+  app.get('/api/webhooks/deliveries', isAuthenticatedOrApiKey, async (req: Request, res: Response) => {
+    try {
+      const businessId = getBusinessId(req);
+      const { webhookId, status, event, from, to, before, limit } = req.query as Record<string, string | undefined>;
+
+      if (status && !['pending', 'success', 'failed'].includes(status)) {
+        return res.status(400).json({ message: 'status must be pending, success or failed' });
+      }
+      const fromDate = from ? new Date(from) : undefined;
+      const toDate = to ? new Date(to) : undefined;
+      if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+        return res.status(400).json({ message: 'from and to must be valid dates' });
+      }
+
+      const deliveries = await webhookService.listDeliveries(businessId, {
+        webhookId: webhookId ? parseInt(webhookId) : undefined,
+        status: status as 'pending' | 'success' | 'failed' | undefined,
+        event: event || undefined,
+        from: fromDate,
+        to: toDate,
+        beforeId: before ? parseInt(before) : undefined,
+        limit: parseInt(limit as string) || 50,
+      });
+      res.json(deliveries);
+    } catch (error: any) {
+      console.error('[Webhooks] Error listing deliveries:', error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  /**
+   * POST /api/webhooks/deliveries/:deliveryId/replay — Re-send one delivery
+   */
+  app.post('/api/webhooks/deliveries/:deliveryId/replay', isAuthenticatedOrApiKey, async (req: Request, res: Response) => {
+    try {
+      const businessId = getBusinessId(req);
+      const deliveryId = parseInt(req.params.deliveryId);
+      const result = await webhookService.replayDelivery(deliveryId, businessId);
+      if (!result.success) {
+        return res.status(result.error === 'Delivery not found' ? 404 : 400).json({ message: result.error });
+      }
+      res.status(202).json({ message: 'Replay queued', deliveryId: result.deliveryId });
+    } catch (error: any) {
+      console.error('[Webhooks] Error replaying delivery:', error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   /**
    * POST /api/webhooks — Create a new webhook
    */
@@ -61,26 +117,8 @@ export function registerWebhookRoutes(app: any) {
       }
 
       // Validate URL format and block internal/private addresses (SSRF protection)
-      try {
-        const urlObj = new URL(url);
-        const hostname = urlObj.hostname.toLowerCase();
-
-        const blockedHostnames = ['localhost', '127.0.0.1', '0.0.0.0', '::1', 'metadata.google.internal'];
-        if (blockedHostnames.includes(hostname)) {
-          return res.status(400).json({ message: 'Internal/localhost URLs are not allowed' });
-        }
-
-        const privateIpPatterns = [
-          /^10\./,
-          /^172\.(1[6-9]|2\d|3[01])\./,
-          /^192\.168\./,
-          /^169\.254\./,
-        ];
-        if (privateIpPatterns.some(pattern => pattern.test(hostname))) {
-          return res.status(400).json({ message: 'Private IP addresses are not allowed' });
-        }
-      } catch {
-        return res.status(400).json({ message: 'Invalid URL format' });
+      if (!isAllowedWebhookUrl(url)) {
+        return res.status(400).json({ message: 'Internal, localhost and private network URLs are not allowed' });
       }
 
       // Validate events
@@ -108,28 +146,8 @@ export function registerWebhookRoutes(app: any) {
       const { url, events, active, description } = req.body;
 
       // Validate URL format and block internal/private addresses (SSRF protection)
-      if (url) {
-        try {
-          const urlObj = new URL(url);
-          const hostname = urlObj.hostname.toLowerCase();
-
-          const blockedHostnames = ['localhost', '127.0.0.1', '0.0.0.0', '::1', 'metadata.google.internal'];
-          if (blockedHostnames.includes(hostname)) {
-            return res.status(400).json({ message: 'Internal/localhost URLs are not allowed' });
-          }
-
-          const privateIpPatterns = [
-            /^10\./,
-            /^172\.(1[6-9]|2\d|3[01])\./,
-            /^192\.168\./,
-            /^169\.254\./,
-          ];
-          if (privateIpPatterns.some(pattern => pattern.test(hostname))) {
-            return res.status(400).json({ message: 'Private IP addresses are not allowed' });
-          }
-        } catch {
-          return res.status(400).json({ message: 'Invalid URL format' });
-        }
+      if (url && !isAllowedWebhookUrl(url)) {
+        return res.status(400).json({ message: 'Internal, localhost and private network URLs are not allowed' });
       }
 
       // Validate events if provided
@@ -187,6 +205,31 @@ export function registerWebhookRoutes(app: any) {
     }
   });
 
+  /**
+   * POST /api/webhooks/:id/replay-failed — Re-send every failed delivery in a time range
+   * Body: { from, to } (ISO timestamps)
+   */
+  app.post('/api/webhooks/:id/replay-failed', isAuthenticatedOrApiKey, async (req: Request, res: Response) => {
+    try {
+      const businessId = getBusinessId(req);
+      const webhookId = parseInt(req.params.id);
+      const from = new Date(req.body?.from);
+      const to = new Date(req.body?.to);
+      if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+        return res.status(400).json({ message: 'from and to must be valid dates with from before to' });
+      }
+
+      const result = await webhookService.replayFailedDeliveries(webhookId, businessId, { from, to });
+      if (!result.success) {
+        return res.status(result.error === 'Webhook not found' ? 404 : 400).json({ message: result.error });
+      }
+      res.status(202).json({ message: `${result.replayed} deliveries queued for replay`, replayed: result.replayed });
+    } catch (error: any) {
+      console.error('[Webhooks] Error replaying failed deliveries:', error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   /**
    * GET /api/webhooks/:id/deliveries — Get delivery log for a webhook
    */
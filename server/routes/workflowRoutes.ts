@@ -7,19 +7,66 @@
 
 import { Router, Request, Response } from 'express';
 import { storage } from '../storage';
-import { WORKFLOW_TEMPLATES, cancelWorkflowRun } from '../services/workflowEngine';
+import { WORKFLOW_TEMPLATES, cancelWorkflowRun, type WorkflowStep } from '../services/workflowEngine';
 import { z } from 'zod';
+import { isAllowedWebhookUrl } from '../utils/urlSafety';
 
 const router = Router();
 
-const workflowStepSchema = z.object({
-  type: z.enum(['wait', 'send_sms']),
-  config: z.object({
-    delayMinutes: z.number().int().positive().optional(),
-    messageType: z.string().optional(),
-    messagePrompt: z.string().max(500).optional(),
+const workflowConditionSchema = z.object({
+  type: z.enum(['tag_present', 'invoice_unpaid', 'replied_to_last_sms', 'membership_active', 'context_equals']),
+  tag: z.string().min(1).max(50).optional(),
+  key: z.string().min(1).max(100).optional(),
+  value: z.union([z.string().max(200), z.number(), z.boolean()]).optional(),
+  negate: z.boolean().optional(),
+}).refine(c => c.type !== 'tag_present' || !!c.tag, { message: 'tag_present requires a tag' })
+  .refine(c => c.type !== 'context_equals' || !!c.key, { message: 'context_equals requires a key' });
+
+const workflowStepSchema: z.ZodType<WorkflowStep> = z.lazy(() => z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('wait'),
+    config: z.object({ delayMinutes: z.number().int().positive() }),
   }),
-});
+  z.object({
+    type: z.literal('send_sms'),
+    config: z.object({
+      messageType: z.string().min(1),
+      messagePrompt: z.string().max(500).optional(),
+    }),
+  }),
+  z.object({
+    type: z.literal('send_email'),
+    config: z.object({
+      subject: z.string().min(1).max(200),
+      body: z.string().min(1).max(5000),
+    }),
+  }),
+  z.object({
+    type: z.literal('create_task_for_owner'),
+    config: z.object({
+      title: z.string().min(1).max(200),
+      details: z.string().max(1000).optional(),
+    }),
+  }),
+  z.object({
+    type: z.literal('add_tag'),
+    config: z.object({ tag: z.string().trim().min(1).max(50) }),
+  }),
+  z.object({
+    type: z.literal('webhook'),
+    config: z.object({
+      url: z.string().url().refine(isAllowedWebhookUrl, { message: 'Internal, localhost and private network URLs are not allowed' }),
+    }),
+  }),
+  z.object({
+    type: z.literal('if'),
+    config: z.object({
+      condition: workflowConditionSchema,
+      then: z.array(workflowStepSchema).max(50),
+      else: z.array(workflowStepSchema).max(50),
+    }),
+  }),
+]));
 
 const createWorkflowSchema = z.object({
   name: z.string().min(1).max(200),
@@ -15,6 +15,7 @@ import { isAuthenticated, authenticateApiKey } from '../auth';
 import { pool } from '../db';
 import * as webhookService from '../services/webhookService';
 import { fireEvent } from '../services/webhookService';
+import { publishRealtimeEvent } from '../services/realtimeEventBus';
 import {
   insertCustomerSchema,
   insertAppointmentSchema,
@@ -373,6 +374,7 @@ export function registerZapierRoutes(app: any) {
       );
 
       const appointment = result.rows[0];
+      publishRealtimeEvent(businessId, 'appointments');
 
       // Fire webhook event
       fireEvent(businessId, 'appointment.created', { appointment }).catch(err =>
@@ -406,6 +408,7 @@ export function registerZapierRoutes(app: any) {
       );
 
       const job = result.rows[0];
+      publishRealtimeEvent(businessId, 'jobs');
 
       // Fire webhook event
       fireEvent(businessId, 'job.created', { job }).catch(err =>
@@ -454,6 +457,7 @@ export function registerZapierRoutes(app: any) {
           );
         }
       }
+      publishRealtimeEvent(businessId, 'invoices');
 
       // Fire webhook event
       fireEvent(businessId, 'invoice.created', { invoice }).catch(err =>
@@ -5,6 +5,7 @@ import {
   invoices,
   jobs,
   appointments,
+  appointmentSlotOffers,
   callLogs,
   customers,
   services,
@@ -58,6 +59,13 @@ interface AppointmentMetrics {
     day: string;
     count: number;
   }[];
+  // Cancelled slots refilled from the appointment waitlist
+  waitlist: {
+    cancelledSlots: number;
+    offeredSlots: number;
+    filledSlots: number;
+    fillRate: number;
+  };
 }
 
 interface CallMetrics {
@@ -392,12 +400,39 @@ export async function getAppointmentAnalytics(businessId: number, dateRange: Dat
     return dayNames.indexOf(a.day) - dayNames.indexOf(b.day);
   });
   
+  // Waitlist fill rate: of the slots cancelled in range, how many were
+  // offered to the waitlist and how many a waitlisted customer booked
+  const offerData = await db.select({
+    cancelledAppointmentId: appointmentSlotOffers.cancelledAppointmentId,
+    status: appointmentSlotOffers.status
+  })
+  .from(appointmentSlotOffers)
+  .where(
+    and(
+      eq(appointmentSlotOffers.businessId, businessId),
+      gte(appointmentSlotOffers.startDate, startDate),
+      lte(appointmentSlotOffers.startDate, endDate)
+    )
+  );
+
+  const cancelledSlots = appointmentData.filter(appt => appt.status === 'cancelled').length;
+  const offeredSlots = new Set(offerData.map(offer => offer.cancelledAppointmentId)).size;
+  const filledSlots = new Set(
+    offerData.filter(offer => offer.status === 'accepted').map(offer => offer.cancelledAppointmentId)
+  ).size;
+
   return {
     totalAppointments,
     completedAppointments,
     upcomingAppointments,
     appointmentsByStaff,
-    appointmentsByDay
+    appointmentsByDay,
+    waitlist: {
+      cancelledSlots,
+      offeredSlots,
+      filledSlots,
+      fillRate: cancelledSlots > 0 ? Math.round((filledSlots / cancelledSlots) * 100) : 0
+    }
   };
 }
 
@@ -0,0 +1,166 @@
+/**
+ * Appointment line tests — totals, layout, resolution and the legacy fallback.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Service, ServiceAddon } from '@shared/schema';
+
+vi.mock('../storage', () => ({
+  storage: {
+    getServices: vi.fn(),
+    getService: vi.fn(),
+    getServiceAddons: vi.fn(),
+    getAppointmentServices: vi.fn(),
+    createJobLineItem: vi.fn(),
+  },
+}));
+
+import { storage } from '../storage';
+import {
+  buildServiceLine,
+  describeLines,
+  layoutLines,
+  staffBookings,
+  totalDurationMinutes,
+  totalPrice,
+  resolveServiceLines,
+  loadAppointmentLines,
+  addServiceLineItemsToJob,
+} from './appointmentLineService';
+
+function service(overrides: Partial<Service> = {}): Service {
+  return {
+    id: 1,
+    businessId: 10,
+    name: 'Haircut',
+    description: null,
+    price: '30.00',
+    duration: 30,
+    active: true,
+    category: null,
+    pricingType: 'fixed',
+    requiresDiagnostic: false,
+    requiredResourceType: null,
+    classCapacity: null,
+    ...overrides,
+  };
+}
+
+function addon(overrides: Partial<ServiceAddon> = {}): ServiceAddon {
+  return {
+    id: 100,
+    businessId: 10,
+    serviceId: 2,
+    name: 'Hot towel',
+    price: '5.00',
+    durationMinutes: 10,
+    active: true,
+    sortOrder: 0,
+    createdAt: null,
+    updatedAt: null,
+    ...overrides,
+  };
+}
+
+const haircut = service();
+const beardTrim = service({ id: 2, name: 'Beard trim', price: '15.00', duration: 15 });
+const color = service({ id: 3, name: 'Color', price: '80.00', duration: 90 });
+
+beforeEach(() => {
+  vi.mocked(storage.getServices).mockReset().mockResolvedValue([haircut, beardTrim, color]);
+  vi.mocked(storage.getService).mockReset();
+  vi.mocked(storage.getServiceAddons).mockReset().mockResolvedValue([addon()]);
+  vi.mocked(storage.getAppointmentServices).mockReset();
+  vi.mocked(storage.createJobLineItem).mockReset();
+});
+
+describe('totals and layout', () => {
+  const lines = [buildServiceLine(haircut), buildServiceLine(beardTrim, [addon()]), buildServiceLine(color)];
+
+  it('adds add-on minutes and prices to their line', () => {
+    expect(lines[1].durationMinutes).toBe(25);
+    expect(totalDurationMinutes(lines)).toBe(145);
+    expect(totalPrice(lines)).toBe(130);
+  });
+
+  it('describes the combined list', () => {
+    expect(describeLines(lines)).toBe('Haircut + Beard trim (Hot towel) + Color');
+  });
+
+  it('lays lines out back to back', () => {
+    const start = new Date(Date.UTC(2026, 5, 10, 14, 0));
+    const windows = layoutLines(start, lines);
+    expect(windows.map(w => w.startDate.getUTCMinutes())).toEqual([0, 30, 55]);
+    expect(windows[2].endDate).toEqual(new Date(Date.UTC(2026, 5, 10, 16, 25)));
+  });
+});
+
+describe('staffBookings', () => {
+  const start = new Date(Date.UTC(2026, 5, 10, 14, 0));
+  const appointments = [
+    { id: 1, staffId: 3, startDate: start, endDate: new Date(Date.UTC(2026, 5, 10, 15, 0)) },
+    { id: 2, staffId: 4, startDate: start, endDate: new Date(Date.UTC(2026, 5, 10, 16, 25)) },
+  ];
+  const row = (position: number, durationMinutes: number, staffId: number | null) => ({
+    id: position + 1, appointmentId: 2, businessId: 10, serviceId: 1, staffId, position,
+    serviceName: 'Line', price: '0', durationMinutes, addons: [], createdAt: null,
+  });
+
+  it("includes a staff member's own appointments whole, and only the window of lines they do on others", () => {
+    const lines = [row(0, 30, null), row(1, 25, 3), row(2, 90, null)];
+    const bookings = staffBookings(appointments, lines, 3);
+    expect(bookings.map(b => [b.id, b.startDate.getUTCMinutes(), b.endDate.getUTCHours(), b.endDate.getUTCMinutes()]))
+      .toEqual([[1, 0, 15, 0], [2, 30, 14, 55]]);
+    expect(staffBookings(appointments, lines, 4).map(b => b.id)).toEqual([2]);
+  });
+});
+
+describe('resolveServiceLines', () => {
+  it('resolves ids and names in the order given', async () => {
+    const result = await resolveServiceLines(10, [
+      { serviceName: 'haircut' },
+      { serviceId: 2, staffId: 7, addonNames: ['hot towel'] },
+    ]);
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.lines.map(l => l.serviceName)).toEqual(['Haircut', 'Beard trim']);
+    expect(result.lines[1]).toMatchObject({ staffId: 7, durationMinutes: 25, addons: [{ addonId: 100, price: 5 }] });
+  });
+
+  it('rejects add-ons that belong to another service', async () => {
+    const result = await resolveServiceLines(10, [{ serviceId: 1, addonIds: [100] }]);
+    expect(result).toEqual({ ok: false, error: 'That add-on is not available for Haircut.' });
+  });
+
+  it('caps how many services one appointment holds', async () => {
+    const result = await resolveServiceLines(10, Array.from({ length: 11 }, () => ({ serviceId: 1 })));
+    expect(result).toEqual({ ok: false, error: 'Please choose at most 10 services.' });
+  });
+
+  it('rejects unknown and inactive services', async () => {
+    vi.mocked(storage.getServices).mockResolvedValue([haircut, service({ id: 4, name: 'Perm', active: false })]);
+    expect((await resolveServiceLines(10, [{ serviceId: 4 }])).ok).toBe(false);
+    expect((await resolveServiceLines(10, [{ serviceName: 'Massage' }])).ok).toBe(false);
+  });
+});
+
+describe('loadAppointmentLines', () => {
+  it('falls back to the appointment service when no lines were stored', async () => {
+    vi.mocked(storage.getAppointmentServices).mockResolvedValue([]);
+    vi.mocked(storage.getService).mockResolvedValue(color);
+    const lines = await loadAppointmentLines({ id: 5, serviceId: 3 });
+    expect(lines).toHaveLength(1);
+    expect(lines[0]).toMatchObject({ serviceName: 'Color', durationMinutes: 90, price: 80 });
+  });
+});
+
+describe('addServiceLineItemsToJob', () => {
+  it('adds one item per priced service and add-on', async () => {
+    const free = service({ id: 5, name: 'Consultation', price: null });
+    await addServiceLineItemsToJob(9, [buildServiceLine(beardTrim, [addon()]), buildServiceLine(free)]);
+    const items = vi.mocked(storage.createJobLineItem).mock.calls.map(([item]) => [item.description, item.amount]);
+    expect(items).toEqual([
+      ['Beard trim', '15.00'],
+      ['Beard trim add-on: Hot towel', '5.00'],
+    ]);
+  });
+});
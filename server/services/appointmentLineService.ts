@@ -0,0 +1,298 @@
+/**
+ * Appointment Line Service — several services (and their add-ons) in one booking
+ *
+ * "Haircut + beard trim + color" is one appointment with three service lines,
+ * performed back to back in order. Each line may name its own staff member
+ * and carries the add-ons booked on it ("Hot towel" on the beard trim):
+ *
+ *   1. A line's minutes are the service's duration plus its add-ons' minutes;
+ *      the appointment lasts the sum of its lines.
+ *   2. Names, prices and minutes are snapshotted when booked, so reminders
+ *      and invoices keep matching what the customer agreed to.
+ *   3. appointments.serviceId mirrors the first line, so code that only knows
+ *      about one service keeps working.
+ *
+ * Appointments booked before lines existed (or with one plain service) have
+ * no appointment_services rows — loadAppointmentLines() falls back to
+ * appointments.serviceId for those.
+ */
+
+import type { Appointment, AppointmentService, BookedAddon, InsertAppointmentService, Service, ServiceAddon } from "@shared/schema";
+import { storage } from "../storage";
+import { roundMoney, toMoney } from "../utils/money";
+
+/** Default minutes for a service with no duration set */
+const DEFAULT_SERVICE_MINUTES = 60;
+
+/** Most services one appointment can hold — same for staff, online and voice bookings */
+export const MAX_SERVICE_LINES = 10;
+
+export interface ServiceLineRequest {
+  serviceId?: number | null;
+  /** Used when the id is unknown (voice agent) — matched case-insensitively */
+  serviceName?: string;
+  staffId?: number | null;
+  addonIds?: number[];
+  addonNames?: string[];
+}
+
+export interface ServiceLine {
+  serviceId: number;
+  serviceName: string;
+  /** Null = whoever the appointment is booked with */
+  staffId: number | null;
+  /** Service price only — add-ons carry their own */
+  price: number;
+  /** Service + add-on minutes */
+  durationMinutes: number;
+  addons: BookedAddon[];
+}
+
+export interface ServiceLineWindow {
+  line: ServiceLine;
+  startDate: Date;
+  endDate: Date;
+}
+
+export type ServiceLineResolution =
+  | { ok: true; lines: ServiceLine[] }
+  | { ok: false; error: string };
+
+// ────────────────────────────────────────────────────────────────────────────
+// Totals and layout (pure)
+// ────────────────────────────────────────────────────────────────────────────
+
+export function totalDurationMinutes(lines: ServiceLine[]): number {
+  return lines.reduce((sum, line) => sum + line.durationMinutes, 0);
+}
+
+export function linePrice(line: ServiceLine): number {
+  return roundMoney(line.price + line.addons.reduce((sum, addon) => sum + addon.price, 0));
+}
+
+export function totalPrice(lines: ServiceLine[]): number {
+  return roundMoney(lines.reduce((sum, line) => sum + linePrice(line), 0));
+}
+
+/** "Haircut + Beard trim (Hot towel) + Color" */
+export function describeLines(lines: ServiceLine[]): string {
+  return lines
+    .map(line => line.addons.length > 0
+      ? `${line.serviceName} (${line.addons.map(a => a.name).join(", ")})`
+      : line.serviceName)
+    .join(" + ");
+}
+
+/** Back-to-back windows for each line, starting at `start` */
+export function layoutLines(start: Date, lines: ServiceLine[]): ServiceLineWindow[] {
+  let cursor = start.getTime();
+  return lines.map(line => {
+    const startDate = new Date(cursor);
+    cursor += line.durationMinutes * 60000;
+    return { line, startDate, endDate: new Date(cursor) };
+  });
+}
+
+/**
+ * The bookings that keep `staffId` busy: appointments booked with them, plus
+ * the window of each line they perform on someone else's appointment.
+ * `lines` are appointment_services rows for `appointments`, in position order
+ * (getAppointmentServicesForAppointments).
+ */
+export function staffBookings<T extends { id?: number; staffId: number | null; startDate: Date; endDate: Date }>(
+  appointments: T[],
+  lines: AppointmentService[],
+  staffId: number,
+): T[] {
+  const bookings: T[] = [];
+  for (const appointment of appointments) {
+    if (appointment.staffId === staffId) {
+      bookings.push(appointment);
+      continue;
+    }
+    const rows = lines.filter(row => row.appointmentId === appointment.id);
+    if (!rows.some(row => row.staffId === staffId)) continue;
+    for (const window of layoutLines(new Date(appointment.startDate), rows.map(lineFromRow))) {
+      if (window.line.staffId === staffId) {
+        bookings.push({ ...appointment, startDate: window.startDate, endDate: window.endDate });
+      }
+    }
+  }
+  return bookings;
+}
+
+/** Line for one service with the given add-ons */
+export function buildServiceLine(service: Service, addons: ServiceAddon[] = [], staffId: number | null = null): ServiceLine {
+  const booked: BookedAddon[] = addons.map(addon => ({
+    addonId: addon.id,
+    name: addon.name,
+    price: toMoney(addon.price),
+    durationMinutes: addon.durationMinutes || 0,
+  }));
+  return {
+    serviceId: service.id,
+    serviceName: service.name,
+    staffId,
+    price: toMoney(service.price),
+    durationMinutes: (service.duration || DEFAULT_SERVICE_MINUTES) + booked.reduce((sum, a) => sum + a.durationMinutes, 0),
+    addons: booked,
+  };
+}
+
+/** Rows for appointment_services — the caller fills in appointmentId and position */
+export function toAppointmentServiceRows(
+  businessId: number,
+  lines: ServiceLine[],
+): Omit<InsertAppointmentService, "appointmentId" | "position">[] {
+  return lines.map(line => ({
+    businessId,
+    serviceId: line.serviceId,
+    staffId: line.staffId,
+    serviceName: line.serviceName,
+    price: line.price.toFixed(2),
+    durationMinutes: line.durationMinutes,
+    addons: line.addons,
+  }));
+}
+
+/** A stored appointment_services row as a line */
+export function lineFromRow(row: AppointmentService): ServiceLine {
+  return {
+    serviceId: row.serviceId,
+    serviceName: row.serviceName,
+    staffId: row.staffId,
+    price: toMoney(row.price),
+    durationMinutes: row.durationMinutes,
+    addons: row.addons || [],
+  };
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Resolution
+// ────────────────────────────────────────────────────────────────────────────
+
+function findService(services: Service[], request: ServiceLineRequest): Service | undefined {
+  if (request.serviceId) {
+    return services.find(s => s.id === request.serviceId);
+  }
+  const wanted = request.serviceName?.trim().toLowerCase();
+  if (!wanted) return undefined;
+  return services.find(s => s.name.toLowerCase() === wanted)
+    || services.find(s => s.name.toLowerCase().includes(wanted) || wanted.includes(s.name.toLowerCase()));
+}
+
+function findAddon(addons: ServiceAddon[], name: string): ServiceAddon | undefined {
+  const wanted = name.trim().toLowerCase();
+  return addons.find(a => a.name.toLowerCase() === wanted)
+    || addons.find(a => a.name.toLowerCase().includes(wanted) || wanted.includes(a.name.toLowerCase()));
+}
+
+/**
+ * Turns what the customer asked for into priced, timed lines. Services and
+ * add-ons must belong to the business, be active, and add-ons must belong to
+ * the service they're booked on.
+ */
+export async function resolveServiceLines(
+  businessId: number,
+  requests: ServiceLineRequest[],
+): Promise<ServiceLineResolution> {
+  if (requests.length === 0) {
+    return { ok: false, error: "Please choose at least one service." };
+  }
+  if (requests.length > MAX_SERVICE_LINES) {
+    return { ok: false, error: `Please choose at most ${MAX_SERVICE_LINES} services.` };
+  }
+
+  const services = (await storage.getServices(businessId)).filter(s => s.active !== false);
+  const addons = await storage.getServiceAddons(businessId, { activeOnly: true });
+
+  const lines: ServiceLine[] = [];
+  for (const request of requests) {
+    const service = findService(services, request);
+    if (!service) {
+      const label = request.serviceName ? `"${request.serviceName}"` : "selected";
+      return { ok: false, error: `The ${label} service is not available.` };
+    }
+    if (service.classCapacity) {
+      return { ok: false, error: `${service.name} is a group class. Please book a seat in one of its sessions.` };
+    }
+
+    const available = addons.filter(a => a.serviceId === service.id);
+    const picked: ServiceAddon[] = [];
+    for (const addonId of request.addonIds || []) {
+      const addon = available.find(a => a.id === addonId);
+      if (!addon) return { ok: false, error: `That add-on is not available for ${service.name}.` };
+      if (!picked.includes(addon)) picked.push(addon);
+    }
+    for (const name of request.addonNames || []) {
+      const addon = findAddon(available, name);
+      if (!addon) return { ok: false, error: `"${name}" is not an add-on for ${service.name}.` };
+      if (!picked.includes(addon)) picked.push(addon);
+    }
+
+    lines.push(buildServiceLine(service, picked, request.staffId ?? null));
+  }
+
+  return { ok: true, lines };
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Reading booked appointments
+// ────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Service lines of a booked appointment — its appointment_services rows, or
+ * a single line built from appointments.serviceId for older bookings.
+ */
+export async function loadAppointmentLines(
+  appointment: Pick<Appointment, "id" | "serviceId">,
+): Promise<ServiceLine[]> {
+  try {
+    const rows = await storage.getAppointmentServices(appointment.id);
+    if (rows.length > 0) return rows.map(lineFromRow);
+  } catch (err) {
+    console.error(`[AppointmentLines] Failed to load lines for appointment ${appointment.id}:`, err);
+  }
+
+  if (!appointment.serviceId) return [];
+  const service = await storage.getService(appointment.serviceId);
+  return service ? [buildServiceLine(service)] : [];
+}
+
+/** Combined service name for messages — undefined when the appointment has no service */
+export async function describeAppointmentServices(
+  appointment: Pick<Appointment, "id" | "serviceId">,
+): Promise<string | undefined> {
+  const lines = await loadAppointmentLines(appointment);
+  return lines.length > 0 ? describeLines(lines) : undefined;
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Invoicing
+// ────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Seeds a booking's job with one line item per service and add-on, so the
+ * invoice generated on completion bills the combined list. Unpriced lines
+ * are skipped — there's nothing to bill and the owner prices them later.
+ */
+export async function addServiceLineItemsToJob(jobId: number, lines: ServiceLine[]): Promise<void> {
+  for (const line of lines) {
+    const items = [
+      { description: line.serviceName, price: line.price },
+      ...line.addons.map(addon => ({ description: `${line.serviceName} add-on: ${addon.name}`, price: addon.price })),
+    ];
+    for (const item of items) {
+      if (item.price <= 0) continue;
+      await storage.createJobLineItem({
+        jobId,
+        type: "service",
+        description: item.description,
+        quantity: 1,
+        unitPrice: item.price.toFixed(2),
+        amount: item.price.toFixed(2),
+        taxable: true,
+      });
+    }
+  }
+}
@@ -1,8 +1,11 @@
 import { storage } from '../storage';
-import { appointments, InsertAppointment } from '@shared/schema';
-import { and, eq, sql } from 'drizzle-orm';
+import { appointments, appointmentServices, InsertAppointment } from '@shared/schema';
+import { and, asc, eq, sql } from 'drizzle-orm';
 import { db } from '../db';
 import { createDateInTimezone } from '../utils/timezone';
+import { reserveResource } from './resourceBookingService';
+import { layoutLines, lineFromRow, toAppointmentServiceRows, type ServiceLine } from './appointmentLineService';
+import { publishRealtimeEvent } from './realtimeEventBus';
 
 /**
  * Checks if a time slot is available for booking
@@ -187,6 +190,73 @@ export async function findAvailableTimeSlots(
 // Active appointment statuses that block a slot (everything except cancelled/completed/no_show)
 const BLOCKING_STATUSES = ['scheduled', 'confirmed', 'pending'];
 
+/**
+ * Matches appointments that keep `staffId` busy between `start` and `end`:
+ * booked with them, or with a line they perform in that window. Lines run
+ * back to back from the appointment's start in position order, the same
+ * layout as layoutLines().
+ */
+function staffBusyBetween(staffId: number, start: Date, end: Date) {
+  return sql`(
+    (${appointments.staffId} = ${staffId} AND ${appointments.startDate} < ${end} AND ${appointments.endDate} > ${start})
+    OR EXISTS (
+      SELECT 1 FROM (
+        SELECT staff_id,
+          SUM(duration_minutes) OVER (ORDER BY position, id ROWS UNBOUNDED PRECEDING) AS ends_after,
+          duration_minutes
+        FROM appointment_services
+        WHERE appointment_id = ${appointments.id}
+      ) line
+      WHERE line.staff_id = ${staffId}
+        AND ${appointments.startDate} + make_interval(mins => (line.ends_after - line.duration_minutes)::int) < ${end}
+        AND ${appointments.startDate} + make_interval(mins => line.ends_after::int) > ${start}
+    )
+  )`;
+}
+
+/**
+ * Looks for (and locks) appointments that would clash with booking these
+ * lines from `start` to `end`: the appointment's staff member for the whole
+ * visit, and anyone else for their own line's window. Without a staff member
+ * any overlapping appointment clashes. Returns an error message, or null.
+ */
+async function findStaffConflict(tx: any, params: {
+  businessId: number;
+  staffId?: number | null;
+  startDate: Date;
+  endDate: Date;
+  lines: ServiceLine[];
+  excludeAppointmentId?: number;
+}): Promise<string | null> {
+  const base = [
+    eq(appointments.businessId, params.businessId),
+    sql`${appointments.status} IN ('scheduled', 'confirmed', 'pending')`,
+    ...(params.excludeAppointmentId ? [sql`${appointments.id} != ${params.excludeAppointmentId}`] : []),
+  ];
+
+  const conflicting = await tx.select({ id: appointments.id })
+    .from(appointments)
+    .where(and(...base, params.staffId
+      ? staffBusyBetween(params.staffId, params.startDate, params.endDate)
+      : and(sql`${appointments.startDate} < ${params.endDate}`, sql`${appointments.endDate} > ${params.startDate}`)))
+    .for('update');
+  if (conflicting.length > 0) {
+    return 'This time slot is already booked. Please select another time.';
+  }
+
+  for (const { line, startDate, endDate } of layoutLines(params.startDate, params.lines)) {
+    if (!line.staffId || line.staffId === params.staffId) continue;
+    const lineConflicts = await tx.select({ id: appointments.id })
+      .from(appointments)
+      .where(and(...base, staffBusyBetween(line.staffId, startDate, endDate)))
+      .for('update');
+    if (lineConflicts.length > 0) {
+      return `The staff member for ${line.serviceName} is already booked at that time. Please select another time.`;
+    }
+  }
+  return null;
+}
+
 /**
  * Validates and creates a new appointment with double booking prevention.
  *
@@ -194,10 +264,21 @@ const BLOCKING_STATUSES = ['scheduled', 'confirmed', 'pending'];
  * to eliminate the TOCTOU race condition where two concurrent requests could
  * both see a slot as available and both create appointments.
  *
+ * Services that require a resource (room, chair, lift) also get one assigned
+ * here — or the booking fails when every resource of the type is full.
+ *
+ * Multi-service bookings pass their lines in `options.services`; they're
+ * stored in the same transaction, and a line done by someone other than the
+ * appointment's staff member is checked against that person's calendar for
+ * the line's own window.
+ *
  * @param appointmentData The appointment data to create
+ * @param options.services Ordered service lines (see appointmentLineService)
  * @returns Promise resolving to object with success status and appointment or error
  */
-export async function createAppointmentSafely(appointmentData: InsertAppointment): Promise<{
+export async function createAppointmentSafely(appointmentData: InsertAppointment, options: {
+  services?: ServiceLine[];
+} = {}): Promise<{
   success: boolean;
   appointment?: any;
   error?: string;
@@ -207,42 +288,56 @@ export async function createAppointmentSafely(appointmentData: InsertAppointment
       // Check for conflicting appointments inside the transaction using FOR UPDATE
       // to lock matching rows and prevent concurrent inserts for the same slot.
       // We check all non-cancelled/completed statuses to catch confirmed + pending too.
-      const conditions: any[] = [
-        eq(appointments.businessId, appointmentData.businessId),
-        sql`${appointments.status} IN ('scheduled', 'confirmed', 'pending')`,
-        sql`${appointments.startDate} < ${appointmentData.endDate}`,
-        sql`${appointments.endDate} > ${appointmentData.startDate}`,
-      ];
-
-      if (appointmentData.staffId) {
-        conditions.push(eq(appointments.staffId, appointmentData.staffId));
+      const lines = options.services || [];
+      const conflict = await findStaffConflict(tx, {
+        businessId: appointmentData.businessId,
+        staffId: appointmentData.staffId,
+        startDate: appointmentData.startDate,
+        endDate: appointmentData.endDate,
+        lines,
+      });
+      if (conflict) {
+        return { success: false as const, error: conflict };
       }
 
-      const conflicting = await tx.select({ id: appointments.id })
-        .from(appointments)
-        .where(and(...conditions))
-        .for('update');
-
-      if (conflicting.length > 0) {
-        return {
-          success: false as const,
-          error: 'This time slot is already booked. Please select another time.',
-        };
+      const serviceId = lines[0]?.serviceId ?? appointmentData.serviceId;
+
+      const resource = await reserveResource(tx, {
+        businessId: appointmentData.businessId,
+        serviceId,
+        serviceIds: lines.map(line => line.serviceId),
+        resourceId: appointmentData.resourceId,
+        startDate: appointmentData.startDate,
+        endDate: appointmentData.endDate,
+      });
+      if (!resource.ok) {
+        return { success: false as const, error: resource.error };
       }
 
       // No conflicts — create the appointment within the same transaction
       const [newAppointment] = await tx.insert(appointments).values({
         ...appointmentData,
+        serviceId,
+        resourceId: resource.resourceId,
         createdAt: new Date(),
         updatedAt: new Date(),
       }).returning();
 
+      if (lines.length > 0) {
+        await tx.insert(appointmentServices).values(
+          toAppointmentServiceRows(appointmentData.businessId, lines)
+            .map((row, position) => ({ ...row, appointmentId: newAppointment.id, position })),
+        );
+      }
+
       return {
         success: true as const,
         appointment: newAppointment,
       };
     });
 
+    // Writes go through tx, not storage, so announce them once committed
+    if (result.success) publishRealtimeEvent(appointmentData.businessId, 'appointments');
     return result;
   } catch (error) {
     console.error('Error creating appointment safely:', error);
@@ -258,6 +353,12 @@ export async function createAppointmentSafely(appointmentData: InsertAppointment
  *
  * Used for reschedules (drag-and-drop, self-service, SMS).
  * Uses a database transaction with row-level locking to prevent race conditions.
+ * The appointment keeps its resource when that still has room at the new
+ * time, otherwise another resource of the same type is assigned.
+ *
+ * Staff doing individual lines are checked for their lines' new windows.
+ * Pass `options.services` to replace the lines too — they're checked and
+ * stored in the same transaction.
  *
  * @param appointmentId The appointment to update
  * @param businessId The business ID (for ownership verification)
@@ -265,6 +366,7 @@ export async function createAppointmentSafely(appointmentData: InsertAppointment
  * @param newEndDate New end time
  * @param staffId Staff member to check conflicts for (optional — uses existing if not provided)
  * @param additionalUpdates Any other fields to update (notes, etc.)
+ * @param options.services New ordered service lines (see appointmentLineService)
  * @returns Promise resolving to object with success status and updated appointment or error
  */
 export async function updateAppointmentSafely(
@@ -273,7 +375,8 @@ export async function updateAppointmentSafely(
   newStartDate: Date,
   newEndDate: Date,
   staffId?: number | null,
-  additionalUpdates?: Record<string, any>
+  additionalUpdates?: Record<string, any>,
+  options: { services?: ServiceLine[] } = {},
 ): Promise<{
   success: boolean;
   appointment?: any;
@@ -281,29 +384,55 @@ export async function updateAppointmentSafely(
 }> {
   try {
     const result = await db.transaction(async (tx) => {
+      // Moved lines keep their staff; replaced ones bring their own
+      const lines = options.services ?? (await tx.select()
+        .from(appointmentServices)
+        .where(eq(appointmentServices.appointmentId, appointmentId))
+        .orderBy(asc(appointmentServices.position), asc(appointmentServices.id))).map(lineFromRow);
+
       // Check for conflicting appointments (excluding the one being updated)
-      const conditions: any[] = [
-        eq(appointments.businessId, businessId),
-        sql`${appointments.status} IN ('scheduled', 'confirmed', 'pending')`,
-        sql`${appointments.startDate} < ${newEndDate}`,
-        sql`${appointments.endDate} > ${newStartDate}`,
-        sql`${appointments.id} != ${appointmentId}`, // Exclude self
-      ];
-
-      if (staffId) {
-        conditions.push(eq(appointments.staffId, staffId));
+      const conflict = await findStaffConflict(tx, {
+        businessId,
+        staffId,
+        startDate: newStartDate,
+        endDate: newEndDate,
+        lines,
+        excludeAppointmentId: appointmentId,
+      });
+      if (conflict) {
+        return { success: false as const, error: conflict };
       }
 
-      const conflicting = await tx.select({ id: appointments.id })
+      const [current] = await tx.select({ serviceId: appointments.serviceId, resourceId: appointments.resourceId })
         .from(appointments)
-        .where(and(...conditions))
-        .for('update');
-
-      if (conflicting.length > 0) {
-        return {
-          success: false as const,
-          error: 'This time slot is already booked. Please select another time.',
-        };
+        .where(and(eq(appointments.id, appointmentId), eq(appointments.businessId, businessId)));
+      const serviceId = options.services?.[0]?.serviceId ?? additionalUpdates?.serviceId ?? current?.serviceId;
+      // An explicit resourceId in the updates wins (null = pick one for the service)
+      const resourceChanged = !!additionalUpdates && 'resourceId' in additionalUpdates;
+      const requestedResourceId = resourceChanged ? additionalUpdates!.resourceId : current?.resourceId;
+
+      let resource = await reserveResource(tx, {
+        businessId,
+        serviceId,
+        serviceIds: lines.map(line => line.serviceId),
+        resourceId: requestedResourceId,
+        startDate: newStartDate,
+        endDate: newEndDate,
+        excludeAppointmentId: appointmentId,
+      });
+      // The old resource is taken at the new time — any free one of the type will do
+      if (!resource.ok && !resourceChanged && current?.resourceId) {
+        resource = await reserveResource(tx, {
+          businessId,
+          serviceId,
+          serviceIds: lines.map(line => line.serviceId),
+          startDate: newStartDate,
+          endDate: newEndDate,
+          excludeAppointmentId: appointmentId,
+        });
+      }
+      if (!resource.ok) {
+        return { success: false as const, error: resource.error };
       }
 
       // No conflicts — update the appointment within the same transaction
@@ -313,6 +442,8 @@ export async function updateAppointmentSafely(
           endDate: newEndDate,
           updatedAt: new Date(),
           ...(additionalUpdates || {}),
+          serviceId,
+          resourceId: resource.resourceId,
         })
         .where(and(
           eq(appointments.id, appointmentId),
@@ -327,12 +458,23 @@ export async function updateAppointmentSafely(
         };
       }
 
+      if (options.services) {
+        await tx.delete(appointmentServices).where(eq(appointmentServices.appointmentId, appointmentId));
+        if (options.services.length > 0) {
+          await tx.insert(appointmentServices).values(
+            toAppointmentServiceRows(businessId, options.services)
+              .map((row, position) => ({ ...row, appointmentId, position })),
+          );
+        }
+      }
+
       return {
         success: true as const,
         appointment: updated,
       };
     });
 
+    if (result.success) publishRealtimeEvent(businessId, 'appointments');
     return result;
   } catch (error) {
     console.error('Error updating appointment safely:', error);
@@ -0,0 +1,301 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+// ── Mocks (vi.hoisted ensures they're available when vi.mock factories run) ──
+
+const { mockStorage, mockSendSms, mockCreateAppointmentSafely } = vi.hoisted(() => ({
+  mockStorage: {
+    getBusiness: vi.fn(),
+    getService: vi.fn(),
+    getStaffMember: vi.fn(),
+    getCustomer: vi.fn(),
+    getCustomerByPhone: vi.fn(),
+    createCustomer: vi.fn(),
+    getAppointment: vi.fn(),
+    getAppointments: vi.fn(),
+    updateAppointment: vi.fn(),
+    getAppointmentWaitlistEntries: vi.fn(),
+    getAppointmentWaitlistEntry: vi.fn(),
+    createAppointmentWaitlistEntry: vi.fn(),
+    updateAppointmentWaitlistEntry: vi.fn(),
+    getAppointmentSlotOffers: vi.fn(),
+    getAppointmentSlotOffer: vi.fn(),
+    getExpiredAppointmentSlotOffers: vi.fn(),
+    createAppointmentSlotOffer: vi.fn(),
+    updateAppointmentSlotOffer: vi.fn(),
+    getActiveSmsConversation: vi.fn(),
+    createSmsConversation: vi.fn(),
+    updateSmsConversation: vi.fn(),
+  },
+  mockSendSms: vi.fn(),
+  mockCreateAppointmentSafely: vi.fn(),
+}));
+
+vi.mock('../storage', () => ({ storage: mockStorage }));
+vi.mock('./twilioService', () => ({ sendSms: mockSendSms }));
+vi.mock('./agentActivityService', () => ({ logAgentAction: vi.fn() }));
+vi.mock('./appointmentService', () => ({ createAppointmentSafely: mockCreateAppointmentSafely }));
+vi.mock('./webhookService', () => ({ fireEvent: vi.fn().mockResolvedValue(undefined) }));
+vi.mock('./orchestrationService', () => ({ dispatchEvent: vi.fn().mockResolvedValue(undefined) }));
+vi.mock('./calendarService', () => ({
+  CalendarService: class {
+    syncAppointment = vi.fn().mockResolvedValue(undefined);
+  },
+}));
+
+import {
+  entryMatchesSlot,
+  getHeldSlots,
+  handleSlotOfferReply,
+  joinAppointmentWaitlist,
+  offerCancelledSlot,
+  processExpiredSlotOffers,
+} from './appointmentWaitlistService';
+
+// ── Test Data ──
+
+const BUSINESS = {
+  id: 1, name: 'Fade Shop', timezone: 'UTC', bookingSlug: 'fade-shop',
+  appointmentWaitlistEnabled: true, appointmentWaitlistHoldMinutes: 15,
+} as any;
+
+const SLOT_START = new Date(Date.now() + 2 * 86_400_000);
+SLOT_START.setUTCHours(15, 0, 0, 0);
+const SLOT_END = new Date(SLOT_START.getTime() + 30 * 60_000);
+const SLOT_DATE = SLOT_START.toISOString().slice(0, 10);
+
+const CANCELLED = {
+  id: 10, businessId: 1, customerId: 99, staffId: 5, serviceId: 7,
+  startDate: SLOT_START, endDate: SLOT_END, status: 'cancelled',
+} as any;
+
+function entry(id: number, overrides: Record<string, unknown> = {}) {
+  return {
+    id, businessId: 1, customerId: 100 + id, serviceId: null, staffId: null,
+    windowStart: SLOT_DATE, windowEnd: SLOT_DATE, priority: 0, status: 'active', source: 'owner',
+    notes: null, appointmentId: null, createdAt: new Date(), ...overrides,
+  } as any;
+}
+
+function offer(id: number, overrides: Record<string, unknown> = {}) {
+  return {
+    id, businessId: 1, entryId: 1, customerId: 101, cancelledAppointmentId: 10, serviceId: 7, staffId: 5,
+    startDate: SLOT_START, endDate: SLOT_END, status: 'pending',
+    expiresAt: new Date(Date.now() + 15 * 60_000), respondedAt: null, appointmentId: null, ...overrides,
+  } as any;
+}
+
+function conversation(referenceId: number) {
+  return {
+    id: 50, businessId: 1, customerId: 101, customerPhone: '+15550000001',
+    agentType: 'slot_offer', referenceType: 'appointment_slot_offer', referenceId, state: 'awaiting_reply',
+  } as any;
+}
+
+// ── Tests ──
+
+describe('appointmentWaitlistService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockStorage.getBusiness.mockResolvedValue(BUSINESS);
+    mockStorage.getService.mockResolvedValue({ id: 7, businessId: 1, name: 'Skin Fade' });
+    mockStorage.getStaffMember.mockResolvedValue({ id: 5, businessId: 1, firstName: 'Marcus' });
+    mockStorage.getCustomer.mockImplementation(async (id: number) => ({ id, firstName: 'Ada', phone: `+1555000${id}` }));
+    mockStorage.getCustomerByPhone.mockResolvedValue(undefined);
+    mockStorage.createCustomer.mockResolvedValue({ id: 200 });
+    mockStorage.getAppointment.mockResolvedValue(CANCELLED);
+    mockStorage.getAppointments.mockResolvedValue([CANCELLED]);
+    mockStorage.getAppointmentWaitlistEntries.mockResolvedValue([]);
+    mockStorage.getAppointmentWaitlistEntry.mockImplementation(async (id: number) => entry(id, { status: 'offered' }));
+    mockStorage.createAppointmentWaitlistEntry.mockImplementation(async (data: object) => entry(3, data));
+    mockStorage.updateAppointmentWaitlistEntry.mockImplementation(async (id: number, data: object) => entry(id, data));
+    mockStorage.getAppointmentSlotOffers.mockResolvedValue([]);
+    mockStorage.createAppointmentSlotOffer.mockImplementation(async (data: object) => offer(30, data));
+    mockStorage.updateAppointmentSlotOffer.mockImplementation(async (id: number, data: object) => offer(id, data));
+    mockStorage.getActiveSmsConversation.mockResolvedValue(undefined);
+    mockSendSms.mockResolvedValue({ sid: 'SM1' });
+  });
+
+  // Lock releases and calendar syncs are fire-and-forget dynamic imports
+  afterEach(async () => {
+    await vi.dynamicImportSettled();
+  });
+
+  describe('joinAppointmentWaitlist', () => {
+    const input = { name: 'Ada Lovelace', phone: '+15551234567', serviceId: 7, windowStart: SLOT_DATE, windowEnd: SLOT_DATE, source: 'online' as const };
+
+    it('creates the customer and entry and texts what they are waiting for', async () => {
+      const result = await joinAppointmentWaitlist(BUSINESS, input);
+
+      expect(result.ok).toBe(true);
+      expect(mockStorage.createCustomer).toHaveBeenCalledWith(expect.objectContaining({ firstName: 'Ada', lastName: 'Lovelace' }));
+      expect(mockStorage.createAppointmentWaitlistEntry).toHaveBeenCalledWith(expect.objectContaining({
+        customerId: 200, serviceId: 7, staffId: null, status: 'active', source: 'online',
+      }));
+      expect(mockSendSms.mock.calls[0][1]).toContain("You're on the Fade Shop waitlist for Skin Fade");
+    });
+
+    it('refuses a closed list, past or overlong windows and duplicates', async () => {
+      expect(await joinAppointmentWaitlist({ ...BUSINESS, appointmentWaitlistEnabled: false }, input))
+        .toEqual(expect.objectContaining({ ok: false, reason: 'disabled' }));
+      expect(await joinAppointmentWaitlist(BUSINESS, { ...input, windowStart: '2020-01-01', windowEnd: '2020-01-05' }))
+        .toEqual(expect.objectContaining({ ok: false, reason: 'invalid_window' }));
+      expect(await joinAppointmentWaitlist(BUSINESS, { ...input, windowEnd: '2099-01-01' }))
+        .toEqual(expect.objectContaining({ ok: false, reason: 'invalid_window' }));
+
+      mockStorage.getCustomerByPhone.mockResolvedValue({ id: 101 });
+      mockStorage.getAppointmentWaitlistEntries.mockResolvedValue([entry(1, { serviceId: 7 })]);
+      expect(await joinAppointmentWaitlist(BUSINESS, input))
+        .toEqual(expect.objectContaining({ ok: false, reason: 'already_waiting' }));
+      expect(mockStorage.createAppointmentWaitlistEntry).not.toHaveBeenCalled();
+    });
+
+    it('rejects a service from another business', async () => {
+      mockStorage.getService.mockResolvedValue({ id: 7, businessId: 2, name: 'Elsewhere' });
+      expect(await joinAppointmentWaitlist(BUSINESS, input))
+        .toEqual(expect.objectContaining({ ok: false, reason: 'invalid_choice' }));
+    });
+  });
+
+  describe('entryMatchesSlot', () => {
+    it('matches "any" choices and checks the date window', () => {
+      expect(entryMatchesSlot(entry(1), CANCELLED, SLOT_DATE)).toBe(true);
+      expect(entryMatchesSlot(entry(1, { staffId: 6 }), CANCELLED, SLOT_DATE)).toBe(false);
+      expect(entryMatchesSlot(entry(1, { serviceId: 7, staffId: 5 }), CANCELLED, SLOT_DATE)).toBe(true);
+      expect(entryMatchesSlot(entry(1), CANCELLED, '2099-01-01')).toBe(false);
+    });
+  });
+
+  describe('offerCancelledSlot', () => {
+    it('offers the slot to the first matching customer, skipping the canceller and anyone already offered', async () => {
+      mockStorage.getAppointmentWaitlistEntries.mockResolvedValue([
+        entry(9, { customerId: 99, priority: 5 }),
+        entry(1, { priority: 3 }),
+        entry(2, { priority: 2 }),
+      ]);
+      mockStorage.getAppointmentSlotOffers.mockResolvedValue([offer(20, { customerId: 101, status: 'declined' })]);
+
+      const result = await offerCancelledSlot(10);
+
+      expect(result?.entryId).toBe(2);
+      expect(mockStorage.createAppointmentSlotOffer).toHaveBeenCalledTimes(1);
+      expect(mockStorage.createAppointmentSlotOffer).toHaveBeenCalledWith(expect.objectContaining({
+        entryId: 2, customerId: 102, cancelledAppointmentId: 10, status: 'pending',
+      }));
+      expect(mockSendSms.mock.calls[0][1]).toContain('reply YES to book it');
+      expect(mockStorage.createSmsConversation).toHaveBeenCalledWith(expect.objectContaining({
+        agentType: 'slot_offer', referenceType: 'appointment_slot_offer', referenceId: 30,
+      }));
+      expect(mockStorage.updateAppointmentWaitlistEntry).toHaveBeenCalledWith(2, { status: 'offered' });
+    });
+
+    it('does nothing while a hold is pending or once the slot is rebooked', async () => {
+      mockStorage.getAppointmentWaitlistEntries.mockResolvedValue([entry(1)]);
+
+      mockStorage.getAppointmentSlotOffers.mockResolvedValue([offer(20)]);
+      expect(await offerCancelledSlot(10)).toBeNull();
+
+      mockStorage.getAppointmentSlotOffers.mockResolvedValue([]);
+      mockStorage.getAppointments.mockResolvedValue([
+        CANCELLED,
+        { ...CANCELLED, id: 11, status: 'scheduled' },
+      ]);
+      expect(await offerCancelledSlot(10)).toBeNull();
+      expect(mockStorage.createAppointmentSlotOffer).not.toHaveBeenCalled();
+    });
+
+    it('moves on when the offer text fails', async () => {
+      mockStorage.getAppointmentWaitlistEntries.mockResolvedValue([entry(1), entry(2)]);
+      mockStorage.createAppointmentSlotOffer
+        .mockImplementationOnce(async (data: object) => offer(30, data))
+        .mockImplementationOnce(async (data: object) => offer(31, data));
+      mockSendSms.mockRejectedValueOnce(new Error('undeliverable'));
+
+      const result = await offerCancelledSlot(10);
+
+      expect(mockStorage.updateAppointmentSlotOffer).toHaveBeenCalledWith(30, { status: 'expired' });
+      expect(result?.id).toBe(31);
+    });
+  });
+
+  describe('getHeldSlots', () => {
+    it('reports pending holds as occupied slots', async () => {
+      mockStorage.getAppointmentSlotOffers.mockResolvedValue([offer(20)]);
+      expect(await getHeldSlots(BUSINESS, SLOT_START, SLOT_END)).toEqual([
+        { staffId: 5, status: 'held', startDate: SLOT_START, endDate: SLOT_END },
+      ]);
+      expect(await getHeldSlots({ ...BUSINESS, appointmentWaitlistEnabled: false }, SLOT_START, SLOT_END)).toEqual([]);
+    });
+  });
+
+  describe('handleSlotOfferReply', () => {
+    beforeEach(() => {
+      mockStorage.getAppointmentSlotOffer.mockResolvedValue(offer(20));
+    });
+
+    it('books the held slot on YES and takes the customer off the waitlist', async () => {
+      mockCreateAppointmentSafely.mockResolvedValue({ success: true, appointment: { id: 77 } });
+      mockStorage.updateAppointment.mockImplementation(async (id: number, data: object) => ({
+        id, startDate: SLOT_START, ...data,
+      }));
+
+      const result = await handleSlotOfferReply(conversation(20), 'Yes please', undefined, 1);
+
+      expect(mockCreateAppointmentSafely).toHaveBeenCalledWith(expect.objectContaining({
+        businessId: 1, customerId: 101, staffId: 5, serviceId: 7, startDate: SLOT_START, status: 'scheduled',
+      }));
+      expect(mockStorage.updateAppointmentSlotOffer).toHaveBeenCalledWith(20, expect.objectContaining({
+        status: 'accepted', appointmentId: 77,
+      }));
+      expect(mockStorage.updateAppointmentWaitlistEntry).toHaveBeenCalledWith(1, { status: 'booked', appointmentId: 77 });
+      expect(result?.replyMessage).toContain("You're booked for");
+      expect(result?.replyMessage).toContain('/book/fade-shop/manage/');
+    });
+
+    it('puts the customer back in line when the slot was taken first', async () => {
+      mockCreateAppointmentSafely.mockResolvedValue({ success: false, error: 'conflict' });
+
+      const result = await handleSlotOfferReply(conversation(20), 'yes', undefined, 1);
+
+      expect(mockStorage.updateAppointmentSlotOffer).toHaveBeenCalledWith(20, { status: 'expired' });
+      expect(mockStorage.updateAppointmentWaitlistEntry).toHaveBeenCalledWith(1, { status: 'active' });
+      expect(result?.replyMessage).toContain('just booked');
+    });
+
+    it('passes the slot to the next customer on NO', async () => {
+      // The declined offer is on record once closed, so the decliner is skipped
+      mockStorage.getAppointmentSlotOffers.mockResolvedValue([offer(20, { status: 'declined' })]);
+      mockStorage.getAppointmentWaitlistEntries.mockResolvedValue([entry(1), entry(2)]);
+
+      const result = await handleSlotOfferReply(conversation(20), 'no thanks', undefined, 1);
+
+      expect(mockStorage.updateAppointmentSlotOffer).toHaveBeenCalledWith(20, expect.objectContaining({ status: 'declined' }));
+      expect(mockStorage.updateAppointmentWaitlistEntry).toHaveBeenCalledWith(1, { status: 'active' });
+      expect(mockStorage.createAppointmentSlotOffer).toHaveBeenCalledWith(expect.objectContaining({ entryId: 2 }));
+      expect(result?.replyMessage).toContain("you're still on the Fade Shop waitlist");
+    });
+
+    it('tells late replies the opening is gone', async () => {
+      mockStorage.getAppointmentSlotOffer.mockResolvedValue(offer(20, { status: 'expired' }));
+
+      const result = await handleSlotOfferReply(conversation(20), 'YES', undefined, 1);
+
+      expect(mockCreateAppointmentSafely).not.toHaveBeenCalled();
+      expect(mockStorage.updateSmsConversation).toHaveBeenCalledWith(50, { state: 'resolved' });
+      expect(result?.replyMessage).toContain('no longer available');
+    });
+  });
+
+  describe('processExpiredSlotOffers', () => {
+    it('expires unanswered holds and offers the slot onward', async () => {
+      mockStorage.getExpiredAppointmentSlotOffers.mockResolvedValue([offer(20)]);
+      mockStorage.getActiveSmsConversation.mockResolvedValue(conversation(20));
+      mockStorage.getAppointmentSlotOffers.mockResolvedValue([offer(20, { status: 'expired' })]);
+      mockStorage.getAppointmentWaitlistEntries.mockResolvedValue([entry(2)]);
+
+      expect(await processExpiredSlotOffers()).toBe(1);
+      expect(mockStorage.updateAppointmentSlotOffer).toHaveBeenCalledWith(20, { status: 'expired', respondedAt: null });
+      expect(mockStorage.updateSmsConversation).toHaveBeenCalledWith(50, { state: 'expired' });
+      expect(mockStorage.createAppointmentSlotOffer).toHaveBeenCalledWith(expect.objectContaining({ entryId: 2 }));
+    });
+  });
+});
@@ -0,0 +1,526 @@
+/**
+ * Appointment Waitlist Service — auto-fills cancelled slots by SMS
+ *
+ * Customers join a waitlist for a service and/or staff member (either may be
+ * "any") over a window of dates, from the owner's dashboard or the public
+ * booking page. When an appointment is cancelled (the `appointment.cancelled`
+ * orchestrator event), the freed slot is offered to matching customers one at
+ * a time, highest priority first:
+ *
+ *   offer   → text the customer, hold the slot for `appointmentWaitlistHoldMinutes`
+ *   YES     → book it (race-safe) and take them off the waitlist
+ *   NO      → next customer in line gets the offer
+ *   timeout → the scheduler expires the hold and moves on the same way
+ *
+ * When nobody is left the hold is simply released and the slot is open to
+ * anyone again. While an offer is pending the public booking page treats the
+ * slot as taken (see `getHeldSlots`).
+ *
+ * Each offer owns an SMS conversation (agentType `slot_offer`).
+ */
+
+import crypto from "crypto";
+import { storage } from "../storage";
+import type {
+  Appointment,
+  AppointmentSlotOffer,
+  AppointmentWaitlistEntry,
+  Business,
+  Customer,
+  SmsConversation,
+} from "@shared/schema";
+import { sendSms } from "./twilioService";
+import { classifyReply } from "./smsReplyParser";
+import { logAgentAction } from "./agentActivityService";
+import { createAppointmentSafely } from "./appointmentService";
+import { fireEvent } from "./webhookService";
+import { logAndSwallow } from "../utils/safeAsync";
+
+const LOG_PREFIX = "[AppointmentWaitlist]";
+
+const DEFAULT_HOLD_MINUTES = 15;
+
+// Longest window a customer can wait for
+const MAX_WINDOW_DAYS = 90;
+
+// Statuses that keep a customer in line (offered = currently holding a slot)
+export const ACTIVE_ENTRY_STATUSES = ["active", "offered"];
+
+// Appointment statuses that occupy a slot (matches createAppointmentSafely)
+const BLOCKING_STATUSES = ["scheduled", "confirmed", "pending"];
+
+// "C" / "CANCEL" are taken by the appointment keyword handler, so customers reply LEAVE
+const LEAVE_WORDS = ["leave", "remove", "unsubscribe"];
+
+export type AppointmentWaitlistSource = "owner" | "online";
+
+export interface JoinAppointmentWaitlistInput {
+  name: string;
+  phone: string;
+  email?: string | null;
+  serviceId?: number | null;
+  staffId?: number | null;
+  /** Local dates, YYYY-MM-DD */
+  windowStart: string;
+  windowEnd: string;
+  priority?: number;
+  notes?: string | null;
+  source: AppointmentWaitlistSource;
+}
+
+export type AppointmentWaitlistResult =
+  | { ok: true; entry: AppointmentWaitlistEntry }
+  | {
+      ok: false;
+      reason: "disabled" | "invalid_window" | "invalid_choice" | "already_waiting" | "not_active";
+      message: string;
+    };
+
+/** A slot held for a customer — shaped like the appointment fields slot checks read */
+export interface HeldSlot {
+  staffId: number | null;
+  status: string;
+  startDate: Date;
+  endDate: Date;
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Joining and leaving
+// ────────────────────────────────────────────────────────────────────────────
+
+function todayIn(timezone: string): string {
+  return new Date().toLocaleDateString("en-CA", { timeZone: timezone });
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86_400_000);
+}
+
+/**
+ * Adds a customer to the waitlist, linking (or creating) them by phone, and
+ * texts them what they're waiting for.
+ */
+export async function joinAppointmentWaitlist(
+  business: Business,
+  input: JoinAppointmentWaitlistInput,
+): Promise<AppointmentWaitlistResult> {
+  if (!business.appointmentWaitlistEnabled) {
+    return { ok: false, reason: "disabled", message: "The waitlist is not open right now" };
+  }
+
+  const timezone = business.timezone || "America/New_York";
+  if (
+    input.windowStart > input.windowEnd ||
+    input.windowEnd < todayIn(timezone) ||
+    daysBetween(input.windowStart, input.windowEnd) > MAX_WINDOW_DAYS
+  ) {
+    return {
+      ok: false,
+      reason: "invalid_window",
+      message: `Choose dates from today onward, up to ${MAX_WINDOW_DAYS} days apart`,
+    };
+  }
+
+  const service = input.serviceId ? await storage.getService(input.serviceId) : undefined;
+  const staffMember = input.staffId ? await storage.getStaffMember(input.staffId) : undefined;
+  if ((input.serviceId && service?.businessId !== business.id) || (input.staffId && staffMember?.businessId !== business.id)) {
+    return { ok: false, reason: "invalid_choice", message: "That service or staff member isn't available" };
+  }
+
+  const nameParts = input.name.trim().split(/\s+/);
+  let customer = await storage.getCustomerByPhone(input.phone, business.id);
+  if (!customer) {
+    customer = await storage.createCustomer({
+      businessId: business.id,
+      firstName: nameParts[0] || "Customer",
+      lastName: nameParts.slice(1).join(" "),
+      phone: input.phone,
+      email: input.email || null,
+    });
+  }
+
+  const waiting = await storage.getAppointmentWaitlistEntries(business.id, { statuses: ACTIVE_ENTRY_STATUSES });
+  const duplicate = waiting.some((e) =>
+    e.customerId === customer!.id &&
+    (e.serviceId ?? null) === (input.serviceId ?? null) &&
+    (e.staffId ?? null) === (input.staffId ?? null),
+  );
+  if (duplicate) {
+    return { ok: false, reason: "already_waiting", message: "This customer is already on the waitlist for that" };
+  }
+
+  const entry = await storage.createAppointmentWaitlistEntry({
+    businessId: business.id,
+    customerId: customer.id,
+    serviceId: input.serviceId ?? null,
+    staffId: input.staffId ?? null,
+    windowStart: input.windowStart,
+    windowEnd: input.windowEnd,
+    priority: input.priority ?? 0,
+    status: "active",
+    source: input.source,
+    notes: input.notes || null,
+  });
+  console.log(`${LOG_PREFIX} Customer ${customer.id} joined business ${business.id} waitlist (${input.source})`);
+
+  const what = [service?.name, staffMember ? `with ${staffMember.firstName}` : null].filter(Boolean).join(" ");
+  const message =
+    `You're on the ${business.name} waitlist${what ? ` for ${what}` : ""} ` +
+    `between ${formatWindowDate(input.windowStart)} and ${formatWindowDate(input.windowEnd)}. ` +
+    `We'll text you if a time opens up.`;
+  try {
+    await sendSms(input.phone, message, undefined, business.id);
+  } catch (err) {
+    console.error(`${LOG_PREFIX} Failed to text waitlist entry ${entry.id}:`, err);
+  }
+
+  return { ok: true, entry };
+}
+
+/**
+ * Takes a customer off the waitlist. A slot they were holding goes to the
+ * next customer in line.
+ */
+export async function removeAppointmentWaitlistEntry(
+  business: Business,
+  entry: AppointmentWaitlistEntry,
+): Promise<AppointmentWaitlistResult> {
+  if (!ACTIVE_ENTRY_STATUSES.includes(entry.status)) {
+    return { ok: false, reason: "not_active", message: "This customer is no longer on the waitlist" };
+  }
+  const updated = await storage.updateAppointmentWaitlistEntry(entry.id, { status: "cancelled" });
+
+  if (entry.status === "offered") {
+    const pending = await storage.getAppointmentSlotOffers(business.id, { statuses: ["pending"] });
+    for (const offer of pending.filter((o) => o.entryId === entry.id)) {
+      await closeOffer(offer, "declined");
+      await offerCancelledSlot(offer.cancelledAppointmentId);
+    }
+  }
+  return { ok: true, entry: updated };
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Offering cancelled slots
+// ────────────────────────────────────────────────────────────────────────────
+
+function slotDate(business: Business, startDate: Date): string {
+  return startDate.toLocaleDateString("en-CA", { timeZone: business.timezone || "America/New_York" });
+}
+
+/** Whether a waitlist entry would take this slot */
+export function entryMatchesSlot(
+  entry: AppointmentWaitlistEntry,
+  slot: Pick<Appointment, "serviceId" | "staffId">,
+  date: string,
+): boolean {
+  if (entry.serviceId && entry.serviceId !== slot.serviceId) return false;
+  if (entry.staffId && entry.staffId !== slot.staffId) return false;
+  return date >= entry.windowStart && date <= entry.windowEnd;
+}
+
+async function isSlotFree(appointment: Appointment): Promise<boolean> {
+  const sameDay = await storage.getAppointments(appointment.businessId, {
+    startDate: appointment.startDate,
+    endDate: appointment.endDate,
+    staffId: appointment.staffId ?? undefined,
+  });
+  return !sameDay.some((apt) =>
+    apt.id !== appointment.id &&
+    BLOCKING_STATUSES.includes(apt.status || "") &&
+    apt.startDate < appointment.endDate &&
+    apt.endDate > appointment.startDate,
+  );
+}
+
+/**
+ * Offers a cancelled appointment's slot to the next matching customer who
+ * hasn't been offered it yet. Safe to call repeatedly — it does nothing while
+ * an offer for the slot is still pending, once someone has accepted it, or
+ * when the slot has been rebooked some other way.
+ */
+export async function offerCancelledSlot(appointmentId: number): Promise<AppointmentSlotOffer | null> {
+  const appointment = await storage.getAppointment(appointmentId);
+  if (!appointment || appointment.status !== "cancelled") return null;
+
+  const business = await storage.getBusiness(appointment.businessId);
+  if (!business?.appointmentWaitlistEnabled) return null;
+
+  const holdMinutes = business.appointmentWaitlistHoldMinutes || DEFAULT_HOLD_MINUTES;
+  if (appointment.startDate.getTime() <= Date.now() + holdMinutes * 60_000) return null;
+
+  const offers = await storage.getAppointmentSlotOffers(business.id, { cancelledAppointmentId: appointment.id });
+  if (offers.some((o) => o.status === "pending" || o.status === "accepted")) return null;
+
+  if (!(await isSlotFree(appointment))) {
+    console.log(`${LOG_PREFIX} Slot from appointment ${appointment.id} was rebooked — nothing to offer`);
+    return null;
+  }
+
+  const alreadyOffered = new Set(offers.map((o) => o.customerId));
+  const date = slotDate(business, appointment.startDate);
+  const candidates = (await storage.getAppointmentWaitlistEntries(business.id, { statuses: ["active"] }))
+    .filter((e) =>
+      e.customerId !== appointment.customerId &&
+      !alreadyOffered.has(e.customerId) &&
+      entryMatchesSlot(e, appointment, date),
+    );
+
+  for (const entry of candidates) {
+    const customer = await storage.getCustomer(entry.customerId);
+    if (!customer?.phone) continue;
+
+    const offer = await storage.createAppointmentSlotOffer({
+      businessId: business.id,
+      entryId: entry.id,
+      customerId: entry.customerId,
+      cancelledAppointmentId: appointment.id,
+      serviceId: appointment.serviceId,
+      staffId: appointment.staffId,
+      startDate: appointment.startDate,
+      endDate: appointment.endDate,
+      status: "pending",
+      expiresAt: new Date(Date.now() + holdMinutes * 60_000),
+    });
+
+    if (await sendOffer(business, offer, customer, holdMinutes)) {
+      await storage.updateAppointmentWaitlistEntry(entry.id, { status: "offered" });
+      console.log(`${LOG_PREFIX} Offered slot from appointment ${appointment.id} to waitlist entry ${entry.id}`);
+      return offer;
+    }
+    // Couldn't reach them — count it as lapsed and try the next customer
+    await storage.updateAppointmentSlotOffer(offer.id, { status: "expired" });
+  }
+
+  console.log(`${LOG_PREFIX} No one left to offer appointment ${appointment.id}'s slot — released`);
+  return null;
+}
+
+/**
+ * Expires holds nobody answered and offers each slot to the next customer.
+ * Called by the scheduler.
+ */
+export async function processExpiredSlotOffers(): Promise<number> {
+  const expired = await storage.getExpiredAppointmentSlotOffers(new Date());
+  for (const offer of expired) {
+    try {
+      await closeOffer(offer, "expired");
+      await offerCancelledSlot(offer.cancelledAppointmentId);
+    } catch (err) {
+      console.error(`${LOG_PREFIX} Error expiring slot offer ${offer.id}:`, err);
+    }
+  }
+  if (expired.length > 0) {
+    console.log(`${LOG_PREFIX} Expired ${expired.length} slot offer(s)`);
+  }
+  return expired.length;
+}
+
+/** Slots currently held for waitlisted customers, for availability checks */
+export async function getHeldSlots(business: Business, startDate: Date, endDate: Date): Promise<HeldSlot[]> {
+  if (!business.appointmentWaitlistEnabled) return [];
+  const offers = await storage.getAppointmentSlotOffers(business.id, { statuses: ["pending"], startDate, endDate });
+  return offers.map((o) => ({ staffId: o.staffId, status: "held", startDate: o.startDate, endDate: o.endDate }));
+}
+
+/**
+ * Ends a pending offer without a booking and puts the customer back in line
+ * (unless they left the waitlist meanwhile).
+ */
+async function closeOffer(offer: AppointmentSlotOffer, status: "declined" | "expired"): Promise<void> {
+  await storage.updateAppointmentSlotOffer(offer.id, {
+    status,
+    respondedAt: status === "declined" ? new Date() : null,
+  });
+  const entry = await storage.getAppointmentWaitlistEntry(offer.entryId);
+  if (entry?.status === "offered") {
+    await storage.updateAppointmentWaitlistEntry(entry.id, { status: "active" });
+  }
+  const conversation = await findOfferConversation(offer);
+  if (conversation) {
+    await storage.updateSmsConversation(conversation.id, { state: status === "expired" ? "expired" : "resolved" });
+    releaseEngagementLock(offer.businessId, offer.customerId);
+  }
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// SMS
+// ────────────────────────────────────────────────────────────────────────────
+
+function formatWindowDate(date: string): string {
+  return new Date(`${date}T12:00:00Z`).toLocaleDateString("en-US", {
+    timeZone: "UTC",
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+  });
+}
+
+function formatSlot(business: Business, startDate: Date): string {
+  const timeZone = business.timezone || "America/New_York";
+  const day = startDate.toLocaleDateString("en-US", { timeZone, weekday: "long", month: "short", day: "numeric" });
+  const time = startDate.toLocaleTimeString("en-US", { timeZone, hour: "numeric", minute: "2-digit" });
+  return `${day} at ${time}`;
+}
+
+/** Texts the hold offer and opens its conversation. False when the text failed. */
+async function sendOffer(
+  business: Business,
+  offer: AppointmentSlotOffer,
+  customer: Customer,
+  holdMinutes: number,
+): Promise<boolean> {
+  const service = offer.serviceId ? await storage.getService(offer.serviceId) : undefined;
+  const staffMember = offer.staffId ? await storage.getStaffMember(offer.staffId) : undefined;
+  const message =
+    `Hi ${customer.firstName || "there"}! A ${service?.name || "appointment"} opening` +
+    (staffMember ? ` with ${staffMember.firstName}` : "") +
+    ` just came up at ${business.name}: ${formatSlot(business, offer.startDate)}. ` +
+    `We're holding it for you for ${holdMinutes} min — reply YES to book it or NO to pass.`;
+
+  try {
+    await sendSms(customer.phone!, message, undefined, business.id);
+  } catch (err) {
+    console.error(`${LOG_PREFIX} Failed to text slot offer ${offer.id}:`, err);
+    return false;
+  }
+
+  await storage.createSmsConversation({
+    businessId: business.id,
+    customerId: customer.id,
+    customerPhone: customer.phone!,
+    agentType: "slot_offer",
+    referenceType: "appointment_slot_offer",
+    referenceId: offer.id,
+    state: "awaiting_reply",
+    context: { cancelledAppointmentId: offer.cancelledAppointmentId },
+    lastMessageSentAt: new Date(),
+    expiresAt: offer.expiresAt,
+  });
+
+  await logAgentAction({
+    businessId: business.id,
+    agentType: "slot_offer",
+    action: "sms_sent",
+    customerId: customer.id,
+    referenceType: "appointment_slot_offer",
+    referenceId: offer.id,
+    details: { message, cancelledAppointmentId: offer.cancelledAppointmentId },
+  });
+  return true;
+}
+
+async function findOfferConversation(offer: AppointmentSlotOffer): Promise<SmsConversation | undefined> {
+  const customer = await storage.getCustomer(offer.customerId);
+  if (!customer?.phone) return undefined;
+  const conversation = await storage.getActiveSmsConversation(customer.phone, offer.businessId);
+  return conversation?.agentType === "slot_offer" && conversation.referenceId === offer.id ? conversation : undefined;
+}
+
+function releaseEngagementLock(businessId: number, customerId: number): void {
+  import("./orchestrationService").then((mod) => {
+    mod.dispatchEvent("conversation.resolved", { businessId, customerId }).catch(logAndSwallow("AppointmentWaitlist"));
+  }).catch(logAndSwallow("AppointmentWaitlist"));
+}
+
+async function resolveConversation(conversation: SmsConversation, businessId: number): Promise<void> {
+  await storage.updateSmsConversation(conversation.id, { state: "resolved" });
+  if (conversation.customerId) releaseEngagementLock(businessId, conversation.customerId);
+}
+
+/** Books the held slot for the customer who said YES */
+async function acceptOffer(
+  business: Business,
+  offer: AppointmentSlotOffer,
+  entry: AppointmentWaitlistEntry,
+): Promise<Appointment | null> {
+  const result = await createAppointmentSafely({
+    businessId: business.id,
+    customerId: offer.customerId,
+    staffId: offer.staffId,
+    serviceId: offer.serviceId,
+    startDate: offer.startDate,
+    endDate: offer.endDate,
+    status: "scheduled",
+    notes: "Booked from waitlist",
+  });
+  if (!result.success || !result.appointment) return null;
+
+  const appointment: Appointment = await storage.updateAppointment(result.appointment.id, {
+    manageToken: crypto.randomBytes(24).toString("hex"),
+  });
+  await storage.updateAppointmentSlotOffer(offer.id, {
+    status: "accepted",
+    respondedAt: new Date(),
+    appointmentId: appointment.id,
+  });
+  await storage.updateAppointmentWaitlistEntry(entry.id, { status: "booked", appointmentId: appointment.id });
+
+  fireEvent(business.id, "appointment.created", { appointment }).catch(logAndSwallow("AppointmentWaitlist"));
+  import("./calendarService").then(({ CalendarService }) => {
+    new CalendarService().syncAppointment(appointment.id).catch(logAndSwallow("AppointmentWaitlist"));
+  }).catch(logAndSwallow("AppointmentWaitlist"));
+
+  console.log(`${LOG_PREFIX} Waitlist entry ${entry.id} booked appointment ${appointment.id} from slot offer ${offer.id}`);
+  return appointment;
+}
+
+/**
+ * SMS conversation handler (agentType `slot_offer`), registered with the
+ * smsConversationRouter.
+ */
+export async function handleSlotOfferReply(
+  conversation: SmsConversation,
+  messageBody: string,
+  customer: Customer | undefined,
+  businessId: number,
+): Promise<{ replyMessage: string } | null> {
+  const business = await storage.getBusiness(businessId);
+  const offer = conversation.referenceId ? await storage.getAppointmentSlotOffer(conversation.referenceId) : undefined;
+  if (!business || !offer || offer.businessId !== businessId) return null;
+
+  if (offer.status !== "pending") {
+    await resolveConversation(conversation, businessId);
+    return offer.status === "accepted"
+      ? null
+      : { replyMessage: `Sorry, that opening at ${business.name} is no longer available. We'll text you if another one comes up.` };
+  }
+
+  const entry = await storage.getAppointmentWaitlistEntry(offer.entryId);
+  if (!entry) return null;
+
+  const words = messageBody.trim().toLowerCase().split(/\W+/);
+  if (LEAVE_WORDS.some((w) => words.includes(w))) {
+    await removeAppointmentWaitlistEntry(business, entry);
+    return { replyMessage: `No problem — you've been removed from the ${business.name} waitlist.` };
+  }
+
+  const reply = classifyReply(messageBody);
+  if (reply === "positive") {
+    const appointment = await acceptOffer(business, offer, entry);
+    await resolveConversation(conversation, businessId);
+    if (!appointment) {
+      await storage.updateAppointmentSlotOffer(offer.id, { status: "expired" });
+      await storage.updateAppointmentWaitlistEntry(entry.id, { status: "active" });
+      return { replyMessage: `Sorry, that time was just booked. You're still on the ${business.name} waitlist.` };
+    }
+    const manageUrl = business.bookingSlug && appointment.manageToken
+      ? ` Manage it here: ${process.env.APP_URL || "https://www.smallbizagent.ai"}/book/${business.bookingSlug}/manage/${appointment.manageToken}`
+      : "";
+    return {
+      replyMessage: `You're booked for ${formatSlot(business, appointment.startDate)} at ${business.name}!${manageUrl}`,
+    };
+  }
+
+  if (reply === "negative") {
+    await closeOffer(offer, "declined");
+    await offerCancelledSlot(offer.cancelledAppointmentId);
+    return { replyMessage: `No problem — you're still on the ${business.name} waitlist and we'll text you about the next opening.` };
+  }
+
+  return {
+    replyMessage:
+      `We're holding ${formatSlot(business, offer.startDate)} at ${business.name} for you. ` +
+      `Reply YES to book it or NO to pass. Reply LEAVE to come off the waitlist.`,
+  };
+}
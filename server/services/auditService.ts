@@ -16,12 +16,18 @@ export type AuditAction =
   | 'admin_reset_password' | 'admin_change_role'
   | 'admin_change_subscription' | 'admin_extend_trial'
   | 'admin_impersonate' | 'admin_stop_impersonation'
+  | 'admin_run_scheduled_task' | 'admin_pause_scheduled_task' | 'admin_resume_scheduled_task'
   // GPS Live Dispatch
   | 'gps_session_started' | 'gps_session_ended' | 'gps_session_paused'
   | 'gps_disclosure_updated' | 'gps_retention_changed' | 'gps_tracking_toggled'
   | 'gps_link_created' | 'gps_link_revoked' | 'gps_export_downloaded'
   | 'gps_consent_accepted' | 'gps_consent_expired_reprompt' | 'gps_consent_revoked_by_owner'
-  | 'gps_beta_approval_changed';
+  | 'gps_beta_approval_changed'
+  // Invoicing
+  | 'invoice_voided' | 'invoice_deleted'
+  | 'credit_note_issued' | 'credit_note_voided'
+  // Quotes
+  | 'quote_signed';
 
 export async function logAudit(params: {
   userId?: number | null;
@@ -12,6 +12,7 @@
  *   infoTools.ts       — hours, services, staff schedules, estimates, wait times
  *   logisticsTools.ts  — human transfer, voicemail, callbacks
  *   restaurantTools.ts — POS ordering (Clover/Square/Heartland) + reservations
+ *   classTools.ts      — group class spots left + seat booking
  *   endOfCall.ts       — post-call logging, intelligence kickoff, webhooks
  *
  * This file keeps the dispatcher (dispatchToolCall) and the full public
@@ -64,8 +65,11 @@ import {
   handleCheckReservationAvailability,
   handleMakeReservation,
   handleCancelReservation,
+  handleJoinWaitlist,
 } from './callTools/restaurantTools';
 
+import { handleCheckClassAvailability, handleBookClassSpot } from './callTools/classTools';
+
 import {
   getServices, getStaffMembers, getStaffSchedule, getBusinessHours, getEstimate,
   getCurrentBusinessStatus, getDirections, checkWaitTime, getServiceDetails,
@@ -74,7 +78,7 @@ export { getCurrentBusinessStatus };
 
 import {
   getCustomerInfo, createCustomer, recognizeCaller, updateCustomerInfo,
-  captureEquipment, checkMembership, extractCallerNameFromTranscript,
+  captureEquipment, saveCustomerFields, checkMembership, extractCallerNameFromTranscript,
 } from './callTools/crmTools';
 
 import {
@@ -91,9 +95,10 @@ import type {
   BookAppointmentParams, BookRecurringAppointmentParams, CreateCustomerParams,
   RescheduleAppointmentParams, CancelAppointmentParams, GetEstimateParams,
   TransferToHumanParams, LeaveMessageParams, ScheduleCallbackParams,
-  UpdateCustomerInfoParams, CaptureEquipmentParams, CheckMembershipParams,
+  UpdateCustomerInfoParams, CaptureEquipmentParams, SaveCustomerFieldsParams, CheckMembershipParams,
   ConfirmAppointmentParams, CreateOrderParams, CheckReservationAvailabilityParams,
-  MakeReservationParams, CancelReservationParams,
+  MakeReservationParams, CancelReservationParams, JoinWaitlistParams,
+  CheckClassAvailabilityParams, BookClassSpotParams,
 } from './callTools/types';
 export type { FunctionResult, EndOfCallData };
 
@@ -137,7 +142,10 @@ export async function dispatchToolCall(
           };
         }
         try {
-          const availResult = await checkAvailability(businessId, parameters.date, parameters.serviceId, parameters.staffId, parameters.staffName);
+          const availResult = await checkAvailability(businessId, parameters.date, parameters.serviceId, parameters.staffId, parameters.staffName, {
+            services: parameters.services,
+            addons: parameters.addons,
+          });
           return availResult;
         } catch (err) {
           console.error(`checkAvailability FAILED for business ${businessId}:`, err);
@@ -239,6 +247,9 @@ export async function dispatchToolCall(
       case 'captureEquipment':
         return await captureEquipment(businessId, parameters as CaptureEquipmentParams);
 
+      case 'saveCustomerFields':
+        return await saveCustomerFields(businessId, parameters as SaveCustomerFieldsParams);
+
       case 'checkMembership':
         return await checkMembership(businessId, parameters as CheckMembershipParams);
 
@@ -274,6 +285,17 @@ export async function dispatchToolCall(
       case 'cancelReservation':
         return await handleCancelReservation(businessId, parameters as CancelReservationParams, callerPhone || '');
 
+      // ========== Walk-in Waitlist ==========
+      case 'joinWaitlist':
+        return await handleJoinWaitlist(businessId, parameters as JoinWaitlistParams, callerPhone || '');
+
+      // ========== Group Classes ==========
+      case 'checkClassAvailability':
+        return await handleCheckClassAvailability(businessId, parameters as CheckClassAvailabilityParams);
+
+      case 'bookClassSpot':
+        return await handleBookClassSpot(businessId, parameters as BookClassSpotParams, callerPhone || '');
+
       default:
         return { error: `Unknown function: ${name}` };
     }
@@ -27,8 +27,14 @@ import {
   parseNaturalDate, parseNaturalTime,
 } from './datetime';
 import { createCustomer } from './crmTools';
+import { describeRRule, expandOccurrences, isDateString, legacyScheduleRRule, normalizeRRule } from '../recurrenceService';
+import { loadResourcePoolForServices, poolHasRoom, type ResourcePool } from '../resourceBookingService';
+import {
+  addServiceLineItemsToJob, buildServiceLine, describeLines, resolveServiceLines, staffBookings, totalDurationMinutes, totalPrice,
+  type ServiceLine, type ServiceLineResolution,
+} from '../appointmentLineService';
 import type {
-  FunctionResult, BookAppointmentParams, BookRecurringAppointmentParams,
+  FunctionResult, BookAppointmentParams, BookRecurringAppointmentParams, BookServiceLineParams,
   RescheduleAppointmentParams, CancelAppointmentParams, ConfirmAppointmentParams,
 } from './types';
 
@@ -46,7 +52,8 @@ export function isDateRangeRequest(dateStr: string): boolean {
 
 /**
  * Get available slots for a single day
- * Now supports staff-specific hours for salons/barbershops
+ * Now supports staff-specific hours for salons/barbershops, and drops slots
+ * where every resource the service needs (room, chair, lift) is taken
  */
 export async function getAvailableSlotsForDay(
   businessId: number,
@@ -56,7 +63,8 @@ export async function getAvailableSlotsForDay(
   duration: number,
   staffHours?: any[], // Optional staff-specific hours
   slotIntervalMinutes: number = 30, // Configurable slot interval
-  timezone: string = 'America/New_York' // Business timezone for "is today" checks
+  timezone: string = 'America/New_York', // Business timezone for "is today" checks
+  resourcePool?: ResourcePool | null // Resources the services require (loadResourcePoolForServices)
 ): Promise<{ slots: string[], isClosed: boolean, dayName: string }> {
   const daysMap = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
   const dayOfWeek = date.getDay();
@@ -180,6 +188,11 @@ export async function getAvailableSlotsForDay(
     if (!isBooked) {
       const hour = Math.floor(slotStart / 60);
       const minute = slotStart % 60;
+      if (resourcePool) {
+        const start = createDateInTimezone(date.getFullYear(), date.getMonth(), date.getDate(), hour, minute, timezone);
+        const end = new Date(start.getTime() + duration * 60000);
+        if (!poolHasRoom(resourcePool, start, end)) continue;
+      }
       // Format time directly without Date object to avoid UTC/timezone issues on Railway
       const hour12 = hour === 0 ? 12 : hour > 12 ? hour - 12 : hour;
       const amPm = hour < 12 ? 'AM' : 'PM';
@@ -237,16 +250,44 @@ export function pickBestSlots(slots: string[], maxSlots: number = 5): string[] {
   return picks;
 }
 
+/**
+ * Service lines for what the caller asked for — `services` when they want
+ * several in one visit, otherwise the one service with its add-ons. Staff
+ * named for a line are matched against the active team.
+ */
+async function resolveVoiceServiceLines(
+  businessId: number,
+  serviceId: number | undefined,
+  params: { serviceName?: string; addons?: string[]; services?: BookServiceLineParams[] },
+): Promise<ServiceLineResolution> {
+  const activeStaff = params.services?.some(s => s.staffName && !s.staffId)
+    ? (await getCachedStaff(businessId)).filter(s => s.active)
+    : [];
+  return resolveServiceLines(businessId, params.services?.length
+    ? params.services.map(line => ({
+        serviceId: line.serviceId,
+        serviceName: line.serviceName,
+        staffId: line.staffId ?? (line.staffName
+          ? activeStaff.find(s => s.firstName.toLowerCase() === line.staffName!.toLowerCase() ||
+              `${s.firstName} ${s.lastName}`.toLowerCase() === line.staffName!.toLowerCase())?.id ?? null
+          : null),
+        addonNames: line.addons,
+      }))
+    : [{ serviceId, serviceName: params.serviceName, addonNames: params.addons }]);
+}
+
 /**
  * Check available appointment slots for a date or date range
- * Now supports filtering by staff member for salons/barbershops
+ * Now supports filtering by staff member for salons/barbershops, and
+ * several services (or add-ons) in one visit via `lines`
  */
 export async function checkAvailability(
   businessId: number,
   dateStr: string,
   serviceId?: number,
   staffId?: number,
-  staffName?: string
+  staffName?: string,
+  lines: { services?: BookServiceLineParams[]; addons?: string[] } = {}
 ): Promise<FunctionResult> {
   const business = await getCachedBusiness(businessId);
   if (!business) {
@@ -342,16 +383,22 @@ export async function checkAvailability(
   // ── Batch all independent queries in parallel for speed ──
   // These are all independent once staff is resolved. Running them sequentially
   // added 400-800ms of unnecessary latency (8+ serial DB round-trips).
-  const [allServices, businessHours, appointments, staffHoursData] = await Promise.all([
+  const [allServices, businessHours, allAppointments, staffHoursData] = await Promise.all([
     getCachedServices(businessId),
     getCachedBusinessHours(businessId),
-    resolvedStaffId
-      ? getAppointmentsOptimized(businessId, { staffId: resolvedStaffId })
-      : getAppointmentsOptimized(businessId),
+    getAppointmentsOptimized(businessId),
     resolvedStaffId
       ? getCachedStaffHours(resolvedStaffId, businessId)
       : Promise.resolve([]),
   ]);
+  // A staff member is also busy for the lines they do on others' appointments
+  const appointments = resolvedStaffId
+    ? staffBookings(
+        allAppointments,
+        await storage.getAppointmentServicesForAppointments(allAppointments.map(apt => apt.id)),
+        resolvedStaffId,
+      )
+    : allAppointments;
 
   // Get slot interval from business settings (default 30 min)
   const slotIntervalMinutes = business.bookingSlotIntervalMinutes || 30;
@@ -369,13 +416,19 @@ export async function checkAvailability(
 
   // Get service duration from cached services (no extra DB query)
   let duration: number;
-  let serviceName: string | null = null;
+  // Price, length and name so the AI can answer "how much?" and "how long?" without an extra tool call
+  let serviceInfo: { servicePrice: string | null; serviceDuration: string; serviceName: string } | null = null;
+  let serviceIds = serviceId ? [serviceId] : [];
 
   if (serviceId) {
     const service = allServices.find((s: any) => s.id === serviceId);
     if (service) {
       duration = service.duration || 30;
-      serviceName = service.name;
+      serviceInfo = {
+        servicePrice: service.price ? `$${Number(service.price).toFixed(2)}` : null,
+        serviceDuration: `${duration} minutes`,
+        serviceName: service.name,
+      };
     } else {
       duration = 30;
     }
@@ -388,6 +441,21 @@ export async function checkAvailability(
     }
   }
 
+  // Several services or add-ons — the slot has to fit all of them back to back
+  if (lines.services?.length || lines.addons?.length) {
+    const resolved = await resolveVoiceServiceLines(businessId, serviceId, lines);
+    if (!resolved.ok) {
+      return { result: { available: false, serviceNotFound: true, error: resolved.error } };
+    }
+    duration = totalDurationMinutes(resolved.lines);
+    serviceIds = resolved.lines.map(line => line.serviceId);
+    serviceInfo = {
+      servicePrice: `$${totalPrice(resolved.lines).toFixed(2)}`,
+      serviceDuration: `${duration} minutes`,
+      serviceName: describeLines(resolved.lines),
+    };
+  }
+
   const staffLabel = staffMember ? staffMember.firstName : null;
 
   const daysMap = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
@@ -414,6 +482,11 @@ export async function checkAvailability(
       currentDate.setDate(currentDate.getDate() + 1);
     }
 
+    // Room/chair/lift bookings for the whole window the loop below can reach
+    const rangeEnd = new Date(currentDate);
+    rangeEnd.setDate(rangeEnd.getDate() + 15);
+    const resourcePool = await loadResourcePoolForServices(businessId, serviceIds, currentDate, rangeEnd);
+
     // Check up to 14 days to find at least 5 available days
     while (availableDays.length < 5 && daysChecked < 14) {
       // Skip this day if staff has time off (vacation, sick, etc.)
@@ -431,7 +504,8 @@ export async function checkAvailability(
         duration,
         staffHoursData.length > 0 ? staffHoursData : undefined,
         slotIntervalMinutes,
-        businessTimezone
+        businessTimezone,
+        resourcePool
       );
 
       if (!result.isClosed && result.slots.length > 0) {
@@ -468,19 +542,13 @@ export async function checkAvailability(
     }
 
     // Return curated multi-day availability — the AI composes its own natural phrasing
-    // Include service info so the AI can answer "how much?" and "how long?" without an extra tool call
-    const serviceInfo = serviceId ? allServices.find((s: any) => s.id === serviceId) : null;
     return {
       result: {
         available: true,
         isMultipleDays: true,
         staffName: staffLabel,
         availableDays: availableDays,
-        ...(serviceInfo && {
-          servicePrice: serviceInfo.price ? `$${Number(serviceInfo.price).toFixed(2)}` : null,
-          serviceDuration: `${serviceInfo.duration || 30} minutes`,
-          serviceName: serviceInfo.name,
-        }),
+        ...serviceInfo,
       }
     };
   }
@@ -539,7 +607,11 @@ export async function checkAvailability(
     };
   }
 
-  const result = await getAvailableSlotsForDay(businessId, date, businessHours, appointments, duration, staffHoursData.length > 0 ? staffHoursData : undefined, slotIntervalMinutes, businessTimezone);
+  const dayAfter = new Date(date);
+  dayAfter.setDate(dayAfter.getDate() + 1);
+  const resourcePool = await loadResourcePoolForServices(businessId, serviceIds, date, dayAfter);
+
+  const result = await getAvailableSlotsForDay(businessId, date, businessHours, appointments, duration, staffHoursData.length > 0 ? staffHoursData : undefined, slotIntervalMinutes, businessTimezone, resourcePool);
 
   console.log(`[checkAvailability] Business ${businessId}: date=${date.toISOString().split('T')[0]} (${result.dayName}), isClosed=${result.isClosed}, slotsFound=${result.slots.length}, duration=${duration}min, staffId=${resolvedStaffId || 'none'}, interval=${slotIntervalMinutes}min`);
 
@@ -604,8 +676,6 @@ export async function checkAvailability(
   // Return 3 curated slots to offer (easier to process by ear), PLUS all slots for exact-time checks
   const bestSlots = pickBestSlots(availableSlots, 3);
 
-  // Include service info so the AI can answer "how much?" and "how long?" without an extra tool call
-  const serviceInfo = serviceId ? allServices.find((s: any) => s.id === serviceId) : null;
   // Include both display date and YYYY-MM-DD for bookAppointment
   const isoDate = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
   return {
@@ -618,11 +688,7 @@ export async function checkAvailability(
       suggestedSlots: bestSlots, // Offer these 3-5 slots to the caller
       allSlots: availableSlots, // ALL available slots — if caller asks for a specific time, check this list
       totalAvailable: availableSlots.length,
-      ...(serviceInfo && {
-        servicePrice: serviceInfo.price ? `$${Number(serviceInfo.price).toFixed(2)}` : null,
-        serviceDuration: `${serviceInfo.duration || 30} minutes`,
-        serviceName: serviceInfo.name,
-      }),
+      ...serviceInfo,
     }
   };
 }
@@ -645,6 +711,8 @@ export async function bookAppointment(
     staffName?: string;
     notes?: string;
     estimatedDuration?: number;
+    addons?: string[];
+    services?: BookServiceLineParams[];
     urgency?: string;
     issueType?: string;
     symptoms?: string;
@@ -883,6 +951,33 @@ export async function bookAppointment(
     console.warn('[bookAppointment] Diagnostic-first swap check failed:', err);
   }
 
+  // ── Service lines ──
+  // "Haircut and a beard trim with a hot towel" — several services and their
+  // add-ons in one appointment, back to back. The first line becomes the
+  // appointment's serviceId, so the checks below look at it.
+  let serviceLines: ServiceLine[] = [];
+  if (params.services?.length || params.addons?.length) {
+    const resolved = await resolveVoiceServiceLines(businessId, serviceId, params);
+    if (!resolved.ok) {
+      return { result: { success: false, serviceNotFound: true, error: resolved.error } };
+    }
+    serviceLines = resolved.lines;
+    serviceId = serviceLines[0].serviceId;
+    if (!resolvedStaffId && serviceLines[0].staffId) resolvedStaffId = serviceLines[0].staffId;
+  } else if (serviceId) {
+    const service = services.find(s => s.id === serviceId);
+    if (service?.classCapacity) {
+      return {
+        result: {
+          success: false,
+          isGroupClass: true,
+          error: `${service.name} is a group class. Use checkClassAvailability and bookClassSpot to hold a seat.`
+        }
+      };
+    }
+    if (service) serviceLines = [buildServiceLine(service)];
+  }
+
   // Staff-service compatibility check before booking:
   // Uses batched cached map instead of N sequential queries.
   if (resolvedStaffId && serviceId) {
@@ -928,6 +1023,25 @@ export async function bookAppointment(
     }
   }
 
+  // The rest of the lines: whoever performs each one has to offer it
+  if (serviceLines.length > 1) {
+    const staffServiceMap = await getCachedStaffServiceMap(businessId);
+    for (const line of serviceLines.slice(1)) {
+      const performerId = line.staffId ?? resolvedStaffId;
+      if (!performerId) continue;
+      const theirServices = staffServiceMap.get(performerId) || [];
+      if (theirServices.length > 0 && !theirServices.includes(line.serviceId)) {
+        return {
+          result: {
+            success: false,
+            staffServiceMismatch: true,
+            message: `That team member doesn't do ${line.serviceName}. Would you like someone else for it, or to leave it off?`
+          }
+        };
+      }
+    }
+  }
+
   // Parse date and time using natural language parser (in business timezone)
   const businessTimezone = business.timezone || 'America/New_York';
   const parsedDate = parseNaturalDate(params.date, businessTimezone);
@@ -946,13 +1060,10 @@ export async function bookAppointment(
     businessTimezone
   );
 
-  // Calculate duration: prefer DB service duration, then AI estimate, then default 60min
+  // Calculate duration: prefer DB service durations (+ add-ons), then AI estimate, then default 60min
   let duration = 60;
-  if (serviceId) {
-    const matchedService = services.find(s => s.id === serviceId);
-    if (matchedService?.duration) {
-      duration = matchedService.duration;
-    }
+  if (serviceLines.length > 0) {
+    duration = totalDurationMinutes(serviceLines);
   }
   if (!serviceId && params.estimatedDuration && params.estimatedDuration > 0) {
     duration = Math.min(params.estimatedDuration, 480); // Cap at 8 hours
@@ -1158,7 +1269,7 @@ export async function bookAppointment(
       endDate: endTime,
       status: 'scheduled',
       notes: params.notes || ''
-    });
+    }, { services: serviceLines });
 
     if (!safeResult.success) {
       return {
@@ -1188,7 +1299,8 @@ export async function bookAppointment(
     let createdJob: any = null;
     try {
       // Build the job title from service name + customer name
-      const serviceName = params.serviceName
+      const serviceName = (serviceLines.length > 1 || serviceLines[0]?.addons.length ? describeLines(serviceLines) : null)
+        || params.serviceName
         || (serviceId ? services.find(s => s.id === serviceId)?.name : null)
         || 'General Appointment';
 
@@ -1236,6 +1348,13 @@ export async function bookAppointment(
       });
 
 
+      // Bill what was booked — the invoice on completion is built from these
+      try {
+        await addServiceLineItemsToJob(createdJob.id, serviceLines);
+      } catch (lineItemErr: any) {
+        console.error('Failed to add service line items to AI booking job:', { jobId: createdJob.id, error: lineItemErr.message });
+      }
+
       // Fire webhook event (fire-and-forget)
       fireEvent(businessId, 'job.created', { job: createdJob })
         .catch(err => console.error('Webhook fire error (auto-created job):', err));
@@ -1363,6 +1482,8 @@ export async function bookAppointment(
  * Book a recurring appointment series.
  * Creates a recurring_schedule record and books the first appointment.
  * The scheduler service handles future occurrences automatically.
+ * The pattern is either a simple frequency or an RRULE (with optional
+ * EXDATEs); both are stored and expanded as an RRULE.
  */
 export async function bookRecurringAppointment(
   businessId: number,
@@ -1376,7 +1497,9 @@ export async function bookRecurringAppointment(
     staffName?: string;
     startDate: string;  // "this Friday", "April 7th", or YYYY-MM-DD
     time: string;
-    frequency: string;  // "weekly", "biweekly", "monthly"
+    frequency?: string;  // "weekly", "biweekly", "monthly"
+    rrule?: string;      // e.g. "FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH" — overrides frequency
+    exdates?: string[];  // YYYY-MM-DD dates to skip
     occurrences?: number; // number of appointments, default 4
     notes?: string;
   },
@@ -1390,10 +1513,29 @@ export async function bookRecurringAppointment(
 
     const businessTimezone = business.timezone || 'America/New_York';
 
-    // Validate frequency
+    // Parse start date
+    const parsedDate = parseNaturalDate(params.startDate, businessTimezone);
+    const startDateStr = `${parsedDate.getFullYear()}-${String(parsedDate.getMonth() + 1).padStart(2, '0')}-${String(parsedDate.getDate()).padStart(2, '0')}`;
+    const dayOfWeek = parsedDate.getDay(); // 0-6
+
+    // Resolve the recurrence pattern — an explicit RRULE wins over frequency
     const validFrequencies = ['weekly', 'biweekly', 'monthly'];
-    const frequency = params.frequency?.toLowerCase();
-    if (!frequency || !validFrequencies.includes(frequency)) {
+    const frequency = params.rrule ? 'custom' : params.frequency?.toLowerCase();
+    let rrule: string;
+    if (params.rrule) {
+      const normalized = normalizeRRule(params.rrule);
+      if (!normalized.ok) {
+        return { result: { success: false, error: `${normalized.message}. How often would you like to come in?` } };
+      }
+      rrule = normalized.rrule;
+    } else if (frequency && validFrequencies.includes(frequency)) {
+      rrule = legacyScheduleRRule({
+        frequency,
+        interval: 1,
+        dayOfWeek: frequency === 'monthly' ? null : dayOfWeek,
+        dayOfMonth: frequency === 'monthly' ? parsedDate.getDate() : null,
+      });
+    } else {
       return {
         result: {
           success: false,
@@ -1401,11 +1543,8 @@ export async function bookRecurringAppointment(
         }
       };
     }
-
-    // Parse start date
-    const parsedDate = parseNaturalDate(params.startDate, businessTimezone);
-    const startDateStr = `${parsedDate.getFullYear()}-${String(parsedDate.getMonth() + 1).padStart(2, '0')}-${String(parsedDate.getDate()).padStart(2, '0')}`;
-    const dayOfWeek = parsedDate.getDay(); // 0-6
+    const frequencyLabel = params.rrule ? describeRRule(rrule) : frequency!;
+    const exdates = (params.exdates || []).filter(isDateString);
 
     // Resolve customer
     let customerId = params.customerId;
@@ -1452,20 +1591,18 @@ export async function bookRecurringAppointment(
       if (staffMember) staffLabel = staffMember.firstName;
     }
 
-    const occurrences = params.occurrences || 4;
     const withStaff = staffLabel ? ` with ${staffLabel}` : '';
-    const displayDate = formatDateForVoice(parsedDate, businessTimezone);
-
-    // Calculate end date based on frequency + occurrences
-    const endDate = new Date(parsedDate);
-    if (frequency === 'weekly') {
-      endDate.setDate(endDate.getDate() + (7 * occurrences));
-    } else if (frequency === 'biweekly') {
-      endDate.setDate(endDate.getDate() + (14 * occurrences));
-    } else if (frequency === 'monthly') {
-      endDate.setMonth(endDate.getMonth() + occurrences);
+
+    // Expand the rule into the series dates (EXDATEs skipped, a COUNT/UNTIL in the rule respected)
+    const occurrenceDates = expandOccurrences(
+      { rrule, frequency: frequency!, interval: 1, dayOfWeek: null, dayOfMonth: null, startDate: startDateStr, endDate: null, exdates },
+      { limit: params.occurrences || 4 }
+    );
+    if (occurrenceDates.length === 0) {
+      return { result: { success: false, error: 'That pattern has no upcoming dates. How often would you like to come in?' } };
     }
-    const endDateStr = `${endDate.getFullYear()}-${String(endDate.getMonth() + 1).padStart(2, '0')}-${String(endDate.getDate()).padStart(2, '0')}`;
+    const occurrences = occurrenceDates.length;
+    const endDateStr = occurrenceDates[occurrences - 1];
 
     // Create the recurring schedule
     const [schedule] = await db
@@ -1475,16 +1612,18 @@ export async function bookRecurringAppointment(
         customerId,
         serviceId: serviceId || null,
         staffId: staffId || null,
-        name: `${frequency} ${serviceName}${withStaff} for ${params.customerName || 'Customer'}`,
-        frequency,
+        name: `${frequencyLabel} ${serviceName}${withStaff} for ${params.customerName || 'Customer'}`,
+        frequency: frequency!,
         interval: 1,
         dayOfWeek: (frequency === 'weekly' || frequency === 'biweekly') ? dayOfWeek : undefined,
         dayOfMonth: frequency === 'monthly' ? parsedDate.getDate() : undefined,
+        rrule,
+        exdates,
         startDate: startDateStr,
         endDate: endDateStr,
-        nextRunDate: startDateStr,
+        nextRunDate: occurrenceDates[0],
         jobTitle: serviceName,
-        jobDescription: params.notes || `Recurring ${frequency} ${serviceName}${withStaff}`,
+        jobDescription: params.notes || `Recurring ${frequencyLabel} ${serviceName}${withStaff}`,
         estimatedDuration: serviceId ? (await getCachedServices(businessId)).find((s: any) => s.id === serviceId)?.duration || 30 : 30,
         autoCreateInvoice: false,
         status: 'active',
@@ -1494,17 +1633,12 @@ export async function bookRecurringAppointment(
     // Book ALL appointments upfront so the caller can see them immediately
     const bookedDates: string[] = [];
     let failedCount = 0;
-    const intervalDays = frequency === 'weekly' ? 7 : frequency === 'biweekly' ? 14 : 0;
 
     for (let i = 0; i < occurrences; i++) {
+      const aptDateStr = occurrenceDates[i];
+      const [year, month, day] = aptDateStr.split('-').map(Number);
       const appointmentDate = new Date(parsedDate);
-      if (frequency === 'monthly') {
-        appointmentDate.setMonth(appointmentDate.getMonth() + i);
-      } else {
-        appointmentDate.setDate(appointmentDate.getDate() + (intervalDays * i));
-      }
-
-      const aptDateStr = `${appointmentDate.getFullYear()}-${String(appointmentDate.getMonth() + 1).padStart(2, '0')}-${String(appointmentDate.getDate()).padStart(2, '0')}`;
+      appointmentDate.setFullYear(year, month - 1, day);
       const aptDisplayDate = formatDateForVoice(appointmentDate, businessTimezone);
 
       try {
@@ -1519,7 +1653,7 @@ export async function bookRecurringAppointment(
           serviceName,
           staffId,
           staffName: staffLabel || undefined,
-          notes: `${params.notes || ''} [Recurring: ${frequency}, ${i + 1}/${occurrences}]`.trim(),
+          notes: `${params.notes || ''} [Recurring: ${frequencyLabel}, ${i + 1}/${occurrences}]`.trim(),
         }, i === 0 ? (callerPhone || customerPhone) : undefined); // SMS only for first appointment
 
         const aptResult = result.result;
@@ -1544,7 +1678,7 @@ export async function bookRecurringAppointment(
         const dateList = bookedDates.map((d, i) => `${i + 1}. ${d}`).join('\n');
         await twilioService.sendSms(
           customerPhone,
-          `Your ${frequency} ${serviceName}${withStaff} series at ${business.name} is confirmed!\n\n${dateList}\n\nAll at ${params.time} ${tzAbbr}. Reply CONFIRM, RESCHEDULE to change, or C to cancel.`,
+          `Your ${frequencyLabel} ${serviceName}${withStaff} series at ${business.name} is confirmed!\n\n${dateList}\n\nAll at ${params.time} ${tzAbbr}. Reply CONFIRM, RESCHEDULE to change, or C to cancel.`,
           undefined,
           businessId || undefined
         );
@@ -1557,14 +1691,15 @@ export async function bookRecurringAppointment(
       result: {
         success: bookedDates.length > 0,
         scheduleId: schedule.id,
-        frequency,
+        frequency: frequencyLabel,
+        rrule,
         occurrences,
         appointmentsBooked: bookedDates.length,
         appointmentDates: bookedDates,
         time: params.time,
         service: serviceName,
         staffName: staffLabel || null,
-        message: `Booked ${bookedDates.length} ${frequency} ${serviceName} appointments${withStaff}: ${bookedDates.join(', ')} at ${params.time}.${failedCount > 0 ? ` ${failedCount} could not be booked.` : ''}`
+        message: `Booked ${bookedDates.length} ${frequencyLabel} ${serviceName} appointments${withStaff}: ${bookedDates.join(', ')} at ${params.time}.${failedCount > 0 ? ` ${failedCount} could not be booked.` : ''}`
       }
     };
   } catch (error: any) {
@@ -1753,14 +1888,28 @@ export async function rescheduleAppointment(
     };
   }
 
-  // Update the appointment
+  // Update the appointment — the transaction re-checks staff and resources under lock
   try {
-    await storage.updateAppointment(appointment.id, {
-      startDate: newDateTime,
-      endDate: newEndTime,
-      ...(newStaffId !== undefined ? { staffId: newStaffId } : {}),
-      notes: `${appointment.notes || ''}\n[Rescheduled from ${oldDateStr}${params.reason ? `: ${params.reason}` : ''}${newStaffId !== undefined ? ` (staff changed)` : ''}]`.trim()
-    });
+    const { updateAppointmentSafely } = await import('../appointmentService');
+    const safeResult = await updateAppointmentSafely(
+      appointment.id,
+      businessId,
+      newDateTime,
+      newEndTime,
+      rescheduleStaffId,
+      {
+        ...(newStaffId !== undefined ? { staffId: newStaffId } : {}),
+        notes: `${appointment.notes || ''}\n[Rescheduled from ${oldDateStr}${params.reason ? `: ${params.reason}` : ''}${newStaffId !== undefined ? ` (staff changed)` : ''}]`.trim()
+      }
+    );
+    if (!safeResult.success) {
+      return {
+        result: {
+          success: false,
+          error: `${safeResult.error || 'That time slot is already booked.'} Would you like me to check what's available?`
+        }
+      };
+    }
 
     // Update the linked job's scheduled date if one exists
     try {
@@ -1938,6 +2087,16 @@ export async function cancelAppointment(
       });
     }
 
+    // Dispatch cancellation event (insights recalculation, waitlist offer)
+    import('../orchestrationService').then(mod => {
+      mod.dispatchEvent('appointment.cancelled', {
+        businessId: appointment.businessId,
+        customerId: appointment.customerId,
+        referenceType: 'appointment',
+        referenceId: appointment.id,
+      }).catch(logAndSwallow('CallTools'));
+    }).catch(logAndSwallow('CallTools'));
+
     // Send SMS confirmation
     if (callerPhone) {
       try {
@@ -0,0 +1,183 @@
+/**
+ * callTools/classTools — group class voice tools: spots left in upcoming
+ * sessions ("are there spots in Saturday's 9am class?") and booking a seat
+ * or a waitlist place for the caller.
+ *
+ * Dispatched by name from the callToolHandlers registry; seat logic lives in
+ * classService so the booking page and the receptionist fill classes the
+ * same way.
+ */
+
+import { storage } from '../../storage';
+import { getCachedBusiness } from './cache';
+import {
+  createDateInTimezone, formatDateForVoice, getLocalTimeInTimezone, parseNaturalDate, parseNaturalTime,
+} from './datetime';
+import { bookClassSeat, getClassAvailability, type ClassSessionAvailability } from '../classService';
+import type { BookClassSpotParams, CheckClassAvailabilityParams } from './types';
+
+// How far ahead to look when the caller doesn't name a day
+const DEFAULT_LOOKAHEAD_DAYS = 7;
+
+function formatSessionTime(date: Date, timezone: string): string {
+  return date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true, timeZone: timezone });
+}
+
+function describeSession(item: ClassSessionAvailability, timezone: string): string {
+  const start = new Date(item.session.startDate);
+  const when = `${formatDateForVoice(start, timezone)} at ${formatSessionTime(start, timezone)}`;
+  const seats = item.spotsLeft > 0
+    ? `${item.spotsLeft} ${item.spotsLeft === 1 ? 'spot' : 'spots'} left`
+    : `full${item.waitlistCount > 0 ? ` with ${item.waitlistCount} on the waitlist` : ''}`;
+  return `${item.serviceName} ${when}${item.staffName ? ` with ${item.staffName}` : ''}: ${seats}`;
+}
+
+/**
+ * Upcoming class sessions and their open spots, optionally narrowed to a
+ * class name, a day and a start time.
+ */
+export async function handleCheckClassAvailability(
+  businessId: number,
+  params: CheckClassAvailabilityParams
+): Promise<any> {
+  try {
+    const business = await getCachedBusiness(businessId);
+    if (!business) return { error: 'Business not found' };
+    const timezone = business.timezone || 'America/New_York';
+
+    const now = new Date();
+    let from = now;
+    let to = new Date(now.getTime() + DEFAULT_LOOKAHEAD_DAYS * 24 * 60 * 60 * 1000);
+    if (params.date) {
+      const [year, month, day] = parseNaturalDate(params.date, timezone).toISOString().split('T')[0].split('-').map(Number);
+      from = new Date(Math.max(createDateInTimezone(year, month - 1, day, 0, 0, timezone).getTime(), now.getTime()));
+      to = createDateInTimezone(year, month - 1, day, 23, 59, timezone);
+    }
+
+    let sessions = await getClassAvailability(business, { from, to });
+    if (params.className) {
+      const wanted = params.className.trim().toLowerCase();
+      sessions = sessions.filter(s => s.serviceName.toLowerCase().includes(wanted) || wanted.includes(s.serviceName.toLowerCase()));
+    }
+    if (params.time) {
+      const [hours, minutes] = parseNaturalTime(params.time).split(':').map(Number);
+      sessions = sessions.filter(s => {
+        const local = getLocalTimeInTimezone(new Date(s.session.startDate), timezone);
+        return local.hours === hours && local.minutes === minutes;
+      });
+    }
+
+    if (sessions.length === 0) {
+      return {
+        result: {
+          sessions: [],
+          message: params.className || params.date || params.time
+            ? "I don't see a class at that time. Would you like me to check other days?"
+            : "There are no classes on the schedule for the next week."
+        }
+      };
+    }
+
+    const listed = sessions.slice(0, 8);
+    return {
+      result: {
+        sessions: listed.map(s => ({
+          sessionId: s.session.id,
+          className: s.serviceName,
+          instructor: s.staffName,
+          date: formatDateForVoice(new Date(s.session.startDate), timezone),
+          time: formatSessionTime(new Date(s.session.startDate), timezone),
+          spotsLeft: s.spotsLeft,
+          waitlistCount: s.waitlistCount,
+          full: s.spotsLeft === 0,
+        })),
+        message: listed.map(s => describeSession(s, timezone)).join('. ') + '.'
+      }
+    };
+  } catch (error) {
+    console.error(`Error checking class availability for business ${businessId}:`, error);
+    return {
+      result: {
+        sessions: [],
+        message: "I'm having trouble pulling up the class schedule right now. Would you like me to have someone call you back?"
+      }
+    };
+  }
+}
+
+/** Books the caller into a session — or onto its waitlist when it's full */
+export async function handleBookClassSpot(
+  businessId: number,
+  params: BookClassSpotParams,
+  callerPhone: string
+): Promise<any> {
+  try {
+    const business = await getCachedBusiness(businessId);
+    if (!business) return { error: 'Business not found' };
+    const timezone = business.timezone || 'America/New_York';
+
+    const session = params.sessionId ? await storage.getClassSession(params.sessionId) : undefined;
+    if (!session || session.businessId !== businessId) {
+      return {
+        result: {
+          success: false,
+          message: "I couldn't find that class. Let me check the schedule again — which class and day did you want?"
+        }
+      };
+    }
+
+    if (!callerPhone) {
+      return {
+        result: {
+          success: false,
+          message: "I'll need a phone number to hold your spot. What's the best number to reach you?"
+        }
+      };
+    }
+
+    let customer = await storage.getCustomerByPhone(callerPhone, businessId);
+    if (!customer) {
+      const nameParts = (params.customerName || '').trim().split(/\s+/).filter(Boolean);
+      if (nameParts.length === 0) {
+        return { result: { success: false, message: 'Can I get your name for the class roster?' } };
+      }
+      customer = await storage.createCustomer({
+        businessId,
+        firstName: nameParts[0],
+        lastName: nameParts.slice(1).join(' '),
+        phone: callerPhone,
+        email: null,
+      });
+    }
+
+    const result = await bookClassSeat(session.id, customer.id, 'phone');
+    if (!result.ok) {
+      const message = result.reason === 'already_booked'
+        ? "You're already on the list for that class."
+        : `I'm sorry — ${result.message.toLowerCase()}. Would you like a different session?`;
+      return { result: { success: false, reason: result.reason, message } };
+    }
+
+    const start = new Date(session.startDate);
+    const when = `${formatDateForVoice(start, timezone)} at ${formatSessionTime(start, timezone)}`;
+    const waitlisted = result.booking.status === 'waitlisted';
+    return {
+      result: {
+        success: true,
+        status: result.booking.status,
+        waitlistPosition: result.waitlistPosition,
+        message: waitlisted
+          ? `That class is full, so I've put you number ${result.waitlistPosition} on the waitlist for ${when}. You'll get a text if a spot opens up.`
+          : `You're booked for the class on ${when}. See you there!`
+      }
+    };
+  } catch (error) {
+    console.error(`Error booking class spot for business ${businessId}:`, error);
+    return {
+      result: {
+        success: false,
+        message: "I'm sorry, I had trouble booking that class. Would you like me to have someone call you back?"
+      }
+    };
+  }
+}
@@ -1,7 +1,7 @@
 /**
  * callTools/crmTools — caller recognition + customer profile tools:
  * recognizeCaller (the per-call context engine), customer CRUD, equipment
- * capture, membership lookup, transcript name extraction.
+ * capture, custom field capture, membership lookup, transcript name extraction.
  * Extracted from callToolHandlers.ts (audit R1 split).
  */
 
@@ -11,7 +11,13 @@ import { searchMemory } from '../mem0Service';
 import { getCachedServices, getCachedBusiness } from './cache';
 import { formatDateForVoice, getLocalDateString } from './datetime';
 import { getCurrentBusinessStatus } from './infoTools';
-import type { FunctionResult, CreateCustomerParams, UpdateCustomerInfoParams, CaptureEquipmentParams, CheckMembershipParams } from './types';
+import {
+  findCustomFieldDefinition,
+  coerceCustomFieldValue,
+  mergeCustomFieldValues,
+  getCallerCustomFields,
+} from '../customFieldService';
+import type { FunctionResult, CreateCustomerParams, UpdateCustomerInfoParams, CaptureEquipmentParams, CheckMembershipParams, SaveCustomerFieldsParams } from './types';
 
 /**
  * Extract caller name from a Vapi transcript when the AI asked for it.
@@ -239,12 +245,14 @@ export async function recognizeCaller(
         smsOptIn: true, // Caller provided phone by calling — opt into transactional SMS
       });
       console.log(`[recognizeCaller] Created placeholder customer id=${newCustomer.id} for new caller ${callerPhone}`);
+      const newCallerFields = await getCallerCustomFields(businessId, {}).catch(() => null);
       return {
         result: {
           recognized: false,
           isNewCaller: true,
           customerId: newCustomer.id,
           currentStatus,
+          missingCustomFields: newCallerFields?.missing.length ? newCallerFields.missing : undefined,
           message: 'How can I help you today?'
         }
       };
@@ -269,7 +277,7 @@ export async function recognizeCaller(
     .catch(() => ''); // Never throws
   const mem0Timeout = new Promise<string>((resolve) => setTimeout(() => resolve(''), 100)); // 100ms max for Mem0
 
-  const [appointments, recogBusiness, allServices, intelligenceResult, insightsResult, conversationalContext, equipmentRecords, activeMembership] = await Promise.all([
+  const [appointments, recogBusiness, allServices, intelligenceResult, insightsResult, conversationalContext, equipmentRecords, activeMembership, callerFields] = await Promise.all([
     storage.getAppointmentsByCustomerId(customer.id),
     getCachedBusiness(businessId),
     getCachedServices(businessId),
@@ -285,6 +293,9 @@ export async function recognizeCaller(
     // AI can lead with member benefits ("you're an Elite member, so I'll
     // waive the diagnostic fee").
     storage.getActiveMembershipByCustomer(customer.id, businessId).catch(() => undefined),
+    // Owner-defined custom fields — what's on file, and the ask-on-calls
+    // fields the AI should still collect
+    getCallerCustomFields(businessId, customer.customFields).catch(() => null),
   ]);
 
   const intelligence = intelligenceResult;
@@ -525,6 +536,8 @@ export async function recognizeCaller(
       summary,
       currentStatus,
       upcomingAppointments: upcomingAppointments.length > 0 ? upcomingAppointments : undefined,
+      customFields: callerFields && Object.keys(callerFields.known).length > 0 ? callerFields.known : undefined,
+      missingCustomFields: callerFields?.missing.length ? callerFields.missing : undefined,
       responseHint, // Say THIS exact sentence — nothing more, nothing less
     }
   };
@@ -754,6 +767,97 @@ export async function captureEquipment(
   }
 }
 
+/**
+ * saveCustomerFields — stores the owner's custom fields ("Gate code",
+ * "Dog's name", "Square footage") as the caller mentions them.
+ *
+ * Fields are matched by label or key and values are coerced to the field's
+ * type ("yes" → true, "1,850" → 1850). Fields that don't exist or values
+ * that don't fit are reported back so the AI can re-ask; the rest are
+ * saved. Tenant-safe and fail-soft like captureEquipment.
+ */
+export async function saveCustomerFields(
+  businessId: number,
+  params: SaveCustomerFieldsParams,
+): Promise<FunctionResult> {
+  try {
+    if (!params.customerId) {
+      return {
+        result: {
+          success: false,
+          error: 'Missing customerId. Call recognizeCaller first to identify the customer.',
+        },
+      };
+    }
+    if (!Array.isArray(params.fields) || params.fields.length === 0) {
+      return {
+        result: {
+          success: false,
+          error: 'No fields provided to save.',
+        },
+      };
+    }
+
+    const customer = await storage.getCustomer(params.customerId);
+    if (!customer || customer.businessId !== businessId) {
+      return {
+        result: {
+          success: false,
+          error: 'Customer not found for this business.',
+        },
+      };
+    }
+
+    const definitions = await storage.getCustomFieldDefinitions(businessId, { entityType: 'customer', activeOnly: true });
+    const changes: Record<string, string | number | boolean> = {};
+    const saved: string[] = [];
+    const unknownFields: string[] = [];
+    const invalidValues: string[] = [];
+
+    for (const { field, value } of params.fields) {
+      const def = findCustomFieldDefinition(definitions, String(field || ''));
+      if (!def) {
+        unknownFields.push(String(field));
+        continue;
+      }
+      const coerced = coerceCustomFieldValue(def, value);
+      if (!coerced.ok || coerced.value === null) {
+        invalidValues.push(def.fieldType === 'select'
+          ? `${def.label} (one of: ${(def.options || []).join(', ')})`
+          : `${def.label} (${def.fieldType})`);
+        continue;
+      }
+      changes[def.key] = coerced.value;
+      saved.push(def.label);
+    }
+
+    if (saved.length > 0) {
+      await storage.updateCustomer(customer.id, {
+        customFields: mergeCustomFieldValues(customer.customFields, changes),
+      });
+      console.log(`[saveCustomerFields] business ${businessId} customer ${customer.id}: saved ${saved.join(', ')}`);
+    }
+
+    return {
+      result: {
+        success: saved.length > 0,
+        saved: saved.length > 0 ? saved : undefined,
+        unknownFields: unknownFields.length > 0 ? unknownFields : undefined,
+        invalidValues: invalidValues.length > 0 ? invalidValues : undefined,
+        error: saved.length === 0 ? 'Nothing was saved — check the field names and values.' : undefined,
+      },
+    };
+  } catch (error: any) {
+    console.error('[saveCustomerFields] error:', error?.message);
+    return {
+      result: {
+        success: false,
+        error: 'There was a technical issue saving those details. Please continue the conversation.',
+      },
+    };
+  }
+}
+
 /**
  * checkMembership — Step 4 of HVAC roadmap.
  *
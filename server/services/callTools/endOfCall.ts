@@ -9,6 +9,7 @@ import { db } from '../../db';
 import twilioService from '../twilioService';
 import { fireEvent } from '../webhookService';
 import { createCustomer, recognizeCaller, extractCallerNameFromTranscript } from './crmTools';
+import { extractCallerSpeech, rememberCustomerLanguage } from '../customerLanguageService';
 import type { EndOfCallData } from './types';
 
 /**
@@ -165,6 +166,17 @@ export async function processEndOfCall(data: EndOfCallData): Promise<void> {
       }
     }
 
+    // Remember the caller's language for follow-up texts and their next call
+    if (callerPhone && callerPhone !== 'Unknown' && transcript) {
+      try {
+        const callerSpeech = extractCallerSpeech(transcript);
+        const caller = callerSpeech ? await storage.getCustomerByPhone(callerPhone, businessId) : undefined;
+        if (caller) await rememberCustomerLanguage(caller, callerSpeech);
+      } catch (error) {
+        console.error('Error recording caller language:', error);
+      }
+    }
+
     // Analyze transcript for unanswered questions (fire-and-forget — doesn't delay webhook response)
     if (transcript && transcript.length > 100 && callLogId) {
       import('../unansweredQuestionService').then(({ analyzeTranscriptForUnansweredQuestions }) => {
@@ -14,6 +14,7 @@ import {
   getAppointmentsOptimized,
 } from './cache';
 import { getNowInTimezone, getLocalTimeInTimezone, getLocalDateString, parseTimeToMinutes } from './datetime';
+import { estimateWaitMinutes, getActiveWaitlist } from '../waitlistService';
 import type { FunctionResult, GetEstimateParams } from './types';
 
 /**
@@ -621,7 +622,8 @@ export async function getDirections(businessId: number, callerPhone?: string, se
 }
 
 /**
- * Check current wait time or next available appointment
+ * Check current wait time — the walk-in waitlist queue when the business runs
+ * one, otherwise the next available appointment today
  */
 export async function checkWaitTime(businessId: number): Promise<FunctionResult> {
   const business = await storage.getBusiness(businessId);
@@ -629,18 +631,8 @@ export async function checkWaitTime(businessId: number): Promise<FunctionResult>
     return { result: { error: 'Business not found' } };
   }
 
-  // Get today's appointments using business timezone
   const waitTimezone = business?.timezone || 'America/New_York';
   const now = getNowInTimezone(waitTimezone);
-  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-  const appointments = await storage.getUpcomingAppointmentsByBusinessId(businessId);
-
-  const todayAppointments = appointments
-    .filter(apt => {
-      const aptDate = new Date(apt.startDate);
-      return aptDate >= today && aptDate < new Date(today.getTime() + 86400000) && apt.status === 'scheduled';
-    })
-    .sort((a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime());
 
   // Find next available slot
   const businessHours = await storage.getBusinessHours(businessId);
@@ -668,6 +660,33 @@ export async function checkWaitTime(businessId: number): Promise<FunctionResult>
     };
   }
 
+  // Restaurants with a walk-in waitlist quote from the real queue
+  if (business.waitlistEnabled) {
+    const queue = await getActiveWaitlist(businessId);
+    return {
+      result: {
+        isOpen: true,
+        partiesWaiting: queue.length,
+        waitMinutes: estimateWaitMinutes(business, queue.length),
+        canJoinWaitlist: true,
+        voiceHint: queue.length === 0
+          ? 'There is no wait right now. Offer to put them on the waitlist so the host holds a table.'
+          : 'Tell the caller how many parties are ahead and the quoted wait, then offer to add them to the waitlist with joinWaitlist.',
+      }
+    };
+  }
+
+  // Get today's appointments using business timezone
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const appointments = await storage.getUpcomingAppointmentsByBusinessId(businessId);
+
+  const todayAppointments = appointments
+    .filter(apt => {
+      const aptDate = new Date(apt.startDate);
+      return aptDate >= today && aptDate < new Date(today.getTime() + 86400000) && apt.status === 'scheduled';
+    })
+    .sort((a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime());
+
   // Calculate next available slot (use wall-clock now)
   let nextAvailableMinutes = Math.ceil(currentTime / 30) * 30; // Round to next 30 min
 
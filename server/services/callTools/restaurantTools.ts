@@ -17,6 +17,8 @@ import { getTimezoneAbbreviation } from '../../utils/timezone';
 import { logAndSwallow } from '../../utils/safeAsync';
 import { dataCache, getCachedBusiness, getCachedBusinessHours } from './cache';
 import { createDateInTimezone, parseNaturalDate } from './datetime';
+import { createReservationSafely, getTurnTimeMinutes, loadReservationFloor } from '../tableAssignmentService';
+import { getActiveWaitlist, getWaitlistPosition, joinWaitlist } from '../waitlistService';
 
 // ========== Restaurant Ordering Handler Functions (POS Integration) ==========
 
@@ -460,7 +462,7 @@ export async function handleCheckReservationAvailability(
     }
 
     const businessTimezone = business.timezone || 'America/New_York';
-    const slotDuration = business.reservationSlotDurationMinutes || 90;
+    const slotDuration = getTurnTimeMinutes(business, params.partySize);
     const slotInterval = business.bookingSlotIntervalMinutes || 30;
     const maxPartySize = business.reservationMaxPartySize || 10;
     const maxDaysAhead = business.reservationMaxDaysAhead || 30;
@@ -519,6 +521,7 @@ export async function handleCheckReservationAvailability(
 
     // Generate available time slots
     const availableTimes: string[] = [];
+    const floor = await loadReservationFloor(business, dateStr);
     let currentHour = openHour;
     let currentMin = openMin;
 
@@ -534,9 +537,9 @@ export async function handleCheckReservationAvailability(
       const slotDateTime = createDateInTimezone(year, month - 1, day, currentHour, currentMin, businessTimezone);
 
       if (slotDateTime > minBookingTime) {
-        // Check capacity
-        const capacity = await storage.getReservationSlotCapacity(businessId, dateStr, timeStr, slotDuration);
-        if (capacity.remainingSeats >= params.partySize) {
+        // Check tables (or cover capacity when there's no floor plan)
+        const check = await floor.check(timeStr, params.partySize);
+        if (check.available) {
           // Format for voice: "6:30 PM"
           const hour12 = currentHour % 12 || 12;
           const ampm = currentHour >= 12 ? 'PM' : 'AM';
@@ -601,7 +604,6 @@ export async function handleMakeReservation(
     }
 
     const businessTimezone = business.timezone || 'America/New_York';
-    const slotDuration = business.reservationSlotDurationMinutes || 90;
 
     // Normalize time format — AI might send "6:30 PM" or "18:30" or "6:30pm"
     let normalizedTime = params.time;
@@ -622,9 +624,9 @@ export async function handleMakeReservation(
       dateStr = parsed.toISOString().split('T')[0];
     }
 
-    // Re-verify capacity (race condition prevention)
-    const capacity = await storage.getReservationSlotCapacity(businessId, dateStr, normalizedTime, slotDuration);
-    if (capacity.remainingSeats < params.partySize) {
+    // Re-verify a table / capacity is free (race condition prevention)
+    const tableCheck = await (await loadReservationFloor(business, dateStr)).check(normalizedTime, params.partySize);
+    if (!tableCheck.available) {
       return {
         result: {
           success: false,
@@ -681,29 +683,32 @@ export async function handleMakeReservation(
       };
     }
 
-    // Calculate start/end dates
-    const [year, month, day] = dateStr.split('-').map(Number);
-    const [hour, min] = normalizedTime.split(':').map(Number);
-    const startDate = createDateInTimezone(year, month - 1, day, hour, min, businessTimezone);
-    const endDate = new Date(startDate.getTime() + slotDuration * 60 * 1000);
-
-    // Create reservation
+    // Create reservation — the tables are checked again under the date's lock
     const crypto = await import('crypto');
     const manageToken = crypto.randomBytes(24).toString('hex');
 
-    const reservation = await storage.createRestaurantReservation({
+    const created = await createReservationSafely(business, {
       businessId,
       customerId: customer.id,
       partySize: params.partySize,
       reservationDate: dateStr,
       reservationTime: normalizedTime,
-      startDate,
-      endDate,
       status: 'confirmed',
       specialRequests: params.specialRequests || null,
       manageToken,
       source: 'phone',
     });
+    if (!created.ok) {
+      return {
+        result: {
+          success: false,
+          message: "I'm sorry, that time slot just filled up. Would you like me to check for another available time?"
+        }
+      };
+    }
+    const { reservation } = created;
+    // Start/end come from the table check — end is the party's turn time
+    const { startDate } = reservation;
 
     // Fire webhook
     fireEvent(businessId, 'reservation.created', { reservation }).catch(logAndSwallow('CallTools'));
@@ -884,3 +889,60 @@ export async function handleCancelReservation(
     };
   }
 }
+
+// ========== Walk-in Waitlist Handler ==========
+
+/**
+ * Add the caller to the walk-in waitlist. The waitlist service texts them
+ * their place in line and pages them when the table is ready.
+ */
+export async function handleJoinWaitlist(
+  businessId: number,
+  params: { partySize: number; customerName: string },
+  callerPhone: string
+): Promise<any> {
+  try {
+    const business = await getCachedBusiness(businessId);
+    if (!business) return { error: 'Business not found' };
+
+    if (!callerPhone) {
+      return {
+        result: {
+          success: false,
+          message: "I'll need a mobile number to text you when your table is ready. What's the best number?"
+        }
+      };
+    }
+
+    const joined = await joinWaitlist(business, {
+      name: params.customerName || 'Guest',
+      phone: callerPhone,
+      partySize: params.partySize,
+      source: 'phone',
+    });
+    if (!joined.ok) {
+      return { result: { success: false, message: `I'm sorry — ${joined.message}.` } };
+    }
+
+    const { position } = getWaitlistPosition(joined.entry, await getActiveWaitlist(businessId));
+    const quoted = joined.entry.quotedWaitMinutes || 0;
+    return {
+      result: {
+        success: true,
+        position,
+        quotedWaitMinutes: quoted,
+        message: quoted > 0
+          ? `You're number ${position} on the waitlist for a party of ${params.partySize}, about ${quoted} minutes. We'll text you when your table is ready.`
+          : `You're on the waitlist for a party of ${params.partySize} and should be seated shortly. We'll text you when your table is ready.`
+      }
+    };
+  } catch (error) {
+    console.error(`Error joining waitlist for business ${businessId}:`, error);
+    return {
+      result: {
+        success: false,
+        message: "I'm sorry, I had trouble adding you to the waitlist. Would you like me to transfer you to the host?"
+      }
+    };
+  }
+}
@@ -44,6 +44,19 @@ export interface BookAppointmentParams {
   staffName?: string;
   notes?: string;
   estimatedDuration?: number;
+  /** Add-on names for the (single) service, e.g. ["hot towel"] */
+  addons?: string[];
+  /** Several services in one visit, in the order they're done. Replaces serviceId/serviceName/addons. */
+  services?: BookServiceLineParams[];
+}
+
+/** One service in a multi-service booking — staff defaults to the appointment's */
+export interface BookServiceLineParams {
+  serviceId?: number;
+  serviceName?: string;
+  staffId?: number;
+  staffName?: string;
+  addons?: string[];
 }
 
 export interface BookRecurringAppointmentParams {
@@ -56,7 +69,11 @@ export interface BookRecurringAppointmentParams {
   staffName?: string;
   startDate: string;
   time: string;
-  frequency: string;
+  frequency?: string;
+  /** RFC 5545 RRULE, e.g. "FREQ=WEEKLY;BYDAY=TU,TH" — takes precedence over frequency */
+  rrule?: string;
+  /** Dates (YYYY-MM-DD) to leave out of the series, e.g. holidays */
+  exdates?: string[];
   occurrences?: number;
   notes?: string;
 }
@@ -124,6 +141,13 @@ export interface CaptureEquipmentParams {
   notes?: string;
 }
 
+// saveCustomerFields writes owner-defined custom fields ("Gate code",
+// "Dog's name") the caller mentions. `field` is the field's label or key.
+export interface SaveCustomerFieldsParams {
+  customerId?: number;
+  fields: Array<{ field: string; value: string }>;
+}
+
 // Step 4 of HVAC roadmap. The checkMembership tool returns the caller's
 // active plan + benefits remaining so the AI can reference them mid-call
 // ("you've got 1 tune-up left", "your Elite plan waives the diagnostic fee").
@@ -168,6 +192,22 @@ export interface CancelReservationParams {
   date?: string;
 }
 
+export interface JoinWaitlistParams {
+  partySize: number;
+  customerName: string;
+}
+
+export interface CheckClassAvailabilityParams {
+  className?: string;
+  date?: string;
+  time?: string;
+}
+
+export interface BookClassSpotParams {
+  sessionId: number;
+  customerName?: string;
+}
+
 // Legacy interface kept for backward compatibility during migration
 export interface _LegacyVapiWebhookRequest {
   message: {
@@ -0,0 +1,288 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// ── Mocks (vi.hoisted ensures they're available when vi.mock factories run) ──
+
+const { mockStorage, mockStripe, mockSendReceipt } = vi.hoisted(() => {
+  process.env.STRIPE_SECRET_KEY = 'sk_test_fees';
+  return {
+    mockStorage: {
+      getBusiness: vi.fn(),
+      getCustomer: vi.fn(),
+      getCustomerByPhone: vi.fn(),
+      updateCustomer: vi.fn(),
+      getAppointment: vi.fn(),
+      createAppointmentFee: vi.fn(),
+      getAppointmentFee: vi.fn(),
+      updateAppointmentFee: vi.fn(),
+    },
+    mockStripe: {
+      customers: { create: vi.fn() },
+      setupIntents: { create: vi.fn(), retrieve: vi.fn() },
+      paymentIntents: { create: vi.fn() },
+    },
+    mockSendReceipt: vi.fn(),
+  };
+});
+
+vi.mock('stripe', () => ({
+  default: class MockStripe {
+    customers = mockStripe.customers;
+    setupIntents = mockStripe.setupIntents;
+    paymentIntents = mockStripe.paymentIntents;
+  },
+}));
+vi.mock('../storage', () => ({
+  storage: mockStorage,
+  normalizePhone: (phone: string) => phone.replace(/\D/g, '').replace(/^1(\d{10})$/, '$1'),
+}));
+vi.mock('../emailService', () => ({ sendCancellationFeeReceiptEmail: mockSendReceipt }));
+
+import {
+  acceptPolicyFields,
+  chargeFee,
+  createCardSetupIntent,
+  getCancellationPolicy,
+  isLateCancellation,
+  recordFee,
+  saveCardFromSetupIntent,
+  waiveFee,
+} from './cancellationFeeService';
+
+// ── Test Data ──
+
+const BUSINESS = {
+  id: 1, name: 'Fade Factory', industry: 'barbershop', timezone: 'America/New_York',
+  cancellationFeeEnabled: true, lateCancelWindowHours: null, lateCancelFee: '25.00', noShowFee: '40.00',
+  cancellationFeeAutoCharge: false, cancellationPolicyText: null,
+  stripeConnectAccountId: 'acct_123', stripeConnectStatus: 'active',
+} as any;
+
+const CUSTOMER = {
+  id: 7, firstName: 'Dana', email: 'dana@example.com', phone: '(555) 123-4567',
+  stripeCustomerConnectId: 'cus_connect', stripePaymentMethodId: 'pm_card', cardBrand: 'visa', cardLast4: '4242',
+};
+
+const APPOINTMENT = {
+  id: 50, businessId: 1, customerId: 7,
+  startDate: new Date('2026-10-20T15:00:00Z'), cancellationPolicyAcceptedAt: new Date('2026-10-10T12:00:00Z'),
+  cancellationWindowHours: 24, lateCancelFee: '25.00', noShowFee: '40.00',
+} as any;
+
+function fee(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 3, businessId: 1, appointmentId: 50, customerId: 7, type: 'no_show', amount: '40.00',
+    status: 'pending', updatedAt: new Date('2026-10-20T16:00:00Z'), createdAt: new Date('2026-10-20T16:00:00Z'),
+    ...overrides,
+  };
+}
+
+// ── Tests ──
+
+describe('cancellationFeeService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockStorage.getBusiness.mockResolvedValue(BUSINESS);
+    mockStorage.getCustomer.mockResolvedValue(CUSTOMER);
+    mockStorage.getAppointment.mockResolvedValue(APPOINTMENT);
+    mockStorage.updateAppointmentFee.mockImplementation(async (id: number, data: object) => fee({ id, ...data }));
+    mockSendReceipt.mockResolvedValue(true);
+  });
+
+  describe('getCancellationPolicy', () => {
+    it('falls back to the vertical window and requires a card when Connect is active', () => {
+      const policy = getCancellationPolicy(BUSINESS);
+      expect(policy).toEqual(expect.objectContaining({
+        windowHours: 24, lateCancelFee: 25, noShowFee: 40, cardRequired: true, stripeAccountId: 'acct_123',
+      }));
+      expect(policy!.text).toContain('less than 24 hours');
+    });
+
+    it('is null when disabled or no fee is set, and skips the card without Connect', () => {
+      expect(getCancellationPolicy({ ...BUSINESS, cancellationFeeEnabled: false })).toBeNull();
+      expect(getCancellationPolicy({ ...BUSINESS, lateCancelFee: '0', noShowFee: null })).toBeNull();
+      expect(getCancellationPolicy({ ...BUSINESS, stripeConnectStatus: 'pending', lateCancelWindowHours: 4 }))
+        .toEqual(expect.objectContaining({ windowHours: 4, cardRequired: false, stripeAccountId: null }));
+    });
+  });
+
+  describe('acceptPolicyFields', () => {
+    it("copies the policy's window and fees onto the appointment", () => {
+      const acceptedAt = new Date('2026-10-10T12:00:00Z');
+      expect(acceptPolicyFields(getCancellationPolicy(BUSINESS)!, acceptedAt)).toEqual({
+        cancellationPolicyAcceptedAt: acceptedAt, cancellationWindowHours: 24, lateCancelFee: '25.00', noShowFee: '40.00',
+      });
+    });
+  });
+
+  describe('isLateCancellation', () => {
+    it('compares time until the appointment against the window', () => {
+      const policy = getCancellationPolicy(BUSINESS)!;
+      expect(isLateCancellation(policy, APPOINTMENT.startDate, new Date('2026-10-20T00:00:00Z'))).toBe(true);
+      expect(isLateCancellation(policy, APPOINTMENT.startDate, new Date('2026-10-19T12:00:00Z'))).toBe(false);
+    });
+  });
+
+  describe('card on file', () => {
+    it('creates the SetupIntent on the connected account, reusing a known Stripe customer', async () => {
+      mockStorage.getCustomerByPhone.mockResolvedValue(CUSTOMER);
+      mockStripe.setupIntents.create.mockResolvedValue({ id: 'seti_1', client_secret: 'seti_1_secret' });
+
+      const result = await createCardSetupIntent(BUSINESS, {
+        firstName: 'Dana', lastName: 'Lee', email: 'dana@example.com', phone: '5551234567',
+      });
+
+      expect(result).toEqual({ clientSecret: 'seti_1_secret', setupIntentId: 'seti_1' });
+      expect(mockStripe.customers.create).not.toHaveBeenCalled();
+      expect(mockStripe.setupIntents.create).toHaveBeenCalledWith(
+        expect.objectContaining({ customer: 'cus_connect', usage: 'off_session' }),
+        { stripeAccount: 'acct_123' },
+      );
+    });
+
+    it('tags the SetupIntent with the customer booking', async () => {
+      mockStorage.getCustomerByPhone.mockResolvedValue(CUSTOMER);
+      mockStripe.setupIntents.create.mockResolvedValue({ id: 'seti_1', client_secret: 'seti_1_secret' });
+
+      await createCardSetupIntent(BUSINESS, { firstName: 'Dana', lastName: 'Lee', email: 'dana@example.com', phone: '+15551234567' });
+
+      expect(mockStripe.setupIntents.create.mock.calls[0][0].metadata).toEqual({
+        businessId: '1', purpose: 'cancellation_policy', customerPhone: '5551234567', ourCustomerId: '7',
+      });
+    });
+
+    it('saves the card only from a succeeded SetupIntent for this business', async () => {
+      const newCustomer = { ...CUSTOMER, stripeCustomerConnectId: null, stripePaymentMethodId: null } as any;
+      mockStripe.setupIntents.retrieve.mockResolvedValue({
+        status: 'succeeded', customer: 'cus_new', metadata: { businessId: '1', customerPhone: '5551234567' },
+        payment_method: { id: 'pm_new', card: { brand: 'mastercard', last4: '4444' } },
+      });
+      expect(await saveCardFromSetupIntent(BUSINESS, newCustomer, 'seti_1')).toEqual({ ok: true });
+      expect(mockStorage.updateCustomer).toHaveBeenCalledWith(7, {
+        stripeCustomerConnectId: 'cus_new', stripePaymentMethodId: 'pm_new', cardBrand: 'mastercard', cardLast4: '4444',
+      });
+
+      mockStorage.updateCustomer.mockClear();
+      mockStripe.setupIntents.retrieve.mockResolvedValue({ status: 'succeeded', metadata: { businessId: '2' } });
+      expect((await saveCardFromSetupIntent(BUSINESS, newCustomer, 'seti_2')).ok).toBe(false);
+      expect(mockStorage.updateCustomer).not.toHaveBeenCalled();
+    });
+
+    it("refuses a SetupIntent started for a different customer or Stripe customer", async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const setupIntent = (customer: string, metadata: Record<string, string>) => ({
+        status: 'succeeded', customer, metadata: { businessId: '1', ...metadata },
+        payment_method: { id: 'pm_other', card: { brand: 'visa', last4: '1111' } },
+      });
+
+      // Another customer's id
+      mockStripe.setupIntents.retrieve.mockResolvedValue(setupIntent('cus_connect', { customerPhone: '5551234567', ourCustomerId: '8' }));
+      expect((await saveCardFromSetupIntent(BUSINESS, CUSTOMER as any, 'seti_3')).ok).toBe(false);
+      // Someone else's phone
+      mockStripe.setupIntents.retrieve.mockResolvedValue(setupIntent('cus_other', { customerPhone: '5559999999' }));
+      expect((await saveCardFromSetupIntent(BUSINESS, { ...CUSTOMER, stripeCustomerConnectId: null } as any, 'seti_4')).ok).toBe(false);
+      // Right customer, but not their Stripe customer
+      mockStripe.setupIntents.retrieve.mockResolvedValue(setupIntent('cus_other', { customerPhone: '5551234567', ourCustomerId: '7' }));
+      expect((await saveCardFromSetupIntent(BUSINESS, CUSTOMER as any, 'seti_5')).ok).toBe(false);
+
+      expect(mockStorage.updateCustomer).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recordFee', () => {
+    it('records a pending fee for an appointment whose policy was accepted', async () => {
+      mockStorage.createAppointmentFee.mockResolvedValue(fee({ type: 'late_cancel', amount: '25.00' }));
+
+      const recorded = await recordFee(APPOINTMENT, 'late_cancel');
+
+      expect(recorded?.status).toBe('pending');
+      expect(mockStorage.createAppointmentFee).toHaveBeenCalledWith(expect.objectContaining({
+        appointmentId: 50, customerId: 7, type: 'late_cancel', amount: '25.00', status: 'pending',
+      }));
+      expect(mockStripe.paymentIntents.create).not.toHaveBeenCalled();
+    });
+
+    it('charges the fee the customer accepted, not the current setting', async () => {
+      mockStorage.getBusiness.mockResolvedValue({ ...BUSINESS, noShowFee: '90.00' });
+      mockStorage.createAppointmentFee.mockResolvedValue(fee());
+
+      await recordFee(APPOINTMENT, 'no_show');
+
+      expect(mockStorage.createAppointmentFee).toHaveBeenCalledWith(expect.objectContaining({ type: 'no_show', amount: '40.00' }));
+    });
+
+    it('skips fees the accepted policy did not include, or once the business turns fees off', async () => {
+      expect(await recordFee({ ...APPOINTMENT, lateCancelFee: '0.00' }, 'late_cancel')).toBeNull();
+      mockStorage.getBusiness.mockResolvedValue({ ...BUSINESS, cancellationFeeEnabled: false });
+      expect(await recordFee(APPOINTMENT, 'no_show')).toBeNull();
+      expect(mockStorage.createAppointmentFee).not.toHaveBeenCalled();
+    });
+
+    it('skips appointments booked without accepting the policy', async () => {
+      expect(await recordFee({ ...APPOINTMENT, cancellationPolicyAcceptedAt: null }, 'no_show')).toBeNull();
+      expect(mockStorage.createAppointmentFee).not.toHaveBeenCalled();
+    });
+
+    it('charges immediately when the business auto-charges', async () => {
+      mockStorage.getBusiness.mockResolvedValue({ ...BUSINESS, cancellationFeeAutoCharge: true });
+      mockStorage.createAppointmentFee.mockResolvedValue(fee());
+      mockStorage.getAppointmentFee.mockResolvedValue(fee());
+      mockStripe.paymentIntents.create.mockResolvedValue({ id: 'pi_1' });
+
+      const recorded = await recordFee(APPOINTMENT, 'no_show');
+      expect(recorded?.status).toBe('charged');
+    });
+  });
+
+  describe('chargeFee', () => {
+    it('charges the saved card off-session on the connected account and emails a receipt', async () => {
+      mockStorage.getAppointmentFee.mockResolvedValue(fee());
+      mockStripe.paymentIntents.create.mockResolvedValue({ id: 'pi_1' });
+
+      const result = await chargeFee(3, 1, 99);
+
+      expect(result.ok).toBe(true);
+      expect(mockStripe.paymentIntents.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          amount: 4000, customer: 'cus_connect', payment_method: 'pm_card',
+          off_session: true, confirm: true, application_fee_amount: 60,
+        }),
+        expect.objectContaining({ stripeAccount: 'acct_123', idempotencyKey: expect.stringMatching(/^appointment-fee-3-/) }),
+      );
+      expect(mockStorage.updateAppointmentFee).toHaveBeenCalledWith(3, expect.objectContaining({
+        status: 'charged', stripePaymentIntentId: 'pi_1', resolvedByUserId: 99,
+      }));
+      expect(mockSendReceipt).toHaveBeenCalledWith('dana@example.com', 'Dana', 'Fade Factory', expect.objectContaining({
+        feeLabel: 'No-show fee', amount: '$40.00', cardDescription: 'Visa ending 4242',
+      }));
+    });
+
+    it('marks the fee failed when the card is declined', async () => {
+      mockStorage.getAppointmentFee.mockResolvedValue(fee());
+      mockStripe.paymentIntents.create.mockRejectedValue(new Error('Your card was declined.'));
+
+      expect(await chargeFee(3, 1, 99)).toEqual(expect.objectContaining({ ok: false, reason: 'payment_failed' }));
+      expect(mockStorage.updateAppointmentFee).toHaveBeenCalledWith(3, expect.objectContaining({
+        status: 'failed', failureReason: 'Your card was declined.',
+      }));
+      expect(mockSendReceipt).not.toHaveBeenCalled();
+    });
+
+    it('refuses settled fees and customers without a card', async () => {
+      mockStorage.getAppointmentFee.mockResolvedValue(fee({ status: 'waived' }));
+      expect(await chargeFee(3, 1, 99)).toEqual(expect.objectContaining({ ok: false, reason: 'not_chargeable' }));
+
+      mockStorage.getAppointmentFee.mockResolvedValue(fee());
+      mockStorage.getCustomer.mockResolvedValue({ ...CUSTOMER, stripePaymentMethodId: null });
+      expect(await chargeFee(3, 1, 99)).toEqual(expect.objectContaining({ ok: false, reason: 'no_card' }));
+      expect(mockStripe.paymentIntents.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('waiveFee', () => {
+    it('waives an unpaid fee', async () => {
+      mockStorage.getAppointmentFee.mockResolvedValue(fee({ status: 'failed' }));
+      const result = await waiveFee(3, 1, 99);
+      expect(result.ok && result.fee.status).toBe('waived');
+    });
+  });
+});
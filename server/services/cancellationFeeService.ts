@@ -0,0 +1,391 @@
+/**
+ * Cancellation Fee Service — card on file + late-cancel / no-show fees
+ *
+ * Businesses with `cancellationFeeEnabled` show a cancellation policy on the
+ * public booking page that the customer must accept. When the business's
+ * Stripe Connect account is active, the booking page also saves a card
+ * through a SetupIntent created ON the Connect account (same
+ * `{ stripeAccount }` convention as membershipBillingService) — the card
+ * lands on `customers.stripeCustomerConnectId` / `stripePaymentMethodId`.
+ *
+ * Accepting the policy copies its window and fees onto the appointment, and
+ * fees are charged from that copy — a later change to the business's
+ * settings never alters what an existing booking agreed to.
+ *
+ * A fee is recorded (only for appointments whose policy was accepted) when:
+ *
+ *   customer cancels via the manage link inside the window  → late_cancel
+ *   staff mark the appointment no_show                       → no_show
+ *
+ * Fees start pending; the owner charges or waives them from the appointment,
+ * or they're charged right away when `cancellationFeeAutoCharge` is on.
+ * Charges are off-session direct charges on the Connect account carrying the
+ * platform application fee, followed by an emailed receipt.
+ */
+
+import Stripe from "stripe";
+import { storage, normalizePhone } from "../storage";
+import type { Appointment, AppointmentFee, Business, Customer } from "@shared/schema";
+import { getVerticalConfig } from "../config/verticals";
+import { toMoney, formatUSD } from "../utils/money";
+
+const stripeKey = process.env.STRIPE_SECRET_KEY;
+const stripe = stripeKey ? new Stripe(stripeKey) : null;
+
+const LOG_PREFIX = "[CancellationFee]";
+
+// Matches stripeConnectService / membershipBillingService
+const PLATFORM_FEE_PERCENT = 1.5;
+
+// Used when neither the business nor its vertical sets a window
+const DEFAULT_WINDOW_HOURS = 24;
+
+export type AppointmentFeeType = "late_cancel" | "no_show";
+
+export const FEE_LABELS: Record<AppointmentFeeType, string> = {
+  late_cancel: "Late cancellation fee",
+  no_show: "No-show fee",
+};
+
+export interface CancellationPolicy {
+  windowHours: number;
+  lateCancelFee: number;
+  noShowFee: number;
+  autoCharge: boolean;
+  /** Card collection at booking — only when Stripe Connect can actually charge it */
+  cardRequired: boolean;
+  stripeAccountId: string | null;
+  text: string;
+}
+
+/** The policy terms an appointment was booked under */
+export interface AcceptedPolicyTerms {
+  windowHours: number;
+  lateCancelFee: number;
+  noShowFee: number;
+}
+
+export type FeeResult =
+  | { ok: true; fee: AppointmentFee }
+  | {
+      ok: false;
+      reason: "not_found" | "not_chargeable" | "not_connected" | "no_card" | "payment_failed";
+      message: string;
+    };
+
+// ──────────────────────────────────────────────────────────────────────
+// Policy
+// ──────────────────────────────────────────────────────────────────────
+
+/**
+ * The business's cancellation policy, or null when it doesn't enforce one
+ * (disabled, or no fee configured).
+ */
+export function getCancellationPolicy(business: Business): CancellationPolicy | null {
+  if (!business.cancellationFeeEnabled) return null;
+  const lateCancelFee = toMoney(business.lateCancelFee);
+  const noShowFee = toMoney(business.noShowFee);
+  if (lateCancelFee <= 0 && noShowFee <= 0) return null;
+
+  const verticalWindow = getVerticalConfig(business.industry).rules.lateCancelWindowHours;
+  const windowHours = business.lateCancelWindowHours ?? (verticalWindow || DEFAULT_WINDOW_HOURS);
+  const connected = !!business.stripeConnectAccountId && business.stripeConnectStatus === "active";
+
+  const policy = {
+    windowHours,
+    lateCancelFee,
+    noShowFee,
+    autoCharge: !!business.cancellationFeeAutoCharge,
+    cardRequired: connected,
+    stripeAccountId: connected ? business.stripeConnectAccountId : null,
+  };
+  return { ...policy, text: business.cancellationPolicyText?.trim() || describePolicy(policy) };
+}
+
+export function describePolicy(policy: AcceptedPolicyTerms): string {
+  const parts: string[] = [];
+  if (policy.lateCancelFee > 0) {
+    parts.push(
+      `Cancellations made less than ${policy.windowHours} hours before your appointment are charged a ${formatUSD(policy.lateCancelFee)} fee.`,
+    );
+  }
+  if (policy.noShowFee > 0) {
+    parts.push(`Missed appointments are charged a ${formatUSD(policy.noShowFee)} no-show fee.`);
+  }
+  return parts.join(" ");
+}
+
+export function isLateCancellation(policy: Pick<AcceptedPolicyTerms, "windowHours">, startDate: Date, now: Date = new Date()): boolean {
+  return new Date(startDate).getTime() - now.getTime() < policy.windowHours * 60 * 60 * 1000;
+}
+
+/**
+ * Appointment fields recording that the customer accepted `policy` — spread
+ * into the new appointment when booking.
+ */
+export function acceptPolicyFields(policy: CancellationPolicy, now: Date = new Date()) {
+  return {
+    cancellationPolicyAcceptedAt: now,
+    cancellationWindowHours: policy.windowHours,
+    lateCancelFee: policy.lateCancelFee.toFixed(2),
+    noShowFee: policy.noShowFee.toFixed(2),
+  };
+}
+
+/** The terms the customer accepted for this appointment, or null if they accepted none */
+export function getAcceptedTerms(
+  appointment: Pick<Appointment, "cancellationPolicyAcceptedAt" | "cancellationWindowHours" | "lateCancelFee" | "noShowFee">,
+): AcceptedPolicyTerms | null {
+  if (!appointment.cancellationPolicyAcceptedAt) return null;
+  return {
+    windowHours: appointment.cancellationWindowHours ?? DEFAULT_WINDOW_HOURS,
+    lateCancelFee: toMoney(appointment.lateCancelFee),
+    noShowFee: toMoney(appointment.noShowFee),
+  };
+}
+
+// ──────────────────────────────────────────────────────────────────────
+// Card on file
+// ──────────────────────────────────────────────────────────────────────
+
+/**
+ * Start saving a card for a booking. Reuses the customer's Connect-side
+ * Stripe customer when they've booked (or enrolled in a membership) before.
+ */
+export async function createCardSetupIntent(
+  business: Business,
+  person: { firstName: string; lastName: string; email: string; phone: string },
+): Promise<{ clientSecret: string; setupIntentId: string }> {
+  if (!stripe) throw new Error("Stripe is not configured");
+  const policy = getCancellationPolicy(business);
+  if (!policy?.stripeAccountId) {
+    throw new Error("This business does not collect a card at booking");
+  }
+  const stripeAccount = policy.stripeAccountId;
+
+  const existing = await storage.getCustomerByPhone(person.phone, business.id);
+  let stripeCustomerId = existing?.stripeCustomerConnectId || undefined;
+  if (!stripeCustomerId) {
+    const created = await stripe.customers.create(
+      {
+        email: person.email,
+        name: `${person.firstName} ${person.lastName}`.trim(),
+        phone: person.phone,
+        metadata: {
+          businessId: String(business.id),
+          ...(existing ? { ourCustomerId: String(existing.id) } : {}),
+        },
+      },
+      { stripeAccount },
+    );
+    stripeCustomerId = created.id;
+  }
+
+  const setupIntent = await stripe.setupIntents.create(
+    {
+      customer: stripeCustomerId,
+      usage: "off_session",
+      payment_method_types: ["card"],
+      // Ties the card to the person booking — checked again when it's saved
+      metadata: {
+        businessId: String(business.id),
+        purpose: "cancellation_policy",
+        customerPhone: normalizePhone(person.phone),
+        ...(existing ? { ourCustomerId: String(existing.id) } : {}),
+      },
+    },
+    { stripeAccount },
+  );
+
+  return { clientSecret: setupIntent.client_secret!, setupIntentId: setupIntent.id };
+}
+
+/**
+ * Attach the card from a confirmed SetupIntent to our customer record. The
+ * SetupIntent must have been started for this customer — same customer id
+ * (or phone, when they were new) and same Stripe customer — so a booking
+ * can't claim someone else's card or replace theirs.
+ */
+export async function saveCardFromSetupIntent(
+  business: Business,
+  customer: Customer,
+  setupIntentId: string,
+): Promise<{ ok: true } | { ok: false; message: string }> {
+  if (!stripe) return { ok: false, message: "Stripe is not configured" };
+  const stripeAccount = getCancellationPolicy(business)?.stripeAccountId;
+  if (!stripeAccount) return { ok: false, message: "This business does not collect a card at booking" };
+
+  let setupIntent: Stripe.SetupIntent;
+  try {
+    setupIntent = await stripe.setupIntents.retrieve(setupIntentId, { expand: ["payment_method"] }, { stripeAccount });
+  } catch {
+    return { ok: false, message: "We couldn't verify your card. Please try again." };
+  }
+  if (setupIntent.metadata?.businessId !== String(business.id) || setupIntent.status !== "succeeded") {
+    return { ok: false, message: "We couldn't verify your card. Please try again." };
+  }
+
+  const paymentMethod = setupIntent.payment_method as Stripe.PaymentMethod | null;
+  if (!paymentMethod || typeof setupIntent.customer !== "string") {
+    return { ok: false, message: "We couldn't verify your card. Please try again." };
+  }
+
+  const { ourCustomerId, customerPhone } = setupIntent.metadata ?? {};
+  const sameCustomer = ourCustomerId
+    ? ourCustomerId === String(customer.id)
+    : !!customerPhone && customerPhone === normalizePhone(customer.phone ?? "");
+  const sameStripeCustomer = !customer.stripeCustomerConnectId || customer.stripeCustomerConnectId === setupIntent.customer;
+  if (!sameCustomer || !sameStripeCustomer) {
+    console.warn(`${LOG_PREFIX} SetupIntent ${setupIntentId} was not started for customer ${customer.id}`);
+    return { ok: false, message: "We couldn't verify your card. Please try again." };
+  }
+
+  await storage.updateCustomer(customer.id, {
+    stripeCustomerConnectId: setupIntent.customer,
+    stripePaymentMethodId: paymentMethod.id,
+    cardBrand: paymentMethod.card?.brand ?? null,
+    cardLast4: paymentMethod.card?.last4 ?? null,
+  });
+  return { ok: true };
+}
+
+// ──────────────────────────────────────────────────────────────────────
+// Fees
+// ──────────────────────────────────────────────────────────────────────
+
+/**
+ * Record a fee an appointment has incurred, at the amount the customer
+ * accepted when booking. No-op (returns null) when the business has turned
+ * fees off, the customer never accepted the policy or it had no fee of this
+ * type, or the fee was already recorded. Charges straight away when the
+ * business has auto-charge on.
+ */
+export async function recordFee(appointment: Appointment, type: AppointmentFeeType): Promise<AppointmentFee | null> {
+  const terms = getAcceptedTerms(appointment);
+  if (!terms) return null;
+  const business = await storage.getBusiness(appointment.businessId);
+  if (!business?.cancellationFeeEnabled) return null;
+
+  const amount = type === "late_cancel" ? terms.lateCancelFee : terms.noShowFee;
+  if (amount <= 0) return null;
+
+  const fee = await storage.createAppointmentFee({
+    businessId: appointment.businessId,
+    appointmentId: appointment.id,
+    customerId: appointment.customerId,
+    type,
+    amount: amount.toFixed(2),
+    status: "pending",
+  });
+  if (!fee) return null;
+  console.log(`${LOG_PREFIX} Recorded ${type} fee ${fee.id} (${formatUSD(amount)}) for appointment ${appointment.id}`);
+
+  if (business.cancellationFeeAutoCharge) {
+    const charged = await chargeFee(fee.id, appointment.businessId, null);
+    return charged.ok ? charged.fee : ((await storage.getAppointmentFee(fee.id, appointment.businessId)) ?? fee);
+  }
+  return fee;
+}
+
+/**
+ * Charge a pending (or previously failed) fee to the customer's saved card.
+ * `userId` is the owner who clicked Charge; null for auto-charge.
+ */
+export async function chargeFee(feeId: number, businessId: number, userId: number | null): Promise<FeeResult> {
+  const fee = await storage.getAppointmentFee(feeId, businessId);
+  if (!fee) return { ok: false, reason: "not_found", message: "Fee not found" };
+  if (fee.status !== "pending" && fee.status !== "failed") {
+    return { ok: false, reason: "not_chargeable", message: `This fee is already ${fee.status}` };
+  }
+
+  const business = await storage.getBusiness(businessId);
+  if (!stripe || !business?.stripeConnectAccountId || business.stripeConnectStatus !== "active") {
+    return { ok: false, reason: "not_connected", message: "Connect Stripe to charge fees" };
+  }
+  const customer = await storage.getCustomer(fee.customerId);
+  if (!customer?.stripeCustomerConnectId || !customer.stripePaymentMethodId) {
+    return { ok: false, reason: "no_card", message: "This customer has no card on file" };
+  }
+
+  const amountInCents = Math.round(toMoney(fee.amount) * 100);
+  let paymentIntent: Stripe.PaymentIntent;
+  try {
+    paymentIntent = await stripe.paymentIntents.create(
+      {
+        amount: amountInCents,
+        currency: "usd",
+        customer: customer.stripeCustomerConnectId,
+        payment_method: customer.stripePaymentMethodId,
+        off_session: true,
+        confirm: true,
+        application_fee_amount: Math.round(amountInCents * (PLATFORM_FEE_PERCENT / 100)),
+        description: `${FEE_LABELS[fee.type as AppointmentFeeType] ?? "Appointment fee"} — ${business.name}`,
+        metadata: {
+          paymentType: "appointment_fee",
+          appointmentFeeId: String(fee.id),
+          appointmentId: String(fee.appointmentId),
+          businessId: String(businessId),
+          platformFeePercent: PLATFORM_FEE_PERCENT.toString(),
+        },
+      },
+      {
+        stripeAccount: business.stripeConnectAccountId,
+        // Double clicks on the same fee state collapse into one charge; a
+        // retry after a failure gets a fresh key because updatedAt moved.
+        idempotencyKey: `appointment-fee-${fee.id}-${new Date(fee.updatedAt ?? fee.createdAt ?? 0).getTime()}`,
+      },
+    );
+  } catch (err: any) {
+    const message = err?.message || "Card was declined";
+    await storage.updateAppointmentFee(fee.id, { status: "failed", failureReason: message, resolvedByUserId: userId });
+    console.warn(`${LOG_PREFIX} Charge failed for fee ${fee.id}: ${message}`);
+    return { ok: false, reason: "payment_failed", message };
+  }
+
+  const charged = await storage.updateAppointmentFee(fee.id, {
+    status: "charged",
+    stripePaymentIntentId: paymentIntent.id,
+    chargedAt: new Date(),
+    failureReason: null,
+    resolvedByUserId: userId,
+  });
+  console.log(`${LOG_PREFIX} Charged fee ${fee.id} (${formatUSD(fee.amount)}) for business ${businessId}`);
+
+  await sendReceipt(charged, business, customer).catch((err) =>
+    console.error(`${LOG_PREFIX} Failed to send receipt for fee ${fee.id}:`, err));
+  return { ok: true, fee: charged };
+}
+
+export async function waiveFee(feeId: number, businessId: number, userId: number): Promise<FeeResult> {
+  const fee = await storage.getAppointmentFee(feeId, businessId);
+  if (!fee) return { ok: false, reason: "not_found", message: "Fee not found" };
+  if (fee.status !== "pending" && fee.status !== "failed") {
+    return { ok: false, reason: "not_chargeable", message: `This fee is already ${fee.status}` };
+  }
+  const waived = await storage.updateAppointmentFee(fee.id, { status: "waived", resolvedByUserId: userId });
+  return { ok: true, fee: waived };
+}
+
+async function sendReceipt(fee: AppointmentFee, business: Business, customer: Customer): Promise<void> {
+  if (!customer.email) return;
+  const appointment = await storage.getAppointment(fee.appointmentId);
+  const appointmentDate = appointment
+    ? new Date(appointment.startDate).toLocaleString("en-US", {
+        timeZone: business.timezone || "America/New_York",
+        weekday: "short",
+        month: "short",
+        day: "numeric",
+        hour: "numeric",
+        minute: "2-digit",
+      })
+    : "scheduled";
+  const brand = customer.cardBrand ? customer.cardBrand.charAt(0).toUpperCase() + customer.cardBrand.slice(1) : "card";
+
+  const { sendCancellationFeeReceiptEmail } = await import("../emailService");
+  await sendCancellationFeeReceiptEmail(customer.email, customer.firstName, business.name, {
+    feeLabel: FEE_LABELS[fee.type as AppointmentFeeType] ?? "Appointment fee",
+    amount: formatUSD(fee.amount),
+    appointmentDate,
+    cardDescription: customer.cardLast4 ? `${brand} ending ${customer.cardLast4}` : null,
+  });
+}
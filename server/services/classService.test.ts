@@ -0,0 +1,176 @@
+/**
+ * Group class tests — timetable expansion, seat decisions, waitlist order
+ * and on-demand session materialization.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Business, ClassBooking, ClassSchedule, ClassSession, Service } from '@shared/schema';
+
+vi.mock('../db', () => ({ db: {} }));
+
+vi.mock('../storage', () => ({
+  storage: {
+    getClassSchedules: vi.fn(),
+    getServices: vi.fn(),
+    getStaff: vi.fn(),
+    getClassSessions: vi.fn(),
+    getClassBookings: vi.fn(),
+    createClassSessionsIfMissing: vi.fn(),
+  },
+}));
+
+import { storage } from '../storage';
+import {
+  countSeats,
+  decideSeat,
+  ensureClassSessions,
+  expandClassSchedule,
+  getClassAvailability,
+  getClassWaitlistPosition,
+  isClassService,
+} from './classService';
+
+function schedule(overrides: Partial<ClassSchedule> = {}): ClassSchedule {
+  return {
+    id: 1,
+    businessId: 10,
+    serviceId: 5,
+    staffId: null,
+    dayOfWeek: 'saturday',
+    startTime: '09:00',
+    capacity: null,
+    startsOn: null,
+    endsOn: null,
+    active: true,
+    createdAt: null,
+    updatedAt: null,
+    ...overrides,
+  };
+}
+
+function booking(overrides: Partial<ClassBooking> = {}): ClassBooking {
+  return {
+    id: 1,
+    businessId: 10,
+    sessionId: 50,
+    customerId: 1,
+    status: 'booked',
+    source: 'online',
+    checkedInAt: null,
+    promotedAt: null,
+    cancelledAt: null,
+    createdAt: null,
+    updatedAt: null,
+    ...overrides,
+  };
+}
+
+const spin = { id: 5, name: 'Spin', duration: 45, classCapacity: 12, active: true } as Service;
+const business = { id: 10, timezone: 'UTC' } as Business;
+
+beforeEach(() => {
+  vi.mocked(storage.getClassSchedules).mockReset().mockResolvedValue([schedule()]);
+  vi.mocked(storage.getServices).mockReset().mockResolvedValue([spin]);
+  vi.mocked(storage.getStaff).mockReset().mockResolvedValue([]);
+  vi.mocked(storage.getClassSessions).mockReset().mockResolvedValue([]);
+  vi.mocked(storage.getClassBookings).mockReset().mockResolvedValue([]);
+  vi.mocked(storage.createClassSessionsIfMissing).mockReset().mockResolvedValue([]);
+});
+
+describe('isClassService', () => {
+  it('needs a positive capacity', () => {
+    expect(isClassService(spin)).toBe(true);
+    expect(isClassService({ classCapacity: null })).toBe(false);
+    expect(isClassService({ classCapacity: 0 })).toBe(false);
+  });
+});
+
+describe('expandClassSchedule', () => {
+  // 2026-06-01 is a Monday; the next two Saturdays are the 6th and 13th
+  it('produces one session per matching weekday', () => {
+    const sessions = expandClassSchedule(schedule(), spin, '2026-06-01', 14, 'UTC');
+    expect(sessions.map(s => s.startDate.toISOString())).toEqual([
+      '2026-06-06T09:00:00.000Z',
+      '2026-06-13T09:00:00.000Z',
+    ]);
+    expect(sessions[0]).toMatchObject({ scheduleId: 1, serviceId: 5, capacity: 12, status: 'scheduled' });
+    expect(sessions[0].endDate).toEqual(new Date('2026-06-06T09:45:00.000Z'));
+  });
+
+  it('respects the start and end dates', () => {
+    expect(expandClassSchedule(schedule({ startsOn: '2026-06-10' }), spin, '2026-06-01', 14, 'UTC')).toHaveLength(1);
+    expect(expandClassSchedule(schedule({ endsOn: '2026-06-06' }), spin, '2026-06-01', 14, 'UTC')).toHaveLength(1);
+  });
+
+  it('prefers the schedule capacity over the service capacity', () => {
+    const [session] = expandClassSchedule(schedule({ capacity: 8 }), spin, '2026-06-01', 7, 'UTC');
+    expect(session.capacity).toBe(8);
+  });
+
+  it('uses the business timezone for the start time', () => {
+    const [session] = expandClassSchedule(schedule(), spin, '2026-06-01', 7, 'America/New_York');
+    expect(session.startDate.toISOString()).toBe('2026-06-06T13:00:00.000Z');
+  });
+});
+
+describe('seats', () => {
+  const session = { capacity: 2 };
+
+  it('counts booked seats and the waitlist', () => {
+    const roster = [booking(), booking({ id: 2, status: 'waitlisted' })];
+    expect(countSeats(session, roster)).toEqual({ bookedCount: 1, waitlistCount: 1, spotsLeft: 1 });
+  });
+
+  it('books while seats are open and waitlists once full', () => {
+    expect(decideSeat(session, [booking()], 2)).toEqual({ ok: true, status: 'booked', waitlistPosition: null });
+    const full = [booking(), booking({ id: 2, customerId: 2 }), booking({ id: 3, customerId: 3, status: 'waitlisted' })];
+    expect(decideSeat(session, full, 4)).toEqual({ ok: true, status: 'waitlisted', waitlistPosition: 2 });
+  });
+
+  it('rejects a second active booking but ignores cancelled ones', () => {
+    expect(decideSeat(session, [booking()], 1)).toMatchObject({ ok: false, reason: 'already_booked' });
+    expect(decideSeat(session, [booking({ status: 'cancelled' })], 1).ok).toBe(true);
+  });
+
+  it('reports waitlist position in join order', () => {
+    const roster = [
+      booking(),
+      booking({ id: 2, status: 'waitlisted' }),
+      booking({ id: 3, status: 'waitlisted' }),
+    ];
+    expect(getClassWaitlistPosition(roster[2], roster)).toBe(2);
+    expect(getClassWaitlistPosition(roster[0], roster)).toBeNull();
+  });
+});
+
+describe('ensureClassSessions', () => {
+  it('materializes sessions for active class services in range', async () => {
+    const from = new Date('2026-06-05T00:00:00Z');
+    const to = new Date('2026-06-07T00:00:00Z');
+    await ensureClassSessions(business, from, to);
+    const [wanted] = vi.mocked(storage.createClassSessionsIfMissing).mock.calls[0];
+    expect(wanted.map(s => s.startDate.toISOString())).toEqual(['2026-06-06T09:00:00.000Z']);
+  });
+
+  it('skips schedules whose service is no longer a class', async () => {
+    vi.mocked(storage.getServices).mockResolvedValue([{ ...spin, classCapacity: null }]);
+    await ensureClassSessions(business, new Date('2026-06-01T00:00:00Z'), new Date('2026-06-14T00:00:00Z'));
+    expect(storage.createClassSessionsIfMissing).toHaveBeenCalledWith([]);
+  });
+});
+
+describe('getClassAvailability', () => {
+  it('returns spots left per session', async () => {
+    const session = { id: 50, businessId: 10, serviceId: 5, staffId: null, capacity: 2 } as ClassSession;
+    vi.mocked(storage.getClassSessions).mockResolvedValue([session]);
+    vi.mocked(storage.getClassBookings).mockResolvedValue([
+      booking(),
+      booking({ id: 2, customerId: 2 }),
+      booking({ id: 3, customerId: 3, status: 'waitlisted' }),
+    ]);
+    const [item] = await getClassAvailability(business, {
+      from: new Date('2026-06-01T00:00:00Z'),
+      to: new Date('2026-06-07T00:00:00Z'),
+    });
+    expect(item).toMatchObject({ serviceName: 'Spin', bookedCount: 2, waitlistCount: 1, spotsLeft: 0 });
+  });
+});
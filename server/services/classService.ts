@@ -0,0 +1,330 @@
+/**
+ * Class Service — group classes booked per seat
+ *
+ * A service with `classCapacity` is a class: one time slot many customers
+ * book into ("Spin, Saturdays 9:00, 12 bikes"). Owners set a weekly
+ * timetable (class_schedules); concrete sessions are materialized from it on
+ * demand, for whatever range is being looked at, so there's no job to keep
+ * them topped up. One-off sessions can be added alongside.
+ *
+ *   1. A session holds `capacity` attendees with status `booked`.
+ *   2. Anyone booking a full session joins its waitlist (`waitlisted`), in
+ *      join order.
+ *   3. When a booked attendee cancels, the first waitlisted attendee is
+ *      promoted and texted — inside the same transaction that frees the seat,
+ *      so two cancellations can't promote the same person twice.
+ *
+ * Attendees are checked in at the door (checkedInAt). A customer holds at
+ * most one active booking per session.
+ */
+
+import { and, eq, inArray } from "drizzle-orm";
+import { classBookings, classSessions } from "@shared/schema";
+import type { Business, ClassBooking, ClassSchedule, ClassSession, InsertClassSession, Service } from "@shared/schema";
+import { db } from "../db";
+import { storage } from "../storage";
+import { createDateInTimezone } from "../utils/timezone";
+import { logAndSwallow } from "../utils/safeAsync";
+
+const LOG_PREFIX = "[Classes]";
+
+/** Indexed by Date#getUTCDay() */
+export const DAY_NAMES = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+
+/** Roster statuses that hold a seat or a place in line */
+export const ACTIVE_CLASS_BOOKING_STATUSES = ["booked", "waitlisted"];
+
+const DEFAULT_CLASS_MINUTES = 60;
+
+export type ClassBookingSource = "online" | "phone" | "staff";
+
+export interface ClassSessionAvailability {
+  session: ClassSession;
+  serviceName: string;
+  staffName: string | null;
+  bookedCount: number;
+  waitlistCount: number;
+  spotsLeft: number;
+}
+
+export type ClassSeatDecision =
+  | { ok: true; status: "booked" | "waitlisted"; waitlistPosition: number | null }
+  | { ok: false; reason: "already_booked"; message: string };
+
+export type ClassBookingResult =
+  | { ok: true; booking: ClassBooking; waitlistPosition: number | null }
+  | { ok: false; reason: "not_found" | "not_available" | "started" | "already_booked"; message: string };
+
+// ────────────────────────────────────────────────────────────────────────────
+// Timetable and seats (pure)
+// ────────────────────────────────────────────────────────────────────────────
+
+export function isClassService(service: Pick<Service, "classCapacity"> | undefined | null): boolean {
+  return !!service?.classCapacity && service.classCapacity > 0;
+}
+
+/**
+ * Sessions a weekly schedule produces over `days` local dates starting at
+ * `fromDate` (YYYY-MM-DD, business timezone).
+ */
+export function expandClassSchedule(
+  schedule: ClassSchedule,
+  service: Pick<Service, "duration" | "classCapacity">,
+  fromDate: string,
+  days: number,
+  timezone: string,
+): InsertClassSession[] {
+  const [year, month, day] = fromDate.split("-").map(Number);
+  const [hour, minute] = schedule.startTime.split(":").map(Number);
+  const minutes = service.duration || DEFAULT_CLASS_MINUTES;
+
+  const sessions: InsertClassSession[] = [];
+  for (let i = 0; i < days; i++) {
+    const date = new Date(Date.UTC(year, month - 1, day + i));
+    const dateStr = date.toISOString().slice(0, 10);
+    if (DAY_NAMES[date.getUTCDay()] !== schedule.dayOfWeek) continue;
+    if (schedule.startsOn && dateStr < schedule.startsOn) continue;
+    if (schedule.endsOn && dateStr > schedule.endsOn) continue;
+
+    const startDate = createDateInTimezone(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(), hour, minute || 0, timezone);
+    sessions.push({
+      businessId: schedule.businessId,
+      serviceId: schedule.serviceId,
+      scheduleId: schedule.id,
+      staffId: schedule.staffId,
+      startDate,
+      endDate: new Date(startDate.getTime() + minutes * 60000),
+      capacity: schedule.capacity || service.classCapacity || 1,
+      status: "scheduled",
+    });
+  }
+  return sessions;
+}
+
+/** Seat counts for one session from its active roster */
+export function countSeats(session: Pick<ClassSession, "capacity">, roster: Pick<ClassBooking, "status">[]) {
+  const bookedCount = roster.filter(b => b.status === "booked").length;
+  const waitlistCount = roster.filter(b => b.status === "waitlisted").length;
+  return { bookedCount, waitlistCount, spotsLeft: Math.max(0, session.capacity - bookedCount) };
+}
+
+/** Whether a new attendee gets a seat or a place in line */
+export function decideSeat(
+  session: Pick<ClassSession, "capacity">,
+  roster: Pick<ClassBooking, "customerId" | "status">[],
+  customerId: number,
+): ClassSeatDecision {
+  const active = roster.filter(b => ACTIVE_CLASS_BOOKING_STATUSES.includes(b.status));
+  if (active.some(b => b.customerId === customerId)) {
+    return { ok: false, reason: "already_booked", message: "You're already on the list for this class" };
+  }
+  const { spotsLeft, waitlistCount } = countSeats(session, active);
+  return spotsLeft > 0
+    ? { ok: true, status: "booked", waitlistPosition: null }
+    : { ok: true, status: "waitlisted", waitlistPosition: waitlistCount + 1 };
+}
+
+/** 1-based place on the session's waitlist, or null when not waitlisted */
+export function getClassWaitlistPosition(booking: ClassBooking, roster: ClassBooking[]): number | null {
+  if (booking.status !== "waitlisted") return null;
+  const line = roster.filter(b => b.status === "waitlisted");
+  const index = line.findIndex(b => b.id === booking.id);
+  return index === -1 ? null : index + 1;
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Sessions
+// ────────────────────────────────────────────────────────────────────────────
+
+/** Materializes scheduled sessions starting between `from` and `to` */
+export async function ensureClassSessions(business: Business, from: Date, to: Date): Promise<void> {
+  const schedules = await storage.getClassSchedules(business.id, { activeOnly: true });
+  if (schedules.length === 0) return;
+
+  const services = new Map((await storage.getServices(business.id)).map(s => [s.id, s]));
+  const timezone = business.timezone || "America/New_York";
+  const fromDate = from.toLocaleDateString("en-CA", { timeZone: timezone });
+  const days = Math.ceil((to.getTime() - from.getTime()) / 86400000) + 1;
+
+  const wanted = schedules.flatMap(schedule => {
+    const service = services.get(schedule.serviceId);
+    if (!service || service.active === false || !isClassService(service)) return [];
+    return expandClassSchedule(schedule, service, fromDate, days, timezone)
+      .filter(s => s.startDate >= from && s.startDate <= to);
+  });
+
+  const created = await storage.createClassSessionsIfMissing(wanted);
+  if (created.length > 0) {
+    console.log(`${LOG_PREFIX} Materialized ${created.length} session(s) for business ${business.id}`);
+  }
+}
+
+/**
+ * Upcoming sessions with seat counts — what the booking page, the staff
+ * calendar and the AI receptionist all read.
+ */
+export async function getClassAvailability(business: Business, params: {
+  from: Date;
+  to: Date;
+  serviceId?: number;
+}): Promise<ClassSessionAvailability[]> {
+  await ensureClassSessions(business, params.from, params.to);
+
+  const sessions = await storage.getClassSessions(business.id, {
+    startDate: params.from,
+    endDate: params.to,
+    serviceId: params.serviceId,
+    statuses: ["scheduled"],
+  });
+  if (sessions.length === 0) return [];
+
+  const [roster, services, staff] = await Promise.all([
+    storage.getClassBookings(sessions.map(s => s.id), { statuses: ACTIVE_CLASS_BOOKING_STATUSES }),
+    storage.getServices(business.id),
+    storage.getStaff(business.id),
+  ]);
+
+  return sessions.map(session => {
+    const instructor = session.staffId ? staff.find(s => s.id === session.staffId) : undefined;
+    return {
+      session,
+      serviceName: services.find(s => s.id === session.serviceId)?.name || "Class",
+      staffName: instructor ? `${instructor.firstName} ${instructor.lastName || ""}`.trim() : null,
+      ...countSeats(session, roster.filter(b => b.sessionId === session.id)),
+    };
+  });
+}
+
+/**
+ * Drops a schedule's future sessions that nobody has booked, after it is
+ * edited or switched off. Booked sessions stay for the owner to cancel.
+ */
+export async function pruneScheduleSessions(schedule: ClassSchedule): Promise<void> {
+  const future = await storage.getClassSessions(schedule.businessId, {
+    scheduleId: schedule.id,
+    startDate: new Date(),
+  });
+  if (future.length === 0) return;
+
+  const roster = await storage.getClassBookings(future.map(s => s.id), { statuses: ACTIVE_CLASS_BOOKING_STATUSES });
+  const empty = future.filter(s => !roster.some(b => b.sessionId === s.id)).map(s => s.id);
+  await storage.deleteClassSessions(empty, schedule.businessId);
+}
+
+/** Cancels a session and everyone on it, texting booked and waitlisted attendees */
+export async function cancelClassSession(session: ClassSession): Promise<ClassSession> {
+  const updated = await storage.updateClassSession(session.id, { status: "cancelled" });
+  const roster = await storage.getClassBookings([session.id], { statuses: ACTIVE_CLASS_BOOKING_STATUSES });
+  const now = new Date();
+  for (const booking of roster) {
+    await storage.updateClassBooking(booking.id, { status: "cancelled", cancelledAt: now });
+    notify(booking.id, session.businessId, "session_cancelled");
+  }
+  console.log(`${LOG_PREFIX} Cancelled session ${session.id} (${roster.length} attendee(s) notified)`);
+  return updated;
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Roster
+// ────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Books a seat — or a place on the waitlist when the session is full. The
+ * session row is locked so concurrent bookings can't oversell the last seat.
+ */
+export async function bookClassSeat(
+  sessionId: number,
+  customerId: number,
+  source: ClassBookingSource,
+): Promise<ClassBookingResult> {
+  const result = await db.transaction(async (tx): Promise<ClassBookingResult> => {
+    const [session] = await tx.select().from(classSessions)
+      .where(eq(classSessions.id, sessionId))
+      .for("update");
+    if (!session) return { ok: false, reason: "not_found", message: "Class not found" };
+    if (session.status !== "scheduled") {
+      return { ok: false, reason: "not_available", message: "This class is no longer running" };
+    }
+    if (new Date(session.startDate) <= new Date()) {
+      return { ok: false, reason: "started", message: "This class has already started" };
+    }
+
+    const roster = await tx.select().from(classBookings)
+      .where(and(
+        eq(classBookings.sessionId, sessionId),
+        inArray(classBookings.status, ACTIVE_CLASS_BOOKING_STATUSES),
+      ));
+    const decision = decideSeat(session, roster, customerId);
+    if (!decision.ok) return decision;
+
+    const [booking] = await tx.insert(classBookings).values({
+      businessId: session.businessId,
+      sessionId,
+      customerId,
+      status: decision.status,
+      source,
+    }).returning();
+    return { ok: true, booking, waitlistPosition: decision.waitlistPosition };
+  });
+
+  if (result.ok) {
+    const { booking, waitlistPosition } = result;
+    console.log(`${LOG_PREFIX} Customer ${customerId} ${booking.status} for session ${sessionId} (${source})`);
+    notify(booking.id, booking.businessId, booking.status === "booked" ? "booked" : "waitlisted", waitlistPosition ?? undefined);
+  }
+  return result;
+}
+
+/**
+ * Cancels one attendee. Freeing a booked seat on an upcoming session promotes
+ * the first waitlisted attendee, who is texted.
+ */
+export async function cancelClassBooking(booking: ClassBooking): Promise<{
+  cancelled: ClassBooking;
+  promoted: ClassBooking | null;
+}> {
+  const result = await db.transaction(async (tx) => {
+    const [session] = await tx.select().from(classSessions)
+      .where(eq(classSessions.id, booking.sessionId))
+      .for("update");
+
+    const [cancelled] = await tx.update(classBookings)
+      .set({ status: "cancelled", cancelledAt: new Date(), updatedAt: new Date() })
+      .where(eq(classBookings.id, booking.id))
+      .returning();
+
+    const freesSeat = booking.status === "booked" &&
+      session?.status === "scheduled" &&
+      new Date(session.startDate) > new Date();
+    if (!freesSeat) return { cancelled, promoted: null };
+
+    const line = await tx.select().from(classBookings)
+      .where(and(eq(classBookings.sessionId, booking.sessionId), eq(classBookings.status, "waitlisted")))
+      .orderBy(classBookings.createdAt, classBookings.id)
+      .limit(1);
+    if (line.length === 0) return { cancelled, promoted: null };
+
+    const [promoted] = await tx.update(classBookings)
+      .set({ status: "booked", promotedAt: new Date(), updatedAt: new Date() })
+      .where(eq(classBookings.id, line[0].id))
+      .returning();
+    return { cancelled, promoted };
+  });
+
+  if (result.promoted) {
+    console.log(`${LOG_PREFIX} Promoted class booking ${result.promoted.id} off the waitlist for session ${booking.sessionId}`);
+    notify(result.promoted.id, booking.businessId, "promoted");
+  }
+  return result;
+}
+
+/** Marks a booked attendee as here (or undoes it) */
+export async function setClassCheckIn(booking: ClassBooking, checkedIn: boolean): Promise<ClassBooking> {
+  return storage.updateClassBooking(booking.id, { checkedInAt: checkedIn ? new Date() : null });
+}
+
+function notify(bookingId: number, businessId: number, event: "booked" | "waitlisted" | "promoted" | "session_cancelled", position?: number): void {
+  import("./notificationService").then(ns => {
+    ns.sendClassBookingNotification(bookingId, businessId, event, position).catch(logAndSwallow("Classes"));
+  }).catch(logAndSwallow("Classes"));
+}
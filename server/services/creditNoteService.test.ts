@@ -0,0 +1,189 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// ── Mocks (vi.hoisted ensures they're available when vi.mock factories run) ──
+
+const { mockStorage, mockLogAudit, mockGenerateNumber, mockTx, mockEnqueue, mockQuickBooks } = vi.hoisted(() => {
+  // Transaction stand-in: selects resolve to the next queued result (locked
+  // invoice row, then its credit notes); inserts echo their values back.
+  const selectResults: any[][] = [];
+  const where = () => {
+    const rows = Promise.resolve(selectResults.shift() ?? []);
+    return Object.assign(rows, { for: () => rows });
+  };
+  const mockTx = {
+    selectResults,
+    select: vi.fn(() => ({ from: () => ({ where }) })),
+    insert: vi.fn(() => ({
+      values: (values: any) => ({
+        returning: async () => (Array.isArray(values)
+          ? values.map((v, i) => ({ id: i + 1, ...v }))
+          : [{ id: 3, ...values }]),
+      }),
+    })),
+  };
+  return {
+    mockStorage: {
+      getInvoice: vi.fn(),
+      updateInvoice: vi.fn(),
+      getPaymentsByInvoice: vi.fn(),
+      getCreditNotesByInvoice: vi.fn(),
+      getCreditNote: vi.fn(),
+      updateCreditNote: vi.fn(),
+    },
+    mockLogAudit: vi.fn(),
+    mockGenerateNumber: vi.fn(),
+    mockTx,
+    mockEnqueue: vi.fn(),
+    mockQuickBooks: {
+      isBusinessConnectedToQuickBooks: vi.fn(),
+      deleteCreditMemo: vi.fn(),
+    },
+  };
+});
+
+vi.mock('../storage', () => ({ storage: mockStorage }));
+vi.mock('./auditService', () => ({ logAudit: mockLogAudit }));
+vi.mock('./stripeConnectService', () => ({ stripeConnectService: {} }));
+vi.mock('../utils/invoiceNumber', () => ({ generateCreditNoteNumber: mockGenerateNumber }));
+vi.mock('./quickbooksService', () => mockQuickBooks);
+vi.mock('./jobQueue', () => ({ enqueue: mockEnqueue }));
+vi.mock('./realtimeEventBus', () => ({ publishRealtimeEvent: vi.fn() }));
+vi.mock('../db', () => ({ db: { transaction: async (fn: any) => fn(mockTx) } }));
+
+import {
+  buildCreditNoteLines,
+  issueCreditNote,
+  voidCreditNote,
+  voidCreditNoteInQuickBooks,
+  voidInvoice,
+} from './creditNoteService';
+
+// ── Test Data ──
+
+const INVOICE = {
+  id: 44,
+  businessId: 1,
+  customerId: 10,
+  invoiceNumber: 'INV-20260301-0044',
+  total: '200.00',
+  status: 'pending',
+  dueDate: '2026-03-01',
+  amountPaid: '0',
+  creditedAmount: '0',
+  balanceDue: '200.00',
+};
+
+// ── Tests ──
+
+describe('creditNoteService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockStorage.getInvoice.mockResolvedValue(INVOICE);
+    mockStorage.getPaymentsByInvoice.mockResolvedValue([]);
+    mockStorage.getCreditNotesByInvoice.mockResolvedValue([]);
+    mockStorage.updateInvoice.mockImplementation(async (id: number, patch: any) => ({ ...INVOICE, id, ...patch }));
+    mockTx.selectResults.length = 0;
+    mockQuickBooks.isBusinessConnectedToQuickBooks.mockResolvedValue(false);
+    mockGenerateNumber.mockResolvedValue('CN-20260310-0001');
+  });
+
+  it('stores credit lines and totals as negative amounts', () => {
+    const built = buildCreditNoteLines([{ description: 'Labor', quantity: 2, unitPrice: 25 }], 4);
+    expect(built.items[0]).toEqual(expect.objectContaining({ unitPrice: '-25.00', amount: '-50.00' }));
+    expect(built).toEqual(expect.objectContaining({ amount: -50, tax: -4, total: -54 }));
+  });
+
+  it('issues a numbered credit note and reduces the invoice balance', async () => {
+    mockTx.selectResults.push([{ status: 'pending' }], []);
+    mockStorage.getCreditNotesByInvoice.mockResolvedValue([{ total: '-50.00', status: 'issued' }]);
+
+    const result = await issueCreditNote({
+      invoice: INVOICE as any,
+      lines: [{ invoiceItemId: 9, description: 'Labor', quantity: 1, unitPrice: 50 }],
+      reason: 'Goodwill',
+      actor: { userId: 2 },
+    });
+
+    expect(result.ok).toBe(true);
+    expect(result).toEqual(expect.objectContaining({
+      creditNote: expect.objectContaining({ creditNoteNumber: 'CN-20260310-0001', total: '-50.00', invoiceId: 44 }),
+      items: [expect.objectContaining({ invoiceItemId: 9, amount: '-50.00', creditNoteId: 3 })],
+    }));
+    expect(mockStorage.updateInvoice).toHaveBeenCalledWith(44, expect.objectContaining({
+      creditedAmount: '50.00', balanceDue: '150.00', status: 'pending',
+    }));
+    expect(mockLogAudit).toHaveBeenCalledWith(expect.objectContaining({ action: 'credit_note_issued', userId: 2 }));
+  });
+
+  it('refuses to credit more than the invoice has left', async () => {
+    mockTx.selectResults.push([{ status: 'pending' }], [{ total: '-180.00', status: 'issued' }]);
+
+    const result = await issueCreditNote({
+      invoice: INVOICE as any,
+      lines: [{ description: 'Refund', quantity: 1, unitPrice: 30 }],
+    });
+
+    expect(result).toEqual(expect.objectContaining({ ok: false, reason: 'exceeds_invoice' }));
+    expect(mockGenerateNumber).not.toHaveBeenCalled();
+  });
+
+  it('re-checks the invoice under the row lock', async () => {
+    // Voided by someone else after the route loaded it
+    mockTx.selectResults.push([{ status: 'void' }]);
+
+    const result = await issueCreditNote({
+      invoice: INVOICE as any,
+      lines: [{ description: 'Refund', quantity: 1, unitPrice: 30 }],
+    });
+
+    expect(result).toEqual(expect.objectContaining({ ok: false, reason: 'invoice_void' }));
+    expect(mockTx.insert).not.toHaveBeenCalled();
+  });
+
+  it('voiding a credit note restores the balance', async () => {
+    const note = { id: 3, businessId: 1, invoiceId: 44, creditNoteNumber: 'CN-1', total: '-50.00', status: 'issued' };
+    mockStorage.updateCreditNote.mockResolvedValue({ ...note, status: 'void' });
+
+    const result = await voidCreditNote({ creditNote: note as any });
+
+    expect(result.ok).toBe(true);
+    expect(mockStorage.updateCreditNote).toHaveBeenCalledWith(3, 1, expect.objectContaining({ status: 'void' }));
+    expect(mockStorage.updateInvoice).toHaveBeenCalledWith(44, expect.objectContaining({ balanceDue: '200.00' }));
+  });
+
+  it('queues a QuickBooks void when a credit note is voided', async () => {
+    const note = { id: 3, businessId: 1, invoiceId: 44, creditNoteNumber: 'CN-1', total: '-50.00', status: 'issued' };
+    mockStorage.updateCreditNote.mockResolvedValue({ ...note, status: 'void' });
+    mockQuickBooks.isBusinessConnectedToQuickBooks.mockResolvedValue(true);
+
+    await voidCreditNote({ creditNote: note as any });
+
+    expect(mockEnqueue).toHaveBeenCalledWith('void-quickbooks-credit-note', { creditNoteId: 3, businessId: 1 });
+  });
+
+  it('removes the synced CreditMemo of a voided credit note', async () => {
+    mockStorage.getCreditNote.mockResolvedValue({ id: 3, businessId: 1, status: 'void', quickbooksCreditMemoId: '77' });
+
+    await voidCreditNoteInQuickBooks(3, 1);
+
+    expect(mockQuickBooks.deleteCreditMemo).toHaveBeenCalledWith(1, '77');
+    expect(mockStorage.updateCreditNote).toHaveBeenCalledWith(3, 1, expect.objectContaining({ quickbooksCreditMemoId: null }));
+  });
+
+  it('will not void an invoice that still holds payments', async () => {
+    const result = await voidInvoice({ invoice: { ...INVOICE, amountPaid: '20.00' } as any });
+
+    expect(result).toEqual(expect.objectContaining({ ok: false, reason: 'has_payments' }));
+    expect(mockStorage.updateInvoice).not.toHaveBeenCalled();
+  });
+
+  it('voids an unpaid invoice with a zero balance and an audit entry', async () => {
+    const result = await voidInvoice({ invoice: INVOICE as any, reason: 'Duplicate', actor: { userId: 2 } });
+
+    expect(result.ok).toBe(true);
+    expect(mockStorage.updateInvoice).toHaveBeenCalledWith(44, expect.objectContaining({
+      status: 'void', voidReason: 'Duplicate', balanceDue: '0.00',
+    }));
+    expect(mockLogAudit).toHaveBeenCalledWith(expect.objectContaining({ action: 'invoice_voided', resourceId: 44 }));
+  });
+});
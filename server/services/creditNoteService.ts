@@ -0,0 +1,323 @@
+/**
+ * Credit Note Service — credit notes and invoice voiding
+ *
+ * Replaces "delete the invoice" as the way to undo billing. Both flows keep
+ * the original invoice row and its number, so the invoice sequence has no
+ * gaps and the books keep a record of what was billed and taken back:
+ *
+ *   - issueCreditNote: numbered document (CN-YYYYMMDD-XXXX) against one
+ *     invoice with negative line items. Reduces the invoice's balance via
+ *     recalculateInvoiceBalance. Cannot credit more than the invoice total
+ *     less credits already issued; the check and the insert run under a
+ *     lock on the invoice row.
+ *   - voidCreditNote: withdraws a credit note; the invoice balance goes
+ *     back up. The row and its number stay.
+ *   - voidInvoice: marks an invoice 'void' with a reason. Refused while
+ *     the invoice still holds money — refund first, then void.
+ *
+ * Every action writes an audit_logs row. Issued credit notes are pushed to
+ * QuickBooks as CreditMemos through the job queue when the business is
+ * connected; syncCreditNoteToQuickBooks is the job body and is also called
+ * directly by the manual sync route. Voiding a synced note queues
+ * voidCreditNoteInQuickBooks, which takes its CreditMemo back out.
+ */
+
+import { creditNotes, creditNoteItems, invoices, type CreditNote, type CreditNoteItem, type Invoice } from '@shared/schema';
+import { and, eq } from 'drizzle-orm';
+import { db } from '../db';
+import { storage } from '../storage';
+import { logAudit } from './auditService';
+import { recalculateInvoiceBalance, sumIssuedCredits, type BalanceUpdate } from './invoicePaymentService';
+import { generateCreditNoteNumber } from '../utils/invoiceNumber';
+import { toMoney, roundMoney } from '../utils/money';
+import { publishRealtimeEvent } from './realtimeEventBus';
+
+const LOG_PREFIX = '[CreditNotes]';
+
+const toCents = (value: number): number => Math.round(value * 100);
+
+export interface CreditNoteLineInput {
+  invoiceItemId?: number | null;
+  description: string;
+  quantity: number;
+  unitPrice: number; // Positive — the amount being credited per unit
+}
+
+/** Who did it, for the audit trail. */
+export interface AuditActor {
+  userId?: number | null;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export type IssueCreditNoteResult =
+  | { ok: true; creditNote: CreditNote; items: CreditNoteItem[]; balance: BalanceUpdate | null }
+  | { ok: false; reason: 'invoice_void' | 'no_items' | 'invalid_amount' | 'exceeds_invoice'; message: string };
+
+export type VoidResult<T> =
+  | { ok: true; record: T }
+  | { ok: false; reason: 'already_void' | 'has_payments'; message: string };
+
+// ──────────────────────────────────────────────────────────────────────
+// Pure helpers
+// ──────────────────────────────────────────────────────────────────────
+
+/**
+ * Turn positive credit lines into the stored (negative) shape and totals.
+ * Tax is passed positive as well and negated alongside the lines.
+ */
+export function buildCreditNoteLines(
+  lines: CreditNoteLineInput[],
+  tax: number = 0,
+): { items: { invoiceItemId: number | null; description: string; quantity: number; unitPrice: string; amount: string }[]; amount: number; tax: number; total: number } {
+  const items = lines.map((line) => {
+    const lineAmount = roundMoney(line.quantity * line.unitPrice);
+    return {
+      invoiceItemId: line.invoiceItemId ?? null,
+      description: line.description,
+      quantity: line.quantity,
+      unitPrice: (-roundMoney(line.unitPrice)).toFixed(2),
+      amount: (-lineAmount).toFixed(2),
+    };
+  });
+  const amount = roundMoney(items.reduce((sum, item) => sum + toMoney(item.amount), 0));
+  const negTax = -roundMoney(Math.abs(tax));
+  return { items, amount, tax: negTax, total: roundMoney(amount + negTax) };
+}
+
+// ──────────────────────────────────────────────────────────────────────
+// Credit notes
+// ──────────────────────────────────────────────────────────────────────
+
+export async function issueCreditNote(params: {
+  invoice: Invoice;
+  lines: CreditNoteLineInput[];
+  tax?: number;
+  reason?: string | null;
+  actor?: AuditActor;
+}): Promise<IssueCreditNoteResult> {
+  const { invoice, actor = {} } = params;
+  if (invoice.status === 'void') {
+    return { ok: false, reason: 'invoice_void', message: 'Cannot credit a voided invoice' };
+  }
+  if (params.lines.length === 0) {
+    return { ok: false, reason: 'no_items', message: 'A credit note needs at least one line item' };
+  }
+  if (params.lines.some((l) => !(l.unitPrice > 0) || !(l.quantity > 0))) {
+    return { ok: false, reason: 'invalid_amount', message: 'Credit amounts must be greater than zero' };
+  }
+
+  const built = buildCreditNoteLines(params.lines, params.tax ?? 0);
+
+  // Lock the invoice row so two credit notes issued at once can't both pass
+  // the "creditable" check against the same remaining amount.
+  const written = await db.transaction(async (tx) => {
+    const [locked] = await tx
+      .select({ status: invoices.status })
+      .from(invoices)
+      .where(eq(invoices.id, invoice.id))
+      .for('update');
+    if (locked?.status === 'void') {
+      return { ok: false as const, reason: 'invoice_void' as const, creditable: 0 };
+    }
+
+    const existing = await tx
+      .select()
+      .from(creditNotes)
+      .where(and(eq(creditNotes.invoiceId, invoice.id), eq(creditNotes.businessId, invoice.businessId)));
+    const creditable = roundMoney(toMoney(invoice.total) - sumIssuedCredits(existing));
+    if (toCents(Math.abs(built.total)) > toCents(creditable)) {
+      return { ok: false as const, reason: 'exceeds_invoice' as const, creditable };
+    }
+
+    const creditNoteNumber = await generateCreditNoteNumber(invoice.businessId);
+    const [creditNote] = await tx
+      .insert(creditNotes)
+      .values({
+        businessId: invoice.businessId,
+        customerId: invoice.customerId,
+        invoiceId: invoice.id,
+        creditNoteNumber,
+        amount: built.amount.toFixed(2),
+        tax: built.tax.toFixed(2),
+        total: built.total.toFixed(2),
+        reason: params.reason ?? null,
+        status: 'issued',
+        createdByUserId: actor.userId ?? null,
+      })
+      .returning();
+    const items = await tx
+      .insert(creditNoteItems)
+      .values(built.items.map((item) => ({ ...item, creditNoteId: creditNote.id })))
+      .returning();
+    return { ok: true as const, creditNote, items };
+  });
+
+  if (!written.ok) {
+    if (written.reason === 'invoice_void') {
+      return { ok: false, reason: 'invoice_void', message: 'Cannot credit a voided invoice' };
+    }
+    return {
+      ok: false,
+      reason: 'exceeds_invoice',
+      message: `At most $${written.creditable.toFixed(2)} can still be credited on this invoice`,
+    };
+  }
+  const { creditNote, items } = written;
+  const { creditNoteNumber } = creditNote;
+  publishRealtimeEvent(invoice.businessId, 'invoices');
+
+  const balance = await recalculateInvoiceBalance(invoice.id);
+
+  await logAudit({
+    userId: actor.userId ?? null,
+    businessId: invoice.businessId,
+    action: 'credit_note_issued',
+    resource: 'credit_note',
+    resourceId: creditNote.id,
+    details: { creditNoteNumber, invoiceId: invoice.id, invoiceNumber: invoice.invoiceNumber, total: creditNote.total, reason: creditNote.reason },
+    ipAddress: actor.ipAddress,
+    userAgent: actor.userAgent,
+  });
+
+  await queueQuickBooksSync(creditNote);
+
+  console.log(`${LOG_PREFIX} Issued ${creditNoteNumber} (${creditNote.total}) against invoice ${invoice.id}`);
+  return { ok: true, creditNote, items, balance };
+}
+
+export async function voidCreditNote(params: {
+  creditNote: CreditNote;
+  actor?: AuditActor;
+}): Promise<VoidResult<CreditNote>> {
+  const { creditNote, actor = {} } = params;
+  if (creditNote.status === 'void') {
+    return { ok: false, reason: 'already_void', message: 'Credit note is already void' };
+  }
+
+  const updated = await storage.updateCreditNote(creditNote.id, creditNote.businessId, {
+    status: 'void',
+    voidedAt: new Date(),
+  });
+  await recalculateInvoiceBalance(creditNote.invoiceId);
+
+  await logAudit({
+    userId: actor.userId ?? null,
+    businessId: creditNote.businessId,
+    action: 'credit_note_voided',
+    resource: 'credit_note',
+    resourceId: creditNote.id,
+    details: { creditNoteNumber: creditNote.creditNoteNumber, invoiceId: creditNote.invoiceId, total: creditNote.total },
+    ipAddress: actor.ipAddress,
+    userAgent: actor.userAgent,
+  });
+
+  await queueQuickBooksSync(creditNote, 'void-quickbooks-credit-note');
+
+  console.log(`${LOG_PREFIX} Voided ${creditNote.creditNoteNumber} on invoice ${creditNote.invoiceId}`);
+  return { ok: true, record: updated };
+}
+
+// ──────────────────────────────────────────────────────────────────────
+// Invoice voiding
+// ──────────────────────────────────────────────────────────────────────
+
+export async function voidInvoice(params: {
+  invoice: Invoice;
+  reason?: string | null;
+  actor?: AuditActor;
+}): Promise<VoidResult<Invoice>> {
+  const { invoice, actor = {} } = params;
+  if (invoice.status === 'void') {
+    return { ok: false, reason: 'already_void', message: 'Invoice is already void' };
+  }
+  if (toCents(toMoney(invoice.amountPaid)) > 0) {
+    return {
+      ok: false,
+      reason: 'has_payments',
+      message: 'Refund the payments on this invoice before voiding it',
+    };
+  }
+
+  const updated = await storage.updateInvoice(invoice.id, {
+    status: 'void',
+    voidedAt: new Date(),
+    voidReason: params.reason ?? null,
+    balanceDue: '0.00',
+  });
+
+  await logAudit({
+    userId: actor.userId ?? null,
+    businessId: invoice.businessId,
+    action: 'invoice_voided',
+    resource: 'invoice',
+    resourceId: invoice.id,
+    details: { invoiceNumber: invoice.invoiceNumber, total: invoice.total, previousStatus: invoice.status, reason: params.reason ?? null },
+    ipAddress: actor.ipAddress,
+    userAgent: actor.userAgent,
+  });
+
+  console.log(`${LOG_PREFIX} Voided invoice ${invoice.id} (${invoice.invoiceNumber})`);
+  return { ok: true, record: updated };
+}
+
+// ──────────────────────────────────────────────────────────────────────
+// QuickBooks
+// ──────────────────────────────────────────────────────────────────────
+
+async function queueQuickBooksSync(
+  creditNote: CreditNote,
+  jobType: 'sync-quickbooks-credit-note' | 'void-quickbooks-credit-note' = 'sync-quickbooks-credit-note',
+): Promise<void> {
+  try {
+    const { isBusinessConnectedToQuickBooks } = await import('./quickbooksService');
+    if (!(await isBusinessConnectedToQuickBooks(creditNote.businessId))) return;
+    const { enqueue } = await import('./jobQueue');
+    await enqueue(jobType, { creditNoteId: creditNote.id, businessId: creditNote.businessId });
+  } catch (err) {
+    // Sync can be retried by hand from the QuickBooks routes
+    console.error(`${LOG_PREFIX} Could not queue QuickBooks sync for credit note ${creditNote.id}:`, err);
+  }
+}
+
+/** Push one credit note to QuickBooks as a CreditMemo and remember its ID. */
+export async function syncCreditNoteToQuickBooks(creditNoteId: number, businessId: number): Promise<CreditNote> {
+  const creditNote = await storage.getCreditNote(creditNoteId, businessId);
+  if (!creditNote) throw new Error(`Credit note ${creditNoteId} not found`);
+  // Already pushed, or voided before the sync job ran
+  if (creditNote.quickbooksCreditMemoId || creditNote.status === 'void') return creditNote;
+
+  const [items, invoice, customer] = await Promise.all([
+    storage.getCreditNoteItems([creditNote.id]),
+    storage.getInvoice(creditNote.invoiceId),
+    storage.getCustomer(creditNote.customerId),
+  ]);
+
+  const { createCreditMemo } = await import('./quickbooksService');
+  const result = await createCreditMemo(businessId, {
+    ...creditNote,
+    items,
+    invoiceNumber: invoice?.invoiceNumber,
+    customer: customer ? { ...customer, name: `${customer.firstName} ${customer.lastName}` } : undefined,
+  });
+
+  return storage.updateCreditNote(creditNote.id, businessId, {
+    quickbooksCreditMemoId: result?.Id ? String(result.Id) : null,
+    quickbooksSyncedAt: new Date(),
+  });
+}
+
+/** Remove the CreditMemo of a voided credit note from QuickBooks. Notes that were never synced are left alone. */
+export async function voidCreditNoteInQuickBooks(creditNoteId: number, businessId: number): Promise<CreditNote> {
+  const creditNote = await storage.getCreditNote(creditNoteId, businessId);
+  if (!creditNote) throw new Error(`Credit note ${creditNoteId} not found`);
+  if (creditNote.status !== 'void' || !creditNote.quickbooksCreditMemoId) return creditNote;
+
+  const { deleteCreditMemo } = await import('./quickbooksService');
+  await deleteCreditMemo(businessId, creditNote.quickbooksCreditMemoId);
+
+  return storage.updateCreditNote(creditNote.id, businessId, {
+    quickbooksCreditMemoId: null,
+    quickbooksSyncedAt: new Date(),
+  });
+}
@@ -0,0 +1,161 @@
+/**
+ * customFieldService tests — coercing loose input per field type, merging
+ * onto stored values, CSV column matching, list/audience filters and what
+ * the receptionist is told about a caller.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { CustomFieldDefinition } from '@shared/schema';
+
+const { mockStorage } = vi.hoisted(() => ({
+  mockStorage: {
+    getCustomFieldDefinitions: vi.fn(),
+  },
+}));
+
+vi.mock('../storage', () => ({ storage: mockStorage }));
+
+import {
+  buildCustomFieldSqlFilter,
+  cleanCustomFieldValues,
+  coerceCustomFieldValue,
+  customFieldFiltersFromQuery,
+  customFieldKeyFromLabel,
+  customFieldValuesFromColumns,
+  findCustomFieldDefinition,
+  getCallerCustomFields,
+  matchesCustomFieldFilters,
+  mergeCustomFieldValues,
+  resolveCustomFieldChanges,
+} from './customFieldService';
+
+function makeDef(overrides: Partial<CustomFieldDefinition>): CustomFieldDefinition {
+  return {
+    id: 1, businessId: 5, entityType: 'customer', key: 'field', label: 'Field', fieldType: 'text',
+    options: [], askOnCalls: false, active: true, sortOrder: 0, createdAt: null, updatedAt: null,
+    ...overrides,
+  } as CustomFieldDefinition;
+}
+
+const GATE = makeDef({ id: 1, key: 'gate_code', label: 'Gate code', askOnCalls: true });
+const SQFT = makeDef({ id: 2, key: 'square_footage', label: 'Square footage', fieldType: 'number' });
+const SINCE = makeDef({ id: 3, key: 'customer_since', label: 'Customer since', fieldType: 'date' });
+const SIZE = makeDef({ id: 4, key: 'dog_size', label: 'Dog size', fieldType: 'select', options: ['Small', 'Large'], askOnCalls: true });
+const PETS = makeDef({ id: 5, key: 'has_pets', label: 'Has pets', fieldType: 'boolean' });
+const DEFS = [GATE, SQFT, SINCE, SIZE, PETS];
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockStorage.getCustomFieldDefinitions.mockResolvedValue(DEFS);
+});
+
+describe('customFieldKeyFromLabel / findCustomFieldDefinition', () => {
+  it('derives a snake_case key from the label', () => {
+    expect(customFieldKeyFromLabel("Dog's name")).toBe('dogs_name');
+    expect(customFieldKeyFromLabel('  Insurance Claim #  ')).toBe('insurance_claim');
+  });
+
+  it('finds a definition by key or label, ignoring case', () => {
+    expect(findCustomFieldDefinition(DEFS, 'GATE_CODE')).toBe(GATE);
+    expect(findCustomFieldDefinition(DEFS, 'square footage')).toBe(SQFT);
+    expect(findCustomFieldDefinition(DEFS, 'roof type')).toBeUndefined();
+  });
+});
+
+describe('coerceCustomFieldValue', () => {
+  it('treats empty input as a clear', () => {
+    expect(coerceCustomFieldValue(GATE, '  ')).toEqual({ ok: true, value: null });
+    expect(coerceCustomFieldValue(SQFT, null)).toEqual({ ok: true, value: null });
+  });
+
+  it('parses numbers with thousands separators', () => {
+    expect(coerceCustomFieldValue(SQFT, '1,850')).toEqual({ ok: true, value: 1850 });
+    expect(coerceCustomFieldValue(SQFT, 'big')).toEqual({ ok: false });
+  });
+
+  it('normalizes ISO and US dates and rejects impossible ones', () => {
+    expect(coerceCustomFieldValue(SINCE, '2025-3-4')).toEqual({ ok: true, value: '2025-03-04' });
+    expect(coerceCustomFieldValue(SINCE, '3/14/25')).toEqual({ ok: true, value: '2025-03-14' });
+    expect(coerceCustomFieldValue(SINCE, '2/30/2025')).toEqual({ ok: false });
+  });
+
+  it('matches select options case-insensitively and keeps the option spelling', () => {
+    expect(coerceCustomFieldValue(SIZE, 'large')).toEqual({ ok: true, value: 'Large' });
+    expect(coerceCustomFieldValue(SIZE, 'Medium')).toEqual({ ok: false });
+  });
+
+  it('reads yes/no words as booleans', () => {
+    expect(coerceCustomFieldValue(PETS, 'Yes')).toEqual({ ok: true, value: true });
+    expect(coerceCustomFieldValue(PETS, '0')).toEqual({ ok: true, value: false });
+    expect(coerceCustomFieldValue(PETS, 'maybe')).toEqual({ ok: false });
+  });
+});
+
+describe('cleanCustomFieldValues / mergeCustomFieldValues', () => {
+  it('drops unknown keys and reports invalid values by label', () => {
+    const { values, invalid } = cleanCustomFieldValues(DEFS, { gate_code: ' 4411 ', square_footage: 'lots', other: 'x' });
+    expect(values).toEqual({ gate_code: '4411' });
+    expect(invalid).toEqual(['Square footage']);
+  });
+
+  it('merges changes and removes cleared keys', () => {
+    expect(mergeCustomFieldValues({ gate_code: '1', has_pets: true }, { gate_code: null, square_footage: 900 }))
+      .toEqual({ has_pets: true, square_footage: 900 });
+  });
+});
+
+describe('customFieldValuesFromColumns', () => {
+  it('matches CSV headers by label or key and skips blanks', () => {
+    expect(customFieldValuesFromColumns(DEFS, { 'Gate Code': '12', dog_size: 'small', 'Has pets': '', Notes: 'n' }))
+      .toEqual({ gate_code: '12', dog_size: 'small' });
+  });
+});
+
+describe('filters', () => {
+  it('reads cf_ query params', () => {
+    expect(customFieldFiltersFromQuery({ cf_gate_code: '44', search: 'x', cf_dog_size: '' }))
+      .toEqual({ gate_code: '44' });
+  });
+
+  it('matches text by contains and other types by value', () => {
+    const values = { gate_code: 'A-4411', square_footage: 1850, has_pets: true };
+    expect(matchesCustomFieldFilters(DEFS, values, { gate_code: '441' })).toBe(true);
+    expect(matchesCustomFieldFilters(DEFS, values, { square_footage: '1,850', has_pets: 'yes' })).toBe(true);
+    expect(matchesCustomFieldFilters(DEFS, values, { has_pets: 'no' })).toBe(false);
+    expect(matchesCustomFieldFilters(DEFS, values, { dog_size: 'Small' })).toBe(false);
+    expect(matchesCustomFieldFilters(DEFS, values, { unknown: 'x' })).toBe(false);
+  });
+
+  it('builds parameterized SQL conditions', () => {
+    const params: unknown[] = ['biz'];
+    const sql = buildCustomFieldSqlFilter(DEFS, { gate_code: '50%', square_footage: '900' }, params, 'c.custom_fields');
+    expect(sql).toBe(' AND c.custom_fields->>$2 ILIKE $3 AND c.custom_fields @> $4::jsonb');
+    expect(params).toEqual(['biz', 'gate_code', '%50\\%%', '{"square_footage":900}']);
+  });
+
+  it('matches nothing for unknown fields or values that do not fit', () => {
+    const params: unknown[] = [];
+    expect(buildCustomFieldSqlFilter(DEFS, { nope: 'x', has_pets: 'maybe' }, params, 'c.custom_fields'))
+      .toBe(' AND false AND false');
+    expect(params).toEqual([]);
+  });
+});
+
+describe('resolveCustomFieldChanges', () => {
+  it('validates against active definitions and merges onto stored values', async () => {
+    const result = await resolveCustomFieldChanges(5, 'customer', { gate_code: '1', legacy: 'kept' }, { gate_code: '2', has_pets: 'y' });
+    expect(mockStorage.getCustomFieldDefinitions).toHaveBeenCalledWith(5, { entityType: 'customer', activeOnly: true });
+    expect(result).toEqual({ ok: true, customFields: { gate_code: '2', legacy: 'kept', has_pets: true } });
+  });
+
+  it('returns the labels of invalid values', async () => {
+    const result = await resolveCustomFieldChanges(5, 'customer', {}, { dog_size: 'Huge' });
+    expect(result).toEqual({ ok: false, invalid: ['Dog size'] });
+  });
+});
+
+describe('getCallerCustomFields', () => {
+  it('returns known values by label and missing ask-on-calls fields', async () => {
+    const result = await getCallerCustomFields(5, { gate_code: '4411', has_pets: false });
+    expect(result).toEqual({ known: { 'Gate code': '4411', 'Has pets': 'No' }, missing: ['Dog size'] });
+  });
+});
@@ -0,0 +1,286 @@
+/**
+ * Custom Field Service — owner-defined extra fields on customers, jobs and
+ * appointments ("Gate code", "Dog's name", "Square footage", "Claim #")
+ *
+ * Definitions live in custom_field_definitions; values live in each record's
+ * custom_fields JSON column keyed by the definition's key. Values arrive from
+ * the app, CSV imports and the AI receptionist, so everything here accepts
+ * loose input ("yes", "1,850", "3/14/2025") and stores one canonical shape
+ * per type:
+ *
+ *   text / select → string (select uses the option's own spelling)
+ *   number        → number
+ *   date          → "YYYY-MM-DD"
+ *   boolean       → boolean
+ *
+ * Removing a definition leaves its values on the records; they're just no
+ * longer shown, exported or filterable.
+ */
+
+import type { CustomFieldDefinition, CustomFieldValue } from "@shared/schema";
+import { storage } from "../storage";
+
+export const CUSTOM_FIELD_ENTITY_TYPES = ["customer", "job", "appointment"] as const;
+export const CUSTOM_FIELD_TYPES = ["text", "number", "date", "select", "boolean"] as const;
+
+export type CustomFieldEntityType = typeof CUSTOM_FIELD_ENTITY_TYPES[number];
+export type CustomFieldValues = Record<string, CustomFieldValue>;
+
+/** Query parameters on list endpoints that filter by a custom field: ?cf_gate_code=1234 */
+export const CUSTOM_FIELD_QUERY_PREFIX = "cf_";
+
+const MAX_TEXT_LENGTH = 500;
+
+type FieldDefinition = Pick<CustomFieldDefinition, "key" | "label" | "fieldType" | "options">;
+
+export type CustomFieldChangeResult =
+  | { ok: true; customFields: CustomFieldValues }
+  | { ok: false; invalid: string[] };
+
+/** "Dog's name" → "dogs_name" */
+export function customFieldKeyFromLabel(label: string): string {
+  return label
+    .toLowerCase()
+    .replace(/['’]/g, "")
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .slice(0, 60);
+}
+
+/** Matches a definition by key or label, ignoring case */
+export function findCustomFieldDefinition<T extends FieldDefinition>(definitions: T[], name: string): T | undefined {
+  const wanted = name.trim().toLowerCase();
+  if (!wanted) return undefined;
+  return definitions.find(def => def.key.toLowerCase() === wanted)
+    ?? definitions.find(def => def.label.trim().toLowerCase() === wanted);
+}
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+function parseDate(raw: string): string | null {
+  const iso = raw.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (iso) return toIsoDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+  const us = raw.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/);
+  if (us) {
+    const year = us[3].length === 2 ? 2000 + Number(us[3]) : Number(us[3]);
+    return toIsoDate(year, Number(us[1]), Number(us[2]));
+  }
+  return null;
+}
+
+/**
+ * Coerces one raw value to the field's stored shape. Empty input (null,
+ * undefined, "") comes back as null, meaning "clear this field".
+ */
+export function coerceCustomFieldValue(
+  def: FieldDefinition,
+  raw: unknown,
+): { ok: true; value: CustomFieldValue | null } | { ok: false } {
+  if (raw === null || raw === undefined) return { ok: true, value: null };
+  if (typeof raw === "string" && raw.trim() === "") return { ok: true, value: null };
+
+  switch (def.fieldType) {
+    case "text": {
+      if (typeof raw !== "string" && typeof raw !== "number") return { ok: false };
+      const text = String(raw).trim();
+      return text.length <= MAX_TEXT_LENGTH ? { ok: true, value: text } : { ok: false };
+    }
+    case "number": {
+      const num = typeof raw === "number" ? raw : typeof raw === "string" ? Number(raw.trim().replace(/,/g, "")) : NaN;
+      return Number.isFinite(num) ? { ok: true, value: num } : { ok: false };
+    }
+    case "date": {
+      if (typeof raw !== "string") return { ok: false };
+      const date = parseDate(raw.trim());
+      return date ? { ok: true, value: date } : { ok: false };
+    }
+    case "select": {
+      if (typeof raw !== "string") return { ok: false };
+      const wanted = raw.trim().toLowerCase();
+      const option = (def.options || []).find(opt => opt.toLowerCase() === wanted);
+      return option ? { ok: true, value: option } : { ok: false };
+    }
+    case "boolean": {
+      if (typeof raw === "boolean") return { ok: true, value: raw };
+      const word = String(raw).trim().toLowerCase();
+      if (["yes", "y", "true", "1"].includes(word)) return { ok: true, value: true };
+      if (["no", "n", "false", "0"].includes(word)) return { ok: true, value: false };
+      return { ok: false };
+    }
+    default:
+      return { ok: false };
+  }
+}
+
+/**
+ * Coerces submitted values keyed by field key. Keys without a definition are
+ * dropped; values that don't fit their type are reported by label. A null in
+ * the result clears that field.
+ */
+export function cleanCustomFieldValues(
+  definitions: FieldDefinition[],
+  input: Record<string, unknown>,
+): { values: Record<string, CustomFieldValue | null>; invalid: string[] } {
+  const values: Record<string, CustomFieldValue | null> = {};
+  const invalid: string[] = [];
+  for (const def of definitions) {
+    if (!(def.key in input)) continue;
+    const coerced = coerceCustomFieldValue(def, input[def.key]);
+    if (coerced.ok) values[def.key] = coerced.value;
+    else invalid.push(def.label);
+  }
+  return { values, invalid };
+}
+
+/** Applies cleaned changes on top of a record's stored values */
+export function mergeCustomFieldValues(
+  existing: CustomFieldValues | null | undefined,
+  changes: Record<string, CustomFieldValue | null>,
+): CustomFieldValues {
+  const merged: CustomFieldValues = { ...(existing || {}) };
+  for (const [key, value] of Object.entries(changes)) {
+    if (value === null) delete merged[key];
+    else merged[key] = value;
+  }
+  return merged;
+}
+
+/**
+ * Picks custom field columns out of an imported CSV row, matching headers to
+ * a field's key or label. Returns raw values keyed by field key, ready for
+ * cleanCustomFieldValues.
+ */
+export function customFieldValuesFromColumns(
+  definitions: FieldDefinition[],
+  row: Record<string, unknown>,
+): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+  for (const [column, value] of Object.entries(row)) {
+    const def = findCustomFieldDefinition(definitions, column);
+    if (def && value !== undefined && value !== null && String(value).trim() !== "") {
+      values[def.key] = value;
+    }
+  }
+  return values;
+}
+
+/** Display text for exports, the AI receptionist and briefings */
+export function formatCustomFieldValue(def: FieldDefinition, value: CustomFieldValue | null | undefined): string {
+  if (value === null || value === undefined) return "";
+  if (def.fieldType === "boolean") return value ? "Yes" : "No";
+  return String(value);
+}
+
+/** Pulls ?cf_<key>=value pairs off a request query */
+export function customFieldFiltersFromQuery(query: Record<string, unknown>): Record<string, string> {
+  const filters: Record<string, string> = {};
+  for (const [param, value] of Object.entries(query)) {
+    if (!param.startsWith(CUSTOM_FIELD_QUERY_PREFIX) || typeof value !== "string" || value.trim() === "") continue;
+    filters[param.slice(CUSTOM_FIELD_QUERY_PREFIX.length)] = value;
+  }
+  return filters;
+}
+
+/**
+ * In-memory filter: text fields match on "contains", everything else on the
+ * coerced value. A filter on an unknown field or with a value that doesn't fit
+ * the field's type matches nothing.
+ */
+export function matchesCustomFieldFilters(
+  definitions: FieldDefinition[],
+  values: CustomFieldValues | null | undefined,
+  filters: Record<string, string>,
+): boolean {
+  for (const [key, raw] of Object.entries(filters)) {
+    if (raw.trim() === "") continue;
+    const def = definitions.find(d => d.key === key);
+    if (!def) return false;
+    const stored = values?.[key];
+    if (stored === undefined || stored === null) return false;
+    if (def.fieldType === "text") {
+      if (!String(stored).toLowerCase().includes(raw.trim().toLowerCase())) return false;
+      continue;
+    }
+    const wanted = coerceCustomFieldValue(def, raw);
+    if (!wanted.ok || wanted.value !== stored) return false;
+  }
+  return true;
+}
+
+/**
+ * SQL version of matchesCustomFieldFilters for list queries. Appends its
+ * parameters to `params` and returns " AND ..." conditions against `column`
+ * (e.g. "c.custom_fields"). Text matches with ILIKE; other types use JSON
+ * containment so numbers and booleans compare by value.
+ */
+export function buildCustomFieldSqlFilter(
+  definitions: FieldDefinition[],
+  filters: Record<string, string>,
+  params: unknown[],
+  column: string,
+): string {
+  let sql = "";
+  for (const [key, raw] of Object.entries(filters)) {
+    if (raw.trim() === "") continue;
+    const def = definitions.find(d => d.key === key);
+    const wanted = def && def.fieldType !== "text" ? coerceCustomFieldValue(def, raw) : null;
+    if (!def || (wanted && (!wanted.ok || wanted.value === null))) {
+      sql += ` AND false`;
+      continue;
+    }
+    if (def.fieldType === "text") {
+      params.push(key);
+      const keyIdx = params.length;
+      params.push(`%${raw.trim().replace(/[\\%_]/g, char => `\\${char}`)}%`);
+      sql += ` AND ${column}->>$${keyIdx} ILIKE $${params.length}`;
+    } else if (wanted?.ok) {
+      params.push(JSON.stringify({ [key]: wanted.value }));
+      sql += ` AND ${column} @> $${params.length}::jsonb`;
+    }
+  }
+  return sql;
+}
+
+/**
+ * Validates a record's submitted customFields against the business's active
+ * definitions and merges them onto what's stored. Values for fields that are
+ * no longer defined are kept as they were.
+ */
+export async function resolveCustomFieldChanges(
+  businessId: number,
+  entityType: CustomFieldEntityType,
+  existing: CustomFieldValues | null | undefined,
+  input: Record<string, unknown>,
+): Promise<CustomFieldChangeResult> {
+  const definitions = await storage.getCustomFieldDefinitions(businessId, { entityType, activeOnly: true });
+  const { values, invalid } = cleanCustomFieldValues(definitions, input);
+  if (invalid.length > 0) {
+    return { ok: false, invalid };
+  }
+  return { ok: true, customFields: mergeCustomFieldValues(existing, values) };
+}
+
+/**
+ * What the receptionist knows about a caller's custom fields: filled values by
+ * label, and the ask-on-calls fields still missing.
+ */
+export async function getCallerCustomFields(
+  businessId: number,
+  values: CustomFieldValues | null | undefined,
+): Promise<{ known: Record<string, string>; missing: string[] }> {
+  const definitions = await storage.getCustomFieldDefinitions(businessId, { entityType: "customer", activeOnly: true });
+  const known: Record<string, string> = {};
+  const missing: string[] = [];
+  for (const def of definitions) {
+    const value = values?.[def.key];
+    if (value !== undefined && value !== null) known[def.label] = formatCustomFieldValue(def, value);
+    else if (def.askOnCalls) missing.push(def.label);
+  }
+  return { known, missing };
+}
@@ -51,6 +51,7 @@ import {
 } from '@shared/schema';
 import { and, eq, inArray } from 'drizzle-orm';
 import { logAudit } from './auditService';
+import { publishRealtimeEvent } from './realtimeEventBus';
 
 export interface EraseResult {
   ok: boolean;
@@ -224,6 +225,11 @@ export async function eraseCustomer(
     return { ok: false, reason: 'database_error', message: 'Erasure failed — no data was modified. Please retry.' };
   }
 
+  // Scrubbed notes on open dashboards should refresh too
+  for (const topic of ['appointments', 'jobs', 'invoices', 'call_logs', 'sms_inbox'] as const) {
+    publishRealtimeEvent(businessId, topic);
+  }
+
   // ── 4. Best-effort post-commit cleanup (failures logged, never undo the erase) ──
   let mem0Deleted = false;
   try {
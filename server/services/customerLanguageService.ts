@@ -0,0 +1,45 @@
+/**
+ * Customer Language Service
+ *
+ * Remembers the language each customer last called or texted in, stored as
+ * `customers.preferredLanguage`. messageIntelligenceService writes follow-up
+ * SMS in it, and the Retell inbound webhook tells the receptionist to open in
+ * it on the customer's next call.
+ *
+ * Detection is a cheap word-list heuristic (shared/languages.ts) — short or
+ * mixed messages ("OK", "YES") leave the stored language alone.
+ */
+
+import { storage } from '../storage';
+import type { Customer } from '@shared/schema';
+import { detectLanguage, type LanguageCode } from '@shared/languages';
+
+// Retell and Vapi transcripts prefix each turn with the speaker
+const CALLER_TURN = /^\s*(?:user|customer|caller)\s*:\s*(.*)$/i;
+
+/** The caller's side of a call transcript, one line per turn */
+export function extractCallerSpeech(transcript: string | null | undefined): string {
+  if (!transcript) return '';
+  return transcript
+    .split('\n')
+    .map((line) => line.match(CALLER_TURN)?.[1] ?? '')
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Detects the language of something the customer said or wrote and stores it
+ * when it differs from what we had. Returns the detected language, or null
+ * when the text was inconclusive.
+ */
+export async function rememberCustomerLanguage(
+  customer: Pick<Customer, 'id' | 'preferredLanguage'>,
+  text: string,
+): Promise<LanguageCode | null> {
+  const language = detectLanguage(text);
+  if (!language || language === customer.preferredLanguage) return language;
+
+  await storage.updateCustomer(customer.id, { preferredLanguage: language });
+  console.log(`[CustomerLanguage] Customer ${customer.id} preferred language → ${language}`);
+  return language;
+}
@@ -0,0 +1,208 @@
+/**
+ * Customer portal tests — contact parsing, one-time code sign-in, link
+ * expiry and session resolution.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Business, Customer, CustomerPortalCode, CustomerPortalSession } from '@shared/schema';
+
+vi.mock('../storage', () => ({
+  normalizePhone: (phone: string) => phone.replace(/\D/g, '').replace(/^1(\d{10})$/, '$1'),
+  storage: {
+    getCustomer: vi.fn(),
+    getCustomerByEmail: vi.fn(),
+    getCustomerByPhone: vi.fn(),
+    countCustomerPortalCodesSince: vi.fn(),
+    createCustomerPortalCode: vi.fn(),
+    getActiveCustomerPortalCode: vi.fn(),
+    getCustomerPortalCodeByLinkToken: vi.fn(),
+    claimCustomerPortalCodeAttempt: vi.fn(),
+    consumeCustomerPortalCode: vi.fn(),
+    createCustomerPortalSession: vi.fn(),
+    getCustomerPortalSessionByTokenHash: vi.fn(),
+    updateCustomerPortalSession: vi.fn(),
+  },
+}));
+
+vi.mock('./notificationService', () => ({
+  sendCustomerPortalCode: vi.fn().mockResolvedValue(undefined),
+}));
+
+import { storage } from '../storage';
+import {
+  hashPortalSecret,
+  parsePortalContact,
+  requestPortalCode,
+  resolvePortalSession,
+  verifyPortalCode,
+  verifyPortalLink,
+  PORTAL_CODE_MAX_ATTEMPTS,
+} from './customerPortalService';
+
+const business = { id: 10, name: 'Acme Plumbing', bookingSlug: 'acme', bookingEnabled: true } as Business;
+const customer = { id: 7, businessId: 10, firstName: 'Sam', phone: '5551234567', email: 'sam@example.com', deletedAt: null } as Customer;
+
+function code(overrides: Partial<CustomerPortalCode> = {}): CustomerPortalCode {
+  return {
+    id: 1,
+    businessId: 10,
+    customerId: 7,
+    channel: 'sms',
+    codeHash: hashPortalSecret('123456'),
+    linkTokenHash: hashPortalSecret('link-token-abcdefgh'),
+    attempts: 0,
+    expiresAt: new Date(Date.now() + 10 * 60 * 1000),
+    consumedAt: null,
+    createdAt: new Date(),
+    ...overrides,
+  };
+}
+
+function session(overrides: Partial<CustomerPortalSession> = {}): CustomerPortalSession {
+  return {
+    id: 3,
+    businessId: 10,
+    customerId: 7,
+    tokenHash: hashPortalSecret('session-token'),
+    expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+    lastSeenAt: new Date(),
+    revokedAt: null,
+    createdAt: new Date(),
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(storage.createCustomerPortalSession).mockImplementation(async (data) => session(data as Partial<CustomerPortalSession>));
+  vi.mocked(storage.claimCustomerPortalCodeAttempt).mockResolvedValue(true);
+  vi.mocked(storage.consumeCustomerPortalCode).mockResolvedValue(true);
+  vi.mocked(storage.updateCustomerPortalSession).mockResolvedValue(session());
+});
+
+describe('parsePortalContact', () => {
+  it('treats anything with an @ as email and lowercases it', () => {
+    expect(parsePortalContact('  Sam@Example.com ')).toEqual({ channel: 'email', value: 'sam@example.com' });
+  });
+
+  it('accepts a phone number with at least ten digits', () => {
+    expect(parsePortalContact('(555) 123-4567')).toEqual({ channel: 'sms', value: '(555) 123-4567' });
+  });
+
+  it('rejects malformed email and short numbers', () => {
+    expect(parsePortalContact('sam@')).toBeNull();
+    expect(parsePortalContact('555-1234')).toBeNull();
+  });
+});
+
+describe('requestPortalCode', () => {
+  it('stores only hashes and sends nothing for an unknown contact', async () => {
+    vi.mocked(storage.getCustomerByPhone).mockResolvedValue(undefined);
+    expect(await requestPortalCode(business, '5559999999', 'https://app.test')).toBe(false);
+    expect(storage.createCustomerPortalCode).not.toHaveBeenCalled();
+  });
+
+  it('creates a hashed code for a known customer', async () => {
+    vi.mocked(storage.getCustomerByPhone).mockResolvedValue(customer);
+    vi.mocked(storage.countCustomerPortalCodesSince).mockResolvedValue(0);
+    vi.mocked(storage.createCustomerPortalCode).mockResolvedValue(code());
+
+    expect(await requestPortalCode(business, '555-123-4567', 'https://app.test')).toBe(true);
+    const stored = vi.mocked(storage.createCustomerPortalCode).mock.calls[0][0];
+    expect(stored).toMatchObject({ businessId: 10, customerId: 7, channel: 'sms', attempts: 0 });
+    expect(stored.codeHash).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('stops sending once the hourly cap is reached', async () => {
+    vi.mocked(storage.getCustomerByEmail).mockResolvedValue(customer);
+    vi.mocked(storage.countCustomerPortalCodesSince).mockResolvedValue(5);
+    expect(await requestPortalCode(business, 'sam@example.com', 'https://app.test')).toBe(false);
+    expect(storage.createCustomerPortalCode).not.toHaveBeenCalled();
+  });
+});
+
+describe('verifyPortalCode', () => {
+  beforeEach(() => {
+    vi.mocked(storage.getCustomerByPhone).mockResolvedValue(customer);
+  });
+
+  it('signs in with the right code and burns it', async () => {
+    vi.mocked(storage.getActiveCustomerPortalCode).mockResolvedValue(code());
+    const result = await verifyPortalCode(business, '5551234567', ' 123456 ');
+
+    expect(result.ok).toBe(true);
+    expect(storage.consumeCustomerPortalCode).toHaveBeenCalledWith(1);
+    if (result.ok) {
+      expect(storage.createCustomerPortalSession).toHaveBeenCalledWith(
+        expect.objectContaining({ businessId: 10, customerId: 7, tokenHash: hashPortalSecret(result.token) })
+      );
+    }
+  });
+
+  it('counts a wrong guess against the code', async () => {
+    vi.mocked(storage.getActiveCustomerPortalCode).mockResolvedValue(code({ attempts: 2 }));
+    const result = await verifyPortalCode(business, '5551234567', '000000');
+
+    expect(result.ok).toBe(false);
+    expect(storage.claimCustomerPortalCodeAttempt).toHaveBeenCalledWith(1, PORTAL_CODE_MAX_ATTEMPTS);
+    expect(storage.consumeCustomerPortalCode).not.toHaveBeenCalled();
+    expect(storage.createCustomerPortalSession).not.toHaveBeenCalled();
+  });
+
+  it('refuses even the right code once attempts are used up', async () => {
+    vi.mocked(storage.getActiveCustomerPortalCode).mockResolvedValue(code({ attempts: PORTAL_CODE_MAX_ATTEMPTS }));
+    vi.mocked(storage.claimCustomerPortalCodeAttempt).mockResolvedValue(false);
+    const result = await verifyPortalCode(business, '5551234567', '123456');
+    expect(result.ok).toBe(false);
+    expect(storage.createCustomerPortalSession).not.toHaveBeenCalled();
+  });
+
+  it('starts one session when the same code is sent twice at once', async () => {
+    vi.mocked(storage.getActiveCustomerPortalCode).mockResolvedValue(code());
+    vi.mocked(storage.consumeCustomerPortalCode).mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+
+    const results = await Promise.all([
+      verifyPortalCode(business, '5551234567', '123456'),
+      verifyPortalCode(business, '5551234567', '123456'),
+    ]);
+    expect(results.filter(r => r.ok)).toHaveLength(1);
+    expect(storage.createCustomerPortalSession).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('verifyPortalLink', () => {
+  beforeEach(() => {
+    vi.mocked(storage.getCustomer).mockResolvedValue(customer);
+  });
+
+  it('signs in with a live link', async () => {
+    vi.mocked(storage.getCustomerPortalCodeByLinkToken).mockResolvedValue(code());
+    expect((await verifyPortalLink(business, 'link-token-abcdefgh')).ok).toBe(true);
+  });
+
+  it('rejects expired, used and other-business links', async () => {
+    for (const stale of [
+      code({ expiresAt: new Date(Date.now() - 1000) }),
+      code({ consumedAt: new Date() }),
+      code({ businessId: 99 }),
+    ]) {
+      vi.mocked(storage.getCustomerPortalCodeByLinkToken).mockResolvedValue(stale);
+      expect((await verifyPortalLink(business, 'link-token-abcdefgh')).ok).toBe(false);
+    }
+    expect(storage.createCustomerPortalSession).not.toHaveBeenCalled();
+  });
+});
+
+describe('resolvePortalSession', () => {
+  it('returns live sessions and drops revoked or expired ones', async () => {
+    vi.mocked(storage.getCustomerPortalSessionByTokenHash).mockResolvedValue(session());
+    expect(await resolvePortalSession('session-token')).toMatchObject({ id: 3 });
+
+    vi.mocked(storage.getCustomerPortalSessionByTokenHash).mockResolvedValue(session({ revokedAt: new Date() }));
+    expect(await resolvePortalSession('session-token')).toBeUndefined();
+
+    vi.mocked(storage.getCustomerPortalSessionByTokenHash).mockResolvedValue(session({ expiresAt: new Date(Date.now() - 1000) }));
+    expect(await resolvePortalSession('session-token')).toBeUndefined();
+
+    expect(await resolvePortalSession('')).toBeUndefined();
+  });
+});
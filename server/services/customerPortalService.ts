@@ -0,0 +1,285 @@
+/**
+ * Customer Portal Service — passwordless sign-in and the account view
+ *
+ * Customers sign in to one business's portal with a six-digit code sent to
+ * the phone or email on their customer record. The same message carries a
+ * tap-to-sign-in link backed by a second, longer secret. Both are stored
+ * hashed and burn on first use.
+ *
+ *   1. requestPortalCode — looks the contact up; if it matches a customer,
+ *      sends a code. Callers answer the same either way so the endpoint
+ *      can't be used to discover who is a customer.
+ *   2. verifyPortalCode / verifyPortalLink — trade a code or link for a
+ *      bearer session token (30 days). A code allows five guesses.
+ *   3. resolvePortalSession — every account request resolves its token to
+ *      (businessId, customerId); nothing in the portal crosses businesses.
+ */
+
+import { createHash, randomBytes, randomInt, timingSafeEqual } from "crypto";
+import type { Business, Customer, CustomerPortalSession } from "@shared/schema";
+import { normalizePhone, storage } from "../storage";
+import { logAndSwallow } from "../utils/safeAsync";
+
+const LOG_PREFIX = "[CustomerPortal]";
+
+export const PORTAL_CODE_TTL_MINUTES = 15;
+export const PORTAL_CODE_MAX_ATTEMPTS = 5;
+export const PORTAL_SESSION_DAYS = 30;
+// Per-customer cap on codes sent, on top of the per-IP route limiter
+const PORTAL_CODES_PER_HOUR = 5;
+// lastSeenAt is only rewritten when older than this, so reads stay reads
+const SESSION_TOUCH_MS = 5 * 60 * 1000;
+
+export type PortalChannel = "sms" | "email";
+
+export type PortalSignInResult =
+  | { ok: true; token: string; session: CustomerPortalSession; customer: Customer }
+  | { ok: false; message: string };
+
+export function hashPortalSecret(secret: string): string {
+  return createHash("sha256").update(secret).digest("hex");
+}
+
+function sameHash(a: string, b: string): boolean {
+  const left = Buffer.from(a, "hex");
+  const right = Buffer.from(b, "hex");
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+/** Email if it has an @, otherwise a phone number with at least 10 digits */
+export function parsePortalContact(contact: string): { channel: PortalChannel; value: string } | null {
+  const trimmed = contact.trim();
+  if (trimmed.includes("@")) {
+    return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(trimmed) ? { channel: "email", value: trimmed.toLowerCase() } : null;
+  }
+  return normalizePhone(trimmed).length >= 10 ? { channel: "sms", value: trimmed } : null;
+}
+
+async function findPortalCustomer(businessId: number, contact: { channel: PortalChannel; value: string }) {
+  const customer = contact.channel === "email"
+    ? await storage.getCustomerByEmail(contact.value, businessId)
+    : await storage.getCustomerByPhone(contact.value, businessId);
+  return customer && !customer.deletedAt ? customer : undefined;
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Sign-in
+// ────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Sends a sign-in code when the contact matches a customer. Returns whether
+ * one was sent — for logs and tests only, never for the HTTP response.
+ */
+export async function requestPortalCode(business: Business, contact: string, baseUrl: string): Promise<boolean> {
+  const parsed = parsePortalContact(contact);
+  if (!parsed) return false;
+
+  const customer = await findPortalCustomer(business.id, parsed);
+  if (!customer) return false;
+
+  const since = new Date(Date.now() - 60 * 60 * 1000);
+  if (await storage.countCustomerPortalCodesSince(customer.id, since) >= PORTAL_CODES_PER_HOUR) {
+    console.warn(`${LOG_PREFIX} Code limit reached for customer ${customer.id}`);
+    return false;
+  }
+
+  const code = randomInt(100000, 1000000).toString();
+  const linkToken = randomBytes(24).toString("base64url");
+  await storage.createCustomerPortalCode({
+    businessId: business.id,
+    customerId: customer.id,
+    channel: parsed.channel,
+    codeHash: hashPortalSecret(code),
+    linkTokenHash: hashPortalSecret(linkToken),
+    attempts: 0,
+    expiresAt: new Date(Date.now() + PORTAL_CODE_TTL_MINUTES * 60 * 1000),
+  });
+
+  const signInUrl = `${baseUrl}/portal/account/${business.bookingSlug}?link=${linkToken}`;
+  import("./notificationService").then(ns => {
+    ns.sendCustomerPortalCode(customer, business, parsed.channel, code, signInUrl, PORTAL_CODE_TTL_MINUTES)
+      .catch(logAndSwallow("CustomerPortal"));
+  }).catch(logAndSwallow("CustomerPortal"));
+  return true;
+}
+
+async function startPortalSession(businessId: number, customer: Customer): Promise<PortalSignInResult> {
+  const token = randomBytes(32).toString("base64url");
+  const session = await storage.createCustomerPortalSession({
+    businessId,
+    customerId: customer.id,
+    tokenHash: hashPortalSecret(token),
+    expiresAt: new Date(Date.now() + PORTAL_SESSION_DAYS * 24 * 60 * 60 * 1000),
+    lastSeenAt: new Date(),
+  });
+  console.log(`${LOG_PREFIX} Customer ${customer.id} signed in to business ${businessId}`);
+  return { ok: true, token, session, customer };
+}
+
+const INVALID_CODE = "That code is incorrect or has expired. Request a new one.";
+
+export async function verifyPortalCode(business: Business, contact: string, code: string): Promise<PortalSignInResult> {
+  const parsed = parsePortalContact(contact);
+  const customer = parsed ? await findPortalCustomer(business.id, parsed) : undefined;
+  if (!customer) return { ok: false, message: INVALID_CODE };
+
+  const active = await storage.getActiveCustomerPortalCode(customer.id, business.id);
+  if (!active) return { ok: false, message: INVALID_CODE };
+
+  // Every guess is counted before it is compared, so parallel requests can't
+  // get more than PORTAL_CODE_MAX_ATTEMPTS tries at one code
+  if (!await storage.claimCustomerPortalCodeAttempt(active.id, PORTAL_CODE_MAX_ATTEMPTS)) {
+    return { ok: false, message: INVALID_CODE };
+  }
+  if (!sameHash(active.codeHash, hashPortalSecret(code.trim()))) return { ok: false, message: INVALID_CODE };
+
+  if (!await storage.consumeCustomerPortalCode(active.id)) return { ok: false, message: INVALID_CODE };
+  return startPortalSession(business.id, customer);
+}
+
+export async function verifyPortalLink(business: Business, linkToken: string): Promise<PortalSignInResult> {
+  const expired = { ok: false as const, message: "That sign-in link has expired. Request a new code." };
+  const code = await storage.getCustomerPortalCodeByLinkToken(hashPortalSecret(linkToken));
+  if (!code || code.businessId !== business.id || code.consumedAt || code.expiresAt <= new Date()) return expired;
+
+  const customer = await storage.getCustomer(code.customerId);
+  if (!customer || customer.deletedAt || customer.businessId !== business.id) return expired;
+
+  if (!await storage.consumeCustomerPortalCode(code.id)) return expired;
+  return startPortalSession(business.id, customer);
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Sessions
+// ────────────────────────────────────────────────────────────────────────────
+
+/** The live session for a bearer token, or undefined when signed out/expired */
+export async function resolvePortalSession(token: string): Promise<CustomerPortalSession | undefined> {
+  if (!token) return undefined;
+  const session = await storage.getCustomerPortalSessionByTokenHash(hashPortalSecret(token));
+  if (!session || session.revokedAt || session.expiresAt <= new Date()) return undefined;
+
+  if (!session.lastSeenAt || Date.now() - session.lastSeenAt.getTime() > SESSION_TOUCH_MS) {
+    storage.updateCustomerPortalSession(session.id, { lastSeenAt: new Date() }).catch(logAndSwallow("CustomerPortal"));
+  }
+  return session;
+}
+
+export async function revokePortalSession(session: CustomerPortalSession): Promise<void> {
+  await storage.updateCustomerPortalSession(session.id, { revokedAt: new Date() });
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Account view
+// ────────────────────────────────────────────────────────────────────────────
+
+const APPOINTMENT_HISTORY_LIMIT = 50;
+
+/** Everything the signed-in customer sees, scoped to the session's business */
+export async function buildPortalAccount(business: Business, customer: Customer) {
+  const [appointments, services, staff, quotes, invoices, memberships, plans, equipment] = await Promise.all([
+    storage.getAppointmentsByCustomerId(customer.id, APPOINTMENT_HISTORY_LIMIT),
+    storage.getServices(business.id),
+    storage.getStaff(business.id),
+    storage.getAllQuotes(business.id, { customerId: customer.id }),
+    storage.getInvoices(business.id, { customerId: customer.id }),
+    storage.getMembershipsByCustomer(customer.id, business.id),
+    storage.getMembershipPlans(business.id),
+    storage.getCustomerEquipment(customer.id, business.id),
+  ]);
+
+  const now = new Date();
+  const bookable = business.bookingEnabled && business.bookingSlug;
+  const liveToken = (token: string | null, expiresAt: Date | null) =>
+    token && (!expiresAt || expiresAt > now) ? token : null;
+
+  const appointmentRows = appointments
+    .filter(a => a.businessId === business.id)
+    .map(appt => {
+      const service = services.find(s => s.id === appt.serviceId);
+      const member = staff.find(s => s.id === appt.staffId);
+      const isFuture = new Date(appt.startDate) > now;
+      const canRebook = !!bookable && !isFuture && !!service && service.active !== false;
+      return {
+        id: appt.id,
+        startDate: appt.startDate,
+        endDate: appt.endDate,
+        status: appt.status,
+        serviceName: service?.name || "Appointment",
+        staffName: member ? `${member.firstName} ${member.lastName || ""}`.trim() : null,
+        isFuture,
+        manageToken: isFuture && appt.status !== "cancelled" ? appt.manageToken : null,
+        rebookUrl: canRebook
+          ? `/book/${business.bookingSlug}?service=${service!.id}${member?.active !== false && member ? `&staff=${member.id}` : ""}`
+          : null,
+      };
+    });
+
+  return {
+    business: {
+      name: business.name,
+      phone: business.phone,
+      email: business.email,
+      bookingSlug: bookable ? business.bookingSlug : null,
+    },
+    customer: {
+      firstName: customer.firstName,
+      lastName: customer.lastName,
+      email: customer.email,
+      phone: customer.phone,
+      address: customer.address,
+      city: customer.city,
+      state: customer.state,
+      zip: customer.zip,
+      smsOptIn: customer.smsOptIn === true,
+      marketingOptIn: customer.marketingOptIn === true,
+    },
+    upcoming: appointmentRows
+      .filter(a => a.isFuture && a.status !== "cancelled")
+      .sort((a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime()),
+    past: appointmentRows
+      .filter(a => !a.isFuture || a.status === "cancelled")
+      .sort((a, b) => new Date(b.startDate).getTime() - new Date(a.startDate).getTime()),
+    quotes: quotes
+      .filter((q: any) => q.status === "pending")
+      .map((q: any) => ({
+        id: q.id,
+        quoteNumber: q.quoteNumber,
+        total: q.total,
+        validUntil: q.validUntil,
+        status: q.status,
+        accessToken: liveToken(q.accessToken, q.accessTokenExpiresAt),
+      })),
+    invoices: invoices
+      .filter(inv => inv.status !== "void")
+      .map(inv => ({
+        id: inv.id,
+        invoiceNumber: inv.invoiceNumber,
+        total: inv.total,
+        balanceDue: inv.balanceDue,
+        status: inv.status,
+        dueDate: inv.dueDate,
+        createdAt: inv.createdAt,
+        accessToken: liveToken(inv.accessToken, inv.accessTokenExpiresAt),
+      })),
+    memberships: memberships.map(m => ({
+      id: m.id,
+      planName: plans.find(p => p.id === m.planId)?.name || "Membership",
+      status: m.status,
+      startDate: m.startDate,
+      nextBillingDate: m.nextBillingDate,
+      tuneUpsRemaining: m.tuneUpsRemaining,
+      serviceCallsRemaining: m.serviceCallsRemaining,
+    })),
+    equipment: equipment.map(e => ({
+      id: e.id,
+      equipmentType: e.equipmentType,
+      make: e.make,
+      model: e.model,
+      location: e.location,
+      installDate: e.installDate,
+      lastServiceDate: e.lastServiceDate,
+      warrantyExpiry: e.warrantyExpiry,
+    })),
+  };
+}
@@ -0,0 +1,195 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// ── Mocks (vi.hoisted ensures they're available when vi.mock factories run) ──
+
+const { mockStorage } = vi.hoisted(() => ({
+  mockStorage: {
+    getBusiness: vi.fn(),
+    getCustomer: vi.fn(),
+    getInvoice: vi.fn(),
+    getInvoiceItems: vi.fn(),
+    getQuoteById: vi.fn(),
+    getQuoteItems: vi.fn(),
+    getQuoteOptions: vi.fn(),
+    getCreditNote: vi.fn(),
+    getCreditNoteItems: vi.fn(),
+    getJob: vi.fn(),
+    getJobLineItems: vi.fn(),
+    getJobForms: vi.fn(),
+    getStaffMember: vi.fn(),
+  },
+}));
+
+vi.mock('../storage', () => ({ storage: mockStorage }));
+vi.mock('./stripeConnectService', () => ({ stripeConnectService: {} }));
+vi.mock('../db', () => ({ db: {} }));
+
+import {
+  buildCreditNotePdf,
+  buildInvoicePdf,
+  buildJobReportPdf,
+  buildQuoteDocument,
+  buildQuotePdf,
+} from './documentPdfService';
+import { getPdfBranding } from './pdfService';
+
+// ── Test Data ──
+
+// 1x1 transparent PNG
+const PNG = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+
+const BUSINESS = {
+  id: 1, name: 'Acme Heating LLC', brandName: 'Acme HVAC', brandColor: '#2563eb', logoUrl: PNG,
+  address: '1 Main St', city: 'Springfield', state: 'IL', zip: '62701', phone: '555-0100', email: 'office@acme.test',
+} as any;
+
+const CUSTOMER = { id: 7, firstName: 'Dana', lastName: 'Lee', email: 'dana@example.test', phone: '555-0199' } as any;
+
+const INVOICE = {
+  id: 10, businessId: 1, customerId: 7, invoiceNumber: 'INV-10', status: 'partially_paid',
+  amount: '200.00', tax: '16.00', total: '216.00', amountPaid: '100.00', creditedAmount: '0.00',
+  dueDate: '2026-11-01', notes: 'Thanks!', createdAt: new Date('2026-10-01T12:00:00Z'),
+} as any;
+
+const QUOTE = {
+  id: 100, businessId: 1, customerId: 7, quoteNumber: 'Q-100', status: 'sent',
+  amount: '800.00', tax: '64.00', total: '864.00', selectedOptionId: null,
+  validUntil: '2026-12-31', notes: null, createdAt: new Date('2026-10-01T12:00:00Z'),
+} as any;
+
+function isPdf(buffer: Buffer): boolean {
+  return buffer.subarray(0, 5).toString() === '%PDF-';
+}
+
+// ── Tests ──
+
+describe('documentPdfService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockStorage.getBusiness.mockResolvedValue(BUSINESS);
+    mockStorage.getCustomer.mockResolvedValue(CUSTOMER);
+    mockStorage.getInvoice.mockResolvedValue(INVOICE);
+    mockStorage.getInvoiceItems.mockResolvedValue([
+      { description: 'Service call', quantity: 2, unitPrice: '100.00', amount: '200.00' },
+    ]);
+    mockStorage.getQuoteById.mockResolvedValue(QUOTE);
+    mockStorage.getQuoteItems.mockResolvedValue([
+      { id: 1, quoteId: 100, optionId: 1, description: 'Repair', quantity: 1, unitPrice: '800.00', amount: '800.00' },
+      { id: 2, quoteId: 100, optionId: 2, description: 'New furnace', quantity: 1, unitPrice: '6400.00', amount: '6400.00' },
+    ]);
+    mockStorage.getQuoteOptions.mockResolvedValue([
+      { id: 1, quoteId: 100, name: 'Repair', tax: '64.00', total: '864.00' },
+      { id: 2, quoteId: 100, name: 'Replace', tax: '512.00', total: '6912.00', isRecommended: true },
+    ]);
+  });
+
+  describe('getPdfBranding', () => {
+    it('prefers the brand name, keeps a valid brand color and decodes a data-URL logo', async () => {
+      const branding = await getPdfBranding(BUSINESS);
+      expect(branding.name).toBe('Acme HVAC');
+      expect(branding.color).toBe('#2563eb');
+      expect(branding.logo?.subarray(1, 4).toString()).toBe('PNG');
+    });
+
+    it('falls back to the business name and default color', async () => {
+      const branding = await getPdfBranding({ ...BUSINESS, brandName: null, brandColor: 'red; x', logoUrl: null });
+      expect(branding).toEqual({ name: 'Acme Heating LLC', color: '#111827', logo: null });
+    });
+  });
+
+  describe('buildInvoicePdf', () => {
+    it('renders a PDF named after the invoice number', async () => {
+      const rendered = await buildInvoicePdf(10, 1);
+      expect(rendered?.filename).toBe('invoice-INV-10.pdf');
+      expect(isPdf(rendered!.pdf)).toBe(true);
+    });
+
+    it('returns null for another business\'s invoice', async () => {
+      expect(await buildInvoicePdf(10, 2)).toBeNull();
+    });
+  });
+
+  describe('buildQuotePdf', () => {
+    it('lists every option when the customer has not chosen one', async () => {
+      const document = await buildQuoteDocument(QUOTE);
+      expect(document.options?.map((option) => option.name)).toEqual(['Repair', 'Replace']);
+      expect(document.options?.[1]).toEqual(expect.objectContaining({
+        isRecommended: true, total: '6912.00', items: [expect.objectContaining({ description: 'New furnace' })],
+      }));
+
+      const rendered = await buildQuotePdf(100, 1);
+      expect(rendered?.filename).toBe('quote-Q-100.pdf');
+      expect(isPdf(rendered!.pdf)).toBe(true);
+    });
+
+    it('returns null when the quote is not found for the business', async () => {
+      mockStorage.getQuoteById.mockResolvedValue(null);
+      expect(await buildQuotePdf(100, 2)).toBeNull();
+    });
+  });
+
+  describe('buildCreditNotePdf', () => {
+    it('renders the credit note against its invoice', async () => {
+      mockStorage.getCreditNote.mockResolvedValue({
+        id: 3, businessId: 1, invoiceId: 10, customerId: 7, creditNoteNumber: 'CN-3', status: 'issued',
+        reason: 'Goodwill', amount: '50.00', tax: '0', total: '50.00', createdAt: new Date(),
+      });
+      mockStorage.getCreditNoteItems.mockResolvedValue([
+        { creditNoteId: 3, description: 'Discount', quantity: 1, unitPrice: '50.00', amount: '50.00' },
+      ]);
+
+      const rendered = await buildCreditNotePdf(3, 1);
+      expect(mockStorage.getCreditNote).toHaveBeenCalledWith(3, 1);
+      expect(rendered?.filename).toBe('credit-note-CN-3.pdf');
+      expect(isPdf(rendered!.pdf)).toBe(true);
+    });
+  });
+
+  describe('buildJobReportPdf', () => {
+    it('embeds job photos and skips ones that cannot be loaded', async () => {
+      mockStorage.getJob.mockResolvedValue({
+        id: 42, businessId: 1, customerId: 7, staffId: 5, title: 'Furnace install', status: 'completed',
+        description: 'Replace furnace', notes: null, scheduledDate: '2026-10-10', updatedAt: new Date(),
+        photos: [{ url: PNG, caption: 'After' }, { url: 'data:image/gif;base64,R0lGOD' }],
+      });
+      mockStorage.getJobLineItems.mockResolvedValue([
+        { description: 'Furnace', quantity: 1, unitPrice: '6400.00', amount: '6400.00' },
+      ]);
+      mockStorage.getStaffMember.mockResolvedValue({ id: 5, firstName: 'Sam', lastName: 'Ortiz' });
+      mockStorage.getJobForms.mockResolvedValue([]);
+
+      const rendered = await buildJobReportPdf(42, 1);
+      expect(rendered?.filename).toBe('job-report-42.pdf');
+      expect(isPdf(rendered!.pdf)).toBe(true);
+    });
+
+    it('includes submitted checklists with their photos and signature', async () => {
+      mockStorage.getJob.mockResolvedValue({
+        id: 42, businessId: 1, customerId: 7, staffId: null, title: 'AC tune-up', status: 'completed',
+        description: null, notes: null, scheduledDate: '2026-10-10', updatedAt: new Date(), photos: [],
+      });
+      mockStorage.getJobLineItems.mockResolvedValue([]);
+      mockStorage.getJobForms.mockResolvedValue([
+        {
+          id: 3, jobId: 42, businessId: 1, name: 'AC Maintenance Checklist', status: 'submitted',
+          fields: [
+            { id: 'psi', label: 'Suction pressure', type: 'reading', unit: 'psi', max: 80 },
+            { id: 'unit', label: 'Outdoor unit', type: 'photo' },
+            { id: 'sig', label: 'Customer signature', type: 'signature' },
+          ],
+          answers: { psi: 95, unit: { url: PNG }, sig: { image: PNG, signerName: 'Dana Lee', signedAt: '2026-10-10T15:00:00Z' } },
+        },
+        { id: 4, jobId: 42, businessId: 1, name: 'Draft form', status: 'pending', fields: [], answers: {} },
+      ]);
+
+      const rendered = await buildJobReportPdf(42, 1);
+      expect(isPdf(rendered!.pdf)).toBe(true);
+      expect(mockStorage.getJobForms).toHaveBeenCalledWith(1, [42]);
+    });
+
+    it('returns null for another business\'s job', async () => {
+      mockStorage.getJob.mockResolvedValue({ id: 42, businessId: 9 });
+      expect(await buildJobReportPdf(42, 1)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,261 @@
+/**
+ * Document PDF Service — loads invoices, quotes, credit notes and jobs and
+ * renders them through pdfService in the business's branding.
+ *
+ * Every builder is scoped to a business and returns null when the record
+ * doesn't exist or belongs to someone else, so routes can map that straight
+ * to a 404. Notification emails use the same builders to attach the PDF.
+ */
+
+import type { Business, Customer, JobForm, Quote } from '@shared/schema';
+import { storage } from '../storage';
+import { getBalanceDue } from './invoicePaymentService';
+import { formatJobFormAnswer, isReadingOutOfRange } from './jobFormService';
+import { getChosenQuoteItems } from './quoteOptionService';
+import {
+  getPdfBranding,
+  loadPdfImage,
+  renderCreditNotePdf,
+  renderInvoicePdf,
+  renderJobReportPdf,
+  renderQuotePdf,
+  type PdfChecklist,
+  type PdfLineItem,
+  type PdfParties,
+  type PdfPhoto,
+  type QuoteDocument,
+} from './pdfService';
+
+export interface RenderedPdf {
+  filename: string;
+  pdf: Buffer;
+}
+
+// Photos are fetched one by one from S3 — cap how many go into a report
+const MAX_REPORT_PHOTOS = 12;
+
+// ──────────────────────────────────────────────────────────────────────
+// Helpers
+// ──────────────────────────────────────────────────────────────────────
+
+function toPdfParties(business: Business | undefined, customer: Customer | undefined): PdfParties {
+  const cityLine = business
+    ? [business.city, [business.state, business.zip].filter(Boolean).join(' ')].filter(Boolean).join(', ')
+    : '';
+  return {
+    businessName: business?.name || 'Your Business',
+    businessAddress: [business?.address, cityLine].filter(Boolean).join(', ') || null,
+    businessPhone: business?.phone ?? null,
+    businessEmail: business?.email ?? null,
+    customerName: customer ? `${customer.firstName} ${customer.lastName}`.trim() : 'Customer',
+    customerEmail: customer?.email ?? null,
+    customerPhone: customer?.phone ?? null,
+  };
+}
+
+/** Submitted job forms for the report. Photo answers share the report's photo cap. */
+async function toPdfChecklists(forms: JobForm[], photoBudget: number): Promise<PdfChecklist[]> {
+  const checklists: PdfChecklist[] = [];
+  let remaining = photoBudget;
+  for (const form of forms) {
+    if (form.status !== 'submitted') continue;
+    const answers = form.answers || {};
+    const checklist: PdfChecklist = { name: form.name, rows: [], photos: [], signature: null };
+    for (const field of form.fields || []) {
+      const value = answers[field.id];
+      if (field.type === 'photo') {
+        const url = value && typeof value === 'object' && 'url' in value ? value.url : undefined;
+        const image = url && remaining > 0 ? await loadPdfImage(url) : null;
+        if (image) {
+          checklist.photos.push({ image, caption: field.label });
+          remaining--;
+        }
+        continue;
+      }
+      if (field.type === 'signature') {
+        if (value && typeof value === 'object' && 'image' in value) {
+          checklist.signature = { image: value.image, signerName: value.signerName, signedAt: value.signedAt };
+        }
+        continue;
+      }
+      checklist.rows.push({
+        label: field.label,
+        value: formatJobFormAnswer(field, value),
+        flagged: isReadingOutOfRange(field, value),
+      });
+    }
+    checklists.push(checklist);
+  }
+  return checklists;
+}
+
+function toPdfLineItem(item: { description: string; quantity: number | null; unitPrice: string; amount: string }): PdfLineItem {
+  return {
+    description: item.description,
+    quantity: item.quantity ?? 1,
+    unitPrice: item.unitPrice,
+    amount: item.amount,
+  };
+}
+
+function toDateString(value: Date | string | null | undefined): string | null {
+  if (!value) return null;
+  return typeof value === 'string' ? value : value.toISOString();
+}
+
+// ──────────────────────────────────────────────────────────────────────
+// Document data
+// ──────────────────────────────────────────────────────────────────────
+
+/**
+ * A quote as the customer sees it: the chosen option (or flat item list),
+ * or every option when the customer hasn't picked one yet. Also used as the
+ * frozen snapshot when a quote is signed.
+ */
+export async function buildQuoteDocument(quote: Quote): Promise<QuoteDocument> {
+  const [business, customer, items, options] = await Promise.all([
+    storage.getBusiness(quote.businessId),
+    storage.getCustomer(quote.customerId),
+    storage.getQuoteItems(quote.id),
+    storage.getQuoteOptions(quote.id),
+  ]);
+  const chosenItems = getChosenQuoteItems(quote, items);
+  const chosenOption = options.find((option) => option.id === quote.selectedOptionId);
+
+  return {
+    ...toPdfParties(business, customer),
+    quoteNumber: quote.quoteNumber,
+    optionName: chosenOption?.name ?? null,
+    ...(chosenItems === null
+      ? {
+          options: options.map((option) => ({
+            name: option.name,
+            description: option.description,
+            isRecommended: option.isRecommended === true,
+            items: items.filter((item) => item.optionId === option.id).map(toPdfLineItem),
+            tax: String(option.tax ?? '0'),
+            total: String(option.total),
+          })),
+        }
+      : {}),
+    items: (chosenItems ?? []).map(toPdfLineItem),
+    amount: String(quote.amount),
+    tax: String(quote.tax ?? '0'),
+    total: String(quote.total),
+    validUntil: quote.validUntil ?? null,
+    notes: quote.notes ?? null,
+    createdAt: toDateString(quote.createdAt),
+  };
+}
+
+// ──────────────────────────────────────────────────────────────────────
+// Builders
+// ──────────────────────────────────────────────────────────────────────
+
+export async function buildInvoicePdf(invoiceId: number, businessId: number): Promise<RenderedPdf | null> {
+  const invoice = await storage.getInvoice(invoiceId);
+  if (!invoice || invoice.businessId !== businessId) return null;
+
+  const [business, customer, items] = await Promise.all([
+    storage.getBusiness(businessId),
+    storage.getCustomer(invoice.customerId),
+    storage.getInvoiceItems(invoice.id),
+  ]);
+
+  const pdf = await renderInvoicePdf({
+    ...toPdfParties(business, customer),
+    invoiceNumber: invoice.invoiceNumber,
+    status: invoice.status,
+    items: items.map(toPdfLineItem),
+    amount: String(invoice.amount),
+    tax: String(invoice.tax ?? '0'),
+    total: String(invoice.total),
+    amountPaid: invoice.amountPaid,
+    creditedAmount: invoice.creditedAmount,
+    balanceDue: getBalanceDue(invoice).toFixed(2),
+    dueDate: toDateString(invoice.dueDate),
+    notes: invoice.notes,
+    createdAt: toDateString(invoice.createdAt),
+  }, await getPdfBranding(business));
+
+  return { filename: `invoice-${invoice.invoiceNumber}.pdf`, pdf };
+}
+
+export async function buildQuotePdf(quoteId: number, businessId: number): Promise<RenderedPdf | null> {
+  const quote: Quote | null = await storage.getQuoteById(quoteId, businessId);
+  if (!quote) return null;
+
+  const [document, business] = await Promise.all([
+    buildQuoteDocument(quote),
+    storage.getBusiness(businessId),
+  ]);
+  const pdf = await renderQuotePdf(document, { branding: await getPdfBranding(business) });
+
+  return { filename: `quote-${quote.quoteNumber}.pdf`, pdf };
+}
+
+export async function buildCreditNotePdf(creditNoteId: number, businessId: number): Promise<RenderedPdf | null> {
+  const creditNote = await storage.getCreditNote(creditNoteId, businessId);
+  if (!creditNote) return null;
+
+  const [business, customer, invoice, items] = await Promise.all([
+    storage.getBusiness(businessId),
+    storage.getCustomer(creditNote.customerId),
+    storage.getInvoice(creditNote.invoiceId),
+    storage.getCreditNoteItems([creditNote.id]),
+  ]);
+
+  const pdf = await renderCreditNotePdf({
+    ...toPdfParties(business, customer),
+    creditNoteNumber: creditNote.creditNoteNumber,
+    invoiceNumber: invoice?.invoiceNumber ?? String(creditNote.invoiceId),
+    status: creditNote.status,
+    reason: creditNote.reason,
+    items: items.map(toPdfLineItem),
+    amount: String(creditNote.amount),
+    tax: String(creditNote.tax ?? '0'),
+    total: String(creditNote.total),
+    createdAt: toDateString(creditNote.createdAt),
+  }, await getPdfBranding(business));
+
+  return { filename: `credit-note-${creditNote.creditNoteNumber}.pdf`, pdf };
+}
+
+export async function buildJobReportPdf(jobId: number, businessId: number): Promise<RenderedPdf | null> {
+  const job = await storage.getJob(jobId);
+  if (!job || job.businessId !== businessId) return null;
+
+  const [business, customer, lineItems, technician, forms] = await Promise.all([
+    storage.getBusiness(businessId),
+    storage.getCustomer(job.customerId),
+    storage.getJobLineItems(job.id),
+    job.staffId ? storage.getStaffMember(job.staffId) : Promise.resolve(undefined),
+    storage.getJobForms(businessId, [job.id]),
+  ]);
+
+  const storedPhotos = (Array.isArray(job.photos) ? job.photos : []) as Array<{ url?: string; caption?: string | null }>;
+  const photos: PdfPhoto[] = [];
+  for (const photo of storedPhotos.slice(0, MAX_REPORT_PHOTOS)) {
+    const image = await loadPdfImage(photo.url);
+    if (image) photos.push({ image, caption: photo.caption ?? null });
+  }
+  const checklists = await toPdfChecklists(forms, MAX_REPORT_PHOTOS - photos.length);
+
+  const total = lineItems.reduce((sum, item) => sum + Number(item.amount || 0), 0);
+  const pdf = await renderJobReportPdf({
+    ...toPdfParties(business, customer),
+    jobTitle: job.title,
+    jobNumber: String(job.id),
+    description: job.description,
+    technicianName: technician ? `${technician.firstName} ${technician.lastName}`.trim() : null,
+    scheduledDate: job.scheduledDate ?? null,
+    completedAt: job.status === 'completed' ? toDateString(job.updatedAt) : null,
+    items: lineItems.map(toPdfLineItem),
+    total: total.toFixed(2),
+    notes: job.notes,
+    photos,
+    checklists,
+  }, await getPdfBranding(business));
+
+  return { filename: `job-report-${job.id}.pdf`, pdf };
+}
@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// ── Mocks (vi.hoisted ensures they're available when vi.mock factories run) ──
+
+const { mockStorage, mockEnqueue } = vi.hoisted(() => ({
+  mockStorage: {
+    getBusiness: vi.fn(),
+    getJob: vi.fn(),
+    getActiveJobsForStaff: vi.fn(),
+    getPingsForSession: vi.fn(),
+    updateJob: vi.fn(),
+  },
+  mockEnqueue: vi.fn(),
+}));
+
+vi.mock('../storage', () => ({ storage: mockStorage }));
+vi.mock('./jobQueue', () => ({ enqueue: mockEnqueue }));
+vi.mock('../db', () => ({ db: {} }));
+
+import { evaluateGeofence, getGeofenceSettings, processSessionPings, type GeofencePing } from './geofenceService';
+
+// ── Test Data ──
+
+const SITE = { lat: 40.0, lng: -75.0 };
+// ~0.0009° latitude ≈ 100 m
+const NEAR = { lat: 40.0005, lng: -75.0 }; // ~55 m
+const EDGE = { lat: 40.0022, lng: -75.0 }; // ~245 m — outside arrival, inside departure
+const FAR = { lat: 40.01, lng: -75.0 };    // ~1.1 km
+
+const SETTINGS = { enabled: true, arrivalRadiusMeters: 150, departureRadiusMeters: 300, confirmPings: 2 };
+
+const BASE = new Date('2026-10-19T14:00:00Z').getTime();
+
+function pings(...points: Array<{ lat: number; lng: number; accuracyMeters?: number }>): GeofencePing[] {
+  return points.map((point, i) => ({ ...point, recordedAt: new Date(BASE + i * 30_000) }));
+}
+
+function minute(i: number): Date {
+  return new Date(BASE + i * 30_000);
+}
+
+const EN_ROUTE = {
+  status: 'en_route', arrivedAt: null, departedAt: null,
+  customerLocationLat: SITE.lat, customerLocationLng: SITE.lng,
+};
+
+// ── Tests ──
+
+describe('geofenceService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('getGeofenceSettings', () => {
+    it('never lets the departure radius sit inside the arrival radius', () => {
+      expect(getGeofenceSettings({
+        gpsGeofenceEnabled: true, gpsArrivalRadiusMeters: 400, gpsDepartureRadiusMeters: 200, gpsGeofenceConfirmPings: 0,
+      })).toEqual({ enabled: true, arrivalRadiusMeters: 400, departureRadiusMeters: 400, confirmPings: 1 });
+    });
+  });
+
+  describe('evaluateGeofence', () => {
+    it('arrives after consecutive pings inside the radius, stamped with the first', () => {
+      expect(evaluateGeofence(EN_ROUTE, pings(FAR, NEAR, NEAR), SETTINGS))
+        .toEqual([{ type: 'arrived', at: minute(1), confirmedAt: minute(2) }]);
+    });
+
+    it('ignores a single inside ping and coarse fixes', () => {
+      expect(evaluateGeofence(EN_ROUTE, pings(NEAR, FAR, NEAR), SETTINGS)).toEqual([]);
+      expect(evaluateGeofence(EN_ROUTE, pings(NEAR, { ...NEAR, accuracyMeters: 800 }), SETTINGS)).toEqual([]);
+    });
+
+    it('uses the wider departure radius so edge jitter does not count as leaving', () => {
+      const onSite = { ...EN_ROUTE, status: 'in_progress', arrivedAt: minute(0) };
+      expect(evaluateGeofence(onSite, pings(NEAR, EDGE, EDGE, NEAR), SETTINGS)).toEqual([]);
+      expect(evaluateGeofence(onSite, pings(NEAR, FAR, FAR, NEAR, NEAR), SETTINGS).map((event) => event.type))
+        .toEqual(['departed', 'returned']);
+    });
+
+    it('does nothing for jobs that are not underway or have no location', () => {
+      expect(evaluateGeofence({ ...EN_ROUTE, status: 'completed' }, pings(NEAR, NEAR), SETTINGS)).toEqual([]);
+      expect(evaluateGeofence({ ...EN_ROUTE, customerLocationLat: null }, pings(NEAR, NEAR), SETTINGS)).toEqual([]);
+    });
+  });
+
+  describe('processSessionPings', () => {
+    const SESSION = { id: 7, businessId: 1, staffId: 5, jobId: 99, lastPingAt: null };
+
+    beforeEach(() => {
+      mockStorage.getBusiness.mockResolvedValue({
+        id: 1, gpsGeofenceEnabled: true, gpsArrivalRadiusMeters: 150, gpsDepartureRadiusMeters: 300, gpsGeofenceConfirmPings: 2,
+      });
+      mockStorage.getJob.mockResolvedValue({ id: 99, businessId: 1, enRouteAt: new Date(BASE - 60_000), ...EN_ROUTE });
+      mockStorage.getPingsForSession.mockResolvedValue(
+        [FAR, NEAR, NEAR].map((point, i) => ({ lat: String(point.lat), lng: String(point.lng), accuracyMeters: 10, recordedAt: minute(i) })),
+      );
+    });
+
+    it('moves an en_route job to in_progress and notifies the customer', async () => {
+      const transitions = await processSessionPings(SESSION);
+
+      expect(transitions).toEqual([expect.objectContaining({ jobId: 99, type: 'arrived', at: minute(1) })]);
+      expect(mockStorage.updateJob).toHaveBeenCalledWith(99, { arrivedAt: minute(1), status: 'in_progress' });
+      expect(mockEnqueue).toHaveBeenCalledWith('send-job-status-notification', { jobId: 99, businessId: 1, statusType: 'in_progress' });
+    });
+
+    it('skips transitions already confirmed by an earlier batch', async () => {
+      await processSessionPings({ ...SESSION, lastPingAt: minute(2) });
+      expect(mockStorage.updateJob).not.toHaveBeenCalled();
+    });
+
+    it('is a no-op when the business has the geofence off', async () => {
+      mockStorage.getBusiness.mockResolvedValue({ id: 1, gpsGeofenceEnabled: false });
+      expect(await processSessionPings(SESSION)).toEqual([]);
+      expect(mockStorage.getJob).not.toHaveBeenCalled();
+    });
+
+    it('checks the tech\'s underway jobs when the session has no job', async () => {
+      mockStorage.getActiveJobsForStaff.mockResolvedValue([]);
+      await processSessionPings({ ...SESSION, jobId: null });
+      expect(mockStorage.getActiveJobsForStaff).toHaveBeenCalledWith(1, 5);
+    });
+  });
+});
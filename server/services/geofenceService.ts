@@ -0,0 +1,218 @@
+/**
+ * Geofence Service — job status transitions from GPS pings
+ *
+ * Each ping batch from an active tracking session is checked against the
+ * customer location of the tech's underway jobs (the session's job, or any
+ * en_route / in_progress job assigned to the tech when the session isn't
+ * tied to one):
+ *
+ *   en_route     ──enter arrival radius──▶  in_progress, arrivedAt stamped
+ *   in_progress  ──leave departure radius─▶ departedAt stamped (completion prompt)
+ *   departed     ──re-enter arrival radius▶ departedAt cleared (back on site)
+ *
+ * A transition needs `confirmPings` consecutive pings on the far side of the
+ * boundary and is stamped with the first of them. Fixes coarser than
+ * MAX_PING_ACCURACY_METERS are skipped without breaking a streak.
+ *
+ * Pings are replayed from the job's last transition on every batch so a
+ * streak split across batches is still seen; only transitions confirmed by a
+ * ping newer than the session's previous lastPingAt are applied, so nothing
+ * fires twice. Completion itself always stays with the tech.
+ */
+
+import { storage } from '../storage';
+import type { Business, Job, TechTrackingSession } from '@shared/schema';
+import { haversineKm } from './routePlanningService';
+
+const LOG_PREFIX = '[Geofence]';
+
+// Fixes too coarse to place a tech inside or outside a job-site radius
+const MAX_PING_ACCURACY_METERS = 200;
+
+export interface GeofenceSettings {
+  enabled: boolean;
+  arrivalRadiusMeters: number;
+  departureRadiusMeters: number;
+  confirmPings: number;
+}
+
+export interface GeofencePing {
+  lat: number;
+  lng: number;
+  accuracyMeters?: number | null;
+  recordedAt: Date;
+}
+
+export type GeofenceJobState = Pick<
+  Job,
+  'status' | 'arrivedAt' | 'departedAt' | 'customerLocationLat' | 'customerLocationLng'
+>;
+
+export interface GeofenceEvent {
+  type: 'arrived' | 'departed' | 'returned';
+  /** First ping of the confirming streak — the time recorded on the job */
+  at: Date;
+  /** Ping that completed the streak */
+  confirmedAt: Date;
+}
+
+export interface GeofenceTransition extends GeofenceEvent {
+  jobId: number;
+}
+
+type Phase = 'approaching' | 'on_site' | 'departed';
+
+// ──────────────────────────────────────────────────────────────────────
+// Evaluation
+// ──────────────────────────────────────────────────────────────────────
+
+export function getGeofenceSettings(
+  business: Pick<Business, 'gpsGeofenceEnabled' | 'gpsArrivalRadiusMeters' | 'gpsDepartureRadiusMeters' | 'gpsGeofenceConfirmPings'>,
+): GeofenceSettings {
+  const arrivalRadiusMeters = business.gpsArrivalRadiusMeters ?? 150;
+  return {
+    enabled: business.gpsGeofenceEnabled ?? true,
+    arrivalRadiusMeters,
+    departureRadiusMeters: Math.max(business.gpsDepartureRadiusMeters ?? 300, arrivalRadiusMeters),
+    confirmPings: Math.max(business.gpsGeofenceConfirmPings ?? 2, 1),
+  };
+}
+
+function initialPhase(job: GeofenceJobState): Phase | null {
+  if (job.status === 'en_route') return 'approaching';
+  if (job.status !== 'in_progress') return null;
+  // Marked in progress by hand: still watch for the arrival to stamp it
+  if (!job.arrivedAt) return 'approaching';
+  return job.departedAt ? 'departed' : 'on_site';
+}
+
+/**
+ * Transitions a run of pings (oldest first) produces for a job, given where
+ * the job stands now. Pure — the caller applies the events.
+ */
+export function evaluateGeofence(
+  job: GeofenceJobState,
+  pings: GeofencePing[],
+  settings: GeofenceSettings,
+): GeofenceEvent[] {
+  if (job.customerLocationLat == null || job.customerLocationLng == null) return [];
+  let phase = initialPhase(job);
+  if (!phase) return [];
+
+  const site = { lat: job.customerLocationLat, lng: job.customerLocationLng };
+  const events: GeofenceEvent[] = [];
+  let streak = 0;
+  let streakStart: Date | null = null;
+
+  for (let i = 0; i < pings.length; i++) {
+    const ping = pings[i];
+    if (ping.accuracyMeters != null && ping.accuracyMeters > MAX_PING_ACCURACY_METERS) continue;
+
+    const meters = haversineKm(site, ping) * 1000;
+    const crossing = phase === 'on_site'
+      ? meters > settings.departureRadiusMeters
+      : meters <= settings.arrivalRadiusMeters;
+    if (!crossing) {
+      streak = 0;
+      streakStart = null;
+      continue;
+    }
+
+    streak++;
+    streakStart = streakStart ?? ping.recordedAt;
+    if (streak < settings.confirmPings) continue;
+
+    if (phase === 'on_site') {
+      events.push({ type: 'departed', at: streakStart, confirmedAt: ping.recordedAt });
+      phase = 'departed';
+    } else {
+      events.push({ type: phase === 'departed' ? 'returned' : 'arrived', at: streakStart, confirmedAt: ping.recordedAt });
+      phase = 'on_site';
+    }
+    streak = 0;
+    streakStart = null;
+  }
+
+  return events;
+}
+
+// ──────────────────────────────────────────────────────────────────────
+// Applying
+// ──────────────────────────────────────────────────────────────────────
+
+function replayFrom(job: Job): Date | undefined {
+  const anchors = [job.enRouteAt, job.arrivedAt, job.departedAt]
+    .filter((value): value is Date => !!value)
+    .map((value) => new Date(value));
+  if (anchors.length === 0) return undefined;
+  return new Date(Math.max(...anchors.map((value) => value.getTime())));
+}
+
+async function applyEvents(job: Job, events: GeofenceEvent[]): Promise<void> {
+  const updates: Partial<Job> = {};
+  for (const event of events) {
+    if (event.type === 'arrived') {
+      updates.arrivedAt = event.at;
+      if (job.status === 'en_route') updates.status = 'in_progress';
+    } else if (event.type === 'departed') {
+      updates.departedAt = event.at;
+    } else {
+      updates.departedAt = null;
+    }
+  }
+  await storage.updateJob(job.id, updates);
+
+  if (updates.status === 'in_progress') {
+    // Same customer notification as a tech tapping "I've Arrived"
+    const { enqueue } = await import('./jobQueue');
+    await enqueue('send-job-status-notification', { jobId: job.id, businessId: job.businessId, statusType: 'in_progress' });
+  }
+}
+
+/**
+ * Check a tracking session's recent pings against its tech's underway jobs
+ * and apply any transitions. Call after new pings are stored, with the
+ * session as it was before them (its lastPingAt marks what's already been
+ * evaluated).
+ */
+export async function processSessionPings(
+  session: Pick<TechTrackingSession, 'id' | 'businessId' | 'staffId' | 'jobId' | 'lastPingAt'>,
+): Promise<GeofenceTransition[]> {
+  const business = await storage.getBusiness(session.businessId);
+  if (!business) return [];
+  const settings = getGeofenceSettings(business);
+  if (!settings.enabled) return [];
+
+  let candidates: Job[];
+  if (session.jobId) {
+    const job = await storage.getJob(session.jobId);
+    candidates = job && job.businessId === session.businessId ? [job] : [];
+  } else {
+    candidates = await storage.getActiveJobsForStaff(session.businessId, session.staffId);
+  }
+
+  const transitions: GeofenceTransition[] = [];
+  for (const job of candidates) {
+    if (job.customerLocationLat == null || job.customerLocationLng == null) continue;
+
+    const rows = await storage.getPingsForSession(session.id, session.businessId, { since: replayFrom(job) });
+    const pings: GeofencePing[] = rows.map((row) => ({
+      lat: parseFloat(String(row.lat)),
+      lng: parseFloat(String(row.lng)),
+      accuracyMeters: row.accuracyMeters,
+      recordedAt: new Date(row.recordedAt),
+    }));
+
+    const evaluatedUntil = session.lastPingAt ? new Date(session.lastPingAt).getTime() : -Infinity;
+    const events = evaluateGeofence(job, pings, settings)
+      .filter((event) => event.confirmedAt.getTime() > evaluatedUntil);
+    if (events.length === 0) continue;
+
+    await applyEvents(job, events);
+    for (const event of events) {
+      transitions.push({ jobId: job.id, ...event });
+    }
+    console.log(`${LOG_PREFIX} Job ${job.id}: ${events.map((event) => event.type).join(' → ')} (staff ${session.staffId})`);
+  }
+  return transitions;
+}
@@ -6,7 +6,7 @@ import { eq } from 'drizzle-orm';
 /**
  * Weekly auto-refresh of the Retell agent system prompt with fresh
  * call_intelligence patterns. Runs as a scheduler job — see
- * `startIntelligenceRefreshScheduler()` in schedulerService.ts.
+ * the `intelligence-refresh` task in schedulerService.ts.
  *
  * Why this exists:
  * - `call_intelligence` rows accumulate after every call (objections,
@@ -1,6 +1,7 @@
 import { storage } from '../storage';
 import { isAgentEnabled, getAgentConfig } from './agentSettingsService';
 import { logAgentAction } from './agentActivityService';
+import { getBalanceDue } from './invoicePaymentService';
 
 /**
  * Invoice Collection Agent Service
@@ -22,7 +23,7 @@ import { logAgentAction } from './agentActivityService';
  *   - Checks engagement locks (won't pile on if another agent is mid-convo)
  *   - Idempotent via notification_log (won't resend same tier)
  *
- * Skips invoices that are: paid, partially_paid, cancelled, void, draft
+ * Skips invoices that are: paid, cancelled, void, draft, or have no balance left
  */
 
 const REMINDER_TIERS = [1, 3, 7, 14, 30] as const;
@@ -71,11 +72,14 @@ async function processBusinessInvoices(businessId: number): Promise<number> {
   const overdueInvoices = await storage.getInvoices(businessId, { status: 'overdue' });
   let sentCount = 0;
 
-  // Also check pending invoices that are past due but not yet marked overdue
-  const pendingInvoices = await storage.getInvoices(businessId, { status: 'pending' });
+  // Also check unpaid and partly paid invoices that are past due but not yet marked overdue
+  const openInvoices = [
+    ...await storage.getInvoices(businessId, { status: 'pending' }),
+    ...await storage.getInvoices(businessId, { status: 'partially_paid' }),
+  ];
   const allTargetInvoices = [
     ...overdueInvoices,
-    ...pendingInvoices.filter(inv => {
+    ...openInvoices.filter(inv => {
       if (!inv.dueDate) return false;
       const due = new Date(inv.dueDate);
       due.setHours(0, 0, 0, 0);
@@ -100,7 +104,10 @@ async function processBusinessInvoices(businessId: number): Promise<number> {
     try {
       if (!invoice.customerId || !invoice.dueDate) continue;
       // Skip paid/cancelled/void/draft
-      if (['paid', 'partially_paid', 'cancelled', 'void', 'draft'].includes(invoice.status || '')) continue;
+      if (['paid', 'cancelled', 'void', 'draft'].includes(invoice.status || '')) continue;
+      // Credit notes can settle an invoice without a payment
+      const balanceDue = getBalanceDue(invoice);
+      if (balanceDue <= 0) continue;
 
       const customer = await storage.getCustomer(invoice.customerId);
       if (!customer?.phone || !customer.smsOptIn) continue;
@@ -154,7 +161,7 @@ async function processBusinessInvoices(businessId: number): Promise<number> {
         }
       }
 
-      const amount = `$${Number(invoice.total || 0).toFixed(2)}`;
+      const amount = `$${balanceDue.toFixed(2)}`;
       const dueDateStr = new Date(invoice.dueDate).toLocaleDateString('en-US', {
         month: 'long', day: 'numeric', year: 'numeric',
       });
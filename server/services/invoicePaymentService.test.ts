@@ -0,0 +1,174 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// ── Mocks (vi.hoisted ensures they're available when vi.mock factories run) ──
+
+const { mockStorage, mockStripeConnect } = vi.hoisted(() => ({
+  mockStorage: {
+    getInvoice: vi.fn(),
+    updateInvoice: vi.fn(),
+    getQuoteById: vi.fn(),
+    updateQuote: vi.fn(),
+    getPaymentsByInvoice: vi.fn(),
+    getCreditNotesByInvoice: vi.fn(),
+    getPaymentsByQuote: vi.fn(),
+    getPaymentByStripeIntent: vi.fn(),
+    createPayment: vi.fn(),
+    recordPaymentRefund: vi.fn(),
+  },
+  mockStripeConnect: {
+    refundPayment: vi.fn(),
+  },
+}));
+
+vi.mock('../storage', () => ({ storage: mockStorage }));
+vi.mock('./stripeConnectService', () => ({ stripeConnectService: mockStripeConnect }));
+
+import {
+  summarizeLedger,
+  deriveInvoiceStatus,
+  getBalanceDue,
+  getPaymentBounds,
+  getDepositOutstanding,
+  recordStripePaymentIntent,
+  refundPayment,
+} from './invoicePaymentService';
+
+// ── Test Data ──
+
+const INVOICE = {
+  id: 44,
+  businessId: 1,
+  customerId: 10,
+  total: '200.00',
+  status: 'pending',
+  dueDate: '2026-03-01',
+  amountPaid: '0',
+  balanceDue: '200.00',
+  minimumPaymentAmount: null,
+};
+
+const row = (amount: string, refundedAmount = '0') => ({ amount, refundedAmount }) as any;
+
+// ── Tests ──
+
+describe('invoicePaymentService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockStorage.getInvoice.mockResolvedValue(INVOICE);
+    mockStorage.updateInvoice.mockImplementation(async (id: number, patch: any) => ({ ...INVOICE, id, ...patch }));
+    mockStorage.createPayment.mockImplementation(async (payload: any) => ({ id: 900, ...payload }));
+    mockStorage.getCreditNotesByInvoice.mockResolvedValue([]);
+  });
+
+  describe('ledger math', () => {
+    it('nets refunds out of the amount paid and clamps overpayment', () => {
+      expect(summarizeLedger('200.00', [row('50.00'), row('80.00', '30.00')])).toEqual({ amountPaid: 100, balanceDue: 100 });
+      expect(summarizeLedger('200.00', [row('250.00')])).toEqual({ amountPaid: 250, balanceDue: 0 });
+    });
+
+    it('derives paid / partially_paid and reopens refunded invoices by due date', () => {
+      const now = new Date('2026-02-15T12:00:00Z');
+      expect(deriveInvoiceStatus(INVOICE as any, 200, now)).toBe('paid');
+      expect(deriveInvoiceStatus(INVOICE as any, 20, now)).toBe('partially_paid');
+      expect(deriveInvoiceStatus({ ...INVOICE, status: 'overdue' } as any, 20, new Date('2026-04-01T12:00:00Z'))).toBe('overdue');
+      expect(deriveInvoiceStatus({ ...INVOICE, status: 'paid' } as any, 0, now)).toBe('pending');
+      expect(deriveInvoiceStatus({ ...INVOICE, status: 'paid' } as any, 0, new Date('2026-04-01T12:00:00Z'))).toBe('overdue');
+    });
+
+    it('takes issued credits off what is owed', () => {
+      expect(summarizeLedger('200.00', [row('50.00')], 100)).toEqual({ amountPaid: 50, balanceDue: 50 });
+      expect(deriveInvoiceStatus({ ...INVOICE, creditedAmount: '150.00' } as any, 50)).toBe('paid');
+      expect(deriveInvoiceStatus({ ...INVOICE, creditedAmount: '200.00' } as any, 0)).toBe('credited');
+      expect(deriveInvoiceStatus({ ...INVOICE, status: 'credited', creditedAmount: '0' } as any, 0, new Date('2026-02-15T12:00:00Z'))).toBe('pending');
+    });
+
+    it('never overrides a voided invoice', () => {
+      expect(deriveInvoiceStatus({ ...INVOICE, status: 'void' } as any, 200)).toBe('void');
+    });
+
+    it('reads legacy rows without a balance from their status', () => {
+      expect(getBalanceDue({ ...INVOICE, balanceDue: null, status: 'paid' } as any)).toBe(0);
+      expect(getBalanceDue({ ...INVOICE, balanceDue: null, amountPaid: null } as any)).toBe(200);
+    });
+
+    it('requires the full balance unless a minimum is configured', () => {
+      expect(getPaymentBounds(INVOICE as any)).toEqual({ minimum: 200, maximum: 200 });
+      expect(getPaymentBounds({ ...INVOICE, minimumPaymentAmount: '25.00' } as any)).toEqual({ minimum: 25, maximum: 200 });
+      expect(getPaymentBounds({ ...INVOICE, balanceDue: '10.00', minimumPaymentAmount: '25.00' } as any)).toEqual({ minimum: 10, maximum: 10 });
+    });
+
+    it('reports the deposit still owed on a quote', () => {
+      expect(getDepositOutstanding({ depositAmount: '100.00' } as any, [row('40.00')])).toBe(60);
+      expect(getDepositOutstanding({ depositAmount: null } as any, [])).toBe(0);
+    });
+  });
+
+  describe('recordStripePaymentIntent', () => {
+    it('skips a PaymentIntent that is already on the ledger', async () => {
+      mockStorage.getPaymentByStripeIntent.mockResolvedValue({ id: 5, stripePaymentIntentId: 'pi_1' });
+
+      const result = await recordStripePaymentIntent({ id: 'pi_1', amount: 5000, metadata: { invoiceId: '44' } });
+
+      expect(result.kind).toBe('duplicate');
+      expect(mockStorage.createPayment).not.toHaveBeenCalled();
+    });
+
+    it('records a partial payment and moves the invoice to partially_paid', async () => {
+      mockStorage.getInvoice.mockResolvedValue({ ...INVOICE, dueDate: '2999-01-01' });
+      mockStorage.getPaymentByStripeIntent.mockResolvedValue(undefined);
+      mockStorage.getPaymentsByInvoice.mockResolvedValue([row('50.00')]);
+
+      const result = await recordStripePaymentIntent({ id: 'pi_2', amount: 5000, metadata: { invoiceId: '44' } });
+
+      expect(result.kind).toBe('invoice');
+      expect(mockStorage.createPayment).toHaveBeenCalledWith(expect.objectContaining({
+        invoiceId: 44, amount: '50.00', method: 'stripe', stripePaymentIntentId: 'pi_2',
+      }));
+      expect(mockStorage.updateInvoice).toHaveBeenCalledWith(44, {
+        amountPaid: '50.00', creditedAmount: '0.00', balanceDue: '150.00', status: 'partially_paid',
+      });
+    });
+
+    it('records deposits against the quote and stamps depositPaidAt once covered', async () => {
+      const quote = { id: 7, businessId: 1, customerId: 10, depositAmount: '60.00', depositPaidAt: null, convertedToInvoiceId: null };
+      mockStorage.getPaymentByStripeIntent.mockResolvedValue(undefined);
+      mockStorage.getQuoteById.mockResolvedValue(quote);
+      mockStorage.getPaymentsByQuote.mockResolvedValue([row('60.00')]);
+      mockStorage.updateQuote.mockImplementation(async (_id: number, patch: any) => ({ ...quote, ...patch }));
+
+      const result = await recordStripePaymentIntent({
+        id: 'pi_3', amount: 6000, metadata: { paymentType: 'deposit', quoteId: '7', businessId: '1' },
+      });
+
+      expect(result.kind).toBe('deposit');
+      expect(mockStorage.createPayment).toHaveBeenCalledWith(expect.objectContaining({ quoteId: 7, invoiceId: null, isDeposit: true }));
+      expect(mockStorage.updateQuote).toHaveBeenCalledWith(7, { depositPaidAt: expect.any(Date) });
+      expect(mockStorage.updateInvoice).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('refundPayment', () => {
+    const PAYMENT = { id: 5, businessId: 1, invoiceId: 44, quoteId: null, amount: '80.00', refundedAmount: '30.00', method: 'cash', stripePaymentIntentId: null };
+
+    it('rejects refunds larger than what is left on the payment', async () => {
+      const result = await refundPayment({ payment: PAYMENT as any, amount: 60 });
+
+      expect(result).toEqual(expect.objectContaining({ ok: false, reason: 'exceeds_refundable' }));
+      expect(mockStorage.recordPaymentRefund).not.toHaveBeenCalled();
+    });
+
+    it('refunds Stripe payments through Connect before writing the ledger', async () => {
+      const stripePayment = { ...PAYMENT, method: 'stripe', stripePaymentIntentId: 'pi_9' };
+      mockStripeConnect.refundPayment.mockResolvedValue({ refundId: 're_1' });
+      mockStorage.recordPaymentRefund.mockResolvedValue({ ok: true, payment: { ...stripePayment, refundedAmount: '80.00' } });
+      mockStorage.getPaymentsByInvoice.mockResolvedValue([]);
+
+      const result = await refundPayment({ payment: stripePayment as any, amount: 50 });
+
+      expect(result.ok).toBe(true);
+      expect(mockStripeConnect.refundPayment).toHaveBeenCalledWith(expect.objectContaining({ paymentIntentId: 'pi_9', amount: 50 }));
+      expect(mockStorage.recordPaymentRefund).toHaveBeenCalledWith(expect.objectContaining({ stripeRefundId: 're_1', amount: '50.00' }));
+      expect(mockStorage.updateInvoice).toHaveBeenCalledWith(44, expect.objectContaining({ balanceDue: '200.00' }));
+    });
+  });
+});
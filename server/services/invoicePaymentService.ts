@@ -0,0 +1,378 @@
+/**
+ * Invoice Payment Service — payments ledger
+ *
+ * Owns every write that moves money against an invoice:
+ *
+ *   - recordInvoicePayment: Stripe, cash, check or manual payment against
+ *     an invoice. Partial amounts are fine; the invoice moves to
+ *     'partially_paid' until the balance reaches zero.
+ *   - recordQuoteDeposit: deposit collected on a quote before it is
+ *     invoiced. Held on the quote and re-pointed at the invoice by
+ *     applyQuoteDepositsToInvoice when the quote converts.
+ *   - refundPayment: refund (full or partial) against a single payment.
+ *     Stripe payments are refunded through Connect; offline payments are
+ *     recorded only.
+ *   - recordStripePaymentIntent: webhook entry point. Idempotent on the
+ *     PaymentIntent ID so Stripe retries never double-count.
+ *
+ * After each write, recalculateInvoiceBalance re-derives amountPaid,
+ * creditedAmount, balanceDue and status from the ledger and issued credit
+ * notes — those rows are the source of truth, the invoice columns are a
+ * cache for list views and reports.
+ *
+ * Invoice-paid side effects (receipt, webhook, orchestrator) are NOT fired
+ * here; callers check `becamePaid` and decide, since the webhook and the
+ * owner-facing routes have always fired slightly different sets.
+ */
+
+import type { Invoice, Payment, Quote } from '@shared/schema';
+import { storage } from '../storage';
+import { stripeConnectService } from './stripeConnectService';
+import { toMoney, roundMoney } from '../utils/money';
+
+const LOG_PREFIX = '[InvoicePayments]';
+
+export const PAYMENT_METHODS = ['stripe', 'cash', 'check', 'manual'] as const;
+export type PaymentMethod = typeof PAYMENT_METHODS[number];
+
+/** Statuses the ledger never overrides — set explicitly by the owner. */
+const LOCKED_STATUSES = ['void', 'cancelled', 'draft'];
+
+const toCents = (value: number): number => Math.round(value * 100);
+
+// ──────────────────────────────────────────────────────────────────────
+// Pure helpers
+// ──────────────────────────────────────────────────────────────────────
+
+/** What a payment still contributes after refunds. */
+export function netPaymentAmount(payment: Pick<Payment, 'amount' | 'refundedAmount'>): number {
+  return roundMoney(toMoney(payment.amount) - toMoney(payment.refundedAmount));
+}
+
+/**
+ * Sum the ledger into the invoice's running totals. Credits (a positive
+ * number) come off the total first. Overpayment clamps the balance at zero.
+ */
+export function summarizeLedger(
+  total: string | number | null | undefined,
+  ledger: Pick<Payment, 'amount' | 'refundedAmount'>[],
+  credited: number = 0,
+): { amountPaid: number; balanceDue: number } {
+  const amountPaid = roundMoney(ledger.reduce((sum, p) => sum + netPaymentAmount(p), 0));
+  const balanceDue = roundMoney(Math.max(0, toMoney(total) - credited - amountPaid));
+  return { amountPaid, balanceDue };
+}
+
+/**
+ * Status implied by the ledger. An invoice whose credit notes cover the
+ * whole total with nothing paid is 'credited'. A partly paid invoice past
+ * its due date stays 'overdue'. A refund or voided credit that re-opens a
+ * settled invoice sends it back to 'overdue' if the due date has passed,
+ * otherwise 'pending'.
+ */
+export function deriveInvoiceStatus(
+  invoice: Pick<Invoice, 'status' | 'total' | 'dueDate' | 'creditedAmount'>,
+  amountPaid: number,
+  now: Date = new Date(),
+): string {
+  const current = invoice.status || 'pending';
+  if (LOCKED_STATUSES.includes(current)) return current;
+
+  const creditedCents = toCents(toMoney(invoice.creditedAmount));
+  const owedCents = toCents(toMoney(invoice.total)) - creditedCents;
+  const paidCents = toCents(amountPaid);
+  if (paidCents > 0 && paidCents >= owedCents) return 'paid';
+  if (paidCents > 0) return isPastDue(invoice.dueDate, now) ? 'overdue' : 'partially_paid';
+  if (creditedCents > 0 && owedCents <= 0) return 'credited';
+
+  if (current === 'paid' || current === 'partially_paid' || current === 'credited') {
+    return isPastDue(invoice.dueDate, now) ? 'overdue' : 'pending';
+  }
+  return current;
+}
+
+function isPastDue(dueDate: Invoice['dueDate'], now: Date): boolean {
+  if (!dueDate) return false;
+  const due = new Date(dueDate);
+  due.setHours(0, 0, 0, 0);
+  const today = new Date(now);
+  today.setHours(0, 0, 0, 0);
+  return due < today;
+}
+
+/**
+ * Balance still owed. Rows created before the ledger have a null
+ * balanceDue; fall back to status so a paid legacy invoice reads as zero.
+ * A voided invoice owes nothing.
+ */
+export function getBalanceDue(
+  invoice: Pick<Invoice, 'status' | 'total' | 'amountPaid' | 'balanceDue'> & Partial<Pick<Invoice, 'creditedAmount'>>,
+): number {
+  if (invoice.status === 'void') return 0;
+  if (invoice.balanceDue != null) return roundMoney(toMoney(invoice.balanceDue));
+  if (invoice.status === 'paid') return 0;
+  return roundMoney(Math.max(0, toMoney(invoice.total) - toMoney(invoice.creditedAmount) - toMoney(invoice.amountPaid)));
+}
+
+/**
+ * Range a customer may pay through the portal. With no minimum configured
+ * the customer must pay the full balance (the pre-ledger behavior); the
+ * minimum never exceeds what is actually owed.
+ */
+export function getPaymentBounds(
+  invoice: Pick<Invoice, 'status' | 'total' | 'amountPaid' | 'balanceDue' | 'minimumPaymentAmount'>,
+): { minimum: number; maximum: number } {
+  const maximum = getBalanceDue(invoice);
+  const configured = invoice.minimumPaymentAmount != null ? toMoney(invoice.minimumPaymentAmount) : maximum;
+  return { minimum: roundMoney(Math.min(Math.max(configured, 0.5), maximum)), maximum };
+}
+
+/** Deposit still owed on a quote, given the deposit rows already collected. */
+export function getDepositOutstanding(
+  quote: Pick<Quote, 'depositAmount'>,
+  deposits: Pick<Payment, 'amount' | 'refundedAmount'>[],
+): number {
+  const required = toMoney(quote.depositAmount);
+  const collected = deposits.reduce((sum, p) => sum + netPaymentAmount(p), 0);
+  return roundMoney(Math.max(0, required - collected));
+}
+
+// ──────────────────────────────────────────────────────────────────────
+// Ledger writes
+// ──────────────────────────────────────────────────────────────────────
+
+export interface BalanceUpdate {
+  invoice: Invoice;
+  becamePaid: boolean;
+}
+
+/** Credit notes are stored negative; sum the issued ones as a positive credit. */
+export function sumIssuedCredits(notes: { total: string | number | null; status: string }[]): number {
+  return roundMoney(
+    notes.filter((n) => n.status === 'issued').reduce((sum, n) => sum + Math.abs(toMoney(n.total)), 0),
+  );
+}
+
+/** Re-derive amountPaid / creditedAmount / balanceDue / status from the ledger and persist them. */
+export async function recalculateInvoiceBalance(invoiceId: number): Promise<BalanceUpdate | null> {
+  const invoice = await storage.getInvoice(invoiceId);
+  if (!invoice) return null;
+
+  const ledger = await storage.getPaymentsByInvoice(invoice.id, invoice.businessId);
+  const credited = sumIssuedCredits(await storage.getCreditNotesByInvoice(invoice.id, invoice.businessId));
+  const summary = summarizeLedger(invoice.total, ledger, credited);
+  const status = deriveInvoiceStatus({ ...invoice, creditedAmount: credited.toFixed(2) }, summary.amountPaid);
+
+  const updated = await storage.updateInvoice(invoice.id, {
+    amountPaid: summary.amountPaid.toFixed(2),
+    creditedAmount: credited.toFixed(2),
+    balanceDue: (status === 'void' ? 0 : summary.balanceDue).toFixed(2),
+    status,
+  });
+
+  return { invoice: updated, becamePaid: status === 'paid' && invoice.status !== 'paid' };
+}
+
+export async function recordInvoicePayment(params: {
+  invoice: Invoice;
+  amount: number;
+  method: PaymentMethod;
+  stripePaymentIntentId?: string;
+  reference?: string | null;
+  notes?: string | null;
+  recordedByUserId?: number | null;
+  paidAt?: Date;
+}): Promise<{ payment: Payment } & BalanceUpdate> {
+  const { invoice } = params;
+  const payment = await storage.createPayment({
+    businessId: invoice.businessId,
+    customerId: invoice.customerId,
+    invoiceId: invoice.id,
+    amount: roundMoney(params.amount).toFixed(2),
+    method: params.method,
+    stripePaymentIntentId: params.stripePaymentIntentId ?? null,
+    reference: params.reference ?? null,
+    notes: params.notes ?? null,
+    recordedByUserId: params.recordedByUserId ?? null,
+    paidAt: params.paidAt ?? new Date(),
+  });
+
+  const balance = await recalculateInvoiceBalance(invoice.id);
+  return { payment, invoice: balance?.invoice ?? invoice, becamePaid: balance?.becamePaid ?? false };
+}
+
+/**
+ * Record a deposit against a quote. If the quote has already converted, the
+ * deposit goes straight onto its invoice instead of waiting on the quote.
+ */
+export async function recordQuoteDeposit(params: {
+  quote: Quote;
+  amount: number;
+  method: PaymentMethod;
+  stripePaymentIntentId?: string;
+  reference?: string | null;
+  notes?: string | null;
+  recordedByUserId?: number | null;
+}): Promise<{ payment: Payment; quote: Quote }> {
+  const { quote } = params;
+  const payment = await storage.createPayment({
+    businessId: quote.businessId,
+    customerId: quote.customerId,
+    quoteId: quote.id,
+    invoiceId: quote.convertedToInvoiceId ?? null,
+    amount: roundMoney(params.amount).toFixed(2),
+    method: params.method,
+    isDeposit: true,
+    stripePaymentIntentId: params.stripePaymentIntentId ?? null,
+    reference: params.reference ?? null,
+    notes: params.notes ?? null,
+    recordedByUserId: params.recordedByUserId ?? null,
+    paidAt: new Date(),
+  });
+
+  if (quote.convertedToInvoiceId) {
+    await recalculateInvoiceBalance(quote.convertedToInvoiceId);
+  }
+  const updatedQuote = await refreshQuoteDepositStatus(quote);
+  return { payment, quote: updatedQuote };
+}
+
+/** Stamp or clear depositPaidAt depending on whether deposits cover depositAmount. */
+async function refreshQuoteDepositStatus(quote: Quote): Promise<Quote> {
+  if (quote.depositAmount == null) return quote;
+  const deposits = await storage.getPaymentsByQuote(quote.id, quote.businessId);
+  const covered = getDepositOutstanding(quote, deposits) === 0;
+  if (covered && !quote.depositPaidAt) {
+    return storage.updateQuote(quote.id, { depositPaidAt: new Date() });
+  }
+  if (!covered && quote.depositPaidAt) {
+    return storage.updateQuote(quote.id, { depositPaidAt: null });
+  }
+  return quote;
+}
+
+/**
+ * Move a converted quote's deposits onto the new invoice so they count
+ * toward its balance. Safe to call on quotes that never took a deposit.
+ */
+export async function applyQuoteDepositsToInvoice(
+  quoteId: number,
+  invoiceId: number,
+  businessId: number,
+): Promise<BalanceUpdate | null> {
+  const moved = await storage.attachQuotePaymentsToInvoice(quoteId, invoiceId, businessId);
+  if (moved.length === 0) return null;
+  console.log(`${LOG_PREFIX} Applied ${moved.length} deposit(s) from quote ${quoteId} to invoice ${invoiceId}`);
+  return recalculateInvoiceBalance(invoiceId);
+}
+
+export type RefundResult =
+  | { ok: true; payment: Payment; balance: BalanceUpdate | null }
+  | { ok: false; reason: 'payment_not_found' | 'exceeds_refundable' | 'invalid_amount'; message: string };
+
+/**
+ * Refund part or all of a payment. Stripe payments are refunded through
+ * Connect before the ledger is touched — if Stripe rejects, nothing is
+ * recorded. Offline payments (cash/check/manual) are recorded only; the
+ * owner hands the money back themselves.
+ */
+export async function refundPayment(params: {
+  payment: Payment;
+  amount: number;
+  reason?: string | null;
+  createdByUserId?: number | null;
+}): Promise<RefundResult> {
+  const { payment } = params;
+  const amount = roundMoney(params.amount);
+  if (!Number.isFinite(amount) || amount <= 0) {
+    return { ok: false, reason: 'invalid_amount', message: 'Refund amount must be greater than zero' };
+  }
+  const refundable = netPaymentAmount(payment);
+  if (toCents(amount) > toCents(refundable)) {
+    return { ok: false, reason: 'exceeds_refundable', message: `At most $${refundable.toFixed(2)} can be refunded on this payment` };
+  }
+
+  let stripeRefundId: string | null = null;
+  if (payment.method === 'stripe' && payment.stripePaymentIntentId) {
+    const refund = await stripeConnectService.refundPayment({
+      paymentIntentId: payment.stripePaymentIntentId,
+      amount,
+      businessId: payment.businessId,
+      paymentId: payment.id,
+    });
+    stripeRefundId = refund.refundId;
+  }
+
+  const result = await storage.recordPaymentRefund({
+    businessId: payment.businessId,
+    paymentId: payment.id,
+    invoiceId: payment.invoiceId,
+    amount: amount.toFixed(2),
+    reason: params.reason ?? null,
+    stripeRefundId,
+    createdByUserId: params.createdByUserId ?? null,
+  });
+
+  if (!result.ok) {
+    if (stripeRefundId) {
+      // Stripe already moved the money; surface loudly so it can be reconciled by hand.
+      console.error(`${LOG_PREFIX} Stripe refund ${stripeRefundId} issued but ledger write failed (${result.reason}) for payment ${payment.id}`);
+    }
+    return {
+      ok: false,
+      reason: result.reason,
+      message: result.reason === 'payment_not_found' ? 'Payment not found' : 'Refund exceeds the refundable amount',
+    };
+  }
+
+  const balance = result.payment.invoiceId ? await recalculateInvoiceBalance(result.payment.invoiceId) : null;
+  if (result.payment.quoteId && !result.payment.invoiceId) {
+    const quote = await storage.getQuoteById(result.payment.quoteId, result.payment.businessId);
+    if (quote) await refreshQuoteDepositStatus(quote);
+  }
+  return { ok: true, payment: result.payment, balance };
+}
+
+// ──────────────────────────────────────────────────────────────────────
+// Stripe webhook entry point
+// ──────────────────────────────────────────────────────────────────────
+
+export type StripeLedgerResult =
+  | { kind: 'duplicate'; payment: Payment }
+  | { kind: 'invoice'; payment: Payment; amount: number } & BalanceUpdate
+  | { kind: 'deposit'; payment: Payment; amount: number; quote: Quote }
+  | { kind: 'ignored'; reason: string };
+
+/**
+ * Turn a succeeded PaymentIntent into a ledger row. Metadata decides the
+ * target: `paymentType=deposit` + `quoteId` for quote deposits, otherwise
+ * `invoiceId`. Returns 'duplicate' if Stripe redelivers the event.
+ */
+export async function recordStripePaymentIntent(paymentIntent: {
+  id: string;
+  amount: number;
+  amount_received?: number | null;
+  metadata?: Record<string, string> | null;
+}): Promise<StripeLedgerResult> {
+  const existing = await storage.getPaymentByStripeIntent(paymentIntent.id);
+  if (existing) return { kind: 'duplicate', payment: existing };
+
+  const amount = roundMoney((paymentIntent.amount_received || paymentIntent.amount) / 100);
+  const metadata = paymentIntent.metadata || {};
+
+  if (metadata.paymentType === 'deposit') {
+    const quoteId = parseInt(metadata.quoteId);
+    const businessId = parseInt(metadata.businessId);
+    const quote = quoteId && businessId ? await storage.getQuoteById(quoteId, businessId) : null;
+    if (!quote) return { kind: 'ignored', reason: `quote ${metadata.quoteId} not found` };
+    const result = await recordQuoteDeposit({ quote, amount, method: 'stripe', stripePaymentIntentId: paymentIntent.id });
+    return { kind: 'deposit', payment: result.payment, amount, quote: result.quote };
+  }
+
+  const invoiceId = parseInt(metadata.invoiceId);
+  const invoice = invoiceId ? await storage.getInvoice(invoiceId) : undefined;
+  if (!invoice) return { kind: 'ignored', reason: `invoice ${metadata.invoiceId} not found` };
+
+  const result = await recordInvoicePayment({ invoice, amount, method: 'stripe', stripePaymentIntentId: paymentIntent.id });
+  return { kind: 'invoice', amount, ...result };
+}
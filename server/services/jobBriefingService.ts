@@ -5,7 +5,7 @@
  * - Customer profile and tags
  * - Customer insights (lifetime value, preferences, sentiment)
  * - Call intelligence (recent transcripts, intent, sentiment scores)
- * - Previous jobs for this customer
+ * - Previous jobs for this customer, with their submitted checklists
  * - Mem0 persistent conversational memory
  *
  * Used by field techs (HVAC, plumbing, electrical, etc.) to walk into
@@ -18,6 +18,7 @@
 import { storage } from '../storage';
 import { claudeJson } from './claudeClient';
 import { searchMemory } from './mem0Service';
+import { summarizeJobForm } from './jobFormService';
 
 export interface JobBriefing {
   summary: string;              // 2-3 sentence overview
@@ -114,6 +115,11 @@ export async function generateJobBriefing(
     .sort((a: any, b: any) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
     .slice(0, 10); // Last 10 jobs
 
+  // Checklists submitted on earlier visits (readings, condition, recommendations)
+  const pastForms = pastJobs.length > 0
+    ? await storage.getJobForms(businessId, pastJobs.slice(0, 5).map((j: any) => j.id)).catch(() => [])
+    : [];
+
   // Build the context prompt — keep it concise to stay under 2000 tokens
   const contextParts: string[] = [];
 
@@ -195,6 +201,17 @@ export async function generateJobBriefing(
     contextParts.push(`--- Previous Jobs (${pastJobs.length} total) ---\n${jobSummaries.join('\n')}`);
   }
 
+  // Previous visit checklists — lets the tech compare today's readings
+  const submittedForms = pastForms.filter(form => form.status === 'submitted');
+  if (submittedForms.length > 0) {
+    const formLines = pastJobs
+      .flatMap((j: any) => submittedForms
+        .filter(form => form.jobId === j.id)
+        .map(form => `- [${j.scheduledDate || j.createdAt?.toString().split('T')[0] || 'unknown date'}] ${summarizeJobForm(form)}`))
+      .slice(0, 4);
+    contextParts.push(`--- Previous Visit Checklists ---\n${formLines.join('\n')}`);
+  }
+
   // Call intelligence (recent call summaries + sentiment)
   if (callIntelligenceRecords.length > 0) {
     const callSummaries = callIntelligenceRecords.slice(0, 3).map((ci: any) => {
@@ -232,7 +249,7 @@ export async function generateJobBriefing(
 Return valid JSON with exactly these fields:
 - summary (string): 2-3 sentence overview of who this customer is and what this job is about
 - customerContext (string): 1-2 sentences about the customer relationship — how long they've been a customer, their value, preferences, any notable history
-- jobHistory (string): 1-2 sentences summarizing their previous visits and any patterns or recurring issues
+- jobHistory (string): 1-2 sentences summarizing their previous visits and any patterns or recurring issues, including readings from previous visit checklists worth comparing against today
 - currentJob (string): 1-2 sentences about what this specific visit is for and any relevant details
 - sentiment (string): 1 sentence about the customer's overall mood/satisfaction trend based on call data and insights
 - suggestedApproach (string): 2-3 sentences of practical advice for the tech — how to greet them, what to be aware of, any sensitivities
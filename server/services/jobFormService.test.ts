@@ -0,0 +1,196 @@
+/**
+ * jobFormService tests — answer checking, the completion gate, attaching
+ * templates by service, and the one-line summaries used in briefings.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { JobFormField } from '@shared/schema';
+
+const { mockStorage } = vi.hoisted(() => ({
+  mockStorage: {
+    getJobForms: vi.fn(),
+    getJobFormTemplates: vi.fn(),
+    createJobFormsIfMissing: vi.fn(),
+    updateJobForm: vi.fn(),
+    getAppointment: vi.fn(),
+    getAppointmentServices: vi.fn(),
+  },
+}));
+
+vi.mock('../storage', () => ({ storage: mockStorage }));
+
+import { getPublicUrl } from '../utils/s3Upload';
+import {
+  cleanJobFormAnswers,
+  getIncompleteRequiredForms,
+  getJobFormsForJob,
+  getStarterTemplates,
+  missingRequiredFields,
+  outOfRangeReadings,
+  saveJobFormAnswers,
+  summarizeJobForm,
+  templateAppliesTo,
+} from './jobFormService';
+
+const PNG = 'data:image/png;base64,iVBORw0KGgo=';
+const PHOTO_URL = getPublicUrl('job-forms/job-1-form-3-1760000000000.jpg');
+
+const FIELDS: JobFormField[] = [
+  { id: 'filter', label: 'Filter replaced', type: 'checkbox', required: true },
+  { id: 'psi', label: 'Suction pressure', type: 'reading', unit: 'psi', min: 60, max: 80, required: true },
+  { id: 'condition', label: 'Condition', type: 'select', options: ['Good', 'Fair'] },
+  { id: 'photo', label: 'Outdoor unit', type: 'photo' },
+  { id: 'sig', label: 'Customer signature', type: 'signature', required: true },
+];
+
+const JOB = { id: 1, businessId: 5, appointmentId: 9, status: 'in_progress' } as any;
+
+function makeForm(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 3, jobId: 1, businessId: 5, templateId: 2, name: 'AC Checklist', fields: FIELDS,
+    answers: {}, requiredForCompletion: true, status: 'pending', ...overrides,
+  } as any;
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockStorage.getJobForms.mockResolvedValue([]);
+  mockStorage.getJobFormTemplates.mockResolvedValue([]);
+  mockStorage.createJobFormsIfMissing.mockImplementation(async (forms: any[]) => forms.map((form, i) => ({ id: 100 + i, ...form })));
+  mockStorage.updateJobForm.mockImplementation(async (id: number, data: any) => ({ ...makeForm(), id, ...data }));
+  mockStorage.getAppointment.mockResolvedValue({ id: 9, serviceId: 40 });
+  mockStorage.getAppointmentServices.mockResolvedValue([{ serviceId: 41 }]);
+});
+
+describe('cleanJobFormAnswers', () => {
+  it('keeps well-formed answers, coerces numeric strings and drops unknown fields', () => {
+    const { answers, invalid } = cleanJobFormAnswers(FIELDS, {
+      filter: true, psi: '68.5', condition: 'Fair', photo: { url: PHOTO_URL }, bogus: 'x',
+    });
+    expect(invalid).toEqual([]);
+    expect(answers).toEqual({ filter: true, psi: 68.5, condition: 'Fair', photo: { url: PHOTO_URL } });
+  });
+
+  it('accepts only photo URLs from the form photo upload', () => {
+    for (const url of [
+      'https://cdn.test/a.jpg',
+      'http://169.254.169.254/latest/meta-data/',
+      getPublicUrl('job-photos/a.jpg'),
+      getPublicUrl('job-forms/../secret.jpg'),
+      `${PHOTO_URL}?x=1`,
+    ]) {
+      expect(cleanJobFormAnswers(FIELDS, { photo: { url } }).invalid).toEqual(['Outdoor unit']);
+    }
+  });
+
+  it('reports the wrong shapes by label and treats null as clearing', () => {
+    const { answers, invalid } = cleanJobFormAnswers(FIELDS, {
+      filter: 'yes', psi: 'high', condition: 'Terrible', photo: { url: 'javascript:alert(1)' }, sig: null,
+    });
+    expect(invalid).toEqual(['Filter replaced', 'Suction pressure', 'Condition', 'Outdoor unit']);
+    expect(answers).toEqual({ sig: null });
+  });
+
+  it('accepts only PNG data URLs for signatures and stamps the time server-side', () => {
+    const { answers } = cleanJobFormAnswers(FIELDS, { sig: { image: PNG, signerName: 'Dana', signedAt: '1999-01-01' } });
+    expect(answers.sig).toMatchObject({ image: PNG, signerName: 'Dana' });
+    expect((answers.sig as any).signedAt).not.toBe('1999-01-01');
+    expect(cleanJobFormAnswers(FIELDS, { sig: { image: 'data:image/svg+xml;base64,AAA' } }).invalid).toEqual(['Customer signature']);
+  });
+});
+
+describe('required fields and readings', () => {
+  it('needs required checkboxes ticked, not just present', () => {
+    const missing = missingRequiredFields({ fields: FIELDS, answers: { filter: false, psi: 70 } });
+    expect(missing.map(field => field.id)).toEqual(['filter', 'sig']);
+  });
+
+  it('flags readings outside their range', () => {
+    expect(outOfRangeReadings({ fields: FIELDS, answers: { psi: 92 } })).toEqual(['Suction pressure: 92 psi (expected 60–80)']);
+    expect(outOfRangeReadings({ fields: FIELDS, answers: { psi: 70 } })).toEqual([]);
+  });
+
+  it('summarizes a form without photos or signatures', () => {
+    const summary = summarizeJobForm({
+      name: 'AC Checklist', fields: FIELDS,
+      answers: { filter: true, psi: 92, condition: 'Fair', photo: { url: 'https://cdn.test/a.jpg' }, sig: { image: PNG, signedAt: 'x' } },
+    });
+    expect(summary).toBe('AC Checklist: Filter replaced Yes; Suction pressure 92 psi (out of range); Condition Fair');
+  });
+});
+
+describe('templateAppliesTo', () => {
+  it('matches unscoped templates to every job and scoped ones by service', () => {
+    expect(templateAppliesTo({ serviceIds: [] }, [])).toBe(true);
+    expect(templateAppliesTo({ serviceIds: [41] }, [40, 41])).toBe(true);
+    expect(templateAppliesTo({ serviceIds: [42] }, [40, 41])).toBe(false);
+  });
+
+  it('has starters for field-service industries only', () => {
+    expect(getStarterTemplates('HVAC').length).toBeGreaterThan(0);
+    expect(getStarterTemplates('barbershop')).toEqual([]);
+  });
+});
+
+describe('getJobFormsForJob', () => {
+  it('attaches active templates that match the appointment services', async () => {
+    mockStorage.getJobFormTemplates.mockResolvedValue([
+      { id: 2, name: 'Every job', serviceIds: [], fields: FIELDS, requiredForCompletion: true },
+      { id: 3, name: 'Line service', serviceIds: [41], fields: [], requiredForCompletion: false },
+      { id: 4, name: 'Other service', serviceIds: [99], fields: [], requiredForCompletion: true },
+    ]);
+
+    const forms = await getJobFormsForJob(JOB);
+
+    expect(mockStorage.getJobFormTemplates).toHaveBeenCalledWith(5, { activeOnly: true });
+    expect(forms.map(form => form.templateId)).toEqual([2, 3]);
+    expect(forms[1]).toMatchObject({ jobId: 1, name: 'Line service', requiredForCompletion: false, status: 'pending' });
+  });
+
+  it('does not attach to closed jobs', async () => {
+    mockStorage.getJobFormTemplates.mockResolvedValue([{ id: 2, name: 'Every job', serviceIds: [], fields: [] }]);
+    const forms = await getJobFormsForJob({ ...JOB, status: 'completed' });
+    expect(forms).toEqual([]);
+    expect(mockStorage.createJobFormsIfMissing).not.toHaveBeenCalled();
+  });
+
+  it('gates completion on required forms that are not submitted', async () => {
+    mockStorage.getJobForms.mockResolvedValue([
+      makeForm({ id: 1, status: 'submitted' }),
+      makeForm({ id: 2, templateId: 5 }),
+      makeForm({ id: 3, templateId: 6, requiredForCompletion: false }),
+    ]);
+    const incomplete = await getIncompleteRequiredForms(JOB);
+    expect(incomplete.map(form => form.id)).toEqual([2]);
+  });
+});
+
+describe('saveJobFormAnswers', () => {
+  it('saves a draft without requiring every field', async () => {
+    const result = await saveJobFormAnswers(JOB, makeForm(), { answers: { psi: 92 } }, 7);
+    expect(result).toMatchObject({ ok: true, outOfRange: ['Suction pressure: 92 psi (expected 60–80)'] });
+    expect(mockStorage.updateJobForm).toHaveBeenCalledWith(3, { answers: { psi: 92 } });
+  });
+
+  it('refuses to submit with required fields missing', async () => {
+    const result = await saveJobFormAnswers(JOB, makeForm(), { answers: { filter: true }, submit: true }, 7);
+    expect(result).toEqual({
+      ok: false, reason: 'incomplete', message: 'Still needed: Suction pressure, Customer signature',
+      fields: ['Suction pressure', 'Customer signature'],
+    });
+    expect(mockStorage.updateJobForm).not.toHaveBeenCalled();
+  });
+
+  it('submits once everything required is answered', async () => {
+    const form = makeForm({ answers: { filter: true, psi: 70 } });
+    const result = await saveJobFormAnswers(JOB, form, { answers: { sig: { image: PNG } }, submit: true }, 7);
+    expect(result.ok).toBe(true);
+    expect(mockStorage.updateJobForm).toHaveBeenCalledWith(3, expect.objectContaining({
+      status: 'submitted', submittedByUserId: 7, submittedAt: expect.any(Date),
+    }));
+  });
+
+  it('locks forms on completed jobs', async () => {
+    const result = await saveJobFormAnswers({ ...JOB, status: 'completed' }, makeForm(), { answers: { psi: 70 } }, 7);
+    expect(result).toMatchObject({ ok: false, reason: 'locked' });
+  });
+});
@@ -0,0 +1,385 @@
+/**
+ * Job Form Service — structured checklists techs fill in on a job
+ *
+ * Owners build form templates (checkboxes, readings such as refrigerant
+ * pressure or amp draw, photo fields, signatures) and scope each one to
+ * services, or to every job. Templates attach to a job on demand — whenever
+ * its forms are read or it's about to be completed — so jobs created by any
+ * path (booking, AI receptionist, recurring schedules, approved quotes) pick
+ * them up without each path knowing about forms.
+ *
+ *   1. Attaching snapshots the template's name, fields and completion
+ *      requirement onto a job_forms row; later template edits don't change it.
+ *   2. Answers are saved as the tech goes. Submitting checks that every
+ *      required field is answered.
+ *   3. A job can't move to `completed` while a form that's required for
+ *      completion is unsubmitted. Once completed, its forms are locked.
+ *
+ * Submitted answers appear in the job report PDF and in the next visit's
+ * briefing for the same customer.
+ */
+
+import type { Job, JobForm, JobFormAnswer, JobFormField, JobFormTemplate } from "@shared/schema";
+import { getIndustryConfig } from "@shared/industry-config";
+import { storage } from "../storage";
+import { getPublicUrl } from "../utils/s3Upload";
+
+const CLOSED_JOB_STATUSES = ["completed", "cancelled"];
+
+// A signature pad PNG is a few KB; anything this large isn't one
+const MAX_SIGNATURE_DATA_URL_LENGTH = 300_000;
+
+// Where form photo uploads land in the media bucket. Photo answers must point
+// here — the report PDF fetches them server-side, so any other URL would let a
+// tech make the server request an address of their choosing.
+const JOB_FORM_PHOTO_PREFIX = "job-forms/";
+const JOB_FORM_PHOTO_KEY = /^[A-Za-z0-9._-]+$/;
+
+/** S3 key for a photo uploaded against a form field */
+export function jobFormPhotoKey(jobId: number, formId: number, ext: string): string {
+  const safeExt = /^[A-Za-z0-9]{1,5}$/.test(ext) ? ext.toLowerCase() : "jpg";
+  return `${JOB_FORM_PHOTO_PREFIX}job-${jobId}-form-${formId}-${Date.now()}.${safeExt}`;
+}
+
+/** True only for URLs handed out by the form photo upload route */
+export function isJobFormPhotoUrl(url: string): boolean {
+  const base = getPublicUrl(JOB_FORM_PHOTO_PREFIX);
+  return url.startsWith(base) && JOB_FORM_PHOTO_KEY.test(url.slice(base.length));
+}
+
+export type JobFormSaveResult =
+  | { ok: true; form: JobForm; outOfRange: string[] }
+  | { ok: false; reason: "locked" | "invalid" | "incomplete"; message: string; fields?: string[] };
+
+// ────────────────────────────────────────────────────────────────────────────
+// Starter templates per industry
+// ────────────────────────────────────────────────────────────────────────────
+
+type StarterTemplate = Pick<JobFormTemplate, "name" | "description" | "fields">;
+
+const SIGN_OFF: JobFormField = { id: "customer_signature", label: "Customer signature", type: "signature", required: true };
+
+export const JOB_FORM_STARTERS: Record<string, StarterTemplate[]> = {
+  hvac: [
+    {
+      name: "AC Maintenance Checklist",
+      description: "Seasonal tune-up readings and inspection points",
+      fields: [
+        { id: "filter_replaced", label: "Air filter replaced", type: "checkbox", required: true },
+        { id: "coils_cleaned", label: "Condenser coil cleaned", type: "checkbox" },
+        { id: "suction_pressure", label: "Suction pressure", type: "reading", unit: "psi", required: true },
+        { id: "discharge_pressure", label: "Discharge pressure", type: "reading", unit: "psi", required: true },
+        { id: "compressor_amps", label: "Compressor amp draw", type: "reading", unit: "A", required: true },
+        { id: "supply_temp", label: "Supply air temperature", type: "reading", unit: "°F" },
+        { id: "return_temp", label: "Return air temperature", type: "reading", unit: "°F" },
+        { id: "condition", label: "Overall system condition", type: "select", options: ["Good", "Fair", "Needs repair"], required: true },
+        { id: "unit_photo", label: "Photo of outdoor unit", type: "photo", required: true },
+        { id: "notes", label: "Recommendations", type: "text" },
+        SIGN_OFF,
+      ],
+    },
+    {
+      name: "Furnace Safety Inspection",
+      description: "Heating season safety checks",
+      fields: [
+        { id: "heat_exchanger_ok", label: "Heat exchanger inspected, no cracks", type: "checkbox", required: true },
+        { id: "co_reading", label: "CO reading at flue", type: "reading", unit: "ppm", min: 0, max: 100, required: true },
+        { id: "gas_pressure", label: "Manifold gas pressure", type: "reading", unit: "in. WC", required: true },
+        { id: "flame_sensor_cleaned", label: "Flame sensor cleaned", type: "checkbox" },
+        { id: "notes", label: "Recommendations", type: "text" },
+        SIGN_OFF,
+      ],
+    },
+  ],
+  plumbing: [
+    {
+      name: "Water Heater Service",
+      description: "Flush and safety checks",
+      fields: [
+        { id: "tank_flushed", label: "Tank flushed", type: "checkbox", required: true },
+        { id: "tp_valve_tested", label: "T&P relief valve tested", type: "checkbox", required: true },
+        { id: "water_pressure", label: "Incoming water pressure", type: "reading", unit: "psi", min: 40, max: 80, required: true },
+        { id: "anode_condition", label: "Anode rod condition", type: "select", options: ["Good", "Worn", "Replaced"] },
+        { id: "heater_photo", label: "Photo of water heater", type: "photo" },
+        SIGN_OFF,
+      ],
+    },
+  ],
+  electrical: [
+    {
+      name: "Panel Inspection",
+      description: "Service panel safety checks",
+      fields: [
+        { id: "breakers_labeled", label: "Breakers labeled", type: "checkbox" },
+        { id: "no_double_taps", label: "No double-tapped breakers", type: "checkbox", required: true },
+        { id: "voltage_l1_l2", label: "Voltage L1–L2", type: "reading", unit: "V", min: 228, max: 252, required: true },
+        { id: "main_amps", label: "Main load amp draw", type: "reading", unit: "A", required: true },
+        { id: "panel_photo", label: "Photo of open panel", type: "photo", required: true },
+        SIGN_OFF,
+      ],
+    },
+  ],
+};
+
+/** Starter templates for the business's industry (none for industries without a set) */
+export function getStarterTemplates(industry: string | null | undefined): StarterTemplate[] {
+  return JOB_FORM_STARTERS[getIndustryConfig(industry).slug] || [];
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Answers (pure)
+// ────────────────────────────────────────────────────────────────────────────
+
+/** Empty serviceIds means the template goes on every job */
+export function templateAppliesTo(template: Pick<JobFormTemplate, "serviceIds">, serviceIds: number[]): boolean {
+  const scoped = template.serviceIds || [];
+  return scoped.length === 0 || scoped.some(id => serviceIds.includes(id));
+}
+
+export function isFieldAnswered(field: JobFormField, value: JobFormAnswer | undefined): boolean {
+  if (value === undefined || value === null) return false;
+  switch (field.type) {
+    case "checkbox":
+      // A required checkbox has to be ticked, not just touched
+      return value === true;
+    case "reading":
+      return typeof value === "number" && Number.isFinite(value);
+    case "text":
+    case "select":
+      return typeof value === "string" && value.trim().length > 0;
+    case "photo":
+      return typeof value === "object" && "url" in value && !!value.url;
+    case "signature":
+      return typeof value === "object" && "image" in value && !!value.image;
+  }
+}
+
+/**
+ * Checks raw answers against the form's fields. Unknown field ids are
+ * dropped; null clears an answer. Returns the cleaned answers or the labels
+ * of fields whose value has the wrong shape.
+ */
+export function cleanJobFormAnswers(
+  fields: JobFormField[],
+  raw: Record<string, unknown>,
+): { answers: Record<string, JobFormAnswer | null>; invalid: string[] } {
+  const answers: Record<string, JobFormAnswer | null> = {};
+  const invalid: string[] = [];
+
+  for (const field of fields) {
+    if (!(field.id in raw)) continue;
+    const value = raw[field.id];
+    if (value === null || value === "") {
+      answers[field.id] = null;
+      continue;
+    }
+
+    let cleaned: JobFormAnswer | undefined;
+    switch (field.type) {
+      case "checkbox":
+        if (typeof value === "boolean") cleaned = value;
+        break;
+      case "reading": {
+        const num = typeof value === "string" ? Number(value) : value;
+        if (typeof num === "number" && Number.isFinite(num)) cleaned = num;
+        break;
+      }
+      case "text":
+        if (typeof value === "string" && value.length <= 5000) cleaned = value;
+        break;
+      case "select":
+        if (typeof value === "string" && (!field.options?.length || field.options.includes(value))) cleaned = value;
+        break;
+      case "photo":
+        if (value && typeof value === "object" && typeof (value as any).url === "string" && isJobFormPhotoUrl((value as any).url)) {
+          cleaned = { url: (value as any).url };
+        }
+        break;
+      case "signature": {
+        const image = value && typeof value === "object" ? (value as any).image : undefined;
+        if (typeof image === "string" && image.startsWith("data:image/png;base64,") && image.length <= MAX_SIGNATURE_DATA_URL_LENGTH) {
+          const signerName = (value as any).signerName;
+          cleaned = {
+            image,
+            signerName: typeof signerName === "string" ? signerName.slice(0, 200) : null,
+            signedAt: new Date().toISOString(),
+          };
+        }
+        break;
+      }
+    }
+
+    if (cleaned === undefined) invalid.push(field.label);
+    else answers[field.id] = cleaned;
+  }
+
+  return { answers, invalid };
+}
+
+export function missingRequiredFields(form: Pick<JobForm, "fields" | "answers">): JobFormField[] {
+  const answers = form.answers || {};
+  return (form.fields || []).filter(field => field.required && !isFieldAnswered(field, answers[field.id]));
+}
+
+export function isReadingOutOfRange(field: JobFormField, value: JobFormAnswer | undefined): boolean {
+  if (field.type !== "reading" || typeof value !== "number") return false;
+  return (field.min != null && value < field.min) || (field.max != null && value > field.max);
+}
+
+/** Readings outside the field's expected range, e.g. "CO reading at flue: 140 ppm (expected 0–100)" */
+export function outOfRangeReadings(form: Pick<JobForm, "fields" | "answers">): string[] {
+  const answers = form.answers || {};
+  return (form.fields || [])
+    .filter(field => isReadingOutOfRange(field, answers[field.id]))
+    .map(field => `${field.label}: ${formatJobFormAnswer(field, answers[field.id])} (expected ${field.min ?? "…"}–${field.max ?? "…"})`);
+}
+
+/** One answer as text, for reports and briefings. Signatures and photos are drawn separately. */
+export function formatJobFormAnswer(field: JobFormField, value: JobFormAnswer | undefined): string {
+  if (!isFieldAnswered(field, value) && field.type !== "checkbox") return "—";
+  switch (field.type) {
+    case "checkbox":
+      return value === true ? "Yes" : "No";
+    case "reading":
+      return field.unit ? `${value} ${field.unit}` : String(value);
+    case "photo":
+      return "Photo attached";
+    case "signature": {
+      const signerName = (value as { signerName?: string | null }).signerName;
+      return signerName ? `Signed by ${signerName}` : "Signed";
+    }
+    default:
+      return String(value);
+  }
+}
+
+/**
+ * A submitted form on one line for AI context, e.g. "AC Maintenance Checklist:
+ * Suction pressure 68 psi; Condition Fair". Photos and signatures are left out.
+ */
+export function summarizeJobForm(form: Pick<JobForm, "name" | "fields" | "answers">, maxLength = 400): string {
+  const answers = form.answers || {};
+  const parts = (form.fields || [])
+    .filter(field => field.type !== "photo" && field.type !== "signature" && isFieldAnswered(field, answers[field.id]))
+    .map(field => {
+      const value = answers[field.id];
+      const flag = isReadingOutOfRange(field, value) ? " (out of range)" : "";
+      return `${field.label} ${formatJobFormAnswer(field, value)}${flag}`;
+    });
+  const line = `${form.name}: ${parts.join("; ") || "no readings recorded"}`;
+  return line.length > maxLength ? `${line.substring(0, maxLength - 1)}…` : line;
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Attaching and the completion gate
+// ────────────────────────────────────────────────────────────────────────────
+
+/** Services on the job's linked appointment, including every line of a multi-service booking */
+async function getJobServiceIds(job: Job): Promise<number[]> {
+  if (!job.appointmentId) return [];
+  const [appointment, lines] = await Promise.all([
+    storage.getAppointment(job.appointmentId),
+    storage.getAppointmentServices(job.appointmentId),
+  ]);
+  const ids = lines.map(line => line.serviceId);
+  if (appointment?.serviceId) ids.push(appointment.serviceId);
+  return Array.from(new Set(ids));
+}
+
+/**
+ * The job's forms, first attaching any active template that applies and
+ * isn't on it yet. Closed jobs only get what they already have.
+ */
+export async function getJobFormsForJob(job: Job): Promise<JobForm[]> {
+  const existing = await storage.getJobForms(job.businessId, [job.id]);
+  if (CLOSED_JOB_STATUSES.includes(job.status || "")) return existing;
+
+  const templates = await storage.getJobFormTemplates(job.businessId, { activeOnly: true });
+  const attached = new Set(existing.map(form => form.templateId));
+  const candidates = templates.filter(template => !attached.has(template.id));
+  if (candidates.length === 0) return existing;
+
+  const serviceIds = await getJobServiceIds(job);
+  const toAttach = candidates.filter(template => templateAppliesTo(template, serviceIds));
+  if (toAttach.length === 0) return existing;
+
+  const created = await storage.createJobFormsIfMissing(toAttach.map(template => ({
+    businessId: job.businessId,
+    jobId: job.id,
+    templateId: template.id,
+    name: template.name,
+    fields: template.fields,
+    requiredForCompletion: template.requiredForCompletion ?? true,
+    answers: {},
+    status: "pending",
+  })));
+  return [...existing, ...created].sort((a, b) => a.id - b.id);
+}
+
+/** Required forms still unsubmitted — the job can't be completed while any remain */
+export async function getIncompleteRequiredForms(job: Job): Promise<JobForm[]> {
+  const forms = await getJobFormsForJob(job);
+  return forms.filter(form => form.requiredForCompletion && form.status !== "submitted");
+}
+
+/**
+ * Saves answers on a form. With `submit`, or when the form was already
+ * submitted, every required field must be answered afterwards.
+ */
+export async function saveJobFormAnswers(
+  job: Job,
+  form: JobForm,
+  input: { answers: Record<string, unknown>; submit?: boolean },
+  userId: number | null,
+): Promise<JobFormSaveResult> {
+  if (CLOSED_JOB_STATUSES.includes(job.status || "")) {
+    return { ok: false, reason: "locked", message: `Forms can't be changed on a ${job.status} job` };
+  }
+
+  const { answers: cleaned, invalid } = cleanJobFormAnswers(form.fields || [], input.answers);
+  if (invalid.length > 0) {
+    return { ok: false, reason: "invalid", message: `Check these answers: ${invalid.join(", ")}`, fields: invalid };
+  }
+
+  const answers: Record<string, JobFormAnswer> = { ...(form.answers || {}) };
+  for (const [fieldId, value] of Object.entries(cleaned)) {
+    if (value === null) delete answers[fieldId];
+    else answers[fieldId] = value;
+  }
+
+  const submitting = input.submit || form.status === "submitted";
+  if (submitting) {
+    const missing = missingRequiredFields({ fields: form.fields, answers }).map(field => field.label);
+    if (missing.length > 0) {
+      return { ok: false, reason: "incomplete", message: `Still needed: ${missing.join(", ")}`, fields: missing };
+    }
+  }
+
+  const updated = await storage.updateJobForm(form.id, {
+    answers,
+    ...(submitting && form.status !== "submitted"
+      ? { status: "submitted", submittedAt: new Date(), submittedByUserId: userId }
+      : {}),
+  });
+  return { ok: true, form: updated, outOfRange: outOfRangeReadings(updated) };
+}
+
+/** Adds the industry's starter templates the business doesn't already have (matched by name) */
+export async function installStarterTemplates(businessId: number, industry: string | null | undefined): Promise<JobFormTemplate[]> {
+  const existing = await storage.getJobFormTemplates(businessId);
+  const names = new Set(existing.map(template => template.name.toLowerCase()));
+  const created: JobFormTemplate[] = [];
+  for (const starter of getStarterTemplates(industry)) {
+    if (names.has(starter.name.toLowerCase())) continue;
+    created.push(await storage.createJobFormTemplate({
+      businessId,
+      name: starter.name,
+      description: starter.description,
+      serviceIds: [],
+      fields: starter.fields,
+      requiredForCompletion: true,
+      active: true,
+    }));
+  }
+  return created;
+}
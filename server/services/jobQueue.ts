@@ -82,17 +82,22 @@ export type JobType =
   | 'send-job-status-notification'
   | 'dispatch-orchestration-event'
   | 'fire-webhook-event'
+  | 'deliver-webhook'
   | 'sync-calendar'
   | 'analyze-call-intelligence'
-  | 'notify-owner';
+  | 'notify-owner'
+  | 'sync-quickbooks-credit-note'
+  | 'void-quickbooks-credit-note';
 
 // ── Job Handlers ──
 
 /**
  * Each handler processes one job type. They receive the job data
- * and must throw on failure (pg-boss will retry).
+ * and must throw on failure (pg-boss will retry). `direct` is set when the
+ * job runs outside pg-boss (enqueue fallback, dead-letter replay), where a
+ * throw is never retried.
  */
-const JOB_HANDLERS: Record<string, (data: any) => Promise<void>> = {
+const JOB_HANDLERS: Record<string, (data: any, direct?: boolean) => Promise<void>> = {
   'send-sms': async (data) => {
     const { sendSms } = await import('./twilioService');
     await sendSms(data.to, data.message, data.mediaUrl, data.businessId);
@@ -146,6 +151,12 @@ const JOB_HANDLERS: Record<string, (data: any) => Promise<void>> = {
     await fireEvent(data.businessId, data.event, data.payload);
   },
 
+  'deliver-webhook': async (data, direct) => {
+    const { attemptDelivery } = await import('./webhookService');
+    // Without queue retries this attempt is the last one — settle the delivery
+    await attemptDelivery(data.deliveryId, { finalAttempt: direct });
+  },
+
   'sync-calendar': async (data) => {
     const { CalendarService } = await import('./calendarService');
     const calendarService = new CalendarService();
@@ -167,6 +178,16 @@ const JOB_HANDLERS: Record<string, (data: any) => Promise<void>> = {
       await mod.notifyOwnerNewBooking(data.appointmentId, data.businessId);
     }
   },
+
+  'sync-quickbooks-credit-note': async (data) => {
+    const { syncCreditNoteToQuickBooks } = await import('./creditNoteService');
+    await syncCreditNoteToQuickBooks(data.creditNoteId, data.businessId);
+  },
+
+  'void-quickbooks-credit-note': async (data) => {
+    const { voidCreditNoteInQuickBooks } = await import('./creditNoteService');
+    await voidCreditNoteInQuickBooks(data.creditNoteId, data.businessId);
+  },
 };
 
 // ── Dead Letter Queue ──
@@ -218,7 +239,7 @@ export async function executeJobDirectly(jobType: string, data: Record<string, a
   if (!handler) {
     throw new Error(`Unknown job type: ${jobType}`);
   }
-  await handler(data);
+  await handler(data, true);
 }
 
 // ── Public API ──
@@ -257,7 +278,7 @@ export async function enqueue(
         await recordDeadLetter(jobType, data, new Error(`No handler registered for ${jobType}`));
         return null;
       }
-      handler(data).catch(async (e) => {
+      handler(data, true).catch(async (e) => {
         console.error(`[JobQueue] Fallback execution of ${jobType} also failed — dead-lettering:`, e);
         await recordDeadLetter(jobType, data, e);
       });
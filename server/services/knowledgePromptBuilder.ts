@@ -8,6 +8,8 @@
 
 import { storage } from '../storage';
 import { sanitizeUntrustedText, fenceKnowledgeBlock } from '../utils/promptSanitizer';
+import { SUPPORTED_LANGUAGES } from '@shared/languages';
+import type { BusinessKnowledge } from '@shared/schema';
 
 // Category display names for the prompt
 const CATEGORY_LABELS: Record<string, string> = {
@@ -19,6 +21,30 @@ const CATEGORY_LABELS: Record<string, string> = {
   'general': 'GENERAL INFORMATION',
 };
 
+/**
+ * Format one entry as a Q&A pair, followed by any translations the owner added
+ * so the receptionist can answer word-for-word after switching languages.
+ * Returns null when the entry has nothing usable after sanitizing.
+ */
+function formatEntry(entry: BusinessKnowledge): string | null {
+  // Owner/scraper-supplied content is UNTRUSTED relative to the system
+  // prompt — sanitize (strip fence tags, role markers, control chars,
+  // cap length) before interpolation. See server/utils/promptSanitizer.ts.
+  const q = sanitizeUntrustedText(entry.question, 300);
+  const a = sanitizeUntrustedText(entry.answer, 1500);
+  if (!q || !a) return null;
+  let text = `Q: ${q}\nA: ${a}\n`;
+
+  for (const language of SUPPORTED_LANGUAGES) {
+    const translation = entry.translations?.[language.code];
+    if (!translation) continue;
+    const tq = sanitizeUntrustedText(translation.question, 300);
+    const ta = sanitizeUntrustedText(translation.answer, 1500);
+    if (tq && ta) text += `Q (${language.name}): ${tq}\nA (${language.name}): ${ta}\n`;
+  }
+  return text;
+}
+
 /**
  * Build the knowledge section for the AI receptionist system prompt.
  * Fetches all approved knowledge entries, groups by category, formats as Q&A pairs.
@@ -65,13 +91,8 @@ export async function buildKnowledgeSection(
       let sectionText = `${label}:\n`;
 
       for (const entry of categoryEntries) {
-        // Owner/scraper-supplied content is UNTRUSTED relative to the system
-        // prompt — sanitize (strip fence tags, role markers, control chars,
-        // cap length) before interpolation. See server/utils/promptSanitizer.ts.
-        const q = sanitizeUntrustedText(entry.question, 300);
-        const a = sanitizeUntrustedText(entry.answer, 1500);
-        if (!q || !a) continue;
-        const entryText = `Q: ${q}\nA: ${a}\n`;
+        const entryText = formatEntry(entry);
+        if (!entryText) continue;
 
         // Check if adding this entry would exceed budget
         if (totalChars + sectionText.length + entryText.length > maxCharBudget) {
@@ -103,10 +124,8 @@ export async function buildKnowledgeSection(
       let sectionText = `${label}:\n`;
 
       for (const entry of categoryEntries) {
-        const q = sanitizeUntrustedText(entry.question, 300);
-        const a = sanitizeUntrustedText(entry.answer, 1500);
-        if (!q || !a) continue;
-        const entryText = `Q: ${q}\nA: ${a}\n`;
+        const entryText = formatEntry(entry);
+        if (!entryText) continue;
         if (totalChars + sectionText.length + entryText.length > maxCharBudget) {
           if (!sectionText.endsWith(':\n')) {
             sections.push(sectionText);
@@ -10,6 +10,7 @@
  */
 
 import { storage } from '../../storage';
+import { loadResourcePoolForService } from '../resourceBookingService';
 
 export const SMS_AGENT_SYSTEM = `You are the SMS Intelligence agent for SmallBizAgent. You handle inbound
 customer SMS replies that require AI reasoning.
@@ -114,6 +115,9 @@ export function createSmsToolHandlers(businessId: number) {
           if (svc?.duration) duration = svc.duration;
         }
 
+        const dayAfter = new Date(dateObj.getTime() + 24 * 60 * 60 * 1000);
+        const resourcePool = await loadResourcePoolForService(businessId, input.serviceId, dateObj, dayAfter);
+
         const result = await getAvailableSlotsForDay(
           businessId,
           dateObj,
@@ -123,6 +127,7 @@ export function createSmsToolHandlers(businessId: number) {
           undefined,
           30,
           business.timezone || 'America/New_York',
+          resourcePool,
         );
         return { date: input.date, availableSlots: result.slots.slice(0, 5), isClosed: result.isClosed };
       } catch (err) {
@@ -9,6 +9,7 @@ const mockStorage = vi.hoisted(() => ({
   createOutboundMessage: vi.fn(),
   createSmsActivityFeedEntry: vi.fn(),
   upsertConversationState: vi.fn(),
+  touchSmsInboxThreadForCustomer: vi.fn(),
 }));
 
 const mockTwilioSendSms = vi.hoisted(() => vi.fn());
@@ -117,6 +118,7 @@ describe('messageIntelligenceService', () => {
     mockStorage.createOutboundMessage.mockResolvedValue({ id: 1 });
     mockStorage.createSmsActivityFeedEntry.mockResolvedValue({ id: 1 });
     mockStorage.upsertConversationState.mockResolvedValue({});
+    mockStorage.touchSmsInboxThreadForCustomer.mockResolvedValue(undefined);
     mockTwilioSendSms.mockResolvedValue({ sid: 'SM123' });
 
     const mod = await import('./messageIntelligenceService');
@@ -207,6 +209,54 @@ describe('messageIntelligenceService', () => {
     });
   });
 
+  // ── Customer Language ──
+
+  describe('customer language', () => {
+    it('should send templates in the customer\'s preferred language', async () => {
+      mockStorage.getCustomer.mockResolvedValue({ ...TEST_CUSTOMER, preferredLanguage: 'es' });
+
+      const result = await generateMessage({
+        messageType: 'APPOINTMENT_REMINDER',
+        businessId: 1,
+        customerId: 10,
+        recipientPhone: '+15559876543',
+        useTemplate: true,
+        isMarketing: false,
+        context: {
+          customerName: 'Juan',
+          serviceName: 'corte',
+          appointmentDate: 'mañana',
+          appointmentTime: '10:00 AM',
+          businessName: "Tony's Barbershop",
+        },
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.body).toContain('Recordatorio');
+      // Reply keywords stay in English so the SMS reply handlers still match
+      expect(result.body).toContain('CONFIRM');
+      expect(mockStorage.createOutboundMessage).toHaveBeenCalledWith(
+        expect.objectContaining({ metadata: expect.objectContaining({ language: 'es' }) }),
+      );
+    });
+
+    it('should fall back to English for unsupported languages', async () => {
+      mockStorage.getCustomer.mockResolvedValue({ ...TEST_CUSTOMER, preferredLanguage: 'fr' });
+
+      const result = await generateMessage({
+        messageType: 'HOLDING_MESSAGE',
+        businessId: 1,
+        customerId: 10,
+        recipientPhone: '+15559876543',
+        useTemplate: true,
+        isMarketing: false,
+        context: { businessName: "Tony's Barbershop" },
+      });
+
+      expect(result.body).toContain('follow up');
+    });
+  });
+
   // ── Opt-Out Checks ──
 
   describe('opt-out checks', () => {
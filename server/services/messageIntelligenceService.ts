@@ -10,6 +10,10 @@
  *
  * Fallback: If AI fails, falls back to the provided fallbackTemplate. Never silently drops a message.
  *
+ * Language: messages go out in the customer's preferredLanguage (detected from
+ * their calls and texts). Owner-written fallback templates are English, so a
+ * customer in another language gets the localized smart template when one exists.
+ *
  * Architecture:
  *   Agent/Trigger/Notification → messageIntelligenceService.generateMessage() → twilioService.sendSms()
  */
@@ -20,7 +24,9 @@ import { sendSms } from './twilioService';
 import { getVerticalConfig, type VerticalConfig } from '../config/verticals';
 import { fillTemplate } from './agentSettingsService';
 import type { SmsBusinessProfile, CustomerInsightsRow } from '@shared/schema';
+import { DEFAULT_LANGUAGE, getLanguage, isSupportedLanguage, type LanguageCode } from '@shared/languages';
 import { logAndSwallow } from '../utils/safeAsync';
+import { touchCustomerThread } from './smsInboxService';
 import { sanitizeInlineText, fenceCustomerContextBlock } from '../utils/promptSanitizer';
 
 // ─── Types ───────────────────────────────────────────────────────────────────
@@ -151,6 +157,7 @@ export async function generateMessage(ctx: MessageContext): Promise<MessageResul
     }
 
     // ── 4. Opt-out check (with business ownership verification) ──
+    let language: LanguageCode = DEFAULT_LANGUAGE;
     if (ctx.customerId) {
       const customer = await storage.getCustomer(ctx.customerId);
       if (customer) {
@@ -165,6 +172,9 @@ export async function generateMessage(ctx: MessageContext): Promise<MessageResul
         if (!ctx.isMarketing && !customer.smsOptIn) {
           return { success: false, fallbackUsed: false, skipped: true, skipReason: 'sms_opt_out' };
         }
+        if (isSupportedLanguage(customer.preferredLanguage)) {
+          language = customer.preferredLanguage;
+        }
       }
     }
 
@@ -187,24 +197,19 @@ export async function generateMessage(ctx: MessageContext): Promise<MessageResul
 
     if (ctx.useTemplate) {
       // ── Smart template path (no AI) ──
-      body = buildSmartTemplate(ctx, business, vertical);
+      body = buildSmartTemplate(ctx, business, vertical, language);
     } else {
       // ── AI generation path ──
       const profileComplete = smsProfile?.profileComplete === true;
 
       if (!profileComplete || !process.env.ANTHROPIC_API_KEY) {
         // Profile not complete or no OpenAI key — use fallback template
-        if (ctx.fallbackTemplate && ctx.fallbackVars) {
-          body = fillTemplate(ctx.fallbackTemplate, ctx.fallbackVars);
-          fallbackUsed = true;
-        } else {
-          body = buildSmartTemplate(ctx, business, vertical);
-          fallbackUsed = true;
-        }
+        body = buildFallbackBody(ctx, business, vertical, language);
+        fallbackUsed = true;
       } else {
         // Full AI generation
         try {
-          const aiResult = await generateAiMessage(ctx, business, vertical, smsProfile!);
+          const aiResult = await generateAiMessage(ctx, business, vertical, smsProfile!, language);
           body = aiResult.body;
           aiMetadata = {
             modelUsed: aiResult.modelUsed,
@@ -213,11 +218,7 @@ export async function generateMessage(ctx: MessageContext): Promise<MessageResul
           };
         } catch (aiErr) {
           console.error(`[MIS] AI generation failed for ${ctx.messageType}, falling back:`, aiErr);
-          if (ctx.fallbackTemplate && ctx.fallbackVars) {
-            body = fillTemplate(ctx.fallbackTemplate, ctx.fallbackVars);
-          } else {
-            body = buildSmartTemplate(ctx, business, vertical);
-          }
+          body = buildFallbackBody(ctx, business, vertical, language);
           fallbackUsed = true;
         }
       }
@@ -258,6 +259,7 @@ export async function generateMessage(ctx: MessageContext): Promise<MessageResul
           ...aiMetadata,
           triggerSource: ctx.context?.triggerSource || 'unknown',
           latencyMs,
+          language,
           templateUsed: fallbackUsed ? (ctx.fallbackTemplate?.substring(0, 50) || 'smart_template') : null,
         },
       });
@@ -276,6 +278,11 @@ export async function generateMessage(ctx: MessageContext): Promise<MessageResul
       }).catch(logAndSwallow('MIS'));
     }
 
+    // ── 11b. Keep an open inbox thread current (fire-and-forget) ──
+    if (twilioResult) {
+      touchCustomerThread(ctx.businessId, ctx.customerId, body);
+    }
+
     // ── 12. Store in Mem0 (fire-and-forget) ──
     if (ctx.customerId) {
       import('./mem0Service').then(({ addMemory }) => {
@@ -330,6 +337,7 @@ async function generateAiMessage(
   business: any,
   vertical: VerticalConfig,
   smsProfile: SmsBusinessProfile,
+  language: LanguageCode,
 ): Promise<AiResult> {
   // Load customer insights + memory in parallel
   let customerInsights: CustomerInsightsRow | null = null;
@@ -346,7 +354,7 @@ async function generateAiMessage(
   }
 
   // Build system prompt
-  const systemPrompt = buildSystemPrompt(business, vertical, smsProfile, customerInsights, mem0Context, ctx);
+  const systemPrompt = buildSystemPrompt(business, vertical, smsProfile, customerInsights, mem0Context, ctx, language);
   const userPrompt = buildUserPrompt(ctx);
 
   let body = await claudeText({
@@ -392,6 +400,7 @@ function buildSystemPrompt(
   insights: CustomerInsightsRow | null,
   mem0Context: string,
   ctx: MessageContext,
+  language: LanguageCode,
 ): string {
   const parts: string[] = [];
 
@@ -475,6 +484,10 @@ function buildSystemPrompt(
   parts.push('- First-time customer: warmer, more context');
   parts.push('- Regular (3+ visits): brief, they know you');
   parts.push('- Write the SMS message text ONLY. No quotes, no explanation, no prefixes.');
+  if (language !== DEFAULT_LANGUAGE) {
+    // Reply keywords are matched in English by the inbound SMS handlers
+    parts.push(`- Write the message in ${getLanguage(language).name} — this customer speaks it. Keep reply keywords (CONFIRM, RESCHEDULE, C, STOP, YES) in English.`);
+  }
 
   return parts.join('\n');
 }
@@ -498,11 +511,30 @@ function buildUserPrompt(ctx: MessageContext): string {
 
 // ─── Smart Template Builder ──────────────────────────────────────────────────
 
+/**
+ * Fallback body when AI isn't used or fails. The owner's fallback template is
+ * English, so customers in another language get a localized template first.
+ */
+function buildFallbackBody(ctx: MessageContext, business: any, vertical: VerticalConfig, language: LanguageCode): string {
+  if (language === 'es') {
+    const spanish = buildSpanishTemplate(ctx, business);
+    if (spanish) return spanish;
+  }
+  if (ctx.fallbackTemplate && ctx.fallbackVars) {
+    return fillTemplate(ctx.fallbackTemplate, ctx.fallbackVars);
+  }
+  return buildSmartTemplate(ctx, business, vertical, language);
+}
+
 /**
  * Build a personalized message using enhanced template logic (no AI call).
  * Used for confirmations, invoice notifications, and as fallback when AI is unavailable.
  */
-function buildSmartTemplate(ctx: MessageContext, business: any, vertical: VerticalConfig): string {
+function buildSmartTemplate(ctx: MessageContext, business: any, vertical: VerticalConfig, language: LanguageCode): string {
+  if (language === 'es') {
+    const spanish = buildSpanishTemplate(ctx, business);
+    if (spanish) return spanish;
+  }
   const c = ctx.context;
   const name = c?.customerName || 'there';
   const bizName = c?.businessName || business.name;
@@ -537,6 +569,40 @@ function buildSmartTemplate(ctx: MessageContext, business: any, vertical: Vertic
   }
 }
 
+/**
+ * Spanish versions of the smart templates. Returns null for types without one
+ * when the caller supplied its own (English) fallback, which carries details
+ * a generic message would lose.
+ */
+function buildSpanishTemplate(ctx: MessageContext, business: any): string | null {
+  const c = ctx.context;
+  const name = c?.customerName || '';
+  const hi = name ? `¡Hola ${name}!` : '¡Hola!';
+  const bizName = c?.businessName || business.name;
+
+  switch (ctx.messageType) {
+    case 'BOOKING_CONFIRMATION':
+    case 'JOB_CONFIRMATION':
+      return `${hi} Su ${c?.serviceName || 'cita'} está confirmada para el ${c?.appointmentDate || 'día programado'} a las ${c?.appointmentTime || 'la hora programada'}. Responda RESCHEDULE para cambiarla o C para cancelar. - ${bizName}`;
+    case 'APPOINTMENT_REMINDER':
+    case 'JOB_REMINDER':
+      return `${hi} Recordatorio: su ${c?.serviceName || 'cita'} es el ${c?.appointmentDate || 'día programado'} a las ${c?.appointmentTime || 'la hora programada'}. Responda CONFIRM, RESCHEDULE para cambiarla o C para cancelar. - ${bizName}`;
+    case 'RESCHEDULE_CONFIRMATION':
+      return `${hi} Su cita se cambió al ${c?.newDate || 'nuevo día'} a las ${c?.newTime || 'nueva hora'}. - ${bizName}`;
+    case 'CANCELLATION_ACKNOWLEDGMENT':
+      return `Hola${name ? ` ${name}` : ''}, su cita fue cancelada. Nos encantaría verle de nuevo — reserve cuando quiera en ${c?.bookingLink || 'nuestra página de reservas'}. - ${bizName}`;
+    case 'RESERVATION_CONFIRMATION':
+      return `${hi} Su reservación para ${c?.partySize || '2'} en ${bizName} está confirmada para el ${c?.appointmentDate || 'día'} a las ${c?.appointmentTime || 'la hora'}.`;
+    case 'RESERVATION_REMINDER':
+      return `${hi} Recordatorio: su reservación en ${bizName} es mañana a las ${c?.appointmentTime || 'la hora'} para ${c?.partySize || 'su grupo'}.`;
+    case 'HOLDING_MESSAGE':
+      return `¡Gracias por escribirnos! Recibimos su mensaje y le responderemos pronto. - ${bizName}`;
+    default:
+      if (ctx.fallbackTemplate && ctx.fallbackVars) return null;
+      return `${hi} Gracias por ser cliente de ${bizName}. Llámenos cuando quiera al ${c?.businessPhone || business.phone || 'nuestro número'}.`;
+  }
+}
+
 // ─── Helpers ─────────────────────────────────────────────────────────────────
 
 function mapMessageTypeToFeedEvent(messageType: MessageType): string {
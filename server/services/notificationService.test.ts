@@ -9,6 +9,7 @@ const { mockStorage, mockTwilioSendSms } = vi.hoisted(() => ({
     getCustomer: vi.fn(),
     getBusiness: vi.fn(),
     getService: vi.fn(),
+    getAppointmentServices: vi.fn().mockResolvedValue([]),
     getJob: vi.fn(),
     getStaffMember: vi.fn(),
     getInvoice: vi.fn(),
@@ -44,7 +45,9 @@ vi.mock('../utils/money', () => ({
     const n = typeof v === 'string' ? parseFloat(v) : v;
     return Number.isFinite(n) ? n : 0;
   },
+  roundMoney: (v: number) => Math.round((v + Number.EPSILON) * 100) / 100,
 }));
+vi.mock('./stripeConnectService', () => ({ stripeConnectService: {} }));
 
 import {
   sendAppointmentConfirmation,
@@ -56,6 +59,7 @@ import {
   sendJobEnRouteNotification,
   sendSmsOptInWelcome,
   sendInvoiceCreatedNotification,
+  sendInvoiceReminderNotification,
   sendReservationConfirmation,
 } from './notificationService';
 
@@ -910,6 +914,60 @@ describe('notificationService', () => {
     });
   });
 
+  // ──────────────────────────────────────────────────────
+  // sendInvoiceReminderNotification
+  // ──────────────────────────────────────────────────────
+
+  describe('sendInvoiceReminderNotification', () => {
+    const INVOICE = {
+      id: 301,
+      businessId: 1,
+      customerId: 10,
+      invoiceNumber: 'INV-002',
+      total: '150.00',
+      amountPaid: '0.00',
+      creditedAmount: '0.00',
+      balanceDue: '150.00',
+      dueDate: '2025-07-01',
+      status: 'overdue',
+    };
+
+    beforeEach(() => {
+      mockStorage.getNotificationSettings.mockResolvedValue({
+        ...DEFAULT_SETTINGS,
+        invoiceReminderEmail: false,
+        invoiceReminderSms: true,
+      });
+      mockStorage.getCustomer.mockResolvedValue(CUSTOMER);
+      mockStorage.getBusiness.mockResolvedValue(BUSINESS);
+    });
+
+    it('reminds for the balance left after credits', async () => {
+      mockStorage.getInvoice.mockResolvedValue({ ...INVOICE, creditedAmount: '100.00', balanceDue: '50.00' });
+
+      await sendInvoiceReminderNotification(301, 1);
+
+      expect(mockTwilioSendSms).toHaveBeenCalledOnce();
+      expect(mockTwilioSendSms.mock.calls[0][1]).toContain('$50.00');
+    });
+
+    it('does not remind for a fully credited invoice', async () => {
+      mockStorage.getInvoice.mockResolvedValue({ ...INVOICE, creditedAmount: '150.00', balanceDue: '0.00', status: 'credited' });
+
+      await sendInvoiceReminderNotification(301, 1);
+
+      expect(mockTwilioSendSms).not.toHaveBeenCalled();
+    });
+
+    it('does not remind for a void invoice', async () => {
+      mockStorage.getInvoice.mockResolvedValue({ ...INVOICE, balanceDue: null, status: 'void' });
+
+      await sendInvoiceReminderNotification(301, 1);
+
+      expect(mockTwilioSendSms).not.toHaveBeenCalled();
+    });
+  });
+
   // ──────────────────────────────────────────────────────
   // sendReservationConfirmation
   // ──────────────────────────────────────────────────────
@@ -17,8 +17,12 @@ import {
   sendJobCompletedEmail,
   sendQuoteEmail,
   sendQuoteFollowUpEmail,
+  sendPortalSignInEmail,
+  type EmailAttachment,
 } from "../emailService";
 import { toMoney } from "../utils/money";
+import { getBalanceDue } from "./invoicePaymentService";
+import { describeAppointmentServices } from "./appointmentLineService";
 
 /**
  * Free tier gate for customer-facing notifications.
@@ -42,6 +46,26 @@ async function isFreeBusiness(businessId: number): Promise<boolean> {
   }
 }
 
+/**
+ * Branded PDF copy of an invoice or quote to attach to its email. Rendering
+ * failures are logged and the email goes out without the attachment.
+ */
+async function getPdfAttachments(
+  kind: 'invoice' | 'quote',
+  id: number,
+  businessId: number,
+): Promise<EmailAttachment[] | undefined> {
+  try {
+    const { buildInvoicePdf, buildQuotePdf } = await import('./documentPdfService');
+    const rendered = kind === 'invoice' ? await buildInvoicePdf(id, businessId) : await buildQuotePdf(id, businessId);
+    if (!rendered) return undefined;
+    return [{ filename: rendered.filename, content: rendered.pdf, contentType: 'application/pdf' }];
+  } catch (err) {
+    console.error(`[Notifications] Failed to render ${kind} ${id} PDF for email:`, err);
+    return undefined;
+  }
+}
+
 // TCPA compliance: Check if customer has opted in to SMS
 function canSendSms(customer: any, isMarketing: boolean = false): boolean {
   if (!customer?.phone) return false;
@@ -122,11 +146,7 @@ export async function sendAppointmentConfirmation(appointmentId: number, busines
     const business = await storage.getBusiness(businessId);
     if (!business) return;
 
-    let serviceName = 'your appointment';
-    if (appointment.serviceId) {
-      const service = await storage.getService(appointment.serviceId);
-      if (service) serviceName = service.name;
-    }
+    const serviceName = (await describeAppointmentServices(appointment)) || 'your appointment';
 
     const appointmentDate = new Date(appointment.startDate);
     const tz = business.timezone || undefined;
@@ -248,11 +268,7 @@ export async function sendAppointmentReminder(appointmentId: number, businessId:
     const business = await storage.getBusiness(businessId);
     if (!business) return;
 
-    let serviceName = 'your appointment';
-    if (appointment.serviceId) {
-      const service = await storage.getService(appointment.serviceId);
-      if (service) serviceName = service.name;
-    }
+    const serviceName = (await describeAppointmentServices(appointment)) || 'your appointment';
 
     const appointmentDate = new Date(appointment.startDate);
     const tz = business.timezone || undefined;
@@ -372,7 +388,10 @@ export async function sendInvoiceCreatedNotification(invoiceId: number, business
     const business = await storage.getBusiness(businessId);
     if (!business) return;
 
-    const amount = formatCurrency(toMoney(invoice.total));
+    // Only what's still owed — deposits and credits already came off
+    const balanceDue = getBalanceDue(invoice);
+    if (balanceDue <= 0) return;
+    const amount = formatCurrency(balanceDue);
     const dueDate = invoice.dueDate
       ? new Date(invoice.dueDate).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })
       : 'Upon receipt';
@@ -387,7 +406,8 @@ export async function sendInvoiceCreatedNotification(invoiceId: number, business
           invoice.invoiceNumber,
           amount,
           dueDate,
-          business.phone || ''
+          business.phone || '',
+          await getPdfAttachments('invoice', invoice.id, invoice.businessId)
         );
         await storage.createNotificationLog({
           businessId,
@@ -456,7 +476,10 @@ export async function sendInvoiceReminderNotification(invoiceId: number, busines
     if (!sendEmailPref && !sendSmsPref) return;
 
     const invoice = await storage.getInvoice(invoiceId);
-    if (!invoice || invoice.status === 'paid') return;
+    // Nothing to chase on paid, fully credited or void invoices
+    if (!invoice) return;
+    const balanceDue = getBalanceDue(invoice);
+    if (balanceDue <= 0) return;
 
     const customer = await storage.getCustomer(invoice.customerId);
     if (!customer) return;
@@ -464,7 +487,7 @@ export async function sendInvoiceReminderNotification(invoiceId: number, busines
     const business = await storage.getBusiness(businessId);
     if (!business) return;
 
-    const amount = formatCurrency(toMoney(invoice.total));
+    const amount = formatCurrency(balanceDue);
     const dueDate = invoice.dueDate
       ? new Date(invoice.dueDate).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })
       : 'Upon receipt';
@@ -501,7 +524,8 @@ export async function sendInvoiceReminderNotification(invoiceId: number, busines
           invoice.invoiceNumber,
           amount,
           dueDate,
-          business.phone || ''
+          business.phone || '',
+          await getPdfAttachments('invoice', invoice.id, invoice.businessId)
         );
         await storage.createNotificationLog({
           businessId,
@@ -572,7 +596,7 @@ export async function sendPaymentConfirmation(invoiceId: number, businessId: num
     if (!sendEmailPref) return;
 
     const invoice = await storage.getInvoice(invoiceId);
-    if (!invoice) return;
+    if (!invoice || invoice.status === 'void') return;
 
     const customer = await storage.getCustomer(invoice.customerId);
     if (!customer || !customer.email) return;
@@ -580,7 +604,8 @@ export async function sendPaymentConfirmation(invoiceId: number, businessId: num
     const business = await storage.getBusiness(businessId);
     if (!business) return;
 
-    const amount = formatCurrency(toMoney(invoice.total));
+    // What's been paid — credit notes aren't payments
+    const amount = formatCurrency(toMoney(invoice.amountPaid) || toMoney(invoice.total));
 
     try {
       await sendPaymentConfirmationEmail(
@@ -974,7 +999,8 @@ export async function sendQuoteSentNotification(
           amount,
           validUntil,
           quoteUrl,
-          business.phone || ''
+          business.phone || '',
+          await getPdfAttachments('quote', quote.id, quote.businessId)
         );
         await storage.createNotificationLog({
           businessId,
@@ -1050,7 +1076,9 @@ export async function sendInvoiceSentNotification(
     const business = await storage.getBusiness(businessId);
     if (!business) return;
 
-    const amount = formatCurrency(toMoney(invoice.total));
+    const balanceDue = getBalanceDue(invoice);
+    if (balanceDue <= 0) return;
+    const amount = formatCurrency(balanceDue);
     const dueDate = invoice.dueDate
       ? new Date(invoice.dueDate).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })
       : 'Upon receipt';
@@ -1064,7 +1092,8 @@ export async function sendInvoiceSentNotification(
           invoice.invoiceNumber,
           amount,
           dueDate,
-          business.phone || ''
+          business.phone || '',
+          await getPdfAttachments('invoice', invoice.id, invoice.businessId)
         );
         await storage.createNotificationLog({
           businessId,
@@ -1138,7 +1167,9 @@ export async function sendQuoteConvertedNotification(
     const business = await storage.getBusiness(businessId);
     if (!business) return;
 
-    const amount = formatCurrency(toMoney(invoice.total));
+    const balanceDue = getBalanceDue(invoice);
+    if (balanceDue <= 0) return;
+    const amount = formatCurrency(balanceDue);
     const dueDate = invoice.dueDate
       ? new Date(invoice.dueDate).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })
       : 'Upon receipt';
@@ -1152,7 +1183,8 @@ export async function sendQuoteConvertedNotification(
           invoice.invoiceNumber,
           amount,
           dueDate,
-          business.phone || ''
+          business.phone || '',
+          await getPdfAttachments('invoice', invoice.id, invoice.businessId)
         );
         await storage.createNotificationLog({
           businessId,
@@ -1380,6 +1412,96 @@ export async function sendReservationConfirmation(reservationId: number, busines
   }
 }
 
+export type ClassBookingEvent = 'booked' | 'waitlisted' | 'promoted' | 'session_cancelled';
+
+/**
+ * Text a class attendee about their seat: booked, waitlisted (with their place
+ * in line), promoted off the waitlist, or the session being cancelled.
+ * Shares the appointment confirmation SMS toggle.
+ */
+export async function sendClassBookingNotification(
+  bookingId: number,
+  businessId: number,
+  event: ClassBookingEvent,
+  waitlistPosition?: number,
+) {
+  try {
+    // Free tier gate — short-circuit all customer-facing notifications
+    if (await isFreeBusiness(businessId)) return;
+    const settings = await storage.getNotificationSettings(businessId);
+    if (settings?.appointmentConfirmationSms === false) return;
+
+    const booking = await storage.getClassBooking(bookingId);
+    if (!booking) return;
+    const customer = await storage.getCustomer(booking.customerId);
+    if (!customer || !canSendSms(customer)) return;
+    const business = await storage.getBusiness(businessId);
+    if (!business) return;
+    const session = await storage.getClassSession(booking.sessionId);
+    if (!session) return;
+    const service = await storage.getService(session.serviceId);
+
+    const className = service?.name || 'your class';
+    const tz = business.timezone || undefined;
+    const when = `${formatDate(new Date(session.startDate), tz)} at ${formatTime(new Date(session.startDate), tz)}`;
+
+    let message: string;
+    switch (event) {
+      case 'booked':
+        message = `Hi ${customer.firstName}! You're booked for ${className} on ${when}. See you there! - ${business.name}`;
+        break;
+      case 'waitlisted':
+        message = `Hi ${customer.firstName}! ${className} on ${when} is full, so you're ${waitlistPosition ? `#${waitlistPosition} ` : ''}on the waitlist. We'll text you if a spot opens up. - ${business.name}`;
+        break;
+      case 'promoted':
+        message = `Good news ${customer.firstName}! A spot opened up in ${className} on ${when} — you're now booked. Can't make it? Call ${getContactNumber(business)}. - ${business.name}`;
+        break;
+      case 'session_cancelled':
+        message = `Hi ${customer.firstName}, ${className} on ${when} has been cancelled. Sorry for the inconvenience! Call ${getContactNumber(business)} to rebook. - ${business.name}`;
+        break;
+    }
+
+    await twilioService.sendSms(customer.phone, message, undefined, businessId);
+    await storage.createNotificationLog({
+      businessId, customerId: customer.id, type: `class_${event}`, channel: 'sms',
+      recipient: customer.phone, message, status: 'sent', referenceType: 'class_booking', referenceId: bookingId,
+    });
+  } catch (error) {
+    console.error(`Error in sendClassBookingNotification for class booking ${bookingId}:`, error);
+  }
+}
+
+/**
+ * Send a customer portal sign-in code. The customer asked for it, so it goes
+ * out regardless of SMS opt-in; the log never records the code itself.
+ */
+export async function sendCustomerPortalCode(
+  customer: { id: number; firstName: string; phone: string | null; email: string | null },
+  business: { id: number; name: string },
+  channel: 'sms' | 'email',
+  code: string,
+  signInUrl: string,
+  expiresMinutes: number
+): Promise<void> {
+  try {
+    const recipient = channel === 'sms' ? customer.phone : customer.email;
+    if (!recipient) return;
+
+    if (channel === 'sms') {
+      const message = `${code} is your ${business.name} sign-in code. Or tap to sign in: ${signInUrl} (expires in ${expiresMinutes} min)`;
+      await twilioService.sendSms(recipient, message, undefined, business.id);
+    } else {
+      await sendPortalSignInEmail(recipient, customer.firstName, business.name, code, signInUrl, expiresMinutes);
+    }
+    await storage.createNotificationLog({
+      businessId: business.id, customerId: customer.id, type: 'portal_sign_in_code', channel,
+      recipient, message: 'Customer portal sign-in code', status: 'sent',
+    });
+  } catch (error) {
+    console.error(`Error sending portal sign-in code to customer ${customer.id}:`, error);
+  }
+}
+
 /**
  * Send one-time SMS opt-in welcome message (TCPA compliance).
  * Sent when a customer first opts into SMS — covers opt-out disclosure
@@ -1430,6 +1552,8 @@ export default {
   sendQuoteConvertedNotification,
   sendQuoteFollowUpNotification,
   sendReservationConfirmation,
+  sendClassBookingNotification,
+  sendCustomerPortalCode,
   sendSmsOptInWelcome,
   sendJobTrackingLinkNotification,
 };
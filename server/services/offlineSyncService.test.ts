@@ -0,0 +1,101 @@
+/**
+ * offlineSyncService tests — reading the base version off a replayed edit,
+ * deciding when it conflicts, and what goes into a tech's offline bundle.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockStorage, mockGetJobFormsForJob } = vi.hoisted(() => ({
+  mockStorage: {
+    getBusiness: vi.fn(),
+    getJobsForDate: vi.fn(),
+    getActiveJobsForStaff: vi.fn(),
+    getCustomer: vi.fn(),
+    getCustomerEquipment: vi.fn(),
+    getJobLineItems: vi.fn(),
+  },
+  mockGetJobFormsForJob: vi.fn(),
+}));
+
+vi.mock('../storage', () => ({ storage: mockStorage }));
+vi.mock('./jobFormService', () => ({ getJobFormsForJob: mockGetJobFormsForJob }));
+
+import { buildOfflineBundle, hasUpdateConflict, offlineBundleDate, readBaseUpdatedAt } from './offlineSyncService';
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockStorage.getBusiness.mockResolvedValue({ id: 5, timezone: 'America/Chicago' });
+  mockStorage.getCustomer.mockImplementation(async (id: number) => ({ id, firstName: 'Pat' }));
+  mockStorage.getCustomerEquipment.mockImplementation(async (customerId: number) => [{ id: customerId * 10 }]);
+  mockStorage.getJobLineItems.mockImplementation(async (jobId: number) => [{ id: jobId * 100 }]);
+  mockGetJobFormsForJob.mockResolvedValue([]);
+});
+
+describe('readBaseUpdatedAt', () => {
+  it('parses ISO strings and epoch numbers', () => {
+    expect(readBaseUpdatedAt({ baseUpdatedAt: '2026-10-19T10:00:00.000Z' })?.toISOString()).toBe('2026-10-19T10:00:00.000Z');
+    expect(readBaseUpdatedAt({ baseUpdatedAt: 0 })?.toISOString()).toBe('1970-01-01T00:00:00.000Z');
+  });
+
+  it('treats missing or unparseable values as absent', () => {
+    expect(readBaseUpdatedAt({})).toBeNull();
+    expect(readBaseUpdatedAt(undefined)).toBeNull();
+    expect(readBaseUpdatedAt({ baseUpdatedAt: 'yesterday' })).toBeNull();
+    expect(readBaseUpdatedAt({ baseUpdatedAt: { at: 1 } })).toBeNull();
+  });
+});
+
+describe('hasUpdateConflict', () => {
+  const base = new Date('2026-10-19T10:00:00.000Z');
+
+  it('conflicts only when the record changed after the base', () => {
+    expect(hasUpdateConflict(new Date('2026-10-19T10:00:01.000Z'), base)).toBe(true);
+    expect(hasUpdateConflict('2026-10-19T10:00:00.000Z', base)).toBe(false);
+    expect(hasUpdateConflict(new Date('2026-10-19T09:00:00.000Z'), base)).toBe(false);
+  });
+
+  it('never conflicts without a base or a tracked updatedAt', () => {
+    expect(hasUpdateConflict(new Date(), null)).toBe(false);
+    expect(hasUpdateConflict(null, base)).toBe(false);
+  });
+});
+
+describe('offlineBundleDate', () => {
+  it("uses the business's timezone", () => {
+    const now = new Date('2026-10-20T03:00:00.000Z');
+    expect(offlineBundleDate('America/Chicago', now)).toBe('2026-10-19');
+    expect(offlineBundleDate('UTC', now)).toBe('2026-10-20');
+  });
+});
+
+describe('buildOfflineBundle', () => {
+  it("collects the tech's jobs for today plus active ones, with customer details", async () => {
+    mockStorage.getJobsForDate.mockResolvedValue([
+      { id: 1, staffId: 3, customerId: 8 },
+      { id: 2, staffId: 4, customerId: 9 },
+      { id: 3, staffId: 3, customerId: 8 },
+    ]);
+    mockStorage.getActiveJobsForStaff.mockResolvedValue([
+      { id: 3, staffId: 3, customerId: 8 },
+      { id: 4, staffId: 3, customerId: 11 },
+    ]);
+    mockGetJobFormsForJob.mockImplementation(async (job: { id: number }) => (job.id === 4 ? [{ id: 70 }] : []));
+
+    const now = new Date('2026-10-19T15:00:00.000Z');
+    const bundle = await buildOfflineBundle(5, 3, now);
+
+    expect(mockStorage.getJobsForDate).toHaveBeenCalledWith(5, '2026-10-19');
+    expect(mockStorage.getActiveJobsForStaff).toHaveBeenCalledWith(5, 3);
+    expect(bundle.date).toBe('2026-10-19');
+    expect(bundle.syncedAt).toBe(now.toISOString());
+    expect(bundle.jobs.map(job => job.id)).toEqual([1, 3, 4]);
+    expect(bundle.jobs[2]).toMatchObject({
+      customer: { id: 11, firstName: 'Pat' },
+      equipment: [{ id: 110 }],
+      lineItems: [{ id: 400 }],
+      forms: [{ id: 70 }],
+    });
+    // Each customer is loaded once
+    expect(mockStorage.getCustomer).toHaveBeenCalledTimes(2);
+    expect(mockStorage.getCustomerEquipment).toHaveBeenCalledWith(8, 5);
+  });
+});
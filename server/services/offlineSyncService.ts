@@ -0,0 +1,91 @@
+/**
+ * Offline Sync Service — what the tech app needs to keep working without signal
+ *
+ *   1. The bundle: the tech's jobs for today (plus anything they still have
+ *      en route or in progress) with the customer, their equipment, line items
+ *      and checklists, so the device can show and edit them offline.
+ *   2. Conflict checks: edits queued offline carry the `updatedAt` the device
+ *      last saw (`baseUpdatedAt`). If the record changed on the server since,
+ *      the edit is refused with 409 and the current record so the tech can
+ *      choose which version to keep.
+ *
+ * Replays of the same queued edit are deduplicated by the offlineReplay
+ * middleware, not here.
+ */
+
+import type { Customer, CustomerEquipment, Job, JobForm, JobLineItem } from "@shared/schema";
+import { storage } from "../storage";
+import { getJobFormsForJob } from "./jobFormService";
+
+export interface OfflineBundleJob extends Job {
+  customer: Customer | null;
+  equipment: CustomerEquipment[];
+  lineItems: JobLineItem[];
+  forms: JobForm[];
+}
+
+export interface OfflineBundle {
+  date: string;
+  syncedAt: string;
+  jobs: OfflineBundleJob[];
+}
+
+/** Reads `baseUpdatedAt` off a request body; anything unparseable counts as absent */
+export function readBaseUpdatedAt(body: unknown): Date | null {
+  const value = (body as { baseUpdatedAt?: unknown } | null | undefined)?.baseUpdatedAt;
+  if (typeof value !== "string" && typeof value !== "number") return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * True when the record changed after the version the edit was based on.
+ * Edits without a base (online edits, or "keep mine" after a conflict) never
+ * conflict, and neither do rows that predate `updatedAt` tracking.
+ */
+export function hasUpdateConflict(currentUpdatedAt: Date | string | null | undefined, baseUpdatedAt: Date | null): boolean {
+  if (!baseUpdatedAt || !currentUpdatedAt) return false;
+  return new Date(currentUpdatedAt).getTime() > baseUpdatedAt.getTime();
+}
+
+/** Today's date (YYYY-MM-DD) in the business's timezone */
+export function offlineBundleDate(timezone: string | null | undefined, now: Date = new Date()): string {
+  return now.toLocaleDateString("en-CA", { timeZone: timezone || "America/New_York" });
+}
+
+/** Everything the tech needs for today's jobs, for caching on the device */
+export async function buildOfflineBundle(businessId: number, staffId: number, now: Date = new Date()): Promise<OfflineBundle> {
+  const business = await storage.getBusiness(businessId);
+  const date = offlineBundleDate(business?.timezone, now);
+
+  const [dayJobs, activeJobs] = await Promise.all([
+    storage.getJobsForDate(businessId, date),
+    storage.getActiveJobsForStaff(businessId, staffId),
+  ]);
+  const jobs = new Map<number, Job>();
+  for (const job of [...dayJobs.filter(job => job.staffId === staffId), ...activeJobs]) {
+    if (!jobs.has(job.id)) jobs.set(job.id, job);
+  }
+
+  const customers = new Map<number, Promise<[Customer | null, CustomerEquipment[]]>>();
+  const loadCustomer = (customerId: number) => {
+    if (!customers.has(customerId)) {
+      customers.set(customerId, Promise.all([
+        storage.getCustomer(customerId).then(customer => customer ?? null),
+        storage.getCustomerEquipment(customerId, businessId),
+      ]));
+    }
+    return customers.get(customerId)!;
+  };
+
+  const bundleJobs = await Promise.all(Array.from(jobs.values()).map(async (job): Promise<OfflineBundleJob> => {
+    const [[customer, equipment], lineItems, forms] = await Promise.all([
+      loadCustomer(job.customerId),
+      storage.getJobLineItems(job.id),
+      getJobFormsForJob(job),
+    ]);
+    return { ...job, customer, equipment, lineItems, forms };
+  }));
+
+  return { date, syncedAt: now.toISOString(), jobs: bundleJobs };
+}
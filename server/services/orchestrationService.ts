@@ -9,7 +9,7 @@
  * - intelligence.ready -> post-call follow-up decisions, owner alerts for negative sentiment
  * - appointment.completed -> follow-up + review request
  * - appointment.no_show -> no-show recovery (with VIP detection)
- * - appointment.cancelled -> recalculate customer insights
+ * - appointment.cancelled -> offer the slot to the appointment waitlist, recalculate customer insights
  * - job.completed -> follow-up + review request
  * - invoice.paid -> recalculate customer insights (LTV update)
  * - conversation.resolved -> release engagement lock
@@ -249,6 +249,17 @@ async function handleNoShow(payload: OrchestratorPayload): Promise<void> {
  */
 async function handleAppointmentCancelled(payload: OrchestratorPayload): Promise<void> {
   const { businessId, customerId } = payload;
+
+  // Text the freed slot to the next customer on the appointment waitlist
+  if (payload.referenceType === 'appointment' && payload.referenceId) {
+    try {
+      const { offerCancelledSlot } = await import('./appointmentWaitlistService');
+      await offerCancelledSlot(payload.referenceId);
+    } catch (err) {
+      console.error(`[Orchestrator] Error offering cancelled slot to waitlist:`, err);
+    }
+  }
+
   if (!customerId) return;
 
   // Store cancellation memory in Mem0 (fire-and-forget)
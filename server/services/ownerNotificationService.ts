@@ -5,6 +5,7 @@
  * - New appointment booked (online or by phone)
  * - Payment received
  * - Missed call
+ * - Webhook endpoint auto-disabled after repeated failures
  *
  * These are fire-and-forget — failures are logged but never block the main flow.
  */
@@ -151,3 +152,39 @@ export async function notifyOwnerMissedCall(
     console.error(`[OwnerNotify] Failed to send missed call alert for business ${businessId}:`, err);
   }
 }
+
+/**
+ * Notify owner that a webhook endpoint was switched off after repeated failed deliveries.
+ */
+export async function notifyOwnerWebhookDisabled(
+  businessId: number,
+  url: string,
+  failures: number,
+  lastError: string,
+): Promise<void> {
+  try {
+    const business = await storage.getBusiness(businessId);
+    if (!business?.email) return;
+
+    const settingsUrl = `${APP_URL}/settings?tab=integrations`;
+    const subject = `Webhook disabled: ${url}`;
+    const text = `We stopped sending events to ${url} after ${failures} deliveries in a row failed (last error: ${lastError}).\n\nFix the endpoint, then re-enable it and replay the failed deliveries: ${settingsUrl}`;
+    const html = `
+      <div style="font-family:Arial,sans-serif;max-width:500px;margin:0 auto;padding:20px;">
+        <div style="background:#fef2f2;border-left:4px solid #dc2626;padding:16px;border-radius:4px;">
+          <h3 style="margin:0 0 8px;color:#dc2626;">Webhook Disabled</h3>
+          <p style="margin:0;color:#333;word-break:break-all;"><strong>${url}</strong></p>
+          <p style="margin:4px 0 0;color:#666;">${failures} deliveries in a row failed. Last error: ${lastError}</p>
+          <p style="margin:8px 0 0;color:#666;">Once the endpoint is fixed, re-enable it and replay the failed deliveries from the delivery log.</p>
+        </div>
+        <div style="margin-top:16px;text-align:center;">
+          <a href="${settingsUrl}" style="color:#2563eb;text-decoration:none;font-weight:bold;">View Webhooks →</a>
+        </div>
+      </div>
+    `;
+
+    await sendEmail({ to: business.email, subject, text, html });
+  } catch (err) {
+    console.error(`[OwnerNotify] Failed to send webhook disabled alert for business ${businessId}:`, err);
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * pdfService tests — loading logos and photos for embedding without letting
+ * a user-supplied URL reach internal addresses or an oversized body.
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const mockResolvesToPublicAddress = vi.fn();
+vi.mock('../utils/urlSafety', () => ({ resolvesToPublicAddress: (...args: any[]) => mockResolvesToPublicAddress(...args) }));
+
+import { loadPdfImage } from './pdfService';
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00]);
+const fetchMock = vi.fn();
+
+function streamOf(chunks: Uint8Array[]) {
+  let pulled = 0;
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (pulled < chunks.length) controller.enqueue(chunks[pulled++]);
+      else controller.close();
+    },
+  });
+}
+
+beforeEach(() => {
+  fetchMock.mockReset();
+  mockResolvesToPublicAddress.mockReset().mockResolvedValue(true);
+  vi.stubGlobal('fetch', fetchMock);
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('loadPdfImage', () => {
+  it('loads a PNG from a public host', async () => {
+    fetchMock.mockResolvedValue(new Response(streamOf([PNG]), { status: 200 }));
+    expect(await loadPdfImage('https://cdn.example.com/logo.png')).toEqual(PNG);
+  });
+
+  it('does not fetch URLs that resolve to internal addresses', async () => {
+    mockResolvesToPublicAddress.mockResolvedValue(false);
+    expect(await loadPdfImage('http://169.254.169.254/latest/meta-data')).toBeNull();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('checks the target of a redirect too', async () => {
+    fetchMock.mockResolvedValue(new Response(null, { status: 302, headers: { location: 'http://10.0.0.5/a.png' } }));
+    mockResolvesToPublicAddress.mockImplementation(async (url: string) => !url.includes('10.0.0.5'));
+    expect(await loadPdfImage('https://cdn.example.com/logo.png')).toBeNull();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops reading a body without content-length once it passes the cap', async () => {
+    const chunk = new Uint8Array(1024 * 1024);
+    chunk.set(PNG);
+    const pull = vi.fn();
+    let sent = 0;
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        pull();
+        controller.enqueue(sent++ === 0 ? chunk : new Uint8Array(1024 * 1024));
+      },
+    });
+    fetchMock.mockResolvedValue(new Response(body, { status: 200 }));
+
+    expect(await loadPdfImage('https://cdn.example.com/huge.png')).toBeNull();
+    expect(pull.mock.calls.length).toBeLessThan(10);
+  });
+});
@@ -0,0 +1,665 @@
+/**
+ * PDF Service — server-rendered documents (pdfkit)
+ *
+ * Renders invoices, quotes, credit notes and job completion reports from
+ * plain document objects, so callers decide where the data comes from (live
+ * rows via documentPdfService, or the frozen snapshot taken when a quote is
+ * signed). Every document shares one layout: a branded header using the
+ * business's logo, brand color and brand name, a bill-to block, line items,
+ * totals and notes.
+ *
+ * A signed quote gets an acceptance block with the drawn signature embedded
+ * as an image plus the signer's name, time, IP, user agent and content hash,
+ * so the PDF stands on its own as the record of acceptance.
+ */
+
+import PDFDocument from 'pdfkit';
+import type { Business } from '@shared/schema';
+import { resolvesToPublicAddress } from '../utils/urlSafety';
+
+export interface PdfLineItem {
+  description: string;
+  quantity: number;
+  unitPrice: string | number;
+  amount: string | number;
+}
+
+/** Who the document is from and who it is for. */
+export interface PdfParties {
+  businessName: string;
+  businessAddress?: string | null;
+  businessPhone?: string | null;
+  businessEmail?: string | null;
+  customerName: string;
+  customerEmail?: string | null;
+  customerPhone?: string | null;
+}
+
+export interface PdfQuoteOption {
+  name: string;
+  description?: string | null;
+  isRecommended?: boolean;
+  items: PdfLineItem[];
+  tax: string;
+  total: string;
+}
+
+export interface QuoteDocument extends PdfParties {
+  quoteNumber: string;
+  optionName?: string | null;
+  // Good/better/best options, listed in full until the customer picks one
+  options?: PdfQuoteOption[];
+  items: PdfLineItem[];
+  amount: string;
+  tax: string;
+  total: string;
+  validUntil?: string | null;
+  notes?: string | null;
+  createdAt?: string | null;
+}
+
+export interface InvoiceDocument extends PdfParties {
+  invoiceNumber: string;
+  status?: string | null;
+  items: PdfLineItem[];
+  amount: string;
+  tax: string;
+  total: string;
+  amountPaid?: string | null;
+  creditedAmount?: string | null;
+  balanceDue?: string | null;
+  dueDate?: string | null;
+  notes?: string | null;
+  createdAt?: string | null;
+}
+
+export interface CreditNoteDocument extends PdfParties {
+  creditNoteNumber: string;
+  invoiceNumber: string;
+  status?: string | null;
+  reason?: string | null;
+  items: PdfLineItem[]; // Negative amounts, as stored
+  amount: string;
+  tax: string;
+  total: string;
+  createdAt?: string | null;
+}
+
+export interface PdfPhoto {
+  image: Buffer;
+  caption?: string | null;
+}
+
+export interface JobReportDocument extends PdfParties {
+  jobTitle: string;
+  jobNumber: string;
+  description?: string | null;
+  technicianName?: string | null;
+  scheduledDate?: string | null;
+  completedAt?: string | null;
+  items: PdfLineItem[];
+  total: string;
+  notes?: string | null;
+  photos: PdfPhoto[];
+  checklists?: PdfChecklist[];
+}
+
+/** A submitted job form: answers as text, plus its photos and signature */
+export interface PdfChecklist {
+  name: string;
+  rows: Array<{ label: string; value: string; flagged?: boolean }>; // flagged = reading out of range
+  photos: PdfPhoto[];
+  signature?: { image: string; signerName?: string | null; signedAt?: string | null } | null;
+}
+
+export interface PdfSignature {
+  signerName: string;
+  signatureImage: string; // PNG data URL
+  signedAt: Date;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+  contentHash: string;
+}
+
+/** Business branding applied to every document header. */
+export interface PdfBranding {
+  name: string | null; // brandName, falling back to the business name on the document
+  color: string;
+  logo: Buffer | null;
+}
+
+const PAGE_MARGIN = 50;
+const TEXT_COLOR = '#111827';
+const MUTED_COLOR = '#6b7280';
+const RULE_COLOR = '#e5e7eb';
+const DEFAULT_BRAND_COLOR = '#111827';
+
+// Remote images (logo, job photos) — keep a slow or huge file from stalling a render
+const IMAGE_FETCH_TIMEOUT_MS = 5000;
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+const MAX_IMAGE_REDIRECTS = 3;
+
+export const DEFAULT_BRANDING: PdfBranding = { name: null, color: DEFAULT_BRAND_COLOR, logo: null };
+
+// ──────────────────────────────────────────────────────────────────────
+// Helpers
+// ──────────────────────────────────────────────────────────────────────
+
+function formatMoney(value: string | number | null | undefined): string {
+  const n = Number(value ?? 0);
+  const safe = Number.isFinite(n) ? n : 0;
+  const formatted = Math.abs(safe).toFixed(2).replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+  return safe < 0 ? `-$${formatted}` : `$${formatted}`;
+}
+
+function formatDate(value: string | Date | null | undefined): string {
+  if (!value) return '';
+  const date = value instanceof Date ? value : new Date(value);
+  // Bare YYYY-MM-DD dates (quotes.validUntil, invoices.dueDate) parse as UTC midnight — print them as-is
+  const dateOnly = typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+  return date.toLocaleDateString('en-US', {
+    year: 'numeric', month: 'long', day: 'numeric', ...(dateOnly ? { timeZone: 'UTC' } : {}),
+  });
+}
+
+function formatStatus(status: string | null | undefined): string {
+  return (status || '').replace(/_/g, ' ').toUpperCase();
+}
+
+/** Decode a `data:image/png;base64,...` URL into raw bytes. */
+export function decodePngDataUrl(dataUrl: string): Buffer {
+  const match = /^data:image\/png;base64,(.+)$/.exec(dataUrl);
+  if (!match) throw new Error('Signature image must be a PNG data URL');
+  return Buffer.from(match[1], 'base64');
+}
+
+/** pdfkit only embeds PNG and JPEG. */
+function isEmbeddableImage(bytes: Buffer): boolean {
+  const png = bytes.length > 8 && bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47;
+  const jpeg = bytes.length > 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff;
+  return png || jpeg;
+}
+
+/**
+ * Fetch an image for embedding. Returns null (never throws) when the URL is
+ * unreachable, too large or not a PNG/JPEG — a missing logo or photo should
+ * not stop the document from rendering.
+ *
+ * Logo and photo URLs come from users, so each hop (redirects included) must
+ * resolve to a public address, and the body is read only up to the size cap.
+ */
+export async function loadPdfImage(url: string | null | undefined): Promise<Buffer | null> {
+  if (!url) return null;
+  try {
+    if (url.startsWith('data:')) {
+      const match = /^data:image\/(?:png|jpe?g);base64,(.+)$/.exec(url);
+      const bytes = match ? Buffer.from(match[1], 'base64') : null;
+      return bytes && isEmbeddableImage(bytes) ? bytes : null;
+    }
+
+    const signal = AbortSignal.timeout(IMAGE_FETCH_TIMEOUT_MS);
+    let target = url;
+    let response: Response | null = null;
+    for (let hop = 0; hop <= MAX_IMAGE_REDIRECTS; hop++) {
+      if (!(await resolvesToPublicAddress(target))) return null;
+      response = await fetch(target, { signal, redirect: 'manual' });
+      const location = response.headers.get('location');
+      if (response.status < 300 || response.status >= 400 || !location) break;
+      await response.body?.cancel();
+      target = new URL(location, target).toString();
+      response = null;
+    }
+    if (!response?.ok || !response.body) return null;
+    const declaredLength = Number(response.headers.get('content-length') || 0);
+    if (declaredLength > MAX_IMAGE_BYTES) {
+      await response.body.cancel();
+      return null;
+    }
+
+    const bytes = await readCapped(response.body, MAX_IMAGE_BYTES);
+    return bytes && isEmbeddableImage(bytes) ? bytes : null;
+  } catch (error) {
+    console.warn(`[PDF] Could not load image ${url}:`, error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+/** Reads a response body, giving up (null) as soon as it passes maxBytes */
+async function readCapped(body: ReadableStream<Uint8Array>, maxBytes: number): Promise<Buffer | null> {
+  const reader = body.getReader();
+  const chunks: Buffer[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.byteLength;
+    if (total > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(Buffer.from(value));
+  }
+  return Buffer.concat(chunks);
+}
+
+/** Logo, brand color and brand name for a business's documents. */
+export async function getPdfBranding(
+  business: Pick<Business, 'name' | 'brandName' | 'brandColor' | 'logoUrl'> | null | undefined,
+): Promise<PdfBranding> {
+  if (!business) return DEFAULT_BRANDING;
+  const color = business.brandColor && /^#[0-9a-f]{6}$/i.test(business.brandColor)
+    ? business.brandColor
+    : DEFAULT_BRAND_COLOR;
+  return {
+    name: business.brandName || business.name,
+    color,
+    logo: await loadPdfImage(business.logoUrl),
+  };
+}
+
+/** Collect a pdfkit document's output into a Buffer; resolves once doc.end() is called. */
+function collectPdf(doc: PDFKit.PDFDocument): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+}
+
+function createDocument(title: string, author: string): { doc: PDFKit.PDFDocument; done: Promise<Buffer> } {
+  const doc = new PDFDocument({ size: 'LETTER', margin: PAGE_MARGIN, info: { Title: title, Author: author } });
+  return { doc, done: collectPdf(doc) };
+}
+
+function contentWidth(doc: PDFKit.PDFDocument): number {
+  return doc.page.width - PAGE_MARGIN * 2;
+}
+
+function rule(doc: PDFKit.PDFDocument, color = RULE_COLOR): void {
+  const y = doc.y;
+  doc.moveTo(PAGE_MARGIN, y).lineTo(doc.page.width - PAGE_MARGIN, y).strokeColor(color).lineWidth(1).stroke();
+  doc.moveDown(0.5);
+}
+
+/** Start a new page when fewer than `height` points remain. */
+function ensureSpace(doc: PDFKit.PDFDocument, height: number): void {
+  if (doc.y > doc.page.height - PAGE_MARGIN - height) doc.addPage();
+}
+
+// ──────────────────────────────────────────────────────────────────────
+// Sections
+// ──────────────────────────────────────────────────────────────────────
+
+/** Logo + business block on the left, document title and number on the right. */
+function drawHeader(
+  doc: PDFKit.PDFDocument,
+  branding: PdfBranding,
+  parties: PdfParties,
+  title: string,
+  number: string,
+): void {
+  const top = PAGE_MARGIN;
+  const columnWidth = contentWidth(doc) / 2;
+  const rightX = PAGE_MARGIN + columnWidth;
+
+  doc.y = top;
+  if (branding.logo) {
+    try {
+      doc.image(branding.logo, PAGE_MARGIN, top, { fit: [160, 56] });
+      doc.y = top + 62;
+    } catch (error) {
+      console.warn('[PDF] Could not embed logo:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  doc.fillColor(TEXT_COLOR).font('Helvetica-Bold').fontSize(14)
+    .text(branding.name || parties.businessName, PAGE_MARGIN, doc.y, { width: columnWidth });
+  doc.font('Helvetica').fontSize(10).fillColor(MUTED_COLOR);
+  for (const line of [parties.businessAddress, parties.businessPhone, parties.businessEmail]) {
+    if (line) doc.text(line, { width: columnWidth });
+  }
+  const leftBottom = doc.y;
+
+  doc.fillColor(branding.color).font('Helvetica-Bold').fontSize(24)
+    .text(title, rightX, top, { width: columnWidth, align: 'right' });
+  doc.font('Helvetica').fontSize(11).fillColor(MUTED_COLOR).text(`#${number}`, { width: columnWidth, align: 'right' });
+
+  doc.x = PAGE_MARGIN;
+  doc.y = Math.max(doc.y, leftBottom) + 10;
+  rule(doc, branding.color);
+  doc.moveDown(0.5);
+}
+
+/** Customer on the left, dated facts (issue date, due date, status...) on the right. */
+function drawParties(
+  doc: PDFKit.PDFDocument,
+  label: string,
+  parties: PdfParties,
+  facts: Array<[string, string | null | undefined]>,
+): void {
+  const columnWidth = contentWidth(doc) / 2;
+  const top = doc.y;
+
+  doc.fillColor(MUTED_COLOR).font('Helvetica-Bold').fontSize(9).text(label.toUpperCase(), PAGE_MARGIN, top);
+  doc.fillColor(TEXT_COLOR).font('Helvetica').fontSize(11).text(parties.customerName, { width: columnWidth });
+  doc.fillColor(MUTED_COLOR).fontSize(10);
+  if (parties.customerEmail) doc.text(parties.customerEmail, { width: columnWidth });
+  if (parties.customerPhone) doc.text(parties.customerPhone, { width: columnWidth });
+  const leftBottom = doc.y;
+
+  doc.y = top;
+  for (const [factLabel, value] of facts) {
+    if (!value) continue;
+    doc.fillColor(MUTED_COLOR).font('Helvetica-Bold').fontSize(9)
+      .text(factLabel.toUpperCase(), PAGE_MARGIN + columnWidth, doc.y, { width: columnWidth, align: 'right' });
+    doc.fillColor(TEXT_COLOR).font('Helvetica').fontSize(11).text(value, { width: columnWidth, align: 'right' });
+  }
+
+  doc.x = PAGE_MARGIN;
+  doc.y = Math.max(doc.y, leftBottom);
+  doc.moveDown(1.5);
+}
+
+function drawItemsTable(
+  doc: PDFKit.PDFDocument,
+  branding: PdfBranding,
+  items: PdfLineItem[],
+  heading?: string | null,
+): void {
+  const right = doc.page.width - PAGE_MARGIN;
+  const columns = { description: PAGE_MARGIN, quantity: right - 210, unitPrice: right - 150, amount: right - 75 };
+
+  if (heading) {
+    doc.fillColor(TEXT_COLOR).font('Helvetica-Bold').fontSize(12).text(heading, PAGE_MARGIN, doc.y);
+    doc.moveDown(0.5);
+  }
+
+  const drawColumnHeaders = () => {
+    const headerY = doc.y;
+    doc.fillColor(branding.color).font('Helvetica-Bold').fontSize(9);
+    doc.text('DESCRIPTION', columns.description, headerY);
+    doc.text('QTY', columns.quantity, headerY, { width: 50, align: 'right' });
+    doc.text('UNIT PRICE', columns.unitPrice, headerY, { width: 70, align: 'right' });
+    doc.text('AMOUNT', columns.amount, headerY, { width: 75, align: 'right' });
+    doc.x = PAGE_MARGIN;
+    doc.moveDown(0.4);
+    rule(doc);
+  };
+  drawColumnHeaders();
+
+  for (const item of items) {
+    if (doc.y > doc.page.height - PAGE_MARGIN - 40) {
+      doc.addPage();
+      drawColumnHeaders();
+    }
+    doc.font('Helvetica').fontSize(10).fillColor(TEXT_COLOR);
+    const rowY = doc.y;
+    doc.text(item.description, columns.description, rowY, { width: columns.quantity - columns.description - 10 });
+    const rowBottom = doc.y;
+    doc.text(String(item.quantity), columns.quantity, rowY, { width: 50, align: 'right' });
+    doc.text(formatMoney(item.unitPrice), columns.unitPrice, rowY, { width: 70, align: 'right' });
+    doc.text(formatMoney(item.amount), columns.amount, rowY, { width: 75, align: 'right' });
+    doc.x = PAGE_MARGIN;
+    doc.y = Math.max(doc.y, rowBottom) + 4;
+  }
+  if (items.length === 0) {
+    doc.font('Helvetica').fontSize(10).fillColor(MUTED_COLOR).text('No line items', PAGE_MARGIN, doc.y);
+    doc.moveDown(0.4);
+  }
+  rule(doc);
+}
+
+/** Right-aligned totals; the last row is emphasised in the brand color. */
+function drawTotals(doc: PDFKit.PDFDocument, branding: PdfBranding, rows: Array<[string, string | number]>): void {
+  ensureSpace(doc, 20 * rows.length + 20);
+  const right = doc.page.width - PAGE_MARGIN;
+  const labelX = right - 200;
+
+  for (let index = 0; index < rows.length; index++) {
+    const [label, value] = rows[index];
+    const isLast = index === rows.length - 1;
+    const y = doc.y;
+    doc.font(isLast ? 'Helvetica-Bold' : 'Helvetica').fontSize(isLast ? 12 : 10)
+      .fillColor(isLast ? branding.color : TEXT_COLOR);
+    doc.text(label, labelX, y, { width: 110 });
+    doc.text(formatMoney(value), right - 90, y, { width: 90, align: 'right' });
+    doc.moveDown(0.3);
+  }
+  doc.x = PAGE_MARGIN;
+  doc.moveDown(1);
+}
+
+function drawTextBlock(doc: PDFKit.PDFDocument, label: string, text: string | null | undefined): void {
+  if (!text) return;
+  ensureSpace(doc, 60);
+  doc.fillColor(MUTED_COLOR).font('Helvetica-Bold').fontSize(9).text(label.toUpperCase(), PAGE_MARGIN, doc.y);
+  doc.fillColor(TEXT_COLOR).font('Helvetica').fontSize(10).text(text, { width: contentWidth(doc) });
+  doc.moveDown(1);
+}
+
+/** Two-column photo grid with optional captions. */
+function drawPhotos(doc: PDFKit.PDFDocument, photos: PdfPhoto[], label = 'Photos'): void {
+  if (photos.length === 0) return;
+  const gap = 12;
+  const cellWidth = (contentWidth(doc) - gap) / 2;
+  const imageHeight = 170;
+  const rowHeight = imageHeight + 28;
+
+  ensureSpace(doc, rowHeight + 30);
+  doc.fillColor(MUTED_COLOR).font('Helvetica-Bold').fontSize(9).text(label.toUpperCase(), PAGE_MARGIN, doc.y);
+  doc.moveDown(0.5);
+
+  let column = 0;
+  let rowTop = doc.y;
+  for (const photo of photos) {
+    if (column === 0) {
+      ensureSpace(doc, rowHeight);
+      rowTop = doc.y;
+    }
+    const x = PAGE_MARGIN + column * (cellWidth + gap);
+    try {
+      doc.image(photo.image, x, rowTop, { fit: [cellWidth, imageHeight], align: 'center', valign: 'center' });
+    } catch (error) {
+      console.warn('[PDF] Could not embed photo:', error instanceof Error ? error.message : error);
+    }
+    if (photo.caption) {
+      doc.fillColor(MUTED_COLOR).font('Helvetica').fontSize(9)
+        .text(photo.caption, x, rowTop + imageHeight + 4, { width: cellWidth, height: 20, ellipsis: true });
+    }
+    column = (column + 1) % 2;
+    doc.x = PAGE_MARGIN;
+    doc.y = column === 0 ? rowTop + rowHeight : rowTop;
+  }
+  if (column !== 0) doc.y = rowTop + rowHeight;
+  doc.moveDown(0.5);
+}
+
+/** Each checklist as label/answer rows, then its photos and signature. */
+function drawChecklists(doc: PDFKit.PDFDocument, checklists: PdfChecklist[]): void {
+  const labelWidth = contentWidth(doc) * 0.6;
+  const valueX = PAGE_MARGIN + labelWidth + 10;
+  const valueWidth = contentWidth(doc) - labelWidth - 10;
+
+  for (const checklist of checklists) {
+    ensureSpace(doc, 80);
+    rule(doc);
+    doc.fillColor(TEXT_COLOR).font('Helvetica-Bold').fontSize(12).text(checklist.name, PAGE_MARGIN, doc.y);
+    doc.moveDown(0.4);
+
+    for (const row of checklist.rows) {
+      ensureSpace(doc, 20);
+      const y = doc.y;
+      doc.font('Helvetica').fontSize(10).fillColor(TEXT_COLOR).text(row.label, PAGE_MARGIN, y, { width: labelWidth });
+      const labelBottom = doc.y;
+      doc.font(row.flagged ? 'Helvetica-Bold' : 'Helvetica').fillColor(row.flagged ? '#b91c1c' : TEXT_COLOR)
+        .text(row.flagged ? `${row.value} (out of range)` : row.value, valueX, y, { width: valueWidth });
+      doc.x = PAGE_MARGIN;
+      doc.y = Math.max(labelBottom, doc.y) + 3;
+    }
+    doc.moveDown(0.5);
+
+    drawPhotos(doc, checklist.photos, `${checklist.name} photos`);
+
+    if (checklist.signature) {
+      ensureSpace(doc, 140);
+      const imageTop = doc.y;
+      try {
+        doc.image(decodePngDataUrl(checklist.signature.image), PAGE_MARGIN, imageTop, { fit: [200, 70] });
+      } catch (error) {
+        console.warn('[PDF] Could not embed signature:', error instanceof Error ? error.message : error);
+      }
+      doc.y = imageTop + 75;
+      doc.moveTo(PAGE_MARGIN, doc.y).lineTo(PAGE_MARGIN + 200, doc.y).strokeColor(MUTED_COLOR).lineWidth(0.5).stroke();
+      doc.moveDown(0.3);
+      doc.font('Helvetica').fontSize(9).fillColor(MUTED_COLOR)
+        .text([checklist.signature.signerName, formatDate(checklist.signature.signedAt)].filter(Boolean).join(' · ') || 'Signed', PAGE_MARGIN, doc.y);
+      doc.moveDown(1);
+    }
+  }
+}
+
+function drawAcceptance(doc: PDFKit.PDFDocument, signature: PdfSignature): void {
+  // Keep the acceptance block on one page
+  ensureSpace(doc, 220);
+
+  rule(doc);
+  doc.fillColor(TEXT_COLOR).font('Helvetica-Bold').fontSize(12).text('Acceptance', PAGE_MARGIN, doc.y);
+  doc.font('Helvetica').fontSize(10).fillColor(MUTED_COLOR)
+    .text('The customer accepted this quote and signed below.');
+  doc.moveDown(0.5);
+
+  const imageTop = doc.y;
+  doc.image(decodePngDataUrl(signature.signatureImage), PAGE_MARGIN, imageTop, { fit: [240, 90] });
+  doc.y = imageTop + 95;
+  doc.moveTo(PAGE_MARGIN, doc.y).lineTo(PAGE_MARGIN + 240, doc.y).strokeColor(MUTED_COLOR).lineWidth(0.5).stroke();
+  doc.moveDown(0.3);
+
+  doc.fillColor(TEXT_COLOR).font('Helvetica-Bold').fontSize(11).text(signature.signerName, PAGE_MARGIN, doc.y);
+  doc.font('Helvetica').fontSize(9).fillColor(MUTED_COLOR);
+  doc.text(`Signed: ${signature.signedAt.toISOString()}`);
+  if (signature.ipAddress) doc.text(`IP address: ${signature.ipAddress}`);
+  if (signature.userAgent) doc.text(`User agent: ${signature.userAgent}`, { width: contentWidth(doc) });
+  doc.text(`Document hash (SHA-256): ${signature.contentHash}`, { width: contentWidth(doc) });
+}
+
+// ──────────────────────────────────────────────────────────────────────
+// Documents
+// ──────────────────────────────────────────────────────────────────────
+
+/** Render a quote, with the acceptance block when a signature is given. */
+export function renderQuotePdf(
+  quote: QuoteDocument,
+  options: { branding?: PdfBranding; signature?: PdfSignature | null } = {},
+): Promise<Buffer> {
+  const branding = options.branding ?? DEFAULT_BRANDING;
+  const { doc, done } = createDocument(
+    `Quote #${quote.quoteNumber}${options.signature ? ' (Signed)' : ''}`,
+    branding.name || quote.businessName,
+  );
+
+  drawHeader(doc, branding, quote, 'QUOTE', quote.quoteNumber);
+  drawParties(doc, 'Prepared for', quote, [
+    ['Quote Date', formatDate(quote.createdAt)],
+    ['Valid Until', formatDate(quote.validUntil)],
+  ]);
+  if (quote.options?.length) {
+    for (const option of quote.options) {
+      ensureSpace(doc, 120);
+      drawItemsTable(doc, branding, option.items, option.isRecommended ? `${option.name} (Recommended)` : option.name);
+      if (option.description) drawTextBlock(doc, 'About this option', option.description);
+      drawTotals(doc, branding, [
+        ...(Number(option.tax) > 0 ? [['Tax', option.tax] as [string, string]] : []),
+        [`${option.name} Total`, option.total],
+      ]);
+    }
+  } else {
+    drawItemsTable(doc, branding, quote.items, quote.optionName);
+    drawTotals(doc, branding, [
+      ['Subtotal', quote.amount],
+      ...(Number(quote.tax) > 0 ? [['Tax', quote.tax] as [string, string]] : []),
+      ['Total', quote.total],
+    ]);
+  }
+  drawTextBlock(doc, 'Notes', quote.notes);
+  if (options.signature) drawAcceptance(doc, options.signature);
+
+  doc.end();
+  return done;
+}
+
+/** Render an invoice with payments and credits applied. */
+export function renderInvoicePdf(invoice: InvoiceDocument, branding: PdfBranding = DEFAULT_BRANDING): Promise<Buffer> {
+  const { doc, done } = createDocument(`Invoice #${invoice.invoiceNumber}`, branding.name || invoice.businessName);
+
+  drawHeader(doc, branding, invoice, 'INVOICE', invoice.invoiceNumber);
+  drawParties(doc, 'Bill to', invoice, [
+    ['Invoice Date', formatDate(invoice.createdAt)],
+    ['Due Date', formatDate(invoice.dueDate) || 'Upon receipt'],
+    ['Status', formatStatus(invoice.status)],
+  ]);
+  drawItemsTable(doc, branding, invoice.items);
+
+  const rows: Array<[string, string | number]> = [['Subtotal', invoice.amount]];
+  if (Number(invoice.tax) > 0) rows.push(['Tax', invoice.tax]);
+  rows.push(['Total', invoice.total]);
+  if (Number(invoice.creditedAmount) > 0) rows.push(['Credits', -Number(invoice.creditedAmount)]);
+  if (Number(invoice.amountPaid) > 0) rows.push(['Paid', -Number(invoice.amountPaid)]);
+  if (invoice.balanceDue != null) rows.push(['Balance Due', invoice.balanceDue]);
+  drawTotals(doc, branding, rows);
+
+  drawTextBlock(doc, 'Notes', invoice.notes);
+
+  doc.end();
+  return done;
+}
+
+/** Render a credit note against an invoice. Amounts print negative, as stored. */
+export function renderCreditNotePdf(note: CreditNoteDocument, branding: PdfBranding = DEFAULT_BRANDING): Promise<Buffer> {
+  const { doc, done } = createDocument(`Credit Note #${note.creditNoteNumber}`, branding.name || note.businessName);
+
+  drawHeader(doc, branding, note, 'CREDIT NOTE', note.creditNoteNumber);
+  drawParties(doc, 'Issued to', note, [
+    ['Issued', formatDate(note.createdAt)],
+    ['Against Invoice', `#${note.invoiceNumber}`],
+    ['Status', formatStatus(note.status)],
+  ]);
+  drawItemsTable(doc, branding, note.items);
+  drawTotals(doc, branding, [
+    ['Subtotal', note.amount],
+    ...(Number(note.tax) !== 0 ? [['Tax', note.tax] as [string, string]] : []),
+    ['Total Credit', note.total],
+  ]);
+  drawTextBlock(doc, 'Reason', note.reason);
+
+  doc.end();
+  return done;
+}
+
+/** Render a job completion report: work done, line items, notes and site photos. */
+export function renderJobReportPdf(report: JobReportDocument, branding: PdfBranding = DEFAULT_BRANDING): Promise<Buffer> {
+  const { doc, done } = createDocument(`Job Report — ${report.jobTitle}`, branding.name || report.businessName);
+
+  drawHeader(doc, branding, report, 'JOB REPORT', report.jobNumber);
+  drawParties(doc, 'Customer', report, [
+    ['Scheduled', formatDate(report.scheduledDate)],
+    ['Completed', formatDate(report.completedAt)],
+    ['Technician', report.technicianName],
+  ]);
+
+  doc.fillColor(TEXT_COLOR).font('Helvetica-Bold').fontSize(13).text(report.jobTitle, PAGE_MARGIN, doc.y);
+  doc.moveDown(0.3);
+  if (report.description) {
+    doc.font('Helvetica').fontSize(10).fillColor(TEXT_COLOR).text(report.description, { width: contentWidth(doc) });
+  }
+  doc.moveDown(1);
+
+  drawItemsTable(doc, branding, report.items, 'Work Performed');
+  drawTotals(doc, branding, [['Total', report.total]]);
+  drawTextBlock(doc, 'Technician Notes', report.notes);
+  drawPhotos(doc, report.photos);
+  drawChecklists(doc, report.checklists || []);
+
+  doc.end();
+  return done;
+}
@@ -363,6 +363,63 @@ export async function recordPayment(businessId: number, payment: any): Promise<a
   }
 }
 
+// Create credit memo in QuickBooks. Our credit notes store negative amounts;
+// QuickBooks expects positive lines on a CreditMemo, so signs are flipped here.
+export async function createCreditMemo(businessId: number, creditNote: any): Promise<any> {
+  try {
+    const qbo = await getQuickBooksClient(businessId);
+
+    // Create or update customer first
+    const customer = await createOrUpdateCustomer(businessId, creditNote.customer);
+
+    const newCreditMemo = {
+      CustomerRef: { value: customer.Id },
+      DocNumber: creditNote.creditNoteNumber,
+      TxnDate: new Date(creditNote.createdAt || new Date()).toISOString().split('T')[0],
+      Line: creditNote.items.map((item: any) => ({
+        Description: item.description,
+        Amount: Math.abs(Number(item.amount)),
+        DetailType: 'SalesItemLineDetail',
+        SalesItemLineDetail: {
+          UnitPrice: Math.abs(Number(item.unitPrice || item.amount)),
+          Qty: item.quantity || 1,
+        },
+      })),
+      PrivateNote: creditNote.invoiceNumber ? `Credit against invoice ${creditNote.invoiceNumber}` : undefined,
+      CustomerMemo: { value: creditNote.reason || '' },
+    };
+
+    return new Promise((resolve, reject) => {
+      qbo.createCreditMemo(newCreditMemo, (err: any, result: any) => {
+        if (err) reject(err);
+        else resolve(result);
+      });
+    });
+  } catch (error) {
+    console.error('Error creating QuickBooks credit memo:', error);
+    throw error;
+  }
+}
+
+// Take a credit memo back out of QuickBooks when its credit note is voided.
+// node-quickbooks has no void call for credit memos, so the memo is deleted;
+// the SyncToken is read by the client before the delete.
+export async function deleteCreditMemo(businessId: number, creditMemoId: string): Promise<any> {
+  try {
+    const qbo = await getQuickBooksClient(businessId);
+
+    return new Promise((resolve, reject) => {
+      qbo.deleteCreditMemo(creditMemoId, (err: any, result: any) => {
+        if (err) reject(err);
+        else resolve(result);
+      });
+    });
+  } catch (error) {
+    console.error('Error deleting QuickBooks credit memo:', error);
+    throw error;
+  }
+}
+
 // Get QuickBooks connection status
 export async function getQuickBooksStatus(businessId: number): Promise<any> {
   try {
@@ -49,12 +49,11 @@ const mockTransaction = vi.fn(async (fn: any) => {
       }),
     }),
     insert: (_table: any) => ({
-      values: (vals: any) => ({
-        returning: () => {
-          txInsertCalls.push({ table: 'jobs', values: vals });
-          return Promise.resolve([{ id: 9999 }]);
-        },
-      }),
+      values: (vals: any) => {
+        // Line-item inserts are awaited without .returning(), so record here
+        txInsertCalls.push({ table: 'jobId' in vals ? 'job_line_items' : 'jobs', values: vals });
+        return { returning: () => Promise.resolve([{ id: 9999 }]) };
+      },
     }),
   };
   return fn(tx);
@@ -282,6 +281,45 @@ describe('handleQuoteAcceptance — happy path', () => {
   });
 });
 
+describe('handleQuoteAcceptance — quote options', () => {
+  const SOURCE_JOB = {
+    id: 200,
+    businessId: 1,
+    staffId: 7,
+    urgency: null,
+    issueType: null,
+    symptoms: null,
+    accessNotes: null,
+  };
+  const OPTION_ITEMS = [
+    { description: 'Repair compressor', quantity: 1, unitPrice: '800.00', amount: '800.00', optionId: 1 },
+    { description: 'New 16 SEER unit', quantity: 1, unitPrice: '6400.00', amount: '6400.00', optionId: 2 },
+    { description: 'Haul-away', quantity: 1, unitPrice: '150.00', amount: '150.00', optionId: 2 },
+  ];
+
+  it('returns quote_option_not_selected when the customer has not picked an option', async () => {
+    mockGetQuoteById.mockResolvedValueOnce(makeQuote({ selectedOptionId: null }));
+    mockGetJob.mockResolvedValueOnce(SOURCE_JOB);
+    mockGetQuoteItems.mockResolvedValueOnce(OPTION_ITEMS);
+
+    const result = await handleQuoteAcceptance(100, 1);
+    expect(result.ok).toBe(false);
+    expect(result.reason).toBe('quote_option_not_selected');
+    expect(mockTransaction).not.toHaveBeenCalled();
+  });
+
+  it('copies only the chosen option\'s items to the repair job', async () => {
+    mockGetQuoteById.mockResolvedValueOnce(makeQuote({ selectedOptionId: 2 }));
+    mockGetJob.mockResolvedValueOnce(SOURCE_JOB);
+    mockGetQuoteItems.mockResolvedValueOnce(OPTION_ITEMS);
+
+    const result = await handleQuoteAcceptance(100, 1);
+    expect(result.ok).toBe(true);
+    const lineItemInserts = txInsertCalls.filter((c) => c.table === 'job_line_items');
+    expect(lineItemInserts.map((c) => c.values.description)).toEqual(['New 16 SEER unit', 'Haul-away']);
+  });
+});
+
 describe('handleQuoteAcceptance — failure isolation', () => {
   it('returns database_error (not a 500 throw) when the lookup throws', async () => {
     mockGetQuoteById.mockRejectedValueOnce(new Error('connection pool exhausted'));
@@ -10,7 +10,10 @@
  *      "diagnostic job N → quote N → repair job M".
  *   3. Mirrors the quote's line items into the new repair job's
  *      line items (prices already include the member-discount snapshot
- *      from send-time).
+ *      from send-time). For good/better/best quotes only the chosen
+ *      option's items are copied; an SMS "Y" can't pick an option, so a
+ *      quote with options and no selection is refused and the customer is
+ *      pointed back at the portal.
  *   4. Returns the new job ID + a `notified: boolean` summary.
  *
  * Idempotency: if the quote is ALREADY converted (status='converted') AND a
@@ -36,6 +39,7 @@ import { db } from '../db';
 import { quotes, jobs as jobsTable } from '@shared/schema';
 import { and, eq } from 'drizzle-orm';
 import { storage } from '../storage';
+import { getChosenQuoteItems } from './quoteOptionService';
 
 const LOG_PREFIX = '[QuoteAcceptance]';
 
@@ -51,6 +55,7 @@ export interface QuoteAcceptanceResult {
     | 'quote_already_declined'
     | 'quote_has_no_source_job'
     | 'quote_has_no_line_items'
+    | 'quote_option_not_selected'
     | 'database_error';
   message?: string;
 }
@@ -154,12 +159,23 @@ export async function handleQuoteAcceptance(
     // Fetch the supporting context — source job (for triage carry-forward
     // + staff default), quote items (to mirror), and validate we have items
     // to copy.
-    const [sourceJob, quoteItems] = await Promise.all([
+    const [sourceJob, allQuoteItems] = await Promise.all([
       storage.getJob(quote.jobId),
       storage.getQuoteItems(quote.id),
     ]);
 
-    if (!quoteItems || quoteItems.length === 0) {
+    const quoteItems = getChosenQuoteItems(quote, allQuoteItems || []);
+    if (!quoteItems) {
+      return {
+        ok: false,
+        newJobId: null,
+        quoteAlreadyConverted: false,
+        reason: 'quote_option_not_selected',
+        message: 'Choose one of the quote options before approving',
+      };
+    }
+
+    if (quoteItems.length === 0) {
       return {
         ok: false,
         newJobId: null,
@@ -0,0 +1,137 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// ── Mocks (vi.hoisted ensures they're available when vi.mock factories run) ──
+
+const { mockStorage, mockTx } = vi.hoisted(() => ({
+  mockStorage: {
+    getQuoteOptions: vi.fn(),
+    deleteQuoteOptions: vi.fn(),
+    updateQuote: vi.fn(),
+  },
+  // Transaction stand-in: records each write as [table, values] and echoes
+  // inserted rows back with ids
+  mockTx: {
+    writes: [] as [string, any][],
+    nextId: 10,
+    delete: vi.fn((table: any) => ({ where: async () => { mockTx.writes.push([tableName(table), 'delete']); } })),
+    insert: vi.fn((table: any) => ({
+      values: (values: any) => ({
+        returning: async () => {
+          mockTx.writes.push([tableName(table), values]);
+          return Array.isArray(values) ? values.map((v) => ({ id: 500, ...v })) : [{ id: mockTx.nextId++, ...values }];
+        },
+      }),
+    })),
+    update: vi.fn((table: any) => ({
+      set: (values: any) => ({ where: async () => { mockTx.writes.push([tableName(table), values]); } }),
+    })),
+  },
+}));
+
+function tableName(table: any): string {
+  return table[Symbol.for('drizzle:Name')];
+}
+
+vi.mock('../storage', () => ({ storage: mockStorage }));
+vi.mock('../db', () => ({ db: { transaction: async (fn: any) => fn(mockTx) } }));
+
+import {
+  computeMonthlyPayment,
+  getChosenQuoteItems,
+  getDisplayOption,
+  getOptionMonthlyPayment,
+  saveQuoteOptions,
+  selectQuoteOption,
+} from './quoteOptionService';
+
+// ── Test Data ──
+
+const QUOTE = { id: 100, businessId: 1, status: 'pending', selectedOptionId: null } as any;
+
+const OPTIONS = [
+  { id: 1, quoteId: 100, name: 'Repair', amount: '800.00', tax: '0.00', total: '800.00', isRecommended: false },
+  { id: 2, quoteId: 100, name: 'Replace', amount: '6400.00', tax: '512.00', total: '6912.00', isRecommended: true },
+];
+
+// ── Tests ──
+
+describe('quoteOptionService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockTx.writes = [];
+    mockTx.nextId = 10;
+    mockStorage.updateQuote.mockImplementation(async (id: number, patch: any) => ({ ...QUOTE, id, ...patch }));
+  });
+
+  describe('pure helpers', () => {
+    it('returns every item for flat quotes and only the chosen option otherwise', () => {
+      const flat = [{ optionId: null }, { optionId: null }];
+      const tiered = [{ optionId: 1 }, { optionId: 2 }, { optionId: 2 }];
+
+      expect(getChosenQuoteItems(QUOTE, flat)).toHaveLength(2);
+      expect(getChosenQuoteItems(QUOTE, tiered)).toBeNull();
+      expect(getChosenQuoteItems({ selectedOptionId: 2 }, tiered)).toEqual([{ optionId: 2 }, { optionId: 2 }]);
+    });
+
+    it('shows the selected option, then the recommended one, then the first', () => {
+      expect(getDisplayOption(OPTIONS, 1)?.id).toBe(1);
+      expect(getDisplayOption(OPTIONS)?.id).toBe(2);
+      expect(getDisplayOption(OPTIONS.map((o) => ({ ...o, isRecommended: false })))?.id).toBe(1);
+    });
+
+    it('estimates a monthly payment only when financing is on', () => {
+      expect(computeMonthlyPayment(6000, 0, 60)).toBe(100);
+      expect(computeMonthlyPayment(6912, 9.99, 60)).toBe(147);
+      expect(getOptionMonthlyPayment('6912.00', { financingEnabled: true, financingApr: '9.99', financingTermMonths: 60 })).toBe(147);
+      expect(getOptionMonthlyPayment('6912.00', { financingEnabled: false, financingApr: '9.99', financingTermMonths: 60 })).toBeNull();
+    });
+  });
+
+  describe('saveQuoteOptions', () => {
+    it('prices each option, keeps one recommended flag and points the quote at it', async () => {
+      const saved = await saveQuoteOptions(100, [
+        { name: 'Good', items: [{ description: 'Repair', quantity: 1, unitPrice: 800 }] },
+        { name: 'Better', isRecommended: true, tax: 40, items: [{ description: 'Unit', quantity: 2, unitPrice: 250 }] },
+        { name: 'Best', isRecommended: true, items: [{ description: 'Unit', quantity: 1, unitPrice: 900 }] },
+      ]);
+
+      expect(mockTx.writes.slice(0, 2)).toEqual([['quote_items', 'delete'], ['quote_options', 'delete']]);
+      expect(saved.map((o) => o.isRecommended)).toEqual([false, true, false]);
+      expect(saved[1]).toEqual(expect.objectContaining({ amount: '500.00', tax: '40.00', total: '540.00' }));
+      expect(saved[1].items).toEqual([expect.objectContaining({ quoteId: 100, optionId: 11, amount: '500.00' })]);
+      expect(mockTx.writes.at(-1)).toEqual(['quotes', expect.objectContaining({
+        amount: '500.00', tax: '40.00', total: '540.00', selectedOptionId: null,
+      })]);
+    });
+
+    it('rounds line amounts to cents and totals the rounded lines', async () => {
+      const [saved] = await saveQuoteOptions(100, [
+        { name: 'Good', items: [{ description: 'Filter', quantity: 3, unitPrice: 0.335 }, { description: 'Filter', quantity: 3, unitPrice: 0.335 }] },
+      ]);
+
+      expect(saved.items.map((item) => item.amount)).toEqual(['1.01', '1.01']);
+      expect(saved.amount).toBe('2.02');
+    });
+  });
+
+  describe('selectQuoteOption', () => {
+    it('copies the chosen option totals onto the quote', async () => {
+      mockStorage.getQuoteOptions.mockResolvedValue(OPTIONS);
+
+      const result = await selectQuoteOption(QUOTE, 1);
+
+      expect(result.ok).toBe(true);
+      expect(mockStorage.updateQuote).toHaveBeenCalledWith(100, {
+        selectedOptionId: 1, amount: '800.00', tax: '0.00', total: '800.00',
+      });
+    });
+
+    it('rejects options from another quote and converted quotes', async () => {
+      mockStorage.getQuoteOptions.mockResolvedValue(OPTIONS);
+
+      expect(await selectQuoteOption(QUOTE, 99)).toEqual(expect.objectContaining({ ok: false, reason: 'option_not_found' }));
+      expect(await selectQuoteOption({ ...QUOTE, status: 'converted' }, 1)).toEqual(expect.objectContaining({ ok: false, reason: 'quote_locked' }));
+      expect(mockStorage.updateQuote).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * Quote Option Service — good/better/best tiers on a quote
+ *
+ * A quote either has a flat item list (optionId null on every item — the
+ * original shape) or two or more options, each with its own line items and
+ * totals and at most one flagged as recommended. The customer picks one on
+ * the portal; the owner can also record a pick made over the phone.
+ *
+ * The quote row's amount/tax/total always mirror one option — the selected
+ * one, or the recommended one (falling back to the first) until a pick is
+ * made — so list views, deposits and invoice conversion keep reading the
+ * quote totals unchanged. Anything that copies line items off a quote
+ * (invoice conversion, convert-to-job, quoteAcceptanceService) goes through
+ * getChosenQuoteItems so only the chosen option's items are used.
+ */
+
+import { quoteItems, quoteOptions, quotes, type Business, type Quote, type QuoteItem, type QuoteOption } from '@shared/schema';
+import { eq } from 'drizzle-orm';
+import { db } from '../db';
+import { storage } from '../storage';
+import { toMoney, roundMoney } from '../utils/money';
+
+const LOG_PREFIX = '[QuoteOptions]';
+
+export interface QuoteOptionItemInput {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+}
+
+export interface QuoteOptionInput {
+  name: string;
+  description?: string | null;
+  isRecommended?: boolean;
+  tax?: number;
+  items: QuoteOptionItemInput[];
+}
+
+export type QuoteOptionWithItems = QuoteOption & { items: QuoteItem[] };
+
+export type SelectQuoteOptionResult =
+  | { ok: true; option: QuoteOption; quote: Quote }
+  | { ok: false; reason: 'option_not_found' | 'quote_locked'; message: string };
+
+// ──────────────────────────────────────────────────────────────────────
+// Pure helpers
+// ──────────────────────────────────────────────────────────────────────
+
+/** Amount, tax and total for one option, in dollars. */
+export function priceQuoteOption(option: Pick<QuoteOptionInput, 'items' | 'tax'>): { amount: number; tax: number; total: number } {
+  // Sum of the rounded line amounts, so the total matches the stored items
+  const amount = roundMoney(option.items.reduce((sum, item) => sum + roundMoney(item.quantity * item.unitPrice), 0));
+  const tax = roundMoney(option.tax ?? 0);
+  return { amount, tax, total: roundMoney(amount + tax) };
+}
+
+/**
+ * The items that apply to a quote. Flat quotes return every item. Quotes
+ * with options return the selected option's items, or null when the
+ * customer has not picked one yet.
+ */
+export function getChosenQuoteItems<T extends Pick<QuoteItem, 'optionId'>>(
+  quote: Pick<Quote, 'selectedOptionId'>,
+  items: T[],
+): T[] | null {
+  const hasOptions = items.some((item) => item.optionId != null);
+  if (!hasOptions) return items;
+  if (!quote.selectedOptionId) return null;
+  return items.filter((item) => item.optionId === quote.selectedOptionId);
+}
+
+/** The option whose totals the quote row shows: selected, else recommended, else first. */
+export function getDisplayOption<T extends Pick<QuoteOption, 'id' | 'isRecommended'>>(
+  options: T[],
+  selectedOptionId?: number | null,
+): T | undefined {
+  return (
+    options.find((option) => option.id === selectedOptionId) ??
+    options.find((option) => option.isRecommended) ??
+    options[0]
+  );
+}
+
+/**
+ * Standard amortization formula for a fixed-rate loan. Monthly payment in
+ * dollars, rounded to the nearest dollar — matches the portal's financing CTA.
+ */
+export function computeMonthlyPayment(principal: number, aprPercent: number, termMonths: number): number {
+  if (!principal || !termMonths) return 0;
+  if (!aprPercent || aprPercent <= 0) return Math.round(principal / termMonths);
+  const monthlyRate = aprPercent / 100 / 12;
+  const payment =
+    (principal * monthlyRate * Math.pow(1 + monthlyRate, termMonths)) /
+    (Math.pow(1 + monthlyRate, termMonths) - 1);
+  return Math.round(payment);
+}
+
+/**
+ * Estimated monthly payment for an option total using the business's
+ * financing terms, or null when financing is off.
+ */
+export function getOptionMonthlyPayment(
+  total: string | number,
+  business: Pick<Business, 'financingEnabled' | 'financingApr' | 'financingTermMonths'> | null | undefined,
+): number | null {
+  if (!business?.financingEnabled) return null;
+  const apr = business.financingApr != null ? Number(business.financingApr) : 0;
+  return computeMonthlyPayment(toMoney(total), apr, business.financingTermMonths || 60);
+}
+
+// ──────────────────────────────────────────────────────────────────────
+// Writes
+// ──────────────────────────────────────────────────────────────────────
+
+/**
+ * Replace a quote's items and options with the given options, then point
+ * the quote totals at the recommended (or first) option. Clears any earlier
+ * selection — prices may have changed under it. Runs in one transaction so
+ * a failed save leaves the previous options in place.
+ */
+export async function saveQuoteOptions(quoteId: number, inputs: QuoteOptionInput[]): Promise<QuoteOptionWithItems[]> {
+  // Only one option may carry the recommended flag — keep the first one set
+  const recommendedIndex = inputs.findIndex((input) => input.isRecommended);
+
+  return db.transaction(async (tx) => {
+    await tx.delete(quoteItems).where(eq(quoteItems.quoteId, quoteId));
+    await tx.delete(quoteOptions).where(eq(quoteOptions.quoteId, quoteId));
+
+    const saved: QuoteOptionWithItems[] = [];
+    for (let index = 0; index < inputs.length; index++) {
+      const input = inputs[index];
+      const price = priceQuoteOption(input);
+      const [option] = await tx.insert(quoteOptions).values({
+        quoteId,
+        name: input.name,
+        description: input.description || null,
+        amount: price.amount.toFixed(2),
+        tax: price.tax.toFixed(2),
+        total: price.total.toFixed(2),
+        isRecommended: index === recommendedIndex,
+        sortOrder: index,
+      }).returning();
+
+      const items = input.items.length > 0
+        ? await tx.insert(quoteItems).values(input.items.map((item) => ({
+            quoteId,
+            optionId: option.id,
+            description: item.description,
+            quantity: item.quantity,
+            unitPrice: String(item.unitPrice),
+            amount: roundMoney(item.quantity * item.unitPrice).toFixed(2),
+          }))).returning()
+        : [];
+      saved.push({ ...option, items });
+    }
+
+    const display = getDisplayOption(saved);
+    if (display) {
+      await tx.update(quotes)
+        .set({
+          amount: display.amount,
+          tax: display.tax,
+          total: display.total,
+          selectedOptionId: null,
+          updatedAt: new Date(),
+        })
+        .where(eq(quotes.id, quoteId));
+    }
+
+    return saved;
+  });
+}
+
+/** Drop options from a quote that is going back to a flat item list. */
+export async function clearQuoteOptions(quoteId: number): Promise<void> {
+  await storage.deleteQuoteOptions(quoteId);
+  await storage.updateQuote(quoteId, { selectedOptionId: null });
+}
+
+/**
+ * Record which option the customer chose and copy its totals onto the
+ * quote. Refused once the quote has been converted.
+ */
+export async function selectQuoteOption(quote: Quote, optionId: number): Promise<SelectQuoteOptionResult> {
+  if (quote.status === 'converted') {
+    return { ok: false, reason: 'quote_locked', message: 'This quote has already been converted' };
+  }
+
+  const options = await storage.getQuoteOptions(quote.id);
+  const option = options.find((o) => o.id === optionId);
+  if (!option) {
+    return { ok: false, reason: 'option_not_found', message: 'That option is not on this quote' };
+  }
+
+  const updated = await storage.updateQuote(quote.id, {
+    selectedOptionId: option.id,
+    amount: option.amount,
+    tax: option.tax,
+    total: option.total,
+  });
+
+  console.log(`${LOG_PREFIX} Quote ${quote.id} option ${option.id} (${option.name}) selected`);
+  return { ok: true, option, quote: updated };
+}
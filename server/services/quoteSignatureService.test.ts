@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// ── Mocks (vi.hoisted ensures they're available when vi.mock factories run) ──
+
+const { mockStorage, mockLogAudit, mockRenderQuotePdf, mockGetPdfBranding, mockS3, mockSendSignedQuoteEmail } = vi.hoisted(() => ({
+  mockStorage: {
+    getBusiness: vi.fn(),
+    getCustomer: vi.fn(),
+    getQuoteItems: vi.fn(),
+    getQuoteOptions: vi.fn(),
+    createQuoteSignature: vi.fn(),
+    updateQuoteSignature: vi.fn(),
+  },
+  mockLogAudit: vi.fn(),
+  mockRenderQuotePdf: vi.fn(),
+  mockGetPdfBranding: vi.fn(),
+  mockS3: { isS3Configured: vi.fn(), uploadBufferToS3: vi.fn() },
+  mockSendSignedQuoteEmail: vi.fn(),
+}));
+
+vi.mock('../storage', () => ({ storage: mockStorage }));
+vi.mock('./auditService', () => ({ logAudit: mockLogAudit }));
+vi.mock('./stripeConnectService', () => ({ stripeConnectService: {} }));
+vi.mock('../db', () => ({ db: {} }));
+vi.mock('./pdfService', () => ({ renderQuotePdf: mockRenderQuotePdf, getPdfBranding: mockGetPdfBranding }));
+vi.mock('../utils/s3Upload', () => mockS3);
+vi.mock('../emailService', () => ({ sendSignedQuoteEmail: mockSendSignedQuoteEmail }));
+
+import {
+  captureQuoteSignature,
+  deliverSignedQuote,
+  hashSignedContent,
+  validateSignatureInput,
+} from './quoteSignatureService';
+
+// ── Test Data ──
+
+// 1x1 transparent PNG
+const PNG = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+
+const QUOTE = {
+  id: 100, businessId: 1, customerId: 7, quoteNumber: 'Q-100', status: 'accepted',
+  amount: '6400.00', tax: '512.00', total: '6912.00', selectedOptionId: 2,
+  validUntil: '2026-12-31', notes: null, createdAt: new Date('2026-10-01T12:00:00Z'),
+} as any;
+
+const ITEMS = [
+  { id: 1, quoteId: 100, optionId: 1, description: 'Repair', quantity: 1, unitPrice: '800.00', amount: '800.00' },
+  { id: 2, quoteId: 100, optionId: 2, description: 'New furnace', quantity: 1, unitPrice: '6400.00', amount: '6400.00' },
+];
+
+const OPTIONS = [
+  { id: 1, quoteId: 100, name: 'Repair' },
+  { id: 2, quoteId: 100, name: 'Replace' },
+];
+
+// ── Tests ──
+
+describe('quoteSignatureService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockStorage.getBusiness.mockResolvedValue({ id: 1, name: 'Acme HVAC', email: 'office@acme.test' });
+    mockStorage.getCustomer.mockResolvedValue({ id: 7, firstName: 'Dana', lastName: 'Lee', email: 'dana@example.test' });
+    mockStorage.getQuoteItems.mockResolvedValue(ITEMS);
+    mockStorage.getQuoteOptions.mockResolvedValue(OPTIONS);
+    mockStorage.createQuoteSignature.mockImplementation(async (sig: any) => ({ id: 55, ...sig }));
+    mockRenderQuotePdf.mockResolvedValue(Buffer.from('%PDF-1.3'));
+    mockGetPdfBranding.mockResolvedValue({ name: 'Acme HVAC', color: '#2563eb', logo: null });
+  });
+
+  describe('validateSignatureInput', () => {
+    it('accepts a named PNG signature and trims the name', () => {
+      expect(validateSignatureInput({ signerName: '  Dana Lee ', signatureImage: PNG }))
+        .toEqual({ ok: true, signerName: 'Dana Lee', signatureImage: PNG });
+    });
+
+    it('rejects a missing name, a missing drawing and non-PNG data', () => {
+      expect(validateSignatureInput({ signerName: ' ', signatureImage: PNG }))
+        .toEqual(expect.objectContaining({ ok: false, reason: 'signer_name_required' }));
+      expect(validateSignatureInput({ signerName: 'Dana', signatureImage: '' }))
+        .toEqual(expect.objectContaining({ ok: false, reason: 'signature_required' }));
+      expect(validateSignatureInput({ signerName: 'Dana', signatureImage: 'data:image/png;base64,aGVsbG8=' }))
+        .toEqual(expect.objectContaining({ ok: false, reason: 'invalid_signature' }));
+      expect(validateSignatureInput({ signerName: 'Dana', signatureImage: 'data:image/svg+xml;base64,PHN2Zz4=' }))
+        .toEqual(expect.objectContaining({ ok: false, reason: 'invalid_signature' }));
+    });
+  });
+
+  describe('captureQuoteSignature', () => {
+    it('stores a snapshot of the chosen option with a content hash and audits it', async () => {
+      const signature = await captureQuoteSignature({
+        quote: QUOTE, signerName: 'Dana Lee', signatureImage: PNG, ipAddress: '203.0.113.9', userAgent: 'Mobile Safari',
+      });
+
+      const stored = mockStorage.createQuoteSignature.mock.calls[0][0];
+      expect(stored).toEqual(expect.objectContaining({
+        quoteId: 100, businessId: 1, optionId: 2, signerName: 'Dana Lee',
+        ipAddress: '203.0.113.9', userAgent: 'Mobile Safari',
+      }));
+      expect(stored.snapshot).toEqual(expect.objectContaining({
+        quoteNumber: 'Q-100', optionName: 'Replace', total: '6912.00', customerName: 'Dana Lee',
+      }));
+      expect(stored.snapshot.items).toEqual([expect.objectContaining({ description: 'New furnace' })]);
+      expect(stored.contentHash).toBe(hashSignedContent(stored.snapshot, PNG));
+      expect(stored.contentHash).not.toBe(hashSignedContent(stored.snapshot, PNG.replace('ggg', 'ggh')));
+      // Key order doesn't matter — jsonb reorders keys on the way back out
+      const reordered = Object.fromEntries(Object.entries(stored.snapshot).reverse()) as any;
+      expect(hashSignedContent(reordered, PNG)).toBe(stored.contentHash);
+
+      expect(mockLogAudit).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'quote_signed', businessId: 1, resourceId: 100, ipAddress: '203.0.113.9',
+      }));
+      expect(signature?.id).toBe(55);
+    });
+
+    it('returns null without auditing when the quote is already signed', async () => {
+      mockStorage.createQuoteSignature.mockResolvedValue(undefined);
+
+      const signature = await captureQuoteSignature({ quote: QUOTE, signerName: 'Dana Lee', signatureImage: PNG });
+
+      expect(signature).toBeNull();
+      expect(mockLogAudit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deliverSignedQuote', () => {
+    const SIGNATURE = {
+      id: 55, quoteId: 100, businessId: 1, signerName: 'Dana Lee', signatureImage: PNG,
+      signedAt: new Date('2026-10-02T15:00:00Z'), ipAddress: '203.0.113.9', userAgent: 'Mobile Safari',
+      contentHash: 'abc', pdfUrl: null, emailedAt: null,
+      snapshot: {
+        quoteNumber: 'Q-100', businessName: 'Acme HVAC', businessEmail: 'office@acme.test',
+        customerName: 'Dana Lee', customerEmail: 'dana@example.test', items: [], amount: '0', tax: '0', total: '0',
+      },
+    } as any;
+
+    it('uploads the PDF and emails the customer and the business', async () => {
+      mockS3.isS3Configured.mockReturnValue(true);
+      mockS3.uploadBufferToS3.mockResolvedValue('https://s3.test/quote-100-55.pdf');
+
+      await deliverSignedQuote(SIGNATURE);
+
+      expect(mockRenderQuotePdf).toHaveBeenCalledWith(SIGNATURE.snapshot, expect.objectContaining({
+        branding: expect.objectContaining({ color: '#2563eb' }),
+        signature: expect.objectContaining({ signerName: 'Dana Lee' }),
+      }));
+      expect(mockStorage.updateQuoteSignature).toHaveBeenCalledWith(55, { pdfUrl: 'https://s3.test/quote-100-55.pdf' });
+      expect(mockSendSignedQuoteEmail.mock.calls.map((call) => call[0])).toEqual(['dana@example.test', 'office@acme.test']);
+      expect(mockStorage.updateQuoteSignature).toHaveBeenCalledWith(55, { emailedAt: expect.any(Date) });
+    });
+
+    it('still emails when file storage is not configured', async () => {
+      mockS3.isS3Configured.mockReturnValue(false);
+
+      await deliverSignedQuote(SIGNATURE);
+
+      expect(mockS3.uploadBufferToS3).not.toHaveBeenCalled();
+      expect(mockSendSignedQuoteEmail).toHaveBeenCalledTimes(2);
+    });
+  });
+});
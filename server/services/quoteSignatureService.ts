@@ -0,0 +1,212 @@
+/**
+ * Quote Signature Service — drawn e-signatures on quote acceptance
+ *
+ * When a customer accepts a quote on the portal they type their name and
+ * draw a signature. We keep the signature image together with the signer's
+ * name, IP, user agent and time, plus a frozen snapshot of what they agreed
+ * to (line items, totals, chosen option) and a SHA-256 hash over snapshot +
+ * image. Later edits to the quote never change the signed record.
+ *
+ * After the record is written, a flattened PDF of the accepted quote with
+ * the signature embedded is rendered from the snapshot, stored on S3 when
+ * file storage is configured, and emailed to the customer and the business.
+ * Delivery failures are logged and never undo the acceptance.
+ */
+
+import { createHash } from 'crypto';
+import type { Quote, QuoteSignature } from '@shared/schema';
+import { storage } from '../storage';
+import { logAudit } from './auditService';
+import { buildQuoteDocument } from './documentPdfService';
+import { getPdfBranding, renderQuotePdf, type QuoteDocument } from './pdfService';
+import { isS3Configured, uploadBufferToS3 } from '../utils/s3Upload';
+import { sendSignedQuoteEmail } from '../emailService';
+
+const LOG_PREFIX = '[QuoteSignature]';
+
+// Signature pads export small PNGs; anything much larger is not a drawn signature
+const MAX_SIGNATURE_BYTES = 300 * 1024;
+const PNG_MAGIC = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+export interface SignatureInput {
+  signerName?: unknown;
+  signatureImage?: unknown;
+}
+
+export type ValidateSignatureResult =
+  | { ok: true; signerName: string; signatureImage: string }
+  | { ok: false; reason: 'signer_name_required' | 'signature_required' | 'invalid_signature'; message: string };
+
+// ──────────────────────────────────────────────────────────────────────
+// Pure helpers
+// ──────────────────────────────────────────────────────────────────────
+
+/** Check the signer name and that the image is a reasonably sized PNG data URL. */
+export function validateSignatureInput(input: SignatureInput): ValidateSignatureResult {
+  const signerName = typeof input.signerName === 'string' ? input.signerName.trim() : '';
+  if (!signerName) {
+    return { ok: false, reason: 'signer_name_required', message: 'Please type your full name to sign' };
+  }
+  if (signerName.length > 200) {
+    return { ok: false, reason: 'signer_name_required', message: 'Signer name is too long' };
+  }
+
+  const signatureImage = typeof input.signatureImage === 'string' ? input.signatureImage : '';
+  if (!signatureImage) {
+    return { ok: false, reason: 'signature_required', message: 'Please draw your signature to accept' };
+  }
+
+  const match = /^data:image\/png;base64,([A-Za-z0-9+/=]+)$/.exec(signatureImage);
+  const bytes = match ? Buffer.from(match[1], 'base64') : null;
+  if (!bytes || bytes.length < PNG_MAGIC.length || !bytes.subarray(0, PNG_MAGIC.length).equals(PNG_MAGIC)) {
+    return { ok: false, reason: 'invalid_signature', message: 'Signature must be a PNG image' };
+  }
+  if (bytes.length > MAX_SIGNATURE_BYTES) {
+    return { ok: false, reason: 'invalid_signature', message: 'Signature image is too large' };
+  }
+
+  return { ok: true, signerName, signatureImage };
+}
+
+/** JSON with object keys sorted, so the hash survives a jsonb round-trip (which reorders keys). */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    return `{${Object.keys(record).sort().filter((key) => record[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson(record[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/** SHA-256 over the frozen snapshot and the signature image. */
+export function hashSignedContent(snapshot: QuoteDocument, signatureImage: string): string {
+  return createHash('sha256').update(canonicalJson(snapshot)).update(signatureImage).digest('hex');
+}
+
+// ──────────────────────────────────────────────────────────────────────
+// Capture & delivery
+// ──────────────────────────────────────────────────────────────────────
+
+/**
+ * Write the signature record for a quote being accepted. Call after any
+ * option selection has been saved, so the snapshot matches what was
+ * accepted, and before the status changes to 'accepted'. Returns null when
+ * the quote already has a signature (a repeated or double-clicked Accept).
+ */
+export async function captureQuoteSignature(params: {
+  quote: Quote;
+  signerName: string;
+  signatureImage: string;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}): Promise<QuoteSignature | null> {
+  const { quote, signerName, signatureImage } = params;
+  // Frozen copy of what was accepted — the chosen option's items and totals
+  const snapshot = await buildQuoteDocument(quote);
+
+  const signature = await storage.createQuoteSignature({
+    quoteId: quote.id,
+    businessId: quote.businessId,
+    optionId: quote.selectedOptionId ?? null,
+    signerName,
+    signatureImage,
+    ipAddress: params.ipAddress ?? null,
+    userAgent: params.userAgent ?? null,
+    signedAt: new Date(),
+    snapshot,
+    contentHash: hashSignedContent(snapshot, signatureImage),
+  });
+  if (!signature) {
+    console.log(`${LOG_PREFIX} Quote ${quote.id} is already signed; ignoring repeated accept`);
+    return null;
+  }
+
+  await logAudit({
+    userId: null,
+    businessId: quote.businessId,
+    action: 'quote_signed',
+    resource: 'quote',
+    resourceId: quote.id,
+    details: {
+      signatureId: signature.id,
+      signerName,
+      optionId: signature.optionId,
+      total: snapshot.total,
+      contentHash: signature.contentHash,
+    },
+    ipAddress: params.ipAddress ?? undefined,
+    userAgent: params.userAgent ?? undefined,
+  });
+
+  console.log(`${LOG_PREFIX} Quote ${quote.id} signed by ${signerName} (signature ${signature.id})`);
+  return signature;
+}
+
+/** Render the signed PDF straight from the stored snapshot, in the business's current branding. */
+export async function renderSignedQuotePdf(signature: QuoteSignature): Promise<Buffer> {
+  const branding = await getPdfBranding(await storage.getBusiness(signature.businessId));
+  return renderQuotePdf(signature.snapshot as QuoteDocument, {
+    branding,
+    signature: {
+      signerName: signature.signerName,
+      signatureImage: signature.signatureImage,
+      signedAt: new Date(signature.signedAt),
+      ipAddress: signature.ipAddress,
+      userAgent: signature.userAgent,
+      contentHash: signature.contentHash,
+    },
+  });
+}
+
+/**
+ * Render the signed PDF, keep a copy on S3 (when configured) and email it to
+ * the customer and the business. Each step is independent — a failed upload
+ * still sends the emails.
+ */
+export async function deliverSignedQuote(signature: QuoteSignature): Promise<void> {
+  const snapshot = signature.snapshot as QuoteDocument;
+  const pdf = await renderSignedQuotePdf(signature);
+
+  if (isS3Configured()) {
+    try {
+      const pdfUrl = await uploadBufferToS3(
+        pdf,
+        `quote-signatures/quote-${signature.quoteId}-${signature.id}.pdf`,
+        'application/pdf',
+      );
+      await storage.updateQuoteSignature(signature.id, { pdfUrl });
+    } catch (error) {
+      console.error(`${LOG_PREFIX} Failed to upload signed PDF for quote ${signature.quoteId}:`, error);
+    }
+  }
+
+  const signedAt = new Date(signature.signedAt).toLocaleString('en-US', { dateStyle: 'long', timeStyle: 'short' });
+  const recipients: Array<{ email: string; name: string }> = [];
+  if (snapshot.customerEmail) recipients.push({ email: snapshot.customerEmail, name: snapshot.customerName });
+  if (snapshot.businessEmail && snapshot.businessEmail !== snapshot.customerEmail) {
+    recipients.push({ email: snapshot.businessEmail, name: snapshot.businessName });
+  }
+
+  let emailed = false;
+  for (const recipient of recipients) {
+    try {
+      await sendSignedQuoteEmail(
+        recipient.email,
+        recipient.name,
+        snapshot.businessName,
+        snapshot.quoteNumber,
+        signature.signerName,
+        signedAt,
+        pdf,
+      );
+      emailed = true;
+    } catch (error) {
+      console.error(`${LOG_PREFIX} Failed to email signed quote ${signature.quoteId} to ${recipient.email}:`, error);
+    }
+  }
+
+  if (emailed) {
+    await storage.updateQuoteSignature(signature.id, { emailedAt: new Date() });
+  }
+}
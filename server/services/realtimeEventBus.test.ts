@@ -0,0 +1,94 @@
+/**
+ * realtimeEventBus tests — NOTIFY payload parsing, per-business fan-out to
+ * open streams, and coalescing of bursts into one event per topic.
+ *
+ * The LISTEN connection isn't started here, so publishing takes the
+ * fail-soft path and delivers to this instance's streams directly.
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../db', () => ({ pool: { query: vi.fn(async () => ({ rows: [] })) } }));
+
+import { pool } from '../db';
+import {
+  addRealtimeClient,
+  deliverLocal,
+  parseRealtimePayload,
+  publishRealtimeEvent,
+  realtimeClientCount,
+} from './realtimeEventBus';
+
+function makeClient() {
+  return { send: vi.fn(), close: vi.fn() };
+}
+
+describe('parseRealtimePayload', () => {
+  it('parses a known topic', () => {
+    expect(parseRealtimePayload(JSON.stringify({ b: 7, t: 'jobs' }))).toEqual({ businessId: 7, topic: 'jobs' });
+  });
+
+  it('rejects unknown topics, missing business and bad JSON without throwing', () => {
+    expect(parseRealtimePayload(JSON.stringify({ b: 7, t: 'passwords' }))).toBeNull();
+    expect(parseRealtimePayload(JSON.stringify({ t: 'jobs' }))).toBeNull();
+    expect(parseRealtimePayload('{not json')).toBeNull();
+    expect(parseRealtimePayload(undefined)).toBeNull();
+  });
+});
+
+describe('deliverLocal', () => {
+  it('reaches only streams for the same business', () => {
+    const mine = makeClient();
+    const other = makeClient();
+    const offMine = addRealtimeClient(1, mine);
+    const offOther = addRealtimeClient(2, other);
+
+    expect(deliverLocal({ businessId: 1, topic: 'invoices' })).toBe(1);
+    expect(mine.send).toHaveBeenCalledWith({ businessId: 1, topic: 'invoices' });
+    expect(other.send).not.toHaveBeenCalled();
+
+    offMine();
+    offOther();
+    expect(realtimeClientCount()).toBe(0);
+  });
+
+  it('drops a stream whose send throws', () => {
+    const broken = { send: vi.fn(() => { throw new Error('socket closed'); }), close: vi.fn() };
+    addRealtimeClient(3, broken);
+    deliverLocal({ businessId: 3, topic: 'jobs' });
+    expect(realtimeClientCount()).toBe(0);
+  });
+});
+
+describe('publishRealtimeEvent', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('coalesces a burst into one event per business and topic', () => {
+    const client = makeClient();
+    const off = addRealtimeClient(5, client);
+
+    for (let i = 0; i < 20; i++) publishRealtimeEvent(5, 'appointments');
+    publishRealtimeEvent(5, 'call_logs');
+    expect(client.send).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(300);
+    expect(client.send).toHaveBeenCalledTimes(2);
+    expect(client.send).toHaveBeenCalledWith({ businessId: 5, topic: 'appointments' });
+    expect(client.send).toHaveBeenCalledWith({ businessId: 5, topic: 'call_logs' });
+    // No listener — our own NOTIFY would never come back, so nothing is sent to Postgres
+    expect(pool.query).not.toHaveBeenCalled();
+    off();
+  });
+
+  it('ignores writes without a business', () => {
+    publishRealtimeEvent(null, 'jobs');
+    publishRealtimeEvent(undefined, 'jobs');
+    vi.advanceTimersByTime(300);
+    expect(pool.query).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * Real-time Change Events (Postgres LISTEN/NOTIFY → Server-Sent Events)
+ *
+ * The dashboard, dispatch map and inbox used to learn about changes only by
+ * polling. Storage writes now publish a tiny "something changed" event —
+ * business + topic, never row data — and every signed-in browser holding an
+ * /api/events stream for that business refetches the matching queries.
+ *
+ * Fan-out mirrors cacheInvalidationBus: publishing is a NOTIFY through the
+ * shared pool, and every instance LISTENs on one dedicated connection and
+ * forwards to the streams it holds. Events for the same business and topic
+ * are coalesced for a moment first, so a bulk write (a recurring series, a
+ * batch of GPS pings) is one refetch, not a hundred.
+ *
+ * Fail-soft: without a listener, events are delivered to this instance's
+ * streams only, and the client's slower polling covers the rest.
+ */
+
+import pg from 'pg';
+import { pool } from '../db';
+
+const CHANNEL = 'sba_realtime';
+const COALESCE_MS = 250;
+
+export const REALTIME_TOPICS = [
+  'appointments',
+  'jobs',
+  'invoices',
+  'call_logs',
+  'sms_inbox',
+  'tech_locations',
+] as const;
+
+export type RealtimeTopic = typeof REALTIME_TOPICS[number];
+
+export interface RealtimeEvent {
+  businessId: number;
+  topic: RealtimeTopic;
+}
+
+interface RealtimePayload {
+  b: number;  // businessId
+  t: string;  // topic
+}
+
+interface RealtimeClient {
+  send: (event: RealtimeEvent) => void;
+  close: () => void;
+}
+
+/** Open streams on this instance, by business */
+const clients = new Map<number, Set<RealtimeClient>>();
+
+/**
+ * Parse a NOTIFY payload into an event. Exported so it's unit-testable
+ * without a live Postgres connection. Malformed payloads return null and
+ * never throw — a bad message must not crash the listener.
+ */
+export function parseRealtimePayload(payload: string | undefined): RealtimeEvent | null {
+  if (!payload) return null;
+  try {
+    const parsed = JSON.parse(payload) as RealtimePayload;
+    if (typeof parsed.b !== 'number' || !REALTIME_TOPICS.includes(parsed.t as RealtimeTopic)) return null;
+    return { businessId: parsed.b, topic: parsed.t as RealtimeTopic };
+  } catch {
+    return null;
+  }
+}
+
+/** Hand an event to every stream this instance holds for the business */
+export function deliverLocal(event: RealtimeEvent): number {
+  const subscribers = clients.get(event.businessId);
+  if (!subscribers) return 0;
+  Array.from(subscribers).forEach(client => {
+    try {
+      client.send(event);
+    } catch (err: any) {
+      console.warn('[Realtime] dropping stream after send failure:', err?.message || err);
+      removeClient(event.businessId, client);
+    }
+  });
+  return subscribers.size;
+}
+
+/**
+ * Register an open stream. Returns the unsubscribe function; `close` is
+ * called on shutdown so long-lived responses don't hold the server open.
+ */
+export function addRealtimeClient(businessId: number, client: RealtimeClient): () => void {
+  let subscribers = clients.get(businessId);
+  if (!subscribers) {
+    subscribers = new Set();
+    clients.set(businessId, subscribers);
+  }
+  subscribers.add(client);
+  return () => removeClient(businessId, client);
+}
+
+function removeClient(businessId: number, client: RealtimeClient): void {
+  const subscribers = clients.get(businessId);
+  if (!subscribers) return;
+  subscribers.delete(client);
+  if (subscribers.size === 0) clients.delete(businessId);
+}
+
+export function realtimeClientCount(): number {
+  return Array.from(clients.values()).reduce((sum, set) => sum + set.size, 0);
+}
+
+// ── Publishing ───────────────────────────────────────────────────────────
+
+let listening = false;
+const pending = new Set<string>();
+let flushTimer: NodeJS.Timeout | null = null;
+
+function flush(): void {
+  flushTimer = null;
+  const keys = Array.from(pending);
+  pending.clear();
+  for (const key of keys) {
+    const [b, t] = key.split(':');
+    const event: RealtimeEvent = { businessId: Number(b), topic: t as RealtimeTopic };
+    if (!listening) {
+      // No listener — our own NOTIFY would never come back to us
+      deliverLocal(event);
+      continue;
+    }
+    const payload = JSON.stringify({ b: event.businessId, t: event.topic });
+    pool
+      .query('SELECT pg_notify($1, $2)', [CHANNEL, payload])
+      .catch((err) => {
+        console.warn('[Realtime] publish failed, delivering locally only:', err?.message || err);
+        deliverLocal(event);
+      });
+  }
+}
+
+/**
+ * Tell open dashboards that something under `topic` changed for a business.
+ * Fire-and-forget and safe to call from any write path — never throws.
+ */
+export function publishRealtimeEvent(businessId: number | null | undefined, topic: RealtimeTopic): void {
+  if (!businessId) return;
+  pending.add(`${businessId}:${topic}`);
+  if (!flushTimer) {
+    flushTimer = setTimeout(flush, COALESCE_MS);
+    flushTimer.unref?.();
+  }
+}
+
+// ── Listening ────────────────────────────────────────────────────────────
+
+let listenClient: pg.Client | null = null;
+let stopped = false;
+
+function buildClient(): pg.Client {
+  const connectionString = process.env.DATABASE_URL!;
+  const isLocal = connectionString.includes('localhost') || connectionString.includes('127.0.0.1');
+  return new pg.Client({
+    connectionString,
+    ...(isLocal ? {} : { ssl: { rejectUnauthorized: false } }),
+  });
+}
+
+async function connectListener(): Promise<void> {
+  if (stopped) return;
+  const client = buildClient();
+  listenClient = client;
+
+  client.on('notification', (msg) => {
+    const event = parseRealtimePayload(msg.payload);
+    if (event) deliverLocal(event);
+  });
+  client.on('error', (err) => {
+    console.warn('[Realtime] listener connection error, will reconnect:', err?.message || err);
+    scheduleReconnect(client);
+  });
+  client.on('end', () => {
+    if (!stopped) scheduleReconnect(client);
+  });
+
+  await client.connect();
+  await client.query(`LISTEN ${CHANNEL}`);
+  listening = true;
+  console.log('[Realtime] listening for cross-instance change events');
+}
+
+let reconnectPending = false;
+function scheduleReconnect(deadClient: pg.Client): void {
+  if (stopped || reconnectPending) return;
+  if (deadClient !== listenClient) return; // stale handler from an old client
+  reconnectPending = true;
+  listening = false;
+  listenClient = null;
+  try { deadClient.removeAllListeners(); } catch { /* noop */ }
+  try { deadClient.end().catch(() => {}); } catch { /* noop */ }
+  setTimeout(() => {
+    reconnectPending = false;
+    connectListener().catch((err) =>
+      console.warn('[Realtime] reconnect failed:', err?.message || err),
+    );
+  }, 5000);
+}
+
+/** Start listening. Call once at boot. Fail-soft — degrades to this instance's streams only. */
+export async function startRealtimeEventBus(): Promise<void> {
+  if (!process.env.DATABASE_URL) {
+    console.warn('[Realtime] DATABASE_URL not set — events reach this instance only');
+    return;
+  }
+  try {
+    await connectListener();
+  } catch (err: any) {
+    console.warn('[Realtime] could not start listener (events reach this instance only):', err?.message || err);
+    scheduleReconnect(listenClient ?? buildClient());
+  }
+}
+
+/** Graceful shutdown — ends every open stream so server.close() can finish. */
+export async function stopRealtimeEventBus(): Promise<void> {
+  stopped = true;
+  listening = false;
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+  Array.from(clients.values()).forEach(set => {
+    Array.from(set).forEach(client => {
+      try { client.close(); } catch { /* noop */ }
+    });
+  });
+  clients.clear();
+  if (listenClient) {
+    try { await listenClient.end(); } catch { /* noop */ }
+    listenClient = null;
+  }
+}
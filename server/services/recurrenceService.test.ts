@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import {
+  expandOccurrences,
+  legacyScheduleRRule,
+  nextPendingOccurrence,
+  normalizeRRule,
+  rebaseRRule,
+  resolveOccurrence,
+  type RecurrenceSource,
+} from './recurrenceService';
+
+// ── Test Data ──
+
+function source(overrides: Partial<RecurrenceSource> = {}): RecurrenceSource {
+  return {
+    rrule: null,
+    frequency: 'custom',
+    interval: 1,
+    dayOfWeek: null,
+    dayOfMonth: null,
+    startDate: '2026-10-01', // a Thursday
+    endDate: null,
+    exdates: [],
+    ...overrides,
+  };
+}
+
+// ── Tests ──
+
+describe('recurrenceService', () => {
+  describe('normalizeRRule', () => {
+    it('strips the RRULE: prefix and canonicalizes case', () => {
+      expect(normalizeRRule('rrule:freq=weekly;interval=2;byday=tu,th'))
+        .toEqual({ ok: true, rrule: 'FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH' });
+    });
+
+    it('rejects unparseable, sub-daily and DTSTART-carrying rules', () => {
+      expect(normalizeRRule('every tuesday')).toEqual(expect.objectContaining({ ok: false, reason: 'invalid_rrule' }));
+      expect(normalizeRRule('FREQ=HOURLY')).toEqual(expect.objectContaining({ ok: false }));
+      expect(normalizeRRule('FREQ=DAILY;BYHOUR=9')).toEqual(expect.objectContaining({ ok: false }));
+      expect(normalizeRRule('DTSTART:20260101T000000Z\nRRULE:FREQ=DAILY')).toEqual(expect.objectContaining({ ok: false }));
+      expect(normalizeRRule('')).toEqual(expect.objectContaining({ ok: false }));
+    });
+  });
+
+  describe('legacyScheduleRRule', () => {
+    it('translates the fixed frequencies', () => {
+      expect(legacyScheduleRRule({ frequency: 'weekly', interval: 1, dayOfWeek: 2, dayOfMonth: null }))
+        .toBe('FREQ=WEEKLY;INTERVAL=1;BYDAY=TU');
+      expect(legacyScheduleRRule({ frequency: 'biweekly', interval: 1, dayOfWeek: 5, dayOfMonth: null }))
+        .toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=FR');
+      expect(legacyScheduleRRule({ frequency: 'quarterly', interval: 1, dayOfWeek: null, dayOfMonth: 15 }))
+        .toBe('FREQ=MONTHLY;INTERVAL=3;BYMONTHDAY=15');
+    });
+
+    it('expands a legacy monthly schedule without an rrule', () => {
+      expect(expandOccurrences(source({ frequency: 'monthly', dayOfMonth: 15 }), { limit: 3 }))
+        .toEqual(['2026-10-15', '2026-11-15', '2026-12-15']);
+    });
+  });
+
+  describe('expandOccurrences', () => {
+    it('expands every other Tuesday and Thursday, skipping EXDATEs', () => {
+      const schedule = source({ rrule: 'FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH', exdates: ['2026-10-13'] });
+      expect(expandOccurrences(schedule, { limit: 4 }))
+        .toEqual(['2026-10-01', '2026-10-15', '2026-10-27', '2026-10-29']);
+    });
+
+    it('expands the last Friday of the month', () => {
+      expect(expandOccurrences(source({ rrule: 'FREQ=MONTHLY;BYDAY=-1FR' }), { limit: 3 }))
+        .toEqual(['2026-10-30', '2026-11-27', '2026-12-25']);
+    });
+
+    it('respects endDate and from/to bounds', () => {
+      const schedule = source({ rrule: 'FREQ=DAILY', endDate: '2026-10-05' });
+      expect(expandOccurrences(schedule)).toHaveLength(5);
+      expect(expandOccurrences(schedule, { from: '2026-10-03', to: '2026-10-04' }))
+        .toEqual(['2026-10-03', '2026-10-04']);
+    });
+  });
+
+  describe('nextPendingOccurrence', () => {
+    it('skips occurrences that already have jobs and returns null when the series is done', () => {
+      const schedule = source({ rrule: 'FREQ=WEEKLY;COUNT=3' });
+      expect(nextPendingOccurrence(schedule, '2026-10-01', new Set(['2026-10-01']))).toBe('2026-10-08');
+      expect(nextPendingOccurrence(schedule, '2026-10-01', new Set(['2026-10-01', '2026-10-08', '2026-10-15']))).toBeNull();
+    });
+  });
+
+  describe('rebaseRRule', () => {
+    it('carries only the remaining COUNT into the split-off series', () => {
+      const schedule = source({ rrule: 'FREQ=WEEKLY;COUNT=6' });
+      expect(rebaseRRule(schedule, '2026-10-22')).toBe('FREQ=WEEKLY;COUNT=3');
+      expect(rebaseRRule(source({ rrule: 'FREQ=WEEKLY' }), '2026-10-22')).toBe('FREQ=WEEKLY');
+    });
+  });
+
+  describe('resolveOccurrence', () => {
+    it('applies a single-occurrence override keyed by the original date', () => {
+      const schedule = {
+        staffId: 3,
+        jobTitle: 'Pool cleaning',
+        jobDescription: 'Weekly',
+        occurrenceOverrides: { '2026-10-08': { date: '2026-10-09', staffId: null } },
+      };
+      expect(resolveOccurrence(schedule, '2026-10-08')).toEqual({
+        occurrenceDate: '2026-10-08', date: '2026-10-09', staffId: null,
+        jobTitle: 'Pool cleaning', jobDescription: 'Weekly', isOverridden: true,
+      });
+      expect(resolveOccurrence(schedule, '2026-10-15')).toEqual(expect.objectContaining({
+        date: '2026-10-15', staffId: 3, isOverridden: false,
+      }));
+    });
+  });
+});
@@ -0,0 +1,255 @@
+/**
+ * Recurrence Service — RFC 5545 RRULE expansion for recurring schedules
+ *
+ * A recurring schedule repeats on an RRULE ("FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH",
+ * "FREQ=MONTHLY;BYDAY=-1FR") anchored at its startDate, bounded by endDate,
+ * minus any EXDATEs. Schedules created before rules existed have rrule NULL;
+ * their frequency/interval/dayOfWeek/dayOfMonth columns are translated to an
+ * equivalent rule so everything expands through the same path.
+ *
+ * Occurrences are calendar days (YYYY-MM-DD). The rule is evaluated in UTC
+ * midnight so a day never shifts with the server's timezone. A single
+ * occurrence can be moved or reassigned through occurrenceOverrides, keyed by
+ * its original date — that key is also what recurringJobHistory records, so
+ * generation stays idempotent however an occurrence was edited.
+ *
+ * Pure functions only — no storage access.
+ */
+
+import { RRule, type Options } from 'rrule';
+import type { RecurringOccurrenceOverride, RecurringSchedule } from '@shared/schema';
+
+// Upper bound on how many rule instances one expansion will walk
+const MAX_SCANNED_OCCURRENCES = 5000;
+
+export const DEFAULT_PREVIEW_COUNT = 10;
+export const MAX_PREVIEW_COUNT = 52;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const SUPPORTED_FREQUENCIES = [RRule.YEARLY, RRule.MONTHLY, RRule.WEEKLY, RRule.DAILY];
+
+export type RecurrenceSource = Pick<
+  RecurringSchedule,
+  'rrule' | 'frequency' | 'interval' | 'dayOfWeek' | 'dayOfMonth' | 'startDate' | 'endDate'
+> & { exdates?: string[] | null };
+
+export type NormalizeRRuleResult =
+  | { ok: true; rrule: string }
+  | { ok: false; reason: 'invalid_rrule'; message: string };
+
+export interface ExpandOptions {
+  /** First original occurrence date to include (inclusive) */
+  from?: string;
+  /** Last original occurrence date to include (inclusive) */
+  to?: string;
+  /** Maximum number of dates to return */
+  limit?: number;
+}
+
+export interface EffectiveOccurrence {
+  /** Original occurrence date (RECURRENCE-ID) — the idempotency key */
+  occurrenceDate: string;
+  /** Day the job actually lands on */
+  date: string;
+  staffId: number | null;
+  jobTitle: string;
+  jobDescription: string | null;
+  isOverridden: boolean;
+}
+
+// ──────────────────────────────────────────────────────────────────────
+// Date helpers
+// ──────────────────────────────────────────────────────────────────────
+
+export function isDateString(value: unknown): value is string {
+  return typeof value === 'string' && DATE_PATTERN.test(value) && !isNaN(Date.parse(`${value}T00:00:00Z`));
+}
+
+function toUtcDate(day: string): Date {
+  return new Date(`${day}T00:00:00Z`);
+}
+
+function toDayString(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+/** The day before a YYYY-MM-DD date. */
+export function previousDay(day: string): string {
+  const date = toUtcDate(day);
+  date.setUTCDate(date.getUTCDate() - 1);
+  return toDayString(date);
+}
+
+// ──────────────────────────────────────────────────────────────────────
+// Rules
+// ──────────────────────────────────────────────────────────────────────
+
+/**
+ * Validate an RRULE and return it in canonical form (no "RRULE:" prefix,
+ * no DTSTART — startDate is always the anchor). Only day-granular rules are
+ * accepted since each occurrence becomes one job.
+ */
+export function normalizeRRule(input: unknown): NormalizeRRuleResult {
+  const raw = typeof input === 'string' ? input.trim().replace(/^RRULE:/i, '').toUpperCase() : '';
+  if (!raw) {
+    return { ok: false, reason: 'invalid_rrule', message: 'Recurrence rule is required' };
+  }
+  if (/[\r\n]/.test(raw) || raw.includes('DTSTART')) {
+    return { ok: false, reason: 'invalid_rrule', message: 'Recurrence rule must be a single RRULE without DTSTART' };
+  }
+
+  let options: Partial<Options>;
+  try {
+    options = RRule.parseString(raw);
+  } catch (error: any) {
+    return { ok: false, reason: 'invalid_rrule', message: `Invalid recurrence rule: ${error?.message || 'unrecognized'}` };
+  }
+
+  if (options.freq === undefined || !SUPPORTED_FREQUENCIES.includes(options.freq)) {
+    return { ok: false, reason: 'invalid_rrule', message: 'FREQ must be DAILY, WEEKLY, MONTHLY or YEARLY' };
+  }
+  if (options.byhour != null || options.byminute != null || options.bysecond != null) {
+    return { ok: false, reason: 'invalid_rrule', message: 'Recurrence rules repeat by day — BYHOUR, BYMINUTE and BYSECOND are not supported' };
+  }
+  if (options.interval != null && options.interval < 1) {
+    return { ok: false, reason: 'invalid_rrule', message: 'INTERVAL must be at least 1' };
+  }
+
+  return { ok: true, rrule: RRule.optionsToString(options).replace(/^RRULE:/, '') };
+}
+
+/** The rule a schedule from before RRULE support repeats on. */
+export function legacyScheduleRRule(
+  schedule: Pick<RecurringSchedule, 'frequency' | 'interval' | 'dayOfWeek' | 'dayOfMonth'>,
+): string {
+  const interval = schedule.interval && schedule.interval > 0 ? schedule.interval : 1;
+  const byDay = schedule.dayOfWeek != null ? `;BYDAY=${WEEKDAY_CODES[schedule.dayOfWeek]}` : '';
+  const byMonthDay = schedule.dayOfMonth != null ? `;BYMONTHDAY=${schedule.dayOfMonth}` : '';
+
+  switch (schedule.frequency) {
+    case 'daily':
+      return `FREQ=DAILY;INTERVAL=${interval}`;
+    case 'weekly':
+      return `FREQ=WEEKLY;INTERVAL=${interval}${byDay}`;
+    case 'biweekly':
+      return `FREQ=WEEKLY;INTERVAL=2${byDay}`;
+    case 'monthly':
+      return `FREQ=MONTHLY;INTERVAL=${interval}${byMonthDay}`;
+    case 'quarterly':
+      return `FREQ=MONTHLY;INTERVAL=3${byMonthDay}`;
+    case 'yearly':
+      return `FREQ=YEARLY;INTERVAL=${interval}`;
+    default:
+      throw new Error(`Unknown recurrence frequency: ${schedule.frequency}`);
+  }
+}
+
+export function getScheduleRRule(schedule: RecurrenceSource): string {
+  return schedule.rrule || legacyScheduleRRule(schedule);
+}
+
+/** Plain-English summary, e.g. "every 2 weeks on Tuesday, Thursday". */
+export function describeRRule(rrule: string): string {
+  try {
+    return RRule.fromString(rrule).toText();
+  } catch {
+    return rrule;
+  }
+}
+
+function buildRule(source: RecurrenceSource): RRule {
+  const options = RRule.parseString(getScheduleRRule(source));
+  const endOfSeries = source.endDate ? toUtcDate(source.endDate) : null;
+  const until = options.until && endOfSeries
+    ? (options.until < endOfSeries ? options.until : endOfSeries)
+    : options.until ?? endOfSeries;
+  return new RRule({ ...options, dtstart: toUtcDate(source.startDate), until });
+}
+
+/**
+ * The rule for the "this and following" half of a split series starting at
+ * splitDate. A COUNT is reduced to the instances still left so the two
+ * halves together cover exactly the original series.
+ */
+export function rebaseRRule(source: RecurrenceSource, splitDate: string): string {
+  const options = RRule.parseString(getScheduleRRule(source));
+  if (options.count == null) return getScheduleRRule(source);
+
+  const remaining = expandOccurrences({ ...source, exdates: [] }, { from: splitDate }).length;
+  return RRule.optionsToString({ ...options, count: Math.max(remaining, 1) }).replace(/^RRULE:/, '');
+}
+
+// ──────────────────────────────────────────────────────────────────────
+// Expansion
+// ──────────────────────────────────────────────────────────────────────
+
+/**
+ * Original occurrence dates of a schedule in order, EXDATEs removed. Without
+ * `to` or `limit` the rule must be finite (COUNT, UNTIL or endDate); the walk
+ * is capped at MAX_SCANNED_OCCURRENCES either way.
+ */
+export function expandOccurrences(source: RecurrenceSource, options: ExpandOptions = {}): string[] {
+  const rule = buildRule(source);
+  const exdates = new Set(source.exdates ?? []);
+  const limit = options.limit ?? Infinity;
+  const dates: string[] = [];
+  let scanned = 0;
+
+  if (limit <= 0) return dates;
+
+  rule.all((date) => {
+    scanned++;
+    const day = toDayString(date);
+    if (options.to && day > options.to) return false;
+    if ((!options.from || day >= options.from) && !exdates.has(day)) {
+      dates.push(day);
+    }
+    return dates.length < limit && scanned < MAX_SCANNED_OCCURRENCES;
+  });
+
+  return dates;
+}
+
+/** The next `count` occurrence dates on or after `from`. */
+export function previewOccurrences(source: RecurrenceSource, from: string, count = DEFAULT_PREVIEW_COUNT): string[] {
+  return expandOccurrences(source, { from, limit: Math.min(Math.max(count, 1), MAX_PREVIEW_COUNT) });
+}
+
+/** First occurrence on or after `from` that isn't in `generated`, or null when the series is done. */
+export function nextPendingOccurrence(
+  source: RecurrenceSource,
+  from: string,
+  generated: ReadonlySet<string> = new Set(),
+): string | null {
+  let cursor = from;
+  // Walk in pages so a long run of already-generated dates can't stall us
+  for (let page = 0; page < 20; page++) {
+    const dates = expandOccurrences(source, { from: cursor, limit: 50 });
+    const pending = dates.find((day) => !generated.has(day));
+    if (pending) return pending;
+    if (dates.length < 50) return null;
+    const last = toUtcDate(dates[dates.length - 1]);
+    last.setUTCDate(last.getUTCDate() + 1);
+    cursor = toDayString(last);
+  }
+  return null;
+}
+
+/** Apply any single-occurrence edit to an original occurrence date. */
+export function resolveOccurrence(
+  schedule: Pick<RecurringSchedule, 'staffId' | 'jobTitle' | 'jobDescription'> & {
+    occurrenceOverrides?: Record<string, RecurringOccurrenceOverride> | null;
+  },
+  occurrenceDate: string,
+): EffectiveOccurrence {
+  const override = schedule.occurrenceOverrides?.[occurrenceDate];
+  return {
+    occurrenceDate,
+    date: override?.date ?? occurrenceDate,
+    staffId: override && 'staffId' in override ? override.staffId ?? null : schedule.staffId ?? null,
+    jobTitle: override?.jobTitle ?? schedule.jobTitle,
+    jobDescription: override && 'jobDescription' in override ? override.jobDescription ?? null : schedule.jobDescription ?? null,
+    isOverridden: !!override,
+  };
+}
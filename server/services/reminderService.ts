@@ -3,7 +3,8 @@ import twilioService from "./twilioService";
 import { db } from "../db";
 import { notificationLog } from "../../shared/schema";
 import { and, eq, gte } from "drizzle-orm";
-import { toMoney } from "../utils/money";
+import { describeAppointmentServices } from "./appointmentLineService";
+import { getBalanceDue } from "./invoicePaymentService";
 
 interface ReminderResult {
   appointmentId: number;
@@ -87,14 +88,8 @@ export async function sendAppointmentReminder(
       };
     }
 
-    // Get service name if available
-    let serviceName = 'your appointment';
-    if (appointment.serviceId) {
-      const service = await storage.getService(appointment.serviceId);
-      if (service) {
-        serviceName = service.name;
-      }
-    }
+    // Get service name(s) if available — "Haircut + Beard trim" for multi-service visits
+    const serviceName = (await describeAppointmentServices(appointment)) || 'your appointment';
 
     // Format the appointment date/time in the business timezone
     const appointmentDate = new Date(appointment.startDate);
@@ -213,9 +208,10 @@ export async function sendInvoiceReminder(
       return { success: false, error: 'Invoice not found' };
     }
 
-    // Skip if already paid
-    if (invoice.status === 'paid') {
-      return { success: false, error: 'Invoice already paid' };
+    // Skip if paid, fully credited or void
+    const balanceDue = getBalanceDue(invoice);
+    if (balanceDue <= 0) {
+      return { success: false, error: invoice.status === 'void' ? 'Invoice is void' : 'Invoice has no balance due' };
     }
 
     const customer = await storage.getCustomer(invoice.customerId);
@@ -232,7 +228,7 @@ export async function sendInvoiceReminder(
     const amount = new Intl.NumberFormat('en-US', {
       style: 'currency',
       currency: 'USD'
-    }).format(toMoney(invoice.total));
+    }).format(balanceDue);
 
     // Use the Twilio AI number so customers call the receptionist, fall back to business phone
     const contactNumber = business.twilioPhoneNumber || business.phone;
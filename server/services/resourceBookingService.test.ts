@@ -0,0 +1,155 @@
+/**
+ * Resource booking tests — capacity checks, assignment order and pool loading.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Resource } from '@shared/schema';
+
+vi.mock('../db', () => ({ db: {} }));
+
+vi.mock('../storage', () => ({
+  storage: {
+    getService: vi.fn(),
+    getResources: vi.fn(),
+    getAppointments: vi.fn(),
+  },
+}));
+
+import { storage } from '../storage';
+import {
+  resourceHasRoom,
+  pickFreeResource,
+  poolHasRoom,
+  loadResourcePoolForService,
+  loadResourcePoolForServices,
+  requiredResourceType,
+} from './resourceBookingService';
+
+function resource(overrides: Partial<Resource> = {}): Resource {
+  return {
+    id: 1,
+    businessId: 10,
+    name: 'Room 1',
+    resourceType: 'Treatment room',
+    capacity: 1,
+    active: true,
+    sortOrder: 0,
+    createdAt: null,
+    updatedAt: null,
+    ...overrides,
+  };
+}
+
+const at = (hour: number, minute = 0) => new Date(Date.UTC(2026, 5, 10, hour, minute));
+
+beforeEach(() => {
+  vi.mocked(storage.getService).mockReset();
+  vi.mocked(storage.getResources).mockReset();
+  vi.mocked(storage.getAppointments).mockReset();
+});
+
+describe('resourceHasRoom', () => {
+  it('fills a single-capacity resource with one overlapping booking', () => {
+    const bookings = [{ id: 5, resourceId: 1, startDate: at(14), endDate: at(15) }];
+    expect(resourceHasRoom(resource(), bookings, at(14, 30), at(15, 30))).toBe(false);
+    expect(resourceHasRoom(resource(), bookings, at(15), at(16))).toBe(true);
+  });
+
+  it('holds as many overlapping bookings as its capacity', () => {
+    const couplesRoom = resource({ capacity: 2 });
+    const one = [{ id: 5, resourceId: 1, startDate: at(14), endDate: at(15) }];
+    const two = [...one, { id: 6, resourceId: 1, startDate: at(14), endDate: at(15) }];
+    expect(resourceHasRoom(couplesRoom, one, at(14), at(15))).toBe(true);
+    expect(resourceHasRoom(couplesRoom, two, at(14), at(15))).toBe(false);
+  });
+
+  it('ignores the appointment being moved', () => {
+    const bookings = [{ id: 5, resourceId: 1, startDate: at(14), endDate: at(15) }];
+    expect(resourceHasRoom(resource(), bookings, at(14, 30), at(15, 30), 5)).toBe(true);
+  });
+});
+
+describe('pickFreeResource', () => {
+  it('picks the first resource with room in the given order', () => {
+    const rooms = [resource({ id: 1 }), resource({ id: 2, name: 'Room 2' }), resource({ id: 3, name: 'Room 3' })];
+    const bookings = [{ resourceId: 1, startDate: at(14), endDate: at(15) }];
+    expect(pickFreeResource(rooms, bookings, at(14), at(15))?.id).toBe(2);
+  });
+
+  it('returns null when every resource is full', () => {
+    const lifts = [resource({ id: 1 }), resource({ id: 2 })];
+    const bookings = [
+      { resourceId: 1, startDate: at(9), endDate: at(11) },
+      { resourceId: 2, startDate: at(10), endDate: at(12) },
+    ];
+    expect(pickFreeResource(lifts, bookings, at(10), at(11))).toBeNull();
+  });
+});
+
+describe('poolHasRoom', () => {
+  it('never blocks without a pool', () => {
+    expect(poolHasRoom(null, at(9), at(10))).toBe(true);
+    expect(poolHasRoom({ resourceType: 'Lift', resources: [], bookings: [] }, at(9), at(10))).toBe(true);
+  });
+});
+
+describe('requiredResourceType', () => {
+  it('takes the type from whichever line needs one', () => {
+    expect(requiredResourceType([
+      { name: 'Consult', requiredResourceType: null },
+      { name: 'Facial', requiredResourceType: 'Treatment room' },
+    ])).toEqual({ ok: true, resourceType: 'Treatment room' });
+    expect(requiredResourceType([{ name: 'Consult', requiredResourceType: null }])).toEqual({ ok: true, resourceType: null });
+  });
+
+  it('refuses lines that need different resources', () => {
+    const result = requiredResourceType([
+      { name: 'Facial', requiredResourceType: 'Treatment room' },
+      { name: 'Oil change', requiredResourceType: 'Lift' },
+    ]);
+    expect(result).toEqual({ ok: false, error: 'Facial and Oil change need different resources. Please book them as separate appointments.' });
+  });
+});
+
+describe('loadResourcePoolForService', () => {
+  it('skips services that need no resource', async () => {
+    vi.mocked(storage.getService).mockResolvedValue({ id: 3, businessId: 10, requiredResourceType: null } as any);
+    expect(await loadResourcePoolForService(10, 3, at(0), at(23))).toBeNull();
+    expect(storage.getResources).not.toHaveBeenCalled();
+  });
+
+  it('skips the check when the business has no resources of the type', async () => {
+    vi.mocked(storage.getService).mockResolvedValue({ id: 3, businessId: 10, requiredResourceType: 'Lift' } as any);
+    vi.mocked(storage.getResources).mockResolvedValue([resource()]);
+    expect(await loadResourcePoolForService(10, 3, at(0), at(23))).toBeNull();
+  });
+
+  it('collects active bookings on matching resources', async () => {
+    vi.mocked(storage.getService).mockResolvedValue({ id: 3, businessId: 10, requiredResourceType: 'Treatment room' } as any);
+    vi.mocked(storage.getResources).mockResolvedValue([resource(), resource({ id: 2, resourceType: 'Lift' })]);
+    vi.mocked(storage.getAppointments).mockResolvedValue([
+      { id: 20, resourceId: 1, status: 'confirmed', startDate: at(14), endDate: at(15) },
+      { id: 21, resourceId: 1, status: 'cancelled', startDate: at(16), endDate: at(17) },
+      { id: 22, resourceId: 2, status: 'scheduled', startDate: at(14), endDate: at(15) },
+      { id: 23, resourceId: null, status: 'scheduled', startDate: at(14), endDate: at(15) },
+    ] as any);
+
+    const pool = await loadResourcePoolForService(10, 3, at(0), at(23));
+    expect(pool?.resources.map(r => r.id)).toEqual([1]);
+    expect(pool?.bookings.map(b => b.id)).toEqual([20]);
+  });
+});
+
+describe('loadResourcePoolForServices', () => {
+  it('checks the pool of a later line when the first needs no resource', async () => {
+    vi.mocked(storage.getService).mockImplementation(async (id: number) => (
+      id === 3
+        ? { id: 3, businessId: 10, name: 'Consult', requiredResourceType: null }
+        : { id: 4, businessId: 10, name: 'Facial', requiredResourceType: 'Treatment room' }
+    ) as any);
+    vi.mocked(storage.getResources).mockResolvedValue([resource()]);
+    vi.mocked(storage.getAppointments).mockResolvedValue([]);
+
+    const pool = await loadResourcePoolForServices(10, [3, 4], at(0), at(23));
+    expect(pool?.resources.map(r => r.id)).toEqual([1]);
+  });
+});
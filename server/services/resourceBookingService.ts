@@ -0,0 +1,252 @@
+/**
+ * Resource Booking Service — rooms, chairs, stations and lifts
+ *
+ * Staff availability alone lets a spa with three treatment rooms book four
+ * massages at 2pm. Services can name a `requiredResourceType`; a booking for
+ * one then also needs a resource of that type with room:
+ *
+ *   1. A resource holds up to `capacity` overlapping appointments (a couples
+ *      room = 2, a single lift = 1).
+ *   2. When the caller doesn't pick one, the first resource with room in
+ *      `sortOrder` wins, so owners control which room fills first.
+ *   3. An appointment holds its resource for its own start/end — no buffer.
+ *   4. An appointment holds one resource, so with several services the type
+ *      comes from whichever of them needs one; services needing different
+ *      types can't be booked together.
+ *
+ * Businesses with no active resources of the required type keep booking on
+ * staff availability alone, so nothing changes until resources exist.
+ */
+
+import { and, eq, inArray, sql } from "drizzle-orm";
+import { appointments, resources, services } from "@shared/schema";
+import type { Resource, Service } from "@shared/schema";
+import { db } from "../db";
+import { storage } from "../storage";
+
+// Same set createAppointmentSafely treats as holding a slot
+const BLOCKING_STATUSES = ["scheduled", "confirmed", "pending"];
+
+export interface ResourceBooking {
+  id?: number;
+  resourceId: number | null;
+  startDate: Date;
+  endDate: Date;
+}
+
+export interface ResourcePool {
+  resourceType: string;
+  /** Active resources of the type, in assignment order */
+  resources: Resource[];
+  bookings: ResourceBooking[];
+}
+
+export type ResourceReservation =
+  | { ok: true; resourceId: number | null }
+  | { ok: false; error: string };
+
+// `db` or a transaction handle — both expose the select builder
+type DbReader = Pick<typeof db, "select">;
+
+// ────────────────────────────────────────────────────────────────────────────
+// Capacity (pure)
+// ────────────────────────────────────────────────────────────────────────────
+
+/** Whether the resource can take one more appointment over [start, end) */
+export function resourceHasRoom(
+  resource: Resource,
+  bookings: ResourceBooking[],
+  start: Date,
+  end: Date,
+  excludeAppointmentId?: number,
+): boolean {
+  const overlapping = bookings.filter(b =>
+    b.resourceId === resource.id &&
+    (excludeAppointmentId == null || b.id !== excludeAppointmentId) &&
+    new Date(b.startDate) < end &&
+    new Date(b.endDate) > start
+  ).length;
+  return overlapping < Math.max(1, resource.capacity);
+}
+
+/** First resource with room, in the order given — null when all are full */
+export function pickFreeResource(
+  candidates: Resource[],
+  bookings: ResourceBooking[],
+  start: Date,
+  end: Date,
+  excludeAppointmentId?: number,
+): Resource | null {
+  return candidates.find(r => resourceHasRoom(r, bookings, start, end, excludeAppointmentId)) ?? null;
+}
+
+/** Slot filter for availability — a missing pool never blocks */
+export function poolHasRoom(pool: ResourcePool | null | undefined, start: Date, end: Date): boolean {
+  if (!pool || pool.resources.length === 0) return true;
+  return pickFreeResource(pool.resources, pool.bookings, start, end) !== null;
+}
+
+/**
+ * The resource type an appointment for these services needs, in line order —
+ * null when none needs one.
+ */
+export function requiredResourceType(
+  lineServices: Pick<Service, "name" | "requiredResourceType">[],
+): { ok: true; resourceType: string | null } | { ok: false; error: string } {
+  const needing = lineServices.filter(s => s.requiredResourceType);
+  const resourceType = needing[0]?.requiredResourceType ?? null;
+  const other = needing.find(s => s.requiredResourceType !== resourceType);
+  if (other) {
+    return {
+      ok: false,
+      error: `${needing[0].name} and ${other.name} need different resources. Please book them as separate appointments.`,
+    };
+  }
+  return { ok: true, resourceType };
+}
+
+function noRoomMessage(resourceType: string): string {
+  return `No ${resourceType.toLowerCase()} is free at that time. Please select another time.`;
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Loading
+// ────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Resources a service needs plus their bookings between `from` and `to`.
+ * Returns null when the service needs no resource or the business has none
+ * of the type, so callers can skip the check entirely.
+ */
+export async function loadResourcePoolForService(
+  businessId: number,
+  serviceId: number | null | undefined,
+  from: Date,
+  to: Date,
+): Promise<ResourcePool | null> {
+  return loadResourcePoolForServices(businessId, serviceId ? [serviceId] : [], from, to);
+}
+
+/** Same as loadResourcePoolForService, for every service of a multi-service booking */
+export async function loadResourcePoolForServices(
+  businessId: number,
+  serviceIds: number[],
+  from: Date,
+  to: Date,
+): Promise<ResourcePool | null> {
+  const lineServices: Service[] = [];
+  for (const serviceId of serviceIds) {
+    const service = await storage.getService(serviceId);
+    if (service && service.businessId === businessId) lineServices.push(service);
+  }
+  // Mixed types can't be booked at all — the booking itself reports why
+  const required = requiredResourceType(lineServices);
+  if (!required.ok || !required.resourceType) return null;
+  return loadResourcePool(businessId, required.resourceType, from, to);
+}
+
+export async function loadResourcePool(
+  businessId: number,
+  resourceType: string,
+  from: Date,
+  to: Date,
+): Promise<ResourcePool | null> {
+  const active = await storage.getResources(businessId, { activeOnly: true });
+  const pool = active.filter(r => r.resourceType === resourceType);
+  if (pool.length === 0) return null;
+
+  const ids = new Set(pool.map(r => r.id));
+  const appts = await storage.getAppointments(businessId, { startDate: from, endDate: to });
+  const bookings = appts
+    .filter(a => a.resourceId != null && ids.has(a.resourceId) && BLOCKING_STATUSES.includes(a.status || "scheduled"))
+    .map(a => ({ id: a.id, resourceId: a.resourceId, startDate: a.startDate, endDate: a.endDate }));
+
+  return { resourceType, resources: pool, bookings };
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Reservation (inside the booking transaction)
+// ────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Picks (or verifies) the resource for an appointment being created or moved.
+ * Run inside the createAppointmentSafely/updateAppointmentSafely transaction:
+ * the candidate resources are locked FOR UPDATE — so two bookings for the
+ * same room queue up even when it has no appointments yet — along with
+ * their overlapping appointments.
+ *
+ * The services' required type (see requiredResourceType) decides whether one
+ * is needed at all. An explicit `resourceId` must be active and of that type.
+ */
+export async function reserveResource(tx: DbReader, params: {
+  businessId: number;
+  serviceId?: number | null;
+  /** Every line's service for a multi-service appointment — replaces serviceId */
+  serviceIds?: number[];
+  resourceId?: number | null;
+  startDate: Date;
+  endDate: Date;
+  excludeAppointmentId?: number;
+}): Promise<ResourceReservation> {
+  const serviceIds = params.serviceIds?.length ? params.serviceIds : params.serviceId ? [params.serviceId] : [];
+  const found = serviceIds.length > 0
+    ? await tx.select({ id: services.id, name: services.name, requiredResourceType: services.requiredResourceType })
+      .from(services)
+      .where(and(inArray(services.id, serviceIds), eq(services.businessId, params.businessId)))
+    : [];
+  const required = requiredResourceType(serviceIds.flatMap(id => found.filter(s => s.id === id)));
+  if (!required.ok) return required;
+
+  let candidates: Resource[];
+  let resourceType: string;
+
+  if (params.resourceId) {
+    const [resource] = await tx.select().from(resources)
+      .where(and(eq(resources.id, params.resourceId), eq(resources.businessId, params.businessId)))
+      .for("update");
+    if (!resource) return { ok: false, error: "Resource not found." };
+    if (!resource.active) return { ok: false, error: `${resource.name} is not available for booking.` };
+    if (required.resourceType && resource.resourceType !== required.resourceType) {
+      return { ok: false, error: `This service needs a ${required.resourceType.toLowerCase()}, and ${resource.name} isn't one.` };
+    }
+    candidates = [resource];
+    resourceType = resource.resourceType;
+  } else {
+    if (!required.resourceType) return { ok: true, resourceId: null };
+
+    resourceType = required.resourceType;
+    candidates = await tx.select().from(resources)
+      .where(and(
+        eq(resources.businessId, params.businessId),
+        eq(resources.resourceType, resourceType),
+        eq(resources.active, true),
+      ))
+      .orderBy(resources.sortOrder, resources.id)
+      .for("update");
+    if (candidates.length === 0) return { ok: true, resourceId: null };
+  }
+
+  const conditions: any[] = [
+    inArray(appointments.resourceId, candidates.map(r => r.id)),
+    sql`${appointments.status} IN ('scheduled', 'confirmed', 'pending')`,
+    sql`${appointments.startDate} < ${params.endDate}`,
+    sql`${appointments.endDate} > ${params.startDate}`,
+  ];
+  if (params.excludeAppointmentId) {
+    conditions.push(sql`${appointments.id} != ${params.excludeAppointmentId}`);
+  }
+
+  const bookings = await tx.select({
+    id: appointments.id,
+    resourceId: appointments.resourceId,
+    startDate: appointments.startDate,
+    endDate: appointments.endDate,
+  })
+    .from(appointments)
+    .where(and(...conditions))
+    .for("update");
+
+  const picked = pickFreeResource(candidates, bookings, params.startDate, params.endDate);
+  if (!picked) return { ok: false, error: noRoomMessage(resourceType) };
+  return { ok: true, resourceId: picked.id };
+}
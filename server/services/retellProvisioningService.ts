@@ -21,7 +21,7 @@
 
 import { storage } from '../storage';
 import retellService from './retellService';
-import { Business, businessPhoneNumbers, Staff } from '@shared/schema';
+import { Business, businessPhoneNumbers, CustomFieldDefinition, ServiceAddon, Staff } from '@shared/schema';
 import { db } from '../db';
 import { eq, and, sql } from 'drizzle-orm';
 import twilio from 'twilio';
@@ -35,6 +35,8 @@ import twilio from 'twilio';
 interface BusinessWithExtras extends Business {
   _staff?: Staff[];
   _intelligenceHints?: string;
+  _serviceAddons?: ServiceAddon[];
+  _customFields?: CustomFieldDefinition[];
 }
 
 /**
@@ -410,11 +412,13 @@ export async function provisionRetellForBusiness(businessId: number): Promise<{
     }
 
     // Get ALL business data for the system prompt — this is the AI's brain
-    const [services, businessHours, receptionistConfig, staff] = await Promise.all([
+    const [services, businessHours, receptionistConfig, staff, serviceAddons, customFields] = await Promise.all([
       storage.getServices(businessId),
       storage.getBusinessHours(businessId),
       storage.getReceptionistConfig(businessId),
       storage.getStaff(businessId),
+      storage.getServiceAddons(businessId, { activeOnly: true }),
+      storage.getCustomFieldDefinitions(businessId, { entityType: 'customer', activeOnly: true }),
     ]);
 
     // Load AI knowledge base section for the system prompt (FAQs from business_knowledge table)
@@ -439,6 +443,8 @@ export async function provisionRetellForBusiness(businessId: number): Promise<{
     const augmentedBusiness: BusinessWithExtras = Object.assign(business, {
       _staff: staff,
       _intelligenceHints: intelligenceHints,
+      _serviceAddons: serviceAddons,
+      _customFields: customFields,
     });
 
     // Check if Retell agent already exists — read retellAgentId via raw SQL
@@ -762,11 +768,13 @@ export async function updateRetellAgent(businessId: number): Promise<{
     }
 
     // Get ALL business data for the system prompt — this is the AI's brain
-    const [services, businessHours, receptionistConfig, staff] = await Promise.all([
+    const [services, businessHours, receptionistConfig, staff, serviceAddons, customFields] = await Promise.all([
       storage.getServices(businessId),
       storage.getBusinessHours(businessId),
       storage.getReceptionistConfig(businessId),
       storage.getStaff(businessId),
+      storage.getServiceAddons(businessId, { activeOnly: true }),
+      storage.getCustomFieldDefinitions(businessId, { entityType: 'customer', activeOnly: true }),
     ]);
 
     // Load AI knowledge base section for the system prompt
@@ -791,6 +799,8 @@ export async function updateRetellAgent(businessId: number): Promise<{
     const augmentedBusiness: BusinessWithExtras = Object.assign(business, {
       _staff: staff,
       _intelligenceHints: intelligenceHints,
+      _serviceAddons: serviceAddons,
+      _customFields: customFields,
     });
 
     // Update the LLM (contains the system prompt, tools, etc.)
@@ -14,8 +14,9 @@
 import { storage } from '../storage';
 import { db } from '../db';
 import { sql } from 'drizzle-orm';
-import { Business, Service, ReceptionistConfig, Staff, BusinessKnowledge } from '@shared/schema';
+import { Business, Service, ReceptionistConfig, Staff, BusinessKnowledge, ServiceAddon, CustomFieldDefinition } from '@shared/schema';
 import { getIndustryConfig } from '@shared/industry-config';
+import { SUPPORTED_LANGUAGES, getLanguage, type LanguageCode } from '@shared/languages';
 
 /**
  * Business object augmented with runtime properties injected before
@@ -26,6 +27,8 @@ import { getIndustryConfig } from '@shared/industry-config';
 interface BusinessWithExtras extends Business {
   _staff?: Staff[];
   _intelligenceHints?: string;
+  _serviceAddons?: ServiceAddon[];
+  _customFields?: CustomFieldDefinition[];
 }
 
 /**
@@ -269,6 +272,25 @@ export function normalizeToE164(raw: string | null | undefined): string | null {
 // First Message Builder
 // ---------------------------------------------------------------------------
 
+/** Fixed begin_message wording in each supported language */
+const FIRST_MESSAGE_TEXT: Record<LanguageCode, {
+  recordingNotice: string;
+  defaultGreeting: (businessName: string) => string;
+  /** Appended when auto-detect is on, so callers know they can switch */
+  switchInvite: string;
+}> = {
+  en: {
+    recordingNotice: 'Just so you know, this call may be recorded for quality purposes. ',
+    defaultGreeting: (businessName) => `Thanks for calling ${businessName}! How can I help you today?`,
+    switchInvite: 'You can also speak to me in English.',
+  },
+  es: {
+    recordingNotice: 'Le informamos que esta llamada puede ser grabada para fines de calidad. ',
+    defaultGreeting: (businessName) => `¡Gracias por llamar a ${businessName}! ¿En qué le puedo ayudar hoy?`,
+    switchInvite: 'También puede hablarme en español.',
+  },
+};
+
 /**
  * Build the begin_message that plays when the call connects.
  *
@@ -276,26 +298,47 @@ export function normalizeToE164(raw: string | null | undefined): string | null {
  * 1. Only includes recording disclosure when Call Recording is enabled.
  * 2. Uses the business's custom greeting if set.
  * 3. Always ends with an engagement question to prompt the caller.
+ * 4. Speaks the receptionist's primary language; with auto-detect on, invites
+ *    callers to switch to the other supported languages.
  */
 function buildFirstMessage(
   businessName: string,
   customGreeting?: string | null,
-  callRecordingEnabled?: boolean
+  callRecordingEnabled?: boolean,
+  language: LanguageCode = 'en',
+  autoDetectLanguage: boolean = false,
 ): string {
-  const recordingNotice = callRecordingEnabled
-    ? 'Just so you know, this call may be recorded for quality purposes. '
-    : '';
+  const text = FIRST_MESSAGE_TEXT[language];
+  const recordingNotice = callRecordingEnabled ? text.recordingNotice : '';
 
   // Use the custom greeting if set, otherwise default
   const greeting = (customGreeting && customGreeting.trim())
     ? customGreeting.trim()
-    : `Thanks for calling ${businessName}! How can I help you today?`;
+    : text.defaultGreeting(businessName);
+
+  const switchInvites = autoDetectLanguage
+    ? SUPPORTED_LANGUAGES.filter((l) => l.code !== language).map((l) => ` ${FIRST_MESSAGE_TEXT[l.code].switchInvite}`).join('')
+    : '';
 
-  const msg = `${recordingNotice}${greeting}`;
+  const msg = `${recordingNotice}${greeting}${switchInvites}`;
   console.log(`[Retell] begin_message: "${msg.substring(0, 120)}"`);
   return msg;
 }
 
+/** The receptionist's primary call language from its config */
+function resolveConfigLanguage(receptionistConfig: ReceptionistConfig | null | undefined): LanguageCode {
+  return getLanguage(receptionistConfig?.language).code;
+}
+
+/**
+ * Retell agent `language`. With auto-detect on, Retell's `multi` mode
+ * transcribes and speaks whichever language the caller uses.
+ */
+function resolveAgentLanguage(receptionistConfig: ReceptionistConfig | null | undefined): string {
+  if (receptionistConfig?.autoDetectLanguage) return 'multi';
+  return getLanguage(receptionistConfig?.language).retellLocale;
+}
+
 // ---------------------------------------------------------------------------
 // Retell Tool Definitions Builder
 // ---------------------------------------------------------------------------
@@ -304,6 +347,7 @@ interface BuildToolsOptions {
   isRestaurant?: boolean;
   hasMenu?: boolean;
   hasReservations?: boolean;
+  hasWaitlist?: boolean;
   voicemailEnabled?: boolean;
   transferNumber?: string | null;
   // Step 3 of HVAC roadmap. When true, register the captureEquipment tool
@@ -320,6 +364,13 @@ interface BuildToolsOptions {
   // mid-call. HVAC/plumbing/landscaping/pest_control/cleaning/fitness all
   // get it.
   supportsMembershipPlans?: boolean;
+  // When the business has at least one class-type service (classCapacity
+  // set), register the class roster tools so the AI can answer "are there
+  // spots left in Saturday's 9am class?" and hold a seat.
+  hasClasses?: boolean;
+  // The business's active customer custom fields. When there are any,
+  // register saveCustomerFields so the AI can capture them on calls.
+  customerFields?: CustomFieldDefinition[];
 }
 
 /**
@@ -367,6 +418,20 @@ function buildRetellTools(businessId: number, options: BuildToolsOptions = {}):
         serviceId: { type: 'number', description: 'Service ID if known' },
         staffId: { type: 'number', description: 'Staff member ID if known' },
         staffName: { type: 'string', description: 'Staff member name if preferred' },
+        addons: { type: 'array', items: { type: 'string' }, description: 'Add-on names for the service, so the slot fits them too' },
+        services: {
+          type: 'array',
+          description: 'Only when the caller wants several services in one visit, in order — slots fit all of them back to back',
+          items: {
+            type: 'object',
+            properties: {
+              serviceId: { type: 'number', description: 'Service ID' },
+              serviceName: { type: 'string', description: 'Service name' },
+              staffName: { type: 'string', description: 'Staff member for this service, if different' },
+              addons: { type: 'array', items: { type: 'string' }, description: 'Add-on names for this service' },
+            },
+          },
+        },
       },
       required: ['date'],
     },
@@ -388,6 +453,20 @@ function buildRetellTools(businessId: number, options: BuildToolsOptions = {}):
         serviceName: { type: 'string', description: 'Service name (required)' },
         staffId: { type: 'number', description: 'Staff member ID' },
         staffName: { type: 'string', description: 'Staff member name' },
+        addons: { type: 'array', items: { type: 'string' }, description: 'Add-on names for the service, e.g. ["hot towel"]' },
+        services: {
+          type: 'array',
+          description: 'Only when booking several services in one visit (e.g. haircut + beard trim), in order. Replaces serviceId/serviceName/addons.',
+          items: {
+            type: 'object',
+            properties: {
+              serviceId: { type: 'number', description: 'Service ID' },
+              serviceName: { type: 'string', description: 'Service name' },
+              staffName: { type: 'string', description: 'Staff member for this service, if different' },
+              addons: { type: 'array', items: { type: 'string' }, description: 'Add-on names for this service' },
+            },
+          },
+        },
         notes: { type: 'string', description: 'Special requests or notes' },
         urgency: { type: 'string', enum: ['emergency', 'urgent', 'routine'], description: 'How urgent the job is: emergency (no heat/water, safety risk), urgent (needs attention soon), or routine (standard scheduling). Only set if the caller indicates urgency.' },
         issueType: { type: 'string', description: 'Short category of the problem, e.g. "AC not cooling", "water heater leak", "no heat".' },
@@ -446,6 +525,42 @@ function buildRetellTools(businessId: number, options: BuildToolsOptions = {}):
     ));
   }
 
+  // ── saveCustomerFields (owner-defined custom fields) ──
+  // Field names go in the description so the model uses the owner's labels;
+  // values are coerced server-side, so spoken forms ("yes", "about 1,800")
+  // are fine.
+  if (options.customerFields && options.customerFields.length > 0) {
+    const fieldList = options.customerFields
+      .map(f => f.fieldType === 'select' && f.options?.length
+        ? `${f.label} (one of: ${f.options.join(', ')})`
+        : `${f.label} (${f.fieldType === 'boolean' ? 'yes/no' : f.fieldType})`)
+      .join('; ');
+    tools.push(customTool(
+      'saveCustomerFields',
+      `Save details about the caller to their customer record. Call this whenever the caller tells you one of these, even if they don't ask you to: ${fieldList}. Required: customerId (from recognizeCaller) + fields.`,
+      {
+        type: 'object',
+        properties: {
+          customerId: { type: 'number', description: 'Customer ID from recognizeCaller. Required.' },
+          fields: {
+            type: 'array',
+            description: 'One entry per detail the caller gave.',
+            items: {
+              type: 'object',
+              properties: {
+                field: { type: 'string', description: 'Field label exactly as listed, e.g. "Gate code".' },
+                value: { type: 'string', description: 'What the caller said. Dates as YYYY-MM-DD, yes/no as "yes" or "no".' },
+              },
+              required: ['field', 'value'],
+            },
+          },
+        },
+        required: ['customerId', 'fields'],
+      },
+      { speakDuring: false, speakAfter: false }
+    ));
+  }
+
   // ── checkMembership (Step 4 of HVAC roadmap) ──
   // Only registered for industries where supportsMembershipPlans is true
   // (HVAC, plumbing, landscaping, pest control, cleaning, fitness). The
@@ -584,7 +699,7 @@ function buildRetellTools(businessId: number, options: BuildToolsOptions = {}):
 
   tools.push(customTool(
     'checkWaitTime',
-    'Check current wait time and next available slot for today.',
+    'Check current wait time (the walk-in waitlist queue for restaurants) and next available slot for today.',
     { type: 'object', properties: {} }
   ));
 
@@ -631,7 +746,7 @@ function buildRetellTools(businessId: number, options: BuildToolsOptions = {}):
 
   tools.push(customTool(
     'bookRecurringAppointment',
-    'Set up a recurring appointment series (weekly, biweekly, or monthly).',
+    'Set up a recurring appointment series (weekly, biweekly, monthly, or any custom pattern as an RRULE).',
     {
       type: 'object',
       properties: {
@@ -644,11 +759,13 @@ function buildRetellTools(businessId: number, options: BuildToolsOptions = {}):
         staffName: { type: 'string', description: 'Preferred staff name' },
         startDate: { type: 'string', description: 'When to start the series' },
         time: { type: 'string', description: 'Appointment time' },
-        frequency: { type: 'string', description: 'weekly, biweekly, or monthly' },
+        frequency: { type: 'string', description: 'weekly, biweekly, or monthly. Omit when passing rrule.' },
+        rrule: { type: 'string', description: 'RFC 5545 RRULE for other patterns, e.g. "FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH" (every other Tuesday and Thursday) or "FREQ=MONTHLY;BYDAY=-1FR" (last Friday of the month)' },
+        exdates: { type: 'array', items: { type: 'string' }, description: 'Dates to skip (YYYY-MM-DD), e.g. holidays the caller mentions' },
         occurrences: { type: 'number', description: 'Total number of appointments. Default 4.' },
         notes: { type: 'string', description: 'Notes about the recurring appointment' },
       },
-      required: ['startDate', 'time', 'frequency', 'serviceName'],
+      required: ['startDate', 'time', 'serviceName'],
     }
   ));
 
@@ -760,6 +877,53 @@ function buildRetellTools(businessId: number, options: BuildToolsOptions = {}):
     ));
   }
 
+  // ---- Waitlist Tools ----
+
+  if (options.isRestaurant && options.hasWaitlist) {
+    tools.push(customTool(
+      'joinWaitlist',
+      'Add the caller to the walk-in waitlist. They get a text when their table is ready.',
+      {
+        type: 'object',
+        properties: {
+          partySize: { type: 'number', description: 'Number of guests' },
+          customerName: { type: 'string', description: 'Name the host should call out' },
+        },
+        required: ['partySize', 'customerName'],
+      }
+    ));
+  }
+
+  // ---- Group Class Tools ----
+
+  if (options.hasClasses) {
+    tools.push(customTool(
+      'checkClassAvailability',
+      'Check upcoming group class sessions and how many spots are left. Use when the caller asks about a class, its schedule, or whether there is room.',
+      {
+        type: 'object',
+        properties: {
+          className: { type: 'string', description: 'Class name as the caller said it (e.g. "yoga", "puppy basics")' },
+          date: { type: 'string', description: 'Day the caller asked about (e.g. "Saturday", "tomorrow")' },
+          time: { type: 'string', description: 'Start time the caller asked about (e.g. "9am")' },
+        },
+        required: [],
+      }
+    ));
+    tools.push(customTool(
+      'bookClassSpot',
+      'Book the caller a spot in a class session, or a waitlist place if it is full. Use the sessionId from checkClassAvailability.',
+      {
+        type: 'object',
+        properties: {
+          sessionId: { type: 'number', description: 'Session ID from checkClassAvailability' },
+          customerName: { type: 'string', description: "Caller's full name (needed for new customers)" },
+        },
+        required: ['sessionId'],
+      }
+    ));
+  }
+
   // ---- Built-in Tools ----
 
   // end_call: always included so the agent can hang up after goodbye
@@ -825,7 +989,7 @@ export async function createLlmForBusiness(
     systemPrompt = generateSystemPrompt(
       business, services, hours,
       null,             // menuData (loaded dynamically during calls for restaurants)
-      { receptionistConfig: receptionistConfig ?? undefined, staff: business._staff },  // options
+      { receptionistConfig: receptionistConfig ?? undefined, staff: business._staff, serviceAddons: business._serviceAddons, customFields: business._customFields },  // options
       knowledgeSection, // knowledgeSection
       Array.isArray(receptionistConfig?.transferPhoneNumbers) ? receptionistConfig!.transferPhoneNumbers as string[] : [],
       business._intelligenceHints,  // intelligenceHints
@@ -858,17 +1022,23 @@ export async function createLlmForBusiness(
     isRestaurant,
     hasMenu: isRestaurant && !!(business.cloverMerchantId || business.squareAccessToken || business.heartlandApiKey),
     hasReservations: isRestaurant && !!business.reservationEnabled,
+    hasWaitlist: isRestaurant && !!business.waitlistEnabled,
     voicemailEnabled,
     transferNumber,
     tracksEquipment: industryConfigCreate.tracksCustomerEquipment,
     equipmentLabel: industryConfigCreate.equipmentLabel || undefined,
     supportsMembershipPlans: industryConfigCreate.supportsMembershipPlans,
+    hasClasses: services.some(s => s.active !== false && !!s.classCapacity),
+    customerFields: business._customFields,
   });
 
   // Build the begin_message (greeting + optional recording disclosure)
   const configRecordingEnabled = receptionistConfig?.callRecordingEnabled ?? true;
   const configGreeting = receptionistConfig?.greeting || undefined;
-  const beginMessage = buildFirstMessage(business.name, configGreeting, configRecordingEnabled);
+  const beginMessage = buildFirstMessage(
+    business.name, configGreeting, configRecordingEnabled,
+    resolveConfigLanguage(receptionistConfig), !!receptionistConfig?.autoDetectLanguage,
+  );
   console.log(`[Retell] createLlm begin_message: "${beginMessage.substring(0, 100)}"`);
 
   const result = await retellFetch<{ llm_id: string }>('POST', '/create-retell-llm', {
@@ -885,6 +1055,7 @@ export async function createLlmForBusiness(
       customer_id: '',          // Populated per-call by inbound webhook
       appointment_info: '',     // Populated per-call by inbound webhook
       caller_context: 'new_caller', // Populated per-call by inbound webhook
+      caller_language: '',      // Populated per-call by inbound webhook (customer's preferred language)
     },
   });
 
@@ -919,7 +1090,7 @@ export async function updateLlm(
     systemPrompt = generateSystemPrompt(
       business, services, hours,
       null,             // menuData (loaded dynamically during calls for restaurants)
-      { receptionistConfig: receptionistConfig ?? undefined, staff: business._staff },  // options
+      { receptionistConfig: receptionistConfig ?? undefined, staff: business._staff, serviceAddons: business._serviceAddons, customFields: business._customFields },  // options
       knowledgeSection, // knowledgeSection
       Array.isArray(receptionistConfig?.transferPhoneNumbers) ? receptionistConfig!.transferPhoneNumbers as string[] : [],
       business._intelligenceHints,  // intelligenceHints
@@ -950,17 +1121,23 @@ export async function updateLlm(
     isRestaurant,
     hasMenu: isRestaurant && !!(business.cloverMerchantId || business.squareAccessToken || business.heartlandApiKey),
     hasReservations: isRestaurant && !!business.reservationEnabled,
+    hasWaitlist: isRestaurant && !!business.waitlistEnabled,
     voicemailEnabled,
     transferNumber,
     tracksEquipment: industryConfigUpdate.tracksCustomerEquipment,
     equipmentLabel: industryConfigUpdate.equipmentLabel || undefined,
     supportsMembershipPlans: industryConfigUpdate.supportsMembershipPlans,
+    hasClasses: services.some(s => s.active !== false && !!s.classCapacity),
+    customerFields: business._customFields,
   });
 
   // Build the begin_message (greeting + optional recording disclosure)
   const configRecordingEnabled = receptionistConfig?.callRecordingEnabled ?? true;
   const configGreeting = receptionistConfig?.greeting || undefined;
-  const beginMessage = buildFirstMessage(business.name, configGreeting, configRecordingEnabled);
+  const beginMessage = buildFirstMessage(
+    business.name, configGreeting, configRecordingEnabled,
+    resolveConfigLanguage(receptionistConfig), !!receptionistConfig?.autoDetectLanguage,
+  );
   console.log(`[Retell] updateLlm begin_message: "${beginMessage.substring(0, 100)}"`);
 
   const result = await retellFetch('PATCH', `/update-retell-llm/${llmId}`, {
@@ -971,6 +1148,15 @@ export async function updateLlm(
     general_prompt: systemPrompt,
     general_tools: tools,
     begin_message: beginMessage,
+    // Agents created before caller_language existed need its default too
+    default_dynamic_variables: {
+      businessId: String(business.id),
+      customer_name: '',
+      customer_id: '',
+      appointment_info: '',
+      caller_context: 'new_caller',
+      caller_language: '',
+    },
   });
 
   if (result.error) {
@@ -1013,7 +1199,10 @@ export async function createAgentForBusiness(
   const configMaxCallMinutes = receptionistConfig?.maxCallLengthMinutes ?? 15;
   const configGreeting = receptionistConfig?.greeting || undefined;
 
-  const beginMessage = buildFirstMessage(business.name, configGreeting, configRecordingEnabled);
+  const beginMessage = buildFirstMessage(
+    business.name, configGreeting, configRecordingEnabled,
+    resolveConfigLanguage(receptionistConfig), !!receptionistConfig?.autoDetectLanguage,
+  );
 
   const agentConfig: Record<string, any> = {
     response_engine: {
@@ -1023,7 +1212,7 @@ export async function createAgentForBusiness(
     voice_id: configVoiceId,
     voice_model: getVoiceModel(configVoiceId),
     agent_name: `${business.name} Receptionist`,
-    language: 'en-US',
+    language: resolveAgentLanguage(receptionistConfig),
     stt_mode: 'fast',      // Fast transcription — sufficient for barbershop vocabulary, names validated server-side
     webhook_url: `${APP_URL}/api/retell/webhook`,
     responsiveness: 1.0,             // Maximum responsiveness — agent responds as soon as caller pauses
@@ -1082,7 +1271,10 @@ export async function updateAgent(
   const configMaxCallMinutes = receptionistConfig?.maxCallLengthMinutes ?? 15;
   const configGreeting = receptionistConfig?.greeting || undefined;
 
-  const beginMessage = buildFirstMessage(business.name, configGreeting, configRecordingEnabled);
+  const beginMessage = buildFirstMessage(
+    business.name, configGreeting, configRecordingEnabled,
+    resolveConfigLanguage(receptionistConfig), !!receptionistConfig?.autoDetectLanguage,
+  );
   console.log(`[Retell] updateAgent: recording=${configRecordingEnabled}, greeting="${configGreeting?.substring(0, 50)}", beginMessage="${beginMessage.substring(0, 80)}"`);
 
   const updateConfig: Record<string, any> = {
@@ -1093,7 +1285,7 @@ export async function updateAgent(
     voice_id: configVoiceId,
     voice_model: getVoiceModel(configVoiceId),
     agent_name: `${business.name} Receptionist`,
-    language: 'en-US',
+    language: resolveAgentLanguage(receptionistConfig),
     stt_mode: 'fast',                // Fast transcription — was missing from update path (create/update drift fix)
     webhook_url: `${APP_URL}/api/retell/webhook`,
     responsiveness: 1.0,             // Maximum responsiveness — agent responds as soon as caller pauses
@@ -1391,6 +1583,14 @@ async function syncKnowledgeBase(businessId: number): Promise<{ knowledgeBaseId:
         title: entry.question || entry.category || 'Business Info',
         text: `Q: ${entry.question}\nA: ${entry.answer}`,
       });
+      for (const language of SUPPORTED_LANGUAGES) {
+        const translation = entry.translations?.[language.code];
+        if (!translation?.question || !translation.answer) continue;
+        textSnippets.push({
+          title: `${translation.question} (${language.name})`,
+          text: `Q: ${translation.question}\nA: ${translation.answer}`,
+        });
+      }
     }
 
     // Add business description if available
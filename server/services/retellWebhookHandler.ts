@@ -17,6 +17,7 @@ import { storage } from '../storage';
 import { db } from '../db';
 import { sql } from 'drizzle-orm';
 import crypto from 'crypto';
+import { getLanguage, isSupportedLanguage } from '@shared/languages';
 
 // These imports will resolve once callToolHandlers.ts is created.
 // For now, reference the module that will contain the extracted tool handlers.
@@ -546,6 +547,7 @@ export async function handleInboundWebhook(
             customer_id: '',
             appointment_info: '',
             caller_context: 'new_caller',
+            caller_language: '',
           },
         }
       });
@@ -562,6 +564,7 @@ export async function handleInboundWebhook(
             customer_id: '',
             appointment_info: '',
             caller_context: 'new_caller',
+            caller_language: '',
           },
         }
       });
@@ -573,6 +576,7 @@ export async function handleInboundWebhook(
     let appointmentInfo = '';
     let customerId = '';
     let callerContext = 'new_caller';
+    let callerLanguage = '';
 
     if (from_number) {
       const normalizedPhone = from_number.replace(/\D/g, '').slice(-10);
@@ -580,7 +584,7 @@ export async function handleInboundWebhook(
       // Direct DB query — much faster than loading all customers
       // Try multiple phone formats: LIKE match on last 10 digits, OR exact match on full E.164
       const custResult = await db.execute(
-        sql`SELECT id, first_name, last_name, phone FROM customers
+        sql`SELECT id, first_name, last_name, phone, preferred_language FROM customers
             WHERE business_id = ${businessId}
             AND phone IS NOT NULL
             AND (
@@ -599,6 +603,10 @@ export async function handleInboundWebhook(
         customerName = customer.first_name || customer.firstName || '';
         customerId = String(customer.id);
         callerContext = 'returning_caller';
+        // Language they last called or texted in — the prompt opens in it
+        if (isSupportedLanguage(customer.preferred_language)) {
+          callerLanguage = getLanguage(customer.preferred_language).name;
+        }
 
         // Get upcoming appointments via direct query (faster than loading all)
         const now = new Date();
@@ -661,6 +669,7 @@ export async function handleInboundWebhook(
           customer_id: customerId,
           appointment_info: appointmentInfo,
           caller_context: callerContext,
+          caller_language: callerLanguage,
         },
       },
     });
@@ -674,6 +683,7 @@ export async function handleInboundWebhook(
           customer_id: '',
           appointment_info: '',
           caller_context: 'new_caller',
+          caller_language: '',
         },
       }
     });
@@ -0,0 +1,238 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+// ── Mocks (vi.hoisted ensures they're available when vi.mock factories run) ──
+
+const { mockStorage, mockUpdateAppointmentSafely } = vi.hoisted(() => ({
+  mockUpdateAppointmentSafely: vi.fn(),
+  mockStorage: {
+    getBusiness: vi.fn(),
+    getStaff: vi.fn(),
+    getStaffHoursByDay: vi.fn(),
+    getLatestPingByStaff: vi.fn(),
+    getJobsForDate: vi.fn(),
+    getCustomersByIds: vi.fn(),
+    getAppointment: vi.fn(),
+    updateJob: vi.fn(),
+    updateAppointment: vi.fn(),
+  },
+}));
+
+vi.mock('../storage', () => ({ storage: mockStorage }));
+vi.mock('./appointmentService', () => ({ updateAppointmentSafely: mockUpdateAppointmentSafely }));
+
+import {
+  applyDayPlan,
+  buildDayPlan,
+  estimateDrive,
+  getDistanceProvider,
+  haversineProvider,
+  optimizeStopOrder,
+  planTechRoute,
+  setDistanceProvider,
+  type DistanceProvider,
+  type PlanJob,
+  type TechDay,
+} from './routePlanningService';
+
+// ── Test Data ──
+
+// Points strung west → east along a line of latitude, ~8.5 km apart
+const WEST = { lat: 40.0, lng: -75.3 };
+const MIDDLE = { lat: 40.0, lng: -75.2 };
+const EAST = { lat: 40.0, lng: -75.1 };
+
+const TECH: TechDay = {
+  staffId: 5, name: 'Sam Ortiz', isOff: false,
+  shiftStartMinutes: 8 * 60, shiftEndMinutes: 17 * 60, start: WEST,
+};
+
+function planJob(overrides: Partial<PlanJob> = {}): PlanJob {
+  return {
+    jobId: 1, title: 'Tune-up', customerName: 'Dana Lee', status: 'pending', staffId: 5,
+    location: MIDDLE, durationMinutes: 60, earliestStartMinutes: null,
+    ...overrides,
+  };
+}
+
+function job(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 1, businessId: 1, customerId: 7, appointmentId: null, staffId: 5, title: 'Tune-up',
+    status: 'pending', scheduledDate: '2026-10-19', customerLocationLat: 40.0, customerLocationLng: -75.2,
+    routeOrder: null,
+    ...overrides,
+  };
+}
+
+// ── Tests ──
+
+describe('routePlanningService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockStorage.getBusiness.mockResolvedValue({ id: 1, timezone: 'America/New_York' });
+    mockStorage.getStaff.mockResolvedValue([
+      { id: 5, firstName: 'Sam', lastName: 'Ortiz', active: true },
+      { id: 6, firstName: 'Ana', lastName: 'Diaz', active: true },
+      { id: 9, firstName: 'Former', lastName: 'Tech', active: false },
+    ]);
+    mockStorage.getStaffHoursByDay.mockResolvedValue({ startTime: '09:00', endTime: '17:00', isOff: false });
+    mockStorage.getLatestPingByStaff.mockResolvedValue(undefined);
+    mockStorage.getCustomersByIds.mockResolvedValue([{ id: 7, firstName: 'Dana', lastName: 'Lee' }]);
+    mockStorage.updateJob.mockResolvedValue({});
+  });
+
+  afterEach(() => {
+    setDistanceProvider(null);
+  });
+
+  describe('estimateDrive', () => {
+    it('stretches straight-line distance and drives faster on longer trips', () => {
+      const short = estimateDrive(WEST, MIDDLE);
+      const long = estimateDrive(WEST, { lat: 40.0, lng: -74.3 });
+      expect(short.distanceKm).toBeCloseTo(8.5 * 1.3, 0);
+      expect(short.minutes).toBeGreaterThan(15);
+      // ~10x the distance in well under 10x the time
+      expect(long.minutes).toBeLessThan(short.minutes * 6);
+      expect(estimateDrive(WEST, WEST)).toEqual({ distanceKm: 0, minutes: 0 });
+    });
+  });
+
+  describe('optimizeStopOrder', () => {
+    it('untangles a crossing route', () => {
+      // Points on a line at 0, 1, 2, 3 — cost is the gap between them
+      const positions = [0, 1, 2, 3];
+      const cost = positions.map((a) => positions.map((b) => Math.abs(a - b)));
+      expect(optimizeStopOrder(cost, [2, 1, 3], 0)).toEqual([1, 2, 3]);
+      expect(optimizeStopOrder(cost, [3, 1, 2, 0], null)).toEqual([3, 2, 1, 0]);
+    });
+  });
+
+  describe('planTechRoute', () => {
+    it('orders stops outward from the start and computes arrival times', async () => {
+      const route = await planTechRoute(TECH, [
+        planJob({ jobId: 1, location: EAST }),
+        planJob({ jobId: 2, location: MIDDLE }),
+      ], { optimize: true });
+
+      expect(route.stops.map((stop) => stop.jobId)).toEqual([2, 1]);
+      const firstLeg = route.stops[0].driveMinutes!;
+      expect(route.stops[0].arrival).toBe(`08:${String(firstLeg).padStart(2, '0')}`);
+      expect(route.startSource).toBe('gps');
+      expect(route.overtimeMinutes).toBe(0);
+    });
+
+    it('waits for appointment times, flags overtime and puts unlocated jobs last', async () => {
+      const route = await planTechRoute({ ...TECH, start: null, shiftEndMinutes: 10 * 60 }, [
+        planJob({ jobId: 3, location: null, durationMinutes: 30 }),
+        planJob({ jobId: 1, earliestStartMinutes: 9 * 60, durationMinutes: 90 }),
+      ]);
+
+      expect(route.stops.map((stop) => stop.jobId)).toEqual([1, 3]);
+      expect(route.stops[0]).toEqual(expect.objectContaining({ arrival: '08:00', waitMinutes: 60, departure: '10:30', overtime: true }));
+      expect(route.stops[1]).toEqual(expect.objectContaining({ driveMinutes: null, departure: '11:00' }));
+      expect(route.startSource).toBe('first_stop');
+      expect(route.overtimeMinutes).toBe(60);
+    });
+
+    it('uses the installed distance provider', async () => {
+      const flat: DistanceProvider = {
+        name: 'flat',
+        matrix: vi.fn(async (points) => points.map(() => points.map(() => ({ distanceKm: 1, minutes: 10 })))),
+      };
+      setDistanceProvider(flat);
+      expect(getDistanceProvider()).toBe(flat);
+
+      const route = await planTechRoute(TECH, [planJob()]);
+      expect(flat.matrix).toHaveBeenCalledWith([WEST, MIDDLE]);
+      expect(route.stops[0].arrival).toBe('08:10');
+
+      setDistanceProvider(null);
+      expect(getDistanceProvider()).toBe(haversineProvider);
+    });
+  });
+
+  describe('buildDayPlan', () => {
+    it('routes each active tech and pools jobs without one as unassigned', async () => {
+      mockStorage.getJobsForDate.mockResolvedValue([
+        job({ id: 1 }),
+        job({ id: 2, staffId: null }),
+        job({ id: 3, status: 'completed' }),
+        job({ id: 4, appointmentId: 40 }),
+      ]);
+      // 10:00–11:30 Eastern
+      mockStorage.getAppointment.mockResolvedValue({
+        id: 40, startDate: new Date('2026-10-19T14:00:00Z'), endDate: new Date('2026-10-19T15:30:00Z'),
+      });
+
+      const result = await buildDayPlan(1, '2026-10-19');
+      expect(result.ok).toBe(true);
+      if (!result.ok) return;
+
+      expect(mockStorage.getStaffHoursByDay).toHaveBeenCalledWith(5, 'monday');
+      expect(result.plan.routes.map((route) => route.staffId)).toEqual([5, 6]);
+      expect(result.plan.routes[0].stops.map((stop) => stop.jobId)).toEqual([1, 4]);
+      expect(result.plan.routes[0].stops[1]).toEqual(expect.objectContaining({ arrival: '10:00', durationMinutes: 90 }));
+      expect(result.plan.unassigned.map((planned) => planned.jobId)).toEqual([2]);
+    });
+
+    it('keeps a dispatcher\'s reassignment and rejects unknown jobs and staff', async () => {
+      mockStorage.getJobsForDate.mockResolvedValue([job({ id: 1 }), job({ id: 2 })]);
+
+      const moved = await buildDayPlan(1, '2026-10-19', { assignments: [{ staffId: 6, jobIds: [2] }] });
+      expect(moved.ok && moved.plan.routes.find((route) => route.staffId === 6)?.stops.map((stop) => stop.jobId)).toEqual([2]);
+      expect(moved.ok && moved.plan.routes.find((route) => route.staffId === 5)?.stops.map((stop) => stop.jobId)).toEqual([1]);
+
+      expect(await buildDayPlan(1, '2026-10-19', { assignments: [{ staffId: 6, jobIds: [99] }] }))
+        .toEqual(expect.objectContaining({ ok: false, reason: 'unknown_job' }));
+      expect(await buildDayPlan(1, '2026-10-19', { assignments: [{ staffId: 9, jobIds: [1] }] }))
+        .toEqual(expect.objectContaining({ ok: false, reason: 'unknown_staff' }));
+    });
+  });
+
+  describe('applyDayPlan', () => {
+    const appointment = {
+      id: 20, businessId: 1, staffId: 5,
+      startDate: new Date('2026-10-19T14:00:00Z'), endDate: new Date('2026-10-19T15:00:00Z'),
+    };
+
+    it('saves tech and route order, moving the linked appointment with the job', async () => {
+      mockStorage.getJobsForDate.mockResolvedValue([
+        job({ id: 1, routeOrder: 1 }),
+        job({ id: 2, appointmentId: 20, routeOrder: 2 }),
+      ]);
+      mockStorage.getAppointment.mockResolvedValue(appointment);
+      mockUpdateAppointmentSafely.mockResolvedValue({ success: true });
+
+      const result = await applyDayPlan(1, '2026-10-19', [
+        { staffId: 5, jobIds: [1] },
+        { staffId: 6, jobIds: [2] },
+      ]);
+
+      expect(result.ok).toBe(true);
+      expect(mockStorage.updateJob).toHaveBeenCalledTimes(1);
+      expect(mockStorage.updateJob).toHaveBeenCalledWith(2, { staffId: 6, routeOrder: 1 });
+      expect(mockUpdateAppointmentSafely).toHaveBeenCalledWith(
+        20, 1, appointment.startDate, appointment.endDate, 6, { staffId: 6 },
+      );
+    });
+
+    it("returns the conflict and saves nothing when the new tech is already booked", async () => {
+      mockStorage.getJobsForDate.mockResolvedValue([
+        job({ id: 1, appointmentId: 10, routeOrder: 1 }),
+        job({ id: 2, appointmentId: 20, routeOrder: 2 }),
+      ]);
+      mockStorage.getAppointment.mockImplementation(async (id: number) => ({ ...appointment, id }));
+      mockUpdateAppointmentSafely
+        .mockResolvedValueOnce({ success: true })
+        .mockResolvedValueOnce({ success: false, error: 'This time slot is already booked. Please select another time.' });
+
+      const result = await applyDayPlan(1, '2026-10-19', [
+        { staffId: 6, jobIds: [1, 2] },
+      ]);
+
+      expect(result).toEqual(expect.objectContaining({ ok: false, reason: 'staff_conflict' }));
+      expect(mockStorage.updateJob).not.toHaveBeenCalled();
+      // The appointment already moved goes back to its tech
+      expect(mockStorage.updateAppointment).toHaveBeenCalledWith(10, { staffId: 5 });
+    });
+  });
+});
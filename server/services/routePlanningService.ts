@@ -0,0 +1,596 @@
+/**
+ * Route Planning Service — dispatch day planner
+ *
+ * Proposes a stop order for each tech's jobs on a day and estimates when the
+ * tech reaches each one. A route starts at the tech's latest GPS ping (or at
+ * the first stop when there is no recent ping), leaves at their staffHours
+ * start time and spends each job's duration on site — the linked
+ * appointment's length, or DEFAULT_JOB_MINUTES. A job with an appointment is
+ * never started before the appointment time; the tech waits instead. Stops
+ * that finish after the shift ends are flagged as overtime, not dropped.
+ *
+ * Drive times come from a DistanceProvider. The default works offline:
+ * straight-line (haversine) distance stretched by a road factor, driven at a
+ * speed that rises with trip length. A provider backed by a routing API can be
+ * installed with setDistanceProvider().
+ *
+ * Stop order is a nearest-neighbour tour improved by 2-opt, which is close to
+ * optimal for the handful of stops a tech covers in a day. Dispatchers can
+ * override it by passing assignments explicitly; those orders are kept as-is
+ * unless `optimize` is set.
+ */
+
+import { storage } from '../storage';
+import { updateAppointmentSafely } from './appointmentService';
+import type { Appointment, Customer, Job, Staff } from '@shared/schema';
+import { getLocalTimeInTimezone } from '../utils/timezone';
+
+const LOG_PREFIX = '[RoutePlanning]';
+
+export const DEFAULT_JOB_MINUTES = 60;
+const DEFAULT_SHIFT_START = '08:00';
+const DEFAULT_SHIFT_END = '17:00';
+
+// A ping older than this no longer says where the tech will set out from
+const START_PING_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+// Jobs in these states are done with routing
+const UNROUTABLE_STATUSES = ['completed', 'cancelled'];
+
+const DAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface DriveEstimate {
+  distanceKm: number;
+  minutes: number;
+}
+
+export interface DistanceProvider {
+  readonly name: string;
+  /** Drive estimates between every pair of points — result[i][j] is i → j. */
+  matrix(points: LatLng[]): Promise<DriveEstimate[][]>;
+}
+
+export interface PlanJob {
+  jobId: number;
+  title: string;
+  customerName: string;
+  status: string | null;
+  staffId: number | null;
+  location: LatLng | null;
+  durationMinutes: number;
+  /** Appointment start, in minutes after local midnight */
+  earliestStartMinutes: number | null;
+}
+
+export interface TechDay {
+  staffId: number;
+  name: string;
+  isOff: boolean;
+  shiftStartMinutes: number;
+  shiftEndMinutes: number;
+  start: LatLng | null;
+}
+
+export interface RouteStop {
+  jobId: number;
+  title: string;
+  customerName: string;
+  status: string | null;
+  location: LatLng | null;
+  order: number;
+  /** Null when either end of the leg has no coordinates */
+  driveMinutes: number | null;
+  driveKm: number | null;
+  arrival: string;
+  departure: string;
+  waitMinutes: number;
+  durationMinutes: number;
+  overtime: boolean;
+}
+
+export interface TechRoute {
+  staffId: number;
+  name: string;
+  isOff: boolean;
+  shiftStart: string;
+  shiftEnd: string;
+  startLocation: LatLng | null;
+  startSource: 'gps' | 'first_stop';
+  stops: RouteStop[];
+  totalDriveMinutes: number;
+  totalDriveKm: number;
+  finish: string;
+  overtimeMinutes: number;
+}
+
+export interface DayPlan {
+  date: string;
+  provider: string;
+  routes: TechRoute[];
+  unassigned: PlanJob[];
+}
+
+export interface PlanAssignment {
+  /** Null puts the jobs back in the unassigned pool */
+  staffId: number | null;
+  /** Jobs in visiting order */
+  jobIds: number[];
+  /** Re-optimize this tech's order instead of keeping jobIds' order */
+  optimize?: boolean;
+}
+
+export type DayPlanResult =
+  | { ok: true; plan: DayPlan }
+  | { ok: false; reason: 'unknown_job' | 'unknown_staff' | 'duplicate_job' | 'staff_conflict'; message: string };
+
+// ──────────────────────────────────────────────────────────────────────
+// Distance providers
+// ──────────────────────────────────────────────────────────────────────
+
+const EARTH_RADIUS_KM = 6371;
+
+// Average speed over successive stretches of a trip: the first few km are
+// city streets, the middle arterials, anything beyond that highway.
+const SPEED_BANDS: Array<{ km: number; kmh: number }> = [
+  { km: 3, kmh: 25 },
+  { km: 12, kmh: 40 },
+  { km: Infinity, kmh: 65 },
+];
+
+export interface HaversineProviderOptions {
+  /** Road distance ÷ straight-line distance */
+  roadFactor?: number;
+  /** Minutes added to every trip for parking and getting to the door */
+  stopOverheadMinutes?: number;
+}
+
+export function haversineKm(from: LatLng, to: LatLng): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(to.lat - from.lat);
+  const dLng = toRad(to.lng - from.lng);
+  const a = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRad(from.lat)) * Math.cos(toRad(to.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/** Offline drive estimate between two points. Same-site trips cost nothing. */
+export function estimateDrive(from: LatLng, to: LatLng, options: HaversineProviderOptions = {}): DriveEstimate {
+  const roadKm = haversineKm(from, to) * (options.roadFactor ?? 1.3);
+  if (roadKm < 0.05) return { distanceKm: 0, minutes: 0 };
+
+  let remaining = roadKm;
+  let hours = 0;
+  for (const band of SPEED_BANDS) {
+    const stretch = Math.min(remaining, band.km);
+    hours += stretch / band.kmh;
+    remaining -= stretch;
+    if (remaining <= 0) break;
+  }
+
+  return {
+    distanceKm: Math.round(roadKm * 10) / 10,
+    minutes: Math.ceil(hours * 60 + (options.stopOverheadMinutes ?? 3)),
+  };
+}
+
+export function createHaversineProvider(options: HaversineProviderOptions = {}): DistanceProvider {
+  return {
+    name: 'haversine',
+    async matrix(points) {
+      return points.map((from) => points.map((to) => estimateDrive(from, to, options)));
+    },
+  };
+}
+
+export const haversineProvider = createHaversineProvider();
+
+let activeProvider: DistanceProvider = haversineProvider;
+
+/** Install the provider plans use from now on; null restores the offline default. */
+export function setDistanceProvider(provider: DistanceProvider | null): void {
+  activeProvider = provider ?? haversineProvider;
+}
+
+export function getDistanceProvider(): DistanceProvider {
+  return activeProvider;
+}
+
+// ──────────────────────────────────────────────────────────────────────
+// Ordering
+// ──────────────────────────────────────────────────────────────────────
+
+// 2-opt passes stop after this many full sweeps even if still improving
+const MAX_TWO_OPT_PASSES = 50;
+
+function pathCost(cost: number[][], order: number[], start: number | null): number {
+  let total = 0;
+  let previous = start;
+  for (let i = 0; i < order.length; i++) {
+    if (previous !== null) total += cost[previous][order[i]];
+    previous = order[i];
+  }
+  return total;
+}
+
+/**
+ * Order `stops` (indices into the `cost` matrix) to minimize total drive time,
+ * leaving from `start` when given or from whichever stop works best otherwise.
+ */
+export function optimizeStopOrder(cost: number[][], stops: number[], start: number | null): number[] {
+  if (stops.length <= 1) return [...stops];
+
+  const remaining = [...stops];
+  const order: number[] = [];
+  let current = start;
+  if (current === null) {
+    current = remaining.shift()!;
+    order.push(current);
+  }
+  while (remaining.length > 0) {
+    let nearest = 0;
+    for (let i = 1; i < remaining.length; i++) {
+      if (cost[current][remaining[i]] < cost[current][remaining[nearest]]) nearest = i;
+    }
+    current = remaining.splice(nearest, 1)[0];
+    order.push(current);
+  }
+
+  // 2-opt: reverse any stretch of the route that makes it shorter. The cost is
+  // recomputed in full so asymmetric provider matrices are handled correctly.
+  let best = order;
+  let bestCost = pathCost(cost, best, start);
+  for (let pass = 0; pass < MAX_TWO_OPT_PASSES; pass++) {
+    let improved = false;
+    for (let i = 0; i < best.length - 1; i++) {
+      for (let j = i + 1; j < best.length; j++) {
+        const candidate = [...best.slice(0, i), ...best.slice(i, j + 1).reverse(), ...best.slice(j + 1)];
+        const candidateCost = pathCost(cost, candidate, start);
+        if (candidateCost < bestCost - 1e-9) {
+          best = candidate;
+          bestCost = candidateCost;
+          improved = true;
+        }
+      }
+    }
+    if (!improved) break;
+  }
+  return best;
+}
+
+// ──────────────────────────────────────────────────────────────────────
+// Timeline
+// ──────────────────────────────────────────────────────────────────────
+
+export function parseClockMinutes(value: string | null | undefined, fallback: string): number {
+  const match = /^(\d{1,2}):(\d{2})/.exec(value || '') ?? /^(\d{1,2}):(\d{2})/.exec(fallback)!;
+  return parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+}
+
+export function formatClock(minutes: number): string {
+  const rounded = Math.round(minutes);
+  return `${String(Math.floor(rounded / 60)).padStart(2, '0')}:${String(rounded % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Route one tech's jobs and compute arrival times. Jobs without coordinates
+ * go last in the order given, with no drive time counted for them.
+ */
+export async function planTechRoute(
+  tech: TechDay,
+  jobs: PlanJob[],
+  options: { optimize?: boolean; provider?: DistanceProvider } = {},
+): Promise<TechRoute> {
+  const located = jobs.filter((job) => job.location);
+  const unlocated = jobs.filter((job) => !job.location);
+
+  // Matrix layout: [start?, ...located stops]
+  const offset = tech.start ? 1 : 0;
+  const points = [...(tech.start ? [tech.start] : []), ...located.map((job) => job.location!)];
+  const provider = options.provider ?? activeProvider;
+  const matrix = points.length > 1 ? await provider.matrix(points) : [];
+
+  let order = located.map((_, i) => i + offset);
+  if (options.optimize && located.length > 1) {
+    const cost = matrix.map((row) => row.map((estimate) => estimate.minutes));
+    order = optimizeStopOrder(cost, order, tech.start ? 0 : null);
+  }
+
+  const stops: RouteStop[] = [];
+  let clock = tech.shiftStartMinutes;
+  let previous: number | null = tech.start ? 0 : null;
+  let totalDriveMinutes = 0;
+  let totalDriveKm = 0;
+
+  const visit = (job: PlanJob, leg: DriveEstimate | null) => {
+    if (leg) {
+      clock += leg.minutes;
+      totalDriveMinutes += leg.minutes;
+      totalDriveKm += leg.distanceKm;
+    }
+    const arrival = clock;
+    const start = job.earliestStartMinutes !== null ? Math.max(arrival, job.earliestStartMinutes) : arrival;
+    clock = start + job.durationMinutes;
+    stops.push({
+      jobId: job.jobId,
+      title: job.title,
+      customerName: job.customerName,
+      status: job.status,
+      location: job.location,
+      order: stops.length + 1,
+      driveMinutes: leg ? leg.minutes : null,
+      driveKm: leg ? leg.distanceKm : null,
+      arrival: formatClock(arrival),
+      departure: formatClock(clock),
+      waitMinutes: start - arrival,
+      durationMinutes: job.durationMinutes,
+      overtime: clock > tech.shiftEndMinutes,
+    });
+  };
+
+  for (let i = 0; i < order.length; i++) {
+    const index = order[i];
+    visit(located[index - offset], previous !== null ? matrix[previous][index] : null);
+    previous = index;
+  }
+  for (let i = 0; i < unlocated.length; i++) {
+    visit(unlocated[i], null);
+  }
+
+  return {
+    staffId: tech.staffId,
+    name: tech.name,
+    isOff: tech.isOff,
+    shiftStart: formatClock(tech.shiftStartMinutes),
+    shiftEnd: formatClock(tech.shiftEndMinutes),
+    startLocation: tech.start ?? located[order[0] - offset]?.location ?? null,
+    startSource: tech.start ? 'gps' : 'first_stop',
+    stops,
+    totalDriveMinutes,
+    totalDriveKm: Math.round(totalDriveKm * 10) / 10,
+    finish: formatClock(clock),
+    overtimeMinutes: Math.max(0, clock - tech.shiftEndMinutes),
+  };
+}
+
+// ──────────────────────────────────────────────────────────────────────
+// Loading
+// ──────────────────────────────────────────────────────────────────────
+
+interface PlanningDay {
+  techs: TechDay[];
+  jobs: Map<number, PlanJob>;
+}
+
+function customerLabel(customer: Customer | undefined): string {
+  if (!customer) return 'Unknown customer';
+  return `${customer.firstName ?? ''} ${customer.lastName ?? ''}`.trim() || 'Unknown customer';
+}
+
+function toPlanJob(job: Job, customer: Customer | undefined, appointment: Appointment | undefined, timezone: string): PlanJob {
+  let durationMinutes = DEFAULT_JOB_MINUTES;
+  let earliestStartMinutes: number | null = null;
+  if (appointment) {
+    const start = new Date(appointment.startDate);
+    const length = Math.round((new Date(appointment.endDate).getTime() - start.getTime()) / 60000);
+    if (length > 0) durationMinutes = length;
+    const local = getLocalTimeInTimezone(start, timezone);
+    earliestStartMinutes = (local.hours % 24) * 60 + local.minutes;
+  }
+
+  const hasLocation = job.customerLocationLat != null && job.customerLocationLng != null;
+  return {
+    jobId: job.id,
+    title: job.title,
+    customerName: customerLabel(customer),
+    status: job.status,
+    staffId: job.staffId,
+    location: hasLocation ? { lat: job.customerLocationLat!, lng: job.customerLocationLng! } : null,
+    durationMinutes,
+    earliestStartMinutes,
+  };
+}
+
+async function loadTechDay(member: Staff, businessId: number, dayName: string): Promise<TechDay> {
+  const [hours, ping] = await Promise.all([
+    storage.getStaffHoursByDay(member.id, dayName),
+    storage.getLatestPingByStaff(member.id, businessId).catch(() => undefined),
+  ]);
+
+  const pingIsFresh = ping && Date.now() - new Date(ping.recordedAt).getTime() <= START_PING_MAX_AGE_MS;
+  return {
+    staffId: member.id,
+    name: `${member.firstName} ${member.lastName}`.trim(),
+    isOff: !!hours?.isOff,
+    shiftStartMinutes: parseClockMinutes(hours?.startTime, DEFAULT_SHIFT_START),
+    shiftEndMinutes: parseClockMinutes(hours?.endTime, DEFAULT_SHIFT_END),
+    start: pingIsFresh ? { lat: parseFloat(String(ping.lat)), lng: parseFloat(String(ping.lng)) } : null,
+  };
+}
+
+async function loadPlanningDay(businessId: number, date: string): Promise<PlanningDay> {
+  const dayName = DAY_NAMES[new Date(`${date}T12:00:00Z`).getUTCDay()];
+  const [business, staffList, dayJobs] = await Promise.all([
+    storage.getBusiness(businessId),
+    storage.getStaff(businessId),
+    storage.getJobsForDate(businessId, date),
+  ]);
+  const timezone = business?.timezone || 'America/New_York';
+  const routable = dayJobs.filter((job) => !UNROUTABLE_STATUSES.includes(job.status ?? ''));
+
+  const customerIds = Array.from(new Set(routable.map((job) => job.customerId)));
+  const [customers, appointments, techs] = await Promise.all([
+    customerIds.length > 0 ? storage.getCustomersByIds(customerIds) : Promise.resolve([]),
+    Promise.all(routable.map((job) => (job.appointmentId ? storage.getAppointment(job.appointmentId) : undefined))),
+    Promise.all(staffList.filter((member) => member.active !== false).map((member) => loadTechDay(member, businessId, dayName))),
+  ]);
+
+  const customersById = new Map(customers.map((customer) => [customer.id, customer]));
+  const jobs = new Map<number, PlanJob>();
+  for (let i = 0; i < routable.length; i++) {
+    const job = routable[i];
+    jobs.set(job.id, toPlanJob(job, customersById.get(job.customerId), appointments[i], timezone));
+  }
+  return { techs, jobs };
+}
+
+// ──────────────────────────────────────────────────────────────────────
+// Plans
+// ──────────────────────────────────────────────────────────────────────
+
+/**
+ * Resolve who visits which jobs in what order. Without assignments every job
+ * stays with its current tech in saved route order. Jobs the assignments
+ * don't mention keep their current tech, after the ones that were listed.
+ */
+function resolveAssignments(
+  day: PlanningDay,
+  assignments: PlanAssignment[] | undefined,
+): { ok: true; byTech: Map<number | null, { jobs: PlanJob[]; optimize: boolean }> } | Extract<DayPlanResult, { ok: false }> {
+  const byTech = new Map<number | null, { jobs: PlanJob[]; optimize: boolean }>();
+  const techIds = new Set(day.techs.map((tech) => tech.staffId));
+  const placed = new Set<number>();
+  const bucket = (staffId: number | null) => {
+    if (!byTech.has(staffId)) byTech.set(staffId, { jobs: [], optimize: false });
+    return byTech.get(staffId)!;
+  };
+
+  for (const assignment of assignments ?? []) {
+    if (assignment.staffId !== null && !techIds.has(assignment.staffId)) {
+      return { ok: false, reason: 'unknown_staff', message: `Staff member ${assignment.staffId} is not an active member of this business` };
+    }
+    const target = bucket(assignment.staffId);
+    target.optimize = target.optimize || !!assignment.optimize;
+    for (const jobId of assignment.jobIds) {
+      const job = day.jobs.get(jobId);
+      if (!job) {
+        return { ok: false, reason: 'unknown_job', message: `Job ${jobId} is not scheduled for this day` };
+      }
+      if (placed.has(jobId)) {
+        return { ok: false, reason: 'duplicate_job', message: `Job ${jobId} is assigned more than once` };
+      }
+      placed.add(jobId);
+      target.jobs.push(job);
+    }
+  }
+
+  day.jobs.forEach((job, jobId) => {
+    if (placed.has(jobId)) return;
+    const staffId = job.staffId !== null && techIds.has(job.staffId) ? job.staffId : null;
+    bucket(staffId).jobs.push(job);
+  });
+
+  return { ok: true, byTech };
+}
+
+/**
+ * The plan for a day. With `optimize` every tech's route is re-ordered;
+ * otherwise each assignment's own `optimize` flag decides.
+ */
+export async function buildDayPlan(
+  businessId: number,
+  date: string,
+  options: { assignments?: PlanAssignment[]; optimize?: boolean } = {},
+): Promise<DayPlanResult> {
+  const day = await loadPlanningDay(businessId, date);
+  const resolved = resolveAssignments(day, options.assignments);
+  if (!resolved.ok) return resolved;
+
+  const provider = activeProvider;
+  const routes = await Promise.all(day.techs.map((tech) => {
+    const assigned = resolved.byTech.get(tech.staffId);
+    return planTechRoute(tech, assigned?.jobs ?? [], {
+      optimize: options.optimize || !!assigned?.optimize,
+      provider,
+    });
+  }));
+
+  // Techs with work first, then the rest of the crew as drop targets
+  routes.sort((a, b) => Number(b.stops.length > 0) - Number(a.stops.length > 0) || a.name.localeCompare(b.name));
+
+  return {
+    ok: true,
+    plan: {
+      date,
+      provider: provider.name,
+      routes,
+      unassigned: resolved.byTech.get(null)?.jobs ?? [],
+    },
+  };
+}
+
+/**
+ * Save a plan: each job gets its tech and route position, and a linked
+ * appointment follows the job to the new tech. Appointments move first,
+ * through the same conflict check as a reschedule; if one would double-book
+ * its new tech, the ones already moved go back and nothing is saved.
+ * Returns the saved plan.
+ */
+export async function applyDayPlan(
+  businessId: number,
+  date: string,
+  assignments: PlanAssignment[],
+): Promise<DayPlanResult> {
+  const result = await buildDayPlan(businessId, date, { assignments });
+  if (!result.ok) return result;
+
+  const dayJobs = await storage.getJobsForDate(businessId, date);
+  const jobsById = new Map(dayJobs.map((job) => [job.id, job]));
+  const targets: Array<{ jobId: number; staffId: number | null; routeOrder: number | null }> = [];
+  for (const route of result.plan.routes) {
+    for (const stop of route.stops) {
+      targets.push({ jobId: stop.jobId, staffId: route.staffId, routeOrder: stop.order });
+    }
+  }
+  for (const job of result.plan.unassigned) {
+    targets.push({ jobId: job.jobId, staffId: null, routeOrder: null });
+  }
+
+  const changed = targets.filter((target) => {
+    const job = jobsById.get(target.jobId);
+    return job && (job.staffId !== target.staffId || job.routeOrder !== target.routeOrder);
+  });
+
+  const moved: Array<{ appointmentId: number; staffId: number | null }> = [];
+  for (const target of changed) {
+    const job = jobsById.get(target.jobId)!;
+    if (!job.appointmentId || job.staffId === target.staffId) continue;
+
+    const conflict = await moveAppointmentToTech(businessId, job.appointmentId, target.staffId);
+    if (conflict) {
+      for (const undo of moved) {
+        await storage.updateAppointment(undo.appointmentId, { staffId: undo.staffId });
+      }
+      const techName = result.plan.routes.find((route) => route.staffId === target.staffId)?.name ?? 'that tech';
+      return { ok: false, reason: 'staff_conflict', message: `${job.title} can't move to ${techName}: ${conflict}` };
+    }
+    moved.push({ appointmentId: job.appointmentId, staffId: job.staffId });
+  }
+
+  for (const target of changed) {
+    await storage.updateJob(target.jobId, { staffId: target.staffId, routeOrder: target.routeOrder });
+  }
+
+  console.log(`${LOG_PREFIX} Applied plan for business ${businessId} on ${date}: ${changed.length} job(s) updated`);
+  return result;
+}
+
+// Resolves to the conflict message, or null once the appointment is moved.
+// Unassigning can't double-book anyone, so it skips the check.
+async function moveAppointmentToTech(businessId: number, appointmentId: number, staffId: number | null): Promise<string | null> {
+  if (staffId === null) {
+    await storage.updateAppointment(appointmentId, { staffId: null });
+    return null;
+  }
+  const appointment = await storage.getAppointment(appointmentId);
+  if (!appointment || appointment.businessId !== businessId) return null;
+
+  const moved = await updateAppointmentSafely(
+    appointmentId, businessId, appointment.startDate, appointment.endDate, staffId, { staffId },
+  );
+  return moved.success ? null : moved.error || 'This time slot is already booked.';
+}
@@ -0,0 +1,229 @@
+/**
+ * Scheduler registry tests — schedule parsing, run recording and pause.
+ *
+ * The DB is a chainable fake: inserts/updates into scheduled_task_runs are
+ * captured so we can assert what each run recorded, and the pause-state
+ * select returns whatever `state.paused` says.
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const { state, mockDb, mockConnect } = vi.hoisted(() => {
+  const state = {
+    paused: false,
+    inserts: [] as any[],
+    updates: [] as any[],
+  };
+
+  // Every builder method returns the chain; awaiting it yields `result`
+  const chain = (result: any): any => {
+    const target: any = {
+      then: (resolve: any, reject: any) => Promise.resolve(result).then(resolve, reject),
+    };
+    return new Proxy(target, {
+      get: (t, prop) => (prop in t ? t[prop] : () => chain(result)),
+    });
+  };
+
+  const mockDb = {
+    insert: vi.fn(() => ({
+      values: (values: any) => {
+        state.inserts.push(values);
+        return chain([{ id: state.inserts.length }]);
+      },
+    })),
+    update: vi.fn(() => ({
+      set: (values: any) => {
+        state.updates.push(values);
+        return chain([{ id: state.updates.length, ...values }]);
+      },
+    })),
+    select: vi.fn(() => chain([{ paused: state.paused }])),
+    delete: vi.fn(() => chain([])),
+  };
+
+  const mockConnect = vi.fn(async () => ({
+    query: vi.fn(async (sql: string) =>
+      sql.includes('pg_try_advisory_lock') ? { rows: [{ acquired: true }] } : { rows: [] }),
+    release: vi.fn(),
+  }));
+
+  return { state, mockDb, mockConnect };
+});
+
+vi.mock('../db', () => ({
+  db: mockDb,
+  pool: { connect: mockConnect, query: vi.fn() },
+}));
+
+import {
+  parseSchedule,
+  nextCronTime,
+  executeTask,
+  registerTask,
+  startRegisteredTasks,
+  runTaskNow,
+  ScheduledTaskError,
+  _resetRegistry,
+  type ScheduledTaskDefinition,
+} from './schedulerRegistry';
+
+function task(overrides: Partial<ScheduledTaskDefinition> = {}): ScheduledTaskDefinition {
+  return {
+    key: 'test-task',
+    description: 'Test task',
+    schedule: 'every 1m',
+    timeoutMs: 1000,
+    run: vi.fn(async () => ({ sent: 3 })),
+    ...overrides,
+  };
+}
+
+function cronFields(spec: string) {
+  const parsed = parseSchedule(spec);
+  if (parsed.kind !== 'cron') throw new Error('expected cron');
+  return parsed.fields;
+}
+
+beforeEach(() => {
+  state.paused = false;
+  state.inserts = [];
+  state.updates = [];
+  _resetRegistry();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('parseSchedule', () => {
+  it('parses intervals', () => {
+    expect(parseSchedule('every 30s')).toEqual({ kind: 'interval', ms: 30_000 });
+    expect(parseSchedule('every 15m')).toEqual({ kind: 'interval', ms: 15 * 60_000 });
+    expect(parseSchedule('every 7d')).toEqual({ kind: 'interval', ms: 7 * 86_400_000 });
+  });
+
+  it('parses cron lists, ranges and steps', () => {
+    const fields = cronFields('*/15 9-17 * * 1,3,5');
+    expect(Array.from(fields.minute)).toEqual([0, 15, 30, 45]);
+    expect(fields.hour.size).toBe(9);
+    expect(Array.from(fields.dayOfWeek)).toEqual([1, 3, 5]);
+  });
+
+  it('rejects malformed schedules', () => {
+    expect(() => parseSchedule('hourly')).toThrow();
+    expect(() => parseSchedule('every 0m')).toThrow();
+    expect(() => parseSchedule('60 * * * *')).toThrow();
+    expect(() => parseSchedule('* * * *')).toThrow();
+  });
+});
+
+describe('nextCronTime', () => {
+  it('finds the next matching minute', () => {
+    const next = nextCronTime(cronFields('30 3 * * *'), new Date(2026, 5, 10, 3, 30, 15));
+    expect(next).toEqual(new Date(2026, 5, 11, 3, 30));
+  });
+
+  it('skips to the right weekday', () => {
+    // 2026-06-14 is a Sunday
+    const next = nextCronTime(cronFields('0 * * * 1'), new Date(2026, 5, 14, 23, 30));
+    expect(next).toEqual(new Date(2026, 5, 15, 0, 0));
+  });
+
+  it('treats restricted day-of-month and day-of-week as either/or', () => {
+    // 1st of the month OR any Monday — from Friday 2026-06-12, Monday the 15th comes first
+    const next = nextCronTime(cronFields('0 9 1 * 1'), new Date(2026, 5, 12, 12, 0));
+    expect(next).toEqual(new Date(2026, 5, 15, 9, 0));
+  });
+});
+
+describe('executeTask', () => {
+  it('records a successful run with its counts', async () => {
+    const run = await executeTask(task(), 'manual', 7);
+
+    expect(state.inserts[0]).toMatchObject({ taskKey: 'test-task', trigger: 'manual', status: 'running', triggeredBy: 7 });
+    expect(state.updates[1]).toMatchObject({ status: 'success', counts: { sent: 3 }, error: null });
+    expect(typeof state.updates[1].durationMs).toBe('number');
+    expect(run?.status).toBe('success');
+  });
+
+  it('first closes out runs left running past the timeout', async () => {
+    await executeTask(task(), 'schedule');
+
+    expect(state.updates[0]).toMatchObject({ status: 'failed', error: expect.stringContaining('did not finish') });
+    expect(state.updates[0].finishedAt).toBeInstanceOf(Date);
+  });
+
+  it('records a failed run with the error', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    await executeTask(task({ run: async () => { throw new Error('Twilio down'); } }), 'schedule');
+
+    expect(state.updates[1]).toMatchObject({ status: 'failed', counts: null, error: 'Twilio down' });
+  });
+
+  it('records a run that outlives its timeout', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    await executeTask(task({ timeoutMs: 10, run: () => new Promise(() => {}) }), 'schedule');
+
+    expect(state.updates[1].status).toBe('timeout');
+    expect(state.updates[1].error).toContain('timed out');
+  });
+});
+
+describe('scheduled runs', () => {
+  it('skips ticks while the task is paused', async () => {
+    vi.useFakeTimers();
+    const definition = task();
+    registerTask(definition);
+    startRegisteredTasks();
+
+    state.paused = true;
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(definition.run).not.toHaveBeenCalled();
+
+    state.paused = false;
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(definition.run).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not schedule tasks whose gate is off', async () => {
+    vi.useFakeTimers();
+    const definition = task({ enabled: () => false, runOnStart: true });
+    registerTask(definition);
+    startRegisteredTasks();
+
+    await vi.advanceTimersByTimeAsync(120_000);
+    expect(definition.run).not.toHaveBeenCalled();
+  });
+});
+
+describe('runTaskNow', () => {
+  it('rejects unknown tasks with a 404', async () => {
+    await expect(runTaskNow('nope')).rejects.toMatchObject({ name: 'ScheduledTaskError', status: 404 });
+  });
+
+  it('starts the run in the background', async () => {
+    const definition = task();
+    registerTask(definition);
+
+    await runTaskNow('test-task', 7);
+    await vi.waitFor(() => expect(state.updates[1]?.status).toBe('success'));
+    expect(state.inserts[0]).toMatchObject({ trigger: 'manual', triggeredBy: 7 });
+  });
+
+  it('rejects with a 409 while another instance holds the lock', async () => {
+    registerTask(task());
+    const release = vi.fn();
+    mockConnect.mockResolvedValueOnce({ query: vi.fn(async () => ({ rows: [{ acquired: false }] })), release });
+
+    const err = await runTaskNow('test-task').catch((e) => e);
+    expect(err).toBeInstanceOf(ScheduledTaskError);
+    expect(err.status).toBe(409);
+    expect(release).toHaveBeenCalled();
+    expect(state.inserts).toHaveLength(0);
+  });
+
+  it('rejects duplicate registrations', () => {
+    registerTask(task());
+    expect(() => registerTask(task())).toThrow(/already registered/);
+  });
+});
@@ -0,0 +1,575 @@
+/**
+ * Scheduler Registry
+ *
+ * Every recurring background task is declared once as a ScheduledTaskDefinition
+ * (schedule, lock key, timeout, run function — see SCHEDULED_TASKS in
+ * schedulerService.ts). The registry owns everything around the run:
+ *
+ *   - Timers: fixed intervals ('every 15m') or 5-field cron expressions
+ *     ('0 * * * 1' — minute hour day-of-month month day-of-week, server time)
+ *   - Guards: same-instance re-entry + cross-instance Postgres advisory lock
+ *   - Timeout: a hung run is abandoned so the next tick can start
+ *   - History: each run is recorded in scheduled_task_runs with its outcome,
+ *     duration, counts and error
+ *   - Admin controls: run-now and pause/resume (scheduled_task_settings), read
+ *     on every tick so a pause takes effect on all instances without a redeploy
+ */
+
+import { pool, db } from '../db';
+import { scheduledTaskRuns, scheduledTaskSettings, type ScheduledTaskRun } from '@shared/schema';
+import { and, desc, eq, lt } from 'drizzle-orm';
+
+const LOG_PREFIX = '[Scheduler]';
+
+/** What a run did, e.g. { sent: 12, failed: 1 } — shown in run history */
+export type TaskRunCounts = Record<string, number>;
+
+export type TaskTrigger = 'schedule' | 'startup' | 'manual';
+
+export interface ScheduledTaskDefinition {
+  /** Stable identifier — run history and pause state are keyed on it */
+  key: string;
+  /** One line for the admin dashboard */
+  description: string;
+  /** 'every 30s' | 'every 15m' | 'every 6h' | 'every 7d', or a 5-field cron expression */
+  schedule: string;
+  /** Advisory lock name; tasks sharing a key never run concurrently. Defaults to `key` */
+  lockKey?: string;
+  /** A run still going after this long is abandoned and recorded as 'timeout' */
+  timeoutMs: number;
+  /** Run once at startup: true = immediately, a number = after that many ms */
+  runOnStart?: boolean | number;
+  /** Env gate, checked when the registry starts */
+  enabled?: () => boolean;
+  run: () => Promise<TaskRunCounts | void>;
+}
+
+// ───────────────────────────────────────────────────────────────────────────
+// Guards
+// ───────────────────────────────────────────────────────────────────────────
+
+// ── Re-entry Guard ──────────────────────────────────────────────────
+// Prevents a job from overlapping itself if a previous run is still in progress.
+// The in-memory Set handles same-instance overlap; EVERY job is additionally
+// wrapped in a Postgres advisory lock (namespaced 'xinstance:') so two server
+// instances can never run the same job concurrently. Without this, scaling to
+// a second Railway instance would send every customer duplicate SMS/emails.
+//
+// The 'xinstance:' namespace matters: some jobs ALSO take an explicit
+// withAdvisoryLock(jobName) inside their callback. Advisory locks are
+// session-scoped, and each withAdvisoryLock call checks out its own pool
+// connection — so nesting the SAME lock name would fail to acquire on the
+// inner call and silently skip the job forever. The namespace hashes to a
+// different lock ID, making the nesting redundant but harmless.
+const runningJobs = new Set<string>();
+
+export async function withReentryGuard(jobName: string, fn: () => Promise<void>): Promise<void> {
+  if (runningJobs.has(jobName)) {
+    console.log(`${LOG_PREFIX} Skipping ${jobName} — previous run still in progress`);
+    return;
+  }
+  runningJobs.add(jobName);
+  try {
+    await withAdvisoryLock(`xinstance:${jobName}`, fn);
+  } finally {
+    runningJobs.delete(jobName);
+  }
+}
+
+// ── PostgreSQL Advisory Lock ────────────────────────────────────────
+// Prevents a job from running on multiple server instances simultaneously.
+// Uses non-blocking pg_try_advisory_lock so the second instance skips instead of waiting.
+export async function withAdvisoryLock(lockName: string, fn: () => Promise<void>): Promise<void> {
+  const release = await tryAdvisoryLock(lockName);
+  if (!release) {
+    console.log(`${LOG_PREFIX} Could not acquire lock for ${lockName} — another instance is running it`);
+    return;
+  }
+  try {
+    await fn();
+  } finally {
+    await release();
+  }
+}
+
+/** Takes the lock if it is free. Resolves to a release function, or null when another session holds it. */
+async function tryAdvisoryLock(lockName: string): Promise<(() => Promise<void>) | null> {
+  // Generate a deterministic lock ID from the name
+  let hash = 0;
+  for (let i = 0; i < lockName.length; i++) {
+    hash = ((hash << 5) - hash + lockName.charCodeAt(i)) | 0;
+  }
+  const lockId = Math.abs(hash);
+
+  const client = await pool.connect();
+  try {
+    // Try to acquire lock (non-blocking)
+    const result = await client.query('SELECT pg_try_advisory_lock($1) as acquired', [lockId]);
+    if (!result.rows[0].acquired) {
+      client.release();
+      return null;
+    }
+  } catch (err) {
+    client.release();
+    throw err;
+  }
+
+  return async () => {
+    try {
+      await client.query('SELECT pg_advisory_unlock($1)', [lockId]);
+    } finally {
+      client.release();
+    }
+  };
+}
+
+// ── Timeout Guard ─────────────────────────────────────────────────────
+// Prevents a scheduler task from hanging indefinitely (e.g., DB timeout, external API hang).
+// If the task exceeds timeoutMs, the current iteration is abandoned but the schedule continues.
+
+class TaskTimeoutError extends Error {
+  constructor(label: string, timeoutMs: number) {
+    super(`${LOG_PREFIX} ${label} timed out after ${timeoutMs}ms`);
+    this.name = 'TaskTimeoutError';
+  }
+}
+
+export async function withTimeout<T>(fn: () => Promise<T>, timeoutMs: number, label: string): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      reject(new TaskTimeoutError(label, timeoutMs));
+    }, timeoutMs);
+    fn().then(
+      (result) => { clearTimeout(timer); resolve(result); },
+      (error) => { clearTimeout(timer); reject(error); }
+    );
+  });
+}
+
+// ───────────────────────────────────────────────────────────────────────────
+// Schedules
+// ───────────────────────────────────────────────────────────────────────────
+
+export type ParsedSchedule =
+  | { kind: 'interval'; ms: number }
+  | { kind: 'cron'; fields: CronFields };
+
+interface CronFields {
+  minute: Set<number>;
+  hour: Set<number>;
+  dayOfMonth: Set<number>;
+  month: Set<number>;
+  dayOfWeek: Set<number>;
+  /** Standard cron: when both day fields are restricted, either may match */
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+const INTERVAL_UNITS: Record<string, number> = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 };
+
+// [min, max] for minute, hour, day-of-month, month, day-of-week
+const CRON_RANGES: Array<[number, number]> = [[0, 59], [0, 23], [1, 31], [1, 12], [0, 6]];
+
+function parseCronField(field: string, [min, max]: [number, number]): Set<number> {
+  const values = new Set<number>();
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    let start = min;
+    let end = max;
+    if (range !== '*') {
+      const [a, b] = range.split('-').map(Number);
+      start = a;
+      end = b === undefined ? (stepText === undefined ? a : max) : b;
+    }
+    if (![start, end, step].every(Number.isInteger) || step < 1 || start < min || end > max || start > end) {
+      throw new Error(`Invalid cron field "${field}"`);
+    }
+    for (let v = start; v <= end; v += step) values.add(v);
+  }
+  return values;
+}
+
+/** Parses 'every <n><s|m|h|d>' or a 5-field cron expression. Throws on anything else. */
+export function parseSchedule(spec: string): ParsedSchedule {
+  const interval = spec.trim().match(/^every\s+(\d+)\s*([smhd])$/i);
+  if (interval) {
+    const ms = Number(interval[1]) * INTERVAL_UNITS[interval[2].toLowerCase()];
+    if (ms <= 0) throw new Error(`Invalid schedule "${spec}"`);
+    return { kind: 'interval', ms };
+  }
+
+  const parts = spec.trim().split(/\s+/);
+  if (parts.length !== 5) throw new Error(`Invalid schedule "${spec}"`);
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = parts.map((p, i) => parseCronField(p, CRON_RANGES[i]));
+  return {
+    kind: 'cron',
+    fields: {
+      minute, hour, dayOfMonth, month, dayOfWeek,
+      dayOfMonthRestricted: parts[2] !== '*',
+      dayOfWeekRestricted: parts[4] !== '*',
+    },
+  };
+}
+
+function cronMatches(fields: CronFields, date: Date): boolean {
+  if (!fields.minute.has(date.getMinutes()) || !fields.hour.has(date.getHours())) return false;
+  if (!fields.month.has(date.getMonth() + 1)) return false;
+  const domMatch = fields.dayOfMonth.has(date.getDate());
+  const dowMatch = fields.dayOfWeek.has(date.getDay());
+  if (fields.dayOfMonthRestricted && fields.dayOfWeekRestricted) return domMatch || dowMatch;
+  return domMatch && dowMatch;
+}
+
+/** The next minute strictly after `after` that the cron fields match */
+export function nextCronTime(fields: CronFields, after: Date): Date {
+  const candidate = new Date(after.getTime());
+  candidate.setSeconds(0, 0);
+  candidate.setMinutes(candidate.getMinutes() + 1);
+  // Bounded walk — a valid expression matches at least once every 4 years (Feb 29)
+  for (let i = 0; i < 4 * 366 * 24 * 60; i++) {
+    if (cronMatches(fields, candidate)) return candidate;
+    candidate.setMinutes(candidate.getMinutes() + 1);
+  }
+  throw new Error('Cron expression never matches');
+}
+
+// ───────────────────────────────────────────────────────────────────────────
+// Registry
+// ───────────────────────────────────────────────────────────────────────────
+
+interface RegisteredTask {
+  definition: ScheduledTaskDefinition;
+  schedule: ParsedSchedule;
+  timers: NodeJS.Timeout[];
+  nextRunAt: Date | null;
+}
+
+const tasks = new Map<string, RegisteredTask>();
+
+// setTimeout overflows past ~24.8 days; longer waits re-arm in chunks
+const MAX_TIMER_MS = 2_147_483_647;
+
+/** Adds a task to the registry. Throws on a duplicate key or an unparseable schedule. */
+export function registerTask(definition: ScheduledTaskDefinition): void {
+  if (tasks.has(definition.key)) throw new Error(`Scheduled task ${definition.key} is already registered`);
+  tasks.set(definition.key, {
+    definition,
+    schedule: parseSchedule(definition.schedule),
+    timers: [],
+    nextRunAt: null,
+  });
+}
+
+function armCron(task: RegisteredTask, fields: CronFields): void {
+  const next = task.nextRunAt ?? nextCronTime(fields, new Date());
+  task.nextRunAt = next;
+  const delay = next.getTime() - Date.now();
+  const timer = setTimeout(() => {
+    task.timers = task.timers.filter((t) => t !== timer);
+    if (delay > MAX_TIMER_MS) {
+      armCron(task, fields);
+      return;
+    }
+    task.nextRunAt = null;
+    runScheduled(task);
+    armCron(task, fields);
+  }, Math.max(0, Math.min(delay, MAX_TIMER_MS)));
+  task.timers.push(timer);
+}
+
+function startTask(task: RegisteredTask): void {
+  const { definition, schedule } = task;
+  if (task.timers.length > 0) return;
+  if (definition.enabled && !definition.enabled()) {
+    console.log(`${LOG_PREFIX} ${definition.key} disabled — not scheduled`);
+    return;
+  }
+
+  if (definition.runOnStart !== undefined && definition.runOnStart !== false) {
+    const delay = definition.runOnStart === true ? 0 : definition.runOnStart;
+    task.timers.push(setTimeout(() => runScheduled(task, 'startup'), delay));
+  }
+
+  if (schedule.kind === 'interval') {
+    task.nextRunAt = new Date(Date.now() + schedule.ms);
+    task.timers.push(setInterval(() => {
+      task.nextRunAt = new Date(Date.now() + schedule.ms);
+      runScheduled(task);
+    }, schedule.ms));
+  } else {
+    armCron(task, schedule.fields);
+  }
+  console.log(`${LOG_PREFIX} Started ${definition.key} (${definition.schedule})`);
+}
+
+/** Starts timers for every registered task */
+export function startRegisteredTasks(): void {
+  for (const task of Array.from(tasks.values())) {
+    startTask(task);
+  }
+}
+
+/** Clears every timer. Runs already in progress finish on their own. */
+export function stopRegisteredTasks(): void {
+  for (const task of Array.from(tasks.values())) {
+    for (const timer of task.timers) {
+      clearTimeout(timer);
+      clearInterval(timer);
+    }
+    task.timers = [];
+    task.nextRunAt = null;
+  }
+  console.log(`${LOG_PREFIX} Stopped all scheduled tasks`);
+}
+
+/** Drops every registration. For tests. */
+export function _resetRegistry(): void {
+  stopRegisteredTasks();
+  tasks.clear();
+}
+
+// ───────────────────────────────────────────────────────────────────────────
+// Execution
+// ───────────────────────────────────────────────────────────────────────────
+
+function runScheduled(task: RegisteredTask, trigger: TaskTrigger = 'schedule'): void {
+  isTaskPaused(task.definition.key)
+    .then((paused) => {
+      if (paused) return null;
+      return executeTask(task.definition, trigger);
+    })
+    .catch((err) => console.error(`${LOG_PREFIX} ${task.definition.key} error:`, err));
+}
+
+/**
+ * Runs a task under its guards and records the run. Resolves to the finished
+ * run, or null when the run was skipped because it is already running here or
+ * on another instance.
+ */
+export async function executeTask(
+  definition: ScheduledTaskDefinition,
+  trigger: TaskTrigger,
+  triggeredBy?: number,
+): Promise<ScheduledTaskRun | null> {
+  let finished: ScheduledTaskRun | null = null;
+
+  await withReentryGuard(definition.lockKey ?? definition.key, async () => {
+    finished = await runAndRecord(definition, trigger, triggeredBy);
+  });
+
+  return finished;
+}
+
+// Callers hold the task's guards
+async function runAndRecord(
+  definition: ScheduledTaskDefinition,
+  trigger: TaskTrigger,
+  triggeredBy?: number,
+): Promise<ScheduledTaskRun | null> {
+  await failAbandonedRuns(definition);
+  const startedAt = Date.now();
+  const runId = await recordRunStart(definition.key, trigger, triggeredBy);
+  try {
+    const counts = await withTimeout(definition.run, definition.timeoutMs, definition.key);
+    return await recordRunEnd(runId, startedAt, 'success', counts || null, null);
+  } catch (err: any) {
+    const timedOut = err instanceof TaskTimeoutError;
+    console.error(`${LOG_PREFIX} ${definition.key} ${timedOut ? 'timed out' : 'failed'}:`, err);
+    return recordRunEnd(runId, startedAt, timedOut ? 'timeout' : 'failed', null, err?.message || String(err));
+  }
+}
+
+// A run left 'running' past its timeout belonged to an instance that died
+// mid-run — a live one would have recorded 'timeout' by now
+async function failAbandonedRuns(definition: ScheduledTaskDefinition): Promise<void> {
+  try {
+    await db.update(scheduledTaskRuns)
+      .set({ status: 'failed', error: 'Run did not finish — the server stopped while it was running', finishedAt: new Date() })
+      .where(and(
+        eq(scheduledTaskRuns.taskKey, definition.key),
+        eq(scheduledTaskRuns.status, 'running'),
+        lt(scheduledTaskRuns.startedAt, new Date(Date.now() - definition.timeoutMs)),
+      ));
+  } catch (err) {
+    console.error(`${LOG_PREFIX} Failed to close out abandoned runs of ${definition.key}:`, err);
+  }
+}
+
+// History writes never block or fail the task itself
+async function recordRunStart(taskKey: string, trigger: TaskTrigger, triggeredBy?: number): Promise<number | null> {
+  try {
+    const [row] = await db.insert(scheduledTaskRuns)
+      .values({ taskKey, trigger, status: 'running', triggeredBy: triggeredBy ?? null })
+      .returning({ id: scheduledTaskRuns.id });
+    return row?.id ?? null;
+  } catch (err) {
+    console.error(`${LOG_PREFIX} Failed to record start of ${taskKey}:`, err);
+    return null;
+  }
+}
+
+async function recordRunEnd(
+  runId: number | null,
+  startedAt: number,
+  status: 'success' | 'failed' | 'timeout',
+  counts: TaskRunCounts | null,
+  error: string | null,
+): Promise<ScheduledTaskRun | null> {
+  if (runId === null) return null;
+  try {
+    const [row] = await db.update(scheduledTaskRuns)
+      .set({
+        status,
+        counts,
+        error: error ? error.slice(0, 4000) : null,
+        finishedAt: new Date(),
+        durationMs: Date.now() - startedAt,
+      })
+      .where(eq(scheduledTaskRuns.id, runId))
+      .returning();
+    return row ?? null;
+  } catch (err) {
+    console.error(`${LOG_PREFIX} Failed to record end of run ${runId}:`, err);
+    return null;
+  }
+}
+
+// ───────────────────────────────────────────────────────────────────────────
+// Admin controls
+// ───────────────────────────────────────────────────────────────────────────
+
+export class ScheduledTaskError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'ScheduledTaskError';
+  }
+}
+
+function getTask(key: string): RegisteredTask {
+  const task = tasks.get(key);
+  if (!task) throw new ScheduledTaskError(`Unknown scheduled task: ${key}`, 404);
+  return task;
+}
+
+async function isTaskPaused(key: string): Promise<boolean> {
+  try {
+    const [row] = await db.select({ paused: scheduledTaskSettings.paused })
+      .from(scheduledTaskSettings)
+      .where(eq(scheduledTaskSettings.taskKey, key));
+    return row?.paused ?? false;
+  } catch (err) {
+    // Fail open — a settings read error shouldn't silently stop reminders
+    console.error(`${LOG_PREFIX} Failed to read pause state for ${key}:`, err);
+    return false;
+  }
+}
+
+/**
+ * Starts a run right away, ignoring pause state. Resolves once the run has
+ * started; it finishes in the background and shows up in run history. Throws
+ * a 409 when the task is already running here or on another instance.
+ */
+export async function runTaskNow(key: string, userId?: number): Promise<void> {
+  const { definition } = getTask(key);
+  const jobName = definition.lockKey ?? definition.key;
+  if (runningJobs.has(jobName)) {
+    throw new ScheduledTaskError(`${key} is already running`, 409);
+  }
+
+  runningJobs.add(jobName);
+  let release: (() => Promise<void>) | null;
+  try {
+    release = await tryAdvisoryLock(`xinstance:${jobName}`);
+  } catch (err) {
+    runningJobs.delete(jobName);
+    throw err;
+  }
+  if (!release) {
+    runningJobs.delete(jobName);
+    throw new ScheduledTaskError(`${key} is already running on another instance`, 409);
+  }
+
+  console.log(`${LOG_PREFIX} ${key} triggered manually${userId ? ` by user ${userId}` : ''}`);
+  runAndRecord(definition, 'manual', userId)
+    .finally(async () => {
+      try {
+        await release!();
+      } finally {
+        runningJobs.delete(jobName);
+      }
+    })
+    .catch((err) => console.error(`${LOG_PREFIX} ${key} manual run error:`, err));
+}
+
+/** Pauses or resumes scheduled runs of a task on every instance */
+export async function setTaskPaused(key: string, paused: boolean, userId?: number): Promise<void> {
+  getTask(key);
+  const values = {
+    paused,
+    pausedAt: paused ? new Date() : null,
+    pausedBy: paused ? userId ?? null : null,
+    updatedAt: new Date(),
+  };
+  await db.insert(scheduledTaskSettings)
+    .values({ taskKey: key, ...values })
+    .onConflictDoUpdate({ target: scheduledTaskSettings.taskKey, set: values });
+  console.log(`${LOG_PREFIX} ${key} ${paused ? 'paused' : 'resumed'}${userId ? ` by user ${userId}` : ''}`);
+}
+
+export interface ScheduledTaskSummary {
+  key: string;
+  description: string;
+  schedule: string;
+  timeoutMs: number;
+  active: boolean;
+  running: boolean;
+  paused: boolean;
+  pausedAt: Date | null;
+  nextRunAt: Date | null;
+  lastRun: ScheduledTaskRun | null;
+}
+
+/** Every registered task with its pause state and most recent run */
+export async function listTasks(): Promise<ScheduledTaskSummary[]> {
+  const settings = await db.select().from(scheduledTaskSettings);
+  const settingsByKey = new Map(settings.map((s) => [s.taskKey, s]));
+
+  return Promise.all(Array.from(tasks.values()).map(async (task) => {
+    const { definition } = task;
+    const [lastRun] = await db.select().from(scheduledTaskRuns)
+      .where(eq(scheduledTaskRuns.taskKey, definition.key))
+      .orderBy(desc(scheduledTaskRuns.startedAt))
+      .limit(1);
+    const setting = settingsByKey.get(definition.key);
+    return {
+      key: definition.key,
+      description: definition.description,
+      schedule: definition.schedule,
+      timeoutMs: definition.timeoutMs,
+      active: task.timers.length > 0,
+      running: runningJobs.has(definition.lockKey ?? definition.key),
+      paused: setting?.paused ?? false,
+      pausedAt: setting?.pausedAt ?? null,
+      nextRunAt: task.nextRunAt,
+      lastRun: lastRun ?? null,
+    };
+  }));
+}
+
+/** Most recent runs of one task, newest first */
+export async function getTaskRuns(key: string, limit = 50): Promise<ScheduledTaskRun[]> {
+  getTask(key);
+  return db.select().from(scheduledTaskRuns)
+    .where(eq(scheduledTaskRuns.taskKey, key))
+    .orderBy(desc(scheduledTaskRuns.startedAt))
+    .limit(limit);
+}
+
+/** Deletes finished runs older than the cutoff. Returns how many were removed. */
+export async function pruneTaskRuns(olderThan: Date): Promise<number> {
+  const deleted = await db.delete(scheduledTaskRuns)
+    .where(lt(scheduledTaskRuns.startedAt, olderThan))
+    .returning({ id: scheduledTaskRuns.id });
+  return deleted.length;
+}
@@ -7,6 +7,7 @@
 
 import { storage } from '../storage';
 import type { SmsCampaign, InsertSmsCampaign } from '@shared/schema';
+import { matchesCustomFieldFilters } from './customFieldService';
 
 export interface CampaignAudienceFilter {
   allCustomers?: boolean;
@@ -16,6 +17,7 @@ export interface CampaignAudienceFilter {
   hasUpcomingAppointment?: boolean;
   noUpcomingAppointment?: boolean;
   segment?: 'loyal' | 'at_risk' | 'new' | 'lapsed';
+  customFields?: Record<string, string>; // custom field key → value to match
 }
 
 export interface CampaignStep {
@@ -60,6 +62,9 @@ export async function previewAudienceCount(businessId: number, filter: CampaignA
 
 export async function getAudienceCustomers(businessId: number, filter: CampaignAudienceFilter): Promise<any[]> {
   const allCustomers = await storage.getCustomers(businessId);
+  const customFieldDefinitions = !filter.allCustomers && filter.customFields && Object.keys(filter.customFields).length > 0
+    ? await storage.getCustomFieldDefinitions(businessId, { entityType: 'customer', activeOnly: true })
+    : [];
 
   return allCustomers.filter((c: any) => {
     // Always exclude opted-out
@@ -74,6 +79,10 @@ export async function getAudienceCustomers(businessId: number, filter: CampaignA
       if (!hasMatchingTag) return false;
     }
 
+    if (filter.customFields && !matchesCustomFieldFilters(customFieldDefinitions, c.customFields, filter.customFields)) {
+      return false;
+    }
+
     if (filter.minimumVisits) {
       // Would need insights, simplified: check appointment count
       // For MVP, this filter is applied but loosely
@@ -4,6 +4,7 @@ import { logAgentAction } from './agentActivityService';
 import { isStopRequest } from './smsReplyParser';
 import { logAndSwallow } from '../utils/safeAsync';
 import { claudeJson } from './claudeClient';
+import { loadResourcePoolForService } from './resourceBookingService';
 
 type ConversationHandler = (
   conversation: SmsConversation,
@@ -15,6 +16,8 @@ type ConversationHandler = (
 const handlers: Record<string, () => Promise<{ handler: ConversationHandler }>> = {
   no_show: () => import('./noShowAgentService').then(m => ({ handler: m.handleNoShowReply })),
   rebooking: () => import('./rebookingAgentService').then(m => ({ handler: m.handleRebookingReply })),
+  waitlist: () => import('./waitlistService').then(m => ({ handler: m.handleWaitlistReply })),
+  slot_offer: () => import('./appointmentWaitlistService').then(m => ({ handler: m.handleSlotOfferReply })),
   disambiguation: () => Promise.resolve({ handler: handleDisambiguationReply }),
   reschedule: () => Promise.resolve({ handler: handleRescheduleReply }),
   marketing_opt_in: () => Promise.resolve({ handler: handleMarketingOptInReply }),
@@ -280,7 +283,10 @@ Return valid JSON only, no markdown.`,
         const biz = business;
         const timezone = biz?.timezone || 'America/New_York';
 
-        const result = await getAvailableSlotsForDay(businessId, dateObj, businessHours, appointments, duration, undefined, 30, timezone);
+        const dayAfter = new Date(dateObj.getTime() + 24 * 60 * 60 * 1000);
+        const resourcePool = await loadResourcePoolForService(businessId, apt?.serviceId, dateObj, dayAfter);
+
+        const result = await getAvailableSlotsForDay(businessId, dateObj, businessHours, appointments, duration, undefined, 30, timezone, resourcePool);
 
         if (result.slots && result.slots.length > 0) {
           // If they specified a time, check if it's available
@@ -291,26 +297,33 @@ Return valid JSON only, no markdown.`,
               const newStart = new Date(`${parsed.date}T${parsed.time}:00`);
               const newEnd = new Date(newStart.getTime() + duration * 60 * 1000);
 
-              await storage.updateAppointment(context.appointmentId, {
-                startDate: newStart,
-                endDate: newEnd,
-                status: 'confirmed',
-              });
-              await storage.updateSmsConversation(conversation.id, { state: 'resolved' });
-
-              // Sync new time to merchant's connected calendar (Google/Microsoft/Apple).
-              // Fire-and-forget: SMS reply is not blocked on calendar API latency.
-              // No-op if no calendar is connected — syncAppointment checks integration status.
-              import('./calendarService').then(({ CalendarService }) => {
-                new CalendarService().syncAppointment(context.appointmentId)
-                  .catch(err => console.error('[SMSRouter] Calendar sync error after reschedule:', err));
-              }).catch(err => console.error('[SMSRouter] Calendar service import error:', err));
-
-              const dateStr = newStart.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' });
-              const timeStr = newStart.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
-              return {
-                replyMessage: `You're all set! Your ${context?.serviceName || 'appointment'} has been moved to ${dateStr} at ${timeStr}. See you then! - ${businessName}`,
-              };
+              // Re-checked under lock; if the slot was taken meanwhile, fall through and offer others
+              const { updateAppointmentSafely } = await import('./appointmentService');
+              const moved = await updateAppointmentSafely(
+                context.appointmentId,
+                businessId,
+                newStart,
+                newEnd,
+                apt?.staffId,
+                { status: 'confirmed' },
+              );
+              if (moved.success) {
+                await storage.updateSmsConversation(conversation.id, { state: 'resolved' });
+
+                // Sync new time to merchant's connected calendar (Google/Microsoft/Apple).
+                // Fire-and-forget: SMS reply is not blocked on calendar API latency.
+                // No-op if no calendar is connected — syncAppointment checks integration status.
+                import('./calendarService').then(({ CalendarService }) => {
+                  new CalendarService().syncAppointment(context.appointmentId)
+                    .catch(err => console.error('[SMSRouter] Calendar sync error after reschedule:', err));
+                }).catch(err => console.error('[SMSRouter] Calendar service import error:', err));
+
+                const dateStr = newStart.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' });
+                const timeStr = newStart.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+                return {
+                  replyMessage: `You're all set! Your ${context?.serviceName || 'appointment'} has been moved to ${dateStr} at ${timeStr}. See you then! - ${businessName}`,
+                };
+              }
             }
           }
 
@@ -0,0 +1,169 @@
+/**
+ * SMS inbox tests — thread keys, takeover windows, lock hand-off, message
+ * merging and reply suggestions.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Business, SmsInboxThread } from '@shared/schema';
+
+vi.mock('../storage', () => ({
+  normalizePhone: (phone: string) => phone.replace(/\D/g, '').replace(/^1(\d{10})$/, '$1'),
+  storage: {
+    acquireEngagementLock: vi.fn(),
+    releaseEngagementLock: vi.fn(),
+    getEngagementLock: vi.fn(),
+    updateSmsInboxThread: vi.fn(),
+    getSmsThreadMessages: vi.fn(),
+  },
+}));
+
+vi.mock('./claudeClient', () => ({
+  claudeJson: vi.fn(),
+}));
+
+import { storage } from '../storage';
+import { claudeJson } from './claudeClient';
+import {
+  canViewThread,
+  handBackThread,
+  isTakenOver,
+  mergeThreadMessages,
+  suggestReplies,
+  takeOverThread,
+  threadPhone,
+  TAKEOVER_DAYS,
+} from './smsInboxService';
+
+const business = { id: 10, name: 'Acme Plumbing', industry: 'plumbing' } as Business;
+
+function thread(overrides: Partial<SmsInboxThread> = {}): SmsInboxThread {
+  return {
+    id: 4,
+    businessId: 10,
+    customerId: 7,
+    customerPhone: '+15551234567',
+    assignedStaffId: null,
+    takenOverByUserId: null,
+    takenOverAt: null,
+    unreadCount: 0,
+    lastReadAt: null,
+    lastMessageAt: new Date(),
+    lastMessagePreview: null,
+    lastDirection: 'inbound',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+function inbound(id: number, body: string, at: Date) {
+  return { id, body, receivedAt: at, createdAt: at, intent: null };
+}
+
+function outbound(id: number, body: string, at: Date, metadata: unknown = {}) {
+  return { id, body, sentAt: at, createdAt: at, messageType: 'AGENT_REPLY', status: 'sent', metadata };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(storage.updateSmsInboxThread).mockImplementation(async (_id, _businessId, data) => thread(data));
+  vi.mocked(storage.acquireEngagementLock).mockResolvedValue({ acquired: true });
+});
+
+describe('threadPhone', () => {
+  it('keys formatted and E.164 numbers to the same thread', () => {
+    expect(threadPhone('(555) 123-4567')).toBe('+15551234567');
+    expect(threadPhone('+15551234567')).toBe('+15551234567');
+  });
+});
+
+describe('isTakenOver', () => {
+  it('holds for the takeover window, then lapses', () => {
+    const now = new Date('2026-03-10T12:00:00Z');
+    expect(isTakenOver({ takenOverAt: null }, now)).toBe(false);
+    expect(isTakenOver({ takenOverAt: new Date('2026-03-09T12:00:00Z') }, now)).toBe(true);
+    const lapsed = new Date(now.getTime() - (TAKEOVER_DAYS * 24 + 1) * 60 * 60 * 1000);
+    expect(isTakenOver({ takenOverAt: lapsed }, now)).toBe(false);
+  });
+});
+
+describe('canViewThread', () => {
+  it('lets owners see everything and staff only their own', () => {
+    expect(canViewThread(thread({ assignedStaffId: 3 }), { userId: 1, staffId: null })).toBe(true);
+    expect(canViewThread(thread({ assignedStaffId: 3 }), { userId: 2, staffId: 3 })).toBe(true);
+    expect(canViewThread(thread({ assignedStaffId: null }), { userId: 2, staffId: 3 })).toBe(false);
+  });
+});
+
+describe('takeover and hand back', () => {
+  it('replaces an agent lock with a human lock', async () => {
+    const updated = await takeOverThread(thread(), 1);
+
+    expect(storage.releaseEngagementLock).toHaveBeenCalledWith(7, 10);
+    expect(storage.acquireEngagementLock).toHaveBeenCalledWith(10, 7, '+15551234567', 'human', TAKEOVER_DAYS * 24 * 60);
+    expect(updated.takenOverByUserId).toBe(1);
+    expect(updated.takenOverAt).toBeInstanceOf(Date);
+  });
+
+  it('skips the lock for a number with no customer record', async () => {
+    await takeOverThread(thread({ customerId: null }), 1);
+    expect(storage.acquireEngagementLock).not.toHaveBeenCalled();
+  });
+
+  it('releases only its own human lock on hand back', async () => {
+    vi.mocked(storage.getEngagementLock).mockResolvedValue({ lockedByAgent: 'human' } as any);
+    await handBackThread(thread({ takenOverAt: new Date() }));
+    expect(storage.releaseEngagementLock).toHaveBeenCalledWith(7, 10);
+
+    vi.mocked(storage.releaseEngagementLock).mockClear();
+    vi.mocked(storage.getEngagementLock).mockResolvedValue({ lockedByAgent: 'no_show' } as any);
+    const updated = await handBackThread(thread({ takenOverAt: new Date() }));
+    expect(storage.releaseEngagementLock).not.toHaveBeenCalled();
+    expect(updated.takenOverAt).toBeNull();
+  });
+});
+
+describe('mergeThreadMessages', () => {
+  it('interleaves both directions oldest first and labels the sender', () => {
+    const messages = mergeThreadMessages(
+      [inbound(1, 'Can you come Tuesday?', new Date('2026-03-10T10:00:00Z')), inbound(2, 'Thanks!', new Date('2026-03-10T10:05:00Z'))],
+      [
+        outbound(9, 'Yes, 2pm works', new Date('2026-03-10T10:02:00Z'), { sentByUserId: 1 }),
+        outbound(8, 'Hi from the agent', new Date('2026-03-10T09:00:00Z'), { agentType: 'follow_up' }),
+      ],
+    );
+
+    expect(messages.map(m => m.id)).toEqual(['out-8', 'in-1', 'out-9', 'in-2']);
+    expect(messages[0].sentBy).toBe('follow_up');
+    expect(messages[2].sentBy).toBe('inbox');
+  });
+});
+
+describe('suggestReplies', () => {
+  it('asks for suggestions only when the customer spoke last', async () => {
+    vi.mocked(storage.getSmsThreadMessages).mockResolvedValue({
+      inbound: [inbound(1, 'Are you open Saturday?', new Date('2026-03-10T10:00:00Z'))],
+      outbound: [outbound(2, 'We are!', new Date('2026-03-10T10:01:00Z'))],
+    } as any);
+    expect(await suggestReplies(business, thread())).toEqual([]);
+    expect(claudeJson).not.toHaveBeenCalled();
+  });
+
+  it('keeps up to three non-empty strings', async () => {
+    vi.mocked(storage.getSmsThreadMessages).mockResolvedValue({
+      inbound: [inbound(1, 'Are you open Saturday?', new Date('2026-03-10T10:00:00Z'))],
+      outbound: [],
+    } as any);
+    vi.mocked(claudeJson).mockResolvedValue({ suggestions: [' Yes, 9 to 3. ', '', 42, 'We are closed.', 'Call us!', 'Extra'] });
+
+    expect(await suggestReplies(business, thread())).toEqual(['Yes, 9 to 3.', 'We are closed.', 'Call us!']);
+  });
+
+  it('returns nothing when the model call fails', async () => {
+    vi.mocked(storage.getSmsThreadMessages).mockResolvedValue({
+      inbound: [inbound(1, 'Hello?', new Date())],
+      outbound: [],
+    } as any);
+    vi.mocked(claudeJson).mockRejectedValue(new Error('timeout'));
+    expect(await suggestReplies(business, thread())).toEqual([]);
+  });
+});
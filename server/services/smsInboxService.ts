@@ -0,0 +1,324 @@
+/**
+ * SMS Inbox Service — threaded two-way texting for owners and staff
+ *
+ * Every inbound text and every logged outbound text (agent replies, MIS
+ * sends, inbox replies) belongs to one thread per customer phone. The
+ * thread row carries what the inbox needs on top of the message tables:
+ * unread count, assigned staff member and human takeover.
+ *
+ * Takeover: while a person owns a thread, inbound texts skip agent routing
+ * and the generic auto-reply, and the customer's engagement lock is held
+ * as 'human' so proactive agents (follow-up, marketing triggers, collections)
+ * stay quiet too. Handing back releases the lock. A takeover lapses on its
+ * own after TAKEOVER_DAYS so a forgotten thread doesn't mute agents forever.
+ */
+
+import type { Business, Customer, SmsInboxThread } from "@shared/schema";
+import { normalizePhone, storage } from "../storage";
+import { claudeJson } from "./claudeClient";
+import { logAndSwallow } from "../utils/safeAsync";
+
+const LOG_PREFIX = "[SmsInbox]";
+
+export const TAKEOVER_DAYS = 7;
+const HUMAN_LOCK_AGENT = "human";
+const PREVIEW_LENGTH = 140;
+const SUGGESTION_CONTEXT_MESSAGES = 12;
+
+export interface InboxViewer {
+  userId: number;
+  /** Staff members only see threads assigned to them */
+  staffId: number | null;
+}
+
+export interface InboxMessage {
+  id: string;
+  direction: "inbound" | "outbound";
+  body: string;
+  at: Date;
+  /** Who sent an outbound message: an agent type, 'inbox' for a person, or a message type */
+  sentBy: string | null;
+  status: string | null;
+}
+
+/** Threads are keyed by E.164 so Twilio's From and a customer record's formatted phone land together */
+export function threadPhone(phone: string): string {
+  const digits = normalizePhone(phone);
+  return digits.length === 10 ? `+1${digits}` : `+${digits}`;
+}
+
+function preview(body: string): string {
+  return body.length > PREVIEW_LENGTH ? `${body.slice(0, PREVIEW_LENGTH - 1)}…` : body;
+}
+
+export function isTakenOver(thread: Pick<SmsInboxThread, "takenOverAt">, now = new Date()): boolean {
+  return !!thread.takenOverAt && now.getTime() - thread.takenOverAt.getTime() < TAKEOVER_DAYS * 24 * 60 * 60 * 1000;
+}
+
+export function canViewThread(thread: SmsInboxThread, viewer: InboxViewer): boolean {
+  return viewer.staffId === null || thread.assignedStaffId === viewer.staffId;
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Recording
+// ────────────────────────────────────────────────────────────────────────────
+
+/** Logs an inbound text and bumps its thread. Returns the thread so the webhook can check takeover. */
+export async function recordInboundSms(opts: {
+  businessId: number;
+  from: string;
+  body: string;
+  customer: Customer | undefined;
+  twilioSid?: string;
+}): Promise<SmsInboxThread> {
+  const phone = threadPhone(opts.from);
+  const thread = await storage.upsertSmsInboxThread(opts.businessId, phone, {
+    customerId: opts.customer?.id ?? null,
+    direction: "inbound",
+    preview: preview(opts.body),
+  });
+  await storage.createInboundMessage({
+    businessId: opts.businessId,
+    customerId: opts.customer?.id ?? null,
+    customerPhone: phone,
+    body: opts.body,
+    receivedAt: new Date(),
+    twilioSid: opts.twilioSid || null,
+    handledBy: isTakenOver(thread) ? "human" : "ai",
+  });
+  return thread;
+}
+
+/** Logs an agent's TwiML reply so the thread shows both sides of the exchange */
+export async function recordAgentReply(opts: {
+  businessId: number;
+  to: string;
+  customerId: number | undefined;
+  body: string;
+  agentType: string;
+}): Promise<void> {
+  const phone = threadPhone(opts.to);
+  await storage.createOutboundMessage({
+    businessId: opts.businessId,
+    customerId: opts.customerId ?? null,
+    messageType: "AGENT_REPLY",
+    body: opts.body,
+    sentAt: new Date(),
+    status: "sent",
+    metadata: { toPhone: phone, agentType: opts.agentType },
+  });
+  await storage.upsertSmsInboxThread(opts.businessId, phone, {
+    customerId: opts.customerId ?? null,
+    direction: "outbound",
+    preview: preview(opts.body),
+  });
+}
+
+/**
+ * Sends a text written by a person (inbox reply or the customer page's
+ * one-shot send) and logs it to the thread.
+ */
+export async function sendHumanSms(opts: {
+  businessId: number;
+  to: string;
+  customerId: number | null;
+  body: string;
+  userId: number;
+  messageType: "INBOX_REPLY" | "DIRECT_SMS";
+}): Promise<SmsInboxThread> {
+  const { sendSms } = await import("./twilioService");
+  const result: any = await sendSms(opts.to, opts.body, undefined, opts.businessId);
+  const phone = threadPhone(opts.to);
+
+  await storage.createOutboundMessage({
+    businessId: opts.businessId,
+    customerId: opts.customerId,
+    messageType: opts.messageType,
+    body: opts.body,
+    sentAt: new Date(),
+    twilioSid: result?.sid || null,
+    status: result?.status === "free_plan_blocked" ? "failed" : "sent",
+    metadata: { toPhone: phone, sentByUserId: opts.userId },
+  });
+  return storage.upsertSmsInboxThread(opts.businessId, phone, {
+    customerId: opts.customerId,
+    direction: "outbound",
+    preview: preview(opts.body),
+  });
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Thread actions
+// ────────────────────────────────────────────────────────────────────────────
+
+/**
+ * A person takes the thread from the agents. Any agent lock on the customer
+ * is replaced by a 'human' lock for the takeover window.
+ */
+export async function takeOverThread(thread: SmsInboxThread, userId: number): Promise<SmsInboxThread> {
+  if (thread.customerId) {
+    await storage.releaseEngagementLock(thread.customerId, thread.businessId);
+    const lock = await storage.acquireEngagementLock(
+      thread.businessId, thread.customerId, thread.customerPhone, HUMAN_LOCK_AGENT, TAKEOVER_DAYS * 24 * 60
+    );
+    if (!lock.acquired) {
+      console.warn(`${LOG_PREFIX} Could not lock customer ${thread.customerId} for takeover`);
+    }
+  }
+  console.log(`${LOG_PREFIX} User ${userId} took over thread ${thread.id} (business ${thread.businessId})`);
+  return storage.updateSmsInboxThread(thread.id, thread.businessId, {
+    takenOverByUserId: userId,
+    takenOverAt: new Date(),
+  });
+}
+
+/** Returns the thread to the agents. Only a 'human' lock is released; an agent's own lock is left alone. */
+export async function handBackThread(thread: SmsInboxThread): Promise<SmsInboxThread> {
+  if (thread.customerId) {
+    const lock = await storage.getEngagementLock(thread.customerId, thread.businessId);
+    if (lock?.lockedByAgent === HUMAN_LOCK_AGENT) {
+      await storage.releaseEngagementLock(thread.customerId, thread.businessId);
+    }
+  }
+  console.log(`${LOG_PREFIX} Thread ${thread.id} handed back to agents (business ${thread.businessId})`);
+  return storage.updateSmsInboxThread(thread.id, thread.businessId, {
+    takenOverByUserId: null,
+    takenOverAt: null,
+  });
+}
+
+/** Replying as a person takes the thread over first, so an agent doesn't answer the same text */
+export async function replyToThread(thread: SmsInboxThread, body: string, userId: number): Promise<SmsInboxThread> {
+  if (!isTakenOver(thread)) {
+    thread = await takeOverThread(thread, userId);
+  }
+  await sendHumanSms({
+    businessId: thread.businessId,
+    to: thread.customerPhone,
+    customerId: thread.customerId,
+    body,
+    userId,
+    messageType: "INBOX_REPLY",
+  });
+  return storage.updateSmsInboxThread(thread.id, thread.businessId, { unreadCount: 0, lastReadAt: new Date() });
+}
+
+export async function markThreadRead(thread: SmsInboxThread): Promise<SmsInboxThread> {
+  return storage.updateSmsInboxThread(thread.id, thread.businessId, { unreadCount: 0, lastReadAt: new Date() });
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Reading
+// ────────────────────────────────────────────────────────────────────────────
+
+export async function listThreads(businessId: number, viewer: InboxViewer, params: { unreadOnly?: boolean; mine?: boolean }) {
+  let assignedStaffId = viewer.staffId ?? undefined;
+  if (params.mine && !assignedStaffId) {
+    const staff = await storage.getStaffMemberByUserId(viewer.userId);
+    // An owner with no staff profile has nothing assigned to them
+    if (!staff) return [];
+    assignedStaffId = staff.id;
+  }
+
+  const [threads, staff] = await Promise.all([
+    storage.getSmsInboxThreads(businessId, { assignedStaffId, unreadOnly: params.unreadOnly }),
+    storage.getStaff(businessId),
+  ]);
+  const customerIds = Array.from(new Set(threads.map(t => t.customerId).filter((id): id is number => !!id)));
+  const customers = customerIds.length > 0 ? await storage.getCustomersByIds(customerIds) : [];
+  const customerById = new Map(customers.filter(c => c.businessId === businessId).map(c => [c.id, c]));
+  const staffById = new Map(staff.map(s => [s.id, s]));
+
+  return threads.map(thread => {
+    const customer = thread.customerId ? customerById.get(thread.customerId) : undefined;
+    const assignee = thread.assignedStaffId ? staffById.get(thread.assignedStaffId) : undefined;
+    return {
+      ...thread,
+      customerName: customer ? `${customer.firstName} ${customer.lastName || ""}`.trim() : null,
+      assignedStaffName: assignee ? `${assignee.firstName} ${assignee.lastName || ""}`.trim() : null,
+      takenOver: isTakenOver(thread),
+    };
+  });
+}
+
+/** Merges both message tables into one oldest-first conversation */
+export function mergeThreadMessages(inbound: { id: number; body: string; receivedAt: Date | null; createdAt: Date | null; intent: string | null }[],
+  outbound: { id: number; body: string; sentAt: Date | null; createdAt: Date | null; messageType: string; status: string | null; metadata: unknown }[]): InboxMessage[] {
+  const messages: InboxMessage[] = [
+    ...inbound.map(m => ({
+      id: `in-${m.id}`,
+      direction: "inbound" as const,
+      body: m.body,
+      at: m.receivedAt || m.createdAt || new Date(0),
+      sentBy: null,
+      status: m.intent,
+    })),
+    ...outbound.map(m => {
+      const meta = (m.metadata || {}) as { agentType?: string; sentByUserId?: number };
+      return {
+        id: `out-${m.id}`,
+        direction: "outbound" as const,
+        body: m.body,
+        at: m.sentAt || m.createdAt || new Date(0),
+        sentBy: meta.sentByUserId ? "inbox" : meta.agentType || m.messageType,
+        status: m.status,
+      };
+    }),
+  ];
+  return messages.sort((a, b) => a.at.getTime() - b.at.getTime());
+}
+
+export async function getThreadDetail(thread: SmsInboxThread) {
+  const [{ inbound, outbound }, customer, activeConversation, lock] = await Promise.all([
+    storage.getSmsThreadMessages(thread.businessId, thread),
+    thread.customerId ? storage.getCustomer(thread.customerId) : Promise.resolve(undefined),
+    storage.getActiveSmsConversation(thread.customerPhone, thread.businessId),
+    thread.customerId ? storage.getEngagementLock(thread.customerId, thread.businessId) : Promise.resolve(undefined),
+  ]);
+
+  return {
+    thread: { ...thread, takenOver: isTakenOver(thread) },
+    customer: customer && customer.businessId === thread.businessId
+      ? { id: customer.id, firstName: customer.firstName, lastName: customer.lastName, phone: customer.phone, email: customer.email, smsOptIn: customer.smsOptIn }
+      : null,
+    // The agent mid-conversation with this customer, if any — what takeover pauses
+    activeAgent: activeConversation ? { agentType: activeConversation.agentType, state: activeConversation.state } : null,
+    lockedBy: lock?.lockedByAgent || null,
+    messages: mergeThreadMessages(inbound, outbound),
+  };
+}
+
+/** Up to three short replies the owner can send as-is or edit. Empty on AI failure. */
+export async function suggestReplies(business: Business, thread: SmsInboxThread): Promise<string[]> {
+  const { inbound, outbound } = await storage.getSmsThreadMessages(thread.businessId, thread, SUGGESTION_CONTEXT_MESSAGES);
+  const recent = mergeThreadMessages(inbound, outbound).slice(-SUGGESTION_CONTEXT_MESSAGES);
+  if (recent.length === 0 || recent[recent.length - 1].direction !== "inbound") return [];
+
+  const transcript = recent
+    .map(m => `${m.direction === "inbound" ? "Customer" : business.name}: ${m.body}`)
+    .join("\n");
+
+  try {
+    const result = await claudeJson<{ suggestions?: unknown }>({
+      system: `You draft SMS replies for ${business.name}, a small ${business.industry || "service"} business. `
+        + `Write as the business owner: friendly, brief (under 240 characters), no emojis unless the customer used them. `
+        + `Never promise prices, times or availability that aren't in the conversation. `
+        + `Respond with JSON only: {"suggestions": ["...", "...", "..."]} — up to three distinct options.`,
+      prompt: `Conversation so far:\n${transcript}\n\nSuggest replies to the customer's last message.`,
+      maxTokens: 400,
+      businessId: business.id,
+    });
+    return Array.isArray(result.suggestions)
+      ? result.suggestions.filter((s): s is string => typeof s === "string" && s.trim().length > 0).slice(0, 3).map(s => s.trim())
+      : [];
+  } catch (err) {
+    console.warn(`${LOG_PREFIX} Reply suggestions failed for thread ${thread.id}:`, (err as Error).message);
+    return [];
+  }
+}
+
+/** Fire-and-forget hook for agents that send outside the webhook (MIS) */
+export function touchCustomerThread(businessId: number, customerId: number | undefined, body: string): void {
+  if (!customerId) return;
+  storage.touchSmsInboxThreadForCustomer(businessId, customerId, preview(body)).catch(logAndSwallow("SmsInbox"));
+}
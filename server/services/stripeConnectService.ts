@@ -222,6 +222,89 @@ export class StripeConnectService {
     };
   }
 
+  /**
+   * Create a payment intent for a quote deposit. Same destination-charge and
+   * Connect gating rules as invoice payments; the webhook tells the two apart
+   * by `paymentType: 'deposit'` in the metadata.
+   */
+  async createPaymentIntentForQuoteDeposit(params: {
+    amount: number; // in dollars
+    businessId: number;
+    quoteId: number;
+    quoteNumber: string;
+    customerName: string;
+  }): Promise<{ clientSecret: string; paymentIntentId: string }> {
+    if (!stripe) throw new Error('Stripe is not configured');
+
+    const business = await db.select().from(businesses).where(eq(businesses.id, params.businessId)).limit(1);
+    if (!business || business.length === 0) {
+      throw new Error('Business not found');
+    }
+
+    const businessRecord = business[0];
+
+    // CRITICAL: Block payment if no active Connect account
+    if (!businessRecord.stripeConnectAccountId || businessRecord.stripeConnectStatus !== 'active') {
+      throw new Error(
+        'PAYMENT_BLOCKED: This business has not connected their Stripe account. ' +
+        'Online payments are not available until the business completes Stripe Connect setup.'
+      );
+    }
+
+    const amountInCents = Math.round(params.amount * 100);
+    const applicationFee = Math.round(amountInCents * (PLATFORM_FEE_PERCENT / 100));
+
+    const paymentIntent = await stripe.paymentIntents.create({
+      amount: amountInCents,
+      currency: 'usd',
+      application_fee_amount: applicationFee,
+      transfer_data: {
+        destination: businessRecord.stripeConnectAccountId,
+      },
+      metadata: {
+        paymentType: 'deposit',
+        quoteId: params.quoteId.toString(),
+        quoteNumber: params.quoteNumber,
+        customerName: params.customerName,
+        businessId: params.businessId.toString(),
+        portalPayment: 'true',
+        platformFeePercent: PLATFORM_FEE_PERCENT.toString(),
+      },
+    });
+
+    return {
+      clientSecret: paymentIntent.client_secret!,
+      paymentIntentId: paymentIntent.id,
+    };
+  }
+
+  /**
+   * Refund part or all of a destination charge. Reverses the transfer so the
+   * money comes back out of the business's Connect balance (not the
+   * platform's) and returns the proportional platform fee to the customer.
+   */
+  async refundPayment(params: {
+    paymentIntentId: string;
+    amount: number; // in dollars
+    businessId: number;
+    paymentId: number;
+  }): Promise<{ refundId: string }> {
+    if (!stripe) throw new Error('Stripe is not configured');
+
+    const refund = await stripe.refunds.create({
+      payment_intent: params.paymentIntentId,
+      amount: Math.round(params.amount * 100),
+      reverse_transfer: true,
+      refund_application_fee: true,
+      metadata: {
+        businessId: params.businessId.toString(),
+        paymentId: params.paymentId.toString(),
+      },
+    });
+
+    return { refundId: refund.id };
+  }
+
   /**
    * Handle Stripe Connect account.updated webhook event
    * Syncs the account status from Stripe to our database
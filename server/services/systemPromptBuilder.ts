@@ -10,14 +10,17 @@
  * - formatBusinessHoursFromDB(hours) — human-readable hours with day grouping
  * - isBusinessOpenNow(hours, timezone) — real-time open/closed check
  * - buildFirstMessage(businessName, customGreeting, callRecordingEnabled) — opening greeting
+ * - buildLanguageSection(receptionistConfig) — call language + auto-switching rules
  * - generateSystemPrompt(...) — THE MAIN FUNCTION (~550 lines of prompt engineering)
  */
 
 import { Business, Service, ReceptionistConfig, UnansweredQuestion, CallIntelligence } from '@shared/schema';
+import type { ServiceAddon, CustomFieldDefinition } from '@shared/schema';
 import type { Staff } from '@shared/schema';
 import { storage } from '../storage';
 import { formatMenuForPrompt, type CachedMenu } from './cloverService';
 import { getIndustryConfig } from '@shared/industry-config';
+import { DEFAULT_LANGUAGE, SUPPORTED_LANGUAGES, getLanguage } from '@shared/languages';
 
 /**
  * Provider-specific hints that customize the system prompt for different
@@ -61,6 +64,10 @@ export interface PromptOptions {
   staffSection?: string;
   receptionistConfig?: ReceptionistConfig;
   staff?: Staff[];
+  /** Active add-ons, listed under the service they belong to */
+  serviceAddons?: ServiceAddon[];
+  /** Active customer custom fields the AI can capture with saveCustomerFields */
+  customFields?: CustomFieldDefinition[];
 }
 
 /**
@@ -341,6 +348,32 @@ export function buildFirstMessage(businessName: string, customGreeting?: string
   return greeting;
 }
 
+/**
+ * Language rules for the call. The receptionist speaks its configured primary
+ * language; with auto-detect on it follows the caller into any other supported
+ * language, starting in the one a returning caller used last time
+ * ({{caller_language}}, set by the inbound webhook). Returns '' for the
+ * English-only default so existing prompts are unchanged.
+ */
+export function buildLanguageSection(rc?: ReceptionistConfig): string {
+  const primary = getLanguage(rc?.language);
+  const others = rc?.autoDetectLanguage ? SUPPORTED_LANGUAGES.filter((l) => l.code !== primary.code) : [];
+  if (primary.code === DEFAULT_LANGUAGE && others.length === 0) return '';
+
+  const lines = ['== LANGUAGE ==', `Speak ${primary.name}.`];
+  if (others.length > 0) {
+    const names = others.map((l) => l.name).join(' or ');
+    lines.push(`If the caller speaks ${names}, switch to it right away and stay in it for the rest of the call.`);
+    lines.push(`Returning caller's language: {{caller_language}} — if set, reply in it from your first response.`);
+    for (const language of others) {
+      const greeting = rc?.localizedMessages?.[language.code]?.greeting;
+      if (greeting) lines.push(`On switching to ${language.name}, greet the caller with: "${greeting}"`);
+    }
+  }
+  lines.push(`Tools only understand English: pass dates and times to tools in English ("mañana a las tres" → "tomorrow at 3pm"). Say service and staff names exactly as listed.`);
+  return `\n${lines.join('\n')}\n`;
+}
+
 /**
  * Generate a smart system prompt based on business type.
  *
@@ -373,7 +406,14 @@ export function generateSystemPrompt(
 
   const businessType = business.industry?.toLowerCase() || 'general';
   const serviceList = services.length > 0
-    ? services.map(s => `- ${s.name}: $${s.price}, ${s.duration || 60} minutes${s.description ? ` - ${s.description}` : ''}`).join('\n')
+    ? services.map(s => {
+        const addons = (options?.serviceAddons || []).filter(a => a.serviceId === s.id);
+        const addonText = addons.length > 0
+          ? ` (add-ons: ${addons.map(a => `${a.name} +$${a.price}${a.durationMinutes ? `/${a.durationMinutes} min` : ''}`).join(', ')})`
+          : '';
+        const classText = s.classCapacity ? `, group class (up to ${s.classCapacity} per session)` : '';
+        return `- ${s.name}: $${s.price}, ${s.duration || 60} minutes${classText}${addonText}${s.description ? ` - ${s.description}` : ''}`;
+      }).join('\n')
     : '- General services (call getServices for current list)';
 
   // Determine business timezone FIRST (needed by date/time functions below)
@@ -435,6 +475,16 @@ export function generateSystemPrompt(
   if (rc && mergedOptions.voicemailEnabled === undefined && rc.voicemailEnabled !== undefined) {
     mergedOptions.voicemailEnabled = rc.voicemailEnabled ?? undefined;
   }
+  if (rc && !mergedOptions.afterHoursMessage && rc.afterHoursMessage) {
+    mergedOptions.afterHoursMessage = rc.afterHoursMessage;
+  }
+  // After-hours wording for each language the receptionist may switch into
+  const localizedAfterHours = rc?.autoDetectLanguage
+    ? SUPPORTED_LANGUAGES
+        .filter((l) => l.code !== getLanguage(rc.language).code && rc.localizedMessages?.[l.code]?.afterHoursMessage)
+        .map((l) => `AFTER HOURS MESSAGE (${l.name}): "${rc.localizedMessages![l.code].afterHoursMessage}"\n`)
+        .join('')
+    : '';
   // Build staff section from options.staff if staffSection not already set
   if (rc && !mergedOptions.staffSection && mergedOptions.staff && mergedOptions.staff.length > 0) {
     const activeStaff = mergedOptions.staff.filter(s => s.active !== false);
@@ -490,7 +540,7 @@ UNCLEAR SERVICES: Check slang mapping. Close match → "Did you mean [match]?" N
 ${mergedOptions.voicemailEnabled !== false ? 'VOICEMAIL: Only use leaveMessage if caller explicitly asks.' : ''}
 DIFFICULT CALLERS: Frustrated → empathize. Confused → slow down. Emergency → act fast.
 UPSELLING: After booking, mention ONE complementary service. One sentence, drop if declined.
-`;
+${buildLanguageSection(rc)}`;
 
   // Industry-specific additions
   const industryPrompts: { [key: string]: string } = {
@@ -811,6 +861,13 @@ If a customer calls to CANCEL a reservation:
 
 If no times are available, suggest trying another date or calling back.
 
+WALK-IN WAITLIST:
+If a customer asks how long the wait is or wants a table right now:
+1. Call checkWaitTime and tell them how many parties are ahead and the quoted wait.
+2. If canJoinWaitlist is true, offer to put them on the waitlist.
+3. Ask for party size and the name the host should call, then call joinWaitlist.
+4. Let them know they'll get a text when their table is ready and can reply to confirm or give up their spot.
+
 CUSTOMER LINGO (understanding slang — NOT a service list, only reference SERVICES & PRICING above):
 - "Pickup" / "to-go" / "carryout" / "takeout" → Pickup order
 - "Delivery" / "can you deliver?" → Delivery order (if offered)
@@ -958,7 +1015,30 @@ If the caller pushes for a price ("just give me a ballpark"), stay firm but frie
     console.warn('[systemPromptBuilder] bookingFlowSection failed (industry config resolve):', err);
   }
 
-  return basePrompt + industryPrompt + menuSection + bookingFlowSection + `
+  // Group classes: one session, many attendees. These never go through
+  // checkAvailability/bookAppointment — the roster tools own them.
+  const classServices = services.filter(s => s.active !== false && !!s.classCapacity);
+  const classSection = classServices.length > 0 ? `
+
+GROUP CLASSES (${classServices.map(s => `"${s.name}"`).join(', ')}):
+- These are booked by the seat, not as appointments. NEVER use checkAvailability or bookAppointment for them.
+- "Are there spots left in Saturday's 9am class?" → call checkClassAvailability with the class name, day and time as the caller said them, then tell them how many spots are left.
+- To book, call bookClassSpot with the sessionId from checkClassAvailability. Ask for their name first if they are a new caller.
+- If the session is full, offer the waitlist: bookClassSpot puts them on it and they get a text if a spot opens.` : '';
+
+  // Owner-defined customer fields. Ask-on-calls fields are requested once
+  // per caller (recognizeCaller reports which are missing); the rest are
+  // only saved if the caller happens to mention them.
+  const customFields = options?.customFields || [];
+  const askFields = customFields.filter(f => f.askOnCalls);
+  const customFieldSection = customFields.length > 0 ? `
+
+CUSTOMER DETAILS (${customFields.map(f => `"${f.label}"`).join(', ')}):
+- recognizeCaller returns the ones already on file as customFields. Use them naturally; don't read them back unprompted.
+- Whenever the caller mentions one of these, call saveCustomerFields with the customerId and the field label and value.${askFields.length > 0 ? `
+- recognizeCaller lists missingCustomFields. Once the caller's main request is handled (or while booking), ask for those naturally, one at a time — e.g. "Before I let you go, what's your ${askFields[0].label.toLowerCase()}?" If they don't know or don't want to say, move on.` : ''}` : '';
+
+  return basePrompt + industryPrompt + menuSection + bookingFlowSection + classSection + customFieldSection + `
 ${transferHint}
 ${knowledgeSection ? `
 KNOWLEDGE BASE (CRM data above takes priority over this):
@@ -971,6 +1051,6 @@ CUSTOM INSTRUCTIONS (from the business owner — follow closely):
 ${mergedOptions.customInstructions}
 ` : ''}${mergedOptions.afterHoursMessage ? `
 AFTER HOURS MESSAGE: "${mergedOptions.afterHoursMessage}"
-` : ''}
+` : ''}${localizedAfterHours}
 Make every caller feel valued. Use their name. Be helpful, not robotic.`;
 }
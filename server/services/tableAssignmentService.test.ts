@@ -0,0 +1,235 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// ── Mocks (vi.hoisted ensures they're available when vi.mock factories run) ──
+
+const { mockStorage, mockTx } = vi.hoisted(() => ({
+  mockStorage: {
+    getRestaurantTables: vi.fn(),
+    getRestaurantReservations: vi.fn(),
+    getReservationSlotCapacity: vi.fn(),
+    updateRestaurantReservation: vi.fn(),
+  },
+  mockTx: {
+    execute: vi.fn(),
+    inserted: [] as any[],
+    insert: vi.fn(() => ({
+      values: (values: any) => {
+        mockTx.inserted.push(values);
+        return { returning: async () => [{ id: 50, ...values }] };
+      },
+    })),
+  },
+}));
+
+vi.mock('../storage', () => ({ storage: mockStorage }));
+vi.mock('../db', () => ({ db: { transaction: async (fn: any) => fn(mockTx) } }));
+
+import {
+  findTableAssignment,
+  getBusyTableIds,
+  getOccupancyWindow,
+  getStatusTimestamps,
+  getTurnTimeMinutes,
+  createReservationSafely,
+  loadReservationFloor,
+  moveReservationToTables,
+} from './tableAssignmentService';
+
+// ── Test Data ──
+
+const BUSINESS = {
+  id: 1, timezone: 'UTC', reservationSlotDurationMinutes: 90,
+  reservationTurnTimes: [{ maxPartySize: 2, minutes: 60 }, { maxPartySize: 6, minutes: 120 }],
+} as any;
+
+function table(id: number, capacity: number, overrides: Record<string, unknown> = {}) {
+  return {
+    id, businessId: 1, name: `T${id}`, minCapacity: 1, capacity, section: 'Main',
+    combineGroup: null, active: true, sortOrder: id, ...overrides,
+  } as any;
+}
+
+// Four four-tops that can be pushed together, plus a two-top
+const FOUR_TOPS = [1, 2, 3, 4].map((id) => table(id, 4, { combineGroup: 'main' }));
+const TABLES = [...FOUR_TOPS, table(5, 2)];
+
+function reservation(id: number, tableIds: number[], overrides: Record<string, unknown> = {}) {
+  return {
+    id, businessId: 1, customerId: 10 + id, partySize: 4, reservationDate: '2026-10-20', reservationTime: '19:00',
+    startDate: new Date('2026-10-20T19:00:00Z'), endDate: new Date('2026-10-20T21:00:00Z'),
+    status: 'confirmed', seatedAt: null, clearedAt: null, tableIds, ...overrides,
+  } as any;
+}
+
+// ── Tests ──
+
+describe('tableAssignmentService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockStorage.getRestaurantTables.mockResolvedValue(TABLES);
+    mockStorage.getRestaurantReservations.mockResolvedValue([]);
+    mockStorage.updateRestaurantReservation.mockImplementation(async (id: number, data: object) => reservation(id, [], data));
+  });
+
+  describe('getTurnTimeMinutes', () => {
+    it('uses the first turn time covering the party, else the slot duration', () => {
+      expect(getTurnTimeMinutes(BUSINESS, 2)).toBe(60);
+      expect(getTurnTimeMinutes(BUSINESS, 5)).toBe(120);
+      expect(getTurnTimeMinutes(BUSINESS, 8)).toBe(90);
+      expect(getTurnTimeMinutes({ ...BUSINESS, reservationTurnTimes: null }, 2)).toBe(90);
+    });
+  });
+
+  describe('findTableAssignment', () => {
+    it('picks the smallest single table that fits', () => {
+      expect(findTableAssignment(TABLES, 2)).toEqual([5]);
+      expect(findTableAssignment(TABLES, 3)).toEqual([1]);
+    });
+
+    it('respects a table minimum party size', () => {
+      expect(findTableAssignment([table(1, 8, { minCapacity: 5 })], 2)).toBeNull();
+    });
+
+    it('combines tables from the same group with the fewest spare seats', () => {
+      expect(findTableAssignment(TABLES, 5)).toEqual([1, 2]);
+      expect(findTableAssignment(TABLES, 10)).toEqual([1, 2, 3]);
+      // The two-top has no group, so it can't join the four-tops
+      expect(findTableAssignment([FOUR_TOPS[0], TABLES[4]], 6)).toBeNull();
+    });
+
+    it('only returns assignments containing the required table', () => {
+      expect(findTableAssignment(TABLES, 6, 3)).toEqual([1, 3]);
+    });
+  });
+
+  describe('occupancy', () => {
+    const now = new Date('2026-10-20T21:30:00Z');
+
+    it('ends a cleared party at clearedAt and holds an overstaying seated party until now', () => {
+      expect(getOccupancyWindow(reservation(1, [1], {
+        status: 'completed', clearedAt: new Date('2026-10-20T20:15:00Z'),
+      }), now)?.end).toEqual(new Date('2026-10-20T20:15:00Z'));
+      expect(getOccupancyWindow(reservation(1, [1], { status: 'seated' }), now)?.end).toEqual(now);
+      expect(getOccupancyWindow(reservation(1, [1], { status: 'cancelled' }), now)).toBeNull();
+    });
+
+    it('collects tables held during the window, skipping the excluded reservation', () => {
+      const reservations = [reservation(1, [1]), reservation(2, [2, 3]), reservation(3, [4], { status: 'no_show' })];
+      const start = new Date('2026-10-20T20:00:00Z');
+      const end = new Date('2026-10-20T22:00:00Z');
+      expect(Array.from(getBusyTableIds(reservations, start, end, { now }))).toEqual([1, 2, 3]);
+      expect(Array.from(getBusyTableIds(reservations, start, end, { now, excludeReservationId: 2 }))).toEqual([1]);
+    });
+  });
+
+  describe('loadReservationFloor', () => {
+    it('refuses a fifth party of four once every four-top is held, despite spare covers', async () => {
+      mockStorage.getRestaurantReservations.mockResolvedValue(
+        FOUR_TOPS.map((t: any) => reservation(t.id, [t.id])),
+      );
+      const floor = await loadReservationFloor(BUSINESS, '2026-10-20');
+
+      const check = await floor.check('19:30', 4);
+      expect(check).toEqual(expect.objectContaining({ available: false, tableIds: [], remainingSeats: 2 }));
+      expect(await floor.check('19:30', 2)).toEqual(expect.objectContaining({ available: true, tableIds: [5] }));
+    });
+
+    it('sets the end time from the turn time', async () => {
+      const floor = await loadReservationFloor(BUSINESS, '2026-10-20');
+      const check = await floor.check('18:00', 5);
+      expect(check.startDate).toEqual(new Date('2026-10-20T18:00:00Z'));
+      expect(check.endDate).toEqual(new Date('2026-10-20T20:00:00Z'));
+      expect(check.tableIds).toEqual([1, 2]);
+    });
+
+    it('falls back to cover capacity without a floor plan', async () => {
+      mockStorage.getRestaurantTables.mockResolvedValue([]);
+      mockStorage.getReservationSlotCapacity.mockResolvedValue({ totalCapacity: 40, bookedSeats: 38, remainingSeats: 2 });
+      mockStorage.getRestaurantReservations.mockResolvedValue([reservation(9, [], { partySize: 3 })]);
+      const floor = await loadReservationFloor(BUSINESS, '2026-10-20');
+
+      expect((await floor.check('19:00', 4)).available).toBe(false);
+      expect(await floor.check('19:00', 4, { excludeReservationId: 9 })).toEqual(
+        expect.objectContaining({ available: true, tableIds: [], remainingSeats: 5 }),
+      );
+      expect(mockStorage.getReservationSlotCapacity).toHaveBeenCalledWith(1, '2026-10-20', '19:00', 120);
+    });
+  });
+
+  describe('createReservationSafely', () => {
+    const booking = {
+      businessId: 1, customerId: 20, partySize: 4, reservationDate: '2026-10-20', reservationTime: '19:30',
+      status: 'confirmed', source: 'online',
+    };
+
+    beforeEach(() => {
+      mockTx.inserted = [];
+    });
+
+    it("locks the date before checking, then books the tables the check picked", async () => {
+      mockStorage.getRestaurantReservations.mockImplementation(async () => {
+        expect(mockTx.execute).toHaveBeenCalledTimes(1);
+        return [reservation(1, [1])];
+      });
+
+      const result = await createReservationSafely(BUSINESS, booking);
+
+      expect(result.ok).toBe(true);
+      expect(mockTx.inserted[0]).toEqual(expect.objectContaining({
+        customerId: 20, tableIds: [2], startDate: new Date('2026-10-20T19:30:00Z'), endDate: new Date('2026-10-20T21:30:00Z'),
+      }));
+    });
+
+    it('books nothing once the tables are gone', async () => {
+      mockStorage.getRestaurantReservations.mockResolvedValue(FOUR_TOPS.map((t: any) => reservation(t.id, [t.id])));
+
+      const result = await createReservationSafely(BUSINESS, booking);
+
+      expect(result.ok).toBe(false);
+      expect(mockTx.inserted).toHaveLength(0);
+    });
+
+    it('still seats a walk-in when nothing fits', async () => {
+      mockStorage.getRestaurantReservations.mockResolvedValue(FOUR_TOPS.map((t: any) => reservation(t.id, [t.id])));
+
+      const result = await createReservationSafely(BUSINESS, { ...booking, status: 'seated' }, { evenIfFull: true });
+
+      expect(result.ok).toBe(true);
+      expect(mockTx.inserted[0].tableIds).toEqual([]);
+    });
+  });
+
+  describe('moveReservationToTables', () => {
+    it('moves onto a free table', async () => {
+      const result = await moveReservationToTables(reservation(1, [1]), [2]);
+      expect(result.ok).toBe(true);
+      expect(mockStorage.updateRestaurantReservation).toHaveBeenCalledWith(1, { tableIds: [2] });
+    });
+
+    it('rejects a table another party holds', async () => {
+      mockStorage.getRestaurantReservations.mockResolvedValue([reservation(1, [1]), reservation(2, [2])]);
+      expect(await moveReservationToTables(reservation(1, [1]), [2])).toEqual(
+        expect.objectContaining({ ok: false, reason: 'table_conflict' }),
+      );
+    });
+
+    it('extends a too-small drop with free tables from its group', async () => {
+      await moveReservationToTables(reservation(1, [1, 2], { partySize: 7 }), [3]);
+      expect(mockStorage.updateRestaurantReservation).toHaveBeenCalledWith(1, { tableIds: [1, 3] });
+
+      expect(await moveReservationToTables(reservation(1, [1], { partySize: 3 }), [5])).toEqual(
+        expect.objectContaining({ ok: false, reason: 'too_small' }),
+      );
+    });
+  });
+
+  describe('getStatusTimestamps', () => {
+    it('stamps seating and clearing, and resets on undo', () => {
+      const now = new Date('2026-10-20T19:05:00Z');
+      expect(getStatusTimestamps('seated', now)).toEqual({ seatedAt: now, clearedAt: null });
+      expect(getStatusTimestamps('completed', now)).toEqual({ clearedAt: now });
+      expect(getStatusTimestamps('confirmed', now)).toEqual({ seatedAt: null, clearedAt: null });
+      expect(getStatusTimestamps('no_show', now)).toEqual({});
+    });
+  });
+});
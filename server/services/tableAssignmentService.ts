@@ -0,0 +1,387 @@
+/**
+ * Table Assignment Service — floor plan aware restaurant reservations
+ *
+ * Businesses that set up `restaurant_tables` get real table assignment
+ * instead of the aggregate `reservationMaxCapacityPerSlot` cover count
+ * (which happily "fits" eight parties of five at four four-tops):
+ *
+ *   1. The party holds its table(s) for the turn time for its size
+ *      (`reservationTurnTimes`, falling back to the slot duration).
+ *   2. The smallest free single table whose [minCapacity, capacity] range
+ *      fits the party wins.
+ *   3. Otherwise up to three free tables sharing a `combineGroup` are pushed
+ *      together — the combination with the fewest spare seats wins.
+ *
+ * A table is busy while a reservation holds it: from start (or seatedAt, if
+ * the party was seated early) until end — a seated party that overstays
+ * holds it until now, and a cleared party frees it at clearedAt.
+ *
+ * Businesses with no active tables keep the legacy cover-count check
+ * (storage.getReservationSlotCapacity), so nothing changes until a floor
+ * plan exists.
+ *
+ * Bookings go through createReservationSafely / updateReservationSafely,
+ * which re-run the check and write the reservation while holding a lock on
+ * the business's reservations for that date.
+ */
+
+import { eq, sql } from "drizzle-orm";
+import { db } from "../db";
+import { storage } from "../storage";
+import {
+  restaurantReservations,
+  type Business,
+  type InsertRestaurantReservation,
+  type RestaurantReservation,
+  type RestaurantTable,
+} from "@shared/schema";
+import { createDateInTimezone } from "../utils/timezone";
+
+const LOG_PREFIX = "[TableAssignment]";
+
+const DEFAULT_TURN_MINUTES = 90;
+
+// Larger combinations are a host decision, not an automatic one
+const MAX_COMBINED_TABLES = 3;
+
+export interface TableCheck {
+  available: boolean;
+  /** Suggested assignment — empty when the business has no floor plan */
+  tableIds: number[];
+  remainingSeats: number;
+  turnMinutes: number;
+  startDate: Date;
+  endDate: Date;
+}
+
+export interface ReservationFloor {
+  /** Active tables — empty means the cover-count fallback is in use */
+  tables: RestaurantTable[];
+  reservations: RestaurantReservation[];
+  check(time: string, partySize: number, opts?: { excludeReservationId?: number }): Promise<TableCheck>;
+}
+
+export type ReservationWriteResult =
+  | { ok: true; reservation: RestaurantReservation; check: TableCheck }
+  | { ok: false; check: TableCheck };
+
+export type MoveResult =
+  | { ok: true; reservation: RestaurantReservation }
+  | {
+      ok: false;
+      reason: "invalid_table" | "table_conflict" | "too_small" | "not_movable";
+      message: string;
+    };
+
+// ────────────────────────────────────────────────────────────────────────────
+// Turn times
+// ────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Minutes a party of this size holds its table: the first turn time whose
+ * maxPartySize covers the party, else the business's slot duration.
+ */
+export function getTurnTimeMinutes(
+  business: Pick<Business, "reservationTurnTimes" | "reservationSlotDurationMinutes">,
+  partySize: number,
+): number {
+  const fallback = business.reservationSlotDurationMinutes || DEFAULT_TURN_MINUTES;
+  const turnTimes = [...(business.reservationTurnTimes || [])]
+    .filter((t) => t.maxPartySize > 0 && t.minutes > 0)
+    .sort((a, b) => a.maxPartySize - b.maxPartySize);
+  const match = turnTimes.find((t) => partySize <= t.maxPartySize);
+  return match ? match.minutes : fallback;
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Occupancy
+// ────────────────────────────────────────────────────────────────────────────
+
+/** When a reservation actually holds its tables, or null if it doesn't */
+export function getOccupancyWindow(
+  reservation: Pick<RestaurantReservation, "status" | "startDate" | "endDate" | "seatedAt" | "clearedAt">,
+  now: Date = new Date(),
+): { start: Date; end: Date } | null {
+  if (reservation.status === "cancelled" || reservation.status === "no_show") return null;
+
+  const scheduledStart = new Date(reservation.startDate);
+  const seatedAt = reservation.seatedAt ? new Date(reservation.seatedAt) : null;
+  const start = seatedAt && seatedAt < scheduledStart ? seatedAt : scheduledStart;
+  let end = new Date(reservation.endDate);
+
+  if (reservation.status === "completed" && reservation.clearedAt) {
+    end = new Date(reservation.clearedAt);
+  } else if (reservation.status === "seated" && now > end) {
+    end = now;
+  }
+  return end > start ? { start, end } : null;
+}
+
+/** Tables held by any reservation overlapping [start, end) */
+export function getBusyTableIds(
+  reservations: RestaurantReservation[],
+  start: Date,
+  end: Date,
+  opts: { excludeReservationId?: number; now?: Date } = {},
+): Set<number> {
+  const busy = new Set<number>();
+  for (const reservation of reservations) {
+    if (reservation.id === opts.excludeReservationId) continue;
+    const window = getOccupancyWindow(reservation, opts.now);
+    if (!window || window.start >= end || window.end <= start) continue;
+    for (const tableId of reservation.tableIds || []) busy.add(tableId);
+  }
+  return busy;
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Assignment
+// ────────────────────────────────────────────────────────────────────────────
+
+function totalCapacity(tables: RestaurantTable[]): number {
+  return tables.reduce((sum, t) => sum + t.capacity, 0);
+}
+
+/** Every combination of 2..MAX_COMBINED_TABLES tables from the list */
+function combinations(tables: RestaurantTable[]): RestaurantTable[][] {
+  const result: RestaurantTable[][] = [];
+  const walk = (from: number, picked: RestaurantTable[]) => {
+    if (picked.length >= 2) result.push(picked);
+    if (picked.length === MAX_COMBINED_TABLES) return;
+    for (let i = from; i < tables.length; i++) walk(i + 1, [...picked, tables[i]]);
+  };
+  walk(0, []);
+  return result;
+}
+
+/**
+ * Best assignment for a party from the given free tables: the smallest single
+ * table that fits, else the tightest same-group combination. `mustInclude`
+ * restricts the search to assignments containing that table (host drops).
+ */
+export function findTableAssignment(
+  freeTables: RestaurantTable[],
+  partySize: number,
+  mustInclude?: number,
+): number[] | null {
+  const singles = freeTables
+    .filter((t) => mustInclude === undefined || t.id === mustInclude)
+    .filter((t) => partySize <= t.capacity && partySize >= (t.minCapacity || 1))
+    .sort((a, b) => a.capacity - b.capacity || a.id - b.id);
+  if (singles.length > 0) return [singles[0].id];
+
+  const groups = new Map<string, RestaurantTable[]>();
+  for (const table of freeTables) {
+    if (!table.combineGroup) continue;
+    const group = groups.get(table.combineGroup) || [];
+    group.push(table);
+    groups.set(table.combineGroup, group);
+  }
+
+  let best: RestaurantTable[] | null = null;
+  for (const group of Array.from(groups.values())) {
+    for (const combo of combinations(group)) {
+      if (mustInclude !== undefined && !combo.some((t) => t.id === mustInclude)) continue;
+      const seats = totalCapacity(combo);
+      if (seats < partySize) continue;
+      if (
+        !best ||
+        seats < totalCapacity(best) ||
+        (seats === totalCapacity(best) && combo.length < best.length)
+      ) {
+        best = combo;
+      }
+    }
+  }
+  return best ? best.map((t) => t.id).sort((a, b) => a - b) : null;
+}
+
+/**
+ * Loads a day's tables and reservations once so slot listings can check
+ * every time of day without re-querying.
+ */
+export async function loadReservationFloor(business: Business, date: string): Promise<ReservationFloor> {
+  const [tables, reservations] = await Promise.all([
+    storage.getRestaurantTables(business.id, { activeOnly: true }),
+    storage.getRestaurantReservations(business.id, { date }),
+  ]);
+  const timezone = business.timezone || "America/New_York";
+  const [year, month, day] = date.split("-").map(Number);
+
+  return {
+    tables,
+    reservations,
+    async check(time, partySize, opts = {}) {
+      const [hour, min] = time.split(":").map(Number);
+      const turnMinutes = getTurnTimeMinutes(business, partySize);
+      const startDate = createDateInTimezone(year, month - 1, day, hour, min, timezone);
+      const endDate = new Date(startDate.getTime() + turnMinutes * 60 * 1000);
+
+      if (tables.length === 0) {
+        const capacity = await storage.getReservationSlotCapacity(business.id, date, time, turnMinutes);
+        // A reservation being modified gives its own seats back
+        const excluded = opts.excludeReservationId !== undefined
+          ? reservations.find((r) => r.id === opts.excludeReservationId)
+          : undefined;
+        const remainingSeats = capacity.remainingSeats + (excluded?.partySize || 0);
+        return { available: remainingSeats >= partySize, tableIds: [], remainingSeats, turnMinutes, startDate, endDate };
+      }
+
+      const busy = getBusyTableIds(reservations, startDate, endDate, opts);
+      const freeTables = tables.filter((t) => !busy.has(t.id));
+      const tableIds = findTableAssignment(freeTables, partySize);
+      return {
+        available: tableIds !== null,
+        tableIds: tableIds || [],
+        remainingSeats: totalCapacity(freeTables),
+        turnMinutes,
+        startDate,
+        endDate,
+      };
+    },
+  };
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Booking
+// ────────────────────────────────────────────────────────────────────────────
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Transaction-scoped: bookings for the same business and date queue up here
+// until the one ahead commits, so the floor each one checks includes the
+// tables the previous one just took
+async function lockReservationDate(tx: Tx, businessId: number, date: string): Promise<void> {
+  await tx.execute(sql`SELECT pg_advisory_xact_lock(${businessId}, hashtext(${date}))`);
+}
+
+/**
+ * Checks the floor and creates the reservation on the tables it picked, in
+ * one transaction holding the date's lock — two parties booking at once
+ * (online, by phone, at the host stand) can't be given the same table.
+ * Start and end come from the check. `evenIfFull` is for walk-ins being
+ * seated: they're already in the room.
+ */
+export async function createReservationSafely(
+  business: Business,
+  data: Omit<InsertRestaurantReservation, "startDate" | "endDate" | "tableIds">,
+  opts: { evenIfFull?: boolean } = {},
+): Promise<ReservationWriteResult> {
+  return db.transaction(async (tx) => {
+    await lockReservationDate(tx, business.id, data.reservationDate);
+    const check = await (await loadReservationFloor(business, data.reservationDate)).check(data.reservationTime, data.partySize);
+    if (!check.available && !opts.evenIfFull) return { ok: false as const, check };
+
+    const [reservation] = await tx.insert(restaurantReservations)
+      .values({ ...data, startDate: check.startDate, endDate: check.endDate, tableIds: check.tableIds })
+      .returning();
+    return { ok: true as const, reservation, check };
+  });
+}
+
+/**
+ * Moves a reservation to a new date, time or party size under the same lock,
+ * re-assigning its tables. `updates` carries any other fields to save with it.
+ */
+export async function updateReservationSafely(
+  business: Business,
+  reservation: Pick<RestaurantReservation, "id">,
+  target: { date: string; time: string; partySize: number },
+  updates: Partial<RestaurantReservation> = {},
+): Promise<ReservationWriteResult> {
+  return db.transaction(async (tx) => {
+    await lockReservationDate(tx, business.id, target.date);
+    const check = await (await loadReservationFloor(business, target.date))
+      .check(target.time, target.partySize, { excludeReservationId: reservation.id });
+    if (!check.available) return { ok: false as const, check };
+
+    const [updated] = await tx.update(restaurantReservations)
+      .set({
+        ...updates,
+        startDate: check.startDate,
+        endDate: check.endDate,
+        tableIds: check.tableIds,
+        updatedAt: new Date(),
+      })
+      .where(eq(restaurantReservations.id, reservation.id))
+      .returning();
+    return { ok: true as const, reservation: updated, check };
+  });
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Host actions
+// ────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Moves a reservation onto the tables a host dropped it on. A single table
+ * too small for the party is extended with free tables from its combine
+ * group when possible.
+ */
+export async function moveReservationToTables(
+  reservation: RestaurantReservation,
+  tableIds: number[],
+): Promise<MoveResult> {
+  if (reservation.status === "cancelled" || reservation.status === "no_show" || reservation.status === "completed") {
+    return { ok: false, reason: "not_movable", message: "Only upcoming or seated reservations can change tables" };
+  }
+
+  const [tables, reservations] = await Promise.all([
+    storage.getRestaurantTables(reservation.businessId, { activeOnly: true }),
+    storage.getRestaurantReservations(reservation.businessId, { date: reservation.reservationDate }),
+  ]);
+  const requested = tables.filter((t) => tableIds.includes(t.id));
+  if (requested.length === 0 || requested.length !== new Set(tableIds).size) {
+    return { ok: false, reason: "invalid_table", message: "Table not found" };
+  }
+
+  const window = getOccupancyWindow(reservation) || {
+    start: new Date(reservation.startDate),
+    end: new Date(reservation.endDate),
+  };
+  const busy = getBusyTableIds(reservations, window.start, window.end, { excludeReservationId: reservation.id });
+  const conflict = requested.find((t) => busy.has(t.id));
+  if (conflict) {
+    return { ok: false, reason: "table_conflict", message: `${conflict.name} is held by another party at that time` };
+  }
+
+  let assigned = requested.map((t) => t.id);
+  if (totalCapacity(requested) < reservation.partySize) {
+    const extended = requested.length === 1 && requested[0].combineGroup
+      ? findTableAssignment(tables.filter((t) => !busy.has(t.id)), reservation.partySize, requested[0].id)
+      : null;
+    if (!extended) {
+      return {
+        ok: false,
+        reason: "too_small",
+        message: `${requested.map((t) => t.name).join(" + ")} can't seat a party of ${reservation.partySize}`,
+      };
+    }
+    assigned = extended;
+  }
+
+  const updated = await storage.updateRestaurantReservation(reservation.id, { tableIds: assigned });
+  console.log(`${LOG_PREFIX} Reservation ${reservation.id} moved to tables ${assigned.join(", ")}`);
+  return { ok: true, reservation: updated };
+}
+
+/**
+ * Timestamps that go with a status change from the host stand: seating
+ * stamps seatedAt, clearing (completed) frees the tables at clearedAt, and
+ * undoing back to confirmed resets both.
+ */
+export function getStatusTimestamps(
+  status: string,
+  now: Date = new Date(),
+): Partial<Pick<RestaurantReservation, "seatedAt" | "clearedAt">> {
+  switch (status) {
+    case "seated":
+      return { seatedAt: now, clearedAt: null };
+    case "completed":
+      return { clearedAt: now };
+    case "confirmed":
+      return { seatedAt: null, clearedAt: null };
+    default:
+      return {};
+  }
+}
@@ -0,0 +1,197 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// ── Mocks (vi.hoisted ensures they're available when vi.mock factories run) ──
+
+const { mockStorage, mockSendSms, mockCreateReservation } = vi.hoisted(() => ({
+  mockStorage: {
+    getBusiness: vi.fn(),
+    getCustomer: vi.fn(),
+    getCustomerByPhone: vi.fn(),
+    createCustomer: vi.fn(),
+    getWaitlistEntries: vi.fn(),
+    getWaitlistEntriesCreatedBefore: vi.fn(),
+    getWaitlistEntry: vi.fn(),
+    createWaitlistEntry: vi.fn(),
+    updateWaitlistEntry: vi.fn(),
+    getActiveSmsConversation: vi.fn(),
+    createSmsConversation: vi.fn(),
+    updateSmsConversation: vi.fn(),
+  },
+  mockSendSms: vi.fn(),
+  mockCreateReservation: vi.fn(),
+}));
+
+vi.mock('../storage', () => ({ storage: mockStorage }));
+vi.mock('./twilioService', () => ({ sendSms: mockSendSms }));
+vi.mock('./agentActivityService', () => ({ logAgentAction: vi.fn() }));
+vi.mock('./orchestrationService', () => ({ dispatchEvent: vi.fn().mockResolvedValue(undefined) }));
+vi.mock('./tableAssignmentService', () => ({
+  createReservationSafely: mockCreateReservation,
+}));
+
+import {
+  estimateWaitMinutes,
+  expireStaleWaitlistEntries,
+  getWaitlistPosition,
+  handleWaitlistReply,
+  joinWaitlist,
+  notifyWaitlistEntry,
+  seatWaitlistEntry,
+} from './waitlistService';
+
+// ── Test Data ──
+
+const BUSINESS = {
+  id: 1, name: 'Trattoria', timezone: 'UTC', bookingSlug: 'trattoria',
+  waitlistEnabled: true, waitlistMinutesPerParty: 15, reservationMaxPartySize: 8,
+} as any;
+
+function entry(id: number, overrides: Record<string, unknown> = {}) {
+  return {
+    id, businessId: 1, customerId: 100 + id, name: `Guest ${id}`, phone: `+1555000000${id}`,
+    partySize: 2, quotedWaitMinutes: 15, status: 'waiting', source: 'host', notes: null,
+    manageToken: `token-${id}`, createdAt: new Date(), ...overrides,
+  } as any;
+}
+
+const QUEUE = [entry(1), entry(2, { status: 'notified' })];
+
+function conversation(referenceId: number) {
+  return {
+    id: 50, businessId: 1, customerId: 100 + referenceId, customerPhone: `+1555000000${referenceId}`,
+    agentType: 'waitlist', referenceType: 'waitlist_entry', referenceId, state: 'awaiting_reply',
+  } as any;
+}
+
+// ── Tests ──
+
+describe('waitlistService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockStorage.getBusiness.mockResolvedValue(BUSINESS);
+    mockStorage.getWaitlistEntries.mockResolvedValue(QUEUE);
+    mockStorage.getCustomerByPhone.mockResolvedValue(undefined);
+    mockStorage.createCustomer.mockResolvedValue({ id: 200 });
+    mockStorage.createWaitlistEntry.mockImplementation(async (data: object) => entry(3, data));
+    mockStorage.updateWaitlistEntry.mockImplementation(async (id: number, data: object) => entry(id, data));
+    mockStorage.getActiveSmsConversation.mockResolvedValue(undefined);
+    mockSendSms.mockResolvedValue({ sid: 'SM1' });
+  });
+
+  describe('queue', () => {
+    it('quotes the per-party minutes for every party ahead', () => {
+      expect(estimateWaitMinutes(BUSINESS, 0)).toBe(0);
+      expect(estimateWaitMinutes(BUSINESS, 3)).toBe(45);
+      expect(estimateWaitMinutes({ waitlistMinutesPerParty: null } as any, 2)).toBe(20);
+    });
+
+    it('positions an entry by queue order and drops it once it leaves', () => {
+      expect(getWaitlistPosition(QUEUE[1], QUEUE)).toEqual(expect.objectContaining({ position: 2, partiesAhead: 1 }));
+      expect(getWaitlistPosition(entry(9), QUEUE).position).toBeNull();
+    });
+  });
+
+  describe('joinWaitlist', () => {
+    it('adds the party at the back, quotes the wait and texts their place', async () => {
+      const result = await joinWaitlist(BUSINESS, { name: 'Ada Lovelace', phone: '+15551234567', partySize: 4, source: 'online' });
+
+      expect(result.ok).toBe(true);
+      expect(mockStorage.createCustomer).toHaveBeenCalledWith(expect.objectContaining({ firstName: 'Ada', lastName: 'Lovelace' }));
+      expect(mockStorage.createWaitlistEntry).toHaveBeenCalledWith(expect.objectContaining({
+        customerId: 200, partySize: 4, quotedWaitMinutes: 30, status: 'waiting', source: 'online',
+      }));
+      expect(mockSendSms.mock.calls[0][1]).toContain("You're #3 on the waitlist at Trattoria");
+      expect(mockStorage.createSmsConversation).toHaveBeenCalledWith(expect.objectContaining({
+        agentType: 'waitlist', referenceType: 'waitlist_entry', referenceId: 3, context: { stage: 'waiting' },
+      }));
+    });
+
+    it('refuses a phone already in line, oversize parties and a closed list', async () => {
+      expect(await joinWaitlist(BUSINESS, { name: 'Again', phone: '(555) 000-0001', partySize: 2, source: 'host' }))
+        .toEqual(expect.objectContaining({ ok: false, reason: 'already_waiting' }));
+      expect(await joinWaitlist(BUSINESS, { name: 'Big', phone: '+15559999999', partySize: 12, source: 'host' }))
+        .toEqual(expect.objectContaining({ ok: false, reason: 'party_too_large' }));
+      expect(await joinWaitlist({ ...BUSINESS, waitlistEnabled: false }, { name: 'X', phone: '+15559999999', partySize: 2, source: 'phone' }))
+        .toEqual(expect.objectContaining({ ok: false, reason: 'disabled' }));
+      expect(mockStorage.createWaitlistEntry).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('notifyWaitlistEntry', () => {
+    it('pages the guest and moves their open conversation to the notified stage', async () => {
+      mockStorage.getActiveSmsConversation.mockResolvedValue(conversation(1));
+      const result = await notifyWaitlistEntry(BUSINESS, QUEUE[0]);
+
+      expect(result.ok).toBe(true);
+      expect(mockStorage.updateWaitlistEntry).toHaveBeenCalledWith(1, expect.objectContaining({ status: 'notified' }));
+      expect(mockSendSms.mock.calls[0][1]).toContain('your table at Trattoria is ready');
+      expect(mockStorage.updateSmsConversation).toHaveBeenCalledWith(50, expect.objectContaining({ context: { stage: 'notified' } }));
+      expect(mockStorage.createSmsConversation).not.toHaveBeenCalled();
+    });
+
+    it('ignores parties that already left', async () => {
+      expect(await notifyWaitlistEntry(BUSINESS, entry(1, { status: 'seated' })))
+        .toEqual(expect.objectContaining({ ok: false, reason: 'not_active' }));
+    });
+  });
+
+  describe('seatWaitlistEntry', () => {
+    it('creates a seated walk-in reservation under the floor lock', async () => {
+      mockCreateReservation.mockResolvedValue({ ok: true, reservation: { id: 77, tableIds: [4] } });
+
+      const result = await seatWaitlistEntry(BUSINESS, QUEUE[0]);
+
+      expect(result.ok).toBe(true);
+      expect(mockCreateReservation).toHaveBeenCalledWith(BUSINESS, expect.objectContaining({
+        customerId: 101, partySize: 2, status: 'seated', source: 'walk_in',
+      }), { evenIfFull: true });
+      expect(mockStorage.updateWaitlistEntry).toHaveBeenCalledWith(1, expect.objectContaining({
+        status: 'seated', reservationId: 77,
+      }));
+    });
+  });
+
+  describe('handleWaitlistReply', () => {
+    it('confirms a paged guest who is on their way', async () => {
+      mockStorage.getWaitlistEntry.mockResolvedValue(QUEUE[1]);
+      const reply = await handleWaitlistReply(conversation(2), 'Yes!', undefined, 1);
+
+      expect(reply?.replyMessage).toContain("we'll hold your table");
+      expect(mockStorage.updateWaitlistEntry).toHaveBeenCalledWith(2, { confirmedAt: expect.any(Date) });
+    });
+
+    it('drops the guest out on NO or LEAVE and resolves the conversation', async () => {
+      mockStorage.getWaitlistEntry.mockResolvedValue(QUEUE[0]);
+      const reply = await handleWaitlistReply(conversation(1), 'leave', undefined, 1);
+
+      expect(reply?.replyMessage).toContain("you've been removed");
+      expect(mockStorage.updateWaitlistEntry).toHaveBeenCalledWith(1, expect.objectContaining({ status: 'cancelled' }));
+      expect(mockStorage.updateSmsConversation).toHaveBeenCalledWith(50, { state: 'resolved' });
+    });
+
+    it('tells a waiting guest their place in line', async () => {
+      mockStorage.getWaitlistEntry.mockResolvedValue(QUEUE[0]);
+      const reply = await handleWaitlistReply(conversation(1), 'how long?', undefined, 1);
+
+      expect(reply?.replyMessage).toContain("You're #1 on the Trattoria waitlist");
+      expect(mockStorage.updateWaitlistEntry).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('expireStaleWaitlistEntries', () => {
+    it("closes parties from an earlier day in the business's timezone", async () => {
+      mockStorage.getBusiness.mockResolvedValue({ ...BUSINESS, timezone: 'America/Chicago' });
+      mockStorage.getWaitlistEntriesCreatedBefore.mockResolvedValue([
+        entry(1, { createdAt: new Date('2026-10-19T02:00:00.000Z') }), // 9pm on the 18th in Chicago
+        entry(2, { createdAt: new Date('2026-10-19T06:00:00.000Z') }), // 1am on the 19th
+      ]);
+      const now = new Date('2026-10-19T15:00:00.000Z');
+
+      expect(await expireStaleWaitlistEntries(now)).toBe(1);
+      expect(mockStorage.getWaitlistEntriesCreatedBefore).toHaveBeenCalledWith(['waiting', 'notified'], now);
+      expect(mockStorage.updateWaitlistEntry).toHaveBeenCalledTimes(1);
+      expect(mockStorage.updateWaitlistEntry).toHaveBeenCalledWith(1, { status: 'no_show', closedAt: now });
+      expect(mockStorage.getBusiness).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,401 @@
+/**
+ * Waitlist Service — walk-in queue with SMS "your table is ready" paging
+ *
+ * Parties join from the host stand, the AI receptionist or the public QR
+ * page. The queue is every `waiting` / `notified` entry for the business,
+ * oldest first — position is simply order in that list, and a new party is
+ * quoted `waitlistMinutesPerParty` for every party ahead of it.
+ *
+ * Each entry owns an SMS conversation (agentType `waitlist`) from the moment
+ * it joins, so the guest can text back at any point:
+ *
+ *   waiting  → YES/anything gets their place in line, NO/LEAVE drops out
+ *   notified → YES marks them on their way, NO/LEAVE gives the table up
+ *
+ * Seating a party creates a `walk_in` restaurant reservation on the first
+ * free table that fits, so the floor plan and turn times see it like any
+ * other booking. Parties still in line when the business's day ends are
+ * closed out as no-shows by a scheduled task.
+ */
+
+import crypto from "crypto";
+import { storage } from "../storage";
+import type { Business, Customer, SmsConversation, WaitlistEntry } from "@shared/schema";
+import { sendSms } from "./twilioService";
+import { classifyReply } from "./smsReplyParser";
+import { logAgentAction } from "./agentActivityService";
+import { createReservationSafely } from "./tableAssignmentService";
+import { getLocalTimeInTimezone } from "../utils/timezone";
+import { logAndSwallow } from "../utils/safeAsync";
+
+const LOG_PREFIX = "[Waitlist]";
+
+const DEFAULT_MINUTES_PER_PARTY = 10;
+
+export const ACTIVE_WAITLIST_STATUSES = ["waiting", "notified"];
+
+// Guests text back for a while after joining — long enough to cover a busy night
+const CONVERSATION_HOURS = 6;
+
+// A bare "C" / "CANCEL" text goes to the appointment keyword handler first, so
+// guests are told to reply LEAVE; "cancel" within a longer reply still counts
+const LEAVE_WORDS = ["leave", "remove", "cancel", "drop"];
+
+export type WaitlistSource = "host" | "phone" | "online";
+
+export interface JoinWaitlistInput {
+  name: string;
+  phone: string;
+  partySize: number;
+  source: WaitlistSource;
+  notes?: string | null;
+  /** Host override — otherwise quoted from the parties ahead */
+  quotedWaitMinutes?: number | null;
+}
+
+export interface WaitlistStatus {
+  entry: WaitlistEntry;
+  /** 1-based place in line, or null once the party has left the queue */
+  position: number | null;
+  partiesAhead: number;
+}
+
+export type WaitlistResult =
+  | { ok: true; entry: WaitlistEntry }
+  | {
+      ok: false;
+      reason: "disabled" | "party_too_large" | "already_waiting" | "not_active";
+      message: string;
+    };
+
+// ────────────────────────────────────────────────────────────────────────────
+// Queue
+// ────────────────────────────────────────────────────────────────────────────
+
+/** Parties currently waiting or paged, in queue order */
+export function getActiveWaitlist(businessId: number): Promise<WaitlistEntry[]> {
+  return storage.getWaitlistEntries(businessId, { statuses: ACTIVE_WAITLIST_STATUSES });
+}
+
+/** Minutes quoted to a party joining behind `partiesAhead` others */
+export function estimateWaitMinutes(
+  business: Pick<Business, "waitlistMinutesPerParty">,
+  partiesAhead: number,
+): number {
+  const perParty = business.waitlistMinutesPerParty || DEFAULT_MINUTES_PER_PARTY;
+  return partiesAhead * perParty;
+}
+
+/** Where an entry sits in the active queue */
+export function getWaitlistPosition(entry: WaitlistEntry, queue: WaitlistEntry[]): WaitlistStatus {
+  const index = queue.findIndex((e) => e.id === entry.id);
+  if (index === -1) return { entry, position: null, partiesAhead: 0 };
+  return { entry, position: index + 1, partiesAhead: index };
+}
+
+export function getWaitlistUrl(business: Pick<Business, "bookingSlug">, token?: string | null): string | null {
+  if (!business.bookingSlug) return null;
+  const base = `${process.env.APP_URL || "https://www.smallbizagent.ai"}/book/${business.bookingSlug}/waitlist`;
+  return token ? `${base}/${token}` : base;
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Joining
+// ────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Adds a party to the end of the line, linking (or creating) the customer by
+ * phone, and texts them their place and quoted wait.
+ */
+export async function joinWaitlist(business: Business, input: JoinWaitlistInput): Promise<WaitlistResult> {
+  if (!business.waitlistEnabled) {
+    return { ok: false, reason: "disabled", message: "The waitlist is not open right now" };
+  }
+  const maxPartySize = business.reservationMaxPartySize || 10;
+  if (input.partySize > maxPartySize) {
+    return {
+      ok: false,
+      reason: "party_too_large",
+      message: `Parties larger than ${maxPartySize} need to speak with the host`,
+    };
+  }
+
+  const queue = await getActiveWaitlist(business.id);
+  const digits = input.phone.replace(/\D/g, "").slice(-10);
+  if (queue.some((e) => e.phone.replace(/\D/g, "").slice(-10) === digits)) {
+    return { ok: false, reason: "already_waiting", message: "This phone number is already on the waitlist" };
+  }
+
+  const nameParts = input.name.trim().split(/\s+/);
+  let customer = await storage.getCustomerByPhone(input.phone, business.id);
+  if (!customer) {
+    customer = await storage.createCustomer({
+      businessId: business.id,
+      firstName: nameParts[0] || "Guest",
+      lastName: nameParts.slice(1).join(" "),
+      phone: input.phone,
+      email: null,
+    });
+  }
+
+  const quotedWaitMinutes = input.quotedWaitMinutes ?? estimateWaitMinutes(business, queue.length);
+  const entry = await storage.createWaitlistEntry({
+    businessId: business.id,
+    customerId: customer.id,
+    name: input.name.trim(),
+    phone: input.phone,
+    partySize: input.partySize,
+    quotedWaitMinutes,
+    status: "waiting",
+    source: input.source,
+    notes: input.notes || null,
+    manageToken: crypto.randomBytes(24).toString("hex"),
+  });
+  console.log(`${LOG_PREFIX} Party of ${entry.partySize} joined business ${business.id} waitlist (${input.source}, #${queue.length + 1})`);
+
+  const statusUrl = getWaitlistUrl(business, entry.manageToken);
+  const message =
+    `You're #${queue.length + 1} on the waitlist at ${business.name} for a party of ${entry.partySize}` +
+    (quotedWaitMinutes > 0 ? ` — about ${quotedWaitMinutes} min.` : ".") +
+    ` We'll text you when your table is ready. Reply LEAVE to give up your spot.` +
+    (statusUrl ? ` Status: ${statusUrl}` : "");
+  await sendGuestSms(business, entry, customer, message, "waiting");
+
+  return { ok: true, entry };
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Host actions
+// ────────────────────────────────────────────────────────────────────────────
+
+/** Pages the party that their table is ready and asks them to confirm */
+export async function notifyWaitlistEntry(business: Business, entry: WaitlistEntry): Promise<WaitlistResult> {
+  if (!ACTIVE_WAITLIST_STATUSES.includes(entry.status || "")) {
+    return { ok: false, reason: "not_active", message: "This party is no longer on the waitlist" };
+  }
+
+  const updated = await storage.updateWaitlistEntry(entry.id, {
+    status: "notified",
+    notifiedAt: new Date(),
+    confirmedAt: null,
+  });
+  const customer = await storage.getCustomer(entry.customerId);
+  const message =
+    `${entry.name.split(/\s+/)[0]}, your table at ${business.name} is ready! ` +
+    `Reply YES if you're on your way or NO to give up your table.`;
+  await sendGuestSms(business, updated, customer, message, "notified");
+  console.log(`${LOG_PREFIX} Paged waitlist entry ${entry.id}`);
+
+  return { ok: true, entry: updated };
+}
+
+/**
+ * Seats the party: creates a seated walk-in reservation on the best free
+ * table (none when the business has no floor plan) and closes the entry.
+ */
+export async function seatWaitlistEntry(business: Business, entry: WaitlistEntry): Promise<WaitlistResult> {
+  if (!ACTIVE_WAITLIST_STATUSES.includes(entry.status || "")) {
+    return { ok: false, reason: "not_active", message: "This party is no longer on the waitlist" };
+  }
+
+  const now = new Date();
+  const timezone = business.timezone || "America/New_York";
+  const date = now.toLocaleDateString("en-CA", { timeZone: timezone });
+  const { hours, minutes } = getLocalTimeInTimezone(now, timezone);
+  const time = `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}`;
+
+  const seated = await createReservationSafely(business, {
+    businessId: business.id,
+    customerId: entry.customerId,
+    partySize: entry.partySize,
+    reservationDate: date,
+    reservationTime: time,
+    status: "seated",
+    specialRequests: entry.notes || null,
+    source: "walk_in",
+    seatedAt: now,
+  }, { evenIfFull: true });
+  if (!seated.ok) throw new Error(`Could not seat waitlist entry ${entry.id}`);
+  const { reservation } = seated;
+
+  const updated = await storage.updateWaitlistEntry(entry.id, {
+    status: "seated",
+    seatedAt: now,
+    closedAt: now,
+    reservationId: reservation.id,
+  });
+  await closeWaitlistConversation(business.id, entry);
+  console.log(`${LOG_PREFIX} Seated waitlist entry ${entry.id} as reservation ${reservation.id}`);
+
+  return { ok: true, entry: updated };
+}
+
+/**
+ * Closes out parties still waiting or paged from an earlier day in their
+ * business's timezone, so last night's walk-ins don't sit at the head of
+ * today's line. Runs from the scheduler.
+ */
+export async function expireStaleWaitlistEntries(now = new Date()): Promise<number> {
+  const entries = await storage.getWaitlistEntriesCreatedBefore(ACTIVE_WAITLIST_STATUSES, now);
+  const timezones = new Map<number, string>();
+  let expired = 0;
+  for (const entry of entries) {
+    try {
+      if (!timezones.has(entry.businessId)) {
+        const business = await storage.getBusiness(entry.businessId);
+        timezones.set(entry.businessId, business?.timezone || "America/New_York");
+      }
+      const timeZone = timezones.get(entry.businessId)!;
+      const joinedOn = new Date(entry.createdAt ?? now).toLocaleDateString("en-CA", { timeZone });
+      if (joinedOn >= now.toLocaleDateString("en-CA", { timeZone })) continue;
+
+      await storage.updateWaitlistEntry(entry.id, { status: "no_show", closedAt: now });
+      await closeWaitlistConversation(entry.businessId, entry);
+      expired++;
+    } catch (err) {
+      console.error(`${LOG_PREFIX} Error expiring waitlist entry ${entry.id}:`, err);
+    }
+  }
+  if (expired > 0) {
+    console.log(`${LOG_PREFIX} Closed ${expired} waitlist entr${expired === 1 ? "y" : "ies"} left from an earlier day`);
+  }
+  return expired;
+}
+
+/** Takes a party off the list — they left (cancelled) or never came back (no_show) */
+export async function removeWaitlistEntry(
+  business: Business,
+  entry: WaitlistEntry,
+  status: "cancelled" | "no_show",
+): Promise<WaitlistResult> {
+  if (!ACTIVE_WAITLIST_STATUSES.includes(entry.status || "")) {
+    return { ok: false, reason: "not_active", message: "This party is no longer on the waitlist" };
+  }
+  const updated = await storage.updateWaitlistEntry(entry.id, { status, closedAt: new Date() });
+  await closeWaitlistConversation(business.id, entry);
+  return { ok: true, entry: updated };
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// SMS
+// ────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Texts the guest and keeps their waitlist conversation open at the given
+ * stage, reusing the one opened when they joined.
+ */
+async function sendGuestSms(
+  business: Business,
+  entry: WaitlistEntry,
+  customer: Customer | undefined,
+  message: string,
+  stage: "waiting" | "notified",
+): Promise<void> {
+  try {
+    await sendSms(entry.phone, message, undefined, business.id);
+  } catch (err) {
+    console.error(`${LOG_PREFIX} Failed to text waitlist entry ${entry.id}:`, err);
+    return;
+  }
+
+  const expiresAt = new Date(Date.now() + CONVERSATION_HOURS * 60 * 60 * 1000);
+  const existing = await findWaitlistConversation(business.id, entry);
+  if (existing) {
+    await storage.updateSmsConversation(existing.id, {
+      context: { stage },
+      lastMessageSentAt: new Date(),
+      expiresAt,
+    });
+  } else {
+    await storage.createSmsConversation({
+      businessId: business.id,
+      customerId: customer?.id ?? entry.customerId,
+      customerPhone: entry.phone,
+      agentType: "waitlist",
+      referenceType: "waitlist_entry",
+      referenceId: entry.id,
+      state: "awaiting_reply",
+      context: { stage },
+      lastMessageSentAt: new Date(),
+      expiresAt,
+    });
+  }
+
+  await logAgentAction({
+    businessId: business.id,
+    agentType: "waitlist",
+    action: "sms_sent",
+    customerId: entry.customerId,
+    referenceType: "waitlist_entry",
+    referenceId: entry.id,
+    details: { message, stage },
+  });
+}
+
+async function findWaitlistConversation(businessId: number, entry: WaitlistEntry): Promise<SmsConversation | undefined> {
+  const conversation = await storage.getActiveSmsConversation(entry.phone, businessId);
+  return conversation?.agentType === "waitlist" && conversation.referenceId === entry.id ? conversation : undefined;
+}
+
+async function closeWaitlistConversation(businessId: number, entry: WaitlistEntry): Promise<void> {
+  const conversation = await findWaitlistConversation(businessId, entry);
+  if (conversation) await resolveConversation(conversation, businessId);
+}
+
+async function resolveConversation(conversation: SmsConversation, businessId: number): Promise<void> {
+  await storage.updateSmsConversation(conversation.id, { state: "resolved" });
+  // Release engagement lock via orchestrator
+  const customerId = conversation.customerId;
+  if (customerId) {
+    import("./orchestrationService").then((mod) => {
+      mod.dispatchEvent("conversation.resolved", { businessId, customerId }).catch(logAndSwallow("Waitlist"));
+    }).catch(logAndSwallow("Waitlist"));
+  }
+}
+
+function wantsToLeave(messageBody: string): boolean {
+  const words = messageBody.trim().toLowerCase().split(/\W+/);
+  return LEAVE_WORDS.some((w) => words.includes(w)) || classifyReply(messageBody) === "negative";
+}
+
+/**
+ * SMS conversation handler (agentType `waitlist`), registered with the
+ * smsConversationRouter.
+ */
+export async function handleWaitlistReply(
+  conversation: SmsConversation,
+  messageBody: string,
+  customer: Customer | undefined,
+  businessId: number,
+): Promise<{ replyMessage: string } | null> {
+  const business = await storage.getBusiness(businessId);
+  const entry = conversation.referenceId ? await storage.getWaitlistEntry(conversation.referenceId) : undefined;
+  if (!business || !entry || entry.businessId !== businessId) return null;
+
+  if (!ACTIVE_WAITLIST_STATUSES.includes(entry.status || "")) {
+    await resolveConversation(conversation, businessId);
+    return null;
+  }
+
+  if (wantsToLeave(messageBody)) {
+    await storage.updateWaitlistEntry(entry.id, { status: "cancelled", closedAt: new Date() });
+    await resolveConversation(conversation, businessId);
+    console.log(`${LOG_PREFIX} Waitlist entry ${entry.id} dropped out by SMS`);
+    return { replyMessage: `No problem — you've been removed from the ${business.name} waitlist. Hope to see you another time!` };
+  }
+
+  if (entry.status === "notified") {
+    if (classifyReply(messageBody) === "positive") {
+      await storage.updateWaitlistEntry(entry.id, { confirmedAt: new Date() });
+      return { replyMessage: `Great, we'll hold your table. See you in a few minutes! - ${business.name}` };
+    }
+    return { replyMessage: `Your table at ${business.name} is ready. Reply YES if you're on your way or NO to give it up.` };
+  }
+
+  const { position } = getWaitlistPosition(entry, await getActiveWaitlist(businessId));
+  return {
+    replyMessage:
+      `You're #${position ?? 1} on the ${business.name} waitlist. ` +
+      `We'll text you when your table is ready. Reply LEAVE to give up your spot.`,
+  };
+}
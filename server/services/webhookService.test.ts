@@ -1,14 +1,47 @@
-import { describe, it, expect, vi } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+// ── Mocks (vi.hoisted ensures they're available when vi.mock factories run) ──
+
+const { mockQuery, mockEnqueue, mockNotifyOwnerWebhookDisabled } = vi.hoisted(() => ({
+  mockQuery: vi.fn(),
+  mockEnqueue: vi.fn(),
+  mockNotifyOwnerWebhookDisabled: vi.fn(),
+}));
 
 // Mock the db module before importing webhookService
 vi.mock('../db', () => ({
   pool: {
-    query: vi.fn(),
+    query: mockQuery,
     connect: vi.fn(),
   },
 }));
+vi.mock('../utils/encryption', () => ({
+  encryptField: (value: string) => value,
+  decryptField: (value: string) => value,
+}));
+vi.mock('./jobQueue', () => ({ enqueue: mockEnqueue }));
+vi.mock('./ownerNotificationService', () => ({ notifyOwnerWebhookDisabled: mockNotifyOwnerWebhookDisabled }));
+
+import {
+  WEBHOOK_EVENTS,
+  WEBHOOK_AUTO_DISABLE_THRESHOLD,
+  attemptDelivery,
+  fireEvent,
+  getDeliveries,
+  listDeliveries,
+  replayFailedDeliveries,
+} from './webhookService';
+
+// ── Test Data ──
 
-import { WEBHOOK_EVENTS } from './webhookService';
+const PENDING_DELIVERY = {
+  id: 11, webhook_id: 3, business_id: 1, event: 'invoice.paid', payload: { event: 'invoice.paid', data: {} },
+  status: 'pending', attempts: 0, url: 'https://hooks.example.com/in', secret: 'whsec_test', active: true,
+};
+
+function rows(...values: object[]) {
+  return { rows: values };
+}
 
 describe('WEBHOOK_EVENTS', () => {
   it('includes all appointment events', () => {
@@ -33,6 +66,8 @@ describe('WEBHOOK_EVENTS', () => {
   it('includes invoice events', () => {
     expect(WEBHOOK_EVENTS).toContain('invoice.created');
     expect(WEBHOOK_EVENTS).toContain('invoice.paid');
+    expect(WEBHOOK_EVENTS).toContain('invoice.voided');
+    expect(WEBHOOK_EVENTS).toContain('credit_note.issued');
   });
 
   it('includes job events', () => {
@@ -51,3 +86,127 @@ describe('WEBHOOK_EVENTS', () => {
     expect(uniqueEvents.size).toBe(WEBHOOK_EVENTS.length);
   });
 });
+
+// ── Tests ──
+
+describe('webhook delivery', () => {
+  const mockFetch = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockQuery.mockResolvedValue(rows());
+    vi.stubGlobal('fetch', mockFetch);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('fireEvent records a pending delivery per subscribed webhook and queues it', async () => {
+    mockQuery
+      .mockResolvedValueOnce(rows(
+        { id: 3, url: 'https://hooks.example.com/in', events: ['invoice.paid'] },
+        { id: 4, url: 'https://hooks.example.com/other', events: ['job.created'] },
+      ))
+      .mockResolvedValueOnce(rows({ id: 11 }));
+
+    await fireEvent(1, 'invoice.paid', { invoice: { id: 9 } });
+
+    expect(mockQuery).toHaveBeenCalledTimes(2);
+    expect(mockQuery.mock.calls[1][1]).toEqual([3, 1, 'invoice.paid', expect.objectContaining({ event: 'invoice.paid' }), 'https://hooks.example.com/in', null]);
+    expect(mockEnqueue).toHaveBeenCalledWith('deliver-webhook', { deliveryId: 11 }, expect.objectContaining({ retryLimit: 2 }));
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('records latency and resets the failure streak on success', async () => {
+    mockQuery.mockResolvedValueOnce(rows(PENDING_DELIVERY));
+    mockFetch.mockResolvedValue({ ok: true, status: 200, text: async () => 'ok' });
+
+    await attemptDelivery(11);
+
+    const update = mockQuery.mock.calls[1];
+    expect(update[1].slice(0, 4)).toEqual(['success', 200, 'ok', null]);
+    expect(typeof update[1][4]).toBe('number');
+    expect(mockQuery.mock.calls[2][0]).toContain('consecutive_failures = 0');
+  });
+
+  it('throws on a failed attempt with retries left so the queue retries it', async () => {
+    mockQuery.mockResolvedValueOnce(rows(PENDING_DELIVERY));
+    mockFetch.mockResolvedValue({ ok: false, status: 503, text: async () => 'down' });
+
+    await expect(attemptDelivery(11)).rejects.toThrow('HTTP 503');
+    expect(mockQuery.mock.calls[1][1][0]).toBe('pending');
+    // Streak only counts settled deliveries
+    expect(mockQuery).toHaveBeenCalledTimes(2);
+  });
+
+  it('settles a failed attempt as failed when it runs outside the queue', async () => {
+    mockQuery
+      .mockResolvedValueOnce(rows(PENDING_DELIVERY))
+      .mockResolvedValueOnce(rows())
+      .mockResolvedValueOnce(rows({ consecutive_failures: 1 }));
+    mockFetch.mockResolvedValue({ ok: false, status: 503, text: async () => 'down' });
+
+    await attemptDelivery(11, { finalAttempt: true });
+    expect(mockQuery.mock.calls[1][1][0]).toBe('failed');
+    expect(mockQuery.mock.calls[2][0]).toContain('consecutive_failures + 1');
+  });
+
+  it('disables the endpoint and emails the owner once the failure streak hits the threshold', async () => {
+    mockQuery
+      .mockResolvedValueOnce(rows({ ...PENDING_DELIVERY, attempts: 2 }))
+      .mockResolvedValueOnce(rows())
+      .mockResolvedValueOnce(rows({ consecutive_failures: WEBHOOK_AUTO_DISABLE_THRESHOLD }))
+      .mockResolvedValueOnce(rows({ url: PENDING_DELIVERY.url }));
+    mockFetch.mockRejectedValue(new Error('ECONNREFUSED'));
+
+    await attemptDelivery(11);
+
+    expect(mockQuery.mock.calls[1][1][0]).toBe('failed');
+    expect(mockQuery.mock.calls[3][0]).toContain('active = false');
+    expect(mockNotifyOwnerWebhookDisabled).toHaveBeenCalledWith(1, PENDING_DELIVERY.url, WEBHOOK_AUTO_DISABLE_THRESHOLD, 'ECONNREFUSED');
+  });
+
+  it('skips deliveries that already settled', async () => {
+    mockQuery.mockResolvedValueOnce(rows({ ...PENDING_DELIVERY, status: 'success' }));
+    await attemptDelivery(11);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('replays failed deliveries in a window, refusing disabled endpoints', async () => {
+    const range = { from: new Date('2026-10-01T00:00:00Z'), to: new Date('2026-10-02T00:00:00Z') };
+
+    mockQuery.mockResolvedValueOnce(rows({ url: PENDING_DELIVERY.url, active: false }));
+    expect(await replayFailedDeliveries(3, 1, range)).toEqual(expect.objectContaining({ success: false }));
+
+    mockQuery
+      .mockResolvedValueOnce(rows({ url: PENDING_DELIVERY.url, active: true }))
+      .mockResolvedValueOnce(rows({ id: 21 }, { id: 22 }));
+    expect(await replayFailedDeliveries(3, 1, range)).toEqual({ success: true, replayed: 2 });
+    expect(mockEnqueue).toHaveBeenCalledTimes(2);
+    expect(mockEnqueue).toHaveBeenCalledWith('deliver-webhook', { deliveryId: 22 }, expect.any(Object));
+  });
+});
+
+describe('delivery log', () => {
+  const ROW = {
+    id: 11, webhook_id: 3, business_id: 1, event: 'invoice.paid', payload: { event: 'invoice.paid' }, status: 'success',
+    response_code: 200, response_body: 'ok', error_message: null, duration_ms: 40, attempts: 1,
+    url: 'https://hooks.example.com/in', last_attempt_at: null, replay_of_id: null, created_at: new Date('2026-10-01T00:00:00Z'),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockQuery.mockResolvedValue(rows(ROW));
+  });
+
+  it('keeps the snake_case rows on the per-webhook endpoint', async () => {
+    expect(await getDeliveries(3, 1, 20)).toEqual([ROW]);
+    expect(mockQuery.mock.calls[0][1]).toEqual([1, 3, 20]);
+  });
+
+  it('maps rows to camelCase for the delivery log', async () => {
+    const [entry] = await listDeliveries(1, { status: 'success' });
+    expect(entry).toMatchObject({ webhookId: 3, requestBody: { event: 'invoice.paid' }, responseCode: 200, durationMs: 40 });
+  });
+});
@@ -2,7 +2,8 @@
  * Webhook Service
  *
  * Fires webhook events to registered URLs when business events occur.
- * Supports HMAC-SHA256 signing, retry with exponential backoff, and delivery logging.
+ * Supports HMAC-SHA256 signing, queued retries with exponential backoff, delivery
+ * logging with manual replay, and auto-disabling endpoints that keep failing.
  * Compatible with Zapier, Make.com, n8n, and any webhook consumer.
  */
 
@@ -21,6 +22,9 @@ export const WEBHOOK_EVENTS = [
   'customer.updated',
   'invoice.created',
   'invoice.paid',
+  'invoice.voided',
+  'credit_note.issued',
+  'credit_note.voided',
   'job.created',
   'job.completed',
   'call.completed',
@@ -33,9 +37,16 @@ export const WEBHOOK_EVENTS = [
 
 export type WebhookEventType = typeof WEBHOOK_EVENTS[number];
 
-/** Retry configuration */
-const MAX_RETRIES = 3;
-const RETRY_DELAYS = [1000, 5000, 25000]; // 1s, 5s, 25s
+/** Delivery attempts before a delivery is marked failed — pg-boss schedules the retries */
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_SECONDS = 30; // 30s, then 60s (exponential backoff)
+const REQUEST_TIMEOUT_MS = 10000;
+
+/** Failed deliveries in a row before an endpoint is switched off and the owner emailed */
+export const WEBHOOK_AUTO_DISABLE_THRESHOLD = 10;
+
+/** Cap on a single "replay failed" request */
+const MAX_REPLAY_BATCH = 500;
 
 /**
  * Generate HMAC-SHA256 signature for webhook payload
@@ -52,14 +63,15 @@ export function generateWebhookSecret(): string {
 }
 
 /**
- * Fire a webhook event for a business
- * This is fire-and-forget — it doesn't block the caller
+ * Fire a webhook event for a business.
+ * Records a pending delivery per subscribed webhook and hands it to the job
+ * queue, so the caller never waits on the endpoint and retries survive restarts.
  */
 export async function fireEvent(businessId: number, event: string, payload: object): Promise<void> {
   try {
     // Find all active webhooks for this business that subscribe to this event
     const result = await pool.query(
-      `SELECT id, url, secret, events FROM webhooks
+      `SELECT id, url, events FROM webhooks
        WHERE business_id = $1 AND active = true`,
       [businessId]
     );
@@ -67,125 +79,216 @@ export async function fireEvent(businessId: number, event: string, payload: obje
     const webhooks = result.rows;
     if (webhooks.length === 0) return;
 
+    const fullPayload = {
+      event,
+      timestamp: new Date().toISOString(),
+      data: payload,
+    };
+
     for (const webhook of webhooks) {
       // Check if this webhook subscribes to this event type
       const subscribedEvents: string[] = Array.isArray(webhook.events) ? webhook.events : [];
       if (!subscribedEvents.includes(event)) continue;
 
-      // Decrypt the webhook secret for HMAC signing
-      const decryptedSecret = decryptField(webhook.secret) || webhook.secret;
-      // Deliver in background (don't await — fire and forget)
-      deliverWebhook(webhook.id, businessId, event, payload, webhook.url, decryptedSecret)
-        .catch(err => console.error(`[Webhook] Background delivery error for webhook ${webhook.id}:`, err));
+      const deliveryId = await createDelivery(webhook.id, businessId, event, fullPayload, webhook.url);
+      await enqueueDelivery(deliveryId);
     }
   } catch (error) {
     console.error(`[Webhook] Error firing event ${event} for business ${businessId}:`, error);
   }
 }
 
-/**
- * Deliver a webhook with retry logic
- */
-async function deliverWebhook(
+async function createDelivery(
   webhookId: number,
   businessId: number,
   event: string,
   payload: object,
   url: string,
-  secret: string
-): Promise<void> {
-  const fullPayload = {
-    event,
-    timestamp: new Date().toISOString(),
-    data: payload,
-  };
-  const payloadString = JSON.stringify(fullPayload);
-  const signature = generateSignature(payloadString, secret);
-
-  // Create delivery record
-  const deliveryResult = await pool.query(
-    `INSERT INTO webhook_deliveries (webhook_id, business_id, event, payload, status, attempts)
-     VALUES ($1, $2, $3, $4, 'pending', 0)
+  replayOfId: number | null = null
+): Promise<number> {
+  const result = await pool.query(
+    `INSERT INTO webhook_deliveries (webhook_id, business_id, event, payload, status, attempts, url, replay_of_id)
+     VALUES ($1, $2, $3, $4, 'pending', 0, $5, $6)
      RETURNING id`,
-    [webhookId, businessId, event, fullPayload]
+    [webhookId, businessId, event, payload, url, replayOfId]
   );
-  const deliveryId = deliveryResult.rows[0].id;
-
-  // Attempt delivery with retries
-  for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
-    try {
-      if (attempt > 0) {
-        // Wait before retry
-        await new Promise(resolve => setTimeout(resolve, RETRY_DELAYS[attempt - 1]));
-      }
-
-      const controller = new AbortController();
-      const timeout = setTimeout(() => controller.abort(), 10000); // 10s timeout
-
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'X-Webhook-Signature': signature,
-          'X-Webhook-Event': event,
-          'X-Webhook-Delivery': deliveryId.toString(),
-          'User-Agent': 'SmallBizAgent-Webhooks/1.0',
-        },
-        body: payloadString,
-        signal: controller.signal,
-      });
-
-      clearTimeout(timeout);
-
-      const responseBody = await response.text().catch(() => '');
-
-      // Update delivery record
-      await pool.query(
-        `UPDATE webhook_deliveries
-         SET status = $1, response_code = $2, response_body = $3, attempts = $4, last_attempt_at = NOW()
-         WHERE id = $5`,
-        [
-          response.ok ? 'success' : (attempt === MAX_RETRIES - 1 ? 'failed' : 'pending'),
-          response.status,
-          responseBody.substring(0, 1000), // Truncate response body
-          attempt + 1,
-          deliveryId,
-        ]
-      );
-
-      if (response.ok) {
-        console.log(`[Webhook] Delivered ${event} to ${url} (attempt ${attempt + 1})`);
-        return; // Success!
-      }
-
-      console.warn(`[Webhook] ${url} returned ${response.status} (attempt ${attempt + 1}/${MAX_RETRIES})`);
-    } catch (error: any) {
-      const errorMessage = error.name === 'AbortError' ? 'Request timeout (10s)' : error.message;
-
-      await pool.query(
-        `UPDATE webhook_deliveries
-         SET status = $1, response_body = $2, attempts = $3, last_attempt_at = NOW()
-         WHERE id = $4`,
-        [
-          attempt === MAX_RETRIES - 1 ? 'failed' : 'pending',
-          errorMessage.substring(0, 1000),
-          attempt + 1,
-          deliveryId,
-        ]
-      );
-
-      console.warn(`[Webhook] Delivery error to ${url} (attempt ${attempt + 1}/${MAX_RETRIES}): ${errorMessage}`);
-    }
+  return result.rows[0].id;
+}
+
+async function enqueueDelivery(deliveryId: number): Promise<void> {
+  const { enqueue } = await import('./jobQueue');
+  await enqueue('deliver-webhook', { deliveryId }, {
+    retryLimit: MAX_ATTEMPTS - 1,
+    retryDelay: RETRY_DELAY_SECONDS,
+    retryBackoff: true,
+  });
+}
+
+interface AttemptOutcome {
+  ok: boolean;
+  responseCode: number | null;
+  responseBody: string | null;
+  errorMessage: string | null;
+  durationMs: number;
+}
+
+async function postWebhook(
+  url: string,
+  body: string,
+  secret: string,
+  event: string,
+  deliveryId: number
+): Promise<AttemptOutcome> {
+  const startedAt = Date.now();
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Webhook-Signature': generateSignature(body, secret),
+        'X-Webhook-Event': event,
+        'X-Webhook-Delivery': deliveryId.toString(),
+        'User-Agent': 'SmallBizAgent-Webhooks/1.0',
+      },
+      body,
+      signal: controller.signal,
+    });
+    const responseBody = await response.text().catch(() => '');
+    return {
+      ok: response.ok,
+      responseCode: response.status,
+      responseBody: responseBody.substring(0, 1000), // Truncate response body
+      errorMessage: null,
+      durationMs: Date.now() - startedAt,
+    };
+  } catch (error: any) {
+    const errorMessage = error.name === 'AbortError' ? `Request timeout (${REQUEST_TIMEOUT_MS / 1000}s)` : error.message;
+    return {
+      ok: false,
+      responseCode: null,
+      responseBody: null,
+      errorMessage: String(errorMessage).substring(0, 1000),
+      durationMs: Date.now() - startedAt,
+    };
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+/**
+ * Make one delivery attempt. Runs as the 'deliver-webhook' queue job.
+ *
+ * Throws while attempts remain so pg-boss schedules the retry; the last
+ * attempt settles the delivery as failed instead and counts against the
+ * endpoint's consecutive failures. `finalAttempt` forces that when the job
+ * runs outside the queue and can't be retried. Test events get a single try
+ * and never count.
+ */
+export async function attemptDelivery(deliveryId: number, options: { finalAttempt?: boolean } = {}): Promise<void> {
+  const result = await pool.query(
+    `SELECT d.id, d.webhook_id, d.business_id, d.event, d.payload, d.status, d.attempts,
+            w.url, w.secret, w.active
+     FROM webhook_deliveries d
+     JOIN webhooks w ON w.id = d.webhook_id
+     WHERE d.id = $1`,
+    [deliveryId]
+  );
+  const delivery = result.rows[0];
+  // Webhook deleted, or the delivery already settled (duplicate job run)
+  if (!delivery || delivery.status !== 'pending') return;
+
+  const isTest = delivery.event === 'test';
+  if (!delivery.active && !isTest) {
+    await pool.query(
+      `UPDATE webhook_deliveries SET status = 'failed', error_message = $1 WHERE id = $2`,
+      ['Webhook was disabled before delivery', deliveryId]
+    );
+    return;
+  }
+
+  const attempt = (delivery.attempts ?? 0) + 1;
+  const secret = decryptField(delivery.secret) || delivery.secret;
+  const outcome = await postWebhook(delivery.url, JSON.stringify(delivery.payload), secret, delivery.event, deliveryId);
+  const finalAttempt = outcome.ok || isTest || attempt >= MAX_ATTEMPTS || !!options.finalAttempt;
+
+  await pool.query(
+    `UPDATE webhook_deliveries
+     SET status = $1, response_code = $2, response_body = $3, error_message = $4, duration_ms = $5,
+         attempts = $6, url = $7, last_attempt_at = NOW()
+     WHERE id = $8`,
+    [
+      outcome.ok ? 'success' : (finalAttempt ? 'failed' : 'pending'),
+      outcome.responseCode,
+      outcome.responseBody,
+      outcome.errorMessage,
+      outcome.durationMs,
+      attempt,
+      delivery.url,
+      deliveryId,
+    ]
+  );
+
+  const failure = outcome.errorMessage || `HTTP ${outcome.responseCode}`;
+  if (outcome.ok) {
+    console.log(`[Webhook] Delivered ${delivery.event} to ${delivery.url} (attempt ${attempt}, ${outcome.durationMs}ms)`);
+  } else {
+    console.warn(`[Webhook] Delivery ${deliveryId} to ${delivery.url} failed (attempt ${attempt}/${MAX_ATTEMPTS}): ${failure}`);
+  }
+
+  if (!isTest && finalAttempt) {
+    await recordEndpointOutcome(delivery.webhook_id, delivery.business_id, outcome.ok, failure);
+  }
+  if (!finalAttempt) {
+    throw new Error(`Webhook delivery ${deliveryId} attempt ${attempt} failed: ${failure}`);
   }
 }
 
 /**
- * Send a test webhook event
+ * Track consecutive failed deliveries per endpoint and switch it off once
+ * WEBHOOK_AUTO_DISABLE_THRESHOLD is reached. Only the update that actually
+ * flips `active` emails the owner, so concurrent failures send one email.
+ */
+async function recordEndpointOutcome(webhookId: number, businessId: number, ok: boolean, lastError: string): Promise<void> {
+  if (ok) {
+    await pool.query(
+      `UPDATE webhooks SET consecutive_failures = 0 WHERE id = $1 AND consecutive_failures <> 0`,
+      [webhookId]
+    );
+    return;
+  }
+
+  const counted = await pool.query(
+    `UPDATE webhooks SET consecutive_failures = consecutive_failures + 1 WHERE id = $1
+     RETURNING consecutive_failures`,
+    [webhookId]
+  );
+  const failures: number = counted.rows[0]?.consecutive_failures ?? 0;
+  if (failures < WEBHOOK_AUTO_DISABLE_THRESHOLD) return;
+
+  const disabled = await pool.query(
+    `UPDATE webhooks
+     SET active = false, disabled_at = NOW(), disabled_reason = $2, updated_at = NOW()
+     WHERE id = $1 AND active = true
+     RETURNING url`,
+    [webhookId, `${failures} consecutive failed deliveries (last: ${lastError})`.substring(0, 500)]
+  );
+  if (disabled.rows.length === 0) return;
+
+  console.warn(`[Webhook] Disabled webhook ${webhookId} for business ${businessId} after ${failures} consecutive failures`);
+  const { notifyOwnerWebhookDisabled } = await import('./ownerNotificationService');
+  await notifyOwnerWebhookDisabled(businessId, disabled.rows[0].url, failures, lastError);
+}
+
+/**
+ * Send a test webhook event. Delivered inline with a single attempt so the
+ * owner gets the endpoint's answer right away.
  */
 export async function sendTestEvent(webhookId: number, businessId: number): Promise<{ success: boolean; error?: string }> {
   try {
     const result = await pool.query(
-      `SELECT url, secret, events FROM webhooks WHERE id = $1 AND business_id = $2`,
+      `SELECT url FROM webhooks WHERE id = $1 AND business_id = $2`,
       [webhookId, businessId]
     );
 
@@ -193,21 +296,107 @@ export async function sendTestEvent(webhookId: number, businessId: number): Prom
       return { success: false, error: 'Webhook not found' };
     }
 
-    const webhook = result.rows[0];
     const testPayload = {
-      message: 'This is a test webhook delivery from SmallBizAgent',
-      webhookId,
-      businessId,
+      event: 'test',
+      timestamp: new Date().toISOString(),
+      data: {
+        message: 'This is a test webhook delivery from SmallBizAgent',
+        webhookId,
+        businessId,
+      },
     };
 
-    const decryptedSecret = decryptField(webhook.secret) || webhook.secret;
-    await deliverWebhook(webhookId, businessId, 'test', testPayload, webhook.url, decryptedSecret);
+    const deliveryId = await createDelivery(webhookId, businessId, 'test', testPayload, result.rows[0].url);
+    await attemptDelivery(deliveryId);
+
+    const delivery = await pool.query(
+      `SELECT status, response_code, error_message FROM webhook_deliveries WHERE id = $1`,
+      [deliveryId]
+    );
+    const row = delivery.rows[0];
+    if (row?.status !== 'success') {
+      return { success: false, error: row?.error_message || `Endpoint responded with HTTP ${row?.response_code}` };
+    }
     return { success: true };
   } catch (error: any) {
     return { success: false, error: error.message };
   }
 }
 
+/**
+ * Re-send a past delivery's payload as a new delivery. Replays always point
+ * back at the original, so a chain of replays stays grouped.
+ */
+export async function replayDelivery(
+  deliveryId: number,
+  businessId: number
+): Promise<{ success: boolean; error?: string; deliveryId?: number }> {
+  const result = await pool.query(
+    `SELECT d.id, d.webhook_id, d.event, d.payload, d.replay_of_id, w.url, w.active
+     FROM webhook_deliveries d
+     JOIN webhooks w ON w.id = d.webhook_id
+     WHERE d.id = $1 AND d.business_id = $2`,
+    [deliveryId, businessId]
+  );
+  const original = result.rows[0];
+  if (!original) {
+    return { success: false, error: 'Delivery not found' };
+  }
+  if (!original.active) {
+    return { success: false, error: 'Webhook is disabled — re-enable it before replaying' };
+  }
+
+  const replayId = await createDelivery(
+    original.webhook_id, businessId, original.event, original.payload, original.url,
+    original.replay_of_id ?? original.id
+  );
+  await enqueueDelivery(replayId);
+  return { success: true, deliveryId: replayId };
+}
+
+/**
+ * Replay every failed delivery for a webhook created in [from, to). Skips
+ * test events and deliveries that already have a pending or successful replay,
+ * so running it twice over the same window doesn't double-send.
+ */
+export async function replayFailedDeliveries(
+  webhookId: number,
+  businessId: number,
+  range: { from: Date; to: Date }
+): Promise<{ success: boolean; error?: string; replayed?: number }> {
+  const webhook = await pool.query(
+    `SELECT url, active FROM webhooks WHERE id = $1 AND business_id = $2`,
+    [webhookId, businessId]
+  );
+  if (webhook.rows.length === 0) {
+    return { success: false, error: 'Webhook not found' };
+  }
+  if (!webhook.rows[0].active) {
+    return { success: false, error: 'Webhook is disabled — re-enable it before replaying' };
+  }
+
+  const inserted = await pool.query(
+    `INSERT INTO webhook_deliveries (webhook_id, business_id, event, payload, status, attempts, url, replay_of_id)
+     SELECT d.webhook_id, d.business_id, d.event, d.payload, 'pending', 0, $5, d.id
+     FROM webhook_deliveries d
+     WHERE d.webhook_id = $1 AND d.business_id = $2
+       AND d.status = 'failed' AND d.event <> 'test' AND d.replay_of_id IS NULL
+       AND d.created_at >= $3 AND d.created_at < $4
+       AND NOT EXISTS (
+         SELECT 1 FROM webhook_deliveries r WHERE r.replay_of_id = d.id AND r.status <> 'failed'
+       )
+     ORDER BY d.created_at
+     LIMIT ${MAX_REPLAY_BATCH}
+     RETURNING id`,
+    [webhookId, businessId, range.from, range.to, webhook.rows[0].url]
+  );
+
+  for (const row of inserted.rows) {
+    await enqueueDelivery(row.id);
+  }
+  return { success: true, replayed: inserted.rows.length };
+}
+
 /**
  * Get webhooks for a business
  */
@@ -256,6 +445,10 @@ export async function updateWebhook(webhookId: number, businessId: number, data:
   if (data.active !== undefined) {
     setClauses.push(`active = $${paramIndex++}`);
     values.push(data.active);
+    if (data.active) {
+      // Re-enabling gives an auto-disabled endpoint a clean slate
+      setClauses.push(`consecutive_failures = 0`, `disabled_at = NULL`, `disabled_reason = NULL`);
+    }
   }
   if (data.description !== undefined) {
     setClauses.push(`description = $${paramIndex++}`);
@@ -288,20 +481,111 @@ export async function deleteWebhook(webhookId: number, businessId: number) {
   return result.rows.length > 0;
 }
 
-/**
- * Get delivery log for a webhook
- */
-export async function getDeliveries(webhookId: number, businessId: number, limit = 50) {
+export interface DeliveryLogFilters {
+  webhookId?: number;
+  status?: 'pending' | 'success' | 'failed';
+  event?: string;
+  from?: Date;
+  to?: Date;
+  /** Keyset cursor — only deliveries with a smaller id */
+  beforeId?: number;
+  limit?: number;
+}
+
+/** A delivery as shown in the delivery log (camelCase, request body included) */
+export interface DeliveryLogEntry {
+  id: number;
+  webhookId: number;
+  event: string;
+  status: string;
+  url: string | null;
+  requestBody: unknown;
+  responseCode: number | null;
+  responseBody: string | null;
+  errorMessage: string | null;
+  durationMs: number | null;
+  attempts: number;
+  lastAttemptAt: Date | null;
+  replayOfId: number | null;
+  createdAt: Date;
+}
+
+function toLogEntry(row: any): DeliveryLogEntry {
+  return {
+    id: row.id,
+    webhookId: row.webhook_id,
+    event: row.event,
+    status: row.status,
+    url: row.url ?? null,
+    requestBody: row.payload,
+    responseCode: row.response_code ?? null,
+    responseBody: row.response_body ?? null,
+    errorMessage: row.error_message ?? null,
+    durationMs: row.duration_ms ?? null,
+    attempts: row.attempts ?? 0,
+    lastAttemptAt: row.last_attempt_at ?? null,
+    replayOfId: row.replay_of_id ?? null,
+    createdAt: row.created_at,
+  };
+}
+
+/** Raw webhook_deliveries rows for a business, newest first */
+async function queryDeliveries(businessId: number, filters: DeliveryLogFilters): Promise<any[]> {
+  const conditions = ['business_id = $1'];
+  const values: any[] = [businessId];
+
+  if (filters.webhookId !== undefined) {
+    values.push(filters.webhookId);
+    conditions.push(`webhook_id = $${values.length}`);
+  }
+  if (filters.status) {
+    values.push(filters.status);
+    conditions.push(`status = $${values.length}`);
+  }
+  if (filters.event) {
+    values.push(filters.event);
+    conditions.push(`event = $${values.length}`);
+  }
+  if (filters.from) {
+    values.push(filters.from);
+    conditions.push(`created_at >= $${values.length}`);
+  }
+  if (filters.to) {
+    values.push(filters.to);
+    conditions.push(`created_at < $${values.length}`);
+  }
+  if (filters.beforeId !== undefined) {
+    values.push(filters.beforeId);
+    conditions.push(`id < $${values.length}`);
+  }
+  values.push(Math.min(Math.max(filters.limit ?? 50, 1), 200));
+
   const result = await pool.query(
     `SELECT * FROM webhook_deliveries
-     WHERE webhook_id = $1 AND business_id = $2
-     ORDER BY created_at DESC
-     LIMIT $3`,
-    [webhookId, businessId, limit]
+     WHERE ${conditions.join(' AND ')}
+     ORDER BY id DESC
+     LIMIT $${values.length}`,
+    values
   );
   return result.rows;
 }
 
+/**
+ * Delivery log for a business, newest first, optionally narrowed to one
+ * webhook, status, event or time window.
+ */
+export async function listDeliveries(businessId: number, filters: DeliveryLogFilters = {}): Promise<DeliveryLogEntry[]> {
+  return (await queryDeliveries(businessId, filters)).map(toLogEntry);
+}
+
+/**
+ * Get delivery log for a webhook. Keeps the original snake_case row shape
+ * that `GET /api/webhooks/:id/deliveries` has always returned.
+ */
+export async function getDeliveries(webhookId: number, businessId: number, limit = 50) {
+  return queryDeliveries(businessId, { webhookId, limit });
+}
+
 export default {
   fireEvent,
   sendTestEvent,
@@ -310,6 +594,9 @@ export default {
   updateWebhook,
   deleteWebhook,
   getDeliveries,
+  listDeliveries,
+  replayDelivery,
+  replayFailedDeliveries,
   generateWebhookSecret,
   WEBHOOK_EVENTS,
 };
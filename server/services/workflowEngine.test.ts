@@ -0,0 +1,251 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// ── Mocks (vi.hoisted ensures they're available when vi.mock factories run) ──
+
+const { mockStorage, mockSendEmail, mockLogAgentAction } = vi.hoisted(() => ({
+  mockStorage: {
+    getWorkflow: vi.fn(),
+    getWorkflowRun: vi.fn(),
+    updateWorkflowRun: vi.fn(),
+    getCustomer: vi.fn(),
+    updateCustomer: vi.fn(),
+    getBusiness: vi.fn(),
+    getInvoice: vi.fn(),
+    getActiveMembershipByCustomer: vi.fn(),
+    getLatestOutboundMessageForCustomer: vi.fn(),
+    getLatestInboundMessageForCustomer: vi.fn(),
+    createMarketingTrigger: vi.fn(),
+    createSmsActivityFeedEntry: vi.fn(),
+  },
+  mockSendEmail: vi.fn(),
+  mockLogAgentAction: vi.fn(),
+}));
+
+vi.mock('../storage', () => ({ storage: mockStorage }));
+vi.mock('../emailService', () => ({ sendEmail: mockSendEmail }));
+vi.mock('./agentActivityService', () => ({ logAgentAction: mockLogAgentAction }));
+vi.mock('./stripeConnectService', () => ({ stripeConnectService: {} }));
+vi.mock('../utils/urlSafety', () => ({ resolvesToPublicAddress: vi.fn().mockResolvedValue(true) }));
+
+import {
+  getStepAtCursor,
+  nextCursor,
+  formatCursorPath,
+  evaluateCondition,
+  advanceWorkflowRun,
+  WORKFLOW_TEMPLATES,
+  type WorkflowStep,
+} from './workflowEngine';
+
+// ── Test Data ──
+
+const TREE: WorkflowStep[] = [
+  { type: 'wait', config: { delayMinutes: 60 } },
+  {
+    type: 'if',
+    config: {
+      condition: { type: 'tag_present', tag: 'VIP' },
+      then: [
+        { type: 'add_tag', config: { tag: 'Priority' } },
+        { type: 'send_sms', config: { messageType: 'FOLLOW_UP_THANK_YOU' } },
+      ],
+      else: [],
+    },
+  },
+  { type: 'create_task_for_owner', config: { title: 'Call {customerName}' } },
+];
+
+const CUSTOMER = { id: 10, businessId: 1, firstName: 'Jane', lastName: 'Doe', email: 'jane@example.com', phone: '+15559876543', tags: '["VIP"]' };
+const BUSINESS = { id: 1, name: 'Cool Air HVAC', phone: '+15551234567', email: 'owner@coolair.test' };
+
+function makeRun(overrides: Record<string, any> = {}) {
+  return {
+    id: 500,
+    workflowId: 7,
+    businessId: 1,
+    customerId: 10,
+    triggerReferenceType: null,
+    triggerReferenceId: null,
+    currentStep: 0,
+    status: 'active',
+    context: {},
+    ...overrides,
+  };
+}
+
+/**
+ * updateWorkflowRun is called with partial patches; feed them back into the
+ * run that getWorkflowRun returns so recursive advances see the latest cursor.
+ */
+function wireRunState(initial: ReturnType<typeof makeRun>) {
+  let current: any = { ...initial };
+  mockStorage.getWorkflowRun.mockImplementation(async () => current);
+  mockStorage.updateWorkflowRun.mockImplementation(async (_id: number, patch: any) => {
+    current = { ...current, ...patch };
+    return current;
+  });
+  return () => current;
+}
+
+// ── Tests ──
+
+describe('workflowEngine', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockStorage.getWorkflow.mockResolvedValue({ id: 7, businessId: 1, name: 'VIP Flow', steps: TREE, status: 'active' });
+    mockStorage.getCustomer.mockResolvedValue(CUSTOMER);
+    mockStorage.getBusiness.mockResolvedValue(BUSINESS);
+    mockStorage.createSmsActivityFeedEntry.mockResolvedValue({ id: 1 });
+    mockStorage.createMarketingTrigger.mockResolvedValue({ id: 1 });
+  });
+
+  describe('tree navigation', () => {
+    it('resolves top-level and nested steps', () => {
+      expect(getStepAtCursor(TREE, [{ index: 0 }])?.type).toBe('wait');
+      expect(getStepAtCursor(TREE, [{ index: 1, branch: 'then' }, { index: 1 }])?.type).toBe('send_sms');
+      expect(getStepAtCursor(TREE, [{ index: 3 }])).toBeNull();
+    });
+
+    it('pops out of an exhausted branch to the step after the if', () => {
+      expect(nextCursor(TREE, [{ index: 1, branch: 'then' }, { index: 0 }])).toEqual([{ index: 1, branch: 'then' }, { index: 1 }]);
+      expect(nextCursor(TREE, [{ index: 1, branch: 'then' }, { index: 1 }])).toEqual([{ index: 2 }]);
+    });
+
+    it('formats dotted paths for history', () => {
+      expect(formatCursorPath([{ index: 1, branch: 'else' }, { index: 0 }])).toBe('1.else.0');
+    });
+
+    it('keeps every template inside the step types the engine understands', () => {
+      const known = new Set(['wait', 'send_sms', 'send_email', 'create_task_for_owner', 'add_tag', 'webhook', 'if']);
+      const walk = (steps: WorkflowStep[]): void => steps.forEach(step => {
+        expect(known.has(step.type)).toBe(true);
+        if (step.type === 'if') {
+          walk(step.config.then);
+          walk(step.config.else);
+        }
+      });
+      WORKFLOW_TEMPLATES.forEach(t => walk(t.steps));
+      expect(WORKFLOW_TEMPLATES.some(t => t.steps.some(s => s.type === 'if'))).toBe(true);
+    });
+  });
+
+  describe('evaluateCondition', () => {
+    it('matches tags case-insensitively and honours negate', async () => {
+      const run = makeRun() as any;
+      expect(await evaluateCondition({ type: 'tag_present', tag: 'vip' }, run, CUSTOMER as any)).toBe(true);
+      expect(await evaluateCondition({ type: 'tag_present', tag: 'vip', negate: true }, run, CUSTOMER as any)).toBe(false);
+    });
+
+    it('treats an invoice from the trigger reference as unpaid until paid', async () => {
+      const run = makeRun({ triggerReferenceType: 'invoice', triggerReferenceId: 44 }) as any;
+      mockStorage.getInvoice.mockResolvedValue({ id: 44, businessId: 1, status: 'overdue', total: 100, amountPaid: 0 });
+      expect(await evaluateCondition({ type: 'invoice_unpaid' }, run, CUSTOMER as any)).toBe(true);
+
+      mockStorage.getInvoice.mockResolvedValue({ id: 44, businessId: 1, status: 'paid', total: 100, amountPaid: 100 });
+      expect(await evaluateCondition({ type: 'invoice_unpaid' }, run, CUSTOMER as any)).toBe(false);
+
+      // Settled by a credit note — nothing left to collect
+      mockStorage.getInvoice.mockResolvedValue({ id: 44, businessId: 1, status: 'pending', total: 100, amountPaid: 0, creditedAmount: 100 });
+      expect(await evaluateCondition({ type: 'invoice_unpaid' }, run, CUSTOMER as any)).toBe(false);
+    });
+
+    it('detects a reply newer than the last outbound SMS', async () => {
+      const run = makeRun() as any;
+      mockStorage.getLatestOutboundMessageForCustomer.mockResolvedValue({ sentAt: new Date('2026-01-01T10:00:00Z') });
+      mockStorage.getLatestInboundMessageForCustomer.mockResolvedValue({ receivedAt: new Date('2026-01-01T11:00:00Z') });
+      expect(await evaluateCondition({ type: 'replied_to_last_sms' }, run, CUSTOMER as any)).toBe(true);
+
+      mockStorage.getLatestInboundMessageForCustomer.mockResolvedValue({ receivedAt: new Date('2026-01-01T09:00:00Z') });
+      expect(await evaluateCondition({ type: 'replied_to_last_sms' }, run, CUSTOMER as any)).toBe(false);
+    });
+
+    it('checks for an active membership', async () => {
+      mockStorage.getActiveMembershipByCustomer.mockResolvedValue(undefined);
+      expect(await evaluateCondition({ type: 'membership_active' }, makeRun() as any, CUSTOMER as any)).toBe(false);
+    });
+  });
+
+  describe('advanceWorkflowRun', () => {
+    it('takes the then-branch, records it, and runs through to completion', async () => {
+      const getRun = wireRunState(makeRun({ currentStep: 1 }));
+
+      await advanceWorkflowRun(500);
+
+      const run = getRun();
+      expect(run.status).toBe('completed');
+      expect(run.context.branches).toEqual([
+        expect.objectContaining({ path: '1', condition: 'tag_present', result: true, branch: 'then' }),
+      ]);
+      expect(mockStorage.updateCustomer).toHaveBeenCalledWith(10, { tags: JSON.stringify(['VIP', 'Priority']) });
+      expect(mockStorage.createMarketingTrigger).toHaveBeenCalledWith(expect.objectContaining({
+        messageType: 'FOLLOW_UP_THANK_YOU',
+        context: expect.not.objectContaining({ cursor: expect.anything() }),
+      }));
+      expect(mockStorage.createSmsActivityFeedEntry).toHaveBeenCalledWith(expect.objectContaining({
+        eventType: 'owner_task',
+        metadata: expect.objectContaining({ title: 'Call Jane Doe', workflowRunId: 500 }),
+      }));
+    });
+
+    it('falls through an empty else-branch to the next top-level step', async () => {
+      mockStorage.getCustomer.mockResolvedValue({ ...CUSTOMER, tags: '[]' });
+      const getRun = wireRunState(makeRun({ currentStep: 1 }));
+
+      await advanceWorkflowRun(500);
+
+      const run = getRun();
+      expect(run.context.branches[0].branch).toBe('else');
+      expect(mockStorage.updateCustomer).not.toHaveBeenCalled();
+      expect(mockStorage.createSmsActivityFeedEntry).toHaveBeenCalledTimes(1);
+      expect(run.status).toBe('completed');
+    });
+
+    it('parks on a wait step with the cursor past it', async () => {
+      const getRun = wireRunState(makeRun());
+
+      await advanceWorkflowRun(500);
+
+      const run = getRun();
+      expect(run.status).toBe('active');
+      expect(run.nextStepAt).toBeInstanceOf(Date);
+      expect(run.context.cursor).toEqual([{ index: 1 }]);
+      expect(run.currentStep).toBe(1);
+    });
+
+    it('keeps going when an inline email step has no address to send to', async () => {
+      mockStorage.getWorkflow.mockResolvedValue({
+        id: 7, businessId: 1, name: 'Email', status: 'active',
+        steps: [{ type: 'send_email', config: { subject: 'Hi', body: 'Hello {firstName}' } }],
+      });
+      mockStorage.getCustomer.mockResolvedValue({ ...CUSTOMER, email: null });
+      const getRun = wireRunState(makeRun());
+
+      await advanceWorkflowRun(500);
+
+      expect(mockSendEmail).not.toHaveBeenCalled();
+      expect(getRun().status).toBe('completed');
+    });
+
+    it('does not follow a redirect from a webhook step', async () => {
+      mockStorage.getWorkflow.mockResolvedValue({
+        id: 7, businessId: 1, name: 'Hook', status: 'active',
+        steps: [{ type: 'webhook', config: { url: 'https://hooks.example.com/in' } }],
+      });
+      const fetchMock = vi.fn().mockResolvedValue(new Response(null, {
+        status: 302, headers: { location: 'http://169.254.169.254/latest/meta-data' },
+      }));
+      vi.stubGlobal('fetch', fetchMock);
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const getRun = wireRunState(makeRun());
+
+      await advanceWorkflowRun(500);
+      vi.unstubAllGlobals();
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(fetchMock).toHaveBeenCalledWith('https://hooks.example.com/in', expect.objectContaining({ redirect: 'manual' }));
+      expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining('(webhook) failed'), expect.any(Error));
+      expect(getRun().status).toBe('completed');
+      errorSpy.mockRestore();
+    });
+  });
+});
@@ -2,19 +2,31 @@
  * Workflow Engine
  *
  * Core engine for user-configured automation workflows.
- * Workflows are sequences of steps (wait, send_sms) triggered by business events.
+ * Workflows are trees of steps (wait, send_sms, send_email, create_task_for_owner,
+ * add_tag, webhook, if) triggered by business events.
  *
  * Execution flow:
  * 1. Orchestrator fires event (e.g., appointment.completed)
  * 2. startWorkflowRun() creates a run and advances to first step
  * 3. Wait steps set nextStepAt — scheduler picks them up later
  * 4. SMS steps create marketing_trigger rows — existing trigger engine sends them
- * 5. After trigger sends, trigger engine calls advanceWorkflowRun() → next step
- * 6. Run completes when all steps are done
+ * 5. Email / task / tag / webhook steps execute inline and advance immediately
+ * 6. `if` steps evaluate a condition and descend into their then/else branch
+ * 7. Run completes when all steps are done
+ *
+ * Position inside the tree is tracked as a cursor in `workflowRuns.context.cursor`
+ * (one frame per nesting level). `currentStep` mirrors the top-level index so
+ * runs started before branching existed keep working unchanged. Every branch
+ * decision is appended to `context.branches` so run history shows the path taken.
  */
 
 import { storage } from '../storage';
-import type { Workflow, WorkflowRun } from '@shared/schema';
+import type { Customer, Workflow, WorkflowRun } from '@shared/schema';
+import { sendEmail } from '../emailService';
+import { logAgentAction } from './agentActivityService';
+import { fillTemplate } from './agentSettingsService';
+import { getBalanceDue } from './invoicePaymentService';
+import { resolvesToPublicAddress } from '../utils/urlSafety';
 
 // ─── Step Types ──────────────────────────────────────────────────────────────
 
@@ -33,7 +45,83 @@ interface SendSmsStep {
   };
 }
 
-type WorkflowStep = WaitStep | SendSmsStep;
+interface SendEmailStep {
+  type: 'send_email';
+  config: {
+    subject: string;
+    body: string; // Supports {customerName}, {firstName}, {businessName}, {businessPhone}
+  };
+}
+
+interface CreateTaskForOwnerStep {
+  type: 'create_task_for_owner';
+  config: {
+    title: string;
+    details?: string;
+  };
+}
+
+interface AddTagStep {
+  type: 'add_tag';
+  config: {
+    tag: string;
+  };
+}
+
+interface WebhookStep {
+  type: 'webhook';
+  config: {
+    url: string;
+  };
+}
+
+export type WorkflowConditionType =
+  | 'tag_present'
+  | 'invoice_unpaid'
+  | 'replied_to_last_sms'
+  | 'membership_active'
+  | 'context_equals';
+
+export interface WorkflowCondition {
+  type: WorkflowConditionType;
+  tag?: string; // tag_present
+  key?: string; // context_equals — key in run context
+  value?: string | number | boolean; // context_equals — expected value
+  negate?: boolean;
+}
+
+interface IfStep {
+  type: 'if';
+  config: {
+    condition: WorkflowCondition;
+    then: WorkflowStep[];
+    else: WorkflowStep[];
+  };
+}
+
+export type WorkflowStep =
+  | WaitStep
+  | SendSmsStep
+  | SendEmailStep
+  | CreateTaskForOwnerStep
+  | AddTagStep
+  | WebhookStep
+  | IfStep;
+
+/**
+ * One frame per nesting level. Every frame except the last points at an `if`
+ * step and names the branch being executed; the last frame is the step to run.
+ */
+export type WorkflowCursorFrame = { index: number; branch?: 'then' | 'else' };
+export type WorkflowCursor = WorkflowCursorFrame[];
+
+export interface WorkflowBranchRecord {
+  path: string; // e.g. "2" or "2.then.0"
+  condition: WorkflowConditionType;
+  result: boolean;
+  branch: 'then' | 'else';
+  evaluatedAt: string;
+}
 
 // ─── Templates ───────────────────────────────────────────────────────────────
 
@@ -113,8 +201,327 @@ export const WORKFLOW_TEMPLATES: WorkflowTemplate[] = [
       { type: 'send_sms', config: { messageType: 'FOLLOW_UP_UPSELL', messagePrompt: 'Suggest a complementary service they have not tried yet.' } },
     ],
   },
+  {
+    id: 'smart_invoice_collection',
+    name: 'Smart Invoice Collection',
+    description: 'Remind about an overdue invoice, then escalate to the owner only if it is still unpaid a week later.',
+    triggerEvent: 'invoice.overdue',
+    steps: [
+      { type: 'send_sms', config: { messageType: 'INVOICE_COLLECTION_REMINDER', messagePrompt: 'Friendly reminder about the outstanding invoice. Include the payment link.' } },
+      { type: 'wait', config: { delayMinutes: 4320 } }, // 3 days
+      {
+        type: 'if',
+        config: {
+          condition: { type: 'invoice_unpaid' },
+          then: [
+            { type: 'send_email', config: { subject: 'Your invoice from {businessName} is past due', body: 'Hi {firstName},\n\nThis is a reminder that your invoice from {businessName} is still open. Please use the payment link we texted you, or call us at {businessPhone} with any questions.\n\nThank you!' } },
+            { type: 'wait', config: { delayMinutes: 5760 } }, // 4 more days (day 7)
+            {
+              type: 'if',
+              config: {
+                condition: { type: 'invoice_unpaid' },
+                then: [
+                  { type: 'add_tag', config: { tag: 'Collections' } },
+                  { type: 'create_task_for_owner', config: { title: 'Call {customerName} about overdue invoice', details: 'Invoice is still unpaid after an SMS and an email reminder.' } },
+                ],
+                else: [],
+              },
+            },
+          ],
+          else: [],
+        },
+      },
+    ],
+  },
+  {
+    id: 'reply_aware_review_request',
+    name: 'Reply-Aware Review Request',
+    description: 'Thank the customer, then ask for a review only if they engaged — otherwise flag them for a personal check-in.',
+    triggerEvent: 'job.completed',
+    steps: [
+      { type: 'wait', config: { delayMinutes: 60 } }, // 1 hour
+      { type: 'send_sms', config: { messageType: 'FOLLOW_UP_THANK_YOU', messagePrompt: 'Thank the customer and ask how everything went.' } },
+      { type: 'wait', config: { delayMinutes: 1440 } }, // 1 day
+      {
+        type: 'if',
+        config: {
+          condition: { type: 'replied_to_last_sms' },
+          then: [
+            { type: 'send_sms', config: { messageType: 'REVIEW_REQUEST', messagePrompt: 'They replied to our thank-you. Ask for a Google review.' } },
+          ],
+          else: [
+            { type: 'create_task_for_owner', config: { title: 'Check in with {customerName}', details: 'No reply to the post-job thank-you text.' } },
+          ],
+        },
+      },
+    ],
+  },
+  {
+    id: 'member_aware_rebooking',
+    name: 'Member-Aware Rebooking',
+    description: 'Members get a priority rebooking text; everyone else gets a nudge and a membership pitch by email.',
+    triggerEvent: 'appointment.completed',
+    steps: [
+      { type: 'wait', config: { delayMinutes: 30240 } }, // 21 days
+      {
+        type: 'if',
+        config: {
+          condition: { type: 'membership_active' },
+          then: [
+            { type: 'send_sms', config: { messageType: 'REBOOKING_NUDGE', messagePrompt: 'They are a member. Offer priority scheduling for their next visit.' } },
+          ],
+          else: [
+            { type: 'send_sms', config: { messageType: 'REBOOKING_NUDGE', messagePrompt: 'Time for another visit? Mention their usual service.' } },
+            { type: 'send_email', config: { subject: 'Save on every visit with {businessName}', body: 'Hi {firstName},\n\nDid you know {businessName} offers a membership with priority scheduling and member discounts? Ask us about it next time you visit or call {businessPhone}.' } },
+          ],
+        },
+      },
+    ],
+  },
 ];
 
+// ─── Tree Navigation ─────────────────────────────────────────────────────────
+
+/**
+ * Resolve the step the cursor points at, or null if the cursor has run off
+ * the end of its step list (or the tree changed underneath an active run).
+ */
+export function getStepAtCursor(steps: WorkflowStep[], cursor: WorkflowCursor): WorkflowStep | null {
+  let list = steps;
+  for (let depth = 0; depth < cursor.length; depth++) {
+    const frame = cursor[depth];
+    const step = list[frame.index];
+    if (!step) return null;
+    if (depth === cursor.length - 1) return step;
+    if (step.type !== 'if' || !frame.branch) return null;
+    list = step.config[frame.branch] || [];
+  }
+  return null;
+}
+
+/**
+ * Move the cursor past the current step. When the end of a branch is reached
+ * we pop back out to the enclosing `if` and continue after it. Returns the
+ * cursor unchanged in shape (one frame) once the top-level list is exhausted.
+ */
+export function nextCursor(steps: WorkflowStep[], cursor: WorkflowCursor): WorkflowCursor {
+  const next = cursor.map(frame => ({ ...frame }));
+  next[next.length - 1].index++;
+  delete next[next.length - 1].branch;
+
+  while (next.length > 1) {
+    const parent = next.slice(0, -1);
+    const parentStep = getStepAtCursor(steps, parent);
+    const branch = parent[parent.length - 1].branch;
+    const branchSteps = parentStep?.type === 'if' && branch ? parentStep.config[branch] || [] : [];
+    if (next[next.length - 1].index < branchSteps.length) break;
+    // Branch exhausted — step past the enclosing `if`
+    next.pop();
+    next[next.length - 1].index++;
+    delete next[next.length - 1].branch;
+  }
+
+  return next;
+}
+
+/** Dotted path for history, e.g. [{2,'then'},{0}] → "2.then.0". */
+export function formatCursorPath(cursor: WorkflowCursor): string {
+  return cursor.map(f => (f.branch ? `${f.index}.${f.branch}` : `${f.index}`)).join('.');
+}
+
+function getRunCursor(run: WorkflowRun): WorkflowCursor {
+  const ctx = (run.context || {}) as Record<string, any>;
+  if (Array.isArray(ctx.cursor) && ctx.cursor.length > 0) return ctx.cursor as WorkflowCursor;
+  // Runs started before branching support only have a flat step index
+  return [{ index: run.currentStep || 0 }];
+}
+
+function parseTags(raw: string | null | undefined): string[] {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return [];
+  }
+}
+
+// ─── Conditions ──────────────────────────────────────────────────────────────
+
+/**
+ * Evaluate an `if` condition against the customer and run context.
+ * Missing data (no invoice on the run, customer deleted) evaluates to false.
+ */
+export async function evaluateCondition(
+  condition: WorkflowCondition,
+  run: WorkflowRun,
+  customer: Customer | undefined,
+): Promise<boolean> {
+  const ctx = (run.context || {}) as Record<string, any>;
+  let result = false;
+
+  switch (condition.type) {
+    case 'tag_present': {
+      const wanted = (condition.tag || '').trim().toLowerCase();
+      result = !!wanted && parseTags(customer?.tags).some(t => t.trim().toLowerCase() === wanted);
+      break;
+    }
+    case 'invoice_unpaid': {
+      const invoiceId = run.triggerReferenceType === 'invoice'
+        ? run.triggerReferenceId
+        : (ctx.invoiceId as number | undefined);
+      if (invoiceId) {
+        const invoice = await storage.getInvoice(invoiceId);
+        // Unpaid means money still owed — not paid, credited in full or void
+        result = !!invoice && invoice.businessId === run.businessId && getBalanceDue(invoice) > 0;
+      }
+      break;
+    }
+    case 'replied_to_last_sms': {
+      const [lastOut, lastIn] = await Promise.all([
+        storage.getLatestOutboundMessageForCustomer(run.businessId, run.customerId),
+        storage.getLatestInboundMessageForCustomer(run.businessId, run.customerId),
+      ]);
+      if (lastOut && lastIn) {
+        const sentAt = new Date(lastOut.sentAt || lastOut.createdAt || 0).getTime();
+        const receivedAt = new Date(lastIn.receivedAt || lastIn.createdAt || 0).getTime();
+        result = receivedAt > sentAt;
+      }
+      break;
+    }
+    case 'membership_active': {
+      const membership = await storage.getActiveMembershipByCustomer(run.customerId, run.businessId);
+      result = !!membership && membership.status === 'active';
+      break;
+    }
+    case 'context_equals': {
+      result = !!condition.key && String(ctx[condition.key]) === String(condition.value);
+      break;
+    }
+    default:
+      console.error(`[WorkflowEngine] Unknown condition type: ${(condition as any).type}`);
+  }
+
+  return condition.negate ? !result : result;
+}
+
+// ─── Inline Step Executors ───────────────────────────────────────────────────
+
+function templateVars(customer: Customer, business: { name: string; phone?: string | null }): Record<string, string> {
+  return {
+    customerName: `${customer.firstName} ${customer.lastName}`.trim(),
+    firstName: customer.firstName,
+    businessName: business.name,
+    businessPhone: business.phone || '',
+  };
+}
+
+async function executeSendEmail(step: SendEmailStep, run: WorkflowRun, customer: Customer | undefined): Promise<void> {
+  if (!customer?.email) {
+    console.log(`[WorkflowEngine] Run ${run.id}: customer has no email — skipping send_email`);
+    return;
+  }
+  const business = await storage.getBusiness(run.businessId);
+  if (!business) return;
+
+  const vars = templateVars(customer, business);
+  await sendEmail({
+    to: customer.email,
+    subject: fillTemplate(step.config.subject, vars),
+    text: fillTemplate(step.config.body, vars),
+    senderName: business.name,
+    replyTo: business.email || undefined,
+  });
+}
+
+async function executeCreateTask(step: CreateTaskForOwnerStep, run: WorkflowRun, workflow: Workflow, customer: Customer | undefined): Promise<void> {
+  const business = await storage.getBusiness(run.businessId);
+  const vars = customer && business ? templateVars(customer, business) : {};
+  const title = fillTemplate(step.config.title, vars);
+
+  // Owner tasks surface in the owner activity feed (unread until acknowledged)
+  await storage.createSmsActivityFeedEntry({
+    businessId: run.businessId,
+    eventType: 'owner_task',
+    customerId: run.customerId,
+    customerName: customer ? `${customer.firstName} ${customer.lastName}`.trim() : null,
+    metadata: {
+      title,
+      details: step.config.details ? fillTemplate(step.config.details, vars) : null,
+      workflowId: workflow.id,
+      workflowName: workflow.name,
+      workflowRunId: run.id,
+    },
+  });
+  await logAgentAction({
+    businessId: run.businessId,
+    agentType: 'workflow',
+    action: 'owner_task_created',
+    customerId: run.customerId,
+    referenceType: 'workflow_run',
+    referenceId: run.id,
+    details: { title },
+  });
+}
+
+async function executeAddTag(step: AddTagStep, run: WorkflowRun, customer: Customer | undefined): Promise<void> {
+  const tag = step.config.tag.trim();
+  if (!customer || !tag) return;
+  const tags = parseTags(customer.tags);
+  if (tags.some(t => t.toLowerCase() === tag.toLowerCase())) return;
+  await storage.updateCustomer(customer.id, { tags: JSON.stringify([...tags, tag]) });
+}
+
+async function executeWebhook(step: WebhookStep, run: WorkflowRun, workflow: Workflow, customer: Customer | undefined): Promise<void> {
+  const { cursor: _cursor, branches, ...runContext } = (run.context || {}) as Record<string, any>;
+  // The URL was checked when the workflow was saved, but its host may now
+  // resolve to an internal address
+  if (!(await resolvesToPublicAddress(step.config.url))) {
+    throw new Error(`Webhook URL ${step.config.url} does not resolve to a public address`);
+  }
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), 10000); // 10s timeout
+  try {
+    const response = await fetch(step.config.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Webhook-Event': 'workflow.step',
+        'User-Agent': 'SmallBizAgent-Webhooks/1.0',
+      },
+      body: JSON.stringify({
+        event: 'workflow.step',
+        timestamp: new Date().toISOString(),
+        data: {
+          workflowId: workflow.id,
+          workflowName: workflow.name,
+          runId: run.id,
+          customer: customer ? {
+            id: customer.id,
+            firstName: customer.firstName,
+            lastName: customer.lastName,
+            email: customer.email,
+            phone: customer.phone,
+          } : { id: run.customerId },
+          context: runContext,
+          branches: branches || [],
+        },
+      }),
+      signal: controller.signal,
+      // Redirects are not followed — a 3xx could point the request at an internal host
+      redirect: 'manual',
+    });
+    if (response.status >= 300 && response.status < 400) {
+      throw new Error(`Webhook ${step.config.url} redirected (${response.status}); redirects are not followed`);
+    }
+    if (!response.ok) {
+      console.warn(`[WorkflowEngine] Run ${run.id}: webhook ${step.config.url} returned ${response.status}`);
+    }
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
 // ─── Core Functions ──────────────────────────────────────────────────────────
 
 /**
@@ -180,7 +587,7 @@ export async function startWorkflowRun(
 }
 
 /**
- * Advance a workflow run to execute the current step.
+ * Advance a workflow run to execute the step under its cursor.
  * Called after a wait expires or after startWorkflowRun.
  */
 export async function advanceWorkflowRun(runId: number): Promise<void> {
@@ -197,10 +604,12 @@ export async function advanceWorkflowRun(runId: number): Promise<void> {
     }
 
     const steps = (workflow.steps || []) as WorkflowStep[];
-    const stepIndex = run.currentStep || 0;
+    const cursor = getRunCursor(run);
+    const context = (run.context || {}) as Record<string, any>;
+    const step = getStepAtCursor(steps, cursor);
 
     // Past last step? Mark completed.
-    if (stepIndex >= steps.length) {
+    if (!step) {
       await storage.updateWorkflowRun(runId, {
         status: 'completed',
         completedAt: new Date(),
@@ -210,18 +619,24 @@ export async function advanceWorkflowRun(runId: number): Promise<void> {
       return;
     }
 
-    const step = steps[stepIndex];
-    console.log(`[WorkflowEngine] Run ${runId} executing step ${stepIndex}: ${step.type}`);
+    const path = formatCursorPath(cursor);
+    console.log(`[WorkflowEngine] Run ${runId} executing step ${path}: ${step.type}`);
+
+    // Persist a cursor move (and anything else the step wants in context)
+    const moveTo = (next: WorkflowCursor, extra: Partial<WorkflowRun> = {}, contextPatch: Record<string, any> = {}) =>
+      storage.updateWorkflowRun(runId, {
+        currentStep: next[0].index,
+        context: { ...context, ...contextPatch, cursor: next },
+        nextStepAt: null,
+        ...extra,
+      });
 
     switch (step.type) {
       case 'wait': {
         const delayMs = (step.config.delayMinutes || 1) * 60 * 1000;
         const nextStepAt = new Date(Date.now() + delayMs);
-        // Set nextStepAt and increment step — scheduler will pick up when time arrives
-        await storage.updateWorkflowRun(runId, {
-          currentStep: stepIndex + 1,
-          nextStepAt,
-        });
+        // Set nextStepAt and move past the wait — scheduler will pick up when time arrives
+        await moveTo(nextCursor(steps, cursor), { nextStepAt });
         console.log(`[WorkflowEngine] Run ${runId} waiting until ${nextStepAt.toISOString()}`);
         break;
       }
@@ -230,6 +645,7 @@ export async function advanceWorkflowRun(runId: number): Promise<void> {
         // Create a marketing_trigger row linked to this workflow run.
         // The existing marketing trigger engine will process and send it.
         try {
+          const { cursor: _cursor, branches: _branches, ...runContext } = context;
           await storage.createMarketingTrigger({
             businessId: run.businessId,
             customerId: run.customerId,
@@ -241,34 +657,77 @@ export async function advanceWorkflowRun(runId: number): Promise<void> {
               workflowRunId: run.id,
               workflowName: workflow.name,
               messagePrompt: step.config.messagePrompt || null,
-              ...(typeof run.context === 'object' && run.context !== null ? run.context as Record<string, any> : {}),
+              ...runContext,
             },
             workflowRunId: run.id,
           });
 
           // Move to the next step immediately — trigger engine will send the SMS.
-          // When the trigger is processed, the trigger engine will call advanceWorkflowRun().
-          // For now, we increment step here. The next step (usually a wait) will be
-          // advanced by the scheduler when nextStepAt arrives.
-          await storage.updateWorkflowRun(runId, {
-            currentStep: stepIndex + 1,
-            nextStepAt: null, // Will be set by the next step if it's a wait
-          });
+          // The next step (usually a wait) will be advanced by the scheduler
+          // when nextStepAt arrives.
+          await moveTo(nextCursor(steps, cursor));
 
           // Immediately try to advance to the next step in case it's another send_sms
           // (but if it's a wait, it will set nextStepAt and stop)
           await advanceWorkflowRun(runId);
         } catch (err) {
-          console.error(`[WorkflowEngine] Error creating trigger for run ${runId} step ${stepIndex}:`, err);
+          console.error(`[WorkflowEngine] Error creating trigger for run ${runId} step ${path}:`, err);
           await storage.updateWorkflowRun(runId, { status: 'failed', cancelReason: 'trigger_creation_error' });
         }
         break;
       }
 
+      case 'if': {
+        const customer = await storage.getCustomer(run.customerId);
+        const result = await evaluateCondition(step.config.condition, run, customer);
+        const branch: 'then' | 'else' = result ? 'then' : 'else';
+        const record: WorkflowBranchRecord = {
+          path,
+          condition: step.config.condition.type,
+          result,
+          branch,
+          evaluatedAt: new Date().toISOString(),
+        };
+        const branches = [...((context.branches as WorkflowBranchRecord[]) || []), record];
+        console.log(`[WorkflowEngine] Run ${runId} condition ${step.config.condition.type} → ${branch}`);
+
+        // Descend into the chosen branch; an empty branch falls straight through
+        const entered: WorkflowCursor = [
+          ...cursor.slice(0, -1),
+          { index: cursor[cursor.length - 1].index, branch },
+          { index: 0 },
+        ];
+        const branchSteps = step.config[branch] || [];
+        const next = branchSteps.length > 0 ? entered : nextCursor(steps, cursor);
+        await moveTo(next, {}, { branches });
+        await advanceWorkflowRun(runId);
+        break;
+      }
+
+      case 'send_email':
+      case 'create_task_for_owner':
+      case 'add_tag':
+      case 'webhook': {
+        try {
+          const customer = await storage.getCustomer(run.customerId);
+          if (step.type === 'send_email') await executeSendEmail(step, run, customer);
+          else if (step.type === 'create_task_for_owner') await executeCreateTask(step, run, workflow, customer);
+          else if (step.type === 'add_tag') await executeAddTag(step, run, customer);
+          else await executeWebhook(step, run, workflow, customer);
+        } catch (err) {
+          // Inline side effects are best-effort — a bounced email or a dead
+          // webhook endpoint shouldn't strand the customer mid-workflow.
+          console.error(`[WorkflowEngine] Run ${runId} step ${path} (${step.type}) failed:`, err);
+        }
+        await moveTo(nextCursor(steps, cursor));
+        await advanceWorkflowRun(runId);
+        break;
+      }
+
       default:
         console.error(`[WorkflowEngine] Unknown step type: ${(step as any).type}`);
         // Skip unknown steps
-        await storage.updateWorkflowRun(runId, { currentStep: stepIndex + 1 });
+        await moveTo(nextCursor(steps, cursor));
         await advanceWorkflowRun(runId);
     }
   } catch (err) {
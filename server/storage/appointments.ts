@@ -1,9 +1,17 @@
 import {
   Appointment, InsertAppointment, appointments,
+  AppointmentService, appointmentServices,
+  AppointmentFee, InsertAppointmentFee, appointmentFees,
+  AppointmentWaitlistEntry, InsertAppointmentWaitlistEntry, appointmentWaitlistEntries,
+  AppointmentSlotOffer, InsertAppointmentSlotOffer, appointmentSlotOffers,
+  ClassSchedule, InsertClassSchedule, classSchedules,
+  ClassSession, InsertClassSession, classSessions,
+  ClassBooking, InsertClassBooking, classBookings,
   customers,
 } from "@shared/schema";
-import { eq, and, or, desc, gte, lte, sql } from "drizzle-orm";
+import { eq, and, or, desc, asc, gte, lte, lt, sql, inArray } from "drizzle-orm";
 import { db } from "../db";
+import { publishRealtimeEvent } from "../services/realtimeEventBus";
 
 // =================== Appointments ===================
 
@@ -58,6 +66,7 @@ export async function createAppointment(appointment: InsertAppointment): Promise
     createdAt: new Date(),
     updatedAt: new Date()
   }).returning();
+  publishRealtimeEvent(newAppointment.businessId, 'appointments');
   return newAppointment;
 }
 
@@ -69,11 +78,13 @@ export async function updateAppointment(id: number, appointment: Partial<Appoint
     })
     .where(eq(appointments.id, id))
     .returning();
+  publishRealtimeEvent(updatedAppointment?.businessId, 'appointments');
   return updatedAppointment;
 }
 
 export async function deleteAppointment(id: number, businessId: number): Promise<void> {
   await db.delete(appointments).where(and(eq(appointments.id, id), eq(appointments.businessId, businessId)));
+  publishRealtimeEvent(businessId, 'appointments');
 }
 
 // Helper methods for Vapi integration
@@ -122,3 +133,290 @@ export async function getAppointmentsByCustomerContact(email: string, phone: str
     .orderBy(desc(appointments.startDate))
     .limit(50);
 }
+
+// =================== Appointment Services ===================
+
+/** Service lines of one appointment, in the order they're performed */
+export async function getAppointmentServices(appointmentId: number): Promise<AppointmentService[]> {
+  return db.select().from(appointmentServices)
+    .where(eq(appointmentServices.appointmentId, appointmentId))
+    .orderBy(asc(appointmentServices.position), asc(appointmentServices.id));
+}
+
+export async function getAppointmentServicesForAppointments(appointmentIds: number[]): Promise<AppointmentService[]> {
+  if (appointmentIds.length === 0) return [];
+  return db.select().from(appointmentServices)
+    .where(inArray(appointmentServices.appointmentId, appointmentIds))
+    .orderBy(asc(appointmentServices.appointmentId), asc(appointmentServices.position), asc(appointmentServices.id));
+}
+
+// =================== Appointment Fees ===================
+
+/**
+ * Insert a late-cancel / no-show fee. Returns undefined when the appointment
+ * already has a fee of that type, so repeated status flips never double-bill.
+ */
+export async function createAppointmentFee(fee: InsertAppointmentFee): Promise<AppointmentFee | undefined> {
+  const [created] = await db.insert(appointmentFees)
+    .values(fee)
+    .onConflictDoNothing({ target: [appointmentFees.appointmentId, appointmentFees.type] })
+    .returning();
+  return created;
+}
+
+export async function getAppointmentFee(id: number, businessId: number): Promise<AppointmentFee | undefined> {
+  const [fee] = await db.select().from(appointmentFees)
+    .where(and(eq(appointmentFees.id, id), eq(appointmentFees.businessId, businessId)));
+  return fee;
+}
+
+export async function getAppointmentFees(businessId: number, params: {
+  appointmentId?: number,
+  customerId?: number,
+} = {}): Promise<AppointmentFee[]> {
+  const conditions = [eq(appointmentFees.businessId, businessId)];
+  if (params.appointmentId) {
+    conditions.push(eq(appointmentFees.appointmentId, params.appointmentId));
+  }
+  if (params.customerId) {
+    conditions.push(eq(appointmentFees.customerId, params.customerId));
+  }
+  return db.select().from(appointmentFees)
+    .where(and(...conditions))
+    .orderBy(desc(appointmentFees.createdAt));
+}
+
+export async function updateAppointmentFee(id: number, data: Partial<AppointmentFee>): Promise<AppointmentFee> {
+  const [updated] = await db.update(appointmentFees)
+    .set({ ...data, updatedAt: new Date() })
+    .where(eq(appointmentFees.id, id))
+    .returning();
+  return updated;
+}
+
+// =================== Appointment Waitlist ===================
+
+/** Waitlist entries in offer order: highest priority first, then oldest */
+export async function getAppointmentWaitlistEntries(businessId: number, params: {
+  statuses?: string[],
+} = {}): Promise<AppointmentWaitlistEntry[]> {
+  const conditions = [eq(appointmentWaitlistEntries.businessId, businessId)];
+  if (params.statuses?.length) {
+    conditions.push(inArray(appointmentWaitlistEntries.status, params.statuses));
+  }
+  return db.select().from(appointmentWaitlistEntries)
+    .where(and(...conditions))
+    .orderBy(
+      desc(appointmentWaitlistEntries.priority),
+      asc(appointmentWaitlistEntries.createdAt),
+      asc(appointmentWaitlistEntries.id),
+    );
+}
+
+export async function getAppointmentWaitlistEntry(id: number): Promise<AppointmentWaitlistEntry | undefined> {
+  const [entry] = await db.select().from(appointmentWaitlistEntries).where(eq(appointmentWaitlistEntries.id, id));
+  return entry;
+}
+
+export async function createAppointmentWaitlistEntry(entry: InsertAppointmentWaitlistEntry): Promise<AppointmentWaitlistEntry> {
+  const [created] = await db.insert(appointmentWaitlistEntries).values(entry).returning();
+  return created;
+}
+
+export async function updateAppointmentWaitlistEntry(id: number, data: Partial<AppointmentWaitlistEntry>): Promise<AppointmentWaitlistEntry> {
+  const [updated] = await db.update(appointmentWaitlistEntries)
+    .set({ ...data, updatedAt: new Date() })
+    .where(eq(appointmentWaitlistEntries.id, id))
+    .returning();
+  return updated;
+}
+
+// =================== Appointment Slot Offers ===================
+
+export async function getAppointmentSlotOffers(businessId: number, params: {
+  cancelledAppointmentId?: number,
+  statuses?: string[],
+  /** Offers for slots starting in this range */
+  startDate?: Date,
+  endDate?: Date,
+  /** Offers sent on or after this time */
+  since?: Date,
+} = {}): Promise<AppointmentSlotOffer[]> {
+  const conditions = [eq(appointmentSlotOffers.businessId, businessId)];
+  if (params.cancelledAppointmentId) {
+    conditions.push(eq(appointmentSlotOffers.cancelledAppointmentId, params.cancelledAppointmentId));
+  }
+  if (params.statuses?.length) {
+    conditions.push(inArray(appointmentSlotOffers.status, params.statuses));
+  }
+  if (params.startDate) {
+    conditions.push(gte(appointmentSlotOffers.startDate, params.startDate));
+  }
+  if (params.endDate) {
+    conditions.push(lte(appointmentSlotOffers.startDate, params.endDate));
+  }
+  if (params.since) {
+    conditions.push(gte(appointmentSlotOffers.createdAt, params.since));
+  }
+  return db.select().from(appointmentSlotOffers)
+    .where(and(...conditions))
+    .orderBy(asc(appointmentSlotOffers.createdAt), asc(appointmentSlotOffers.id));
+}
+
+export async function getAppointmentSlotOffer(id: number): Promise<AppointmentSlotOffer | undefined> {
+  const [offer] = await db.select().from(appointmentSlotOffers).where(eq(appointmentSlotOffers.id, id));
+  return offer;
+}
+
+/** Pending offers whose hold has run out, across all businesses */
+export async function getExpiredAppointmentSlotOffers(now: Date): Promise<AppointmentSlotOffer[]> {
+  return db.select().from(appointmentSlotOffers)
+    .where(and(
+      eq(appointmentSlotOffers.status, "pending"),
+      lt(appointmentSlotOffers.expiresAt, now),
+    ))
+    .orderBy(asc(appointmentSlotOffers.expiresAt));
+}
+
+export async function createAppointmentSlotOffer(offer: InsertAppointmentSlotOffer): Promise<AppointmentSlotOffer> {
+  const [created] = await db.insert(appointmentSlotOffers).values(offer).returning();
+  return created;
+}
+
+export async function updateAppointmentSlotOffer(id: number, data: Partial<AppointmentSlotOffer>): Promise<AppointmentSlotOffer> {
+  const [updated] = await db.update(appointmentSlotOffers)
+    .set(data)
+    .where(eq(appointmentSlotOffers.id, id))
+    .returning();
+  return updated;
+}
+
+// =================== Group Classes ===================
+
+export async function getClassSchedules(businessId: number, params: {
+  serviceId?: number,
+  activeOnly?: boolean,
+} = {}): Promise<ClassSchedule[]> {
+  const conditions = [eq(classSchedules.businessId, businessId)];
+  if (params.serviceId) {
+    conditions.push(eq(classSchedules.serviceId, params.serviceId));
+  }
+  if (params.activeOnly) {
+    conditions.push(eq(classSchedules.active, true));
+  }
+  return db.select().from(classSchedules)
+    .where(and(...conditions))
+    .orderBy(asc(classSchedules.dayOfWeek), asc(classSchedules.startTime), asc(classSchedules.id));
+}
+
+export async function getClassSchedule(id: number): Promise<ClassSchedule | undefined> {
+  const [schedule] = await db.select().from(classSchedules).where(eq(classSchedules.id, id));
+  return schedule;
+}
+
+export async function createClassSchedule(schedule: InsertClassSchedule): Promise<ClassSchedule> {
+  const [created] = await db.insert(classSchedules).values(schedule).returning();
+  return created;
+}
+
+export async function updateClassSchedule(id: number, data: Partial<ClassSchedule>): Promise<ClassSchedule> {
+  const [updated] = await db.update(classSchedules)
+    .set({ ...data, updatedAt: new Date() })
+    .where(eq(classSchedules.id, id))
+    .returning();
+  return updated;
+}
+
+export async function deleteClassSchedule(id: number, businessId: number): Promise<void> {
+  await db.delete(classSchedules)
+    .where(and(eq(classSchedules.id, id), eq(classSchedules.businessId, businessId)));
+}
+
+/** Sessions starting in the range, earliest first */
+export async function getClassSessions(businessId: number, params: {
+  startDate?: Date,
+  endDate?: Date,
+  serviceId?: number,
+  scheduleId?: number,
+  statuses?: string[],
+} = {}): Promise<ClassSession[]> {
+  const conditions = [eq(classSessions.businessId, businessId)];
+  if (params.startDate) {
+    conditions.push(gte(classSessions.startDate, params.startDate));
+  }
+  if (params.endDate) {
+    conditions.push(lte(classSessions.startDate, params.endDate));
+  }
+  if (params.serviceId) {
+    conditions.push(eq(classSessions.serviceId, params.serviceId));
+  }
+  if (params.scheduleId) {
+    conditions.push(eq(classSessions.scheduleId, params.scheduleId));
+  }
+  if (params.statuses?.length) {
+    conditions.push(inArray(classSessions.status, params.statuses));
+  }
+  return db.select().from(classSessions)
+    .where(and(...conditions))
+    .orderBy(asc(classSessions.startDate), asc(classSessions.id));
+}
+
+export async function getClassSession(id: number): Promise<ClassSession | undefined> {
+  const [session] = await db.select().from(classSessions).where(eq(classSessions.id, id));
+  return session;
+}
+
+export async function createClassSession(session: InsertClassSession): Promise<ClassSession> {
+  const [created] = await db.insert(classSessions).values(session).returning();
+  return created;
+}
+
+/** Inserts scheduled occurrences, skipping any already materialized for the same schedule and start */
+export async function createClassSessionsIfMissing(sessions: InsertClassSession[]): Promise<ClassSession[]> {
+  if (sessions.length === 0) return [];
+  return db.insert(classSessions)
+    .values(sessions)
+    .onConflictDoNothing({ target: [classSessions.scheduleId, classSessions.startDate] })
+    .returning();
+}
+
+export async function updateClassSession(id: number, data: Partial<ClassSession>): Promise<ClassSession> {
+  const [updated] = await db.update(classSessions)
+    .set({ ...data, updatedAt: new Date() })
+    .where(eq(classSessions.id, id))
+    .returning();
+  return updated;
+}
+
+export async function deleteClassSessions(ids: number[], businessId: number): Promise<void> {
+  if (ids.length === 0) return;
+  await db.delete(classSessions)
+    .where(and(inArray(classSessions.id, ids), eq(classSessions.businessId, businessId)));
+}
+
+/** Roster entries for the given sessions in join order */
+export async function getClassBookings(sessionIds: number[], params: {
+  statuses?: string[],
+} = {}): Promise<ClassBooking[]> {
+  if (sessionIds.length === 0) return [];
+  const conditions = [inArray(classBookings.sessionId, sessionIds)];
+  if (params.statuses?.length) {
+    conditions.push(inArray(classBookings.status, params.statuses));
+  }
+  return db.select().from(classBookings)
+    .where(and(...conditions))
+    .orderBy(asc(classBookings.createdAt), asc(classBookings.id));
+}
+
+export async function getClassBooking(id: number): Promise<ClassBooking | undefined> {
+  const [booking] = await db.select().from(classBookings).where(eq(classBookings.id, id));
+  return booking;
+}
+
+export async function updateClassBooking(id: number, data: Partial<ClassBooking>): Promise<ClassBooking> {
+  const [updated] = await db.update(classBookings)
+    .set({ ...data, updatedAt: new Date() })
+    .where(eq(classBookings.id, id))
+    .returning();
+  return updated;
+}
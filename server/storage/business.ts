@@ -3,6 +3,7 @@ import {
   Business, InsertBusiness, businesses,
   BusinessHours, InsertBusinessHours, businessHours,
   Service, InsertService, services,
+  ServiceAddon, InsertServiceAddon, serviceAddons,
   ReceptionistConfig, InsertReceptionistConfig, receptionistConfig,
   PasswordResetToken, InsertPasswordResetToken, passwordResetTokens,
   BusinessKnowledge, InsertBusinessKnowledge, businessKnowledge,
@@ -252,6 +253,46 @@ export async function deleteService(id: number, businessId: number): Promise<voi
   await db.delete(services).where(and(eq(services.id, id), eq(services.businessId, businessId)));
 }
 
+// =================== Service Add-ons ===================
+
+export async function getServiceAddons(businessId: number, params: {
+  serviceId?: number,
+  activeOnly?: boolean,
+} = {}): Promise<ServiceAddon[]> {
+  const conditions = [eq(serviceAddons.businessId, businessId)];
+  if (params.serviceId) {
+    conditions.push(eq(serviceAddons.serviceId, params.serviceId));
+  }
+  if (params.activeOnly) {
+    conditions.push(eq(serviceAddons.active, true));
+  }
+  return db.select().from(serviceAddons)
+    .where(and(...conditions))
+    .orderBy(serviceAddons.sortOrder, serviceAddons.id);
+}
+
+export async function getServiceAddon(id: number): Promise<ServiceAddon | undefined> {
+  const [addon] = await db.select().from(serviceAddons).where(eq(serviceAddons.id, id));
+  return addon;
+}
+
+export async function createServiceAddon(addon: InsertServiceAddon): Promise<ServiceAddon> {
+  const [created] = await db.insert(serviceAddons).values(addon).returning();
+  return created;
+}
+
+export async function updateServiceAddon(id: number, data: Partial<ServiceAddon>): Promise<ServiceAddon> {
+  const [updated] = await db.update(serviceAddons)
+    .set({ ...data, updatedAt: new Date() })
+    .where(eq(serviceAddons.id, id))
+    .returning();
+  return updated;
+}
+
+export async function deleteServiceAddon(id: number, businessId: number): Promise<void> {
+  await db.delete(serviceAddons).where(and(eq(serviceAddons.id, id), eq(serviceAddons.businessId, businessId)));
+}
+
 // =================== Receptionist Config ===================
 
 export async function getReceptionistConfig(businessId: number): Promise<ReceptionistConfig | undefined> {
@@ -11,6 +11,7 @@ import {
 } from "@shared/schema";
 import { eq, and, or, desc, gte, lte, inArray, isNull, sql } from "drizzle-orm";
 import { db, pool } from "../db";
+import { publishRealtimeEvent } from "../services/realtimeEventBus";
 
 // =================== Call Logs ===================
 
@@ -48,6 +49,7 @@ export async function getCallLog(id: number): Promise<CallLog | undefined> {
 
 export async function createCallLog(log: InsertCallLog): Promise<CallLog> {
   const [newLog] = await db.insert(callLogs).values(log).returning();
+  publishRealtimeEvent(newLog.businessId, 'call_logs');
   return newLog;
 }
 
@@ -56,6 +58,7 @@ export async function updateCallLog(id: number, log: Partial<CallLog>): Promise<
     .set(log)
     .where(eq(callLogs.id, id))
     .returning();
+  publishRealtimeEvent(updatedLog?.businessId, 'call_logs');
   return updatedLog;
 }
 
@@ -0,0 +1,70 @@
+/**
+ * Credit Notes Storage
+ *
+ * A credit note is issued against one invoice and carries its own number
+ * (CN-YYYYMMDD-XXXX, see utils/invoiceNumber). New notes are inserted by
+ * creditNoteService.issueCreditNote, header and lines in one transaction
+ * under a lock on the invoice row.
+ *
+ * The invoice's creditedAmount / balanceDue are NOT maintained here;
+ * invoicePaymentService recalculates them from these rows.
+ *
+ * All reads are TENANT-SCOPED by businessId.
+ */
+
+import {
+  CreditNote,
+  CreditNoteItem,
+  creditNotes,
+  creditNoteItems,
+} from "@shared/schema";
+import { eq, and, desc, inArray } from "drizzle-orm";
+import { db } from "../db";
+import { publishRealtimeEvent } from "../services/realtimeEventBus";
+
+export async function getCreditNotes(businessId: number): Promise<CreditNote[]> {
+  return db
+    .select()
+    .from(creditNotes)
+    .where(eq(creditNotes.businessId, businessId))
+    .orderBy(desc(creditNotes.createdAt));
+}
+
+export async function getCreditNotesByInvoice(invoiceId: number, businessId: number): Promise<CreditNote[]> {
+  return db
+    .select()
+    .from(creditNotes)
+    .where(and(eq(creditNotes.invoiceId, invoiceId), eq(creditNotes.businessId, businessId)))
+    .orderBy(desc(creditNotes.createdAt));
+}
+
+export async function getCreditNote(id: number, businessId: number): Promise<CreditNote | undefined> {
+  const [row] = await db
+    .select()
+    .from(creditNotes)
+    .where(and(eq(creditNotes.id, id), eq(creditNotes.businessId, businessId)))
+    .limit(1);
+  return row;
+}
+
+export async function getCreditNoteItems(creditNoteIds: number[]): Promise<CreditNoteItem[]> {
+  if (creditNoteIds.length === 0) return [];
+  return db
+    .select()
+    .from(creditNoteItems)
+    .where(inArray(creditNoteItems.creditNoteId, creditNoteIds));
+}
+
+export async function updateCreditNote(
+  id: number,
+  businessId: number,
+  patch: Partial<CreditNote>,
+): Promise<CreditNote> {
+  const [row] = await db
+    .update(creditNotes)
+    .set({ ...patch, updatedAt: new Date() })
+    .where(and(eq(creditNotes.id, id), eq(creditNotes.businessId, businessId)))
+    .returning();
+  publishRealtimeEvent(businessId, 'invoices');
+  return row;
+}
@@ -1,8 +1,11 @@
 import {
   Customer, InsertCustomer, customers,
   CustomerInsightsRow, InsertCustomerInsights, customerInsights,
+  CustomerPortalCode, InsertCustomerPortalCode, customerPortalCodes,
+  CustomerPortalSession, InsertCustomerPortalSession, customerPortalSessions,
+  CustomFieldDefinition, InsertCustomFieldDefinition, customFieldDefinitions,
 } from "@shared/schema";
-import { eq, and, or, desc, gte, isNull, inArray, sql } from "drizzle-orm";
+import { eq, and, or, asc, desc, gte, lt, isNull, inArray, sql } from "drizzle-orm";
 import { db } from "../db";
 import { normalizePhone } from "./index";
 
@@ -68,6 +71,18 @@ export async function getCustomerByPhone(phone: string, businessId: number): Pro
   return normalized;
 }
 
+export async function getCustomerByEmail(email: string, businessId: number): Promise<Customer | undefined> {
+  const [customer] = await db.select().from(customers)
+    .where(and(
+      sql`lower(${customers.email}) = ${email.trim().toLowerCase()}`,
+      eq(customers.businessId, businessId),
+      isNull(customers.deletedAt)
+    ))
+    .orderBy(desc(customers.updatedAt))
+    .limit(1);
+  return customer;
+}
+
 export async function createCustomer(customer: InsertCustomer): Promise<Customer> {
   const [newCustomer] = await db.insert(customers).values({
     ...customer,
@@ -111,6 +126,134 @@ export async function restoreCustomer(id: number, businessId: number): Promise<C
   return updated;
 }
 
+// =================== Custom Fields ===================
+
+export async function getCustomFieldDefinitions(businessId: number, params: {
+  entityType?: string,
+  activeOnly?: boolean,
+} = {}): Promise<CustomFieldDefinition[]> {
+  const conditions = [eq(customFieldDefinitions.businessId, businessId)];
+  if (params.entityType) {
+    conditions.push(eq(customFieldDefinitions.entityType, params.entityType));
+  }
+  if (params.activeOnly) {
+    conditions.push(eq(customFieldDefinitions.active, true));
+  }
+  return db.select().from(customFieldDefinitions)
+    .where(and(...conditions))
+    .orderBy(asc(customFieldDefinitions.sortOrder), asc(customFieldDefinitions.id));
+}
+
+export async function getCustomFieldDefinition(id: number): Promise<CustomFieldDefinition | undefined> {
+  const [definition] = await db.select().from(customFieldDefinitions).where(eq(customFieldDefinitions.id, id));
+  return definition;
+}
+
+export async function createCustomFieldDefinition(definition: InsertCustomFieldDefinition): Promise<CustomFieldDefinition> {
+  const [created] = await db.insert(customFieldDefinitions).values(definition).returning();
+  return created;
+}
+
+export async function updateCustomFieldDefinition(id: number, data: Partial<CustomFieldDefinition>): Promise<CustomFieldDefinition> {
+  const [updated] = await db.update(customFieldDefinitions)
+    .set({ ...data, updatedAt: new Date() })
+    .where(eq(customFieldDefinitions.id, id))
+    .returning();
+  return updated;
+}
+
+/** Stored values stay on the records; re-adding the same key brings them back */
+export async function deleteCustomFieldDefinition(id: number, businessId: number): Promise<void> {
+  await db.delete(customFieldDefinitions)
+    .where(and(eq(customFieldDefinitions.id, id), eq(customFieldDefinitions.businessId, businessId)));
+}
+
+// =================== Customer Portal ===================
+
+export async function createCustomerPortalCode(code: InsertCustomerPortalCode): Promise<CustomerPortalCode> {
+  const [created] = await db.insert(customerPortalCodes).values(code).returning();
+  return created;
+}
+
+/** Newest unexpired, unused code for a customer */
+export async function getActiveCustomerPortalCode(customerId: number, businessId: number): Promise<CustomerPortalCode | undefined> {
+  const [code] = await db.select().from(customerPortalCodes)
+    .where(and(
+      eq(customerPortalCodes.customerId, customerId),
+      eq(customerPortalCodes.businessId, businessId),
+      isNull(customerPortalCodes.consumedAt),
+      gte(customerPortalCodes.expiresAt, new Date())
+    ))
+    .orderBy(desc(customerPortalCodes.createdAt))
+    .limit(1);
+  return code;
+}
+
+export async function getCustomerPortalCodeByLinkToken(linkTokenHash: string): Promise<CustomerPortalCode | undefined> {
+  const [code] = await db.select().from(customerPortalCodes)
+    .where(eq(customerPortalCodes.linkTokenHash, linkTokenHash));
+  return code;
+}
+
+export async function countCustomerPortalCodesSince(customerId: number, since: Date): Promise<number> {
+  const [row] = await db.select({ count: sql<number>`count(*)::int` }).from(customerPortalCodes)
+    .where(and(eq(customerPortalCodes.customerId, customerId), gte(customerPortalCodes.createdAt, since)));
+  return row?.count ?? 0;
+}
+
+export async function updateCustomerPortalCode(id: number, data: Partial<CustomerPortalCode>): Promise<CustomerPortalCode> {
+  const [updated] = await db.update(customerPortalCodes)
+    .set(data)
+    .where(eq(customerPortalCodes.id, id))
+    .returning();
+  return updated;
+}
+
+/**
+ * Counts one guess against a code in a single statement, so parallel
+ * guesses can't all read the same count. Resolves to false when the code is
+ * already used up or consumed.
+ */
+export async function claimCustomerPortalCodeAttempt(id: number, maxAttempts: number): Promise<boolean> {
+  const rows = await db.update(customerPortalCodes)
+    .set({ attempts: sql`${customerPortalCodes.attempts} + 1` })
+    .where(and(
+      eq(customerPortalCodes.id, id),
+      lt(customerPortalCodes.attempts, maxAttempts),
+      isNull(customerPortalCodes.consumedAt)
+    ))
+    .returning({ id: customerPortalCodes.id });
+  return rows.length > 0;
+}
+
+/** Marks a code used. Resolves to false when another request consumed it first. */
+export async function consumeCustomerPortalCode(id: number): Promise<boolean> {
+  const rows = await db.update(customerPortalCodes)
+    .set({ consumedAt: new Date() })
+    .where(and(eq(customerPortalCodes.id, id), isNull(customerPortalCodes.consumedAt)))
+    .returning({ id: customerPortalCodes.id });
+  return rows.length > 0;
+}
+
+export async function createCustomerPortalSession(session: InsertCustomerPortalSession): Promise<CustomerPortalSession> {
+  const [created] = await db.insert(customerPortalSessions).values(session).returning();
+  return created;
+}
+
+export async function getCustomerPortalSessionByTokenHash(tokenHash: string): Promise<CustomerPortalSession | undefined> {
+  const [session] = await db.select().from(customerPortalSessions)
+    .where(eq(customerPortalSessions.tokenHash, tokenHash));
+  return session;
+}
+
+export async function updateCustomerPortalSession(id: number, data: Partial<CustomerPortalSession>): Promise<CustomerPortalSession> {
+  const [updated] = await db.update(customerPortalSessions)
+    .set(data)
+    .where(eq(customerPortalSessions.id, id))
+    .returning();
+  return updated;
+}
+
 // =================== Customer Insights ===================
 
 export async function getCustomerInsights(customerId: number, businessId: number): Promise<CustomerInsightsRow | undefined> {
@@ -16,6 +16,7 @@ import {
 } from "@shared/schema";
 import { and, eq, desc, gte, lte, sql, isNull } from "drizzle-orm";
 import { db } from "../db";
+import { publishRealtimeEvent } from "../services/realtimeEventBus";
 
 // ═══════════════════════════════════════════════════════════════════════════
 // Session lifecycle
@@ -129,6 +130,7 @@ export async function createLocationPings(
   // Defense-in-depth: stamp businessId on every row, ignoring any caller-supplied value
   const safe = pings.map(p => ({ ...p, businessId }));
   const inserted = await db.insert(techLocationPings).values(safe).returning({ id: techLocationPings.id });
+  publishRealtimeEvent(businessId, 'tech_locations');
   return inserted.length;
 }
 
@@ -3,20 +3,38 @@ import {
   Business, InsertBusiness,
   BusinessHours, InsertBusinessHours,
   Service, InsertService,
+  ServiceAddon, InsertServiceAddon,
   Customer, InsertCustomer,
   Staff, InsertStaff,
   StaffHours, InsertStaffHours,
   StaffInvite, InsertStaffInvite,
   StaffTimeOff, InsertStaffTimeOff,
+  Resource, InsertResource,
   Appointment, InsertAppointment,
+  AppointmentService,
+  AppointmentFee, InsertAppointmentFee,
+  AppointmentWaitlistEntry, InsertAppointmentWaitlistEntry,
+  AppointmentSlotOffer, InsertAppointmentSlotOffer,
+  ClassSchedule, InsertClassSchedule,
+  ClassSession, InsertClassSession,
+  ClassBooking,
   Job, InsertJob,
   JobLineItem, InsertJobLineItem,
+  OfflineMutationReceipt, InsertOfflineMutationReceipt,
+  JobFormTemplate, InsertJobFormTemplate,
+  JobForm, InsertJobForm,
   Invoice, InsertInvoice,
   InvoiceItem, InsertInvoiceItem,
+  Payment, InsertPayment,
+  PaymentRefund, InsertPaymentRefund,
+  CreditNote,
+  CreditNoteItem,
   ReceptionistConfig, InsertReceptionistConfig,
   CallLog, InsertCallLog,
   Quote, InsertQuote,
   QuoteItem, InsertQuoteItem,
+  QuoteOption,
+  QuoteSignature, InsertQuoteSignature,
   QuoteFollowUp, InsertQuoteFollowUp,
   PasswordResetToken, InsertPasswordResetToken,
   NotificationSettings, InsertNotificationSettings,
@@ -36,6 +54,8 @@ import {
   ReviewResponse, InsertReviewResponse,
   WebsiteScrapeCache, InsertWebsiteScrapeCache,
   RestaurantReservation, InsertRestaurantReservation,
+  RestaurantTable, InsertRestaurantTable,
+  WaitlistEntry, InsertWaitlistEntry,
   BusinessPhoneNumber, InsertBusinessPhoneNumber,
   BusinessGroup, InsertBusinessGroup,
   UserBusinessAccess, InsertUserBusinessAccess,
@@ -53,6 +73,7 @@ import {
   SmsCampaign, InsertSmsCampaign,
   CampaignAnalyticsRow, InsertCampaignAnalytics,
   SmsActivityFeedEntry, InsertSmsActivityFeed,
+  SmsInboxThread,
   Workflow, InsertWorkflow,
   WorkflowRun, InsertWorkflowRun,
   TechLocationPing, InsertTechLocationPing,
@@ -62,6 +83,9 @@ import {
   MembershipPlan, InsertMembershipPlan,
   CustomerMembership, InsertCustomerMembership,
   MembershipBenefitUsage, InsertMembershipBenefitUsage,
+  CustomerPortalCode, InsertCustomerPortalCode,
+  CustomFieldDefinition, InsertCustomFieldDefinition,
+  CustomerPortalSession, InsertCustomerPortalSession,
 } from "@shared/schema";
 import session from "express-session";
 import connectPg from "connect-pg-simple";
@@ -72,6 +96,8 @@ import * as customerFns from "./customers";
 import * as appointmentFns from "./appointments";
 import * as jobFns from "./jobs";
 import * as invoiceFns from "./invoices";
+import * as paymentFns from "./payments";
+import * as creditNoteFns from "./creditNotes";
 import * as staffFns from "./staff";
 import * as commsFns from "./communications";
 import * as businessFns from "./business";
@@ -131,18 +157,45 @@ export interface IStorage {
   updateService(id: number, service: Partial<Service>): Promise<Service>;
   deleteService(id: number, businessId: number): Promise<void>;
 
+  // Service Add-ons
+  getServiceAddons(businessId: number, params?: { serviceId?: number; activeOnly?: boolean }): Promise<ServiceAddon[]>;
+  getServiceAddon(id: number): Promise<ServiceAddon | undefined>;
+  createServiceAddon(addon: InsertServiceAddon): Promise<ServiceAddon>;
+  updateServiceAddon(id: number, data: Partial<ServiceAddon>): Promise<ServiceAddon>;
+  deleteServiceAddon(id: number, businessId: number): Promise<void>;
+
   // Customers
   getCustomers(businessId: number, params?: { limit?: number; offset?: number }): Promise<Customer[]>;
   getArchivedCustomers(businessId: number): Promise<Customer[]>;
   getCustomer(id: number): Promise<Customer | undefined>;
   getCustomersByIds(ids: number[]): Promise<Customer[]>;
   getCustomerByPhone(phone: string, businessId: number): Promise<Customer | undefined>;
+  getCustomerByEmail(email: string, businessId: number): Promise<Customer | undefined>;
   createCustomer(customer: InsertCustomer): Promise<Customer>;
   updateCustomer(id: number, customer: Partial<Customer>): Promise<Customer>;
   deleteCustomer(id: number, businessId: number): Promise<void>;
   archiveCustomer(id: number, businessId: number): Promise<Customer>;
   restoreCustomer(id: number, businessId: number): Promise<Customer>;
 
+  // Custom Fields (owner-defined fields on customers, jobs and appointments)
+  getCustomFieldDefinitions(businessId: number, params?: { entityType?: string; activeOnly?: boolean }): Promise<CustomFieldDefinition[]>;
+  getCustomFieldDefinition(id: number): Promise<CustomFieldDefinition | undefined>;
+  createCustomFieldDefinition(definition: InsertCustomFieldDefinition): Promise<CustomFieldDefinition>;
+  updateCustomFieldDefinition(id: number, data: Partial<CustomFieldDefinition>): Promise<CustomFieldDefinition>;
+  deleteCustomFieldDefinition(id: number, businessId: number): Promise<void>;
+
+  // Customer Portal (sign-in codes and sessions)
+  createCustomerPortalCode(code: InsertCustomerPortalCode): Promise<CustomerPortalCode>;
+  getActiveCustomerPortalCode(customerId: number, businessId: number): Promise<CustomerPortalCode | undefined>;
+  getCustomerPortalCodeByLinkToken(linkTokenHash: string): Promise<CustomerPortalCode | undefined>;
+  countCustomerPortalCodesSince(customerId: number, since: Date): Promise<number>;
+  updateCustomerPortalCode(id: number, data: Partial<CustomerPortalCode>): Promise<CustomerPortalCode>;
+  claimCustomerPortalCodeAttempt(id: number, maxAttempts: number): Promise<boolean>;
+  consumeCustomerPortalCode(id: number): Promise<boolean>;
+  createCustomerPortalSession(session: InsertCustomerPortalSession): Promise<CustomerPortalSession>;
+  getCustomerPortalSessionByTokenHash(tokenHash: string): Promise<CustomerPortalSession | undefined>;
+  updateCustomerPortalSession(id: number, data: Partial<CustomerPortalSession>): Promise<CustomerPortalSession>;
+
   // Customer Equipment (Step 3 of HVAC roadmap)
   getCustomerEquipment(customerId: number, businessId: number, params?: { includeInactive?: boolean }): Promise<CustomerEquipment[]>;
   getCustomerEquipmentById(id: number, businessId: number): Promise<CustomerEquipment | undefined>;
@@ -211,6 +264,13 @@ export interface IStorage {
   updateStaffTimeOff(id: number, businessId: number, data: Partial<StaffTimeOff>): Promise<StaffTimeOff>;
   deleteStaffTimeOff(id: number, businessId: number): Promise<void>;
 
+  // Bookable Resources
+  getResources(businessId: number, params?: { activeOnly?: boolean }): Promise<Resource[]>;
+  getResource(id: number): Promise<Resource | undefined>;
+  createResource(data: InsertResource): Promise<Resource>;
+  updateResource(id: number, data: Partial<Resource>): Promise<Resource>;
+  deleteResource(id: number): Promise<void>;
+
   // Staff-Service assignments
   getStaffServices(staffId: number): Promise<number[]>;
   getServiceStaff(serviceId: number): Promise<number[]>;
@@ -233,6 +293,51 @@ export interface IStorage {
   createAppointment(appointment: InsertAppointment): Promise<Appointment>;
   updateAppointment(id: number, appointment: Partial<Appointment>): Promise<Appointment>;
   deleteAppointment(id: number, businessId: number): Promise<void>;
+  getAppointmentServices(appointmentId: number): Promise<AppointmentService[]>;
+  getAppointmentServicesForAppointments(appointmentIds: number[]): Promise<AppointmentService[]>;
+  createAppointmentFee(fee: InsertAppointmentFee): Promise<AppointmentFee | undefined>;
+  getAppointmentFee(id: number, businessId: number): Promise<AppointmentFee | undefined>;
+  getAppointmentFees(businessId: number, params?: { appointmentId?: number; customerId?: number }): Promise<AppointmentFee[]>;
+  updateAppointmentFee(id: number, data: Partial<AppointmentFee>): Promise<AppointmentFee>;
+
+  // Appointment waitlist
+  getAppointmentWaitlistEntries(businessId: number, params?: { statuses?: string[] }): Promise<AppointmentWaitlistEntry[]>;
+  getAppointmentWaitlistEntry(id: number): Promise<AppointmentWaitlistEntry | undefined>;
+  createAppointmentWaitlistEntry(entry: InsertAppointmentWaitlistEntry): Promise<AppointmentWaitlistEntry>;
+  updateAppointmentWaitlistEntry(id: number, data: Partial<AppointmentWaitlistEntry>): Promise<AppointmentWaitlistEntry>;
+  getAppointmentSlotOffers(businessId: number, params?: {
+    cancelledAppointmentId?: number,
+    statuses?: string[],
+    startDate?: Date,
+    endDate?: Date,
+    since?: Date,
+  }): Promise<AppointmentSlotOffer[]>;
+  getAppointmentSlotOffer(id: number): Promise<AppointmentSlotOffer | undefined>;
+  getExpiredAppointmentSlotOffers(now: Date): Promise<AppointmentSlotOffer[]>;
+  createAppointmentSlotOffer(offer: InsertAppointmentSlotOffer): Promise<AppointmentSlotOffer>;
+  updateAppointmentSlotOffer(id: number, data: Partial<AppointmentSlotOffer>): Promise<AppointmentSlotOffer>;
+
+  // Group classes
+  getClassSchedules(businessId: number, params?: { serviceId?: number; activeOnly?: boolean }): Promise<ClassSchedule[]>;
+  getClassSchedule(id: number): Promise<ClassSchedule | undefined>;
+  createClassSchedule(schedule: InsertClassSchedule): Promise<ClassSchedule>;
+  updateClassSchedule(id: number, data: Partial<ClassSchedule>): Promise<ClassSchedule>;
+  deleteClassSchedule(id: number, businessId: number): Promise<void>;
+  getClassSessions(businessId: number, params?: {
+    startDate?: Date,
+    endDate?: Date,
+    serviceId?: number,
+    scheduleId?: number,
+    statuses?: string[],
+  }): Promise<ClassSession[]>;
+  getClassSession(id: number): Promise<ClassSession | undefined>;
+  createClassSession(session: InsertClassSession): Promise<ClassSession>;
+  createClassSessionsIfMissing(sessions: InsertClassSession[]): Promise<ClassSession[]>;
+  updateClassSession(id: number, data: Partial<ClassSession>): Promise<ClassSession>;
+  deleteClassSessions(ids: number[], businessId: number): Promise<void>;
+  getClassBookings(sessionIds: number[], params?: { statuses?: string[] }): Promise<ClassBooking[]>;
+  getClassBooking(id: number): Promise<ClassBooking | undefined>;
+  updateClassBooking(id: number, data: Partial<ClassBooking>): Promise<ClassBooking>;
 
   // Jobs
   getJobs(businessId: number, params?: {
@@ -242,6 +347,8 @@ export interface IStorage {
     limit?: number,
     offset?: number
   }): Promise<Job[]>;
+  getJobsForDate(businessId: number, date: string): Promise<Job[]>;
+  getActiveJobsForStaff(businessId: number, staffId: number): Promise<Job[]>;
   getJob(id: number): Promise<Job | undefined>;
   getJobByAppointmentId(appointmentId: number): Promise<Job | undefined>;
   createJob(job: InsertJob): Promise<Job>;
@@ -255,6 +362,24 @@ export interface IStorage {
   deleteJobLineItem(id: number): Promise<void>;
   deleteJobLineItemsByJob(jobId: number): Promise<void>;
 
+  // Job Forms
+  getJobFormTemplates(businessId: number, params?: { activeOnly?: boolean }): Promise<JobFormTemplate[]>;
+  getJobFormTemplate(id: number): Promise<JobFormTemplate | undefined>;
+  createJobFormTemplate(template: InsertJobFormTemplate): Promise<JobFormTemplate>;
+  updateJobFormTemplate(id: number, data: Partial<JobFormTemplate>): Promise<JobFormTemplate>;
+  deleteJobFormTemplate(id: number, businessId: number): Promise<void>;
+  getJobForms(businessId: number, jobIds: number[]): Promise<JobForm[]>;
+  getJobForm(id: number): Promise<JobForm | undefined>;
+  createJobFormsIfMissing(forms: InsertJobForm[]): Promise<JobForm[]>;
+  updateJobForm(id: number, data: Partial<JobForm>): Promise<JobForm>;
+
+  // Offline mutation receipts (tech app replay dedup)
+  getOfflineMutationReceipt(businessId: number, mutationId: string): Promise<OfflineMutationReceipt | undefined>;
+  reserveOfflineMutationReceipt(businessId: number, mutationId: string): Promise<boolean>;
+  saveOfflineMutationReceipt(receipt: InsertOfflineMutationReceipt): Promise<void>;
+  releaseOfflineMutationReceipt(businessId: number, mutationId: string): Promise<void>;
+  deleteOfflineMutationReceiptsBefore(cutoff: Date): Promise<number>;
+
   // Invoices
   getInvoices(businessId: number, params?: {
     status?: string,
@@ -273,6 +398,27 @@ export interface IStorage {
   updateInvoiceItem(id: number, item: Partial<InvoiceItem>): Promise<InvoiceItem>;
   deleteInvoiceItem(id: number): Promise<void>;
 
+  // Payments ledger
+  getPaymentsByInvoice(invoiceId: number, businessId: number): Promise<Payment[]>;
+  getPaymentsByQuote(quoteId: number, businessId: number): Promise<Payment[]>;
+  getPayment(id: number, businessId: number): Promise<Payment | undefined>;
+  getPaymentByStripeIntent(paymentIntentId: string): Promise<Payment | undefined>;
+  createPayment(payload: InsertPayment): Promise<Payment>;
+  attachQuotePaymentsToInvoice(quoteId: number, invoiceId: number, businessId: number): Promise<Payment[]>;
+  getRefundsByPayment(paymentId: number, businessId: number): Promise<PaymentRefund[]>;
+  getRefundsByInvoice(invoiceId: number, businessId: number): Promise<PaymentRefund[]>;
+  recordPaymentRefund(payload: InsertPaymentRefund): Promise<
+    | { ok: true; payment: Payment; refund: PaymentRefund }
+    | { ok: false; reason: "payment_not_found" | "exceeds_refundable" }
+  >;
+
+  // Credit notes
+  getCreditNotes(businessId: number): Promise<CreditNote[]>;
+  getCreditNotesByInvoice(invoiceId: number, businessId: number): Promise<CreditNote[]>;
+  getCreditNote(id: number, businessId: number): Promise<CreditNote | undefined>;
+  getCreditNoteItems(creditNoteIds: number[]): Promise<CreditNoteItem[]>;
+  updateCreditNote(id: number, businessId: number, patch: Partial<CreditNote>): Promise<CreditNote>;
+
   // Virtual Receptionist Configuration
   getReceptionistConfig(businessId: number): Promise<ReceptionistConfig | undefined>;
   createReceptionistConfig(config: InsertReceptionistConfig): Promise<ReceptionistConfig>;
@@ -340,6 +486,15 @@ export interface IStorage {
   createQuoteItem(item: InsertQuoteItem): Promise<QuoteItem>;
   deleteQuoteItems(quoteId: number): Promise<void>;
 
+  // Quote Options
+  getQuoteOptions(quoteId: number): Promise<QuoteOption[]>;
+  deleteQuoteOptions(quoteId: number): Promise<void>;
+
+  // Quote Signatures
+  createQuoteSignature(signature: InsertQuoteSignature): Promise<QuoteSignature | undefined>;
+  getQuoteSignature(quoteId: number, businessId: number): Promise<QuoteSignature | undefined>;
+  updateQuoteSignature(id: number, patch: Partial<Pick<QuoteSignature, 'pdfUrl' | 'emailedAt'>>): Promise<QuoteSignature>;
+
   // Notification Settings
   getNotificationSettings(businessId: number): Promise<NotificationSettings | undefined>;
   upsertNotificationSettings(settings: InsertNotificationSettings): Promise<NotificationSettings>;
@@ -484,6 +639,21 @@ export interface IStorage {
     remainingSeats: number;
   }>;
 
+  // Restaurant Tables
+  getRestaurantTables(businessId: number, params?: { activeOnly?: boolean }): Promise<RestaurantTable[]>;
+  getRestaurantTable(id: number): Promise<RestaurantTable | undefined>;
+  createRestaurantTable(data: InsertRestaurantTable): Promise<RestaurantTable>;
+  updateRestaurantTable(id: number, data: Partial<RestaurantTable>): Promise<RestaurantTable>;
+  deleteRestaurantTable(id: number): Promise<void>;
+
+  // Waitlist
+  getWaitlistEntries(businessId: number, params?: { statuses?: string[]; since?: Date }): Promise<WaitlistEntry[]>;
+  getWaitlistEntriesCreatedBefore(statuses: string[], before: Date): Promise<WaitlistEntry[]>;
+  getWaitlistEntry(id: number): Promise<WaitlistEntry | undefined>;
+  getWaitlistEntryByManageToken(token: string): Promise<WaitlistEntry | undefined>;
+  createWaitlistEntry(data: InsertWaitlistEntry): Promise<WaitlistEntry>;
+  updateWaitlistEntry(id: number, data: Partial<WaitlistEntry>): Promise<WaitlistEntry>;
+
   // Business Phone Numbers
   getPhoneNumbersByBusiness(businessId: number): Promise<BusinessPhoneNumber[]>;
   getPhoneNumber(id: number): Promise<BusinessPhoneNumber | undefined>;
@@ -528,8 +698,10 @@ export interface IStorage {
   upsertSmsBusinessProfile(businessId: number, data: Partial<InsertSmsBusinessProfile>): Promise<SmsBusinessProfile>;
   createOutboundMessage(data: InsertOutboundMessage): Promise<OutboundMessage>;
   getOutboundMessages(businessId: number, params?: { messageType?: string; limit?: number; offset?: number }): Promise<OutboundMessage[]>;
+  getLatestOutboundMessageForCustomer(businessId: number, customerId: number): Promise<OutboundMessage | null>;
   createInboundMessage(data: InsertInboundMessage): Promise<InboundMessage>;
   getInboundMessages(businessId: number, params?: { limit?: number; offset?: number }): Promise<InboundMessage[]>;
+  getLatestInboundMessageForCustomer(businessId: number, customerId: number): Promise<InboundMessage | null>;
   upsertConversationState(businessId: number, customerId: number, data: Partial<ConversationState>): Promise<ConversationState>;
   getConversationState(businessId: number, customerId: number): Promise<ConversationState | null>;
   createMarketingTrigger(data: InsertMarketingTrigger): Promise<MarketingTrigger>;
@@ -546,6 +718,15 @@ export interface IStorage {
   createSmsActivityFeedEntry(data: InsertSmsActivityFeed): Promise<SmsActivityFeedEntry>;
   getSmsActivityFeed(businessId: number, params?: { limit?: number; offset?: number; unreadOnly?: boolean }): Promise<SmsActivityFeedEntry[]>;
   markSmsActivityFeedRead(businessId: number): Promise<void>;
+  // SMS Inbox
+  upsertSmsInboxThread(businessId: number, customerPhone: string, data: { customerId?: number | null; direction: 'inbound' | 'outbound'; preview: string; at?: Date }): Promise<SmsInboxThread>;
+  touchSmsInboxThreadForCustomer(businessId: number, customerId: number, preview: string): Promise<void>;
+  getSmsInboxThreads(businessId: number, params?: { assignedStaffId?: number; unreadOnly?: boolean; limit?: number }): Promise<SmsInboxThread[]>;
+  getSmsInboxThread(id: number, businessId: number): Promise<SmsInboxThread | undefined>;
+  getSmsInboxThreadByPhone(businessId: number, customerPhone: string): Promise<SmsInboxThread | undefined>;
+  updateSmsInboxThread(id: number, businessId: number, data: Partial<SmsInboxThread>): Promise<SmsInboxThread>;
+  getSmsInboxUnreadCount(businessId: number, assignedStaffId?: number): Promise<number>;
+  getSmsThreadMessages(businessId: number, thread: { customerPhone: string; customerId: number | null }, limit?: number): Promise<{ inbound: InboundMessage[]; outbound: OutboundMessage[] }>;
   // Workflows
   createWorkflow(data: InsertWorkflow): Promise<Workflow>;
   getWorkflows(businessId: number, params?: { status?: string; limit?: number }): Promise<Workflow[]>;
@@ -629,18 +810,45 @@ export class DatabaseStorage implements IStorage {
   updateService = businessFns.updateService;
   deleteService = businessFns.deleteService;
 
+  // --- Service Add-ons (business.ts) ---
+  getServiceAddons = businessFns.getServiceAddons;
+  getServiceAddon = businessFns.getServiceAddon;
+  createServiceAddon = businessFns.createServiceAddon;
+  updateServiceAddon = businessFns.updateServiceAddon;
+  deleteServiceAddon = businessFns.deleteServiceAddon;
+
   // --- Customers (customers.ts) ---
   getCustomers = customerFns.getCustomers;
   getArchivedCustomers = customerFns.getArchivedCustomers;
   getCustomer = customerFns.getCustomer;
   getCustomersByIds = customerFns.getCustomersByIds;
   getCustomerByPhone = customerFns.getCustomerByPhone;
+  getCustomerByEmail = customerFns.getCustomerByEmail;
   createCustomer = customerFns.createCustomer;
   updateCustomer = customerFns.updateCustomer;
   deleteCustomer = customerFns.deleteCustomer;
   archiveCustomer = customerFns.archiveCustomer;
   restoreCustomer = customerFns.restoreCustomer;
 
+  // Custom Fields
+  getCustomFieldDefinitions = customerFns.getCustomFieldDefinitions;
+  getCustomFieldDefinition = customerFns.getCustomFieldDefinition;
+  createCustomFieldDefinition = customerFns.createCustomFieldDefinition;
+  updateCustomFieldDefinition = customerFns.updateCustomFieldDefinition;
+  deleteCustomFieldDefinition = customerFns.deleteCustomFieldDefinition;
+
+  // Customer Portal
+  createCustomerPortalCode = customerFns.createCustomerPortalCode;
+  getActiveCustomerPortalCode = customerFns.getActiveCustomerPortalCode;
+  getCustomerPortalCodeByLinkToken = customerFns.getCustomerPortalCodeByLinkToken;
+  countCustomerPortalCodesSince = customerFns.countCustomerPortalCodesSince;
+  updateCustomerPortalCode = customerFns.updateCustomerPortalCode;
+  claimCustomerPortalCodeAttempt = customerFns.claimCustomerPortalCodeAttempt;
+  consumeCustomerPortalCode = customerFns.consumeCustomerPortalCode;
+  createCustomerPortalSession = customerFns.createCustomerPortalSession;
+  getCustomerPortalSessionByTokenHash = customerFns.getCustomerPortalSessionByTokenHash;
+  updateCustomerPortalSession = customerFns.updateCustomerPortalSession;
+
   // --- Customer Equipment (equipment.ts) — Step 3 of HVAC roadmap ---
   getCustomerEquipment = equipmentFns.getCustomerEquipment;
   getCustomerEquipmentById = equipmentFns.getCustomerEquipmentById;
@@ -704,6 +912,13 @@ export class DatabaseStorage implements IStorage {
   updateStaffTimeOff = staffFns.updateStaffTimeOff;
   deleteStaffTimeOff = staffFns.deleteStaffTimeOff;
 
+  // --- Bookable Resources (staff.ts) ---
+  getResources = staffFns.getResources;
+  getResource = staffFns.getResource;
+  createResource = staffFns.createResource;
+  updateResource = staffFns.updateResource;
+  deleteResource = staffFns.deleteResource;
+
   // --- Staff-Service Assignments (staff.ts) ---
   getStaffServices = staffFns.getStaffServices;
   getServiceStaff = staffFns.getServiceStaff;
@@ -721,9 +936,44 @@ export class DatabaseStorage implements IStorage {
   createAppointment = appointmentFns.createAppointment;
   updateAppointment = appointmentFns.updateAppointment;
   deleteAppointment = appointmentFns.deleteAppointment;
+  getAppointmentServices = appointmentFns.getAppointmentServices;
+  getAppointmentServicesForAppointments = appointmentFns.getAppointmentServicesForAppointments;
+  createAppointmentFee = appointmentFns.createAppointmentFee;
+  getAppointmentFee = appointmentFns.getAppointmentFee;
+  getAppointmentFees = appointmentFns.getAppointmentFees;
+  updateAppointmentFee = appointmentFns.updateAppointmentFee;
+
+  // --- Appointment Waitlist (appointments.ts) ---
+  getAppointmentWaitlistEntries = appointmentFns.getAppointmentWaitlistEntries;
+  getAppointmentWaitlistEntry = appointmentFns.getAppointmentWaitlistEntry;
+  createAppointmentWaitlistEntry = appointmentFns.createAppointmentWaitlistEntry;
+  updateAppointmentWaitlistEntry = appointmentFns.updateAppointmentWaitlistEntry;
+  getAppointmentSlotOffers = appointmentFns.getAppointmentSlotOffers;
+  getAppointmentSlotOffer = appointmentFns.getAppointmentSlotOffer;
+  getExpiredAppointmentSlotOffers = appointmentFns.getExpiredAppointmentSlotOffers;
+  createAppointmentSlotOffer = appointmentFns.createAppointmentSlotOffer;
+  updateAppointmentSlotOffer = appointmentFns.updateAppointmentSlotOffer;
+
+  // Group classes
+  getClassSchedules = appointmentFns.getClassSchedules;
+  getClassSchedule = appointmentFns.getClassSchedule;
+  createClassSchedule = appointmentFns.createClassSchedule;
+  updateClassSchedule = appointmentFns.updateClassSchedule;
+  deleteClassSchedule = appointmentFns.deleteClassSchedule;
+  getClassSessions = appointmentFns.getClassSessions;
+  getClassSession = appointmentFns.getClassSession;
+  createClassSession = appointmentFns.createClassSession;
+  createClassSessionsIfMissing = appointmentFns.createClassSessionsIfMissing;
+  updateClassSession = appointmentFns.updateClassSession;
+  deleteClassSessions = appointmentFns.deleteClassSessions;
+  getClassBookings = appointmentFns.getClassBookings;
+  getClassBooking = appointmentFns.getClassBooking;
+  updateClassBooking = appointmentFns.updateClassBooking;
 
   // --- Jobs (jobs.ts) ---
   getJobs = jobFns.getJobs;
+  getJobsForDate = jobFns.getJobsForDate;
+  getActiveJobsForStaff = jobFns.getActiveJobsForStaff;
   getJob = jobFns.getJob;
   getJobByAppointmentId = jobFns.getJobByAppointmentId;
   createJob = jobFns.createJob;
@@ -737,6 +987,24 @@ export class DatabaseStorage implements IStorage {
   deleteJobLineItem = jobFns.deleteJobLineItem;
   deleteJobLineItemsByJob = jobFns.deleteJobLineItemsByJob;
 
+  // --- Job Forms (jobs.ts) ---
+  getJobFormTemplates = jobFns.getJobFormTemplates;
+  getJobFormTemplate = jobFns.getJobFormTemplate;
+  createJobFormTemplate = jobFns.createJobFormTemplate;
+  updateJobFormTemplate = jobFns.updateJobFormTemplate;
+  deleteJobFormTemplate = jobFns.deleteJobFormTemplate;
+  getJobForms = jobFns.getJobForms;
+  getJobForm = jobFns.getJobForm;
+  createJobFormsIfMissing = jobFns.createJobFormsIfMissing;
+  updateJobForm = jobFns.updateJobForm;
+
+  // --- Offline Mutation Receipts (jobs.ts) ---
+  getOfflineMutationReceipt = jobFns.getOfflineMutationReceipt;
+  reserveOfflineMutationReceipt = jobFns.reserveOfflineMutationReceipt;
+  saveOfflineMutationReceipt = jobFns.saveOfflineMutationReceipt;
+  releaseOfflineMutationReceipt = jobFns.releaseOfflineMutationReceipt;
+  deleteOfflineMutationReceiptsBefore = jobFns.deleteOfflineMutationReceiptsBefore;
+
   // --- Invoices (invoices.ts) ---
   getInvoices = invoiceFns.getInvoices;
   getInvoice = invoiceFns.getInvoice;
@@ -752,6 +1020,24 @@ export class DatabaseStorage implements IStorage {
   updateInvoiceItem = invoiceFns.updateInvoiceItem;
   deleteInvoiceItem = invoiceFns.deleteInvoiceItem;
 
+  // --- Payments ledger (payments.ts) ---
+  getPaymentsByInvoice = paymentFns.getPaymentsByInvoice;
+  getPaymentsByQuote = paymentFns.getPaymentsByQuote;
+  getPayment = paymentFns.getPayment;
+  getPaymentByStripeIntent = paymentFns.getPaymentByStripeIntent;
+  createPayment = paymentFns.createPayment;
+  attachQuotePaymentsToInvoice = paymentFns.attachQuotePaymentsToInvoice;
+  getRefundsByPayment = paymentFns.getRefundsByPayment;
+  getRefundsByInvoice = paymentFns.getRefundsByInvoice;
+  recordPaymentRefund = paymentFns.recordPaymentRefund;
+
+  // --- Credit notes (creditNotes.ts) ---
+  getCreditNotes = creditNoteFns.getCreditNotes;
+  getCreditNotesByInvoice = creditNoteFns.getCreditNotesByInvoice;
+  getCreditNote = creditNoteFns.getCreditNote;
+  getCreditNoteItems = creditNoteFns.getCreditNoteItems;
+  updateCreditNote = creditNoteFns.updateCreditNote;
+
   // --- Quotes (invoices.ts) ---
   getAllQuotes = invoiceFns.getAllQuotes;
   getQuoteById = invoiceFns.getQuoteById;
@@ -767,6 +1053,15 @@ export class DatabaseStorage implements IStorage {
   createQuoteItem = invoiceFns.createQuoteItem;
   deleteQuoteItems = invoiceFns.deleteQuoteItems;
 
+  // --- Quote Options (invoices.ts) ---
+  getQuoteOptions = invoiceFns.getQuoteOptions;
+  deleteQuoteOptions = invoiceFns.deleteQuoteOptions;
+
+  // --- Quote Signatures (invoices.ts) ---
+  createQuoteSignature = invoiceFns.createQuoteSignature;
+  getQuoteSignature = invoiceFns.getQuoteSignature;
+  updateQuoteSignature = invoiceFns.updateQuoteSignature;
+
   // --- Quote Follow-ups (invoices.ts) ---
   createQuoteFollowUp = invoiceFns.createQuoteFollowUp;
   getQuoteFollowUpCount = invoiceFns.getQuoteFollowUpCount;
@@ -900,6 +1195,21 @@ export class DatabaseStorage implements IStorage {
   updateRestaurantReservation = integrationFns.updateRestaurantReservation;
   getReservationSlotCapacity = integrationFns.getReservationSlotCapacity;
 
+  // --- Restaurant Tables (integrations.ts) ---
+  getRestaurantTables = integrationFns.getRestaurantTables;
+  getRestaurantTable = integrationFns.getRestaurantTable;
+  createRestaurantTable = integrationFns.createRestaurantTable;
+  updateRestaurantTable = integrationFns.updateRestaurantTable;
+  deleteRestaurantTable = integrationFns.deleteRestaurantTable;
+
+  // --- Waitlist (integrations.ts) ---
+  getWaitlistEntries = integrationFns.getWaitlistEntries;
+  getWaitlistEntriesCreatedBefore = integrationFns.getWaitlistEntriesCreatedBefore;
+  getWaitlistEntry = integrationFns.getWaitlistEntry;
+  getWaitlistEntryByManageToken = integrationFns.getWaitlistEntryByManageToken;
+  createWaitlistEntry = integrationFns.createWaitlistEntry;
+  updateWaitlistEntry = integrationFns.updateWaitlistEntry;
+
   // --- Business Phone Numbers (integrations.ts) ---
   getPhoneNumbersByBusiness = integrationFns.getPhoneNumbersByBusiness;
   getPhoneNumber = integrationFns.getPhoneNumber;
@@ -944,8 +1254,10 @@ export class DatabaseStorage implements IStorage {
   upsertSmsBusinessProfile = smsFns.upsertSmsBusinessProfile;
   createOutboundMessage = smsFns.createOutboundMessage;
   getOutboundMessages = smsFns.getOutboundMessages;
+  getLatestOutboundMessageForCustomer = smsFns.getLatestOutboundMessageForCustomer;
   createInboundMessage = smsFns.createInboundMessage;
   getInboundMessages = smsFns.getInboundMessages;
+  getLatestInboundMessageForCustomer = smsFns.getLatestInboundMessageForCustomer;
   upsertConversationState = smsFns.upsertConversationState;
   getConversationState = smsFns.getConversationState;
   createMarketingTrigger = smsFns.createMarketingTrigger;
@@ -962,6 +1274,14 @@ export class DatabaseStorage implements IStorage {
   createSmsActivityFeedEntry = smsFns.createSmsActivityFeedEntry;
   getSmsActivityFeed = smsFns.getSmsActivityFeed;
   markSmsActivityFeedRead = smsFns.markSmsActivityFeedRead;
+  upsertSmsInboxThread = smsFns.upsertSmsInboxThread;
+  touchSmsInboxThreadForCustomer = smsFns.touchSmsInboxThreadForCustomer;
+  getSmsInboxThreads = smsFns.getSmsInboxThreads;
+  getSmsInboxThread = smsFns.getSmsInboxThread;
+  getSmsInboxThreadByPhone = smsFns.getSmsInboxThreadByPhone;
+  updateSmsInboxThread = smsFns.updateSmsInboxThread;
+  getSmsInboxUnreadCount = smsFns.getSmsInboxUnreadCount;
+  getSmsThreadMessages = smsFns.getSmsThreadMessages;
 
   // --- Workflows (workflows.ts) ---
   createWorkflow = workflowFns.createWorkflow;
@@ -1,6 +1,8 @@
 import {
   Website, InsertWebsite, websites,
   RestaurantReservation, InsertRestaurantReservation, restaurantReservations,
+  RestaurantTable, InsertRestaurantTable, restaurantTables,
+  WaitlistEntry, InsertWaitlistEntry, waitlistEntries,
   BusinessPhoneNumber, InsertBusinessPhoneNumber, businessPhoneNumbers,
   BusinessGroup, InsertBusinessGroup, businessGroups,
   UserBusinessAccess, InsertUserBusinessAccess, userBusinessAccess,
@@ -8,7 +10,7 @@ import {
   GbpPost, InsertGbpPost, gbpPosts,
   businesses, users,
 } from "@shared/schema";
-import { eq, and, or, desc, gte, lte, isNull, sql } from "drizzle-orm";
+import { eq, and, or, desc, gte, lt, lte, isNull, inArray, sql } from "drizzle-orm";
 import { db } from "../db";
 import { decryptBusinessFields } from "./business";
 
@@ -151,6 +153,96 @@ export async function getReservationSlotCapacity(businessId: number, date: strin
   };
 }
 
+// =================== Restaurant Tables ===================
+
+export async function getRestaurantTables(businessId: number, params?: { activeOnly?: boolean }): Promise<RestaurantTable[]> {
+  const conditions = [eq(restaurantTables.businessId, businessId)];
+  if (params?.activeOnly) {
+    conditions.push(eq(restaurantTables.active, true));
+  }
+  return db.select().from(restaurantTables)
+    .where(and(...conditions))
+    .orderBy(restaurantTables.sortOrder, restaurantTables.id);
+}
+
+export async function getRestaurantTable(id: number): Promise<RestaurantTable | undefined> {
+  const [table] = await db.select().from(restaurantTables)
+    .where(eq(restaurantTables.id, id));
+  return table;
+}
+
+export async function createRestaurantTable(data: InsertRestaurantTable): Promise<RestaurantTable> {
+  const [table] = await db.insert(restaurantTables)
+    .values(data)
+    .returning();
+  return table;
+}
+
+export async function updateRestaurantTable(id: number, data: Partial<RestaurantTable>): Promise<RestaurantTable> {
+  const [table] = await db.update(restaurantTables)
+    .set({ ...data, updatedAt: new Date() })
+    .where(eq(restaurantTables.id, id))
+    .returning();
+  return table;
+}
+
+export async function deleteRestaurantTable(id: number): Promise<void> {
+  await db.delete(restaurantTables).where(eq(restaurantTables.id, id));
+}
+
+// =================== Waitlist ===================
+
+export async function getWaitlistEntries(businessId: number, params?: {
+  statuses?: string[];
+  since?: Date;
+}): Promise<WaitlistEntry[]> {
+  const conditions = [eq(waitlistEntries.businessId, businessId)];
+  if (params?.statuses && params.statuses.length > 0) {
+    conditions.push(inArray(waitlistEntries.status, params.statuses));
+  }
+  if (params?.since) {
+    conditions.push(gte(waitlistEntries.createdAt, params.since));
+  }
+  // Oldest first — list order is queue position
+  return db.select().from(waitlistEntries)
+    .where(and(...conditions))
+    .orderBy(waitlistEntries.createdAt, waitlistEntries.id);
+}
+
+/** Entries in the given statuses that joined before `before`, across all businesses */
+export async function getWaitlistEntriesCreatedBefore(statuses: string[], before: Date): Promise<WaitlistEntry[]> {
+  return db.select().from(waitlistEntries)
+    .where(and(inArray(waitlistEntries.status, statuses), lt(waitlistEntries.createdAt, before)))
+    .orderBy(waitlistEntries.createdAt, waitlistEntries.id);
+}
+
+export async function getWaitlistEntry(id: number): Promise<WaitlistEntry | undefined> {
+  const [entry] = await db.select().from(waitlistEntries)
+    .where(eq(waitlistEntries.id, id));
+  return entry;
+}
+
+export async function getWaitlistEntryByManageToken(token: string): Promise<WaitlistEntry | undefined> {
+  const [entry] = await db.select().from(waitlistEntries)
+    .where(eq(waitlistEntries.manageToken, token));
+  return entry;
+}
+
+export async function createWaitlistEntry(data: InsertWaitlistEntry): Promise<WaitlistEntry> {
+  const [entry] = await db.insert(waitlistEntries)
+    .values(data)
+    .returning();
+  return entry;
+}
+
+export async function updateWaitlistEntry(id: number, data: Partial<WaitlistEntry>): Promise<WaitlistEntry> {
+  const [entry] = await db.update(waitlistEntries)
+    .set({ ...data, updatedAt: new Date() })
+    .where(eq(waitlistEntries.id, id))
+    .returning();
+  return entry;
+}
+
 // =================== Business Phone Numbers ===================
 
 export async function getPhoneNumbersByBusiness(businessId: number): Promise<BusinessPhoneNumber[]> {
@@ -3,11 +3,14 @@ import {
   InvoiceItem, InsertInvoiceItem, invoiceItems,
   Quote, InsertQuote, quotes,
   QuoteItem, InsertQuoteItem, quoteItems,
+  QuoteOption, quoteOptions,
+  QuoteSignature, InsertQuoteSignature, quoteSignatures,
   QuoteFollowUp, InsertQuoteFollowUp, quoteFollowUps,
   customers, jobs,
 } from "@shared/schema";
 import { eq, and, or, desc, ilike, gte, lte, sql } from "drizzle-orm";
 import { db } from "../db";
+import { publishRealtimeEvent } from "../services/realtimeEventBus";
 
 // =================== Invoices ===================
 
@@ -77,9 +80,12 @@ export async function getInvoicesWithAccessToken(email?: string, phone?: string)
 export async function createInvoice(invoice: InsertInvoice): Promise<Invoice> {
   const [newInvoice] = await db.insert(invoices).values({
     ...invoice,
+    // Nothing has been paid on a brand-new invoice, so it owes its full total
+    balanceDue: invoice.balanceDue ?? invoice.total,
     createdAt: new Date(),
     updatedAt: new Date()
   }).returning();
+  publishRealtimeEvent(newInvoice.businessId, 'invoices');
   return newInvoice;
 }
 
@@ -91,11 +97,13 @@ export async function updateInvoice(id: number, invoice: Partial<Invoice>): Prom
     })
     .where(eq(invoices.id, id))
     .returning();
+  publishRealtimeEvent(updatedInvoice?.businessId, 'invoices');
   return updatedInvoice;
 }
 
 export async function deleteInvoice(id: number, businessId: number): Promise<void> {
   await db.delete(invoices).where(and(eq(invoices.id, id), eq(invoices.businessId, businessId)));
+  publishRealtimeEvent(businessId, 'invoices');
 }
 
 // =================== Invoice Items ===================
@@ -237,15 +245,19 @@ export async function getQuoteById(id: number, businessId: number): Promise<any>
     job = jobRow;
   }
 
-  // Fetch quote items
-  const items = await getQuoteItems(id);
+  // Fetch quote items and any good/better/best options they belong to
+  const [items, options] = await Promise.all([getQuoteItems(id), getQuoteOptions(id)]);
 
   // Format the result
   return {
     ...quoteRow,
     customer,
     job,
-    items
+    items,
+    options: options.map(option => ({
+      ...option,
+      items: items.filter(item => item.optionId === option.id),
+    })),
   };
 }
 
@@ -307,8 +319,9 @@ export async function updateQuoteStatus(id: number, status: string): Promise<Quo
 }
 
 export async function deleteQuote(id: number, businessId: number): Promise<void> {
-  // First delete all quote items
+  // First delete all quote items and options
   await deleteQuoteItems(id);
+  await deleteQuoteOptions(id);
   // Then delete the quote
   await db.delete(quotes).where(and(eq(quotes.id, id), eq(quotes.businessId, businessId)));
 }
@@ -329,6 +342,52 @@ export async function deleteQuoteItems(quoteId: number): Promise<void> {
   await db.delete(quoteItems).where(eq(quoteItems.quoteId, quoteId));
 }
 
+// =================== Quote Options ===================
+
+export async function getQuoteOptions(quoteId: number): Promise<QuoteOption[]> {
+  return db.select().from(quoteOptions)
+    .where(eq(quoteOptions.quoteId, quoteId))
+    .orderBy(quoteOptions.sortOrder, quoteOptions.id);
+}
+
+export async function deleteQuoteOptions(quoteId: number): Promise<void> {
+  await db.delete(quoteOptions).where(eq(quoteOptions.quoteId, quoteId));
+}
+
+// =================== Quote Signatures ===================
+
+/**
+ * Store the signature for a quote. Returns undefined when the quote is
+ * already signed, so a double-submitted Accept records one signature.
+ */
+export async function createQuoteSignature(signature: InsertQuoteSignature): Promise<QuoteSignature | undefined> {
+  const [created] = await db.insert(quoteSignatures)
+    .values(signature)
+    .onConflictDoNothing({ target: quoteSignatures.quoteId })
+    .returning();
+  return created;
+}
+
+/** The signature on a quote, tenant-scoped. */
+export async function getQuoteSignature(quoteId: number, businessId: number): Promise<QuoteSignature | undefined> {
+  const [signature] = await db.select().from(quoteSignatures)
+    .where(and(eq(quoteSignatures.quoteId, quoteId), eq(quoteSignatures.businessId, businessId)))
+    .orderBy(desc(quoteSignatures.signedAt))
+    .limit(1);
+  return signature;
+}
+
+export async function updateQuoteSignature(
+  id: number,
+  patch: Partial<Pick<QuoteSignature, 'pdfUrl' | 'emailedAt'>>,
+): Promise<QuoteSignature> {
+  const [updated] = await db.update(quoteSignatures)
+    .set(patch)
+    .where(eq(quoteSignatures.id, id))
+    .returning();
+  return updated;
+}
+
 // =================== Quote Follow-ups ===================
 
 export async function createQuoteFollowUp(entry: InsertQuoteFollowUp): Promise<QuoteFollowUp> {
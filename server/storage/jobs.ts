@@ -1,9 +1,13 @@
 import {
   Job, InsertJob, jobs,
   JobLineItem, InsertJobLineItem, jobLineItems,
+  JobFormTemplate, InsertJobFormTemplate, jobFormTemplates,
+  JobForm, InsertJobForm, jobForms,
+  OfflineMutationReceipt, InsertOfflineMutationReceipt, offlineMutationReceipts,
 } from "@shared/schema";
-import { eq, and, desc } from "drizzle-orm";
+import { eq, and, asc, desc, inArray, lt } from "drizzle-orm";
 import { db } from "../db";
+import { publishRealtimeEvent } from "../services/realtimeEventBus";
 
 // =================== Jobs ===================
 
@@ -34,6 +38,24 @@ export async function getJobs(businessId: number, params?: {
   return query;
 }
 
+/** Jobs scheduled on a day (YYYY-MM-DD), in route order then creation order. */
+export async function getJobsForDate(businessId: number, date: string): Promise<Job[]> {
+  return db.select().from(jobs)
+    .where(and(eq(jobs.businessId, businessId), eq(jobs.scheduledDate, date)))
+    .orderBy(asc(jobs.routeOrder), asc(jobs.createdAt));
+}
+
+/** A tech's jobs that are underway — en route or in progress — oldest first. */
+export async function getActiveJobsForStaff(businessId: number, staffId: number): Promise<Job[]> {
+  return db.select().from(jobs)
+    .where(and(
+      eq(jobs.businessId, businessId),
+      eq(jobs.staffId, staffId),
+      inArray(jobs.status, ['en_route', 'in_progress']),
+    ))
+    .orderBy(asc(jobs.createdAt));
+}
+
 export async function getJob(id: number): Promise<Job | undefined> {
   const [job] = await db.select().from(jobs).where(eq(jobs.id, id));
   return job;
@@ -50,6 +72,7 @@ export async function createJob(job: InsertJob): Promise<Job> {
     createdAt: new Date(),
     updatedAt: new Date()
   }).returning();
+  publishRealtimeEvent(newJob.businessId, 'jobs');
   return newJob;
 }
 
@@ -61,11 +84,13 @@ export async function updateJob(id: number, job: Partial<Job>): Promise<Job> {
     })
     .where(eq(jobs.id, id))
     .returning();
+  publishRealtimeEvent(updatedJob?.businessId, 'jobs');
   return updatedJob;
 }
 
 export async function deleteJob(id: number, businessId: number): Promise<void> {
   await db.delete(jobs).where(and(eq(jobs.id, id), eq(jobs.businessId, businessId)));
+  publishRealtimeEvent(businessId, 'jobs');
 }
 
 // =================== Job Line Items ===================
@@ -79,14 +104,15 @@ export async function getJobLineItems(jobId: number): Promise<JobLineItem[]> {
 export async function createJobLineItem(item: InsertJobLineItem): Promise<JobLineItem> {
   const [newItem] = await db.insert(jobLineItems).values({
     ...item,
-    createdAt: new Date()
+    createdAt: new Date(),
+    updatedAt: new Date()
   }).returning();
   return newItem;
 }
 
 export async function updateJobLineItem(id: number, item: Partial<JobLineItem>): Promise<JobLineItem> {
   const [updatedItem] = await db.update(jobLineItems)
-    .set(item)
+    .set({ ...item, updatedAt: new Date() })
     .where(eq(jobLineItems.id, id))
     .returning();
   return updatedItem;
@@ -99,3 +125,135 @@ export async function deleteJobLineItem(id: number): Promise<void> {
 export async function deleteJobLineItemsByJob(jobId: number): Promise<void> {
   await db.delete(jobLineItems).where(eq(jobLineItems.jobId, jobId));
 }
+
+// =================== Job Forms ===================
+
+export async function getJobFormTemplates(businessId: number, params: {
+  activeOnly?: boolean,
+} = {}): Promise<JobFormTemplate[]> {
+  const conditions = [eq(jobFormTemplates.businessId, businessId)];
+  if (params.activeOnly) {
+    conditions.push(eq(jobFormTemplates.active, true));
+  }
+  return db.select().from(jobFormTemplates)
+    .where(and(...conditions))
+    .orderBy(asc(jobFormTemplates.name), asc(jobFormTemplates.id));
+}
+
+export async function getJobFormTemplate(id: number): Promise<JobFormTemplate | undefined> {
+  const [template] = await db.select().from(jobFormTemplates).where(eq(jobFormTemplates.id, id));
+  return template;
+}
+
+export async function createJobFormTemplate(template: InsertJobFormTemplate): Promise<JobFormTemplate> {
+  const [created] = await db.insert(jobFormTemplates).values(template).returning();
+  return created;
+}
+
+export async function updateJobFormTemplate(id: number, data: Partial<JobFormTemplate>): Promise<JobFormTemplate> {
+  const [updated] = await db.update(jobFormTemplates)
+    .set({ ...data, updatedAt: new Date() })
+    .where(eq(jobFormTemplates.id, id))
+    .returning();
+  return updated;
+}
+
+/** Also drops the template's unsubmitted forms; submitted ones stay on their jobs */
+export async function deleteJobFormTemplate(id: number, businessId: number): Promise<void> {
+  await db.delete(jobForms)
+    .where(and(eq(jobForms.templateId, id), eq(jobForms.businessId, businessId), eq(jobForms.status, 'pending')));
+  await db.delete(jobFormTemplates)
+    .where(and(eq(jobFormTemplates.id, id), eq(jobFormTemplates.businessId, businessId)));
+}
+
+/** Forms on the given jobs, in attach order */
+export async function getJobForms(businessId: number, jobIds: number[]): Promise<JobForm[]> {
+  if (jobIds.length === 0) return [];
+  return db.select().from(jobForms)
+    .where(and(eq(jobForms.businessId, businessId), inArray(jobForms.jobId, jobIds)))
+    .orderBy(asc(jobForms.jobId), asc(jobForms.id));
+}
+
+export async function getJobForm(id: number): Promise<JobForm | undefined> {
+  const [form] = await db.select().from(jobForms).where(eq(jobForms.id, id));
+  return form;
+}
+
+/** Attaches forms, skipping any template already on the same job */
+export async function createJobFormsIfMissing(forms: InsertJobForm[]): Promise<JobForm[]> {
+  if (forms.length === 0) return [];
+  return db.insert(jobForms)
+    .values(forms)
+    .onConflictDoNothing({ target: [jobForms.jobId, jobForms.templateId] })
+    .returning();
+}
+
+export async function updateJobForm(id: number, data: Partial<JobForm>): Promise<JobForm> {
+  const [updated] = await db.update(jobForms)
+    .set({ ...data, updatedAt: new Date() })
+    .where(eq(jobForms.id, id))
+    .returning();
+  publishRealtimeEvent(updated?.businessId, 'jobs');
+  return updated;
+}
+
+// =================== Offline Mutation Receipts ===================
+
+export async function getOfflineMutationReceipt(businessId: number, mutationId: string): Promise<OfflineMutationReceipt | undefined> {
+  const [receipt] = await db.select().from(offlineMutationReceipts)
+    .where(and(eq(offlineMutationReceipts.businessId, businessId), eq(offlineMutationReceipts.mutationId, mutationId)));
+  return receipt;
+}
+
+/** statusCode of a receipt whose request is still running */
+const PENDING_RECEIPT_STATUS = 0;
+
+// A pending receipt this old belongs to a request that died — let a retry take it over
+const PENDING_RECEIPT_TIMEOUT_MS = 2 * 60 * 1000;
+
+/**
+ * Claims a mutation id before its request runs. Returns false when another
+ * request already holds it, so concurrent duplicates don't both run.
+ */
+export async function reserveOfflineMutationReceipt(businessId: number, mutationId: string): Promise<boolean> {
+  const now = new Date();
+  const claimed = await db.insert(offlineMutationReceipts)
+    .values({ businessId, mutationId, statusCode: PENDING_RECEIPT_STATUS, response: null, createdAt: now })
+    .onConflictDoUpdate({
+      target: [offlineMutationReceipts.businessId, offlineMutationReceipts.mutationId],
+      set: { createdAt: now },
+      setWhere: and(
+        eq(offlineMutationReceipts.statusCode, PENDING_RECEIPT_STATUS),
+        lt(offlineMutationReceipts.createdAt, new Date(now.getTime() - PENDING_RECEIPT_TIMEOUT_MS)),
+      ),
+    })
+    .returning({ id: offlineMutationReceipts.id });
+  return claimed.length > 0;
+}
+
+/** Fills in the response of a reserved receipt */
+export async function saveOfflineMutationReceipt(receipt: InsertOfflineMutationReceipt): Promise<void> {
+  await db.update(offlineMutationReceipts)
+    .set({ statusCode: receipt.statusCode, response: receipt.response })
+    .where(and(
+      eq(offlineMutationReceipts.businessId, receipt.businessId),
+      eq(offlineMutationReceipts.mutationId, receipt.mutationId),
+    ));
+}
+
+/** Drops a reservation whose request failed, so the change can be retried */
+export async function releaseOfflineMutationReceipt(businessId: number, mutationId: string): Promise<void> {
+  await db.delete(offlineMutationReceipts)
+    .where(and(
+      eq(offlineMutationReceipts.businessId, businessId),
+      eq(offlineMutationReceipts.mutationId, mutationId),
+      eq(offlineMutationReceipts.statusCode, PENDING_RECEIPT_STATUS),
+    ));
+}
+
+export async function deleteOfflineMutationReceiptsBefore(cutoff: Date): Promise<number> {
+  const deleted = await db.delete(offlineMutationReceipts)
+    .where(lt(offlineMutationReceipts.createdAt, cutoff))
+    .returning({ id: offlineMutationReceipts.id });
+  return deleted.length;
+}
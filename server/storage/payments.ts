@@ -0,0 +1,165 @@
+/**
+ * Payments Ledger Storage
+ *
+ * Two tables: payments (money received — Stripe, cash, check, manual) and
+ * payment_refunds (money returned against a single payment).
+ *
+ * A payment belongs to an invoice, or — for deposits collected before the
+ * work is invoiced — to a quote. attachQuotePaymentsToInvoice re-points
+ * deposit rows at the invoice when the quote converts.
+ *
+ * Running totals on invoices (amountPaid / balanceDue) are NOT maintained
+ * here; invoicePaymentService recalculates them from these rows.
+ *
+ * All reads are TENANT-SCOPED except getPaymentByStripeIntent, which the
+ * Stripe webhook uses before it knows the business.
+ */
+
+import {
+  Payment,
+  InsertPayment,
+  PaymentRefund,
+  InsertPaymentRefund,
+  payments,
+  paymentRefunds,
+} from "@shared/schema";
+import { eq, and, desc, isNull } from "drizzle-orm";
+import { db } from "../db";
+import { toMoney, roundMoney } from "../utils/money";
+import { publishRealtimeEvent } from "../services/realtimeEventBus";
+
+// ──────────────────────────────────────────────────────────────────────
+// Payments
+// ──────────────────────────────────────────────────────────────────────
+
+export async function getPaymentsByInvoice(invoiceId: number, businessId: number): Promise<Payment[]> {
+  return db
+    .select()
+    .from(payments)
+    .where(and(eq(payments.invoiceId, invoiceId), eq(payments.businessId, businessId)))
+    .orderBy(desc(payments.paidAt));
+}
+
+export async function getPaymentsByQuote(quoteId: number, businessId: number): Promise<Payment[]> {
+  return db
+    .select()
+    .from(payments)
+    .where(and(eq(payments.quoteId, quoteId), eq(payments.businessId, businessId)))
+    .orderBy(desc(payments.paidAt));
+}
+
+export async function getPayment(id: number, businessId: number): Promise<Payment | undefined> {
+  const [row] = await db
+    .select()
+    .from(payments)
+    .where(and(eq(payments.id, id), eq(payments.businessId, businessId)))
+    .limit(1);
+  return row;
+}
+
+export async function getPaymentByStripeIntent(paymentIntentId: string): Promise<Payment | undefined> {
+  const [row] = await db
+    .select()
+    .from(payments)
+    .where(eq(payments.stripePaymentIntentId, paymentIntentId))
+    .limit(1);
+  return row;
+}
+
+export async function createPayment(payload: InsertPayment): Promise<Payment> {
+  const [row] = await db.insert(payments).values(payload).returning();
+  publishRealtimeEvent(row.businessId, 'invoices');
+  return row;
+}
+
+/**
+ * Move every deposit still sitting on a quote onto the invoice it became.
+ * Only rows with no invoice yet are touched, so re-running is harmless.
+ */
+export async function attachQuotePaymentsToInvoice(
+  quoteId: number,
+  invoiceId: number,
+  businessId: number,
+): Promise<Payment[]> {
+  const moved = await db
+    .update(payments)
+    .set({ invoiceId, updatedAt: new Date() })
+    .where(
+      and(
+        eq(payments.quoteId, quoteId),
+        eq(payments.businessId, businessId),
+        isNull(payments.invoiceId),
+      ),
+    )
+    .returning();
+  if (moved.length > 0) publishRealtimeEvent(businessId, 'invoices');
+  return moved;
+}
+
+// ──────────────────────────────────────────────────────────────────────
+// Refunds
+// ──────────────────────────────────────────────────────────────────────
+
+export async function getRefundsByPayment(paymentId: number, businessId: number): Promise<PaymentRefund[]> {
+  return db
+    .select()
+    .from(paymentRefunds)
+    .where(and(eq(paymentRefunds.paymentId, paymentId), eq(paymentRefunds.businessId, businessId)))
+    .orderBy(desc(paymentRefunds.createdAt));
+}
+
+export async function getRefundsByInvoice(invoiceId: number, businessId: number): Promise<PaymentRefund[]> {
+  return db
+    .select()
+    .from(paymentRefunds)
+    .where(and(eq(paymentRefunds.invoiceId, invoiceId), eq(paymentRefunds.businessId, businessId)))
+    .orderBy(desc(paymentRefunds.createdAt));
+}
+
+/**
+ * Write the refund row and bump the payment's refundedAmount/status in one
+ * transaction. The payment row is locked FOR UPDATE so two concurrent
+ * refunds can't together exceed what was paid.
+ */
+export async function recordPaymentRefund(
+  payload: InsertPaymentRefund,
+): Promise<
+  | { ok: true; payment: Payment; refund: PaymentRefund }
+  | { ok: false; reason: "payment_not_found" | "exceeds_refundable" }
+> {
+  const result = await db.transaction(async (tx) => {
+    const [payment] = await tx
+      .select()
+      .from(payments)
+      .where(and(eq(payments.id, payload.paymentId), eq(payments.businessId, payload.businessId)))
+      .for("update");
+
+    if (!payment) {
+      return { ok: false as const, reason: "payment_not_found" as const };
+    }
+
+    const paid = toMoney(payment.amount);
+    const alreadyRefunded = toMoney(payment.refundedAmount);
+    const refundAmount = toMoney(payload.amount);
+    const newRefunded = roundMoney(alreadyRefunded + refundAmount);
+    if (Math.round(newRefunded * 100) > Math.round(paid * 100)) {
+      return { ok: false as const, reason: "exceeds_refundable" as const };
+    }
+
+    const [refund] = await tx.insert(paymentRefunds).values(payload).returning();
+
+    const [updated] = await tx
+      .update(payments)
+      .set({
+        refundedAmount: newRefunded.toFixed(2),
+        status: Math.round(newRefunded * 100) === Math.round(paid * 100) ? "refunded" : "partially_refunded",
+        updatedAt: new Date(),
+      })
+      .where(eq(payments.id, payment.id))
+      .returning();
+
+    return { ok: true as const, payment: updated, refund };
+  });
+  if (result.ok) publishRealtimeEvent(payload.businessId, 'invoices');
+  return result;
+}
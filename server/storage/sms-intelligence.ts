@@ -7,9 +7,11 @@ import {
   SmsCampaign, InsertSmsCampaign, smsCampaigns,
   CampaignAnalyticsRow, InsertCampaignAnalytics, campaignAnalytics,
   SmsActivityFeedEntry, InsertSmsActivityFeed, smsActivityFeed,
+  SmsInboxThread, smsInboxThreads,
 } from "@shared/schema";
-import { eq, and, desc, lte } from "drizzle-orm";
+import { eq, and, or, desc, lte, gt, sql } from "drizzle-orm";
 import { db } from "../db";
+import { publishRealtimeEvent } from "../services/realtimeEventBus";
 
 // =================== SMS Business Profile ===================
 
@@ -41,6 +43,14 @@ export async function getOutboundMessages(businessId: number, params?: { message
   return db.select().from(outboundMessages).where(and(...conditions)).orderBy(desc(outboundMessages.createdAt)).limit(params?.limit || 50).offset(params?.offset || 0);
 }
 
+export async function getLatestOutboundMessageForCustomer(businessId: number, customerId: number): Promise<OutboundMessage | null> {
+  const [msg] = await db.select().from(outboundMessages)
+    .where(and(eq(outboundMessages.businessId, businessId), eq(outboundMessages.customerId, customerId)))
+    .orderBy(desc(outboundMessages.createdAt))
+    .limit(1);
+  return msg || null;
+}
+
 // =================== Inbound Messages ===================
 
 export async function createInboundMessage(data: InsertInboundMessage): Promise<InboundMessage> {
@@ -52,6 +62,14 @@ export async function getInboundMessages(businessId: number, params?: { limit?:
   return db.select().from(inboundMessages).where(eq(inboundMessages.businessId, businessId)).orderBy(desc(inboundMessages.createdAt)).limit(params?.limit || 50).offset(params?.offset || 0);
 }
 
+export async function getLatestInboundMessageForCustomer(businessId: number, customerId: number): Promise<InboundMessage | null> {
+  const [msg] = await db.select().from(inboundMessages)
+    .where(and(eq(inboundMessages.businessId, businessId), eq(inboundMessages.customerId, customerId)))
+    .orderBy(desc(inboundMessages.createdAt))
+    .limit(1);
+  return msg || null;
+}
+
 // =================== Conversation State ===================
 
 export async function upsertConversationState(businessId: number, customerId: number, data: Partial<ConversationState>): Promise<ConversationState> {
@@ -160,3 +178,118 @@ export async function getSmsActivityFeed(businessId: number, params?: { limit?:
 export async function markSmsActivityFeedRead(businessId: number): Promise<void> {
   await db.update(smsActivityFeed).set({ readByOwner: true }).where(and(eq(smsActivityFeed.businessId, businessId), eq(smsActivityFeed.readByOwner, false)));
 }
+
+// =================== SMS Inbox Threads ===================
+
+/**
+ * Bumps (or opens) the thread for a phone number. Inbound messages add to
+ * the unread count; outbound ones only move the thread to the top.
+ */
+export async function upsertSmsInboxThread(businessId: number, customerPhone: string, data: {
+  customerId?: number | null;
+  direction: 'inbound' | 'outbound';
+  preview: string;
+  at?: Date;
+}): Promise<SmsInboxThread> {
+  const at = data.at || new Date();
+  const unreadIncrement = data.direction === 'inbound' ? 1 : 0;
+  const [thread] = await db.insert(smsInboxThreads)
+    .values({
+      businessId,
+      customerPhone,
+      customerId: data.customerId ?? null,
+      unreadCount: unreadIncrement,
+      lastMessageAt: at,
+      lastMessagePreview: data.preview,
+      lastDirection: data.direction,
+    })
+    .onConflictDoUpdate({
+      target: [smsInboxThreads.businessId, smsInboxThreads.customerPhone],
+      set: {
+        customerId: sql`COALESCE(${data.customerId ?? null}::integer, ${smsInboxThreads.customerId})`,
+        unreadCount: sql`${smsInboxThreads.unreadCount} + ${unreadIncrement}`,
+        lastMessageAt: at,
+        lastMessagePreview: data.preview,
+        lastDirection: data.direction,
+        updatedAt: new Date(),
+      },
+    })
+    .returning();
+  publishRealtimeEvent(businessId, 'sms_inbox');
+  return thread;
+}
+
+/** Moves an existing customer thread to the top without opening a new one (agent and campaign sends) */
+export async function touchSmsInboxThreadForCustomer(businessId: number, customerId: number, preview: string): Promise<void> {
+  await db.update(smsInboxThreads)
+    .set({ lastMessageAt: new Date(), lastMessagePreview: preview, lastDirection: 'outbound', updatedAt: new Date() })
+    .where(and(eq(smsInboxThreads.businessId, businessId), eq(smsInboxThreads.customerId, customerId)));
+  publishRealtimeEvent(businessId, 'sms_inbox');
+}
+
+export async function getSmsInboxThreads(businessId: number, params?: {
+  assignedStaffId?: number;
+  unreadOnly?: boolean;
+  limit?: number;
+}): Promise<SmsInboxThread[]> {
+  const conditions = [eq(smsInboxThreads.businessId, businessId)];
+  if (params?.assignedStaffId) conditions.push(eq(smsInboxThreads.assignedStaffId, params.assignedStaffId));
+  if (params?.unreadOnly) conditions.push(gt(smsInboxThreads.unreadCount, 0));
+  return db.select().from(smsInboxThreads)
+    .where(and(...conditions))
+    .orderBy(sql`${smsInboxThreads.lastMessageAt} DESC NULLS LAST`)
+    .limit(params?.limit || 100);
+}
+
+export async function getSmsInboxThread(id: number, businessId: number): Promise<SmsInboxThread | undefined> {
+  const [thread] = await db.select().from(smsInboxThreads)
+    .where(and(eq(smsInboxThreads.id, id), eq(smsInboxThreads.businessId, businessId)));
+  return thread;
+}
+
+export async function getSmsInboxThreadByPhone(businessId: number, customerPhone: string): Promise<SmsInboxThread | undefined> {
+  const [thread] = await db.select().from(smsInboxThreads)
+    .where(and(eq(smsInboxThreads.businessId, businessId), eq(smsInboxThreads.customerPhone, customerPhone)));
+  return thread;
+}
+
+export async function updateSmsInboxThread(id: number, businessId: number, data: Partial<SmsInboxThread>): Promise<SmsInboxThread> {
+  const [updated] = await db.update(smsInboxThreads)
+    .set({ ...data, updatedAt: new Date() })
+    .where(and(eq(smsInboxThreads.id, id), eq(smsInboxThreads.businessId, businessId)))
+    .returning();
+  publishRealtimeEvent(businessId, 'sms_inbox');
+  return updated;
+}
+
+export async function getSmsInboxUnreadCount(businessId: number, assignedStaffId?: number): Promise<number> {
+  const conditions = [eq(smsInboxThreads.businessId, businessId), gt(smsInboxThreads.unreadCount, 0)];
+  if (assignedStaffId) conditions.push(eq(smsInboxThreads.assignedStaffId, assignedStaffId));
+  const [row] = await db.select({ count: sql<number>`COUNT(*)::int` }).from(smsInboxThreads).where(and(...conditions));
+  return row?.count || 0;
+}
+
+/** Both sides of a thread, newest first. Outbound inbox replies to unknown numbers carry metadata.toPhone. */
+export async function getSmsThreadMessages(businessId: number, thread: { customerPhone: string; customerId: number | null }, limit = 100): Promise<{
+  inbound: InboundMessage[];
+  outbound: OutboundMessage[];
+}> {
+  const inboundMatch = thread.customerId
+    ? or(eq(inboundMessages.customerPhone, thread.customerPhone), eq(inboundMessages.customerId, thread.customerId))
+    : eq(inboundMessages.customerPhone, thread.customerPhone);
+  const outboundMatch = thread.customerId
+    ? or(eq(outboundMessages.customerId, thread.customerId), sql`${outboundMessages.metadata}->>'toPhone' = ${thread.customerPhone}`)
+    : sql`${outboundMessages.metadata}->>'toPhone' = ${thread.customerPhone}`;
+
+  const [inbound, outbound] = await Promise.all([
+    db.select().from(inboundMessages)
+      .where(and(eq(inboundMessages.businessId, businessId), inboundMatch))
+      .orderBy(desc(inboundMessages.createdAt))
+      .limit(limit),
+    db.select().from(outboundMessages)
+      .where(and(eq(outboundMessages.businessId, businessId), outboundMatch))
+      .orderBy(desc(outboundMessages.createdAt))
+      .limit(limit),
+  ]);
+  return { inbound, outbound };
+}
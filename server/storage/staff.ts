@@ -4,6 +4,7 @@ import {
   staffServices,
   StaffInvite, InsertStaffInvite, staffInvites,
   StaffTimeOff, InsertStaffTimeOff, staffTimeOff,
+  Resource, InsertResource, resources,
   appointments,
 } from "@shared/schema";
 import { eq, and, desc, gte, lte, inArray } from "drizzle-orm";
@@ -268,3 +269,40 @@ export async function deleteStaffTimeOff(id: number, businessId: number): Promis
   await db.delete(staffTimeOff)
     .where(and(eq(staffTimeOff.id, id), eq(staffTimeOff.businessId, businessId)));
 }
+
+// =================== Bookable Resources ===================
+
+export async function getResources(businessId: number, params?: { activeOnly?: boolean }): Promise<Resource[]> {
+  const conditions = [eq(resources.businessId, businessId)];
+  if (params?.activeOnly) {
+    conditions.push(eq(resources.active, true));
+  }
+  return db.select().from(resources)
+    .where(and(...conditions))
+    .orderBy(resources.sortOrder, resources.id);
+}
+
+export async function getResource(id: number): Promise<Resource | undefined> {
+  const [resource] = await db.select().from(resources)
+    .where(eq(resources.id, id));
+  return resource;
+}
+
+export async function createResource(data: InsertResource): Promise<Resource> {
+  const [resource] = await db.insert(resources)
+    .values(data)
+    .returning();
+  return resource;
+}
+
+export async function updateResource(id: number, data: Partial<Resource>): Promise<Resource> {
+  const [resource] = await db.update(resources)
+    .set({ ...data, updatedAt: new Date() })
+    .where(eq(resources.id, id))
+    .returning();
+  return resource;
+}
+
+export async function deleteResource(id: number): Promise<void> {
+  await db.delete(resources).where(eq(resources.id, id));
+}
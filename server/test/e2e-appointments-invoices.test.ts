@@ -72,6 +72,8 @@ const { mockStorage } = vi.hoisted(() => {
 
       // Appointments
       getAppointments: vi.fn(),
+      getAppointmentServices: vi.fn().mockResolvedValue([]),
+      getAppointmentServicesForAppointments: vi.fn().mockResolvedValue([]),
       getAppointment: vi.fn(),
       getAppointmentsByBusinessId: vi.fn(),
       getUpcomingAppointmentsByBusinessId: vi.fn(),
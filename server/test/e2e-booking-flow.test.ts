@@ -13,6 +13,10 @@ const { mockStorage, mockCreateAppointmentSafely, mockUpdateAppointmentSafely }
       getBusiness: vi.fn(),
       getServices: vi.fn(),
       getService: vi.fn(),
+      getServiceAddons: vi.fn().mockResolvedValue([]),
+      getAppointmentServices: vi.fn().mockResolvedValue([]),
+      getAppointmentServicesForAppointments: vi.fn().mockResolvedValue([]),
+      createJobLineItem: vi.fn(),
       getStaff: vi.fn(),
       getStaffMember: vi.fn(),
       getBusinessHours: vi.fn(),
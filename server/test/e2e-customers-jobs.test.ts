@@ -75,6 +75,8 @@ const { mockStorage } = vi.hoisted(() => {
 
       // Appointments
       getAppointments: vi.fn(),
+      getAppointmentServices: vi.fn().mockResolvedValue([]),
+      getAppointmentServicesForAppointments: vi.fn().mockResolvedValue([]),
       getAppointment: vi.fn(),
       getAppointmentsByBusinessId: vi.fn(),
       getUpcomingAppointmentsByBusinessId: vi.fn(),
@@ -206,6 +208,14 @@ const { mockStorage } = vi.hoisted(() => {
       updateJobLineItem: vi.fn(),
       deleteJobLineItem: vi.fn(),
 
+      // Job forms (no templates unless a test sets them)
+      getJobForms: vi.fn(async () => []),
+      getJobFormTemplates: vi.fn(async () => []),
+      createJobFormsIfMissing: vi.fn(async () => []),
+
+      // Custom fields (none defined unless a test sets them)
+      getCustomFieldDefinitions: vi.fn(async () => []),
+
       // Review requests
       getReviewRequests: vi.fn(),
       createReviewRequest: vi.fn(),
@@ -1427,6 +1437,24 @@ describe('Job CRUD', () => {
       expect(res.body).toHaveProperty('status', 'completed');
     });
 
+    it('blocks completion while a required checklist is unsubmitted', async () => {
+      const { agent, csrfToken } = await createAuthenticatedAgent();
+
+      mockStorage.getJob.mockResolvedValue(makeJob({ status: 'in_progress' }));
+      mockStorage.getJobForms.mockResolvedValueOnce([
+        { id: 3, jobId: 1, businessId: 1, templateId: 2, name: 'AC Maintenance Checklist', fields: [], answers: {}, requiredForCompletion: true, status: 'pending' },
+      ]);
+
+      const res = await agent
+        .put('/api/jobs/1')
+        .set('x-csrf-token', csrfToken)
+        .send({ status: 'completed' });
+
+      expect(res.status).toBe(409);
+      expect(res.body.incompleteForms).toEqual([{ id: 3, name: 'AC Maintenance Checklist' }]);
+      expect(mockStorage.updateJob).not.toHaveBeenCalled();
+    });
+
     it('returns 404 for job belonging to another business', async () => {
       const { agent, csrfToken } = await createAuthenticatedAgent();
 
@@ -104,6 +104,7 @@ import {
   buildFirstMessage,
   generateSystemPrompt,
   buildIntelligenceHints,
+  buildLanguageSection,
 } from '../services/systemPromptBuilder';
 
 import {
@@ -444,6 +445,48 @@ describe('systemPromptBuilder', () => {
       );
       expect(prompt).toContain('end_call');
     });
+
+    it('adds localized after-hours wording when auto-detect is on', () => {
+      const prompt = generateSystemPrompt(TEST_BUSINESS as any, TEST_SERVICES as any, WEEKDAY_HOURS, null, {
+        receptionistConfig: {
+          language: 'en',
+          autoDetectLanguage: true,
+          afterHoursMessage: 'We are closed right now.',
+          localizedMessages: { es: { afterHoursMessage: 'Ahora estamos cerrados.' } },
+        } as any,
+      });
+      expect(prompt).toContain('== LANGUAGE ==');
+      expect(prompt).toContain('AFTER HOURS MESSAGE: "We are closed right now."');
+      expect(prompt).toContain('AFTER HOURS MESSAGE (Spanish): "Ahora estamos cerrados."');
+    });
+  });
+
+
+  // ── buildLanguageSection ──
+
+  describe('buildLanguageSection', () => {
+    it('is empty for the English-only default', () => {
+      expect(buildLanguageSection()).toBe('');
+      expect(buildLanguageSection({ language: 'en', autoDetectLanguage: false } as any)).toBe('');
+    });
+
+    it('speaks the configured language', () => {
+      const section = buildLanguageSection({ language: 'es', autoDetectLanguage: false } as any);
+      expect(section).toContain('Speak Spanish.');
+      expect(section).not.toContain('{{caller_language}}');
+      expect(section).toContain('Tools only understand English');
+    });
+
+    it('offers switching and the returning caller\'s language when auto-detect is on', () => {
+      const section = buildLanguageSection({
+        language: 'en',
+        autoDetectLanguage: true,
+        localizedMessages: { es: { greeting: '¡Hola! ¿En qué le puedo ayudar?' } },
+      } as any);
+      expect(section).toContain('If the caller speaks Spanish');
+      expect(section).toContain('{{caller_language}}');
+      expect(section).toContain('greet the caller with: "¡Hola! ¿En qué le puedo ayudar?"');
+    });
   });
 
 
@@ -33,3 +33,33 @@ export async function generateInvoiceNumber(businessId: number): Promise<string>
     throw err;
   }
 }
+
+/**
+ * Generate the next sequential credit note number for a business.
+ * Same locking scheme as generateInvoiceNumber, but a separate counter in
+ * credit_note_sequences so issuing credits never leaves gaps in invoice numbers.
+ *
+ * Format: CN-YYYYMMDD-XXXX (e.g., CN-20260414-0007)
+ */
+export async function generateCreditNoteNumber(businessId: number): Promise<string> {
+  const today = new Date();
+  const dateStr = `${today.getFullYear()}${String(today.getMonth() + 1).padStart(2, '0')}${String(today.getDate()).padStart(2, '0')}`;
+
+  try {
+    const result = await pool.query(
+      `INSERT INTO credit_note_sequences (business_id, last_number)
+       VALUES ($1, 1)
+       ON CONFLICT (business_id) DO UPDATE SET last_number = credit_note_sequences.last_number + 1
+       RETURNING last_number`,
+      [businessId]
+    );
+    const seq = result.rows[0].last_number;
+    return `CN-${dateStr}-${String(seq).padStart(4, '0')}`;
+  } catch (err: any) {
+    // Table doesn't exist yet (pre-migration) — use timestamp fallback
+    if (err.code === '42P01') {
+      return `CN-${dateStr}-${Date.now().toString(36).toUpperCase()}`;
+    }
+    throw err;
+  }
+}
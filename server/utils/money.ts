@@ -36,7 +36,7 @@ export function formatUSD(value: string | number | null | undefined): string {
  * JSON request bodies send numbers (e.g., `price: 25.0`) but Drizzle's `numeric` type
  * expects strings. This converts known money fields in-place.
  */
-const MONEY_FIELDS = ['price', 'amount', 'tax', 'total', 'unitPrice', 'unit_price', 'overageRate', 'overageAmount', 'invoiceAmount', 'invoiceTax'];
+const MONEY_FIELDS = ['price', 'amount', 'tax', 'total', 'unitPrice', 'unit_price', 'overageRate', 'overageAmount', 'invoiceAmount', 'invoiceTax', 'minimumPaymentAmount', 'depositAmount'];
 
 export function coerceMoneyFields<T extends Record<string, unknown>>(obj: T): T {
   const result = { ...obj };
@@ -0,0 +1,53 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const mockLookup = vi.fn();
+vi.mock('dns/promises', () => ({ lookup: (...args: any[]) => mockLookup(...args) }));
+
+import { isAllowedWebhookUrl, isPublicIpAddress, resolvesToPublicAddress } from './urlSafety';
+
+beforeEach(() => {
+  mockLookup.mockReset();
+});
+
+describe('isAllowedWebhookUrl', () => {
+  it('allows public http(s) URLs', () => {
+    expect(isAllowedWebhookUrl('https://hooks.example.com/in')).toBe(true);
+    expect(isAllowedWebhookUrl('http://203.0.113.9/in')).toBe(true);
+  });
+
+  it('rejects localhost, private ranges and other schemes', () => {
+    expect(isAllowedWebhookUrl('http://localhost:5000/x')).toBe(false);
+    expect(isAllowedWebhookUrl('http://169.254.169.254/latest/meta-data')).toBe(false);
+    expect(isAllowedWebhookUrl('http://10.1.2.3/x')).toBe(false);
+    expect(isAllowedWebhookUrl('ftp://example.com/x')).toBe(false);
+    expect(isAllowedWebhookUrl('not a url')).toBe(false);
+  });
+});
+
+describe('isPublicIpAddress', () => {
+  it('accepts public addresses', () => {
+    expect(isPublicIpAddress('93.184.216.34')).toBe(true);
+    expect(isPublicIpAddress('2606:2800:220:1::1')).toBe(true);
+  });
+
+  it('rejects loopback, private, link-local and CGNAT addresses', () => {
+    for (const ip of ['127.0.0.1', '10.0.0.1', '172.20.1.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '::1', 'fd00::1', 'fe80::1', '::ffff:10.0.0.1']) {
+      expect(isPublicIpAddress(ip)).toBe(false);
+    }
+  });
+});
+
+describe('resolvesToPublicAddress', () => {
+  it('checks every address the host resolves to', async () => {
+    mockLookup.mockResolvedValue([{ address: '93.184.216.34', family: 4 }]);
+    expect(await resolvesToPublicAddress('https://cdn.example.com/logo.png')).toBe(true);
+
+    mockLookup.mockResolvedValue([{ address: '93.184.216.34', family: 4 }, { address: '10.0.0.5', family: 4 }]);
+    expect(await resolvesToPublicAddress('https://sneaky.example.com/logo.png')).toBe(false);
+  });
+
+  it('fails closed when the host does not resolve', async () => {
+    mockLookup.mockRejectedValue(new Error('ENOTFOUND'));
+    expect(await resolvesToPublicAddress('https://nope.example.com/a.png')).toBe(false);
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Outbound URL checks (SSRF protection).
+ *
+ * Anywhere the server calls a URL a user typed in — registered webhooks,
+ * workflow webhook steps, logos and photos embedded in PDFs — it must not
+ * be pointed at localhost, cloud metadata or the private network.
+ */
+
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
+
+const BLOCKED_HOSTNAMES = ['localhost', '127.0.0.1', '0.0.0.0', '::1', 'metadata.google.internal'];
+
+const PRIVATE_IP_PATTERNS = [
+  /^10\./,
+  /^172\.(1[6-9]|2\d|3[01])\./,
+  /^192\.168\./,
+  /^169\.254\./,
+];
+
+/** True for http(s) URLs whose host isn't localhost or a private-network address */
+export function isAllowedWebhookUrl(url: string): boolean {
+  try {
+    const urlObj = new URL(url);
+    if (urlObj.protocol !== 'https:' && urlObj.protocol !== 'http:') return false;
+    const hostname = urlObj.hostname.toLowerCase();
+    if (BLOCKED_HOSTNAMES.includes(hostname)) return false;
+    return !PRIVATE_IP_PATTERNS.some(pattern => pattern.test(hostname));
+  } catch {
+    return false;
+  }
+}
+
+/** True for addresses on the public internet — not loopback, private, link-local, CGNAT or multicast */
+export function isPublicIpAddress(address: string): boolean {
+  const ip = address.toLowerCase().replace(/^\[|\]$/g, '');
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/.exec(ip);
+  if (mapped) return isPublicIpAddress(mapped[1]);
+
+  if (isIP(ip) === 4) {
+    const [a, b] = ip.split('.').map(Number);
+    if (a === 0 || a === 10 || a === 127 || a >= 224) return false;
+    if (a === 100 && b >= 64 && b <= 127) return false; // carrier-grade NAT
+    if (a === 169 && b === 254) return false; // link-local, cloud metadata
+    if (a === 172 && b >= 16 && b <= 31) return false;
+    if (a === 192 && b === 168) return false;
+    return true;
+  }
+  if (isIP(ip) === 6) {
+    if (ip === '::' || ip === '::1') return false;
+    if (/^f[cd]/.test(ip)) return false; // unique local
+    if (/^fe[89ab]/.test(ip)) return false; // link-local
+    if (ip.startsWith('ff')) return false; // multicast
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Resolves the URL's host and checks every address it points at. Use right
+ * before the server fetches a URL that came from a user, since a public
+ * hostname can still resolve to an internal address.
+ */
+export async function resolvesToPublicAddress(url: string): Promise<boolean> {
+  if (!isAllowedWebhookUrl(url)) return false;
+  const hostname = new URL(url).hostname.replace(/^\[|\]$/g, '');
+  if (isIP(hostname)) return isPublicIpAddress(hostname);
+  try {
+    const addresses = await lookup(hostname, { all: true, verbatim: true });
+    return addresses.length > 0 && addresses.every(({ address }) => isPublicIpAddress(address));
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,40 @@
+import { describe, it, expect } from "vitest";
+
+import { detectLanguage, getLanguage, isSupportedLanguage } from "./languages";
+
+describe("getLanguage", () => {
+  it("returns the matching language", () => {
+    expect(getLanguage("es").retellLocale).toBe("es-419");
+  });
+
+  it("falls back to English for unknown or missing codes", () => {
+    expect(getLanguage("fr").code).toBe("en");
+    expect(getLanguage(null).code).toBe("en");
+  });
+});
+
+describe("isSupportedLanguage", () => {
+  it("accepts only configured codes", () => {
+    expect(isSupportedLanguage("es")).toBe(true);
+    expect(isSupportedLanguage("fr")).toBe(false);
+    expect(isSupportedLanguage(42)).toBe(false);
+  });
+});
+
+describe("detectLanguage", () => {
+  it("detects Spanish", () => {
+    expect(detectLanguage("Hola, quiero una cita para mañana por la tarde")).toBe("es");
+    expect(detectLanguage("¿Tienen espacio hoy?")).toBe("es");
+  });
+
+  it("detects English", () => {
+    expect(detectLanguage("Hi, I need to book a haircut for this Friday")).toBe("en");
+  });
+
+  it("returns null for replies too short to call", () => {
+    expect(detectLanguage("YES")).toBeNull();
+    expect(detectLanguage("C")).toBeNull();
+    expect(detectLanguage("")).toBeNull();
+    expect(detectLanguage(undefined)).toBeNull();
+  });
+});
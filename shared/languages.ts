@@ -0,0 +1,83 @@
+/**
+ * Languages the AI receptionist and customer SMS support.
+ *
+ * Adding a language is a config edit here plus localized SMS templates in
+ * messageIntelligenceService — the Retell agent, prompt builder, settings UI
+ * and detection all read from this list.
+ */
+
+// ───────────────────────────────────────────────────────────────────────────
+// Registry
+// ───────────────────────────────────────────────────────────────────────────
+
+export type LanguageCode = "en" | "es";
+
+export interface SupportedLanguage {
+  code: LanguageCode;
+  /** English name, used in prompts ("Respond in Spanish") */
+  name: string;
+  /** Name in the language itself, used in the UI */
+  nativeName: string;
+  /** Retell agent `language` value when this is the only call language */
+  retellLocale: string;
+}
+
+export const SUPPORTED_LANGUAGES: readonly SupportedLanguage[] = [
+  { code: "en", name: "English", nativeName: "English", retellLocale: "en-US" },
+  { code: "es", name: "Spanish", nativeName: "Español", retellLocale: "es-419" },
+];
+
+export const DEFAULT_LANGUAGE: LanguageCode = "en";
+
+export function isSupportedLanguage(code: unknown): code is LanguageCode {
+  return typeof code === "string" && SUPPORTED_LANGUAGES.some((l) => l.code === code);
+}
+
+/** Looks up a language, falling back to the default for unknown codes */
+export function getLanguage(code: string | null | undefined): SupportedLanguage {
+  return SUPPORTED_LANGUAGES.find((l) => l.code === code) ?? SUPPORTED_LANGUAGES[0];
+}
+
+// ───────────────────────────────────────────────────────────────────────────
+// Detection
+// ───────────────────────────────────────────────────────────────────────────
+
+// Common function words — short replies ("sí, gracias") still score
+const MARKER_WORDS: Record<LanguageCode, string[]> = {
+  en: [
+    "the", "and", "you", "is", "are", "my", "to", "of", "for", "it", "this", "that", "with",
+    "have", "yes", "no", "thanks", "thank", "please", "what", "when", "can", "need", "i'm", "hi",
+  ],
+  es: [
+    "el", "la", "los", "las", "y", "que", "de", "del", "en", "es", "un", "una", "por", "para",
+    "con", "mi", "tu", "sí", "si", "gracias", "hola", "quiero", "necesito", "puedo", "cuándo",
+    "cuando", "mañana", "hoy", "está", "estoy", "tengo", "buenos", "buenas", "favor", "cita",
+  ],
+};
+
+// Punctuation and letters that only show up in Spanish text
+const SPANISH_CHARS = /[ñ¿¡áéíóú]/i;
+
+// Below this many marker hits the text is too short to call
+const MIN_MARKERS = 2;
+
+/**
+ * Best guess at the language of a caller's words or an SMS. Returns null when
+ * the text is too short or too mixed to tell — callers should then keep
+ * whatever they already knew.
+ */
+export function detectLanguage(text: string | null | undefined): LanguageCode | null {
+  if (!text) return null;
+  const words = text.toLowerCase().split(/[^a-záéíóúüñ']+/).filter(Boolean);
+  const scores: Record<LanguageCode, number> = { en: 0, es: 0 };
+  for (const word of words) {
+    for (const lang of Object.keys(MARKER_WORDS) as LanguageCode[]) {
+      if (MARKER_WORDS[lang].includes(word)) scores[lang]++;
+    }
+  }
+  if (SPANISH_CHARS.test(text)) scores.es += 2;
+
+  const [best, runnerUp] = (Object.entries(scores) as Array<[LanguageCode, number]>).sort((a, b) => b[1] - a[1]);
+  if (best[1] < MIN_MARKERS || best[1] < runnerUp[1] * 1.5) return null;
+  return best[0];
+}
@@ -128,6 +128,20 @@ export const businesses = pgTable("businesses", {
   bookingLeadTimeHours: integer("booking_lead_time_hours").default(24), // Minimum hours notice required
   bookingBufferMinutes: integer("booking_buffer_minutes").default(15), // Buffer time between appointments
   bookingSlotIntervalMinutes: integer("booking_slot_interval_minutes").default(30), // Slot interval (15, 30, 60 min etc.)
+  // Late-cancellation / no-show protection (public booking). When enabled and
+  // Stripe Connect is active, a card is saved at booking and the fees below can
+  // be charged to it. A null window falls back to the vertical's
+  // lateCancelWindowHours (server/config/verticals.ts).
+  cancellationFeeEnabled: boolean("cancellation_fee_enabled").default(false),
+  lateCancelWindowHours: integer("late_cancel_window_hours"),
+  lateCancelFee: numeric("late_cancel_fee", { precision: 12, scale: 2 }),
+  noShowFee: numeric("no_show_fee", { precision: 12, scale: 2 }),
+  cancellationFeeAutoCharge: boolean("cancellation_fee_auto_charge").default(false), // Charge without owner review
+  cancellationPolicyText: text("cancellation_policy_text"), // Owner's wording; a generated summary is shown when null
+  // Appointment waitlist: cancelled slots are texted to waitlisted customers,
+  // one at a time, each holding the slot for this many minutes
+  appointmentWaitlistEnabled: boolean("appointment_waitlist_enabled").default(false),
+  appointmentWaitlistHoldMinutes: integer("appointment_waitlist_hold_minutes").default(15),
   // Business description (for booking page, SEO, etc.)
   description: text("description"),
   // Industry type for AI receptionist context
@@ -181,6 +195,10 @@ export const businesses = pgTable("businesses", {
   reservationMaxCapacityPerSlot: integer("reservation_max_capacity_per_slot").default(40),
   reservationLeadTimeHours: integer("reservation_lead_time_hours").default(2),
   reservationMaxDaysAhead: integer("reservation_max_days_ahead").default(30),
+  reservationTurnTimes: jsonb("reservation_turn_times").$type<ReservationTurnTime[]>(), // per-party-size table turn; falls back to slot duration
+  // Walk-in waitlist
+  waitlistEnabled: boolean("waitlist_enabled").default(false),
+  waitlistMinutesPerParty: integer("waitlist_minutes_per_party").default(10), // quoted wait per party ahead in line
   // Birthday campaign settings
   birthdayCampaignEnabled: boolean("birthday_campaign_enabled").default(false),
   birthdayDiscountPercent: integer("birthday_discount_percent").default(15),
@@ -270,6 +288,16 @@ export const businesses = pgTable("businesses", {
   // customer at a time during beta. Once GA, we can flip the migration default
   // to true OR backfill all rows. Admin role bypasses this gate entirely.
   gpsBetaApproved: boolean("gps_beta_approved").default(false).notNull(),
+  // Geofence job transitions (see geofenceService). When enabled, a tech's
+  // pings within gpsArrivalRadiusMeters of an en_route job's customer location
+  // move it to in_progress; pings beyond gpsDepartureRadiusMeters afterwards
+  // record departure and prompt the tech to complete. The larger departure
+  // radius keeps GPS jitter at the edge from flapping. A transition needs
+  // gpsGeofenceConfirmPings consecutive pings on the same side.
+  gpsGeofenceEnabled: boolean("gps_geofence_enabled").default(true).notNull(),
+  gpsArrivalRadiusMeters: integer("gps_arrival_radius_meters").default(150).notNull(),
+  gpsDepartureRadiusMeters: integer("gps_departure_radius_meters").default(300).notNull(),
+  gpsGeofenceConfirmPings: integer("gps_geofence_confirm_pings").default(2).notNull(),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 }, (table) => ({
@@ -317,8 +345,59 @@ export const services = pgTable("services", {
   // an owner can mark a 'fixed' tune-up as diagnostic-required if they want a
   // tech to confirm the equipment first. Defaults false for backward compatibility.
   requiresDiagnostic: boolean("requires_diagnostic").default(false),
+  // Bookings need a free resource of this type (resources.resourceType) as
+  // well as a staff member — e.g. "Treatment room", "Lift". Null = staff only.
+  requiredResourceType: text("required_resource_type"),
+  // Group class: how many attendees one session holds. Set = the service is
+  // booked per seat in class_sessions rather than as a one-on-one appointment.
+  classCapacity: integer("class_capacity"),
 });
 
+// Optional extras booked on top of a service ("Deep conditioning", "Hot
+// towel"). Their price and minutes are added to the appointment line they're
+// booked on.
+export const serviceAddons = pgTable("service_addons", {
+  id: serial("id").primaryKey(),
+  businessId: integer("business_id").notNull(),
+  serviceId: integer("service_id").notNull(),
+  name: text("name").notNull(),
+  price: numeric("price", { precision: 12, scale: 2 }).default("0"),
+  durationMinutes: integer("duration_minutes").notNull().default(0),
+  active: boolean("active").default(true),
+  sortOrder: integer("sort_order").default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  serviceIdx: index("service_addons_service_idx").on(table.serviceId),
+}));
+
+// Owner-defined extra field on customers, jobs or appointments ("Gate code",
+// "Dog's name", "Square footage"). Values live in the entity's customFields
+// column keyed by `key`, which stays fixed when the label is renamed.
+export const customFieldDefinitions = pgTable("custom_field_definitions", {
+  id: serial("id").primaryKey(),
+  businessId: integer("business_id").notNull(),
+  entityType: text("entity_type").notNull(), // customer, job, appointment
+  key: text("key").notNull(),                // "gate_code"
+  label: text("label").notNull(),            // "Gate code"
+  fieldType: text("field_type").notNull(),   // text, number, date, select, boolean
+  options: jsonb("options").$type<string[]>().default([]), // select
+  // Tells the AI receptionist to ask for this field when it's missing
+  askOnCalls: boolean("ask_on_calls").default(false),
+  active: boolean("active").default(true),
+  sortOrder: integer("sort_order").default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  businessEntityKeyUnique: unique("custom_field_definitions_business_entity_key_unique").on(table.businessId, table.entityType, table.key),
+}));
+
+/**
+ * Stored value by field type: text/select → string, number → number,
+ * date → "YYYY-MM-DD", boolean → boolean.
+ */
+export type CustomFieldValue = string | number | boolean;
+
 // Customers
 export const customers = pgTable("customers", {
   id: serial("id").primaryKey(),
@@ -349,6 +428,15 @@ export const customers = pgTable("customers", {
   // the owner's connected account and stores the ID here. This is NOT the
   // platform Stripe customer — that's businesses.stripeCustomerId.
   stripeCustomerConnectId: text("stripe_customer_connect_id"),
+  // Card saved on the Connect account via a booking-page SetupIntent, used
+  // off-session for late-cancellation / no-show fees.
+  stripePaymentMethodId: text("stripe_payment_method_id"),
+  cardBrand: text("card_brand"),
+  cardLast4: text("card_last4"),
+  // Language the customer last called or texted in (shared/languages.ts code).
+  // Null until detected — follow-ups then use the receptionist's language.
+  preferredLanguage: text("preferred_language"),
+  customFields: jsonb("custom_fields").$type<Record<string, CustomFieldValue>>().default({}),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 }, (table) => ({
@@ -608,17 +696,25 @@ export const appointments = pgTable("appointments", {
   customerId: integer("customer_id").notNull(),
   staffId: integer("staff_id"),
   serviceId: integer("service_id"),
+  resourceId: integer("resource_id"), // Room, chair or bay held for the appointment
   startDate: timestamp("start_date").notNull(),
   endDate: timestamp("end_date").notNull(),
   status: text("status").default("scheduled"), // scheduled, confirmed, completed, cancelled
   notes: text("notes"),
   // Self-service manage token (for customer cancel/reschedule links)
   manageToken: text("manage_token"),
+  // When the customer accepted the business's cancellation policy at booking,
+  // and the terms they accepted — fees are charged from these
+  cancellationPolicyAcceptedAt: timestamp("cancellation_policy_accepted_at"),
+  cancellationWindowHours: integer("cancellation_window_hours"),
+  lateCancelFee: numeric("late_cancel_fee", { precision: 12, scale: 2 }),
+  noShowFee: numeric("no_show_fee", { precision: 12, scale: 2 }),
   // Calendar integration fields
   googleCalendarEventId: text("google_calendar_event_id"),
   microsoftCalendarEventId: text("microsoft_calendar_event_id"),
   appleCalendarEventId: text("apple_calendar_event_id"),
   lastSyncedAt: timestamp("last_synced_at"),
+  customFields: jsonb("custom_fields").$type<Record<string, CustomFieldValue>>().default({}),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 }, (table) => ({
@@ -626,6 +722,159 @@ export const appointments = pgTable("appointments", {
   businessDateIdx: index("appointments_business_date_idx").on(table.businessId, table.startDate),
   // Index for staff scheduling queries
   staffDateIdx: index("appointments_staff_date_idx").on(table.staffId, table.startDate),
+  resourceDateIdx: index("appointments_resource_date_idx").on(table.resourceId, table.startDate),
+}));
+
+/** Add-on as booked — snapshotted so later catalog edits don't change history */
+export interface BookedAddon {
+  addonId: number;
+  name: string;
+  price: number;
+  durationMinutes: number;
+}
+
+// Services booked on one appointment ("haircut + beard trim + color"), done
+// back to back in `position` order. Name, price and minutes are snapshotted at
+// booking time for reminders and invoices. appointments.serviceId mirrors the
+// first line for code that only knows about one service; appointments with a
+// single service and no add-ons may have no rows here at all.
+export const appointmentServices = pgTable("appointment_services", {
+  id: serial("id").primaryKey(),
+  appointmentId: integer("appointment_id").notNull(),
+  businessId: integer("business_id").notNull(),
+  serviceId: integer("service_id").notNull(),
+  staffId: integer("staff_id"), // Null = the appointment's staff member
+  position: integer("position").notNull().default(0),
+  serviceName: text("service_name").notNull(),
+  price: numeric("price", { precision: 12, scale: 2 }).default("0"), // Service only — add-ons carry their own
+  durationMinutes: integer("duration_minutes").notNull(), // Service + add-on minutes
+  addons: jsonb("addons").$type<BookedAddon[]>().default([]),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  appointmentIdx: index("appointment_services_appointment_idx").on(table.appointmentId),
+}));
+
+// Late-cancellation / no-show fees. One row per appointment and fee type,
+// created when the fee is incurred; the owner charges or waives it (or it's
+// charged straight away when the business has auto-charge on).
+export const appointmentFees = pgTable("appointment_fees", {
+  id: serial("id").primaryKey(),
+  businessId: integer("business_id").notNull(),
+  appointmentId: integer("appointment_id").notNull(),
+  customerId: integer("customer_id").notNull(),
+  type: text("type").notNull(), // late_cancel, no_show
+  amount: numeric("amount", { precision: 12, scale: 2 }).notNull(),
+  status: text("status").notNull().default("pending"), // pending, charged, failed, waived
+  stripePaymentIntentId: text("stripe_payment_intent_id"),
+  failureReason: text("failure_reason"),
+  chargedAt: timestamp("charged_at"),
+  resolvedByUserId: integer("resolved_by_user_id"), // Null when charged automatically
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  appointmentTypeUnique: unique("appointment_fees_appointment_type_unique").on(table.appointmentId, table.type),
+  businessCustomerIdx: index("appointment_fees_business_customer_idx").on(table.businessId, table.customerId),
+}));
+
+// Customers waiting for an opening. A null service or staff member means any;
+// the window is a range of local dates (YYYY-MM-DD). Higher priority is
+// offered first, then oldest.
+export const appointmentWaitlistEntries = pgTable("appointment_waitlist_entries", {
+  id: serial("id").primaryKey(),
+  businessId: integer("business_id").notNull(),
+  customerId: integer("customer_id").notNull(),
+  serviceId: integer("service_id"),
+  staffId: integer("staff_id"),
+  windowStart: text("window_start").notNull(),
+  windowEnd: text("window_end").notNull(),
+  priority: integer("priority").notNull().default(0),
+  status: text("status").notNull().default("active"), // active, offered, booked, cancelled
+  source: text("source").default("owner"), // owner, online
+  notes: text("notes"),
+  appointmentId: integer("appointment_id"), // The booking that filled this entry
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  businessStatusIdx: index("appointment_waitlist_entries_business_status_idx").on(table.businessId, table.status),
+}));
+
+// One row per cancelled slot offered to one waitlisted customer. A pending
+// offer holds the slot until it expires; the next customer in line gets a new
+// offer when it is declined or lapses.
+export const appointmentSlotOffers = pgTable("appointment_slot_offers", {
+  id: serial("id").primaryKey(),
+  businessId: integer("business_id").notNull(),
+  entryId: integer("entry_id").notNull(),
+  customerId: integer("customer_id").notNull(),
+  cancelledAppointmentId: integer("cancelled_appointment_id").notNull(),
+  serviceId: integer("service_id"),
+  staffId: integer("staff_id"),
+  startDate: timestamp("start_date").notNull(),
+  endDate: timestamp("end_date").notNull(),
+  status: text("status").notNull().default("pending"), // pending, accepted, declined, expired
+  expiresAt: timestamp("expires_at").notNull(),
+  respondedAt: timestamp("responded_at"),
+  appointmentId: integer("appointment_id"), // Set when accepted
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  businessCancelledIdx: index("appointment_slot_offers_business_cancelled_idx").on(table.businessId, table.cancelledAppointmentId),
+  statusExpiresIdx: index("appointment_slot_offers_status_expires_idx").on(table.status, table.expiresAt),
+}));
+
+// Weekly timetable for a class service ("Spin, Saturdays 9:00"). Sessions are
+// materialized from it on demand; capacity falls back to services.classCapacity.
+export const classSchedules = pgTable("class_schedules", {
+  id: serial("id").primaryKey(),
+  businessId: integer("business_id").notNull(),
+  serviceId: integer("service_id").notNull(),
+  staffId: integer("staff_id"), // Instructor
+  dayOfWeek: text("day_of_week").notNull(), // monday … sunday
+  startTime: text("start_time").notNull(), // HH:MM in business timezone
+  capacity: integer("capacity"),
+  startsOn: text("starts_on"), // YYYY-MM-DD, null = already running
+  endsOn: text("ends_on"), // YYYY-MM-DD, null = open-ended
+  active: boolean("active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  businessIdx: index("class_schedules_business_idx").on(table.businessId),
+}));
+
+// One occurrence of a class — from a schedule, or added one-off (scheduleId null)
+export const classSessions = pgTable("class_sessions", {
+  id: serial("id").primaryKey(),
+  businessId: integer("business_id").notNull(),
+  serviceId: integer("service_id").notNull(),
+  scheduleId: integer("schedule_id"),
+  staffId: integer("staff_id"),
+  startDate: timestamp("start_date").notNull(),
+  endDate: timestamp("end_date").notNull(),
+  capacity: integer("capacity").notNull(),
+  status: text("status").notNull().default("scheduled"), // scheduled, cancelled
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  businessStartIdx: index("class_sessions_business_start_idx").on(table.businessId, table.startDate),
+  scheduleStartUnique: unique("class_sessions_schedule_start_unique").on(table.scheduleId, table.startDate),
+}));
+
+// One attendee on a session's roster. `waitlisted` attendees are promoted to
+// `booked` in join order as seats free up.
+export const classBookings = pgTable("class_bookings", {
+  id: serial("id").primaryKey(),
+  businessId: integer("business_id").notNull(),
+  sessionId: integer("session_id").notNull(),
+  customerId: integer("customer_id").notNull(),
+  status: text("status").notNull().default("booked"), // booked, waitlisted, cancelled
+  source: text("source").default("online"), // online, phone, staff
+  checkedInAt: timestamp("checked_in_at"),
+  promotedAt: timestamp("promoted_at"), // Moved off the waitlist
+  cancelledAt: timestamp("cancelled_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  sessionStatusIdx: index("class_bookings_session_status_idx").on(table.sessionId, table.status),
 }));
 
 // Jobs
@@ -664,6 +913,16 @@ export const jobs = pgTable("jobs", {
   // `quotes.jobId`; the two columns together let the dispatcher trace
   // "diagnostic job N → quote N → repair job M" without a 3-table join.
   sourceQuoteId: integer("source_quote_id"),
+  // On-site window for timesheets. Set by the geofence from GPS pings, or
+  // stamped when the tech marks in_progress / completed by hand. departedAt
+  // on an in_progress job means the tech left without completing — the job
+  // page prompts them to finish it.
+  arrivedAt: timestamp("arrived_at"),
+  departedAt: timestamp("departed_at"),
+  // Position in the assigned tech's route for scheduledDate, set when a
+  // dispatcher applies a day plan. Null = not yet routed.
+  routeOrder: integer("route_order"),
+  customFields: jsonb("custom_fields").$type<Record<string, CustomFieldValue>>().default({}),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -679,8 +938,87 @@ export const jobLineItems = pgTable("job_line_items", {
   amount: numeric("amount", { precision: 12, scale: 2 }).notNull(), // quantity * unitPrice
   taxable: boolean("taxable").default(true),
   createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(), // offline edits are checked against this
 });
 
+// Writes replayed from the tech app's offline queue, keyed by the
+// client-generated mutation ID. A replay whose first attempt already went
+// through (connection dropped before the response arrived) gets the stored
+// response back instead of running twice. Pruned after a week.
+export const offlineMutationReceipts = pgTable("offline_mutation_receipts", {
+  id: serial("id").primaryKey(),
+  businessId: integer("business_id").notNull(),
+  mutationId: text("mutation_id").notNull(),
+  statusCode: integer("status_code").notNull(),
+  response: jsonb("response"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  businessMutationUnique: unique("offline_mutation_receipts_business_mutation_unique").on(table.businessId, table.mutationId),
+}));
+
+// One question on a job form. `id` is stable across template edits so answers
+// stay matched to their field.
+export interface JobFormField {
+  id: string;
+  label: string;
+  type: "checkbox" | "reading" | "text" | "select" | "photo" | "signature";
+  required?: boolean;
+  unit?: string | null;      // readings: "psi", "A", "°F"
+  min?: number | null;       // readings: flagged (not rejected) when outside min/max
+  max?: number | null;
+  options?: string[] | null; // select
+}
+
+/**
+ * Answer value by field type: checkbox → boolean, reading → number,
+ * text/select → string, photo → { url }, signature → { image (PNG data URL),
+ * signerName, signedAt }.
+ */
+export type JobFormAnswer =
+  | boolean
+  | number
+  | string
+  | { url: string }
+  | { image: string; signerName?: string | null; signedAt: string };
+
+// Owner-defined checklist/inspection form. Attached to every new job whose
+// service is in serviceIds (empty = every job).
+export const jobFormTemplates = pgTable("job_form_templates", {
+  id: serial("id").primaryKey(),
+  businessId: integer("business_id").notNull(),
+  name: text("name").notNull(),                 // "AC Maintenance Checklist"
+  description: text("description"),
+  serviceIds: jsonb("service_ids").$type<number[]>().default([]),
+  fields: jsonb("fields").$type<JobFormField[]>().notNull().default([]),
+  requiredForCompletion: boolean("required_for_completion").default(true), // job can't be completed until submitted
+  active: boolean("active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  businessIdx: index("job_form_templates_business_idx").on(table.businessId),
+}));
+
+// A template's form on one job. Name, fields and the completion requirement are
+// snapshotted when attached, so editing a template doesn't change past reports.
+export const jobForms = pgTable("job_forms", {
+  id: serial("id").primaryKey(),
+  businessId: integer("business_id").notNull(),
+  jobId: integer("job_id").notNull(),
+  templateId: integer("template_id").notNull(),
+  name: text("name").notNull(),
+  fields: jsonb("fields").$type<JobFormField[]>().notNull().default([]),
+  requiredForCompletion: boolean("required_for_completion").default(true),
+  answers: jsonb("answers").$type<Record<string, JobFormAnswer>>().default({}),
+  status: text("status").notNull().default("pending"), // pending, submitted
+  submittedAt: timestamp("submitted_at"),
+  submittedByUserId: integer("submitted_by_user_id"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  jobTemplateUnique: unique("job_forms_job_template_unique").on(table.jobId, table.templateId),
+  businessIdx: index("job_forms_business_idx").on(table.businessId),
+}));
+
 // Invoices
 export const invoices = pgTable("invoices", {
   id: serial("id").primaryKey(),
@@ -692,9 +1030,20 @@ export const invoices = pgTable("invoices", {
   tax: numeric("tax", { precision: 12, scale: 2 }),
   total: numeric("total", { precision: 12, scale: 2 }).notNull(),
   dueDate: date("due_date"),
-  status: text("status").default("pending"), // pending, paid, overdue
+  status: text("status").default("pending"), // pending, partially_paid, paid, overdue, credited, void
   notes: text("notes"),
-  stripePaymentIntentId: text("stripe_payment_intent_id"),
+  stripePaymentIntentId: text("stripe_payment_intent_id"), // Most recent intent; the full history lives in payments
+  // Running totals maintained by invoicePaymentService from the payments ledger.
+  // balanceDue is null on rows that predate the ledger — read it via getBalanceDue().
+  amountPaid: numeric("amount_paid", { precision: 12, scale: 2 }).default("0"),
+  balanceDue: numeric("balance_due", { precision: 12, scale: 2 }),
+  // Smallest amount a customer may pay through the portal. Null = full balance only.
+  minimumPaymentAmount: numeric("minimum_payment_amount", { precision: 12, scale: 2 }),
+  // Sum of issued credit notes, as a positive number. Reduces balanceDue.
+  creditedAmount: numeric("credited_amount", { precision: 12, scale: 2 }).default("0"),
+  // Voiding keeps the row (and its number) for the books instead of deleting it
+  voidedAt: timestamp("voided_at"),
+  voidReason: text("void_reason"),
   // Public access token for customer portal
   accessToken: text("access_token"),
   accessTokenExpiresAt: timestamp("access_token_expires_at"), // Portal links expire after 90 days
@@ -719,6 +1068,86 @@ export const invoiceItems = pgTable("invoice_items", {
   amount: numeric("amount", { precision: 12, scale: 2 }).notNull(),
 });
 
+// Payments ledger — every dollar received against an invoice (or a quote deposit
+// that is later applied to the invoice the quote converts into).
+export const payments = pgTable("payments", {
+  id: serial("id").primaryKey(),
+  businessId: integer("business_id").notNull(),
+  customerId: integer("customer_id").notNull(),
+  invoiceId: integer("invoice_id"), // Null while a deposit is still attached only to its quote
+  quoteId: integer("quote_id"), // Set for deposits collected against a quote
+  amount: numeric("amount", { precision: 12, scale: 2 }).notNull(),
+  refundedAmount: numeric("refunded_amount", { precision: 12, scale: 2 }).default("0"),
+  method: text("method").notNull(), // stripe, cash, check, manual
+  status: text("status").notNull().default("succeeded"), // succeeded, partially_refunded, refunded
+  isDeposit: boolean("is_deposit").default(false),
+  stripePaymentIntentId: text("stripe_payment_intent_id"),
+  reference: text("reference"), // Check number, receipt number, etc.
+  notes: text("notes"),
+  recordedByUserId: integer("recorded_by_user_id"), // Null for Stripe webhook payments
+  paidAt: timestamp("paid_at").defaultNow(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  businessIdIdx: index("payments_business_id_idx").on(table.businessId),
+  invoiceIdIdx: index("payments_invoice_id_idx").on(table.invoiceId),
+  quoteIdIdx: index("payments_quote_id_idx").on(table.quoteId),
+  // One ledger row per PaymentIntent — makes webhook retries idempotent
+  stripePaymentIntentUnique: unique("payments_stripe_payment_intent_unique").on(table.stripePaymentIntentId),
+}));
+
+// Refunds issued against a single payment
+export const paymentRefunds = pgTable("payment_refunds", {
+  id: serial("id").primaryKey(),
+  businessId: integer("business_id").notNull(),
+  paymentId: integer("payment_id").notNull(),
+  invoiceId: integer("invoice_id"),
+  amount: numeric("amount", { precision: 12, scale: 2 }).notNull(),
+  reason: text("reason"),
+  stripeRefundId: text("stripe_refund_id"),
+  createdByUserId: integer("created_by_user_id"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  paymentIdIdx: index("payment_refunds_payment_id_idx").on(table.paymentId),
+}));
+
+// Credit notes — a numbered document that reduces what is owed on an invoice.
+// Amounts are stored negative, like the line items, so exports read as credits.
+export const creditNotes = pgTable("credit_notes", {
+  id: serial("id").primaryKey(),
+  businessId: integer("business_id").notNull(),
+  customerId: integer("customer_id").notNull(),
+  invoiceId: integer("invoice_id").notNull(),
+  creditNoteNumber: text("credit_note_number").notNull(),
+  amount: numeric("amount", { precision: 12, scale: 2 }).notNull(), // Negative subtotal
+  tax: numeric("tax", { precision: 12, scale: 2 }).default("0"), // Negative tax
+  total: numeric("total", { precision: 12, scale: 2 }).notNull(), // Negative total
+  reason: text("reason"),
+  status: text("status").notNull().default("issued"), // issued, void
+  createdByUserId: integer("created_by_user_id"),
+  voidedAt: timestamp("voided_at"),
+  quickbooksCreditMemoId: text("quickbooks_credit_memo_id"),
+  quickbooksSyncedAt: timestamp("quickbooks_synced_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  businessCreditNoteNumberUnique: unique("credit_notes_business_number_unique").on(table.businessId, table.creditNoteNumber),
+  businessIdIdx: index("credit_notes_business_id_idx").on(table.businessId),
+  invoiceIdIdx: index("credit_notes_invoice_id_idx").on(table.invoiceId),
+}));
+
+export const creditNoteItems = pgTable("credit_note_items", {
+  id: serial("id").primaryKey(),
+  creditNoteId: integer("credit_note_id").notNull(),
+  invoiceItemId: integer("invoice_item_id"), // Original line being credited, if any
+  description: text("description").notNull(),
+  quantity: integer("quantity").default(1),
+  unitPrice: numeric("unit_price", { precision: 12, scale: 2 }).notNull(), // Negative
+  amount: numeric("amount", { precision: 12, scale: 2 }).notNull(), // Negative
+}, (table) => ({
+  creditNoteIdIdx: index("credit_note_items_credit_note_id_idx").on(table.creditNoteId),
+}));
+
 // Virtual Receptionist Configuration
 export const receptionistConfig = pgTable("receptionist_config", {
   id: serial("id").primaryKey(),
@@ -735,9 +1164,18 @@ export const receptionistConfig = pgTable("receptionist_config", {
   assistantName: text("assistant_name").default("Alex"), // Name the AI introduces itself as
   customInstructions: text("custom_instructions"),       // Free-form instructions injected into the AI prompt
   aiInsightsEnabled: boolean("ai_insights_enabled").default(false), // Auto-refine pipeline toggle
+  language: text("language").default("en"),             // Primary call language (shared/languages.ts code)
+  autoDetectLanguage: boolean("auto_detect_language").default(false), // Switch when the caller speaks another supported language
+  localizedMessages: jsonb("localized_messages").$type<Record<string, LocalizedReceptionistMessages>>(), // greeting/after-hours per other language
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+/** Greeting and after-hours message in a language other than the receptionist's primary one */
+export interface LocalizedReceptionistMessages {
+  greeting?: string | null;
+  afterHoursMessage?: string | null;
+}
+
 // Call Logs
 export const callLogs = pgTable("call_logs", {
   id: serial("id").primaryKey(),
@@ -902,22 +1340,71 @@ export const quotes = pgTable("quotes", {
   status: text("status").default("pending"), // pending, accepted, declined, expired, converted
   notes: text("notes"),
   convertedToInvoiceId: integer("converted_to_invoice_id"), // Reference to the invoice if this quote was converted
+  // Required deposit. Deposit payments land in the payments ledger with quoteId set
+  // and are re-pointed at the invoice when the quote converts.
+  depositAmount: numeric("deposit_amount", { precision: 12, scale: 2 }),
+  depositPaidAt: timestamp("deposit_paid_at"), // Set once deposits received cover depositAmount
+  // Good/better/best: when the quote has options, amount/tax/total mirror the
+  // selected option (or the recommended one until the customer picks).
+  selectedOptionId: integer("selected_option_id"),
   accessToken: text("access_token"), // Token for customer portal access
   accessTokenExpiresAt: timestamp("access_token_expires_at"), // Portal links expire after 90 days
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Quote options (good/better/best tiers). Each option owns its line items;
+// quotes without options keep a flat item list with optionId null.
+export const quoteOptions = pgTable("quote_options", {
+  id: serial("id").primaryKey(),
+  quoteId: integer("quote_id").notNull(),
+  name: text("name").notNull(), // e.g., "Repair", "Replace — standard", "Replace — high efficiency"
+  description: text("description"),
+  amount: numeric("amount", { precision: 12, scale: 2 }).notNull(),
+  tax: numeric("tax", { precision: 12, scale: 2 }).default("0"),
+  total: numeric("total", { precision: 12, scale: 2 }).notNull(),
+  isRecommended: boolean("is_recommended").default(false),
+  sortOrder: integer("sort_order").default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  quoteIdIdx: index("quote_options_quote_id_idx").on(table.quoteId),
+}));
+
 // Quote items
 export const quoteItems = pgTable("quote_items", {
   id: serial("id").primaryKey(),
   quoteId: integer("quote_id").notNull(),
+  optionId: integer("option_id"), // Set when the item belongs to a quote option
   description: text("description").notNull(),
   quantity: integer("quantity").default(1),
   unitPrice: numeric("unit_price", { precision: 12, scale: 2 }).notNull(),
   amount: numeric("amount", { precision: 12, scale: 2 }).notNull(),
 });
 
+// Quote signatures — drawn e-signature captured when a customer accepts a
+// quote on the portal. `snapshot` freezes what was signed (items, totals,
+// chosen option) so the signed PDF can be reproduced even if the quote is
+// edited later; `contentHash` is a SHA-256 over snapshot + signature image.
+export const quoteSignatures = pgTable("quote_signatures", {
+  id: serial("id").primaryKey(),
+  quoteId: integer("quote_id").notNull(),
+  businessId: integer("business_id").notNull(),
+  optionId: integer("option_id"), // Chosen good/better/best option at signing, if any
+  signerName: text("signer_name").notNull(),
+  signatureImage: text("signature_image").notNull(), // PNG data URL from the signature pad
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  signedAt: timestamp("signed_at").notNull().defaultNow(),
+  snapshot: jsonb("snapshot").notNull(),
+  contentHash: text("content_hash").notNull(),
+  pdfUrl: text("pdf_url"), // S3 copy of the signed PDF, when file storage is configured
+  emailedAt: timestamp("emailed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  // One signature per quote — a second Accept on the same quote is refused
+  quoteIdUnique: unique("quote_signatures_quote_id_unique").on(table.quoteId),
+}));
+
 // Review Settings (business review link configuration)
 export const reviewSettings = pgTable("review_settings", {
   id: serial("id").primaryKey(),
@@ -953,6 +1440,15 @@ export const reviewRequests = pgTable("review_requests", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// A single edited occurrence of a recurring schedule — moved to another day
+// and/or with a different assignee or job details
+export interface RecurringOccurrenceOverride {
+  date?: string;
+  staffId?: number | null;
+  jobTitle?: string;
+  jobDescription?: string | null;
+}
+
 // Recurring Schedules (for recurring jobs and invoices)
 export const recurringSchedules = pgTable("recurring_schedules", {
   id: serial("id").primaryKey(),
@@ -962,10 +1458,17 @@ export const recurringSchedules = pgTable("recurring_schedules", {
   staffId: integer("staff_id"),
   // Schedule configuration
   name: text("name").notNull(), // e.g., "Monthly Pool Cleaning for Smith"
-  frequency: text("frequency").notNull(), // daily, weekly, biweekly, monthly, quarterly, yearly
+  frequency: text("frequency").notNull(), // daily, weekly, biweekly, monthly, quarterly, yearly, custom
   interval: integer("interval").default(1), // Every X days/weeks/months
   dayOfWeek: integer("day_of_week"), // 0-6 for weekly schedules (0 = Sunday)
   dayOfMonth: integer("day_of_month"), // 1-31 for monthly schedules
+  // RFC 5545 RRULE (e.g. "FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH"); DTSTART is startDate.
+  // Null = derived from frequency/interval/dayOfWeek/dayOfMonth (see recurrenceService)
+  rrule: text("rrule"),
+  exdates: jsonb("exdates").$type<string[]>().default([]), // skipped occurrences, YYYY-MM-DD
+  // Single-occurrence edits keyed by the original occurrence date (RECURRENCE-ID)
+  occurrenceOverrides: jsonb("occurrence_overrides").$type<Record<string, RecurringOccurrenceOverride>>().default({}),
+  parentScheduleId: integer("parent_schedule_id"), // set when "this and following" split the series
   startDate: date("start_date").notNull(),
   endDate: date("end_date"), // null = no end date
   nextRunDate: date("next_run_date"),
@@ -1136,6 +1639,30 @@ export const heartlandOrderLog = pgTable("heartland_order_log", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// How long a party of up to maxPartySize holds its table
+export interface ReservationTurnTime {
+  maxPartySize: number;
+  minutes: number;
+}
+
+// Restaurant Tables (floor plan used for table assignment; no active tables = cover-count capacity only)
+export const restaurantTables = pgTable("restaurant_tables", {
+  id: serial("id").primaryKey(),
+  businessId: integer("business_id").notNull(),
+  name: text("name").notNull(),                        // "T1", "Patio 4"
+  minCapacity: integer("min_capacity").default(1),     // smallest party worth seating here
+  capacity: integer("capacity").notNull(),
+  section: text("section"),                            // Main, Patio, Bar
+  combineGroup: text("combine_group"),                 // tables sharing a group can be pushed together
+  shape: text("shape").default("square"),              // square, round, booth
+  active: boolean("active").default(true),
+  sortOrder: integer("sort_order").default(0),          // order within the section on the floor plan
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  businessIdx: index("restaurant_tables_business_idx").on(table.businessId),
+}));
+
 // Restaurant Reservations (capacity-based reservation system for restaurants)
 export const restaurantReservations = pgTable("restaurant_reservations", {
   id: serial("id").primaryKey(),
@@ -1151,10 +1678,37 @@ export const restaurantReservations = pgTable("restaurant_reservations", {
   manageToken: text("manage_token"),                   // For customer self-service cancel/modify
   source: text("source").default("online"),            // online, phone, walk_in, manual
   vapiCallId: text("vapi_call_id"),                    // If booked via AI phone
+  tableIds: jsonb("table_ids").$type<number[]>().default([]), // assigned restaurant_tables (several when combined)
+  seatedAt: timestamp("seated_at"),
+  clearedAt: timestamp("cleared_at"),                  // table freed; ends the turn early
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Walk-in Waitlist (parties waiting for a table; joined by the host, the AI receptionist or the public QR page)
+export const waitlistEntries = pgTable("waitlist_entries", {
+  id: serial("id").primaryKey(),
+  businessId: integer("business_id").notNull(),
+  customerId: integer("customer_id").notNull(),
+  name: text("name").notNull(),                        // name the host calls out
+  phone: text("phone").notNull(),                      // paged by SMS when the table is ready
+  partySize: integer("party_size").notNull(),
+  quotedWaitMinutes: integer("quoted_wait_minutes"),   // wait quoted when the party joined
+  status: text("status").default("waiting"),           // waiting, notified, seated, cancelled, no_show
+  source: text("source").default("host"),              // host, phone, online
+  notes: text("notes"),
+  manageToken: text("manage_token"),                   // public status page / leave the line
+  notifiedAt: timestamp("notified_at"),                // "your table is ready" sent
+  confirmedAt: timestamp("confirmed_at"),              // guest replied they're on their way
+  seatedAt: timestamp("seated_at"),
+  closedAt: timestamp("closed_at"),                    // left the line (seated, cancelled, no-show)
+  reservationId: integer("reservation_id"),            // walk-in reservation created when seated
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  businessStatusIdx: index("waitlist_entries_business_status_idx").on(table.businessId, table.status),
+}));
+
 // Inventory Items (POS stock tracking for restaurants — Clover/Square)
 export const inventoryItems = pgTable("inventory_items", {
   id: serial("id").primaryKey(),
@@ -1185,6 +1739,40 @@ export const passwordResetTokens = pgTable("password_reset_tokens", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Customer Portal — one-time sign-in codes. Sent by SMS or email; only
+// hashes are stored. `linkTokenHash` backs the tap-to-sign-in link sent
+// alongside the code.
+export const customerPortalCodes = pgTable("customer_portal_codes", {
+  id: serial("id").primaryKey(),
+  businessId: integer("business_id").notNull(),
+  customerId: integer("customer_id").notNull(),
+  channel: text("channel").notNull(), // 'sms' | 'email'
+  codeHash: text("code_hash").notNull(),
+  linkTokenHash: text("link_token_hash").notNull(),
+  attempts: integer("attempts").default(0).notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  consumedAt: timestamp("consumed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  customerIdx: index("customer_portal_codes_customer_idx").on(table.customerId, table.createdAt),
+  linkTokenIdx: index("customer_portal_codes_link_token_idx").on(table.linkTokenHash),
+}));
+
+// Customer Portal — signed-in sessions, one business each. The bearer token
+// is only ever held by the customer's browser; we keep its hash.
+export const customerPortalSessions = pgTable("customer_portal_sessions", {
+  id: serial("id").primaryKey(),
+  businessId: integer("business_id").notNull(),
+  customerId: integer("customer_id").notNull(),
+  tokenHash: text("token_hash").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  lastSeenAt: timestamp("last_seen_at"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  tokenHashUnique: unique("customer_portal_sessions_token_hash_unique").on(table.tokenHash),
+}));
+
 // AI Knowledge Base - FAQ/knowledge entries for the virtual receptionist
 export const businessKnowledge = pgTable("business_knowledge", {
   id: serial("id").primaryKey(),
@@ -1195,10 +1783,16 @@ export const businessKnowledge = pgTable("business_knowledge", {
   source: text("source").notNull(), // 'website', 'owner', 'unanswered_question'
   isApproved: boolean("is_approved").default(false),
   priority: integer("priority").default(0), // Higher = more important for prompt budget
+  translations: jsonb("translations").$type<Record<string, KnowledgeTranslation>>(), // same Q&A in other languages, keyed by language code
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+export interface KnowledgeTranslation {
+  question: string;
+  answer: string;
+}
+
 // Unanswered Questions - detected from call transcripts for owner to answer
 export const unansweredQuestions = pgTable("unanswered_questions", {
   id: serial("id").primaryKey(),
@@ -1599,6 +2193,11 @@ export const webhooks = pgTable("webhooks", {
   active: boolean("active").default(true),
   description: text("description"),
   source: text("source").default("manual"), // 'manual' | 'zapier'
+  // Deliveries that exhausted their retries in a row; reset on any success.
+  // Hitting WEBHOOK_AUTO_DISABLE_THRESHOLD flips active off and stamps disabledAt.
+  consecutiveFailures: integer("consecutive_failures").notNull().default(0),
+  disabledAt: timestamp("disabled_at"),
+  disabledReason: text("disabled_reason"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -1615,8 +2214,14 @@ export const webhookDeliveries = pgTable("webhook_deliveries", {
   responseBody: text("response_body"),
   attempts: integer("attempts").default(0),
   lastAttemptAt: timestamp("last_attempt_at"),
+  url: text("url"), // Endpoint at the time of delivery (the webhook URL may change later)
+  durationMs: integer("duration_ms"), // Latency of the last attempt
+  errorMessage: text("error_message"), // Network/timeout error of the last attempt, if any
+  replayOfId: integer("replay_of_id"), // Delivery this one re-sends, when replayed by the owner
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => ({
+  businessCreatedIdx: index("webhook_deliveries_business_created_idx").on(table.businessId, table.createdAt),
+}));
 
 // Marketing Campaigns (AI marketing tab)
 export const marketingCampaigns = pgTable("marketing_campaigns", {
@@ -1707,10 +2312,18 @@ export const auditLogs = pgTable("audit_logs", {
 
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({ id: true, lastLogin: true, createdAt: true, updatedAt: true, emailVerified: true, emailVerificationCode: true, emailVerificationExpiry: true, twoFactorSecret: true, twoFactorEnabled: true, twoFactorBackupCodes: true });
-export const insertBusinessSchema = createInsertSchema(businesses).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertBusinessSchema = createInsertSchema(businesses).omit({ id: true, createdAt: true, updatedAt: true }).extend({
+  reservationTurnTimes: z.array(z.object({ maxPartySize: z.number().int(), minutes: z.number().int() })).nullable().optional(),
+});
 export const insertBusinessHoursSchema = createInsertSchema(businessHours).omit({ id: true });
 export const insertServiceSchema = createInsertSchema(services).omit({ id: true });
-export const insertCustomerSchema = createInsertSchema(customers).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertServiceAddonSchema = createInsertSchema(serviceAddons).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertCustomFieldDefinitionSchema = createInsertSchema(customFieldDefinitions).omit({ id: true, createdAt: true, updatedAt: true }).extend({
+  options: z.array(z.string()).nullable().optional(),
+});
+export const insertCustomerSchema = createInsertSchema(customers).omit({ id: true, createdAt: true, updatedAt: true }).extend({
+  customFields: z.record(z.custom<CustomFieldValue>()).nullable().optional(),
+});
 // Customer Equipment (Step 3 of HVAC roadmap). The enum auto-flows from the
 // pgEnum so Zod accepts only the 10 valid equipmentType values. Date fields
 // stay as string|null since they're stored as date columns and we accept ISO
@@ -1745,20 +2358,67 @@ const baseInsertAppointmentSchema = createInsertSchema(appointments).omit({ id:
 export const insertAppointmentSchema = baseInsertAppointmentSchema.extend({
   startDate: z.coerce.date(),
   endDate: z.coerce.date(),
+  customFields: z.record(z.custom<CustomFieldValue>()).nullable().optional(),
 });
 
+export const insertAppointmentServiceSchema = createInsertSchema(appointmentServices).omit({ id: true, createdAt: true }).extend({
+  addons: z.array(z.object({
+    addonId: z.number().int(),
+    name: z.string(),
+    price: z.number(),
+    durationMinutes: z.number().int(),
+  })).nullable().optional(),
+});
+
+export const insertAppointmentFeeSchema = createInsertSchema(appointmentFees).omit({ id: true, createdAt: true, updatedAt: true });
+
+export const insertAppointmentWaitlistEntrySchema = createInsertSchema(appointmentWaitlistEntries).omit({ id: true, createdAt: true, updatedAt: true });
+
+export const insertAppointmentSlotOfferSchema = createInsertSchema(appointmentSlotOffers).omit({ id: true, createdAt: true });
+
+export const insertClassScheduleSchema = createInsertSchema(classSchedules).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertClassSessionSchema = createInsertSchema(classSessions).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertClassBookingSchema = createInsertSchema(classBookings).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertCustomerPortalCodeSchema = createInsertSchema(customerPortalCodes).omit({ id: true, createdAt: true });
+export const insertCustomerPortalSessionSchema = createInsertSchema(customerPortalSessions).omit({ id: true, createdAt: true });
+
+export const insertRestaurantTableSchema = createInsertSchema(restaurantTables).omit({ id: true, createdAt: true, updatedAt: true });
+
+export const insertWaitlistEntrySchema = createInsertSchema(waitlistEntries).omit({ id: true, createdAt: true, updatedAt: true });
+
 // Restaurant reservation schema with date coercion
 const baseInsertRestaurantReservationSchema = createInsertSchema(restaurantReservations).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertRestaurantReservationSchema = baseInsertRestaurantReservationSchema.extend({
   startDate: z.coerce.date(),
   endDate: z.coerce.date(),
+  tableIds: z.array(z.number().int()).optional(),
 });
 
-export const insertJobSchema = createInsertSchema(jobs).omit({ id: true, createdAt: true, updatedAt: true });
-export const insertJobLineItemSchema = createInsertSchema(jobLineItems).omit({ id: true, createdAt: true });
+export const insertJobSchema = createInsertSchema(jobs).omit({ id: true, createdAt: true, updatedAt: true }).extend({
+  customFields: z.record(z.custom<CustomFieldValue>()).nullable().optional(),
+});
+export const insertJobLineItemSchema = createInsertSchema(jobLineItems).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertOfflineMutationReceiptSchema = createInsertSchema(offlineMutationReceipts).omit({ id: true, createdAt: true });
+export const insertJobFormTemplateSchema = createInsertSchema(jobFormTemplates).omit({ id: true, createdAt: true, updatedAt: true }).extend({
+  serviceIds: z.array(z.number().int()).nullable().optional(),
+  fields: z.array(z.custom<JobFormField>()).optional(),
+});
+export const insertJobFormSchema = createInsertSchema(jobForms).omit({ id: true, createdAt: true, updatedAt: true }).extend({
+  fields: z.array(z.custom<JobFormField>()).optional(),
+  answers: z.record(z.custom<JobFormAnswer>()).nullable().optional(),
+});
 export const insertInvoiceSchema = createInsertSchema(invoices).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertInvoiceItemSchema = createInsertSchema(invoiceItems).omit({ id: true });
-export const insertReceptionistConfigSchema = createInsertSchema(receptionistConfig).omit({ id: true, updatedAt: true });
+export const insertPaymentSchema = createInsertSchema(payments).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertPaymentRefundSchema = createInsertSchema(paymentRefunds).omit({ id: true, createdAt: true });
+export const insertCreditNoteSchema = createInsertSchema(creditNotes).omit({ id: true, createdAt: true, updatedAt: true, voidedAt: true, quickbooksCreditMemoId: true, quickbooksSyncedAt: true });
+export const insertCreditNoteItemSchema = createInsertSchema(creditNoteItems).omit({ id: true });
+export const insertReceptionistConfigSchema = createInsertSchema(receptionistConfig).omit({ id: true, updatedAt: true }).extend({
+  localizedMessages: z.record(z.object({
+    greeting: z.string().nullable().optional(),
+    afterHoursMessage: z.string().nullable().optional(),
+  })).nullable().optional(),
+});
 export const insertCallLogSchema = createInsertSchema(callLogs).omit({ id: true });
 export const insertCalendarIntegrationSchema = createInsertSchema(calendarIntegrations).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertSubscriptionPlanSchema = createInsertSchema(subscriptionPlans).omit({ id: true, createdAt: true, updatedAt: true });
@@ -1771,6 +2431,8 @@ export const insertQuoteSchema = baseInsertQuoteSchema.extend({
   validUntil: z.string().nullable().optional(),
 });
 export const insertQuoteItemSchema = createInsertSchema(quoteItems).omit({ id: true });
+export const insertQuoteOptionSchema = createInsertSchema(quoteOptions).omit({ id: true, createdAt: true });
+export const insertQuoteSignatureSchema = createInsertSchema(quoteSignatures).omit({ id: true, createdAt: true, pdfUrl: true, emailedAt: true });
 export const insertReviewSettingsSchema = createInsertSchema(reviewSettings).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertReviewRequestSchema = createInsertSchema(reviewRequests).omit({ id: true, createdAt: true });
 export const insertRecurringScheduleSchema = createInsertSchema(recurringSchedules).omit({ id: true, createdAt: true, updatedAt: true });
@@ -1785,7 +2447,9 @@ export const insertSquareOrderLogSchema = createInsertSchema(squareOrderLog).omi
 export const insertHeartlandMenuCacheSchema = createInsertSchema(heartlandMenuCache).omit({ id: true, createdAt: true });
 export const insertHeartlandOrderLogSchema = createInsertSchema(heartlandOrderLog).omit({ id: true, createdAt: true });
 export const insertPasswordResetTokenSchema = createInsertSchema(passwordResetTokens).omit({ id: true, createdAt: true });
-export const insertBusinessKnowledgeSchema = createInsertSchema(businessKnowledge).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertBusinessKnowledgeSchema = createInsertSchema(businessKnowledge).omit({ id: true, createdAt: true, updatedAt: true }).extend({
+  translations: z.record(z.object({ question: z.string(), answer: z.string() })).nullable().optional(),
+});
 export const insertUnansweredQuestionSchema = createInsertSchema(unansweredQuestions).omit({ id: true, createdAt: true });
 export const insertAiSuggestionSchema = createInsertSchema(aiSuggestions).omit({ id: true, createdAt: true });
 export const insertAgentSettingsSchema = createInsertSchema(agentSettings).omit({ id: true, createdAt: true, updatedAt: true });
@@ -1844,6 +2508,11 @@ export type InsertBusinessHours = z.infer<typeof insertBusinessHoursSchema>;
 export type Service = typeof services.$inferSelect;
 export type InsertService = z.infer<typeof insertServiceSchema>;
 
+export type ServiceAddon = typeof serviceAddons.$inferSelect;
+export type InsertServiceAddon = z.infer<typeof insertServiceAddonSchema>;
+
+export type CustomFieldDefinition = typeof customFieldDefinitions.$inferSelect;
+export type InsertCustomFieldDefinition = z.infer<typeof insertCustomFieldDefinitionSchema>;
 export type Customer = typeof customers.$inferSelect;
 export type InsertCustomer = z.infer<typeof insertCustomerSchema>;
 
@@ -1891,6 +2560,38 @@ export type InsertStaffService = z.infer<typeof insertStaffServiceSchema>;
 export type Appointment = typeof appointments.$inferSelect;
 export type InsertAppointment = z.infer<typeof insertAppointmentSchema>;
 
+export type AppointmentService = typeof appointmentServices.$inferSelect;
+export type InsertAppointmentService = z.infer<typeof insertAppointmentServiceSchema>;
+
+export type AppointmentFee = typeof appointmentFees.$inferSelect;
+export type InsertAppointmentFee = z.infer<typeof insertAppointmentFeeSchema>;
+
+export type AppointmentWaitlistEntry = typeof appointmentWaitlistEntries.$inferSelect;
+export type InsertAppointmentWaitlistEntry = z.infer<typeof insertAppointmentWaitlistEntrySchema>;
+
+export type AppointmentSlotOffer = typeof appointmentSlotOffers.$inferSelect;
+export type InsertAppointmentSlotOffer = z.infer<typeof insertAppointmentSlotOfferSchema>;
+
+export type ClassSchedule = typeof classSchedules.$inferSelect;
+export type InsertClassSchedule = z.infer<typeof insertClassScheduleSchema>;
+
+export type ClassSession = typeof classSessions.$inferSelect;
+export type InsertClassSession = z.infer<typeof insertClassSessionSchema>;
+
+export type ClassBooking = typeof classBookings.$inferSelect;
+export type InsertClassBooking = z.infer<typeof insertClassBookingSchema>;
+
+export type CustomerPortalCode = typeof customerPortalCodes.$inferSelect;
+export type InsertCustomerPortalCode = z.infer<typeof insertCustomerPortalCodeSchema>;
+export type CustomerPortalSession = typeof customerPortalSessions.$inferSelect;
+export type InsertCustomerPortalSession = z.infer<typeof insertCustomerPortalSessionSchema>;
+
+export type RestaurantTable = typeof restaurantTables.$inferSelect;
+export type InsertRestaurantTable = z.infer<typeof insertRestaurantTableSchema>;
+
+export type WaitlistEntry = typeof waitlistEntries.$inferSelect;
+export type InsertWaitlistEntry = z.infer<typeof insertWaitlistEntrySchema>;
+
 export type RestaurantReservation = typeof restaurantReservations.$inferSelect;
 export type InsertRestaurantReservation = z.infer<typeof insertRestaurantReservationSchema>;
 
@@ -1900,12 +2601,33 @@ export type InsertJob = z.infer<typeof insertJobSchema>;
 export type JobLineItem = typeof jobLineItems.$inferSelect;
 export type InsertJobLineItem = z.infer<typeof insertJobLineItemSchema>;
 
+export type OfflineMutationReceipt = typeof offlineMutationReceipts.$inferSelect;
+export type InsertOfflineMutationReceipt = z.infer<typeof insertOfflineMutationReceiptSchema>;
+
+export type JobFormTemplate = typeof jobFormTemplates.$inferSelect;
+export type InsertJobFormTemplate = z.infer<typeof insertJobFormTemplateSchema>;
+
+export type JobForm = typeof jobForms.$inferSelect;
+export type InsertJobForm = z.infer<typeof insertJobFormSchema>;
+
 export type Invoice = typeof invoices.$inferSelect;
 export type InsertInvoice = z.infer<typeof insertInvoiceSchema>;
 
 export type InvoiceItem = typeof invoiceItems.$inferSelect;
 export type InsertInvoiceItem = z.infer<typeof insertInvoiceItemSchema>;
 
+export type Payment = typeof payments.$inferSelect;
+export type InsertPayment = z.infer<typeof insertPaymentSchema>;
+
+export type PaymentRefund = typeof paymentRefunds.$inferSelect;
+export type InsertPaymentRefund = z.infer<typeof insertPaymentRefundSchema>;
+
+export type CreditNote = typeof creditNotes.$inferSelect;
+export type InsertCreditNote = z.infer<typeof insertCreditNoteSchema>;
+
+export type CreditNoteItem = typeof creditNoteItems.$inferSelect;
+export type InsertCreditNoteItem = z.infer<typeof insertCreditNoteItemSchema>;
+
 export type ReceptionistConfig = typeof receptionistConfig.$inferSelect;
 export type InsertReceptionistConfig = z.infer<typeof insertReceptionistConfigSchema>;
 
@@ -1927,6 +2649,12 @@ export type InsertQuote = z.infer<typeof insertQuoteSchema>;
 export type QuoteItem = typeof quoteItems.$inferSelect;
 export type InsertQuoteItem = z.infer<typeof insertQuoteItemSchema>;
 
+export type QuoteOption = typeof quoteOptions.$inferSelect;
+export type InsertQuoteOption = z.infer<typeof insertQuoteOptionSchema>;
+
+export type QuoteSignature = typeof quoteSignatures.$inferSelect;
+export type InsertQuoteSignature = z.infer<typeof insertQuoteSignatureSchema>;
+
 export type ReviewSettings = typeof reviewSettings.$inferSelect;
 export type InsertReviewSettings = z.infer<typeof insertReviewSettingsSchema>;
 
@@ -2099,6 +2827,27 @@ export const insertStaffTimeOffSchema = createInsertSchema(staffTimeOff).omit({
 export type StaffTimeOff = typeof staffTimeOff.$inferSelect;
 export type InsertStaffTimeOff = z.infer<typeof insertStaffTimeOffSchema>;
 
+// Bookable resources — rooms, chairs, stations, lifts. Services with a
+// requiredResourceType only book when a resource of that type has room;
+// capacity is how many appointments it holds at once (a couples room = 2).
+export const resources = pgTable("resources", {
+  id: serial("id").primaryKey(),
+  businessId: integer("business_id").notNull(),
+  name: text("name").notNull(),                   // "Room 2", "Lift A"
+  resourceType: text("resource_type").notNull(),  // matched against services.requiredResourceType
+  capacity: integer("capacity").notNull().default(1),
+  active: boolean("active").default(true),
+  sortOrder: integer("sort_order").default(0),    // assignment preference, lowest first
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  businessIdx: index("resources_business_idx").on(table.businessId),
+}));
+
+export const insertResourceSchema = createInsertSchema(resources).omit({ id: true, createdAt: true, updatedAt: true });
+export type Resource = typeof resources.$inferSelect;
+export type InsertResource = z.infer<typeof insertResourceSchema>;
+
 // Websites — one-page sites generated via OpenAI
 export const websites = pgTable("websites", {
   id: serial("id").primaryKey(),
@@ -2260,6 +3009,32 @@ export const insertInboundMessageSchema = createInsertSchema(inboundMessages).om
 export type InboundMessage = typeof inboundMessages.$inferSelect;
 export type InsertInboundMessage = z.infer<typeof insertInboundMessageSchema>;
 
+// SMS Inbox Threads — one per customer phone; assignment, read state and human takeover for the owner inbox.
+// Messages themselves stay in inbound_messages / outbound_messages.
+export const smsInboxThreads = pgTable("sms_inbox_threads", {
+  id: serial("id").primaryKey(),
+  businessId: integer("business_id").notNull(),
+  customerId: integer("customer_id"), // Null until the number matches a customer
+  customerPhone: text("customer_phone").notNull(), // E.164 as Twilio delivers it
+  assignedStaffId: integer("assigned_staff_id"),
+  takenOverByUserId: integer("taken_over_by_user_id"), // Set while a person, not an agent, owns the thread
+  takenOverAt: timestamp("taken_over_at"),
+  unreadCount: integer("unread_count").notNull().default(0),
+  lastReadAt: timestamp("last_read_at"),
+  lastMessageAt: timestamp("last_message_at"),
+  lastMessagePreview: text("last_message_preview"),
+  lastDirection: text("last_direction"), // inbound, outbound
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  businessPhoneUnique: unique("sms_inbox_threads_business_phone_unique").on(table.businessId, table.customerPhone),
+  businessRecentIdx: index("sms_inbox_threads_business_recent_idx").on(table.businessId, table.lastMessageAt),
+}));
+
+export const insertSmsInboxThreadSchema = createInsertSchema(smsInboxThreads).omit({ id: true, createdAt: true, updatedAt: true });
+export type SmsInboxThread = typeof smsInboxThreads.$inferSelect;
+export type InsertSmsInboxThread = z.infer<typeof insertSmsInboxThreadSchema>;
+
 // Conversation State — per-customer conversation tracking for intelligence service
 export const conversationStates = pgTable("conversation_states", {
   id: serial("id").primaryKey(),
@@ -2387,7 +3162,7 @@ export const workflows = pgTable("workflows", {
   description: text("description"),
   triggerEvent: text("trigger_event").notNull(), // appointment.completed, appointment.no_show, job.completed, invoice.overdue, invoice.paid, manual
   status: text("status").default("draft"), // draft, active, paused
-  steps: jsonb("steps").default([]), // Array<{ type: 'wait'|'send_sms', config: { delayMinutes?, messageType?, messagePrompt? } }>
+  steps: jsonb("steps").default([]), // Array<{ type: 'wait'|'send_sms'|'send_email'|'create_task_for_owner'|'add_tag'|'webhook'|'if', config }> — `if` steps nest then/else step arrays
   templateId: text("template_id"), // ID of the template this was created from
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -2412,7 +3187,7 @@ export const workflowRuns = pgTable("workflow_runs", {
   currentStep: integer("current_step").default(0),
   status: text("status").default("active"), // active, completed, cancelled, failed
   cancelReason: text("cancel_reason"),
-  context: jsonb("context").default({}), // Runtime data: { appointmentId, jobId, invoiceId, etc. }
+  context: jsonb("context").default({}), // Runtime data: { appointmentId, jobId, invoiceId, cursor (position in step tree), branches (path taken), etc. }
   startedAt: timestamp("started_at").defaultNow(),
   nextStepAt: timestamp("next_step_at"),
   completedAt: timestamp("completed_at"),
@@ -2498,6 +3273,36 @@ export const insertDeadLetterJobSchema = createInsertSchema(deadLetterJobs).omit
 export type DeadLetterJob = typeof deadLetterJobs.$inferSelect;
 export type InsertDeadLetterJob = z.infer<typeof insertDeadLetterJobSchema>;
 
+// Scheduled task run history — one row per execution of a task declared in
+// server/services/schedulerRegistry.ts, shown in the admin Schedulers tab.
+export const scheduledTaskRuns = pgTable("scheduled_task_runs", {
+  id: serial("id").primaryKey(),
+  taskKey: text("task_key").notNull(),
+  trigger: text("trigger").notNull().default("schedule"), // schedule | startup | manual
+  status: text("status").notNull().default("running"), // running | success | failed | timeout
+  startedAt: timestamp("started_at").defaultNow().notNull(),
+  finishedAt: timestamp("finished_at"),
+  durationMs: integer("duration_ms"),
+  counts: jsonb("counts").$type<Record<string, number>>(), // what the run did, e.g. { sent: 12, failed: 1 }
+  error: text("error"),
+  triggeredBy: integer("triggered_by"), // admin user for manual runs
+}, (table) => ({
+  taskStartedIdx: index("scheduled_task_runs_task_started_idx").on(table.taskKey, table.startedAt),
+}));
+
+export type ScheduledTaskRun = typeof scheduledTaskRuns.$inferSelect;
+
+// Per-task admin overrides. A task with no row runs on its declared schedule.
+export const scheduledTaskSettings = pgTable("scheduled_task_settings", {
+  taskKey: text("task_key").primaryKey(),
+  paused: boolean("paused").notNull().default(false),
+  pausedAt: timestamp("paused_at"),
+  pausedBy: integer("paused_by"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export type ScheduledTaskSetting = typeof scheduledTaskSettings.$inferSelect;
+
 // Invoice Number Sequences (atomic sequential invoice numbers per business)
 export const invoiceSequences = pgTable("invoice_sequences", {
   id: serial("id").primaryKey(),
@@ -2507,6 +3312,15 @@ export const invoiceSequences = pgTable("invoice_sequences", {
   businessIdIdx: unique("invoice_sequences_business_id_idx").on(table.businessId),
 }));
 
+// Credit Note Number Sequences (separate counter so credit notes never consume invoice numbers)
+export const creditNoteSequences = pgTable("credit_note_sequences", {
+  id: serial("id").primaryKey(),
+  businessId: integer("business_id").notNull(),
+  lastNumber: integer("last_number").notNull().default(0),
+}, (table) => ({
+  businessIdIdx: unique("credit_note_sequences_business_id_idx").on(table.businessId),
+}));
+
 // ═══════════════════════════════════════════════════════════════════════════
 // GPS Live Dispatch
 // ═══════════════════════════════════════════════════════════════════════════